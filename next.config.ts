@@ -11,7 +11,7 @@ const nextConfig: NextConfig = {
 
   // Externalize native modules to reduce bundle size and memory usage
   // These packages will be loaded from node_modules at runtime
-  serverExternalPackages: ["pg", "mysql2", "mongodb", "better-sqlite3", "ssh2"],
+  serverExternalPackages: ["pg", "mysql2", "mongodb", "better-sqlite3", "ssh2", "@duckdb/node-api", "cassandra-driver"],
 };
 
 export default nextConfig;
@@ -12,6 +12,7 @@
 #                                      (self-contained since v13: N-API
 #                                      prebuilds live inside the package)
 #   - node_modules/@libredb/libredb -> lazy-imported, not seen by file tracing
+#   - node_modules/@duckdb          -> lazy-imported, with its platform binding
 #   - seed-assets/                  -> vendored sample DB templates (fs-read
 #                                      at runtime, not seen by file tracing)
 #   - data/                         -> default SQLite storage directory
@@ -190,6 +191,13 @@ mkdir -p "$PAYLOAD_DIR/node_modules/@libredb"
 rm -rf "$PAYLOAD_DIR/node_modules/@libredb/libredb"
 cp -R node_modules/@libredb/libredb "$PAYLOAD_DIR/node_modules/@libredb/libredb"
 
+if [ ! -d node_modules/@duckdb/node-api ]; then
+  echo "node_modules/@duckdb/node-api not found - run 'bun install --frozen-lockfile' first" >&2
+  exit 1
+fi
+rm -rf "${PAYLOAD_DIR:?}/node_modules/@duckdb"
+cp -R node_modules/@duckdb "$PAYLOAD_DIR/node_modules/@duckdb"
+
 # Vendored sample database templates (seed-assets/): read at runtime relative
 # to the payload root, so output file tracing never includes them — copy
 # explicitly (mirrors the Dockerfile runner stage COPY).
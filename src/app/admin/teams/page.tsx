@@ -0,0 +1,9 @@
+import { TeamsTab } from "@/components/admin/tabs/TeamsTab";
+
+export default function AdminTeamsPage() {
+  return (
+    <div data-testid="admin-content-teams" className="mx-auto max-w-7xl px-4 sm:px-6 py-6">
+      <TeamsTab />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { UsersTab } from "@/components/admin/tabs/UsersTab";
+
+export default function AdminUsersPage() {
+  return (
+    <div data-testid="admin-content-users" className="mx-auto max-w-7xl px-4 sm:px-6 py-6">
+      <UsersTab />
+    </div>
+  );
+}
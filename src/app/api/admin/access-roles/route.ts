@@ -0,0 +1,113 @@
+/**
+ * GET    /api/admin/access-roles              — every custom role, and the seeds a grant can name
+ * POST   /api/admin/access-roles              — create a role, or replace the one with its `name`
+ * DELETE /api/admin/access-roles?name=...     — delete one
+ *
+ * Admin only, and only with server storage: the roles live there, and without it
+ * nobody holds one and the built-in `admin` and `user` decide everything.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { createErrorResponse } from "@/lib/api/errors";
+import { emitAuditEvent } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import { getSeedConnectionsUnfiltered } from "@/lib/seed";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { AccessRoleInputError, readAccessRoleInput } from "@/lib/access/input";
+import { readAccessRoles, updateAccessRoles } from "@/lib/access/store";
+import type { AccessRole, GrantableConnection } from "@/lib/access/types";
+
+const STORAGE_DISABLED = "Custom roles need server storage (STORAGE_PROVIDER=sqlite or postgres)";
+const ADMIN_REQUIRED = "Unauthorized. Admin access required.";
+
+/** Isolated like every admin change's audit line: the change is already saved. */
+function recordChange(action: string, name: string, user: string, route: string) {
+  try {
+    emitAuditEvent({ type: "access_role", action, target: name, user, result: "success" });
+  } catch (auditError) {
+    logger.error("Failed to record access_role audit event", auditError, { route });
+  }
+}
+
+export async function GET() {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (session.role !== "admin") return NextResponse.json({ error: ADMIN_REQUIRED }, { status: 403 });
+
+    const roles = await readAccessRoles(storage);
+    roles.sort((a, b) => a.name.localeCompare(b.name));
+    const connections: GrantableConnection[] = (await getSeedConnectionsUnfiltered()).map((conn) => ({
+      seedId: conn.seedId,
+      name: conn.name,
+    }));
+    return NextResponse.json({ roles, connections });
+  } catch (error) {
+    return createErrorResponse(error, { route: "GET /api/admin/access-roles" });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (session.role !== "admin") return NextResponse.json({ error: ADMIN_REQUIRED }, { status: 403 });
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 });
+    }
+    const input = readAccessRoleInput(body);
+
+    const role: AccessRole = { ...input, updatedAt: new Date().toISOString(), updatedBy: session.username };
+    const created = await updateAccessRoles(storage, (current) => {
+      const existing = current.some((r) => r.name === role.name);
+      return {
+        roles: existing ? current.map((r) => (r.name === role.name ? role : r)) : [...current, role],
+        result: !existing,
+      };
+    });
+
+    recordChange(created ? "create" : "update", role.name, session.username, "POST /api/admin/access-roles");
+    return NextResponse.json({ role });
+  } catch (error) {
+    if (error instanceof AccessRoleInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return createErrorResponse(error, { route: "POST /api/admin/access-roles" });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (session.role !== "admin") return NextResponse.json({ error: ADMIN_REQUIRED }, { status: 403 });
+
+    const name = request.nextUrl.searchParams.get("name");
+    if (!name) return NextResponse.json({ error: "name is required" }, { status: 400 });
+
+    const removed = await updateAccessRoles(storage, (current) => ({
+      roles: current.filter((r) => r.name !== name),
+      result: current.some((r) => r.name === name),
+    }));
+    if (!removed) return NextResponse.json({ error: "Role not found" }, { status: 404 });
+
+    recordChange("delete", name, session.username, "DELETE /api/admin/access-roles");
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return createErrorResponse(error, { route: "DELETE /api/admin/access-roles" });
+  }
+}
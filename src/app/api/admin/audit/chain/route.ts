@@ -0,0 +1,98 @@
+/**
+ * GET  /api/admin/audit/chain — a contiguous range of the durable audit trail, oldest
+ *                               first, with each event's `seq`, `prevHash` and `hash`
+ * POST /api/admin/audit/chain — { events }: verify a range exported by the GET
+ *
+ * Admin only, and only where the durable store runs (`src/lib/audit-store/`). The
+ * range is `since` to `until`, at most 10,000 events per response (`offset` for the
+ * next), and comes with its own verification, so an export of a store that was
+ * edited says so before anyone downloads it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { createErrorResponse } from "@/lib/api/errors";
+import { verifyAuditChain } from "@/lib/audit-store/chain";
+import { getAuditStoreHealth } from "@/lib/audit-store/health";
+import { AuditQueryError, MAX_EXPORT_SIZE, readAuditExportRange } from "@/lib/audit-store/query";
+import type { StoredAuditEvent } from "@/lib/audit-store/types";
+import { getStorageProvider } from "@/lib/storage/factory";
+
+const STORE_DISABLED = "The durable audit store needs server storage (STORAGE_PROVIDER=sqlite or postgres)";
+const ADMIN_REQUIRED = "Unauthorized. Admin access required.";
+const EXPORT_FORMAT = "libredb.audit-chain.v1";
+
+function isStoredAuditEvent(value: unknown): value is StoredAuditEvent {
+  if (!value || typeof value !== "object") return false;
+  const { seq, event, prevHash, hash } = value as Record<string, unknown>;
+  return (
+    Number.isSafeInteger(seq) &&
+    typeof prevHash === "string" &&
+    typeof hash === "string" &&
+    !!event &&
+    typeof event === "object" &&
+    !Array.isArray(event)
+  );
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const storage = getAuditStoreHealth() ? await getStorageProvider() : null;
+    if (!storage) return NextResponse.json({ error: STORE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (session.role !== "admin") return NextResponse.json({ error: ADMIN_REQUIRED }, { status: 403 });
+
+    let range;
+    try {
+      range = readAuditExportRange(new URL(request.url).searchParams);
+    } catch (error) {
+      if (error instanceof AuditQueryError) return NextResponse.json({ error: error.message }, { status: 400 });
+      throw error;
+    }
+    const page = await storage.queryAuditEvents(range);
+    return NextResponse.json({
+      format: EXPORT_FORMAT,
+      exportedAt: new Date().toISOString(),
+      since: range.since ?? null,
+      until: range.until ?? null,
+      offset: range.offset,
+      total: page.total,
+      events: page.events,
+      verification: verifyAuditChain(page.events),
+    });
+  } catch (error) {
+    return createErrorResponse(error, { route: "GET /api/admin/audit/chain" });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (session.role !== "admin") return NextResponse.json({ error: ADMIN_REQUIRED }, { status: 403 });
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 });
+    }
+    const events = (body as { events?: unknown } | null)?.events;
+    if (!Array.isArray(events) || !events.every(isStoredAuditEvent)) {
+      return NextResponse.json(
+        { error: "events must be the array an export returned: { seq, event, prevHash, hash } each" },
+        { status: 400 },
+      );
+    }
+    if (events.length > MAX_EXPORT_SIZE) {
+      return NextResponse.json({ error: `At most ${MAX_EXPORT_SIZE} events are verified at once` }, { status: 400 });
+    }
+    // Checked on the events alone, not against the store: an export is verified long
+    // after it was taken, and by then retention may have removed what it holds.
+    return NextResponse.json({ verification: verifyAuditChain(events) });
+  } catch (error) {
+    return createErrorResponse(error, { route: "POST /api/admin/audit/chain" });
+  }
+}
@@ -1,8 +1,19 @@
 import { getSession } from "@/lib/auth";
 import { NextResponse } from "next/server";
-import { getServerAuditBuffer, sanitizeAuditInput, type AuditEventType } from "@/lib/audit";
+import { getServerAuditBuffer, sanitizeAuditInput } from "@/lib/audit";
 import { createErrorResponse } from "@/lib/api/errors";
+import { getAuditSinkHealth } from "@/lib/audit-sinks/health";
+import { getAuditStoreHealth } from "@/lib/audit-store/health";
+import { AuditQueryError, readAuditQuery } from "@/lib/audit-store/query";
+import { getStorageProvider } from "@/lib/storage/factory";
 
+/**
+ * GET /api/admin/audit — one page of events, newest first, filtered by `type`,
+ * `user`, `connection`, `reason`, `result`, `since` and `until`, with `limit` and
+ * `offset`. Read from the durable store when this process keeps one
+ * (`src/lib/audit-store/`), and from the in-process ring buffer otherwise; `source`
+ * says which, since only the store outlives a restart.
+ */
 export async function GET(request: Request) {
   try {
     const session = await getSession();
@@ -10,14 +21,44 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: "Unauthorized. Admin access required." }, { status: 403 });
     }
 
-    const { searchParams } = new URL(request.url);
-    const type = searchParams.get("type") as AuditEventType | null;
-    const limit = parseInt(searchParams.get("limit") || "100", 10);
+    let query;
+    try {
+      query = readAuditQuery(new URL(request.url).searchParams);
+    } catch (error) {
+      if (error instanceof AuditQueryError) return NextResponse.json({ error: error.message }, { status: 400 });
+      throw error;
+    }
+    const { limit, offset } = query;
+    // The SIEM sinks' and the store's state ride along: the tab that shows the events
+    // is where an admin notices that a copy of the trail has stopped arriving.
+    const health = { store: getAuditStoreHealth(), sinks: getAuditSinkHealth() };
 
-    const buffer = getServerAuditBuffer();
-    const events = type ? buffer.filter({ type }) : buffer.getRecent(limit);
+    const provider = health.store ? await getStorageProvider() : null;
+    if (provider) {
+      const page = await provider.queryAuditEvents(query);
+      return NextResponse.json({
+        events: page.events.map((stored) => stored.event),
+        total: page.total,
+        limit,
+        offset,
+        source: "store",
+        ...health,
+      });
+    }
 
-    return NextResponse.json({ events, total: buffer.size });
+    const buffer = getServerAuditBuffer();
+    const { type, user, connectionName, reason, result, since, until } = query;
+    const filters = { type, user, connectionName, reason, result, since, until };
+    const filtered = Object.values(filters).some((value) => value !== undefined);
+    const matched = [...(filtered ? buffer.filter(filters) : buffer.getRecent(buffer.size))].reverse();
+    return NextResponse.json({
+      events: matched.slice(offset, offset + limit),
+      total: matched.length,
+      limit,
+      offset,
+      source: "memory",
+      ...health,
+    });
   } catch (error) {
     return createErrorResponse(error, { route: "GET /api/admin/audit" });
   }
@@ -0,0 +1,157 @@
+/**
+ * GET  /api/admin/change-requests  — the queue: pending requests first, then the decided ones
+ * POST /api/admin/change-requests  — `{ id, decision: "approve" | "reject" }`
+ *
+ * The second pair of eyes on an `approval` connection. An admin other than the
+ * requester decides each request, and an approved one runs here, on the server,
+ * as the `preview` the reviewer read - the requester never runs it themselves.
+ * Guarded like `/api/admin/transactions`: approving reaches a database.
+ */
+
+import { NextResponse } from "next/server";
+import { createErrorResponse } from "@/lib/api/errors";
+import { guardRoute } from "@/lib/api/require-session";
+import { emitAuditEvent } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import { recordChangeRequestEvent } from "@/lib/change-requests/audit";
+import { runChangeRequest } from "@/lib/change-requests/run";
+import { changeRequestView, readChangeRequests, updateChangeRequests } from "@/lib/change-requests/store";
+import type { ChangeRequest } from "@/lib/change-requests/types";
+import { getStorageProvider } from "@/lib/storage/factory";
+
+const STORAGE_DISABLED = "Change requests need server storage (STORAGE_PROVIDER=sqlite or postgres)";
+const ADMIN_REQUIRED = "Unauthorized. Admin access required.";
+
+type Claim = { outcome: "missing" } | { outcome: "decided" | "own" | "claimed"; request: ChangeRequest };
+
+export async function GET(request: Request) {
+  const guard = await guardRoute({ route: "GET /api/admin/change-requests", bucket: "query", request });
+  if ("response" in guard) return guard.response;
+
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+    if (guard.session.role !== "admin") return NextResponse.json({ error: ADMIN_REQUIRED }, { status: 403 });
+
+    const requests = (await readChangeRequests(storage)).reverse();
+    requests.sort((a, b) => Number(b.status === "pending") - Number(a.status === "pending"));
+    return NextResponse.json({ requests: requests.map(changeRequestView) });
+  } catch (error) {
+    return createErrorResponse(error, { route: "GET /api/admin/change-requests" });
+  }
+}
+
+export async function POST(request: Request) {
+  const route = "POST /api/admin/change-requests";
+  const guard = await guardRoute({ route, bucket: "query", request });
+  if ("response" in guard) return guard.response;
+
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+    const { session } = guard;
+    if (session.role !== "admin") return NextResponse.json({ error: ADMIN_REQUIRED }, { status: 403 });
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 });
+    }
+    const { id, decision } = body ?? {};
+    if (typeof id !== "string" || (decision !== "approve" && decision !== "reject")) {
+      return NextResponse.json(
+        { error: "A request id and a decision of approve or reject are required" },
+        { status: 400 },
+      );
+    }
+
+    // Claimed in the storage write that reads it: of two reviewers deciding at once,
+    // on this server or another, the second finds the request taken rather than
+    // running it a second time.
+    const claim = await updateChangeRequests<Claim>(storage, (current) => {
+      const found = current.find((r) => r.id === id);
+      if (!found) return { requests: current, result: { outcome: "missing" } };
+      if (found.status !== "pending") return { requests: current, result: { outcome: "decided", request: found } };
+      if (found.requestedBy.toLowerCase() === session.username.toLowerCase()) {
+        return { requests: current, result: { outcome: "own", request: found } };
+      }
+      const decided: ChangeRequest = {
+        ...found,
+        status: decision === "approve" ? "executing" : "rejected",
+        reviewedBy: session.username,
+        reviewedAt: new Date().toISOString(),
+      };
+      return {
+        requests: current.map((r) => (r.id === id ? decided : r)),
+        result: { outcome: "claimed", request: decided },
+      };
+    });
+
+    if (claim.outcome === "missing") {
+      return NextResponse.json({ error: "Change request not found" }, { status: 404 });
+    }
+    if (claim.outcome === "decided") {
+      return NextResponse.json({ error: `Change request already ${claim.request.status}` }, { status: 409 });
+    }
+    if (claim.outcome === "own") {
+      // Isolated like every other denial's audit line: the refusal is already decided.
+      try {
+        emitAuditEvent({
+          type: "permission_denied",
+          action: decision,
+          target: claim.request.seedId ?? "own connection",
+          connectionName: claim.request.connectionName,
+          user: session.username,
+          result: "failure",
+          reason: "self_approval",
+          correlationId: claim.request.id,
+        });
+      } catch (auditError) {
+        logger.error("Failed to record permission_denied audit event", auditError, { route });
+      }
+      return NextResponse.json(
+        { error: "A change request is decided by someone other than the person who submitted it" },
+        { status: 403 },
+      );
+    }
+
+    const decided = claim.request;
+    recordChangeRequestEvent(decision, decided, session.username, undefined, route);
+    if (decided.status === "rejected") return NextResponse.json({ request: changeRequestView(decided) });
+
+    // Written over whatever the request reads by then: a server booting meanwhile
+    // may have marked it interrupted, and this is how it really ended.
+    const finished = await runApproved(decided, session.username, route);
+    await updateChangeRequests(storage, (current) => ({
+      requests: current.map((r) => (r.id === id ? finished : r)),
+      result: undefined,
+    }));
+    return NextResponse.json({ request: changeRequestView(finished) });
+  } catch (error) {
+    return createErrorResponse(error, { route });
+  }
+}
+
+/**
+ * Run the approved request and describe how it ended. A statement the database
+ * refuses is an outcome of the request, not of this route: it is recorded on the
+ * request for both people to read, and the route answers 200.
+ */
+async function runApproved(request: ChangeRequest, reviewer: string, route: string): Promise<ChangeRequest> {
+  const startTime = Date.now();
+  try {
+    const { rowCount, executionTime } = await runChangeRequest(request);
+    recordChangeRequestEvent("execute", request, reviewer, { result: "success", duration: executionTime }, route);
+    return { ...request, status: "executed", rowCount, executionTime };
+  } catch (error) {
+    const executionTime = Date.now() - startTime;
+    recordChangeRequestEvent("execute", request, reviewer, { result: "failure", duration: executionTime }, route);
+    return {
+      ...request,
+      status: "failed",
+      executionTime,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
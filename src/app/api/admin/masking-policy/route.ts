@@ -0,0 +1,85 @@
+/**
+ * GET /api/admin/masking-policy  — the masking policy in force, and the seeds a rule can name
+ * PUT /api/admin/masking-policy  — replace it
+ *
+ * Admin only. Without server storage the built-in policy applies and cannot be
+ * replaced: `GET` answers it with `editable: false`, and `PUT` is a 404.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { createErrorResponse } from "@/lib/api/errors";
+import { emitAuditEvent } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import { getSeedConnectionsUnfiltered } from "@/lib/seed";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { MaskingPolicyInputError, readMaskingPolicyInput } from "@/lib/masking/input";
+import { DEFAULT_MASKING_POLICY, readMaskingPolicy, saveMaskingPolicy } from "@/lib/masking/store";
+import type { MaskingPolicy } from "@/lib/masking/types";
+import type { GrantableConnection } from "@/lib/access/types";
+
+const STORAGE_DISABLED = "Saving a masking policy needs server storage (STORAGE_PROVIDER=sqlite or postgres)";
+const ADMIN_REQUIRED = "Unauthorized. Admin access required.";
+
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (session.role !== "admin") return NextResponse.json({ error: ADMIN_REQUIRED }, { status: 403 });
+
+    const storage = await getStorageProvider();
+    const policy = storage ? await readMaskingPolicy(storage) : DEFAULT_MASKING_POLICY;
+    const connections: GrantableConnection[] = (await getSeedConnectionsUnfiltered()).map((conn) => ({
+      seedId: conn.seedId,
+      name: conn.name,
+    }));
+    return NextResponse.json({ policy, connections, editable: storage !== null });
+  } catch (error) {
+    return createErrorResponse(error, { route: "GET /api/admin/masking-policy" });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (session.role !== "admin") return NextResponse.json({ error: ADMIN_REQUIRED }, { status: 403 });
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 });
+    }
+    const policy: MaskingPolicy = {
+      ...readMaskingPolicyInput(body),
+      updatedAt: new Date().toISOString(),
+      updatedBy: session.username,
+    };
+    await saveMaskingPolicy(storage, policy);
+
+    // Isolated like every admin change's audit line: the policy is already saved.
+    try {
+      emitAuditEvent({
+        type: "masking_policy",
+        action: "update",
+        target: "masking policy",
+        user: session.username,
+        result: "success",
+      });
+    } catch (auditError) {
+      logger.error("Failed to record masking_policy audit event", auditError, {
+        route: "PUT /api/admin/masking-policy",
+      });
+    }
+    return NextResponse.json({ policy });
+  } catch (error) {
+    if (error instanceof MaskingPolicyInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return createErrorResponse(error, { route: "PUT /api/admin/masking-policy" });
+  }
+}
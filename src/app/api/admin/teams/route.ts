@@ -0,0 +1,97 @@
+/**
+ * GET    /api/admin/teams         — every team, with its members
+ * POST   /api/admin/teams         — create one, or change one when the body has its `id`
+ * DELETE /api/admin/teams?id=...  — delete one and everything published to it
+ *
+ * Admin only, and only with server storage: a team's workspace lives there, under
+ * the team rather than any member.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "node:crypto";
+import { getSession } from "@/lib/auth";
+import { createErrorResponse } from "@/lib/api/errors";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { readTeamInput, TeamInputError } from "@/lib/teams/input";
+import type { Team } from "@/lib/teams/types";
+
+const STORAGE_DISABLED = "Team workspaces need server storage (STORAGE_PROVIDER=sqlite or postgres)";
+const ADMIN_REQUIRED = "Unauthorized. Admin access required.";
+
+export async function GET() {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (session.role !== "admin") return NextResponse.json({ error: ADMIN_REQUIRED }, { status: 403 });
+
+    const teams = (await storage.listTeamCollection("team")).map(({ data }) => data);
+    teams.sort((a, b) => a.name.localeCompare(b.name));
+    return NextResponse.json({ teams });
+  } catch (error) {
+    return createErrorResponse(error, { route: "GET /api/admin/teams" });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (session.role !== "admin") return NextResponse.json({ error: ADMIN_REQUIRED }, { status: 403 });
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 });
+    }
+    const input = readTeamInput(body);
+
+    const existing = input.id ? await storage.getTeamCollection(input.id, "team") : null;
+    if (input.id && !existing) return NextResponse.json({ error: "Team not found" }, { status: 404 });
+
+    const now = new Date().toISOString();
+    const team: Team = {
+      id: existing?.id ?? `team_${randomUUID().replaceAll("-", "")}`,
+      name: input.name,
+      members: input.members,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await storage.setTeamCollection(team.id, "team", team);
+
+    return NextResponse.json({ team });
+  } catch (error) {
+    if (error instanceof TeamInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return createErrorResponse(error, { route: "POST /api/admin/teams" });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (session.role !== "admin") return NextResponse.json({ error: ADMIN_REQUIRED }, { status: 403 });
+
+    const id = request.nextUrl.searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+    if (!(await storage.getTeamCollection(id, "team"))) {
+      return NextResponse.json({ error: "Team not found" }, { status: 404 });
+    }
+
+    await storage.deleteTeam(id);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return createErrorResponse(error, { route: "DELETE /api/admin/teams" });
+  }
+}
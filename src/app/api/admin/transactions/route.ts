@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { createErrorResponse } from "@/lib/api/errors";
+import { guardRoute } from "@/lib/api/require-session";
+import { emitAuditEvent } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import { listTransactions, rollbackTransactionById } from "@/lib/db/transactions";
+
+/**
+ * The editor transactions open in this process, for the admin Operations tab, and a
+ * forced rollback of one of them. Guarded like fleet-health: a rollback reaches a
+ * database, and the list says who holds a connection where.
+ */
+export async function GET(request: Request) {
+  const guard = await guardRoute({ route: "GET /api/admin/transactions", bucket: "query", request });
+  if ("response" in guard) return guard.response;
+
+  if (guard.session.role !== "admin") {
+    return NextResponse.json({ error: "Unauthorized. Admin access required." }, { status: 403 });
+  }
+
+  return NextResponse.json({ transactions: listTransactions() });
+}
+
+export async function POST(request: Request) {
+  const guard = await guardRoute({ route: "POST /api/admin/transactions", bucket: "query", request });
+  if ("response" in guard) return guard.response;
+
+  if (guard.session.role !== "admin") {
+    return NextResponse.json({ error: "Unauthorized. Admin access required." }, { status: 403 });
+  }
+
+  try {
+    const { action, id } = await request.json();
+
+    if (action !== "rollback" || typeof id !== "string" || id === "") {
+      return NextResponse.json({ error: "action 'rollback' and a transaction id are required" }, { status: 400 });
+    }
+
+    const target = await rollbackTransactionById(id);
+    if (!target) {
+      return NextResponse.json({ error: "Transaction not found. It may already have ended." }, { status: 404 });
+    }
+
+    // Isolated like the maintenance route's: the rollback has already happened, and a
+    // broken audit sink must not report it as a failure the admin would retry.
+    try {
+      emitAuditEvent({
+        type: "kill_session",
+        action: "ROLLBACK",
+        target: `${target.username} / ${target.tabName || target.tabId}`,
+        connectionName: target.connectionName,
+        user: guard.session.username,
+        result: "success",
+      });
+    } catch (auditError) {
+      logger.error("Failed to record transaction rollback audit event", auditError, {
+        route: "POST /api/admin/transactions",
+      });
+    }
+
+    return NextResponse.json({ status: "rolled_back" });
+  } catch (error) {
+    return createErrorResponse(error, { route: "POST /api/admin/transactions" });
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * GET  /api/admin/users  — every login: the stored accounts, and the env ones read-only
+ * POST /api/admin/users  — { action, email, role? }: invite, reset, disable, enable or role
+ *
+ * Admin only, and only with server storage: that is where the accounts live. An
+ * invite or a reset answers with a one-time setup link for the admin to pass on;
+ * the link's token is not kept anywhere it could be read back.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { AuthConfigError } from "@/lib/auth-errors";
+import { createErrorResponse } from "@/lib/api/errors";
+import { emitAuditEvent } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import { getAuthUsers, type AuthUser } from "@/lib/local-auth";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { AccountInputError, normalizeEmail, readAccountAction } from "@/lib/accounts/input";
+import { AccountStateError, issueSetup, listAccounts, summarizeAccount, updateAccount } from "@/lib/accounts/store";
+import type { AccountSummary, LocalAccount } from "@/lib/accounts/types";
+
+const STORAGE_DISABLED = "User accounts need server storage (STORAGE_PROVIDER=sqlite or postgres)";
+const ADMIN_REQUIRED = "Unauthorized. Admin access required.";
+
+/** The env accounts, or none when ADMIN_PASSWORD is unset and only OIDC signs anyone in. */
+function environmentAccounts(): AuthUser[] {
+  try {
+    return getAuthUsers();
+  } catch (error) {
+    if (error instanceof AuthConfigError) return [];
+    throw error;
+  }
+}
+
+export async function GET() {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (session.role !== "admin") return NextResponse.json({ error: ADMIN_REQUIRED }, { status: 403 });
+
+    const users: AccountSummary[] = [
+      ...environmentAccounts().map(
+        (u): AccountSummary => ({ email: u.email, role: u.role, status: "active", source: "environment" }),
+      ),
+      ...(await listAccounts(storage)).map(summarizeAccount).sort((a, b) => a.email.localeCompare(b.email)),
+    ];
+    return NextResponse.json({ users });
+  } catch (error) {
+    return createErrorResponse(error, { route: "GET /api/admin/users" });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (session.role !== "admin") return NextResponse.json({ error: ADMIN_REQUIRED }, { status: 403 });
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 });
+    }
+    const input = readAccountAction(body);
+
+    if (environmentAccounts().some((u) => normalizeEmail(u.email) === input.email)) {
+      throw new AccountInputError(`${input.email} is set by environment variables and cannot be changed here`);
+    }
+    // An admin who could lock themselves out could leave the deployment with no admin at all.
+    if (input.email === normalizeEmail(session.username) && (input.action === "disable" || input.action === "role")) {
+      throw new AccountInputError("You cannot disable your own account or change its role");
+    }
+
+    const now = new Date().toISOString();
+    const issued = input.action === "invite" || input.action === "reset" ? issueSetup(input.action) : null;
+
+    const account = await updateAccount(storage, input.email, (current): LocalAccount => {
+      if (input.action === "invite") {
+        if (current) throw new AccountStateError(`${input.email} already has an account`, 409);
+        return {
+          email: input.email,
+          role: input.role!,
+          passwordHash: null,
+          setup: issued!.setup,
+          disabled: false,
+          sessionsValidFrom: now,
+          createdAt: now,
+          createdBy: session.username,
+          updatedAt: now,
+        };
+      }
+      if (!current) throw new AccountStateError(`${input.email} has no account`, 404);
+      switch (input.action) {
+        case "reset":
+          // The old password stops working now, not when the new one is set - a reset is
+          // often asked for because someone else knows it.
+          return { ...current, passwordHash: null, setup: issued!.setup, sessionsValidFrom: now, updatedAt: now };
+        case "disable":
+          return { ...current, disabled: true, sessionsValidFrom: now, updatedAt: now };
+        case "enable":
+          return { ...current, disabled: false, updatedAt: now };
+        case "role":
+          return { ...current, role: input.role!, sessionsValidFrom: now, updatedAt: now };
+      }
+    });
+
+    // Isolated like every other admin emit: the change is made, and a broken audit sink must not
+    // report it as failed.
+    try {
+      emitAuditEvent({
+        type: "user_account",
+        action: input.action === "role" ? `role:${account.role}` : input.action,
+        target: account.email,
+        user: session.username,
+        result: "success",
+      });
+    } catch (auditError) {
+      logger.error("Failed to record user_account audit event", auditError, { route: "POST /api/admin/users" });
+    }
+
+    return NextResponse.json({
+      user: summarizeAccount(account),
+      ...(issued && {
+        setupUrl: `${request.nextUrl.origin}/login/setup?token=${issued.token}`,
+        setupExpiresAt: issued.setup.expiresAt,
+      }),
+    });
+  } catch (error) {
+    if (error instanceof AccountInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof AccountStateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return createErrorResponse(error, { route: "POST /api/admin/users" });
+  }
+}
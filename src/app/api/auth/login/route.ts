@@ -1,6 +1,10 @@
-import { login } from "@/lib/auth";
+import { login, type Role } from "@/lib/auth";
 import { AuthConfigError } from "@/lib/auth-errors";
 import { getAuthUsers } from "@/lib/local-auth";
+import { authenticateLDAP, getLDAPConfig, mapLDAPGroups, mapLDAPRole } from "@/lib/ldap-auth";
+import { LdapResultError, LdapUnavailableError } from "@/lib/ldap/client";
+import { loadAccessRoles } from "@/lib/access/enforce";
+import { authenticateAccount, isAccountName, recordAccountLogin, recordDirectoryLogin } from "@/lib/accounts/session";
 import { NextRequest, NextResponse } from "next/server";
 import { createErrorResponse } from "@/lib/api/errors";
 import { clientAddress } from "@/lib/api/client-address";
@@ -25,8 +29,40 @@ const ROUTE = "POST /api/auth/login";
  */
 const DUMMY_PASSWORD = "libredb-dummy-password-never-a-credential";
 
+// Says what to do without saying why: the underlying error names hosts and DNs, and goes to the
+// server log instead.
+const DIRECTORY_UNAVAILABLE_MESSAGE =
+  "The directory server could not be reached. Try again later, or ask an administrator to check the LDAP settings.";
+
 type LoginBucket = Extract<RateLimitBucket, "login_client" | "login_account">;
 
+interface MatchedLogin {
+  email: string;
+  role: Role;
+  stored: boolean;
+  groups?: string[];
+}
+
+/**
+ * The directory's answer for a name no env account holds (src/lib/ldap-auth.ts). The role and the
+ * custom-role groups are mapped here, at sign-in, the way the OIDC callback maps its claim: only
+ * the groups that matter ride in the cookie, and a storage failure fails the sign-in rather than
+ * issuing a session that has lost its read-only role. A login name that is an env or stored
+ * account's in another case is refused like a wrong password: the directory does not get to say
+ * who that account is.
+ */
+async function matchDirectoryUser(email: string, password: string): Promise<MatchedLogin | null> {
+  const config = getLDAPConfig();
+  const identity = await authenticateLDAP(email, password, config);
+  if (!identity || (await isAccountName(identity.username))) return null;
+  return {
+    email: identity.username,
+    role: mapLDAPRole(identity.groups, config.adminGroups),
+    stored: false,
+    groups: mapLDAPGroups(identity.groups, await loadAccessRoles()),
+  };
+}
+
 /**
  * Peek, not consume: a legitimate user who logs in repeatedly must not throttle themselves, so
  * only FAILURES spend budget. The trip is audited once per window, on the transition. The bucket
@@ -119,12 +155,77 @@ export async function POST(request: NextRequest) {
     const user = users.find((u) => u.email === submittedEmail);
     const candidate = user?.password ?? DUMMY_PASSWORD;
     const passwordMatches = secretsMatch(submittedPassword, candidate);
-    const matched = user && passwordMatches ? user : null;
+    // Run for every attempt, env email or not, so a stored account costs the same one password
+    // hash as a miss. An env account wins: an invite for one of their emails is refused, so this
+    // only matters if the env changed since.
+    const account = await authenticateAccount(submittedEmail, submittedPassword);
+    let matched: MatchedLogin | null =
+      user && passwordMatches
+        ? { email: user.email, role: user.role, stored: false }
+        : !user && account
+          ? { email: account.email, role: account.role, stored: true }
+          : null;
+
+    // With the LDAP provider, a name that is no env account and no stored account's password is
+    // the directory's to decide. An env account never reaches the directory, so the configured
+    // admin stays a way in while the directory is down - and a directory entry that shares an env
+    // account's email cannot take that account over.
+    if (!matched && !user && process.env.NEXT_PUBLIC_AUTH_PROVIDER === "ldap") {
+      try {
+        matched = await matchDirectoryUser(submittedEmail, submittedPassword);
+      } catch (directoryError) {
+        if (!(directoryError instanceof LdapUnavailableError || directoryError instanceof LdapResultError)) {
+          throw directoryError;
+        }
+        logger.error("The LDAP directory could not answer a login", directoryError, { route: ROUTE });
+        // Not a wrong password, so the account bucket is left alone; the address bucket is
+        // still charged, so a caller cannot keep a broken directory busy from one address
+        // at no cost.
+        consumeRateLimit("login_client", clientKey);
+        // Isolated for the same reason as every other emit in this route.
+        try {
+          emitAuditEvent({
+            type: "login_failure",
+            action: "login",
+            target: ROUTE,
+            user: actor,
+            result: "failure",
+            reason: "ldap_unavailable",
+            ip,
+          });
+        } catch (auditError) {
+          logger.error("Failed to record login_failure audit event", auditError, { route: ROUTE });
+        }
+        return NextResponse.json({ success: false, message: DIRECTORY_UNAVAILABLE_MESSAGE }, { status: 503 });
+      }
+    }
 
     if (matched) {
-      await login(matched.role, matched.email);
+      if (matched.stored) {
+        await login(matched.role, matched.email, { account: true });
+      } else if (matched.groups) {
+        await login(matched.role, matched.email, { groups: matched.groups });
+      } else {
+        await login(matched.role, matched.email);
+      }
       resetRateLimit("login_client", clientKey);
       resetRateLimit("login_account", accountKey);
+      if (matched.stored) {
+        // After login(), and isolated like the audit emit below: the session exists, and a failed
+        // bookkeeping write must not turn it into a 500.
+        try {
+          await recordAccountLogin(matched.email);
+        } catch (recordError) {
+          logger.error("Failed to record the account's last login", recordError, { route: ROUTE });
+        }
+      } else if (matched.groups) {
+        // A directory user: isolated for the same reason.
+        try {
+          await recordDirectoryLogin(matched.email, { role: matched.role, groups: matched.groups, source: "ldap" });
+        } catch (recordError) {
+          logger.error("Failed to record the directory sign-in", recordError, { route: ROUTE });
+        }
+      }
       // Isolated in its own try/catch, separate from login() above, matching logout and the OIDC
       // callback: a real session has already been created by this point, so a failure to record
       // it must never turn a successful login into a 500 for a user who is in fact logged in.
@@ -1,9 +1,13 @@
-import { getSession } from "@/lib/auth";
+import { getSession, logout } from "@/lib/auth";
 import { NextResponse } from "next/server";
 
 export async function GET() {
   const session = await getSession();
   if (!session) {
+    // A cookie getSession() refused - expired, or a stored account disabled or reset since it was
+    // issued - is dropped here: the proxy only checks the signature, so it would otherwise keep
+    // letting the browser into pages whose every API call now answers 401.
+    await logout();
     return NextResponse.json({ authenticated: false }, { status: 401 });
   }
   return NextResponse.json({ authenticated: true, user: session });
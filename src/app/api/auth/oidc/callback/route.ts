@@ -1,7 +1,17 @@
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { login } from "@/lib/auth";
-import { getOIDCConfig, discoverProvider, exchangeCode, decryptState, mapOIDCRole, getPublicOrigin } from "@/lib/oidc";
+import {
+  getOIDCConfig,
+  discoverProvider,
+  exchangeCode,
+  decryptState,
+  mapOIDCGroups,
+  mapOIDCRole,
+  getPublicOrigin,
+} from "@/lib/oidc";
+import { loadAccessRoles } from "@/lib/access/enforce";
+import { recordDirectoryLogin } from "@/lib/accounts/session";
 import { logger } from "@/lib/logger";
 import { clientAddress } from "@/lib/api/client-address";
 import { emitAuditEvent, type AuditReason } from "@/lib/audit";
@@ -81,13 +91,26 @@ export async function GET(request: Request) {
     // Map role from claims
     const role = mapOIDCRole(claims as Record<string, unknown>, oidcConfig.roleClaim, oidcConfig.adminRoles);
 
+    // The claim values that confer a custom role (src/lib/access/). The roles are read here, not
+    // when the session is used, so only the values that matter ride in the cookie; a storage
+    // failure fails the sign-in rather than issuing a session that has lost its read-only role.
+    const groups = mapOIDCGroups(claims as Record<string, unknown>, oidcConfig.roleClaim, await loadAccessRoles());
+
     // Create local JWT session (same as password login)
     const username = claims.email || claims.preferred_username || claims.sub || role;
-    await login(role, username);
+    await login(role, username, { groups });
 
     // Clean up state cookie
     cookieStore.delete("oidc-state");
 
+    // Isolated like the audit emit below: the session exists, and a failed bookkeeping write
+    // must not turn it into a failed sign-in.
+    try {
+      await recordDirectoryLogin(String(username), { role, groups, source: "oidc" });
+    } catch (recordError) {
+      logger.error("Failed to record the directory sign-in", recordError, { route: ROUTE });
+    }
+
     // Isolated in its own try/catch, separate from login() above: a real session already exists by
     // this point, so a failure to record it must never turn a successful login into a recorded (or
     // outer-catch-driven) login_failure.
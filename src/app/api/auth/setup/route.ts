@@ -0,0 +1,103 @@
+/**
+ * GET  /api/auth/setup?token=...       — who a setup link is for, while it works
+ * POST /api/auth/setup { token, password } — set the account's password and sign in
+ *
+ * Public, like the rest of /api/auth: whoever holds an invite or reset link has no
+ * session yet. The token is the credential, so a wrong one spends the address's
+ * login budget exactly as a wrong password does.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { login } from "@/lib/auth";
+import { createErrorResponse } from "@/lib/api/errors";
+import { clientAddress } from "@/lib/api/client-address";
+import { consumeRateLimit, peekRateLimit, RateLimitError } from "@/lib/api/rate-limit";
+import { emitAuditEvent } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { AccountStateError, findAccountBySetupToken, updateAccount } from "@/lib/accounts/store";
+import { hashPassword, passwordProblem } from "@/lib/accounts/password";
+
+const STORAGE_DISABLED = "User accounts need server storage (STORAGE_PROVIDER=sqlite or postgres)";
+const LINK_INVALID = "This link is invalid or has expired. Ask an administrator for a new one.";
+
+/** Refuse an address that already spent its login budget, before the token is looked at. */
+function enforceLimit(ip: string): void {
+  const decision = peekRateLimit("login_client", ip);
+  if (!decision.allowed) throw new RateLimitError(decision.retryAfterSeconds);
+}
+
+export async function GET(request: NextRequest) {
+  const ip = clientAddress(request);
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+    enforceLimit(ip);
+
+    const account = await findAccountBySetupToken(storage, request.nextUrl.searchParams.get("token") ?? "");
+    if (!account) {
+      consumeRateLimit("login_client", ip);
+      return NextResponse.json({ error: LINK_INVALID }, { status: 404 });
+    }
+    return NextResponse.json({ email: account.email, purpose: account.setup!.purpose });
+  } catch (error) {
+    return createErrorResponse(error, { route: "GET /api/auth/setup" });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const ip = clientAddress(request);
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+    enforceLimit(ip);
+
+    let token: unknown;
+    let password: unknown;
+    try {
+      ({ token, password } = await request.json());
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 });
+    }
+    if (typeof password !== "string") return NextResponse.json({ error: "password is required" }, { status: 400 });
+    const problem = passwordProblem(password);
+    if (problem) return NextResponse.json({ error: problem }, { status: 400 });
+
+    const found = await findAccountBySetupToken(storage, typeof token === "string" ? token : "");
+    if (!found) {
+      consumeRateLimit("login_client", ip);
+      return NextResponse.json({ error: LINK_INVALID }, { status: 404 });
+    }
+
+    const passwordHash = await hashPassword(password);
+    // Re-checked inside the update: an admin may have reset, disabled or re-invited the account
+    // since the lookup, and the link must then be as dead as the token it carried.
+    const account = await updateAccount(storage, found.email, (current) => {
+      if (!current || current.disabled || current.setup?.tokenHash !== found.setup!.tokenHash) {
+        throw new AccountStateError(LINK_INVALID, 404);
+      }
+      const now = new Date().toISOString();
+      return { ...current, passwordHash, setup: null, updatedAt: now, lastLoginAt: now };
+    });
+
+    await login(account.role, account.email, { account: true });
+    try {
+      emitAuditEvent({
+        type: "user_account",
+        action: "set_password",
+        target: account.email,
+        user: account.email,
+        result: "success",
+        ip,
+      });
+    } catch (auditError) {
+      logger.error("Failed to record user_account audit event", auditError, { route: "POST /api/auth/setup" });
+    }
+    return NextResponse.json({ success: true, role: account.role });
+  } catch (error) {
+    if (error instanceof AccountStateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return createErrorResponse(error, { route: "POST /api/auth/setup" });
+  }
+}
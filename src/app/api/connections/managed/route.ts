@@ -1,4 +1,6 @@
 import { NextResponse } from "next/server";
+import { loadAccessRoles } from "@/lib/access/enforce";
+import { assignedRoles, connectionPermissions } from "@/lib/access/grants";
 import { getSession } from "@/lib/auth";
 import { getManagedConnections, getPendingSeeds } from "@/lib/seed";
 import { logger } from "@/lib/logger";
@@ -12,7 +14,14 @@ export async function GET() {
       return NextResponse.json({ error: "Authentication required" }, { status: 401 });
     }
 
-    const connections = await getManagedConnections([session.role]);
+    // A seed is listed when its `roles` name the session's built-in role or one of
+    // its custom roles, and those roles grant reading it - the same two checks
+    // `resolveConnection` makes, so nothing is listed that would then be refused.
+    const accessRoles = session.role === "admin" ? [] : await loadAccessRoles();
+    const roleNames = [session.role, ...assignedRoles(accessRoles, session).map((role) => role.name)];
+    const connections = (await getManagedConnections(roleNames)).filter((conn) =>
+      connectionPermissions(accessRoles, session, conn.seedId).has("read"),
+    );
 
     const sanitized = connections.map((conn) => {
       if (conn.managed) {
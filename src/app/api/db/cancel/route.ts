@@ -7,7 +7,7 @@ import { guardRoute } from "@/lib/api/require-session";
 export async function POST(req: NextRequest) {
   // Moved ahead of req.json(): an unauthenticated caller no longer gets a body parsed on its
   // behalf, and the rate limiter sees the request before any work is done for it.
-  const guard = await guardRoute({ route: "POST /api/db/cancel", bucket: "query", request: req });
+  const guard = await guardRoute({ route: "POST /api/db/cancel", bucket: "query", request: req, tokenScope: "query" });
   if ("response" in guard) return guard.response;
 
   try {
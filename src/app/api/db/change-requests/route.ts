@@ -0,0 +1,91 @@
+/**
+ * POST /api/db/change-requests — send a write on an `approval` connection to the queue
+ *
+ * The write the query route refused with `APPROVAL_REQUIRED`, submitted instead of
+ * run: the statement, the connection it targets and `prepareQuery`'s reading of it,
+ * which is what runs once someone else approves it in the admin queue
+ * (`/api/admin/change-requests`). Nothing reaches the database here but the
+ * provider that reads the statement.
+ */
+
+import { randomUUID } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { createErrorResponse } from "@/lib/api/errors";
+import { guardRoute } from "@/lib/api/require-session";
+import { readBoundParams } from "@/lib/api/bound-params";
+import { grantTarget, requireGrant } from "@/lib/access/enforce";
+import { statementPermission } from "@/lib/access/grants";
+import { writePolicyOf } from "@/lib/access/write-policy";
+import { recordChangeRequestEvent } from "@/lib/change-requests/audit";
+import { changeRequestView, updateChangeRequests } from "@/lib/change-requests/store";
+import type { ChangeRequest } from "@/lib/change-requests/types";
+import { getOrCreateProvider } from "@/lib/db";
+import { resolveConnection } from "@/lib/seed/resolve-connection";
+import { readsSqlText } from "@/lib/sql/grammar";
+import { isMultiStatement } from "@/lib/sql/statement-splitter";
+import { getStorageProvider } from "@/lib/storage/factory";
+
+const ROUTE = "POST /api/db/change-requests";
+const STORAGE_DISABLED = "Change requests need server storage (STORAGE_PROVIDER=sqlite or postgres)";
+
+export async function POST(req: NextRequest) {
+  const guard = await guardRoute({ route: ROUTE, bucket: "query", request: req });
+  if ("response" in guard) return guard.response;
+
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const body = await req.json();
+    const { sql } = body;
+    const connection = await resolveConnection(body, guard.session);
+
+    if (typeof sql !== "string" || sql.trim() === "") {
+      return NextResponse.json({ error: "sql is required" }, { status: 400 });
+    }
+    if (writePolicyOf(connection) !== "approval") {
+      return NextResponse.json(
+        { error: `Connection "${connection.name}" does not take change requests: its writes need no approval` },
+        { status: 400 },
+      );
+    }
+    // The approved text runs as one call to the driver, which is not how the editor
+    // runs a script: it splits one into statements and stops at the first failure.
+    if (readsSqlText(connection.type) && isMultiStatement(sql)) {
+      return NextResponse.json({ error: "A change request holds one statement" }, { status: 400 });
+    }
+
+    const permission = statementPermission(sql, connection.type);
+    if (permission === "read") {
+      return NextResponse.json({ error: "A read needs no approval: run it in the editor" }, { status: 400 });
+    }
+    const target = grantTarget(body);
+    await requireGrant(guard.session, target, permission, connection.name);
+
+    const bound = readBoundParams(body.params);
+    if (!bound.valid) {
+      return NextResponse.json({ error: bound.message }, { status: 400 });
+    }
+
+    const provider = await getOrCreateProvider(connection);
+    const request: ChangeRequest = {
+      id: `cr_${randomUUID().replaceAll("-", "")}`,
+      sql,
+      preview: provider.prepareQuery(sql, {}).query,
+      ...(bound.params && { params: bound.params }),
+      permission,
+      connectionName: connection.name,
+      databaseType: connection.type,
+      ...(target ? { seedId: target } : { connection }),
+      requestedBy: guard.session.username,
+      requestedAt: new Date().toISOString(),
+      status: "pending",
+    };
+    await updateChangeRequests(storage, (current) => ({ requests: [...current, request], result: undefined }));
+
+    recordChangeRequestEvent("submit", request, guard.session.username, undefined, ROUTE);
+    return NextResponse.json({ request: changeRequestView(request) });
+  } catch (error) {
+    return createErrorResponse(error, { route: ROUTE });
+  }
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createErrorResponse } from "@/lib/api/errors";
+import { resolveConnection } from "@/lib/seed/resolve-connection";
+import { guardRoute } from "@/lib/api/require-session";
+import { isSelectQuery } from "@/lib/db/utils/query-limiter";
+import type { MaskingPattern } from "@/lib/data-masking";
+import { quoteQualifiedName } from "@/lib/query-generators";
+import { DataDiffError, diffRows } from "@/lib/data-diff/compare";
+import { primaryKeyOf, readDiffSide } from "@/lib/data-diff/read";
+import { reconcileScript, supportsReconcileScript } from "@/lib/data-diff/script";
+import type { DataDiffSideSpec, RowDiff } from "@/lib/data-diff/types";
+import { grantTarget } from "@/lib/access/enforce";
+import { editorExecution } from "@/lib/access/editor-execution";
+import { loadMaskingPolicy, recordUnmask, requestsUnmask } from "@/lib/masking/enforce";
+import { maskedColumns, maskRows } from "@/lib/masking/policy";
+
+/** The most differing rows the response carries. The summary counts all of them, and the script covers all of them. */
+const REPORTED_ROWS = 1000;
+
+/** A side as the body names it: a table or a statement, never both and never neither. */
+function readSideSpec(value: unknown): DataDiffSideSpec | null {
+  if (typeof value !== "object" || value === null) return null;
+  const { table, sql } = value as Record<string, unknown>;
+  const hasTable = typeof table === "string" && table.trim() !== "";
+  const hasSql = typeof sql === "string" && sql.trim() !== "";
+  if (hasTable === hasSql) return null;
+  return hasTable ? { table: (table as string).trim() } : { sql: (sql as string).trim() };
+}
+
+function readKeyColumns(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && v.trim() !== "") : [];
+}
+
+/**
+ * Compare the rows of two tables or two statements — on one connection or two — by
+ * key, and write the script that makes the target's rows the source's.
+ *
+ * Same guard and bucket as `POST /api/db/query`: it reads what the same user could
+ * read there. Both sides are read here rather than in the browser because a side
+ * can be far larger than a grid page, and because the script has to be written from
+ * the values as they are: the rows that go back to the browser are masked under the
+ * deployment's policy (`src/lib/masking/`), each side for its own connection and
+ * table, and when that masks any compared column the script is withheld rather than
+ * written from masked values or handed out unmasked.
+ */
+export async function POST(req: NextRequest) {
+  const guard = await guardRoute({ route: "POST /api/db/data-diff", bucket: "query", request: req });
+  if ("response" in guard) return guard.response;
+
+  try {
+    const body = await req.json();
+    const sourceSpec = readSideSpec(body.source);
+    const targetSpec = readSideSpec(body.target);
+    if (!sourceSpec || !targetSpec) {
+      return NextResponse.json({ error: "Each side needs either a table or a query" }, { status: 400 });
+    }
+
+    const [sourceConnection, targetConnection] = await Promise.all([
+      resolveConnection(body.source, guard.session),
+      resolveConnection(body.target, guard.session),
+    ]);
+    // Each side is read as the editor would read it, on its connection's read-only
+    // boundary when that connection takes no writes.
+    const [sourceExecution, targetExecution] = await Promise.all([
+      editorExecution(sourceConnection),
+      editorExecution(targetConnection),
+    ]);
+    const sourceProvider = sourceExecution.provider;
+    const targetProvider = targetExecution.provider;
+
+    for (const [provider, spec, type] of [
+      [sourceProvider, sourceSpec, sourceConnection.type],
+      [targetProvider, targetSpec, targetConnection.type],
+    ] as const) {
+      if (provider.getCapabilities().queryLanguage !== "sql") {
+        return NextResponse.json({ error: "Data diff is only supported for SQL databases" }, { status: 400 });
+      }
+      if (spec.sql && !isSelectQuery(spec.sql, type)) {
+        return NextResponse.json({ error: "Only a statement that returns rows can be compared" }, { status: 400 });
+      }
+    }
+
+    // The key the body names, else the primary key of the table the script would write to.
+    let keyColumns = readKeyColumns(body.keyColumns);
+    if (keyColumns.length === 0 && targetSpec.table) keyColumns = await primaryKeyOf(targetProvider, targetSpec.table);
+    if (keyColumns.length === 0 && sourceSpec.table) keyColumns = await primaryKeyOf(sourceProvider, sourceSpec.table);
+    if (keyColumns.length === 0) {
+      throw new DataDiffError(
+        "Neither side is a table with a primary key. Choose the key columns that identify a row.",
+      );
+    }
+
+    const [source, target] = await Promise.all([
+      readDiffSide(sourceExecution, sourceSpec, keyColumns, "source"),
+      readDiffSide(targetExecution, targetSpec, keyColumns, "target"),
+    ]);
+    const diff = diffRows(source, target, keyColumns);
+
+    const allColumns = [...diff.columns, ...diff.sourceOnlyColumns, ...diff.targetOnlyColumns];
+    // Unmasked only when asked for and `unmask` is held on both sides: a row pairs the
+    // two, and the script carries values from both. Otherwise a column either side's
+    // policy masks is masked in every row.
+    const sourceSeed = grantTarget(body.source);
+    const targetSeed = grantTarget(body.target);
+    const unmask =
+      (await requestsUnmask(guard.session, body, sourceSeed, sourceConnection.name)) &&
+      (await requestsUnmask(guard.session, body, targetSeed, targetConnection.name));
+    const sensitive = new Map<string, MaskingPattern>();
+    if (!unmask) {
+      const policy = await loadMaskingPolicy();
+      for (const [seed, spec] of [
+        [targetSeed, targetSpec],
+        [sourceSeed, sourceSpec],
+      ] as const) {
+        for (const [column, pattern] of maskedColumns(policy, seed, spec.sql ?? spec.table ?? "", allColumns)) {
+          sensitive.set(column, pattern);
+        }
+      }
+    }
+    const mask = (row: Record<string, unknown> | undefined) => row && maskRows([row], allColumns, sensitive)[0];
+    const rows: RowDiff[] = diff.rows.slice(0, REPORTED_ROWS).map((row) => ({
+      ...row,
+      key: mask(row.key)!,
+      source: mask(row.source),
+      target: mask(row.target),
+    }));
+
+    let script: string | null = null;
+    let scriptUnavailable: string | null = null;
+    if (!targetSpec.table) {
+      scriptUnavailable = "The target is a query, so there is no table to write the script for.";
+    } else if (!supportsReconcileScript(targetConnection.type)) {
+      scriptUnavailable = `Reconciling scripts are not written for ${targetConnection.type}.`;
+    } else if (diff.columns.some((column) => sensitive.has(column))) {
+      scriptUnavailable = "The compared columns include masked ones, so the script is withheld.";
+    } else {
+      script = reconcileScript(
+        diff,
+        targetConnection.type,
+        quoteQualifiedName(targetSpec.table, targetProvider.getCapabilities()),
+      );
+    }
+
+    if (unmask) {
+      for (const [seed, name] of [
+        [sourceSeed, sourceConnection.name],
+        [targetSeed, targetConnection.name],
+      ] as const) {
+        recordUnmask(guard.session, { action: "data_diff", connection: seed, connectionName: name });
+      }
+    }
+
+    return NextResponse.json({
+      ...diff,
+      rows,
+      truncated: diff.rows.length > rows.length,
+      dialect: targetConnection.type,
+      script,
+      scriptUnavailable,
+      masking: { columns: allColumns.filter((column) => sensitive.has(column)), canReveal: false },
+    });
+  } catch (error) {
+    if (error instanceof DataDiffError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    return createErrorResponse(error, { route: "api/db/data-diff" });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createErrorResponse } from "@/lib/api/errors";
+import { resolveConnection } from "@/lib/seed/resolve-connection";
+import { guardRoute } from "@/lib/api/require-session";
+import { readBoundParams } from "@/lib/api/bound-params";
+import { isSelectQuery } from "@/lib/db/utils/query-limiter";
+import { isStreamableExportFormat, resultExportFileName, STREAMABLE_EXPORT_FORMATS } from "@/lib/export/result-export";
+import { createResultExportStream } from "@/lib/export/stream";
+import { grantTarget, requireGrant } from "@/lib/access/enforce";
+import { editorExecution } from "@/lib/access/editor-execution";
+import { enforceWritePolicy } from "@/lib/access/write-policy";
+import { statementPermission } from "@/lib/access/grants";
+import { loadMaskingPolicy, recordUnmask, requestsUnmask } from "@/lib/masking/enforce";
+
+/**
+ * The request body. The studio sends JSON when it saves the file itself; where the
+ * browser cannot be handed a file to write to, it submits a form whose `payload`
+ * field holds that same JSON, so the browser downloads the response on its own.
+ */
+async function readExportBody(req: NextRequest): Promise<Record<string, unknown>> {
+  if (!req.headers.get("content-type")?.startsWith("application/x-www-form-urlencoded")) return req.json();
+  const payload = (await req.formData()).get("payload");
+  return typeof payload === "string" ? JSON.parse(payload) : {};
+}
+
+/**
+ * Re-runs a statement and streams its WHOLE result as an export file, rather than
+ * the page the grid holds (`src/lib/export/scope.ts`). Same guard, bucket and
+ * connection resolution as `POST /api/db/query`, because it reaches the same
+ * database on the same user's behalf.
+ */
+export async function POST(req: NextRequest) {
+  const guard = await guardRoute({ route: "POST /api/db/export", bucket: "query", request: req, tokenScope: "query" });
+  if ("response" in guard) return guard.response;
+
+  try {
+    const body = await readExportBody(req);
+    const { sql, format, tabName } = body;
+
+    const connection = await resolveConnection(body, guard.session);
+
+    if (typeof sql !== "string" || !sql) {
+      return NextResponse.json({ error: "Connection and query are required" }, { status: 400 });
+    }
+
+    if (!isStreamableExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Unsupported export format. Supported: ${STREAMABLE_EXPORT_FORMATS.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    const bound = readBoundParams(body.params);
+    if (!bound.valid) {
+      return NextResponse.json({ error: bound.message }, { status: 400 });
+    }
+
+    // The export itself, and whatever running the statement again needs: the SQL
+    // check below only refuses a write to SQL, and a MongoDB `$out` reads as one here.
+    const target = grantTarget(body);
+    const permissions = await requireGrant(guard.session, target, "export", connection.name);
+    const statement = statementPermission(sql, connection.type);
+    if (!permissions.has(statement)) await requireGrant(guard.session, target, statement, connection.name);
+    enforceWritePolicy(guard.session, connection, statement);
+    const unmask = await requestsUnmask(guard.session, body, target, connection.name);
+
+    // The same provider and path the editor would run it on, so a connection that
+    // takes no writes is read on its read-only boundary here too.
+    const execution = await editorExecution(connection);
+
+    // An export re-runs the statement, unattended and possibly many times over as it
+    // pages, so it is only offered for one that reads. The grid already ran a write
+    // once; running it again to "export" it is never what was meant.
+    if (execution.provider.getCapabilities().queryLanguage === "sql" && !isSelectQuery(sql, connection.type)) {
+      return NextResponse.json({ error: "Only a statement that returns rows can be exported" }, { status: 400 });
+    }
+
+    const file = await createResultExportStream({
+      execution,
+      sql,
+      params: bound.params,
+      format,
+      tabName: typeof tabName === "string" ? tabName : "",
+      dialect: connection.type,
+      // Under the deployment's masking policy, unless the caller asked for the values
+      // as read and holds `unmask` - which is then recorded, once for the whole file.
+      masking: unmask ? null : { policy: await loadMaskingPolicy(), connection: target },
+    });
+    if (unmask) recordUnmask(guard.session, { action: "export", connection: target, connectionName: connection.name });
+
+    return new Response(file.stream, {
+      headers: {
+        "Content-Type": file.mimeType,
+        "Content-Disposition": `attachment; filename="${resultExportFileName(format)}"`,
+        // Each chunk is a batch the database has just handed over; a proxy that holds
+        // them back turns the progress the browser shows into a single jump at the end.
+        "Cache-Control": "no-store",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    return createErrorResponse(error, { route: "api/db/export" });
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOrCreateProvider } from "@/lib/db";
+import { createErrorResponse } from "@/lib/api/errors";
+import { resolveConnection } from "@/lib/seed/resolve-connection";
+import { guardRoute } from "@/lib/api/require-session";
+import { isBareIdentifier } from "@/lib/sql/identifier";
+import type { TransactionHandle } from "@/lib/db/types";
+import { IMPORT_FORMATS, isImportFormat, openImportSource, type ImportSource } from "@/lib/import/formats";
+import { blobAsyncBuffer } from "@/lib/import/parquet";
+import { INFERENCE_SAMPLE_ROWS, resolveColumnTypes } from "@/lib/import/infer";
+import { buildCreateTable, buildInsertBatch, importBatchSize } from "@/lib/import/insert";
+import { IMPORT_COLUMN_TYPES, type ImportColumnType } from "@/lib/import/types";
+import { grantTarget, requireGrant } from "@/lib/access/enforce";
+import { enforceWritePolicy } from "@/lib/access/write-policy";
+import { hasTransactionalDdl } from "@/lib/migrations/runner";
+import { readBodyWithin } from "@/lib/api/body-limit";
+import { parsePositiveInt } from "@/lib/api/rate-limit";
+
+const DEFAULT_IMPORT_MAX_MB = 256;
+const MAX_IMPORT_MAX_MB = 4096;
+
+/**
+ * Imports an uploaded file into a table, for a file too large to import from the
+ * tab (`DataImportModal`). Same guard, bucket and connection resolution as
+ * `POST /api/db/query`, because it writes to the same database on the same user's
+ * behalf.
+ *
+ * The body is `multipart/form-data`: the file itself as `file`, and everything else
+ * as one JSON field, `options`, since a connection is an object and a form field is
+ * a string. The file is read a batch of rows at a time and each batch is one
+ * `INSERT` with its values bound (`src/lib/import/insert.ts`).
+ *
+ * Where the provider can open a transaction the whole import runs inside one, so a
+ * row the engine refuses at row 90,000 leaves the table as it was rather than
+ * holding the first 89,000 — the same all-or-nothing a single pasted script of
+ * INSERTs never had. A table the import creates is part of that only where the
+ * engine's DDL is transactional. The response says which it was.
+ *
+ * The upload is held in memory while it is read, so it is bounded by
+ * `IMPORT_MAX_MB` before anything parses it: a larger one is a 413.
+ */
+export async function POST(req: NextRequest) {
+  const guard = await guardRoute({ route: "POST /api/db/import", bucket: "query", request: req });
+  if ("response" in guard) return guard.response;
+
+  try {
+    const maxMb = Math.max(1, parsePositiveInt(process.env.IMPORT_MAX_MB, DEFAULT_IMPORT_MAX_MB, MAX_IMPORT_MAX_MB));
+    const body = await readBodyWithin(req, maxMb * 1024 * 1024);
+    if (!body) {
+      return NextResponse.json(
+        { error: `The upload is larger than the ${maxMb} MB import limit (IMPORT_MAX_MB)` },
+        { status: 413 },
+      );
+    }
+    const form = await new Response(body, { headers: { "Content-Type": req.headers.get("content-type") ?? "" } })
+      .formData()
+      .catch(() => null);
+    const file = form?.get("file");
+    const rawOptions = form?.get("options");
+    if (!(file instanceof Blob) || typeof rawOptions !== "string") {
+      return NextResponse.json({ error: "A file and its import options are required" }, { status: 400 });
+    }
+
+    let options: Record<string, unknown>;
+    try {
+      options = JSON.parse(rawOptions);
+    } catch {
+      return NextResponse.json({ error: "Import options are not valid JSON" }, { status: 400 });
+    }
+
+    const connection = await resolveConnection(options, guard.session);
+
+    const { format, table, sheet } = options;
+    const createTable = options.createTable === true;
+    const columnMapping = (options.columnMapping ?? {}) as Record<string, unknown>;
+
+    if (!isImportFormat(format)) {
+      return NextResponse.json(
+        { error: `Unsupported import format. Supported: ${IMPORT_FORMATS.map((f) => f.id).join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    // Names are interpolated, not bound — no engine binds an identifier — so only a
+    // bare one is accepted, exactly as the browser's generated SQL would write it.
+    if (typeof table !== "string" || !isBareIdentifier(table)) {
+      return NextResponse.json({ error: "A table name made of letters, digits and _ is required" }, { status: 400 });
+    }
+
+    // Creating the table it imports into is a schema change on top of the rows.
+    const seedId = grantTarget(options);
+    await requireGrant(guard.session, seedId, "write", connection.name);
+    if (createTable) await requireGrant(guard.session, seedId, "ddl", connection.name);
+    enforceWritePolicy(guard.session, connection, "write");
+
+    const provider = await getOrCreateProvider(connection);
+    if (provider.getCapabilities().queryLanguage !== "sql") {
+      return NextResponse.json({ error: "Import is only supported for SQL databases" }, { status: 400 });
+    }
+
+    let source: ImportSource;
+    try {
+      source = await openImportSource(blobAsyncBuffer(file), format, {
+        sheet: typeof sheet === "string" ? sheet : undefined,
+      });
+    } catch (parseError) {
+      const msg = parseError instanceof Error ? parseError.message : "Unknown error";
+      return NextResponse.json({ error: `Failed to parse file: ${msg}` }, { status: 400 });
+    }
+
+    const columns = source.headers.map((h) => {
+      const mapped = columnMapping[h];
+      return typeof mapped === "string" && mapped !== "" ? mapped : h;
+    });
+    const invalid = columns.find((c) => !isBareIdentifier(c));
+    if (invalid !== undefined) {
+      return NextResponse.json(
+        { error: `Column "${invalid}" must be mapped to a name made of letters, digits and _` },
+        { status: 400 },
+      );
+    }
+
+    const types = await importColumnTypes(source, options.columnTypes);
+    const batchSize = importBatchSize(columns.length);
+    const target = { table, columns, types, dialect: connection.type };
+
+    // MySQL and Oracle commit an open transaction when they run DDL, so there the
+    // table is created before one opens, and survives a failed import empty.
+    const ddlInTransaction = hasTransactionalDdl(connection.type);
+    if (createTable && !ddlInTransaction) await provider.query(buildCreateTable(target));
+
+    // The handle when the import is atomic, the provider otherwise; both take `query(sql, params)`.
+    const handle: TransactionHandle | null = provider.openTransaction ? await provider.openTransaction() : null;
+    const run = handle ?? provider;
+
+    let rowsInserted = 0;
+    let batches = 0;
+    try {
+      if (createTable && ddlInTransaction) await run.query(buildCreateTable(target));
+
+      for (let start = 0; start < source.totalRows; start += batchSize) {
+        // A closed tab or a cancelled upload ends the import rather than finishing it unseen.
+        if (req.signal.aborted) throw new Error("Import cancelled");
+        const rows = await source.readRows(start, Math.min(start + batchSize, source.totalRows));
+        if (rows.length === 0) break;
+        const statement = buildInsertBatch(target, rows);
+        await run.query(statement.sql, statement.params);
+        rowsInserted += rows.length;
+        batches++;
+      }
+
+      await handle?.commit();
+    } catch (importError) {
+      // Rolling back is best effort; the error worth reporting is the one that stopped the import.
+      await handle?.rollback().catch(() => {});
+      throw importError;
+    }
+
+    return NextResponse.json({ rowsInserted, batches, atomic: handle !== null && (!createTable || ddlInTransaction) });
+  } catch (error) {
+    return createErrorResponse(error, { route: "api/db/import" });
+  }
+}
+
+/**
+ * The type of each column: what the caller chose in the configure step, column by
+ * column, or — for a column it left out — what the file declares or its first rows
+ * suggest, exactly as the dialog would have inferred it.
+ */
+async function importColumnTypes(source: ImportSource, requested: unknown): Promise<ImportColumnType[]> {
+  const sample = await source.readRows(0, Math.min(INFERENCE_SAMPLE_ROWS, source.totalRows));
+  const inferred = resolveColumnTypes(source.headers, sample, source.columnTypes);
+  const chosen = Array.isArray(requested) ? requested : [];
+  return inferred.map((type, idx) =>
+    IMPORT_COLUMN_TYPES.includes(chosen[idx] as ImportColumnType) ? (chosen[idx] as ImportColumnType) : type,
+  );
+}
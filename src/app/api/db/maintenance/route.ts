@@ -5,21 +5,19 @@ import { createErrorResponse } from "@/lib/api/errors";
 import { resolveConnection } from "@/lib/seed/resolve-connection";
 import { guardRoute } from "@/lib/api/require-session";
 import { logger } from "@/lib/logger";
+import { grantTarget, requireGrant } from "@/lib/access/enforce";
+import { enforceWritePolicy } from "@/lib/access/write-policy";
 
 export async function POST(request: Request) {
   // Session, rate limit and denial audit share the same door as every other provider-reaching
   // route, on the "query" bucket: an admin session is still one identity, and a stolen or
   // careless one hammering maintenance operations is the exact threat this guard exists to stop.
-  // Authentication now yields 401 (was folded into a blanket 403 before); role is checked
+  // Authentication now yields 401 (was folded into a blanket 403 before); the grant is checked
   // separately below so "no session" and "wrong role" stay distinguishable, matching every
   // other guarded route's contract.
   const guard = await guardRoute({ route: "POST /api/db/maintenance", bucket: "query", request });
   if ("response" in guard) return guard.response;
 
-  if (guard.session.role !== "admin") {
-    return NextResponse.json({ error: "Unauthorized. Admin access required." }, { status: 403 });
-  }
-
   try {
     const body = await request.json();
     const { type, target } = body;
@@ -30,6 +28,12 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Maintenance type is required" }, { status: 400 });
     }
 
+    // Once `admin` only; now the `maintenance` grant, or `kill_session` for ending a
+    // session, on this connection. Only the built-in `admin` holds them without one.
+    const permission = type === "kill" ? "kill_session" : "maintenance";
+    await requireGrant(guard.session, grantTarget(body), permission, connection.name);
+    enforceWritePolicy(guard.session, connection, permission);
+
     const provider = await getOrCreateProvider(connection);
     const capabilities = provider.getCapabilities();
 
@@ -60,7 +64,7 @@ export async function POST(request: Request) {
         action: type.toUpperCase(),
         target: target || "all",
         connectionName: connection.name || connection.database || "unknown",
-        user: guard.session.username || "admin",
+        user: guard.session.username,
         result: "success",
         duration,
       });
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOrCreateProvider } from "@/lib/db";
+import { emitAuditEvent } from "@/lib/audit";
+import { createErrorResponse } from "@/lib/api/errors";
+import { resolveConnection } from "@/lib/seed/resolve-connection";
+import { guardRoute } from "@/lib/api/require-session";
+import { logger } from "@/lib/logger";
+import type { TableSchema } from "@/lib/types";
+import { readLedger } from "@/lib/migrations/ledger";
+import { applyMigration, planMigration, supportsMigrations } from "@/lib/migrations/runner";
+import { migrationStatements } from "@/lib/migrations/statements";
+import { grantTarget, requireGrant } from "@/lib/access/enforce";
+import { enforceWritePolicy } from "@/lib/access/write-policy";
+
+const ACTIONS = ["history", "dry-run", "apply"];
+
+/**
+ * Schema migrations against one connection (`src/lib/migrations/`): `history` reads
+ * its ledger, `dry-run` returns the statements an apply would execute and whether
+ * they would run atomically, and `apply` runs them and records the attempt.
+ *
+ * Same guard and bucket as `POST /api/db/query`: a migration is DDL the same user
+ * could paste into the editor, and no stronger right is asked for it than the editor
+ * would ask - `ddl` on the connection, for an apply. What it adds
+ * is the record — the ledger row on the target and an audit event here.
+ *
+ * A successful apply answers with the schema as it now is, so the caller can take
+ * the snapshot that the migration produced and link the two by the migration's id.
+ */
+export async function POST(req: NextRequest) {
+  const guard = await guardRoute({ route: "POST /api/db/migrations", bucket: "query", request: req });
+  if ("response" in guard) return guard.response;
+
+  try {
+    const body = await req.json();
+    const { action, sql, description, targetSnapshotId } = body;
+
+    const connection = await resolveConnection(body, guard.session);
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `Unknown action. Supported: ${ACTIONS.join(", ")}` }, { status: 400 });
+    }
+
+    const provider = await getOrCreateProvider(connection);
+    if (provider.getCapabilities().queryLanguage !== "sql" || !supportsMigrations(connection.type)) {
+      return NextResponse.json({ error: "Migrations are not supported for this database type" }, { status: 400 });
+    }
+
+    if (action === "history") {
+      const ledger = await readLedger(provider);
+      return NextResponse.json({ migrations: ledger ?? [], ledgerExists: ledger !== null });
+    }
+
+    if (typeof sql !== "string" || migrationStatements(sql).length === 0) {
+      return NextResponse.json({ error: "The migration has no statements to run" }, { status: 400 });
+    }
+
+    if (action === "dry-run") {
+      return NextResponse.json({ plan: await planMigration(provider, connection.type, sql) });
+    }
+
+    // A migration may also move rows, but it is applied as schema work: `ddl` is the
+    // grant for it, whatever its statements would each need in the editor.
+    await requireGrant(guard.session, grantTarget(body), "ddl", connection.name);
+    enforceWritePolicy(guard.session, connection, "ddl");
+
+    const outcome = await applyMigration(provider, {
+      dialect: connection.type,
+      script: sql,
+      description:
+        typeof description === "string" && description.trim() !== "" ? description.trim() : "Schema migration",
+      appliedBy: guard.session.username,
+      targetSnapshotId: typeof targetSnapshotId === "string" && targetSnapshotId !== "" ? targetSnapshotId : null,
+    });
+    const { entry } = outcome;
+
+    // Isolated like the maintenance route's: the migration's outcome is already decided
+    // and recorded in the ledger, and a broken audit sink must not turn it into a 500.
+    try {
+      emitAuditEvent({
+        type: "schema_migration",
+        action: "APPLY",
+        target: entry.id,
+        connectionName: connection.name || connection.database || "unknown",
+        user: guard.session.username,
+        result: entry.status === "applied" ? "success" : "failure",
+        duration: entry.executionMs,
+      });
+    } catch (auditError) {
+      logger.error("Failed to record schema migration audit event", auditError, { route: "POST /api/db/migrations" });
+    }
+
+    if (entry.status !== "applied") {
+      return NextResponse.json({ error: entry.error, ...outcome }, { status: 422 });
+    }
+
+    // Best effort: the migration has committed, and a schema that cannot be read back
+    // only means the caller has no snapshot to link to it.
+    let schema: TableSchema[] | null = null;
+    try {
+      schema = await provider.getSchema();
+    } catch (schemaError) {
+      logger.warn("Failed to read the schema back after a migration", {
+        route: "POST /api/db/migrations",
+        error: schemaError instanceof Error ? schemaError.message : String(schemaError),
+      });
+    }
+
+    return NextResponse.json({ ...outcome, schema });
+  } catch (error) {
+    return createErrorResponse(error, { route: "api/db/migrations" });
+  }
+}
@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getOrCreateProvider } from "@/lib/db";
 import { splitStatements } from "@/lib/sql/statement-splitter";
 import { isSelectQuery } from "@/lib/db/utils/query-limiter";
 import { createErrorResponse } from "@/lib/api/errors";
 import { resolveConnection } from "@/lib/seed/resolve-connection";
 import { guardRoute } from "@/lib/api/require-session";
-import type { DatabaseType, QueryWarning } from "@/lib/types";
-import type { DatabaseProvider } from "@/lib/db/types";
+import type { DatabaseType, QueryWarning, ResultMasking } from "@/lib/types";
+import { grantTarget, requireGrant } from "@/lib/access/enforce";
+import { statementPermission } from "@/lib/access/grants";
+import { enforceWritePolicy } from "@/lib/access/write-policy";
+import { editorExecution, type EditorExecution } from "@/lib/access/editor-execution";
+import { loadMaskingPolicy } from "@/lib/masking/enforce";
+import { maskResult } from "@/lib/masking/policy";
 
 export interface StatementResult {
   index: number;
@@ -27,6 +31,8 @@ export interface StatementResult {
    */
   warnings?: QueryWarning[];
   columnTypes?: Record<string, string>;
+  /** Each statement's rows are masked for that statement's own text (`src/lib/masking/`). */
+  masking?: ResultMasking;
 }
 
 /**
@@ -54,7 +60,7 @@ function carriedChannels(source: Pick<StatementResult, "warnings" | "columnTypes
  * bar (PR #308 review).
  */
 async function runStatement(
-  provider: DatabaseProvider,
+  execution: EditorExecution,
   stmt: { sql: string; startLine: number },
   index: number,
   isLast: boolean,
@@ -76,10 +82,10 @@ async function runStatement(
     // read-only CTE is bounded here and a data-modifying one is not.
     const prepared =
       isLast && isSelectQuery(stmt.sql, dialect)
-        ? provider.prepareQuery(stmt.sql, options)
+        ? execution.provider.prepareQuery(stmt.sql, options)
         : { query: stmt.sql, wasLimited: false, limit: 0, offset: 0 };
 
-    const result = await provider.query(prepared.query);
+    const result = await execution.query(prepared.query);
 
     return {
       ...identity,
@@ -101,7 +107,12 @@ async function runStatement(
 }
 
 export async function POST(req: NextRequest) {
-  const guard = await guardRoute({ route: "POST /api/db/multi-query", bucket: "query", request: req });
+  const guard = await guardRoute({
+    route: "POST /api/db/multi-query",
+    bucket: "query",
+    request: req,
+    tokenScope: "query",
+  });
   if ("response" in guard) return guard.response;
 
   try {
@@ -120,13 +131,21 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "No valid SQL statements found" }, { status: 400 });
     }
 
-    const provider = await getOrCreateProvider(connection);
+    // Decided for the whole script before any of it runs: refusing the third
+    // statement after the first two committed would leave it half applied.
+    const permission = statementPermission(sql, connection.type);
+    const target = grantTarget(body);
+    await requireGrant(guard.session, target, permission, connection.name);
+    enforceWritePolicy(guard.session, connection, permission);
+
+    const execution = await editorExecution(connection);
+    const policy = await loadMaskingPolicy();
     const results: StatementResult[] = [];
     let totalExecutionTime = 0;
 
     for (let i = 0; i < statements.length; i++) {
       const outcome = await runStatement(
-        provider,
+        execution,
         statements[i],
         i,
         i === statements.length - 1,
@@ -134,7 +153,13 @@ export async function POST(req: NextRequest) {
         options,
       );
       totalExecutionTime += outcome.executionTime;
-      results.push(outcome);
+      // Never revealable: the grid's reveal runs one statement again, and this
+      // result is one statement out of a script whose earlier ones may have written.
+      results.push(
+        outcome.rows && outcome.fields
+          ? maskResult(policy, target, outcome.sql, { ...outcome, rows: outcome.rows, fields: outcome.fields }, false)
+          : outcome,
+      );
 
       // Stop execution on error
       if (outcome.status === "error") break;
@@ -156,6 +181,7 @@ export async function POST(req: NextRequest) {
       // notices and declared types and no others. Merging every statement's
       // warnings here would attribute one run's notice to another run's rows.
       ...carriedChannels(lastResultWithRows),
+      masking: lastResultWithRows?.masking ?? { columns: [], canReveal: false },
       // Multi-statement metadata
       multiStatement: true,
       statementCount: statements.length,
@@ -1,14 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getOrCreateProvider } from "@/lib/db";
 import { createErrorResponse } from "@/lib/api/errors";
 import { resolveConnection } from "@/lib/seed/resolve-connection";
 import { guardRoute } from "@/lib/api/require-session";
 import { readBoundParams } from "@/lib/api/bound-params";
+import { grantTarget, requireGrant } from "@/lib/access/enforce";
+import { statementPermission } from "@/lib/access/grants";
+import { enforceWritePolicy } from "@/lib/access/write-policy";
+import { editorExecution } from "@/lib/access/editor-execution";
+import { loadMaskingPolicy } from "@/lib/masking/enforce";
+import { maskResult } from "@/lib/masking/policy";
 
 export async function POST(req: NextRequest) {
   // Moved ahead of req.json(): an unauthenticated caller no longer gets a body parsed on its
   // behalf, and the rate limiter sees the request before any work is done for it.
-  const guard = await guardRoute({ route: "POST /api/db/query", bucket: "query", request: req });
+  const guard = await guardRoute({ route: "POST /api/db/query", bucket: "query", request: req, tokenScope: "query" });
   if ("response" in guard) return guard.response;
 
   try {
@@ -21,6 +26,11 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Connection and query are required" }, { status: 400 });
     }
 
+    const permission = statementPermission(sql, connection.type);
+    const target = grantTarget(body);
+    const permissions = await requireGrant(guard.session, target, permission, connection.name);
+    enforceWritePolicy(guard.session, connection, permission);
+
     // A generated statement sends its values here rather than writing them into the
     // SQL (#290). They go straight to the driver's bind path, so what may be bound
     // is decided before the provider is even reached.
@@ -29,30 +39,28 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: bound.message }, { status: 400 });
     }
 
-    const provider = await getOrCreateProvider(connection);
-    const prepared = provider.prepareQuery(sql, options);
+    const execution = await editorExecution(connection);
+    const prepared = execution.provider.prepareQuery(sql, options);
+    // Pass queryId to the provider for cancellation tracking
+    const result = await execution.query(prepared.query, bound.params, queryId);
 
-    // Pass queryId to provider for cancellation tracking
-    const supportsCancel = "cancelQuery" in provider;
-    const result =
-      supportsCancel && queryId
-        ? await (
-            provider as unknown as {
-              query(sql: string, params?: unknown[], queryId?: string): ReturnType<typeof provider.query>;
-            }
-          ).query(prepared.query, bound.params, queryId)
-        : await provider.query(prepared.query, bound.params);
+    // A provider that pages by cursor reports where its page ended itself (Cassandra's
+    // paging state). Every other one is read the old way: a full page may have more.
+    const hasMore = result.pagination?.hasMore ?? result.rows.length === prepared.limit;
 
-    const hasMore = result.rows.length === prepared.limit;
+    // Masked here, before the rows leave the server: a caller that skips the grid
+    // gets what the grid shows. A masked value is revealed through `/api/db/reveal`.
+    const policy = await loadMaskingPolicy();
 
     return NextResponse.json({
-      ...result,
+      ...maskResult(policy, target, sql, result, permissions.has("unmask")),
       pagination: {
         limit: prepared.limit,
         offset: prepared.offset,
         hasMore,
         totalReturned: result.rows.length,
         wasLimited: prepared.wasLimited,
+        ...(result.pagination?.pageState && { pageState: result.pagination.pageState }),
       },
     });
   } catch (error) {
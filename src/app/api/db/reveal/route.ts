@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createErrorResponse } from "@/lib/api/errors";
+import { resolveConnection } from "@/lib/seed/resolve-connection";
+import { guardRoute } from "@/lib/api/require-session";
+import { readBoundParams } from "@/lib/api/bound-params";
+import { grantTarget, requireGrant } from "@/lib/access/enforce";
+import { statementPermission } from "@/lib/access/grants";
+import { editorExecution } from "@/lib/access/editor-execution";
+import { loadMaskingPolicy, recordUnmask } from "@/lib/masking/enforce";
+import { maskedColumns } from "@/lib/masking/policy";
+
+/**
+ * One value the masking policy masked, read again unmasked: the grid's reveal.
+ *
+ * Nothing is kept between the query and this request, so the statement is run
+ * again for the one row asked for - at the row's offset, the way the grid's "load
+ * more" pages - and only the one column of it is answered. Only a statement that
+ * reads may be run again this way, and only for someone who holds `unmask` on the
+ * connection; every reveal is a `data_unmasked` audit event naming the column and
+ * row. Same guard and bucket as `POST /api/db/query`, but no API token scope: a
+ * script that needs values unmasked asks an export for them, where that is recorded
+ * once rather than per value.
+ */
+export async function POST(req: NextRequest) {
+  const guard = await guardRoute({ route: "POST /api/db/reveal", bucket: "query", request: req });
+  if ("response" in guard) return guard.response;
+
+  try {
+    const body = await req.json();
+    const { sql, row, column } = body;
+
+    const connection = await resolveConnection(body, guard.session);
+
+    if (!sql) {
+      return NextResponse.json({ error: "Connection and query are required" }, { status: 400 });
+    }
+    if (!Number.isInteger(row) || row < 0 || typeof column !== "string" || column === "") {
+      return NextResponse.json({ error: "row and column name the value to reveal" }, { status: 400 });
+    }
+    if (statementPermission(sql, connection.type) !== "read") {
+      return NextResponse.json(
+        { error: "Only a statement that reads can be run again to reveal a value" },
+        {
+          status: 400,
+        },
+      );
+    }
+
+    const target = grantTarget(body);
+    await requireGrant(guard.session, target, "unmask", connection.name);
+
+    const bound = readBoundParams(body.params);
+    if (!bound.valid) {
+      return NextResponse.json({ error: bound.message }, { status: 400 });
+    }
+
+    const execution = await editorExecution(connection);
+    const prepared = execution.provider.prepareQuery(sql, { limit: 1, offset: row });
+    const result = await execution.query(prepared.query, bound.params);
+
+    // Checked against the result just read, so only a value the policy masks is
+    // revealed here - and audited as one.
+    const policy = await loadMaskingPolicy();
+    if (!maskedColumns(policy, target, sql, result.fields, result.columnSources).has(column)) {
+      return NextResponse.json({ error: `"${column}" is not a masked column of this result` }, { status: 400 });
+    }
+    // A statement the limiter left alone returned every row; a bounded one, just this one.
+    const values = prepared.wasLimited ? result.rows[0] : result.rows[row];
+    if (!values) {
+      return NextResponse.json({ error: "The statement no longer returns that row" }, { status: 404 });
+    }
+
+    recordUnmask(guard.session, {
+      action: "reveal",
+      connection: target,
+      connectionName: connection.name,
+      details: `column ${column}, row ${row}`,
+    });
+    return NextResponse.json({ value: values[column] ?? null });
+  } catch (error) {
+    return createErrorResponse(error, { route: "api/db/reveal" });
+  }
+}
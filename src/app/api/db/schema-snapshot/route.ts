@@ -9,7 +9,12 @@ export async function POST(request: NextRequest) {
 
   // Moved ahead of request.json(): an unauthenticated caller no longer gets a body parsed on its
   // behalf, and the rate limiter sees the request before any work is done for it.
-  const guard = await guardRoute({ route: "POST /api/db/schema-snapshot", bucket: "query", request });
+  const guard = await guardRoute({
+    route: "POST /api/db/schema-snapshot",
+    bucket: "query",
+    request,
+    tokenScope: "schema",
+  });
   if ("response" in guard) return guard.response;
 
   try {
@@ -9,7 +9,7 @@ export const dynamic = "force-dynamic";
 export async function POST(req: NextRequest) {
   // Moved ahead of body parsing: an unauthenticated caller no longer gets a body parsed on its
   // behalf, and the rate limiter sees the request before any work is done for it.
-  const guard = await guardRoute({ route: "POST /api/db/schema", bucket: "query", request: req });
+  const guard = await guardRoute({ route: "POST /api/db/schema", bucket: "query", request: req, tokenScope: "schema" });
   if ("response" in guard) return guard.response;
 
   try {
@@ -2,37 +2,38 @@ import { NextRequest, NextResponse } from "next/server";
 import { getOrCreateProvider } from "@/lib/db";
 import { createErrorResponse } from "@/lib/api/errors";
 import { resolveConnection } from "@/lib/seed/resolve-connection";
-import { guardRoute } from "@/lib/api/require-session";
+import { guardRoute, sessionIdOf } from "@/lib/api/require-session";
 import { readBoundParams } from "@/lib/api/bound-params";
-
-interface TransactionProvider {
-  beginTransaction(): Promise<void>;
-  commitTransaction(): Promise<void>;
-  rollbackTransaction(): Promise<void>;
-  isInTransaction(): boolean;
-  queryInTransaction(
-    sql: string,
-    params?: unknown[],
-  ): Promise<{ rows: Record<string, unknown>[]; fields: string[]; rowCount: number; executionTime: number }>;
-}
-
-function isTransactionProvider(provider: unknown): provider is TransactionProvider {
-  return (
-    typeof provider === "object" &&
-    provider !== null &&
-    "beginTransaction" in provider &&
-    "commitTransaction" in provider &&
-    "rollbackTransaction" in provider
-  );
-}
-
+import { grantTarget, requireGrant } from "@/lib/access/enforce";
+import { enforceWritePolicy } from "@/lib/access/write-policy";
+import { statementPermission } from "@/lib/access/grants";
+import { loadMaskingPolicy } from "@/lib/masking/enforce";
+import { maskResult } from "@/lib/masking/policy";
+import {
+  beginTransaction,
+  endTransaction,
+  getTransaction,
+  listTransactions,
+  queryInTransaction,
+} from "@/lib/db/transactions";
+
+/**
+ * BEGIN / COMMIT / ROLLBACK and statements inside a transaction, for the editor.
+ *
+ * The transaction is the caller's own — keyed by the SESSION's id (its `sid`
+ * claim), this connection and the `tabId` the body names
+ * (`src/lib/db/transactions.ts`) — never one the provider holds for everybody who
+ * shares the connection, nor one another sign-in of the same username opened. A
+ * body can name any tab it likes; it can only ever reach a transaction its own
+ * session opened.
+ */
 export async function POST(req: NextRequest) {
   const guard = await guardRoute({ route: "POST /api/db/transaction", bucket: "query", request: req });
   if ("response" in guard) return guard.response;
 
   try {
     const body = await req.json();
-    const { action, sql, options = {} } = body;
+    const { action, sql, tabId, tabName, options = {} } = body;
 
     const connection = await resolveConnection(body, guard.session);
 
@@ -40,28 +41,47 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Connection and action are required" }, { status: 400 });
     }
 
+    // `status` may ask about every tab at once; everything else acts on one.
+    if (action !== "status" && (typeof tabId !== "string" || tabId === "")) {
+      return NextResponse.json({ error: "tabId is required" }, { status: 400 });
+    }
+
+    // A transaction exists to hold writes until they commit, and a connection that
+    // refuses writes has none to hold: refused at BEGIN rather than per statement.
+    if (action === "begin") enforceWritePolicy(guard.session, connection, "write");
+
     const provider = await getOrCreateProvider(connection);
 
-    if (!isTransactionProvider(provider)) {
+    if (!provider.openTransaction) {
       return NextResponse.json(
         { error: "Transaction control is not supported for this database type" },
         { status: 400 },
       );
     }
 
+    const { username } = guard.session;
+    const sessionId = sessionIdOf(guard.session);
+
     switch (action) {
       case "begin": {
-        await provider.beginTransaction();
-        return NextResponse.json({ status: "active", message: "Transaction started" });
+        const transaction = await beginTransaction(provider, {
+          sessionId,
+          username,
+          connectionId: connection.id,
+          connectionName: connection.name,
+          tabId,
+          tabName: typeof tabName === "string" ? tabName : "",
+        });
+        return NextResponse.json({ status: "active", message: "Transaction started", transaction });
       }
 
       case "commit": {
-        await provider.commitTransaction();
+        await endTransaction(sessionId, connection.id, tabId, "commit");
         return NextResponse.json({ status: "committed", message: "Transaction committed" });
       }
 
       case "rollback": {
-        await provider.rollbackTransaction();
+        await endTransaction(sessionId, connection.id, tabId, "rollback");
         return NextResponse.json({ status: "rolled_back", message: "Transaction rolled back" });
       }
 
@@ -70,6 +90,11 @@ export async function POST(req: NextRequest) {
           return NextResponse.json({ error: "SQL query is required for transaction query" }, { status: 400 });
         }
 
+        const permission = statementPermission(sql, connection.type);
+        const target = grantTarget(body);
+        await requireGrant(guard.session, target, permission, connection.name);
+        enforceWritePolicy(guard.session, connection, permission);
+
         // The values of a generated statement are bound here as well: a row edit
         // applied while a transaction is open takes this endpoint, and it would
         // otherwise be the one path that still carried them as text (#290).
@@ -80,12 +105,14 @@ export async function POST(req: NextRequest) {
 
         // Apply limit for SELECT queries within transaction
         const prepared = provider.prepareQuery(sql, options);
-        const result = await provider.queryInTransaction(prepared.query, bound.params);
+        const result = await queryInTransaction(sessionId, connection.id, tabId, prepared.query, bound.params);
 
         const hasMore = result.rows.length === prepared.limit;
 
+        // Masked like any other result, but never revealable: running the statement
+        // again outside the transaction would not read what it read.
         return NextResponse.json({
-          ...result,
+          ...maskResult(await loadMaskingPolicy(), target, sql, result, false),
           inTransaction: true,
           pagination: {
             limit: prepared.limit,
@@ -98,8 +125,12 @@ export async function POST(req: NextRequest) {
       }
 
       case "status": {
+        // The caller's transactions on this connection, so a reloaded studio can find
+        // the one it left open and show which tab holds it.
+        const transactions = listTransactions(sessionId).filter((t) => t.connectionId === connection.id);
         return NextResponse.json({
-          inTransaction: provider.isInTransaction(),
+          inTransaction: typeof tabId === "string" && getTransaction(sessionId, connection.id, tabId) !== null,
+          transactions,
         });
       }
 
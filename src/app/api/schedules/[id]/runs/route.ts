@@ -0,0 +1,57 @@
+/**
+ * GET  /api/schedules/[id]/runs — the results a schedule kept, newest first
+ * POST /api/schedules/[id]/runs — run it now, as the scheduler would
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { createErrorResponse } from "@/lib/api/errors";
+import { guardRoute } from "@/lib/api/require-session";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { readScheduleRuns, runSchedule } from "@/lib/scheduler/runner";
+import { readCollection } from "@/lib/scheduler/store";
+
+const STORAGE_DISABLED = "Scheduled queries need server storage (STORAGE_PROVIDER=sqlite or postgres)";
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    return NextResponse.json({ runs: await readScheduleRuns(storage, session.username, id) });
+  } catch (error) {
+    return createErrorResponse(error, { route: "GET /api/schedules/[id]/runs" });
+  }
+}
+
+/**
+ * Guarded like `POST /api/db/query`, unlike the rest of these routes: this is the
+ * one that reaches a database, and running a schedule by hand must not be a way
+ * around the query budget.
+ */
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const guard = await guardRoute({ route: "POST /api/schedules/[id]/runs", bucket: "query", request });
+  if ("response" in guard) return guard.response;
+
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    // Read only past the guard: a request turned away there never needed its params.
+    const { id } = await context.params;
+    const schedule = (await readCollection(storage, guard.session.username, "query_schedules")).find(
+      (s) => s.id === id,
+    );
+    if (!schedule) return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+
+    return NextResponse.json({
+      run: await runSchedule(storage, guard.session.username, schedule, new Date(), guard.session),
+    });
+  } catch (error) {
+    return createErrorResponse(error, { route: "POST /api/schedules/[id]/runs" });
+  }
+}
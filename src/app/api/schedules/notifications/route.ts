@@ -0,0 +1,48 @@
+/**
+ * GET  /api/schedules/notifications — the user's scheduled-query alerts, newest first
+ * POST /api/schedules/notifications — mark some read (`ids`), or all of them
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { createErrorResponse } from "@/lib/api/errors";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { readCollection, updateCollection } from "@/lib/scheduler/store";
+
+const STORAGE_DISABLED = "Scheduled queries need server storage (STORAGE_PROVIDER=sqlite or postgres)";
+
+export async function GET() {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const notifications = await readCollection(storage, session.username, "schedule_notifications");
+    return NextResponse.json({ notifications, unread: notifications.filter((n) => !n.read).length });
+  } catch (error) {
+    return createErrorResponse(error, { route: "GET /api/schedules/notifications" });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await request.json().catch(() => ({}));
+    const ids = Array.isArray(body?.ids) ? new Set(body.ids.filter((id: unknown) => typeof id === "string")) : null;
+
+    await updateCollection(storage, session.username, "schedule_notifications", (notifications) => ({
+      data: notifications.map((n) => (ids === null || ids.has(n.id) ? { ...n, read: true } : n)),
+      result: undefined,
+    }));
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return createErrorResponse(error, { route: "POST /api/schedules/notifications" });
+  }
+}
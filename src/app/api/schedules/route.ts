@@ -0,0 +1,128 @@
+/**
+ * GET    /api/schedules         — the user's query schedules
+ * POST   /api/schedules         — create one, or change one when the body has its `id`
+ * DELETE /api/schedules?id=...  — delete one and the results it kept
+ *
+ * Only with server storage: the scheduler runs the saved queries it finds there.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "node:crypto";
+import { getSession } from "@/lib/auth";
+import { createErrorResponse } from "@/lib/api/errors";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { resolveConnection } from "@/lib/seed/resolve-connection";
+import { readScheduleInput, ScheduleInputError } from "@/lib/scheduler/input";
+import { nextRunAt } from "@/lib/scheduler/runner";
+import { readCollection, updateCollection } from "@/lib/scheduler/store";
+import type { QuerySchedule } from "@/lib/scheduler/types";
+
+const STORAGE_DISABLED = "Scheduled queries need server storage (STORAGE_PROVIDER=sqlite or postgres)";
+
+export async function GET() {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    return NextResponse.json({ schedules: await readCollection(storage, session.username, "query_schedules") });
+  } catch (error) {
+    return createErrorResponse(error, { route: "GET /api/schedules" });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 });
+    }
+    const input = readScheduleInput(body);
+
+    // Both are checked now, as the owner, so a schedule that can never run is refused
+    // here rather than failing quietly at 3am. A run checks them again: either can be
+    // deleted, and a role can lose a managed connection, after the schedule is saved.
+    const saved = (await storage.getCollection(session.username, "saved_queries")) ?? [];
+    const query = saved.find((q) => q.id === input.savedQueryId);
+    if (!query) {
+      return NextResponse.json({ error: "Save the query before scheduling it" }, { status: 400 });
+    }
+    if (input.connectionId.startsWith("seed:")) {
+      await resolveConnection({ connectionId: input.connectionId }, session);
+    } else {
+      const connections = (await storage.getCollection(session.username, "connections")) ?? [];
+      if (!connections.some((c) => c.id === input.connectionId)) {
+        return NextResponse.json({ error: "Connection not found" }, { status: 400 });
+      }
+    }
+
+    const now = new Date();
+    const schedule = await updateCollection(storage, session.username, "query_schedules", (schedules) => {
+      const existing = input.id ? schedules.find((s) => s.id === input.id) : undefined;
+      if (input.id && !existing) return { data: schedules, result: null };
+      const next: QuerySchedule = {
+        lastRunAt: null,
+        lastLevel: null,
+        ...existing,
+        ...input,
+        id: existing?.id ?? `sch_${randomUUID().replaceAll("-", "")}`,
+        queryName: query.name,
+        ownerRole: session.role,
+        createdAt: existing?.createdAt ?? now.toISOString(),
+        updatedAt: now.toISOString(),
+        nextRunAt: input.enabled ? nextRunAt(input.cron, now) : null,
+      };
+      // A new threshold starts from nothing: the level the old one reached says nothing about it.
+      if (JSON.stringify(existing?.threshold) !== JSON.stringify(input.threshold)) next.lastLevel = null;
+      return {
+        data: existing ? schedules.map((s) => (s.id === existing.id ? next : s)) : [...schedules, next],
+        result: next,
+      };
+    });
+    if (!schedule) return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    if (error instanceof ScheduleInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return createErrorResponse(error, { route: "POST /api/schedules" });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const id = request.nextUrl.searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    const removed = await updateCollection(storage, session.username, "query_schedules", (schedules) => ({
+      data: schedules.filter((s) => s.id !== id),
+      result: schedules.some((s) => s.id === id),
+    }));
+    if (!removed) return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    await updateCollection(storage, session.username, "query_schedule_runs", (runs) => ({
+      data: runs.filter((run) => run.scheduleId !== id),
+      result: undefined,
+    }));
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return createErrorResponse(error, { route: "DELETE /api/schedules" });
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * GET /api/teams/[id]/items/[itemId]/versions — the versions an item's edits replaced, newest first
+ *
+ * The current version is the item itself; restoring an old one is an ordinary
+ * edit that sends its `data` back.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { createErrorResponse } from "@/lib/api/errors";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { readTeamCollection, readTeamFor } from "@/lib/teams/store";
+
+const STORAGE_DISABLED = "Team workspaces need server storage (STORAGE_PROVIDER=sqlite or postgres)";
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string; itemId: string }> }) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id, itemId } = await params;
+    if (!(await readTeamFor(storage, id, session))) {
+      return NextResponse.json({ error: "Team not found" }, { status: 404 });
+    }
+
+    const versions = (await readTeamCollection(storage, id, "item_versions"))
+      .filter((version) => version.itemId === itemId)
+      .sort((a, b) => b.version - a.version);
+    return NextResponse.json({ versions });
+  } catch (error) {
+    return createErrorResponse(error, { route: "GET /api/teams/[id]/items/[itemId]/versions" });
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * GET    /api/teams/[id]/items[?kind=...]  — what the team published, of one kind or all
+ * POST   /api/teams/[id]/items             — publish an item, or edit one when the body has its `id`
+ * DELETE /api/teams/[id]/items?itemId=...  — delete one and its versions
+ *
+ * Any member reads; publishing, editing and deleting need `write` in the item's
+ * folder. An edit names the version it was made from and is refused with 409 when
+ * someone else saved since, so two members editing at once cannot silently drop
+ * one another's change - the loser gets the current item back to redo theirs on.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "node:crypto";
+import { getSession } from "@/lib/auth";
+import { createErrorResponse } from "@/lib/api/errors";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { readTeamItemInput, TeamInputError } from "@/lib/teams/input";
+import { canWriteFolder, readTeamCollection, readTeamFor, trimVersions, updateTeamCollection } from "@/lib/teams/store";
+import type { TeamItem, TeamItemVersion } from "@/lib/teams/types";
+
+const STORAGE_DISABLED = "Team workspaces need server storage (STORAGE_PROVIDER=sqlite or postgres)";
+const TEAM_NOT_FOUND = "Team not found";
+
+type EditOutcome =
+  | { status: "saved"; item: TeamItem; replaced: TeamItem | null }
+  | { status: "missing" | "forbidden" | "kind" }
+  | { status: "conflict"; item: TeamItem };
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    // Not a member reads the same as no such team: the list of team ids is not the caller's to probe.
+    if (!(await readTeamFor(storage, id, session))) {
+      return NextResponse.json({ error: TEAM_NOT_FOUND }, { status: 404 });
+    }
+
+    const kind = request.nextUrl.searchParams.get("kind");
+    const items = await readTeamCollection(storage, id, "items");
+    return NextResponse.json({ items: kind ? items.filter((item) => item.kind === kind) : items });
+  } catch (error) {
+    return createErrorResponse(error, { route: "GET /api/teams/[id]/items" });
+  }
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const access = await readTeamFor(storage, id, session);
+    if (!access) return NextResponse.json({ error: TEAM_NOT_FOUND }, { status: 404 });
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 });
+    }
+    const input = readTeamItemInput(body);
+    const { team } = access;
+
+    const now = new Date().toISOString();
+    const outcome = await updateTeamCollection(
+      storage,
+      id,
+      "items",
+      (items): { data: TeamItem[]; result: EditOutcome } => {
+        const existing = input.id ? items.find((item) => item.id === input.id) : undefined;
+        if (input.id && !existing) return { data: items, result: { status: "missing" } };
+        // Moving an item out of a folder is a write there too.
+        if (
+          !canWriteFolder(team, session, input.folder) ||
+          (existing && !canWriteFolder(team, session, existing.folder))
+        ) {
+          return { data: items, result: { status: "forbidden" } };
+        }
+        if (existing && existing.kind !== input.kind) return { data: items, result: { status: "kind" } };
+        if (existing && existing.version !== input.baseVersion) {
+          return { data: items, result: { status: "conflict", item: existing } };
+        }
+
+        const item: TeamItem = {
+          id: existing?.id ?? `ti_${randomUUID().replaceAll("-", "")}`,
+          kind: input.kind,
+          folder: input.folder,
+          data: input.data,
+          version: (existing?.version ?? 0) + 1,
+          owner: existing?.owner ?? session.username,
+          createdAt: existing?.createdAt ?? now,
+          updatedBy: session.username,
+          updatedAt: now,
+        };
+        return {
+          data: existing ? items.map((i) => (i.id === existing.id ? item : i)) : [...items, item],
+          result: { status: "saved", item, replaced: existing ?? null },
+        };
+      },
+    );
+
+    switch (outcome.status) {
+      case "missing":
+        return NextResponse.json({ error: "Item not found" }, { status: 404 });
+      case "forbidden":
+        return NextResponse.json({ error: "You cannot write in this folder of the team" }, { status: 403 });
+      case "kind":
+        return NextResponse.json({ error: "An item's kind cannot change" }, { status: 400 });
+      case "conflict":
+        return NextResponse.json(
+          {
+            error: `${outcome.item.updatedBy} saved version ${outcome.item.version} since you loaded it`,
+            item: outcome.item,
+          },
+          { status: 409 },
+        );
+    }
+
+    const { item, replaced } = outcome;
+    if (replaced) {
+      const version: TeamItemVersion = {
+        itemId: replaced.id,
+        version: replaced.version,
+        folder: replaced.folder,
+        data: replaced.data,
+        updatedBy: replaced.updatedBy,
+        updatedAt: replaced.updatedAt,
+      };
+      await updateTeamCollection(storage, id, "item_versions", (versions) => ({
+        data: trimVersions([...versions, version], replaced.id),
+        result: undefined,
+      }));
+    }
+
+    return NextResponse.json({ item });
+  } catch (error) {
+    if (error instanceof TeamInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return createErrorResponse(error, { route: "POST /api/teams/[id]/items" });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const access = await readTeamFor(storage, id, session);
+    if (!access) return NextResponse.json({ error: TEAM_NOT_FOUND }, { status: 404 });
+
+    const itemId = request.nextUrl.searchParams.get("itemId");
+    if (!itemId) return NextResponse.json({ error: "itemId is required" }, { status: 400 });
+
+    const outcome = await updateTeamCollection(storage, id, "items", (items) => {
+      const existing = items.find((item) => item.id === itemId);
+      if (!existing) return { data: items, result: "missing" as const };
+      if (!canWriteFolder(access.team, session, existing.folder)) return { data: items, result: "forbidden" as const };
+      return { data: items.filter((item) => item.id !== itemId), result: "deleted" as const };
+    });
+    if (outcome === "missing") return NextResponse.json({ error: "Item not found" }, { status: 404 });
+    if (outcome === "forbidden") {
+      return NextResponse.json({ error: "You cannot write in this folder of the team" }, { status: 403 });
+    }
+
+    await updateTeamCollection(storage, id, "item_versions", (versions) => ({
+      data: versions.filter((version) => version.itemId !== itemId),
+      result: undefined,
+    }));
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return createErrorResponse(error, { route: "DELETE /api/teams/[id]/items" });
+  }
+}
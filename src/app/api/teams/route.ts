@@ -0,0 +1,35 @@
+/**
+ * GET /api/teams — the teams the user can open, each with their role in it
+ *
+ * Membership is set by an admin (`/api/admin/teams`); this only reads it. Only
+ * with server storage, where team workspaces live.
+ */
+
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { createErrorResponse } from "@/lib/api/errors";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { listTeams, teamAccess } from "@/lib/teams/store";
+import type { TeamSummary } from "@/lib/teams/types";
+
+const STORAGE_DISABLED = "Team workspaces need server storage (STORAGE_PROVIDER=sqlite or postgres)";
+
+export async function GET() {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const teams: TeamSummary[] = [];
+    for (const team of await listTeams(storage, session)) {
+      const access = teamAccess(team, session);
+      if (access) teams.push({ id: team.id, name: team.name, ...access });
+    }
+    teams.sort((a, b) => a.name.localeCompare(b.name));
+    return NextResponse.json({ teams });
+  } catch (error) {
+    return createErrorResponse(error, { route: "GET /api/teams" });
+  }
+}
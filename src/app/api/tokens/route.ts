@@ -0,0 +1,135 @@
+/**
+ * GET    /api/tokens         — the signed-in user's personal API tokens
+ * POST   /api/tokens         — create one; its secret is in this response and nowhere else
+ * DELETE /api/tokens?id=...  — revoke one, at once
+ *
+ * Only with server storage, and only with a browser session: `getSession()` reads
+ * the cookie, so a token can never be used to mint or revoke tokens. An admin may
+ * also list another user's tokens with `?owner=` and revoke any token by its id,
+ * so a leaked token can be ended without its owner.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { createErrorResponse } from "@/lib/api/errors";
+import { ApiTokenInputError, readApiTokenInput } from "@/lib/api-tokens/input";
+import {
+  ApiTokenStateError,
+  isApiTokenExpired,
+  issueApiToken,
+  MAX_TOKENS_PER_OWNER,
+  readApiTokens,
+  summarizeApiToken,
+  updateApiTokens,
+} from "@/lib/api-tokens/store";
+import type { ApiToken } from "@/lib/api-tokens/types";
+import { emitAuditEvent } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import { getStorageProvider } from "@/lib/storage/factory";
+
+const STORAGE_DISABLED = "API tokens need server storage (STORAGE_PROVIDER=sqlite or postgres)";
+
+/** Isolated like every audit line: the token is already made or gone. */
+function recordTokenEvent(action: "create" | "revoke", tokenId: string, user: string, route: string): void {
+  try {
+    emitAuditEvent({ type: "api_token", action, target: tokenId, user, result: "success", tokenId });
+  } catch (auditError) {
+    logger.error("Failed to record api_token audit event", auditError, { route });
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const owner = request.nextUrl.searchParams.get("owner") ?? session.username;
+    if (owner !== session.username && session.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const now = new Date();
+    const tokens = (await readApiTokens(storage))
+      .filter((t) => t.owner === owner)
+      .map((t) => summarizeApiToken(t, now));
+    return NextResponse.json({ tokens });
+  } catch (error) {
+    return createErrorResponse(error, { route: "GET /api/tokens" });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 });
+    }
+    const input = readApiTokenInput(body);
+
+    const now = new Date();
+    const { secret, token } = issueApiToken(session, input, now);
+    await updateApiTokens(
+      storage,
+      (tokens) => {
+        const live = tokens.filter((t) => t.owner === session.username && !isApiTokenExpired(t, now));
+        if (live.length >= MAX_TOKENS_PER_OWNER) {
+          throw new ApiTokenStateError(
+            `You already have ${MAX_TOKENS_PER_OWNER} live API tokens; revoke one first`,
+            409,
+          );
+        }
+        return { tokens: [...tokens, token], result: undefined };
+      },
+      now,
+    );
+    recordTokenEvent("create", token.id, session.username, "POST /api/tokens");
+
+    return NextResponse.json({ token: summarizeApiToken(token, now), secret });
+  } catch (error) {
+    if (error instanceof ApiTokenInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof ApiTokenStateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return createErrorResponse(error, { route: "POST /api/tokens" });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return NextResponse.json({ error: STORAGE_DISABLED }, { status: 404 });
+
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const id = request.nextUrl.searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+    // Another user's token answers as one that does not exist: its id says nothing about whose it is.
+    // An admin's revocation reaches every owner's.
+    const revocable = (t: ApiToken) => t.id === id && (t.owner === session.username || session.role === "admin");
+    const removed = await updateApiTokens(storage, (tokens) => ({
+      tokens: tokens.filter((t) => !revocable(t)),
+      result: tokens.some(revocable),
+    }));
+    if (!removed) return NextResponse.json({ error: "Token not found" }, { status: 404 });
+    recordTokenEvent("revoke", id, session.username, "DELETE /api/tokens");
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return createErrorResponse(error, { route: "DELETE /api/tokens" });
+  }
+}
@@ -22,6 +22,9 @@ const agentClaimDetail = HERO_CLAIMS.find((claim) => claim.key === "agent")?.det
 
 function LoginFormInner({ authProvider }: { authProvider: string }) {
   const isOIDC = authProvider === "oidc";
+  // A directory login is usually a user name such as `alice`, not an email, and the configured
+  // admin still signs in here with theirs - so with LDAP the field takes either.
+  const isLDAP = authProvider === "ldap";
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -33,7 +36,7 @@ function LoginFormInner({ authProvider }: { authProvider: string }) {
     if (e) e.preventDefault();
 
     if (!email || !password) {
-      toast.error("Please enter email and password");
+      toast.error(isLDAP ? "Please enter username and password" : "Please enter email and password");
       return;
     }
 
@@ -246,13 +249,14 @@ function LoginFormInner({ authProvider }: { authProvider: string }) {
                 <>
                   <form onSubmit={handleLogin} className="space-y-4">
                     <div className="space-y-2">
-                      <Label htmlFor="email">Email</Label>
+                      <Label htmlFor="email">{isLDAP ? "Username or email" : "Email"}</Label>
                       <div className="relative group">
                         <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground transition-colors group-focus-within:text-primary" />
                         <Input
                           id="email"
-                          type="email"
-                          placeholder="Enter your email"
+                          type={isLDAP ? "text" : "email"}
+                          autoComplete="username"
+                          placeholder={isLDAP ? "Enter your directory username" : "Enter your email"}
                           className="pl-10 h-11 transition-all focus:ring-2 focus:ring-primary/20"
                           value={email}
                           onChange={(e) => setEmail(e.target.value)}
@@ -0,0 +1,5 @@
+import SetupForm from "./setup-form";
+
+export default function AccountSetupPage() {
+  return <SetupForm />;
+}
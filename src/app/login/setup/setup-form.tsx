@@ -0,0 +1,137 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import LibreDBLogo from "@/components/libredb-logo";
+import { MIN_PASSWORD_LENGTH } from "@/lib/accounts/input";
+import type { AccountSetupPurpose } from "@/lib/accounts/types";
+
+/** What the link resolved to: its account, or why it cannot be used. */
+type LinkState =
+  | { status: "loading" }
+  | { status: "invalid"; error: string }
+  | { status: "ready"; email: string; purpose: AccountSetupPurpose };
+
+function SetupFormInner() {
+  const router = useRouter();
+  const token = useSearchParams().get("token") ?? "";
+  const [link, setLink] = useState<LinkState>({ status: "loading" });
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/auth/setup?token=${encodeURIComponent(token)}`);
+        const data = await res.json();
+        if (cancelled) return;
+        setLink(
+          res.ok
+            ? { status: "ready", email: data.email, purpose: data.purpose }
+            : { status: "invalid", error: data.error },
+        );
+      } catch {
+        if (!cancelled) setLink({ status: "invalid", error: "An error occurred. Please try again." });
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmation) {
+      toast.error("The passwords do not match");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/auth/setup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || "Could not set the password");
+        return;
+      }
+      toast.success("Password set");
+      router.push(data.role === "admin" ? "/admin" : "/");
+      router.refresh();
+    } catch {
+      toast.error("An error occurred. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-[100dvh] items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md border-muted-foreground/10 shadow-2xl">
+        <CardHeader className="space-y-3 text-center">
+          <LibreDBLogo className="mx-auto h-10 w-10 text-blue-400" />
+          <CardTitle className="text-2xl font-bold tracking-tight">
+            {link.status === "ready" && link.purpose === "reset" ? "Choose a new password" : "Set up your account"}
+          </CardTitle>
+          <CardDescription>
+            {link.status === "ready" ? link.email : link.status === "loading" ? "Checking your link..." : link.error}
+          </CardDescription>
+        </CardHeader>
+
+        {link.status === "ready" && (
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete="new-password"
+                  minLength={MIN_PASSWORD_LENGTH}
+                  placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                  className="h-11"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmation">Confirm password</Label>
+                <Input
+                  id="confirmation"
+                  type="password"
+                  autoComplete="new-password"
+                  className="h-11"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  required
+                />
+              </div>
+              <Button className="w-full h-11 text-base font-medium" type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : "Set password and sign in"}
+              </Button>
+            </form>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+export default function SetupForm() {
+  return (
+    <Suspense>
+      <SetupFormInner />
+    </Suspense>
+  );
+}
@@ -0,0 +1,8 @@
+"use client";
+
+import { ProfilePage } from "@/components/profile/ProfilePage";
+
+export default function Profile() {
+  // Middleware handles authentication, no need for client-side check
+  return <ProfilePage />;
+}
@@ -11,6 +11,7 @@ import {
   ENVIRONMENT_COLORS,
   ENVIRONMENT_LABELS,
   SSLMode,
+  WritePolicy,
 } from "@/lib/types";
 import {
   Database,
@@ -34,6 +35,20 @@ import { useConnectionForm } from "@/hooks/use-connection-form";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { WireCompatibilityHint } from "@/components/WireCompatibilityHint";
 
+const WRITE_POLICY_OPTIONS: { value: WritePolicy; label: string; hint: string }[] = [
+  { value: "read-write", label: "Allowed", hint: "Writes run after the usual confirmation." },
+  {
+    value: "read-only",
+    label: "Read-only",
+    hint: "Writes are refused. On PostgreSQL and SQLite reads run in a read-only transaction.",
+  },
+  {
+    value: "approval",
+    label: "Need approval",
+    hint: "Writes are refused until another user approves them. Reads run as on a read-only connection.",
+  },
+];
+
 interface ConnectionModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -75,6 +90,8 @@ export function ConnectionModal({
     setMongoConnectionMode,
     environment,
     setEnvironment,
+    writePolicy,
+    setWritePolicy,
 
     // UI state
     isTesting,
@@ -98,13 +115,15 @@ export function ConnectionModal({
     clientKey,
     setClientKey,
 
-    // Advanced (Oracle/MSSQL)
+    // Advanced (Oracle/MSSQL/Cassandra)
     showAdvanced,
     setShowAdvanced,
     serviceName,
     setServiceName,
     instanceName,
     setInstanceName,
+    dataCenter,
+    setDataCenter,
 
     // SSH Tunnel
     showSSH,
@@ -258,6 +277,31 @@ export function ConnectionModal({
             </div>
           </div>
 
+          {/* Write Policy Selector */}
+          <div className="space-y-2">
+            <Label className="text-xs font-mediumr text-fg-muted">Writes</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              {WRITE_POLICY_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setWritePolicy(option.value)}
+                  aria-pressed={writePolicy === option.value}
+                  className={cn(
+                    "px-3 py-1.5 rounded-md text-xs font-mediumr transition-all border",
+                    writePolicy === option.value
+                      ? "border-edge bg-fill text-fg"
+                      : "border-transparent text-fg-muted hover:text-fg-secondary hover:bg-fill",
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-fg-subtle">
+              {WRITE_POLICY_OPTIONS.find((option) => option.value === writePolicy)?.hint}
+            </p>
+          </div>
+
           {/* DB Type Selector */}
           <div className="grid grid-cols-2 gap-3">
             {dbTypes.map((db) => (
@@ -461,8 +505,8 @@ export function ConnectionModal({
             </>
           </div>
 
-          {/* Advanced Settings (Oracle/MSSQL) */}
-          {(type === "oracle" || type === "mssql") && (
+          {/* Advanced Settings (Oracle/MSSQL/Cassandra) */}
+          {(type === "oracle" || type === "mssql" || type === "cassandra") && (
             <div className="space-y-2">
               <button
                 type="button"
@@ -471,7 +515,7 @@ export function ConnectionModal({
               >
                 <Settings2 strokeWidth={1.5} className="w-3.5 h-3.5 text-orange-500" />
                 <span>Advanced</span>
-                {(serviceName || instanceName) && (
+                {(serviceName || instanceName || dataCenter) && (
                   <span className="ml-1 px-1.5 py-0.5 rounded text-[0.625rem] bg-orange-500/10 text-orange-400 border border-orange-500/20">
                     SET
                   </span>
@@ -515,6 +559,20 @@ export function ConnectionModal({
                           </p>
                         </div>
                       )}
+                      {type === "cassandra" && (
+                        <div className="space-y-1.5">
+                          <Label className="text-xs font-mediumr text-fg-muted">Data Center</Label>
+                          <Input
+                            value={dataCenter}
+                            onChange={(e) => setDataCenter(e.target.value)}
+                            placeholder="datacenter1"
+                            className="h-9 bg-panel border-hairline focus:border-orange-500/50 text-xs"
+                          />
+                          <p className="text-xs text-fg-muted">
+                            The local data center the driver routes to. If empty, datacenter1 is used.
+                          </p>
+                        </div>
+                      )}
                     </div>
                   </motion.div>
                 )}
@@ -22,7 +22,7 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import { toast } from "sonner";
-import { type AgentChartSpec, QueryResult } from "@/lib/types";
+import { type AgentChartSpec, QueryResult, type SavedChartConfig } from "@/lib/types";
 import { cn } from "@/lib/utils";
 import {
   BarChart3,
@@ -41,6 +41,7 @@ import {
   Save,
   FolderOpen,
   X,
+  Share2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -55,6 +56,7 @@ import { chartTheme } from "@/lib/charts/palette";
 import { useEffectiveTheme } from "@/hooks/use-effective-theme";
 import { downloadBlob } from "@/lib/export/download";
 import { logger } from "@/lib/logger";
+import { TeamPublishDialog } from "@/components/TeamPublishDialog";
 
 type ChartType = "bar" | "line" | "pie" | "area" | "scatter" | "histogram" | "stacked-bar" | "stacked-area";
 
@@ -91,6 +93,8 @@ interface DataChartsProps {
    * controls stay live: this seeds the view, it does not lock it.
    */
   spec?: AgentChartSpec | null;
+  /** Whether a saved chart can be published to a team workspace - server storage only. */
+  teamsEnabled?: boolean;
 }
 
 /**
@@ -391,7 +395,7 @@ export function groupByDate(dateStr: string, grouping: DateGrouping): string {
   }
 }
 
-export function DataCharts({ result, spec = null }: DataChartsProps) {
+export function DataCharts({ result, spec = null, teamsEnabled = false }: DataChartsProps) {
   const chartRef = useRef<HTMLDivElement>(null);
   const analysis = useMemo(() => analyzeData(result), [result]);
   /** The supplied specification, or null when there is none this result can carry. */
@@ -430,6 +434,7 @@ export function DataCharts({ result, spec = null }: DataChartsProps) {
     }[]
   >([]);
   const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [publishing, setPublishing] = useState<SavedChartConfig | null>(null);
   const [saveName, setSaveName] = useState("");
 
   // Load saved charts from storage
@@ -878,6 +883,18 @@ export function DataCharts({ result, spec = null }: DataChartsProps) {
                       <span>
                         {chart.name} <span className="text-fg-subtle">({chart.chartType})</span>
                       </span>
+                      {teamsEnabled && (
+                        <button
+                          aria-label={`Publish ${chart.name} to a team`}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setPublishing(storage.getSavedCharts().find((c) => c.id === chart.id) ?? null);
+                          }}
+                          className="ml-auto text-fg-subtle hover:text-blue-400"
+                        >
+                          <Share2 strokeWidth={1.5} className="w-3 h-3" />
+                        </button>
+                      )}
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -1117,6 +1134,7 @@ export function DataCharts({ result, spec = null }: DataChartsProps) {
         </span>
         {chartType === "pie" && chartData.length > 10 && <span className="text-amber-500">Showing top 10 values</span>}
       </div>
+      {publishing && <TeamPublishDialog kind="saved_charts" data={publishing} onClose={() => setPublishing(null)} />}
     </div>
   );
 }
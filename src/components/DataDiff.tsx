@@ -0,0 +1,367 @@
+"use client";
+
+import React, { useState, useMemo, useCallback } from "react";
+import { Rows3, Play, FileCode, Download, AlertTriangle, Table2, Code2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { ResultsGrid, type CellHighlight } from "@/components/ResultsGrid";
+import { cn } from "@/lib/utils";
+import type { DatabaseConnection, QueryResult, TableSchema } from "@/lib/types";
+import type { DataDiffResponse, RowDiff, RowDiffAction } from "@/lib/data-diff/types";
+import { cellText } from "@/lib/export/csv";
+import { downloadText } from "@/lib/export/download";
+import { useAllConnections } from "@/hooks/use-all-connections";
+import { buildConnectionPayload } from "@/hooks/use-connection-payload";
+
+interface DataDiffProps {
+  schema: TableSchema[];
+  connection: DatabaseConnection | null;
+}
+
+type SideName = "source" | "target";
+
+interface SideState {
+  connectionId: string;
+  kind: "table" | "query";
+  table: string;
+  sql: string;
+}
+
+type RowFilter = "all" | RowDiffAction;
+
+const FILTERS: { value: RowFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "inserted", label: "Inserted" },
+  { value: "changed", label: "Changed" },
+  { value: "deleted", label: "Deleted" },
+];
+
+const ACTION_LABEL: Record<RowDiffAction, string> = { inserted: "insert", changed: "update", deleted: "delete" };
+
+/**
+ * The differences as a result the grid can draw: one row per differing key, led by
+ * what the script does to it. An inserted row shows the source's values, a deleted
+ * one the target's, and a changed cell both — `target → source`, the direction the
+ * script moves it.
+ */
+function toGridResult(diff: DataDiffResponse, filter: RowFilter) {
+  let changeField = "change";
+  while (diff.columns.includes(changeField)) changeField = `_${changeField}`;
+
+  const origins = new WeakMap<Record<string, unknown>, RowDiff>();
+  const rows = diff.rows
+    .filter((row) => filter === "all" || row.action === filter)
+    .map((row) => {
+      const values = (row.action === "deleted" ? row.target : row.source) ?? {};
+      const gridRow: Record<string, unknown> = { [changeField]: ACTION_LABEL[row.action] };
+      for (const column of diff.columns) {
+        gridRow[column] = row.changedColumns.includes(column)
+          ? `${cellText(row.target?.[column]) || "NULL"} → ${cellText(row.source?.[column]) || "NULL"}`
+          : values[column];
+      }
+      origins.set(gridRow, row);
+      return gridRow;
+    });
+
+  // Masked by the server already, so the grid shows the values as they came.
+  const result: QueryResult = {
+    rows,
+    fields: [changeField, ...diff.columns],
+    rowCount: rows.length,
+    executionTime: 0,
+    masking: diff.masking,
+  };
+  const highlight = (row: Record<string, unknown>, columnId: string): CellHighlight | undefined => {
+    const origin = origins.get(row);
+    if (!origin) return undefined;
+    if (origin.action !== "changed" || columnId === changeField) return origin.action;
+    return origin.changedColumns.includes(columnId) ? "changed" : undefined;
+  };
+  return { result, highlight };
+}
+
+async function postDataDiff(body: Record<string, unknown>): Promise<DataDiffResponse> {
+  const res = await fetch("/api/db/data-diff", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+}
+
+export function DataDiff({ schema, connection }: DataDiffProps) {
+  const { connections: allConnections } = useAllConnections();
+  const emptySide: SideState = { connectionId: connection?.id ?? "", kind: "table", table: "", sql: "" };
+  const [sides, setSides] = useState<Record<SideName, SideState>>({ source: emptySide, target: emptySide });
+  const [keyColumns, setKeyColumns] = useState("");
+  const [diff, setDiff] = useState<DataDiffResponse | null>(null);
+  const [filter, setFilter] = useState<RowFilter>("all");
+  const [showScript, setShowScript] = useState(false);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const connectionOf = useCallback(
+    (id: string) => allConnections.find((c) => c.id === id) ?? (connection?.id === id ? connection : undefined),
+    [allConnections, connection],
+  );
+
+  const updateSide = (side: SideName, patch: Partial<SideState>) =>
+    setSides((current) => ({ ...current, [side]: { ...current[side], ...patch } }));
+
+  const sideReady = (side: SideState) =>
+    connectionOf(side.connectionId) !== undefined && (side.kind === "table" ? side.table.trim() : side.sql.trim());
+
+  const compare = useCallback(async () => {
+    const sideBody = (side: SideState) => ({
+      ...buildConnectionPayload(connectionOf(side.connectionId)!),
+      ...(side.kind === "table" ? { table: side.table.trim() } : { sql: side.sql.trim() }),
+    });
+    setComparing(true);
+    setError(null);
+    try {
+      const result = await postDataDiff({
+        source: sideBody(sides.source),
+        target: sideBody(sides.target),
+        keyColumns: keyColumns
+          .split(",")
+          .map((column) => column.trim())
+          .filter(Boolean),
+      });
+      setDiff(result);
+      setFilter("all");
+      setShowScript(false);
+    } catch (err) {
+      setDiff(null);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setComparing(false);
+    }
+  }, [connectionOf, sides, keyColumns]);
+
+  const grid = useMemo(() => (diff ? toGridResult(diff, filter) : null), [diff, filter]);
+
+  const downloadScript = () => {
+    if (!diff?.script) return;
+    const table = sides.target.table.replace(/[^\w.-]+/g, "_") || "target";
+    downloadText(diff.script, "text/sql", `reconcile-${table}.sql`);
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-sunken">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-hairline bg-surface flex-wrap">
+        <Rows3 strokeWidth={1.5} className="w-3.5 h-3.5 text-sky-400" />
+        <span className="text-xs font-medium text-fg-tertiary">Data Diff</span>
+
+        <div className="h-4 w-px bg-fill-strong" />
+
+        <input
+          type="text"
+          aria-label="Key columns"
+          placeholder="Key columns (default: primary key)"
+          value={keyColumns}
+          onChange={(e) => setKeyColumns(e.target.value)}
+          className="h-7 px-2 text-xs bg-fill border border-hairline-strong rounded text-fg-secondary focus:outline-none focus:border-blue-500 w-56"
+        />
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs font-medium text-fg-muted hover:text-fg-bright gap-1"
+          onClick={compare}
+          disabled={comparing || !sideReady(sides.source) || !sideReady(sides.target)}
+        >
+          <Play strokeWidth={1.5} className="w-3 h-3" /> Compare
+        </Button>
+        {comparing && <span className="text-xs text-fg-muted animate-pulse">Comparing...</span>}
+
+        <div className="flex-1" />
+
+        {diff && diff.rows.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs font-medium text-fg-muted hover:text-fg-bright gap-1"
+            onClick={() => setShowScript(!showScript)}
+          >
+            <FileCode className="w-3 h-3" /> {showScript ? "Rows" : "Sync Script"}
+          </Button>
+        )}
+      </div>
+
+      {/* Sides */}
+      <div className="grid grid-cols-2 gap-2 px-3 py-2 border-b border-hairline">
+        {(["source", "target"] as const).map((side) => (
+          <SideEditor
+            key={side}
+            label={side === "source" ? "Source" : "Target"}
+            state={sides[side]}
+            connections={allConnections}
+            tables={sides[side].connectionId === connection?.id ? schema.map((t) => t.name) : []}
+            onChange={(patch) => updateSide(side, patch)}
+          />
+        ))}
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-hidden flex flex-col">
+        {error ? (
+          <div className="flex-1 flex items-center justify-center gap-2 text-xs text-red-400">
+            <AlertTriangle strokeWidth={1.5} className="w-3.5 h-3.5" /> {error}
+          </div>
+        ) : !diff || !grid ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-fg-subtle gap-2">
+            <Rows3 strokeWidth={1.5} className="w-10 h-10 opacity-30" />
+            <p className="text-xs">Pick a table or a query on each side and compare their rows</p>
+            <p className="text-xs text-fg-faint">The target is what the sync script changes to match the source</p>
+          </div>
+        ) : diff.rows.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-fg-subtle text-xs">
+            No differences found: {diff.summary.unchanged} rows match
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-2 px-3 py-1.5 border-b border-hairline flex-wrap">
+              {FILTERS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setFilter(value)}
+                  className={cn(
+                    "text-xs px-2 py-0.5 rounded",
+                    filter === value ? "bg-fill-strong text-fg-bright" : "text-fg-muted hover:text-fg-secondary",
+                  )}
+                >
+                  {label}
+                  {value !== "all" && ` (${diff.summary[value]})`}
+                </button>
+              ))}
+              <Badge className="text-xs bg-fill text-fg-muted">{diff.summary.unchanged} unchanged</Badge>
+              <span className="text-xs text-fg-subtle">Key: {diff.keyColumns.join(", ")}</span>
+              {diff.truncated && (
+                <span className="text-xs text-amber-400/80">
+                  Showing the first {diff.rows.length} differences; the script covers all of them.
+                </span>
+              )}
+              {(diff.sourceOnlyColumns.length > 0 || diff.targetOnlyColumns.length > 0) && (
+                <span className="text-xs text-amber-400/80">
+                  Not compared: {[...diff.sourceOnlyColumns, ...diff.targetOnlyColumns].join(", ")}
+                </span>
+              )}
+            </div>
+            {showScript ? (
+              <div className="flex-1 overflow-auto p-4 space-y-3">
+                {diff.script ? (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs font-medium text-fg-muted hover:text-fg-bright gap-1"
+                      onClick={downloadScript}
+                    >
+                      <Download strokeWidth={1.5} className="w-3 h-3" /> Download .sql
+                    </Button>
+                    <pre className="text-xs font-mono text-fg-secondary bg-raised border border-hairline-strong rounded-lg p-4 overflow-auto whitespace-pre-wrap">
+                      {diff.script}
+                    </pre>
+                  </>
+                ) : (
+                  <p className="text-xs text-fg-subtle">{diff.scriptUnavailable}</p>
+                )}
+              </div>
+            ) : (
+              <div className="flex-1 overflow-hidden">
+                <ResultsGrid result={grid.result} cellHighlight={grid.highlight} />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SideEditor({
+  label,
+  state,
+  connections,
+  tables,
+  onChange,
+}: {
+  label: string;
+  state: SideState;
+  connections: DatabaseConnection[];
+  tables: string[];
+  onChange: (patch: Partial<SideState>) => void;
+}) {
+  const listId = `data-diff-tables-${label.toLowerCase()}`;
+  return (
+    <div className="flex flex-col gap-1 min-w-0">
+      <div className="flex items-center gap-1">
+        <span className="text-xs text-fg-subtle w-12">{label}</span>
+        <Select value={state.connectionId} onValueChange={(connectionId) => onChange({ connectionId })}>
+          <SelectTrigger className="h-7 flex-1 min-w-0 text-xs bg-fill border-hairline-strong">
+            <SelectValue placeholder="Select connection" />
+          </SelectTrigger>
+          <SelectContent className="bg-overlay border-hairline-strong">
+            {connections.map((c) => (
+              <SelectItem key={c.id} value={c.id} className="text-xs">
+                {c.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {(["table", "query"] as const).map((kind) => (
+          <Button
+            key={kind}
+            variant="ghost"
+            size="sm"
+            aria-label={`${label} side: ${kind}`}
+            aria-pressed={state.kind === kind}
+            className={cn("h-7 text-xs text-fg-muted gap-1", state.kind === kind && "bg-fill-strong text-fg-bright")}
+            onClick={() => onChange({ kind })}
+          >
+            {kind === "table" ? (
+              <Table2 strokeWidth={1.5} className="w-3 h-3" />
+            ) : (
+              <Code2 strokeWidth={1.5} className="w-3 h-3" />
+            )}
+            {kind === "table" ? "Table" : "Query"}
+          </Button>
+        ))}
+      </div>
+      {state.kind === "table" ? (
+        <>
+          <input
+            type="text"
+            aria-label={`${label} table`}
+            placeholder="Table name"
+            list={listId}
+            value={state.table}
+            onChange={(e) => onChange({ table: e.target.value })}
+            className="h-7 px-2 text-xs bg-fill border border-hairline-strong rounded text-fg-secondary focus:outline-none focus:border-blue-500"
+          />
+          <datalist id={listId}>
+            {tables.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </datalist>
+        </>
+      ) : (
+        <textarea
+          aria-label={`${label} query`}
+          placeholder="SELECT ..."
+          value={state.sql}
+          onChange={(e) => onChange({ sql: e.target.value })}
+          rows={2}
+          className="px-2 py-1 text-xs font-mono bg-fill border border-hairline-strong rounded text-fg-secondary focus:outline-none focus:border-blue-500 resize-y"
+        />
+      )}
+    </div>
+  );
+}
@@ -16,9 +16,23 @@ import {
   ArrowRight,
   Loader2,
   X,
+  Database,
 } from "lucide-react";
-import type { DatabaseType, TableSchema } from "@/lib/types";
+import { toast } from "sonner";
+import type { DatabaseConnection, DatabaseType, TableSchema } from "@/lib/types";
 import { quoteLiteral } from "@/lib/sql/values";
+import { buildConnectionPayload } from "@/hooks/use-connection-payload";
+import { isNullCell, resolveColumnTypes } from "@/lib/import/infer";
+import { importLiteral } from "@/lib/import/insert";
+import { IMPORT_FILE_ACCEPT, IMPORT_FORMATS, importFormatFor, parseImportText } from "@/lib/import/formats";
+import type { ImportFormatInfo } from "@/lib/import/formats";
+import { listXlsxSheets, parseXlsx } from "@/lib/import/xlsx";
+import { blobAsyncBuffer, parseParquet } from "@/lib/import/parquet";
+import { IMPORT_COLUMN_TYPES, type ImportColumnType, type ParsedData } from "@/lib/import/types";
+
+export { parseCSV, parseJSON } from "@/lib/import/text";
+export { inferSqlType } from "@/lib/import/infer";
+export type { ParsedData } from "@/lib/import/types";
 
 interface DataImportModalProps {
   isOpen: boolean;
@@ -26,96 +40,25 @@ interface DataImportModalProps {
   onImport: (sql: string) => void;
   tables: TableSchema[];
   databaseType?: string;
-}
-
-export interface ParsedData {
-  headers: string[];
-  rows: string[][];
-  totalRows: number;
+  /**
+   * The connection a file too large for the tab is imported into, server-side.
+   * Without one such a file can be previewed but not imported.
+   */
+  connection?: DatabaseConnection | null;
 }
 
 type ImportStep = "upload" | "preview" | "configure" | "ready";
 
-export function parseCSV(text: string): ParsedData {
-  const lines = text.split(/\r?\n/).filter((line) => line.trim());
-  if (lines.length === 0) return { headers: [], rows: [], totalRows: 0 };
-
-  // Parse CSV with basic quote handling
-  const parseLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const ch = line[i];
-      if (ch === '"' && !inQuotes) {
-        inQuotes = true;
-      } else if (ch === '"' && inQuotes) {
-        if (i + 1 < line.length && line[i + 1] === '"') {
-          current += '"';
-          i++;
-        } else {
-          inQuotes = false;
-        }
-      } else if (ch === "," && !inQuotes) {
-        result.push(current.trim());
-        current = "";
-      } else {
-        current += ch;
-      }
-    }
-    result.push(current.trim());
-    return result;
-  };
-
-  const headers = parseLine(lines[0]);
-  const rows = lines.slice(1).map((line) => parseLine(line));
-  return { headers, rows, totalRows: rows.length };
-}
-
-export function parseJSON(text: string): ParsedData {
-  const data = JSON.parse(text);
-  const arr = Array.isArray(data) ? data : [data];
-  if (arr.length === 0) return { headers: [], rows: [], totalRows: 0 };
-
-  const headers = [...new Set(arr.flatMap((obj) => Object.keys(obj)))];
-  const rows = arr.map((obj) =>
-    headers.map((h) => {
-      const val = obj[h];
-      if (val === null || val === undefined) return "";
-      if (typeof val === "object") return JSON.stringify(val);
-      return String(val);
-    }),
-  );
-
-  return { headers, rows, totalRows: rows.length };
-}
-
 /**
- * The shapes a value must have to be written into a statement unquoted. They are
- * shared with `inferSqlType` on purpose: the type is inferred from a sample, so
- * the same test has to be applied again to each value that is emitted — one
- * predicate, used in both places, cannot drift from itself.
+ * Above this size a file is not imported from the tab. Its rows would be held
+ * three times over — parsed, as generated SQL, and in the editor that runs it —
+ * so it is previewed from its first rows and imported by `POST /api/db/import`.
  */
-const INTEGER_VALUE = /^-?\d+$/;
-const NUMERIC_VALUE = /^-?\d+(\.\d+)?$/;
-const BOOLEAN_VALUE = /^(true|false|0|1)$/i;
-
-export function inferSqlType(values: string[]): string {
-  const nonEmpty = values.filter((v) => v !== "" && v !== null);
-  if (nonEmpty.length === 0) return "TEXT";
-
-  const allIntegers = nonEmpty.every((v) => INTEGER_VALUE.test(v));
-  if (allIntegers) return "INTEGER";
-
-  const allNumbers = nonEmpty.every((v) => NUMERIC_VALUE.test(v));
-  if (allNumbers) return "NUMERIC";
-
-  const allBooleans = nonEmpty.every((v) => BOOLEAN_VALUE.test(v));
-  if (allBooleans) return "BOOLEAN";
-
-  return "TEXT";
-}
+const IN_TAB_IMPORT_BYTES = 5 * 1024 * 1024;
+/** How much of a large CSV or NDJSON file is read for its preview. */
+const PREVIEW_BYTES = 1024 * 1024;
+/** How many rows of a large file of any other format the preview keeps. */
+const PREVIEW_ROWS = 1000;
 
 /**
  * Quote an imported cell as a SQL literal for the dialect the import will run on.
@@ -126,7 +69,7 @@ export function inferSqlType(values: string[]): string {
  * closing quote and have the rest of the row read as statement text (#290).
  */
 export function escapeSQL(value: string, dialect?: DatabaseType): string {
-  if (value === "" || value === "null" || value === "NULL") return "NULL";
+  if (isNullCell(value)) return "NULL";
   return quoteLiteral(value, dialect);
 }
 
@@ -137,6 +80,7 @@ export function generateImportSQL(
   newTableName: string,
   columnMapping: Record<string, string>,
   dialect?: DatabaseType,
+  columnTypes?: ImportColumnType[],
 ): string {
   if (!parsedData) return "";
 
@@ -145,18 +89,15 @@ export function generateImportSQL(
 
   const statements: string[] = [];
 
-  // One type per column, read from the first 100 rows and computed once. It used
-  // to be re-inferred for every cell, which re-scanned that sample rows × columns
-  // times for a single import.
-  const columnTypes = parsedData.headers.map((_, idx) =>
-    inferSqlType(parsedData.rows.slice(0, 100).map((r) => r[idx])),
-  );
+  // The types the user settled on in the configure step; otherwise the file's own,
+  // or the ones its first rows suggest.
+  const types = columnTypes ?? resolveColumnTypes(parsedData.headers, parsedData.rows, parsedData.columnTypes);
 
   // CREATE TABLE if new
   if (createNewTable) {
     const colDefs = parsedData.headers.map((h, idx) => {
       const colName = columnMapping[h] || h;
-      return `  ${colName} ${columnTypes[idx]}`;
+      return `  ${colName} ${types[idx]}`;
     });
     statements.push(`CREATE TABLE ${tableName} (\n${colDefs.join(",\n")}\n);`);
   }
@@ -168,24 +109,7 @@ export function generateImportSQL(
   for (let i = 0; i < parsedData.rows.length; i += batchSize) {
     const batch = parsedData.rows.slice(i, i + batchSize);
     const valueRows = batch.map((row) => {
-      const values = row.map((val, idx) => {
-        const sqlType = columnTypes[idx];
-        if (val === "" || val === "NULL" || val === "null") return "NULL";
-        // The type came from the first 100 rows, so every value after them is
-        // outside the evidence for it. Each one is tested again by the same
-        // predicate that typed the column, and one that fails falls through to a
-        // quoted literal: unquoted text is statement grammar, and a row past the
-        // sample used to be able to carry `0); DELETE FROM users; --` straight
-        // into an import the user then executes (PR #304 review).
-        if (sqlType === "BOOLEAN" && BOOLEAN_VALUE.test(val)) {
-          return val.toLowerCase() === "true" || val === "1" ? "TRUE" : "FALSE";
-        }
-        if (sqlType === "INTEGER" && INTEGER_VALUE.test(val)) return val;
-        if (sqlType === "NUMERIC" && NUMERIC_VALUE.test(val)) return val;
-        // A value the engine will refuse for its column is better than one it
-        // reads as SQL: the type error names the row, and nothing executes.
-        return escapeSQL(val, dialect);
-      });
+      const values = row.map((val, idx) => importLiteral(val, types[idx], dialect));
       return `  (${values.join(", ")})`;
     });
 
@@ -195,29 +119,62 @@ export function generateImportSQL(
   return statements.join("\n\n");
 }
 
-export function DataImportModal({ isOpen, onClose, onImport, tables, databaseType }: DataImportModalProps) {
+/**
+ * The preview of a text file. A small one is parsed whole. Of a large one only
+ * the first `PREVIEW_BYTES` were read when the format is line-oriented — the last
+ * line of that slice is usually cut short and is dropped, not parsed as a row —
+ * and a JSON array, which has to be read whole to parse at all, keeps its first
+ * `PREVIEW_ROWS`.
+ */
+function readTextPreview(text: string, format: ImportFormatInfo, large: boolean): ParsedData {
+  if (!large) return parseImportText(text, format.id);
+  if (format.lineOriented) {
+    return { ...parseImportText(text.slice(0, text.lastIndexOf("\n") + 1), format.id), truncated: true };
+  }
+  const data = parseImportText(text, format.id);
+  return data.rows.length > PREVIEW_ROWS ? { ...data, rows: data.rows.slice(0, PREVIEW_ROWS), truncated: true } : data;
+}
+
+/** "1,234 rows" — or "1,000+ rows" for a preview cut from a file whose length is not known. */
+function rowCountLabel(data: ParsedData): string {
+  if (data.truncated && data.totalRows <= data.rows.length) return `${data.rows.length.toLocaleString()}+ rows`;
+  return `${data.totalRows.toLocaleString()} rows`;
+}
+
+export function DataImportModal({ isOpen, onClose, onImport, tables, databaseType, connection }: DataImportModalProps) {
   const [step, setStep] = useState<ImportStep>("upload");
   const [parsedData, setParsedData] = useState<ParsedData | null>(null);
+  const [file, setFile] = useState<File | null>(null);
   const [fileName, setFileName] = useState("");
-  const [fileType, setFileType] = useState<"csv" | "json">("csv");
+  const [format, setFormat] = useState<ImportFormatInfo>(IMPORT_FORMATS[0]);
+  const [sheets, setSheets] = useState<string[]>([]);
+  const [sheet, setSheet] = useState("");
   const [targetTable, setTargetTable] = useState("");
   const [createNewTable, setCreateNewTable] = useState(false);
   const [newTableName, setNewTableName] = useState("");
   const [columnMapping, setColumnMapping] = useState<Record<string, string>>({});
+  const [columnTypes, setColumnTypes] = useState<ImportColumnType[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isImporting, setIsImporting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // The workbook's bytes, kept so another sheet can be read without asking for the file again.
+  const workbookRef = useRef<Uint8Array | null>(null);
 
   const resetState = useCallback(() => {
     setStep("upload");
     setParsedData(null);
+    setFile(null);
     setFileName("");
+    setSheets([]);
+    setSheet("");
     setTargetTable("");
     setCreateNewTable(false);
     setNewTableName("");
     setColumnMapping({});
+    setColumnTypes([]);
     setError(null);
     setIsImporting(false);
+    workbookRef.current = null;
   }, []);
 
   const handleClose = () => {
@@ -225,39 +182,87 @@ export function DataImportModal({ isOpen, onClose, onImport, tables, databaseTyp
     onClose();
   };
 
-  const handleFileSelect = useCallback((file: File) => {
-    setError(null);
-    setFileName(file.name);
+  const showParsed = useCallback((data: ParsedData) => {
+    if (data.headers.length === 0) {
+      setError("No data found in file");
+      return;
+    }
 
-    const ext = file.name.split(".").pop()?.toLowerCase();
-    const isJSON = ext === "json";
-    setFileType(isJSON ? "json" : "csv");
+    setParsedData(data);
+    // Auto-map columns 1:1
+    const mapping: Record<string, string> = {};
+    data.headers.forEach((h) => {
+      mapping[h] = h;
+    });
+    setColumnMapping(mapping);
+    setColumnTypes(resolveColumnTypes(data.headers, data.rows, data.columnTypes));
+    setStep("preview");
+  }, []);
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string;
-        const data = isJSON ? parseJSON(text) : parseCSV(text);
+  const showParseError = useCallback((err: unknown) => {
+    setError(`Failed to parse file: ${err instanceof Error ? err.message : "Unknown error"}`);
+  }, []);
+
+  const handleFileSelect = useCallback(
+    (selected: File) => {
+      setError(null);
+      setFile(selected);
+      setFileName(selected.name);
+      setSheets([]);
+      workbookRef.current = null;
+
+      const info = importFormatFor(selected.name);
+      setFormat(info);
+      const large = selected.size > IN_TAB_IMPORT_BYTES;
+      const maxRows = large ? PREVIEW_ROWS : undefined;
+
+      // Parquet is read in ranges straight off the File: its footer, then the rows
+      // previewed. A large one is never loaded into the tab at all.
+      if (info.id === "parquet") {
+        parseParquet(blobAsyncBuffer(selected), { maxRows }).then(showParsed, showParseError);
+        return;
+      }
 
-        if (data.headers.length === 0) {
-          setError("No data found in file");
-          return;
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        try {
+          const result = e.target?.result;
+          if (info.id === "xlsx") {
+            const bytes = new Uint8Array(result as ArrayBuffer);
+            const names = listXlsxSheets(bytes);
+            workbookRef.current = bytes;
+            setSheets(names);
+            setSheet(names[0] ?? "");
+            showParsed(parseXlsx(bytes, { sheet: names[0], maxRows }));
+          } else {
+            showParsed(readTextPreview(result as string, info, large));
+          }
+        } catch (err) {
+          showParseError(err);
         }
+      };
+      if (info.binary) reader.readAsArrayBuffer(selected);
+      else reader.readAsText(large && info.lineOriented ? selected.slice(0, PREVIEW_BYTES) : selected);
+    },
+    [showParsed, showParseError],
+  );
 
-        setParsedData(data);
-        // Auto-map columns 1:1
-        const mapping: Record<string, string> = {};
-        data.headers.forEach((h) => {
-          mapping[h] = h;
-        });
-        setColumnMapping(mapping);
-        setStep("preview");
+  const handleSheetChange = useCallback(
+    (name: string) => {
+      const bytes = workbookRef.current;
+      if (!bytes || !file) return;
+      setError(null);
+      setSheet(name);
+      try {
+        showParsed(
+          parseXlsx(bytes, { sheet: name, maxRows: file.size > IN_TAB_IMPORT_BYTES ? PREVIEW_ROWS : undefined }),
+        );
       } catch (err) {
-        setError(`Failed to parse file: ${err instanceof Error ? err.message : "Unknown error"}`);
+        showParseError(err);
       }
-    };
-    reader.readAsText(file);
-  }, []);
+    },
+    [file, showParsed, showParseError],
+  );
 
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
@@ -272,20 +277,67 @@ export function DataImportModal({ isOpen, onClose, onImport, tables, databaseTyp
     e.preventDefault();
   }, []);
 
+  // A preview is not the file: statements generated from it would import only the
+  // rows the tab read. Such a file goes to the server whole instead.
+  const serverImport = parsedData?.truncated === true;
+  const importTableName = createNewTable ? newTableName || "imported_data" : targetTable;
+
   const generatedSQL = useMemo(
     () =>
-      generateImportSQL(
-        parsedData,
-        targetTable,
-        createNewTable,
-        newTableName,
-        columnMapping,
-        databaseType as DatabaseType | undefined,
-      ),
-    [parsedData, targetTable, createNewTable, newTableName, columnMapping, databaseType],
+      serverImport
+        ? ""
+        : generateImportSQL(
+            parsedData,
+            targetTable,
+            createNewTable,
+            newTableName,
+            columnMapping,
+            databaseType as DatabaseType | undefined,
+            columnTypes,
+          ),
+    [serverImport, parsedData, targetTable, createNewTable, newTableName, columnMapping, databaseType, columnTypes],
   );
 
+  const importOnServer = async () => {
+    if (!file || !connection) {
+      setError("This file is too large to import from the tab, and there is no connection to import it into.");
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    const form = new FormData();
+    form.append("file", file);
+    form.append(
+      "options",
+      JSON.stringify({
+        ...buildConnectionPayload(connection),
+        format: format.id,
+        ...(sheet && { sheet }),
+        table: importTableName,
+        createTable: createNewTable,
+        columnMapping,
+        columnTypes,
+      }),
+    );
+
+    try {
+      const res = await fetch("/api/db/import", { method: "POST", body: form });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Import failed");
+      toast.success(`Imported ${Number(data.rowsInserted).toLocaleString()} rows into ${importTableName}`);
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+      setIsImporting(false);
+    }
+  };
+
   const handleImport = () => {
+    if (serverImport) {
+      void importOnServer();
+      return;
+    }
     if (!generatedSQL) return;
     setIsImporting(true);
     onImport(generatedSQL);
@@ -357,7 +409,7 @@ export function DataImportModal({ isOpen, onClose, onImport, tables, databaseTyp
               >
                 <Upload strokeWidth={1.5} className="w-10 h-10 text-fg-subtle mx-auto mb-4" />
                 <p className="text-xs text-fg-tertiary mb-1">Drop a file here or click to browse</p>
-                <p className="text-xs text-fg-subtle">Supports CSV and JSON files</p>
+                <p className="text-xs text-fg-subtle">Supports CSV, JSON, NDJSON, Excel and Parquet files</p>
                 <div className="flex items-center justify-center gap-4 mt-4">
                   <div className="flex items-center gap-1.5 text-fg-muted">
                     <FileSpreadsheet strokeWidth={1.5} className="w-3.5 h-3.5" />
@@ -367,12 +419,20 @@ export function DataImportModal({ isOpen, onClose, onImport, tables, databaseTyp
                     <FileJson strokeWidth={1.5} className="w-3.5 h-3.5" />
                     <span className="text-xs">JSON</span>
                   </div>
+                  <div className="flex items-center gap-1.5 text-fg-muted">
+                    <FileSpreadsheet strokeWidth={1.5} className="w-3.5 h-3.5" />
+                    <span className="text-xs">Excel</span>
+                  </div>
+                  <div className="flex items-center gap-1.5 text-fg-muted">
+                    <Database strokeWidth={1.5} className="w-3.5 h-3.5" />
+                    <span className="text-xs">Parquet</span>
+                  </div>
                 </div>
               </button>
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".csv,.json,.tsv"
+                accept={IMPORT_FILE_ACCEPT}
                 className="hidden"
                 onChange={(e) => {
                   const file = e.target.files?.[0];
@@ -393,15 +453,19 @@ export function DataImportModal({ isOpen, onClose, onImport, tables, databaseTyp
             <div className="p-4 space-y-4">
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
-                  {fileType === "json" ? (
+                  {format.id === "json" || format.id === "ndjson" ? (
                     <FileJson strokeWidth={1.5} className="w-5 h-5 text-amber-400" />
+                  ) : format.id === "xlsx" ? (
+                    <FileSpreadsheet strokeWidth={1.5} className="w-5 h-5 text-emerald-400" />
+                  ) : format.id === "parquet" ? (
+                    <Database strokeWidth={1.5} className="w-5 h-5 text-blue-400" />
                   ) : (
                     <FileText strokeWidth={1.5} className="w-5 h-5 text-emerald-400" />
                   )}
                   <div>
                     <p className="text-xs font-medium">{fileName}</p>
                     <p className="text-xs text-fg-muted">
-                      {parsedData.totalRows} rows, {parsedData.headers.length} columns
+                      {rowCountLabel(parsedData)}, {parsedData.headers.length} columns
                     </p>
                   </div>
                 </div>
@@ -417,6 +481,40 @@ export function DataImportModal({ isOpen, onClose, onImport, tables, databaseTyp
                 </Button>
               </div>
 
+              {sheets.length > 1 && (
+                <div>
+                  <label htmlFor="import-sheet" className="text-xs text-fg-tertiary">
+                    Sheet
+                  </label>
+                  <select
+                    id="import-sheet"
+                    value={sheet}
+                    onChange={(e) => handleSheetChange(e.target.value)}
+                    className="w-full mt-1 bg-overlay border border-hairline-strong rounded-md px-3 py-2 text-xs text-fg-secondary outline-none focus:border-blue-500/40"
+                  >
+                    {sheets.map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {parsedData.truncated && (
+                <div className="p-3 rounded-lg bg-blue-500/10 border border-blue-500/20 text-xs text-blue-400">
+                  This file is too large to import from the tab. The preview shows its first{" "}
+                  {parsedData.rows.length.toLocaleString()} rows; the whole file is imported on the server.
+                </div>
+              )}
+
+              {error && (
+                <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 flex items-center gap-2">
+                  <AlertTriangle strokeWidth={1.5} className="w-3.5 h-3.5 text-red-400 shrink-0" />
+                  <span className="text-xs text-red-400">{error}</span>
+                </div>
+              )}
+
               {/* Preview Table */}
               <div className="border border-hairline rounded-lg overflow-auto max-h-60">
                 <table className="w-full text-xs">
@@ -538,16 +636,17 @@ export function DataImportModal({ isOpen, onClose, onImport, tables, databaseTyp
               <div className="space-y-2">
                 <span className="text-xs text-fg-tertiary font-medium">Column Mapping</span>
                 <div className="border border-hairline rounded-lg overflow-hidden">
-                  <div className="bg-raised grid grid-cols-[1fr,auto,1fr] gap-2 px-3 py-1.5 text-xs text-fg-muted border-b border-hairline">
+                  <div className="bg-raised grid grid-cols-[1fr,auto,1fr,6rem] gap-2 px-3 py-1.5 text-xs text-fg-muted border-b border-hairline">
                     <span>Source Column</span>
                     <span></span>
                     <span>Target Column</span>
+                    <span>Type</span>
                   </div>
                   <div className="max-h-40 overflow-auto">
-                    {parsedData.headers.map((header) => (
+                    {parsedData.headers.map((header, idx) => (
                       <div
                         key={header}
-                        className="grid grid-cols-[1fr,auto,1fr] gap-2 items-center px-3 py-1.5 border-b border-hairline"
+                        className="grid grid-cols-[1fr,auto,1fr,6rem] gap-2 items-center px-3 py-1.5 border-b border-hairline"
                       >
                         <span className="text-xs text-fg-secondary font-mono truncate">{header}</span>
                         <ArrowRight strokeWidth={1.5} className="w-3 h-3 text-fg-subtle" />
@@ -558,6 +657,29 @@ export function DataImportModal({ isOpen, onClose, onImport, tables, databaseTyp
                           className="h-7 text-xs bg-overlay border-hairline-strong"
                           placeholder={header}
                         />
+                        {/* Only a table the import creates takes its types from here; an
+                            existing one already has its own, and the type shown is what
+                            the file suggests. */}
+                        {createNewTable ? (
+                          <select
+                            aria-label={`Type for ${header}`}
+                            value={columnTypes[idx] ?? "TEXT"}
+                            onChange={(e) =>
+                              setColumnTypes((prev) =>
+                                prev.map((t, i) => (i === idx ? (e.target.value as ImportColumnType) : t)),
+                              )
+                            }
+                            className="h-7 bg-overlay border border-hairline-strong rounded-md px-1 text-xs text-fg-secondary outline-none focus:border-blue-500/40"
+                          >
+                            {IMPORT_COLUMN_TYPES.map((t) => (
+                              <option key={t} value={t}>
+                                {t}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-xs text-fg-muted font-mono">{columnTypes[idx]}</span>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -592,7 +714,7 @@ export function DataImportModal({ isOpen, onClose, onImport, tables, databaseTyp
                 <div>
                   <p className="text-xs font-medium">Ready to Import</p>
                   <p className="text-xs text-fg-muted mt-0.5">
-                    {parsedData?.totalRows} rows into {createNewTable ? newTableName || "imported_data" : targetTable}
+                    {parsedData && rowCountLabel(parsedData)} into {importTableName}
                   </p>
                 </div>
                 {databaseType && (
@@ -600,13 +722,27 @@ export function DataImportModal({ isOpen, onClose, onImport, tables, databaseTyp
                 )}
               </div>
 
-              {/* SQL Preview */}
-              <div className="border border-hairline rounded-lg bg-raised overflow-auto max-h-60">
-                <pre className="p-3 text-xs text-fg-tertiary font-mono whitespace-pre-wrap">
-                  {generatedSQL.substring(0, 3000)}
-                  {generatedSQL.length > 3000 && "\n\n... (truncated for preview)"}
-                </pre>
-              </div>
+              {serverImport ? (
+                <div className="p-3 rounded-lg bg-blue-500/10 border border-blue-500/20 text-xs text-blue-400">
+                  The file is uploaded and inserted on the server in batches, inside one transaction where the database
+                  supports it, so a row it refuses leaves the table as it was.
+                </div>
+              ) : (
+                /* SQL Preview */
+                <div className="border border-hairline rounded-lg bg-raised overflow-auto max-h-60">
+                  <pre className="p-3 text-xs text-fg-tertiary font-mono whitespace-pre-wrap">
+                    {generatedSQL.substring(0, 3000)}
+                    {generatedSQL.length > 3000 && "\n\n... (truncated for preview)"}
+                  </pre>
+                </div>
+              )}
+
+              {error && (
+                <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 flex items-center gap-2">
+                  <AlertTriangle strokeWidth={1.5} className="w-3.5 h-3.5 text-red-400 shrink-0" />
+                  <span className="text-xs text-red-400">{error}</span>
+                </div>
+              )}
 
               <div className="flex justify-between">
                 <Button
@@ -618,16 +754,18 @@ export function DataImportModal({ isOpen, onClose, onImport, tables, databaseTyp
                   {"Back"}
                 </Button>
                 <div className="flex gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="h-8 text-xs border-hairline-strong"
-                    onClick={() => {
-                      navigator.clipboard.writeText(generatedSQL);
-                    }}
-                  >
-                    {"Copy SQL"}
-                  </Button>
+                  {!serverImport && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-8 text-xs border-hairline-strong"
+                      onClick={() => {
+                        navigator.clipboard.writeText(generatedSQL);
+                      }}
+                    >
+                      {"Copy SQL"}
+                    </Button>
+                  )}
                   <Button
                     size="sm"
                     className="bg-emerald-600 hover:bg-emerald-500 h-8 text-xs gap-1"
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
@@ -8,18 +8,18 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Shield, Plus, Pencil, Trash2, RotateCcw, Save, Lock } from "lucide-react";
+import { Shield, Plus, Pencil, Trash2, RotateCcw, Save, Lock, X } from "lucide-react";
 import { toast } from "sonner";
 import {
-  type MaskingConfig,
   type MaskingPattern,
   type MaskType,
   DEFAULT_MASKING_CONFIG,
+  KEYED_MASK_TYPES,
   MASK_TYPE_PREVIEWS,
   getPreviewMasked,
-  loadMaskingConfig,
-  saveMaskingConfig,
 } from "@/lib/data-masking";
+import type { ColumnMaskingRule, MaskingPolicy } from "@/lib/masking/types";
+import type { GrantableConnection } from "@/lib/access/types";
 
 const ALL_MASK_TYPES: MaskType[] = [
   "email",
@@ -32,10 +32,40 @@ const ALL_MASK_TYPES: MaskType[] = [
   "date",
   "financial",
   "custom",
+  "token",
+  "format_preserving",
+  "date_shift",
 ];
 
+const REVEAL_NOTE =
+  "Masked values are replaced on the server, before a result, an export or an agent read leaves it. Revealing one, or exporting and comparing without masking, needs the Unmask permission on the connection (Access), and every one is recorded in the audit log.";
+const KEYED_NOTE =
+  "Computed on the server with its own key: the same value always masks the same way, so the column can still be grouped and joined on. The preview is an example; the real output depends on the key.";
+const ENTITY_NOTE =
+  "Each date moves by an offset keyed on this column's value, so all the dates of one patient or customer move together.";
+const READ_ONLY_NOTE =
+  "Server storage is off, so the built-in policy applies and cannot be changed here. Set STORAGE_PROVIDER to save one.";
+
+/** The policy an admin resets to: the built-in name patterns, and no column rules. */
+const DEFAULT_POLICY: MaskingPolicy = { enabled: true, patterns: DEFAULT_MASKING_CONFIG.patterns, rules: [] };
+
+async function requestJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+}
+
+/**
+ * The deployment's masking policy (`/api/admin/masking-policy`): the name patterns,
+ * the column rules by connection and table, and the switch for both.
+ */
 export function MaskingSettings() {
-  const [config, setConfig] = useState<MaskingConfig>(() => loadMaskingConfig());
+  const [config, setConfig] = useState<MaskingPolicy | null>(null);
+  const [connections, setConnections] = useState<GrantableConnection[]>([]);
+  const [editable, setEditable] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
   const [editingPattern, setEditingPattern] = useState<MaskingPattern | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isNewPattern, setIsNewPattern] = useState(false);
@@ -45,38 +75,90 @@ export function MaskingSettings() {
   const [editMaskType, setEditMaskType] = useState<MaskType>("full");
   const [editColumnPatterns, setEditColumnPatterns] = useState("");
   const [editCustomMask, setEditCustomMask] = useState("");
+  const [editEntityColumn, setEditEntityColumn] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const data = await requestJSON<{
+          policy: MaskingPolicy;
+          connections: GrantableConnection[];
+          editable: boolean;
+        }>("/api/admin/masking-policy");
+        if (cancelled) return;
+        setConfig(data.policy);
+        setConnections(data.connections);
+        setEditable(data.editable);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const savePolicy = useCallback(async (policy: MaskingPolicy, message: string) => {
+    setBusy(true);
+    try {
+      const { policy: saved } = await requestJSON<{ policy: MaskingPolicy }>("/api/admin/masking-policy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: policy.enabled, patterns: policy.patterns, rules: policy.rules }),
+      });
+      setConfig(saved);
+      toast.success(message);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }, []);
 
   const handleSave = useCallback(() => {
-    saveMaskingConfig(config);
-    toast.success("Masking configuration saved");
-  }, [config]);
+    if (config) void savePolicy(config, "Masking policy saved");
+  }, [config, savePolicy]);
 
   const handleReset = useCallback(() => {
-    setConfig(DEFAULT_MASKING_CONFIG);
-    saveMaskingConfig(DEFAULT_MASKING_CONFIG);
-    toast.success("Masking configuration reset to defaults");
-  }, []);
+    void savePolicy(DEFAULT_POLICY, "Masking policy reset to defaults");
+  }, [savePolicy]);
 
-  const toggleGlobal = useCallback((enabled: boolean) => {
-    setConfig((prev) => ({ ...prev, enabled }));
+  const update = useCallback((change: (prev: MaskingPolicy) => MaskingPolicy) => {
+    setConfig((prev) => prev && change(prev));
   }, []);
 
-  const togglePatternEnabled = useCallback((patternId: string, enabled: boolean) => {
-    setConfig((prev) => ({
-      ...prev,
-      patterns: prev.patterns.map((p) => (p.id === patternId ? { ...p, enabled } : p)),
-    }));
-  }, []);
+  const toggleGlobal = useCallback((enabled: boolean) => update((prev) => ({ ...prev, enabled })), [update]);
 
-  const updateRoleSetting = useCallback((role: "admin" | "user", key: "canToggle" | "canReveal", value: boolean) => {
-    setConfig((prev) => ({
-      ...prev,
-      roleSettings: {
-        ...prev.roleSettings,
-        [role]: { ...prev.roleSettings[role], [key]: value },
-      },
-    }));
-  }, []);
+  const togglePatternEnabled = useCallback(
+    (patternId: string, enabled: boolean) =>
+      update((prev) => ({
+        ...prev,
+        patterns: prev.patterns.map((p) => (p.id === patternId ? { ...p, enabled } : p)),
+      })),
+    [update],
+  );
+
+  const updateRule = useCallback(
+    (index: number, patch: Partial<ColumnMaskingRule>) =>
+      update((prev) => ({ ...prev, rules: prev.rules.map((r, i) => (i === index ? { ...r, ...patch } : r)) })),
+    [update],
+  );
+
+  const addRule = useCallback(
+    () =>
+      update((prev) => ({
+        ...prev,
+        rules: [...prev.rules, { connection: "*", table: "", column: "", maskType: "full" }],
+      })),
+    [update],
+  );
+
+  const removeRule = useCallback(
+    (index: number) => update((prev) => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) })),
+    [update],
+  );
 
   const openEditDialog = useCallback((pattern: MaskingPattern) => {
     setEditingPattern(pattern);
@@ -84,6 +166,7 @@ export function MaskingSettings() {
     setEditMaskType(pattern.maskType);
     setEditColumnPatterns(pattern.columnPatterns.join("\n"));
     setEditCustomMask(pattern.customMask || "");
+    setEditEntityColumn(pattern.entityColumn || "");
     setIsNewPattern(false);
     setIsDialogOpen(true);
   }, []);
@@ -94,6 +177,7 @@ export function MaskingSettings() {
     setEditMaskType("full");
     setEditColumnPatterns("");
     setEditCustomMask("");
+    setEditEntityColumn("");
     setIsNewPattern(true);
     setIsDialogOpen(true);
   }, []);
@@ -112,6 +196,11 @@ export function MaskingSettings() {
       toast.error("At least one column pattern is required");
       return;
     }
+    if (editMaskType === "date_shift" && !editEntityColumn.trim()) {
+      toast.error("A date shift needs the entity column it is keyed on");
+      return;
+    }
+    const entityColumn = editMaskType === "date_shift" ? editEntityColumn.trim() : undefined;
 
     if (isNewPattern) {
       const newPattern: MaskingPattern = {
@@ -122,13 +211,14 @@ export function MaskingSettings() {
         enabled: true,
         isBuiltin: false,
         customMask: editMaskType === "custom" ? editCustomMask : undefined,
+        entityColumn,
       };
-      setConfig((prev) => ({
+      update((prev) => ({
         ...prev,
         patterns: [...prev.patterns, newPattern],
       }));
     } else if (editingPattern) {
-      setConfig((prev) => ({
+      update((prev) => ({
         ...prev,
         patterns: prev.patterns.map((p) =>
           p.id === editingPattern.id
@@ -138,6 +228,7 @@ export function MaskingSettings() {
                 maskType: editMaskType,
                 columnPatterns: patterns,
                 customMask: editMaskType === "custom" ? editCustomMask : undefined,
+                entityColumn,
               }
             : p,
         ),
@@ -145,14 +236,31 @@ export function MaskingSettings() {
     }
 
     setIsDialogOpen(false);
-  }, [editName, editMaskType, editColumnPatterns, editCustomMask, isNewPattern, editingPattern]);
+  }, [
+    editName,
+    editMaskType,
+    editColumnPatterns,
+    editCustomMask,
+    editEntityColumn,
+    isNewPattern,
+    editingPattern,
+    update,
+  ]);
 
-  const deletePattern = useCallback((patternId: string) => {
-    setConfig((prev) => ({
-      ...prev,
-      patterns: prev.patterns.filter((p) => p.id !== patternId),
-    }));
-  }, []);
+  const deletePattern = useCallback(
+    (patternId: string) =>
+      update((prev) => ({
+        ...prev,
+        patterns: prev.patterns.filter((p) => p.id !== patternId),
+      })),
+    [update],
+  );
+
+  if (!config) {
+    return (
+      <p className={error ? "text-xs text-red-400" : "text-xs text-fg-muted"}>{error ?? "Loading masking policy…"}</p>
+    );
+  }
 
   return (
     <div className="space-y-6">
@@ -176,74 +284,8 @@ export function MaskingSettings() {
             <Switch checked={config.enabled} onCheckedChange={toggleGlobal} />
           </div>
 
-          {/* Role Permissions */}
-          <div className="space-y-3">
-            <h3 className="text-xs font-medium text-fg-secondary">Role Permissions</h3>
-            <div className="grid gap-3 rounded-lg border border-hairline-strong p-4">
-              {/* Admin Row */}
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  <Badge variant="outline" className="text-xs">
-                    Admin
-                  </Badge>
-                </div>
-                <div className="flex items-center gap-6">
-                  <label
-                    htmlFor="masking-admin-can-toggle"
-                    className="flex items-center gap-2 text-xs text-fg-tertiary"
-                  >
-                    <Switch
-                      id="masking-admin-can-toggle"
-                      aria-label="Admin can toggle"
-                      checked={config.roleSettings.admin.canToggle}
-                      onCheckedChange={(v) => updateRoleSetting("admin", "canToggle", v)}
-                    />
-                    Can toggle
-                  </label>
-                  <label
-                    htmlFor="masking-admin-can-reveal"
-                    className="flex items-center gap-2 text-xs text-fg-tertiary"
-                  >
-                    <Switch
-                      id="masking-admin-can-reveal"
-                      aria-label="Admin can reveal"
-                      checked={config.roleSettings.admin.canReveal}
-                      onCheckedChange={(v) => updateRoleSetting("admin", "canReveal", v)}
-                    />
-                    Can reveal
-                  </label>
-                </div>
-              </div>
-              {/* User Row */}
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  <Badge variant="outline" className="text-xs">
-                    User
-                  </Badge>
-                </div>
-                <div className="flex items-center gap-6">
-                  <label htmlFor="masking-user-can-toggle" className="flex items-center gap-2 text-xs text-fg-tertiary">
-                    <Switch
-                      id="masking-user-can-toggle"
-                      aria-label="User can toggle"
-                      checked={config.roleSettings.user.canToggle}
-                      onCheckedChange={(v) => updateRoleSetting("user", "canToggle", v)}
-                    />
-                    Can toggle
-                  </label>
-                  <label htmlFor="masking-user-can-reveal" className="flex items-center gap-2 text-xs text-fg-tertiary">
-                    <Switch
-                      id="masking-user-can-reveal"
-                      aria-label="User can reveal"
-                      checked={config.roleSettings.user.canReveal}
-                      onCheckedChange={(v) => updateRoleSetting("user", "canReveal", v)}
-                    />
-                    Can reveal
-                  </label>
-                </div>
-              </div>
-            </div>
-          </div>
+          <p className="text-xs text-fg-muted">{REVEAL_NOTE}</p>
+          {!editable && <p className="text-xs text-amber-400">{READ_ONLY_NOTE}</p>}
 
           {/* Masking Patterns */}
           <div className="space-y-3">
@@ -301,6 +343,94 @@ export function MaskingSettings() {
             </div>
           </div>
 
+          {/* Column Rules */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-medium text-fg-secondary">Column Rules</h3>
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={addRule}>
+                <Plus strokeWidth={1.5} className="w-3 h-3 mr-1" />
+                Add Rule
+              </Button>
+            </div>
+            <p className="text-xs text-fg-muted">
+              A column masked wherever a statement names its table, whatever detection makes of its name. Use * for
+              every connection or every table.
+            </p>
+            {config.rules.map((rule, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <Select value={rule.connection} onValueChange={(connection) => updateRule(index, { connection })}>
+                  <SelectTrigger aria-label={`Rule ${index + 1} connection`} className="h-8 w-44 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="*">Every connection</SelectItem>
+                    {connections.map((c) => (
+                      <SelectItem key={c.seedId} value={c.seedId}>
+                        {c.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  aria-label={`Rule ${index + 1} table`}
+                  placeholder="table"
+                  value={rule.table}
+                  onChange={(e) => updateRule(index, { table: e.target.value })}
+                  className="h-8 w-36 text-xs font-mono"
+                />
+                <Input
+                  aria-label={`Rule ${index + 1} column`}
+                  placeholder="column"
+                  value={rule.column}
+                  onChange={(e) => updateRule(index, { column: e.target.value })}
+                  className="h-8 w-36 text-xs font-mono"
+                />
+                <Select
+                  value={rule.maskType}
+                  onValueChange={(maskType) => updateRule(index, { maskType: maskType as MaskType })}
+                >
+                  <SelectTrigger aria-label={`Rule ${index + 1} mask type`} className="h-8 w-40 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALL_MASK_TYPES.map((t) => (
+                      <SelectItem key={t} value={t}>
+                        {t}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {rule.maskType === "custom" && (
+                  <Input
+                    aria-label={`Rule ${index + 1} custom mask`}
+                    placeholder="***"
+                    value={rule.customMask ?? ""}
+                    onChange={(e) => updateRule(index, { customMask: e.target.value })}
+                    className="h-8 w-24 text-xs font-mono"
+                  />
+                )}
+                {rule.maskType === "date_shift" && (
+                  <Input
+                    aria-label={`Rule ${index + 1} entity column`}
+                    placeholder="entity column"
+                    value={rule.entityColumn ?? ""}
+                    onChange={(e) => updateRule(index, { entityColumn: e.target.value })}
+                    className="h-8 w-36 text-xs font-mono"
+                  />
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove rule ${index + 1}`}
+                  className="h-7 w-7 text-fg-muted hover:text-red-400"
+                  onClick={() => removeRule(index)}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
           {/* Preview */}
           <div className="space-y-3">
             <h3 className="text-xs font-medium text-fg-secondary">Preview</h3>
@@ -326,11 +456,11 @@ export function MaskingSettings() {
 
           {/* Actions */}
           <div className="flex items-center justify-end gap-3 pt-2 border-t border-hairline">
-            <Button variant="outline" size="sm" onClick={handleReset}>
+            <Button variant="outline" size="sm" onClick={handleReset} disabled={!editable || busy}>
               <RotateCcw className="w-3 h-3 mr-1" />
               Reset Defaults
             </Button>
-            <Button size="sm" onClick={handleSave}>
+            <Button size="sm" onClick={handleSave} disabled={!editable || busy}>
               <Save strokeWidth={1.5} className="w-3 h-3 mr-1" />
               Save Config
             </Button>
@@ -373,6 +503,21 @@ export function MaskingSettings() {
                 </SelectContent>
               </Select>
             </div>
+            {KEYED_MASK_TYPES.has(editMaskType) && <p className="text-xs text-fg-muted">{KEYED_NOTE}</p>}
+            {editMaskType === "date_shift" && (
+              <div className="space-y-2">
+                <label htmlFor="masking-entity-column" className="text-xs font-medium text-fg-secondary">
+                  Entity Column
+                </label>
+                <Input
+                  id="masking-entity-column"
+                  value={editEntityColumn}
+                  onChange={(e) => setEditEntityColumn(e.target.value)}
+                  placeholder="e.g. patient_id"
+                />
+                <p className="text-xs text-fg-muted">{ENTITY_NOTE}</p>
+              </div>
+            )}
             {editMaskType === "custom" && (
               <div className="space-y-2">
                 <label htmlFor="masking-custom-mask" className="text-xs font-medium text-fg-secondary">
@@ -0,0 +1,77 @@
+"use client";
+
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { SchemaSnapshot } from "@/lib/types";
+import type { MigrationLedgerEntry, MigrationStatus } from "@/lib/migrations/types";
+
+interface MigrationHistoryProps {
+  migrations: MigrationLedgerEntry[];
+  snapshots: SchemaSnapshot[];
+}
+
+const EMPTY_MESSAGE = "No migrations applied to this connection yet.";
+
+const STATUS_LABELS: Record<MigrationStatus, string> = {
+  applied: "Applied",
+  failed: "Failed",
+  rolled_back: "Rolled back",
+};
+
+const STATUS_CLASSES: Record<MigrationStatus, string> = {
+  applied: "bg-green-500/20 text-green-400 border-green-500/30",
+  failed: "bg-red-500/20 text-red-400 border-red-500/30",
+  rolled_back: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+};
+
+/**
+ * The connection's migration ledger, newest first, beside the snapshot timeline. An
+ * entry names the snapshot it produced — the one taken from the schema the apply
+ * answered with — so a point on the timeline can be traced back to the change that
+ * made it, and a failed attempt says how far it got.
+ */
+export function MigrationHistory({ migrations, snapshots }: MigrationHistoryProps) {
+  if (migrations.length === 0) {
+    return <div className="flex items-center justify-center py-4 text-fg-subtle text-xs">{EMPTY_MESSAGE}</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="px-2 text-xs text-fg-muted font-medium">Migrations</div>
+      <ul className="space-y-1">
+        {migrations.map((migration) => {
+          const produced = snapshots.find((s) => s.migrationId === migration.id);
+          const partial = migration.status === "failed" && migration.statementsApplied > 0;
+          return (
+            <li
+              key={migration.id}
+              className="px-3 py-2 rounded text-xs bg-raised border border-hairline flex flex-col gap-0.5"
+            >
+              <div className="flex items-center gap-2">
+                <Badge className={cn("text-xs", STATUS_CLASSES[migration.status])}>
+                  {STATUS_LABELS[migration.status]}
+                </Badge>
+                <span className="text-fg-secondary truncate">{migration.description}</span>
+                <span className="ml-auto text-[0.625rem] text-fg-subtle">
+                  {new Date(migration.appliedAt).toLocaleString()}
+                </span>
+              </div>
+              <div className="text-[0.625rem] text-fg-subtle">
+                {migration.appliedBy} · {migration.statementsApplied}/{migration.statementCount} statements ·{" "}
+                {migration.executionMs} ms
+                {produced && <> · Snapshot: {produced.label || produced.connectionName}</>}
+              </div>
+              {partial && (
+                <div className="text-[0.625rem] text-red-400">
+                  {"Stopped part-way: the statements before the failure remain applied."}
+                </div>
+              )}
+              {migration.error && <div className="text-[0.625rem] text-red-400 font-mono">{migration.error}</div>}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
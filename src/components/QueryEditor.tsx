@@ -8,6 +8,7 @@ import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { format } from "sql-formatter";
 import { registerSQLCompletionProvider } from "@/lib/editor/sql-completions";
+import { registerCQLCompletionProvider } from "@/lib/editor/cql-completions";
 import type { SchemaCompletionCache, SchemaColumnItem } from "@/lib/editor/sql-completions";
 import { registerMongoDBCompletionProvider } from "@/lib/editor/mongodb-completions";
 import { registerLibreDBLanguage } from "@/lib/editor/libredb-language";
@@ -15,6 +16,10 @@ import { registerRedisLanguage } from "@/lib/editor/redis-language";
 import { configureMonacoLoader } from "@/lib/editor/monaco-loader";
 import { useEffectiveTheme } from "@/hooks/use-effective-theme";
 import { logger } from "@/lib/logger";
+import { resolveSqlGrammar } from "@/lib/sql/grammar";
+import { readQueryParameters } from "@/lib/sql/parameters";
+import type { DatabaseType, QueryParameter } from "@/lib/types";
+import { QueryParametersPanel } from "@/components/QueryParametersPanel";
 
 // Serve Monaco from our own origin rather than @monaco-editor/react's jsdelivr default.
 // Runs at module load so it is in place before the first <Editor> mounts.
@@ -45,6 +50,15 @@ interface QueryEditorProps {
   language?: "sql" | "json" | "libredb" | "redis";
   schemaContext?: string;
   capabilities?: import("@/lib/db/types").ProviderCapabilities;
+  /**
+   * The dialect the text runs under. It decides which placeholders (`:id`, `$1`,
+   * `@since`) are parameters, through its grammar record; without one none are.
+   */
+  dialect?: DatabaseType;
+  /** The values held for the text's parameters; see `QueryTab.parameters`. */
+  parameters?: QueryParameter[];
+  /** Shows the parameter panel when the text has placeholders. Without it the editor asks for nothing. */
+  onParametersChange?: (parameters: QueryParameter[]) => void;
 }
 
 interface ParsedTable {
@@ -94,7 +108,21 @@ const getEditorOptions = (showLineNumbers: boolean) => ({
 });
 
 export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
-  ({ value, onChange, onContentChange, onExplain, language = "sql", schemaContext, capabilities }, ref) => {
+  (
+    {
+      value,
+      onChange,
+      onContentChange,
+      onExplain,
+      language = "sql",
+      schemaContext,
+      capabilities,
+      dialect,
+      parameters,
+      onParametersChange,
+    },
+    ref,
+  ) => {
     const monaco = useMonaco();
     const editorRef = useRef<Monaco.editor.IStandaloneCodeEditor | null>(null);
     const [hasSelection, setHasSelection] = useState(false);
@@ -118,6 +146,30 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
       canExplainKeyRef.current?.set(canExplain);
     }, [canExplain, onExplain]);
 
+    // CQL is edited as `sql`, but the SQL formatter would rewrite it as PostgreSQL
+    // (`//` comments, collection literals), so a CQL connection gets no Format. The
+    // Shift+Alt+F binding is registered once, in onMount, so it reads this through
+    // a ref for the same reason the explain action does.
+    const isCql = capabilities?.queryDialect === "cql";
+    const canFormat = language === "json" || (language === "sql" && !isCql);
+    const canFormatRef = useRef(canFormat);
+    // An Elasticsearch editor takes Query DSL JSON beside SQL, and the SQL formatter
+    // would split a JSON request at every colon, so a request is formatted as JSON.
+    const takesJsonRequests = capabilities?.queryDialect === "elasticsearch";
+    const takesJsonRequestsRef = useRef(takesJsonRequests);
+
+    useEffect(() => {
+      canFormatRef.current = canFormat;
+      takesJsonRequestsRef.current = takesJsonRequests;
+    }, [canFormat, takesJsonRequests]);
+
+    // Read from `value`, which the studio updates on every keystroke through
+    // `onContentChange`, so a placeholder gets its row as it is typed.
+    const parameterNames = useMemo(
+      () => (language === "sql" && onParametersChange ? readQueryParameters(value, resolveSqlGrammar(dialect)) : []),
+      [language, onParametersChange, value, dialect],
+    );
+
     // Line numbers toggle — default must be SSR-stable; localStorage is applied after mount.
     const [showLineNumbers, setShowLineNumbers] = useState(true);
     const [lineNumbersPreferenceReady, setLineNumbersPreferenceReady] = useState(false);
@@ -213,14 +265,14 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
     }, [parsedSchema]);
 
     const handleFormat = () => {
-      if (!editorRef.current) return;
+      if (!editorRef.current || !canFormatRef.current) return;
       const currentValue = editorRef.current.getValue();
       if (!currentValue) return;
 
       try {
         let formatted: string;
-        if (language === "json") {
-          // JSON formatting for MongoDB queries
+        if (language === "json" || (takesJsonRequestsRef.current && currentValue.trimStart().startsWith("{"))) {
+          // JSON formatting for MongoDB queries and Query DSL requests
           const parsed = JSON.parse(currentValue);
           formatted = JSON.stringify(parsed, null, 2);
         } else if (language === "sql") {
@@ -473,13 +525,14 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
       });
     };
 
-    // SQL completion provider
+    // SQL completion provider, or the CQL one for a Cassandra connection
     useEffect(() => {
       if (monaco && language === "sql") {
-        const disposable = registerSQLCompletionProvider(monaco, schemaCompletionCache);
+        const register = isCql ? registerCQLCompletionProvider : registerSQLCompletionProvider;
+        const disposable = register(monaco, schemaCompletionCache);
         return () => disposable.dispose();
       }
-    }, [monaco, language, schemaCompletionCache]);
+    }, [monaco, language, isCql, schemaCompletionCache]);
 
     // MongoDB JSON completion provider
     useEffect(() => {
@@ -536,7 +589,7 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
             </Button>
           )}
 
-          {(language === "sql" || language === "json") && (
+          {canFormat && (
             <Button
               variant="ghost"
               size="sm"
@@ -600,6 +653,10 @@ export const QueryEditor = forwardRef<QueryEditorRef, QueryEditorProps>(
           </div>
         </div>
 
+        {onParametersChange && parameterNames.length > 0 && (
+          <QueryParametersPanel names={parameterNames} parameters={parameters} onChange={onParametersChange} />
+        )}
+
         {/* min-h-0: the flex item must shrink below Monaco's rendered height, else the editor can never shrink (#94) */}
         <div className="flex-1 relative min-h-0">
           <Editor
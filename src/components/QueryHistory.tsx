@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect, useMemo } from "react";
 import { storage } from "@/lib/storage";
-import { QueryHistoryItem } from "@/lib/types";
+import type { LoadedQueryState, QueryHistoryItem, QueryParameter } from "@/lib/types";
 import { csvRow } from "@/lib/export/csv";
 import { downloadText } from "@/lib/export/download";
 import {
@@ -30,12 +30,19 @@ import {
 } from "@/components/ui/dropdown-menu";
 
 interface QueryHistoryProps {
-  onSelectQuery: (query: string) => void;
+  /** Called with the values the entry was bound to, when it had any, so restoring it fills the panel in. */
+  onSelectQuery: (query: string, loaded?: LoadedQueryState) => void;
   activeConnectionId?: string;
   refreshTrigger?: number;
 }
 
 type SortField = "executedAt" | "executionTime" | "rowCount";
+
+/** A bound value as the entry shows it: text quoted, so an empty string is still visible. */
+function describeParameter({ name, type, value }: QueryParameter): string {
+  if (type === "null") return `${name} = NULL`;
+  return `${name} = ${type === "text" || type === "date" ? `'${value}'` : value}`;
+}
 type SortOrder = "asc" | "desc";
 
 export function QueryHistory({ onSelectQuery, activeConnectionId, refreshTrigger }: QueryHistoryProps) {
@@ -349,6 +356,13 @@ export function QueryHistory({ onSelectQuery, activeConnectionId, refreshTrigger
                         <pre className="text-xs font-mono text-fg-tertiary line-clamp-2 break-all whitespace-pre-wrap leading-relaxed">
                           {item.query}
                         </pre>
+                        {item.parameters && item.parameters.length > 0 && (
+                          <div className="mt-2 pt-2 border-t border-hairline flex flex-wrap gap-x-3 gap-y-0.5 text-xs font-mono text-blue-400/80">
+                            {item.parameters.map((p) => (
+                              <span key={p.name}>{describeParameter(p)}</span>
+                            ))}
+                          </div>
+                        )}
                         {item.errorMessage && (
                           <div className="mt-2 pt-2 border-t border-red-500/10 text-xs text-red-400/80 font-mono italic">
                             {item.errorMessage}
@@ -376,7 +390,10 @@ export function QueryHistory({ onSelectQuery, activeConnectionId, refreshTrigger
                         variant="ghost"
                         size="sm"
                         className="h-8 w-8 p-0 hover:bg-emerald-500/10 hover:text-emerald-400"
-                        onClick={() => onSelectQuery(item.query)}
+                        onClick={() => {
+                          if (item.parameters) onSelectQuery(item.query, { parameters: item.parameters });
+                          else onSelectQuery(item.query);
+                        }}
                         title="Restore Query"
                       >
                         <RotateCcw className="w-3 h-3" />
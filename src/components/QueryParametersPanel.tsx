@@ -0,0 +1,99 @@
+"use client";
+
+import React from "react";
+import { Variable } from "lucide-react";
+import type { QueryParameter, QueryParameterType } from "@/lib/types";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+
+interface QueryParametersPanelProps {
+  /** The placeholders the editor's text asks for, each once, in the order they appear. */
+  names: string[];
+  /** The values held for them. A name with none starts as empty text. */
+  parameters: QueryParameter[] | undefined;
+  /** Every value held, the changed one replaced: values for names no longer in the text are kept. */
+  onChange: (parameters: QueryParameter[]) => void;
+}
+
+const TYPE_LABELS: Record<QueryParameterType, string> = {
+  text: "Text",
+  number: "Number",
+  boolean: "Boolean",
+  date: "Date",
+  null: "NULL",
+};
+
+/**
+ * One row per placeholder in the editor's text: its type and the value it binds.
+ *
+ * Nothing is checked here. A number that does not read, or a date in the wrong
+ * form, is refused when the statement is bound, with the parameter's name - the
+ * panel only holds what was typed, so switching a type back and forth loses nothing.
+ */
+export function QueryParametersPanel({ names, parameters, onChange }: QueryParametersPanelProps) {
+  const held = parameters ?? [];
+  const rows = names.map((name) => held.find((p) => p.name === name) ?? { name, type: "text" as const, value: "" });
+
+  const update = (next: QueryParameter) => {
+    onChange([...held.filter((p) => p.name !== next.name), next]);
+  };
+
+  const changeType = (parameter: QueryParameter, type: QueryParameterType) => {
+    // A boolean is picked rather than typed, so it needs a value the picker shows.
+    const value =
+      type === "boolean" && parameter.value !== "true" && parameter.value !== "false" ? "true" : parameter.value;
+    update({ ...parameter, type, value });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1.5 px-4 py-1.5 bg-surface border-b border-hairline">
+      <span className="flex items-center gap-1.5 text-xs text-fg-muted">
+        <Variable strokeWidth={1.5} className="w-3.5 h-3.5" /> Parameters
+      </span>
+      {rows.map((parameter, index) => (
+        <div key={parameter.name} className="flex items-center gap-1.5">
+          <label htmlFor={`query-parameter-${index}`} className="text-xs font-mono text-blue-400">
+            {parameter.name}
+          </label>
+          <Select value={parameter.type} onValueChange={(type) => changeType(parameter, type as QueryParameterType)}>
+            <SelectTrigger aria-label={`${parameter.name} type`} className="h-6 w-24 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                <SelectItem key={type} value={type} className="text-xs">
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {parameter.type === "boolean" ? (
+            <Select value={parameter.value} onValueChange={(value) => update({ ...parameter, value })}>
+              <SelectTrigger id={`query-parameter-${index}`} className="h-6 w-20 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="true" className="text-xs">
+                  true
+                </SelectItem>
+                <SelectItem value="false" className="text-xs">
+                  false
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              id={`query-parameter-${index}`}
+              type={parameter.type === "number" ? "number" : parameter.type === "date" ? "date" : "text"}
+              value={parameter.type === "null" ? "" : parameter.value}
+              placeholder={parameter.type === "null" ? "NULL" : undefined}
+              disabled={parameter.type === "null"}
+              onChange={(e) => update({ ...parameter, value: e.target.value })}
+              className="h-6 w-36 px-2 text-xs font-mono bg-fill border-hairline-strong"
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 "use client";
 
 import React, { useState, useEffect, useMemo } from "react";
-import { ShieldAlert, ShieldCheck, AlertTriangle, Loader2, Play, X } from "lucide-react";
+import { ShieldAlert, ShieldCheck, AlertTriangle, Loader2, Play, Send, X } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { pipelineWritesOut, readMongoQuery } from "@/lib/db/utils/mongo-shell";
 import { readsSqlText, resolveSqlGrammar } from "@/lib/sql/grammar";
 import { readOperativeKeyword } from "@/lib/sql/operative-keyword";
 import { hasUnterminatedSpan } from "@/lib/sql/spans";
@@ -32,6 +33,12 @@ interface QuerySafetyDialogProps {
   onProceed: () => void;
   /** Optional API adapter: when provided, bypasses the built-in /api/ai/query-safety fetch. */
   onAnalyzeSafety?: (params: { query: string; schemaContext: string }) => Promise<SafetyAnalysis>;
+  /**
+   * Set when the statement is not its author's to run: the connection's writes need
+   * someone else's approval. The dialog then offers to request it instead of
+   * executing, and `onProceed` is never called.
+   */
+  onRequestApproval?: () => void;
 }
 
 function parseSafetyResponse(text: string): SafetyAnalysis | null {
@@ -93,6 +100,7 @@ export function QuerySafetyDialog({
   onClose,
   onProceed,
   onAnalyzeSafety,
+  onRequestApproval,
 }: QuerySafetyDialogProps) {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysis, setAnalysis] = useState<SafetyAnalysis | null>(null);
@@ -319,24 +327,34 @@ export function QuerySafetyDialog({
           >
             <span>Cancel</span>
           </button>
-          <button
-            onClick={onProceed}
-            disabled={isAnalyzing}
-            className={cn(
-              "px-4 py-2 rounded-lg text-white text-xs font-medium transition-colors flex items-center gap-1.5",
-              analysis?.riskLevel === "critical" || analysis?.riskLevel === "high"
-                ? "bg-red-600 hover:bg-red-500"
-                : "bg-blue-600 hover:bg-blue-500",
-              isAnalyzing && "opacity-50 cursor-not-allowed",
-            )}
-          >
-            <Play strokeWidth={1.5} className="w-3 h-3 fill-current" />
-            {analysis?.riskLevel === "critical"
-              ? "Execute Anyway"
-              : analysis?.riskLevel === "high"
-                ? "Proceed with Caution"
-                : "Execute Query"}
-          </button>
+          {onRequestApproval ? (
+            <button
+              onClick={onRequestApproval}
+              className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors flex items-center gap-1.5"
+            >
+              <Send strokeWidth={1.5} className="w-3 h-3" />
+              Request Approval
+            </button>
+          ) : (
+            <button
+              onClick={onProceed}
+              disabled={isAnalyzing}
+              className={cn(
+                "px-4 py-2 rounded-lg text-white text-xs font-medium transition-colors flex items-center gap-1.5",
+                analysis?.riskLevel === "critical" || analysis?.riskLevel === "high"
+                  ? "bg-red-600 hover:bg-red-500"
+                  : "bg-blue-600 hover:bg-blue-500",
+                isAnalyzing && "opacity-50 cursor-not-allowed",
+              )}
+            >
+              <Play strokeWidth={1.5} className="w-3 h-3 fill-current" />
+              {analysis?.riskLevel === "critical"
+                ? "Execute Anyway"
+                : analysis?.riskLevel === "high"
+                  ? "Proceed with Caution"
+                  : "Execute Query"}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -352,6 +370,46 @@ export function QuerySafetyDialog({
  */
 const DANGEROUS_KEYWORDS = new Set(["DELETE", "DROP", "TRUNCATE", "ALTER", "GRANT", "REVOKE", "UPDATE"]);
 
+/**
+ * The same vocabulary for MongoDB, by operation: the updates and deletes, and the
+ * index and collection changes that are SQL's DROP and ALTER. Inserts and creations
+ * do not ask, as INSERT and CREATE do not.
+ */
+const DANGEROUS_MONGO_OPERATIONS = new Set([
+  "updateOne",
+  "updateMany",
+  "deleteOne",
+  "deleteMany",
+  "findOneAndUpdate",
+  "dropIndex",
+  "renameCollection",
+]);
+
+/**
+ * MongoDB text is not SQL, so none of the keyword readings below can see a write in
+ * it: `db.users.deleteMany({})` has no DELETE keyword and its JSON envelope is one
+ * quoted run. It is read as the envelope the provider will run, with the provider's
+ * own parser. A bulk write asks unless every model is an insert, and an aggregate
+ * asks when it writes its result out over a collection. Text neither syntax reads
+ * is left to the keyword tests: the provider refuses it before anything runs.
+ */
+function isDangerousMongoQuery(query: string): boolean {
+  const parsed = readMongoQuery(query);
+  if (!parsed) return false;
+  if (DANGEROUS_MONGO_OPERATIONS.has(parsed.operation)) return true;
+  if (parsed.operation === "aggregate") return pipelineWritesOut(parsed.pipeline);
+  if (parsed.operation === "bulkWrite") {
+    // Read from unvalidated JSON as often as not, so each model is checked to be one.
+    const insertsOnly =
+      Array.isArray(parsed.operations) &&
+      parsed.operations.every(
+        (model) => typeof model === "object" && model !== null && Object.keys(model).join() === "insertOne",
+      );
+    return !insertsOnly;
+  }
+  return false;
+}
+
 /**
  * Detect if a query is potentially dangerous and should trigger safety analysis.
  *
@@ -391,9 +449,12 @@ const DANGEROUS_KEYWORDS = new Set(["DELETE", "DROP", "TRUNCATE", "ALTER", "GRAN
  * differently: a write written after a `#` is commented out in MySQL and the
  * statement's own code in PostgreSQL, and a `#` comment inside a CTE list used to
  * hide the `)` that closes it - so a `DELETE` after the list ran with no
- * confirmation at all. Omitting it keeps the dialect-less reading.
+ * confirmation at all. Omitting it keeps the dialect-less reading. On a MongoDB
+ * connection the text is also read as the operation it runs
+ * (`isDangerousMongoQuery`), which only ever adds a prompt.
  */
 export function isDangerousQuery(query: string, databaseType?: DatabaseType): boolean {
+  if (databaseType === "mongodb" && isDangerousMongoQuery(query)) return true;
   const grammar = resolveSqlGrammar(databaseType);
 
   // Asked FIRST because it is the only question here whose answer does not depend
@@ -19,6 +19,7 @@ import { cn } from "@/lib/utils";
 import { ArrowUpDown, ArrowUp, ArrowDown, Eye, Filter, Lock } from "lucide-react";
 import {
   type MaskingConfig,
+  type MaskingPattern,
   detectSensitiveColumnsFromConfig,
   maskValueByPattern,
   shouldMask,
@@ -38,9 +39,36 @@ export interface CellChange {
   newValue: string;
 }
 
+/**
+ * How one cell of a compared row differs (`src/lib/data-diff/`): its row exists only
+ * on the source, only on the target, or on both with this value changed.
+ */
+export type CellHighlight = "inserted" | "deleted" | "changed";
+
+const HIGHLIGHT_CLASS: Record<CellHighlight, string> = {
+  inserted: "bg-green-500/10 text-green-400",
+  deleted: "bg-red-500/10 text-red-400 line-through",
+  changed: "bg-yellow-500/15 text-yellow-300",
+};
+
 const CLEAR_FILTER_LABEL = "Clear filter";
 const EMPTY_RESULT_HINT = "The operation was successful, but the result set is currently empty.";
 const ENGINE_WARNINGS_LABEL = "The engine reported:";
+const REVEAL_SECONDS = 10;
+
+/**
+ * What a column the server masked is marked with. Its values arrive already
+ * replaced, so this is never applied to them - it only makes the column one of
+ * `sensitiveColumns`, for the lock in the header.
+ */
+const SERVER_MASKED: MaskingPattern = {
+  id: "server",
+  name: "Masked by policy",
+  columnPatterns: [],
+  maskType: "full",
+  enabled: true,
+  isBuiltin: true,
+};
 
 /**
  * TanStack Table 9 does not ship every feature to every table: each one is
@@ -79,6 +107,17 @@ interface ResultsGridProps {
   onCellChange?: (change: CellChange) => void;
   onDiscardChanges?: () => void;
   onApplyChanges?: () => void;
+  /**
+   * Marks cells the way a data diff reports them. Asked with the row object rather
+   * than its index, because filtering and sorting both move a row's index.
+   */
+  cellHighlight?: (row: Record<string, unknown>, columnId: string) => CellHighlight | undefined;
+  /**
+   * Asks the server for one value its masking policy masked: the row's index in
+   * `result.rows` and the column. Resolves null when the request failed, which the
+   * caller has already reported. Offered only where `result.masking.canReveal`.
+   */
+  onRevealCell?: (rowIndex: number, column: string) => Promise<{ value: unknown } | null>;
 }
 
 // Detect primary column (first text-like column that's not an ID)
@@ -133,6 +172,8 @@ export function ResultsGrid({
   onCellChange,
   onDiscardChanges,
   onApplyChanges,
+  cellHighlight,
+  onRevealCell,
 }: ResultsGridProps) {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [editingCell, setEditingCell] = useState<{ rowIndex: number; columnId: string } | null>(null);
@@ -141,43 +182,74 @@ export function ResultsGrid({
   const [selectedRow, setSelectedRow] = useState<{ row: Record<string, unknown>; index: number } | null>(null);
   const [columnFilters, setColumnFilters] = useState<Map<string, string>>(new Map());
   const [activeFilterCol, setActiveFilterCol] = useState<string | null>(null);
-  const [revealedCells, setRevealedCells] = useState<Set<string>>(new Set());
+  // Revealed values by `rowIndex:column`, the row's index in `result.rows`.
+  const [revealedCells, setRevealedCells] = useState<Map<string, unknown>>(new Map());
+
+  // A result the server masked (`result.masking`) is shown as it came: the policy
+  // chose its masked columns and already replaced their values, so the browser can
+  // neither turn that off nor undo it - only ask the server for one value again.
+  // The local settings below decide only for a result that carries no such field.
+  const serverMasking = result.masking;
 
   // Resolve config
   const resolvedConfig = useMemo(() => maskingConfig ?? loadMaskingConfig(), [maskingConfig]);
 
   // Effective masking state (RBAC-aware)
   const effectiveMaskingEnabled = useMemo(() => {
+    if (serverMasking) return serverMasking.columns.length > 0;
     return shouldMask(userRole, resolvedConfig) && (maskingEnabled ?? resolvedConfig.enabled);
-  }, [userRole, resolvedConfig, maskingEnabled]);
+  }, [serverMasking, userRole, resolvedConfig, maskingEnabled]);
 
-  const userCanToggle = useMemo(() => canToggleMasking(userRole, resolvedConfig), [userRole, resolvedConfig]);
-  const userCanReveal = useMemo(() => canReveal(userRole, resolvedConfig), [userRole, resolvedConfig]);
+  const userCanToggle = useMemo(
+    () => !serverMasking && canToggleMasking(userRole, resolvedConfig),
+    [serverMasking, userRole, resolvedConfig],
+  );
+  const userCanReveal = useMemo(
+    () => (serverMasking ? serverMasking.canReveal && onRevealCell !== undefined : canReveal(userRole, resolvedConfig)),
+    [serverMasking, onRevealCell, userRole, resolvedConfig],
+  );
+  // The card view, the mobile table and the row sheet mask for themselves, so they
+  // are told to only when the values have not been masked already.
+  const masksLocally = effectiveMaskingEnabled && !serverMasking;
 
   // Config-based sensitive column detection
   const sensitiveColumns = useMemo(
-    () => detectSensitiveColumnsFromConfig(result.fields, resolvedConfig),
-    [result.fields, resolvedConfig],
+    () =>
+      serverMasking
+        ? new Map(serverMasking.columns.map((column) => [column, SERVER_MASKED]))
+        : detectSensitiveColumnsFromConfig(result.fields, resolvedConfig),
+    [serverMasking, result.fields, resolvedConfig],
   );
 
   const hasSensitive = sensitiveColumns.size > 0;
 
   // Clear revealed cells when result changes
   useEffect(() => {
-    setRevealedCells(new Set());
+    setRevealedCells(new Map());
   }, [result]);
 
-  // Per-cell reveal with auto-hide
-  const revealCell = useCallback((key: string) => {
-    setRevealedCells((prev) => new Set(prev).add(key));
-    setTimeout(() => {
-      setRevealedCells((prev) => {
-        const next = new Set(prev);
-        next.delete(key);
-        return next;
-      });
-    }, 10000);
-  }, []);
+  // Per-cell reveal with auto-hide. A server-masked value is fetched first; the
+  // grid's own masking only hid the value it already holds.
+  const revealCell = useCallback(
+    async (rowIndex: number, column: string) => {
+      const key = `${rowIndex}:${column}`;
+      let value: unknown = result.rows[rowIndex]?.[column];
+      if (serverMasking) {
+        const revealed = await onRevealCell?.(rowIndex, column);
+        if (!revealed) return;
+        value = revealed.value;
+      }
+      setRevealedCells((prev) => new Map(prev).set(key, value));
+      setTimeout(() => {
+        setRevealedCells((prev) => {
+          const next = new Map(prev);
+          next.delete(key);
+          return next;
+        });
+      }, REVEAL_SECONDS * 1000);
+    },
+    [result.rows, serverMasking, onRevealCell],
+  );
 
   const primaryColumn = useMemo(() => detectPrimaryColumn(result.fields, result.rows), [result.fields, result.rows]);
 
@@ -311,6 +383,8 @@ export function ResultsGrid({
         const val = getValue();
         const isEditing = editingCell?.rowIndex === row.index && editingCell?.columnId === column.id;
         const pendingChange = getCellChange(row.index, column.id);
+        const highlight = cellHighlight?.(row.original, column.id);
+        const highlightClass = highlight && cn("rounded px-0.5", HIGHLIGHT_CLASS[highlight]);
 
         if (isEditing) {
           return (
@@ -352,22 +426,24 @@ export function ResultsGrid({
 
         // Apply masking if enabled
         const sensitivePattern = sensitiveColumns.get(column.id);
-        const cellKey = `${row.index}:${column.id}`;
+        // Looked up only for a masked cell: filtering and sorting move `row.index`.
+        const rowIndex = sensitivePattern ? result.rows.indexOf(row.original) : row.index;
+        const cellKey = `${rowIndex}:${column.id}`;
         const isRevealed = revealedCells.has(cellKey);
 
         if (effectiveMaskingEnabled && sensitivePattern && val !== null && val !== undefined && !isRevealed) {
-          const masked = maskValueByPattern(val, sensitivePattern);
+          const masked = serverMasking ? formatCellValue(val).display : maskValueByPattern(val, sensitivePattern);
           return (
-            <div className="truncate w-full h-full flex items-center gap-1 group/cell">
+            <div className={cn("truncate w-full h-full flex items-center gap-1 group/cell", highlightClass)}>
               <span className="text-fg-muted italic">{masked}</span>
               {userCanReveal && (
                 <button
                   className="opacity-0 group-hover/cell:opacity-100 transition-opacity p-0.5 rounded hover:bg-purple-500/10"
                   onClick={(e) => {
                     e.stopPropagation();
-                    revealCell(cellKey);
+                    void revealCell(rowIndex, column.id);
                   }}
-                  title="Reveal value (10s)"
+                  title={`Reveal value (${REVEAL_SECONDS}s)`}
                 >
                   <Eye className="w-3 h-3 text-purple-400" />
                 </button>
@@ -378,9 +454,9 @@ export function ResultsGrid({
 
         // Show revealed cell with lock indicator
         if (effectiveMaskingEnabled && sensitivePattern && isRevealed) {
-          const { display, className } = formatCellValue(val);
+          const { display, className } = formatCellValue(revealedCells.get(cellKey));
           return (
-            <div className="truncate w-full h-full flex items-center gap-1">
+            <div className={cn("truncate w-full h-full flex items-center gap-1", highlightClass)}>
               <span className={className}>{display}</span>
               <Lock strokeWidth={1.5} className="w-2.5 h-2.5 text-purple-400/50 shrink-0" />
             </div>
@@ -397,7 +473,13 @@ export function ResultsGrid({
         // editing at all (issue #269).
         if (!editingEnabled) {
           return (
-            <div className={cn("truncate w-full h-full", pendingChange && "bg-amber-500/10 rounded px-0.5")}>
+            <div
+              className={cn(
+                "truncate w-full h-full",
+                highlightClass,
+                pendingChange && "bg-amber-500/10 rounded px-0.5",
+              )}
+            >
               <span className={cn(className, pendingChange && "text-amber-400")}>{display}</span>
             </div>
           );
@@ -421,7 +503,9 @@ export function ResultsGrid({
     }));
   }, [
     result.fields,
+    result.rows,
     result.columnTypes,
+    serverMasking,
     editingCell,
     editValue,
     effectiveMaskingEnabled,
@@ -434,6 +518,7 @@ export function ResultsGrid({
     revealedCells,
     userCanReveal,
     revealCell,
+    cellHighlight,
   ]);
 
   const table = useTable({
@@ -541,7 +626,7 @@ export function ResultsGrid({
                 idColumn={idColumn}
                 index={virtualRow.index}
                 onSelect={() => setSelectedRow({ row: result.rows[virtualRow.index], index: virtualRow.index })}
-                maskingActive={effectiveMaskingEnabled}
+                maskingActive={masksLocally}
                 sensitiveColumns={sensitiveColumns}
               />
             </div>
@@ -608,8 +693,7 @@ export function ResultsGrid({
                 >
                   {result.fields.map((field, idx) => {
                     const pattern = sensitiveColumns.get(field);
-                    const isMasked =
-                      effectiveMaskingEnabled && pattern && row[field] != null && row[field] !== undefined;
+                    const isMasked = masksLocally && pattern && row[field] != null && row[field] !== undefined;
                     const displayValue = isMasked
                       ? maskValueByPattern(row[field], pattern)
                       : formatCellValue(row[field]).display;
@@ -704,9 +788,9 @@ export function ResultsGrid({
           isOpen={!!selectedRow}
           onClose={() => setSelectedRow(null)}
           rowIndex={selectedRow.index}
-          maskingActive={effectiveMaskingEnabled}
+          maskingActive={masksLocally}
           sensitiveColumns={sensitiveColumns}
-          allowReveal={userCanReveal}
+          allowReveal={userCanReveal && masksLocally}
         />
       )}
     </div>
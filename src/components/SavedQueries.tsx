@@ -2,21 +2,50 @@
 
 import React, { useState, useEffect } from "react";
 import { storage } from "@/lib/storage";
-import { SavedQuery } from "@/lib/types";
-import { Bookmark, Search, Trash2, Edit3, Tag, Calendar } from "lucide-react";
+import type { DatabaseConnection, LoadedQueryState, SavedQuery } from "@/lib/types";
+import { Bookmark, Search, Trash2, Edit3, Tag, Calendar, Clock, Share2 } from "lucide-react";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { format } from "date-fns";
+import { ScheduleDialog } from "./ScheduleDialog";
+import { TeamItems } from "./TeamItems";
+import { TeamPublishDialog } from "./TeamPublishDialog";
+import { cn } from "@/lib/utils";
 
 interface SavedQueriesProps {
-  onSelectQuery: (query: string) => void;
+  /** Called with the saved query's id and remembered parameter values, so a run can remember new ones. */
+  onSelectQuery: (query: string, loaded: LoadedQueryState) => void;
   connectionType?: string;
   refreshTrigger?: number;
+  /**
+   * The connection a schedule would run on. Scheduling is offered only when this is
+   * set, which the studio does with server storage on: the scheduler runs the saved
+   * queries it finds there, and cannot see ones kept only in the browser.
+   */
+  schedulingConnection?: DatabaseConnection | null;
+  userRole?: string;
+  /**
+   * Whether team workspaces are offered: a Team list beside the user's own, and
+   * publishing to it. Server storage only, like scheduling - a team's workspace
+   * lives there.
+   */
+  teamsEnabled?: boolean;
 }
 
-export function SavedQueries({ onSelectQuery, connectionType, refreshTrigger }: SavedQueriesProps) {
+export function SavedQueries({
+  onSelectQuery,
+  connectionType,
+  refreshTrigger,
+  schedulingConnection,
+  userRole,
+  teamsEnabled,
+}: SavedQueriesProps) {
   const [queries, setQueries] = useState<SavedQuery[]>([]);
   const [search, setSearch] = useState("");
+  const [scheduling, setScheduling] = useState<SavedQuery | null>(null);
+  const [publishing, setPublishing] = useState<SavedQuery | null>(null);
+  const [scope, setScope] = useState<"mine" | "team">("mine");
+  const showTeam = teamsEnabled && scope === "team";
 
   // Refresh queries when refreshTrigger changes (replaces key-based re-mount)
   useEffect(() => {
@@ -41,9 +70,29 @@ export function SavedQueries({ onSelectQuery, connectionType, refreshTrigger }:
   return (
     <div className="h-full flex flex-col bg-surface">
       <div className="p-4 border-b border-hairline flex flex-col gap-4">
-        <h3 className="text-xs font-medium text-fg-tertiary flex items-center gap-2">
-          <Bookmark strokeWidth={1.5} className="w-3.5 h-3.5" /> Saved Queries
-        </h3>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-medium text-fg-tertiary flex items-center gap-2">
+            <Bookmark strokeWidth={1.5} className="w-3.5 h-3.5" /> Saved Queries
+          </h3>
+          {teamsEnabled && (
+            <div className="flex rounded-md border border-hairline-strong overflow-hidden text-[0.625rem]">
+              {(["mine", "team"] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  aria-pressed={scope === value}
+                  onClick={() => setScope(value)}
+                  className={cn(
+                    "px-2 py-0.5 text-fg-muted hover:text-fg-secondary",
+                    scope === value && "bg-fill text-blue-400",
+                  )}
+                >
+                  {value === "mine" ? "Mine" : "Team"}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
 
         <div className="relative">
           <Search strokeWidth={1.5} className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3 h-3 text-fg-muted" />
@@ -57,13 +106,14 @@ export function SavedQueries({ onSelectQuery, connectionType, refreshTrigger }:
       </div>
 
       <div className="flex-1 overflow-y-auto custom-scrollbar">
-        {filteredQueries.length === 0 && (
+        {showTeam && <TeamItems search={search} connectionType={connectionType} onSelectQuery={onSelectQuery} />}
+        {!showTeam && filteredQueries.length === 0 && (
           <div className="h-full flex flex-col items-center justify-center opacity-20 p-8 text-center">
             <Bookmark strokeWidth={1.5} className="w-12 h-12 mb-4" />
             <p className="text-xs italic">No saved queries found</p>
           </div>
         )}
-        {filteredQueries.length > 0 && (
+        {!showTeam && filteredQueries.length > 0 && (
           <div className="grid grid-cols-1 gap-px bg-fill">
             {filteredQueries.map((q) => (
               <div
@@ -78,7 +128,7 @@ export function SavedQueries({ onSelectQuery, connectionType, refreshTrigger }:
                       <button
                         type="button"
                         className="text-blue-400 group-hover:text-blue-300 transition-colors cursor-pointer text-left after:absolute after:inset-0"
-                        onClick={() => onSelectQuery(q.query)}
+                        onClick={() => onSelectQuery(q.query, { savedQueryId: q.id, parameters: q.parameters })}
                       >
                         {q.name}
                       </button>
@@ -86,12 +136,34 @@ export function SavedQueries({ onSelectQuery, connectionType, refreshTrigger }:
                     {q.description && <p className="text-xs text-fg-muted line-clamp-1">{q.description}</p>}
                   </div>
                   <div className="relative z-10 flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 [@media(hover:none)]:opacity-100 transition-opacity">
+                    {schedulingConnection && schedulingConnection.type === q.connectionType && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Schedule ${q.name}`}
+                        className="h-6 w-6 text-fg-muted hover:text-blue-400"
+                        onClick={() => setScheduling(q)}
+                      >
+                        <Clock strokeWidth={1.5} className="w-3 h-3" />
+                      </Button>
+                    )}
+                    {teamsEnabled && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Publish ${q.name} to a team`}
+                        className="h-6 w-6 text-fg-muted hover:text-blue-400"
+                        onClick={() => setPublishing(q)}
+                      >
+                        <Share2 strokeWidth={1.5} className="w-3 h-3" />
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="icon"
                       aria-label={`Edit ${q.name}`}
                       className="h-6 w-6 text-fg-muted hover:text-fg-bright"
-                      onClick={() => onSelectQuery(q.query)}
+                      onClick={() => onSelectQuery(q.query, { savedQueryId: q.id, parameters: q.parameters })}
                     >
                       <Edit3 strokeWidth={1.5} className="w-3 h-3" />
                     </Button>
@@ -131,6 +203,15 @@ export function SavedQueries({ onSelectQuery, connectionType, refreshTrigger }:
           </div>
         )}
       </div>
+      {scheduling && schedulingConnection && (
+        <ScheduleDialog
+          savedQuery={scheduling}
+          connection={schedulingConnection}
+          userRole={userRole}
+          onClose={() => setScheduling(null)}
+        />
+      )}
+      {publishing && <TeamPublishDialog kind="saved_queries" data={publishing} onClose={() => setPublishing(null)} />}
     </div>
   );
 }
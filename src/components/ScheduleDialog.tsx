@@ -0,0 +1,453 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, Clock, Play, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Badge } from "./ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { ResultsGrid } from "./ResultsGrid";
+import { cn } from "@/lib/utils";
+import type { DatabaseConnection, QueryResult, SavedQuery } from "@/lib/types";
+import type { QuerySchedule, ScheduleRun } from "@/lib/scheduler/types";
+
+interface ScheduleDialogProps {
+  savedQuery: SavedQuery;
+  /** The connection a saved schedule runs on: the one the query is open against. */
+  connection: DatabaseConnection;
+  userRole?: string;
+  onClose: () => void;
+}
+
+const CRON_PRESETS: { label: string; cron: string }[] = [
+  { label: "Every 15 min", cron: "*/15 * * * *" },
+  { label: "Hourly", cron: "0 * * * *" },
+  { label: "Daily 09:00", cron: "0 9 * * *" },
+  { label: "Mondays 09:00", cron: "0 9 * * 1" },
+];
+
+interface FormState {
+  cron: string;
+  enabled: boolean;
+  keepResults: string;
+  alert: boolean;
+  metric: "rowCount" | "column";
+  column: string;
+  direction: "above" | "below";
+  warning: string;
+  critical: string;
+  webhookUrl: string;
+}
+
+function formOf(schedule: QuerySchedule | null): FormState {
+  const threshold = schedule?.threshold;
+  return {
+    cron: schedule?.cron ?? "0 9 * * *",
+    enabled: schedule?.enabled ?? true,
+    keepResults: String(schedule?.keepResults ?? 10),
+    alert: Boolean(threshold),
+    metric: !threshold || threshold.metric === "rowCount" ? "rowCount" : "column",
+    column: threshold && threshold.metric !== "rowCount" ? threshold.metric : "",
+    direction: threshold?.direction ?? "above",
+    warning: threshold ? String(threshold.warning) : "",
+    critical: threshold ? String(threshold.critical) : "",
+    webhookUrl: schedule?.webhookUrl ?? "",
+  };
+}
+
+/** The id a schedule stores for `connection`: managed ones by their seed, so no credentials travel. */
+function scheduleConnectionId(connection: DatabaseConnection): string {
+  return connection.managed && connection.seedId ? `seed:${connection.seedId}` : connection.id;
+}
+
+async function requestJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+}
+
+const LEVEL_CLASS: Record<string, string> = {
+  healthy: "border-emerald-500/30 text-emerald-400",
+  warning: "border-amber-500/30 text-amber-400",
+  critical: "border-red-500/30 text-red-400",
+};
+
+/**
+ * Attach a cron schedule to a saved query, and look through the results its runs
+ * kept. The server does the running (`src/lib/scheduler/`); this only edits the
+ * schedule and reads back what it found.
+ */
+export function ScheduleDialog({ savedQuery, connection, userRole, onClose }: ScheduleDialogProps) {
+  const [schedule, setSchedule] = useState<QuerySchedule | null>(null);
+  const [form, setForm] = useState<FormState>(() => formOf(null));
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<"save" | "delete" | "run" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRuns = useCallback(async (scheduleId: string) => {
+    const { runs } = await requestJSON<{ runs: ScheduleRun[] }>(
+      `/api/schedules/${encodeURIComponent(scheduleId)}/runs`,
+    );
+    setRuns(runs);
+    setSelectedRunId((current) => current ?? runs[0]?.id ?? null);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const { schedules } = await requestJSON<{ schedules: QuerySchedule[] }>("/api/schedules");
+        const existing = schedules.find((s) => s.savedQueryId === savedQuery.id) ?? null;
+        if (cancelled) return;
+        setSchedule(existing);
+        setForm(formOf(existing));
+        if (existing) await loadRuns(existing.id);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [savedQuery.id, loadRuns]);
+
+  const update = (patch: Partial<FormState>) => setForm((current) => ({ ...current, ...patch }));
+
+  const save = async () => {
+    setBusy("save");
+    setError(null);
+    try {
+      const body = {
+        ...(schedule ? { id: schedule.id } : {}),
+        savedQueryId: savedQuery.id,
+        connectionId: scheduleConnectionId(connection),
+        cron: form.cron,
+        enabled: form.enabled,
+        keepResults: Number(form.keepResults),
+        // An empty field goes as NaN, which JSON sends as null, and comes back as the server's message for it.
+        threshold: form.alert
+          ? {
+              metric: form.metric === "rowCount" ? "rowCount" : form.column,
+              direction: form.direction,
+              warning: form.warning.trim() === "" ? Number.NaN : Number(form.warning),
+              critical: form.critical.trim() === "" ? Number.NaN : Number(form.critical),
+            }
+          : null,
+        webhookUrl: form.webhookUrl,
+      };
+      const { schedule: saved } = await requestJSON<{ schedule: QuerySchedule }>("/api/schedules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      setSchedule(saved);
+      setForm(formOf(saved));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const remove = async () => {
+    if (!schedule || !confirm("Delete this schedule and the results it kept?")) return;
+    setBusy("delete");
+    setError(null);
+    try {
+      await requestJSON(`/api/schedules?id=${encodeURIComponent(schedule.id)}`, { method: "DELETE" });
+      setSchedule(null);
+      setForm(formOf(null));
+      setRuns([]);
+      setSelectedRunId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const runNow = async () => {
+    if (!schedule) return;
+    setBusy("run");
+    setError(null);
+    try {
+      const { run } = await requestJSON<{ run: ScheduleRun }>(
+        `/api/schedules/${encodeURIComponent(schedule.id)}/runs`,
+        { method: "POST" },
+      );
+      setSelectedRunId(run.id);
+      await loadRuns(schedule.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const selectedRun = runs.find((run) => run.id === selectedRunId) ?? null;
+  const preview = useMemo<QueryResult | null>(
+    () =>
+      selectedRun && selectedRun.status === "success"
+        ? {
+            rows: selectedRun.rows,
+            fields: selectedRun.fields,
+            rowCount: selectedRun.rows.length,
+            executionTime: selectedRun.durationMs,
+          }
+        : null,
+    [selectedRun],
+  );
+  const movesConnection = schedule !== null && schedule.connectionId !== scheduleConnectionId(connection);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-raised border-hairline-strong text-fg-secondary sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-fg flex items-center gap-2">
+            <Clock strokeWidth={1.5} className="w-5 h-5 text-blue-500" /> Schedule “{savedQuery.name}”
+          </DialogTitle>
+          <DialogDescription className="text-fg-muted">
+            The server runs the saved query on {connection.name} as you, keeps its latest results, and alerts you when a
+            threshold is crossed. Cron times are UTC.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-xs text-fg-muted py-6 text-center">Loading the schedule…</p>
+        ) : (
+          <div className="grid gap-4 py-2">
+            {movesConnection && (
+              <p className="text-xs text-amber-400">
+                This schedule runs on another connection. Saving moves it to {connection.name}.
+              </p>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="schedule-cron" className="text-xs font-medium text-fg-muted">
+                Cron expression
+              </Label>
+              <Input
+                id="schedule-cron"
+                value={form.cron}
+                onChange={(e) => update({ cron: e.target.value })}
+                className="bg-fill border-hairline-strong font-mono text-xs"
+              />
+              <div className="flex flex-wrap gap-1">
+                {CRON_PRESETS.map((preset) => (
+                  <Button
+                    key={preset.cron}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className={cn(
+                      "h-6 text-[0.625rem]",
+                      form.cron === preset.cron && "border-blue-500/50 text-blue-400",
+                    )}
+                    onClick={() => update({ cron: preset.cron })}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="schedule-enabled"
+                  checked={form.enabled}
+                  onCheckedChange={(enabled) => update({ enabled })}
+                />
+                <Label htmlFor="schedule-enabled" className="text-xs text-fg-muted">
+                  Enabled
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="schedule-keep" className="text-xs text-fg-muted">
+                  Keep last
+                </Label>
+                <Input
+                  id="schedule-keep"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={form.keepResults}
+                  onChange={(e) => update({ keepResults: e.target.value })}
+                  className="bg-fill border-hairline-strong h-7 w-20 text-xs"
+                />
+                <span className="text-xs text-fg-muted">results</span>
+              </div>
+            </div>
+
+            <div className="grid gap-2 rounded-md border border-hairline p-3">
+              <div className="flex items-center gap-2">
+                <Switch id="schedule-alert" checked={form.alert} onCheckedChange={(alert) => update({ alert })} />
+                <Label htmlFor="schedule-alert" className="text-xs text-fg-muted">
+                  Alert on a threshold
+                </Label>
+              </div>
+              {form.alert && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select
+                    value={form.metric}
+                    onValueChange={(metric) => update({ metric: metric as FormState["metric"] })}
+                  >
+                    <SelectTrigger aria-label="Measure" className="h-7 w-36 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="rowCount">Row count</SelectItem>
+                      <SelectItem value="column">Column value</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {form.metric === "column" && (
+                    <Input
+                      aria-label="Column"
+                      placeholder="column in the first row"
+                      value={form.column}
+                      onChange={(e) => update({ column: e.target.value })}
+                      className="bg-fill border-hairline-strong h-7 w-44 text-xs font-mono"
+                    />
+                  )}
+                  <Select
+                    value={form.direction}
+                    onValueChange={(direction) => update({ direction: direction as FormState["direction"] })}
+                  >
+                    <SelectTrigger aria-label="Direction" className="h-7 w-28 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="above">at or above</SelectItem>
+                      <SelectItem value="below">at or below</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    aria-label="Warning threshold"
+                    placeholder="warning"
+                    type="number"
+                    value={form.warning}
+                    onChange={(e) => update({ warning: e.target.value })}
+                    className="bg-fill border-hairline-strong h-7 w-24 text-xs"
+                  />
+                  <Input
+                    aria-label="Critical threshold"
+                    placeholder="critical"
+                    type="number"
+                    value={form.critical}
+                    onChange={(e) => update({ critical: e.target.value })}
+                    className="bg-fill border-hairline-strong h-7 w-24 text-xs"
+                  />
+                </div>
+              )}
+              <div className="grid gap-1">
+                <Label htmlFor="schedule-webhook" className="text-xs text-fg-muted">
+                  Webhook (optional)
+                </Label>
+                <Input
+                  id="schedule-webhook"
+                  placeholder="http://localhost:9000/alerts"
+                  value={form.webhookUrl}
+                  onChange={(e) => update({ webhookUrl: e.target.value })}
+                  className="bg-fill border-hairline-strong h-7 text-xs font-mono"
+                />
+              </div>
+            </div>
+
+            {error && (
+              <div className="flex items-start gap-2 rounded-md border border-red-500/30 bg-red-500/10 p-2 text-xs text-red-400">
+                <AlertTriangle strokeWidth={1.5} className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {schedule && (
+              <div className="grid gap-2">
+                <div className="flex items-center justify-between text-xs text-fg-muted">
+                  <span>Recent runs</span>
+                  <span className="font-mono">
+                    Next: {schedule.nextRunAt ? format(new Date(schedule.nextRunAt), "MMM d, HH:mm") : "—"}
+                  </span>
+                </div>
+                {runs.length === 0 ? (
+                  <p className="text-xs text-fg-subtle italic">No runs yet.</p>
+                ) : (
+                  <div className="flex flex-col gap-px rounded-md border border-hairline overflow-hidden">
+                    {runs.map((run) => (
+                      <button
+                        key={run.id}
+                        type="button"
+                        aria-pressed={run.id === selectedRunId}
+                        onClick={() => setSelectedRunId(run.id)}
+                        className={cn(
+                          "flex items-center gap-3 px-2 py-1 text-left text-xs hover:bg-fill-subtle",
+                          run.id === selectedRunId && "bg-fill",
+                        )}
+                      >
+                        <span className="font-mono text-fg-tertiary">
+                          {format(new Date(run.startedAt), "MMM d, HH:mm:ss")}
+                        </span>
+                        {run.status === "error" ? (
+                          <span className="text-red-400 truncate">{run.error}</span>
+                        ) : (
+                          <span>{run.rowCount} rows</span>
+                        )}
+                        {run.level && (
+                          <Badge variant="outline" className={cn("text-[0.625rem]", LEVEL_CLASS[run.level])}>
+                            {run.level}
+                            {run.measured !== null ? ` · ${run.measured}` : ""}
+                          </Badge>
+                        )}
+                        {run.alerted && <span className="text-amber-400">alerted</span>}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {preview && selectedRun && (
+                  <div className="h-[220px] rounded-md border border-hairline overflow-hidden">
+                    <ResultsGrid result={preview} userRole={userRole} />
+                  </div>
+                )}
+                {preview && selectedRun && selectedRun.rowCount > selectedRun.rows.length && (
+                  <p className="text-[0.625rem] text-fg-subtle">
+                    Showing the first {selectedRun.rows.length} of {selectedRun.rowCount} rows this run returned.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            {schedule && (
+              <>
+                <Button variant="ghost" size="sm" onClick={remove} disabled={busy !== null} className="text-red-400">
+                  <Trash2 strokeWidth={1.5} className="w-3.5 h-3.5 mr-1" /> Delete
+                </Button>
+                <Button variant="outline" size="sm" onClick={runNow} disabled={busy !== null}>
+                  <Play strokeWidth={1.5} className="w-3.5 h-3.5 mr-1" /> {busy === "run" ? "Running…" : "Run now"}
+                </Button>
+              </>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              Close
+            </Button>
+            <Button size="sm" onClick={save} disabled={loading || busy !== null}>
+              {busy === "save" ? "Saving…" : schedule ? "Save schedule" : "Create schedule"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
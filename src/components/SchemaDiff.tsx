@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useMemo, useCallback } from "react";
+import React, { useState, useMemo, useCallback, useEffect } from "react";
 import {
   GitCompare,
   Plus,
@@ -13,6 +13,9 @@ import {
   Clock,
   Database,
   AlertTriangle,
+  ListChecks,
+  Play,
+  RefreshCw,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -23,15 +26,67 @@ import { storage } from "@/lib/storage";
 import { logger } from "@/lib/logger";
 import { useAllConnections } from "@/hooks/use-all-connections";
 import { diffSchemas } from "@/lib/schema-diff/diff-engine";
+import {
+  crossConnectionDiff,
+  diffOptionsFor,
+  type LiveSchema,
+  type MigrationSide,
+} from "@/lib/schema-diff/cross-connection";
 import { generateMigrationSQL } from "@/lib/schema-diff/migration-generator";
 import type { SchemaDiff as SchemaDiffType, TableDiff } from "@/lib/schema-diff/types";
+import type { MigrationLedgerEntry, MigrationPlan } from "@/lib/migrations/types";
 import { SnapshotTimeline } from "@/components/SnapshotTimeline";
+import { MigrationHistory } from "@/components/MigrationHistory";
 
 interface SchemaDiffProps {
   schema: TableSchema[];
   connection: DatabaseConnection | null;
 }
 
+const APPLY_UNAVAILABLE = "Compare from the current schema to apply this migration to the connection.";
+
+type DiffMode = "snapshots" | "live";
+
+/** How a request names a connection: a managed one by its seed id, so its credentials stay on the server. */
+function connectionBody(conn: DatabaseConnection) {
+  return conn.managed && conn.seedId ? { connectionId: `seed:${conn.seedId}` } : { connection: conn };
+}
+
+async function postMigrations(body: Record<string, unknown>) {
+  const res = await fetch("/api/db/migrations", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return { ok: res.ok, data: await res.json() };
+}
+
+/** The schema a connection has right now, read through the snapshot route. */
+async function fetchSchemaOf(conn: DatabaseConnection): Promise<TableSchema[]> {
+  const res = await fetch("/api/db/schema-snapshot", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(connectionBody(conn)),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data.schema;
+}
+
+/** The connection's migration ledger, or nothing when it cannot be read. */
+async function fetchMigrationHistory(conn: DatabaseConnection): Promise<MigrationLedgerEntry[]> {
+  try {
+    const { ok, data } = await postMigrations({ action: "history", ...connectionBody(conn) });
+    return ok ? data.migrations : [];
+  } catch (err) {
+    logger.warn("Failed to load the migration history", {
+      route: "SchemaDiff",
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return [];
+  }
+}
+
 export function SchemaDiff({ schema, connection }: SchemaDiffProps) {
   const [snapshots, setSnapshots] = useState<SchemaSnapshot[]>(() => storage.getSchemaSnapshots());
   const [sourceId, setSourceId] = useState<string>("current");
@@ -40,6 +95,18 @@ export function SchemaDiff({ schema, connection }: SchemaDiffProps) {
   const [showMigration, setShowMigration] = useState(false);
   const [snapshotLabel, setSnapshotLabel] = useState("");
   const [showLabelInput, setShowLabelInput] = useState(false);
+  const [migrations, setMigrations] = useState<MigrationLedgerEntry[]>([]);
+  // Kept with the script it was planned for, so an edit to the diff never applies a stale plan.
+  const [dryRun, setDryRun] = useState<{ sql: string; plan: MigrationPlan } | null>(null);
+  const [migrationBusy, setMigrationBusy] = useState(false);
+  const [migrationError, setMigrationError] = useState<string | null>(null);
+  // Live mode compares two connections as they are now, with no snapshot in between.
+  const [mode, setMode] = useState<DiffMode>("snapshots");
+  const [liveSourceId, setLiveSourceId] = useState("");
+  const [liveTargetId, setLiveTargetId] = useState("");
+  const [live, setLive] = useState<{ source: LiveSchema; target: LiveSchema } | null>(null);
+  const [migrateSide, setMigrateSide] = useState<MigrationSide>("target");
+  const [liveError, setLiveError] = useState<string | null>(null);
 
   // Take snapshot of current schema
   const takeSnapshot = useCallback(() => {
@@ -70,25 +137,33 @@ export function SchemaDiff({ schema, connection }: SchemaDiffProps) {
     [sourceId, targetId],
   );
 
-  // Compute diff
-  const diff = useMemo<SchemaDiffType | null>(() => {
+  // Compute diff, with the dialect its migration is written in: that of the side the
+  // migration changes, which in snapshot mode is always the source.
+  const comparison = useMemo<{ diff: SchemaDiffType; dialect: DatabaseType } | null>(() => {
+    if (mode === "live") return live ? crossConnectionDiff(live.source, live.target, migrateSide) : null;
     if (!targetId) return null;
 
-    const sourceSchema = sourceId === "current" ? schema : snapshots.find((s) => s.id === sourceId)?.schema || [];
-
-    const targetSchema = targetId === "current" ? schema : snapshots.find((s) => s.id === targetId)?.schema || [];
+    const sourceSnapshot = snapshots.find((s) => s.id === sourceId);
+    const targetSnapshot = snapshots.find((s) => s.id === targetId);
+    const sourceSchema = sourceId === "current" ? schema : sourceSnapshot?.schema || [];
+    const targetSchema = targetId === "current" ? schema : targetSnapshot?.schema || [];
+    const sourceType = sourceId === "current" ? connection?.type : sourceSnapshot?.databaseType;
+    const targetType = targetId === "current" ? connection?.type : targetSnapshot?.databaseType;
 
     if (sourceId === targetId) return null;
 
-    return diffSchemas(sourceSchema, targetSchema);
-  }, [sourceId, targetId, schema, snapshots]);
+    return {
+      diff: diffSchemas(sourceSchema, targetSchema, diffOptionsFor(sourceType, targetType)),
+      dialect: sourceType || "postgres",
+    };
+  }, [mode, live, migrateSide, sourceId, targetId, schema, snapshots, connection]);
+  const diff = comparison?.diff ?? null;
 
   // Generate migration SQL
   const migrationSQL = useMemo(() => {
-    if (!diff || !diff.hasChanges) return "";
-    const dialect = connection?.type || "postgres";
-    return generateMigrationSQL(diff, dialect as DatabaseType);
-  }, [diff, connection]);
+    if (!comparison || !comparison.diff.hasChanges) return "";
+    return generateMigrationSQL(comparison.diff, comparison.dialect);
+  }, [comparison]);
 
   // Get all connections for cross-connection comparison
   const { connections: allConnections } = useAllConnections();
@@ -102,15 +177,7 @@ export function SchemaDiff({ schema, connection }: SchemaDiffProps) {
 
       setFetchingRemote(true);
       try {
-        const res = await fetch("/api/db/schema-snapshot", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(
-            conn.managed && conn.seedId ? { connectionId: `seed:${conn.seedId}` } : { connection: conn },
-          ),
-        });
-        const data = await res.json();
-        if (!res.ok) throw new Error(data.error);
+        const remoteSchema = await fetchSchemaOf(conn);
 
         // Auto-save as snapshot
         const snapshot: SchemaSnapshot = {
@@ -118,7 +185,7 @@ export function SchemaDiff({ schema, connection }: SchemaDiffProps) {
           connectionId: conn.id,
           connectionName: conn.name,
           databaseType: conn.type,
-          schema: data.schema,
+          schema: remoteSchema,
           createdAt: new Date(),
           label: `Live: ${conn.name}`,
         };
@@ -137,6 +204,120 @@ export function SchemaDiff({ schema, connection }: SchemaDiffProps) {
     [allConnections],
   );
 
+  // Read both sides at once. Nothing is saved: a live comparison is re-run, not kept.
+  const compareLive = useCallback(async () => {
+    const sourceConn = allConnections.find((c) => c.id === liveSourceId);
+    const targetConn = allConnections.find((c) => c.id === liveTargetId);
+    if (!sourceConn || !targetConn) return;
+
+    setFetchingRemote(true);
+    setLiveError(null);
+    setDryRun(null);
+    try {
+      const [sourceSchema, targetSchema] = await Promise.all([fetchSchemaOf(sourceConn), fetchSchemaOf(targetConn)]);
+      setLive({
+        source: { connection: sourceConn, schema: sourceSchema },
+        target: { connection: targetConn, schema: targetSchema },
+      });
+    } catch (err) {
+      setLive(null);
+      setLiveError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setFetchingRemote(false);
+    }
+  }, [allConnections, liveSourceId, liveTargetId]);
+
+  useEffect(() => {
+    if (!connection) return;
+    let cancelled = false;
+    fetchMigrationHistory(connection).then((entries) => {
+      if (!cancelled) setMigrations(entries);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [connection]);
+
+  // A migration turns one schema into the other, so it can only be applied to a
+  // connection whose live schema IS the side being changed: in snapshot mode the
+  // current connection when it is the source, in live mode the side chosen to migrate.
+  const snapshotApplyConnection = sourceId === "current" ? connection : null;
+  const applyConnection = mode === "live" ? (live ? live[migrateSide].connection : null) : snapshotApplyConnection;
+  const canApply = applyConnection !== null;
+  const plan = dryRun && dryRun.sql === migrationSQL ? dryRun.plan : null;
+
+  const runDryRun = useCallback(async () => {
+    if (!applyConnection) return;
+    setMigrationBusy(true);
+    setMigrationError(null);
+    try {
+      const { ok, data } = await postMigrations({
+        action: "dry-run",
+        sql: migrationSQL,
+        ...connectionBody(applyConnection),
+      });
+      if (!ok) throw new Error(data.error);
+      setDryRun({ sql: migrationSQL, plan: data.plan });
+    } catch (err) {
+      setMigrationError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setMigrationBusy(false);
+    }
+  }, [applyConnection, migrationSQL]);
+
+  const applyPlan = useCallback(async () => {
+    if (!applyConnection) return;
+    const target = mode === "live" ? undefined : snapshots.find((s) => s.id === targetId);
+    const reference = live?.[migrateSide === "source" ? "target" : "source"].connection;
+    const targetLabel =
+      mode === "live" && reference ? reference.name : target ? target.label || target.connectionName : "current schema";
+    setMigrationBusy(true);
+    setMigrationError(null);
+    try {
+      const { ok, data } = await postMigrations({
+        action: "apply",
+        sql: migrationSQL,
+        description: `Migrate to ${targetLabel}`,
+        targetSnapshotId: target?.id,
+        ...connectionBody(applyConnection),
+      });
+      if (!ok) throw new Error(data.error);
+      setDryRun(null);
+      // The schema the migration produced, kept as the snapshot that traces back to it.
+      if (data.schema) {
+        const snapshot: SchemaSnapshot = {
+          id: Date.now().toString(),
+          connectionId: applyConnection.id,
+          connectionName: applyConnection.name,
+          databaseType: applyConnection.type,
+          schema: data.schema,
+          createdAt: new Date(),
+          label: `Migrated to ${targetLabel}`,
+          migrationId: data.entry.id,
+        };
+        storage.saveSchemaSnapshot(snapshot);
+        setSnapshots(storage.getSchemaSnapshots());
+        if (mode === "live") {
+          // The migrated side now reads as what it became, so the diff shows what is left.
+          setLive(
+            (current) => current && { ...current, [migrateSide]: { connection: applyConnection, schema: data.schema } },
+          );
+        } else {
+          setSourceId(snapshot.id);
+        }
+      }
+    } catch (err) {
+      setMigrationError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setMigrationBusy(false);
+    }
+    // Read again whether it worked or not: a failed attempt is in the ledger too. The
+    // history shown is the current connection's, so a live apply elsewhere leaves it be.
+    if (connection && applyConnection.id === connection.id) {
+      setMigrations(await fetchMigrationHistory(connection));
+    }
+  }, [applyConnection, connection, mode, live, migrateSide, snapshots, targetId, migrationSQL]);
+
   const getActionBadge = (action: string) => {
     switch (action) {
       case "added":
@@ -179,84 +360,175 @@ export function SchemaDiff({ schema, connection }: SchemaDiffProps) {
 
         <div className="h-4 w-px bg-fill-strong" />
 
-        {/* Source selector */}
-        <div className="flex items-center gap-1">
-          <span className="text-xs text-fg-subtle">Source</span>
-          <Select value={sourceId} onValueChange={setSourceId}>
-            <SelectTrigger className="h-7 w-[180px] text-xs bg-fill border-hairline-strong">
-              <SelectValue placeholder="Select source" />
-            </SelectTrigger>
-            <SelectContent className="bg-overlay border-hairline-strong">
-              <SelectItem value="current" className="text-xs">
-                <div className="flex items-center gap-1">
-                  <Database strokeWidth={1.5} className="w-3 h-3" /> Current Schema
-                </div>
-              </SelectItem>
-              {snapshots.map((s) => (
-                <SelectItem key={s.id} value={s.id} className="text-xs">
-                  <div className="flex items-center gap-1">
-                    <Clock strokeWidth={1.5} className="w-3 h-3" /> {formatSnapshotLabel(s)}
-                  </div>
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+        {/* Mode: compare snapshots of one connection, or two connections as they are now */}
+        <div className="flex items-center gap-0.5">
+          {(["snapshots", "live"] as const).map((m) => (
+            <Button
+              key={m}
+              variant="ghost"
+              size="sm"
+              className={cn("h-7 text-xs text-fg-muted", mode === m && "bg-fill-strong text-fg-bright")}
+              onClick={() => {
+                setMode(m);
+                setDryRun(null);
+                setMigrationError(null);
+              }}
+            >
+              {m === "snapshots" ? "Saved schemas" : "Live connections"}
+            </Button>
+          ))}
         </div>
 
-        <span className="text-fg-subtle text-xs">vs</span>
-
-        {/* Target selector */}
-        <div className="flex items-center gap-1">
-          <span className="text-xs text-fg-subtle">Target</span>
-          <Select
-            value={targetId}
-            onValueChange={(v) => {
-              if (v.startsWith("conn:")) {
-                fetchRemoteSchema(v.replace("conn:", ""));
-              } else {
-                setTargetId(v);
-              }
-            }}
-          >
-            <SelectTrigger className="h-7 w-[180px] text-xs bg-fill border-hairline-strong">
-              <SelectValue placeholder="Select target" />
-            </SelectTrigger>
-            <SelectContent className="bg-overlay border-hairline-strong">
-              <SelectItem value="current" className="text-xs">
-                <div className="flex items-center gap-1">
-                  <Database strokeWidth={1.5} className="w-3 h-3" /> Current Schema
-                </div>
-              </SelectItem>
-              {snapshots.map((s) => (
-                <SelectItem key={s.id} value={s.id} className="text-xs">
-                  <div className="flex items-center gap-1">
-                    <Clock strokeWidth={1.5} className="w-3 h-3" /> {formatSnapshotLabel(s)}
-                  </div>
-                </SelectItem>
-              ))}
-              {allConnections.filter((c) => c.id !== connection?.id).length > 0 && (
-                <>
-                  <div className="px-2 py-1 text-[0.625rem] text-fg-subtle border-t border-hairline mt-1">
-                    {"Fetch from connection"}
-                  </div>
-                  {allConnections
-                    .filter((c) => c.id !== connection?.id)
-                    .map((c) => (
-                      <SelectItem key={`conn:${c.id}`} value={`conn:${c.id}`} className="text-xs">
-                        <div className="flex items-center gap-1">
-                          <Database strokeWidth={1.5} className="w-3 h-3 text-blue-400" /> {c.name}
-                          {c.environment === "production" && (
-                            <AlertTriangle strokeWidth={1.5} className="w-3 h-3 text-red-400" />
-                          )}
-                        </div>
-                      </SelectItem>
-                    ))}
-                </>
-              )}
-            </SelectContent>
-          </Select>
-          {fetchingRemote && <span className="text-xs text-fg-muted animate-pulse">Fetching...</span>}
-        </div>
+        <div className="h-4 w-px bg-fill-strong" />
+
+        {mode === "snapshots" ? (
+          <>
+            {/* Source selector */}
+            <div className="flex items-center gap-1">
+              <span className="text-xs text-fg-subtle">Source</span>
+              <Select value={sourceId} onValueChange={setSourceId}>
+                <SelectTrigger className="h-7 w-[180px] text-xs bg-fill border-hairline-strong">
+                  <SelectValue placeholder="Select source" />
+                </SelectTrigger>
+                <SelectContent className="bg-overlay border-hairline-strong">
+                  <SelectItem value="current" className="text-xs">
+                    <div className="flex items-center gap-1">
+                      <Database strokeWidth={1.5} className="w-3 h-3" /> Current Schema
+                    </div>
+                  </SelectItem>
+                  {snapshots.map((s) => (
+                    <SelectItem key={s.id} value={s.id} className="text-xs">
+                      <div className="flex items-center gap-1">
+                        <Clock strokeWidth={1.5} className="w-3 h-3" /> {formatSnapshotLabel(s)}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <span className="text-fg-subtle text-xs">vs</span>
+
+            {/* Target selector */}
+            <div className="flex items-center gap-1">
+              <span className="text-xs text-fg-subtle">Target</span>
+              <Select
+                value={targetId}
+                onValueChange={(v) => {
+                  if (v.startsWith("conn:")) {
+                    fetchRemoteSchema(v.replace("conn:", ""));
+                  } else {
+                    setTargetId(v);
+                  }
+                }}
+              >
+                <SelectTrigger className="h-7 w-[180px] text-xs bg-fill border-hairline-strong">
+                  <SelectValue placeholder="Select target" />
+                </SelectTrigger>
+                <SelectContent className="bg-overlay border-hairline-strong">
+                  <SelectItem value="current" className="text-xs">
+                    <div className="flex items-center gap-1">
+                      <Database strokeWidth={1.5} className="w-3 h-3" /> Current Schema
+                    </div>
+                  </SelectItem>
+                  {snapshots.map((s) => (
+                    <SelectItem key={s.id} value={s.id} className="text-xs">
+                      <div className="flex items-center gap-1">
+                        <Clock strokeWidth={1.5} className="w-3 h-3" /> {formatSnapshotLabel(s)}
+                      </div>
+                    </SelectItem>
+                  ))}
+                  {allConnections.filter((c) => c.id !== connection?.id).length > 0 && (
+                    <>
+                      <div className="px-2 py-1 text-[0.625rem] text-fg-subtle border-t border-hairline mt-1">
+                        {"Fetch from connection"}
+                      </div>
+                      {allConnections
+                        .filter((c) => c.id !== connection?.id)
+                        .map((c) => (
+                          <SelectItem key={`conn:${c.id}`} value={`conn:${c.id}`} className="text-xs">
+                            <div className="flex items-center gap-1">
+                              <Database strokeWidth={1.5} className="w-3 h-3 text-blue-400" /> {c.name}
+                              {c.environment === "production" && (
+                                <AlertTriangle strokeWidth={1.5} className="w-3 h-3 text-red-400" />
+                              )}
+                            </div>
+                          </SelectItem>
+                        ))}
+                    </>
+                  )}
+                </SelectContent>
+              </Select>
+              {fetchingRemote && <span className="text-xs text-fg-muted animate-pulse">Fetching...</span>}
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="flex items-center gap-1">
+              <span className="text-xs text-fg-subtle">Source</span>
+              <ConnectionSelect
+                value={liveSourceId}
+                connections={allConnections}
+                placeholder="Select source"
+                onChange={(id) => {
+                  setLiveSourceId(id);
+                  setLive(null);
+                }}
+              />
+            </div>
+
+            <span className="text-fg-subtle text-xs">vs</span>
+
+            <div className="flex items-center gap-1">
+              <span className="text-xs text-fg-subtle">Target</span>
+              <ConnectionSelect
+                value={liveTargetId}
+                connections={allConnections}
+                placeholder="Select target"
+                onChange={(id) => {
+                  setLiveTargetId(id);
+                  setLive(null);
+                }}
+              />
+            </div>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs font-medium text-fg-muted hover:text-fg-bright gap-1"
+              onClick={compareLive}
+              disabled={!liveSourceId || !liveTargetId || liveSourceId === liveTargetId || fetchingRemote}
+            >
+              <RefreshCw strokeWidth={1.5} className="w-3 h-3" /> Compare
+            </Button>
+            {fetchingRemote && <span className="text-xs text-fg-muted animate-pulse">Fetching...</span>}
+
+            {live && (
+              <div className="flex items-center gap-1">
+                <span className="text-xs text-fg-subtle">Migrate</span>
+                <Select
+                  value={migrateSide}
+                  onValueChange={(v) => {
+                    setMigrateSide(v as MigrationSide);
+                    setDryRun(null);
+                  }}
+                >
+                  <SelectTrigger className="h-7 w-[200px] text-xs bg-fill border-hairline-strong">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-overlay border-hairline-strong">
+                    <SelectItem value="target" className="text-xs">
+                      {live.target.connection.name} to match {live.source.connection.name}
+                    </SelectItem>
+                    <SelectItem value="source" className="text-xs">
+                      {live.source.connection.name} to match {live.target.connection.name}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </>
+        )}
 
         <div className="flex-1" />
 
@@ -308,9 +580,26 @@ export function SchemaDiff({ schema, connection }: SchemaDiffProps) {
         )}
       </div>
 
+      {mode === "live" && live && live.source.connection.type !== live.target.connection.type && (
+        <div className="flex items-center gap-2 px-3 py-1.5 border-b border-hairline text-xs text-yellow-400">
+          <AlertTriangle strokeWidth={1.5} className="w-3.5 h-3.5 shrink-0" />
+          <span>
+            {live.source.connection.name} is {live.source.connection.type} and {live.target.connection.name} is{" "}
+            {live.target.connection.type}: type names that differ between the engines show as changes, and the migration
+            is written for {applyConnection?.type}.
+          </span>
+        </div>
+      )}
+
       {/* Content */}
       <div className="flex-1 overflow-hidden flex">
-        {!targetId ? (
+        {mode === "live" && !live ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-fg-subtle gap-3">
+            <GitCompare strokeWidth={1.5} className="w-10 h-10 opacity-30" />
+            <p className="text-xs">Select two connections and compare their live schemas</p>
+            {liveError && <p className="text-xs text-red-400">{liveError}</p>}
+          </div>
+        ) : mode === "snapshots" && !targetId ? (
           <div className="flex-1 flex flex-col items-center justify-center text-fg-subtle gap-3">
             <GitCompare strokeWidth={1.5} className="w-10 h-10 opacity-30" />
             <p className="text-xs">Select source and target to compare schemas</p>
@@ -329,9 +618,61 @@ export function SchemaDiff({ schema, connection }: SchemaDiffProps) {
                 />
               </div>
             )}
+
+            {/* Migration history, traced to the snapshots above */}
+            {migrations.length > 0 && (
+              <div className="w-full max-w-2xl px-4">
+                <MigrationHistory migrations={migrations} snapshots={snapshots} />
+              </div>
+            )}
           </div>
         ) : showMigration && migrationSQL ? (
-          <div className="flex-1 overflow-auto p-4">
+          <div className="flex-1 overflow-auto p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              {canApply ? (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs font-medium text-fg-muted hover:text-fg-bright gap-1"
+                    onClick={runDryRun}
+                    disabled={migrationBusy}
+                  >
+                    <ListChecks strokeWidth={1.5} className="w-3 h-3" /> Dry Run
+                  </Button>
+                  {plan && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs font-medium text-red-400 hover:text-red-300 gap-1"
+                      onClick={applyPlan}
+                      disabled={migrationBusy || plan.statements.length === 0}
+                    >
+                      <Play strokeWidth={1.5} className="w-3 h-3" /> Apply to {applyConnection?.name}
+                    </Button>
+                  )}
+                </>
+              ) : (
+                <span className="text-xs text-fg-subtle">{APPLY_UNAVAILABLE}</span>
+              )}
+            </div>
+            {plan && (
+              <div className="text-xs text-fg-muted bg-raised border border-hairline-strong rounded-lg p-3 space-y-1">
+                <div>
+                  {plan.statements.length} statements,{" "}
+                  {plan.atomic
+                    ? "applied in one transaction that rolls back as a whole on failure."
+                    : "applied one at a time: this database commits DDL as it runs, so a failure leaves the earlier statements applied."}
+                </div>
+                {plan.previouslyApplied && (
+                  <div className="text-yellow-400">
+                    The same statements were applied on {new Date(plan.previouslyApplied.appliedAt).toLocaleString()} by{" "}
+                    {plan.previouslyApplied.appliedBy}.
+                  </div>
+                )}
+              </div>
+            )}
+            {migrationError && <div className="text-xs text-red-400">{migrationError}</div>}
             <pre className="text-xs font-mono text-fg-secondary bg-raised border border-hairline-strong rounded-lg p-4 overflow-auto whitespace-pre-wrap">
               {migrationSQL}
             </pre>
@@ -524,3 +865,35 @@ function getActionIcon(action: string) {
       return null;
   }
 }
+
+/** A pick of one saved connection, for either side of a live comparison. */
+function ConnectionSelect({
+  value,
+  connections,
+  placeholder,
+  onChange,
+}: {
+  value: string;
+  connections: DatabaseConnection[];
+  placeholder: string;
+  onChange: (id: string) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-7 w-[180px] text-xs bg-fill border-hairline-strong">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent className="bg-overlay border-hairline-strong">
+        {connections.map((c) => (
+          <SelectItem key={c.id} value={c.id} className="text-xs">
+            <div className="flex items-center gap-1">
+              <Database strokeWidth={1.5} className="w-3 h-3 text-blue-400" /> {c.name}
+              <span className="text-fg-subtle">{c.type}</span>
+              {c.environment === "production" && <AlertTriangle strokeWidth={1.5} className="w-3 h-3 text-red-400" />}
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
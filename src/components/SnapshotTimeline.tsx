@@ -105,6 +105,11 @@ export function SnapshotTimeline({ snapshots, onCompare, onDelete }: SnapshotTim
                 <Badge variant="secondary" className="text-[0.625rem] mt-1">
                   {snapshot.schema.length} tables
                 </Badge>
+                {snapshot.migrationId && (
+                  <div className="text-[0.625rem] text-blue-400 mt-0.5" title={snapshot.migrationId}>
+                    {"after migration"}
+                  </div>
+                )}
               </button>
 
               <button
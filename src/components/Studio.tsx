@@ -26,8 +26,13 @@ import { DatabaseConnection, SavedQuery } from "@/lib/types";
 import { ChunkBoundary, ViewLoading } from "@/components/LazyView";
 import { lazyRetry } from "@/lib/lazy";
 import { editorLanguageForTabType, resolveTabType } from "@/lib/editor/tab-language";
-import { buildResultExport, type ResultExportFormat } from "@/lib/export/result-export";
-import { downloadText } from "@/lib/export/download";
+import {
+  buildResultExport,
+  resultExportFileName,
+  type ResultExportFormat,
+  type StreamableExportFormat,
+} from "@/lib/export/result-export";
+import { downloadExport } from "@/lib/export/download";
 import { newLocalId } from "@/lib/ids";
 import { resolveAgentRunConnectionId } from "@/hooks/use-connection-payload";
 import { isMobileViewport } from "@/hooks/use-mobile";
@@ -42,8 +47,13 @@ import { useTabManager } from "@/hooks/use-tab-manager";
 import { useTransactionControl } from "@/hooks/use-transaction-control";
 import { useQueryExecution } from "@/hooks/use-query-execution";
 import { useInlineEditing } from "@/hooks/use-inline-editing";
+import { useFullExport } from "@/hooks/use-full-export";
+import { useCellReveal } from "@/hooks/use-cell-reveal";
 import { useStorageSync } from "@/hooks/use-storage-sync";
+import { useScheduleAlerts } from "@/hooks/use-schedule-alerts";
 import { storage } from "@/lib/storage";
+import { resolveSqlGrammar } from "@/lib/sql/grammar";
+import { readQueryParameters } from "@/lib/sql/parameters";
 import {
   type MaskingConfig,
   loadMaskingConfig,
@@ -89,7 +99,8 @@ export default function Studio() {
   const { user, isAdmin, handleLogout } = useAuth();
 
   // 1.5. Storage sync (write-through cache for server mode)
-  const { isReady: storageReady } = useStorageSync();
+  const { isReady: storageReady, isServerMode } = useStorageSync();
+  useScheduleAlerts(isServerMode);
 
   // 2. Connection Manager + Provider Metadata
   const conn = useConnectionManager(storageReady);
@@ -105,6 +116,7 @@ export default function Studio() {
   // 4. Transaction Control
   const txn = useTransactionControl({
     activeConnection: conn.activeConnection,
+    currentTab: tabMgr.currentTab,
   });
 
   // 5. Query Execution
@@ -115,7 +127,7 @@ export default function Studio() {
     activeTabId: tabMgr.activeTabId,
     currentTab: tabMgr.currentTab,
     setTabs: tabMgr.setTabs,
-    transactionActive: txn.transactionActive,
+    transactionTabId: txn.transaction?.tabId ?? null,
     playgroundMode: txn.playgroundMode,
     fetchSchema: conn.fetchSchema,
     queryEditorRef,
@@ -306,17 +318,25 @@ export default function Studio() {
 
   const handleSaveQuery = (name: string, description: string, tags: string[]) => {
     if (!conn.activeConnection) return;
+    const { query, parameters } = tabMgr.currentTab;
+    // Only the values the text still asks for: the tab also keeps ones for
+    // placeholders since deleted, which mean nothing to the saved query.
+    const asked = readQueryParameters(query, resolveSqlGrammar(conn.activeConnection.type));
+    const saved = parameters?.filter((p) => asked.includes(p.name));
     const newSavedQuery: SavedQuery = {
       id: newLocalId(),
       name,
-      query: tabMgr.currentTab.query,
+      query,
       description,
       connectionType: conn.activeConnection.type,
       tags,
       createdAt: new Date(),
       updatedAt: new Date(),
+      ...(saved && saved.length > 0 && { parameters: saved }),
     };
     storage.saveQuery(newSavedQuery);
+    // The tab is that saved query now, so its next run remembers its values there.
+    tabMgr.updateCurrentTab({ savedQueryId: newSavedQuery.id });
     setSavedKey((prev) => prev + 1);
     toast({ title: "Query Saved", description: `"${name}" has been added to your saved queries.` });
   };
@@ -329,9 +349,12 @@ export default function Studio() {
     // lands in the right column instead of shifting the rest.
     const fields = tabMgr.currentTab.result.fields;
     const sensitiveColumns = detectSensitiveColumnsFromConfig(fields, maskingConfig);
-    const rows = effectiveMasking
-      ? applyMaskingToRows(tabMgr.currentTab.result.rows, fields, sensitiveColumns)
-      : tabMgr.currentTab.result.rows;
+    // A result the server masked is exported as it arrived: masking it again here
+    // would only mask the masks.
+    const rows =
+      effectiveMasking && !tabMgr.currentTab.result.masking
+        ? applyMaskingToRows(tabMgr.currentTab.result.rows, fields, sensitiveColumns)
+        : tabMgr.currentTab.result.rows;
 
     const file = buildResultExport(format, {
       rows,
@@ -342,7 +365,22 @@ export default function Studio() {
       // writes when they are there — the only source for a computed column.
       columnTypes: tabMgr.currentTab.result.columnTypes,
     });
-    downloadText(file.content, file.mimeType, `query_result_export.${file.extension}`);
+    downloadExport(file.content, file.mimeType, resultExportFileName(format));
+  };
+
+  // The whole result, re-run on the server — the statement the tab's pages came from,
+  // which is the same one "load more" continues.
+  const { fullExport, startFullExport, cancelFullExport } = useFullExport({
+    activeConnection: conn.activeConnection,
+  });
+  // A masked value read again for the same statement, as "load more" reads its next page.
+  const revealCell = useCellReveal({
+    activeConnection: conn.activeConnection,
+    query: tabMgr.currentTab.query,
+    parameters: tabMgr.currentTab.parameters,
+  });
+  const exportFullResult = (format: StreamableExportFormat) => {
+    void startFullExport({ format, sql: tabMgr.currentTab.query, tabName: tabMgr.currentTab.name });
   };
 
   const onTableClick = (tableName: string) => {
@@ -415,6 +453,7 @@ export default function Studio() {
               currentQuery={tabMgr.currentTab.query}
               queryEditorRef={queryEditorRef}
               transactionActive={txn.transactionActive}
+              transactionOwner={txn.transaction}
               playgroundMode={txn.playgroundMode}
               editingEnabled={editingEnabled}
               onSelectConnection={conn.setActiveConnection}
@@ -552,6 +591,7 @@ export default function Studio() {
                           isExecuting={tabMgr.currentTab.isExecuting}
                           playgroundMode={txn.playgroundMode}
                           transactionActive={txn.transactionActive}
+                          transactionOwner={txn.transaction}
                           editingEnabled={editingEnabled}
                           onSaveQuery={() => setIsSaveQueryModalOpen(true)}
                           onExecuteQuery={() => queryExec.executeQuery()}
@@ -577,6 +617,11 @@ export default function Studio() {
                             language={editorLanguageForTabType(tabMgr.currentTab.type)}
                             schemaContext={conn.schemaContext}
                             capabilities={metadata?.capabilities}
+                            dialect={conn.activeConnection?.type}
+                            parameters={tabMgr.currentTab.parameters}
+                            onParametersChange={(parameters) =>
+                              tabMgr.updateTabById(tabMgr.currentTab.id, { parameters })
+                            }
                           />
                         </div>
                       </div>
@@ -607,19 +652,32 @@ export default function Studio() {
                         }
                         userRole={user?.role}
                         maskingConfig={maskingConfig}
+                        onRevealCell={revealCell}
                         editingEnabled={editingEnabled}
                         pendingChanges={editing.pendingChanges}
                         onCellChange={editing.handleCellChange}
                         onApplyChanges={editing.handleApplyChanges}
                         onDiscardChanges={editing.handleDiscardChanges}
-                        onLoadQuery={(q) => tabMgr.updateCurrentTab({ query: q })}
+                        onLoadQuery={(q, loaded) =>
+                          // A statement from anywhere but a saved query is no longer that saved
+                          // query, so `savedQueryId` is cleared; values it did not bring are kept.
+                          tabMgr.updateCurrentTab({
+                            query: q,
+                            savedQueryId: loaded?.savedQueryId,
+                            ...(loaded?.parameters && { parameters: loaded.parameters }),
+                          })
+                        }
                         onLoadMore={
                           tabMgr.currentTab.result?.pagination?.hasMore ? queryExec.handleLoadMore : undefined
                         }
                         isLoadingMore={tabMgr.currentTab.isLoadingMore}
                         onExportResults={exportResults}
+                        onExportFullResult={exportFullResult}
+                        fullExport={fullExport}
+                        onCancelFullExport={cancelFullExport}
                         agentArtifact={agentArtifact.artifact}
                         onDismissAgentArtifact={agentArtifact.dismiss}
+                        schedulingEnabled={isServerMode}
                       />
                     </ResizablePanel>
                   </ResizablePanelGroup>
@@ -723,6 +781,7 @@ export default function Studio() {
         onImport={(sql) => queryExec.executeQuery(sql)}
         tables={conn.schema}
         databaseType={conn.activeConnection?.type}
+        connection={conn.activeConnection}
       />
       <QuerySafetyDialog
         isOpen={!!queryExec.safetyCheckQuery}
@@ -733,6 +792,13 @@ export default function Studio() {
         onProceed={() => {
           if (queryExec.safetyCheckQuery) queryExec.forceExecuteQuery(queryExec.safetyCheckQuery);
         }}
+        onRequestApproval={
+          conn.activeConnection?.writePolicy === "approval"
+            ? () => {
+                if (queryExec.safetyCheckQuery) queryExec.requestApproval(queryExec.safetyCheckQuery);
+              }
+            : undefined
+        }
       />
       <DataProfiler
         isOpen={!!profilerTable}
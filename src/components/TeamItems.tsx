@@ -0,0 +1,251 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { BarChart3, Edit3, Folder, Play, Trash2, Users } from "lucide-react";
+import { Button } from "./ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { TeamPublishDialog, teamItemName } from "./TeamPublishDialog";
+import { writesFolder } from "@/lib/teams/access";
+import type { LoadedQueryState } from "@/lib/types";
+import type { TeamItem, TeamSummary } from "@/lib/teams/types";
+
+interface TeamItemsProps {
+  /** Filters the team's queries the way the personal list is filtered. */
+  search: string;
+  connectionType?: string;
+  onSelectQuery: (query: string, loaded: LoadedQueryState) => void;
+}
+
+async function requestJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+}
+
+function matches(item: TeamItem, search: string, connectionType: string | undefined): boolean {
+  const needle = search.toLowerCase();
+  if (item.kind === "saved_queries") {
+    const q = (item as TeamItem<"saved_queries">).data;
+    if (connectionType && q.connectionType !== connectionType) return false;
+    return q.name.toLowerCase().includes(needle) || q.query.toLowerCase().includes(needle);
+  }
+  if (item.kind === "saved_charts") {
+    return (item as TeamItem<"saved_charts">).data.name.toLowerCase().includes(needle);
+  }
+  return false;
+}
+
+/**
+ * What the user's teams published: their queries and charts, by folder, each
+ * with who published it, who made its current version and which version that
+ * is. Edit and delete are offered only where the user's role in the team allows
+ * them, which the server checks again.
+ */
+export function TeamItems({ search, connectionType, onSelectQuery }: TeamItemsProps) {
+  const [teams, setTeams] = useState<TeamSummary[]>([]);
+  const [teamId, setTeamId] = useState("");
+  const [items, setItems] = useState<TeamItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<TeamItem | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const { teams } = await requestJSON<{ teams: TeamSummary[] }>("/api/teams");
+        if (cancelled) return;
+        setTeams(teams);
+        setTeamId(teams[0]?.id ?? "");
+        if (teams.length === 0) setLoading(false);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : String(err));
+          setLoading(false);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (teamId === "") return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const { items } = await requestJSON<{ items: TeamItem[] }>(`/api/teams/${encodeURIComponent(teamId)}/items`);
+        if (cancelled) return;
+        setItems(items);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [teamId]);
+
+  const team = teams.find((t) => t.id === teamId);
+
+  const handleDelete = async (item: TeamItem) => {
+    if (!confirm(`Delete "${teamItemName(item.data)}" from ${team?.name} for everyone, with its versions?`)) return;
+    try {
+      await requestJSON(`/api/teams/${encodeURIComponent(teamId)}/items?itemId=${encodeURIComponent(item.id)}`, {
+        method: "DELETE",
+      });
+      setItems((current) => current.filter((i) => i.id !== item.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const shown = items
+    .filter((item) => matches(item, search, connectionType))
+    .sort((a, b) => a.folder.localeCompare(b.folder) || teamItemName(a.data).localeCompare(teamItemName(b.data)));
+
+  if (loading) {
+    return <p className="text-xs text-fg-muted p-8 text-center">Loading team workspaces…</p>;
+  }
+  if (teams.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center opacity-20 p-8 text-center">
+        <Users strokeWidth={1.5} className="w-12 h-12 mb-4" />
+        <p className="text-xs italic">{error ?? "You are not in any team yet"}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col">
+      <div className="px-4 py-2 border-b border-hairline flex items-center gap-2">
+        <Select value={teamId} onValueChange={setTeamId}>
+          <SelectTrigger aria-label="Team" className="h-7 w-48 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {teams.map((t) => (
+              <SelectItem key={t.id} value={t.id} className="text-xs">
+                {t.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {team && (
+          <span className="text-[0.625rem] text-fg-muted">{team.role === "write" ? "Can edit" : "Read only"}</span>
+        )}
+      </div>
+      {error && <p className="px-4 py-2 text-xs text-red-400">{error}</p>}
+      {shown.length === 0 ? (
+        <p className="text-xs italic text-fg-muted p-8 text-center opacity-60">Nothing published here yet</p>
+      ) : (
+        <div className="grid grid-cols-1 gap-px bg-fill">
+          {shown.map((item, index) => {
+            const writable = team !== undefined && writesFolder(team, item.folder);
+            const query = item.kind === "saved_queries" ? (item as TeamItem<"saved_queries">).data : null;
+            const chart = item.kind === "saved_charts" ? (item as TeamItem<"saved_charts">).data : null;
+            const newFolder = index === 0 || shown[index - 1].folder !== item.folder;
+            return (
+              <React.Fragment key={item.id}>
+                {newFolder && (
+                  <div className="bg-surface px-4 pt-3 pb-1 flex items-center gap-1.5 text-[0.625rem] text-fg-muted font-mono">
+                    <Folder strokeWidth={1.5} className="w-3 h-3" /> {item.folder || "/"}
+                  </div>
+                )}
+                <div className="relative bg-surface p-4 hover:bg-fill-subtle transition-colors group">
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <h4 className="text-xs font-medium mb-1 flex items-center gap-1.5">
+                        {chart && <BarChart3 strokeWidth={1.5} className="w-3 h-3 text-fg-muted" />}
+                        <span className="text-blue-400">{teamItemName(item.data)}</span>
+                      </h4>
+                      {query?.description && <p className="text-xs text-fg-muted line-clamp-1">{query.description}</p>}
+                      {chart && (
+                        <p className="text-xs text-fg-muted">
+                          {chart.chartType} · X: {chart.xAxis} · Y: {chart.yAxis.join(", ")}
+                        </p>
+                      )}
+                    </div>
+                    <div className="relative z-10 flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 [@media(hover:none)]:opacity-100 transition-opacity">
+                      {query && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label={`Open ${query.name}`}
+                          className="h-6 w-6 text-fg-muted hover:text-blue-400"
+                          // Not the team item's id as `savedQueryId`: that names the user's own saved
+                          // queries, and a run must not write values into a teammate's record.
+                          onClick={() => onSelectQuery(query.query, { parameters: query.parameters })}
+                        >
+                          <Play strokeWidth={1.5} className="w-3 h-3" />
+                        </Button>
+                      )}
+                      {writable && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={`Edit ${teamItemName(item.data)}`}
+                            className="h-6 w-6 text-fg-muted hover:text-fg-bright"
+                            onClick={() => setEditing(item)}
+                          >
+                            <Edit3 strokeWidth={1.5} className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={`Delete ${teamItemName(item.data)}`}
+                            className="h-6 w-6 text-fg-muted hover:text-red-400"
+                            onClick={() => handleDelete(item)}
+                          >
+                            <Trash2 strokeWidth={1.5} className="w-3 h-3" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  {query && (
+                    <div className="bg-canvas border border-hairline rounded-md p-2 mb-3">
+                      <pre className="text-xs font-mono text-fg-tertiary line-clamp-3">{query.query}</pre>
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between gap-2 text-[0.625rem] text-fg-subtle">
+                    <span>
+                      by <span className="text-fg-muted">{item.owner}</span>
+                      {item.updatedBy !== item.owner && (
+                        <>
+                          {" "}
+                          · edited by <span className="text-fg-muted">{item.updatedBy}</span>
+                        </>
+                      )}
+                    </span>
+                    <span className="font-mono">
+                      v{item.version} · {format(new Date(item.updatedAt), "MMM d, yyyy")}
+                    </span>
+                  </div>
+                </div>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      )}
+      {editing && (
+        <TeamPublishDialog
+          kind={editing.kind}
+          teamId={teamId}
+          item={editing}
+          onClose={() => setEditing(null)}
+          onSaved={(saved) => setItems((current) => current.map((i) => (i.id === saved.id ? saved : i)))}
+        />
+      )}
+    </div>
+  );
+}
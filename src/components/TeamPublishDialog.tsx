@@ -0,0 +1,258 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { AlertTriangle, Users } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import type { SavedQuery } from "@/lib/types";
+import type { TeamItem, TeamItemData, TeamItemKind, TeamSummary } from "@/lib/teams/types";
+
+type TeamPublishDialogProps<K extends TeamItemKind = TeamItemKind> = {
+  kind: K;
+  onClose: () => void;
+  /** Called with the item as the server saved it. */
+  onSaved?: (item: TeamItem) => void;
+} & (
+  | {
+      /** The user's own record, to publish to a team they write in. */
+      data: TeamItemData[K];
+      teamId?: undefined;
+      item?: undefined;
+    }
+  | {
+      data?: undefined;
+      /** The team `item` is in. */
+      teamId: string;
+      /** The team's item, to edit: saving makes its next version. */
+      item: TeamItem<K>;
+    }
+);
+
+const KIND_LABELS: Record<TeamItemKind, string> = {
+  saved_queries: "query",
+  saved_charts: "chart",
+  schema_snapshots: "snapshot",
+};
+
+async function requestJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+}
+
+/** What an item is called in a list: a snapshot has a label, when it was given one, rather than a name. */
+export function teamItemName(data: TeamItemData[TeamItemKind]): string {
+  return "name" in data ? data.name : (data.label ?? data.connectionName);
+}
+
+/**
+ * Publish a saved query, chart or snapshot to a team workspace, or edit one that
+ * is already there. An edit is sent with the version it was made from; when a
+ * teammate saved in between, the server refuses it and this shows who, keeping
+ * what was typed - saving again then replaces their version knowingly.
+ */
+export function TeamPublishDialog(props: TeamPublishDialogProps) {
+  const { kind, onClose, onSaved } = props;
+  const editing = props.item !== undefined;
+  const source = props.item ? props.item.data : props.data;
+
+  const [teams, setTeams] = useState<TeamSummary[]>([]);
+  const [teamId, setTeamId] = useState(props.teamId ?? "");
+  const [folder, setFolder] = useState(props.item?.folder ?? "");
+  const [name, setName] = useState(teamItemName(source));
+  const [description, setDescription] = useState(
+    kind === "saved_queries" ? ((source as SavedQuery).description ?? "") : "",
+  );
+  const [query, setQuery] = useState(kind === "saved_queries" ? (source as SavedQuery).query : "");
+  const [baseVersion, setBaseVersion] = useState(props.item?.version);
+  const [conflict, setConflict] = useState(false);
+  const [loading, setLoading] = useState(!editing);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (editing) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const { teams } = await requestJSON<{ teams: TeamSummary[] }>("/api/teams");
+        if (cancelled) return;
+        const writable = teams.filter((team) => team.role === "write");
+        setTeams(writable);
+        if (writable[0]) {
+          setTeamId(writable[0].id);
+          setFolder(writable[0].folders?.[0] ?? "");
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [editing]);
+
+  const chooseTeam = (id: string) => {
+    setTeamId(id);
+    // A member scoped to folders can only publish into one of them.
+    setFolder(teams.find((team) => team.id === id)?.folders?.[0] ?? "");
+  };
+
+  const save = async () => {
+    setBusy(true);
+    setError(null);
+    const data =
+      kind === "saved_queries"
+        ? { ...(source as SavedQuery), name: name.trim(), description: description.trim(), query }
+        : "name" in source
+          ? { ...source, name: name.trim() }
+          : { ...source, label: name.trim() };
+    try {
+      const res = await fetch(`/api/teams/${encodeURIComponent(teamId)}/items`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...(props.item && { id: props.item.id, baseVersion }), kind, folder, data }),
+      });
+      const body = await res.json();
+      if (res.status === 409) {
+        // The next save is made from the version that is there now, so it replaces it.
+        setBaseVersion(body.item.version);
+        setConflict(true);
+        setError(body.error);
+        return;
+      }
+      if (!res.ok) throw new Error(body.error);
+      onSaved?.(body.item);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const noTeams = !editing && !loading && teams.length === 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-raised border-hairline-strong text-fg-secondary sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-fg flex items-center gap-2">
+            <Users strokeWidth={1.5} className="w-5 h-5 text-blue-500" />
+            {editing ? `Edit team ${KIND_LABELS[kind]}` : `Publish ${KIND_LABELS[kind]} to a team`}
+          </DialogTitle>
+          <DialogDescription className="text-fg-muted">
+            {editing
+              ? `Saving makes version ${(props.item?.version ?? 0) + 1}. Earlier versions are kept.`
+              : "Team members see it in their Team list. Your own copy stays as it is."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-xs text-fg-muted py-6 text-center">Loading your teams…</p>
+        ) : noTeams ? (
+          <p className="text-xs text-fg-muted py-6 text-center">
+            You cannot publish to any team. An admin can add you to one with write access.
+          </p>
+        ) : (
+          <div className="grid gap-4 py-2">
+            {!editing && (
+              <div className="grid gap-2">
+                <Label htmlFor="team-publish-team" className="text-xs font-medium text-fg-muted">
+                  Team
+                </Label>
+                <Select value={teamId} onValueChange={chooseTeam}>
+                  <SelectTrigger id="team-publish-team" className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {teams.map((team) => (
+                      <SelectItem key={team.id} value={team.id} className="text-xs">
+                        {team.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="team-publish-folder" className="text-xs font-medium text-fg-muted">
+                Folder
+              </Label>
+              <Input
+                id="team-publish-folder"
+                placeholder="e.g. finance/monthly — empty for the top level"
+                value={folder}
+                onChange={(e) => setFolder(e.target.value)}
+                className="bg-fill border-hairline-strong h-8 text-xs font-mono"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="team-publish-name" className="text-xs font-medium text-fg-muted">
+                Name
+              </Label>
+              <Input
+                id="team-publish-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="bg-fill border-hairline-strong h-8 text-xs"
+              />
+            </div>
+            {editing && kind === "saved_queries" && (
+              <>
+                <div className="grid gap-2">
+                  <Label htmlFor="team-publish-description" className="text-xs font-medium text-fg-muted">
+                    Description
+                  </Label>
+                  <Input
+                    id="team-publish-description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    className="bg-fill border-hairline-strong h-8 text-xs"
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="team-publish-query" className="text-xs font-medium text-fg-muted">
+                    Query
+                  </Label>
+                  <Textarea
+                    id="team-publish-query"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    className="bg-fill border-hairline-strong text-xs font-mono min-h-32"
+                  />
+                </div>
+              </>
+            )}
+
+            {error && (
+              <div className="flex items-start gap-2 rounded-md border border-red-500/30 bg-red-500/10 p-2 text-xs text-red-400">
+                <AlertTriangle strokeWidth={1.5} className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                <span>
+                  {error}
+                  {conflict && ". Saving again replaces their version with yours."}
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={save} disabled={loading || busy || noTeams || teamId === "" || name.trim() === ""}>
+            {busy ? "Saving…" : conflict ? "Save anyway" : editing ? "Save version" : "Publish"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
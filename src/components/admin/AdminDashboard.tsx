@@ -4,7 +4,7 @@ import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import type { ReactNode } from "react";
 import { Button } from "@/components/ui/button";
-import { LogOut, ArrowLeft, LayoutDashboard, Wrench, Activity, Shield, FileText } from "lucide-react";
+import { LogOut, ArrowLeft, LayoutDashboard, Wrench, Activity, Shield, UserRound, Users, FileText } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { ADMIN_SECTIONS, adminSectionFromPathname, adminSectionPath, type AdminSection } from "@/lib/admin-sections";
@@ -14,6 +14,8 @@ const SECTION_NAV: Record<AdminSection, { label: string; icon: typeof LayoutDash
   operations: { label: "Operations", icon: Wrench },
   monitoring: { label: "Monitoring", icon: Activity },
   security: { label: "Security", icon: Shield },
+  users: { label: "Users", icon: UserRound },
+  teams: { label: "Teams", icon: Users },
   audit: { label: "Audit", icon: FileText },
 };
 
@@ -0,0 +1,312 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Save, ShieldCheck, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { PERMISSIONS } from "@/lib/access/grants";
+import type { AccessRole, GrantableConnection, Permission } from "@/lib/access/types";
+
+const ROLES_CARD_TITLE = "Custom Roles";
+const ROLES_DESCRIPTION =
+  "A custom role grants what it lists on each connection, and nothing else: someone who holds one no longer gets the built-in user's read-write. Assign it by login name, or by an OIDC role-claim value. Seed connections whose roles name it are listed to its holders.";
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  read: "Read",
+  write: "Write",
+  ddl: "DDL",
+  maintenance: "Maintenance",
+  kill_session: "Kill session",
+  export: "Export",
+  unmask: "Unmask",
+};
+
+/** A role as typed: members and groups as one comma-separated field each. */
+interface RoleDraft {
+  existing: boolean;
+  name: string;
+  description: string;
+  members: string;
+  groups: string;
+  grants: { connection: string; permissions: Permission[] }[];
+}
+
+function draftOf(role: AccessRole | null): RoleDraft {
+  if (!role) {
+    return {
+      existing: false,
+      name: "",
+      description: "",
+      members: "",
+      groups: "",
+      grants: [{ connection: "*", permissions: ["read"] }],
+    };
+  }
+  return {
+    existing: true,
+    name: role.name,
+    description: role.description ?? "",
+    members: role.members.join(", "),
+    groups: role.groups.join(", "),
+    grants: role.grants.map((g) => ({ connection: g.connection, permissions: [...g.permissions] })),
+  };
+}
+
+function splitList(value: string): string[] {
+  return value.split(",").filter((v) => v.trim() !== "");
+}
+
+async function requestJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+}
+
+export function AccessRolesPanel() {
+  const [roles, setRoles] = useState<AccessRole[]>([]);
+  const [connections, setConnections] = useState<GrantableConnection[]>([]);
+  const [draft, setDraft] = useState<RoleDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const data = await requestJSON<{ roles: AccessRole[]; connections: GrantableConnection[] }>(
+          "/api/admin/access-roles",
+        );
+        if (cancelled) return;
+        setRoles(data.roles);
+        setConnections(data.connections);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const connectionName = (connection: string) =>
+    connection === "*" ? "Every connection" : (connections.find((c) => c.seedId === connection)?.name ?? connection);
+
+  const updateGrant = (index: number, patch: Partial<RoleDraft["grants"][number]>) => {
+    setDraft(
+      (current) =>
+        current && { ...current, grants: current.grants.map((g, i) => (i === index ? { ...g, ...patch } : g)) },
+    );
+  };
+
+  const togglePermission = (index: number, permission: Permission, on: boolean) => {
+    const grant = draft?.grants[index];
+    if (!grant) return;
+    updateGrant(index, {
+      permissions: PERMISSIONS.filter((p) => (p === permission ? on : grant.permissions.includes(p))),
+    });
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    setBusy(true);
+    try {
+      const { role } = await requestJSON<{ role: AccessRole }>("/api/admin/access-roles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: draft.name,
+          description: draft.description,
+          members: splitList(draft.members),
+          groups: splitList(draft.groups),
+          grants: draft.grants,
+        }),
+      });
+      toast.success(draft.existing ? "Role saved" : "Role created");
+      setDraft(null);
+      setRoles((current) =>
+        [...current.filter((r) => r.name !== role.name), role].sort((a, b) => a.name.localeCompare(b.name)),
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (role: AccessRole) => {
+    if (!confirm(`Delete the ${role.name} role? Its holders fall back to the built-in user's permissions.`)) return;
+    try {
+      await requestJSON(`/api/admin/access-roles?name=${encodeURIComponent(role.name)}`, { method: "DELETE" });
+      toast.success("Role deleted");
+      setRoles((current) => current.filter((r) => r.name !== role.name));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-hairline bg-panel p-5">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-bold text-fg-secondary flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4 text-blue-400" />
+          {ROLES_CARD_TITLE}
+        </h3>
+        {!draft && !error && (
+          <Button size="sm" variant="outline" onClick={() => setDraft(draftOf(null))}>
+            <Plus className="w-3.5 h-3.5 mr-1.5" /> New role
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-fg-muted mb-6">{ROLES_DESCRIPTION}</p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {draft && (
+        <div className="rounded-lg border border-hairline-strong p-4 mb-6 space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <Input
+              aria-label="Role name"
+              placeholder="role name, e.g. analyst"
+              value={draft.name}
+              disabled={draft.existing}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="h-8 w-56 text-sm font-mono bg-fill border-hairline-strong"
+            />
+            <Input
+              aria-label="Role description"
+              placeholder="description"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              className="h-8 flex-1 min-w-48 text-sm bg-fill border-hairline-strong"
+            />
+          </div>
+          <Input
+            aria-label="Role members"
+            placeholder="members: login names, e.g. ana@example.com, bob"
+            value={draft.members}
+            onChange={(e) => setDraft({ ...draft, members: e.target.value })}
+            className="h-8 text-xs bg-fill border-hairline-strong"
+          />
+          <Input
+            aria-label="Role OIDC groups"
+            placeholder="OIDC groups: role-claim values, e.g. data-analysts"
+            value={draft.groups}
+            onChange={(e) => setDraft({ ...draft, groups: e.target.value })}
+            className="h-8 text-xs bg-fill border-hairline-strong"
+          />
+          {draft.grants.map((grant, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-3">
+              <Select value={grant.connection} onValueChange={(connection) => updateGrant(index, { connection })}>
+                <SelectTrigger aria-label={`Grant ${index + 1} connection`} className="h-8 w-48 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="*">Every connection</SelectItem>
+                  {connections.map((c) => (
+                    <SelectItem key={c.seedId} value={c.seedId}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {PERMISSIONS.map((permission) => (
+                <label key={permission} className="flex items-center gap-1.5 text-xs text-fg-secondary">
+                  <Checkbox
+                    aria-label={`Grant ${index + 1} ${PERMISSION_LABELS[permission]}`}
+                    checked={permission === "read" || grant.permissions.includes(permission)}
+                    disabled={permission === "read"}
+                    onCheckedChange={(checked) => togglePermission(index, permission, !!checked)}
+                  />
+                  {PERMISSION_LABELS[permission]}
+                </label>
+              ))}
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Remove grant ${index + 1}`}
+                className="h-7 w-7 text-fg-muted hover:text-red-400"
+                onClick={() => setDraft({ ...draft, grants: draft.grants.filter((_, i) => i !== index) })}
+              >
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between pt-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setDraft({
+                  ...draft,
+                  grants: [...draft.grants, { connection: connections[0]?.seedId ?? "*", permissions: ["read"] }],
+                })
+              }
+            >
+              <Plus className="w-3.5 h-3.5 mr-1.5" /> Add grant
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="bg-blue-600 hover:bg-blue-500 text-white"
+                onClick={save}
+                disabled={busy || draft.name.trim() === ""}
+              >
+                <Save className="w-3.5 h-3.5 mr-1.5" /> Save role
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {!error && roles.length === 0 && !draft && (
+        <p className="text-xs text-fg-subtle italic">No custom roles yet: admin and user decide everything.</p>
+      )}
+
+      <div className="space-y-3">
+        {roles.map((role) => (
+          <div key={role.name} className="rounded-lg border border-hairline p-4 flex items-start justify-between gap-4">
+            <div className="space-y-2">
+              <div className="flex items-baseline gap-2">
+                <span className="text-sm font-medium font-mono text-fg-secondary">{role.name}</span>
+                {role.description && <span className="text-xs text-fg-muted">{role.description}</span>}
+              </div>
+              <p className="text-xs text-fg-muted">
+                {[...role.members, ...role.groups.map((g) => `group:${g}`)].join(", ") || "Nobody holds it yet"}
+              </p>
+              <div className="flex flex-wrap gap-1.5">
+                {role.grants.map((grant) => (
+                  <Badge key={grant.connection} variant="secondary" className="text-xs font-normal">
+                    {connectionName(grant.connection)} · {grant.permissions.map((p) => PERMISSION_LABELS[p]).join(", ")}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <Button variant="ghost" size="sm" onClick={() => setDraft(draftOf(role))}>
+                Edit
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Delete ${role.name}`}
+                className="text-fg-muted hover:text-red-400"
+                onClick={() => remove(role)}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -18,8 +18,15 @@ import {
   RefreshCw,
   Clock,
   Activity,
+  Radio,
+  HardDrive,
+  Download,
+  ChevronLeft,
+  ChevronRight,
 } from "lucide-react";
 import type { AuditEvent } from "@/lib/audit";
+import type { AuditSinkHealth } from "@/lib/audit-sinks/types";
+import type { AuditStoreHealth } from "@/lib/audit-store/writer";
 import { storage } from "@/lib/storage";
 import type { QueryHistoryItem } from "@/lib/types";
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
@@ -69,26 +76,139 @@ export function AuditTab() {
   );
 }
 
+const SINK_KIND_LABELS: Record<AuditSinkHealth["kind"], string> = {
+  file: "File",
+  syslog: "Syslog",
+  webhook: "Webhook",
+};
+
+/**
+ * One row per configured SIEM sink: whether its copy of the trail is arriving.
+ * Nothing is shown when no sink is configured - stdout is then the only channel.
+ */
+function SinkHealthStrip({ sinks }: { sinks: AuditSinkHealth[] }) {
+  if (sinks.length === 0) return null;
+  return (
+    <div className="rounded-xl border border-hairline bg-panel p-3 space-y-2">
+      <div className="flex items-center gap-2 text-xs font-bold text-fg-secondary">
+        <Radio className="h-3.5 w-3.5 text-blue-400" />
+        SIEM Sinks
+      </div>
+      {sinks.map((sink) => {
+        const losing = sink.dropped > 0;
+        const tone = losing
+          ? "bg-red-500"
+          : sink.status === "retrying"
+            ? "bg-amber-500"
+            : sink.status === "healthy"
+              ? "bg-emerald-500"
+              : "bg-fg-faint";
+        const state =
+          sink.status === "retrying"
+            ? `Retrying after ${sink.failures} failure(s)${sink.lastError ? `: ${sink.lastError}` : ""}`
+            : sink.status === "healthy"
+              ? "Delivering"
+              : "Waiting for the first event";
+        return (
+          <div
+            key={`${sink.kind}:${sink.target}`}
+            className="flex items-center gap-2 text-xs text-fg-muted flex-wrap"
+            data-testid="audit-sink"
+          >
+            <span className={`h-2 w-2 rounded-full ${tone}`} />
+            <span className="font-medium text-fg-tertiary">{SINK_KIND_LABELS[sink.kind]}</span>
+            <span className="font-mono truncate max-w-[240px]">{sink.target}</span>
+            <span>{state}</span>
+            <span className="ml-auto tabular-nums">
+              {sink.delivered} sent
+              {sink.queued > 0 && ` · ${sink.queued} queued`}
+              {losing && <span className="text-red-400"> · {sink.dropped} dropped</span>}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * The durable store's write state, when server storage keeps the trail: a store
+ * that has stopped taking events is a gap nobody sees until the day it is needed.
+ */
+function StoreHealthStrip({ store }: { store: AuditStoreHealth | null }) {
+  if (!store) return null;
+  const tone =
+    store.dropped > 0
+      ? "bg-red-500"
+      : store.status === "retrying"
+        ? "bg-amber-500"
+        : store.status === "healthy"
+          ? "bg-emerald-500"
+          : "bg-fg-faint";
+  const state =
+    store.status === "retrying"
+      ? `Retrying after ${store.failures} failure(s)${store.lastError ? `: ${store.lastError}` : ""}`
+      : store.status === "healthy"
+        ? "Writing"
+        : "Waiting for the first event";
+  return (
+    <div
+      className="rounded-xl border border-hairline bg-panel p-3 flex items-center gap-2 text-xs text-fg-muted flex-wrap"
+      data-testid="audit-store"
+    >
+      <HardDrive className="h-3.5 w-3.5 text-blue-400" />
+      <span className="font-bold text-fg-secondary">Durable Store</span>
+      <span className={`h-2 w-2 rounded-full ${tone}`} />
+      <span>{state}</span>
+      <span className="ml-auto tabular-nums">
+        {store.stored} stored since start
+        {store.pending > 0 && ` · ${store.pending} pending`}
+        {store.dropped > 0 && <span className="text-red-400"> · {store.dropped} dropped</span>}
+      </span>
+    </div>
+  );
+}
+
+const PAGE_SIZE = 100;
+
 function OperationsAudit() {
   const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [sinks, setSinks] = useState<AuditSinkHealth[]>([]);
+  const [store, setStore] = useState<AuditStoreHealth | null>(null);
+  const [source, setSource] = useState<"store" | "memory">("memory");
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
   const [loading, setLoading] = useState(true);
   const [typeFilter, setTypeFilter] = useState<string>("all");
+  const [userInput, setUserInput] = useState("");
+  const [userFilter, setUserFilter] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
 
   const fetchEvents = useCallback(async () => {
     setLoading(true);
     try {
-      const params = new URLSearchParams({ limit: "200" });
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
       if (typeFilter !== "all") params.set("type", typeFilter);
+      if (userFilter) params.set("user", userFilter);
       const res = await fetch(`/api/admin/audit?${params}`);
       const data = await res.json();
       setEvents(data.events || []);
+      setTotal(data.total ?? (data.events || []).length);
+      setSource(data.source === "store" ? "store" : "memory");
+      setStore(data.store ?? null);
+      setSinks(data.sinks || []);
     } catch {
       setEvents([]);
+      setTotal(0);
     } finally {
       setLoading(false);
     }
-  }, [typeFilter]);
+  }, [typeFilter, userFilter, offset]);
+
+  const changeType = (value: string) => {
+    setTypeFilter(value);
+    setOffset(0);
+  };
 
   useEffect(() => {
     fetchEvents();
@@ -110,9 +230,12 @@ function OperationsAudit() {
 
   return (
     <div className="space-y-4">
+      <StoreHealthStrip store={store} />
+      <SinkHealthStrip sinks={sinks} />
+
       {/* Filter Bar */}
       <div className="flex items-center gap-2 flex-wrap">
-        <Select value={typeFilter} onValueChange={setTypeFilter}>
+        <Select value={typeFilter} onValueChange={changeType}>
           <SelectTrigger className="w-[140px] h-8 text-xs bg-panel border-hairline-strong">
             <SelectValue placeholder="Type" />
           </SelectTrigger>
@@ -120,7 +243,15 @@ function OperationsAudit() {
             <SelectItem value="all">All Types</SelectItem>
             <SelectItem value="maintenance">Maintenance</SelectItem>
             <SelectItem value="kill_session">Kill Session</SelectItem>
+            <SelectItem value="schema_migration">Schema Migration</SelectItem>
+            <SelectItem value="scheduled_query">Scheduled Query</SelectItem>
+            <SelectItem value="user_account">User Account</SelectItem>
+            <SelectItem value="access_role">Access Role</SelectItem>
+            <SelectItem value="change_request">Change Request</SelectItem>
+            <SelectItem value="api_token">API Token</SelectItem>
             <SelectItem value="masking_config">Masking</SelectItem>
+            <SelectItem value="masking_policy">Masking Policy</SelectItem>
+            <SelectItem value="data_unmasked">Unmasked Data</SelectItem>
             <SelectItem value="threshold_config">Thresholds</SelectItem>
             <SelectItem value="login_success">Login Success</SelectItem>
             <SelectItem value="login_failure">Login Failure</SelectItem>
@@ -129,16 +260,36 @@ function OperationsAudit() {
             <SelectItem value="rate_limit_exceeded">Rate Limited</SelectItem>
           </SelectContent>
         </Select>
+        <Input
+          placeholder="User (Enter)"
+          value={userInput}
+          onChange={(e) => setUserInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key !== "Enter") return;
+            setUserFilter(userInput.trim());
+            setOffset(0);
+          }}
+          className="w-[160px] h-8 text-xs bg-panel border-hairline-strong"
+        />
         <Input
           placeholder="Search..."
           value={searchQuery}
           onChange={(e) => setSearchQuery(e.target.value)}
           className="w-[180px] h-8 text-xs bg-panel border-hairline-strong"
         />
+        {source === "store" && (
+          <Button variant="ghost" size="sm" className="h-8 text-fg-muted hover:text-fg-secondary ml-auto" asChild>
+            {/* The chain export: every event with the hashes an auditor verifies it by. */}
+            <a href="/api/admin/audit/chain" download="libredb-audit-chain.json">
+              <Download className="w-3 h-3 mr-1.5" />
+              Export
+            </a>
+          </Button>
+        )}
         <Button
           variant="ghost"
           size="sm"
-          className="h-8 text-fg-muted hover:text-fg-secondary ml-auto"
+          className={`h-8 text-fg-muted hover:text-fg-secondary ${source === "store" ? "" : "ml-auto"}`}
           onClick={fetchEvents}
           disabled={loading}
         >
@@ -150,11 +301,39 @@ function OperationsAudit() {
       {/* Stats Summary */}
       <div className="flex items-center gap-4 text-xs text-fg-muted">
         <span>
-          Total: <span className="font-bold text-fg-secondary">{events.length}</span> ops
+          Total: <span className="font-bold text-fg-secondary">{total}</span> ops
         </span>
         <span>
           Success: <span className="font-bold text-emerald-400">{successRate}%</span>
         </span>
+        <span>{source === "store" ? "Stored trail" : "Since this server started"}</span>
+        {total > PAGE_SIZE && (
+          <div className="ml-auto flex items-center gap-1">
+            <span className="tabular-nums">
+              {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              aria-label="Newer events"
+              disabled={offset === 0 || loading}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            >
+              <ChevronLeft className="w-3.5 h-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              aria-label="Older events"
+              disabled={offset + PAGE_SIZE >= total || loading}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              <ChevronRight className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Events Table */}
@@ -215,7 +394,12 @@ function OperationsAudit() {
                   <TableCell className="py-2 text-xs text-fg-muted hidden md:table-cell truncate max-w-[100px]">
                     {event.connectionName || "-"}
                   </TableCell>
-                  <TableCell className="py-2 text-xs text-fg-muted hidden lg:table-cell">{event.user}</TableCell>
+                  <TableCell className="py-2 text-xs text-fg-muted hidden lg:table-cell">
+                    {event.user}
+                    {event.tokenId && (
+                      <span className="block font-mono text-[0.625rem] text-fg-tertiary">via {event.tokenId}</span>
+                    )}
+                  </TableCell>
                   <TableCell className="py-2 text-right font-mono text-xs text-fg-muted">
                     {event.duration ? `${event.duration}ms` : "-"}
                   </TableCell>
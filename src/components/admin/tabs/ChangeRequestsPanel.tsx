@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Check, ClipboardCheck, X } from "lucide-react";
+import { toast } from "sonner";
+import type { ChangeRequestStatus, ChangeRequestView } from "@/lib/change-requests/types";
+
+const QUEUE_CARD_TITLE = "Change Approvals";
+const QUEUE_DESCRIPTION =
+  "Writes on connections whose writes need approval wait here. Approving one runs the statement shown, on the server; nobody approves their own.";
+
+const STATUS_STYLES: Record<ChangeRequestStatus, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-amber-500/10 text-amber-400 border border-amber-500/20" },
+  executing: { label: "Running", className: "bg-blue-500/10 text-blue-400 border border-blue-500/20" },
+  rejected: { label: "Rejected", className: "bg-fill text-fg-muted border border-hairline" },
+  executed: { label: "Executed", className: "bg-emerald-500/10 text-emerald-400 border border-emerald-500/20" },
+  failed: { label: "Failed", className: "bg-red-500/10 text-red-400 border border-red-500/20" },
+};
+
+async function requestJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+}
+
+function outcomeOf(request: ChangeRequestView): string | null {
+  if (request.status === "executed") return `${request.rowCount ?? 0} row(s) affected in ${request.executionTime}ms`;
+  if (request.status === "failed") return request.error ?? "Failed";
+  return null;
+}
+
+export function ChangeRequestsPanel() {
+  const [requests, setRequests] = useState<ChangeRequestView[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const data = await requestJSON<{ requests: ChangeRequestView[] }>("/api/admin/change-requests");
+        if (cancelled) return;
+        setRequests(data.requests);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const decide = async (request: ChangeRequestView, decision: "approve" | "reject") => {
+    setBusyId(request.id);
+    try {
+      const { request: decided } = await requestJSON<{ request: ChangeRequestView }>("/api/admin/change-requests", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: request.id, decision }),
+      });
+      setRequests((current) => current.map((r) => (r.id === decided.id ? decided : r)));
+      if (decided.status === "failed") toast.error("Approved, but the statement failed");
+      else toast.success(decision === "approve" ? "Approved and executed" : "Rejected");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-hairline bg-panel p-5">
+      <h3 className="text-sm font-bold text-fg-secondary flex items-center gap-2 mb-2">
+        <ClipboardCheck className="h-4 w-4 text-blue-400" />
+        {QUEUE_CARD_TITLE}
+      </h3>
+      <p className="text-xs text-fg-muted mb-6">{QUEUE_DESCRIPTION}</p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {!error && requests.length === 0 && (
+        <p className="text-xs text-fg-subtle italic">Nothing is waiting for approval.</p>
+      )}
+
+      <div className="space-y-3">
+        {requests.map((request) => {
+          const status = STATUS_STYLES[request.status];
+          const outcome = outcomeOf(request);
+          return (
+            <div key={request.id} className="rounded-lg border border-hairline p-4 space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-baseline gap-2 min-w-0">
+                  <span className="text-sm font-medium text-fg-secondary truncate">{request.connectionName}</span>
+                  <span className="text-xs text-fg-muted">
+                    {request.requestedBy} · {new Date(request.requestedAt).toLocaleString()}
+                  </span>
+                </div>
+                <Badge className={`text-xs ${status.className}`}>{status.label}</Badge>
+              </div>
+              <pre className="text-xs font-mono text-fg-tertiary whitespace-pre-wrap bg-surface rounded p-2 max-h-40 overflow-auto">
+                {request.preview}
+              </pre>
+              {request.reviewedBy && (
+                <p className="text-xs text-fg-muted">
+                  {request.status === "rejected" ? "Rejected" : "Approved"} by {request.reviewedBy}
+                </p>
+              )}
+              {outcome && (
+                <p className={`text-xs ${request.status === "failed" ? "text-red-400" : "text-fg-muted"}`}>{outcome}</p>
+              )}
+              {request.status === "pending" && (
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Reject ${request.id}`}
+                    disabled={busyId !== null}
+                    onClick={() => decide(request, "reject")}
+                  >
+                    <X className="w-3.5 h-3.5 mr-1.5" /> Reject
+                  </Button>
+                  <Button
+                    size="sm"
+                    aria-label={`Approve ${request.id}`}
+                    className="bg-blue-600 hover:bg-blue-500 text-white"
+                    disabled={busyId !== null}
+                    onClick={() => decide(request, "approve")}
+                  >
+                    <Check className="w-3.5 h-3.5 mr-1.5" /> Approve
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -32,6 +32,7 @@ import {
   CheckCircle2,
   XCircle,
   Table2,
+  Undo2,
 } from "lucide-react";
 import { useMonitoringData } from "@/hooks/use-monitoring-data";
 import { storage } from "@/lib/storage";
@@ -39,6 +40,9 @@ import { useAllConnections } from "@/hooks/use-all-connections";
 import type { DatabaseConnection } from "@/lib/types";
 import type { ActiveSessionDetails, MaintenanceType } from "@/lib/db/types";
 import { useProviderMetadata } from "@/hooks/use-provider-metadata";
+import { useOpenTransactions } from "@/hooks/use-open-transactions";
+import type { OpenTransaction } from "@/lib/db/transactions";
+import { formatDuration } from "@/lib/db/utils/pool-manager";
 
 interface OperationLogEntry {
   id: string;
@@ -57,6 +61,8 @@ export function OperationsTab() {
   const [confirmKill, setConfirmKill] = useState<ActiveSessionDetails | null>(null);
   const [killingPid, setKillingPid] = useState<number | string | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [confirmRollback, setConfirmRollback] = useState<OpenTransaction | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
 
   const monitoringOptions = useMemo(() => ({ includeTables: true, includeIndexes: false, includeStorage: false }), []);
 
@@ -88,6 +94,10 @@ export function OperationsTab() {
   // The `??` fallbacks stay: `metadata` may carry capabilities without labels.
   const labels = metadata?.labels;
 
+  // Editor transactions are held per user and tab in this server process, not per
+  // connection, so the list spans every connection rather than the selected one.
+  const openTx = useOpenTransactions();
+
   const { connections: allConns } = useAllConnections();
   useEffect(() => {
     if (allConns.length === 0) return;
@@ -153,6 +163,23 @@ export function OperationsTab() {
     setKillingPid(null);
   };
 
+  const handleConfirmRollback = async () => {
+    if (!confirmRollback) return;
+    const target = confirmRollback;
+    setConfirmRollback(null);
+    setRollingBackId(target.id);
+    const start = Date.now();
+    const success = await openTx.rollback(target.id);
+    const duration = Date.now() - start;
+    addLogEntry(
+      "ROLLBACK",
+      `${target.username}/${target.tabName || target.tabId}`,
+      success ? "success" : "failure",
+      duration,
+    );
+    setRollingBackId(null);
+  };
+
   const sessions = data?.activeSessions ?? [];
   const tables = data?.tables ?? [];
   const [tableSearch, setTableSearch] = useState("");
@@ -236,7 +263,10 @@ export function OperationsTab() {
           variant="ghost"
           size="sm"
           className="h-8 text-fg-muted hover:text-fg-secondary"
-          onClick={refresh}
+          onClick={() => {
+            void refresh();
+            void openTx.refresh();
+          }}
           disabled={loading}
         >
           <RefreshCw className={`w-3.5 h-3.5 mr-1.5 ${loading ? "animate-spin" : ""}`} />
@@ -543,6 +573,78 @@ export function OperationsTab() {
         </div>
       </div>
 
+      {/* Open Transactions */}
+      <div className="rounded-xl border border-hairline bg-panel">
+        <div className="p-4 border-b border-hairline flex items-center gap-2">
+          <Clock className="w-4 h-4 text-amber-400" />
+          <span className="text-xs font-bold text-fg-secondary">Open Transactions ({openTx.transactions.length})</span>
+          <span className="text-xs text-fg-subtle ml-auto">Editor BEGINs on every connection</span>
+        </div>
+        {openTx.error ? (
+          <div className="p-4 text-sm text-red-400">{openTx.error}</div>
+        ) : openTx.transactions.length === 0 ? (
+          <div className="p-6 text-center text-fg-subtle text-sm">No open transactions.</div>
+        ) : (
+          <div className="max-h-[240px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-hairline hover:bg-transparent">
+                  <TableHead className="text-xs text-fg-muted font-bold uppercase">User</TableHead>
+                  <TableHead className="text-xs text-fg-muted font-bold uppercase">Connection</TableHead>
+                  <TableHead className="text-xs text-fg-muted font-bold uppercase">Tab</TableHead>
+                  <TableHead className="text-xs text-fg-muted font-bold uppercase">Open</TableHead>
+                  <TableHead className="text-xs text-fg-muted font-bold uppercase hidden md:table-cell">Idle</TableHead>
+                  <TableHead className="text-xs text-fg-muted font-bold uppercase hidden md:table-cell">
+                    Stmts
+                  </TableHead>
+                  <TableHead className="text-right text-xs text-fg-muted font-bold uppercase w-10">Act</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openTx.transactions.map((tx) => (
+                  <TableRow key={tx.id} className="group border-hairline hover:bg-fill">
+                    <TableCell className="text-xs text-fg-secondary py-2">{tx.username}</TableCell>
+                    <TableCell className="text-xs text-fg-secondary py-2">
+                      <span className="truncate max-w-[140px] block">{tx.connectionName}</span>
+                    </TableCell>
+                    <TableCell className="text-xs text-fg-tertiary py-2">
+                      <span className="truncate max-w-[120px] block">{tx.tabName || tx.tabId}</span>
+                    </TableCell>
+                    <TableCell className="py-2">
+                      <Badge variant="secondary" className="text-[0.625rem]">
+                        {formatDuration((openTx.fetchedAt ?? tx.startedAt) - tx.startedAt)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs text-fg-muted hidden md:table-cell py-2">
+                      {formatDuration((openTx.fetchedAt ?? tx.lastActivityAt) - tx.lastActivityAt)}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs text-fg-muted hidden md:table-cell py-2">
+                      {tx.statementCount}
+                    </TableCell>
+                    <TableCell className="text-right py-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-fg-subtle hover:text-red-500 hover:bg-red-500/10"
+                        title="Roll back"
+                        onClick={() => setConfirmRollback(tx)}
+                        disabled={rollingBackId === tx.id}
+                      >
+                        {rollingBackId === tx.id ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : (
+                          <Undo2 className="h-3 w-3" />
+                        )}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
       {/* Operation Log */}
       {operationLog.length > 0 && (
         <div className="rounded-xl border border-hairline bg-panel">
@@ -608,6 +710,32 @@ export function OperationsTab() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Roll Back Transaction Confirmation Dialog */}
+      <AlertDialog open={!!confirmRollback} onOpenChange={() => setConfirmRollback(null)}>
+        <AlertDialogContent className="bg-surface border-hairline-strong">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-fg">Roll Back Transaction?</AlertDialogTitle>
+            <AlertDialogDescription className="text-fg-tertiary">
+              User: <span className="font-medium text-fg-secondary">{confirmRollback?.username}</span>
+              <br />
+              Connection: <span className="font-medium text-fg-secondary">{confirmRollback?.connectionName}</span>
+              <br />
+              Tab: <span className="font-medium text-fg-secondary">{confirmRollback?.tabName}</span>
+              <br />
+              <br />
+              Every uncommitted change in this transaction is discarded, and its owner&apos;s next statement in it
+              fails.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-hairline-strong text-fg-tertiary">Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmRollback} className="bg-red-600 text-white hover:bg-red-500">
+              Roll Back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
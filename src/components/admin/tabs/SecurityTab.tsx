@@ -6,14 +6,17 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Slider } from "@/components/ui/slider";
-import { EyeOff, Lock, Activity, KeyRound, Save, RotateCcw } from "lucide-react";
+import { EyeOff, Lock, Activity, KeyRound, Save, RotateCcw, ClipboardCheck } from "lucide-react";
 import { MaskingSettings } from "@/components/MaskingSettings";
+import { AccessRolesPanel } from "./AccessRolesPanel";
+import { ChangeRequestsPanel } from "./ChangeRequestsPanel";
 import { DEFAULT_THRESHOLDS, type ThresholdConfig } from "@/lib/monitoring-thresholds";
 import { storage } from "@/lib/storage";
 import { toast } from "sonner";
 
 const MASKING_TAB_LABEL = "Data Masking";
 const ACCESS_TAB_LABEL = "Access";
+const APPROVALS_TAB_LABEL = "Approvals";
 const THRESHOLDS_TAB_LABEL = "Thresholds";
 const ACCESS_CARD_TITLE = "Security & Access";
 const SUPPORTED_LABEL = "Supported";
@@ -43,6 +46,13 @@ export function SecurityTab() {
             <Lock className="h-3.5 w-3.5" />
             {ACCESS_TAB_LABEL}
           </TabsTrigger>
+          <TabsTrigger
+            value="approvals"
+            className="gap-2 rounded-none border-b-2 border-transparent data-[state=active]:border-blue-400 data-[state=active]:bg-transparent data-[state=active]:text-blue-400 text-fg-muted text-xs px-4"
+          >
+            <ClipboardCheck className="h-3.5 w-3.5" />
+            {APPROVALS_TAB_LABEL}
+          </TabsTrigger>
           <TabsTrigger
             value="thresholds"
             className="gap-2 rounded-none border-b-2 border-transparent data-[state=active]:border-blue-400 data-[state=active]:bg-transparent data-[state=active]:text-blue-400 text-fg-muted text-xs px-4"
@@ -56,8 +66,13 @@ export function SecurityTab() {
           <MaskingSettings />
         </TabsContent>
 
-        <TabsContent value="access" className="mt-4">
+        <TabsContent value="access" className="mt-4 space-y-6">
           <AccessSummary />
+          <AccessRolesPanel />
+        </TabsContent>
+
+        <TabsContent value="approvals" className="mt-4">
+          <ChangeRequestsPanel />
         </TabsContent>
 
         <TabsContent value="thresholds" className="mt-4">
@@ -98,6 +113,11 @@ function AccessSummary() {
             <span className="text-fg-muted">User Access</span>
             <Badge className="bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 text-xs">ENABLED</Badge>
           </div>
+          <Separator className="bg-fill" />
+          <div className="flex items-center justify-between">
+            <span className="text-fg-muted">Connection Permissions</span>
+            <span className="text-fg-secondary">Custom roles, per connection</span>
+          </div>
         </div>
       </div>
 
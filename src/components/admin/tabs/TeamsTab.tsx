@@ -0,0 +1,242 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Save, Trash2, Users, X } from "lucide-react";
+import { toast } from "sonner";
+import type { Team, TeamRole } from "@/lib/teams/types";
+
+const TEAMS_CARD_TITLE = "Team Workspaces";
+const TEAMS_DESCRIPTION =
+  "Members of a team see the saved queries and charts published to it. Read members open them; write members also publish, edit and delete - in every folder, or only in the folders listed.";
+
+/** A member row as typed: folders as one comma-separated field. */
+interface MemberDraft {
+  username: string;
+  role: TeamRole;
+  folders: string;
+}
+
+interface TeamDraft {
+  id?: string;
+  name: string;
+  members: MemberDraft[];
+}
+
+function draftOf(team: Team | null): TeamDraft {
+  if (!team) return { name: "", members: [{ username: "", role: "write", folders: "" }] };
+  return {
+    id: team.id,
+    name: team.name,
+    members: team.members.map((m) => ({ username: m.username, role: m.role, folders: (m.folders ?? []).join(", ") })),
+  };
+}
+
+async function requestJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+}
+
+export function TeamsTab() {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [draft, setDraft] = useState<TeamDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const { teams } = await requestJSON<{ teams: Team[] }>("/api/admin/teams");
+        if (cancelled) return;
+        setTeams(teams);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateMember = (index: number, patch: Partial<MemberDraft>) => {
+    setDraft(
+      (current) =>
+        current && { ...current, members: current.members.map((m, i) => (i === index ? { ...m, ...patch } : m)) },
+    );
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    setBusy(true);
+    try {
+      const members = draft.members
+        .filter((m) => m.username.trim() !== "")
+        .map((m) => ({
+          username: m.username,
+          role: m.role,
+          ...(m.role === "write" && m.folders.trim() !== "" && { folders: m.folders.split(",") }),
+        }));
+      const { team } = await requestJSON<{ team: Team }>("/api/admin/teams", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...(draft.id && { id: draft.id }), name: draft.name, members }),
+      });
+      toast.success(draft.id ? "Team saved" : "Team created");
+      setDraft(null);
+      setTeams((current) =>
+        [...current.filter((t) => t.id !== team.id), team].sort((a, b) => a.name.localeCompare(b.name)),
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (team: Team) => {
+    if (!confirm(`Delete ${team.name} and everything published to it?`)) return;
+    try {
+      await requestJSON(`/api/admin/teams?id=${encodeURIComponent(team.id)}`, { method: "DELETE" });
+      toast.success("Team deleted");
+      setTeams((current) => current.filter((t) => t.id !== team.id));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-xl border border-hairline bg-panel p-5">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-bold text-fg-secondary flex items-center gap-2">
+            <Users className="h-4 w-4 text-blue-400" />
+            {TEAMS_CARD_TITLE}
+          </h3>
+          {!draft && !error && (
+            <Button size="sm" variant="outline" onClick={() => setDraft(draftOf(null))}>
+              <Plus className="w-3.5 h-3.5 mr-1.5" /> New team
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-fg-muted mb-6">{TEAMS_DESCRIPTION}</p>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {draft && (
+          <div className="rounded-lg border border-hairline-strong p-4 mb-6 space-y-3">
+            <Input
+              aria-label="Team name"
+              placeholder="Team name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="h-8 text-sm bg-fill border-hairline-strong"
+            />
+            {draft.members.map((member, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <Input
+                  aria-label={`Member ${index + 1}`}
+                  placeholder="username"
+                  value={member.username}
+                  onChange={(e) => updateMember(index, { username: e.target.value })}
+                  className="h-8 w-56 text-xs bg-fill border-hairline-strong"
+                />
+                <Select value={member.role} onValueChange={(role) => updateMember(index, { role: role as TeamRole })}>
+                  <SelectTrigger aria-label={`Member ${index + 1} role`} className="h-8 w-24 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="read">Read</SelectItem>
+                    <SelectItem value="write">Write</SelectItem>
+                  </SelectContent>
+                </Select>
+                {member.role === "write" && (
+                  <Input
+                    aria-label={`Member ${index + 1} folders`}
+                    placeholder="all folders, or e.g. finance, ops/reports"
+                    value={member.folders}
+                    onChange={(e) => updateMember(index, { folders: e.target.value })}
+                    className="h-8 w-64 text-xs font-mono bg-fill border-hairline-strong"
+                  />
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove member ${index + 1}`}
+                  className="h-7 w-7 text-fg-muted hover:text-red-400"
+                  onClick={() => setDraft({ ...draft, members: draft.members.filter((_, i) => i !== index) })}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between pt-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setDraft({ ...draft, members: [...draft.members, { username: "", role: "read", folders: "" }] })
+                }
+              >
+                <Plus className="w-3.5 h-3.5 mr-1.5" /> Add member
+              </Button>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  className="bg-blue-600 hover:bg-blue-500 text-white"
+                  onClick={save}
+                  disabled={busy || draft.name.trim() === ""}
+                >
+                  <Save className="w-3.5 h-3.5 mr-1.5" /> Save team
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {!error && teams.length === 0 && !draft && <p className="text-xs text-fg-subtle italic">No teams yet.</p>}
+
+        <div className="space-y-3">
+          {teams.map((team) => (
+            <div key={team.id} className="rounded-lg border border-hairline p-4 flex items-start justify-between gap-4">
+              <div className="space-y-2">
+                <span className="text-sm font-medium text-fg-secondary">{team.name}</span>
+                <div className="flex flex-wrap gap-1.5">
+                  {team.members.map((member) => (
+                    <Badge key={member.username} variant="secondary" className="text-xs font-normal">
+                      {member.username} · {member.role}
+                      {member.folders && ` (${member.folders.join(", ")})`}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <Button variant="ghost" size="sm" onClick={() => setDraft(draftOf(team))}>
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Delete ${team.name}`}
+                  className="text-fg-muted hover:text-red-400"
+                  onClick={() => remove(team)}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, UserPlus, UserRound } from "lucide-react";
+import { toast } from "sonner";
+import type { Role } from "@/lib/auth";
+import type { AccountAction } from "@/lib/accounts/input";
+import type { AccountStatus, AccountSummary } from "@/lib/accounts/types";
+
+const USERS_CARD_TITLE = "User Accounts";
+const USERS_DESCRIPTION =
+  "Everyone who signs in with a password. Invite a teammate to get a one-time link they use to choose their own; disabling an account or changing its role signs it out everywhere.";
+
+const STATUS_LABEL: Record<AccountStatus, string> = {
+  invited: "Invited",
+  active: "Active",
+  reset_pending: "Reset pending",
+  disabled: "Disabled",
+};
+
+const STATUS_CLASS: Record<AccountStatus, string> = {
+  invited: "bg-blue-500/10 text-blue-400 border border-blue-500/20",
+  active: "bg-emerald-500/10 text-emerald-400 border border-emerald-500/20",
+  reset_pending: "bg-amber-500/10 text-amber-400 border border-amber-500/20",
+  disabled: "bg-red-500/10 text-red-400 border border-red-500/20",
+};
+
+/** A setup link as the admin route handed it back, shown until dismissed: it is never shown again. */
+interface IssuedLink {
+  email: string;
+  url: string;
+  expiresAt: string;
+}
+
+interface ActionResponse {
+  user: AccountSummary;
+  setupUrl?: string;
+  setupExpiresAt?: string;
+}
+
+async function requestJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+}
+
+export function UsersTab() {
+  const [users, setUsers] = useState<AccountSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<Role>("user");
+  const [issued, setIssued] = useState<IssuedLink | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const { users } = await requestJSON<{ users: AccountSummary[] }>("/api/admin/users");
+        if (cancelled) return;
+        setUsers(users);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const act = async (action: AccountAction, email: string, role?: Role): Promise<boolean> => {
+    setBusy(true);
+    try {
+      const { user, setupUrl, setupExpiresAt } = await requestJSON<ActionResponse>("/api/admin/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, email, ...(role && { role }) }),
+      });
+      setUsers((current) =>
+        current.some((u) => u.source === "stored" && u.email === user.email)
+          ? current.map((u) => (u.source === "stored" && u.email === user.email ? user : u))
+          : [...current, user],
+      );
+      setIssued(setupUrl && setupExpiresAt ? { email: user.email, url: setupUrl, expiresAt: setupExpiresAt } : null);
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const invite = async () => {
+    if (await act("invite", inviteEmail, inviteRole)) {
+      toast.success("Invite created");
+      setInviteEmail("");
+    }
+  };
+
+  const reset = async (user: AccountSummary) => {
+    if (!confirm(`Reset the password of ${user.email}? Their current password stops working now.`)) return;
+    if (await act("reset", user.email)) toast.success("Reset link created");
+  };
+
+  const toggleDisabled = async (user: AccountSummary) => {
+    if (user.status === "disabled") {
+      if (await act("enable", user.email)) toast.success(`${user.email} enabled`);
+      return;
+    }
+    if (!confirm(`Disable ${user.email}? They are signed out and cannot sign in until enabled again.`)) return;
+    if (await act("disable", user.email)) toast.success(`${user.email} disabled`);
+  };
+
+  const copyLink = async () => {
+    if (!issued) return;
+    try {
+      await navigator.clipboard.writeText(issued.url);
+      toast.success("Link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-xl border border-hairline bg-panel p-5">
+        <h3 className="text-sm font-bold text-fg-secondary flex items-center gap-2 mb-2">
+          <UserRound className="h-4 w-4 text-blue-400" />
+          {USERS_CARD_TITLE}
+        </h3>
+        <p className="text-xs text-fg-muted mb-6">{USERS_DESCRIPTION}</p>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {!error && (
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            <Input
+              aria-label="Invite email"
+              type="email"
+              placeholder="teammate@example.com"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              className="h-8 w-64 text-sm bg-fill border-hairline-strong"
+            />
+            <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as Role)}>
+              <SelectTrigger aria-label="Invite role" className="h-8 w-24 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="user">User</SelectItem>
+                <SelectItem value="admin">Admin</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              className="bg-blue-600 hover:bg-blue-500 text-white"
+              onClick={invite}
+              disabled={busy || inviteEmail.trim() === ""}
+            >
+              <UserPlus className="w-3.5 h-3.5 mr-1.5" /> Invite
+            </Button>
+          </div>
+        )}
+
+        {issued && (
+          <div className="rounded-lg border border-blue-500/30 bg-blue-500/5 p-4 mb-6 space-y-2">
+            <p className="text-xs text-fg-secondary">
+              Send this link to {issued.email}. It works once, until {new Date(issued.expiresAt).toLocaleString()}, and
+              is not shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <Input
+                readOnly
+                aria-label="Setup link"
+                value={issued.url}
+                className="h-8 text-xs font-mono bg-fill border-hairline-strong"
+              />
+              <Button variant="outline" size="sm" onClick={copyLink}>
+                <Copy className="w-3.5 h-3.5 mr-1.5" /> Copy
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setIssued(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {users.map((user) => (
+            <div
+              key={`${user.source}:${user.email}`}
+              className="rounded-lg border border-hairline px-4 py-3 flex flex-wrap items-center justify-between gap-3"
+            >
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-fg-secondary">{user.email}</span>
+                  <Badge className={`text-xs ${STATUS_CLASS[user.status]}`}>{STATUS_LABEL[user.status]}</Badge>
+                </div>
+                <p className="text-xs text-fg-muted">
+                  {user.source === "environment"
+                    ? "Set by environment variables"
+                    : user.lastLoginAt
+                      ? `Last sign-in ${new Date(user.lastLoginAt).toLocaleString()}`
+                      : `Invited by ${user.createdBy}`}
+                </p>
+              </div>
+              {user.source === "environment" ? (
+                <Badge variant="secondary" className="text-xs font-normal">
+                  {user.role}
+                </Badge>
+              ) : (
+                <div className="flex items-center gap-1">
+                  <Select value={user.role} onValueChange={(role) => act("role", user.email, role as Role)}>
+                    <SelectTrigger aria-label={`${user.email} role`} className="h-8 w-24 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="user">User</SelectItem>
+                      <SelectItem value="admin">Admin</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Reset ${user.email}`}
+                    disabled={busy}
+                    onClick={() => reset(user)}
+                  >
+                    Reset
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`${user.status === "disabled" ? "Enable" : "Disable"} ${user.email}`}
+                    disabled={busy}
+                    className={user.status === "disabled" ? undefined : "hover:text-red-400"}
+                    onClick={() => toggleDisabled(user)}
+                  >
+                    {user.status === "disabled" ? "Enable" : "Disable"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
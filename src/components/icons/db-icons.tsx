@@ -216,6 +216,69 @@ export const DruidIcon: React.FC<IconProps> = ({ className, ...props }) => (
   </svg>
 );
 
+/**
+ * DuckDB mark: the round head and the bill that juts out of its right side. The
+ * brand draws the head filled inside a filled disc; as outlines the disc adds a
+ * second ring that reads as a target at 14px, so only the head and bill are kept.
+ */
+export const DuckDBIcon: React.FC<IconProps> = ({ className, ...props }) => (
+  <svg
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="1.5"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    className={className}
+    {...props}
+  >
+    <circle cx="10" cy="12" r="6" />
+    <path d="M16 10h4.5a1.5 1.5 0 010 3H16" />
+  </svg>
+);
+
+/**
+ * Cassandra mark, reduced to the eye at its centre. The brand's surrounding rays
+ * blur into a smudge at 14px, so only the lid outline and the iris are kept.
+ */
+export const CassandraIcon: React.FC<IconProps> = ({ className, ...props }) => (
+  <svg
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="1.5"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    className={className}
+    {...props}
+  >
+    <path d="M2 12s3.5-6 10-6 10 6 10 6-3.5 6-10 6S2 12 2 12z" />
+    <circle cx="12" cy="12" r="3" />
+  </svg>
+);
+
+/**
+ * Elasticsearch / OpenSearch, drawn as a magnifier over a document's lines rather
+ * than either brand's mark: one icon serves both engines, and neither logo reads
+ * at 14px.
+ */
+export const ElasticsearchIcon: React.FC<IconProps> = ({ className, ...props }) => (
+  <svg
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="1.5"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    className={className}
+    {...props}
+  >
+    <path d="M4 5h10M4 9h6M4 13h4" />
+    <circle cx="15" cy="14" r="4" />
+    <path d="M18 17l3 3" />
+  </svg>
+);
+
 /** LibreDB database cylinder with L marker */
 export const LibreDBIcon: React.FC<IconProps> = ({ className, ...props }) => (
   <svg
@@ -1,14 +1,19 @@
 "use client";
 
 import React from "react";
-import { Database, Zap, Activity, Clock, Table2, Hash, Server } from "lucide-react";
+import { Database, Zap, Activity, Clock, Table2, Hash, Server, HeartPulse } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { MonitoringData } from "@/lib/db/types";
 import type { TimeSeriesPoint } from "@/lib/time-series-buffer";
-import { evaluateThreshold, getThresholdColor, DEFAULT_THRESHOLDS } from "@/lib/monitoring-thresholds";
+import {
+  evaluateThreshold,
+  getThresholdBadgeVariant,
+  getThresholdColor,
+  DEFAULT_THRESHOLDS,
+} from "@/lib/monitoring-thresholds";
 import { CACHE_HIT_RATIO_UNAVAILABLE } from "@/lib/monitoring-cache-ratio";
 import { MetricChart } from "./MetricChart";
 
@@ -67,6 +72,17 @@ export function OverviewTab({ data, loading, history = [] }: OverviewTabProps) {
           <Clock strokeWidth={1.5} className="h-3 w-3 sm:h-4 sm:w-4" />
           {overview?.uptime || "N/A"}
         </Badge>
+        {/* Only an engine that grades itself (a search cluster's green/yellow/red)
+            reports this; the others leave health to the thresholds below. */}
+        {overview?.health && (
+          <Badge
+            variant={getThresholdBadgeVariant(overview.health.level)}
+            className="gap-1.5 sm:gap-2 py-1 sm:py-1.5 px-2 sm:px-3 text-xs"
+          >
+            <HeartPulse strokeWidth={1.5} className="h-3 w-3 sm:h-4 sm:w-4" />
+            <span className="truncate max-w-[160px] sm:max-w-none">{overview.health.summary}</span>
+          </Badge>
+        )}
         {data?.timestamp && (
           <span className="text-xs sm:text-xs text-muted-foreground">
             {new Date(data.timestamp).toLocaleTimeString()}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Copy, KeyRound, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { MAX_TOKEN_LIFETIME_DAYS } from "@/lib/api-tokens/input";
+import { API_TOKEN_SCOPES, type ApiTokenScope, type ApiTokenSummary } from "@/lib/api-tokens/types";
+
+const TOKENS_CARD_TITLE = "API Tokens";
+const TOKENS_DESCRIPTION =
+  "For scripts, CI jobs and notebooks that call the query and schema API as you. Send one as `Authorization: Bearer <token>`; it can do no more than you can, only on the routes its scopes name, and stops working when it expires or you revoke it.";
+
+const SCOPE_LABEL: Record<ApiTokenScope, string> = {
+  query: "Run queries",
+  schema: "Read schemas",
+};
+
+/** A token as the route handed it back, shown until dismissed: its secret is never shown again. */
+interface IssuedToken {
+  name: string;
+  secret: string;
+}
+
+async function requestJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+}
+
+export function ApiTokensPanel() {
+  const [tokens, setTokens] = useState<ApiTokenSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["query", "schema"]);
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [issued, setIssued] = useState<IssuedToken | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const { tokens } = await requestJSON<{ tokens: ApiTokenSummary[] }>("/api/tokens");
+        if (cancelled) return;
+        setTokens(tokens);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((current) =>
+      checked ? API_TOKEN_SCOPES.filter((s) => s === scope || current.includes(s)) : current.filter((s) => s !== scope),
+    );
+  };
+
+  const create = async () => {
+    setBusy(true);
+    try {
+      const { token, secret } = await requestJSON<{ token: ApiTokenSummary; secret: string }>("/api/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, scopes, expiresInDays: Number(expiresInDays) }),
+      });
+      setTokens((current) => [...current, token]);
+      setIssued({ name: token.name, secret });
+      setName("");
+      toast.success("Token created");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async (token: ApiTokenSummary) => {
+    if (!confirm(`Revoke "${token.name}"? Anything still using it is refused from now on.`)) return;
+    setBusy(true);
+    try {
+      await requestJSON(`/api/tokens?id=${encodeURIComponent(token.id)}`, { method: "DELETE" });
+      setTokens((current) => current.filter((t) => t.id !== token.id));
+      toast.success(`"${token.name}" revoked`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copySecret = async () => {
+    if (!issued) return;
+    try {
+      await navigator.clipboard.writeText(issued.secret);
+      toast.success("Token copied");
+    } catch {
+      toast.error("Could not copy the token");
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-hairline bg-panel p-5">
+      <h3 className="text-sm font-bold text-fg-secondary flex items-center gap-2 mb-2">
+        <KeyRound className="h-4 w-4 text-blue-400" />
+        {TOKENS_CARD_TITLE}
+      </h3>
+      <p className="text-xs text-fg-muted mb-6">{TOKENS_DESCRIPTION}</p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {!error && (
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <Input
+            aria-label="Token name"
+            placeholder="nightly-ci"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="h-8 w-56 text-sm bg-fill border-hairline-strong"
+          />
+          {API_TOKEN_SCOPES.map((scope) => (
+            <label key={scope} className="flex items-center gap-1.5 text-xs text-fg-secondary">
+              <Checkbox
+                aria-label={SCOPE_LABEL[scope]}
+                checked={scopes.includes(scope)}
+                onCheckedChange={(checked) => toggleScope(scope, !!checked)}
+              />
+              {SCOPE_LABEL[scope]}
+            </label>
+          ))}
+          <div className="flex items-center gap-1.5 text-xs text-fg-secondary">
+            <label htmlFor="api-token-expiry">Expires in</label>
+            <Input
+              id="api-token-expiry"
+              aria-label="Expires in days"
+              type="number"
+              min={1}
+              max={MAX_TOKEN_LIFETIME_DAYS}
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+              className="h-8 w-20 text-sm bg-fill border-hairline-strong"
+            />
+            days
+          </div>
+          <Button
+            size="sm"
+            className="bg-blue-600 hover:bg-blue-500 text-white"
+            onClick={create}
+            disabled={busy || name.trim() === "" || scopes.length === 0}
+          >
+            <Plus className="w-3.5 h-3.5 mr-1.5" /> Create token
+          </Button>
+        </div>
+      )}
+
+      {issued && (
+        <div className="rounded-lg border border-blue-500/30 bg-blue-500/5 p-4 mb-6 space-y-2">
+          <p className="text-xs text-fg-secondary">
+            Copy the secret of &quot;{issued.name}&quot; now. It is not stored anywhere it can be read back, and is not
+            shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <Input
+              readOnly
+              aria-label="Token secret"
+              value={issued.secret}
+              className="h-8 text-xs font-mono bg-fill border-hairline-strong"
+            />
+            <Button variant="outline" size="sm" onClick={copySecret}>
+              <Copy className="w-3.5 h-3.5 mr-1.5" /> Copy
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setIssued(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {!error && tokens.length === 0 && <p className="text-xs text-fg-muted">No tokens yet.</p>}
+        {tokens.map((token) => (
+          <div
+            key={token.id}
+            className="rounded-lg border border-hairline px-4 py-3 flex flex-wrap items-center justify-between gap-3"
+          >
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-fg-secondary">{token.name}</span>
+                <span className="font-mono text-[0.625rem] text-fg-tertiary">{token.id}</span>
+                {token.scopes.map((scope) => (
+                  <Badge key={scope} variant="secondary" className="text-xs font-normal">
+                    {scope}
+                  </Badge>
+                ))}
+                {token.expired && (
+                  <Badge className="text-xs bg-red-500/10 text-red-400 border border-red-500/20">Expired</Badge>
+                )}
+              </div>
+              <p className="text-xs text-fg-muted">
+                {token.expired ? "Expired" : "Expires"} {new Date(token.expiresAt).toLocaleDateString()}
+                {" · "}
+                {token.lastUsedAt ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}` : "Never used"}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              aria-label={`Revoke ${token.name}`}
+              disabled={busy}
+              className="hover:text-red-400"
+              onClick={() => revoke(token)}
+            >
+              {token.expired ? "Remove" : "Revoke"}
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, UserRound } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { UserPayload } from "@/lib/auth";
+import { ApiTokensPanel } from "./ApiTokensPanel";
+
+/** The signed-in user's own page: who they are signed in as, and the API tokens that act as them. */
+export function ProfilePage() {
+  const router = useRouter();
+  const [user, setUser] = useState<UserPayload | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/auth/me");
+        const data = await res.json();
+        if (!cancelled && res.ok) setUser(data.user);
+      } catch {
+        // The header just stays without a name; the token panel reports its own failures.
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <div className="flex flex-col min-h-[100dvh] bg-background">
+      <header className="border-b bg-card">
+        <div className="flex items-center gap-2 sm:gap-4 px-3 py-2 sm:px-4 sm:py-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push("/")}
+            className="h-8 w-8 sm:h-9 sm:w-auto sm:px-3"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span className="hidden sm:inline ml-2">Back</span>
+          </Button>
+          <div className="flex items-center gap-2">
+            <UserRound strokeWidth={1.5} className="h-4 w-4 sm:h-5 sm:w-5 text-primary" />
+            <h1 className="text-xs sm:text-lg font-medium">Profile</h1>
+          </div>
+          {user && (
+            <div className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+              <span>{user.username}</span>
+              <Badge variant="secondary" className="text-xs font-normal">
+                {user.role}
+              </Badge>
+            </div>
+          )}
+        </div>
+      </header>
+      <main className="w-full max-w-4xl mx-auto p-4 sm:p-6 space-y-6">
+        <ApiTokensPanel />
+      </main>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useMemo } from "react";
-import type { DatabaseConnection, QueryTab, TableSchema, QueryResult } from "@/lib/types";
+import type { DatabaseConnection, LoadedQueryState, QueryTab, TableSchema, QueryResult } from "@/lib/types";
 import type { ProviderMetadata } from "@/hooks/use-provider-metadata";
 import type { MaskingConfig } from "@/lib/data-masking";
 import type { AgentArtifactHydration } from "@/components/agent/hydration";
@@ -12,7 +12,9 @@ import { SavedQueries } from "@/components/SavedQueries";
 import { ChunkBoundary, ViewLoading } from "@/components/LazyView";
 import { lazyRetry } from "@/lib/lazy";
 import { describeExportScope } from "@/lib/export/scope";
-import type { ResultExportFormat } from "@/lib/export/result-export";
+import type { ResultExportFormat, StreamableExportFormat } from "@/lib/export/result-export";
+import type { FullExportProgress } from "@/hooks/use-full-export";
+import { formatBytes } from "@/lib/db/utils/pool-manager";
 
 import { resolveExplainPlan } from "@/lib/explain";
 import { cn } from "@/lib/utils";
@@ -26,6 +28,7 @@ import {
   GitCompare,
   LayoutDashboard,
   LayoutGrid,
+  Rows3,
   Terminal,
   X,
   Zap,
@@ -49,6 +52,7 @@ export type BottomPanelMode =
   | "pivot"
   | "docs"
   | "schemadiff"
+  | "datadiff"
   | "dashboard";
 
 /*
@@ -88,6 +92,7 @@ const DataCharts = React.lazy(
 const SchemaDiff = React.lazy(
   lazyRetry(() => import("@/components/SchemaDiff").then((m) => ({ default: m.SchemaDiff }))),
 );
+const DataDiff = React.lazy(lazyRetry(() => import("@/components/DataDiff").then((m) => ({ default: m.DataDiff }))));
 
 // The saved-chart dashboard. Its data is read on mount, not its module — the module
 // is split at the import above, along with the `DataCharts` this renders.
@@ -154,6 +159,8 @@ interface BottomPanelProps {
   onToggleMasking: (() => void) | undefined;
   userRole: string | undefined;
   maskingConfig: MaskingConfig;
+  /** Reads one value the server masked again; see `ResultsGrid`'s `onRevealCell`. */
+  onRevealCell?: (rowIndex: number, column: string) => Promise<{ value: unknown } | null>;
   // Editing
   editingEnabled: boolean;
   pendingChanges: CellChange[];
@@ -161,12 +168,21 @@ interface BottomPanelProps {
   onApplyChanges: () => void;
   onDiscardChanges: () => void;
   // Actions
-  onLoadQuery: (query: string) => void;
+  onLoadQuery: (query: string, loaded?: LoadedQueryState) => void;
   onLoadMore: (() => void) | undefined;
   isLoadingMore: boolean | undefined;
   // The writer's own type, so a format added there cannot silently fail to reach this
   // menu — the drift between two spellings of one list is what this PR is about.
   onExportResults: (format: ResultExportFormat) => void;
+  /**
+   * Exports the statement's WHOLE result on the server (`POST /api/db/export`),
+   * offered only while more rows are still there. Optional so the embedded shell,
+   * whose rows are handed to it by the host, is unchanged.
+   */
+  onExportFullResult?: (format: StreamableExportFormat) => void;
+  /** The whole-result export in flight, or null; shown with its progress and a cancel. */
+  fullExport?: FullExportProgress | null;
+  onCancelFullExport?: () => void;
   /**
    * A result an agent run stored, shown in the surface that already renders that
    * kind of result (#329 T11). Optional so every other caller — the embedded shell
@@ -174,8 +190,38 @@ interface BottomPanelProps {
    */
   agentArtifact?: AgentArtifactHydration | null;
   onDismissAgentArtifact?: () => void;
+  /**
+   * Whether saved queries can be scheduled, and saved queries and charts published
+   * to a team — true with server storage on. Optional so the embedded shell, which
+   * has no saved queries on the server, is unchanged.
+   */
+  schedulingEnabled?: boolean;
 }
 
+/** The page exports, in menu order: the data formats, then the SQL ones. */
+const EXPORT_ITEMS: { format: ResultExportFormat; label: string }[] = [
+  { format: "csv", label: "Export as CSV" },
+  { format: "json", label: "Export as JSON" },
+  { format: "ndjson", label: "Export as NDJSON" },
+  { format: "xlsx", label: "Export as Excel (XLSX)" },
+  { format: "parquet", label: "Export as Parquet" },
+  { format: "markdown", label: "Export as Markdown table" },
+  { format: "sql-insert", label: "Export as SQL INSERT" },
+  { format: "sql-ddl", label: "Export as DDL (CREATE TABLE)" },
+];
+
+/**
+ * The whole-result exports, in the order the page exports above them are listed.
+ * Markdown is streamable but not offered: a table of two million rows is not one
+ * anyone pastes into a ticket.
+ */
+const FULL_EXPORT_ITEMS: { format: StreamableExportFormat; label: string }[] = [
+  { format: "csv", label: "Export full result as CSV" },
+  { format: "json", label: "Export full result as JSON" },
+  { format: "ndjson", label: "Export full result as NDJSON" },
+  { format: "sql-insert", label: "Export full result as SQL INSERT" },
+];
+
 export function BottomPanel({
   mode,
   onSetMode,
@@ -190,6 +236,7 @@ export function BottomPanel({
   onToggleMasking,
   userRole,
   maskingConfig,
+  onRevealCell,
   editingEnabled,
   pendingChanges,
   onCellChange,
@@ -199,8 +246,12 @@ export function BottomPanel({
   onLoadMore,
   isLoadingMore,
   onExportResults,
+  onExportFullResult,
+  fullExport = null,
+  onCancelFullExport,
   agentArtifact = null,
   onDismissAgentArtifact,
+  schedulingEnabled,
 }: BottomPanelProps) {
   const explainInput = useMemo(() => resolveExplainPlan(currentTab.explainPlan), [currentTab.explainPlan]);
 
@@ -290,6 +341,12 @@ export function BottomPanel({
       icon: <GitCompare strokeWidth={1.5} className="w-3 h-3" />,
       activeClass: "text-rose-400 border-rose-500 bg-fill",
     },
+    {
+      key: "datadiff",
+      label: "Data Diff",
+      icon: <Rows3 strokeWidth={1.5} className="w-3 h-3" />,
+      activeClass: "text-sky-400 border-sky-500 bg-fill",
+    },
     {
       key: "dashboard",
       label: "Dashboard",
@@ -342,6 +399,24 @@ export function BottomPanel({
             <span className="hidden @4xl/panel:inline text-xs font-mono text-fg-muted mr-2">
               {displayedResult.rowCount} rows • {displayedResult.executionTime}ms
             </span>
+            {!hydratedHere && fullExport !== null && (
+              <span
+                data-testid="full-export-progress"
+                className="flex items-center gap-1 text-xs font-mono text-fg-muted mr-1"
+              >
+                Exporting… {formatBytes(fullExport.bytesReceived)}
+                {onCancelFullExport && (
+                  <button
+                    type="button"
+                    onClick={onCancelFullExport}
+                    aria-label="Cancel export"
+                    className="p-0.5 rounded hover:text-fg-bright hover:bg-fill"
+                  >
+                    <X strokeWidth={1.5} className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            )}
             {!hydratedHere && (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -370,18 +445,35 @@ export function BottomPanel({
                     )}
                   </div>
                   <DropdownMenuSeparator className="bg-hairline" />
-                  <DropdownMenuItem onClick={() => onExportResults("csv")} className="text-xs cursor-pointer">
-                    Export as CSV
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => onExportResults("json")} className="text-xs cursor-pointer">
-                    Export as JSON
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => onExportResults("sql-insert")} className="text-xs cursor-pointer">
-                    Export as SQL INSERT
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => onExportResults("sql-ddl")} className="text-xs cursor-pointer">
-                    Export as DDL (CREATE TABLE)
-                  </DropdownMenuItem>
+                  {EXPORT_ITEMS.map(({ format, label }) => (
+                    <DropdownMenuItem
+                      key={format}
+                      onClick={() => onExportResults(format)}
+                      className="text-xs cursor-pointer"
+                    >
+                      {label}
+                    </DropdownMenuItem>
+                  ))}
+                  {/*
+                    Only where the page is not the whole result: otherwise these would
+                    write the same file as the items above, at the cost of running the
+                    statement again.
+                  */}
+                  {exportScope.shortfall !== null && onExportFullResult && (
+                    <>
+                      <DropdownMenuSeparator className="bg-hairline" />
+                      {FULL_EXPORT_ITEMS.map(({ format, label }) => (
+                        <DropdownMenuItem
+                          key={format}
+                          disabled={fullExport !== null}
+                          onClick={() => onExportFullResult(format)}
+                          className="text-xs cursor-pointer"
+                        >
+                          {label}
+                        </DropdownMenuItem>
+                      ))}
+                    </>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
             )}
@@ -438,8 +530,8 @@ export function BottomPanel({
               <QueryHistory
                 refreshTrigger={historyKey}
                 activeConnectionId={activeConnection?.id}
-                onSelectQuery={(q) => {
-                  onLoadQuery(q);
+                onSelectQuery={(q, loaded) => {
+                  onLoadQuery(q, loaded);
                   onSetMode("results");
                 }}
               />
@@ -447,15 +539,25 @@ export function BottomPanel({
               <SavedQueries
                 refreshTrigger={savedKey}
                 connectionType={activeConnection?.type}
-                onSelectQuery={(q) => {
-                  onLoadQuery(q);
+                schedulingConnection={schedulingEnabled ? activeConnection : null}
+                userRole={userRole}
+                // Team workspaces live in server storage too.
+                teamsEnabled={schedulingEnabled}
+                onSelectQuery={(q, loaded) => {
+                  onLoadQuery(q, loaded);
                   onSetMode("results");
                 }}
               />
             ) : mode === "charts" ? (
-              <DataCharts result={hydratedChart ?? currentTab.result} spec={hydratedChartSpec} />
+              <DataCharts
+                result={hydratedChart ?? currentTab.result}
+                spec={hydratedChartSpec}
+                teamsEnabled={schedulingEnabled}
+              />
             ) : mode === "schemadiff" ? (
               <SchemaDiff schema={schema} connection={activeConnection} />
+            ) : mode === "datadiff" ? (
+              <DataDiff schema={schema} connection={activeConnection} />
             ) : mode === "dashboard" ? (
               <ChartDashboard result={currentTab.result} />
             ) : mode === "explain" ? (
@@ -485,6 +587,7 @@ export function BottomPanel({
                 onToggleMasking={onToggleMasking}
                 userRole={userRole}
                 maskingConfig={maskingConfig}
+                onRevealCell={hydratedHere ? undefined : onRevealCell}
                 editingEnabled={hydratedHere ? false : editingEnabled}
                 pendingChanges={pendingChanges}
                 onCellChange={onCellChange}
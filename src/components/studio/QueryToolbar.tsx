@@ -13,6 +13,11 @@ interface QueryToolbarProps {
   isExecuting: boolean;
   playgroundMode: boolean;
   transactionActive: boolean;
+  /**
+   * Where the open transaction lives. A transaction belongs to the tab it was begun
+   * in, so from any other tab a bare "TXN" would claim the wrong statements.
+   */
+  transactionOwner?: { connectionName: string; tabName: string } | null;
   editingEnabled: boolean;
   onSaveQuery: () => void;
   onExecuteQuery: () => void;
@@ -40,6 +45,7 @@ export function QueryToolbar({
   isExecuting,
   playgroundMode,
   transactionActive,
+  transactionOwner = null,
   editingEnabled,
   onSaveQuery,
   onExecuteQuery,
@@ -115,8 +121,16 @@ export function QueryToolbar({
             {transaction !== null &&
               (transactionActive ? (
                 <>
-                  <span className="text-[0.625rem] font-medium text-amber-400 px-1.5 py-0.5 bg-amber-500/10 rounded border border-amber-500/20 mr-1">
-                    TXN
+                  <span
+                    className="text-[0.625rem] font-medium text-amber-400 px-1.5 py-0.5 bg-amber-500/10 rounded border border-amber-500/20 mr-1 max-w-[160px] truncate"
+                    title={
+                      transactionOwner
+                        ? `Transaction open on ${transactionOwner.connectionName}, tab "${transactionOwner.tabName}". Only that tab's queries run inside it.`
+                        : undefined
+                    }
+                    data-testid="transaction-owner"
+                  >
+                    TXN{transactionOwner ? ` · ${transactionOwner.tabName}` : ""}
                   </span>
                   <Button
                     size="sm"
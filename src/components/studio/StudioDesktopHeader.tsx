@@ -4,7 +4,7 @@ import React from "react";
 import type { DatabaseConnection } from "@/lib/types";
 import { useRouter } from "next/navigation";
 import { cn } from "@/lib/utils";
-import { Database, Gauge, LogOut, Settings, User } from "lucide-react";
+import { Database, Gauge, KeyRound, LogOut, Settings, User } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -106,6 +106,9 @@ export function StudioDesktopHeader({
               <DropdownMenuItem onClick={() => router.push("/monitoring")} className="cursor-pointer">
                 <Gauge strokeWidth={1.5} className="w-3.5 h-3.5 mr-2" /> Monitoring
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => router.push("/profile")} className="cursor-pointer">
+                <KeyRound strokeWidth={1.5} className="w-3.5 h-3.5 mr-2" /> Profile &amp; API Tokens
+              </DropdownMenuItem>
               <div className="border-t border-hairline my-1" />
               <DropdownMenuItem onClick={onLogout} className="text-red-400 cursor-pointer">
                 <LogOut strokeWidth={1.5} className="w-3.5 h-3.5 mr-2" /> Logout
@@ -13,6 +13,7 @@ import {
   Database,
   Edit3,
   Gauge,
+  KeyRound,
   LogOut,
   MoreVertical,
   Pencil,
@@ -48,6 +49,8 @@ interface StudioMobileHeaderProps {
   currentQuery: string;
   queryEditorRef: RefObject<QueryEditorRef | null>;
   transactionActive: boolean;
+  /** The tab and connection the open transaction belongs to; see `QueryToolbar`. */
+  transactionOwner?: { connectionName: string; tabName: string } | null;
   playgroundMode: boolean;
   editingEnabled: boolean;
   onSelectConnection: (conn: DatabaseConnection) => void;
@@ -87,6 +90,7 @@ export function StudioMobileHeader({
   currentQuery,
   queryEditorRef,
   transactionActive,
+  transactionOwner = null,
   playgroundMode,
   editingEnabled,
   onSelectConnection,
@@ -204,6 +208,9 @@ export function StudioMobileHeader({
                 <DropdownMenuItem onClick={() => router.push("/monitoring")} className="cursor-pointer">
                   <Gauge strokeWidth={1.5} className="w-3.5 h-3.5 mr-2" /> Monitoring
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => router.push("/profile")} className="cursor-pointer">
+                  <KeyRound strokeWidth={1.5} className="w-3.5 h-3.5 mr-2" /> Profile &amp; API Tokens
+                </DropdownMenuItem>
                 <div className="border-t border-hairline my-1" />
                 <DropdownMenuItem onClick={onLogout} className="text-red-400 cursor-pointer">
                   <LogOut strokeWidth={1.5} className="w-3.5 h-3.5 mr-2" /> Logout
@@ -323,8 +330,15 @@ export function StudioMobileHeader({
 
             {/* Status badges */}
             {transactionActive && (
-              <span className="text-[0.625rem] font-medium text-amber-400 px-1.5 py-0.5 rounded bg-amber-500/10 border border-amber-500/20">
-                TXN
+              <span
+                className="text-[0.625rem] font-medium text-amber-400 px-1.5 py-0.5 rounded bg-amber-500/10 border border-amber-500/20 max-w-[120px] truncate"
+                title={
+                  transactionOwner
+                    ? `Transaction open on ${transactionOwner.connectionName}, tab "${transactionOwner.tabName}"`
+                    : undefined
+                }
+              >
+                TXN{transactionOwner ? ` · ${transactionOwner.tabName}` : ""}
               </span>
             )}
             {playgroundMode && (
@@ -0,0 +1,53 @@
+"use client";
+
+import { useCallback } from "react";
+import type { DatabaseConnection, QueryParameter } from "@/lib/types";
+import { bindQueryParameters } from "@/lib/sql/parameters";
+import { useToast } from "@/hooks/use-toast";
+import { buildConnectionPayload } from "./use-connection-payload";
+
+interface UseCellRevealParams {
+  activeConnection: DatabaseConnection | null;
+  /** The statement the result came from, as the tab holds it - the one "load more" runs again. */
+  query: string;
+  parameters: readonly QueryParameter[] | undefined;
+}
+
+/**
+ * Asks `POST /api/db/reveal` for one value the server's masking policy masked.
+ *
+ * The statement is bound the way the run was, and the row is the value's index in
+ * the result - the offset the server reads it again at. A refusal is reported here
+ * and answered null, so the grid only has to leave the cell masked.
+ */
+export function useCellReveal({ activeConnection, query, parameters }: UseCellRevealParams) {
+  const { toast } = useToast();
+
+  return useCallback(
+    async (row: number, column: string): Promise<{ value: unknown } | null> => {
+      if (!activeConnection) return null;
+      try {
+        const bound = bindQueryParameters(query, parameters, activeConnection.type);
+        const res = await fetch("/api/db/reveal", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...buildConnectionPayload(activeConnection),
+            sql: bound?.query ?? query,
+            ...(bound && { params: bound.params }),
+            row,
+            column,
+          }),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || "The value could not be revealed");
+        return { value: data.value };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : "Unknown error";
+        toast({ title: "Reveal Failed", description: msg, variant: "destructive" });
+        return null;
+      }
+    },
+    [activeConnection, query, parameters, toast],
+  );
+}
@@ -9,6 +9,7 @@ import {
   SSLMode,
   SSLConfig,
   SSHTunnelConfig,
+  WritePolicy,
 } from "@/lib/types";
 import { getDBConfig } from "@/lib/db-ui-config";
 import { parseConnectionString } from "@/lib/connection-string-parser";
@@ -50,10 +51,12 @@ const FIELD_OWNERSHIP: Record<keyof DatabaseConnection, FieldOwnership> = {
   createdAt: "edited",
   color: "edited",
   environment: "edited",
+  writePolicy: "edited",
   ssl: "edited",
   sshTunnel: "edited",
   serviceName: "edited",
   instanceName: "edited",
+  dataCenter: "edited",
   group: "preserved",
   managed: "preserved",
   seedId: "preserved",
@@ -99,6 +102,7 @@ export function useConnectionForm({ isOpen, onConnect, editConnection, onTestCon
   const [connectionString, setConnectionString] = useState("");
   const [mongoConnectionMode, setMongoConnectionMode] = useState<"host" | "connectionString">("host");
   const [environment, setEnvironment] = useState<ConnectionEnvironment>("local");
+  const [writePolicy, setWritePolicy] = useState<WritePolicy>("read-write");
   const [testResult, setTestResult] = useState<{ success: boolean; message: string; latency?: number } | null>(null);
   const [pasteInput, setPasteInput] = useState("");
   const [showPasteInput, setShowPasteInput] = useState(false);
@@ -110,10 +114,11 @@ export function useConnectionForm({ isOpen, onConnect, editConnection, onTestCon
   const [clientCert, setClientCert] = useState("");
   const [clientKey, setClientKey] = useState("");
 
-  // Advanced (Oracle/MSSQL)
+  // Advanced (Oracle/MSSQL/Cassandra)
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [serviceName, setServiceName] = useState("");
   const [instanceName, setInstanceName] = useState("");
+  const [dataCenter, setDataCenter] = useState("");
 
   // SSH Tunnel
   const [showSSH, setShowSSH] = useState(false);
@@ -140,6 +145,7 @@ export function useConnectionForm({ isOpen, onConnect, editConnection, onTestCon
       setDatabase(editConnection.database || "");
       setConnectionString(editConnection.connectionString || "");
       setEnvironment(editConnection.environment || "local");
+      setWritePolicy(editConnection.writePolicy || "read-write");
       if (editConnection.connectionString) {
         setMongoConnectionMode("connectionString");
       }
@@ -152,6 +158,10 @@ export function useConnectionForm({ isOpen, onConnect, editConnection, onTestCon
         setInstanceName(editConnection.instanceName);
         setShowAdvanced(true);
       }
+      if (editConnection.dataCenter) {
+        setDataCenter(editConnection.dataCenter);
+        setShowAdvanced(true);
+      }
       // SSL
       if (editConnection.ssl) {
         setSSLMode(editConnection.ssl.mode);
@@ -244,6 +254,7 @@ export function useConnectionForm({ isOpen, onConnect, editConnection, onTestCon
       createdAt: editConnection?.createdAt || new Date(),
       environment,
       color: ENVIRONMENT_COLORS[environment],
+      ...(writePolicy !== "read-write" ? { writePolicy } : {}),
       ...(sslConfig ? { ssl: sslConfig } : {}),
       ...(sshConfig ? { sshTunnel: sshConfig } : {}),
       ...(getDBConfig(type).showConnectionStringToggle && mongoConnectionMode === "connectionString"
@@ -257,6 +268,7 @@ export function useConnectionForm({ isOpen, onConnect, editConnection, onTestCon
         : {}),
       ...(type === "oracle" && serviceName ? { serviceName } : {}),
       ...(type === "mssql" && instanceName ? { instanceName } : {}),
+      ...(type === "cassandra" && dataCenter ? { dataCenter } : {}),
     };
   }, [
     sslMode,
@@ -280,10 +292,12 @@ export function useConnectionForm({ isOpen, onConnect, editConnection, onTestCon
     password,
     database,
     environment,
+    writePolicy,
     mongoConnectionMode,
     connectionString,
     serviceName,
     instanceName,
+    dataCenter,
   ]);
 
   const handleTestConnection = useCallback(async () => {
@@ -426,8 +440,11 @@ export function useConnectionForm({ isOpen, onConnect, editConnection, onTestCon
     "couchbase",
     "redis",
     "libredb",
+    "duckdb",
     "clickhouse",
     "druid",
+    "cassandra",
+    "elasticsearch",
   ];
   const dbTypes = selectableTypes.map((t) => {
     const cfg = getDBConfig(t);
@@ -456,6 +473,8 @@ export function useConnectionForm({ isOpen, onConnect, editConnection, onTestCon
     setMongoConnectionMode,
     environment,
     setEnvironment,
+    writePolicy,
+    setWritePolicy,
 
     // UI state
     isTesting,
@@ -479,13 +498,15 @@ export function useConnectionForm({ isOpen, onConnect, editConnection, onTestCon
     clientKey,
     setClientKey,
 
-    // Advanced (Oracle/MSSQL)
+    // Advanced (Oracle/MSSQL/Cassandra)
     showAdvanced,
     setShowAdvanced,
     serviceName,
     setServiceName,
     instanceName,
     setInstanceName,
+    dataCenter,
+    setDataCenter,
 
     // SSH Tunnel
     showSSH,
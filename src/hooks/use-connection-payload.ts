@@ -41,6 +41,8 @@ const CONNECTION_RELEVANCE: Record<keyof DatabaseConnection, FieldRelevance> = {
   group: "cosmetic",
   environment: "cosmetic",
   createdAt: "cosmetic",
+  // What the editor may send, not where it goes: the agent never writes either way.
+  writePolicy: "cosmetic",
   // Both sides of a comparison are already matched on seedId, and `managed` is what
   // selects the comparison rather than a term in it.
   managed: "cosmetic",
@@ -54,6 +56,9 @@ const CONNECTION_RELEVANCE: Record<keyof DatabaseConnection, FieldRelevance> = {
   connectionString: "resolution",
   serviceName: "resolution",
   instanceName: "resolution",
+  // Which data center's nodes the driver routes to, so a different value is a
+  // different client.
+  dataCenter: "resolution",
   // The role a run executes as. A copy that carries its own is a different execution
   // profile even when it points at the same database (#328).
   agentUser: "resolution",
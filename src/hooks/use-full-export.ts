@@ -0,0 +1,126 @@
+"use client";
+
+import { useState, useCallback, useRef, useEffect } from "react";
+import type { DatabaseConnection } from "@/lib/types";
+import { resultExportFileName, type StreamableExportFormat } from "@/lib/export/result-export";
+import { openSaveFile, submitDownloadForm } from "@/lib/export/download";
+import { useToast } from "@/hooks/use-toast";
+import { buildConnectionPayload } from "./use-connection-payload";
+
+/** An export of the whole result while it is being received. */
+export interface FullExportProgress {
+  format: StreamableExportFormat;
+  /** Bytes of the file received so far. The total is unknown until the last one. */
+  bytesReceived: number;
+}
+
+interface UseFullExportParams {
+  activeConnection: DatabaseConnection | null;
+}
+
+interface FullExportRequest {
+  format: StreamableExportFormat;
+  sql: string;
+  tabName: string;
+  params?: unknown[];
+}
+
+/** The user cancelled: dismissed the save dialog, or stopped the export. */
+function isAbort(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * Exports a statement's WHOLE result through `POST /api/db/export`, rather than the
+ * page the grid holds.
+ *
+ * The file goes straight to disk; no part of it is held in the page. Where the browser
+ * has a save dialog, the response body is piped into the file picked there, counting
+ * the bytes as they pass so progress can be shown, and cancelling aborts the request
+ * — the server ends the statement with it — and discards the partial file. Elsewhere
+ * the request is submitted as a form and the browser downloads the response itself,
+ * with its own progress and its own cancel. The file is masked by the server's masking
+ * policy, the way the grid's results are.
+ */
+export function useFullExport({ activeConnection }: UseFullExportParams) {
+  const [progress, setProgress] = useState<FullExportProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  // Unmounting the studio abandons the download rather than leaving it reading.
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const startFullExport = useCallback(
+    async ({ format, sql, tabName, params }: FullExportRequest) => {
+      if (!activeConnection || controllerRef.current) return;
+
+      const payload = {
+        ...buildConnectionPayload(activeConnection),
+        sql,
+        format,
+        tabName,
+        ...(params && { params }),
+      };
+      const fail = (description: string) => toast({ title: "Export Failed", description, variant: "destructive" });
+
+      // Asked first: the save dialog only opens while the click is still the gesture.
+      let file: FileSystemWritableFileStream | null;
+      try {
+        file = await openSaveFile(resultExportFileName(format));
+      } catch (error) {
+        if (!isAbort(error)) fail(error instanceof Error ? error.message : "Unknown error");
+        return;
+      }
+      if (!file) {
+        submitDownloadForm("/api/db/export", payload, fail);
+        return;
+      }
+
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setProgress({ format, bytesReceived: 0 });
+
+      try {
+        const res = await fetch("/api/db/export", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+          signal: controller.signal,
+        });
+
+        if (!res.ok || !res.body) {
+          const data = await res.json().catch(() => ({}));
+          await file.abort();
+          fail(data.error || "Export failed");
+          return;
+        }
+
+        let bytesReceived = 0;
+        const counted = new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, output) {
+            bytesReceived += chunk.byteLength;
+            setProgress({ format, bytesReceived });
+            output.enqueue(chunk);
+          },
+        });
+        // Closes the file when the body ends, and aborts it - dropping what was
+        // written - when the body fails or the export is cancelled.
+        await res.body.pipeThrough(counted).pipeTo(file, { signal: controller.signal });
+      } catch (error) {
+        await file.abort().catch(() => undefined);
+        // Aborting is the user's own doing, not a failure worth reporting.
+        if (!isAbort(error)) fail(error instanceof Error ? error.message : "Unknown error");
+      } finally {
+        controllerRef.current = null;
+        setProgress(null);
+      }
+    },
+    [activeConnection, toast],
+  );
+
+  const cancelFullExport = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { fullExport: progress, startFullExport, cancelFullExport };
+}
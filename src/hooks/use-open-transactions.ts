@@ -0,0 +1,91 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { OpenTransaction } from "@/lib/db/transactions";
+import { toast } from "sonner";
+
+interface UseOpenTransactionsReturn {
+  transactions: OpenTransaction[];
+  loading: boolean;
+  error: string | null;
+  /** When the list was read (epoch ms) — the "now" its ages are measured against. */
+  fetchedAt: number | null;
+  refresh: () => Promise<void>;
+  /** Roll back someone's transaction. Resolves false when it failed or had already ended. */
+  rollback: (id: string) => Promise<boolean>;
+}
+
+async function readOpenTransactions(): Promise<OpenTransaction[]> {
+  const res = await fetch("/api/admin/transactions");
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to load open transactions");
+  return data.transactions ?? [];
+}
+
+/**
+ * Every user's open editor transaction, across all connections, for the admin
+ * Operations tab (`GET /api/admin/transactions`).
+ */
+export function useOpenTransactions(): UseOpenTransactionsReturn {
+  const [transactions, setTransactions] = useState<OpenTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fetchedAt, setFetchedAt] = useState<number | null>(null);
+
+  const apply = useCallback((result: OpenTransaction[] | Error) => {
+    if (result instanceof Error) {
+      setError(result.message);
+    } else {
+      setTransactions(result);
+      setFetchedAt(Date.now());
+      setError(null);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    void readOpenTransactions()
+      .catch((err: unknown) => new Error(err instanceof Error ? err.message : "Failed to load open transactions"))
+      .then((result) => {
+        if (!cancelled) apply(result);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [apply]);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    apply(
+      await readOpenTransactions().catch(
+        (err: unknown) => new Error(err instanceof Error ? err.message : "Failed to load open transactions"),
+      ),
+    );
+  }, [apply]);
+
+  const rollback = useCallback(
+    async (id: string) => {
+      let rolledBack = false;
+      try {
+        const res = await fetch("/api/admin/transactions", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "rollback", id }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Rollback failed");
+        toast.success("Transaction rolled back");
+        rolledBack = true;
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : "Rollback failed");
+      }
+      // Either way the list is stale: it ended, or it had already ended.
+      await refresh();
+      return rolledBack;
+    },
+    [refresh],
+  );
+
+  return { transactions, loading, error, fetchedAt, refresh, rollback };
+}
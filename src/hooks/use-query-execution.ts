@@ -1,13 +1,14 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef, type Dispatch, type SetStateAction, type RefObject } from "react";
-import type { DatabaseConnection, QueryTab } from "@/lib/types";
+import type { DatabaseConnection, QueryParameter, QueryTab } from "@/lib/types";
 import type { ProviderMetadata } from "@/hooks/use-provider-metadata";
 import type { QueryEditorRef } from "@/components/QueryEditor";
 import { useToast } from "@/hooks/use-toast";
 import { storage } from "@/lib/storage";
 import { isDangerousQuery } from "@/components/QuerySafetyDialog";
 import { isMultiStatement } from "@/lib/sql/statement-splitter";
+import { bindQueryParameters, QueryParameterError, type BoundQuery } from "@/lib/sql/parameters";
 import { DEFAULT_QUERY_LIMIT } from "@/lib/db/utils/query-limiter";
 import { shouldRefreshSchema } from "@/lib/query-generators";
 import { ApiErrorCode } from "@/lib/api/error-codes";
@@ -28,6 +29,12 @@ export interface QueryExecutionOptions {
    * #290) carries its values here so that no value can be read as statement text.
    */
   params?: unknown[];
+  /**
+   * Where the previous page ended, for an engine that pages by cursor
+   * (`QueryPagination.pageState`). "Load More" passes it on beside the offset; an
+   * engine that pages by offset never returns one, so never receives one.
+   */
+  pageState?: string;
 }
 
 interface UseQueryExecutionParams {
@@ -37,12 +44,27 @@ interface UseQueryExecutionParams {
   activeTabId: string;
   currentTab: QueryTab;
   setTabs: Dispatch<SetStateAction<QueryTab[]>>;
-  transactionActive: boolean;
+  /**
+   * The tab whose transaction is open, or null. Only that tab's statements run
+   * inside it: the transaction belongs to the tab, not to the studio (see
+   * `use-transaction-control.ts`).
+   */
+  transactionTabId: string | null;
   playgroundMode: boolean;
   fetchSchema: (conn: DatabaseConnection) => Promise<void>;
   queryEditorRef: RefObject<QueryEditorRef | null>;
 }
 
+/**
+ * Keep the values a saved query just ran with on the saved query itself, so loading
+ * it again fills the parameter panel in. A saved query deleted since the tab loaded
+ * it is simply not there to update.
+ */
+function rememberParameters(savedQueryId: string, parameters: QueryParameter[]) {
+  const saved = storage.getSavedQueries().find((q) => q.id === savedQueryId);
+  if (saved) storage.saveQuery({ ...saved, parameters });
+}
+
 /**
  * Why an explain run cannot proceed, phrased for the user. Absent metadata means
  * "not loaded yet", not "unsupported" — blaming the database type there would be
@@ -65,7 +87,7 @@ export function useQueryExecution({
   activeTabId,
   currentTab,
   setTabs,
-  transactionActive,
+  transactionTabId,
   playgroundMode,
   fetchSchema,
   queryEditorRef,
@@ -130,7 +152,7 @@ export function useQueryExecution({
   } | null>(null);
   const [historyKey, setHistoryKey] = useState(0);
   const [bottomPanelMode, setBottomPanelMode] = useState<
-    "results" | "explain" | "history" | "saved" | "charts" | "pivot" | "docs" | "schemadiff" | "dashboard"
+    "results" | "explain" | "history" | "saved" | "charts" | "pivot" | "docs" | "schemadiff" | "datadiff" | "dashboard"
   >("results");
 
   // Capability honesty: if the active provider has no explainFormat (e.g. the
@@ -155,6 +177,7 @@ export function useQueryExecution({
       const activeTabId = activeTabIdRef.current;
       const targetTabId = tabId || activeTabId;
       const tabToExec = tabsRef.current.find((t) => t.id === targetTabId) || currentTabRef.current;
+      const transactionActive = transactionTabId === targetTabId;
 
       // Modern Execution Logic: Prioritize selection from ref, then override, then tab state
       let queryToExecute = overrideQuery;
@@ -186,7 +209,26 @@ export function useQueryExecution({
       }
 
       // Options extraction
-      const { limit = DEFAULT_QUERY_LIMIT, offset = 0, unlimited = false, params } = executionOptions || {};
+      const { limit = DEFAULT_QUERY_LIMIT, offset = 0, unlimited = false, pageState } = executionOptions || {};
+
+      // The editor's own parameters (`:id`, `$1`, `@since`) are bound here, after the
+      // confirmation gate: the gate reads the text the user wrote, and the values
+      // never become text at all. A caller that brings its own `params` built the
+      // statement with the driver's placeholders already (the inline row editor),
+      // so there is nothing left to bind. The text with its placeholders is what
+      // history keeps, beside the values they were bound to.
+      let bound: BoundQuery | null = null;
+      if (!executionOptions?.params) {
+        try {
+          bound = bindQueryParameters(queryToExecute, tabToExec.parameters, activeConnection.type);
+        } catch (error) {
+          if (!(error instanceof QueryParameterError)) throw error;
+          toast({ title: "Parameter Needed", description: error.message, variant: "destructive" });
+          return;
+        }
+      }
+      const statement = bound?.query ?? queryToExecute;
+      const params = executionOptions?.params ?? bound?.params;
 
       // isLoadingMore flag
       const isLoadMore = offset > 0;
@@ -213,7 +255,7 @@ export function useQueryExecution({
       // unguarded (#201).
       const explainSupported = !metadata || metadata.capabilities.supportsExplain;
       const directExplainSql =
-        isExplain && explainSupported ? (explainStrategy?.buildSql(queryToExecute, "analyze") ?? null) : null;
+        isExplain && explainSupported ? (explainStrategy?.buildSql(statement, "analyze") ?? null) : null;
       if (isExplain && !directExplainSql) {
         toast({ ...explainRefusal(metadata, Boolean(explainStrategy)), variant: "destructive" });
         setTabs((prev) =>
@@ -261,7 +303,12 @@ export function useQueryExecution({
           const beginRes = await fetch("/api/db/transaction", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ ...buildConnectionPayload(activeConnection), action: "begin" }),
+            body: JSON.stringify({
+              ...buildConnectionPayload(activeConnection),
+              action: "begin",
+              tabId: targetTabId,
+              tabName: tabToExec.name,
+            }),
           });
           if (!beginRes.ok) {
             logger.warn("Playground transaction BEGIN failed", { route: "use-query-execution" });
@@ -269,7 +316,7 @@ export function useQueryExecution({
         }
 
         // If isExplain mode, run the dialect's EXPLAIN query instead
-        const queryToRun = directExplainSql || queryToExecute;
+        const queryToRun = directExplainSql || statement;
 
         // Detect multi-statement queries (not for EXPLAIN or load-more or transaction)
         //
@@ -294,7 +341,7 @@ export function useQueryExecution({
           !isPlaygroundRun &&
           !params &&
           dialectIsSql &&
-          isMultiStatement(queryToExecute);
+          isMultiStatement(statement);
 
         // Use transaction endpoint if a transaction is active or in playground mode
         const useTransaction = (transactionActive || isPlaygroundRun) && !isExplain;
@@ -315,10 +362,10 @@ export function useQueryExecution({
             // without values must stay a request without a `params` key (#290).
             ...(params && { params }),
             ...(useTransaction
-              ? { action: "query", sql: queryToExecute, options: { limit, offset, unlimited } }
+              ? { action: "query", tabId: targetTabId, sql: statement, options: { limit, offset, unlimited } }
               : {
-                  sql: isExplain ? queryToRun : queryToExecute,
-                  options: isExplain ? {} : { limit, offset, unlimited },
+                  sql: isExplain ? queryToRun : statement,
+                  options: isExplain ? {} : { limit, offset, unlimited, ...(pageState && { pageState }) },
                   ...(!useMultiQuery && { queryId }),
                 }),
           }),
@@ -333,7 +380,7 @@ export function useQueryExecution({
         // its run — would be an unhandled rejection until then.
         let explainPromise: Promise<Response | null> | null = null;
         if (!isExplain && !isLoadMore && explainStrategy) {
-          const explainSql = explainStrategy.buildSql(queryToExecute, "estimate");
+          const explainSql = explainStrategy.buildSql(statement, "estimate");
           if (explainSql) {
             explainPromise = fetch("/api/db/query", {
               method: "POST",
@@ -376,6 +423,15 @@ export function useQueryExecution({
           const errorMessage = error.error || "Query failed";
           const errorCode = error.code as string | undefined;
 
+          // A write this connection only takes through review (`writePolicy: "approval"`).
+          // It did not fail - it was never run - so it is not history: the confirmation
+          // dialog opens on it instead, offering to send it for approval.
+          if (errorCode === ApiErrorCode.WRITE_REFUSED && error.details?.reason === "APPROVAL_REQUIRED") {
+            commitToTab((t) => ({ ...t, isExecuting: false, isLoadingMore: false }));
+            setSafetyCheckQuery(queryToExecute);
+            return;
+          }
+
           storage.addToHistory({
             id: newLocalId(),
             connectionId: activeConnection.id,
@@ -386,6 +442,7 @@ export function useQueryExecution({
             status: "error",
             executedAt: new Date(),
             errorMessage,
+            ...(bound && { parameters: bound.parameters }),
           });
 
           // Handle query cancellation via response code
@@ -415,8 +472,10 @@ export function useQueryExecution({
             errorMessage: resultData.hasError
               ? resultData.statements?.find((s: { status: string }) => s.status === "error")?.error
               : undefined,
+            ...(bound && { parameters: bound.parameters }),
           });
           setHistoryKey((prev) => prev + 1);
+          if (bound && tabToExec.savedQueryId) rememberParameters(tabToExec.savedQueryId, bound.parameters);
         }
 
         // Show multi-statement summary
@@ -501,7 +560,11 @@ export function useQueryExecution({
             await fetch("/api/db/transaction", {
               method: "POST",
               headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ ...buildConnectionPayload(activeConnection), action: "rollback" }),
+              body: JSON.stringify({
+                ...buildConnectionPayload(activeConnection),
+                action: "rollback",
+                tabId: targetTabId,
+              }),
             });
           } catch {
             logger.warn("Playground transaction rollback failed", { route: "use-query-execution" });
@@ -536,7 +599,11 @@ export function useQueryExecution({
             await fetch("/api/db/transaction", {
               method: "POST",
               headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ ...buildConnectionPayload(activeConnection), action: "rollback" }),
+              body: JSON.stringify({
+                ...buildConnectionPayload(activeConnection),
+                action: "rollback",
+                tabId: targetTabId,
+              }),
             });
           } catch {
             logger.warn("Playground transaction rollback failed", { route: "use-query-execution" });
@@ -575,7 +642,7 @@ export function useQueryExecution({
         }
       }
     },
-    [activeConnection, toast, fetchSchema, metadata, transactionActive, playgroundMode, setTabs, queryEditorRef],
+    [activeConnection, toast, fetchSchema, metadata, transactionTabId, playgroundMode, setTabs, queryEditorRef],
   );
 
   // Force execute (bypass safety check) — unified via skipSafety flag
@@ -587,6 +654,53 @@ export function useQueryExecution({
     [executeQuery],
   );
 
+  /**
+   * Send a write to the approval queue instead of running it, for a connection
+   * whose writes need someone else's approval (`POST /api/db/change-requests`).
+   * The editor's parameters are bound here exactly as a run would bind them, so
+   * the reviewer reads the statement that would have been sent.
+   */
+  const requestApproval = useCallback(
+    async (query: string) => {
+      setSafetyCheckQuery(null);
+      if (!activeConnection) return;
+
+      let bound: BoundQuery | null;
+      try {
+        bound = bindQueryParameters(query, currentTabRef.current.parameters, activeConnection.type);
+      } catch (error) {
+        if (!(error instanceof QueryParameterError)) throw error;
+        toast({ title: "Parameter Needed", description: error.message, variant: "destructive" });
+        return;
+      }
+
+      try {
+        const response = await fetch("/api/db/change-requests", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...buildConnectionPayload(activeConnection),
+            sql: bound?.query ?? query,
+            ...(bound && { params: bound.params }),
+          }),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "The change request could not be sent");
+        toast({
+          title: "Sent for Approval",
+          description: "It runs once an admin other than you approves it.",
+        });
+      } catch (error) {
+        toast({
+          title: "Request Failed",
+          description: error instanceof Error ? error.message : "Unknown error",
+          variant: "destructive",
+        });
+      }
+    },
+    [activeConnection, toast],
+  );
+
   /**
    * Run a statement an agent run handed to this editor (#329, §2.1/§2.5 of
    * `docs/AGENT_ANALYST_DESIGN.md`; reshaped by the #373 review).
@@ -724,6 +838,7 @@ export function useQueryExecution({
     executeQuery(currentTab.query, currentTab.id, false, {
       limit: 500,
       offset: currentOffset,
+      pageState: currentTab.result.pagination.pageState,
     });
   }, [currentTab, executeQuery]);
 
@@ -752,6 +867,7 @@ export function useQueryExecution({
   return {
     executeQuery,
     forceExecuteQuery,
+    requestApproval,
     executeHandedOverStatement,
     cancelQuery,
     handleLoadMore,
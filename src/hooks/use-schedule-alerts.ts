@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import type { ScheduleNotification } from "@/lib/scheduler/types";
+
+/** How often the studio asks whether a scheduled query raised an alert. */
+const POLL_MS = 60_000;
+
+/** The most alerts shown at once; the rest are still marked read, and the runs keep them. */
+const MAX_TOASTS = 3;
+
+/**
+ * Shows the alerts scheduled queries raised as toasts, then marks them read so the
+ * next poll — or another tab — does not show them again.
+ *
+ * `enabled` is the studio's server mode: without server storage there is no scheduler
+ * and nothing to ask for.
+ */
+export function useScheduleAlerts(enabled: boolean): void {
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    async function poll() {
+      try {
+        const res = await fetch("/api/schedules/notifications");
+        if (!res.ok || cancelled) return;
+        const { notifications } = (await res.json()) as { notifications: ScheduleNotification[] };
+        const unread = notifications.filter((n) => !n.read);
+        if (unread.length === 0 || cancelled) return;
+
+        for (const notification of unread.slice(0, MAX_TOASTS)) {
+          toast({
+            title: `${notification.queryName}: ${notification.level}`,
+            description: notification.message,
+            variant: "destructive",
+          });
+        }
+        await fetch("/api/schedules/notifications", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ids: unread.map((n) => n.id) }),
+        });
+      } catch {
+        // The next poll tries again; an alert missed now is still unread then.
+      }
+    }
+
+    void poll();
+    const timer = setInterval(poll, POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [enabled, toast]);
+}
@@ -24,6 +24,9 @@ interface PersistedTabState {
   name: string;
   query: string;
   type: QueryTab["type"];
+  // Optional: a workspace written before the parameter panel has neither.
+  parameters?: QueryTab["parameters"];
+  savedQueryId?: string;
 }
 
 interface PersistedWorkspaceState {
@@ -88,6 +91,8 @@ export function useTabManager({ activeConnection, metadata, schema, persistWorks
         type: tab.type,
         result: null,
         isExecuting: false,
+        ...(tab.parameters && { parameters: tab.parameters }),
+        ...(tab.savedQueryId && { savedQueryId: tab.savedQueryId }),
       }));
 
       const hasActiveTab = restoredTabs.some((tab) => tab.id === parsed.activeTabId);
@@ -128,6 +133,8 @@ export function useTabManager({ activeConnection, metadata, schema, persistWorks
           name: tab.name,
           query: tab.query,
           type: tab.type,
+          parameters: tab.parameters,
+          savedQueryId: tab.savedQueryId,
         })),
       };
       storage.setItem(workspaceKey, JSON.stringify(serialized));
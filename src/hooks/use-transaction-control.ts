@@ -1,23 +1,87 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import type { DatabaseConnection } from "@/lib/types";
+import type { OpenTransaction } from "@/lib/db/transactions";
 import { useToast } from "@/hooks/use-toast";
 import { buildConnectionPayload } from "./use-connection-payload";
 
+/** How often an open transaction is checked for having been rolled back server-side. */
+const STATUS_POLL_MS = 60_000;
+
 interface UseTransactionControlParams {
   activeConnection: DatabaseConnection | null;
+  /**
+   * The tab a BEGIN opens the transaction for. The transaction belongs to that tab
+   * (server-side, to this user, this connection and that tab) and only its queries
+   * run inside it; the other tabs keep auto-committing.
+   */
+  currentTab: { id: string; name: string };
 }
 
-export function useTransactionControl({ activeConnection }: UseTransactionControlParams) {
-  const [transactionActive, setTransactionActive] = useState(false);
+export function useTransactionControl({ activeConnection, currentTab }: UseTransactionControlParams) {
+  const [transaction, setTransaction] = useState<OpenTransaction | null>(null);
   const [playgroundMode, setPlaygroundMode] = useState(false);
   const { toast } = useToast();
 
+  const fetchStatus = useCallback(async (): Promise<OpenTransaction[] | null> => {
+    if (!activeConnection) return null;
+    try {
+      const res = await fetch("/api/db/transaction", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...buildConnectionPayload(activeConnection), action: "status" }),
+      });
+      if (!res.ok) return null;
+      const data = await res.json();
+      return Array.isArray(data.transactions) ? data.transactions : [];
+    } catch {
+      return null;
+    }
+  }, [activeConnection]);
+
+  // A reload, or switching back to a connection, must not orphan a transaction this
+  // user still holds there: pick it up so the badge and COMMIT/ROLLBACK reach it.
+  useEffect(() => {
+    let cancelled = false;
+    void fetchStatus().then((open) => {
+      // A BEGIN that landed first is newer than this answer.
+      if (!cancelled && open) setTransaction((current) => current ?? open[0] ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchStatus]);
+
+  // The server rolls back a transaction that sat idle, and an admin can roll one
+  // back from Operations; without this the badge would stay up until the next
+  // statement failed with "No active transaction".
+  const openId = transaction?.id ?? null;
+  useEffect(() => {
+    if (!openId) return;
+    const timer = setInterval(() => {
+      void fetchStatus().then((open) => {
+        if (!open || open.some((t) => t.id === openId)) return;
+        setTransaction(null);
+        toast({
+          title: "Transaction Rolled Back",
+          description: "The transaction was idle too long or was ended by an administrator.",
+          variant: "destructive",
+        });
+      });
+    }, STATUS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [openId, fetchStatus, toast]);
+
   const handleTransaction = useCallback(
     async (action: "begin" | "commit" | "rollback") => {
       if (!activeConnection) return;
 
+      // COMMIT and ROLLBACK end the transaction of the tab that opened it, whichever
+      // tab the button was pressed from.
+      const tab =
+        action === "begin" || !transaction ? currentTab : { id: transaction.tabId, name: transaction.tabName };
+
       try {
         const res = await fetch("/api/db/transaction", {
           method: "POST",
@@ -25,6 +89,8 @@ export function useTransactionControl({ activeConnection }: UseTransactionContro
           body: JSON.stringify({
             ...buildConnectionPayload(activeConnection),
             action,
+            tabId: tab.id,
+            tabName: tab.name,
           }),
         });
 
@@ -35,16 +101,16 @@ export function useTransactionControl({ activeConnection }: UseTransactionContro
         }
 
         if (action === "begin") {
-          setTransactionActive(true);
+          setTransaction(data.transaction ?? null);
           toast({
             title: "Transaction Started",
-            description: "BEGIN — all queries will run in this transaction until you COMMIT or ROLLBACK.",
+            description: `BEGIN — queries in "${tab.name}" will run in this transaction until you COMMIT or ROLLBACK.`,
           });
         } else if (action === "commit") {
-          setTransactionActive(false);
+          setTransaction(null);
           toast({ title: "Transaction Committed", description: "All changes have been saved." });
         } else if (action === "rollback") {
-          setTransactionActive(false);
+          setTransaction(null);
           toast({ title: "Transaction Rolled Back", description: "All changes have been discarded." });
         }
       } catch (error) {
@@ -52,16 +118,17 @@ export function useTransactionControl({ activeConnection }: UseTransactionContro
         toast({ title: "Transaction Error", description: msg, variant: "destructive" });
       }
     },
-    [activeConnection, toast],
+    [activeConnection, currentTab, transaction, toast],
   );
 
   const resetTransactionState = useCallback(() => {
-    setTransactionActive(false);
+    setTransaction(null);
     setPlaygroundMode(false);
   }, []);
 
   return {
-    transactionActive,
+    transaction,
+    transactionActive: transaction !== null,
     playgroundMode,
     setPlaygroundMode,
     handleTransaction,
@@ -22,6 +22,18 @@ export async function register(): Promise<void> {
 
   const { logger } = await import("@/lib/logger");
 
+  // SIEM sinks (AUDIT_SINK_*) before anything that can emit an audit event, so the
+  // first line shipped is the first line written. A sink configured wrongly is
+  // skipped with a warning inside; none configured costs nothing.
+  const { startAuditSinks } = await import("@/lib/audit-sinks/registry");
+  startAuditSinks();
+
+  // The durable audit store, on the same terms: with server storage every event is
+  // written to it as well, chained, and kept for AUDIT_RETENTION_*. A database that
+  // is not up yet is retried by the writer, never waited on here.
+  const { startAuditStore } = await import("@/lib/audit-store/registry");
+  startAuditStore();
+
   // LibreDB sample: programmatic and fast — seeded synchronously as before.
   const { isSampleEnabled, resolveSamplePath, seedSampleFile } = await import("@/lib/seed/libredb-sample");
   if (isSampleEnabled()) {
@@ -38,6 +50,19 @@ export async function register(): Promise<void> {
     }
   }
 
+  // Scheduled queries run only where their saved queries live server-side; with local
+  // storage they are in each user's browser and there is nothing here to run.
+  const { isServerStorageEnabled } = await import("@/lib/storage/factory");
+  if (isServerStorageEnabled()) {
+    const { startQueryScheduler } = await import("@/lib/scheduler/scheduler");
+    startQueryScheduler();
+
+    // An approved change request that was still running when the last process
+    // stopped is settled as failed, never run again. Not waited on, like the audit store.
+    const { recoverChangeRequestsAtBoot } = await import("@/lib/change-requests/recover");
+    void recoverChangeRequestsAtBoot();
+  }
+
   // SQLite sample: a file copy — fire-and-forget so boot never waits on it.
   // The seed state lets GET /api/connections/managed advertise the pending
   // seed, and the client polls until the sample appears (no page refresh).
@@ -0,0 +1,85 @@
+import { getOrCreateProvider } from "@/lib/db";
+import { acquireExecutionProfileProvider } from "@/lib/db/factory";
+import type { DatabaseProvider, ReadOnlyStatementBudget, TransactionHandle } from "@/lib/db/types";
+import { MAX_UNLIMITED_ROWS } from "@/lib/db/utils/query-limiter";
+import { AGENT_EXECUTION_ENGINES } from "@/lib/agent/engine-support";
+import type { DatabaseConnection, QueryResult } from "@/lib/types";
+import { writePolicyOf } from "./write-policy";
+
+/**
+ * What one editor statement may spend under the read-only profile. The ordinary
+ * editor path has no statement timeout, so this one is the 32-bit ceiling
+ * PostgreSQL accepts (the same spelling `AGENT_HANDOVER_BUDGET` argues for), and the
+ * row bound is the most an unlimited run is ever handed. Bytes are capped only so
+ * that one pathological value cannot be serialized unbounded.
+ */
+export const EDITOR_READ_ONLY_BUDGET: ReadOnlyStatementBudget = Object.freeze({
+  statementTimeoutMs: 2_147_483_647,
+  maxResultRows: MAX_UNLIMITED_ROWS,
+  maxResultBytes: 268_435_456,
+});
+
+/** The provider an editor statement is prepared on, and how it is run there. */
+export interface EditorExecution {
+  readonly provider: DatabaseProvider;
+  query(sql: string, params?: unknown[], queryId?: string): Promise<QueryResult>;
+  /**
+   * A transaction on the same path, for a caller that wants its write all or none.
+   * Only on the write path, and only where the engine holds transactions: the
+   * read-only boundary is not something a caller may open its own transaction around.
+   */
+  openTransaction?(): Promise<TransactionHandle>;
+}
+
+/**
+ * The provider to run an editor statement on. A `read-write` connection gets the
+ * shared pool, with cancellation by `queryId` where the engine supports it; any
+ * other policy gets the engine's read-only boundary where there is one. There is no
+ * cancellation on that path: `queryReadOnly` holds no query id to cancel by.
+ *
+ * `approvedWrite` is for a change request an admin approved: on an `approval`
+ * connection that is the one write that may run, so it takes the path a
+ * `read-write` connection's statements take. Every read passes nothing here.
+ *
+ * Kept out of `write-policy.ts`, which `createErrorResponse` imports for its error
+ * class, so that handling an error never loads the provider factory.
+ */
+export async function editorExecution(
+  connection: DatabaseConnection,
+  options: { approvedWrite?: boolean } = {},
+): Promise<EditorExecution> {
+  const takesWrite =
+    writePolicyOf(connection) === "read-write" ||
+    (options.approvedWrite === true && writePolicyOf(connection) === "approval");
+  if (!takesWrite && AGENT_EXECUTION_ENGINES.includes(connection.type)) {
+    const provider = await acquireExecutionProfileProvider(connection, "editor-read-only");
+    const { queryReadOnly } = provider;
+    if (typeof queryReadOnly !== "function") {
+      // The profile refuses a provider without the path, so this is a server fault,
+      // and the one thing it must not do is put the statement on `query()`.
+      throw new Error("editor read-only profile: the acquired provider exposes no read-only execution path");
+    }
+    return {
+      provider,
+      query: (sql, params) => queryReadOnly.call(provider, sql, EDITOR_READ_ONLY_BUDGET, params),
+    };
+  }
+
+  const provider = await getOrCreateProvider(connection);
+  const cancellable = "cancelQuery" in provider;
+  // The arguments go through as the caller gave them: a caller that binds nothing
+  // reaches the provider exactly as it did before there was a write policy.
+  const { openTransaction } = provider;
+  return {
+    provider,
+    ...(openTransaction && { openTransaction: () => openTransaction.call(provider) }),
+    query: (...args) =>
+      cancellable && args[2]
+        ? (
+            provider as unknown as {
+              query(sql: string, params?: unknown[], queryId?: string): ReturnType<typeof provider.query>;
+            }
+          ).query(...args)
+        : provider.query(...(args.slice(0, 2) as [string, unknown[]?])),
+  };
+}
@@ -0,0 +1,75 @@
+import { emitAuditEvent } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { AccessDeniedError, assignedRoles, connectionPermissions, type AccessSubject } from "./grants";
+import { readAccessRoles } from "./store";
+import type { AccessRole, Permission } from "./types";
+
+/**
+ * The custom roles, or none without server storage. A storage failure throws
+ * rather than answering none: with no roles, someone who holds a read-only one
+ * would fall back to the built-in `user` permissions and read-write.
+ */
+export async function loadAccessRoles(): Promise<AccessRole[]> {
+  const provider = await getStorageProvider();
+  return provider ? readAccessRoles(provider) : [];
+}
+
+/** The seed id a request body names, or null when it carries its own connection. */
+export function grantTarget(body: { connectionId?: unknown }): string | null {
+  const { connectionId } = body;
+  return typeof connectionId === "string" && connectionId.startsWith("seed:") ? connectionId.slice(5) : null;
+}
+
+/**
+ * The role names a seed connection's `roles` is matched against: the built-in
+ * role, and for anyone but an admin the custom roles they hold. An admin's are
+ * not read - they change nothing an admin may do - so an admin's request costs
+ * no storage read here.
+ */
+export async function roleNames(subject: AccessSubject): Promise<string[]> {
+  if (subject.role === "admin") return [subject.role];
+  return [subject.role, ...assignedRoles(await loadAccessRoles(), subject).map((role) => role.name)];
+}
+
+/** What `subject` may do on `connection` (a seed id, or null for its own). */
+async function permissionsOn(
+  subject: AccessSubject,
+  connection: string | null,
+): Promise<ReadonlySet<Permission>> {
+  if (subject.role === "admin") return connectionPermissions([], subject, connection);
+  return connectionPermissions(await loadAccessRoles(), subject, connection);
+}
+
+/**
+ * Throw `AccessDeniedError` unless `subject` holds `permission` on `connection`,
+ * and record the refusal; otherwise answer everything it holds there, for a
+ * route that decides more than one thing. `createErrorResponse` turns the error
+ * into a 403.
+ */
+export async function requireGrant(
+  subject: AccessSubject,
+  connection: string | null,
+  permission: Permission,
+  connectionName?: string,
+): Promise<ReadonlySet<Permission>> {
+  const permissions = await permissionsOn(subject, connection);
+  if (permissions.has(permission)) return permissions;
+
+  // Isolated like every other denial's audit line: the refusal is already decided.
+  try {
+    emitAuditEvent({
+      type: "permission_denied",
+      action: permission,
+      target: connection ?? "own connection",
+      ...(connectionName && { connectionName }),
+      user: subject.username,
+      ...(subject.tokenId && { tokenId: subject.tokenId }),
+      result: "failure",
+      reason: "insufficient_role",
+    });
+  } catch (auditError) {
+    logger.error("Failed to record permission_denied audit event", auditError, { route: "access" });
+  }
+  throw new AccessDeniedError(permission, connection);
+}
@@ -0,0 +1,176 @@
+import type { Role } from "@/lib/auth";
+import { pipelineWritesOut, readMongoQuery } from "@/lib/db/utils/mongo-shell";
+import { readsSqlText, resolveSqlGrammar } from "@/lib/sql/grammar";
+import { readOperativeKeyword } from "@/lib/sql/operative-keyword";
+import { splitStatements } from "@/lib/sql/statement-splitter";
+import { findCodeWord } from "@/lib/sql/words";
+import type { DatabaseType } from "@/lib/types";
+import type { AccessRole, Permission } from "./types";
+
+export const PERMISSIONS: readonly Permission[] = [
+  "read",
+  "write",
+  "ddl",
+  "maintenance",
+  "kill_session",
+  "export",
+  "unmask",
+];
+
+/**
+ * What the built-in roles may do on every connection, for someone who holds no
+ * custom role. This is what they could do before custom roles existed: a `user`
+ * runs any statement and exports, and only an `admin` runs maintenance, ends
+ * sessions or exports past the masking settings.
+ */
+const BUILT_IN_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  user: ["read", "write", "ddl", "export"],
+};
+
+/**
+ * The caller's role does not grant what the request needs on its connection.
+ * `connection` is the seed id, or null for a connection the caller brought.
+ */
+export class AccessDeniedError extends Error {
+  constructor(
+    readonly permission: Permission,
+    readonly connection: string | null,
+  ) {
+    super(
+      `Access denied: your role does not grant "${permission}" on ${connection === null ? "connections you add yourself" : `connection "${connection}"`}`,
+    );
+    this.name = "AccessDeniedError";
+  }
+}
+
+/**
+ * Who a permission is decided for: a session, or the owner a scheduled run or an
+ * agent run acts as. `groups` are the OIDC group names the session signed in with.
+ */
+export interface AccessSubject {
+  role: string;
+  username: string;
+  groups?: string[];
+  /** Set when the session is a personal API token's; recorded on the refusals made for it. */
+  tokenId?: string;
+}
+
+/** The custom roles `session` holds: by its login name, or by an OIDC group it signed in with. */
+export function assignedRoles(roles: AccessRole[], session: AccessSubject): AccessRole[] {
+  const username = session.username.toLowerCase();
+  const groups = new Set((session.groups ?? []).map((g) => g.toLowerCase()));
+  return roles.filter(
+    (role) =>
+      role.members.some((m) => m.toLowerCase() === username) ||
+      groups.has(role.name.toLowerCase()) ||
+      role.groups.some((g) => groups.has(g.toLowerCase())),
+  );
+}
+
+/**
+ * What `session` may do on `connection` - a seed id, or null for one the caller
+ * brought in the request body, which only a `*` grant reaches.
+ *
+ * An admin may do everything, custom roles or not: an admin edits the roles, so
+ * any narrower answer would be one edit away. Anyone else with no custom role
+ * keeps the built-in `user` permissions. Someone with custom roles has exactly
+ * what their grants add up to on this connection - the built-in set is not added
+ * to it, or a read-only role would read-write.
+ */
+export function connectionPermissions(
+  roles: AccessRole[],
+  session: AccessSubject,
+  connection: string | null,
+): ReadonlySet<Permission> {
+  if (session.role === "admin") return new Set(PERMISSIONS);
+  const held = assignedRoles(roles, session);
+  if (held.length === 0) return new Set(BUILT_IN_PERMISSIONS.user);
+  return new Set(
+    held.flatMap((role) =>
+      role.grants.filter((g) => g.connection === "*" || g.connection === connection).flatMap((g) => g.permissions),
+    ),
+  );
+}
+
+/**
+ * Keywords that lead a statement that only reads. PRAGMA is not one of them: in
+ * SQLite the same keyword reads a setting or changes it.
+ */
+const READ_KEYWORDS: ReadonlySet<string> = new Set([
+  "SELECT",
+  "SHOW",
+  "DESCRIBE",
+  "DESC",
+  "EXPLAIN",
+  "VALUES",
+  "TABLE",
+]);
+
+const DDL_KEYWORDS: ReadonlySet<string> = new Set([
+  "CREATE",
+  "ALTER",
+  "DROP",
+  "TRUNCATE",
+  "RENAME",
+  "COMMENT",
+  "GRANT",
+  "REVOKE",
+]);
+
+/**
+ * Words that make a read-led statement write: a data-modifying CTE, the statement
+ * behind an `EXPLAIN ANALYZE`, `SELECT … INTO` and `SELECT … FOR UPDATE`. Some of
+ * these only lock, or only describe a write without running it - those are
+ * refused to a read-only grant too, which is the direction to be wrong in.
+ */
+const WRITING_WORDS = ["INSERT", "UPDATE", "DELETE", "MERGE", "INTO"];
+
+/** MongoDB operations that only read - an aggregate too, unless it ends in `$out` or `$merge`. */
+const MONGO_READS: ReadonlySet<string> = new Set(["find", "findOne", "aggregate", "count", "distinct", "listIndexes"]);
+
+/** MongoDB operations that change indexes or collections rather than documents: SQL's CREATE, DROP and RENAME. */
+const MONGO_DDL: ReadonlySet<string> = new Set(["createIndex", "dropIndex", "createCollection", "renameCollection"]);
+
+const RANK: Record<"read" | "write" | "ddl", number> = { read: 0, write: 1, ddl: 2 };
+
+function sqlStatementPermission(sql: string, type: DatabaseType | undefined): "read" | "write" | "ddl" {
+  const grammar = resolveSqlGrammar(type);
+  const keyword = readOperativeKeyword(sql, grammar)?.keyword;
+  if (keyword === undefined) return "read";
+  if (DDL_KEYWORDS.has(keyword)) return "ddl";
+  if (!READ_KEYWORDS.has(keyword)) return "write";
+  return WRITING_WORDS.some((word) => findCodeWord(sql, word, 0, grammar) !== null) ? "write" : "read";
+}
+
+function mongoPermission(query: string): "read" | "write" | "ddl" {
+  // Shell syntax is read by the provider's own parser, so `db.users.deleteMany({})`
+  // is judged as the envelope it will run as. Text neither syntax reads is "read":
+  // the provider parses the same text the same way and refuses it, and reading it
+  // as a write would only turn its parse error into an access error.
+  const parsed = readMongoQuery(query);
+  if (!parsed) return "read";
+  if (MONGO_DDL.has(parsed.operation)) return "ddl";
+  if (!MONGO_READS.has(parsed.operation)) return "write";
+  return pipelineWritesOut(parsed.pipeline) ? "write" : "read";
+}
+
+/**
+ * The permission running `query` on a connection of `type` needs: `read`, `write`
+ * or `ddl`, the most any of its statements needs.
+ *
+ * This reads the statement text, the way the editor's confirmation does, so it
+ * is what the statement SAYS rather than what the engine will do: a function
+ * with side effects called from a SELECT reads as a read. A read-only grant
+ * stops the statements a person types to change something, and a database login
+ * with read-only rights is still what makes a connection read-only. Any text
+ * that is neither SQL nor a MongoDB query is taken for a write, since there
+ * is no reader here for a Redis or LibreDB command.
+ */
+export function statementPermission(query: string, type?: DatabaseType): "read" | "write" | "ddl" {
+  if (type === "mongodb") return mongoPermission(query);
+  if (!readsSqlText(type) || type === "libredb") return "write";
+  return splitStatements(query)
+    .map((statement) => sqlStatementPermission(statement.sql, type))
+    .reduce<"read" | "write" | "ddl">((most, next) => (RANK[next] > RANK[most] ? next : most), "read");
+}
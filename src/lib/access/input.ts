@@ -0,0 +1,74 @@
+import { PERMISSIONS } from "./grants";
+import { ROLE_NAME, type AccessRole, type ConnectionGrant, type Permission } from "./types";
+
+/** A role the browser sent that cannot be saved; the message says which field and why. */
+export class AccessRoleInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AccessRoleInputError";
+  }
+}
+
+/** The built-in roles, which a custom role may not be named after. */
+const RESERVED_NAMES: ReadonlySet<string> = new Set(["admin", "user", "*"]);
+
+/** What an admin sends to `POST /api/admin/access-roles`: a role, without who saved it when. */
+export type AccessRoleInput = Omit<AccessRole, "updatedAt" | "updatedBy">;
+
+/** A list of non-empty strings, trimmed and without repeats; `field` names it in the error. */
+function readNames(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new AccessRoleInputError(`${field} must be a list of strings`);
+  }
+  return [...new Set((value as string[]).map((v) => v.trim()).filter((v) => v !== ""))];
+}
+
+function readGrant(value: unknown): ConnectionGrant {
+  if (typeof value !== "object" || value === null) throw new AccessRoleInputError("Each grant must be an object");
+  const { connection, permissions } = value as Record<string, unknown>;
+  if (typeof connection !== "string" || connection.trim() === "") {
+    throw new AccessRoleInputError("Each grant needs a connection");
+  }
+  const named = readNames(permissions, `${connection}: permissions`);
+  const unknown = named.find((p) => !PERMISSIONS.includes(p as Permission));
+  if (unknown !== undefined) {
+    throw new AccessRoleInputError(`${connection}: "${unknown}" is not one of ${PERMISSIONS.join(", ")}`);
+  }
+  // `read` is in every grant (see `Permission`), and stored so: what a grant holds
+  // is then what it allows, with nothing implied.
+  return {
+    connection: connection.trim(),
+    permissions: PERMISSIONS.filter((p) => p === "read" || named.includes(p)),
+  };
+}
+
+/** The role in a request body, checked field by field. */
+export function readAccessRoleInput(body: unknown): AccessRoleInput {
+  if (typeof body !== "object" || body === null) throw new AccessRoleInputError("Expected a role");
+  const { name, description, members, groups, grants } = body as Record<string, unknown>;
+
+  if (typeof name !== "string" || !ROLE_NAME.test(name.trim())) {
+    throw new AccessRoleInputError("name must be 1-64 lower-case letters, digits, - or _");
+  }
+  if (RESERVED_NAMES.has(name.trim())) throw new AccessRoleInputError(`${name.trim()} is a built-in role`);
+  if (description !== undefined && description !== null && typeof description !== "string") {
+    throw new AccessRoleInputError("description must be a string");
+  }
+  if (!Array.isArray(grants)) throw new AccessRoleInputError("grants must be a list");
+
+  const read = grants.map(readGrant);
+  const seen = new Set<string>();
+  for (const grant of read) {
+    if (seen.has(grant.connection)) throw new AccessRoleInputError(`${grant.connection} is granted twice`);
+    seen.add(grant.connection);
+  }
+
+  return {
+    name: name.trim(),
+    ...(typeof description === "string" && description.trim() !== "" && { description: description.trim() }),
+    members: readNames(members, "members"),
+    groups: readNames(groups, "groups"),
+    grants: read,
+  };
+}
@@ -0,0 +1,31 @@
+import type { ServerStorageProvider } from "@/lib/storage/types";
+import type { AccessRole } from "./types";
+
+/**
+ * The storage row the custom roles are kept under. They belong to the deployment
+ * rather than to any user, and `access_roles` is server-only, so no session can
+ * read or write it through `/api/storage` whatever its username is.
+ */
+export const ACCESS_ROLES_OWNER = "libredb:access-roles";
+
+export async function readAccessRoles(provider: ServerStorageProvider): Promise<AccessRole[]> {
+  return (await provider.getCollection(ACCESS_ROLES_OWNER, "access_roles")) ?? [];
+}
+
+/**
+ * Replace the roles with what `update` makes of them, in one storage transaction
+ * (`ServerStorageProvider.updateCollection`): two admins saving different roles at
+ * once each write the whole list back, and may do it through different replicas.
+ */
+export async function updateAccessRoles<T>(
+  provider: ServerStorageProvider,
+  update: (current: AccessRole[]) => { roles: AccessRole[]; result: T },
+): Promise<T> {
+  let result!: T;
+  await provider.updateCollection(ACCESS_ROLES_OWNER, "access_roles", (current) => {
+    const next = update(current ?? []);
+    result = next.result;
+    return next.roles;
+  });
+  return result;
+}
@@ -0,0 +1,51 @@
+/**
+ * What a grant can allow on a connection. `read` is in every grant - a grant names
+ * a connection its role works on, and working on one starts with reading it - so a
+ * read-only grant is one with nothing else.
+ *
+ * - `write` - statements that change rows: INSERT, UPDATE, DELETE, MERGE, an import.
+ * - `ddl` - statements that change the schema, and applying a migration.
+ * - `maintenance` - the DBA tools: analyze, vacuum, reindex and the like.
+ * - `kill_session` - ending another session from the monitoring dashboard.
+ * - `export` - streaming a whole result to a file.
+ * - `unmask` - revealing a value the masking policy masked, and exporting or
+ *   comparing without it; every one is a `data_unmasked` audit event.
+ */
+export type Permission = "read" | "write" | "ddl" | "maintenance" | "kill_session" | "export" | "unmask";
+
+/**
+ * What a custom role may be called. It is also what a seed connection's `roles`
+ * names, so it stays a plain identifier that reads the same in YAML and in a URL.
+ */
+export const ROLE_NAME = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+/** What one role may do on one connection. */
+export interface ConnectionGrant {
+  /** A seed connection's id (`prod-db`, not `seed:prod-db`), or `*` for every connection. */
+  connection: string;
+  permissions: Permission[];
+}
+
+/**
+ * A role an admin defines beyond the built-in `admin` and `user`. Someone holds it
+ * when their login is among `members`, or when they signed in through OIDC with
+ * a value of `OIDC_ROLE_CLAIM` that is one of `groups` or the role's own name.
+ */
+export interface AccessRole {
+  /** Lower-case letters, digits, `-` and `_`: it is also what a seed connection's `roles` names. */
+  name: string;
+  description?: string;
+  /** Login names, as `session.username` carries them. */
+  members: string[];
+  /** OIDC role-claim values that confer the role, compared case-insensitively. */
+  groups: string[];
+  grants: ConnectionGrant[];
+  updatedAt: string;
+  updatedBy: string;
+}
+
+/** A seed connection as the role editor offers it. */
+export interface GrantableConnection {
+  seedId: string;
+  name: string;
+}
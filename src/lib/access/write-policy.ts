@@ -0,0 +1,82 @@
+/**
+ * A connection's write policy on the editor path.
+ *
+ * A grant says what a PERSON may do; this says what a CONNECTION accepts from anyone,
+ * admins included, which is the question a `production` tag was being asked to answer
+ * with nothing but a confirmation dialog behind it. Two halves, because the text of a
+ * statement is not where a write lives:
+ *
+ *  - **Refusal.** A request whose permission changes the database (`write`, `ddl`,
+ *    `maintenance`, `kill_session`) is refused before a provider is reached, with
+ *    `WriteRefusedError`, on every route that would send it.
+ *  - **The engine's own boundary.** What passes as a read runs on the profiled
+ *    provider the agent uses (`editorExecution` in `editor-execution.ts`): `BEGIN READ ONLY`
+ *    on PostgreSQL, `PRAGMA query_only` on SQLite. `SELECT nextval('s')` reads as a
+ *    read and writes, and the engine refuses it there. The other engines have no such
+ *    boundary, so on them the refusal is all there is, and the docs say so.
+ *
+ * A connection the caller brought carries its own policy in the request, so for
+ * those this is a guard against the caller's own mistakes; a seed connection's comes
+ * from the admin's config, and that is the one a user cannot take off.
+ */
+
+import { emitAuditEvent } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import type { DatabaseConnection, WritePolicy } from "@/lib/types";
+import type { AccessSubject } from "./grants";
+import type { Permission } from "./types";
+
+/** Why a write was refused. `approval` refuses until a reviewer has approved the write. */
+export type WriteRefusalCode = "READ_ONLY_CONNECTION" | "APPROVAL_REQUIRED";
+
+export class WriteRefusedError extends Error {
+  constructor(
+    readonly reasonCode: WriteRefusalCode,
+    readonly connectionName: string,
+  ) {
+    super(
+      reasonCode === "READ_ONLY_CONNECTION"
+        ? `Write refused: connection "${connectionName}" is read-only`
+        : `Write refused: writes on connection "${connectionName}" require approval from another user`,
+    );
+    this.name = "WriteRefusedError";
+  }
+}
+
+const WRITING_PERMISSIONS: ReadonlySet<Permission> = new Set(["write", "ddl", "maintenance", "kill_session"]);
+
+export function writePolicyOf(connection: DatabaseConnection): WritePolicy {
+  return connection.writePolicy ?? "read-write";
+}
+
+/**
+ * Throw `WriteRefusedError` when `permission` changes the database and
+ * `connection` does not accept writes, and record the refusal like a missing
+ * grant. `createErrorResponse` turns the error into a 403.
+ */
+export function enforceWritePolicy(
+  subject: AccessSubject,
+  connection: DatabaseConnection,
+  permission: Permission,
+): void {
+  const policy = writePolicyOf(connection);
+  if (policy === "read-write" || !WRITING_PERMISSIONS.has(permission)) return;
+
+  const reasonCode = policy === "read-only" ? "READ_ONLY_CONNECTION" : "APPROVAL_REQUIRED";
+  // Isolated like every other denial's audit line: the refusal is already decided.
+  try {
+    emitAuditEvent({
+      type: "permission_denied",
+      action: permission,
+      target: connection.seedId ?? "own connection",
+      connectionName: connection.name,
+      user: subject.username,
+      ...(subject.tokenId && { tokenId: subject.tokenId }),
+      result: "failure",
+      reason: reasonCode === "READ_ONLY_CONNECTION" ? "read_only_connection" : "approval_required",
+    });
+  } catch (auditError) {
+    logger.error("Failed to record permission_denied audit event", auditError, { route: "access" });
+  }
+  throw new WriteRefusedError(reasonCode, connection.name);
+}
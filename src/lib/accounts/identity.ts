@@ -0,0 +1,59 @@
+import type { Role } from "@/lib/auth";
+import { getAuthUsers } from "@/lib/local-auth";
+import type { ServerStorageProvider } from "@/lib/storage/types";
+import { readAccount } from "./store";
+import type { DirectorySignIn } from "./types";
+
+/**
+ * How long a directory sign-in speaks for its user. Someone the directory has
+ * dropped never signs in again, and past this their schedules and tokens stop
+ * rather than running on as whoever they last were.
+ */
+const DIRECTORY_SIGN_IN_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Who a user is now: the role and custom-role groups a session of theirs would carry. */
+export interface CurrentIdentity {
+  role: Role;
+  groups?: string[];
+}
+
+/** Note an OIDC or LDAP sign-in, with the role and groups it was given. */
+export async function recordDirectorySignIn(
+  provider: ServerStorageProvider,
+  username: string,
+  signIn: Omit<DirectorySignIn, "signedInAt">,
+  now = new Date(),
+): Promise<void> {
+  await provider.setCollection(username, "directory_sign_in", { ...signIn, signedInAt: now.toISOString() });
+}
+
+function envRole(username: string): Role | null {
+  try {
+    return getAuthUsers().find((user) => user.email === username)?.role ?? null;
+  } catch {
+    // No admin password configured: no env account can sign in, so none speaks for anyone.
+    return null;
+  }
+}
+
+/**
+ * Who `username` is now, for work done on their behalf with no session at hand, or
+ * null when nothing vouches for them any more. Read the way the login route reads
+ * a login: an env account, then a stored account - null once it is disabled - then
+ * the user's last directory sign-in, while it is recent enough to speak for them.
+ */
+export async function currentIdentity(
+  provider: ServerStorageProvider,
+  username: string,
+  now = new Date(),
+): Promise<CurrentIdentity | null> {
+  const role = envRole(username);
+  if (role) return { role };
+
+  const account = await readAccount(provider, username);
+  if (account) return account.disabled ? null : { role: account.role };
+
+  const signIn = await provider.getCollection(username, "directory_sign_in");
+  if (!signIn || now.getTime() - Date.parse(signIn.signedInAt) > DIRECTORY_SIGN_IN_MAX_AGE_MS) return null;
+  return { role: signIn.role, ...(signIn.groups && { groups: signIn.groups }) };
+}
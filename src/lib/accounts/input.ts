@@ -0,0 +1,54 @@
+import type { Role } from "@/lib/auth";
+
+/** An account change the browser sent that cannot be made; the message says which field and why. */
+export class AccountInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AccountInputError";
+  }
+}
+
+/** The shortest password an account may set. Here rather than in `./password.ts`, which the setup page cannot import. */
+export const MIN_PASSWORD_LENGTH = 12;
+
+const ACCOUNT_ACTIONS = ["invite", "reset", "disable", "enable", "role"] as const;
+
+export type AccountAction = (typeof ACCOUNT_ACTIONS)[number];
+
+/** What an admin sends to `POST /api/admin/users`. `role` is required by `invite` and `role`. */
+export interface AccountActionInput {
+  action: AccountAction;
+  email: string;
+  role?: Role;
+}
+
+/** The form an email is stored and looked up in: `" Alice@Example.com "` is `alice@example.com`. */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function readRole(value: unknown): Role {
+  if (value !== "admin" && value !== "user") throw new AccountInputError('role must be "admin" or "user"');
+  return value;
+}
+
+export function readAccountAction(body: unknown): AccountActionInput {
+  if (!body || typeof body !== "object") throw new AccountInputError("Request body must be an object");
+  const { action, email, role } = body as Record<string, unknown>;
+
+  if (!ACCOUNT_ACTIONS.includes(action as AccountAction)) {
+    throw new AccountInputError(`action must be one of ${ACCOUNT_ACTIONS.join(", ")}`);
+  }
+  if (typeof email !== "string") throw new AccountInputError("email is required");
+  const normalized = normalizeEmail(email);
+  if (normalized.length > 254 || !/^[^\s@]+@[^\s@]+$/.test(normalized)) {
+    throw new AccountInputError("email is not an email address");
+  }
+
+  const needsRole = action === "invite" || action === "role";
+  return {
+    action: action as AccountAction,
+    email: normalized,
+    ...(needsRole && { role: readRole(role) }),
+  };
+}
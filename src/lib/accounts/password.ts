@@ -0,0 +1,68 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "node:crypto";
+import { MIN_PASSWORD_LENGTH } from "./input";
+
+/** Longer passwords are refused rather than hashed: scrypt's cost grows with its input. */
+const MAX_PASSWORD_LENGTH = 1024;
+
+const KEY_LENGTH = 64;
+
+/** scrypt's defaults (N=2^14, r=8, p=1): about 16 MB and a few tens of milliseconds per hash. */
+const COST = { N: 16384, r: 8, p: 1 };
+
+function derive(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { ...options, maxmem: 64 * 1024 * 1024 }, (error, key) =>
+      error ? reject(error) : resolve(key),
+    );
+  });
+}
+
+/** Why a password cannot be set, or null when it can. */
+export function passwordProblem(password: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  if (password.length > MAX_PASSWORD_LENGTH) return `Password must be at most ${MAX_PASSWORD_LENGTH} characters`;
+  return null;
+}
+
+/**
+ * `scrypt$N$r$p$salt$key`, salt and key in base64. The parameters travel with the
+ * hash so a later change of COST still verifies every password set before it.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await derive(password, salt, COST);
+  return ["scrypt", COST.N, COST.r, COST.p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+// A hash of nothing anyone knows, made once per process, that an unknown email is
+// verified against - the scrypt counterpart of DUMMY_PASSWORD in the login route.
+let dummyHash: Promise<string> | null = null;
+
+let verifications = 0;
+
+/**
+ * Test seam: how many password hashes this process has verified - the counterpart
+ * of `comparisonCount()` in `@/lib/auth-compare`, for the same reason and read the
+ * same way, as a before/after delta.
+ */
+export function verificationCount(): number {
+  return verifications;
+}
+
+/**
+ * Whether `password` is the one `hash` was made from. A null hash - no such
+ * account, or one without a password yet - is verified against the dummy hash
+ * and answers false, so every call costs one scrypt whatever the account.
+ */
+export async function verifyPassword(password: string, hash: string | null): Promise<boolean> {
+  verifications += 1;
+  dummyHash ??= hashPassword(randomBytes(32).toString("base64"));
+  const stored = hash ?? (await dummyHash);
+  const [scheme, N, r, p, salt, key] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !key || password.length > MAX_PASSWORD_LENGTH) return false;
+
+  const expected = Buffer.from(key, "base64");
+  if (expected.length !== KEY_LENGTH) return false;
+  const actual = await derive(password, Buffer.from(salt, "base64"), { N: Number(N), r: Number(r), p: Number(p) });
+  return timingSafeEqual(actual, expected) && hash !== null;
+}
@@ -0,0 +1,103 @@
+import type { UserPayload } from "@/lib/auth";
+import { getAuthUsers } from "@/lib/local-auth";
+import { logger } from "@/lib/logger";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { normalizeEmail } from "./input";
+import { recordDirectorySignIn } from "./identity";
+import { verifyPassword } from "./password";
+import { readAccount, updateAccount } from "./store";
+import type { DirectorySignIn, LocalAccount } from "./types";
+
+/**
+ * The stored account `email` and `password` sign in to, or null. Without server
+ * storage there are no stored accounts and nothing is verified - that is the same
+ * for every email, so it says nothing about any of them. With it, exactly one
+ * password hash is verified whatever the email: against the account's, or the
+ * dummy one when there is no account, it has no password yet or it is disabled.
+ *
+ * A storage failure answers null rather than throwing: the env accounts must still
+ * sign in while the store is down, or an outage would lock out the admin who has
+ * to fix it. The failure is the store's, not the email's, so it leaks nothing.
+ */
+export async function authenticateAccount(email: string, password: string): Promise<LocalAccount | null> {
+  let account: LocalAccount | null;
+  try {
+    const provider = await getStorageProvider();
+    if (!provider) return null;
+    account = await readAccount(provider, normalizeEmail(email));
+  } catch (error) {
+    logger.error("Could not read stored accounts; only env accounts can sign in", error, { route: "auth" });
+    return null;
+  }
+
+  const usable = account && !account.disabled ? account : null;
+  const matches = await verifyPassword(password, usable?.passwordHash ?? null);
+  return matches ? usable : null;
+}
+
+/** Note the sign-in on the account. Best effort: the session already exists. */
+export async function recordAccountLogin(email: string): Promise<void> {
+  const provider = await getStorageProvider();
+  if (!provider) return;
+  await updateAccount(provider, email, (current) => {
+    if (!current) throw new Error("Account vanished during login");
+    return { ...current, lastLoginAt: new Date().toISOString() };
+  });
+}
+
+/**
+ * Note an OIDC or LDAP sign-in, so the user's schedules and API tokens act with the
+ * role and groups they signed in with. Best effort like `recordAccountLogin`: the
+ * session already exists, and without the note those only stop sooner.
+ */
+export async function recordDirectoryLogin(
+  username: string,
+  signIn: Omit<DirectorySignIn, "signedInAt">,
+): Promise<void> {
+  const provider = await getStorageProvider();
+  if (!provider) return;
+  await recordDirectorySignIn(provider, username, signIn);
+}
+
+/**
+ * Whether `username` names an env account or a stored one, in any case: a name a
+ * directory sign-in must not take, or the directory would decide who that account
+ * is. A storage failure answers true, so the directory user is refused until the
+ * store answers rather than signed in under what may be someone's account.
+ */
+export async function isAccountName(username: string): Promise<boolean> {
+  const name = normalizeEmail(username);
+  try {
+    if (getAuthUsers().some((user) => normalizeEmail(user.email) === name)) return true;
+  } catch {
+    // No admin password configured: there are no env accounts to collide with.
+  }
+  try {
+    const provider = await getStorageProvider();
+    return provider ? (await readAccount(provider, name)) !== null : false;
+  } catch (error) {
+    logger.error("Could not read stored accounts; refusing the directory sign-in", error, { route: "auth" });
+    return true;
+  }
+}
+
+/**
+ * Whether a stored account's session still stands: the account exists, is
+ * enabled, and nothing revoked its sessions after this one was issued. One
+ * primary-key read per request, and never a throw - `getSession()` promises its
+ * callers it cannot throw, so a storage failure refuses the session instead.
+ */
+export async function isAccountSessionCurrent(session: UserPayload): Promise<boolean> {
+  try {
+    const provider = await getStorageProvider();
+    if (!provider) return false;
+    const account = await readAccount(provider, session.username);
+    if (!account || account.disabled) return false;
+    // `iat` is whole seconds, so the comparison is too: a session issued in the same
+    // second as a revocation survives it rather than one issued just after failing.
+    return (session.iat ?? 0) >= Math.floor(Date.parse(account.sessionsValidFrom) / 1000);
+  } catch (error) {
+    logger.error("Could not check an account session; refusing it", error, { route: "auth" });
+    return false;
+  }
+}
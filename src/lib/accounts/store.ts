@@ -0,0 +1,103 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { ServerStorageProvider } from "@/lib/storage/types";
+import type { AccountSetup, AccountSetupPurpose, AccountStatus, AccountSummary, LocalAccount } from "./types";
+
+/** How long a setup link works: an invite waits for someone to read their mail, a reset should not. */
+const SETUP_TTL_MS: Record<AccountSetupPurpose, number> = {
+  invite: 7 * 24 * 60 * 60 * 1000,
+  reset: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * An account change that conflicts with what is stored - no such account, or one
+ * already there. `status` is the HTTP answer the admin route gives it.
+ */
+export class AccountStateError extends Error {
+  constructor(
+    message: string,
+    readonly status: 404 | 409,
+  ) {
+    super(message);
+    this.name = "AccountStateError";
+  }
+}
+
+export function readAccount(provider: ServerStorageProvider, email: string): Promise<LocalAccount | null> {
+  return provider.getCollection(email, "local_account");
+}
+
+export async function listAccounts(provider: ServerStorageProvider): Promise<LocalAccount[]> {
+  return (await provider.listCollection("local_account")).map(({ data }) => data);
+}
+
+/**
+ * Replace `email`'s account with what `update` makes of the stored one (null when
+ * there is none), in one storage transaction (`ServerStorageProvider.updateCollection`).
+ * An admin's reset and the user's own setup can land together, and each reads the
+ * account and writes it back whole. `update` throws `AccountStateError` to refuse.
+ */
+export async function updateAccount(
+  provider: ServerStorageProvider,
+  email: string,
+  update: (current: LocalAccount | null) => LocalAccount,
+): Promise<LocalAccount> {
+  let account!: LocalAccount;
+  await provider.updateCollection(email, "local_account", (current) => {
+    account = update(current);
+    return account;
+  });
+  return account;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token, "utf8").digest("hex");
+}
+
+/** A fresh setup link's token, shown once, and what the account keeps of it. */
+export function issueSetup(purpose: AccountSetupPurpose, now = new Date()): { token: string; setup: AccountSetup } {
+  const token = randomBytes(32).toString("base64url");
+  return {
+    token,
+    setup: {
+      tokenHash: hashToken(token),
+      purpose,
+      expiresAt: new Date(now.getTime() + SETUP_TTL_MS[purpose]).toISOString(),
+    },
+  };
+}
+
+/**
+ * The account a setup token was issued to, while it is unexpired and the account
+ * is enabled. A scan: accounts are counted in dozens, and the token carries
+ * nothing that would name its account to whoever holds the link.
+ */
+export async function findAccountBySetupToken(
+  provider: ServerStorageProvider,
+  token: string,
+  now = new Date(),
+): Promise<LocalAccount | null> {
+  if (!token) return null;
+  const tokenHash = hashToken(token);
+  const account = (await listAccounts(provider)).find((a) => a.setup?.tokenHash === tokenHash);
+  if (!account?.setup || account.disabled || Date.parse(account.setup.expiresAt) <= now.getTime()) return null;
+  return account;
+}
+
+export function accountStatus(account: LocalAccount): AccountStatus {
+  if (account.disabled) return "disabled";
+  if (account.passwordHash) return "active";
+  return account.setup?.purpose === "reset" ? "reset_pending" : "invited";
+}
+
+export function summarizeAccount(account: LocalAccount): AccountSummary {
+  return {
+    email: account.email,
+    role: account.role,
+    status: accountStatus(account),
+    source: "stored",
+    createdAt: account.createdAt,
+    createdBy: account.createdBy,
+    ...(account.lastLoginAt && { lastLoginAt: account.lastLoginAt }),
+    ...(account.setup && !account.disabled && { setupExpiresAt: account.setup.expiresAt }),
+  };
+}
@@ -0,0 +1,74 @@
+import type { Role } from "@/lib/auth";
+
+/** Why a setup link was issued: a first password, or a replacement for a forgotten one. */
+export type AccountSetupPurpose = "invite" | "reset";
+
+/**
+ * A pending setup link. Only the SHA-256 of the token is kept: the token itself
+ * is shown once, to the admin who asked for it, and anyone who can read the
+ * store must not be able to use a link from it.
+ */
+export interface AccountSetup {
+  tokenHash: string;
+  purpose: AccountSetupPurpose;
+  expiresAt: string;
+}
+
+/**
+ * A login kept in server storage (`ServerOnlyData` in `@/lib/storage/types`),
+ * under its normalized email. The env accounts of `local-auth.ts` are not among
+ * them and cannot be - an invite for one of their emails is refused, so a login
+ * always has exactly one source.
+ */
+export interface LocalAccount {
+  /** Trimmed and lower-cased; also the user id its storage rows are kept under. */
+  email: string;
+  role: Role;
+  /** `scrypt$...` (`./password.ts`); null until the invite is accepted, and again after a reset. */
+  passwordHash: string | null;
+  setup: AccountSetup | null;
+  disabled: boolean;
+  /**
+   * Sessions issued before this instant are refused. Disabling, resetting or
+   * changing the role moves it forward: the role is in the JWT, and a session
+   * should not outlive the decision that took it away.
+   */
+  sessionsValidFrom: string;
+  createdAt: string;
+  /** The admin who sent the invite. */
+  createdBy: string;
+  updatedAt: string;
+  lastLoginAt?: string;
+}
+
+/**
+ * The last time an OIDC or LDAP user signed in, kept under their username
+ * (`ServerOnlyData`). Their role and groups live in the directory and reach the
+ * server only at sign-in; this is what lets work done for them with no session at
+ * hand - a scheduled run, an API token - be judged by who they were then, and not
+ * by who they were when the schedule or token was made (`./identity.ts`).
+ */
+export interface DirectorySignIn {
+  role: Role;
+  groups?: string[];
+  source: "oidc" | "ldap";
+  signedInAt: string;
+}
+
+export type AccountStatus = "invited" | "active" | "reset_pending" | "disabled";
+
+/**
+ * An account as the Users tab shows it: no hash, no setup token. `environment`
+ * accounts come from ADMIN_EMAIL / USER_EMAIL and are listed read-only.
+ */
+export interface AccountSummary {
+  email: string;
+  role: Role;
+  status: AccountStatus;
+  source: "stored" | "environment";
+  createdAt?: string;
+  createdBy?: string;
+  lastLoginAt?: string;
+  /** When the pending invite or reset link stops working. */
+  setupExpiresAt?: string;
+}
@@ -1,4 +1,4 @@
-export const ADMIN_SECTIONS = ["overview", "operations", "monitoring", "security", "audit"] as const;
+export const ADMIN_SECTIONS = ["overview", "operations", "monitoring", "security", "users", "teams", "audit"] as const;
 
 export type AdminSection = (typeof ADMIN_SECTIONS)[number];
 
@@ -17,7 +17,7 @@
  *    unavailable, and the SQLite catalog read goes through `sqlite_master`
  *    instead. The asymmetry is real and documented on the tool: PostgreSQL yields
  *    a structured column inventory, SQLite yields each object's own DDL text.
- * 2. **The profiled providers bind nothing.** `queryReadOnly(sql, budget)` takes no
+ * 2. **The agent binds nothing.** Its runs call `queryReadOnly(sql, budget)` with no
  *    parameters (`postgres.ts`, `sqlite.ts`), so a selector cannot be bound and has
  *    to be quoted with the shared `quoteLiteral`. Selectors are therefore validated
  *    here as well as quoted — see `assertSelector` for the one character that is
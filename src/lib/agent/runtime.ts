@@ -35,6 +35,7 @@ import { createTargetScope } from "@/lib/db/operations/policy";
 import { LLMAuthError, LLMError, LLMRateLimitError } from "@/lib/llm/types";
 import { ExecutionProfileError } from "@/lib/db/errors";
 import { logger } from "@/lib/logger";
+import { loadMaskingPolicy } from "@/lib/masking/enforce";
 import { resolveConnection, SeedConnectionError } from "@/lib/seed/resolve-connection";
 import type { QueryResult } from "@/lib/types";
 import { AgentRunDeadline } from "./deadline";
@@ -193,6 +194,7 @@ export async function driveAgentRun(runId: string): Promise<AgentInvestigationRe
         deadline: new AgentRunDeadline(AGENT_WORKFLOW_BUDGETS[report.record.workflowType].runDeadlineMs),
         repairs: new AgentRepairLedger(),
         acquireProvider: acquireExecutionProfileProvider,
+        masking: await loadMaskingPolicy(),
       },
     });
   } catch (error) {
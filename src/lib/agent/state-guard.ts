@@ -163,7 +163,8 @@ type ResultFieldClass = "payload" | "summary";
  * produced it and can be arbitrarily large. `warnings` is not — engine notices
  * are bounded diagnostics, and run state already carries engine text in a
  * database-error refusal, so refusing them here would be inconsistent as well as
- * costly. `fields`, `columnTypes` and `pagination` describe shape, not rows.
+ * costly. `fields`, `columnTypes`, `columnSources`, `pagination` and `masking`
+ * describe shape, not rows.
  */
 const QUERY_RESULT_FIELDS: Record<keyof QueryResult, ResultFieldClass> = {
   rows: "payload",
@@ -174,6 +175,8 @@ const QUERY_RESULT_FIELDS: Record<keyof QueryResult, ResultFieldClass> = {
   pagination: "summary",
   warnings: "summary",
   columnTypes: "summary",
+  columnSources: "summary",
+  masking: "summary",
 };
 
 /**
@@ -74,6 +74,8 @@ import { inspectAgentStatement } from "@/lib/db/operations/statement-guard";
 import type { ExecutionActor, ExecutionPolicy, PolicyDenyCode, TargetScope } from "@/lib/db/operations/policy";
 import type { OperationRegistry } from "@/lib/db/operations/registry";
 import type { DatabaseProvider, ProviderCapabilities, ProviderLabels } from "@/lib/db/types";
+import { maskResult } from "@/lib/masking/policy";
+import type { MaskingPolicy } from "@/lib/masking/types";
 import { hasOptimizerHint } from "@/lib/sql/optimizer-hints";
 import type { ColumnSchema, DatabaseConnection, QueryResult, TableSchema } from "@/lib/types";
 import {
@@ -228,6 +230,14 @@ export interface AgentToolContext {
   readonly deadline: AgentRunDeadline;
   readonly repairs: AgentRepairLedger;
   readonly acquireProvider: AgentProviderAcquirer;
+  /**
+   * The deployment's masking policy, read when the run is driven. A data read's rows
+   * are masked under it before the artifact store, the timeline or the model sees
+   * them, exactly as `POST /api/db/query` would mask them for the same connection -
+   * and never revealed: the model holds no grant to ask with. Injected rather than
+   * read here for the same reason as the acquirer: this layer reaches no storage.
+   */
+  readonly masking: MaskingPolicy;
   /** Injected for the audited-execution elapsed measurement, as in `execution.ts`. */
   readonly clock?: () => number;
 }
@@ -1203,7 +1213,12 @@ export async function executeAgentOperation(
     ...(request.label === undefined ? {} : { label: request.label }),
     ...(request.target === undefined ? {} : { target: request.target }),
     ...(request.grounding === undefined ? {} : { grounding: request.grounding }),
-    invoke: (validatedInput, budget, phase) => runStatement(context, validatedInput, budget, phase),
+    invoke: async (validatedInput, budget, phase) => {
+      const result = await runStatement(context, validatedInput, budget, phase);
+      // A plan and a profile are about the statement and the table, not the rows.
+      if (request.operationId !== "sql.query.read") return result;
+      return maskResult(context.masking, context.connection.seedId ?? null, request.sql, result, false);
+    },
   });
 }
 
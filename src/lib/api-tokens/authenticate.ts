@@ -0,0 +1,69 @@
+import type { UserPayload } from "@/lib/auth";
+import { currentIdentity } from "@/lib/accounts/identity";
+import { isAccountSessionCurrent } from "@/lib/accounts/session";
+import { logger } from "@/lib/logger";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { findApiToken, isApiTokenExpired, readApiTokens, updateApiTokens } from "./store";
+import type { ApiTokenScope } from "./types";
+
+/** How stale `lastUsedAt` may get before a use writes it again. */
+const LAST_USED_INTERVAL_MS = 5 * 60 * 1000;
+
+/** A live token's session, and what the token may be used for. */
+export interface ApiTokenAuthentication {
+  session: UserPayload;
+  scopes: ApiTokenScope[];
+}
+
+/** The secret of an `Authorization: Bearer` header, or null when the request has none. */
+export function readBearerToken(request: Request): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(request.headers.get("authorization") ?? "");
+  return match ? match[1] : null;
+}
+
+/**
+ * The session `secret` stands for, or null when it is no live token: unknown,
+ * expired, its owner no longer anyone (`currentIdentity`), or its stored account
+ * reset or given another role since. The session is its owner's, with `tokenId`
+ * set, and never more than the owner is now: an admin token of someone since made
+ * a user is a user's, and its groups are those the owner still has. A stored
+ * account's is also checked against the account as a cookie session is, with the
+ * token's creation as its issue time. Which routes it may reach is left to
+ * `guardRoute`, which knows the route.
+ *
+ * Never throws, like `getSession()` - `guardRoute` calls it outside its route's
+ * try/catch. A storage failure refuses the token.
+ */
+export async function authenticateApiToken(secret: string, now = new Date()): Promise<ApiTokenAuthentication | null> {
+  try {
+    const provider = await getStorageProvider();
+    if (!provider) return null;
+    const token = findApiToken(await readApiTokens(provider), secret);
+    if (!token || isApiTokenExpired(token, now)) return null;
+    const identity = await currentIdentity(provider, token.owner, now);
+    if (!identity) return null;
+
+    const groups = token.groups?.filter((group) => identity.groups?.includes(group));
+    const session: UserPayload = {
+      username: token.owner,
+      role: token.role === "admin" && identity.role === "admin" ? "admin" : "user",
+      ...(groups?.length && { groups }),
+      ...(token.account && { account: true as const }),
+      iat: Math.floor(Date.parse(token.createdAt) / 1000),
+      tokenId: token.id,
+    };
+    if (session.account && !(await isAccountSessionCurrent(session))) return null;
+
+    if (!token.lastUsedAt || now.getTime() - Date.parse(token.lastUsedAt) >= LAST_USED_INTERVAL_MS) {
+      // Not awaited: the request is already authenticated, and when it was last used is a courtesy.
+      void updateApiTokens(provider, (tokens) => ({
+        tokens: tokens.map((t) => (t.id === token.id ? { ...t, lastUsedAt: now.toISOString() } : t)),
+        result: undefined,
+      })).catch((error) => logger.error("Could not record an API token's use", error, { route: "api-tokens" }));
+    }
+    return { session, scopes: token.scopes };
+  } catch (error) {
+    logger.error("Could not check an API token; refusing it", error, { route: "api-tokens" });
+    return null;
+  }
+}
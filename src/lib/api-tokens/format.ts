@@ -0,0 +1,18 @@
+/**
+ * What every secret starts with, so a secret scanner or a reviewer reading a CI
+ * log can tell one from any other string - and so a Bearer value that is plainly
+ * something else is refused without a storage read.
+ */
+export const API_TOKEN_PREFIX = "ldb_pat_";
+
+/** The prefix, then 32 random bytes in base64url: 43 characters, no padding. */
+const API_TOKEN_SHAPE = /^ldb_pat_[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Whether `value` is shaped like a secret `issueApiToken` makes. Kept free of
+ * anything server-side so `src/proxy.ts` can ask it before letting a Bearer
+ * request past the cookie check.
+ */
+export function isApiTokenSecret(value: string): boolean {
+  return API_TOKEN_SHAPE.test(value);
+}
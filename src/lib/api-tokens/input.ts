@@ -0,0 +1,52 @@
+import { API_TOKEN_SCOPES, type ApiTokenScope } from "./types";
+
+/** A token request the browser sent that cannot be made; the message says which field and why. */
+export class ApiTokenInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiTokenInputError";
+  }
+}
+
+const MAX_NAME_LENGTH = 100;
+/** There is no token that never expires: a forgotten CI secret should stop working on its own. */
+export const MAX_TOKEN_LIFETIME_DAYS = 365;
+
+/** What a user sends to `POST /api/tokens`. */
+export interface ApiTokenInput {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresInDays: number;
+}
+
+export function readApiTokenInput(body: unknown): ApiTokenInput {
+  if (!body || typeof body !== "object") throw new ApiTokenInputError("Request body must be an object");
+  const { name, scopes, expiresInDays } = body as Record<string, unknown>;
+
+  if (typeof name !== "string" || name.trim() === "") throw new ApiTokenInputError("name is required");
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    throw new ApiTokenInputError(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    !scopes.every((s) => API_TOKEN_SCOPES.includes(s as ApiTokenScope))
+  ) {
+    throw new ApiTokenInputError(`scopes must list one or more of ${API_TOKEN_SCOPES.join(", ")}`);
+  }
+  if (
+    typeof expiresInDays !== "number" ||
+    !Number.isInteger(expiresInDays) ||
+    expiresInDays < 1 ||
+    expiresInDays > MAX_TOKEN_LIFETIME_DAYS
+  ) {
+    throw new ApiTokenInputError(`expiresInDays must be a whole number from 1 to ${MAX_TOKEN_LIFETIME_DAYS}`);
+  }
+
+  return {
+    name: name.trim(),
+    // In the order the scopes are declared, once each, whatever order they were sent in.
+    scopes: API_TOKEN_SCOPES.filter((s) => scopes.includes(s)),
+    expiresInDays,
+  };
+}
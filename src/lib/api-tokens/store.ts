@@ -0,0 +1,109 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import type { UserPayload } from "@/lib/auth";
+import type { ServerStorageProvider } from "@/lib/storage/types";
+import { API_TOKEN_PREFIX, isApiTokenSecret } from "./format";
+import type { ApiTokenInput } from "./input";
+import type { ApiToken, ApiTokenSummary } from "./types";
+
+/**
+ * The storage row the tokens are kept under. One row for the deployment rather
+ * than one per owner: a request presents only its secret, and finding that
+ * among every owner's rows would be a scan per request. `api_tokens` is
+ * server-only, so no session can read or write it through `/api/storage`.
+ */
+export const API_TOKENS_OWNER = "libredb:api-tokens";
+
+/** Live tokens one user may hold; creating one more is refused until one is revoked. */
+export const MAX_TOKENS_PER_OWNER = 10;
+
+/** How long an expired token is still listed, so its owner sees why a job stopped, before it is dropped. */
+const EXPIRED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * A token change that conflicts with what is stored - no such token, or one too
+ * many. `status` is the HTTP answer the route gives it.
+ */
+export class ApiTokenStateError extends Error {
+  constructor(
+    message: string,
+    readonly status: 404 | 409,
+  ) {
+    super(message);
+    this.name = "ApiTokenStateError";
+  }
+}
+
+export async function readApiTokens(provider: ServerStorageProvider): Promise<ApiToken[]> {
+  return (await provider.getCollection(API_TOKENS_OWNER, "api_tokens")) ?? [];
+}
+
+/**
+ * Replace the tokens with what `update` makes of them, in one storage transaction
+ * - `updateAccessRoles` in `src/lib/access/store.ts`. Tokens long expired are
+ * dropped on the way out.
+ */
+export async function updateApiTokens<T>(
+  provider: ServerStorageProvider,
+  update: (current: ApiToken[]) => { tokens: ApiToken[]; result: T },
+  now = new Date(),
+): Promise<T> {
+  const cutoff = now.getTime() - EXPIRED_RETENTION_MS;
+  let result!: T;
+  await provider.updateCollection(API_TOKENS_OWNER, "api_tokens", (current) => {
+    const next = update(current ?? []);
+    result = next.result;
+    return next.tokens.filter((t) => Date.parse(t.expiresAt) > cutoff);
+  });
+  return result;
+}
+
+export function hashApiTokenSecret(secret: string): string {
+  return createHash("sha256").update(secret, "utf8").digest("hex");
+}
+
+/** A fresh token for `session`: the secret, shown once, and what is kept of it. */
+export function issueApiToken(
+  session: UserPayload,
+  input: ApiTokenInput,
+  now = new Date(),
+): { secret: string; token: ApiToken } {
+  const secret = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return {
+    secret,
+    token: {
+      id: `tok_${randomUUID().replaceAll("-", "").slice(0, 16)}`,
+      name: input.name,
+      secretHash: hashApiTokenSecret(secret),
+      scopes: input.scopes,
+      owner: session.username,
+      role: session.role,
+      ...(session.groups?.length && { groups: session.groups }),
+      ...(session.account && { account: true as const }),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+    },
+  };
+}
+
+export function isApiTokenExpired(token: ApiToken, now = new Date()): boolean {
+  return Date.parse(token.expiresAt) <= now.getTime();
+}
+
+/** The stored token `secret` is, expired or not, or undefined. */
+export function findApiToken(tokens: ApiToken[], secret: string): ApiToken | undefined {
+  if (!isApiTokenSecret(secret)) return undefined;
+  const secretHash = hashApiTokenSecret(secret);
+  return tokens.find((t) => t.secretHash === secretHash);
+}
+
+export function summarizeApiToken(token: ApiToken, now = new Date()): ApiTokenSummary {
+  return {
+    id: token.id,
+    name: token.name,
+    scopes: token.scopes,
+    createdAt: token.createdAt,
+    expiresAt: token.expiresAt,
+    ...(token.lastUsedAt && { lastUsedAt: token.lastUsedAt }),
+    expired: isApiTokenExpired(token, now),
+  };
+}
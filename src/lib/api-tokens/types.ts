@@ -0,0 +1,51 @@
+import type { Role } from "@/lib/auth";
+
+/**
+ * What a token may be used for. `query` runs statements (`/api/db/query`,
+ * `/api/db/multi-query`, `/api/db/cancel`, `/api/db/export`) and `schema` reads
+ * the schema routes; every other route refuses a token whatever it holds. Neither
+ * widens what its owner may do - grants and write policies still apply to them.
+ */
+export const API_TOKEN_SCOPES = ["query", "schema"] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/**
+ * A personal API token, kept in server storage under `API_TOKENS_OWNER`
+ * (`./store.ts`). Only the SHA-256 of the secret is kept, as with an account's
+ * setup link: the secret is shown once, to the user who created it.
+ *
+ * The owner's role and groups are taken from the session that created it, and
+ * are a ceiling: every use acts as no more than the owner is now
+ * (`currentIdentity`), and not at all once nothing vouches for them. A stored
+ * account's tokens are also checked against the account on every use, so
+ * disabling it, resetting it or changing its role ends its tokens as it ends its
+ * sessions.
+ */
+export interface ApiToken {
+  /** `tok_...`: public, recorded on the audit events of the requests it makes. */
+  id: string;
+  name: string;
+  secretHash: string;
+  scopes: ApiTokenScope[];
+  owner: string;
+  role: Role;
+  groups?: string[];
+  /** The owner is a stored account (`src/lib/accounts/`). */
+  account?: true;
+  createdAt: string;
+  expiresAt: string;
+  /** Recorded at most every few minutes, so a busy CI job is not a write per request. */
+  lastUsedAt?: string;
+}
+
+/** A token as its owner's profile page lists it: no hash, nothing that would use it. */
+export interface ApiTokenSummary {
+  id: string;
+  name: string;
+  scopes: ApiTokenScope[];
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+  expired: boolean;
+}
@@ -0,0 +1,35 @@
+/**
+ * A request's body, read whole, or null as soon as it is known to pass `maxBytes`.
+ *
+ * `Content-Length` answers first, before a byte is read. It is not trusted beyond
+ * that: a chunked upload carries none, and the header can understate what follows,
+ * so the stream itself is counted too and abandoned the moment it goes over. What a
+ * route then parses - `formData()` included - is never more than the limit.
+ */
+export async function readBodyWithin(request: Request, maxBytes: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  const declared = Number(request.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) return null;
+  if (!request.body) return new Uint8Array(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
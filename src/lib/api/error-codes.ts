@@ -25,6 +25,12 @@ export const ApiErrorCode = {
   // Application rate limiting (distinct from LLM_RATE_LIMIT, which is the provider's limit)
   RATE_LIMITED: "RATE_LIMITED",
 
+  // A custom role's grants do not cover the request (src/lib/access/)
+  ACCESS_DENIED: "ACCESS_DENIED",
+
+  // The connection's write policy refused a write (src/lib/access/write-policy.ts)
+  WRITE_REFUSED: "WRITE_REFUSED",
+
   // Generic
   INTERNAL_ERROR: "INTERNAL_ERROR",
   NETWORK_ERROR: "NETWORK_ERROR",
@@ -15,6 +15,7 @@ import {
   QueryError,
   QueryCancelledError,
   TimeoutError,
+  ExecutionProfileError,
 } from "@/lib/db/errors";
 import {
   LLMError,
@@ -26,6 +27,8 @@ import {
 } from "@/lib/llm/types";
 import { RateLimitError } from "@/lib/api/rate-limit";
 import { SeedConnectionError } from "@/lib/seed/resolve-connection";
+import { AccessDeniedError } from "@/lib/access/grants";
+import { WriteRefusedError } from "@/lib/access/write-policy";
 
 // ============================================================================
 // Types
@@ -63,6 +66,36 @@ export function createErrorResponse(error: unknown, context?: { route?: string }
     );
   }
 
+  // --- Access Denied: the caller's grants, not the database, refused it ---
+  if (error instanceof AccessDeniedError) {
+    return NextResponse.json(
+      { error: error.message, code: ApiErrorCode.ACCESS_DENIED, statusCode: 403 },
+      { status: 403 },
+    );
+  }
+
+  // --- Write Refused: the connection's write policy, not the caller's grants ---
+  if (error instanceof WriteRefusedError) {
+    return NextResponse.json(
+      {
+        error: error.message,
+        code: ApiErrorCode.WRITE_REFUSED,
+        statusCode: 403,
+        details: { reason: error.reasonCode },
+      },
+      { status: 403 },
+    );
+  }
+
+  // --- Execution profile refused: the connection cannot be opened read-only as configured ---
+  if (error instanceof ExecutionProfileError) {
+    logger.warn("Execution profile refused", { route, reasonCode: error.reasonCode });
+    return NextResponse.json(
+      { error: error.message, code: ApiErrorCode.CONFIG_ERROR, statusCode: 400, details: { reason: error.reasonCode } },
+      { status: 400 },
+    );
+  }
+
   // --- Query Cancelled ---
   if (error instanceof QueryCancelledError) {
     logger.info("Query cancelled", { route, provider: error.provider });
@@ -14,10 +14,10 @@
  * There are no timers here. A setInterval would hold the event loop open and leak one per process;
  * entries expire lazily on access instead.
  *
- * Memory bound: MAX_ENTRIES_PER_BUCKET (1000) x 5 buckets = 5000 counters total. Each counter is a
+ * Memory bound: MAX_ENTRIES_PER_BUCKET (1000) x 6 buckets = 6000 counters total. Each counter is a
  * map entry keyed by up to MAX_KEY_LENGTH (200) UTF-16 characters (~400 bytes) plus a small
  * {count, resetAt, notified} object and Map/object overhead, so the realistic bound is roughly
- * 2.5-3 MB, not a flat "100 bytes per counter" - correct this comment again if either constant
+ * 3-3.5 MB, not a flat "100 bytes per counter" - correct this comment again if either constant
  * changes. Nobody may add a second, unbounded map alongside these.
  *
  * Capacity is partitioned PER BUCKET, not shared across buckets: see pruneIfAtCapacity. A single
@@ -30,7 +30,7 @@
  * bucket can only ever evict entries already in that same bucket's own store.
  */
 
-export type RateLimitBucket = "login_client" | "login_account" | "ai" | "query" | "anon";
+export type RateLimitBucket = "login_client" | "login_account" | "ai" | "query" | "api_token" | "anon";
 
 export interface RateLimitDecision {
   allowed: boolean;
@@ -121,18 +121,30 @@ const BUCKETS: Record<RateLimitBucket, BucketSpec> = {
   ai: { maxVar: "RATE_LIMIT_AI_MAX", windowVar: "RATE_LIMIT_AI_WINDOW_SEC", maxDefault: 20, windowDefault: 60 },
   // Shared across every db/ route that reaches a provider - query, multi-query, transaction,
   // disconnect, cancel, health, maintenance, monitoring, pool-stats, profile, provider-meta,
-  // schema, schema/list, schema/relations, schema-snapshot, test-connection - plus
-  // admin/fleet-health: seventeen routes today (grep -rl 'bucket: "query"' src/app/api/ finds
-  // fifteen; schema/list and schema/relations reach this bucket indirectly, through
-  // schema-route.ts's shared handleSchemaRequest). The same workload reached through a
-  // different endpoint must not get a second budget - re-verify and correct this comment again
-  // if guardRoute grows a new call site.
+  // schema, schema/list, schema/relations, schema-snapshot, test-connection, export, import,
+  // migrations, data-diff - plus admin/fleet-health, admin/transactions and the scheduler's
+  // run-now (schedules/[id]/runs): twenty-three routes today (grep -rl 'bucket: "query"'
+  // src/app/api/ finds twenty-one; schema/list and schema/relations reach this bucket
+  // indirectly, through schema-route.ts's shared handleSchemaRequest). The same workload
+  // reached through a different endpoint must not get a second budget - re-verify and correct
+  // this comment again if guardRoute grows a new call site.
   query: {
     maxVar: "RATE_LIMIT_QUERY_MAX",
     windowVar: "RATE_LIMIT_QUERY_WINDOW_SEC",
     maxDefault: 120,
     windowDefault: 60,
   },
+  // Requests authenticated by a personal API token (src/lib/api-tokens/), keyed by the token's id
+  // and charged INSTEAD of the route's own bucket. A CI job's burst then cannot spend the budget its
+  // owner's browser session has in the editor, and the other way round; one owner holds at most
+  // MAX_TOKENS_PER_OWNER live tokens, which is what bounds how far splitting a job across tokens
+  // can multiply this.
+  api_token: {
+    maxVar: "RATE_LIMIT_API_TOKEN_MAX",
+    windowVar: "RATE_LIMIT_API_TOKEN_WINDOW_SEC",
+    maxDefault: 60,
+    windowDefault: 60,
+  },
   // Bounds permission_denied audit volume from unauthenticated probes. Without it an internet
   // scanner can fill a container log volume.
   anon: { maxVar: "RATE_LIMIT_ANON_MAX", windowVar: "RATE_LIMIT_ANON_WINDOW_SEC", maxDefault: 5, windowDefault: 300 },
@@ -148,16 +160,17 @@ const bucketStores: Record<RateLimitBucket, Map<string, Counter>> = {
   login_account: new Map(),
   ai: new Map(),
   query: new Map(),
+  api_token: new Map(),
   anon: new Map(),
 };
 
 /**
  * A clamped integer from the environment. One helper rather than a branch per variable, so the
- * coverage cost of eleven configurable numbers is one small tested function.
+ * coverage cost of thirteen configurable numbers is one small tested function.
  * A value of 0 for a *_MAX means unlimited; the caller decides what 0 means for its own variable.
  * Unlike the boolean flags in src/lib/security/config.ts, an out-of-range number here silently
  * falls back rather than warning: these are budget knobs, not a security posture toggle, and this
- * function backs eleven of them plus TRUSTED_PROXY_HOPS - warning here would either fire on every
+ * function backs thirteen of them plus TRUSTED_PROXY_HOPS - warning here would either fire on every
  * request or need its own per-variable latch for a case that isn't a security-relevant mistake.
  */
 export function parsePositiveInt(value: string | undefined, fallback: number, max: number): number {
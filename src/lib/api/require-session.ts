@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { getSession, type UserPayload } from "@/lib/auth";
+import { authenticateApiToken, readBearerToken } from "@/lib/api-tokens/authenticate";
+import type { ApiTokenScope } from "@/lib/api-tokens/types";
 import { clientAddress } from "@/lib/api/client-address";
 import { createErrorResponse } from "@/lib/api/errors";
 import { consumeRateLimit, RateLimitError } from "@/lib/api/rate-limit";
@@ -17,21 +19,46 @@ import { logger } from "@/lib/logger";
  *
  * Callers invoke this outside their own try/catch. That is safe because getSession() cannot throw:
  * a missing auth-token cookie makes it return null directly, and otherwise it awaits verifyJWT(),
- * whose try block wraps the JWT secret lookup and always degrades to a returned null.
+ * whose try block wraps the JWT secret lookup and always degrades to a returned null - as does the
+ * stored-account check that follows it (isAccountSessionCurrent in src/lib/accounts/session.ts).
  *
  * The result is a discriminated union rather than the typed-error convention used elsewhere in
  * src/lib/api/errors.ts, because the success path must also return the session. The 429 body it
  * produces still comes from createErrorResponse, so Retry-After is constructed in one place.
+ *
+ * A request with an `Authorization: Bearer` header is a script's, not a browser's, and is decided by
+ * that header alone - a cookie sent alongside it is not consulted, so which identity a request ran
+ * as never depends on which of the two happened to verify. See guardApiToken below.
  */
 export type GuardResult = { response: NextResponse } | { session: UserPayload };
 
-export async function guardRoute(opts: {
+interface GuardOptions {
   /** "POST /api/ai/explain" - recorded verbatim in the audit trail. */
   route: string;
   bucket: "ai" | "query";
   request: Request;
-}): Promise<GuardResult> {
+  /**
+   * The personal API token scope (src/lib/api-tokens/) that lets a token call this route. Without
+   * one the route refuses every token, whatever it holds: a route joins the scripted API by naming
+   * its scope here, never by default.
+   */
+  tokenScope?: ApiTokenScope;
+}
+
+/** Every denial's audit line here is isolated: the answer is already decided, whatever the sink does. */
+function recordDenial(event: Parameters<typeof emitAuditEvent>[0], route: string): void {
+  try {
+    emitAuditEvent(event);
+  } catch (auditError) {
+    logger.error(`Failed to record ${event.type} audit event`, auditError, { route });
+  }
+}
+
+export async function guardRoute(opts: GuardOptions): Promise<GuardResult> {
   const ip = clientAddress(opts.request);
+  const bearer = readBearerToken(opts.request);
+  if (bearer !== null) return guardApiToken(opts, bearer, ip);
+
   const session = await getSession();
 
   if (!session) {
@@ -39,10 +66,10 @@ export async function guardRoute(opts: {
     // otherwise fill a container log volume with one line per probe.
     const notice = consumeRateLimit("anon", ip);
     if (notice.allowed || notice.tripped) {
-      // Isolated in its own try/catch: the 401 below is already decided, and a broken audit sink
-      // must never turn a denial this route already made into an unrelated 500.
-      try {
-        emitAuditEvent({
+      // Isolated (recordDenial): the 401 below is already decided, and a broken audit sink must
+      // never turn a denial this route already made into an unrelated 500.
+      recordDenial(
+        {
           type: "permission_denied",
           action: "denied",
           target: opts.route,
@@ -50,10 +77,9 @@ export async function guardRoute(opts: {
           result: "failure",
           reason: "no_session",
           ip,
-        });
-      } catch (auditError) {
-        logger.error("Failed to record permission_denied audit event", auditError, { route: opts.route });
-      }
+        },
+        opts.route,
+      );
     }
     return { response: NextResponse.json({ error: "Authentication required" }, { status: 401 }) };
   }
@@ -66,8 +92,8 @@ export async function guardRoute(opts: {
     if (decision.tripped) {
       // Isolated for the same reason as the no_session branch above: the 429 below is already
       // decided regardless of whether this line succeeds.
-      try {
-        emitAuditEvent({
+      recordDenial(
+        {
           type: "rate_limit_exceeded",
           action: "throttled",
           target: opts.route,
@@ -76,10 +102,9 @@ export async function guardRoute(opts: {
           reason: "rate_limited",
           ip,
           bucket: opts.bucket,
-        });
-      } catch (auditError) {
-        logger.error("Failed to record rate_limit_exceeded audit event", auditError, { route: opts.route });
-      }
+        },
+        opts.route,
+      );
     }
     return {
       response: createErrorResponse(new RateLimitError(decision.retryAfterSeconds), { route: opts.route }),
@@ -88,3 +113,93 @@ export async function guardRoute(opts: {
 
   return { session };
 }
+
+/**
+ * guardRoute for a request that presented a personal API token. Three differences from a cookie
+ * session, each on purpose:
+ *
+ * - An unknown or expired token is refused like a missing session, with its own reason, and its
+ *   audit line is metered on the same anon bucket: a replayed stale secret is as cheap to repeat as
+ *   a scanner's probe.
+ * - The budget is the token's own (the api_token bucket, keyed by token id), charged before the
+ *   scope is checked, so a token hammering a route it may not call is throttled like any other.
+ * - Scope is checked here, against the route's declared tokenScope, before the handler runs. The
+ *   handler then applies grants and write policies to the token's session exactly as to its owner's.
+ */
+async function guardApiToken(opts: GuardOptions, secret: string, ip: string): Promise<GuardResult> {
+  const authenticated = await authenticateApiToken(secret);
+  if (!authenticated) {
+    const notice = consumeRateLimit("anon", ip);
+    if (notice.allowed || notice.tripped) {
+      recordDenial(
+        {
+          type: "permission_denied",
+          action: "denied",
+          target: opts.route,
+          user: "anonymous",
+          result: "failure",
+          reason: "invalid_api_token",
+          ip,
+        },
+        opts.route,
+      );
+    }
+    return { response: NextResponse.json({ error: "Invalid or expired API token" }, { status: 401 }) };
+  }
+
+  const { session, scopes } = authenticated;
+  const tokenId = session.tokenId as string;
+  const decision = consumeRateLimit("api_token", tokenId);
+  if (!decision.allowed) {
+    if (decision.tripped) {
+      recordDenial(
+        {
+          type: "rate_limit_exceeded",
+          action: "throttled",
+          target: opts.route,
+          user: session.username,
+          result: "failure",
+          reason: "rate_limited",
+          ip,
+          bucket: "api_token",
+          tokenId,
+        },
+        opts.route,
+      );
+    }
+    return {
+      response: createErrorResponse(new RateLimitError(decision.retryAfterSeconds), { route: opts.route }),
+    };
+  }
+
+  if (!opts.tokenScope || !scopes.includes(opts.tokenScope)) {
+    recordDenial(
+      {
+        type: "permission_denied",
+        action: opts.tokenScope ?? "denied",
+        target: opts.route,
+        user: session.username,
+        result: "failure",
+        reason: "insufficient_scope",
+        ip,
+        tokenId,
+      },
+      opts.route,
+    );
+    const error = opts.tokenScope
+      ? `This API token does not have the "${opts.tokenScope}" scope`
+      : "This route does not accept API tokens";
+    return { response: NextResponse.json({ error }, { status: 403 }) };
+  }
+
+  return { session };
+}
+
+/**
+ * The id of the sign-in `session` came from: its `sid` claim. A token signed before
+ * there was one is told apart by its issue time instead, until it expires. Here
+ * rather than in `auth.ts`, which most route tests replace wholesale.
+ */
+export function sessionIdOf(session: UserPayload): string {
+  return session.sid ?? `${session.username}@${session.iat ?? 0}`;
+}
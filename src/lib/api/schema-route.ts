@@ -23,7 +23,7 @@ export async function handleSchemaRequest(
 ): Promise<NextResponse> {
   // Moved ahead of body parsing: an unauthenticated caller no longer gets a body parsed on its
   // behalf, and the rate limiter sees the request before any work is done for it.
-  const guard = await guardRoute({ route: `POST /${route}`, bucket: "query", request: req });
+  const guard = await guardRoute({ route: `POST /${route}`, bucket: "query", request: req, tokenScope: "schema" });
   if ("response" in guard) return guard.response;
 
   try {
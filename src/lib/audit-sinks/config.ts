@@ -0,0 +1,88 @@
+import { parsePositiveInt } from "@/lib/api/rate-limit";
+import { logger } from "@/lib/logger";
+import { createFileSink } from "./file";
+import { createSyslogSink, type SyslogTransport } from "./syslog";
+import type { AuditSink } from "./types";
+import { createWebhookSink } from "./webhook";
+
+const DEFAULT_FILE_MAX_MB = 50;
+const MAX_FILE_MAX_MB = 10_240;
+const DEFAULT_FILE_KEEP = 10;
+const MAX_FILE_KEEP = 1_000;
+const DEFAULT_SYSLOG_PORTS: Record<SyslogTransport, number> = { udp: 514, tcp: 601 };
+/** The same floor as JWT_SECRET: a short HMAC key is one an attacker can guess. */
+const MIN_WEBHOOK_SECRET_LENGTH = 32;
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * The sinks the environment configures, each one at most once:
+ *
+ * - `AUDIT_SINK_FILE` - a JSONL file, rotated at `AUDIT_SINK_FILE_MAX_MB` (50) with
+ *   `AUDIT_SINK_FILE_KEEP` (10) rotated files kept.
+ * - `AUDIT_SINK_SYSLOG` - `udp://host[:514]` or `tcp://host[:601]`.
+ * - `AUDIT_SINK_WEBHOOK_URL` with `AUDIT_SINK_WEBHOOK_SECRET`, at least 32 characters.
+ *
+ * A sink configured wrongly is left out with a warning, and the others start: a
+ * typo in one destination must not stop the server, nor the shipping to the
+ * destinations that are right.
+ */
+export function readAuditSinks(env: Env = process.env): AuditSink[] {
+  const sinks: AuditSink[] = [];
+  const skip = (variable: string, reason: string) =>
+    logger.warn("Audit sink not started", { route: "audit-sinks", variable, reason });
+
+  const filePath = env.AUDIT_SINK_FILE?.trim();
+  if (filePath) {
+    const maxMb = Math.max(1, parsePositiveInt(env.AUDIT_SINK_FILE_MAX_MB, DEFAULT_FILE_MAX_MB, MAX_FILE_MAX_MB));
+    const keep = Math.max(1, parsePositiveInt(env.AUDIT_SINK_FILE_KEEP, DEFAULT_FILE_KEEP, MAX_FILE_KEEP));
+    sinks.push(createFileSink(filePath, maxMb * 1024 * 1024, keep));
+  }
+
+  const syslog = env.AUDIT_SINK_SYSLOG?.trim();
+  if (syslog) {
+    const parsed = parseSyslogUrl(syslog);
+    if (typeof parsed === "string") skip("AUDIT_SINK_SYSLOG", parsed);
+    else sinks.push(createSyslogSink(parsed.transport, parsed.host, parsed.port));
+  }
+
+  const webhookUrl = env.AUDIT_SINK_WEBHOOK_URL?.trim();
+  if (webhookUrl) {
+    const secret = env.AUDIT_SINK_WEBHOOK_SECRET ?? "";
+    const problem = webhookProblem(webhookUrl, secret);
+    if (problem) skip("AUDIT_SINK_WEBHOOK_URL", problem);
+    else sinks.push(createWebhookSink(webhookUrl, secret));
+  }
+
+  return sinks;
+}
+
+/** `udp://host:port` as its parts, or why it is not a syslog address. */
+function parseSyslogUrl(value: string): { transport: SyslogTransport; host: string; port: number } | string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "not a URL; expected udp://host:514 or tcp://host:601";
+  }
+  const transport = url.protocol.slice(0, -1);
+  if (transport !== "udp" && transport !== "tcp") return `unsupported transport ${url.protocol}; use udp or tcp`;
+  if (!url.hostname) return "no host";
+  // URL keeps an IPv6 literal's brackets, which net and dgram do not take.
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  return { transport, host, port: url.port ? Number(url.port) : DEFAULT_SYSLOG_PORTS[transport] };
+}
+
+function webhookProblem(url: string, secret: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "not a URL";
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return "must be an http or https URL";
+  if (secret.length < MIN_WEBHOOK_SECRET_LENGTH) {
+    return `AUDIT_SINK_WEBHOOK_SECRET must be at least ${MIN_WEBHOOK_SECRET_LENGTH} characters`;
+  }
+  return null;
+}
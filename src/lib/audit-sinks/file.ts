@@ -0,0 +1,60 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { AuditLogLine } from "@/lib/audit";
+import type { AuditSink } from "./types";
+
+/**
+ * Append lines to `filePath`, one JSON object per line, rotating it once it would
+ * pass `maxBytes`: `audit.jsonl` becomes `audit.jsonl.1`, `.1` becomes `.2`, and
+ * the file past `keep` is deleted.
+ *
+ * Append-only in the sense a collector relies on: a line once written is never
+ * rewritten or reordered, and rotation renames whole files, so a shipper tailing
+ * `audit.jsonl` by name (Filebeat, Fluent Bit, Vector) sees every line exactly once.
+ * The files are created 0600, like the bootstrap secrets file, since an audit line
+ * names people and connections.
+ */
+export function createFileSink(filePath: string, maxBytes: number, keep: number): AuditSink {
+  let size: number | null = null;
+
+  const currentSize = async () => {
+    if (size === null) {
+      size = await fs.stat(filePath).then(
+        (stat) => stat.size,
+        () => 0,
+      );
+    }
+    return size;
+  };
+
+  const rotate = async () => {
+    await fs.rm(`${filePath}.${keep}`, { force: true });
+    for (let n = keep - 1; n >= 1; n--) {
+      await fs.rename(`${filePath}.${n}`, `${filePath}.${n + 1}`).catch(() => {});
+    }
+    await fs.rename(filePath, `${filePath}.1`).catch(() => {});
+    size = 0;
+  };
+
+  return {
+    kind: "file",
+    target: filePath,
+    async deliver(lines) {
+      const chunk = lines.map((line: AuditLogLine) => `${JSON.stringify(line)}\n`).join("");
+      const bytes = Buffer.byteLength(chunk);
+      // A file with nothing in it is never rotated away, so a batch larger than the
+      // limit still lands somewhere rather than being renamed out on its own.
+      const current = await currentSize();
+      if (current > 0 && current + bytes > maxBytes) await rotate();
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      try {
+        await fs.appendFile(filePath, chunk, { mode: 0o600 });
+      } catch (error) {
+        // What made it to disk before the failure is unknown; read it again next time.
+        size = null;
+        throw error;
+      }
+      size = (size ?? 0) + bytes;
+    },
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Where the running sink queues are kept: on globalThis, because instrumentation
+ * (which starts them) and each route handler (which reads their health) are
+ * bundled separately and would otherwise each see a module of their own. Apart
+ * from `./registry.ts` so that `GET /api/admin/audit` reads the health without
+ * importing what starts the sinks.
+ */
+
+import type { AuditSinkQueue } from "./queue";
+import type { AuditSinkHealth } from "./types";
+
+const SINKS_KEY = Symbol.for("libredb-studio.audit-sinks");
+
+type SinksHolder = { [SINKS_KEY]?: AuditSinkQueue[] };
+
+export function runningSinkQueues(): AuditSinkQueue[] | undefined {
+  return (globalThis as SinksHolder)[SINKS_KEY];
+}
+
+export function setRunningSinkQueues(queues: AuditSinkQueue[]): void {
+  (globalThis as SinksHolder)[SINKS_KEY] = queues;
+}
+
+/** Each sink's delivery state, in the order they were configured; empty when none are. */
+export function getAuditSinkHealth(): AuditSinkHealth[] {
+  return (runningSinkQueues() ?? []).map((queue) => queue.health());
+}
@@ -0,0 +1,131 @@
+import type { AuditLogLine } from "@/lib/audit";
+import type { AuditSink, AuditSinkHealth } from "./types";
+
+/** Lines a sink may fall behind by before the oldest are dropped. */
+const MAX_QUEUED = 10_000;
+/** Lines handed to a sink at once: one webhook POST, one file append. */
+const MAX_BATCH = 100;
+const FIRST_RETRY_MS = 1_000;
+const MAX_RETRY_MS = 5 * 60_000;
+/** Bounds a driver's error message before an admin is shown it. */
+const MAX_ERROR_LENGTH = 200;
+
+interface AuditSinkQueueOptions {
+  maxQueued?: number;
+  firstRetryMs?: number;
+  maxRetryMs?: number;
+}
+
+/**
+ * The lines one sink has yet to receive, delivered in order and retried with a
+ * doubling backoff (1s, 2s, 4s ... capped at 5 minutes) while it fails.
+ *
+ * Memory is the only buffer. A sink that is down for long enough loses its oldest
+ * lines rather than the process its memory, and says so in `dropped`; the stdout
+ * line `emitAuditEvent` writes first is the record that has no such gap. A restart
+ * loses whatever was still queued, for the same reason.
+ */
+export class AuditSinkQueue {
+  private queue: AuditLogLine[] = [];
+  private sending = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private stopped = false;
+  private readonly state: Omit<AuditSinkHealth, "kind" | "target" | "queued"> = {
+    status: "idle",
+    delivered: 0,
+    dropped: 0,
+    failures: 0,
+  };
+  private readonly maxQueued: number;
+  private readonly firstRetryMs: number;
+  private readonly maxRetryMs: number;
+
+  constructor(
+    private readonly sink: AuditSink,
+    options: AuditSinkQueueOptions = {},
+  ) {
+    this.maxQueued = options.maxQueued ?? MAX_QUEUED;
+    this.firstRetryMs = options.firstRetryMs ?? FIRST_RETRY_MS;
+    this.maxRetryMs = options.maxRetryMs ?? MAX_RETRY_MS;
+  }
+
+  /** Queue a line and start delivering, unless a batch is in flight or waiting out a backoff. */
+  enqueue(line: AuditLogLine): void {
+    if (this.stopped) return;
+    this.queue.push(line);
+    this.trim();
+    void this.drain();
+  }
+
+  health(): AuditSinkHealth {
+    return {
+      kind: this.sink.kind,
+      target: this.sink.target,
+      ...this.state,
+      queued: this.queue.length,
+    };
+  }
+
+  /** Resolves once nothing is queued or in flight, or a failure has scheduled a retry. */
+  async idle(): Promise<void> {
+    while (this.sending) await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.sink.close?.();
+  }
+
+  private trim(): void {
+    const excess = this.queue.length - this.maxQueued;
+    if (excess > 0) {
+      this.queue.splice(0, excess);
+      this.state.dropped += excess;
+    }
+  }
+
+  private async drain(): Promise<void> {
+    if (this.sending || this.timer || this.stopped) return;
+    this.sending = true;
+    try {
+      while (this.queue.length > 0 && !this.stopped) {
+        // Taken out of the queue while in flight: a line that overflows the queue
+        // meanwhile drops one still waiting, never one being delivered.
+        const batch = this.queue.splice(0, MAX_BATCH);
+        try {
+          await this.sink.deliver(batch);
+        } catch (error) {
+          this.queue.unshift(...batch);
+          this.trim();
+          this.scheduleRetry(error);
+          return;
+        }
+        this.state.delivered += batch.length;
+        this.state.failures = 0;
+        this.state.status = "healthy";
+        this.state.lastDeliveredAt = new Date().toISOString();
+        delete this.state.nextAttemptAt;
+      }
+    } finally {
+      this.sending = false;
+    }
+  }
+
+  private scheduleRetry(error: unknown): void {
+    this.state.failures += 1;
+    this.state.status = "retrying";
+    this.state.lastError = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+    const delay = Math.min(this.firstRetryMs * 2 ** (this.state.failures - 1), this.maxRetryMs);
+    const now = Date.now();
+    this.state.lastErrorAt = new Date(now).toISOString();
+    this.state.nextAttemptAt = new Date(now + delay).toISOString();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.drain();
+    }, delay);
+    // A sink that is down must never be what keeps a finished process alive.
+    this.timer.unref?.();
+  }
+}
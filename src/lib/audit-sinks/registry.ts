@@ -0,0 +1,34 @@
+/**
+ * Starting the SIEM sinks: once per process, from `instrumentation.ts`. Every line
+ * `emitAuditEvent` writes is then queued for each of them through the forwarder it
+ * looks up on globalThis, and `GET /api/admin/audit` reads their health from
+ * `./health.ts`.
+ */
+
+import { setAuditForwarder } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import { readAuditSinks } from "./config";
+import { runningSinkQueues, setRunningSinkQueues } from "./health";
+import { AuditSinkQueue } from "./queue";
+
+/**
+ * Start the sinks `env` configures and route every audit line to them; returns
+ * how many started. Called once per process, a second call changes nothing.
+ */
+export function startAuditSinks(env: Record<string, string | undefined> = process.env): number {
+  const running = runningSinkQueues();
+  if (running) return running.length;
+
+  const queues = readAuditSinks(env).map((sink) => new AuditSinkQueue(sink));
+  setRunningSinkQueues(queues);
+  if (queues.length === 0) return 0;
+
+  setAuditForwarder((line) => {
+    for (const queue of queues) queue.enqueue(line);
+  });
+  logger.info("Audit sinks started", {
+    route: "audit-sinks",
+    sinks: queues.map((queue) => `${queue.health().kind} ${queue.health().target}`).join(", "),
+  });
+  return queues.length;
+}
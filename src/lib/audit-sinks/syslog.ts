@@ -0,0 +1,133 @@
+import dgram from "node:dgram";
+import net from "node:net";
+import os from "node:os";
+import type { AuditLogLine } from "@/lib/audit";
+import type { AuditSink } from "./types";
+
+/** RFC 5424 facility 13, "log audit". */
+const FACILITY_LOG_AUDIT = 13;
+const SEVERITY_WARNING = 4;
+const SEVERITY_INFORMATIONAL = 6;
+const APP_NAME = "libredb-studio";
+const CONNECT_TIMEOUT_MS = 5_000;
+
+export type SyslogTransport = "udp" | "tcp";
+
+/** An RFC 5424 header field: printable US-ASCII, no spaces, `-` when there is nothing to say. */
+function headerField(value: string, maxLength: number): string {
+  const printable = value.replace(/[^\x21-\x7e]/g, "").slice(0, maxLength);
+  return printable === "" ? "-" : printable;
+}
+
+/**
+ * One audit line as an RFC 5424 message. A refusal or failure is a `warning`,
+ * everything else `informational`; MSGID is the event type, so a collector can
+ * route `login_failure` without parsing the body, and the body is the line's JSON
+ * exactly as stdout has it. No structured data: the JSON already is.
+ */
+export function formatSyslogMessage(line: AuditLogLine, hostname = os.hostname()): string {
+  const severity = line.outcome === "failure" ? SEVERITY_WARNING : SEVERITY_INFORMATIONAL;
+  const priority = FACILITY_LOG_AUDIT * 8 + severity;
+  return [
+    `<${priority}>1`,
+    line.ts,
+    headerField(hostname, 255),
+    APP_NAME,
+    String(process.pid),
+    headerField(line.event, 32),
+    "-",
+    JSON.stringify(line),
+  ].join(" ");
+}
+
+/**
+ * Send each line as a syslog message to `host:port`.
+ *
+ * UDP is one datagram per message, as RFC 5426 has it: nothing confirms it arrived,
+ * so a sink that is healthy over UDP only means the datagrams left this host. TCP
+ * frames messages by octet counting (RFC 6587 section 3.4.1), which a message body
+ * containing a newline cannot break, keeps one connection open between batches, and
+ * drops it on any error so the next batch connects again.
+ */
+export function createSyslogSink(transport: SyslogTransport, host: string, port: number): AuditSink {
+  const target = `${transport}://${host}:${port}`;
+  return transport === "udp" ? udpSink(target, host, port) : tcpSink(target, host, port);
+}
+
+function udpSink(target: string, host: string, port: number): AuditSink {
+  let socket: dgram.Socket | null = null;
+  const open = () => {
+    if (!socket) {
+      socket = dgram.createSocket(net.isIPv6(host) ? "udp6" : "udp4");
+      socket.on("error", () => {
+        socket?.close();
+        socket = null;
+      });
+      socket.unref();
+    }
+    return socket;
+  };
+
+  return {
+    kind: "syslog",
+    target,
+    async deliver(lines) {
+      for (const line of lines) {
+        const message = Buffer.from(formatSyslogMessage(line));
+        await new Promise<void>((resolve, reject) => {
+          open().send(message, port, host, (error) => (error ? reject(error) : resolve()));
+        });
+      }
+    },
+    close() {
+      socket?.close();
+      socket = null;
+    },
+  };
+}
+
+function tcpSink(target: string, host: string, port: number): AuditSink {
+  let socket: net.Socket | null = null;
+
+  const connect = () =>
+    new Promise<net.Socket>((resolve, reject) => {
+      const next = net.connect({ host, port });
+      next.setTimeout(CONNECT_TIMEOUT_MS, () => next.destroy(new Error(`Connecting to ${target} timed out`)));
+      next.once("connect", () => {
+        next.setTimeout(0);
+        next.unref();
+        resolve(next);
+      });
+      next.once("error", reject);
+      // A connection that drops between batches is replaced on the next one.
+      next.once("close", () => {
+        if (socket === next) socket = null;
+      });
+    });
+
+  return {
+    kind: "syslog",
+    target,
+    async deliver(lines) {
+      const frames = lines.map((line) => {
+        const message = Buffer.from(formatSyslogMessage(line));
+        return Buffer.concat([Buffer.from(`${message.length} `), message]);
+      });
+      try {
+        socket ??= await connect();
+        const open = socket;
+        await new Promise<void>((resolve, reject) => {
+          open.write(Buffer.concat(frames), (error) => (error ? reject(error) : resolve()));
+        });
+      } catch (error) {
+        socket?.destroy();
+        socket = null;
+        throw error;
+      }
+    },
+    close() {
+      socket?.destroy();
+      socket = null;
+    },
+  };
+}
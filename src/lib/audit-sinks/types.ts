@@ -0,0 +1,52 @@
+import type { AuditLogLine } from "@/lib/audit";
+
+export type AuditSinkKind = "file" | "syslog" | "webhook";
+
+/**
+ * One place audit lines are shipped to. A sink only knows how to deliver; queuing,
+ * retrying and keeping count of what arrived are the queue's (`./queue.ts`), so the
+ * three transports stay as small as their protocols.
+ */
+export interface AuditSink {
+  kind: AuditSinkKind;
+  /**
+   * Where it delivers, as shown to an admin: a path, `udp://host:514`, a URL without
+   * its query string. Never a credential.
+   */
+  target: string;
+  /**
+   * Deliver `lines` in order. Rejects when any of them may not have arrived; the
+   * queue then sends the whole batch again, so a sink may see a line twice but is
+   * never skipped past one.
+   */
+  deliver(lines: AuditLogLine[]): Promise<void>;
+  /** Release a socket or handle the sink keeps open between batches. */
+  close?(): void;
+}
+
+/**
+ * `healthy` once the last batch arrived, `retrying` while one is waiting out a
+ * backoff, `idle` before anything has been sent.
+ */
+export type AuditSinkStatus = "idle" | "healthy" | "retrying";
+
+export interface AuditSinkHealth {
+  kind: AuditSinkKind;
+  target: string;
+  status: AuditSinkStatus;
+  /** Lines delivered since the process started. */
+  delivered: number;
+  /** Lines waiting to be delivered. */
+  queued: number;
+  /**
+   * Lines given up on because the queue was full - the oldest go first. Anything
+   * but 0 means the sink's copy of the trail has a gap; stdout's does not.
+   */
+  dropped: number;
+  /** Failed attempts since the last success. */
+  failures: number;
+  lastDeliveredAt?: string;
+  lastError?: string;
+  lastErrorAt?: string;
+  nextAttemptAt?: string;
+}
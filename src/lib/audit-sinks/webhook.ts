@@ -0,0 +1,52 @@
+import { createHmac } from "node:crypto";
+import type { AuditSink } from "./types";
+
+/** How long one batch waits for the webhook before the attempt counts as failed. */
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export const SIGNATURE_HEADER = "X-LibreDB-Signature";
+export const TIMESTAMP_HEADER = "X-LibreDB-Timestamp";
+
+/**
+ * The signature a receiver recomputes: HMAC-SHA256, keyed with the shared secret,
+ * over `<timestamp>.<body>`, hex-encoded and prefixed `sha256=`. The timestamp is
+ * inside the MAC so a captured request replayed later fails a receiver that
+ * rejects old ones, and it is sent in its own header so the receiver can.
+ */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`, "utf8").digest("hex")}`;
+}
+
+/**
+ * POST each batch to `url` as `{ "events": [...] }`, signed with `secret`. Anything
+ * but a 2xx - a redirect included, which is not followed - fails the batch and it
+ * is sent again after the backoff, so a receiver should accept an event id it has
+ * already seen.
+ *
+ * The URL is the operator's, from the environment, which is why it is not held to
+ * a host allowlist the way a schedule's webhook (`src/lib/scheduler/webhook.ts`),
+ * typed in by any user, is.
+ */
+export function createWebhookSink(url: string, secret: string): AuditSink {
+  const parsed = new URL(url);
+  return {
+    kind: "webhook",
+    target: `${parsed.origin}${parsed.pathname}`,
+    async deliver(lines) {
+      const body = JSON.stringify({ events: lines });
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: signWebhookBody(secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        redirect: "manual",
+      });
+      if (!res.ok) throw new Error(`Webhook answered ${res.status}`);
+    },
+  };
+}
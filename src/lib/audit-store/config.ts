@@ -0,0 +1,20 @@
+import { parsePositiveInt } from "@/lib/api/rate-limit";
+import type { AuditRetention } from "./types";
+
+const MAX_RETENTION_DAYS = 36_500;
+const MAX_RETENTION_EVENTS = 1_000_000_000;
+
+/**
+ * How long the durable store keeps events: `AUDIT_RETENTION_DAYS` and
+ * `AUDIT_RETENTION_MAX_EVENTS`, each unset or 0 for no limit. Neither is set by
+ * default - an audit trail that forgets on its own is not one a compliance review
+ * accepts, so forgetting is something an operator turns on.
+ */
+export function readAuditRetention(env: Record<string, string | undefined> = process.env): AuditRetention {
+  const maxAgeDays = parsePositiveInt(env.AUDIT_RETENTION_DAYS, 0, MAX_RETENTION_DAYS);
+  const maxEvents = parsePositiveInt(env.AUDIT_RETENTION_MAX_EVENTS, 0, MAX_RETENTION_EVENTS);
+  return {
+    ...(maxAgeDays > 0 ? { maxAgeDays } : {}),
+    ...(maxEvents > 0 ? { maxEvents } : {}),
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Where the running store writer is kept: on globalThis, like the SIEM sink queues
+ * (`src/lib/audit-sinks/health.ts`), because instrumentation starts it and
+ * `GET /api/admin/audit` reads its health from another bundle.
+ */
+
+import type { AuditStoreHealth, AuditStoreWriter } from "./writer";
+
+const STORE_KEY = Symbol.for("libredb-studio.audit-store");
+
+type StoreHolder = { [STORE_KEY]?: AuditStoreWriter };
+
+export function runningAuditStore(): AuditStoreWriter | undefined {
+  return (globalThis as StoreHolder)[STORE_KEY];
+}
+
+export function setRunningAuditStore(writer: AuditStoreWriter): void {
+  (globalThis as StoreHolder)[STORE_KEY] = writer;
+}
+
+/** The writer's state, or null when this process is not storing the trail. */
+export function getAuditStoreHealth(): AuditStoreHealth | null {
+  return runningAuditStore()?.health() ?? null;
+}
@@ -0,0 +1,71 @@
+import type { AuditEventType, AuditReason } from "@/lib/audit";
+import type { AuditEventQuery } from "./types";
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+/** An export is one response; a longer range is exported in several, each verifiable alone. */
+export const MAX_EXPORT_SIZE = 10_000;
+
+/** A query parameter the audit routes cannot use; the message names it. */
+export class AuditQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuditQueryError";
+  }
+}
+
+function readTimestamp(params: URLSearchParams, name: string): string | undefined {
+  const value = params.get(name)?.trim();
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new AuditQueryError(`${name} must be an ISO date or timestamp`);
+  // Stored timestamps are ISO strings in UTC and compared as text, so a bound has to be one too.
+  return new Date(time).toISOString();
+}
+
+function readCount(params: URLSearchParams, name: string, fallback: number, max: number): number {
+  const value = params.get(name)?.trim();
+  if (!value) return fallback;
+  if (!/^\d+$/.test(value)) throw new AuditQueryError(`${name} must be a whole number`);
+  return Math.min(Number(value), max);
+}
+
+/**
+ * `GET /api/admin/audit`'s search parameters as a query: `type`, `user`,
+ * `connection`, `reason`, `result`, `since`, `until`, `limit` (100, at most 500)
+ * and `offset`. Names and values are matched exactly; a value no event carries
+ * simply matches nothing.
+ */
+export function readAuditQuery(params: URLSearchParams): AuditEventQuery {
+  const text = (name: string) => params.get(name)?.trim() || undefined;
+  const result = text("result");
+  if (result !== undefined && result !== "success" && result !== "failure") {
+    throw new AuditQueryError('result must be "success" or "failure"');
+  }
+  return {
+    type: text("type") as AuditEventType | undefined,
+    user: text("user"),
+    connectionName: text("connection"),
+    reason: text("reason") as AuditReason | undefined,
+    result,
+    since: readTimestamp(params, "since"),
+    until: readTimestamp(params, "until"),
+    order: "newest",
+    limit: Math.max(1, readCount(params, "limit", DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)),
+    offset: readCount(params, "offset", 0, Number.MAX_SAFE_INTEGER),
+  };
+}
+
+/**
+ * An export's range: `since` and `until` only, oldest first. Other filters would
+ * leave gaps the chain cannot be verified across, so they are not taken.
+ */
+export function readAuditExportRange(params: URLSearchParams): AuditEventQuery {
+  return {
+    since: readTimestamp(params, "since"),
+    until: readTimestamp(params, "until"),
+    order: "oldest",
+    limit: Math.max(1, readCount(params, "limit", MAX_EXPORT_SIZE, MAX_EXPORT_SIZE)),
+    offset: readCount(params, "offset", 0, Number.MAX_SAFE_INTEGER),
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Starting the durable audit store: once per process, from `instrumentation.ts`,
+ * and only with server storage. Every event `emitAuditEvent` stores is then
+ * written through the recorder it looks up on globalThis, and retention runs at
+ * boot and every `PRUNE_INTERVAL_MS` after.
+ */
+
+import { setAuditRecorder } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import { getStorageProvider, isServerStorageEnabled } from "@/lib/storage/factory";
+import type { ServerStorageProvider } from "@/lib/storage/types";
+import { readAuditRetention } from "./config";
+import { runningAuditStore, setRunningAuditStore } from "./health";
+import type { AuditRetention } from "./types";
+import { AuditStoreWriter } from "./writer";
+
+const PRUNE_INTERVAL_MS = 60 * 60_000;
+const DAY_MS = 24 * 60 * 60_000;
+
+/** Delete what `retention` no longer keeps at `now`; resolves with how many events went. */
+export async function pruneAuditStore(
+  provider: ServerStorageProvider,
+  retention: AuditRetention,
+  now: Date = new Date(),
+): Promise<number> {
+  if (retention.maxAgeDays === undefined && retention.maxEvents === undefined) return 0;
+  return provider.pruneAuditEvents({
+    ...(retention.maxAgeDays !== undefined
+      ? { before: new Date(now.getTime() - retention.maxAgeDays * DAY_MS).toISOString() }
+      : {}),
+    ...(retention.maxEvents !== undefined ? { keepLatest: retention.maxEvents } : {}),
+  });
+}
+
+/**
+ * Start storing every audit event, unless storage is local; returns whether it
+ * started. A second call changes nothing.
+ */
+export function startAuditStore(env: Record<string, string | undefined> = process.env): boolean {
+  if (runningAuditStore()) return true;
+  if (!isServerStorageEnabled()) return false;
+
+  const writer = new AuditStoreWriter(getStorageProvider);
+  setRunningAuditStore(writer);
+  setAuditRecorder((event) => writer.record(event));
+
+  const retention = readAuditRetention(env);
+  const prune = async () => {
+    try {
+      const provider = await getStorageProvider();
+      if (!provider) return;
+      const removed = await pruneAuditStore(provider, retention);
+      if (removed > 0) logger.info("Audit events pruned", { route: "audit-store", removed });
+    } catch (error) {
+      logger.error("Audit retention failed", error, { route: "audit-store" });
+    }
+  };
+  if (retention.maxAgeDays !== undefined || retention.maxEvents !== undefined) {
+    void prune();
+    // The prune must never be what keeps a process alive that is otherwise done.
+    setInterval(() => void prune(), PRUNE_INTERVAL_MS).unref?.();
+  }
+
+  logger.info("Audit store started", {
+    route: "audit-store",
+    retentionDays: retention.maxAgeDays ?? "unlimited",
+    retentionEvents: retention.maxEvents ?? "unlimited",
+  });
+  return true;
+}
@@ -0,0 +1,95 @@
+import type { AuditEvent } from "@/lib/audit";
+import type { AuditEventQuery, StoredAuditEvent } from "./types";
+
+/**
+ * The `audit_events` table, the same in both providers but for the type of `seq`.
+ * The filter columns are copied out of `event` so each gets an index; `event`
+ * itself is the JSON the hash was computed over, and what is read back.
+ */
+export function auditEventsDdl(seqType: "INTEGER" | "BIGINT"): string {
+  return `
+    CREATE TABLE IF NOT EXISTS audit_events (
+      seq             ${seqType} PRIMARY KEY,
+      ts              TEXT NOT NULL,
+      type            TEXT NOT NULL,
+      user_name       TEXT NOT NULL,
+      connection_name TEXT,
+      reason          TEXT,
+      result          TEXT NOT NULL,
+      event           TEXT NOT NULL,
+      prev_hash       TEXT NOT NULL,
+      hash            TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS audit_events_ts ON audit_events (ts);
+    CREATE INDEX IF NOT EXISTS audit_events_type ON audit_events (type, ts);
+    CREATE INDEX IF NOT EXISTS audit_events_user ON audit_events (user_name, ts);
+    CREATE INDEX IF NOT EXISTS audit_events_connection ON audit_events (connection_name, ts);
+    CREATE INDEX IF NOT EXISTS audit_events_reason ON audit_events (reason, ts)`;
+}
+
+export const INSERT_AUDIT_EVENT_COLUMNS =
+  "seq, ts, type, user_name, connection_name, reason, result, event, prev_hash, hash";
+
+/** One stored event as the values for `INSERT_AUDIT_EVENT_COLUMNS`, in that order. */
+export function auditEventValues(stored: StoredAuditEvent): unknown[] {
+  const { event } = stored;
+  return [
+    stored.seq,
+    event.timestamp,
+    event.type,
+    event.user,
+    event.connectionName ?? null,
+    event.reason ?? null,
+    event.result,
+    JSON.stringify(event),
+    stored.prevHash,
+    stored.hash,
+  ];
+}
+
+/**
+ * The WHERE clause for a query's filters, with its values in order. The
+ * placeholder is the provider's own (`?` or `$1`), and every value is bound,
+ * never spliced into the text.
+ */
+export function auditWhereClause(
+  query: AuditEventQuery,
+  placeholder: (index: number) => string,
+): { where: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const add = (sql: string, value: unknown) => {
+    params.push(value);
+    conditions.push(`${sql} ${placeholder(params.length)}`);
+  };
+  if (query.type) add("type =", query.type);
+  if (query.user) add("user_name =", query.user);
+  if (query.connectionName) add("connection_name =", query.connectionName);
+  if (query.reason) add("reason =", query.reason);
+  if (query.result) add("result =", query.result);
+  if (query.since) add("ts >=", query.since);
+  if (query.until) add("ts <", query.until);
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "", params };
+}
+
+export interface AuditEventRow {
+  seq: number | string;
+  event: string;
+  prev_hash: string;
+  hash: string;
+}
+
+/** A row back as a stored event, or null when its JSON no longer parses. */
+export function rowToStoredAuditEvent(row: AuditEventRow): StoredAuditEvent | null {
+  try {
+    // Postgres hands a BIGINT back as a string.
+    return {
+      seq: Number(row.seq),
+      event: JSON.parse(row.event) as AuditEvent,
+      prevHash: row.prev_hash,
+      hash: row.hash,
+    };
+  } catch {
+    return null;
+  }
+}
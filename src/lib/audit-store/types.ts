@@ -0,0 +1,55 @@
+import type { AuditEvent, AuditEventType, AuditReason } from "@/lib/audit";
+
+/**
+ * One audit event as the durable store keeps it (`audit_events` in the storage
+ * provider): the sanitized event `emitAuditEvent` produced, its place in the
+ * deployment's sequence, and the hash that links it to the event before it.
+ *
+ * `hash` is SHA-256 over `seq`, `prevHash` and the event's canonical JSON
+ * (`./chain.ts`), so changing, removing or reordering a stored event breaks the
+ * link every later event carries. The first event ever stored links to
+ * `GENESIS_HASH`; the first one left after retention has pruned links to one that
+ * is gone, which is why a range is verified on its own links and not back to
+ * genesis.
+ */
+export interface StoredAuditEvent {
+  seq: number;
+  event: AuditEvent;
+  prevHash: string;
+  hash: string;
+}
+
+/**
+ * Filters over the indexed columns; every one is optional and they combine with
+ * AND. `since` is inclusive and `until` exclusive, both ISO timestamps, so
+ * consecutive ranges never share an event.
+ */
+export interface AuditEventQuery {
+  type?: AuditEventType;
+  user?: string;
+  connectionName?: string;
+  reason?: AuditReason;
+  result?: "success" | "failure";
+  since?: string;
+  until?: string;
+  /** `newest` for the admin list, `oldest` for an export a verifier walks forwards. */
+  order: "newest" | "oldest";
+  limit: number;
+  offset: number;
+}
+
+export interface AuditEventPage {
+  events: StoredAuditEvent[];
+  /** Every event the filters match, not only this page's. */
+  total: number;
+}
+
+/**
+ * What retention removes, oldest first: events older than `maxAgeDays`, then all
+ * but the newest `maxEvents`. Either alone, both, or neither - which keeps
+ * everything.
+ */
+export interface AuditRetention {
+  maxAgeDays?: number;
+  maxEvents?: number;
+}
@@ -0,0 +1,137 @@
+import type { AuditEvent } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import type { ServerStorageProvider } from "@/lib/storage/types";
+import { chainAuditEvents } from "./chain";
+import type { StoredAuditEvent } from "./types";
+
+/** Events the store may fall behind by before the oldest are dropped. */
+const MAX_PENDING = 10_000;
+/** Events chained and written in one transaction. */
+const MAX_BATCH = 100;
+const FIRST_RETRY_MS = 1_000;
+const MAX_RETRY_MS = 5 * 60_000;
+/** Bounds a driver's error message before an admin is shown it. */
+const MAX_ERROR_LENGTH = 200;
+
+export interface AuditStoreHealth {
+  status: "idle" | "healthy" | "retrying";
+  /** Events written since boot. */
+  stored: number;
+  pending: number;
+  dropped: number;
+  failures: number;
+  lastError?: string;
+}
+
+interface AuditStoreWriterOptions {
+  maxPending?: number;
+  firstRetryMs?: number;
+}
+
+/**
+ * Writes the audit events this process emits into the storage provider, in order,
+ * each chained to the one stored before it (`./chain.ts`).
+ *
+ * The head of the chain is read from the store, not remembered across failures: a
+ * write that fails may have lost a race with another replica on the same database
+ * (`seq` is the primary key, so the loser's batch is refused whole), and the retry
+ * has to chain onto what that replica wrote. A store that stays down loses its
+ * oldest pending events the way a SIEM sink does (`src/lib/audit-sinks/queue.ts`),
+ * and says so in `dropped`; stdout has the line either way.
+ */
+export class AuditStoreWriter {
+  private pending: AuditEvent[] = [];
+  /** The newest stored event; undefined until read from the store, null before the first. */
+  private head: Pick<StoredAuditEvent, "seq" | "hash"> | null | undefined = undefined;
+  private writing = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private stopped = false;
+  private readonly state: Omit<AuditStoreHealth, "pending"> = { status: "idle", stored: 0, dropped: 0, failures: 0 };
+  private readonly maxPending: number;
+  private readonly firstRetryMs: number;
+
+  constructor(
+    private readonly provider: () => Promise<ServerStorageProvider | null>,
+    options: AuditStoreWriterOptions = {},
+  ) {
+    this.maxPending = options.maxPending ?? MAX_PENDING;
+    this.firstRetryMs = options.firstRetryMs ?? FIRST_RETRY_MS;
+  }
+
+  record(event: AuditEvent): void {
+    if (this.stopped) return;
+    this.pending.push(event);
+    this.trim();
+    void this.flush();
+  }
+
+  health(): AuditStoreHealth {
+    return { ...this.state, pending: this.pending.length };
+  }
+
+  /** Resolves once nothing is pending or in flight, or a failure has scheduled a retry. */
+  async idle(): Promise<void> {
+    while (this.writing) await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private trim(): void {
+    const excess = this.pending.length - this.maxPending;
+    if (excess > 0) {
+      this.pending.splice(0, excess);
+      this.state.dropped += excess;
+    }
+  }
+
+  private async flush(): Promise<void> {
+    if (this.writing || this.timer || this.stopped) return;
+    this.writing = true;
+    try {
+      while (this.pending.length > 0 && !this.stopped) {
+        const batch = this.pending.splice(0, MAX_BATCH);
+        try {
+          const provider = await this.provider();
+          if (!provider) throw new Error("Server storage is not configured");
+          if (this.head === undefined) this.head = await provider.getLastAuditEvent();
+          const chained = chainAuditEvents(this.head, batch);
+          await provider.appendAuditEvents(chained);
+          this.head = chained[chained.length - 1];
+        } catch (error) {
+          this.pending.unshift(...batch);
+          this.trim();
+          this.head = undefined;
+          this.scheduleRetry(error);
+          return;
+        }
+        this.state.stored += batch.length;
+        this.state.failures = 0;
+        this.state.status = "healthy";
+      }
+    } finally {
+      this.writing = false;
+    }
+  }
+
+  private scheduleRetry(error: unknown): void {
+    this.state.failures += 1;
+    this.state.status = "retrying";
+    this.state.lastError = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+    logger.error("Audit store write failed", error, {
+      route: "audit-store",
+      pending: this.pending.length,
+      failures: this.state.failures,
+    });
+    const delay = Math.min(this.firstRetryMs * 2 ** (this.state.failures - 1), MAX_RETRY_MS);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, delay);
+    // A store that is down must never be what keeps a finished process alive.
+    this.timer.unref?.();
+  }
+}
@@ -16,6 +16,55 @@ export type AuditEventType =
    * to run (#328).
    */
   | "agent_operation"
+  /**
+   * A migration applied through `POST /api/db/migrations`, successful or not. Its
+   * own type because a schema change is what an operator reconstructs an outage
+   * from, and the ledger on the target database can be dropped with it.
+   */
+  | "schema_migration"
+  /**
+   * A scheduled query's result crossing its threshold (`src/lib/scheduler/`). The only
+   * scheduler event in the log: one per run would bury everything else under a query
+   * that runs every minute, and the run history is where a run is looked up.
+   */
+  | "scheduled_query"
+  /**
+   * A change to a stored login (`src/lib/accounts/`): an admin's invite, reset,
+   * disable, enable or role change, and the user's own password setup. `user` is who
+   * made the change and `target` the account it was made to.
+   */
+  | "user_account"
+  /**
+   * An admin saving or deleting a custom role (`src/lib/access/`). `target` is the
+   * role; what it grants is read from the role itself, which is one request away.
+   */
+  | "access_role"
+  /**
+   * A write on an `approval` connection moving through the queue
+   * (`src/lib/change-requests/`): `submit` by its requester, `approve` or `reject`
+   * by its reviewer, and `execute` with the statement's outcome. All of one
+   * request's events share its id as `correlationId`, which is how the two people
+   * behind one change are read together.
+   */
+  | "change_request"
+  /**
+   * A user creating or revoking one of their personal API tokens
+   * (`src/lib/api-tokens/`). `target` is the token's id, never its secret; what a
+   * token is then used for is recorded on the events of those requests, under
+   * `tokenId`.
+   */
+  | "api_token"
+  /**
+   * An admin saving the masking policy (`src/lib/masking/`). What it masks is read
+   * from the policy itself, which is one request away.
+   */
+  | "masking_policy"
+  /**
+   * Someone reading values the masking policy masks: one revealed in the grid
+   * (`action: "reveal"`, with its column and row in `details`), or a whole export or
+   * data diff asked for unmasked. The values themselves are never recorded.
+   */
+  | "data_unmasked"
   // Phase 1 auth events
   | "login_success"
   | "login_failure"
@@ -32,7 +81,19 @@ export type AuditReason =
   | "bad_credentials"
   | "malformed_body"
   | "no_session"
+  // An Authorization: Bearer value that is no live API token - unknown, expired, or its
+  // account's sessions were ended. Apart from no_session so a leaked or stale CI secret
+  // being replayed reads as what it is.
+  | "invalid_api_token"
+  // A live API token on a route its scopes do not cover.
+  | "insufficient_scope"
   | "insufficient_role"
+  // A connection's write policy refused a write its caller's role would allow
+  // (src/lib/access/write-policy.ts).
+  | "read_only_connection"
+  | "approval_required"
+  // A reviewer deciding a change request they submitted themselves.
+  | "self_approval"
   | "origin_mismatch"
   | "rate_limited"
   | "oidc_state_missing"
@@ -40,6 +101,9 @@ export type AuditReason =
   | "oidc_no_claims"
   | "oidc_failed"
   | "oidc_config"
+  // The LDAP directory could not be reached, or refused a search the login needed - the
+  // login was never decided, unlike bad_credentials.
+  | "ldap_unavailable"
   // Agent execution path (#328). The thirteen `agent_*` codes below mirror
   // `PolicyDenyCode` one-for-one, plus the two outcomes that are not policy
   // denials: an operation that may only ever require approval, and a provider
@@ -105,10 +169,16 @@ export interface AuditEvent {
    * decision allowed it, the execution outcome. Server-generated per execution
    * (src/lib/db/operations/execution.ts) and opaque — it identifies an
    * execution, never a session, a user or a token, so it stays safe to log
-   * while remaining the key an operator groups by. Only `agent_operation`
-   * events set it.
+   * while remaining the key an operator groups by. `agent_operation` events set
+   * it, and `change_request` events, with the request's id, on the same terms.
    */
   correlationId?: string;
+  /**
+   * The personal API token the request authenticated with (`src/lib/api-tokens/`),
+   * when it was not a browser session: its public id, which names the token on its
+   * owner's profile page, and never anything that would use it.
+   */
+  tokenId?: string;
 }
 
 const MAX_EVENTS = 1000;
@@ -122,9 +192,13 @@ const MAX_EVENTS = 1000;
  */
 interface AuditFilterOptions {
   type?: AuditEventType;
+  user?: string;
+  reason?: AuditReason;
   result?: "success" | "failure";
   connectionName?: string;
   since?: string;
+  /** Exclusive, like the durable store's (src/lib/audit-store/). */
+  until?: string;
 }
 
 export class AuditRingBuffer {
@@ -159,9 +233,12 @@ export class AuditRingBuffer {
   filter(opts: AuditFilterOptions): AuditEvent[] {
     return this.events.filter((e) => {
       if (opts.type && e.type !== opts.type) return false;
+      if (opts.user && e.user !== opts.user) return false;
+      if (opts.reason && e.reason !== opts.reason) return false;
       if (opts.result && e.result !== opts.result) return false;
       if (opts.connectionName && e.connectionName !== opts.connectionName) return false;
       if (opts.since && e.timestamp < opts.since) return false;
+      if (opts.until && e.timestamp >= opts.until) return false;
       return true;
     });
   }
@@ -382,9 +459,10 @@ export function sanitizeAuditInput(event: Omit<AuditEvent, "id" | "timestamp">):
 
 /**
  * The stdout record. Built as an explicit allowlist, never as a spread of a wider object, so that
- * a field added to AuditEvent later cannot silently start being logged.
+ * a field added to AuditEvent later cannot silently start being logged. It is also the only shape
+ * the SIEM sinks (src/lib/audit-sinks/) are handed, so that allowlist is theirs too.
  */
-interface AuditLogLine {
+export interface AuditLogLine {
   schema: string;
   ts: string;
   id: string;
@@ -399,6 +477,7 @@ interface AuditLogLine {
   duration_ms?: number;
   bucket?: string;
   correlation_id?: string;
+  token_id?: string;
 }
 
 function toAuditLine(event: AuditEvent): AuditLogLine {
@@ -416,6 +495,7 @@ function toAuditLine(event: AuditEvent): AuditLogLine {
     ...(event.connectionName ? { connection: event.connectionName } : {}),
     ...(event.bucket ? { bucket: event.bucket } : {}),
     ...(event.correlationId ? { correlation_id: event.correlationId } : {}),
+    ...(event.tokenId ? { token_id: event.tokenId } : {}),
     // Number.isFinite excludes NaN and +/-Infinity: JSON.stringify(NaN) silently produces `null`,
     // which would flip duration_ms from a number to null for that one line in a contract parsers
     // depend on. Omitting it entirely keeps the field's type stable instead.
@@ -423,6 +503,39 @@ function toAuditLine(event: AuditEvent): AuditLogLine {
   };
 }
 
+/**
+ * Where `emitAuditEvent` hands each line after writing it to stdout, when the operator has
+ * configured a sink (`startAuditSinks` in src/lib/audit-sinks/registry.ts sets it at boot). On
+ * globalThis under a Symbol.for key for the reason the sqlite sample's seed state is: Next.js
+ * bundles instrumentation and each route handler separately, and a module-level variable set in
+ * one would never be seen by the others. This module reaches no further than the key - it is
+ * imported by the browser too, and the sinks need node:fs, node:dgram and node:net.
+ */
+const AUDIT_FORWARDER_KEY = Symbol.for("libredb-studio.audit-forwarder");
+
+type AuditForwarderHolder = { [AUDIT_FORWARDER_KEY]?: (line: AuditLogLine) => void };
+
+export function setAuditForwarder(forward: ((line: AuditLogLine) => void) | null): void {
+  if (forward) (globalThis as AuditForwarderHolder)[AUDIT_FORWARDER_KEY] = forward;
+  else delete (globalThis as AuditForwarderHolder)[AUDIT_FORWARDER_KEY];
+}
+
+/**
+ * Where `emitAuditEvent` hands each stored event when server storage keeps the trail
+ * (`startAuditStore` in src/lib/audit-store/registry.ts sets it at boot). Kept apart
+ * from the forwarder for the reason `AuditLogLine` is an allowlist: the durable store
+ * is read back by an admin as the ring buffer is and takes the whole sanitized event,
+ * while a sink leaving the process gets only the line.
+ */
+const AUDIT_RECORDER_KEY = Symbol.for("libredb-studio.audit-recorder");
+
+type AuditRecorderHolder = { [AUDIT_RECORDER_KEY]?: (event: AuditEvent) => void };
+
+export function setAuditRecorder(record: ((event: AuditEvent) => void) | null): void {
+  if (record) (globalThis as AuditRecorderHolder)[AUDIT_RECORDER_KEY] = record;
+  else delete (globalThis as AuditRecorderHolder)[AUDIT_RECORDER_KEY];
+}
+
 /**
  * The single entry point for an audit event. It does exactly two things:
  *
@@ -434,7 +547,9 @@ function toAuditLine(event: AuditEvent): AuditLogLine {
  *    all 27 distribution channels with no dependency, and it is what a log pipeline consumes.
  *
  * The line is NOT gated by LOG_LEVEL. Audit emission is unconditional; logger.ts remains the
- * human-readable channel and is not repurposed.
+ * human-readable channel and is not repurposed. The same line, and nothing more, is then queued
+ * for any configured SIEM sink, and the stored event for the durable store when server storage is
+ * on; queuing never waits on the network or the database and never throws.
  *
  * What must never be recorded here: passwords or any credential material, JWTs, cookies or
  * Authorization values, OIDC tokens, code or code_verifier or raw claims, connection strings,
@@ -446,7 +561,10 @@ export function emitAuditEvent(event: Omit<AuditEvent, "id" | "timestamp">): Aud
   const stored = getServerAuditBuffer().push(sanitizeAuditInput(event));
   // JSON.stringify escapes newlines and control characters, so an attacker-controlled actor
   // cannot forge a second log line. This is why the audit channel does not reuse logger.ts.
-  console.log(JSON.stringify(toAuditLine(stored)));
+  const line = toAuditLine(stored);
+  console.log(JSON.stringify(line));
+  (globalThis as AuditForwarderHolder)[AUDIT_FORWARDER_KEY]?.(line);
+  (globalThis as AuditRecorderHolder)[AUDIT_RECORDER_KEY]?.(stored);
   return stored;
 }
 
@@ -1,7 +1,9 @@
+import { randomUUID } from "node:crypto";
 import { SignJWT, jwtVerify } from "jose";
 import { cookies, headers } from "next/headers";
 import { logger } from "@/lib/logger";
 import { getJwtSecret } from "@/lib/config/auth-env";
+import { isAccountSessionCurrent } from "@/lib/accounts/session";
 
 // getJwtSecret is called per sign/verify rather than at module load, so a
 // misconfigured JWT_SECRET surfaces as an AuthConfigError the login route can turn
@@ -20,6 +22,33 @@ export type Role = "admin" | "user";
 export interface UserPayload {
   role: Role;
   username: string;
+  /**
+   * Set on the sessions of accounts kept in server storage (`src/lib/accounts/`),
+   * which getSession() checks against the store: unlike an env account, one can
+   * be disabled, reset or given another role while its token is still live.
+   */
+  account?: true;
+  /**
+   * The OIDC role-claim values this session signed in with that name a custom
+   * role or one of its groups (`src/lib/access/`). Only those: a directory can put
+   * hundreds of groups in the claim, and the cookie has to carry what is kept.
+   */
+  groups?: string[];
+  /** Issued-at, in seconds; set by signJWT(), read back by verifyJWT(). */
+  iat?: number;
+  /**
+   * This sign-in's own id, set by login(). What a session holds from one request to
+   * the next - an open transaction (`src/lib/db/transactions.ts`) - is keyed by it
+   * rather than by username, which two browsers or two people sharing an env
+   * account have in common. Read it through `sessionIdOf` (`src/lib/api/require-session.ts`).
+   */
+  sid?: string;
+  /**
+   * The personal API token a request authenticated with (`src/lib/api-tokens/`).
+   * Never in a JWT: only `guardRoute` sets it, on the session it builds from an
+   * `Authorization: Bearer` header, and audit events made for that session carry it.
+   */
+  tokenId?: string;
 }
 
 export async function signJWT(payload: UserPayload) {
@@ -50,7 +79,9 @@ export async function getSession() {
   const cookieStore = await cookies();
   const token = cookieStore.get("auth-token")?.value;
   if (!token) return null;
-  return await verifyJWT(token);
+  const session = await verifyJWT(token);
+  if (session?.account && !(await isAccountSessionCurrent(session))) return null;
+  return session;
 }
 
 /** Hosts whose traffic never leaves the machine (port is stripped before the check). */
@@ -145,8 +176,8 @@ export async function shouldMarkCookieSecure(): Promise<boolean> {
   }
 }
 
-export async function login(role: Role, username?: string) {
-  const token = await signJWT({ role, username: username || role });
+export async function login(role: Role, username?: string, options: { account?: true; groups?: string[] } = {}) {
+  const token = await signJWT({ role, username: username || role, sid: randomUUID(), ...options });
   const cookieStore = await cookies();
   cookieStore.set("auth-token", token, {
     httpOnly: true,
@@ -0,0 +1,34 @@
+import { emitAuditEvent, type AuditEvent } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import type { ChangeRequest } from "./types";
+
+export type ChangeRequestAction = "submit" | "approve" | "reject" | "execute";
+
+/**
+ * Record one step of `request`, keyed by its id, so the requester's `submit` and
+ * the reviewer's `approve` read as one change. Never the statement itself: SQL
+ * text is not audit material (`src/lib/audit.ts`), and the queue keeps it.
+ *
+ * Isolated like every other audit line here: the step has already happened.
+ */
+export function recordChangeRequestEvent(
+  action: ChangeRequestAction,
+  request: ChangeRequest,
+  user: string,
+  outcome: Pick<AuditEvent, "result" | "duration"> = { result: "success" },
+  route = "change-requests",
+): void {
+  try {
+    emitAuditEvent({
+      type: "change_request",
+      action,
+      target: request.seedId ?? "own connection",
+      connectionName: request.connectionName,
+      user,
+      correlationId: request.id,
+      ...outcome,
+    });
+  } catch (auditError) {
+    logger.error("Failed to record change_request audit event", auditError, { route });
+  }
+}
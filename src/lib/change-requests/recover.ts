@@ -0,0 +1,32 @@
+import { logger } from "@/lib/logger";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { recordChangeRequestEvent } from "./audit";
+import { recoverInterruptedChangeRequests } from "./store";
+
+/**
+ * Settle the change requests a previous run of the server left `executing`, each
+ * with the failed `execute` line its run never wrote, in the reviewer's name.
+ * Called from `instrumentation.ts` without being waited on; storage that is not up
+ * yet leaves them for the next boot, with a warning.
+ */
+export async function recoverChangeRequestsAtBoot(): Promise<void> {
+  try {
+    const storage = await getStorageProvider();
+    if (!storage) return;
+    const interrupted = await recoverInterruptedChangeRequests(storage);
+    for (const request of interrupted) {
+      recordChangeRequestEvent("execute", request, request.reviewedBy ?? "unknown", { result: "failure" }, "boot");
+    }
+    if (interrupted.length > 0) {
+      logger.warn("Change requests interrupted mid-run were marked failed", {
+        route: "instrumentation",
+        ids: interrupted.map((r) => r.id),
+      });
+    }
+  } catch (error) {
+    logger.warn("Interrupted change requests could not be recovered", {
+      route: "instrumentation",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import { editorExecution } from "@/lib/access/editor-execution";
+import { getSeedConnectionByIdUnfiltered } from "@/lib/seed";
+import type { ChangeRequest } from "./types";
+
+class ChangeRequestTargetError extends Error {
+  constructor(readonly connectionName: string) {
+    super(`Connection "${connectionName}" no longer exists`);
+    this.name = "ChangeRequestTargetError";
+  }
+}
+
+/**
+ * Run an approved request's `preview` on the connection it targets, through
+ * `editorExecution` as an approved write - the path the editor's writes take - and
+ * inside a transaction where the engine holds one, so a statement that fails part
+ * way leaves nothing behind. No write policy is asked here: the policy is what sent
+ * the statement to the queue, and the approval is its answer.
+ *
+ * A seed connection is read from the config as it is now rather than as it was
+ * when the request was submitted; the reviewer approved a statement on a
+ * connection, not a credential.
+ */
+export async function runChangeRequest(request: ChangeRequest): Promise<{ rowCount: number; executionTime: number }> {
+  const connection = request.seedId ? await getSeedConnectionByIdUnfiltered(request.seedId) : request.connection;
+  if (!connection) throw new ChangeRequestTargetError(request.connectionName);
+
+  const execution = await editorExecution(connection, { approvedWrite: true });
+  const handle = execution.openTransaction ? await execution.openTransaction() : null;
+  try {
+    const result = await (handle ?? execution).query(request.preview, request.params);
+    await handle?.commit();
+    return { rowCount: result.rowCount, executionTime: result.executionTime };
+  } catch (error) {
+    // Rolling back is best effort; the error worth recording is the one that stopped the statement.
+    await handle?.rollback().catch(() => {});
+    throw error;
+  }
+}
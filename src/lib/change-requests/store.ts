@@ -0,0 +1,80 @@
+import type { ServerStorageProvider } from "@/lib/storage/types";
+import type { ChangeRequest, ChangeRequestView } from "./types";
+
+/**
+ * The storage row the change requests are kept under. The queue belongs to the
+ * deployment rather than to whoever submitted to it, and `change_requests` is
+ * server-only, so no session can read or write it through `/api/storage`.
+ */
+export const CHANGE_REQUESTS_OWNER = "libredb:change-requests";
+
+/**
+ * The most decided requests kept; deciding one past it drops the oldest. A
+ * pending request is never dropped - it is somebody's write, still waiting.
+ */
+const MAX_DECIDED_REQUESTS = 200;
+
+export async function readChangeRequests(provider: ServerStorageProvider): Promise<ChangeRequest[]> {
+  return (await provider.getCollection(CHANGE_REQUESTS_OWNER, "change_requests")) ?? [];
+}
+
+/**
+ * Replace the requests with what `update` makes of them, read and written in one
+ * storage transaction (`ServerStorageProvider.updateCollection`). That is what
+ * makes approving safe to repeat, on one server or on several sharing the storage:
+ * the first approval moves a request out of `pending` before the second one reads
+ * it. `update` must not wait on anything - the row is held while it runs.
+ */
+export async function updateChangeRequests<T>(
+  provider: ServerStorageProvider,
+  update: (current: ChangeRequest[]) => { requests: ChangeRequest[]; result: T },
+): Promise<T> {
+  let result!: T;
+  await provider.updateCollection(CHANGE_REQUESTS_OWNER, "change_requests", (current) => {
+    const next = update(current ?? []);
+    result = next.result;
+    return pruneDecided(next.requests);
+  });
+  return result;
+}
+
+/**
+ * What a request still `executing` when a server starts is taken to be. Its
+ * statement may or may not have reached the database, and it is never run again:
+ * whoever approved it checks the database and submits it anew if it did not.
+ */
+export const INTERRUPTED_ERROR =
+  "The server stopped while this request was running, so whether it was applied is unknown. Check the database before submitting it again.";
+
+/**
+ * Mark every request still `executing` as failed with `INTERRUPTED_ERROR`, and
+ * return them. Run once at boot: the process that claimed one is gone, and nothing
+ * else would ever move it on. With several servers sharing the storage, one that
+ * boots while another is mid-run marks that request too; the running server still
+ * writes its real outcome over the mark when the statement ends.
+ */
+export function recoverInterruptedChangeRequests(provider: ServerStorageProvider): Promise<ChangeRequest[]> {
+  return updateChangeRequests(provider, (current) => {
+    const interrupted: ChangeRequest[] = [];
+    const requests = current.map((request) => {
+      if (request.status !== "executing") return request;
+      const failed: ChangeRequest = { ...request, status: "failed", error: INTERRUPTED_ERROR };
+      interrupted.push(failed);
+      return failed;
+    });
+    return { requests, result: interrupted };
+  });
+}
+
+/** Requests are appended as they are submitted, so the oldest decided ones come first. */
+function pruneDecided(requests: ChangeRequest[]): ChangeRequest[] {
+  let excess = requests.filter((r) => r.status !== "pending").length - MAX_DECIDED_REQUESTS;
+  if (excess <= 0) return requests;
+  return requests.filter((r) => r.status === "pending" || excess-- <= 0);
+}
+
+/** What a response may carry: the requester's own connection stays on the server. */
+export function changeRequestView(request: ChangeRequest): ChangeRequestView {
+  const { connection: _connection, ...view } = request;
+  return view;
+}
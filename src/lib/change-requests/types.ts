@@ -0,0 +1,56 @@
+import type { Permission } from "@/lib/access/types";
+import type { DatabaseConnection, DatabaseType } from "@/lib/types";
+
+/**
+ * Where a change request is. `executing` is the stretch between an admin's
+ * approval and the statement's outcome: the approval moves the request there in
+ * the same storage write that finds it pending, so a second approval - on this
+ * server or another one sharing the storage - finds it taken instead of running it
+ * twice. A request still `executing` when a server starts was cut off mid-run
+ * (`recoverInterruptedChangeRequests`).
+ */
+export type ChangeRequestStatus = "pending" | "executing" | "rejected" | "executed" | "failed";
+
+/**
+ * A write on an `approval` connection (`src/lib/access/write-policy.ts`), held
+ * until someone other than its requester approves or rejects it. The statement
+ * never runs in the requester's session: on approval the server runs `preview`
+ * itself, so what the reviewer read is exactly what reaches the database.
+ */
+export interface ChangeRequest {
+  id: string;
+  /** The statement as the requester wrote it. */
+  sql: string;
+  /** `prepareQuery`'s reading of `sql` when it was submitted: what runs on approval. */
+  preview: string;
+  /** Values for `preview`'s placeholders, when the editor bound any. */
+  params?: unknown[];
+  /** What the statement needs, as the query route read it. */
+  permission: Permission;
+  connectionName: string;
+  databaseType: DatabaseType;
+  /**
+   * The seed connection it targets. Read from the seed config again when it runs,
+   * so a rotated credential or a connection removed meanwhile is what it meets.
+   */
+  seedId?: string;
+  /**
+   * The requester's own connection, when it targets one. Its secrets are sealed at
+   * rest like a stored connection's (`src/lib/storage/encrypting-provider.ts`), and
+   * it never leaves the server again: `changeRequestView` drops it.
+   */
+  connection?: DatabaseConnection;
+  requestedBy: string;
+  requestedAt: string;
+  status: ChangeRequestStatus;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  /** Set once it has run. */
+  rowCount?: number;
+  executionTime?: number;
+  /** The database's refusal, when it ran and failed. */
+  error?: string;
+}
+
+/** A change request as the queue shows it: everything but the connection it carries. */
+export type ChangeRequestView = Omit<ChangeRequest, "connection">;
@@ -0,0 +1,135 @@
+import { jsonText } from "@/lib/export/json";
+import type { DataDiff, RowDiff } from "./types";
+
+/**
+ * Thrown for a comparison that cannot give a true answer — no key to match rows by,
+ * a key that does not identify a row, a side too large to hold. The route answers it
+ * with 422 and the message as written, because each one names what to change.
+ */
+export class DataDiffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DataDiffError";
+  }
+}
+
+const DECIMAL = /^-?\d+(\.\d+)?$/;
+
+/**
+ * A value in the form two engines' spellings of it compare equal in.
+ *
+ * The two sides can be different drivers, and they disagree about types more than
+ * about data: `pg` hands a `bigint` or `numeric` back as a string while `mysql2`
+ * hands a number, a `numeric(10,2)` reads `1.50` where a float column reads `1.5`,
+ * and MySQL has no boolean but a `tinyint` holding 1. So a decimal loses its
+ * trailing zeros, a boolean becomes 1 or 0, and a date its ISO instant. Anything
+ * structured compares as its JSON text. NULL is its own marker, never the text
+ * `null`, so a column holding that word is not equal to one holding nothing.
+ */
+export function comparableValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "boolean") return value ? "1" : "0";
+  if (typeof value === "number" || typeof value === "bigint") return canonicalDecimal(String(value));
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) return Buffer.from(value).toString("hex");
+  if (typeof value === "object") return jsonText(value);
+  const text = String(value);
+  return DECIMAL.test(text) ? canonicalDecimal(text) : text;
+}
+
+function canonicalDecimal(text: string): string {
+  if (!DECIMAL.test(text)) return text;
+  const negative = text.startsWith("-");
+  const [whole, fraction = ""] = (negative ? text.slice(1) : text).split(".");
+  const digits = whole.replace(/^0+(?=\d)/, "");
+  const decimals = fraction.replace(/0+$/, "");
+  const canonical = decimals ? `${digits}.${decimals}` : digits;
+  return negative && canonical !== "0" ? `-${canonical}` : canonical;
+}
+
+function keyOf(row: Record<string, unknown>, keyColumns: readonly string[]): string {
+  return JSON.stringify(keyColumns.map((column) => comparableValue(row[column])));
+}
+
+function indexRows(
+  rows: readonly Record<string, unknown>[],
+  keyColumns: readonly string[],
+  side: "source" | "target",
+): Map<string, Record<string, unknown>> {
+  const index = new Map<string, Record<string, unknown>>();
+  for (const row of rows) {
+    const key = keyOf(row, keyColumns);
+    if (index.has(key)) {
+      const shown = keyColumns.map((column) => `${column}=${comparableValue(row[column]) ?? "NULL"}`).join(", ");
+      throw new DataDiffError(
+        `The ${side} has more than one row with ${shown}. The key columns must identify a row on both sides.`,
+      );
+    }
+    index.set(key, row);
+  }
+  return index;
+}
+
+/**
+ * Compare two row sets matched by `keyColumns`.
+ *
+ * Rows are matched by key, never by position, so the two sides may come back in any
+ * order. A key that two rows of one side share is refused rather than guessed at:
+ * either pairing would report a change that is an artefact of which row came first.
+ */
+export function diffRows(
+  source: { rows: readonly Record<string, unknown>[]; fields: readonly string[] },
+  target: { rows: readonly Record<string, unknown>[]; fields: readonly string[] },
+  keyColumns: readonly string[],
+): DataDiff {
+  if (keyColumns.length === 0) {
+    throw new DataDiffError("No key columns to match rows by. Choose the columns that identify a row.");
+  }
+  const targetFields = new Set(target.fields);
+  const sourceFields = new Set(source.fields);
+  for (const column of keyColumns) {
+    if (!sourceFields.has(column) || !targetFields.has(column)) {
+      throw new DataDiffError(`Key column "${column}" is not in both results.`);
+    }
+  }
+
+  const columns = source.fields.filter((field) => targetFields.has(field));
+  const compared = columns.filter((column) => !keyColumns.includes(column));
+  const sourceIndex = indexRows(source.rows, keyColumns, "source");
+  const targetIndex = indexRows(target.rows, keyColumns, "target");
+  const keyValues = (row: Record<string, unknown>) =>
+    Object.fromEntries(keyColumns.map((column) => [column, row[column]]));
+
+  const rows: RowDiff[] = [];
+  let unchanged = 0;
+  for (const [key, sourceRow] of sourceIndex) {
+    const targetRow = targetIndex.get(key);
+    if (!targetRow) {
+      rows.push({ action: "inserted", key: keyValues(sourceRow), source: sourceRow, changedColumns: [] });
+      continue;
+    }
+    const changedColumns = compared.filter(
+      (column) => comparableValue(sourceRow[column]) !== comparableValue(targetRow[column]),
+    );
+    if (changedColumns.length === 0) {
+      unchanged++;
+    } else {
+      rows.push({ action: "changed", key: keyValues(sourceRow), source: sourceRow, target: targetRow, changedColumns });
+    }
+  }
+  for (const [key, targetRow] of targetIndex) {
+    if (!sourceIndex.has(key)) {
+      rows.push({ action: "deleted", key: keyValues(targetRow), target: targetRow, changedColumns: [] });
+    }
+  }
+
+  const count = (action: RowDiff["action"]) => rows.filter((row) => row.action === action).length;
+  return {
+    keyColumns: [...keyColumns],
+    columns,
+    sourceOnlyColumns: source.fields.filter((field) => !targetFields.has(field)),
+    targetOnlyColumns: target.fields.filter((field) => !sourceFields.has(field)),
+    rows,
+    summary: { inserted: count("inserted"), deleted: count("deleted"), changed: count("changed"), unchanged },
+  };
+}
@@ -0,0 +1,60 @@
+import type { DatabaseProvider, QueryBatch } from "@/lib/db/types";
+import type { EditorExecution } from "@/lib/access/editor-execution";
+import { quoteQualifiedName } from "@/lib/query-generators";
+import { quoteIdentifier } from "@/lib/sql/identifier";
+import { readResultBatches } from "@/lib/export/stream";
+import { DataDiffError } from "./compare";
+import type { DataDiffSideSpec } from "./types";
+
+/**
+ * The most rows one side of a comparison may have. Both sides are held in memory to
+ * be matched by key, so a side over the cap is refused outright: comparing a
+ * truncated one would report every row past the cut as deleted or inserted.
+ */
+const MAX_DIFF_ROWS = 50_000;
+
+/** The table `spec` names, as the engine's schema spells it, or undefined when it names none. */
+function schemaTable<T extends { name: string }>(tables: readonly T[], name: string): T | undefined {
+  return tables.find((table) => table.name === name) ?? tables.find((t) => t.name.toLowerCase() === name.toLowerCase());
+}
+
+/** The table's primary key columns, in the schema's order; empty when it has none or is not found. */
+export async function primaryKeyOf(provider: DatabaseProvider, table: string): Promise<string[]> {
+  const found = schemaTable(await provider.getSchema(), table);
+  return found ? found.columns.filter((column) => column.isPrimary).map((column) => column.name) : [];
+}
+
+/**
+ * The statement that reads one side: the side's own, or every row of its table
+ * ordered by the key. The order is not decoration — a provider with no cursor is
+ * paged by offset (`readResultBatches`), and paging an unordered table can skip or
+ * repeat a row at a page boundary, which here would read as a difference.
+ */
+function sideStatement(provider: DatabaseProvider, spec: DataDiffSideSpec, keyColumns: readonly string[]) {
+  if (spec.sql) return spec.sql;
+  const capabilities = provider.getCapabilities();
+  const order = keyColumns.map((column) => quoteIdentifier(column, provider.type)).join(", ");
+  return `SELECT * FROM ${quoteQualifiedName(spec.table ?? "", capabilities)}${order ? ` ORDER BY ${order}` : ""}`;
+}
+
+/** Every row of one side, read on `execution` as an export is, refusing one with more than `MAX_DIFF_ROWS`. */
+export async function readDiffSide(
+  execution: EditorExecution,
+  spec: DataDiffSideSpec,
+  keyColumns: readonly string[],
+  side: "source" | "target",
+): Promise<QueryBatch> {
+  const rows: Record<string, unknown>[] = [];
+  let fields: string[] = [];
+  const statement = sideStatement(execution.provider, spec, keyColumns);
+  for await (const batch of readResultBatches(execution, statement, undefined)) {
+    if (fields.length === 0) fields = batch.fields;
+    rows.push(...batch.rows);
+    if (rows.length > MAX_DIFF_ROWS) {
+      throw new DataDiffError(
+        `The ${side} has more than ${MAX_DIFF_ROWS.toLocaleString("en-US")} rows. Narrow it with a query.`,
+      );
+    }
+  }
+  return { rows, fields };
+}
@@ -0,0 +1,88 @@
+import type { DatabaseType } from "@/lib/types";
+import { quoteIdentifier } from "@/lib/sql/identifier";
+import { sqlValue } from "@/lib/export/result-export";
+import type { DataDiff, RowDiff } from "./types";
+
+/**
+ * How each dialect this script is written for opens and closes the transaction it
+ * runs in. Only the engines whose DML is plain `INSERT`/`UPDATE`/`DELETE`: ClickHouse
+ * changes rows through mutations, Druid takes no DML at all, and Couchbase keys a
+ * document rather than a row, so a script in this shape would be wrong on each.
+ *
+ * Oracle has no statement that opens a transaction — the first DML does — so it
+ * gets only the `COMMIT`.
+ */
+const TRANSACTION: Partial<Record<DatabaseType, { begin: string | null; commit: string }>> = {
+  postgres: { begin: "BEGIN;", commit: "COMMIT;" },
+  mysql: { begin: "START TRANSACTION;", commit: "COMMIT;" },
+  sqlite: { begin: "BEGIN;", commit: "COMMIT;" },
+  mssql: { begin: "BEGIN TRANSACTION;", commit: "COMMIT TRANSACTION;" },
+  oracle: { begin: null, commit: "COMMIT;" },
+};
+
+/** Whether a reconciling script can be written for `dialect`. */
+export function supportsReconcileScript(dialect: DatabaseType): boolean {
+  return TRANSACTION[dialect] !== undefined;
+}
+
+/** A value as SQL; SQL Server and Oracle have no boolean literal, so a boolean is 1 or 0 there. */
+function literal(value: unknown, dialect: DatabaseType): string {
+  if (typeof value === "boolean" && (dialect === "mssql" || dialect === "oracle")) return value ? "1" : "0";
+  return sqlValue(value, dialect);
+}
+
+function whereKey(row: RowDiff, keyColumns: readonly string[], dialect: DatabaseType): string {
+  return keyColumns
+    .map((column) => {
+      const value = row.key[column];
+      const name = quoteIdentifier(column, dialect);
+      // `= NULL` matches nothing, so a NULL key part is spelled the one way that can.
+      return value === null || value === undefined ? `${name} IS NULL` : `${name} = ${literal(value, dialect)}`;
+    })
+    .join(" AND ");
+}
+
+/**
+ * The script that makes the target's rows the source's: deletes, then updates, then
+ * inserts. Deletes go first so a row the source holds under a new key can take over a
+ * unique value the removed one held; the whole script runs in one transaction, so a
+ * constraint it still trips leaves the table as it was.
+ *
+ * `table` is the target table's name as the statement should spell it — the caller
+ * quotes it, since only the caller knows whether it names a schema too. Columns are
+ * quoted here, exactly: they are the names the engine itself reported.
+ */
+export function reconcileScript(diff: DataDiff, dialect: DatabaseType, table: string): string {
+  const transaction = TRANSACTION[dialect];
+  if (!transaction) return `-- Reconciling scripts are not written for ${dialect}.`;
+  if (diff.rows.length === 0) return "-- No data differences detected.";
+
+  const { keyColumns, columns } = diff;
+  const byAction = (action: RowDiff["action"]) => diff.rows.filter((row) => row.action === action);
+  const columnList = columns.map((column) => quoteIdentifier(column, dialect)).join(", ");
+
+  const lines: string[] = [
+    `-- Data reconciliation generated at ${new Date().toISOString()}`,
+    `-- Dialect: ${dialect}`,
+    `-- Changes: ${diff.summary.inserted} inserted, ${diff.summary.changed} changed, ${diff.summary.deleted} deleted`,
+    "",
+  ];
+  if (transaction.begin) lines.push(transaction.begin, "");
+
+  for (const row of byAction("deleted")) {
+    lines.push(`DELETE FROM ${table} WHERE ${whereKey(row, keyColumns, dialect)};`);
+  }
+  for (const row of byAction("changed")) {
+    const assignments = row.changedColumns
+      .map((column) => `${quoteIdentifier(column, dialect)} = ${literal(row.source?.[column], dialect)}`)
+      .join(", ");
+    lines.push(`UPDATE ${table} SET ${assignments} WHERE ${whereKey(row, keyColumns, dialect)};`);
+  }
+  for (const row of byAction("inserted")) {
+    const values = columns.map((column) => literal(row.source?.[column], dialect)).join(", ");
+    lines.push(`INSERT INTO ${table} (${columnList}) VALUES (${values});`);
+  }
+
+  lines.push("", transaction.commit);
+  return lines.join("\n");
+}
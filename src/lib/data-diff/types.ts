@@ -0,0 +1,59 @@
+/**
+ * What a data diff reports. The SOURCE is the side that is right: every difference
+ * is described as what would have to happen to the TARGET for it to hold the
+ * source's rows, which is also the order the reconciling script is written in.
+ */
+
+import type { ResultMasking } from "@/lib/types";
+
+export type RowDiffAction = "inserted" | "deleted" | "changed";
+
+export interface RowDiff {
+  /** `inserted`: only the source has the key. `deleted`: only the target has it. */
+  action: RowDiffAction;
+  /** The key columns' values, as read. */
+  key: Record<string, unknown>;
+  /** The source's row; absent for a deleted one. */
+  source?: Record<string, unknown>;
+  /** The target's row; absent for an inserted one. */
+  target?: Record<string, unknown>;
+  /** The compared columns whose values differ. Empty unless `changed`. */
+  changedColumns: string[];
+}
+
+export interface DataDiffSummary {
+  inserted: number;
+  deleted: number;
+  changed: number;
+  unchanged: number;
+}
+
+export interface DataDiff {
+  keyColumns: string[];
+  /** The columns both sides have, in the source's order: the ones compared and scripted. */
+  columns: string[];
+  /** Columns one side has and the other does not. Reported, never compared. */
+  sourceOnlyColumns: string[];
+  targetOnlyColumns: string[];
+  rows: RowDiff[];
+  summary: DataDiffSummary;
+}
+
+/** One side of a comparison as the route reads it: a table, or a statement that returns rows. */
+export interface DataDiffSideSpec {
+  table?: string;
+  sql?: string;
+}
+
+/** What `POST /api/db/data-diff` answers with. */
+export interface DataDiffResponse extends DataDiff {
+  /** True when `rows` holds only the first of the differences; `summary` still counts them all. */
+  truncated: boolean;
+  /** The target's engine, which the script is written for. */
+  dialect: string;
+  script: string | null;
+  /** Why there is no script, when there is none. */
+  scriptUnavailable: string | null;
+  /** The columns whose values came back masked; a compared row is never revealed. */
+  masking: ResultMasking;
+}
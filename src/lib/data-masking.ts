@@ -6,7 +6,28 @@
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
-export type MaskType = "email" | "phone" | "card" | "ssn" | "full" | "partial" | "ip" | "date" | "financial" | "custom";
+export type MaskType =
+  | "email"
+  | "phone"
+  | "card"
+  | "ssn"
+  | "full"
+  | "partial"
+  | "ip"
+  | "date"
+  | "financial"
+  | "custom"
+  | "token"
+  | "format_preserving"
+  | "date_shift";
+
+/**
+ * The mask types that keep a masked column joinable: the same value always masks
+ * to the same output, under a key only the server holds (`src/lib/masking/keyed.ts`).
+ * The browser has no key, so where it masks on its own it writes these as the
+ * redaction in `MASK_FUNCTIONS` instead.
+ */
+export const KEYED_MASK_TYPES: ReadonlySet<MaskType> = new Set<MaskType>(["token", "format_preserving", "date_shift"]);
 
 export interface MaskingPattern {
   id: string;
@@ -16,6 +37,7 @@ export interface MaskingPattern {
   enabled: boolean;
   isBuiltin: boolean; // builtin patterns cannot be deleted, only disabled
   customMask?: string; // used when maskType === 'custom'
+  entityColumn?: string; // used when maskType === 'date_shift': the column whose value picks the shift
 }
 
 export interface MaskingConfig {
@@ -263,6 +285,12 @@ const MASK_FUNCTIONS: Record<MaskType, (value: string, customMask?: string) => s
   },
   financial: () => "***,***.**",
   custom: (_v, customMask) => customMask || "***",
+  token: () => "tok_****************",
+  format_preserving: (v) => v.replace(/[\p{L}\p{N}]/gu, "*"),
+  date_shift: (v) => {
+    if (v.length >= 4) return `****-**-${v.slice(-2)}`;
+    return "****-**-**";
+  },
 };
 
 // ─── Mask by MaskingPattern ──────────────────────────────────────────────────
@@ -392,7 +420,12 @@ export function saveMaskingConfig(config: MaskingConfig): void {
 
 // ─── Preview Samples ─────────────────────────────────────────────────────────
 
-export const MASK_TYPE_PREVIEWS: Record<MaskType, { sample: string; label: string }> = {
+/**
+ * A sample value per mask type, for the settings page. A keyed type's `example` is
+ * what the server writes for the sample under some key; the browser cannot compute
+ * it, and the real output depends on the deployment's key.
+ */
+export const MASK_TYPE_PREVIEWS: Record<MaskType, { sample: string; label: string; example?: string }> = {
   email: { sample: "john.doe@example.com", label: "Email" },
   phone: { sample: "+1-555-123-4545", label: "Phone" },
   card: { sample: "4111111111111234", label: "Credit Card" },
@@ -403,10 +436,14 @@ export const MASK_TYPE_PREVIEWS: Record<MaskType, { sample: string; label: strin
   date: { sample: "1990-05-15", label: "Date" },
   financial: { sample: "85000.00", label: "Financial" },
   custom: { sample: "any_value", label: "Custom" },
+  token: { sample: "john.doe@example.com", label: "Token (joinable)", example: "tok_5f0c9a41e27b3d86" },
+  format_preserving: { sample: "4111-1111-1111-1234", label: "Format-preserving", example: "7302-5518-0946-8871" },
+  date_shift: { sample: "1990-05-15", label: "Date shift per entity", example: "1990-08-02" },
 };
 
 export function getPreviewMasked(maskType: MaskType, customMask?: string): string {
   const preview = MASK_TYPE_PREVIEWS[maskType];
+  if (preview.example) return preview.example;
   const fn = MASK_FUNCTIONS[maskType];
   return fn(preview.sample, customMask);
 }
@@ -3,7 +3,7 @@ import type { DatabaseType } from "@/lib/types";
 
 /**
  * Display rank for the marketing surfaces (the login hero's "Supported Databases"
- * block, issue #425). Typed `Record<DatabaseType, number>`, so a twelfth member of the
+ * block, issue #425). Typed `Record<DatabaseType, number>`, so a fifteenth member of the
  * union fails `bun run typecheck` on the missing key instead of quietly never being
  * shown - the same compile-time-exhaustive trick the connection picker's coverage map
  * uses in tests/hooks/use-connection-form.test.ts.
@@ -25,11 +25,14 @@ export const SHOWCASE_RANK: Record<DatabaseType, number> = {
   couchbase: 7,
   clickhouse: 8,
   druid: 9,
+  duckdb: 10,
+  cassandra: 11,
+  elasticsearch: 12,
   // Last on purpose: the embedded store is the least recognisable name here. It is
   // still shown - it is a shipped provider with a doc (docs/providers/libredb.md), an
   // icon and a slot in the connection picker, so omitting it would make the login page
   // contradict the app (issue #425, step 2).
-  libredb: 10,
+  libredb: 13,
 };
 
 /**
@@ -11,6 +11,9 @@ import {
   CouchbaseIcon,
   ClickHouseIcon,
   DruidIcon,
+  DuckDBIcon,
+  CassandraIcon,
+  ElasticsearchIcon,
 } from "@/components/icons/db-icons";
 import type { DatabaseType } from "@/lib/types";
 
@@ -32,6 +35,7 @@ export interface DatabaseUIConfig {
     | "connectionString"
     | "serviceName"
     | "instanceName"
+    | "dataCenter"
   )[];
 }
 
@@ -141,6 +145,44 @@ export const DB_UI_CONFIG: Record<DatabaseType, DatabaseUIConfig> = {
     showConnectionStringToggle: false,
     connectionFields: ["database"],
   },
+  duckdb: {
+    icon: DuckDBIcon,
+    // DuckDB's own yellow is taken by ClickHouse; lime is the nearest free shade.
+    color: "text-lime-400",
+    label: "DuckDB",
+    defaultPort: "",
+    showConnectionStringToggle: false,
+    // A `.duckdb` file, or `:memory:` for a scratch database that only reads files
+    // by path (`read_parquet('…')`). Embedded in the server process like SQLite, so
+    // there is nothing else to connect to.
+    connectionFields: ["database"],
+  },
+  cassandra: {
+    icon: CassandraIcon,
+    color: "text-indigo-400",
+    label: "Cassandra / ScyllaDB",
+    // The native protocol port, which ScyllaDB shares. Both speak the same CQL
+    // binary protocol, so one entry serves either.
+    defaultPort: "9042",
+    showConnectionStringToggle: false,
+    // `host` takes a comma-separated list of contact points; the driver discovers
+    // the rest of the ring from whichever answers. "database" is the keyspace, and
+    // optional: without one every non-system keyspace is shown.
+    connectionFields: ["host", "port", "user", "password", "database", "dataCenter"],
+  },
+  elasticsearch: {
+    icon: ElasticsearchIcon,
+    color: "text-fuchsia-400",
+    label: "Elasticsearch / OpenSearch",
+    // The REST port, which OpenSearch shares. The provider asks the root endpoint
+    // which of the two it reached, so one entry serves either.
+    defaultPort: "9200",
+    showConnectionStringToggle: false,
+    // No "database": a cluster's indices are all one namespace, and a query names
+    // the ones it reads. User and password are optional, for a cluster with
+    // security disabled.
+    connectionFields: ["host", "port", "user", "password"],
+  },
 };
 
 export function getDBConfig(type: DatabaseType): DatabaseUIConfig {
@@ -40,6 +40,9 @@ export const SHIPPED_DATABASE_TYPES: readonly DatabaseType[] = [
   "couchbase",
   "redis",
   "libredb",
+  "duckdb",
+  "cassandra",
+  "elasticsearch",
 ];
 
 /**
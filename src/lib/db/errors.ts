@@ -170,9 +170,10 @@ export type ExecutionProfileDenyCode =
  * providers themselves raise it (SQLite refuses an in-memory target), and a
  * provider must not have to import the factory to state why it fails closed.
  *
- * Kept a plain Error rather than a DatabaseError subclass for now — nothing
- * maps it to an API response yet, and the route surface that eventually will
- * (#329+) is where that decision belongs.
+ * Kept a plain Error rather than a DatabaseError subclass: it is a refusal of
+ * configuration, not a failure of the database. `createErrorResponse` answers it
+ * with a 400 `CONFIG_ERROR` carrying the reason code, which is how a read-only
+ * editor connection whose role is too broad tells its user what to fix.
  */
 export class ExecutionProfileError extends Error {
   constructor(
@@ -85,6 +85,11 @@ export async function createDatabaseProvider(
       return new SQLiteProvider(connection, options, execution);
     }
 
+    case "duckdb": {
+      const { DuckDBProvider } = await import("./providers/sql/duckdb");
+      return new DuckDBProvider(connection, options);
+    }
+
     case "oracle": {
       const { OracleProvider } = await import("./providers/sql/oracle");
       return new OracleProvider(connection, options);
@@ -125,6 +130,21 @@ export async function createDatabaseProvider(
       return new CouchbaseProvider(connection, options);
     }
 
+    // Wide-Column Stores - dynamically imported
+    case "cassandra": {
+      // The explicit /index specifier keeps this dynamic import statically
+      // analysable: a bare directory resolves only at runtime, which the bundler
+      // cannot trace into a chunk.
+      const { CassandraProvider } = await import("./providers/widecolumn/cassandra/index");
+      return new CassandraProvider(connection, options);
+    }
+
+    // Search Engines - dynamically imported
+    case "elasticsearch": {
+      const { ElasticsearchProvider } = await import("./providers/search/elasticsearch/index");
+      return new ElasticsearchProvider(connection, options);
+    }
+
     // Key-Value Stores - dynamically imported
     case "redis": {
       const { RedisProvider } = await import("./providers/keyvalue/redis");
@@ -139,7 +159,7 @@ export async function createDatabaseProvider(
 
     default:
       throw new DatabaseConfigError(
-        `Unknown database type: ${connection.type}. Supported types: postgres, mysql, sqlite, oracle, mssql, clickhouse, druid, mongodb, couchbase, redis, libredb`,
+        `Unknown database type: ${connection.type}. Supported types: postgres, mysql, sqlite, duckdb, oracle, mssql, clickhouse, druid, mongodb, couchbase, cassandra, elasticsearch, redis, libredb`,
         connection.type,
       );
   }
@@ -330,14 +350,15 @@ export async function getOrCreateProvider(
 // ============================================================================
 
 /**
- * The execution profiles this factory can vend. Three exist: `agent-read-only` for
+ * The execution profiles this factory can vend. Four exist: `agent-read-only` for
  * the paths that send a model-authored statement, `agent-operations` for the curated
- * reading path that sends none, and `agent-handover` for the editor replay of an
- * answer a run already produced. An unknown profile string is refused, never
- * defaulted (fail closed), and what each one means is stated once in
+ * reading path that sends none, `agent-handover` for the editor replay of an
+ * answer a run already produced, and `editor-read-only` for what a user types against
+ * a connection whose write policy is not `read-write`. An unknown profile string is
+ * refused, never defaulted (fail closed), and what each one means is stated once in
  * `PROFILE_ACQUISITION`.
  */
-export type ExecutionProfile = "agent-read-only" | "agent-operations" | "agent-handover";
+export type ExecutionProfile = "agent-read-only" | "agent-operations" | "agent-handover" | "editor-read-only";
 
 /**
  * What a profile means at acquisition: the context the provider is opened under,
@@ -354,13 +375,15 @@ export type ExecutionProfile = "agent-read-only" | "agent-operations" | "agent-h
  * already answered with, replayed in the user's editor — so it takes the same gate as
  * `agent-read-only`; it is a separate row because it carries a different BUDGET
  * (`AGENT_HANDOVER_BUDGET`), and a shared row would have made a later change to one
- * path silently move the other.
+ * path silently move the other. `editor-read-only` takes that gate for the same
+ * reason: it exists to put a typed statement under the engine's boundary, so a
+ * provider without one has nothing to offer it, and `src/lib/access/write-policy.ts`
+ * only asks for it on the engines that have one.
  *
- * What all three profiles share is everything that makes the acquisition safe: the
+ * What all four profiles share is everything that makes the acquisition safe: the
  * same `readOnly: true` execution context (on PostgreSQL that still verifies the role
  * is unprivileged at open), the same `agentUser` credential resolution, and the same
- * profiled cache — so neither an operations run nor an editor replay is ever handed
- * the editor's writable pool.
+ * profiled cache — so none of them is ever handed the editor's writable pool.
  */
 interface ProfileAcquisition {
   readonly context: ProviderExecutionContext;
@@ -372,6 +395,7 @@ const PROFILE_ACQUISITION: Record<ExecutionProfile, ProfileAcquisition> = {
   "agent-read-only": { context: { readOnly: true }, requiresReadOnlyStatements: true },
   "agent-operations": { context: { readOnly: true }, requiresReadOnlyStatements: false },
   "agent-handover": { context: { readOnly: true }, requiresReadOnlyStatements: true },
+  "editor-read-only": { context: { readOnly: true }, requiresReadOnlyStatements: true },
 };
 
 const EXECUTION_PROFILES: ReadonlySet<string> = new Set(Object.keys(PROFILE_ACQUISITION));
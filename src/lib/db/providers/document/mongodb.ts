@@ -3,7 +3,17 @@
  * Document database support using official MongoDB driver
  */
 
-import { MongoClient, ObjectId, Binary, Decimal128, type Db, type Document, type MongoClientOptions } from "mongodb";
+import {
+  MongoClient,
+  ObjectId,
+  Binary,
+  Decimal128,
+  type AnyBulkWriteOperation,
+  type Collection,
+  type Db,
+  type Document,
+  type MongoClientOptions,
+} from "mongodb";
 import { BaseDatabaseProvider } from "../../base-provider";
 import {
   type DatabaseConnection,
@@ -30,6 +40,14 @@ import {
 } from "../../types";
 import { DatabaseConfigError, ConnectionError, QueryError, mapDatabaseError } from "../../errors";
 import { formatBytes } from "../../utils/pool-manager";
+import {
+  isMongoExplainVerbosity,
+  isMongoShellQuery,
+  MONGO_EXPLAINABLE_OPERATIONS,
+  MongoShellLiteral,
+  parseMongoShellQuery,
+  type MongoExplainVerbosity,
+} from "../../utils/mongo-shell";
 
 // ============================================================================
 // Types
@@ -48,16 +66,52 @@ interface MongoQuery {
     | "updateOne"
     | "updateMany"
     | "deleteOne"
-    | "deleteMany";
+    | "deleteMany"
+    | "findOneAndUpdate"
+    | "bulkWrite"
+    | "createIndex"
+    | "dropIndex"
+    | "listIndexes"
+    | "createCollection"
+    | "renameCollection";
   filter?: Document;
   pipeline?: Document[];
   update?: Document;
   documents?: Document[];
+  /** createIndex: the key pattern, e.g. `{"email": 1}`. */
+  keys?: Document;
+  /** dropIndex: the index's name or its key pattern. */
+  index?: string | Document;
+  /** createCollection: the validator, e.g. `{"$jsonSchema": {...}}`. */
+  validator?: Document;
+  /** renameCollection: the collection's new name. */
+  newName?: string;
+  /** bulkWrite: the write models, e.g. `[{"insertOne": {"document": {...}}}]`. */
+  operations?: Document[];
+  /** Set on a read to return its plan at this verbosity instead of its documents. */
+  explain?: MongoExplainVerbosity;
   options?: {
     limit?: number;
     skip?: number;
     sort?: Document;
     projection?: Document;
+    // findOneAndUpdate
+    upsert?: boolean;
+    returnDocument?: string;
+    // bulkWrite
+    ordered?: boolean;
+    // renameCollection
+    dropTarget?: boolean;
+    // createIndex
+    name?: string;
+    unique?: boolean;
+    sparse?: boolean;
+    expireAfterSeconds?: number;
+    partialFilterExpression?: Document;
+    hidden?: boolean;
+    // createCollection
+    validationLevel?: string;
+    validationAction?: string;
   };
 }
 
@@ -75,6 +129,23 @@ const SUPPORTED_OPERATIONS: ReadonlySet<MongoQuery["operation"]> = new Set([
   "updateMany",
   "deleteOne",
   "deleteMany",
+  "findOneAndUpdate",
+  "bulkWrite",
+  "createIndex",
+  "dropIndex",
+  "listIndexes",
+  "createCollection",
+  "renameCollection",
+]);
+
+// The write models bulkWrite() accepts, each an object with exactly one of these keys.
+const BULK_WRITE_MODELS: ReadonlySet<string> = new Set([
+  "insertOne",
+  "updateOne",
+  "updateMany",
+  "replaceOne",
+  "deleteOne",
+  "deleteMany",
 ]);
 
 // Maintenance operations runMaintenance() accepts; validated the same way.
@@ -107,7 +178,10 @@ export class MongoDBProvider extends BaseDatabaseProvider {
   public override getCapabilities(): ProviderCapabilities {
     return {
       queryLanguage: "json",
-      supportsExplain: false,
+      supportsExplain: true,
+      // Reads with an `explain` verbosity return MongoDB's own explain document
+      // (`explain/mongodb-json.ts`).
+      explainFormat: "mongodb-json",
       supportsExternalQueryLimiting: false,
       supportsCreateTable: false,
       // The query language is JSON commands, not SQL, so the inline row editor's
@@ -122,7 +196,12 @@ export class MongoDBProvider extends BaseDatabaseProvider {
       maintenanceOperations: ["vacuum", "analyze", "check"],
       supportsConnectionString: true,
       defaultPort: 27017,
-      schemaRefreshPattern: '"operation"\\s*:\\s*"(insert|delete|update)',
+      // The JSON envelope's operation, or the same write spelled as a shell method.
+      // Index and collection changes count too: the schema lists both.
+      schemaRefreshPattern:
+        '"operation"\\s*:\\s*"(insert|delete|update|findOneAnd|bulkWrite|create|drop|rename)' +
+        "|\\.(insert|delete|update)(One|Many)\\s*\\(" +
+        "|\\.(findOneAndUpdate|bulkWrite|createIndex|dropIndex|createCollection|renameCollection)\\s*\\(",
     };
   }
 
@@ -259,7 +338,8 @@ export class MongoDBProvider extends BaseDatabaseProvider {
 
   /**
    * Execute a MongoDB query
-   * Accepts JSON-formatted MQL queries
+   * Accepts JSON-formatted MQL queries, or the same query in mongosh method-chain
+   * syntax (see `utils/mongo-shell.ts`), which is translated into the JSON shape
    *
    * @example
    * // Find documents
@@ -270,6 +350,9 @@ export class MongoDBProvider extends BaseDatabaseProvider {
    *
    * // Insert
    * {"collection": "users", "operation": "insertOne", "documents": [{"name": "John", "email": "john@example.com"}]}
+   *
+   * // Shell syntax
+   * db.users.find({ age: { $gt: 18 } }).sort({ created: -1 }).limit(10)
    */
   public async query(queryStr: string): Promise<QueryResult> {
     this.ensureConnected();
@@ -284,17 +367,17 @@ export class MongoDBProvider extends BaseDatabaseProvider {
             throw new QueryError(`Unsupported operation: ${query.operation}`, "mongodb");
           }
 
+          if (query.explain !== undefined) {
+            const plan = this.serializeDocument(await this.explainQuery(collection, query));
+            return { rows: [plan], fields: Object.keys(plan), affectedCount: 0 };
+          }
+
           let rows: Document[] = [];
           let affectedCount = 0;
 
           switch (query.operation) {
             case "find": {
-              const cursor = collection.find(query.filter || {});
-              if (query.options?.projection) cursor.project(query.options.projection);
-              if (query.options?.sort) cursor.sort(query.options.sort);
-              if (query.options?.skip) cursor.skip(query.options.skip);
-              if (query.options?.limit) cursor.limit(query.options.limit);
-              else cursor.limit(100); // Default limit
+              const cursor = this.openFindCursor(collection, query);
               try {
                 rows = await cursor.toArray();
               } finally {
@@ -321,7 +404,7 @@ export class MongoDBProvider extends BaseDatabaseProvider {
               break;
 
             case "distinct":
-              const field = query.options?.projection ? Object.keys(query.options.projection)[0] : "_id";
+              const field = this.distinctField(query);
               const values = await collection.distinct(field, query.filter || {});
               rows = values.map((v) => ({ [field]: v }));
               break;
@@ -373,6 +456,105 @@ export class MongoDBProvider extends BaseDatabaseProvider {
               rows = [{ deletedCount: deleteManyResult.deletedCount }];
               affectedCount = deleteManyResult.deletedCount;
               break;
+
+            case "findOneAndUpdate": {
+              if (!query.update) {
+                throw new QueryError("Update document is required for findOneAndUpdate", "mongodb");
+              }
+              const returnDocument = query.options?.returnDocument ?? "before";
+              if (returnDocument !== "before" && returnDocument !== "after") {
+                throw new QueryError('returnDocument must be "before" or "after"', "mongodb");
+              }
+              // With the result metadata, an upsert that returns the document as it
+              // was before (none) still reports the one document it wrote.
+              const modifyResult = await collection.findOneAndUpdate(query.filter || {}, query.update, {
+                ...this.definedOptions({
+                  upsert: query.options?.upsert,
+                  sort: query.options?.sort,
+                  projection: query.options?.projection,
+                }),
+                returnDocument,
+                includeResultMetadata: true,
+              });
+              rows = modifyResult.value ? [modifyResult.value] : [];
+              affectedCount = typeof modifyResult.lastErrorObject?.n === "number" ? modifyResult.lastErrorObject.n : 0;
+              break;
+            }
+
+            case "bulkWrite": {
+              const bulkResult = await collection.bulkWrite(
+                this.readWriteModels(query.operations),
+                this.definedOptions({ ordered: query.options?.ordered }),
+              );
+              rows = [
+                {
+                  insertedCount: bulkResult.insertedCount,
+                  matchedCount: bulkResult.matchedCount,
+                  modifiedCount: bulkResult.modifiedCount,
+                  deletedCount: bulkResult.deletedCount,
+                  upsertedCount: bulkResult.upsertedCount,
+                },
+              ];
+              affectedCount =
+                bulkResult.insertedCount +
+                bulkResult.modifiedCount +
+                bulkResult.deletedCount +
+                bulkResult.upsertedCount;
+              break;
+            }
+
+            case "createIndex": {
+              if (!query.keys || Object.keys(query.keys).length === 0) {
+                throw new QueryError("Index keys are required for createIndex", "mongodb");
+              }
+              const indexName = await collection.createIndex(
+                query.keys,
+                this.definedOptions({
+                  name: query.options?.name,
+                  unique: query.options?.unique,
+                  sparse: query.options?.sparse,
+                  expireAfterSeconds: query.options?.expireAfterSeconds,
+                  partialFilterExpression: query.options?.partialFilterExpression,
+                  hidden: query.options?.hidden,
+                }),
+              );
+              rows = [{ createdIndex: indexName }];
+              break;
+            }
+
+            case "dropIndex":
+              if (query.index === undefined || query.index === "") {
+                throw new QueryError("Index name or key pattern is required for dropIndex", "mongodb");
+              }
+              // The command rather than collection.dropIndex(), which takes a name
+              // only; the shell's dropIndex() takes the key pattern as well.
+              await this.db!.command({ dropIndexes: query.collection, index: query.index });
+              rows = [{ droppedIndex: query.index }];
+              break;
+
+            case "listIndexes":
+              rows = await collection.listIndexes().toArray();
+              break;
+
+            case "createCollection":
+              await this.db!.createCollection(
+                query.collection,
+                this.definedOptions({
+                  validator: query.validator,
+                  validationLevel: query.options?.validationLevel,
+                  validationAction: query.options?.validationAction,
+                }),
+              );
+              rows = [{ createdCollection: query.collection }];
+              break;
+
+            case "renameCollection":
+              if (!query.newName) {
+                throw new QueryError("New collection name is required for renameCollection", "mongodb");
+              }
+              await collection.rename(query.newName, this.definedOptions({ dropTarget: query.options?.dropTarget }));
+              rows = [{ renamedCollection: query.collection, newName: query.newName }];
+              break;
           }
 
           // Convert ObjectId to string for display
@@ -398,7 +580,102 @@ export class MongoDBProvider extends BaseDatabaseProvider {
     });
   }
 
+  /**
+   * The cursor a find opens, its modifiers applied. Shared with explainQuery(), so
+   * the plan shown is the plan of the query that runs - the default limit included.
+   */
+  private openFindCursor(collection: Collection, query: MongoQuery) {
+    const cursor = collection.find(query.filter || {});
+    if (query.options?.projection) cursor.project(query.options.projection);
+    if (query.options?.sort) cursor.sort(query.options.sort);
+    if (query.options?.skip) cursor.skip(query.options.skip);
+    if (query.options?.limit) cursor.limit(query.options.limit);
+    else cursor.limit(100); // Default limit
+    return cursor;
+  }
+
+  /** The envelope names distinct's field as the one key of its projection. */
+  private distinctField(query: MongoQuery): string {
+    return query.options?.projection ? Object.keys(query.options.projection)[0] : "_id";
+  }
+
+  /**
+   * The plan of a read, at the verbosity the query asks for. `executionStats` and
+   * `allPlansExecution` run the read to measure it, which is why only reads are
+   * explained.
+   *
+   * find and aggregate ask their cursors, as mongosh does; count and distinct have
+   * no cursor here and go through the `explain` command. Its count is the `count`
+   * command rather than the `$group` pipeline countDocuments() runs, the same
+   * stand-in mongosh's `explain().count()` uses: the plan of the filter is what a
+   * reader is after.
+   */
+  private async explainQuery(collection: Collection, query: MongoQuery): Promise<Document> {
+    const verbosity = query.explain;
+    if (!isMongoExplainVerbosity(verbosity)) {
+      throw new QueryError('explain must be "queryPlanner", "executionStats" or "allPlansExecution"', "mongodb");
+    }
+    if (!MONGO_EXPLAINABLE_OPERATIONS.has(query.operation)) {
+      throw new QueryError(`explain covers find, aggregate, count and distinct, not ${query.operation}`, "mongodb");
+    }
+
+    switch (query.operation) {
+      case "find": {
+        const cursor = this.openFindCursor(collection, query);
+        try {
+          return await cursor.explain(verbosity);
+        } finally {
+          await cursor.close();
+        }
+      }
+      case "aggregate":
+        return collection.aggregate(query.pipeline || []).explain(verbosity);
+      case "count":
+        return this.db!.command({ explain: { count: query.collection, query: query.filter || {} }, verbosity });
+      default:
+        return this.db!.command({
+          explain: { distinct: query.collection, key: this.distinctField(query), query: query.filter || {} },
+          verbosity,
+        });
+    }
+  }
+
+  /**
+   * bulkWrite's models, checked to be objects with exactly one known key. The
+   * confirmation dialog judges a bulk write by these keys, so one it cannot name is
+   * refused here rather than left to the driver.
+   */
+  private readWriteModels(operations: unknown): AnyBulkWriteOperation[] {
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw new QueryError("Operations are required for bulkWrite", "mongodb");
+    }
+    operations.forEach((model, i) => {
+      const keys = typeof model === "object" && model !== null && !Array.isArray(model) ? Object.keys(model) : [];
+      if (keys.length !== 1 || !BULK_WRITE_MODELS.has(keys[0])) {
+        throw new QueryError(
+          `bulkWrite operation ${i + 1} must be an object with one of: ${[...BULK_WRITE_MODELS].join(", ")}`,
+          "mongodb",
+        );
+      }
+    });
+    return operations as AnyBulkWriteOperation[];
+  }
+
+  /**
+   * The options the query set, without the ones it left out. Some driver helpers
+   * copy an option across by `key in options`, so an explicit `undefined` would
+   * reach the server as `null`.
+   */
+  private definedOptions<T extends Record<string, unknown>>(options: T): Partial<T> {
+    return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Partial<T>;
+  }
+
   private parseQuery(queryStr: string): MongoQuery {
+    if (isMongoShellQuery(queryStr)) {
+      const query = parseMongoShellQuery(queryStr);
+      return this.buildShellLiterals(query) as MongoQuery;
+    }
+
     try {
       // Try to parse as JSON
       const parsed = JSON.parse(queryStr.trim());
@@ -420,6 +697,24 @@ export class MongoDBProvider extends BaseDatabaseProvider {
     }
   }
 
+  /**
+   * Replaces the shell parser's placeholders with the driver's BSON values. The
+   * parser cannot build an `ObjectId` or a `Decimal128` itself, because the grant
+   * check runs it without the driver; everything else it returns is already the
+   * value to send.
+   */
+  private buildShellLiterals(value: unknown): unknown {
+    if (value instanceof MongoShellLiteral) {
+      if (value.type === "ObjectId") return value.value === undefined ? new ObjectId() : new ObjectId(value.value);
+      return new Decimal128(value.value ?? "0");
+    }
+    if (Array.isArray(value)) return value.map((item) => this.buildShellLiterals(item));
+    if (typeof value === "object" && value !== null && !(value instanceof Date) && !(value instanceof RegExp)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.buildShellLiterals(item)]));
+    }
+    return value;
+  }
+
   private serializeDocument(doc: Document): Record<string, unknown> {
     const serialized: Record<string, unknown> = {};
 
@@ -0,0 +1,430 @@
+/**
+ * Elasticsearch / OpenSearch HTTP transport
+ *
+ * The only implementation of the ElasticsearchTransport seam, and the only file in
+ * the provider allowed to know how the two engines encode a request and a result:
+ * the search response's underscore fields, the two SQL endpoints and their
+ * different result shapes, and the error envelope. `seam-guard.test.ts` fails the
+ * build the moment any of that vocabulary appears elsewhere in the directory.
+ *
+ * Zero runtime dependency. Both engines publish official clients, but each client
+ * refuses the other engine - the Elasticsearch client checks a product header on
+ * every response and OpenSearch does not send it - and the REST API underneath is
+ * the part the two still share. One JSON request per call, through the runtime's
+ * own `fetch`, serves both.
+ *
+ * The shapes that drive the decisions below:
+ *
+ * - The two SQL endpoints differ in path, in the request's field names and in the
+ *   result: Elasticsearch answers `columns` and `rows`, OpenSearch's JDBC format
+ *   answers `schema` and `datarows`. Which one to call is decided by the cluster's
+ *   root endpoint, read once and cached, never by the connection's settings.
+ * - Both describe the columns on the FIRST page of a cursor only; a continuation
+ *   is positional rows and the next cursor. The seam keeps that honest instead of
+ *   inventing names for the later pages.
+ * - A `long` field holds a 64-bit integer and arrives as an unquoted JSON number,
+ *   so every body is read through `quoteUnsafeIntegers` before it is parsed.
+ * - The error envelope nests the useful message: a failed search answers
+ *   "all shards failed" at the top and the parse error a user needs one level
+ *   down, in the first root cause.
+ */
+
+import type { DatabaseConnection } from "@/lib/db/types";
+import { quoteUnsafeIntegers } from "@/lib/db/utils/json-integers";
+import {
+  type ClusterIdentity,
+  ELASTICSEARCH_ERROR_CATEGORIES,
+  ELASTICSEARCH_TRANSPORT_FAILURE,
+  type ElasticsearchTransport,
+  ElasticsearchTransportError,
+  type RequestOptions,
+  type SearchHit,
+  type SearchResult,
+  type SqlColumn,
+  type SqlPage,
+  type SqlRequest,
+} from "./transport";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_HOST = "localhost";
+
+/**
+ * The REST port of both engines. One default for both schemes, as on Druid: a TLS
+ * cluster serves HTTPS on the same port, so there is no second number to fall
+ * back to.
+ */
+const DEFAULT_PORT = 9200;
+
+const JSON_CONTENT_TYPE = "application/json";
+
+/** The cluster's root endpoint, which names the engine and its version. */
+const ROOT_PATH = "/";
+
+/** Read from the root endpoint. Only OpenSearch sets it, and only to this value. */
+const OPENSEARCH_DISTRIBUTION = "opensearch";
+
+/**
+ * The two SQL surfaces. `format` is a query parameter on both and is not optional
+ * in practice: the Elasticsearch default is chosen by the Accept header, and the
+ * OpenSearch default is a JDBC shape with a different error body.
+ */
+const SQL_ENDPOINTS = Object.freeze({
+  elasticsearch: { query: "/_sql?format=json", close: "/_sql/close" },
+  opensearch: { query: "/_plugins/_sql?format=jdbc", close: "/_plugins/_sql/close" },
+} as const);
+
+const SEARCH_SUFFIX = "/_search";
+
+/**
+ * The envelope's fields. Frozen and named so the seam guard can prove that only
+ * this file reads them.
+ */
+const ERROR_FIELDS = Object.freeze({
+  ERROR: "error",
+  TYPE: "type",
+  REASON: "reason",
+  /** The innermost failures. The first one's reason is what the user wrote wrong. */
+  ROOT_CAUSE: "root_cause",
+  /** OpenSearch's SQL plugin puts the parser's message here and a generic one in `reason`. */
+  DETAILS: "details",
+} as const);
+
+const UNREADABLE_PAYLOAD = "The cluster ended the response before it was complete, so the result is incomplete";
+const UNEXPECTED_PAYLOAD = "The cluster answered with a body that is not the JSON object it was asked for";
+
+// ============================================================================
+// Pure helpers
+// ============================================================================
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(quoteUnsafeIntegers(text)) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/** Bracket a bare IPv6 literal, which is otherwise not a legal URL authority. */
+function formatHost(host: string): string {
+  return host.includes(":") && !host.startsWith("[") ? `[${host}]` : host;
+}
+
+/** A field the envelope reported as usable text, or null when it reported none. */
+function textField(record: Record<string, unknown> | null, field: string): string | null {
+  const value = record?.[field];
+  return typeof value === "string" && value !== "" ? value : null;
+}
+
+function numberField(record: Record<string, unknown> | null, field: string): number | null {
+  const value = record?.[field];
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  // A count past 2^53 arrives quoted; it is a count, so the rounding is harmless.
+  if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) return Number(value);
+  return null;
+}
+
+function arrayField(record: Record<string, unknown> | null, field: string): unknown[] {
+  const value = record?.[field];
+  return Array.isArray(value) ? value : [];
+}
+
+/** A server-side budget in the time-unit syntax both engines take. */
+function timeValue(ms: number): string {
+  return `${Math.max(1, Math.trunc(ms))}ms`;
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+function toHit(value: unknown): SearchHit {
+  const hit = asRecord(value);
+  return {
+    id: textField(hit, "_id") ?? "",
+    index: textField(hit, "_index") ?? "",
+    score: numberField(hit, "_score"),
+    source: asRecord(hit?._source) ?? {},
+  };
+}
+
+/**
+ * `hits.total` is an object with a relation since 7.0, and a bare number before;
+ * OpenSearch kept the object. Both are read, because a cluster upgraded in place
+ * can still be asked with `rest_total_hits_as_int`.
+ */
+function readTotal(hits: Record<string, unknown> | null): { totalHits: number | null; totalIsLowerBound: boolean } {
+  const bare = numberField(hits, "total");
+  if (bare !== null) return { totalHits: bare, totalIsLowerBound: false };
+
+  const total = asRecord(hits?.total);
+  return {
+    totalHits: numberField(total, "value"),
+    totalIsLowerBound: textField(total, "relation") === "gte",
+  };
+}
+
+function toSearchResult(payload: Record<string, unknown>): SearchResult {
+  const hits = asRecord(payload.hits);
+  return {
+    hits: arrayField(hits, "hits").map(toHit),
+    ...readTotal(hits),
+    aggregations: asRecord(payload.aggregations),
+    timedOut: payload.timed_out === true,
+    failedShards: numberField(asRecord(payload._shards), "failed"),
+    executionTimeMs: numberField(payload, "took") ?? 0,
+  };
+}
+
+function toColumns(value: unknown, nameField: "name" | "alias"): SqlColumn[] {
+  return (Array.isArray(value) ? value : []).map((entry) => {
+    const column = asRecord(entry);
+    return {
+      // OpenSearch declares `SELECT a AS b` as name `a`, alias `b`: the alias is the
+      // column the user asked for.
+      name: textField(column, nameField) ?? textField(column, "name") ?? "",
+      type: textField(column, "type") ?? "",
+    };
+  });
+}
+
+function toRows(value: unknown): unknown[][] {
+  return (Array.isArray(value) ? value : []).map((row) => (Array.isArray(row) ? (row as unknown[]) : []));
+}
+
+/**
+ * One page, in either engine's shape. A first page carries its column list, a
+ * continuation does not - and a first page with NO columns (an empty result) still
+ * declares an empty list, which is why presence rather than length decides.
+ */
+function toSqlPage(payload: Record<string, unknown>, executionTimeMs: number): SqlPage {
+  const declared = "columns" in payload ? payload.columns : "schema" in payload ? payload.schema : undefined;
+  const rows = "rows" in payload ? payload.rows : payload.datarows;
+
+  return {
+    columns: declared === undefined ? null : toColumns(declared, "schema" in payload ? "alias" : "name"),
+    rows: toRows(rows),
+    cursor: textField(payload, "cursor"),
+    executionTimeMs,
+  };
+}
+
+// ============================================================================
+// Failures
+// ============================================================================
+
+/**
+ * The category a status means.
+ *
+ * The status is trustworthy here, unlike on Druid: the REST layer of both engines
+ * maps each exception to its status before writing the envelope, so a parse error
+ * is a 400 and a dead node is a 5xx.
+ */
+function categoryFor(status: number): string {
+  if (status === 401) return ELASTICSEARCH_ERROR_CATEGORIES.AUTHENTICATION;
+  if (status === 403) return ELASTICSEARCH_ERROR_CATEGORIES.AUTHORIZATION;
+  if (status === 404) return ELASTICSEARCH_ERROR_CATEGORIES.NOT_FOUND;
+  if (status === 408 || status === 504) return ELASTICSEARCH_ERROR_CATEGORIES.TIMEOUT;
+  if (status === 429) return ELASTICSEARCH_ERROR_CATEGORIES.REJECTED;
+  if (status >= 400 && status < 500) return ELASTICSEARCH_ERROR_CATEGORIES.INVALID_REQUEST;
+  if (status >= 500) return ELASTICSEARCH_ERROR_CATEGORIES.SERVER;
+  return ELASTICSEARCH_TRANSPORT_FAILURE;
+}
+
+/**
+ * The failure a non-2xx body describes.
+ *
+ * Three shapes reach here: the structured envelope, an `error` that is only a
+ * string (a 404 for an unknown REST path on older versions), and plain text - a
+ * security plugin's "Unauthorized", or a proxy's page. The status classifies all
+ * three; the body only supplies the words.
+ */
+function envelopeError(status: number, text: string): ElasticsearchTransportError {
+  const payload = asRecord(parseJson(text));
+  const error = asRecord(payload?.[ERROR_FIELDS.ERROR]);
+  const rootCause = asRecord(arrayField(error, ERROR_FIELDS.ROOT_CAUSE)[0]);
+
+  const reason = textField(rootCause, ERROR_FIELDS.REASON) ?? textField(error, ERROR_FIELDS.REASON);
+  const details = textField(error, ERROR_FIELDS.DETAILS);
+  const plain = payload === null && text.trim() !== "" && text.length <= 200 ? text.trim() : null;
+  const message =
+    [reason, details !== reason ? details : null].filter((part): part is string => part !== null).join(": ") ||
+    textField(payload, ERROR_FIELDS.ERROR) ||
+    plain ||
+    `The cluster answered HTTP ${status}`;
+
+  return new ElasticsearchTransportError(
+    message,
+    categoryFor(status),
+    textField(rootCause, ERROR_FIELDS.TYPE) ?? textField(error, ERROR_FIELDS.TYPE),
+    status,
+  );
+}
+
+/**
+ * A failure that never reached the cluster, or never came back from it. The one
+ * thing classified here is the client's own deadline: it means what a 504 means,
+ * and reporting it as an unreachable host would send the user to check the wrong
+ * thing.
+ */
+function transportError(cause: unknown): ElasticsearchTransportError {
+  const reason = cause instanceof Error ? cause.message : String(cause);
+  const timedOut = cause instanceof Error && cause.name === "TimeoutError";
+
+  return new ElasticsearchTransportError(
+    `Elasticsearch request failed: ${reason}`,
+    timedOut ? ELASTICSEARCH_ERROR_CATEGORIES.TIMEOUT : ELASTICSEARCH_TRANSPORT_FAILURE,
+  );
+}
+
+/**
+ * The body of a 200. A body that does not parse is a truncated one or a proxy's;
+ * either way the answer is not the cluster's, and an empty result would be the
+ * most convincing possible lie. An array is a legal answer - the `_cat` APIs
+ * answer one - so the object check is left to the callers that need an object.
+ */
+function parseBody(text: string): unknown {
+  const payload = parseJson(text);
+  if (payload === null) throw new ElasticsearchTransportError(UNREADABLE_PAYLOAD);
+  return payload;
+}
+
+function expectObject(payload: unknown): Record<string, unknown> {
+  const record = asRecord(payload);
+  if (!record) throw new ElasticsearchTransportError(UNEXPECTED_PAYLOAD);
+  return record;
+}
+
+// ============================================================================
+// Transport
+// ============================================================================
+
+export class ElasticsearchHttpTransport implements ElasticsearchTransport {
+  public readonly kind = "http" as const;
+
+  private readonly origin: string;
+  private readonly authorization: string | undefined;
+  private identity: Promise<ClusterIdentity> | null = null;
+
+  constructor(config: DatabaseConnection) {
+    // An explicit `disable` turns TLS off as surely as a mode turns it on (#264).
+    const secure = config.ssl !== undefined && config.ssl.mode !== "disable";
+    this.origin = `${secure ? "https" : "http"}://${formatHost(config.host ?? DEFAULT_HOST)}:${config.port ?? DEFAULT_PORT}`;
+    // A cluster without security enabled ignores the header, and one with it
+    // answers 401 without it - so it is sent exactly when a user is configured.
+    this.authorization = config.user
+      ? `Basic ${Buffer.from(`${config.user}:${config.password ?? ""}`).toString("base64")}`
+      : undefined;
+  }
+
+  /**
+   * Cached for the life of the transport: the engine behind a connection does not
+   * change, and every SQL statement needs the answer. A failed read is not cached,
+   * so a cluster that was down for the first call is asked again.
+   */
+  public identify(opts: RequestOptions = {}): Promise<ClusterIdentity> {
+    this.identity ??= this.request("GET", ROOT_PATH, undefined, opts.clientDeadlineMs).then(
+      (body) => {
+        const payload = expectObject(body);
+        const version = asRecord(payload.version);
+        return {
+          distribution:
+            textField(version, "distribution") === OPENSEARCH_DISTRIBUTION ? OPENSEARCH_DISTRIBUTION : "elasticsearch",
+          version: textField(version, "number") ?? "unknown",
+          clusterName: textField(payload, "cluster_name") ?? "",
+        };
+      },
+      (error: unknown) => {
+        this.identity = null;
+        throw error;
+      },
+    );
+    return this.identity;
+  }
+
+  public async search(target: string, body: Record<string, unknown>, opts: RequestOptions = {}): Promise<SearchResult> {
+    // Encoded as one path segment: a comma list and a wildcard both survive, since
+    // the engine decodes the segment before it splits it.
+    const timeout = opts.timeoutMs === undefined ? "" : `?timeout=${timeValue(opts.timeoutMs)}`;
+    const path = `/${encodeURIComponent(target)}${SEARCH_SUFFIX}${timeout}`;
+
+    return toSearchResult(expectObject(await this.request("POST", path, body, opts.clientDeadlineMs)));
+  }
+
+  public async sql(request: SqlRequest, opts: RequestOptions = {}): Promise<SqlPage> {
+    const { distribution } = await this.identify(opts);
+    const body =
+      "cursor" in request
+        ? { cursor: request.cursor }
+        : {
+            query: request.statement,
+            fetch_size: request.fetchSize,
+            // OpenSearch's plugin takes no per-request budget; it has only the
+            // cluster-wide setting, and rejects a field it does not know.
+            ...(distribution === "elasticsearch" &&
+              opts.timeoutMs !== undefined && { request_timeout: timeValue(opts.timeoutMs) }),
+          };
+
+    const startedAt = performance.now();
+    const payload = await this.request("POST", SQL_ENDPOINTS[distribution].query, body, opts.clientDeadlineMs);
+    // Measured, never reported: neither SQL endpoint times itself.
+    return toSqlPage(expectObject(payload), performance.now() - startedAt);
+  }
+
+  public async closeCursor(cursor: string): Promise<void> {
+    const { distribution } = await this.identify();
+    await this.request("POST", SQL_ENDPOINTS[distribution].close, { cursor });
+  }
+
+  public manage<T>(path: string, opts: RequestOptions & { method?: "GET" | "POST" } = {}): Promise<T> {
+    return this.request(opts.method ?? "GET", path, undefined, opts.clientDeadlineMs) as Promise<T>;
+  }
+
+  /**
+   * Nothing to release: one HTTP request per call and no session pinned. A cursor
+   * a caller abandoned expires on the cluster by itself.
+   */
+  public close(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  private async request(
+    method: "GET" | "POST",
+    path: string,
+    body: Record<string, unknown> | undefined,
+    clientDeadlineMs?: number,
+  ): Promise<unknown> {
+    // One signal for the request AND the body read, so a response that stalls
+    // mid-body is bounded too.
+    const signal = clientDeadlineMs === undefined ? undefined : AbortSignal.timeout(clientDeadlineMs);
+
+    let status: number;
+    let text: string;
+    try {
+      const response = await fetch(`${this.origin}${path}`, {
+        method,
+        headers: {
+          ...(body === undefined ? {} : { "content-type": JSON_CONTENT_TYPE }),
+          ...(this.authorization === undefined ? {} : { authorization: this.authorization }),
+        },
+        ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+        ...(signal ? { signal } : {}),
+      });
+      status = response.status;
+      text = await response.text();
+    } catch (error) {
+      throw transportError(error);
+    }
+
+    if (status < 200 || status >= 300) throw envelopeError(status, text);
+    return parseBody(text);
+  }
+}
@@ -0,0 +1,592 @@
+/**
+ * Elasticsearch / OpenSearch Database Provider
+ *
+ * One provider for both engines, over their REST APIs with no runtime dependency:
+ * every request, catalog read and metric goes through the ElasticsearchTransport
+ * seam, so this file never names an endpoint's request or result fields, and
+ * `seam-guard.test.ts` fails the build if it starts to. The wire lives in
+ * `http-transport.ts`, the editor's text is read in `request.ts`, answers become
+ * rows in `results.ts`, and the catalog and monitoring reads live in
+ * `introspect.ts`.
+ *
+ * The editor speaks two languages here, told apart by the first character (see
+ * `request.ts`): a Query DSL request is a JSON object and goes to the search
+ * endpoint, and anything else is SQL and goes to the engine's SQL endpoint. Both
+ * are reads - neither SQL dialect has an INSERT, an UPDATE or a DDL statement - so
+ * a search connection changes nothing through the editor.
+ *
+ * It extends `BaseDatabaseProvider` rather than `SQLBaseProvider`: the shared SQL
+ * helpers assume `LIMIT n OFFSET m`, and neither engine's SQL has an OFFSET - a
+ * result is paged by its cursor, as Cassandra's is by its paging state.
+ */
+
+import { BaseDatabaseProvider } from "../../../base-provider";
+import { AuthenticationError, ConnectionError, DatabaseConfigError, QueryError, TimeoutError } from "../../../errors";
+import type {
+  ActiveSessionDetails,
+  DatabaseConnection,
+  DatabaseOverview,
+  HealthInfo,
+  IndexStats,
+  MaintenanceResult,
+  MaintenanceType,
+  PerformanceMetrics,
+  PreparedQuery,
+  ProviderCapabilities,
+  ProviderLabels,
+  ProviderOptions,
+  QueryPrepareOptions,
+  QueryResult,
+  QueryWarning,
+  SlowQueryStats,
+  StorageStats,
+  TableSchema,
+  TableStats,
+} from "../../../types";
+import { DEFAULT_QUERY_LIMIT, MAX_UNLIMITED_ROWS } from "../../../utils/query-limiter";
+import { ElasticsearchHttpTransport } from "./http-transport";
+import {
+  getActiveSessions as readActiveSessions,
+  getHealth as readHealth,
+  getIndexStats as readIndexStats,
+  getOverview as readOverview,
+  getPerformanceMetrics as readPerformanceMetrics,
+  getSchema as readSchema,
+  getSlowQueries as readSlowQueries,
+  getStorageStats as readStorageStats,
+  getTableStats as readTableStats,
+} from "./introspect";
+import {
+  MAX_RESULT_WINDOW,
+  type PageDirective,
+  applyPage,
+  decodeCursorState,
+  encodeCursorState,
+  isSearchRequest,
+  pagesItself,
+  parseSearchRequest,
+  readPageDirective,
+  toSqlStatement,
+  writePageDirective,
+} from "./request";
+import { type ResultTable, searchTable, sqlTable } from "./results";
+import {
+  ELASTICSEARCH_CLIENT_DEADLINE_GRACE_MS,
+  ELASTICSEARCH_TRANSPORT_FAILURE,
+  type ElasticsearchTransport,
+  ElasticsearchTransportError,
+  type SqlColumn,
+} from "./transport";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ELASTICSEARCH_DEFAULT_PORT = 9200;
+
+/**
+ * Rows per SQL page when nothing asked for a size - a caller that is not the
+ * editor, reading a statement to its end.
+ */
+const SQL_PAGE_ROWS = 1_000;
+
+/** The REST paths the maintenance operations send. Written here because only this file sends them. */
+const FORCE_MERGE_SUFFIX = "/_forcemerge";
+const TASK_PATH = "/_tasks/";
+const CANCEL_SUFFIX = "/_cancel";
+
+// ============================================================================
+// Pure helpers
+// ============================================================================
+
+function toWarnings(messages: readonly string[]): QueryWarning[] | undefined {
+  return messages.length > 0 ? messages.map((message) => ({ message })) : undefined;
+}
+
+/** A page read from a SQL cursor, and where the cursor stopped. */
+interface SqlRead {
+  columns: SqlColumn[];
+  rows: unknown[][];
+  cursor: string | null;
+}
+
+// ============================================================================
+// Elasticsearch Provider
+// ============================================================================
+
+export class ElasticsearchProvider extends BaseDatabaseProvider {
+  private transport: ElasticsearchTransport | null = null;
+
+  constructor(config: DatabaseConnection, options: ProviderOptions = {}) {
+    super(config, options);
+    this.validate();
+  }
+
+  // ==========================================================================
+  // Provider metadata
+  // ==========================================================================
+
+  public override getCapabilities(): ProviderCapabilities {
+    return {
+      queryLanguage: "sql",
+      // SQL and Query DSL in one editor: the generated table query is a DSL
+      // request, the generated SELECT drops the `WHERE 1=1` neither SQL endpoint
+      // needs, and a DSL request is formatted as JSON rather than as SQL.
+      queryDialect: "elasticsearch",
+      // Neither engine explains a SQL statement, and a search's `profile` output
+      // is per-shard Lucene timing rather than a plan the shared viewer can draw.
+      supportsExplain: false,
+      supportsExternalQueryLimiting: true,
+      // An index is created with a mapping, not a column list; neither SQL dialect
+      // has a CREATE at all.
+      supportsCreateTable: false,
+      // Neither SQL dialect has an UPDATE, and a document is replaced through the
+      // document API by its id - not through anything the grid's editor writes.
+      supportsInlineRowEdit: false,
+      // An index cannot reference another one, so the empty relations list is the
+      // engine rather than this cluster's shape (#414).
+      declaresForeignKeys: false,
+      supportsMaintenance: true,
+      // Force merge is the search engine's compaction, and a running search is a
+      // task that can be cancelled by the id the sessions panel shows.
+      maintenanceOperations: ["optimize", "kill"],
+      supportsConnectionString: false,
+      defaultPort: ELASTICSEARCH_DEFAULT_PORT,
+      // Nothing the editor runs changes a mapping or an index, so nothing it runs
+      // calls for a schema refresh.
+      schemaRefreshPattern: "^$",
+    };
+  }
+
+  public override getLabels(): ProviderLabels {
+    return {
+      ...super.getLabels(),
+      entityName: "Index",
+      entityNamePlural: "Indices",
+      rowName: "document",
+      rowNamePlural: "documents",
+      searchPlaceholder: "Search indices or fields...",
+      vacuumAction: "Force Merge",
+      vacuumGlobalLabel: "Force Merge",
+      vacuumGlobalTitle: "Merge Segments",
+      vacuumGlobalDesc:
+        "Merges an index's segments, which purges deleted documents and reclaims their space. Search engines reclaim space by merging, so there is no VACUUM equivalent.",
+    };
+  }
+
+  /**
+   * Every request is paged by a directive rather than by a rewrite.
+   *
+   * Neither SQL dialect has an OFFSET, and the DSL's `from` lives inside the
+   * user's JSON, so `prepareQuery` writes the page in front of the text - a block
+   * comment, as on Cassandra - and `query()` reads it back: a SQL statement is
+   * paged by its cursor, resumed from the state "Load More" sends back, and a
+   * search by `from` and `size`. A search that decides its own page is sent as
+   * written, and reported as not limited.
+   */
+  public override prepareQuery(query: string, options: QueryPrepareOptions = {}): PreparedQuery {
+    const { limit = DEFAULT_QUERY_LIMIT, offset = 0, unlimited = false, pageState } = options;
+    const effectiveLimit = unlimited ? MAX_UNLIMITED_ROWS : limit;
+    const directive = writePageDirective({ size: effectiveLimit, offset, state: pageState });
+
+    return {
+      query: `${directive}${query}`,
+      wasLimited: !isSearchRequest(query) || !this.searchPagesItself(query),
+      limit: effectiveLimit,
+      offset,
+    };
+  }
+
+  /** An unreadable request pages nothing itself; `query()` reports what is wrong with it. */
+  private searchPagesItself(query: string): boolean {
+    try {
+      return pagesItself(parseSearchRequest(query).body);
+    } catch {
+      return false;
+    }
+  }
+
+  // ==========================================================================
+  // Validation and lifecycle
+  // ==========================================================================
+
+  /** A host is the only requirement: there is no database to choose. */
+  public override validate(): void {
+    super.validate();
+    if (!this.config.host) {
+      throw new DatabaseConfigError("Elasticsearch requires a host", this.type);
+    }
+  }
+
+  public async connect(): Promise<void> {
+    const transport = new ElasticsearchHttpTransport(this.config);
+
+    try {
+      // The root endpoint answers any authenticated user, so a wrong port, a
+      // proxy, and a rejected credential all surface here - and it names the
+      // engine, which every SQL statement needs to know.
+      await transport.identify(this.deadlines());
+    } catch (error) {
+      await transport.close();
+      const failure = this.describeConnectFailure(error);
+      this.setError(failure);
+      throw failure;
+    }
+
+    this.transport = transport;
+    this.setConnected(true);
+  }
+
+  public async disconnect(): Promise<void> {
+    if (this.transport) {
+      await this.transport.close();
+      this.transport = null;
+    }
+    this.setConnected(false);
+  }
+
+  private describeConnectFailure(error: unknown): Error {
+    const mapped = this.mapElasticsearchError(error);
+    // A rejected credential is not a connectivity problem, and saying so would
+    // send the user to check their host.
+    if (mapped instanceof AuthenticationError) return mapped;
+
+    return new ConnectionError(
+      `Failed to connect to Elasticsearch: ${mapped.message}`,
+      this.type,
+      this.config.host,
+      this.config.port,
+    );
+  }
+
+  private requireTransport(): ElasticsearchTransport {
+    this.ensureConnected();
+    // Assigned before setConnected(true) and cleared after setConnected(false).
+    return this.transport!;
+  }
+
+  /** Both halves of the deadline, set together for the reason the seam records. */
+  private deadlines(): { timeoutMs: number; clientDeadlineMs: number } {
+    return {
+      timeoutMs: this.queryTimeout,
+      clientDeadlineMs: this.queryTimeout + ELASTICSEARCH_CLIENT_DEADLINE_GRACE_MS,
+    };
+  }
+
+  // ==========================================================================
+  // Query execution
+  // ==========================================================================
+
+  /**
+   * One Query DSL request or one SQL statement.
+   *
+   * Parameters are refused rather than bound. Elasticsearch's SQL endpoint takes
+   * typed `params` and OpenSearch's does not, and a provider that binds on one
+   * engine and fails on the other would make a saved query's behaviour depend on
+   * the cluster it happens to be pointed at.
+   */
+  public async query(text: string, params?: unknown[]): Promise<QueryResult> {
+    const transport = this.requireTransport();
+    if (params && params.length > 0) {
+      throw new QueryError("Elasticsearch and OpenSearch queries do not take bound parameters", this.type, text);
+    }
+    const { statement, page } = readPageDirective(text);
+
+    return this.trackQuery(async () => {
+      const { result, executionTime } = await this.measureExecution(async () => {
+        try {
+          return isSearchRequest(statement)
+            ? await this.runSearch(transport, statement, page)
+            : await this.runSql(transport, toSqlStatement(statement), page);
+        } catch (error) {
+          throw this.mapElasticsearchError(error, statement);
+        }
+      });
+
+      return {
+        rows: result.table.rows,
+        fields: result.table.fields,
+        rowCount: result.table.rows.length,
+        executionTime,
+        ...(result.pagination && { pagination: result.pagination }),
+        ...(result.table.columnTypes && { columnTypes: result.table.columnTypes }),
+        ...(result.table.warnings && { warnings: result.table.warnings }),
+      };
+    });
+  }
+
+  /**
+   * A search, with the page applied unless the request decides its own.
+   *
+   * More pages exist while a page comes back full and the window has room: past
+   * `MAX_RESULT_WINDOW` the engine refuses `from`, and the warning names the way
+   * past it.
+   */
+  private async runSearch(
+    transport: ElasticsearchTransport,
+    statement: string,
+    page: PageDirective | undefined,
+  ): Promise<{ table: ResultTable; pagination?: QueryResult["pagination"] }> {
+    const request = parseSearchRequest(statement);
+    const paged = page !== undefined && !pagesItself(request.body);
+    const body = page ? applyPage(request.body, page) : request.body;
+    const result = await transport.search(request.target, body, this.deadlines());
+    const table = searchTable(result);
+    if (!page) return { table };
+
+    const end = page.offset + result.hits.length;
+    const windowFull = end >= MAX_RESULT_WINDOW;
+    const counted = result.totalHits === null || result.totalIsLowerBound || end < result.totalHits;
+    const hasMore = paged && result.hits.length === page.size && !windowFull && counted;
+    const warnings =
+      paged && windowFull && counted
+        ? [
+            ...(table.warnings ?? []),
+            {
+              message: `Paging stops at the first ${MAX_RESULT_WINDOW} documents. Narrow the query, or page further with "search_after".`,
+            },
+          ]
+        : table.warnings;
+
+    return {
+      table: { ...table, ...(warnings && { warnings }) },
+      pagination: {
+        limit: page.size,
+        offset: page.offset,
+        hasMore,
+        totalReturned: table.rows.length,
+        wasLimited: paged,
+      },
+    };
+  }
+
+  /**
+   * A SQL statement.
+   *
+   * With a page directive it returns that page and the state to continue from:
+   * from a fresh start, the first `offset + size` rows are fetched as one page and
+   * the offset dropped, so the cursor handed back stops exactly where the page
+   * does; from a state, pages are read until `size` rows have arrived. Rows already
+   * read are never dropped after the offset - a page that arrives longer than
+   * asked for is shown whole, because the cursor cannot be wound back to show the
+   * rest later.
+   *
+   * Without one - a caller that is not the editor - the statement is read to its
+   * end, up to the same ceiling an "unlimited" editor run has, with a warning when
+   * rows were left behind.
+   */
+  private async runSql(
+    transport: ElasticsearchTransport,
+    statement: string,
+    page: PageDirective | undefined,
+  ): Promise<{ table: ResultTable; pagination?: QueryResult["pagination"] }> {
+    if (!page) return this.readWholeStatement(transport, statement);
+
+    const state = page.state === undefined ? null : decodeCursorState(page.state);
+    if (page.state !== undefined && state === null) {
+      throw new QueryError("The page to continue from was not recognised. Run the statement again.", this.type);
+    }
+
+    const skip = state ? 0 : page.offset;
+    const read: SqlRead = state
+      ? { columns: state.columns, rows: [], cursor: state.cursor }
+      : await this.startStatement(transport, statement, Math.min(page.offset + page.size, MAX_RESULT_WINDOW));
+
+    while (read.cursor !== null && read.rows.length - skip < page.size) {
+      const next = await transport.sql({ cursor: read.cursor }, this.deadlines());
+      read.rows.push(...next.rows);
+      read.cursor = next.cursor;
+    }
+
+    const table = sqlTable(read.columns, read.rows.slice(skip));
+    return {
+      table,
+      pagination: {
+        limit: page.size,
+        offset: page.offset,
+        hasMore: read.cursor !== null,
+        totalReturned: table.rows.length,
+        wasLimited: true,
+        ...(read.cursor !== null && { pageState: encodeCursorState({ cursor: read.cursor, columns: read.columns }) }),
+      },
+    };
+  }
+
+  private async startStatement(
+    transport: ElasticsearchTransport,
+    statement: string,
+    fetchSize: number,
+  ): Promise<SqlRead> {
+    const first = await transport.sql({ statement, fetchSize: Math.max(1, fetchSize) }, this.deadlines());
+    return { columns: first.columns ?? [], rows: [...first.rows], cursor: first.cursor };
+  }
+
+  private async readWholeStatement(
+    transport: ElasticsearchTransport,
+    statement: string,
+  ): Promise<{ table: ResultTable }> {
+    const read = await this.startStatement(transport, statement, SQL_PAGE_ROWS);
+    while (read.cursor !== null && read.rows.length < MAX_UNLIMITED_ROWS) {
+      const next = await transport.sql({ cursor: read.cursor }, this.deadlines());
+      read.rows.push(...next.rows);
+      read.cursor = next.cursor;
+    }
+
+    const rows = read.rows.slice(0, MAX_UNLIMITED_ROWS);
+    if (read.cursor === null) return { table: sqlTable(read.columns, rows) };
+
+    // Released rather than left to expire: the cluster holds a search context for
+    // it until then, and nothing will ever continue it.
+    await transport.closeCursor(read.cursor).catch(() => undefined);
+    const table = sqlTable(read.columns, rows);
+    return {
+      table: {
+        ...table,
+        warnings: toWarnings([`Only the first ${rows.length} rows were read; the statement has more.`]),
+      },
+    };
+  }
+
+  /**
+   * Normalized transport failure -> the provider error vocabulary, keyed on the
+   * category the seam derived from the status.
+   *
+   * The stand-in category means "nothing classified this" - a refused socket, a
+   * proxy's page, a body that stopped arriving - and is left to the shared
+   * message-based mapping, as on Druid and ClickHouse.
+   */
+  private mapElasticsearchError(error: unknown, query?: string): Error {
+    if (!(error instanceof ElasticsearchTransportError) || error.category === ELASTICSEARCH_TRANSPORT_FAILURE) {
+      return this.mapError(error, query);
+    }
+
+    if (error.is("AUTHENTICATION") || error.is("AUTHORIZATION")) {
+      return new AuthenticationError(error.message, this.type);
+    }
+    if (error.is("TIMEOUT")) {
+      return new TimeoutError(error.message, this.type, this.queryTimeout, query);
+    }
+
+    // Everything else - a bad request, a missing index, a cluster shedding load,
+    // a failing node - is best described by the engine's own message.
+    return new QueryError(error.message, this.type, query);
+  }
+
+  /** Run a catalog or monitoring read whose failures should surface as provider errors. */
+  private async guarded<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      throw this.mapElasticsearchError(error);
+    }
+  }
+
+  // ==========================================================================
+  // Schema
+  // ==========================================================================
+
+  /** The indices and data streams, with their mappings as columns. */
+  public async getSchema(): Promise<TableSchema[]> {
+    const transport = this.requireTransport();
+    return this.guarded(() => readSchema(transport));
+  }
+
+  // ==========================================================================
+  // Monitoring
+  // ==========================================================================
+
+  public async getOverview(): Promise<DatabaseOverview> {
+    const transport = this.requireTransport();
+    return this.guarded(() => readOverview(transport));
+  }
+
+  public async getPerformanceMetrics(): Promise<PerformanceMetrics> {
+    const transport = this.requireTransport();
+    return this.guarded(() => readPerformanceMetrics(transport));
+  }
+
+  /** Empty: slow searches are written to a log file on each node, which no API reads back. */
+  public getSlowQueries(): Promise<SlowQueryStats[]> {
+    return Promise.resolve(readSlowQueries());
+  }
+
+  public async getActiveSessions(options: { limit?: number } = {}): Promise<ActiveSessionDetails[]> {
+    const transport = this.requireTransport();
+    return this.guarded(() => readActiveSessions(transport, options));
+  }
+
+  public async getTableStats(options: { schema?: string } = {}): Promise<TableStats[]> {
+    const transport = this.requireTransport();
+    return this.guarded(() => readTableStats(transport, options));
+  }
+
+  public async getIndexStats(options: { schema?: string } = {}): Promise<IndexStats[]> {
+    const transport = this.requireTransport();
+    return this.guarded(() => readIndexStats(transport, options));
+  }
+
+  public async getStorageStats(): Promise<StorageStats[]> {
+    const transport = this.requireTransport();
+    return this.guarded(() => readStorageStats(transport));
+  }
+
+  public async getHealth(): Promise<HealthInfo> {
+    const transport = this.requireTransport();
+    return this.guarded(() => readHealth(transport));
+  }
+
+  // ==========================================================================
+  // Maintenance
+  // ==========================================================================
+
+  public async runMaintenance(type: MaintenanceType, target?: string): Promise<MaintenanceResult> {
+    const transport = this.requireTransport();
+    const { result, executionTime } = await this.measureExecution(() =>
+      this.guarded(() => this.dispatchMaintenance(transport, type, target)),
+    );
+
+    return { ...result, executionTime };
+  }
+
+  private async dispatchMaintenance(
+    transport: ElasticsearchTransport,
+    type: MaintenanceType,
+    target?: string,
+  ): Promise<Omit<MaintenanceResult, "executionTime">> {
+    switch (type) {
+      // Waits for the merge, which can take minutes on a large index; the merge
+      // carries on server-side if the client deadline gives up first.
+      case "optimize": {
+        const index = this.requireTarget(type, target);
+        await transport.manage(`/${encodeURIComponent(index)}${FORCE_MERGE_SUFFIX}`, {
+          method: "POST",
+          clientDeadlineMs: this.deadlines().clientDeadlineMs,
+        });
+        return { success: true, message: `Force-merged ${index}` };
+      }
+      // The id is the `node:number` the sessions panel lists.
+      case "kill": {
+        const task = this.requireTarget(type, target);
+        await transport.manage(`${TASK_PATH}${encodeURIComponent(task)}${CANCEL_SUFFIX}`, {
+          method: "POST",
+          clientDeadlineMs: this.deadlines().clientDeadlineMs,
+        });
+        return { success: true, message: `Cancelled task ${task}` };
+      }
+    }
+
+    // Reached only for the operations a search engine has no equivalent for; they
+    // are absent from maintenanceOperations, so the UI never offers them.
+    throw new QueryError(
+      `Unsupported maintenance operation for Elasticsearch: ${type}. Supported: optimize, kill`,
+      this.type,
+    );
+  }
+
+  private requireTarget(type: MaintenanceType, target?: string): string {
+    if (!target) {
+      throw new QueryError(`The "${type}" operation requires a target`, this.type);
+    }
+    return target;
+  }
+}
@@ -0,0 +1,558 @@
+/**
+ * Elasticsearch / OpenSearch schema introspection and monitoring
+ *
+ * Every read the provider makes that is not a user's own request lives here. All
+ * of them are REST reads through the seam's `manage()`, and each function takes
+ * the transport rather than owning one, so a test can hand it a canned body.
+ *
+ * What a search cluster calls things, and what the Studio calls them:
+ *
+ * - An INDEX, or a DATA STREAM, is a table. A data stream is a name over a series
+ *   of hidden backing indices, and it is the name a user searches, so it is listed
+ *   once with the documents of all its backing indices - and the backing indices
+ *   themselves are not listed at all.
+ * - A MAPPING is the column list. Objects are flattened to dotted names, which is
+ *   how a query, the SQL endpoint and the grid all spell a nested field, and a
+ *   multi-field (`message.keyword`) is a column of its own, since it is queried
+ *   as one.
+ * - A SHARD is what the index panel lists. A search index has no secondary indexes
+ *   to report - every field is indexed as it is mapped - and the shards are where
+ *   its storage, its replicas and its health actually live.
+ *
+ * Indices whose names start with a dot are the engines' own (security, tasks,
+ * Kibana and Dashboards state) and are left out of the catalog, as the system
+ * schemas of every other provider are. They stay reachable by name.
+ */
+
+import type {
+  ActiveSession,
+  ActiveSessionDetails,
+  DatabaseOverview,
+  HealthInfo,
+  IndexStats,
+  PerformanceMetrics,
+  SlowQueryStats,
+  StorageStats,
+  TableStats,
+} from "@/lib/db/types";
+import { formatBytes, formatDuration } from "@/lib/db/utils/pool-manager";
+import { formatCacheHitRatio } from "@/lib/monitoring-cache-ratio";
+import type { ColumnSchema, TableSchema } from "@/lib/types";
+import { type ClusterIdentity, type ElasticsearchTransport, ElasticsearchTransportError } from "./transport";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** What a panel prints for something the cluster did not tell us. */
+const ELASTICSEARCH_UNKNOWN_TEXT = "unknown";
+
+/** What a search task calls itself in the sessions panel, so it is not read as a client connection. */
+export const ELASTICSEARCH_TASK_APPLICATION_NAME = "Search task";
+
+/** Row cap for the sessions panel when the caller names none. */
+const ELASTICSEARCH_DEFAULT_SESSION_LIMIT = 50;
+
+/** Row cap for the sessions the health summary embeds. */
+const ELASTICSEARCH_HEALTH_SESSION_LIMIT = 10;
+
+/**
+ * Client-side deadline for one catalog or monitoring read, in milliseconds.
+ *
+ * Only the client half exists here. These are GETs of statistics the cluster
+ * already holds, with no statement to cancel, so there is no server-side budget
+ * to set - the deadline is what bounds a node that stopped answering.
+ */
+export const ELASTICSEARCH_SYSTEM_READ_TIMEOUT_MS = 15_000;
+
+/** The type a mapping reports for an object field that declares only sub-fields. */
+const OBJECT_FIELD_TYPE = "object";
+
+// ============================================================================
+// REST paths
+// ----------------------------------------------------------------------------
+// Exported so the tests pin the exact path each read sends. The `_cat` reads ask
+// for JSON, for bytes as plain integers rather than "1.2gb", and for the named
+// columns only, so a version that adds a column cannot shift a mapper.
+// ============================================================================
+
+/**
+ * Every index, hidden ones included: the backing indices of a data stream are
+ * hidden, and their document counts are the stream's.
+ */
+export const ELASTICSEARCH_INDEX_CATALOG_PATH =
+  "/_cat/indices?format=json&bytes=b&expand_wildcards=all&h=index,health,status,docs.count,pri.store.size,store.size";
+
+/**
+ * Every data stream and its backing indices. A cluster older than the API (7.9,
+ * and every OpenSearch before 1.0) has none, and says so with a 404 or with a 400
+ * for an index name that starts with an underscore - see `readStreamCatalog`.
+ */
+export const ELASTICSEARCH_DATA_STREAM_PATH = "/_data_stream?expand_wildcards=all";
+
+/** Every mapping, hidden indices included, for the same reason as the catalog. */
+export const ELASTICSEARCH_MAPPING_PATH = "/_mapping?expand_wildcards=all";
+
+export const ELASTICSEARCH_CLUSTER_HEALTH_PATH = "/_cluster/health";
+
+export const ELASTICSEARCH_CLUSTER_STATS_PATH = "/_cluster/stats";
+
+/** Per node: open HTTP connections, disk, and the search and cache counters. */
+export const ELASTICSEARCH_NODE_STATS_PATH = "/_nodes/stats/http,fs,indices";
+
+export const ELASTICSEARCH_SHARD_CATALOG_PATH =
+  "/_cat/shards?format=json&bytes=b&h=index,shard,prirep,state,docs,store,node,search.query_total";
+
+/**
+ * The searches running now, one entry per task. Both SQL surfaces run as tasks
+ * whose action names them, so they are listed too.
+ */
+export const ELASTICSEARCH_RUNNING_SEARCH_PATH = "/_tasks?actions=*search*,*sql*&detailed=true&group_by=none";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The slice of the transport this file may use. A `Pick` rather than the whole
+ * interface, so a test's fake states exactly what it answers.
+ */
+export type ElasticsearchRestRunner = Pick<ElasticsearchTransport, "manage" | "identify">;
+
+type Json = Record<string, unknown>;
+
+// ============================================================================
+// Value readers
+// ============================================================================
+
+function asRecord(value: unknown): Json | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? (value as Json) : null;
+}
+
+function asRecords(value: unknown): Json[] {
+  return Array.isArray(value) ? value.map(asRecord).filter((entry): entry is Json => entry !== null) : [];
+}
+
+function readText(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+/**
+ * A number, from either encoding: the `_cat` APIs answer every column as a
+ * string, and a counter past 2^53 arrives quoted from the transport. Anything
+ * unreadable - a closed index has no document count - is 0.
+ */
+function asNumber(value: unknown): number {
+  if (typeof value === "number") return Number.isFinite(value) ? value : 0;
+  const parsed = Number(value);
+  return typeof value === "string" && value !== "" && Number.isFinite(parsed) ? parsed : 0;
+}
+
+/** A nested value by path, or undefined anywhere it is missing. */
+function pick(record: unknown, ...path: string[]): unknown {
+  let current: unknown = record;
+  for (const key of path) current = asRecord(current)?.[key];
+  return current;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function percentOf(part: number, whole: number): number {
+  return whole > 0 ? round2((part / whole) * 100) : 0;
+}
+
+/** A row cap that is always a positive integer. */
+function rowLimit(limit: number | undefined, fallback: number): number {
+  const requested = Math.trunc(limit ?? fallback);
+  return requested > 0 ? requested : fallback;
+}
+
+/** The engines' own indices, which the catalog leaves out. */
+function isSystemIndex(name: string): boolean {
+  return name.startsWith(".");
+}
+
+// ============================================================================
+// Reads
+// ============================================================================
+
+/**
+ * One REST read, or null when the surface is not available to this user or on
+ * this version - a role without the `monitor` privilege is an ordinary setup,
+ * and it must cost one panel rather than the whole tab.
+ */
+async function read(runner: ElasticsearchRestRunner, path: string): Promise<unknown> {
+  try {
+    return await runner.manage<unknown>(path, { clientDeadlineMs: ELASTICSEARCH_SYSTEM_READ_TIMEOUT_MS });
+  } catch (error) {
+    if (error instanceof ElasticsearchTransportError && error.isMonitoringUnavailable()) return null;
+    throw error;
+  }
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * A mapping's fields as columns, objects flattened to dotted names.
+ *
+ * Every column is nullable and none is primary: a mapping declares what a field
+ * holds when it is present, and no document has to carry any field - not even
+ * the document id, which is metadata rather than a mapped field.
+ */
+export function mappedColumns(properties: unknown, prefix = ""): ColumnSchema[] {
+  const record = asRecord(properties);
+  if (!record) return [];
+
+  return Object.entries(record).flatMap(([name, value]) => {
+    const field = asRecord(value) ?? {};
+    const path = prefix === "" ? name : `${prefix}.${name}`;
+
+    // An object or nested field is its sub-fields. A `nested` one is still listed
+    // through them, since a query reaches its fields by the same dotted path.
+    if (asRecord(field.properties)) return mappedColumns(field.properties, path);
+
+    const column: ColumnSchema = {
+      name: path,
+      type: readText(field.type) || OBJECT_FIELD_TYPE,
+      nullable: true,
+      isPrimary: false,
+    };
+    const multiFields = Object.entries(asRecord(field.fields) ?? {}).map(([sub, definition]) => ({
+      name: `${path}.${sub}`,
+      type: readText(asRecord(definition)?.type) || OBJECT_FIELD_TYPE,
+      nullable: true,
+      isPrimary: false,
+    }));
+
+    return [column, ...multiFields];
+  });
+}
+
+/** One catalog entry's numbers. */
+interface IndexEntry {
+  documents: number;
+  primaryBytes: number;
+  totalBytes: number;
+}
+
+function readCatalog(rows: Json[]): Map<string, IndexEntry> {
+  return new Map(
+    rows.map((row) => [
+      readText(row.index),
+      {
+        documents: asNumber(row["docs.count"]),
+        primaryBytes: asNumber(row["pri.store.size"]),
+        totalBytes: asNumber(row["store.size"]),
+      },
+    ]),
+  );
+}
+
+/** Each data stream and its backing indices, oldest first as the API lists them. */
+function readDataStreams(payload: unknown): Map<string, string[]> {
+  return new Map(
+    asRecords(pick(payload, "data_streams")).map((stream) => [
+      readText(stream.name),
+      asRecords(stream.indices).map((backing) => readText(backing.index_name)),
+    ]),
+  );
+}
+
+function sumEntries(names: readonly string[], catalog: Map<string, IndexEntry>): IndexEntry {
+  return names.reduce<IndexEntry>(
+    (total, name) => {
+      const entry = catalog.get(name);
+      return entry
+        ? {
+            documents: total.documents + entry.documents,
+            primaryBytes: total.primaryBytes + entry.primaryBytes,
+            totalBytes: total.totalBytes + entry.totalBytes,
+          }
+        : total;
+    },
+    { documents: 0, primaryBytes: 0, totalBytes: 0 },
+  );
+}
+
+/**
+ * The data stream listing, or null on a cluster that predates it. Before the API
+ * existed the path routes to the single-index read, which refuses `_data_stream`
+ * as an index name with a 400 - so that answer means "no streams" here, and only
+ * here.
+ */
+async function readStreamCatalog(runner: ElasticsearchRestRunner): Promise<unknown> {
+  try {
+    return await read(runner, ELASTICSEARCH_DATA_STREAM_PATH);
+  } catch (error) {
+    if (error instanceof ElasticsearchTransportError && error.is("INVALID_REQUEST")) return null;
+    throw error;
+  }
+}
+
+/**
+ * Every index a user can search by name, as a table.
+ *
+ * The size is the primary store, not the total: a replica is a copy, and counting
+ * it would double a table's size the day a second node joins.
+ */
+async function readTables(
+  runner: ElasticsearchRestRunner,
+): Promise<Array<{ name: string; entry: IndexEntry; mappingFrom: string }>> {
+  const [catalogRows, streamPayload] = await Promise.all([
+    read(runner, ELASTICSEARCH_INDEX_CATALOG_PATH),
+    readStreamCatalog(runner),
+  ]);
+
+  const catalog = readCatalog(asRecords(catalogRows));
+  const streams = readDataStreams(streamPayload);
+  const backing = new Set([...streams.values()].flat());
+
+  const indices = [...catalog.entries()]
+    .filter(([name]) => name !== "" && !isSystemIndex(name) && !backing.has(name))
+    .map(([name, entry]) => ({ name, entry, mappingFrom: name }));
+
+  const dataStreams = [...streams.entries()]
+    .filter(([name]) => name !== "" && !isSystemIndex(name))
+    // The write index - the last one - holds the mapping new documents get, which
+    // is the one a user writing a query today needs.
+    .map(([name, members]) => ({ name, entry: sumEntries(members, catalog), mappingFrom: members.at(-1) ?? name }));
+
+  return [...indices, ...dataStreams].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getSchema(runner: ElasticsearchRestRunner): Promise<TableSchema[]> {
+  const [tables, mappings] = await Promise.all([readTables(runner), read(runner, ELASTICSEARCH_MAPPING_PATH)]);
+
+  return tables.map(({ name, entry, mappingFrom }) => ({
+    name,
+    columns: mappedColumns(pick(mappings, mappingFrom, "mappings", "properties")),
+    // A search index has no secondary indexes and no relations to declare.
+    indexes: [],
+    foreignKeys: [],
+    rowCount: entry.documents,
+    size: formatBytes(entry.primaryBytes),
+  }));
+}
+
+// ============================================================================
+// Monitoring
+// ============================================================================
+
+function productName(identity: ClusterIdentity): string {
+  return identity.distribution === "opensearch" ? "OpenSearch" : "Elasticsearch";
+}
+
+/**
+ * The cluster's verdict on itself, in the overview's three levels. Yellow is a
+ * warning, not a fault: every index is searchable and some replica is not
+ * allocated - which is the permanent state of a single-node cluster.
+ */
+function readHealth(payload: unknown): DatabaseOverview["health"] {
+  const status = readText(pick(payload, "status"));
+  if (status === "") return undefined;
+
+  const unassigned = asNumber(pick(payload, "unassigned_shards"));
+  const summary =
+    unassigned > 0 ? `${status}, ${unassigned} unassigned ${unassigned === 1 ? "shard" : "shards"}` : status;
+
+  if (status === "green") return { level: "healthy", summary };
+  if (status === "yellow") return { level: "warning", summary };
+  return { level: "critical", summary };
+}
+
+function nodesOf(payload: unknown): Json[] {
+  return asRecords(Object.values(asRecord(pick(payload, "nodes")) ?? {}));
+}
+
+export async function getOverview(runner: ElasticsearchRestRunner): Promise<DatabaseOverview> {
+  const [identity, health, stats, nodeStats] = await Promise.all([
+    runner.identify({ clientDeadlineMs: ELASTICSEARCH_SYSTEM_READ_TIMEOUT_MS }),
+    read(runner, ELASTICSEARCH_CLUSTER_HEALTH_PATH),
+    read(runner, ELASTICSEARCH_CLUSTER_STATS_PATH),
+    read(runner, ELASTICSEARCH_NODE_STATS_PATH),
+  ]);
+
+  const uptime = pick(stats, "nodes", "jvm", "max_uptime_in_millis");
+  const sizeBytes = asNumber(pick(stats, "indices", "store", "size_in_bytes"));
+  const clusterHealth = readHealth(health);
+
+  return {
+    version: `${productName(identity)} ${identity.version}`,
+    // The longest-running node's JVM, which is as close to "the cluster has been up"
+    // as a cluster of replaceable nodes gets.
+    uptime: uptime === undefined ? ELASTICSEARCH_UNKNOWN_TEXT : formatDuration(asNumber(uptime)),
+    // Open HTTP connections across every node: the REST clients, this one included.
+    activeConnections: nodesOf(nodeStats).reduce(
+      (total, node) => total + asNumber(pick(node, "http", "current_open")),
+      0,
+    ),
+    // No connection ceiling is published; zero is the overview's "no limit" (mssql.ts, druid).
+    maxConnections: 0,
+    databaseSize: formatBytes(sizeBytes),
+    databaseSizeBytes: sizeBytes,
+    tableCount: asNumber(pick(stats, "indices", "count")),
+    // The shards, which the index panel lists.
+    indexCount: asNumber(pick(health, "active_shards")),
+    ...(clusterHealth && { health: clusterHealth }),
+  };
+}
+
+/**
+ * The query cache's hit ratio, across the cluster. Absent - not zero - until the
+ * cache has served a lookup: a cluster that has not been searched yet has not
+ * missed anything.
+ */
+export async function getPerformanceMetrics(runner: ElasticsearchRestRunner): Promise<PerformanceMetrics> {
+  const stats = await read(runner, ELASTICSEARCH_CLUSTER_STATS_PATH);
+  const hits = asNumber(pick(stats, "indices", "query_cache", "hit_count"));
+  const misses = asNumber(pick(stats, "indices", "query_cache", "miss_count"));
+
+  return hits + misses > 0 ? { cacheHitRatio: percentOf(hits, hits + misses) } : {};
+}
+
+/**
+ * Empty, and not for want of trying: both engines write slow searches to a slow
+ * log, which is a file on each node with no API that reads it back.
+ */
+export function getSlowQueries(): SlowQueryStats[] {
+  return [];
+}
+
+/**
+ * The search and SQL tasks running now. Only the top-level ones: a search fans
+ * out into a child task per shard, and listing those would count one search once
+ * for every shard it touched.
+ */
+export async function getActiveSessions(
+  runner: ElasticsearchRestRunner,
+  options: { limit?: number } = {},
+): Promise<ActiveSessionDetails[]> {
+  const limit = rowLimit(options.limit, ELASTICSEARCH_DEFAULT_SESSION_LIMIT);
+  const payload = await read(runner, ELASTICSEARCH_RUNNING_SEARCH_PATH);
+  const listed = pick(payload, "tasks");
+  const tasks = Array.isArray(listed) ? asRecords(listed) : asRecords(Object.values(asRecord(listed) ?? {}));
+
+  return tasks
+    .filter((task) => task.parent_task_id === undefined)
+    .slice(0, limit)
+    .map((task) => {
+      const durationMs = Math.round(asNumber(task.running_time_in_nanos) / 1_000_000);
+      const startedAt = asNumber(task.start_time_in_millis);
+
+      return {
+        // The task id the cancel operation takes, `node:number`.
+        pid: `${readText(task.node)}:${asNumber(task.id)}`,
+        // Tasks record no caller identity unless the caller set an opaque id header.
+        user: readText(pick(task, "headers", "X-Opaque-Id")) || ELASTICSEARCH_UNKNOWN_TEXT,
+        database: "",
+        applicationName: ELASTICSEARCH_TASK_APPLICATION_NAME,
+        state: task.cancelled === true ? "cancelling" : "running",
+        // The task's own description names the indices and the request body.
+        query: readText(task.description) || readText(task.action),
+        ...(startedAt > 0 && { queryStart: new Date(startedAt) }),
+        duration: formatDuration(durationMs),
+        durationMs,
+      };
+    });
+}
+
+/**
+ * One row per table the catalog lists. The schema is the cluster's name - the
+ * only namespace an index has - so a filter naming anything else matches nothing.
+ */
+export async function getTableStats(
+  runner: ElasticsearchRestRunner,
+  options: { schema?: string } = {},
+): Promise<TableStats[]> {
+  const [identity, tables] = await Promise.all([runner.identify(), readTables(runner)]);
+  if (options.schema !== undefined && options.schema !== identity.clusterName) return [];
+
+  return tables.map(({ name, entry }) => ({
+    schemaName: identity.clusterName,
+    tableName: name,
+    rowCount: entry.documents,
+    // Primaries are the table; the replicas are what the total adds on top.
+    tableSize: formatBytes(entry.primaryBytes),
+    tableSizeBytes: entry.primaryBytes,
+    totalSize: formatBytes(entry.totalBytes),
+    totalSizeBytes: entry.totalBytes,
+  }));
+}
+
+/** One row per shard copy, of the indices the catalog lists. */
+export async function getIndexStats(
+  runner: ElasticsearchRestRunner,
+  options: { schema?: string } = {},
+): Promise<IndexStats[]> {
+  const [identity, rows] = await Promise.all([runner.identify(), read(runner, ELASTICSEARCH_SHARD_CATALOG_PATH)]);
+  if (options.schema !== undefined && options.schema !== identity.clusterName) return [];
+
+  return asRecords(rows)
+    .filter((row) => !isSystemIndex(readText(row.index)))
+    .map((row) => {
+      const primary = readText(row.prirep) === "p";
+      const sizeBytes = asNumber(row.store);
+
+      return {
+        schemaName: identity.clusterName,
+        tableName: readText(row.index),
+        indexName: `shard ${readText(row.shard)} (${primary ? "primary" : "replica"})`,
+        // STARTED, RELOCATING, INITIALIZING or UNASSIGNED - where the shard is in its life.
+        indexType: readText(row.state),
+        columns: [],
+        isUnique: false,
+        isPrimary: primary,
+        indexSize: formatBytes(sizeBytes),
+        indexSizeBytes: sizeBytes,
+        scans: asNumber(row["search.query_total"]),
+      };
+    });
+}
+
+/** Each node's data disk, and how full it is - the number shard allocation stops at. */
+export async function getStorageStats(runner: ElasticsearchRestRunner): Promise<StorageStats[]> {
+  const payload = await read(runner, ELASTICSEARCH_NODE_STATS_PATH);
+
+  return nodesOf(payload).map((node) => {
+    const totalBytes = asNumber(pick(node, "fs", "total", "total_in_bytes"));
+    const usedBytes = Math.max(0, totalBytes - asNumber(pick(node, "fs", "total", "available_in_bytes")));
+
+    return {
+      name: readText(node.name),
+      location: readText(node.host) || readText(node.ip),
+      size: formatBytes(usedBytes),
+      sizeBytes: usedBytes,
+      usagePercent: percentOf(usedBytes, totalBytes),
+    };
+  });
+}
+
+/** The health summary, composed from the reads that have a source. */
+export async function getHealth(runner: ElasticsearchRestRunner): Promise<HealthInfo> {
+  const [overview, performance, sessions] = await Promise.all([
+    getOverview(runner),
+    getPerformanceMetrics(runner),
+    getActiveSessions(runner, { limit: ELASTICSEARCH_HEALTH_SESSION_LIMIT }),
+  ]);
+
+  const activeSessions: ActiveSession[] = sessions.map((session) => ({
+    pid: session.pid,
+    user: session.user,
+    database: session.database,
+    state: session.state,
+    query: session.query,
+    duration: session.duration,
+  }));
+
+  return {
+    activeConnections: overview.activeConnections,
+    databaseSize: overview.databaseSize,
+    cacheHitRatio: formatCacheHitRatio(performance.cacheHitRatio),
+    slowQueries: [],
+    activeSessions,
+  };
+}
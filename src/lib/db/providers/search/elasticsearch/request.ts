@@ -0,0 +1,210 @@
+/**
+ * What the editor's text asks of a search cluster
+ *
+ * One editor, two languages. A statement is SQL unless its first character is `{`,
+ * in which case it is a Query DSL request: a JSON object whose `index` key names
+ * what to search and whose remaining keys are the search body, exactly as the
+ * `_search` endpoint takes it.
+ *
+ *     { "index": "logs-*", "query": { "match": { "message": "timeout" } } }
+ *
+ * The `index` key is this editor's addition - the endpoint takes the target in its
+ * path - because a bare body would leave the target to a setting somewhere else
+ * on the screen, and a saved query would stop saying what it searches.
+ *
+ * Paging reaches the provider the way it does on Cassandra: `prepareQuery` writes
+ * a page directive in front of the text, as a block comment, and `query()` reads
+ * it back off. SQL needs it because neither engine's SQL has an OFFSET that a
+ * cursor can resume from, and the DSL uses it too so the user's JSON is sent as
+ * they wrote it rather than re-serialized with a `from` and a `size` spliced in.
+ */
+
+import { QueryError } from "@/lib/db/errors";
+import { quoteUnsafeIntegers } from "@/lib/db/utils/json-integers";
+import type { SqlColumn } from "./transport";
+
+/**
+ * The deepest page a search can reach with `from` and `size`: both engines refuse
+ * a request whose `from + size` exceeds `index.max_result_window`, which defaults
+ * to this. Going further needs `search_after` in the user's own request.
+ */
+export const MAX_RESULT_WINDOW = 10_000;
+
+/** Where one page starts and how long it is. */
+export interface PageDirective {
+  /** Rows in the page. A positive integer. */
+  size: number;
+  /** Rows to skip first, when there is no state to resume from. */
+  offset: number;
+  /** An encoded `CursorState` to resume a SQL statement from. */
+  state?: string;
+}
+
+/** What `readPageDirective` found in front of a statement. */
+export interface DirectiveRead {
+  /** The statement with the directive removed, exactly as it followed it. */
+  statement: string;
+  page?: PageDirective;
+}
+
+/**
+ * Where a SQL statement stopped: the cluster's cursor, and the columns its first
+ * page declared. The columns travel with the cursor because a continuation page
+ * arrives without them, and "Load More" is a new request with nothing else to
+ * remember them by.
+ */
+export interface CursorState {
+  cursor: string;
+  columns: SqlColumn[];
+}
+
+/** A parsed Query DSL request. */
+export interface SearchRequest {
+  /** The index, alias, data stream or pattern to search - several joined by commas. */
+  target: string;
+  /** The search body, without the `index` key. */
+  body: Record<string, unknown>;
+}
+
+/**
+ * Base64url and nothing else. Checked before a state is written into the text, so
+ * one that arrived in a request body can never close the comment early.
+ */
+const PAGE_STATE_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** One directive at the very start of the text. Flat, with no nested quantifier. */
+const DIRECTIVE_PATTERN = /^\/\* libredb:page size=(\d+) offset=(\d+)(?: state=([A-Za-z0-9_-]+))? \*\/ /;
+
+const DSL_EXAMPLE = '{ "index": "my-index", "query": { "match_all": {} } }';
+
+/** True when the text is a Query DSL request rather than SQL. */
+export function isSearchRequest(text: string): boolean {
+  return text.trimStart().startsWith("{");
+}
+
+/** The cursor and columns as the text a page directive can carry. */
+export function encodeCursorState(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+/**
+ * The state a directive carried, or null when it is not one this provider wrote.
+ * Read by shape rather than trusted: it arrived in a request body.
+ */
+export function decodeCursorState(encoded: string): CursorState | null {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8")) as unknown;
+  } catch {
+    return null;
+  }
+
+  const state = decoded as Partial<CursorState> | null;
+  const wellFormed =
+    typeof state === "object" &&
+    state !== null &&
+    typeof state.cursor === "string" &&
+    state.cursor !== "" &&
+    Array.isArray(state.columns) &&
+    state.columns.every(
+      (column: unknown) =>
+        typeof column === "object" &&
+        column !== null &&
+        typeof (column as SqlColumn).name === "string" &&
+        typeof (column as SqlColumn).type === "string",
+    );
+
+  return wellFormed ? { cursor: state.cursor as string, columns: state.columns as SqlColumn[] } : null;
+}
+
+/**
+ * The directive that asks for one page. A `state` that is not base64url is left
+ * out rather than written, so the page falls back to skipping `offset` rows.
+ */
+export function writePageDirective(page: PageDirective): string {
+  const size = Math.max(1, Math.trunc(page.size));
+  const offset = Math.max(0, Math.trunc(page.offset));
+  const state = page.state !== undefined && PAGE_STATE_PATTERN.test(page.state) ? ` state=${page.state}` : "";
+  return `/* libredb:page size=${size} offset=${offset}${state} */ `;
+}
+
+/** Reads the directive off the front of a statement. A text without one comes back untouched. */
+export function readPageDirective(text: string): DirectiveRead {
+  const match = DIRECTIVE_PATTERN.exec(text);
+  if (!match) return { statement: text };
+
+  return {
+    statement: text.slice(match[0].length),
+    page: {
+      size: Number(match[1]),
+      offset: Number(match[2]),
+      ...(match[3] !== undefined && { state: match[3] }),
+    },
+  };
+}
+
+/**
+ * A SQL statement as the endpoints take it. Both refuse a trailing semicolon,
+ * which every other editor in the Studio accepts - and which a formatter adds.
+ */
+export function toSqlStatement(text: string): string {
+  return text.trim().replace(/;+\s*$/, "");
+}
+
+function invalid(reason: string, text: string): QueryError {
+  return new QueryError(
+    `${reason}. A Query DSL request is a JSON object naming its index, for example: ${DSL_EXAMPLE}`,
+    "elasticsearch",
+    text,
+  );
+}
+
+/**
+ * The target and body of a Query DSL request.
+ *
+ * Parsed with 64-bit integers kept as their digits. They reach the cluster as
+ * strings, which every numeric field and query accepts - where a parsed number
+ * would have reached it rounded, and matched the wrong documents.
+ */
+export function parseSearchRequest(text: string): SearchRequest {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(quoteUnsafeIntegers(text)) as unknown;
+  } catch (error) {
+    throw invalid(`The request is not valid JSON (${error instanceof Error ? error.message : String(error)})`, text);
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw invalid("The request is not a JSON object", text);
+  }
+
+  const { index, ...body } = parsed as Record<string, unknown>;
+  const targets = Array.isArray(index) ? index : [index];
+  if (targets.length === 0 || !targets.every((target) => typeof target === "string" && target.trim() !== "")) {
+    throw invalid('The request has no "index"', text);
+  }
+
+  return { target: (targets as string[]).map((target) => target.trim()).join(","), body };
+}
+
+/**
+ * True when a search body decides its own page, and the editor's must not be
+ * applied: it sets a `size` or a `from`, pages with `search_after` (which takes
+ * no `from`), or aggregates - the buckets are the answer, and a page of documents
+ * beside them would only be noise. Asking for both is one `size` away.
+ */
+export function pagesItself(body: Record<string, unknown>): boolean {
+  return ["size", "from", "search_after", "aggs", "aggregations"].some((key) => key in body);
+}
+
+/**
+ * The body with the page applied, or as written when it pages itself. An
+ * aggregation that sets no `size` is sent with `size: 0`, so it returns no hits.
+ */
+export function applyPage(body: Record<string, unknown>, page: PageDirective): Record<string, unknown> {
+  if ("size" in body || "from" in body || "search_after" in body) return body;
+  if (pagesItself(body)) return { ...body, size: 0 };
+
+  const from = Math.min(page.offset, MAX_RESULT_WINDOW);
+  return { ...body, from, size: Math.max(0, Math.min(page.size, MAX_RESULT_WINDOW - from)) };
+}
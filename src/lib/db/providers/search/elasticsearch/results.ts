@@ -0,0 +1,223 @@
+/**
+ * Search and SQL answers as the rows a grid shows
+ *
+ * A grid is a table and a search answer is not: a hit is a nested document, and
+ * an aggregation is a tree of buckets. Both are flattened here, the way Kibana's
+ * own table visualisation does it, so the shapes a user already reads there are
+ * the shapes they read here.
+ *
+ * - A document becomes one row: where it lives (`_index`, `_id`, `_score`) and
+ *   then every field, nested objects spelled with dots - `http.response.status` -
+ *   which is how the mapping and the SQL endpoint name the same field. Arrays are
+ *   kept whole; spreading one across columns would invent a position a document
+ *   does not have.
+ * - An aggregation becomes one row per innermost bucket, with a column for each
+ *   bucket key on the way down, its document count, and each metric beside it.
+ */
+
+import type { QueryWarning } from "@/lib/types";
+import type { SearchResult, SqlColumn } from "./transport";
+
+/** What one answer adds up to in the grid. */
+export interface ResultTable {
+  rows: Record<string, unknown>[];
+  fields: string[];
+  columnTypes?: Record<string, string>;
+  warnings?: QueryWarning[];
+}
+
+type Row = Record<string, unknown>;
+
+/** A bucket's own fields, as opposed to the sub-aggregations beside them. */
+const BUCKET_FIELDS = new Set([
+  "key",
+  "key_as_string",
+  "doc_count",
+  "from",
+  "from_as_string",
+  "to",
+  "to_as_string",
+  "bg_count",
+  "score",
+]);
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+/** Every key of every row, in the order it was first seen. */
+function fieldsOf(rows: readonly Row[]): string[] {
+  const fields = new Set<string>();
+  for (const row of rows) for (const field of Object.keys(row)) fields.add(field);
+  return [...fields];
+}
+
+function toWarnings(messages: readonly string[]): QueryWarning[] | undefined {
+  return messages.length > 0 ? messages.map((message) => ({ message })) : undefined;
+}
+
+// ============================================================================
+// Documents
+// ============================================================================
+
+/** A document's fields with nested objects spelled as dotted names. */
+export function flattenDocument(source: Record<string, unknown>, prefix = "", into: Row = {}): Row {
+  for (const [key, value] of Object.entries(source)) {
+    const name = prefix === "" ? key : `${prefix}.${key}`;
+    const nested = asRecord(value);
+    if (nested && Object.keys(nested).length > 0) flattenDocument(nested, name, into);
+    else into[name] = value;
+  }
+  return into;
+}
+
+// ============================================================================
+// Aggregations
+// ============================================================================
+
+/**
+ * The buckets of a multi-bucket aggregation, or null when it is not one. A
+ * `keyed` request answers an object instead of an array, and its keys are the
+ * bucket keys.
+ */
+function bucketsOf(aggregation: Record<string, unknown>): Row[] | null {
+  const { buckets } = aggregation;
+  if (Array.isArray(buckets)) return buckets.map((bucket) => asRecord(bucket) ?? {});
+
+  const keyed = asRecord(buckets);
+  if (!keyed) return null;
+  return Object.entries(keyed).map(([key, bucket]) => ({ key, ...(asRecord(bucket) ?? {}) }));
+}
+
+/** The sub-aggregations a bucket carries beside its own fields. */
+function subAggregations(bucket: Row): Row {
+  return Object.fromEntries(Object.entries(bucket).filter(([field]) => !BUCKET_FIELDS.has(field)));
+}
+
+/**
+ * A metric's columns. A single-value metric (`avg`, `cardinality`) is one column
+ * named after the aggregation; a multi-value one (`stats`, `percentiles`) is a
+ * column per value.
+ */
+function metricColumns(name: string, metric: Record<string, unknown>): Row {
+  if ("value" in metric) return { [name]: metric.value };
+
+  const values = asRecord(metric.values) ?? metric;
+  return Object.fromEntries(
+    Object.entries(values)
+      .filter(([field]) => !field.endsWith("_as_string"))
+      .map(([field, value]) => [`${name}.${field}`, value]),
+  );
+}
+
+/**
+ * The rows one level of aggregations produces, each extending `base`.
+ *
+ * Metrics fill in the row itself. A bucket aggregation multiplies it: one row per
+ * bucket, carrying the bucket's key and count, and whatever the bucket nests
+ * beneath it. Two bucket aggregations side by side are listed one after the
+ * other rather than crossed - they counted the same documents two ways, and a
+ * cross product would pair buckets that never shared a document.
+ */
+function tabify(aggregations: Row, base: Row): Row[] {
+  const row: Row = { ...base };
+  const branches: Array<() => Row[]> = [];
+
+  for (const [name, value] of Object.entries(aggregations)) {
+    const aggregation = asRecord(value);
+    if (!aggregation) continue;
+
+    const buckets = bucketsOf(aggregation);
+    if (buckets) {
+      branches.push(() =>
+        buckets.flatMap((bucket) =>
+          tabify(subAggregations(bucket), {
+            ...row,
+            [name]: bucket.key_as_string ?? bucket.key ?? null,
+            [`${name}.doc_count`]: bucket.doc_count ?? null,
+          }),
+        ),
+      );
+    } else if ("doc_count" in aggregation) {
+      // A single-bucket aggregation (`filter`, `nested`, `global`): a count and the
+      // aggregations beneath it, with no key to name it by.
+      branches.push(() =>
+        tabify(subAggregations(aggregation), { ...row, [`${name}.doc_count`]: aggregation.doc_count }),
+      );
+    } else {
+      Object.assign(row, metricColumns(name, aggregation));
+    }
+  }
+
+  // Built after the loop, so a metric listed after a bucket aggregation still
+  // reaches every row the buckets produce.
+  return branches.length === 0 ? [row] : branches.flatMap((branch) => branch());
+}
+
+// ============================================================================
+// Answers
+// ============================================================================
+
+/**
+ * A search answer as a table: its aggregations when it asked for any, its
+ * documents otherwise.
+ */
+export function searchTable(result: SearchResult): ResultTable {
+  const warnings: string[] = [];
+  if (result.timedOut) {
+    warnings.push("The search ran out of time before every shard finished, so the results are partial.");
+  }
+  if (result.failedShards !== null && result.failedShards > 0) {
+    warnings.push(
+      `${result.failedShards} ${result.failedShards === 1 ? "shard" : "shards"} failed to answer, so the results are partial.`,
+    );
+  }
+
+  let rows: Row[];
+  if (result.aggregations) {
+    rows = tabify(result.aggregations, {});
+    if (result.hits.length > 0) {
+      warnings.push(
+        `The search also returned ${result.hits.length} documents, which are not shown beside its aggregations. Run it without them to see the documents.`,
+      );
+    }
+  } else {
+    rows = result.hits.map((hit) => ({
+      _index: hit.index,
+      _id: hit.id,
+      _score: hit.score,
+      ...flattenDocument(hit.source),
+    }));
+  }
+
+  const notices = toWarnings(warnings);
+  return { rows, fields: fieldsOf(rows), ...(notices && { warnings: notices }) };
+}
+
+/**
+ * The declared names, made unique: `SELECT a, a` is legal and a row is a record,
+ * so the repeat would otherwise overwrite the first column.
+ */
+function disambiguate(declared: readonly string[]): string[] {
+  const taken = new Set<string>();
+
+  return declared.map((name) => {
+    let unique = name;
+    for (let repeat = 2; taken.has(unique); repeat += 1) unique = `${name} (${repeat})`;
+    taken.add(unique);
+    return unique;
+  });
+}
+
+/** Positional SQL rows, zipped with the columns the statement's first page declared. */
+export function sqlTable(columns: readonly SqlColumn[], pages: readonly unknown[][]): ResultTable {
+  const fields = disambiguate(columns.map((column) => column.name));
+  const rows = pages.map((values) => Object.fromEntries(fields.map((field, index) => [field, values[index] ?? null])));
+  const columnTypes = Object.fromEntries(
+    fields.flatMap((field, index) => (columns[index].type === "" ? [] : [[field, columns[index].type]])),
+  );
+
+  return { rows, fields, ...(Object.keys(columnTypes).length > 0 && { columnTypes }) };
+}
@@ -0,0 +1,237 @@
+/**
+ * Elasticsearch / OpenSearch transport seam
+ *
+ * Provider logic never talks to the cluster directly. It goes through this
+ * interface, so adopting an official client later - or a transport that signs
+ * requests for a managed service - is an additive change (one new file
+ * implementing the same contract) rather than a rewrite of the provider and the
+ * introspection. This is the sibling of the Druid and Couchbase seams.
+ *
+ * One seam serves both engines. OpenSearch forked from Elasticsearch 7.10 and the
+ * two still share the search API, the `_cat` and `_cluster` APIs and the error
+ * envelope; where they part ways - the SQL endpoint, its request and its result
+ * shape - the difference stays inside `http-transport.ts`, and the provider only
+ * learns which engine it is talking to through `ClusterIdentity.distribution`.
+ *
+ * The types below are deliberately NEUTRAL: they describe what a caller needs,
+ * not how either engine encodes it. `seam-guard.test.ts` fails the build when the
+ * SQL endpoints, their result fields or the error envelope's fields appear
+ * anywhere else in the provider directory.
+ *
+ * Apart from the error type this file is purely structural: no I/O.
+ */
+
+/** Which of the two engines answered. Read once, from the cluster's root endpoint. */
+export type SearchDistribution = "elasticsearch" | "opensearch";
+
+/** Who the cluster says it is. */
+export interface ClusterIdentity {
+  distribution: SearchDistribution;
+  /** The engine's own version number, such as `8.15.0` or `2.17.1`. */
+  version: string;
+  clusterName: string;
+}
+
+/**
+ * One document a search matched.
+ *
+ * `source` is the document as it was indexed, still nested: flattening it into
+ * dotted columns is a presentation decision, and the provider makes it.
+ */
+export interface SearchHit {
+  id: string;
+  index: string;
+  /** Null when the search sorted on something other than relevance, which leaves no score. */
+  score: number | null;
+  source: Record<string, unknown>;
+}
+
+/**
+ * Normalized outcome of one search request.
+ *
+ * Two fields exist for the same reason Druid's `unavailableSegments` does: a
+ * search can SUCCEED with part of the data missing. A shard that failed, or a
+ * search that ran out of its time budget, still answers 200 with the hits the
+ * rest of the cluster found, and nothing in those hits says so.
+ */
+export interface SearchResult {
+  hits: SearchHit[];
+  /**
+   * How many documents matched, or null when the request asked the cluster not
+   * to count. A lower bound when `totalIsLowerBound` is set: both engines stop
+   * counting at 10,000 unless the request asks for an exact total.
+   */
+  totalHits: number | null;
+  totalIsLowerBound: boolean;
+  /** The aggregation results keyed by the names the request gave them, or null when it asked for none. */
+  aggregations: Record<string, unknown> | null;
+  /** True when the search stopped at its time budget and the hits are what it had found by then. */
+  timedOut: boolean;
+  /** How many shards failed to answer, or null when the response said nothing about shards. */
+  failedShards: number | null;
+  /** The time the cluster reports spending, in milliseconds. */
+  executionTimeMs: number;
+}
+
+/** One column of a SQL result, as the engine declared it. */
+export interface SqlColumn {
+  name: string;
+  /** The engine's own type name - `keyword`, `long`, `datetime` - which is what a user reads in a mapping. */
+  type: string;
+}
+
+/**
+ * A SQL statement to start, or a cursor to continue.
+ *
+ * `fetchSize` is how many rows one page holds. Both engines fix it when the
+ * statement starts and carry it inside the cursor, so a continuation cannot ask
+ * for a different size.
+ */
+export type SqlRequest = { statement: string; fetchSize: number } | { cursor: string };
+
+/**
+ * One page of a SQL result.
+ *
+ * `columns` is null on a continuation: both engines describe the columns on the
+ * first page only, and the rows after it are positional. Keeping the rows
+ * positional here, rather than rebuilding records, is what makes that honest - a
+ * caller that continues a cursor must already hold the columns it started with.
+ */
+export interface SqlPage {
+  columns: SqlColumn[] | null;
+  rows: unknown[][];
+  /** Where the next page starts, or null when the statement is exhausted. */
+  cursor: string | null;
+  /** Measured by the transport: neither SQL endpoint reports a duration. */
+  executionTimeMs: number;
+}
+
+/** Per-request options. */
+export interface RequestOptions {
+  /**
+   * Server-side budget for this request, in milliseconds.
+   *
+   * Not the same promise on every endpoint, and the difference is why a search can
+   * come back `timedOut`: a search's budget is per shard and soft - each shard
+   * stops and answers with what it has - while the SQL endpoints cancel the
+   * statement outright.
+   */
+  timeoutMs?: number;
+  /**
+   * Wall-clock deadline for the whole exchange, client side. Not a duplicate of
+   * `timeoutMs`: a server-side budget only starts counting once the cluster has the
+   * request, so it cannot bound a stalled connect or a body that stops arriving.
+   */
+  clientDeadlineMs?: number;
+}
+
+/**
+ * How much later than `timeoutMs` a caller should set `clientDeadlineMs`, so the
+ * cluster's own answer to an exhausted budget - partial hits, or a classified
+ * timeout - arrives before the client gives up on it.
+ */
+export const ELASTICSEARCH_CLIENT_DEADLINE_GRACE_MS = 5_000;
+
+/**
+ * The seam itself.
+ *
+ * `manage()` is the REST escape hatch, exactly as it is on Couchbase: cluster
+ * health, node and shard statistics, the index catalog and the mappings are all
+ * plain JSON GETs with no query language in front of them, so a method per read
+ * would be a second copy of the engines' own API reference. It takes a path and
+ * returns the parsed body; every path the provider uses is written in
+ * `introspect.ts` and `index.ts`.
+ */
+export interface ElasticsearchTransport {
+  /** Widen when a non-HTTP implementation appears. */
+  readonly kind: "http";
+  identify(opts?: RequestOptions): Promise<ClusterIdentity>;
+  search(target: string, body: Record<string, unknown>, opts?: RequestOptions): Promise<SearchResult>;
+  sql(request: SqlRequest, opts?: RequestOptions): Promise<SqlPage>;
+  /** Release a cursor the caller will not continue, so the cluster can free what it holds for it. */
+  closeCursor(cursor: string): Promise<void>;
+  manage<T>(path: string, opts?: RequestOptions & { method?: "GET" | "POST" }): Promise<T>;
+  close(): Promise<void>;
+}
+
+/**
+ * The categories a failure is classified into, and the only thing the provider
+ * branches on.
+ *
+ * Unlike Druid's, these are derived from the HTTP status, because on these two
+ * engines the status is the classifier: the REST layer maps every exception type
+ * to a status (`index_not_found_exception` to 404, `security_exception` to 401 or
+ * 403, `es_rejected_execution_exception` to 429), and the exception type itself is
+ * an open set that grows with every plugin. Exported frozen so the provider, the
+ * transport and the tests share one definition.
+ */
+export const ELASTICSEARCH_ERROR_CATEGORIES = Object.freeze({
+  /** No credentials, or credentials the cluster rejected. HTTP 401. */
+  AUTHENTICATION: "AUTHENTICATION",
+  /** Credentials accepted, privilege missing. HTTP 403. */
+  AUTHORIZATION: "AUTHORIZATION",
+  /** An index, a task or an endpoint that does not exist. HTTP 404. */
+  NOT_FOUND: "NOT_FOUND",
+  /** The statement or the search body was wrong. The remaining 4xx. */
+  INVALID_REQUEST: "INVALID_REQUEST",
+  /** The cluster is shedding load - a full search queue or a tripped circuit breaker. HTTP 429. */
+  REJECTED: "REJECTED",
+  /** A budget ran out, on either side of the connection. HTTP 408 and 504, and the client deadline. */
+  TIMEOUT: "TIMEOUT",
+  /** The cluster failed while answering. The remaining 5xx. */
+  SERVER: "SERVER",
+} as const);
+
+export type ElasticsearchErrorCategory = keyof typeof ELASTICSEARCH_ERROR_CATEGORIES;
+
+/**
+ * Stand-in for a failure that never reached the cluster, or came back with
+ * nothing to classify - a refused socket, a proxy's HTML page, a truncated body,
+ * or a request refused before it left the process. Deliberately NOT one of the
+ * categories above, so nothing can mistake it for the cluster having spoken.
+ */
+export const ELASTICSEARCH_TRANSPORT_FAILURE = "TRANSPORT_FAILURE";
+
+/**
+ * Categories that mean "this surface is not available here", as opposed to "this
+ * request was wrong". A role without the `monitor` cluster privilege, and an
+ * engine version without the data stream API, are ordinary configurations, so a
+ * monitoring or catalog read degrades to empty on these two and only these two.
+ */
+const MONITORING_UNAVAILABLE_CATEGORIES: readonly string[] = [
+  ELASTICSEARCH_ERROR_CATEGORIES.AUTHORIZATION,
+  ELASTICSEARCH_ERROR_CATEGORIES.NOT_FOUND,
+];
+
+/**
+ * Normalized transport failure.
+ *
+ * `category` is the only field callers should branch on. `errorType` is the
+ * engine's exception name (`parsing_exception`, `verification_exception`) and is
+ * carried for display and logs only: it is an open set, and OpenSearch's SQL
+ * plugin spells its own in Java class style (`SyntaxCheckException`).
+ */
+export class ElasticsearchTransportError extends Error {
+  constructor(
+    message: string,
+    public readonly category: string = ELASTICSEARCH_TRANSPORT_FAILURE,
+    public readonly errorType: string | null = null,
+    public readonly status: number | null = null,
+  ) {
+    super(message);
+    this.name = "ElasticsearchTransportError";
+    // Subclassing a builtin loses the prototype under a downlevel emit, which
+    // would make every instanceof check in the provider quietly fall through.
+    Object.setPrototypeOf(this, ElasticsearchTransportError.prototype);
+  }
+
+  /** True when this failure is the named one. Keyed by name so no call site spells a token. */
+  is(category: ElasticsearchErrorCategory): boolean {
+    return this.category === ELASTICSEARCH_ERROR_CATEGORIES[category];
+  }
+
+  /** True when a monitoring read should degrade to empty instead of surfacing this. */
+  isMonitoringUnavailable(): boolean {
+    return MONITORING_UNAVAILABLE_CATEGORIES.includes(this.category);
+  }
+}
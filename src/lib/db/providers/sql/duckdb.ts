@@ -0,0 +1,806 @@
+/**
+ * DuckDB Database Provider
+ * Embedded, in-process analytics engine - a `.duckdb` file or `:memory:`.
+ *
+ * The file path travels in `config.database`, like SQLite. The engine is the
+ * `@duckdb/node-api` package (N-API bindings, so it runs under both Bun and
+ * Node); it is imported lazily so the native binding never enters a client
+ * bundle and `build:lib` (tsup) can externalize it.
+ *
+ * Beyond its own tables, DuckDB reads Parquet, CSV and JSON files straight from
+ * a query (`SELECT * FROM read_parquet('/data/drops/events.parquet')`). That
+ * reach is confined: a connection may open files only under its database's
+ * own directory and `DUCKDB_FILE_ROOT`, with the configuration locked so a
+ * statement cannot widen it (see `confineFileAccess`).
+ */
+
+import { SQLBaseProvider } from "./sql-base";
+import {
+  type DatabaseConnection,
+  type TableSchema,
+  type QueryResult,
+  type HealthInfo,
+  type MaintenanceType,
+  type MaintenanceResult,
+  type ProviderOptions,
+  type ProviderCapabilities,
+  type ProviderLabels,
+  type DatabaseOverview,
+  type PerformanceMetrics,
+  type SlowQueryStats,
+  type ActiveSessionDetails,
+  type TableStats,
+  type IndexStats,
+  type StorageStats,
+} from "../../types";
+import { DatabaseConfigError, ConnectionError, QueryError, TimeoutError, mapDatabaseError } from "../../errors";
+import { formatBytes } from "../../utils/pool-manager";
+import * as fs from "fs";
+import * as path from "path";
+
+// ============================================================================
+// Lazy package loader (mirrors libredb.ts loading @libredb/libredb)
+// ============================================================================
+
+type DuckDBModule = typeof import("@duckdb/node-api");
+type DuckDBInstance = import("@duckdb/node-api").DuckDBInstance;
+type DuckDBConnection = import("@duckdb/node-api").DuckDBConnection;
+type DuckDBValue = import("@duckdb/node-api").DuckDBValue;
+
+let duckdbModule: DuckDBModule | null = null;
+let duckdbLoadError: Error | null = null;
+
+async function loadDuckDB(): Promise<DuckDBModule> {
+  if (duckdbModule) return duckdbModule;
+  if (duckdbLoadError) throw duckdbLoadError;
+  try {
+    duckdbModule = await import("@duckdb/node-api");
+    return duckdbModule;
+  } catch {
+    duckdbLoadError = new DatabaseConfigError(
+      "DuckDB package (@duckdb/node-api) is not available in this environment. Install it with: bun add @duckdb/node-api",
+      "duckdb",
+    );
+    throw duckdbLoadError;
+  }
+}
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+// Row shapes returned by the introspection statements below. DuckDB returns
+// BIGINT and HUGEINT columns as strings through getRowObjectsJson, so every
+// count is read through toCount rather than trusted to be a number.
+interface DuckDBTableRow {
+  table_schema: string;
+  table_name: string;
+  table_type: string;
+  estimated_size: string | number | null;
+}
+
+interface DuckDBColumnRow {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  data_type: string;
+  is_nullable: string;
+  column_default: string | null;
+}
+
+interface DuckDBConstraintRow {
+  schema_name: string;
+  table_name: string;
+  constraint_type: string;
+  constraint_column_names: string[];
+  referenced_table: string | null;
+  referenced_column_names: string[] | null;
+}
+
+interface DuckDBIndexRow {
+  schema_name: string;
+  table_name: string;
+  index_name: string;
+  is_unique: boolean;
+  is_primary: boolean;
+  expressions: string | null;
+}
+
+interface DuckDBDatabaseSizeRow {
+  block_size: string | number;
+  used_blocks: string | number;
+  wal_size: string;
+  memory_usage: string;
+  memory_limit: string;
+}
+
+// ============================================================================
+// Introspection SQL
+// ----------------------------------------------------------------------------
+// Hoisted to module scope for the coverage reason recorded in sqlite.ts. Every
+// catalog read is pinned to current_database(): an ATTACHed file (or the
+// always-present `system` and `temp` catalogs) is not this connection's schema.
+// ============================================================================
+
+const SCHEMA_TABLES_SQL = `
+      SELECT t.table_schema, t.table_name, t.table_type, d.estimated_size
+      FROM information_schema.tables t
+      LEFT JOIN duckdb_tables() d
+        ON d.database_name = t.table_catalog
+        AND d.schema_name = t.table_schema
+        AND d.table_name = t.table_name
+      WHERE t.table_catalog = current_database()
+      ORDER BY t.table_schema, t.table_name
+    `;
+
+const SCHEMA_COLUMNS_SQL = `
+      SELECT table_schema, table_name, column_name, data_type, is_nullable, column_default
+      FROM information_schema.columns
+      WHERE table_catalog = current_database()
+      ORDER BY table_schema, table_name, ordinal_position
+    `;
+
+const SCHEMA_CONSTRAINTS_SQL = `
+      SELECT schema_name, table_name, constraint_type, constraint_column_names,
+             referenced_table, referenced_column_names
+      FROM duckdb_constraints()
+      WHERE database_name = current_database()
+        AND constraint_type IN ('PRIMARY KEY', 'FOREIGN KEY')
+    `;
+
+const INDEXES_SQL = `
+      SELECT schema_name, table_name, index_name, is_unique, is_primary, expressions
+      FROM duckdb_indexes()
+      WHERE database_name = current_database()
+      ORDER BY schema_name, table_name, index_name
+    `;
+
+const VERSION_SQL = "SELECT library_version FROM pragma_version()";
+
+const DATABASE_SIZE_SQL = `
+      SELECT block_size, used_blocks, wal_size, memory_usage, memory_limit
+      FROM pragma_database_size()
+      WHERE database_name = current_database()
+    `;
+
+const OBJECT_COUNTS_SQL = `
+      SELECT
+        (SELECT COUNT(*) FROM duckdb_tables() WHERE database_name = current_database() AND NOT internal) AS table_count,
+        (SELECT COUNT(*) FROM duckdb_indexes() WHERE database_name = current_database()) AS index_count
+    `;
+
+const STATS_TABLES_SQL = `
+      SELECT schema_name, table_name, estimated_size
+      FROM duckdb_tables()
+      WHERE database_name = current_database() AND NOT internal
+      ORDER BY schema_name, table_name
+    `;
+
+/** The engine's own statement for flushing the WAL into the database file. */
+const CHECKPOINT_SQL = "CHECKPOINT";
+
+/** The schema a bare table name resolves to, shown without its prefix. */
+const DEFAULT_SCHEMA = "main";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toCount(value: unknown): number {
+  const count = Number(value);
+  return Number.isFinite(count) ? count : 0;
+}
+
+function displayName(schema: string, table: string): string {
+  return schema === DEFAULT_SCHEMA ? table : `${schema}.${table}`;
+}
+
+/**
+ * The columns of an index, read from `duckdb_indexes().expressions`: a list cast
+ * to text, so an item that needs it is single-quoted with backslash escapes and
+ * the rest are bare (`[email, '"we\'ird"', (lower(email))]`, checked against the
+ * bundled engine). Items are split at the commas outside quotes and brackets; a
+ * quoted identifier is unquoted, and an expression key is shown as written.
+ */
+export function parseIndexExpressions(expressions: string | null): string[] {
+  const body = expressions?.trim().replace(/^\[/, "").replace(/\]$/, "");
+  if (!body) return [];
+
+  const items: string[] = [];
+  let current = "";
+  let depth = 0;
+  let quoted = false;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (quoted) {
+      if (ch === "\\" && i + 1 < body.length) current += ch + body[++i];
+      else {
+        if (ch === "'") quoted = false;
+        current += ch;
+      }
+    } else if (ch === "'") {
+      quoted = true;
+      current += ch;
+    } else if (ch === "," && depth === 0) {
+      items.push(current);
+      current = "";
+    } else {
+      if (ch === "(" || ch === "[") depth++;
+      if (ch === ")" || ch === "]") depth--;
+      current += ch;
+    }
+  }
+  items.push(current);
+
+  return items.map((raw) => {
+    let item = raw.trim();
+    if (item.length >= 2 && item.startsWith("'") && item.endsWith("'")) {
+      item = item.slice(1, -1).replace(/\\(.)/g, "$1");
+    }
+    return /^"(?:[^"]|"")*"$/.test(item) ? item.slice(1, -1).replace(/""/g, '"') : item;
+  });
+}
+
+/**
+ * The directories this connection may read and write files under, each with a
+ * trailing separator so `/data/drops` does not also admit `/data/drops-old`.
+ * A `:memory:` database has no directory of its own, so without a root it gets
+ * none - and no file access at all.
+ */
+export function allowedDirectories(dbPath: string, fileRoot: string | undefined): string[] {
+  const dirs: string[] = [];
+  if (dbPath !== ":memory:") dirs.push(path.dirname(dbPath));
+  if (fileRoot && fileRoot.trim()) dirs.push(path.resolve(fileRoot.trim()));
+  return Array.from(new Set(dirs.map((dir) => (dir.endsWith(path.sep) ? dir : dir + path.sep))));
+}
+
+// ============================================================================
+// DuckDB Provider
+// ============================================================================
+
+export class DuckDBProvider extends SQLBaseProvider {
+  private instance: DuckDBInstance | null = null;
+  private connection: DuckDBConnection | null = null;
+  private resultReturnType: DuckDBModule["ResultReturnType"] | null = null;
+
+  constructor(config: DatabaseConnection, options: ProviderOptions = {}) {
+    super(config, options);
+    this.validate();
+  }
+
+  // ============================================================================
+  // Provider Metadata
+  // ============================================================================
+
+  public override getCapabilities(): ProviderCapabilities {
+    return {
+      ...super.getCapabilities(),
+      defaultPort: null,
+      supportsExplain: true,
+      explainFormat: "duckdb-json",
+      supportsConnectionString: false,
+      supportsInlineRowEdit: true,
+      maintenanceOperations: ["analyze", "vacuum"],
+    };
+  }
+
+  /**
+   * DuckDB has no VACUUM that reclaims space (its `VACUUM` is accepted and does
+   * nothing), so the "vacuum" operation runs CHECKPOINT instead: it writes the
+   * WAL into the database file, which is what a user reaching for "reclaim
+   * space" on an embedded file wants.
+   */
+  public override getLabels(): ProviderLabels {
+    return {
+      ...super.getLabels(),
+      vacuumAction: "Checkpoint",
+      vacuumGlobalLabel: "Checkpoint",
+      vacuumGlobalTitle: "Checkpoint Database",
+      vacuumGlobalDesc:
+        "Runs CHECKPOINT, which writes the write-ahead log into the database file. DuckDB has no VACUUM that reclaims space.",
+    };
+  }
+
+  // ============================================================================
+  // Validation
+  // ============================================================================
+
+  public validate(): void {
+    super.validate();
+
+    if (!this.config.database) {
+      throw new DatabaseConfigError(
+        'Database file path is required for DuckDB (use "database" field or ":memory:" for in-memory)',
+        "duckdb",
+      );
+    }
+  }
+
+  // ============================================================================
+  // Connection Management
+  // ============================================================================
+
+  public async connect(): Promise<void> {
+    if (this.connection) {
+      return;
+    }
+
+    try {
+      const duckdb = await loadDuckDB();
+      const dbPath = this.getDatabasePath();
+
+      if (dbPath !== ":memory:") {
+        const dir = path.dirname(dbPath);
+        if (!fs.existsSync(dir)) {
+          fs.mkdirSync(dir, { recursive: true });
+        }
+      }
+
+      const instance = await duckdb.DuckDBInstance.create(dbPath);
+      try {
+        const connection = await instance.connect();
+        try {
+          await this.confineFileAccess(connection, dbPath);
+        } catch (error) {
+          connection.closeSync();
+          throw error;
+        }
+        this.instance = instance;
+        this.connection = connection;
+        this.resultReturnType = duckdb.ResultReturnType;
+      } catch (error) {
+        instance.closeSync();
+        throw error;
+      }
+
+      this.setConnected(true);
+    } catch (error) {
+      this.setError(error instanceof Error ? error : new Error(String(error)));
+
+      if (error instanceof DatabaseConfigError) {
+        throw error;
+      }
+
+      throw new ConnectionError(
+        `Failed to open DuckDB database: ${error instanceof Error ? error.message : error}`,
+        "duckdb",
+      );
+    }
+  }
+
+  /**
+   * Confine what a statement can reach outside the database file.
+   *
+   * DuckDB's default is to read and write any file the server process can:
+   * `read_csv('/etc/passwd')`, `COPY t TO '/any/path'`, `ATTACH`, `INSTALL`. With
+   * external access disabled, only the allowed directories stay reachable, and
+   * the lock makes the whole configuration read-only for the rest of the
+   * connection - a later `SET enable_external_access = true` is an error.
+   *
+   * Set by statement after open, not through `DuckDBInstance.create` options:
+   * the engine refuses `allowed_directories` as an open-time option. Relative
+   * paths are refused by the engine once external access is off (they resolve
+   * against the server's working directory, which no allowed entry can name
+   * safely), so queried files are addressed by absolute path.
+   */
+  private async confineFileAccess(connection: DuckDBConnection, dbPath: string): Promise<void> {
+    const dirs = allowedDirectories(dbPath, process.env.DUCKDB_FILE_ROOT);
+    const list = dirs.map((dir) => `'${dir.replace(/'/g, "''")}'`).join(", ");
+    await connection.run(`SET allowed_directories = [${list}]`);
+    await connection.run("SET enable_external_access = false");
+    await connection.run("SET lock_configuration = true");
+  }
+
+  public async disconnect(): Promise<void> {
+    if (this.connection) {
+      this.connection.closeSync();
+      this.connection = null;
+    }
+    if (this.instance) {
+      this.instance.closeSync();
+      this.instance = null;
+      this.setConnected(false);
+    }
+  }
+
+  private getDatabasePath(): string {
+    const dbPath = this.config.database || ":memory:";
+
+    if (dbPath === ":memory:") return dbPath;
+
+    // Same rule as sqlite.ts: NUL bytes are never valid in a path, and the
+    // rest resolves to an absolute server-side path.
+    if (dbPath.includes("\0")) {
+      throw new DatabaseConfigError("Invalid database path: NUL bytes are not allowed", "duckdb");
+    }
+
+    return path.resolve(dbPath);
+  }
+
+  // ============================================================================
+  // Query Execution
+  // ============================================================================
+
+  public async query(sql: string, params?: unknown[]): Promise<QueryResult> {
+    this.ensureConnected();
+
+    return this.trackQuery(async () => {
+      const { result, executionTime } = await this.measureExecution(() => this.run(sql, params));
+
+      return {
+        rows: result.rows,
+        fields: result.fields,
+        rowCount: result.changes ?? result.rows.length,
+        executionTime,
+      };
+    });
+  }
+
+  /**
+   * Run one statement and read its whole result.
+   *
+   * Field names are the reader's DEDUPLICATED names (`a`, `a:1`): rows are keyed
+   * by field, so two columns sharing a name would otherwise overwrite each
+   * other. Values come back JSON-safe (BIGINT, HUGEINT and DECIMAL as strings,
+   * timestamps as ISO-like text), which is what the result grid and the API
+   * serialize anyway.
+   *
+   * The engine runs on its own threads, so the timeout is real: at the deadline
+   * the connection is interrupted and the statement stops where it is.
+   */
+  private async run(
+    sql: string,
+    params?: unknown[],
+  ): Promise<{ rows: Record<string, unknown>[]; fields: string[]; changes?: number }> {
+    const connection = this.connection!;
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      connection.interrupt();
+    }, this.queryTimeout);
+
+    try {
+      const reader = await connection.runAndReadAll(sql, params as DuckDBValue[] | undefined);
+
+      if (reader.returnType === this.resultReturnType!.CHANGED_ROWS) {
+        return { rows: [], fields: [], changes: toCount(reader.rowsChanged) };
+      }
+
+      const fields = reader.deduplicatedColumnNames();
+      const rows = reader
+        .getRowsJson()
+        .map((values) => Object.fromEntries(fields.map((field, i) => [field, values[i]] as const)));
+      return { rows, fields };
+    } catch (error) {
+      if (timedOut) {
+        throw new TimeoutError(
+          `Query exceeded ${this.queryTimeout}ms and was interrupted`,
+          "duckdb",
+          this.queryTimeout,
+          sql,
+        );
+      }
+      throw mapDatabaseError(error, "duckdb", sql);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /** Introspection reads: rows keyed by column name, as the catalog names them. */
+  private async read<T>(sql: string): Promise<T[]> {
+    const reader = await this.connection!.runAndReadAll(sql);
+    return reader.getRowObjectsJson() as unknown as T[];
+  }
+
+  // ============================================================================
+  // Schema Operations
+  // ============================================================================
+
+  public async getSchema(): Promise<TableSchema[]> {
+    this.ensureConnected();
+
+    // One catalog read each, in turn: the four share the one connection.
+    const tables = await this.read<DuckDBTableRow>(SCHEMA_TABLES_SQL);
+    const columns = await this.read<DuckDBColumnRow>(SCHEMA_COLUMNS_SQL);
+    const constraints = await this.read<DuckDBConstraintRow>(SCHEMA_CONSTRAINTS_SQL);
+    const indexes = await this.read<DuckDBIndexRow>(INDEXES_SQL);
+
+    const key = (schema: string, table: string) => `${schema}\0${table}`;
+
+    const primaryKeys = new Map<string, Set<string>>();
+    const foreignKeys = new Map<string, TableSchema["foreignKeys"]>();
+    for (const row of constraints) {
+      const tableKey = key(row.schema_name, row.table_name);
+      if (row.constraint_type === "PRIMARY KEY") {
+        primaryKeys.set(tableKey, new Set(row.constraint_column_names));
+        continue;
+      }
+      const referenced = row.referenced_column_names ?? [];
+      const list = foreignKeys.get(tableKey) ?? [];
+      row.constraint_column_names.forEach((columnName, i) => {
+        list.push({
+          columnName,
+          referencedTable: displayName(row.schema_name, row.referenced_table ?? ""),
+          referencedColumn: referenced[i] ?? "",
+        });
+      });
+      foreignKeys.set(tableKey, list);
+    }
+
+    return tables.map((table) => {
+      const tableKey = key(table.table_schema, table.table_name);
+      const pk = primaryKeys.get(tableKey);
+      const isView = table.table_type === "VIEW";
+
+      return {
+        name: displayName(table.table_schema, table.table_name),
+        // duckdb_tables() knows base tables only; a view has no stored rows.
+        rowCount: isView ? undefined : toCount(table.estimated_size),
+        size: "N/A",
+        columns: columns
+          .filter((col) => col.table_schema === table.table_schema && col.table_name === table.table_name)
+          .map((col) => ({
+            name: col.column_name,
+            type: col.data_type,
+            nullable: col.is_nullable === "YES",
+            isPrimary: pk?.has(col.column_name) ?? false,
+            defaultValue: col.column_default ?? undefined,
+          })),
+        indexes: indexes
+          .filter((idx) => idx.schema_name === table.table_schema && idx.table_name === table.table_name)
+          .map((idx) => ({
+            name: idx.index_name,
+            columns: parseIndexExpressions(idx.expressions),
+            unique: idx.is_unique,
+          })),
+        foreignKeys: foreignKeys.get(tableKey) ?? [],
+      };
+    });
+  }
+
+  // ============================================================================
+  // Health & Monitoring
+  // ============================================================================
+
+  /** `pragma_database_size()` for this database, or null when it cannot be read. */
+  private async readDatabaseSize(): Promise<DuckDBDatabaseSizeRow | null> {
+    try {
+      const [row] = await this.read<DuckDBDatabaseSizeRow>(DATABASE_SIZE_SQL);
+      return row ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * The database's size in bytes: the file on disk, or - for `:memory:`, which
+   * has no file - the blocks it has in use.
+   */
+  private async databaseSizeBytes(size: DuckDBDatabaseSizeRow | null): Promise<number> {
+    const dbPath = this.getDatabasePath();
+    if (dbPath !== ":memory:") {
+      try {
+        return fs.statSync(dbPath).size;
+      } catch {
+        return 0;
+      }
+    }
+    return size ? toCount(size.used_blocks) * toCount(size.block_size) : 0;
+  }
+
+  public async getHealth(): Promise<HealthInfo> {
+    this.ensureConnected();
+
+    const size = await this.readDatabaseSize();
+    const dbPath = this.getDatabasePath();
+
+    return {
+      activeConnections: 1,
+      databaseSize: formatBytes(await this.databaseSizeBytes(size)),
+      cacheHitRatio: "N/A",
+      slowQueries: [
+        {
+          query: `Memory: ${size?.memory_usage ?? "unknown"} of ${size?.memory_limit ?? "unknown"}`,
+          calls: 0,
+          avgTime: "N/A",
+        },
+        {
+          query: `WAL: ${size?.wal_size ?? "unknown"}`,
+          calls: 0,
+          avgTime: "N/A",
+        },
+      ],
+      activeSessions: [
+        {
+          pid: process.pid,
+          user: "duckdb",
+          database: path.basename(dbPath),
+          state: "active",
+          query: "",
+          duration: "N/A",
+        },
+      ],
+    };
+  }
+
+  // ============================================================================
+  // Maintenance Operations
+  // ============================================================================
+
+  private qualifyMaintenanceTarget(target: string): string {
+    return target
+      .split(".")
+      .map((part) => this.escapeIdentifier(part))
+      .join(".");
+  }
+
+  public async runMaintenance(type: MaintenanceType, target?: string): Promise<MaintenanceResult> {
+    this.ensureConnected();
+
+    const { result, executionTime } = await this.measureExecution(async () => {
+      let sql = "";
+
+      switch (type) {
+        case "analyze":
+          sql = target ? `ANALYZE ${this.qualifyMaintenanceTarget(target)}` : "ANALYZE";
+          break;
+        case "vacuum":
+          // Database-wide by nature: a checkpoint flushes the one WAL every
+          // table shares, so a target is accepted and has nothing to narrow.
+          sql = CHECKPOINT_SQL;
+          break;
+      }
+
+      // Unsupported types leave sql empty; see sqlite.ts on why there is no
+      // `default:` label.
+      if (!sql) {
+        throw new QueryError(`Unsupported maintenance type for DuckDB: ${type}`, "duckdb");
+      }
+
+      try {
+        await this.connection!.run(sql);
+      } catch (error) {
+        throw mapDatabaseError(error, "duckdb", sql);
+      }
+      return { success: true, message: `${sql.split(" ")[0]} completed successfully` };
+    });
+
+    return {
+      success: result.success,
+      executionTime,
+      message: result.message,
+    };
+  }
+
+  // ============================================================================
+  // Monitoring Operations
+  // ============================================================================
+
+  public async getOverview(): Promise<DatabaseOverview> {
+    this.ensureConnected();
+
+    const [versionRow] = await this.read<{ library_version: string }>(VERSION_SQL);
+    const [counts] = await this.read<{ table_count: unknown; index_count: unknown }>(OBJECT_COUNTS_SQL);
+    const databaseSizeBytes = await this.databaseSizeBytes(await this.readDatabaseSize());
+
+    return {
+      version: `DuckDB ${versionRow?.library_version ?? "Unknown"}`,
+      uptime: "N/A",
+      activeConnections: 1,
+      maxConnections: 1,
+      databaseSize: formatBytes(databaseSizeBytes),
+      databaseSizeBytes,
+      tableCount: toCount(counts?.table_count),
+      indexCount: toCount(counts?.index_count),
+    };
+  }
+
+  public async getPerformanceMetrics(): Promise<PerformanceMetrics> {
+    this.ensureConnected();
+
+    // DuckDB keeps no buffer-manager hit counters, so there is no ratio to
+    // report; an estimate would read as a measurement.
+    return {
+      cacheHitRatio: undefined,
+      queriesPerSecond: undefined,
+      bufferPoolUsage: undefined,
+      deadlocks: 0,
+    };
+  }
+
+  public async getSlowQueries(): Promise<SlowQueryStats[]> {
+    // DuckDB keeps no statement history across queries
+    return [];
+  }
+
+  public async getActiveSessions(): Promise<ActiveSessionDetails[]> {
+    this.ensureConnected();
+
+    // In-process and single-connection, like SQLite: the session is this one
+    return [
+      {
+        pid: process.pid,
+        user: "duckdb",
+        database: path.basename(this.getDatabasePath()),
+        state: "active",
+        query: "",
+        duration: "N/A",
+        durationMs: 0,
+      },
+    ];
+  }
+
+  public async getTableStats(): Promise<TableStats[]> {
+    this.ensureConnected();
+
+    const tables = await this.read<{ schema_name: string; table_name: string; estimated_size: unknown }>(
+      STATS_TABLES_SQL,
+    );
+
+    // DuckDB stores tables column-by-column in shared blocks, so there is no
+    // per-table byte size to report - only the row estimate.
+    return tables.map((table) => ({
+      schemaName: table.schema_name,
+      tableName: table.table_name,
+      rowCount: toCount(table.estimated_size),
+      tableSize: "N/A",
+      tableSizeBytes: 0,
+      totalSize: "N/A",
+      totalSizeBytes: 0,
+    }));
+  }
+
+  public async getIndexStats(): Promise<IndexStats[]> {
+    this.ensureConnected();
+
+    const indexes = await this.read<DuckDBIndexRow>(INDEXES_SQL);
+
+    return indexes.map((idx) => ({
+      schemaName: idx.schema_name,
+      tableName: idx.table_name,
+      indexName: idx.index_name,
+      columns: parseIndexExpressions(idx.expressions),
+      isUnique: idx.is_unique,
+      isPrimary: idx.is_primary,
+      indexSize: "N/A",
+      indexSizeBytes: 0,
+      scans: 0, // DuckDB doesn't track index usage
+    }));
+  }
+
+  public async getStorageStats(): Promise<StorageStats[]> {
+    this.ensureConnected();
+
+    const dbPath = this.getDatabasePath();
+    const mainSizeBytes = await this.databaseSizeBytes(await this.readDatabaseSize());
+
+    const stats: StorageStats[] = [
+      {
+        name: "Main Database",
+        location: dbPath === ":memory:" ? ":memory:" : path.basename(dbPath),
+        size: formatBytes(mainSizeBytes),
+        sizeBytes: mainSizeBytes,
+      },
+    ];
+
+    // WAL file (if exists): DuckDB names it `<database>.wal`
+    if (dbPath !== ":memory:") {
+      const walPath = `${dbPath}.wal`;
+      try {
+        const walStats = fs.statSync(walPath);
+        stats.push({
+          name: "WAL",
+          location: path.basename(walPath),
+          size: formatBytes(walStats.size),
+          sizeBytes: walStats.size,
+          walSize: formatBytes(walStats.size),
+          walSizeBytes: walStats.size,
+        });
+      } catch {
+        // WAL might not exist
+      }
+    }
+
+    return stats;
+  }
+}
@@ -24,11 +24,14 @@ import {
   type TableStats,
   type IndexStats,
   type StorageStats,
+  type TransactionHandle,
   type PreparedQuery,
   type QueryPrepareOptions,
+  type QueryBatch,
 } from "../../types";
 import { DatabaseConfigError, ConnectionError, QueryError, mapDatabaseError } from "../../errors";
 import { formatBytes } from "../../utils/pool-manager";
+import { batchRows, isStreamBatchSize } from "../../utils/row-batches";
 import { analyzeQuery, DEFAULT_QUERY_LIMIT, MAX_UNLIMITED_ROWS } from "../../utils/query-limiter";
 import { readLeadingKeyword } from "@/lib/sql/leading-keyword";
 import { resolveSqlGrammar, type SqlGrammar } from "@/lib/sql/grammar";
@@ -383,10 +386,6 @@ const STORAGE_STATS_SQL = `
 export class MSSQLProvider extends SQLBaseProvider {
   private pool: mssql.ConnectionPool | null = null;
 
-  // Transaction support
-  private txTransaction: mssql.Transaction | null = null;
-  private txActive = false;
-
   // Track running requests for cancellation
   private runningRequests = new Map<string, mssql.Request>();
 
@@ -602,6 +601,45 @@ export class MSSQLProvider extends SQLBaseProvider {
     });
   }
 
+  /**
+   * Streams a statement's rows as SQL Server sends them, through the driver's
+   * streaming request: `toReadableStream()` pauses the request while a batch waits
+   * to be taken, so only a batch is ever held here however large the result. The
+   * columns come from the `recordset` event the driver raises before the first row.
+   *
+   * A consumer that stops early cancels the request, which ends the statement on the
+   * server and hands the pooled connection back.
+   */
+  public async *queryStream(sql: string, params: unknown[] | undefined, batchSize: number): AsyncGenerator<QueryBatch> {
+    this.ensureConnected();
+    if (!isStreamBatchSize(batchSize)) {
+      throw new QueryError(`Invalid stream batch size: ${batchSize}`, "mssql", sql);
+    }
+
+    const request = this.pool!.request();
+    params?.forEach((p, i) => {
+      request.input(`p${i + 1}`, p);
+    });
+    let fields: string[] = [];
+    request.on("recordset", (columns: Record<string, unknown>) => {
+      fields = Object.keys(columns ?? {});
+    });
+
+    this.state.activeQueries++;
+    let finished = false;
+    try {
+      const rows = request.toReadableStream();
+      void request.query(sql);
+      yield* batchRows(rows, batchSize, () => fields);
+      finished = true;
+    } catch (error) {
+      throw mapDatabaseError(error, "mssql", sql);
+    } finally {
+      this.state.activeQueries--;
+      if (!finished) request.cancel();
+    }
+  }
+
   public async cancelQuery(queryId: string): Promise<boolean> {
     const request = this.runningRequests.get(queryId);
     if (!request) return false;
@@ -704,66 +742,61 @@ export class MSSQLProvider extends SQLBaseProvider {
   // Transaction Support
   // ============================================================================
 
-  public async beginTransaction(): Promise<void> {
+  /**
+   * A transaction on its own pooled connection; see `TransactionHandle`. The
+   * driver's `Transaction` acquires and releases that connection itself.
+   */
+  public async openTransaction(): Promise<TransactionHandle> {
     this.ensureConnected();
-    if (this.txActive) throw new QueryError("Transaction already active", "mssql");
-    this.txTransaction = new mssql.Transaction(this.pool!);
-    await this.txTransaction.begin();
-    this.txActive = true;
-  }
-
-  public async commitTransaction(): Promise<void> {
-    if (!this.txTransaction || !this.txActive) throw new QueryError("No active transaction", "mssql");
+    const transaction = new mssql.Transaction(this.pool!);
     try {
-      await this.txTransaction.commit();
-    } finally {
-      this.txTransaction = null;
-      this.txActive = false;
-    }
-  }
-
-  public async rollbackTransaction(): Promise<void> {
-    if (!this.txTransaction || !this.txActive) throw new QueryError("No active transaction", "mssql");
-    try {
-      await this.txTransaction.rollback();
-    } finally {
-      this.txTransaction = null;
-      this.txActive = false;
+      await transaction.begin();
+    } catch (error) {
+      throw mapDatabaseError(error, "mssql");
     }
-  }
 
-  public isInTransaction(): boolean {
-    return this.txActive;
-  }
-
-  public async queryInTransaction(sql: string, params?: unknown[]): Promise<QueryResult> {
-    if (!this.txTransaction || !this.txActive) throw new QueryError("No active transaction", "mssql");
+    let open = true;
+    const ensureOpen = () => {
+      if (!open) throw new QueryError("No active transaction", "mssql");
+    };
+    const end = async (finish: () => Promise<void>) => {
+      ensureOpen();
+      open = false;
+      await finish();
+    };
 
-    return this.trackQuery(async () => {
-      const { result, executionTime } = await this.measureExecution(async () => {
-        try {
-          const request = new mssql.Request(this.txTransaction!);
-          if (params && params.length > 0) {
-            params.forEach((p, i) => {
-              request.input(`p${i + 1}`, p);
-            });
-          }
-          return await request.query(sql);
-        } catch (error) {
-          throw mapDatabaseError(error, "mssql", sql);
-        }
-      });
+    return {
+      query: async (sql, params) => {
+        ensureOpen();
+        return this.trackQuery(async () => {
+          const { result, executionTime } = await this.measureExecution(async () => {
+            try {
+              const request = new mssql.Request(transaction);
+              if (params && params.length > 0) {
+                params.forEach((p, i) => {
+                  request.input(`p${i + 1}`, p);
+                });
+              }
+              return await request.query(sql);
+            } catch (error) {
+              throw mapDatabaseError(error, "mssql", sql);
+            }
+          });
 
-      const recordset = result.recordset || [];
-      const fields = recordset.length > 0 ? Object.keys(recordset[0]) : [];
+          const recordset = result.recordset || [];
+          const fields = recordset.length > 0 ? Object.keys(recordset[0]) : [];
 
-      return {
-        rows: recordset as Record<string, unknown>[],
-        fields,
-        rowCount: result.rowsAffected?.[0] ?? recordset.length,
-        executionTime,
-      };
-    });
+          return {
+            rows: recordset as Record<string, unknown>[],
+            fields,
+            rowCount: result.rowsAffected?.[0] ?? recordset.length,
+            executionTime,
+          };
+        });
+      },
+      commit: () => end(() => transaction.commit()),
+      rollback: () => end(() => transaction.rollback()),
+    };
   }
 
   // ============================================================================
@@ -4,6 +4,7 @@
  */
 
 import mysql, { type Pool, type PoolConnection, type RowDataPacket, type FieldPacket } from "mysql2/promise";
+import type { Connection as CallbackConnection } from "mysql2";
 import { SQLBaseProvider } from "./sql-base";
 import {
   type DatabaseConnection,
@@ -23,9 +24,13 @@ import {
   type TableStats,
   type IndexStats,
   type StorageStats,
+  type TransactionHandle,
+  type QueryBatch,
 } from "../../types";
 import { DatabaseConfigError, ConnectionError, QueryError, mapDatabaseError } from "../../errors";
 import { formatBytes } from "../../utils/pool-manager";
+import { batchRows, isStreamBatchSize } from "../../utils/row-batches";
+import type { ColumnSource } from "@/lib/types";
 
 /**
  * mysql2 3.23 narrowed `execute`'s values parameter from `any` to a concrete
@@ -48,6 +53,25 @@ import { formatBytes } from "../../utils/pool-manager";
 type ExecuteParams = Parameters<PoolConnection["execute"]>[1];
 const asExecuteParams = (params?: unknown[]): ExecuteParams => params as ExecuteParams;
 
+/**
+ * Where each column of a result was read from, as the column definitions say: a
+ * base table's column carries its database, table and name there, whatever the
+ * statement called it, and a computed one carries none. A column of a derived
+ * table has no database, and gets no entry: the masking policy cannot trace it.
+ */
+function columnSources(fields: FieldPacket[] | undefined): Record<string, ColumnSource | null> | undefined {
+  if (!fields?.length) return undefined;
+  const sources: Record<string, ColumnSource | null> = {};
+  for (const field of fields) {
+    if (field.db && field.orgTable && field.orgName) {
+      sources[field.name] = { table: field.orgTable, column: field.orgName };
+    } else if (!field.orgTable && !field.orgName) {
+      sources[field.name] = null;
+    }
+  }
+  return Object.keys(sources).length > 0 ? sources : undefined;
+}
+
 // ============================================================================
 // SQL Statements
 // ============================================================================
@@ -270,12 +294,6 @@ const STORAGE_STATS_SQL = `
 export class MySQLProvider extends SQLBaseProvider {
   private pool: Pool | null = null;
 
-  // Transaction support: dedicated connection held outside pool
-  private txConn: PoolConnection | null = null;
-  private txActive = false;
-  private txTimeout: ReturnType<typeof setTimeout> | null = null;
-  private static readonly TX_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
-
   constructor(config: DatabaseConnection, options: ProviderOptions = {}) {
     super(config, options);
     this.validate();
@@ -447,15 +465,63 @@ export class MySQLProvider extends SQLBaseProvider {
         }
       });
 
+      const sources = columnSources(result.fields);
       return {
         rows: (result.rows as unknown[]).map((row) => this.sanitizeRow(row as Record<string, unknown>)),
         fields: result.fields?.map((f: FieldPacket) => f.name) ?? [],
         rowCount: Array.isArray(result.rows) ? result.rows.length : 0,
         executionTime,
+        ...(sources && { columnSources: sources }),
       };
     });
   }
 
+  /**
+   * Streams a statement's rows off one connection as the server sends them, through
+   * mysql2's row stream, so only a batch is ever held here however large the result.
+   * The stream pauses the connection's socket while a batch waits to be taken, which
+   * is what holds the server back rather than this process buffering the difference.
+   *
+   * The statement goes through the text protocol (`query`), the only one mysql2
+   * streams: its values are escaped into the statement client-side rather than bound
+   * server-side, as `mysql.format()` does. A consumer that stops early leaves rows
+   * still on the wire, so that connection is destroyed rather than handed back to the
+   * pool to drain them.
+   */
+  public async *queryStream(sql: string, params: unknown[] | undefined, batchSize: number): AsyncGenerator<QueryBatch> {
+    this.ensureConnected();
+    if (!isStreamBatchSize(batchSize)) {
+      throw new QueryError(`Invalid stream batch size: ${batchSize}`, "mysql", sql);
+    }
+
+    const conn = await this.pool!.getConnection();
+    this.state.activeQueries++;
+    let fields: string[] = [];
+    let finished = false;
+    try {
+      // The promise wrapper's typings give `connection` the wrapper's own type, but at
+      // runtime it is the callback connection underneath - the one with a row stream.
+      const core = conn.connection as unknown as CallbackConnection;
+      const rows = core.query(sql, params ?? []).stream();
+      rows.on("fields", (declared: FieldPacket[] | undefined) => {
+        fields = declared?.map((f) => f.name) ?? [];
+      });
+      yield* batchRows(
+        rows,
+        batchSize,
+        () => fields,
+        (row) => this.sanitizeRow(row as Record<string, unknown>),
+      );
+      finished = true;
+    } catch (error) {
+      throw mapDatabaseError(error, "mysql", sql);
+    } finally {
+      this.state.activeQueries--;
+      if (finished) conn.release();
+      else conn.destroy();
+    }
+  }
+
   public async cancelQuery(queryId: string): Promise<boolean> {
     const threadId = this.runningQueryThreadIds.get(queryId);
     if (!threadId) return false;
@@ -473,94 +539,57 @@ export class MySQLProvider extends SQLBaseProvider {
   // Transaction Support
   // ============================================================================
 
-  private clearTxTimeout(): void {
-    if (this.txTimeout) {
-      clearTimeout(this.txTimeout);
-      this.txTimeout = null;
+  /** A transaction on a connection held out of the pool; see `TransactionHandle`. */
+  public async openTransaction(): Promise<TransactionHandle> {
+    this.ensureConnected();
+    const conn = await this.pool!.getConnection();
+    try {
+      await conn.beginTransaction();
+    } catch (error) {
+      conn.release();
+      throw mapDatabaseError(error, "mysql");
     }
-  }
 
-  /**
-   * Force-expire an active transaction (auto-rollback).
-   * Called by the timeout timer, but also available for testing.
-   */
-  public async expireTransaction(): Promise<void> {
-    if (this.txActive && this.txConn) {
-      console.warn("[MySQL] Transaction timed out, auto-rolling back");
+    let open = true;
+    const ensureOpen = () => {
+      if (!open) throw new QueryError("No active transaction", "mysql");
+    };
+    const end = async (finish: () => Promise<void>) => {
+      ensureOpen();
+      open = false;
       try {
-        await this.txConn.rollback();
-      } catch {
-        /* ignore */
+        await finish();
       } finally {
-        this.txConn.release();
-        this.txConn = null;
-        this.txActive = false;
-        this.clearTxTimeout();
+        conn.release();
       }
-    }
-  }
-
-  public async beginTransaction(): Promise<void> {
-    this.ensureConnected();
-    if (this.txActive) throw new QueryError("Transaction already active", "mysql");
-    this.txConn = await this.pool!.getConnection();
-    await this.txConn.beginTransaction();
-    this.txActive = true;
-
-    // Auto-rollback after timeout to prevent leaked locks
-    this.txTimeout = setTimeout(() => {
-      void this.expireTransaction();
-    }, MySQLProvider.TX_TIMEOUT_MS);
-  }
-
-  public async commitTransaction(): Promise<void> {
-    if (!this.txConn || !this.txActive) throw new QueryError("No active transaction", "mysql");
-    this.clearTxTimeout();
-    try {
-      await this.txConn.commit();
-    } finally {
-      this.txConn.release();
-      this.txConn = null;
-      this.txActive = false;
-    }
-  }
-
-  public async rollbackTransaction(): Promise<void> {
-    if (!this.txConn || !this.txActive) throw new QueryError("No active transaction", "mysql");
-    this.clearTxTimeout();
-    try {
-      await this.txConn.rollback();
-    } finally {
-      this.txConn.release();
-      this.txConn = null;
-      this.txActive = false;
-    }
-  }
-
-  public isInTransaction(): boolean {
-    return this.txActive;
-  }
-
-  public async queryInTransaction(sql: string, params?: unknown[]): Promise<QueryResult> {
-    if (!this.txConn || !this.txActive) throw new QueryError("No active transaction", "mysql");
+    };
 
-    return this.trackQuery(async () => {
-      const { result, executionTime } = await this.measureExecution(async () => {
-        try {
-          const [rows, fields] = await this.txConn!.execute<RowDataPacket[]>(sql, asExecuteParams(params));
-          return { rows, fields };
-        } catch (error) {
-          throw mapDatabaseError(error, "mysql", sql);
-        }
-      });
+    return {
+      query: async (sql, params) => {
+        ensureOpen();
+        return this.trackQuery(async () => {
+          const { result, executionTime } = await this.measureExecution(async () => {
+            try {
+              const [rows, fields] = await conn.execute<RowDataPacket[]>(sql, asExecuteParams(params));
+              return { rows, fields };
+            } catch (error) {
+              throw mapDatabaseError(error, "mysql", sql);
+            }
+          });
 
-      return {
-        rows: (result.rows as unknown[]).map((row) => this.sanitizeRow(row as Record<string, unknown>)),
-        fields: result.fields?.map((f: FieldPacket) => f.name) ?? [],
-        rowCount: Array.isArray(result.rows) ? result.rows.length : 0,
-        executionTime,
-      };
-    });
+          const sources = columnSources(result.fields);
+          return {
+            rows: (result.rows as unknown[]).map((row) => this.sanitizeRow(row as Record<string, unknown>)),
+            fields: result.fields?.map((f: FieldPacket) => f.name) ?? [],
+            rowCount: Array.isArray(result.rows) ? result.rows.length : 0,
+            executionTime,
+            ...(sources && { columnSources: sources }),
+          };
+        });
+      },
+      commit: () => end(() => conn.commit()),
+      rollback: () => end(() => conn.rollback()),
+    };
   }
 
   // ============================================================================
@@ -24,11 +24,14 @@ import {
   type TableStats,
   type IndexStats,
   type StorageStats,
+  type TransactionHandle,
   type PreparedQuery,
   type QueryPrepareOptions,
+  type QueryBatch,
 } from "../../types";
 import { DatabaseConfigError, ConnectionError, QueryError, mapDatabaseError } from "../../errors";
 import { formatBytes } from "../../utils/pool-manager";
+import { isStreamBatchSize } from "../../utils/row-batches";
 import { analyzeQuery, DEFAULT_QUERY_LIMIT, MAX_UNLIMITED_ROWS } from "../../utils/query-limiter";
 import { resolveSqlGrammar } from "@/lib/sql/grammar";
 import { readStatementEnd } from "@/lib/sql/statement-end";
@@ -178,10 +181,6 @@ let thickClientInitialized = false;
 export class OracleProvider extends SQLBaseProvider {
   private pool: oracledb.Pool | null = null;
 
-  // Transaction support: dedicated connection held outside pool
-  private txConn: oracledb.Connection | null = null;
-  private txActive = false;
-
   // Track running connections for cancellation
   private runningConns = new Map<string, oracledb.Connection>();
 
@@ -380,6 +379,57 @@ export class OracleProvider extends SQLBaseProvider {
     });
   }
 
+  /**
+   * Streams a statement through an Oracle result set on its own connection,
+   * `getRows(batchSize)` at a time: the driver fetches each batch from the open
+   * cursor as it is asked for, so only a batch is ever held here however large the
+   * result is. Nothing is committed - a result set is opened by a query, and the
+   * connection is closed (returned to the pool) when the consumer finishes or stops.
+   */
+  public async *queryStream(sql: string, params: unknown[] | undefined, batchSize: number): AsyncGenerator<QueryBatch> {
+    this.ensureConnected();
+    if (!isStreamBatchSize(batchSize)) {
+      throw new QueryError(`Invalid stream batch size: ${batchSize}`, "oracle", sql);
+    }
+
+    const conn: oracledb.Connection = await this.pool!.getConnection();
+    this.state.activeQueries++;
+    let resultSet: { getRows(count: number): Promise<unknown[]>; close(): Promise<void> } | undefined;
+    try {
+      const res = await conn.execute(sql, params ?? [], {
+        outFormat: oracledb.OUT_FORMAT_OBJECT,
+        resultSet: true,
+        fetchArraySize: batchSize,
+      });
+      resultSet = res.resultSet;
+      const fields: string[] = res.metaData?.map((m: { name: string }) => m.name) ?? [];
+      if (!resultSet) {
+        // Not a query: there is no cursor to read, and the first batch is still owed.
+        yield { rows: [], fields };
+        return;
+      }
+      for (let first = true; ; first = false) {
+        const rows = (await resultSet.getRows(batchSize)) as Record<string, unknown>[];
+        if (first || rows.length > 0) yield { rows, fields };
+        if (rows.length < batchSize) break;
+      }
+    } catch (error) {
+      throw mapDatabaseError(error, "oracle", sql);
+    } finally {
+      this.state.activeQueries--;
+      try {
+        await resultSet?.close();
+      } catch {
+        /* ignore */
+      }
+      try {
+        await conn.close();
+      } catch {
+        /* ignore */
+      }
+    }
+  }
+
   public async cancelQuery(queryId: string): Promise<boolean> {
     const conn = this.runningConns.get(queryId);
     if (!conn) return false;
@@ -443,65 +493,58 @@ export class OracleProvider extends SQLBaseProvider {
   // Transaction Support
   // ============================================================================
 
-  public async beginTransaction(): Promise<void> {
+  /**
+   * A transaction on a connection held out of the pool; see `TransactionHandle`.
+   * Oracle starts one implicitly with the first statement, so holding the
+   * connection and running with `autoCommit: false` is all BEGIN amounts to here.
+   */
+  public async openTransaction(): Promise<TransactionHandle> {
     this.ensureConnected();
-    if (this.txActive) throw new QueryError("Transaction already active", "oracle");
-    this.txConn = await this.pool!.getConnection();
-    // Oracle auto-starts a transaction; we just hold the connection
-    this.txActive = true;
-  }
-
-  public async commitTransaction(): Promise<void> {
-    if (!this.txConn || !this.txActive) throw new QueryError("No active transaction", "oracle");
-    try {
-      await this.txConn.commit();
-    } finally {
-      await this.txConn.close();
-      this.txConn = null;
-      this.txActive = false;
-    }
-  }
-
-  public async rollbackTransaction(): Promise<void> {
-    if (!this.txConn || !this.txActive) throw new QueryError("No active transaction", "oracle");
-    try {
-      await this.txConn.rollback();
-    } finally {
-      await this.txConn.close();
-      this.txConn = null;
-      this.txActive = false;
-    }
-  }
+    const conn = await this.pool!.getConnection();
 
-  public isInTransaction(): boolean {
-    return this.txActive;
-  }
-
-  public async queryInTransaction(sql: string, params?: unknown[]): Promise<QueryResult> {
-    if (!this.txConn || !this.txActive) throw new QueryError("No active transaction", "oracle");
+    let open = true;
+    const ensureOpen = () => {
+      if (!open) throw new QueryError("No active transaction", "oracle");
+    };
+    const end = async (finish: () => Promise<void>) => {
+      ensureOpen();
+      open = false;
+      try {
+        await finish();
+      } finally {
+        await conn.close();
+      }
+    };
 
-    return this.trackQuery(async () => {
-      const { result, executionTime } = await this.measureExecution(async () => {
-        try {
-          return await this.txConn!.execute(sql, params || [], {
-            outFormat: oracledb.OUT_FORMAT_OBJECT,
-            autoCommit: false,
+    return {
+      query: async (sql, params) => {
+        ensureOpen();
+        return this.trackQuery(async () => {
+          const { result, executionTime } = await this.measureExecution(async () => {
+            try {
+              return await conn.execute(sql, params || [], {
+                outFormat: oracledb.OUT_FORMAT_OBJECT,
+                autoCommit: false,
+              });
+            } catch (error) {
+              throw mapDatabaseError(error, "oracle", sql);
+            }
           });
-        } catch (error) {
-          throw mapDatabaseError(error, "oracle", sql);
-        }
-      });
 
-      const rows = (result.rows || []) as Record<string, unknown>[];
-      const fields = result.metaData?.map((m: { name: string }) => m.name) ?? [];
+          const rows = (result.rows || []) as Record<string, unknown>[];
+          const fields = result.metaData?.map((m: { name: string }) => m.name) ?? [];
 
-      return {
-        rows,
-        fields,
-        rowCount: rows.length,
-        executionTime,
-      };
-    });
+          return {
+            rows,
+            fields,
+            rowCount: rows.length,
+            executionTime,
+          };
+        });
+      },
+      commit: () => end(() => conn.commit()),
+      rollback: () => end(() => conn.rollback()),
+    };
   }
 
   // ============================================================================
@@ -3,7 +3,7 @@
  * Full PostgreSQL support with connection pooling
  */
 
-import { Pool, type PoolClient, type PoolConfig as PgPoolConfig, type QueryConfig } from "pg";
+import { Pool, type FieldDef, type PoolConfig as PgPoolConfig, type QueryConfig } from "pg";
 import { SQLBaseProvider } from "./sql-base";
 import {
   type DatabaseConnection,
@@ -16,6 +16,7 @@ import {
   type ProviderOptions,
   type ProviderCapabilities,
   type ProviderExecutionContext,
+  type QueryBatch,
   type ReadOnlyStatementBudget,
   type SlowQuery,
   type ActiveSession,
@@ -26,6 +27,7 @@ import {
   type TableStats,
   type IndexStats,
   type StorageStats,
+  type TransactionHandle,
 } from "../../types";
 import {
   DatabaseConfigError,
@@ -36,6 +38,10 @@ import {
 } from "../../errors";
 import { assertReadOnlyBudget, measureResultBytes } from "./read-only-budget";
 import { formatBytes } from "../../utils/pool-manager";
+import { isStreamBatchSize } from "../../utils/row-batches";
+import { resolveSqlGrammar } from "@/lib/sql/grammar";
+import type { ColumnSource } from "@/lib/types";
+import { readStatementEnd } from "@/lib/sql/statement-end";
 
 // ============================================================================
 // Type Definitions
@@ -185,6 +191,14 @@ const CTE_INDEX_INFO = `
           GROUP BY n.nspname, t.relname
         )`;
 
+/** The names of the columns of the tables `$1` (oids), for `columnSources`. */
+const COLUMN_NAMES_SQL = `
+  SELECT a.attrelid, c.relname, a.attnum, a.attname
+  FROM pg_catalog.pg_attribute a
+  JOIN pg_catalog.pg_class c ON c.oid = a.attrelid
+  WHERE a.attrelid = ANY($1::oid[]) AND a.attnum > 0
+`;
+
 // Full schema: tables + columns + PKs + foreign keys + indexes in one query.
 const SCHEMA_FULL_SQL = `
         WITH ${CTE_TABLES_INFO},${CTE_COLUMNS_INFO},${CTE_PK_INFO},${CTE_FK_INFO},${CTE_INDEX_INFO}
@@ -596,12 +610,6 @@ function assertAgentRoleIsUnprivileged(rows: unknown[]): void {
 export class PostgresProvider extends SQLBaseProvider {
   private pool: Pool | null = null;
 
-  // Transaction support: dedicated client held outside pool
-  private txClient: PoolClient | null = null;
-  private txActive = false;
-  private txTimeout: ReturnType<typeof setTimeout> | null = null;
-  private static readonly TX_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
-
   /** True when this instance was opened under the agent read-only profile. */
   private readonly readOnlyProfile: boolean;
 
@@ -789,6 +797,68 @@ export class PostgresProvider extends SQLBaseProvider {
   // Track running query PIDs for cancellation
   private runningQueryPids = new Map<string, number>();
 
+  /** How long a table's column names are trusted, so a rename is seen soon after it. */
+  private static readonly CATALOG_NAMES_TTL_MS = 60_000;
+  private catalogNames = new Map<number, { table: string; columns: Map<number, string>; readAt: number }>();
+
+  /**
+   * Where each of `fields` was read from. The wire format carries a table's oid and
+   * a column's number, named here through `pg_attribute` and kept for a minute. A
+   * column whose names cannot be read gets no entry, and a failed read answers none
+   * at all: the masking policy treats such a column as one it cannot trace.
+   */
+  private async columnSources(
+    fields: FieldDef[] | undefined,
+  ): Promise<Record<string, ColumnSource | null> | undefined> {
+    if (!fields?.length) return undefined;
+    const now = Date.now();
+    const unread = [
+      ...new Set(
+        fields
+          .map((f) => f.tableID)
+          .filter(
+            (id) => id > 0 && now - (this.catalogNames.get(id)?.readAt ?? 0) > PostgresProvider.CATALOG_NAMES_TTL_MS,
+          ),
+      ),
+    ];
+    if (unread.length > 0) {
+      try {
+        const client = await this.pool!.connect();
+        let res;
+        try {
+          res = await client.query<{ attrelid: number; relname: string; attnum: number; attname: string }>(
+            COLUMN_NAMES_SQL,
+            [unread],
+          );
+        } finally {
+          client.release();
+        }
+        if (this.catalogNames.size > 1000) this.catalogNames.clear();
+        for (const id of unread) this.catalogNames.delete(id);
+        for (const row of res.rows) {
+          const entry = this.catalogNames.get(row.attrelid) ?? { table: row.relname, columns: new Map(), readAt: now };
+          entry.columns.set(row.attnum, row.attname);
+          this.catalogNames.set(row.attrelid, entry);
+        }
+      } catch {
+        return undefined;
+      }
+    }
+
+    const sources: Record<string, ColumnSource | null> = {};
+    for (const field of fields) {
+      if (typeof field.tableID !== "number") continue;
+      if (field.tableID === 0) {
+        sources[field.name] = null;
+        continue;
+      }
+      const names = this.catalogNames.get(field.tableID);
+      const column = names?.columns.get(field.columnID);
+      if (names && column) sources[field.name] = { table: names.table, column };
+    }
+    return Object.keys(sources).length > 0 ? sources : undefined;
+  }
+
   public async query(sql: string, params?: unknown[], queryId?: string): Promise<QueryResult> {
     this.ensureConnected();
 
@@ -814,11 +884,13 @@ export class PostgresProvider extends SQLBaseProvider {
         }
       });
 
+      const columnSources = await this.columnSources(result.fields);
       return {
         rows: result.rows,
         fields: result.fields?.map((f) => f.name) ?? [],
         rowCount: result.rowCount ?? 0,
         executionTime,
+        ...(columnSources && { columnSources }),
       };
     });
   }
@@ -841,6 +913,70 @@ export class PostgresProvider extends SQLBaseProvider {
     }
   }
 
+  /** The one cursor a streamed export opens; each runs in its own transaction. */
+  private static readonly STREAM_CURSOR = "libredb_stream";
+
+  /**
+   * Streams a statement through `DECLARE ... NO SCROLL CURSOR` on a dedicated
+   * client, `FETCH FORWARD batchSize` at a time, so only one batch is ever held
+   * here however large the result is.
+   *
+   * The cursor lives inside `BEGIN READ ONLY`: a cursor only admits a query that
+   * returns rows, and the transaction makes the server refuse a write reaching it
+   * through a function call as well. Nothing is ever committed — the transaction
+   * is rolled back when the consumer finishes OR stops early, because a generator
+   * that is abandoned still runs its `finally`.
+   */
+  public async *queryStream(sql: string, params: unknown[] | undefined, batchSize: number): AsyncGenerator<QueryBatch> {
+    this.ensureConnected();
+    if (!isStreamBatchSize(batchSize)) {
+      throw new QueryError(`Invalid stream batch size: ${batchSize}`, "postgres", sql);
+    }
+
+    // The statement becomes the tail of a DECLARE, so its trailing trivia and
+    // terminator are cut where the scan can place them. Where it cannot, the text is
+    // passed whole and the server is the one to refuse it.
+    const statementEnd = readStatementEnd(sql, resolveSqlGrammar("postgres"));
+    const statement = statementEnd.rewritable ? sql.slice(0, statementEnd.end) : sql;
+
+    const client = await this.pool!.connect();
+    this.state.activeQueries++;
+    try {
+      await client.query("BEGIN READ ONLY");
+      // On the extended protocol, as `queryReadOnly` sends its statement: the server
+      // refuses a multi-command string there before running any of it, so a
+      // `...; COMMIT; DELETE ...` tail cannot end the read-only transaction.
+      const declare = {
+        text: `DECLARE ${PostgresProvider.STREAM_CURSOR} NO SCROLL CURSOR FOR ${statement}`,
+        values: params,
+        queryMode: "extended",
+      } as QueryConfig & { queryMode: "extended" };
+      await client.query(declare);
+      // The batch size is proven a positive integer above, so no text can pass
+      // through the interpolation — FETCH cannot take a bind parameter.
+      const fetchSql = `FETCH FORWARD ${batchSize} FROM ${PostgresProvider.STREAM_CURSOR}`;
+      for (let first = true; ; first = false) {
+        const res = await client.query(fetchSql);
+        if (first || res.rows.length > 0) {
+          yield { rows: res.rows, fields: res.fields?.map((f) => f.name) ?? [] };
+        }
+        if (res.rows.length < batchSize) break;
+      }
+    } catch (error) {
+      throw mapDatabaseError(error, "postgres", sql);
+    } finally {
+      this.state.activeQueries--;
+      // A client that cannot be rolled back is destroyed, never returned to the
+      // pool mid-transaction.
+      try {
+        await client.query("ROLLBACK");
+        client.release();
+      } catch (cleanupError) {
+        client.release(cleanupError instanceof Error ? cleanupError : new Error(String(cleanupError)));
+      }
+    }
+  }
+
   // ============================================================================
   // Agent Read-Only Execution Profile (#328)
   // ============================================================================
@@ -867,7 +1003,7 @@ export class PostgresProvider extends SQLBaseProvider {
    * The row/byte caps are enforced result-side after the statement returns;
    * the timeout is `SET LOCAL`, so it dies with the transaction.
    */
-  public async queryReadOnly(sql: string, budget: ReadOnlyStatementBudget): Promise<QueryResult> {
+  public async queryReadOnly(sql: string, budget: ReadOnlyStatementBudget, params?: unknown[]): Promise<QueryResult> {
     this.ensureConnected();
     assertReadOnlyBudget(budget, "postgres");
     if (!this.readOnlyProfile) {
@@ -892,7 +1028,9 @@ export class PostgresProvider extends SQLBaseProvider {
           await client.query(`SET LOCAL statement_timeout = ${budget.statementTimeoutMs}`);
           // @types/pg does not model queryMode yet; the runtime supports it
           // since pg 8.11 (node_modules/pg/lib/query.js requiresPreparation).
-          const extendedQuery = { text: sql, queryMode: "extended" } as QueryConfig & { queryMode: "extended" };
+          const extendedQuery = { text: sql, values: params, queryMode: "extended" } as QueryConfig & {
+            queryMode: "extended";
+          };
           return await client.query(extendedQuery);
         } catch (error) {
           throw mapDatabaseError(error, "postgres", sql);
@@ -930,11 +1068,13 @@ export class PostgresProvider extends SQLBaseProvider {
         );
       }
 
+      const columnSources = await this.columnSources(result.fields);
       return {
         rows: result.rows,
         fields: result.fields?.map((f) => f.name) ?? [],
         rowCount: result.rowCount ?? 0,
         executionTime,
+        ...(columnSources && { columnSources }),
       };
     });
   }
@@ -943,92 +1083,61 @@ export class PostgresProvider extends SQLBaseProvider {
   // Transaction Support
   // ============================================================================
 
-  private clearTxTimeout(): void {
-    if (this.txTimeout) {
-      clearTimeout(this.txTimeout);
-      this.txTimeout = null;
-    }
-  }
-
   /**
-   * Force-expire an active transaction (auto-rollback).
-   * Called by the timeout timer, but also available for testing.
+   * BEGIN on a client held out of the pool until the handle commits or rolls back.
+   * Nothing about the transaction is kept on the provider, which every user of this
+   * connection shares: the handle is held by `src/lib/db/transactions.ts`, per user
+   * and tab, and that module also owns the idle timeout.
    */
-  public async expireTransaction(): Promise<void> {
-    if (this.txActive && this.txClient) {
-      console.warn("[Postgres] Transaction timed out, auto-rolling back");
-      try {
-        await this.txClient.query("ROLLBACK");
-      } catch {
-        /* ignore */
-      } finally {
-        this.txClient.release();
-        this.txClient = null;
-        this.txActive = false;
-        this.clearTxTimeout();
-      }
-    }
-  }
-
-  public async beginTransaction(): Promise<void> {
+  public async openTransaction(): Promise<TransactionHandle> {
     this.ensureConnected();
-    if (this.txActive) throw new QueryError("Transaction already active", "postgres");
-    this.txClient = await this.pool!.connect();
-    await this.txClient.query("BEGIN");
-    this.txActive = true;
-
-    // Auto-rollback after timeout to prevent leaked locks. Single-line callback
-    // on purpose: bun lcov attributes a multi-line arrow's opening line as 0-hit.
-    this.txTimeout = setTimeout(() => void this.expireTransaction(), PostgresProvider.TX_TIMEOUT_MS);
-  }
-
-  public async commitTransaction(): Promise<void> {
-    if (!this.txClient || !this.txActive) throw new QueryError("No active transaction", "postgres");
-    this.clearTxTimeout();
-    try {
-      await this.txClient.query("COMMIT");
-    } finally {
-      this.txClient.release();
-      this.txClient = null;
-      this.txActive = false;
-    }
-  }
-
-  public async rollbackTransaction(): Promise<void> {
-    if (!this.txClient || !this.txActive) throw new QueryError("No active transaction", "postgres");
-    this.clearTxTimeout();
+    const client = await this.pool!.connect();
     try {
-      await this.txClient.query("ROLLBACK");
-    } finally {
-      this.txClient.release();
-      this.txClient = null;
-      this.txActive = false;
+      await client.query("BEGIN");
+    } catch (error) {
+      client.release();
+      throw mapDatabaseError(error, "postgres");
     }
-  }
 
-  public isInTransaction(): boolean {
-    return this.txActive;
-  }
-
-  public async queryInTransaction(sql: string, params?: unknown[]): Promise<QueryResult> {
-    if (!this.txClient || !this.txActive) throw new QueryError("No active transaction", "postgres");
+    let open = true;
+    const ensureOpen = () => {
+      if (!open) throw new QueryError("No active transaction", "postgres");
+    };
+    const end = async (statement: "COMMIT" | "ROLLBACK") => {
+      ensureOpen();
+      open = false;
+      try {
+        await client.query(statement);
+      } finally {
+        client.release();
+      }
+    };
 
-    return this.trackQuery(async () => {
-      const { result, executionTime } = await this.measureExecution(async () => {
-        try {
-          return await this.txClient!.query(sql, params);
-        } catch (error) {
-          throw mapDatabaseError(error, "postgres", sql);
-        }
-      });
+    return {
+      query: async (sql, params) => {
+        ensureOpen();
+        return this.trackQuery(async () => {
+          const { result, executionTime } = await this.measureExecution(async () => {
+            try {
+              return await client.query(sql, params);
+            } catch (error) {
+              throw mapDatabaseError(error, "postgres", sql);
+            }
+          });
 
-      return {
-        rows: result.rows,
-        fields: result.fields?.map((f) => f.name) ?? [],
-        rowCount: result.rowCount ?? 0,
-        executionTime,
-      };
-    });
+          const columnSources = await this.columnSources(result.fields);
+          return {
+            rows: result.rows,
+            fields: result.fields?.map((f) => f.name) ?? [],
+            rowCount: result.rowCount ?? 0,
+            executionTime,
+            ...(columnSources && { columnSources }),
+          };
+        });
+      },
+      commit: () => end("COMMIT"),
+      rollback: () => end("ROLLBACK"),
+    };
   }
 
   // ============================================================================
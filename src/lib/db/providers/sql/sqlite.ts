@@ -394,7 +394,7 @@ export class SQLiteProvider extends SQLBaseProvider {
    * only the first. Rejecting multi-statement input is the policy pipeline's
    * job — this method only guarantees the tail is never executed.
    */
-  public async queryReadOnly(sql: string, budget: ReadOnlyStatementBudget): Promise<QueryResult> {
+  public async queryReadOnly(sql: string, budget: ReadOnlyStatementBudget, params?: unknown[]): Promise<QueryResult> {
     this.ensureConnected();
     assertReadOnlyBudget(budget, "sqlite");
     if (!this.readOnlyProfile) {
@@ -412,7 +412,8 @@ export class SQLiteProvider extends SQLBaseProvider {
     return this.trackQuery(async () => {
       const { result, executionTime } = await this.measureExecution(async () => {
         try {
-          return this.db!.prepare(sql).all() as Record<string, unknown>[];
+          const stmt = this.db!.prepare(sql);
+          return (params ? stmt.all(...params) : stmt.all()) as Record<string, unknown>[];
         } catch (error) {
           throw mapDatabaseError(error, "sqlite", sql);
         }
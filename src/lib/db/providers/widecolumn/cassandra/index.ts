@@ -0,0 +1,757 @@
+/**
+ * Cassandra / ScyllaDB Database Provider
+ * Wide-column stores, spoken to in CQL through the DataStax `cassandra-driver`.
+ *
+ * One provider serves both engines: ScyllaDB implements the same native protocol,
+ * the same CQL grammar and the same `system_schema` catalog, and the driver does
+ * not distinguish them. Where the two differ (virtual tables, version reporting),
+ * this provider reads only what both publish.
+ *
+ * CQL looks like SQL and is not, and four differences shape almost everything
+ * here:
+ *
+ * - There is no OFFSET. The driver pages by `fetchSize` and hands back an opaque
+ *   paging state; "Load More" sends that state back instead of an offset, through
+ *   an in-band directive (`db/utils/cql-directives.ts`), because `query()` has no
+ *   other channel.
+ * - There is no EXPLAIN. What Cassandra offers instead is a TRACE of a real
+ *   execution - every step the coordinator and the replicas took, with elapsed
+ *   microseconds - so the explain seam renders that, in analyze mode only.
+ * - There are no transactions and no JOINs, and the primary key is in two parts
+ *   (`ColumnSchema.keyKind`) that decide which WHERE clauses the server accepts
+ *   without `ALLOW FILTERING`.
+ * - `USE keyspace` changes the keyspace of the shared client for every later
+ *   statement, including other users' - so it is refused, and a connection's
+ *   keyspace is the one it was configured with.
+ */
+
+import { Client, type ClientOptions, type QueryOptions, type types } from "cassandra-driver";
+import type { ConnectionOptions as TlsOptions } from "tls";
+import { BaseDatabaseProvider } from "../../../base-provider";
+import {
+  type DatabaseConnection,
+  type TableSchema,
+  type QueryResult,
+  type QueryWarning,
+  type HealthInfo,
+  type MaintenanceType,
+  type MaintenanceResult,
+  type ProviderOptions,
+  type ProviderCapabilities,
+  type ProviderLabels,
+  type PreparedQuery,
+  type QueryPrepareOptions,
+  type QueryBatch,
+  type DatabaseOverview,
+  type PerformanceMetrics,
+  type SlowQueryStats,
+  type ActiveSessionDetails,
+  type TableStats,
+  type IndexStats,
+  type StorageStats,
+} from "../../../types";
+import { AuthenticationError, ConnectionError, DatabaseConfigError, QueryError, TimeoutError } from "../../../errors";
+import { DEFAULT_QUERY_LIMIT, MAX_UNLIMITED_ROWS } from "../../../utils/query-limiter";
+import { readCqlDirectives, writeCqlPageDirective, type CqlPageDirective } from "../../../utils/cql-directives";
+import { resolveSqlGrammar } from "@/lib/sql/grammar";
+import { readLeadingKeyword } from "@/lib/sql/leading-keyword";
+import { type CassandraRunner, readHealth, readOverview, readSchema, readTableStats } from "./introspect";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CASSANDRA_DEFAULT_PORT = 9042;
+
+/**
+ * The data center a single-node or default-configured cluster calls itself. The
+ * driver's default load-balancing policy refuses to start without one, and naming
+ * the wrong one leaves every node "remote" and unreachable - so a cluster with a
+ * different name needs `dataCenter` set on the connection.
+ */
+const DEFAULT_DATA_CENTER = "datacenter1";
+
+/**
+ * The most rows one request to the server asks for. A page the user asked to be
+ * larger - "unlimited" is 100,000 rows - is read in requests of this size and
+ * stitched together, because one enormous page is a coordinator timeout rather
+ * than a faster read. It is the driver's own default `fetchSize`.
+ */
+const MAX_FETCH_SIZE = 5000;
+
+/**
+ * Native protocol error codes (the `ERROR` message of the CQL binary protocol,
+ * section 9). The driver exports them as `types.responseErrorCodes`; they are
+ * written out here so the classification does not depend on a value export of a
+ * driver the tests replace.
+ */
+const RESPONSE_CODE = {
+  badCredentials: 0x0100,
+  unavailable: 0x1000,
+  overloaded: 0x1001,
+  writeTimeout: 0x1100,
+  readTimeout: 0x1200,
+} as const;
+
+/**
+ * CQL type names by native protocol type code. The driver decodes a result's
+ * column types to these codes; the collection and user types carry their element
+ * types in `info` and are spelled out by `cqlTypeName`.
+ */
+const CQL_TYPE_NAMES: Record<number, string> = {
+  0x0001: "ascii",
+  0x0002: "bigint",
+  0x0003: "blob",
+  0x0004: "boolean",
+  0x0005: "counter",
+  0x0006: "decimal",
+  0x0007: "double",
+  0x0008: "float",
+  0x0009: "int",
+  0x000a: "text",
+  0x000b: "timestamp",
+  0x000c: "uuid",
+  0x000d: "varchar",
+  0x000e: "varint",
+  0x000f: "timeuuid",
+  0x0010: "inet",
+  0x0011: "date",
+  0x0012: "time",
+  0x0013: "smallint",
+  0x0014: "tinyint",
+  0x0015: "duration",
+};
+
+const CUSTOM_TYPE = 0x0000;
+const LIST_TYPE = 0x0020;
+const MAP_TYPE = 0x0021;
+const SET_TYPE = 0x0022;
+const UDT_TYPE = 0x0030;
+const TUPLE_TYPE = 0x0031;
+
+/** The column a traced execution returns its session in. */
+const TRACE_COLUMN = "trace";
+
+// ============================================================================
+// Result mapping
+// ============================================================================
+
+interface CqlColumnType {
+  code: number;
+  info?: unknown;
+}
+
+/** A column's declared type, spelled the way `DESCRIBE` spells it. */
+function cqlTypeName(type: CqlColumnType): string {
+  switch (type.code) {
+    case LIST_TYPE:
+    case SET_TYPE:
+      return `${type.code === LIST_TYPE ? "list" : "set"}<${cqlTypeName(type.info as CqlColumnType)}>`;
+    case MAP_TYPE: {
+      const [key, value] = type.info as [CqlColumnType, CqlColumnType];
+      return `map<${cqlTypeName(key)}, ${cqlTypeName(value)}>`;
+    }
+    case TUPLE_TYPE:
+      return `tuple<${(type.info as CqlColumnType[]).map(cqlTypeName).join(", ")}>`;
+    case UDT_TYPE:
+      return String((type.info as { name?: unknown } | undefined)?.name ?? "udt");
+    case CUSTOM_TYPE:
+      return `'${String(type.info)}'`;
+    default:
+      return CQL_TYPE_NAMES[type.code] ?? "unknown";
+  }
+}
+
+/**
+ * A cell as the grid and the JSON response can carry it.
+ *
+ * The driver decodes most CQL types to classes of its own - `Long`, `Uuid`,
+ * `InetAddress`, `LocalDate`, `BigDecimal`, `Duration`, `Tuple` - and every one of
+ * them prints as its CQL literal, so their text is what is shown. A blob is shown
+ * the way CQL writes one (`0x...`), a timestamp as ISO-8601. Maps and UDTs arrive
+ * as plain objects and sets and lists as arrays, and are walked so a `Uuid` inside
+ * a `map<text, uuid>` prints the same as one outside it.
+ */
+function toDisplayValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (Buffer.isBuffer(value)) return `0x${value.toString("hex")}`;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toDisplayValue);
+  if (typeof value === "object") {
+    if (Object.getPrototypeOf(value) !== Object.prototype) return String(value);
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, toDisplayValue(inner)]));
+  }
+  return value;
+}
+
+/** What several pages of one statement add up to. */
+interface PageRead {
+  rows: Record<string, unknown>[];
+  fields: string[];
+  columnTypes: Record<string, string>;
+  warnings: string[];
+  /** Where the next page starts, or undefined when the statement is exhausted. */
+  pageState?: string;
+}
+
+/** Folds one response of the driver into the read so far. */
+function appendPage(read: PageRead, result: types.ResultSet): void {
+  const columns = result.columns ?? [];
+  if (read.fields.length === 0) {
+    for (const column of columns) {
+      read.fields.push(column.name);
+      read.columnTypes[column.name] = cqlTypeName(column.type);
+    }
+  }
+  for (const row of result.rows ?? []) {
+    const out: Record<string, unknown> = {};
+    for (const column of columns) out[column.name] = toDisplayValue(row[column.name]);
+    read.rows.push(out);
+  }
+  read.warnings.push(...(result.info?.warnings ?? []));
+  read.pageState = result.pageState || undefined;
+}
+
+function toWarnings(messages: string[]): QueryWarning[] | undefined {
+  const unique = [...new Set(messages)];
+  return unique.length > 0 ? unique.map((message) => ({ message })) : undefined;
+}
+
+/** The parts of a driver error this provider classifies on. Read by shape: the driver exports no error types. */
+interface DriverErrorShape {
+  name?: string;
+  message?: string;
+  code?: number;
+  innerErrors?: Record<string, unknown>;
+}
+
+// ============================================================================
+// Cassandra Provider
+// ============================================================================
+
+export class CassandraProvider extends BaseDatabaseProvider {
+  private client: Client | null = null;
+
+  constructor(config: DatabaseConnection, options: ProviderOptions = {}) {
+    super(config, options);
+    this.validate();
+  }
+
+  // ============================================================================
+  // Provider Metadata
+  // ============================================================================
+
+  public override getCapabilities(): ProviderCapabilities {
+    return {
+      queryLanguage: "sql",
+      // CQL, not SQL: the editor offers CQL completions and no formatter, and the
+      // generated SELECT drops the `WHERE 1=1` CQL would reject.
+      queryDialect: "cql",
+      supportsExplain: true,
+      explainFormat: "cassandra-trace",
+      supportsExternalQueryLimiting: true,
+      // A CREATE TABLE here needs a PRIMARY KEY split into partition and
+      // clustering parts, which the shared designer has no way to express.
+      supportsCreateTable: false,
+      // An UPDATE is an upsert keyed by the full primary key, and the grid's
+      // editor builds its WHERE from `isPrimary` alone - it would write a row
+      // that did not exist whenever the key it saw was incomplete.
+      supportsInlineRowEdit: false,
+      // CQL has no foreign key constraint at all, so the empty relations list is
+      // the engine's model rather than this keyspace's shape (#414).
+      declaresForeignKeys: false,
+      // Compaction, repair and cleanup are `nodetool` operations over JMX; no CQL
+      // statement starts one.
+      supportsMaintenance: false,
+      maintenanceOperations: [],
+      supportsConnectionString: false,
+      defaultPort: CASSANDRA_DEFAULT_PORT,
+      schemaRefreshPattern: "\\b(CREATE|DROP|ALTER|TRUNCATE)\\b",
+    };
+  }
+
+  public override getLabels(): ProviderLabels {
+    return {
+      ...super.getLabels(),
+      entityName: "Table",
+      entityNamePlural: "Tables",
+      searchPlaceholder: "Search tables or columns...",
+    };
+  }
+
+  /**
+   * A SELECT is paged by the driver, not by a rewrite.
+   *
+   * CQL accepts `LIMIT` and `PER PARTITION LIMIT` but no `OFFSET`, so the shared
+   * limiter has no way to say "rows 500 to 999". Instead the statement is prefixed
+   * with a page directive - a plain block comment, so the text is still the CQL
+   * the user wrote - and `query()` reads it back and pages through the driver:
+   * from the paging state "Load More" returned when there is one, and by reading
+   * and discarding `offset` rows when there is not (the reveal route asks for one
+   * row at an offset, with no state).
+   *
+   * Every other statement runs as written.
+   */
+  public override prepareQuery(query: string, options: QueryPrepareOptions = {}): PreparedQuery {
+    const { limit = DEFAULT_QUERY_LIMIT, offset = 0, unlimited = false, pageState } = options;
+    const effectiveLimit = unlimited ? MAX_UNLIMITED_ROWS : limit;
+
+    if (readLeadingKeyword(query, resolveSqlGrammar(this.type))?.keyword !== "SELECT") {
+      return { query, wasLimited: false, limit: effectiveLimit, offset };
+    }
+
+    const directive = writeCqlPageDirective({ size: effectiveLimit, offset, state: pageState });
+    return { query: `${directive}${query}`, wasLimited: true, limit: effectiveLimit, offset };
+  }
+
+  // ============================================================================
+  // Validation
+  // ============================================================================
+
+  public validate(): void {
+    super.validate();
+
+    if (!this.config.host) {
+      throw new DatabaseConfigError("Host is required for Cassandra", "cassandra");
+    }
+  }
+
+  // ============================================================================
+  // Connection Management
+  // ============================================================================
+
+  public async connect(): Promise<void> {
+    if (this.client) {
+      return;
+    }
+
+    const client = new Client(this.buildClientOptions());
+    try {
+      // Opens the control connection, which authenticates and reads the peers,
+      // so a wrong host, port, data center or password fails here rather than
+      // on the first statement.
+      await client.connect();
+    } catch (error) {
+      await client.shutdown().catch(() => undefined);
+      const failure = this.describeConnectFailure(error);
+      this.setError(failure);
+      throw failure;
+    }
+
+    this.client = client;
+    this.setConnected(true);
+  }
+
+  public async disconnect(): Promise<void> {
+    if (this.client) {
+      try {
+        await this.client.shutdown();
+      } finally {
+        this.client = null;
+        this.setConnected(false);
+      }
+    }
+  }
+
+  /**
+   * `host` may list several contact points, comma-separated: the driver needs
+   * only one to answer and discovers the rest of the ring from it.
+   */
+  private buildClientOptions(): ClientOptions {
+    const contactPoints = this.config
+      .host!.split(",")
+      .map((host) => host.trim())
+      .filter(Boolean);
+    const sslOptions = this.buildSslOptions();
+
+    return {
+      contactPoints,
+      localDataCenter: this.config.dataCenter || DEFAULT_DATA_CENTER,
+      ...(this.config.database && { keyspace: this.config.database }),
+      protocolOptions: { port: this.config.port || CASSANDRA_DEFAULT_PORT },
+      ...(this.config.user && {
+        credentials: { username: this.config.user, password: this.config.password ?? "" },
+      }),
+      ...(sslOptions && { sslOptions }),
+      socketOptions: {
+        connectTimeout: this.poolConfig.acquireTimeout,
+        readTimeout: this.queryTimeout,
+      },
+    };
+  }
+
+  private buildSslOptions(): TlsOptions | undefined {
+    const ssl = this.config.ssl;
+    if (!ssl || ssl.mode === "disable") return undefined;
+
+    // The rule the PostgreSQL, MySQL and Couchbase providers share: only the
+    // verifying modes check the chain, and an explicit flag always wins.
+    const options: TlsOptions = {
+      rejectUnauthorized: ssl.rejectUnauthorized ?? (ssl.mode === "verify-ca" || ssl.mode === "verify-full"),
+    };
+    if (ssl.caCert) options.ca = ssl.caCert;
+    if (ssl.clientCert) options.cert = ssl.clientCert;
+    if (ssl.clientKey) options.key = ssl.clientKey;
+    return options;
+  }
+
+  private describeConnectFailure(error: unknown): Error {
+    const mapped = this.mapCassandraError(error);
+    // A rejected credential is not a connectivity problem, and saying so would
+    // send the user to check their host.
+    if (mapped instanceof AuthenticationError) return mapped;
+
+    return new ConnectionError(
+      `Failed to connect to Cassandra: ${mapped.message}`,
+      "cassandra",
+      this.config.host,
+      this.config.port,
+    );
+  }
+
+  private requireClient(): Client {
+    this.ensureConnected();
+    // Assigned before setConnected(true) and cleared with setConnected(false).
+    return this.client!;
+  }
+
+  // ============================================================================
+  // Query Execution
+  // ============================================================================
+
+  /**
+   * One CQL statement, with `?` placeholders bound from `params`.
+   *
+   * Statements are prepared (`prepare: true`): the driver then knows each
+   * placeholder's CQL type and encodes a JavaScript number as an `int` or a
+   * `bigint` as the column needs, where an unprepared statement would guess.
+   *
+   * A statement carrying a page directive returns that one page and the paging
+   * state after it. One without - a caller that is not the editor - is read to its
+   * end, up to the same row ceiling an "unlimited" editor run has, with a warning
+   * when rows were left behind.
+   */
+  public async query(sql: string, params?: unknown[]): Promise<QueryResult> {
+    const client = this.requireClient();
+    const { statement, page, trace } = readCqlDirectives(sql);
+    this.refuseUse(statement);
+
+    return this.trackQuery(async () => {
+      const { result, executionTime } = await this.measureExecution(async () => {
+        try {
+          if (trace) return await this.traceStatement(client, statement, params, page);
+          return await this.readPages(client, statement, params, page ?? { size: MAX_UNLIMITED_ROWS, offset: 0 });
+        } catch (error) {
+          throw this.mapCassandraError(error, sql);
+        }
+      });
+
+      const truncated =
+        !page && result.pageState
+          ? [`Only the first ${result.rows.length} rows were read; the statement has more.`]
+          : [];
+      const warnings = toWarnings([...result.warnings, ...truncated]);
+
+      return {
+        rows: result.rows,
+        fields: result.fields,
+        rowCount: result.rows.length,
+        executionTime,
+        ...(page &&
+          !trace && {
+            pagination: {
+              limit: page.size,
+              offset: page.offset,
+              hasMore: Boolean(result.pageState),
+              totalReturned: result.rows.length,
+              wasLimited: true,
+              ...(result.pageState && { pageState: result.pageState }),
+            },
+          }),
+        ...(Object.keys(result.columnTypes).length > 0 && { columnTypes: result.columnTypes }),
+        ...(warnings && { warnings }),
+      };
+    });
+  }
+
+  /**
+   * Streams a statement a page at a time, resuming each request from the paging
+   * state the one before it returned - the driver's own cursor, so only one batch
+   * is ever held here however large the result is.
+   */
+  public async *queryStream(sql: string, params: unknown[] | undefined, batchSize: number): AsyncGenerator<QueryBatch> {
+    const client = this.requireClient();
+    if (!Number.isSafeInteger(batchSize) || batchSize <= 0) {
+      throw new QueryError(`Invalid stream batch size: ${batchSize}`, "cassandra", sql);
+    }
+    const { statement } = readCqlDirectives(sql);
+    this.refuseUse(statement);
+
+    this.state.activeQueries++;
+    try {
+      let state: string | undefined;
+      for (let first = true; first || state; first = false) {
+        const read = await this.readPages(client, statement, params, { size: batchSize, offset: 0, state });
+        if (first || read.rows.length > 0) yield { rows: read.rows, fields: read.fields };
+        state = read.pageState;
+      }
+    } catch (error) {
+      throw this.mapCassandraError(error, sql);
+    } finally {
+      this.state.activeQueries--;
+    }
+  }
+
+  /**
+   * `USE` would switch the keyspace of the one client every user of this
+   * connection shares, so a statement after it - anyone's - would resolve its
+   * table names somewhere else. A keyspace is chosen on the connection, or named
+   * in the statement (`SELECT * FROM ks.t`).
+   */
+  private refuseUse(statement: string): void {
+    if (readLeadingKeyword(statement, resolveSqlGrammar(this.type))?.keyword === "USE") {
+      throw new QueryError(
+        "USE is not supported: it would change the keyspace for every user of this connection. " +
+          "Set the keyspace on the connection, or qualify the table name (keyspace.table).",
+        "cassandra",
+        statement,
+      );
+    }
+  }
+
+  private execute(
+    client: Client,
+    statement: string,
+    params: unknown[] | undefined,
+    options: QueryOptions,
+  ): Promise<types.ResultSet> {
+    return client.execute(statement, params ?? [], { prepare: true, readTimeout: this.queryTimeout, ...options });
+  }
+
+  /**
+   * One page of a statement: `offset` rows skipped, then `size` rows read.
+   *
+   * Both halves go in requests of at most `MAX_FETCH_SIZE` rows, each resuming
+   * from the state the last one returned, and the last request of each half asks
+   * for exactly the rows still owed - so the state handed back marks precisely
+   * the end of the page, and "Load More" resumes at the first row not shown.
+   *
+   * An absent state after any request means the statement is exhausted. Sending
+   * the next request anyway would start it again from the top.
+   */
+  private async readPages(
+    client: Client,
+    statement: string,
+    params: unknown[] | undefined,
+    page: CqlPageDirective,
+  ): Promise<PageRead> {
+    const size = Math.max(1, page.size);
+    let state = page.state;
+    let exhausted = false;
+
+    for (let skip = page.state ? 0 : page.offset; skip > 0 && !exhausted; ) {
+      const result = await this.execute(client, statement, params, {
+        fetchSize: Math.min(skip, MAX_FETCH_SIZE),
+        ...(state && { pageState: state }),
+      });
+      skip -= result.rows?.length ?? 0;
+      state = result.pageState || undefined;
+      exhausted = !state;
+    }
+
+    const read: PageRead = { rows: [], fields: [], columnTypes: {}, warnings: [] };
+    if (exhausted) return read;
+
+    do {
+      const resumeFrom = read.pageState ?? state;
+      const result = await this.execute(client, statement, params, {
+        fetchSize: Math.min(size - read.rows.length, MAX_FETCH_SIZE),
+        ...(resumeFrom && { pageState: resumeFrom }),
+      });
+      appendPage(read, result);
+    } while (read.pageState && read.rows.length < size);
+
+    return read;
+  }
+
+  /**
+   * Runs a SELECT with tracing on, and returns the session the coordinator
+   * recorded instead of its rows: one row, one `trace` column, the session as
+   * JSON text - the shape `explain/cassandra-trace.ts` reads.
+   *
+   * Only the first page is read; a trace describes a request, and that is the
+   * request. The driver's `getTrace` waits for the session to be complete, since
+   * the replicas write their events asynchronously.
+   */
+  private async traceStatement(
+    client: Client,
+    statement: string,
+    params: unknown[] | undefined,
+    page: CqlPageDirective | undefined,
+  ): Promise<PageRead> {
+    const result = await this.execute(client, statement, params, {
+      fetchSize: Math.min(Math.max(1, page?.size ?? DEFAULT_QUERY_LIMIT), MAX_FETCH_SIZE),
+      traceQuery: true,
+    });
+    const traceId = result.info?.traceId;
+    if (!traceId) {
+      throw new QueryError("Cassandra returned no trace for this statement", "cassandra", statement);
+    }
+    const trace = await client.metadata.getTrace(traceId);
+
+    const session = {
+      request: trace.requestType,
+      coordinator: String(trace.coordinator),
+      client: trace.clientAddress,
+      startedAt: toDisplayValue(trace.startedAt),
+      durationMicros: trace.duration,
+      parameters: toDisplayValue(trace.parameters),
+      rows: result.rows?.length ?? 0,
+      events: trace.events.map((event) => ({
+        activity: String(event.activity),
+        source: String(event.source),
+        elapsedMicros: Number(event.elapsed),
+        thread: String(event.thread),
+      })),
+    };
+
+    return {
+      rows: [{ [TRACE_COLUMN]: JSON.stringify(session) }],
+      fields: [TRACE_COLUMN],
+      columnTypes: { [TRACE_COLUMN]: "text" },
+      warnings: result.info?.warnings ?? [],
+    };
+  }
+
+  /**
+   * Driver failure -> the provider error vocabulary.
+   *
+   * The server's failures arrive as a `ResponseError` carrying a native protocol
+   * error code, which is a closed set and the only discrete thing to branch on;
+   * the driver's own failures are told apart by their class name. A
+   * `NoHostAvailableError` wraps one error per contact point - when every one of
+   * them is a credential failure, that is the answer, not "unreachable".
+   */
+  private mapCassandraError(error: unknown, query?: string): Error {
+    if (!(error instanceof Error)) return this.mapError(error, query);
+    const failure = error as Error & DriverErrorShape;
+
+    if (failure.name === "NoHostAvailableError") {
+      const inner = Object.values(failure.innerErrors ?? {});
+      const authFailure = inner.length > 0 && inner.every((cause) => this.isAuthFailure(cause));
+      return authFailure
+        ? new AuthenticationError(`Authentication failed: ${failure.message}`, "cassandra")
+        : new ConnectionError(failure.message, "cassandra", this.config.host, this.config.port);
+    }
+    if (this.isAuthFailure(failure)) {
+      return new AuthenticationError(`Authentication failed: ${failure.message}`, "cassandra");
+    }
+    if (
+      failure.name === "OperationTimedOutError" ||
+      failure.code === RESPONSE_CODE.readTimeout ||
+      failure.code === RESPONSE_CODE.writeTimeout
+    ) {
+      return new TimeoutError(failure.message, "cassandra", this.queryTimeout, query);
+    }
+    if (failure.code === RESPONSE_CODE.unavailable || failure.code === RESPONSE_CODE.overloaded) {
+      return new ConnectionError(failure.message, "cassandra", this.config.host, this.config.port);
+    }
+    if (failure.name === "ResponseError" || failure.name === "ArgumentError") {
+      // Syntax, invalid, unauthorized, config and already-exists: a statement the
+      // server rejected, whose own message is the most useful thing to show.
+      return new QueryError(failure.message, "cassandra", query);
+    }
+    return this.mapError(error, query);
+  }
+
+  private isAuthFailure(error: unknown): boolean {
+    const shape = error as DriverErrorShape | null;
+    return shape?.name === "AuthenticationError" || shape?.code === RESPONSE_CODE.badCredentials;
+  }
+
+  /** Runs a catalog or monitoring read; its failures surface as provider errors. */
+  private async readCatalog<T>(read: (runner: CassandraRunner) => Promise<T>): Promise<T> {
+    const client = this.requireClient();
+    try {
+      return await read(async (cql, params) => (await this.execute(client, cql, params, {})).rows ?? []);
+    } catch (error) {
+      throw this.mapCassandraError(error);
+    }
+  }
+
+  // ============================================================================
+  // Schema
+  // ============================================================================
+
+  public async getSchema(): Promise<TableSchema[]> {
+    return this.readCatalog((runner) => readSchema(runner, this.config.database));
+  }
+
+  // ============================================================================
+  // Monitoring
+  // ============================================================================
+
+  public async getOverview(): Promise<DatabaseOverview> {
+    return this.readCatalog((runner) => readOverview(runner, this.config.database));
+  }
+
+  /**
+   * Empty: the cache and latency metrics live in JMX and `nodetool`, and no CQL
+   * table on both engines carries them. An invented zero would read as a
+   * measurement.
+   */
+  public getPerformanceMetrics(): Promise<PerformanceMetrics> {
+    return Promise.resolve({});
+  }
+
+  /**
+   * Empty: there is no query log. `system_traces` holds only the requests that
+   * were traced, which is not a sample of the slow ones.
+   */
+  public getSlowQueries(): Promise<SlowQueryStats[]> {
+    return Promise.resolve([]);
+  }
+
+  /** Empty: neither engine lists its client sessions in a table both publish. */
+  public getActiveSessions(): Promise<ActiveSessionDetails[]> {
+    return Promise.resolve([]);
+  }
+
+  public async getTableStats(): Promise<TableStats[]> {
+    return this.readCatalog((runner) => readTableStats(runner, this.config.database));
+  }
+
+  /**
+   * Empty: a secondary index has no size or usage counter readable over CQL. The
+   * indexes themselves are in the schema tree.
+   */
+  public getIndexStats(): Promise<IndexStats[]> {
+    return Promise.resolve([]);
+  }
+
+  /** Empty: disk usage is per node and per data directory, reported by `nodetool status`. */
+  public getStorageStats(): Promise<StorageStats[]> {
+    return Promise.resolve([]);
+  }
+
+  public async getHealth(): Promise<HealthInfo> {
+    return this.readCatalog((runner) => readHealth(runner, this.config.database));
+  }
+
+  // ============================================================================
+  // Maintenance
+  // ============================================================================
+
+  /**
+   * Refused, with the reason. `/api/db/maintenance` checks `supportsMaintenance`
+   * and answers 400 before it would call this, so only a programmatic caller of
+   * the package gets here.
+   */
+  public async runMaintenance(type: MaintenanceType): Promise<MaintenanceResult> {
+    throw new QueryError(
+      `Cassandra has no CQL-reachable maintenance operation, so "${type}" cannot run here. ` +
+        "Compaction, repair and cleanup are nodetool operations.",
+      "cassandra",
+    );
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * Cassandra / ScyllaDB schema introspection and monitoring
+ *
+ * Every read the provider makes that is not a user's own statement lives here. It
+ * owns no driver: each function takes a runner, which is what lets the provider
+ * hand it the live client and a test hand it a dozen rows.
+ *
+ * The catalog is `system_schema`, which both engines publish with the same tables
+ * and columns (ScyllaDB forked it from Cassandra 3.0 and has kept it in step):
+ *
+ * - `system_schema.tables` / `.views` -> the schema tree's tables.
+ * - `system_schema.columns` -> their columns, and the primary key. There is no
+ *   key constraint object: a column's `kind` says whether it is part of the
+ *   partition key, a clustering column, a regular column or a static one, and its
+ *   `position` orders it within its part.
+ * - `system_schema.indexes` -> the secondary indexes, whose column is the
+ *   `target` option rather than a column list.
+ *
+ * `system.size_estimates` feeds the sizes. It is the only size CQL can read, and
+ * it is an estimate in two ways worth knowing: it covers the token ranges of the
+ * node that ANSWERED, not the cluster, and it counts partitions rather than rows -
+ * the same figures `nodetool tablestats` prints per node. The monitoring panels
+ * say so in docs/providers/cassandra.md rather than dividing or multiplying by a
+ * replication factor this code cannot see.
+ *
+ * Nothing here reads a system keyspace's own tables into the schema tree: a
+ * connection without a keyspace lists every keyspace but `system` and the
+ * `system_*` family, which are the engine's and not the user's.
+ */
+
+import type { DatabaseOverview, HealthInfo, TableStats } from "@/lib/db/types";
+import { formatBytes } from "@/lib/db/utils/pool-manager";
+import type { ColumnSchema, IndexSchema, TableSchema } from "@/lib/types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One row of a catalog read, as the driver decoded it. */
+export type CassandraRow = Record<string, unknown>;
+
+/** Runs one catalog statement, with `?` placeholders bound from `params`. */
+export type CassandraRunner = (cql: string, params?: unknown[]) => Promise<CassandraRow[]>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** What a panel prints for something CQL does not publish. */
+const CASSANDRA_UNAVAILABLE_TEXT = "N/A";
+
+/** The `kind` values `system_schema.columns` uses for the two parts of the primary key. */
+const PARTITION_KEY_KIND = "partition_key";
+const CLUSTERING_KIND = "clustering";
+
+/**
+ * Where a column sorts in the schema tree: the key first, in key order, then the
+ * rest. `static` columns sort with the regular ones - they are not part of the
+ * key, only shared across a partition.
+ */
+const KIND_ORDER: Record<string, number> = { [PARTITION_KEY_KIND]: 0, [CLUSTERING_KIND]: 1 };
+const NON_KEY_ORDER = 2;
+
+/** The names the primary-key entries take in a table's index list. */
+const PARTITION_KEY_INDEX_NAME = "partition key";
+const CLUSTERING_KEY_INDEX_NAME = "clustering key";
+
+// ============================================================================
+// Catalog CQL
+// ----------------------------------------------------------------------------
+// Hoisted to module scope for the coverage reason recorded in druid/introspect.ts.
+// Each read comes in two forms: narrowed to the connection's keyspace with a bound
+// `?`, or across every keyspace, with the system ones filtered out afterwards
+// (`system_*` cannot be excluded server-side without ALLOW FILTERING, which scans).
+// ============================================================================
+
+const TABLE_COLUMNS = "keyspace_name, table_name";
+const VIEW_COLUMNS = "keyspace_name, view_name";
+const COLUMN_COLUMNS = "keyspace_name, table_name, column_name, kind, position, type";
+const INDEX_COLUMNS = "keyspace_name, table_name, index_name, options";
+const SIZE_COLUMNS = "keyspace_name, table_name, partitions_count, mean_partition_size";
+const KEYSPACE_FILTER = "WHERE keyspace_name = ?";
+
+function catalogRead(columns: string, table: string, keyspace: string | undefined): string {
+  return `SELECT ${columns} FROM ${table}${keyspace ? ` ${KEYSPACE_FILTER}` : ""}`;
+}
+
+const CASSANDRA_LOCAL_SQL = "SELECT release_version, cluster_name, data_center FROM system.local";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function readText(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * A count from a catalog cell. `bigint` columns arrive as the driver's `Long`, which
+ * has no `valueOf`, so the number is read from its text.
+ */
+function readCount(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  const count = Number(typeof value === "number" ? value : String(value));
+  return Number.isFinite(count) ? count : 0;
+}
+
+/** `system`, `system_schema`, `system_auth`, `system_traces`, ... - the engine's own keyspaces. */
+function isSystemKeyspace(keyspace: string): boolean {
+  return keyspace === "system" || keyspace.startsWith("system_");
+}
+
+function params(keyspace: string | undefined): unknown[] | undefined {
+  return keyspace ? [keyspace] : undefined;
+}
+
+/** Runs a catalog read and drops the system keyspaces' rows when the read was unscoped. */
+async function readCatalog(
+  runner: CassandraRunner,
+  columns: string,
+  table: string,
+  keyspace: string | undefined,
+): Promise<CassandraRow[]> {
+  const rows = await runner(catalogRead(columns, table, keyspace), params(keyspace));
+  return keyspace ? rows : rows.filter((row) => !isSystemKeyspace(readText(row.keyspace_name)));
+}
+
+/**
+ * The name a table goes by in the schema tree and in the editor. Bare inside the
+ * connection's own keyspace, because that is how a statement there names it;
+ * qualified otherwise, because an unqualified name would not resolve.
+ */
+function tableName(keyspace: string | undefined, row: CassandraRow, nameColumn = "table_name"): string {
+  const name = readText(row[nameColumn]);
+  return keyspace ? name : `${readText(row.keyspace_name)}.${name}`;
+}
+
+/**
+ * The column a secondary index covers. `target` is the column name, wrapped when
+ * the index is over part of a collection - `keys(tags)`, `entries(attrs)` - and
+ * double-quoted when the name needs it.
+ */
+function indexTarget(options: unknown): string {
+  const target = readText((options as Record<string, unknown> | null)?.target);
+  const wrapped = /^\w+\((.*)\)$/.exec(target);
+  const column = wrapped ? wrapped[1] : target;
+  return column.startsWith('"') && column.endsWith('"') ? column.slice(1, -1).replaceAll('""', '"') : column;
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/** A column, with where it sorts among its table's columns. */
+interface CatalogColumn {
+  column: ColumnSchema;
+  order: number;
+  position: number;
+}
+
+function toColumn(row: CassandraRow): CatalogColumn {
+  const kind = readText(row.kind);
+  const keyKind = kind === PARTITION_KEY_KIND ? "partition" : kind === CLUSTERING_KIND ? "clustering" : undefined;
+  return {
+    column: {
+      name: readText(row.column_name),
+      type: readText(row.type),
+      // Every key column is required on a write; every other one may be left unset,
+      // which reads back as null. There is no NOT NULL to declare.
+      nullable: keyKind === undefined,
+      isPrimary: keyKind !== undefined,
+      ...(keyKind && { keyKind }),
+    },
+    order: KIND_ORDER[kind] ?? NON_KEY_ORDER,
+    position: readCount(row.position),
+  };
+}
+
+/**
+ * The two parts of the primary key as index entries, so the schema tree shows the
+ * key a reader has to write a WHERE clause against. The partition key is unique on
+ * its own only when there are no clustering columns: with them, one partition
+ * holds many rows.
+ */
+function keyIndexes(columns: ColumnSchema[]): IndexSchema[] {
+  const partition = columns.filter((column) => column.keyKind === "partition").map((column) => column.name);
+  const clustering = columns.filter((column) => column.keyKind === "clustering").map((column) => column.name);
+
+  const indexes: IndexSchema[] = [];
+  if (partition.length > 0) {
+    indexes.push({
+      name: PARTITION_KEY_INDEX_NAME,
+      columns: partition,
+      unique: clustering.length === 0,
+      keyKind: "partition",
+    });
+  }
+  if (clustering.length > 0) {
+    indexes.push({ name: CLUSTERING_KEY_INDEX_NAME, columns: clustering, unique: true, keyKind: "clustering" });
+  }
+  return indexes;
+}
+
+/**
+ * The tables and materialized views of the connection's keyspace - or of every
+ * user keyspace when it names none - with their columns, primary key and secondary
+ * indexes. Foreign keys are always empty: CQL has no way to declare one.
+ */
+export async function readSchema(runner: CassandraRunner, keyspace: string | undefined): Promise<TableSchema[]> {
+  const [tables, views, columns, indexes] = await Promise.all([
+    readCatalog(runner, TABLE_COLUMNS, "system_schema.tables", keyspace),
+    readCatalog(runner, VIEW_COLUMNS, "system_schema.views", keyspace),
+    readCatalog(runner, COLUMN_COLUMNS, "system_schema.columns", keyspace),
+    readCatalog(runner, INDEX_COLUMNS, "system_schema.indexes", keyspace),
+  ]);
+
+  const columnsByTable = new Map<string, CatalogColumn[]>();
+  for (const row of columns) {
+    const name = tableName(keyspace, row);
+    const list = columnsByTable.get(name) ?? [];
+    list.push(toColumn(row));
+    columnsByTable.set(name, list);
+  }
+
+  const indexesByTable = new Map<string, IndexSchema[]>();
+  for (const row of indexes) {
+    const name = tableName(keyspace, row);
+    const list = indexesByTable.get(name) ?? [];
+    list.push({ name: readText(row.index_name), columns: [indexTarget(row.options)], unique: false });
+    indexesByTable.set(name, list);
+  }
+
+  // A view's columns are listed in `system_schema.columns` under its own name, so
+  // it reads exactly like a table once it is named.
+  const names = [
+    ...tables.map((row) => tableName(keyspace, row)),
+    ...views.map((row) => tableName(keyspace, row, "view_name")),
+  ].sort((a, b) => a.localeCompare(b));
+
+  return names.map((name) => {
+    const schemaColumns = (columnsByTable.get(name) ?? [])
+      .sort((a, b) => a.order - b.order || a.position - b.position || a.column.name.localeCompare(b.column.name))
+      .map((entry) => entry.column);
+    return {
+      name,
+      columns: schemaColumns,
+      indexes: [...keyIndexes(schemaColumns), ...(indexesByTable.get(name) ?? [])],
+      foreignKeys: [],
+    };
+  });
+}
+
+// ============================================================================
+// Monitoring
+// ============================================================================
+
+interface TableSize {
+  keyspace: string;
+  table: string;
+  partitions: number;
+  bytes: number;
+}
+
+/**
+ * Per-table size estimates, summed over the answering node's token ranges. One
+ * row arrives per (table, range), each with a partition count and a mean
+ * partition size, so the bytes are the sum of their products.
+ */
+async function readTableSizes(runner: CassandraRunner, keyspace: string | undefined): Promise<TableSize[]> {
+  const rows = await readCatalog(runner, SIZE_COLUMNS, "system.size_estimates", keyspace);
+  const sizes = new Map<string, TableSize>();
+  for (const row of rows) {
+    const key = `${readText(row.keyspace_name)}.${readText(row.table_name)}`;
+    const size = sizes.get(key) ?? {
+      keyspace: readText(row.keyspace_name),
+      table: readText(row.table_name),
+      partitions: 0,
+      bytes: 0,
+    };
+    const partitions = readCount(row.partitions_count);
+    size.partitions += partitions;
+    size.bytes += partitions * readCount(row.mean_partition_size);
+    sizes.set(key, size);
+  }
+  return [...sizes.values()].sort((a, b) => `${a.keyspace}.${a.table}`.localeCompare(`${b.keyspace}.${b.table}`));
+}
+
+/**
+ * The release, and how much schema and data the keyspace holds.
+ *
+ * Uptime and connection counts are not published over CQL on both engines - a
+ * Cassandra 4 virtual table has clients, a ScyllaDB one spells it differently, and
+ * neither has an uptime - so they are reported as unknown and zero rather than
+ * read from one engine and missed on the other.
+ */
+export async function readOverview(runner: CassandraRunner, keyspace: string | undefined): Promise<DatabaseOverview> {
+  const [local, tables, indexes, sizes] = await Promise.all([
+    runner(CASSANDRA_LOCAL_SQL),
+    readCatalog(runner, TABLE_COLUMNS, "system_schema.tables", keyspace),
+    readCatalog(runner, INDEX_COLUMNS, "system_schema.indexes", keyspace),
+    readTableSizes(runner, keyspace),
+  ]);
+
+  const release = readText(local[0]?.release_version);
+  const databaseSizeBytes = sizes.reduce((total, size) => total + size.bytes, 0);
+
+  return {
+    // ScyllaDB reports the Cassandra release its CQL is compatible with here, which
+    // is the version a CQL client needs to know.
+    version: release ? `Cassandra ${release}` : CASSANDRA_UNAVAILABLE_TEXT,
+    uptime: CASSANDRA_UNAVAILABLE_TEXT,
+    activeConnections: 0,
+    maxConnections: 0,
+    databaseSize: formatBytes(databaseSizeBytes),
+    databaseSizeBytes,
+    tableCount: tables.length,
+    indexCount: indexes.length,
+  };
+}
+
+/** Each table's estimated partitions and bytes on the answering node. */
+export async function readTableStats(runner: CassandraRunner, keyspace: string | undefined): Promise<TableStats[]> {
+  const sizes = await readTableSizes(runner, keyspace);
+  return sizes.map((size) => ({
+    schemaName: size.keyspace,
+    tableName: size.table,
+    rowCount: size.partitions,
+    tableSize: formatBytes(size.bytes),
+    tableSizeBytes: size.bytes,
+    totalSize: formatBytes(size.bytes),
+    totalSizeBytes: size.bytes,
+  }));
+}
+
+/** The health summary, from the one read that has a source. */
+export async function readHealth(runner: CassandraRunner, keyspace: string | undefined): Promise<HealthInfo> {
+  const sizes = await readTableSizes(runner, keyspace);
+  return {
+    activeConnections: 0,
+    databaseSize: formatBytes(sizes.reduce((total, size) => total + size.bytes, 0)),
+    cacheHitRatio: CASSANDRA_UNAVAILABLE_TEXT,
+    slowQueries: [],
+    activeSessions: [],
+  };
+}
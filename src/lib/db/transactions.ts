@@ -0,0 +1,242 @@
+import { randomUUID } from "node:crypto";
+import { logger } from "@/lib/logger";
+import { QueryError } from "./errors";
+import type { DatabaseProvider, DatabaseType, QueryResult, TransactionHandle } from "./types";
+
+/**
+ * Open editor transactions, one per sign-in, connection and tab.
+ *
+ * A provider is cached per connection (`factory.ts`) and so is shared by every user
+ * of that connection. The transaction used to live on it as well — one `txClient`
+ * per provider — so on a managed connection two teammates who pressed BEGIN were in
+ * the SAME transaction: the second one's BEGIN failed with "already active" and
+ * their statements, if they ran at all, ran in the first one's transaction, and
+ * either user's COMMIT committed both. A transaction is now a `TransactionHandle`
+ * holding its own pooled connection, and this module is the only place one is kept:
+ * keyed by the session's id (`sessionIdOf` in `src/lib/auth.ts`), the connection id
+ * and the editor tab. Not by username: a shared env account is one username for a
+ * whole team, and two of them signed in at once must not reach each other's
+ * transaction any more than two users may. The username is only what the
+ * per-user limit counts by and what an admin sees.
+ *
+ * Each holds a connection out of the pool and possibly row locks on the database,
+ * so an abandoned one is rolled back after `TRANSACTION_IDLE_TIMEOUT_MS` without a
+ * statement — idle, not total, time: a long session of work that keeps running
+ * statements is not cut off halfway through. A user may hold at most
+ * `MAX_TRANSACTIONS_PER_USER`, because every one of them is a connection the
+ * shared pool cannot hand to anybody else.
+ *
+ * Per process, like every other registry here (`rate-limit.ts`, the provider
+ * cache). A deployment with several replicas needs sticky sessions for a
+ * transaction to be found again, exactly as it already did for the provider-wide
+ * one.
+ */
+
+/** Rolled back after this long without a statement (5 minutes, the former provider timeout). */
+export const TRANSACTION_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Open transactions one user may hold across all connections and tabs. */
+export const MAX_TRANSACTIONS_PER_USER = 5;
+
+/** Who a transaction belongs to, and the names the UI shows for it. */
+export interface TransactionOwner {
+  /** The sign-in that opened it. The key, and never reported: `OpenTransaction` leaves it out. */
+  sessionId: string;
+  username: string;
+  connectionId: string;
+  connectionName: string;
+  tabId: string;
+  tabName: string;
+}
+
+/** An open transaction as it is reported: to its owner, and to an admin in Operations. */
+export interface OpenTransaction extends Omit<TransactionOwner, "sessionId"> {
+  id: string;
+  databaseType: DatabaseType;
+  /** Epoch milliseconds. */
+  startedAt: number;
+  lastActivityAt: number;
+  /** When the idle timeout rolls it back unless another statement runs first. */
+  expiresAt: number;
+  statementCount: number;
+}
+
+interface Entry {
+  sessionId: string;
+  info: OpenTransaction;
+  handle: TransactionHandle;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const transactions = new Map<string, Entry>();
+/** Keys whose BEGIN is in flight, to their username, so a double click cannot open two. */
+const opening = new Map<string, string>();
+
+function keyOf(sessionId: string, connectionId: string, tabId: string): string {
+  return JSON.stringify([sessionId, connectionId, tabId]);
+}
+
+function armIdleTimer(key: string, entry: Entry): void {
+  if (entry.timer) clearTimeout(entry.timer);
+  const now = Date.now();
+  entry.info.lastActivityAt = now;
+  entry.info.expiresAt = now + TRANSACTION_IDLE_TIMEOUT_MS;
+  entry.timer = setTimeout(() => void expire(key), TRANSACTION_IDLE_TIMEOUT_MS);
+  // An open transaction must not keep the process alive on shutdown.
+  if (typeof entry.timer === "object" && "unref" in entry.timer) entry.timer.unref();
+}
+
+async function expire(key: string): Promise<void> {
+  const entry = transactions.get(key);
+  if (!entry) return;
+  transactions.delete(key);
+  logger.warn("Transaction idle timeout, rolling back", {
+    route: "db/transactions",
+    connectionId: entry.info.connectionId,
+    username: entry.info.username,
+    tabId: entry.info.tabId,
+  });
+  try {
+    await entry.handle.rollback();
+  } catch (error) {
+    logger.warn("Idle transaction rollback failed", { route: "db/transactions", error: String(error) });
+  }
+}
+
+function requireEntry(sessionId: string, connectionId: string, tabId: string): Entry {
+  const entry = transactions.get(keyOf(sessionId, connectionId, tabId));
+  if (!entry) {
+    throw new QueryError(
+      `No active transaction. An idle transaction is rolled back after ${TRANSACTION_IDLE_TIMEOUT_MS / 60000} minutes.`,
+    );
+  }
+  return entry;
+}
+
+/** BEGIN for this owner, on a connection of its own. */
+export async function beginTransaction(provider: DatabaseProvider, owner: TransactionOwner): Promise<OpenTransaction> {
+  if (!provider.openTransaction) {
+    throw new QueryError("Transaction control is not supported for this database type", provider.type);
+  }
+
+  const key = keyOf(owner.sessionId, owner.connectionId, owner.tabId);
+  if (transactions.has(key) || opening.has(key)) {
+    throw new QueryError("Transaction already active", provider.type);
+  }
+  const held =
+    [...transactions.values()].filter((entry) => entry.info.username === owner.username).length +
+    [...opening.values()].filter((username) => username === owner.username).length;
+  if (held >= MAX_TRANSACTIONS_PER_USER) {
+    throw new QueryError(
+      `At most ${MAX_TRANSACTIONS_PER_USER} transactions may be open at once. Commit or roll back one first.`,
+      provider.type,
+    );
+  }
+
+  opening.set(key, owner.username);
+  let handle: TransactionHandle;
+  try {
+    handle = await provider.openTransaction();
+  } finally {
+    opening.delete(key);
+  }
+
+  const { sessionId, ...shown } = owner;
+  const now = Date.now();
+  const entry: Entry = {
+    sessionId,
+    info: {
+      ...shown,
+      id: randomUUID(),
+      databaseType: provider.type,
+      startedAt: now,
+      lastActivityAt: now,
+      expiresAt: now + TRANSACTION_IDLE_TIMEOUT_MS,
+      statementCount: 0,
+    },
+    handle,
+    timer: null,
+  };
+  transactions.set(key, entry);
+  armIdleTimer(key, entry);
+  return { ...entry.info };
+}
+
+/** Run one statement in the owner's transaction; each one restarts the idle clock. */
+export async function queryInTransaction(
+  sessionId: string,
+  connectionId: string,
+  tabId: string,
+  sql: string,
+  params?: unknown[],
+): Promise<QueryResult> {
+  const entry = requireEntry(sessionId, connectionId, tabId);
+  armIdleTimer(keyOf(sessionId, connectionId, tabId), entry);
+  entry.info.statementCount++;
+  return entry.handle.query(sql, params);
+}
+
+/**
+ * COMMIT or ROLLBACK the owner's transaction. The entry is gone either way: a
+ * handle that failed to end has still returned its connection, and holding on to
+ * it would only make the next BEGIN fail with "already active".
+ */
+export async function endTransaction(
+  sessionId: string,
+  connectionId: string,
+  tabId: string,
+  action: "commit" | "rollback",
+): Promise<void> {
+  const key = keyOf(sessionId, connectionId, tabId);
+  const entry = requireEntry(sessionId, connectionId, tabId);
+  if (entry.timer) clearTimeout(entry.timer);
+  transactions.delete(key);
+  await (action === "commit" ? entry.handle.commit() : entry.handle.rollback());
+}
+
+/** The owner's transaction, or null. */
+export function getTransaction(sessionId: string, connectionId: string, tabId: string): OpenTransaction | null {
+  const entry = transactions.get(keyOf(sessionId, connectionId, tabId));
+  return entry ? { ...entry.info } : null;
+}
+
+/**
+ * Every open transaction, or only one sign-in's, oldest first. Copies: a caller
+ * cannot move a timer.
+ */
+export function listTransactions(sessionId?: string): OpenTransaction[] {
+  return [...transactions.values()]
+    .filter((entry) => sessionId === undefined || entry.sessionId === sessionId)
+    .map((entry) => ({ ...entry.info }))
+    .sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/**
+ * Roll back a transaction by id, whoever owns it — the admin's way out of one
+ * that holds locks somebody else is waiting on.
+ *
+ * @returns the transaction as it was, or null when no open one has that id
+ */
+export async function rollbackTransactionById(id: string): Promise<OpenTransaction | null> {
+  for (const [key, entry] of transactions) {
+    if (entry.info.id !== id) continue;
+    if (entry.timer) clearTimeout(entry.timer);
+    transactions.delete(key);
+    await entry.handle.rollback();
+    return { ...entry.info };
+  }
+  return null;
+}
+
+/** Roll back everything. For tests, and for a process that is going away. */
+export async function clearTransactions(): Promise<void> {
+  const entries = [...transactions.values()];
+  transactions.clear();
+  opening.clear();
+  await Promise.all(
+    entries.map(async (entry) => {
+      if (entry.timer) clearTimeout(entry.timer);
+      await entry.handle.rollback().catch(() => undefined);
+    }),
+  );
+}
@@ -95,7 +95,10 @@ export type ExplainFormat =
   | "sqlite-queryplan"
   | "couchbase-json"
   | "clickhouse-json"
-  | "druid-native";
+  | "druid-native"
+  | "duckdb-json"
+  | "cassandra-trace"
+  | "mongodb-json";
 
 export interface ProviderCapabilities {
   queryLanguage: "sql" | "json";
@@ -107,9 +110,14 @@ export interface ProviderCapabilities {
    * `queryLanguage` everywhere. Left undefined by SQL and MongoDB, so their
    * generation is unchanged; Redis declares `"redis"` because it too says
    * `queryLanguage: "json"` while speaking neither MongoDB JSON nor SQL, and
-   * silently got MongoDB commands its own driver rejected (#427).
+   * silently got MongoDB commands its own driver rejected (#427). Cassandra
+   * declares `"cql"` from the other side: it says `queryLanguage: "sql"`, and is
+   * SQL-shaped enough for the shared readers, but rejects the `WHERE 1=1` the SQL
+   * generator writes and is corrupted by the SQL formatter. Elasticsearch
+   * declares `"elasticsearch"` because its editor takes Query DSL JSON beside
+   * SQL: its table query is a search request, and a request is formatted as JSON.
    */
-  queryDialect?: "libredb" | "redis";
+  queryDialect?: "libredb" | "redis" | "cql" | "elasticsearch";
   supportsExplain: boolean;
   /**
    * Present iff supportsExplain is true (enforced by provider tests).
@@ -229,10 +237,39 @@ export interface PreparedQuery {
   offset: number;
 }
 
+/**
+ * One batch of a streamed result: the rows a single fetch returned and the columns
+ * the engine declared for the statement. Every batch carries the same `fields`.
+ */
+export type QueryBatch = Pick<QueryResult, "rows" | "fields">;
+
+/**
+ * One open transaction, pinned to a connection taken out of the provider's pool for
+ * as long as the transaction lives. The handle is the transaction: the provider keeps
+ * no record of it, so two handles opened on one provider never share a connection,
+ * and who may use which handle is decided by whoever holds them
+ * (`src/lib/db/transactions.ts`).
+ *
+ * `commit` and `rollback` end the handle either way: the connection goes back to the
+ * pool even when the statement fails, and every later call throws "No active
+ * transaction".
+ */
+export interface TransactionHandle {
+  query(sql: string, params?: unknown[]): Promise<QueryResult>;
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+}
+
 export interface QueryPrepareOptions {
   limit?: number;
   offset?: number;
   unlimited?: boolean;
+  /**
+   * The paging state a previous page of this statement returned
+   * (`QueryPagination.pageState`). Read only by a provider that pages by cursor;
+   * every other provider ignores it and pages by `offset`.
+   */
+  pageState?: string;
 }
 
 // ============================================================================
@@ -276,8 +313,31 @@ export interface DatabaseProvider {
    * boundary implement it, and execution-profile acquisition
    * (`acquireExecutionProfileProvider` in factory.ts) refuses provider types
    * that lack it rather than falling back to `query()` (fail closed).
+   *
+   * `params` go to the driver's bind path exactly as they do for `query()`. The agent
+   * never passes any; the editor does, for a generated statement's values (#290).
    */
-  queryReadOnly?(sql: string, budget: ReadOnlyStatementBudget): Promise<QueryResult>;
+  queryReadOnly?(sql: string, budget: ReadOnlyStatementBudget, params?: unknown[]): Promise<QueryResult>;
+
+  /**
+   * Run one statement through a server-side cursor and yield its rows
+   * `batchSize` at a time, so a result far larger than this process's memory
+   * can be written out (`src/lib/export/stream.ts`). The first batch is
+   * yielded even when empty, so a consumer always learns the columns.
+   *
+   * Optional: a provider without a cursor is read a page at a time through
+   * `prepareQuery` instead, which is correct for a stable ordering and is the
+   * only thing every engine here can do.
+   */
+  queryStream?(sql: string, params: unknown[] | undefined, batchSize: number): AsyncGenerator<QueryBatch>;
+
+  /**
+   * Begin a transaction on a dedicated pooled connection and hand it back.
+   *
+   * Optional: only the engines whose drivers can hold a connection out of the pool
+   * implement it, and `/api/db/transaction` answers 400 for the rest.
+   */
+  openTransaction?(): Promise<TransactionHandle>;
 
   /**
    * Get full database schema
@@ -442,6 +502,12 @@ export interface DatabaseOverview {
   databaseSizeBytes: number;
   tableCount: number;
   indexCount: number;
+  /**
+   * The engine's own verdict on itself, when it keeps one. Absent for engines
+   * that leave health to be inferred from the metrics; a search cluster reports
+   * green, yellow or red, and that colour is what its operators look for first.
+   */
+  health?: { level: "healthy" | "warning" | "critical"; summary: string };
 }
 
 /**
@@ -0,0 +1,102 @@
+/**
+ * In-band directives for the Cassandra provider
+ *
+ * Two things the editor asks of a Cassandra statement cannot be said in CQL:
+ *
+ * - **Which page.** CQL has no OFFSET, so the shared limiter's rewrite has nothing
+ *   to write; the driver pages by `fetchSize` and an opaque paging state instead,
+ *   and neither is part of the statement text.
+ * - **Trace it.** cqlsh's `TRACING ON` is a shell command, not CQL - the server
+ *   never sees it. Tracing is a flag on the request (`traceQuery`), and the
+ *   session it records is read back afterwards.
+ *
+ * Both reach the provider through `DatabaseProvider.query(sql)`, whose only channel
+ * is the text, so `prepareQuery` and the explain strategy write them into the text
+ * as a leading block comment and the provider reads them back off before
+ * executing. A comment rather than an invented keyword for two reasons: the
+ * statement stays valid CQL if anything ever sends it on unread, and every shared
+ * reader that classifies it - the grant check, the dangerous-query gate, the
+ * explain seam - skips comments already and still sees the `SELECT` it carries.
+ *
+ * This lives under `db/utils` rather than in the provider directory because the
+ * explain strategy writes the trace directive, and a strategy importing from a
+ * provider directory would tie the registry to it (the rule `clickhouse-json.ts`
+ * records, and the reason `json-integers.ts` lives here too).
+ *
+ * Only the exact text written here is read back: a directive must open the
+ * statement at its first character, in this spelling. A comment a user wrote that
+ * merely mentions `libredb:` is an ordinary comment.
+ */
+
+/** Where one page of a statement starts and how long it is. */
+export interface CqlPageDirective {
+  /** Rows in the page. A positive integer. */
+  size: number;
+  /** Rows to skip first, when there is no paging state to resume from. */
+  offset: number;
+  /** The driver's paging state to resume from, as the hex it hands out. */
+  state?: string;
+}
+
+/** What `readCqlDirectives` found in front of a statement. */
+export interface CqlDirectives {
+  /** The statement with its directives removed, exactly as it followed them. */
+  statement: string;
+  page?: CqlPageDirective;
+  trace: boolean;
+}
+
+/** Written in front of a SELECT to ask for its traced execution instead of its rows. */
+export const CQL_TRACE_DIRECTIVE = "/* libredb:trace */ ";
+
+/**
+ * A paging state is hex on the wire and nothing else. Checked before it is written
+ * into the text, so a state that arrived in a request body can never close the
+ * comment early and put its own CQL after it.
+ */
+const PAGE_STATE_PATTERN = /^[0-9a-f]+$/i;
+
+/** One directive at the very start of the text. Flat, with no nested quantifier. */
+const DIRECTIVE_PATTERN = /^\/\* libredb:(?:trace|page size=(\d+) offset=(\d+)(?: state=([0-9a-f]+))?) \*\/ /i;
+
+/** True when `state` can be written into a page directive. */
+export function isCqlPageState(state: unknown): state is string {
+  return typeof state === "string" && PAGE_STATE_PATTERN.test(state);
+}
+
+/**
+ * The directive that asks for one page. `size` and `offset` are the limiter's own
+ * numbers and are written as integers; a `state` that is not hex is left out
+ * rather than written, so the page falls back to skipping `offset` rows.
+ */
+export function writeCqlPageDirective(page: CqlPageDirective): string {
+  const size = Math.max(1, Math.trunc(page.size));
+  const offset = Math.max(0, Math.trunc(page.offset));
+  const state = isCqlPageState(page.state) ? ` state=${page.state}` : "";
+  return `/* libredb:page size=${size} offset=${offset}${state} */ `;
+}
+
+/**
+ * Reads the directives off the front of a statement, in any order, and returns
+ * what is left. A statement with none comes back untouched, with `trace: false`.
+ */
+export function readCqlDirectives(cql: string): CqlDirectives {
+  let statement = cql;
+  let page: CqlPageDirective | undefined;
+  let trace = false;
+
+  for (let match = DIRECTIVE_PATTERN.exec(statement); match; match = DIRECTIVE_PATTERN.exec(statement)) {
+    if (match[1] === undefined) {
+      trace = true;
+    } else {
+      page = {
+        size: Number(match[1]),
+        offset: Number(match[2]),
+        ...(match[3] !== undefined && { state: match[3] }),
+      };
+    }
+    statement = statement.slice(match[0].length);
+  }
+
+  return { statement, ...(page && { page }), trace };
+}
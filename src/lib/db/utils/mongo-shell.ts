@@ -0,0 +1,932 @@
+/**
+ * mongosh method-chain syntax for the MongoDB provider
+ *
+ * The provider's own query text is a JSON envelope - `{"collection": "users",
+ * "operation": "find", "filter": {...}}` - because JSON is the one thing every
+ * caller can build and check. People who work in MongoDB all day do not type it:
+ * they type `db.users.find({ age: { $gt: 18 } }).sort({ created: -1 }).limit(10)`.
+ * This module reads that spelling and answers with the same envelope, so the
+ * provider executes one shape whichever way it was written.
+ *
+ * It is a parser, never an evaluator. mongosh is a JavaScript REPL and the text
+ * it accepts is a program; running a program on the server that the editor sent
+ * would hand every user with query access a JavaScript runtime. Instead, only a
+ * fixed grammar is read:
+ *
+ *     db.<collection>.<method>(<literal>, ...)[.<cursor method>(<literal>)]...
+ *
+ * where a literal is a JavaScript object literal of the kind mongosh users write -
+ * unquoted and single-quoted keys, single-quoted strings, trailing commas,
+ * comments, regex literals - plus the shell's BSON constructors (`ObjectId()`,
+ * `ISODate()`, `new Date()`, `NumberInt()`, `NumberLong()`, `NumberDecimal()`).
+ * Anything else, a variable or an arrow function included, is a syntax error
+ * with the position it stopped at, not something this tries to make sense of.
+ *
+ * The collection may be named `db.users`, `db.app.events` (a dotted name, as the
+ * shell resolves it), `db["my-logs"]` or `db.getCollection("my-logs")`. The one
+ * database method read is `db.createCollection(name, options)`.
+ *
+ * `explain` is read in both of the shell's spellings - `db.users.explain("executionStats").find(...)`
+ * and `db.users.find(...).explain("executionStats")` - and becomes the envelope's
+ * `explain` field, the verbosity to run the plan at. The explain strategy writes
+ * the first spelling into a statement to ask for its plan (`explainMongoShellQuery`).
+ *
+ * This lives under `db/utils` rather than in the provider directory because the
+ * grant check reads the same text to decide whether a statement is a read
+ * (`access/grants.ts`), and it must reach the answer the provider will act on
+ * without importing the driver. That is also why the two constructors that need
+ * driver classes - `ObjectId` and `NumberDecimal` - come back as
+ * `MongoShellLiteral` placeholders for the provider to build, while the ones plain
+ * JavaScript can represent (dates and numbers) come back as their values.
+ */
+
+import { QueryError } from "../errors";
+
+/** The envelope operations a shell method maps onto; the provider's `MongoQuery["operation"]`. */
+type MongoShellOperation =
+  | "find"
+  | "findOne"
+  | "aggregate"
+  | "count"
+  | "distinct"
+  | "insertOne"
+  | "insertMany"
+  | "updateOne"
+  | "updateMany"
+  | "deleteOne"
+  | "deleteMany"
+  | "findOneAndUpdate"
+  | "bulkWrite"
+  | "createIndex"
+  | "dropIndex"
+  | "listIndexes"
+  | "createCollection"
+  | "renameCollection";
+
+/** How much of a plan MongoDB's explain reports, from least to most work done. */
+export type MongoExplainVerbosity = "queryPlanner" | "executionStats" | "allPlansExecution";
+
+type ShellDocument = Record<string, unknown>;
+
+/** A shell statement, translated into the provider's JSON envelope. */
+export interface MongoShellQuery {
+  collection: string;
+  operation: MongoShellOperation;
+  filter?: ShellDocument;
+  pipeline?: ShellDocument[];
+  update?: ShellDocument;
+  documents?: ShellDocument[];
+  /** createIndex's key pattern. */
+  keys?: ShellDocument;
+  /** dropIndex's target: the index's name, or its key pattern. */
+  index?: string | ShellDocument;
+  /** createCollection's validator, usually a `$jsonSchema`. */
+  validator?: ShellDocument;
+  /** renameCollection's new name. */
+  newName?: string;
+  /** bulkWrite's write models, such as `{ insertOne: { document: {...} } }`. */
+  operations?: ShellDocument[];
+  /** Set when the statement asks for its plan rather than its result. */
+  explain?: MongoExplainVerbosity;
+  options?: {
+    limit?: number;
+    skip?: number;
+    sort?: ShellDocument;
+    projection?: ShellDocument;
+    upsert?: boolean;
+    returnDocument?: string;
+    ordered?: boolean;
+    dropTarget?: boolean;
+    name?: string;
+    unique?: boolean;
+    sparse?: boolean;
+    expireAfterSeconds?: number;
+    partialFilterExpression?: ShellDocument;
+    hidden?: boolean;
+    validationLevel?: string;
+    validationAction?: string;
+  };
+}
+
+/**
+ * The operations whose plan `explain` can report. They are the reads: a write
+ * has no explain in the driver's collection API, and one through the `explain`
+ * command would be too easy to mistake for a dry run.
+ */
+export const MONGO_EXPLAINABLE_OPERATIONS: ReadonlySet<string> = new Set(["find", "aggregate", "count", "distinct"]);
+
+const EXPLAIN_VERBOSITIES: ReadonlySet<string> = new Set(["queryPlanner", "executionStats", "allPlansExecution"]);
+
+/**
+ * A BSON value only the driver can build, held until the provider builds it.
+ * `value` is the constructor's validated string argument; an `ObjectId()` with
+ * none asks for a fresh id.
+ */
+export class MongoShellLiteral {
+  constructor(
+    readonly type: "ObjectId" | "Decimal128",
+    readonly value: string | undefined,
+  ) {}
+}
+
+/**
+ * Collection methods, by the argument list each one reads. `count` is the shell's
+ * older spelling of `countDocuments`; both become the envelope's `count`, which the
+ * provider already answers with `countDocuments`.
+ */
+const COLLECTION_METHODS: Record<string, { operation: MongoShellOperation; arity: [min: number, max: number] }> = {
+  find: { operation: "find", arity: [0, 2] },
+  findOne: { operation: "findOne", arity: [0, 2] },
+  aggregate: { operation: "aggregate", arity: [0, 1] },
+  count: { operation: "count", arity: [0, 1] },
+  countDocuments: { operation: "count", arity: [0, 1] },
+  distinct: { operation: "distinct", arity: [1, 2] },
+  insertOne: { operation: "insertOne", arity: [1, 1] },
+  insertMany: { operation: "insertMany", arity: [1, 1] },
+  // A filter is required for the writes, as mongosh requires it: an update or a
+  // delete of everything is spelled `{}`, never a forgotten argument.
+  updateOne: { operation: "updateOne", arity: [2, 2] },
+  updateMany: { operation: "updateMany", arity: [2, 2] },
+  deleteOne: { operation: "deleteOne", arity: [1, 1] },
+  deleteMany: { operation: "deleteMany", arity: [1, 1] },
+  findOneAndUpdate: { operation: "findOneAndUpdate", arity: [2, 3] },
+  bulkWrite: { operation: "bulkWrite", arity: [1, 2] },
+  createIndex: { operation: "createIndex", arity: [1, 2] },
+  dropIndex: { operation: "dropIndex", arity: [1, 1] },
+  getIndexes: { operation: "listIndexes", arity: [0, 0] },
+  renameCollection: { operation: "renameCollection", arity: [1, 2] },
+};
+
+/** Methods called on `db` itself rather than on one of its collections. */
+const DATABASE_METHODS: Record<string, { operation: MongoShellOperation; arity: [min: number, max: number] }> = {
+  createCollection: { operation: "createCollection", arity: [1, 2] },
+};
+
+type OptionType = "string" | "boolean" | "number" | "document";
+
+/**
+ * The options argument each method takes, by key and the type of its value. A key
+ * outside the list is refused rather than dropped, for the reason readArguments
+ * gives. createCollection's `validator` is lifted to the envelope's top level,
+ * where the JSON spelling carries it.
+ */
+const METHOD_OPTIONS: Partial<Record<MongoShellOperation, Record<string, OptionType>>> = {
+  findOneAndUpdate: { upsert: "boolean", returnDocument: "string", sort: "document", projection: "document" },
+  bulkWrite: { ordered: "boolean" },
+  createIndex: {
+    name: "string",
+    unique: "boolean",
+    sparse: "boolean",
+    expireAfterSeconds: "number",
+    partialFilterExpression: "document",
+    hidden: "boolean",
+  },
+  createCollection: { validator: "document", validationLevel: "string", validationAction: "string" },
+};
+
+/**
+ * Methods that may follow a collection method. The cursor modifiers only follow a
+ * `find`; `toArray()` and `pretty()` change nothing about what runs and are
+ * accepted after anything that returns a cursor, so text pasted from a mongosh
+ * session runs as it is.
+ */
+const CURSOR_MODIFIERS: ReadonlySet<string> = new Set(["sort", "limit", "skip", "projection"]);
+const CURSOR_EXPLAIN = "explain";
+const CURSOR_NO_OPS: ReadonlySet<string> = new Set(["toArray", "pretty"]);
+const RETURNS_CURSOR: ReadonlySet<MongoShellOperation> = new Set(["find", "aggregate"]);
+
+const IDENTIFIER_START = /[A-Za-z_$]/;
+const IDENTIFIER_PART = /[\w$]/;
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/i;
+const DECIMAL_PATTERN = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?$|^[-+]?(?:Infinity|NaN)$/i;
+const REGEX_FLAGS = /^[dgimsuy]*$/;
+
+/**
+ * Whether `text` is meant as shell syntax rather than a JSON envelope. The
+ * envelope is a JSON object, so it opens with `{`; everything else is read as
+ * shell syntax, which gives text that is neither the clearer error.
+ */
+export function isMongoShellQuery(text: string): boolean {
+  return !text.trimStart().startsWith("{");
+}
+
+/**
+ * Reads one mongosh statement into the provider's envelope, or throws a
+ * `QueryError` whose `position` is the 1-based character it could not read.
+ */
+export function parseMongoShellQuery(text: string): MongoShellQuery {
+  return new ShellReader(text).readStatement();
+}
+
+/**
+ * `text` asking for its plan: `explain(verbosity)` is written in front of the
+ * collection method, so `db.users.find({...}).limit(5)` becomes
+ * `db.users.explain("executionStats").find({...}).limit(5)`. Splicing the text
+ * rather than re-serializing the envelope keeps what JSON cannot carry - an
+ * `ObjectId()`, a date, a regex - exactly as it was written.
+ *
+ * The caller checks the statement is explainable first; text that does not parse
+ * throws the parser's `QueryError`.
+ */
+export function explainMongoShellQuery(text: string, verbosity: MongoExplainVerbosity): string {
+  const reader = new ShellReader(text);
+  reader.readStatement();
+  return `${text.slice(0, reader.methodAt)}explain(${JSON.stringify(verbosity)}).${text.slice(reader.methodAt)}`;
+}
+
+/**
+ * The envelope `text` spells in either syntax, or null when it is neither. For
+ * the readers that judge a statement before the provider runs it - the grant
+ * check, the confirmation dialog, the explain strategy - and leave refusing it to
+ * the provider. The JSON spelling is not validated beyond its two required fields.
+ */
+export function readMongoQuery(text: string): MongoShellQuery | null {
+  try {
+    const parsed: unknown = isMongoShellQuery(text) ? parseMongoShellQuery(text) : JSON.parse(text);
+    if (!isDocument(parsed) || typeof parsed.collection !== "string" || typeof parsed.operation !== "string") {
+      return null;
+    }
+    return parsed as unknown as MongoShellQuery;
+  } catch {
+    return null;
+  }
+}
+
+/** Whether an aggregate pipeline writes its result out, with a `$out` or `$merge` stage. */
+export function pipelineWritesOut(pipeline: unknown): boolean {
+  return (
+    Array.isArray(pipeline) && pipeline.some((stage) => isDocument(stage) && ("$out" in stage || "$merge" in stage))
+  );
+}
+
+/** Whether `value` is one of the verbosities explain takes, for an envelope read as plain JSON. */
+export function isMongoExplainVerbosity(value: unknown): value is MongoExplainVerbosity {
+  return typeof value === "string" && EXPLAIN_VERBOSITIES.has(value);
+}
+
+/** A cursor over the statement text. Each `read*` consumes what it returns. */
+class ShellReader {
+  private index = 0;
+
+  /** Where the statement's method name starts, once readStatement has read it. */
+  methodAt = -1;
+
+  constructor(private readonly text: string) {}
+
+  readStatement(): MongoShellQuery {
+    this.skipSpace();
+    if (this.readIdentifier() !== "db") {
+      throw this.fail(
+        'Expected a shell statement such as db.users.find({}), or a JSON query with "collection" and "operation" fields',
+        0,
+      );
+    }
+    const { collection, method } = this.readTarget();
+    const query = collection === null ? this.readDatabaseMethod(method) : this.readCollectionMethod(collection, method);
+
+    this.skipSpace();
+    if (this.peek() === ";") this.index++;
+    this.skipSpace();
+    if (this.index < this.text.length) {
+      throw this.fail("Only one statement can run at a time; remove what follows it");
+    }
+    return query;
+  }
+
+  // --------------------------------------------------------------------------
+  // The statement: db.<collection>.<method>(...) or db.<method>(...)
+  // --------------------------------------------------------------------------
+
+  /**
+   * Reads from after `db` up to the opening parenthesis of the method. A dotted
+   * path names the collection up to its last segment, which is the method -
+   * `db.app.events.find` is collection `app.events`, as in the shell. A single
+   * segment followed by its argument list is a method of `db` itself, and comes
+   * back with a null collection.
+   */
+  private readTarget(): { collection: string | null; method: { name: string; at: number } } {
+    this.skipSpace();
+    let collection: string | undefined;
+
+    if (this.peek() === "[") {
+      this.index++;
+      collection = this.readCollectionName();
+      this.expect("]");
+    } else {
+      this.expect(".");
+      this.skipSpace();
+      const at = this.index;
+      const first = this.readIdentifier();
+      if (!first) throw this.fail("Expected a collection name after db.");
+      this.skipSpace();
+      if (first === "getCollection" && this.peek() === "(") {
+        this.index++;
+        collection = this.readCollectionName();
+        this.expect(")");
+      } else {
+        const segments = [{ name: first, at }];
+        for (;;) {
+          this.skipSpace();
+          if (this.peek() !== ".") break;
+          this.index++;
+          this.skipSpace();
+          const segmentAt = this.index;
+          const segment = this.readIdentifier();
+          if (!segment) throw this.fail("Expected a name after .");
+          segments.push({ name: segment, at: segmentAt });
+        }
+        if (segments.length < 2) {
+          if (this.peek() === "(") return { collection: null, method: segments[0] };
+          throw this.fail("Expected a method call such as .find() after the collection", at);
+        }
+        const method = segments.pop()!;
+        return { collection: segments.map((segment) => segment.name).join("."), method };
+      }
+    }
+
+    this.expect(".");
+    this.skipSpace();
+    const at = this.index;
+    const name = this.readIdentifier();
+    if (!name) throw this.fail("Expected a method call such as .find() after the collection");
+    return { collection, method: { name, at } };
+  }
+
+  private readDatabaseMethod(method: { name: string; at: number }): MongoShellQuery {
+    const spec = DATABASE_METHODS[method.name];
+    if (!spec) {
+      throw this.fail(
+        `Unsupported database method "${method.name}". Supported: ${Object.keys(DATABASE_METHODS).join(", ")}`,
+        method.at,
+      );
+    }
+    this.methodAt = method.at;
+    const args = this.readArguments(method.name, spec.arity);
+    return this.buildQuery("", spec.operation, args, method.at);
+  }
+
+  /**
+   * A collection method and its chain. `explain(verbosity)` in front of the method
+   * is the shell's explainable collection: the method after it is read as usual,
+   * cursor modifiers included, and the statement asks for its plan.
+   */
+  private readCollectionMethod(collection: string, target: { name: string; at: number }): MongoShellQuery {
+    let method = target;
+    let explain: MongoExplainVerbosity | undefined;
+    if (method.name === CURSOR_EXPLAIN) {
+      const [verbosity] = this.readArguments(CURSOR_EXPLAIN, [0, 1]);
+      explain = this.readVerbosity(verbosity, method.at);
+      this.expect(".");
+      this.skipSpace();
+      const at = this.index;
+      const name = this.readIdentifier();
+      if (!name) throw this.fail("Expected a method call such as .find() after explain()");
+      method = { name, at };
+    }
+
+    const spec = COLLECTION_METHODS[method.name];
+    if (!spec) {
+      throw this.fail(
+        `Unsupported collection method "${method.name}". Supported: ${Object.keys(COLLECTION_METHODS).join(", ")}`,
+        method.at,
+      );
+    }
+    if (explain && !MONGO_EXPLAINABLE_OPERATIONS.has(spec.operation)) {
+      throw this.fail(`explain() covers find(), aggregate(), count() and distinct(), not ${method.name}()`, method.at);
+    }
+    this.methodAt = method.at;
+    const args = this.readArguments(method.name, spec.arity);
+    const query = this.buildQuery(collection, spec.operation, args, method.at);
+    if (explain) query.explain = explain;
+
+    let explained = false;
+    for (let next = this.readChainedMethod(); next; next = this.readChainedMethod()) {
+      // The shell's `.explain()` returns the plan document, which has no cursor
+      // methods; reading on would only run the statement the text did not say.
+      if (explained) throw this.fail(`explain() returns the plan, so .${next.name}() cannot follow it`, next.at);
+      this.applyCursorMethod(query, next);
+      explained = next.name === CURSOR_EXPLAIN;
+    }
+    return query;
+  }
+
+  private readCollectionName(): string {
+    this.skipSpace();
+    const at = this.index;
+    const name = this.readValue();
+    if (typeof name !== "string" || name === "") throw this.fail("A collection name must be a non-empty string", at);
+    this.skipSpace();
+    return name;
+  }
+
+  private readArguments(method: string, [min, max]: [number, number]): unknown[] {
+    this.skipSpace();
+    const open = this.index;
+    this.expect("(");
+    const args: unknown[] = [];
+    this.skipSpace();
+    while (this.peek() !== ")") {
+      args.push(this.readValue());
+      this.skipSpace();
+      if (this.peek() === ",") {
+        this.index++;
+        this.skipSpace();
+      } else if (this.peek() !== ")") {
+        throw this.fail('Expected "," or ")" in the argument list');
+      }
+    }
+    this.index++;
+
+    if (args.length < min || args.length > max) {
+      const expected = min === max ? `${min}` : `${min} to ${max}`;
+      // Options objects (upsert, collation, hint, ...) have nowhere to go in the
+      // envelope unless METHOD_OPTIONS lists them, and dropping one silently would
+      // run a different statement.
+      throw this.fail(
+        `${method}() takes ${expected} argument${max === 1 ? "" : "s"} here, but was given ${args.length}` +
+          (args.length > max && !(method in METHOD_OPTIONS) ? "; an options argument is not supported" : ""),
+        open,
+      );
+    }
+    return args;
+  }
+
+  private buildQuery(collection: string, operation: MongoShellOperation, args: unknown[], at: number): MongoShellQuery {
+    const query: MongoShellQuery = { collection, operation };
+    const document = (value: unknown, role: string): ShellDocument => {
+      if (!isDocument(value)) throw this.fail(`The ${role} of ${operation}() must be a document`, at);
+      return value;
+    };
+    const documentList = (value: unknown, role: string): ShellDocument[] => {
+      if (!Array.isArray(value) || !value.every(isDocument)) {
+        throw this.fail(`The ${role} of ${operation}() must be an array of documents`, at);
+      }
+      return value;
+    };
+    const withOptions = (options: Record<string, unknown>): void => {
+      if (Object.keys(options).length > 0) query.options = options as MongoShellQuery["options"];
+    };
+
+    switch (operation) {
+      case "find":
+      case "findOne":
+        if (args[0] !== undefined) query.filter = document(args[0], "filter");
+        if (args[1] !== undefined) query.options = { projection: document(args[1], "projection") };
+        break;
+      case "aggregate":
+        query.pipeline = args[0] === undefined ? [] : documentList(args[0], "pipeline");
+        break;
+      case "count":
+      case "deleteOne":
+      case "deleteMany":
+        if (args[0] !== undefined) query.filter = document(args[0], "filter");
+        break;
+      case "distinct":
+        if (typeof args[0] !== "string" || args[0] === "") {
+          throw this.fail("The field of distinct() must be a non-empty string", at);
+        }
+        // The envelope names the distinct field as the one key of its projection.
+        query.options = { projection: { [args[0]]: 1 } };
+        if (args[1] !== undefined) query.filter = document(args[1], "filter");
+        break;
+      case "insertOne":
+        query.documents = [document(args[0], "document")];
+        break;
+      case "insertMany":
+        query.documents = documentList(args[0], "documents");
+        break;
+      case "updateOne":
+      case "updateMany":
+        query.filter = document(args[0], "filter");
+        query.update = document(args[1], "update");
+        break;
+      case "findOneAndUpdate":
+        query.filter = document(args[0], "filter");
+        query.update = document(args[1], "update");
+        withOptions(this.readOptions(operation, args[2], at));
+        break;
+      case "bulkWrite":
+        query.operations = documentList(args[0], "operations");
+        withOptions(this.readOptions(operation, args[1], at));
+        break;
+      case "createIndex":
+        query.keys = document(args[0], "keys");
+        withOptions(this.readOptions(operation, args[1], at));
+        break;
+      case "dropIndex":
+        if (typeof args[0] === "string" && args[0] !== "") query.index = args[0];
+        else if (isDocument(args[0])) query.index = args[0];
+        else throw this.fail("The index of dropIndex() must be its name or its key pattern", at);
+        break;
+      case "renameCollection":
+        if (typeof args[0] !== "string" || args[0] === "") {
+          throw this.fail("The new name of renameCollection() must be a non-empty string", at);
+        }
+        query.newName = args[0];
+        if (args[1] !== undefined) {
+          if (typeof args[1] !== "boolean")
+            throw this.fail("The dropTarget of renameCollection() must be true or false", at);
+          query.options = { dropTarget: args[1] };
+        }
+        break;
+      case "createCollection": {
+        if (typeof args[0] !== "string" || args[0] === "") {
+          throw this.fail("The name of createCollection() must be a non-empty string", at);
+        }
+        query.collection = args[0];
+        const { validator, ...options } = this.readOptions(operation, args[1], at);
+        if (validator !== undefined) query.validator = validator as ShellDocument;
+        withOptions(options);
+        break;
+      }
+      case "listIndexes":
+        break;
+    }
+    return query;
+  }
+
+  /** A method's options argument, refusing a key METHOD_OPTIONS does not list for it. */
+  private readOptions(operation: MongoShellOperation, value: unknown, at: number): Record<string, unknown> {
+    if (value === undefined) return {};
+    if (!isDocument(value)) throw this.fail(`The options of ${operation}() must be a document`, at);
+    const accepted = METHOD_OPTIONS[operation] ?? {};
+    for (const [key, option] of Object.entries(value)) {
+      const type = accepted[key];
+      if (!type) {
+        throw this.fail(
+          `${operation}() does not take the option "${key}" here. Supported: ${Object.keys(accepted).join(", ")}`,
+          at,
+        );
+      }
+      if (type === "document" ? !isDocument(option) : typeof option !== type) {
+        throw this.fail(`The ${key} option of ${operation}() must be a ${type}`, at);
+      }
+    }
+    return value;
+  }
+
+  private readVerbosity(value: unknown, at: number): MongoExplainVerbosity {
+    // mongosh's own default, and its boolean spellings.
+    if (value === undefined || value === false) return "queryPlanner";
+    if (value === true) return "allPlansExecution";
+    if (isMongoExplainVerbosity(value)) return value;
+    throw this.fail(`explain() takes one of ${[...EXPLAIN_VERBOSITIES].map((v) => `"${v}"`).join(", ")}`, at);
+  }
+
+  // --------------------------------------------------------------------------
+  // Chained cursor methods
+  // --------------------------------------------------------------------------
+
+  private readChainedMethod(): { name: string; at: number; argument: unknown } | null {
+    this.skipSpace();
+    if (this.peek() !== ".") return null;
+    this.index++;
+    this.skipSpace();
+    const at = this.index;
+    const name = this.readIdentifier();
+    if (!name) throw this.fail("Expected a method name after .");
+    // An unknown method reads any arguments, so it is refused by name below rather
+    // than by how many it was given.
+    const arity: [number, number] = CURSOR_NO_OPS.has(name)
+      ? [0, 0]
+      : CURSOR_MODIFIERS.has(name)
+        ? [1, 1]
+        : name === CURSOR_EXPLAIN
+          ? [0, 1]
+          : [0, Number.POSITIVE_INFINITY];
+    const args = this.readArguments(name, arity);
+    return { name, at, argument: args[0] };
+  }
+
+  private applyCursorMethod(query: MongoShellQuery, method: { name: string; at: number; argument: unknown }): void {
+    if (CURSOR_NO_OPS.has(method.name) && RETURNS_CURSOR.has(query.operation)) return;
+    if (method.name === CURSOR_EXPLAIN && RETURNS_CURSOR.has(query.operation)) {
+      if (query.explain) throw this.fail("explain() is already asked for in front of the method", method.at);
+      query.explain = this.readVerbosity(method.argument, method.at);
+      return;
+    }
+    if (!CURSOR_MODIFIERS.has(method.name) || query.operation !== "find") {
+      const allowed =
+        query.operation === "find"
+          ? [...CURSOR_MODIFIERS, ...CURSOR_NO_OPS, CURSOR_EXPLAIN]
+          : [...CURSOR_NO_OPS, CURSOR_EXPLAIN];
+      throw this.fail(
+        RETURNS_CURSOR.has(query.operation)
+          ? `Unsupported method .${method.name}() after ${query.operation}(). Supported: ${allowed.join(", ")}`
+          : `${query.operation}() does not return a cursor, so .${method.name}() cannot follow it`,
+        method.at,
+      );
+    }
+
+    const options = (query.options ??= {});
+    const value = method.argument;
+    switch (method.name) {
+      case "sort":
+      case "projection":
+        if (!isDocument(value)) throw this.fail(`.${method.name}() takes a document`, method.at);
+        options[method.name] = value;
+        break;
+      case "limit":
+      case "skip":
+        if (typeof value !== "number" || !Number.isSafeInteger(value) || value < 0) {
+          throw this.fail(`.${method.name}() takes a whole number of documents`, method.at);
+        }
+        options[method.name] = value;
+        break;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Literals
+  // --------------------------------------------------------------------------
+
+  private readValue(): unknown {
+    this.skipSpace();
+    const char = this.peek();
+    if (char === "{") return this.readObject();
+    if (char === "[") return this.readArray();
+    if (char === '"' || char === "'") return this.readString();
+    if (char === "/") return this.readRegex();
+    if (char === "-" || char === "+" || char === "." || /\d/.test(char)) return this.readNumber();
+
+    const at = this.index;
+    const word = this.readIdentifier();
+    switch (word) {
+      case "true":
+        return true;
+      case "false":
+        return false;
+      case "null":
+        return null;
+      case "":
+        throw this.fail(char === "" ? "Unexpected end of the statement" : `Unexpected "${char}"`);
+      case "new": {
+        this.skipSpace();
+        const nameAt = this.index;
+        const name = this.readIdentifier();
+        if (!name) throw this.fail("Expected a constructor after new");
+        return this.readConstructor(name, nameAt, true);
+      }
+      default:
+        return this.readConstructor(word, at, false);
+    }
+  }
+
+  private readObject(): ShellDocument {
+    this.expect("{");
+    // Built on a null prototype: a `__proto__` key written in the text is then an
+    // ordinary field, as it is in a BSON document, and never the object's prototype.
+    const object: ShellDocument = Object.create(null);
+    this.skipSpace();
+    while (this.peek() !== "}") {
+      const at = this.index;
+      const char = this.peek();
+      let key: string;
+      if (char === '"' || char === "'") key = this.readString();
+      else if (/\d/.test(char)) key = String(this.readNumber());
+      else key = this.readIdentifier();
+      if (!key && char !== '"' && char !== "'") throw this.fail("Expected a field name", at);
+      this.skipSpace();
+      this.expect(":");
+      object[key] = this.readValue();
+      this.skipSpace();
+      if (this.peek() === ",") {
+        this.index++;
+        this.skipSpace();
+      } else if (this.peek() !== "}") {
+        throw this.fail('Expected "," or "}" in the document');
+      }
+    }
+    this.index++;
+    return { ...object };
+  }
+
+  private readArray(): unknown[] {
+    this.expect("[");
+    const array: unknown[] = [];
+    this.skipSpace();
+    while (this.peek() !== "]") {
+      array.push(this.readValue());
+      this.skipSpace();
+      if (this.peek() === ",") {
+        this.index++;
+        this.skipSpace();
+      } else if (this.peek() !== "]") {
+        throw this.fail('Expected "," or "]" in the array');
+      }
+    }
+    this.index++;
+    return array;
+  }
+
+  private readString(): string {
+    const quote = this.text[this.index];
+    const start = this.index++;
+    let value = "";
+    for (;;) {
+      const char = this.text[this.index++];
+      if (char === undefined || char === "\n") throw this.fail("Unterminated string", start);
+      if (char === quote) return value;
+      if (char !== "\\") {
+        value += char;
+        continue;
+      }
+      const escaped = this.text[this.index++];
+      switch (escaped) {
+        case "n":
+          value += "\n";
+          break;
+        case "t":
+          value += "\t";
+          break;
+        case "r":
+          value += "\r";
+          break;
+        case "b":
+          value += "\b";
+          break;
+        case "f":
+          value += "\f";
+          break;
+        case "0":
+          value += "\0";
+          break;
+        case "u": {
+          const hex = this.text.slice(this.index, this.index + 4);
+          if (!/^[0-9a-f]{4}$/i.test(hex)) throw this.fail("Invalid \\u escape", this.index - 2);
+          value += String.fromCharCode(parseInt(hex, 16));
+          this.index += 4;
+          break;
+        }
+        case undefined:
+          throw this.fail("Unterminated string", start);
+        default:
+          value += escaped;
+      }
+    }
+  }
+
+  private readNumber(): number {
+    const at = this.index;
+    const match = /^[-+]?(?:0x[0-9a-f]+|(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?|Infinity)/i.exec(this.text.slice(at));
+    if (!match) throw this.fail("Expected a number", at);
+    this.index += match[0].length;
+    const sign = match[0].startsWith("-") ? -1 : 1;
+    const digits = match[0].replace(/^[-+]/, "");
+    return sign * (/^0x/i.test(digits) ? parseInt(digits.slice(2), 16) : Number(digits));
+  }
+
+  private readRegex(): RegExp {
+    const start = this.index++;
+    let source = "";
+    let inClass = false;
+    for (;;) {
+      const char = this.text[this.index++];
+      if (char === undefined || char === "\n") throw this.fail("Unterminated regular expression", start);
+      if (char === "\\") {
+        source += char + (this.text[this.index++] ?? "");
+        continue;
+      }
+      if (char === "[") inClass = true;
+      else if (char === "]") inClass = false;
+      else if (char === "/" && !inClass) break;
+      source += char;
+    }
+    const flags = this.readIdentifier();
+    if (!REGEX_FLAGS.test(flags)) throw this.fail(`Invalid regular expression flags "${flags}"`, start);
+    try {
+      return new RegExp(source, flags);
+    } catch (error) {
+      throw this.fail(`Invalid regular expression: ${error instanceof Error ? error.message : error}`, start);
+    }
+  }
+
+  /**
+   * The shell's BSON constructors. `Date` needs `new`, because `Date()` in the shell
+   * is JavaScript's and returns a string - a filter comparing against that string
+   * would quietly match nothing.
+   */
+  private readConstructor(name: string, at: number, withNew: boolean): unknown {
+    const args = this.readConstructorArguments(name, at);
+    const [arg] = args;
+
+    switch (name) {
+      case "ObjectId":
+        if (arg === undefined) return new MongoShellLiteral("ObjectId", undefined);
+        if (typeof arg !== "string" || !OBJECT_ID_PATTERN.test(arg)) {
+          throw this.fail("ObjectId() takes a 24-character hex string", at);
+        }
+        return new MongoShellLiteral("ObjectId", arg.toLowerCase());
+      case "Date":
+        if (!withNew) throw this.fail("Date() returns a string in the shell; write new Date() or ISODate()", at);
+        return this.toDate(arg, at);
+      case "ISODate":
+        return this.toDate(arg, at);
+      case "NumberInt":
+      case "NumberLong": {
+        // Without the driver's Long a NumberLong is a JavaScript number, so one past
+        // 2^53 is refused here rather than rounded to a neighbouring value.
+        const value = typeof arg === "string" && arg.trim() !== "" ? Number(arg) : arg;
+        const fits =
+          typeof value === "number" &&
+          Number.isSafeInteger(value) &&
+          (name === "NumberLong" || (value >= -(2 ** 31) && value < 2 ** 31));
+        if (!fits) {
+          throw this.fail(
+            name === "NumberInt"
+              ? "NumberInt() takes a 32-bit whole number"
+              : "NumberLong() takes a whole number no larger than 2^53 - 1",
+            at,
+          );
+        }
+        return value;
+      }
+      case "NumberDecimal":
+      case "Decimal128":
+        if ((typeof arg !== "string" && typeof arg !== "number") || !DECIMAL_PATTERN.test(String(arg))) {
+          throw this.fail(`${name}() takes a decimal number, preferably as a string`, at);
+        }
+        return new MongoShellLiteral("Decimal128", String(arg));
+      default:
+        throw this.fail(
+          `Unsupported value "${name}". Values are literals or ObjectId(), ISODate(), new Date(), NumberInt(), NumberLong() and NumberDecimal()`,
+          at,
+        );
+    }
+  }
+
+  private readConstructorArguments(name: string, at: number): unknown[] {
+    this.skipSpace();
+    if (this.peek() !== "(") {
+      throw this.fail(
+        name === "undefined"
+          ? "undefined is not a BSON value; use null"
+          : `Unsupported value "${name}". Only literals are read here, not variables`,
+        at,
+      );
+    }
+    return this.readArguments(name, [0, 1]);
+  }
+
+  private toDate(arg: unknown, at: number): Date {
+    if (arg === undefined) return new Date();
+    const date = typeof arg === "string" || typeof arg === "number" ? new Date(arg) : new Date(Number.NaN);
+    if (Number.isNaN(date.getTime())) throw this.fail("Expected a date as an ISO-8601 string or milliseconds", at);
+    return date;
+  }
+
+  // --------------------------------------------------------------------------
+  // Characters
+  // --------------------------------------------------------------------------
+
+  private peek(): string {
+    return this.text[this.index] ?? "";
+  }
+
+  private expect(char: string): void {
+    this.skipSpace();
+    if (this.peek() !== char) {
+      throw this.fail(this.peek() === "" ? `Expected "${char}" before the end` : `Expected "${char}"`);
+    }
+    this.index++;
+  }
+
+  private readIdentifier(): string {
+    if (!IDENTIFIER_START.test(this.peek())) return "";
+    const start = this.index;
+    while (IDENTIFIER_PART.test(this.peek())) this.index++;
+    return this.text.slice(start, this.index);
+  }
+
+  /** Skips whitespace and `//` and `/* *\/` comments. */
+  private skipSpace(): void {
+    for (;;) {
+      while (/\s/.test(this.peek())) this.index++;
+      if (this.text.startsWith("//", this.index)) {
+        const end = this.text.indexOf("\n", this.index);
+        this.index = end === -1 ? this.text.length : end;
+      } else if (this.text.startsWith("/*", this.index)) {
+        const end = this.text.indexOf("*/", this.index + 2);
+        if (end === -1) throw this.fail("Unterminated comment");
+        this.index = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private fail(message: string, at = this.index): QueryError {
+    return new QueryError(message, "mongodb", this.text, at + 1);
+  }
+}
+
+function isDocument(value: unknown): value is ShellDocument {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof RegExp) &&
+    !(value instanceof MongoShellLiteral)
+  );
+}
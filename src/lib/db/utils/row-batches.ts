@@ -0,0 +1,40 @@
+import type { QueryBatch } from "../types";
+
+/**
+ * Whether `batchSize` is one a streamed read can fetch by. Every `queryStream`
+ * refuses anything else before it opens a connection: PostgreSQL's writes it into
+ * a `FETCH`, and a batch of zero rows would never end.
+ */
+export function isStreamBatchSize(batchSize: number): boolean {
+  return Number.isSafeInteger(batchSize) && batchSize > 0;
+}
+
+/**
+ * A driver's row stream, gathered `batchSize` rows at a time into the batches
+ * `DatabaseProvider.queryStream` yields.
+ *
+ * `rows` is pulled one row at a time, so a driver stream with backpressure (a Node
+ * `Readable` in object mode, which is what mysql2 and mssql hand back) is only read
+ * as fast as the batches are taken. `fields` is asked for when a batch is yielded:
+ * the drivers announce their columns in an event before the first row, so by then
+ * it has them. The first batch is yielded even when the result is empty, as the
+ * interface promises, so a consumer always learns the columns.
+ */
+export async function* batchRows(
+  rows: AsyncIterable<unknown>,
+  batchSize: number,
+  fields: () => string[],
+  toRow: (row: unknown) => Record<string, unknown> = (row) => row as Record<string, unknown>,
+): AsyncGenerator<QueryBatch> {
+  let batch: Record<string, unknown>[] = [];
+  let yielded = false;
+  for await (const row of rows) {
+    batch.push(toRow(row));
+    if (batch.length === batchSize) {
+      yield { rows: batch, fields: fields() };
+      yielded = true;
+      batch = [];
+    }
+  }
+  if (batch.length > 0 || !yielded) yield { rows: batch, fields: fields() };
+}
@@ -0,0 +1,274 @@
+/**
+ * CQL Completion Provider for Monaco Editor
+ *
+ * Pure utility module (no React) that registers CQL keyword, function, snippet,
+ * and schema-aware table/column completions for a Cassandra connection.
+ *
+ * CQL is edited in the `sql` language - it highlights the same way - so this
+ * provider replaces the SQL one for a connection whose capabilities declare
+ * `queryDialect: "cql"`, rather than registering a language of its own. The SQL
+ * list would offer JOIN, GROUP BY ... HAVING, OFFSET and window functions, none of
+ * which Cassandra runs, and none of the partition-key forms it does.
+ *
+ * There are no joins and no table aliases in CQL, so a dot only ever follows a
+ * keyspace: `events.` offers that keyspace's tables, not a table's columns.
+ */
+
+import type * as Monaco from "monaco-editor";
+import type { PrecomputedItem, SchemaCompletionCache } from "./sql-completions";
+
+// ---------------------------------------------------------------------------
+// Static constants
+// ---------------------------------------------------------------------------
+
+export const CQL_KEYWORDS = [
+  "SELECT",
+  "FROM",
+  "WHERE",
+  "AND",
+  "IN",
+  "CONTAINS",
+  "CONTAINS KEY",
+  "DISTINCT",
+  "AS",
+  "ORDER BY",
+  "ASC",
+  "DESC",
+  "LIMIT",
+  "PER PARTITION LIMIT",
+  "ALLOW FILTERING",
+  "JSON",
+  "INSERT INTO",
+  "VALUES",
+  "IF NOT EXISTS",
+  "IF EXISTS",
+  "USING TTL",
+  "USING TIMESTAMP",
+  "UPDATE",
+  "SET",
+  "DELETE",
+  "BEGIN BATCH",
+  "BEGIN UNLOGGED BATCH",
+  "APPLY BATCH",
+  "CREATE TABLE",
+  "CREATE KEYSPACE",
+  "CREATE INDEX",
+  "CREATE MATERIALIZED VIEW",
+  "CREATE TYPE",
+  "ALTER TABLE",
+  "ALTER KEYSPACE",
+  "ALTER TYPE",
+  "DROP TABLE",
+  "DROP KEYSPACE",
+  "DROP INDEX",
+  "DROP MATERIALIZED VIEW",
+  "DROP TYPE",
+  "ADD",
+  "RENAME",
+  "WITH",
+  "PRIMARY KEY",
+  "CLUSTERING ORDER BY",
+  "REPLICATION",
+  "DURABLE_WRITES",
+  "TRUNCATE",
+  "GRANT",
+  "REVOKE",
+  "TOKEN",
+  "NULL",
+];
+
+export const CQL_FUNCTIONS = [
+  "token",
+  "now",
+  "uuid",
+  "toTimestamp",
+  "toDate",
+  "toUnixTimestamp",
+  "currentTimestamp",
+  "currentDate",
+  "currentTimeUUID",
+  "minTimeuuid",
+  "maxTimeuuid",
+  "writetime",
+  "ttl",
+  "count",
+  "min",
+  "max",
+  "sum",
+  "avg",
+  "blobAsText",
+  "textAsBlob",
+  "toJson",
+  "fromJson",
+  "cast",
+];
+
+export const CQL_SNIPPETS = [
+  { label: "SELECT", value: "SELECT * FROM ${1:table_name} LIMIT 10;" },
+  {
+    label: "SELECT BY PARTITION",
+    value: "SELECT ${1:*}\nFROM ${2:table_name}\nWHERE ${3:partition_key} = ${4:value}\nLIMIT ${5:100};",
+  },
+  {
+    label: "INSERT",
+    value: "INSERT INTO ${1:table_name} (${2:columns})\nVALUES (${3:values})\nUSING TTL ${4:86400};",
+  },
+  {
+    label: "CREATE TABLE",
+    value:
+      "CREATE TABLE ${1:table_name} (\n  ${2:partition_key} ${3:text},\n  ${4:clustering_key} ${5:timestamp},\n  ${6:value} ${7:text},\n  PRIMARY KEY ((${2:partition_key}), ${4:clustering_key})\n) WITH CLUSTERING ORDER BY (${4:clustering_key} DESC);",
+  },
+  {
+    label: "CREATE KEYSPACE",
+    value:
+      "CREATE KEYSPACE IF NOT EXISTS ${1:keyspace_name}\nWITH replication = {'class': '${2:NetworkTopologyStrategy}', '${3:datacenter1}': ${4:3}};",
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Pre-computed completion items
+// ---------------------------------------------------------------------------
+
+export const CQL_KEYWORD_ITEMS: PrecomputedItem[] = CQL_KEYWORDS.map((kw) => ({
+  label: kw,
+  labelLower: kw.toLowerCase(),
+  kind: 17, // CompletionItemKind.Keyword
+  insertText: kw,
+  detail: "CQL Keyword",
+}));
+
+export const CQL_FUNCTION_ITEMS: PrecomputedItem[] = CQL_FUNCTIONS.map((f) => ({
+  label: f,
+  labelLower: f.toLowerCase(),
+  kind: 1, // CompletionItemKind.Function
+  insertText: f + "($1)",
+  insertTextRules: 4, // InsertAsSnippet
+  detail: "CQL Function",
+}));
+
+export const CQL_SNIPPET_ITEMS: PrecomputedItem[] = CQL_SNIPPETS.map((s) => ({
+  label: s.label,
+  labelLower: s.label.toLowerCase(),
+  kind: 27, // CompletionItemKind.Snippet
+  insertText: s.value,
+  insertTextRules: 4, // InsertAsSnippet
+  detail: "CQL Snippet",
+}));
+
+// ---------------------------------------------------------------------------
+// Registration function
+// ---------------------------------------------------------------------------
+
+/**
+ * Registers the CQL completion item provider with Monaco.
+ *
+ * @param monaco  - The Monaco namespace (from `useMonaco()` or `beforeMount`)
+ * @param schemaCompletionCache - Pre-computed schema data for table/column completions
+ * @returns An `IDisposable` that should be called on cleanup.
+ */
+export function registerCQLCompletionProvider(
+  monaco: typeof Monaco,
+  schemaCompletionCache: SchemaCompletionCache,
+): Monaco.IDisposable {
+  return monaco.languages.registerCompletionItemProvider("sql", {
+    triggerCharacters: [".", " "],
+    provideCompletionItems: (model: Monaco.editor.ITextModel, position: Monaco.Position) => {
+      const word = model.getWordUntilPosition(position);
+      const range = {
+        startLineNumber: position.lineNumber,
+        endLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endColumn: word.endColumn,
+      };
+
+      const line = model.getLineContent(position.lineNumber);
+      const lastChar = line[position.column - 2];
+      const prefix = word.word.toLowerCase();
+
+      const suggestions: Monaco.languages.CompletionItem[] = [];
+
+      // Dot-triggered: the tables of the keyspace before the dot. Outside a keyspace
+      // the schema names every table `keyspace.table`, so the keyspace is a prefix.
+      if (lastChar === ".") {
+        const matches = line.substring(0, position.column - 1).match(/(\w+)\.$/);
+        if (matches) {
+          const keyspacePrefix = `${matches[1].toLowerCase()}.`;
+          schemaCompletionCache.tableItems.forEach((table) => {
+            if (!table.labelLower.startsWith(keyspacePrefix)) return;
+            const tableName = table.label.slice(keyspacePrefix.length);
+            suggestions.push({
+              label: tableName,
+              kind: monaco.languages.CompletionItemKind.Class,
+              insertText: tableName,
+              range,
+              detail: `Table (${table.rowCount} rows)`,
+              documentation: table.columnNames,
+            });
+          });
+        }
+        return { suggestions };
+      }
+
+      const shouldFilter = prefix.length >= 2;
+
+      // CQL has no HAVING, GROUP BY is partition-key only and ON does not exist, so the
+      // column context is narrower than SQL's: projections, restrictions, assignments.
+      const textBeforeCursor = line.substring(0, position.column - 1);
+      const isColumnContext = /\b(SELECT|WHERE|AND|SET|ORDER\s+BY|,|\()\s*\w*$/i.test(textBeforeCursor);
+
+      const pushPrecomputed = (
+        items: PrecomputedItem[],
+        kind: Monaco.languages.CompletionItemKind,
+        sortPrefix: string,
+        asSnippet: boolean,
+      ) => {
+        items.forEach((item) => {
+          if (shouldFilter && !item.labelLower.startsWith(prefix)) return;
+          suggestions.push({
+            label: item.label,
+            kind,
+            insertText: item.insertText,
+            ...(asSnippet && { insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet }),
+            range,
+            detail: item.detail,
+            sortText: sortPrefix + item.label,
+          });
+        });
+      };
+
+      pushPrecomputed(CQL_KEYWORD_ITEMS, monaco.languages.CompletionItemKind.Keyword, "0", false);
+      pushPrecomputed(CQL_FUNCTION_ITEMS, monaco.languages.CompletionItemKind.Function, "1", true);
+
+      schemaCompletionCache.tableItems.forEach((table) => {
+        if (shouldFilter && !table.labelLower.startsWith(prefix)) return;
+        suggestions.push({
+          label: table.label,
+          kind: monaco.languages.CompletionItemKind.Class,
+          insertText: table.label,
+          range,
+          detail: `Table (${table.rowCount} rows)`,
+          documentation: table.columnNames,
+          sortText: "2" + table.label,
+        });
+      });
+
+      pushPrecomputed(CQL_SNIPPET_ITEMS, monaco.languages.CompletionItemKind.Snippet, "3", true);
+
+      if (isColumnContext) {
+        schemaCompletionCache.allColumns.forEach((col, colName) => {
+          if (shouldFilter && !col.labelLower.startsWith(prefix)) return;
+          suggestions.push({
+            label: colName,
+            kind: monaco.languages.CompletionItemKind.Field,
+            insertText: colName,
+            range,
+            detail: `Column (${col.type}${col.isPrimary ? ", key" : ""})`,
+            sortText: "4" + colName,
+          });
+        });
+      }
+
+      return { suggestions };
+    },
+  });
+}
@@ -2,7 +2,10 @@
  * MongoDB / JSON Completion Provider for Monaco Editor
  *
  * Pure utility module (no React) that registers MQL operator, operation,
- * collection, field, and snippet completions for the JSON language.
+ * collection, field, and snippet completions for the JSON language, and for the
+ * mongosh method-chain syntax the provider also accepts (`db.users.find({...})`):
+ * collections after `db.`, collection methods after `db.<collection>.`, cursor
+ * methods after `).`, unquoted field names and the shell's BSON constructors.
  */
 
 import type * as Monaco from "monaco-editor";
@@ -76,8 +79,78 @@ const MONGO_OPERATIONS = [
   "updateMany",
   "deleteOne",
   "deleteMany",
+  "findOneAndUpdate",
+  "bulkWrite",
+  "createIndex",
+  "dropIndex",
+  "listIndexes",
+  "createCollection",
+  "renameCollection",
 ];
 
+/**
+ * Shell collection methods the provider reads, as snippets that open the argument
+ * list. The writes take their filter as a required first argument, as in mongosh.
+ */
+const SHELL_COLLECTION_METHODS: { label: string; template: string; detail: string }[] = [
+  { label: "find", template: "find({$1})", detail: "Find documents" },
+  { label: "findOne", template: "findOne({$1})", detail: "Find single document" },
+  { label: "aggregate", template: "aggregate([$1])", detail: "Aggregation pipeline" },
+  { label: "countDocuments", template: "countDocuments({$1})", detail: "Count documents" },
+  { label: "distinct", template: 'distinct("${1:field}", {$2})', detail: "Distinct values of a field" },
+  { label: "insertOne", template: "insertOne({$1})", detail: "Insert one document" },
+  { label: "insertMany", template: "insertMany([{$1}])", detail: "Insert documents" },
+  { label: "updateOne", template: "updateOne({$1}, { \\$set: {$2} })", detail: "Update one document" },
+  { label: "updateMany", template: "updateMany({$1}, { \\$set: {$2} })", detail: "Update matching documents" },
+  { label: "deleteOne", template: "deleteOne({$1})", detail: "Delete one document" },
+  { label: "deleteMany", template: "deleteMany({$1})", detail: "Delete matching documents" },
+  {
+    label: "findOneAndUpdate",
+    template: 'findOneAndUpdate({$1}, { \\$set: {$2} }, { returnDocument: "after" })',
+    detail: "Update one document and return it",
+  },
+  { label: "bulkWrite", template: "bulkWrite([{ insertOne: { document: {$1} } }])", detail: "Several writes at once" },
+  { label: "createIndex", template: "createIndex({ ${1:field}: 1 })", detail: "Create an index" },
+  { label: "dropIndex", template: 'dropIndex("${1:name}")', detail: "Drop an index" },
+  { label: "getIndexes", template: "getIndexes()", detail: "List the collection's indexes" },
+  { label: "renameCollection", template: 'renameCollection("${1:newName}")', detail: "Rename the collection" },
+  { label: "explain", template: 'explain("${1:executionStats}").', detail: "Plan of the read that follows" },
+];
+
+/** The collection methods `explain()` may precede. */
+const SHELL_EXPLAINABLE: ReadonlySet<string> = new Set(["find", "aggregate", "countDocuments", "distinct"]);
+
+/** Methods called on `db` itself. */
+const SHELL_DATABASE_METHODS: { label: string; template: string; detail: string }[] = [
+  {
+    label: "createCollection",
+    template: 'createCollection("${1:name}", { validator: { \\$jsonSchema: {$2} } })',
+    detail: "Create a collection with a validator",
+  },
+];
+
+/** Methods that may follow `find(...)`. */
+const SHELL_CURSOR_METHODS: { label: string; template: string; detail: string }[] = [
+  { label: "sort", template: "sort({ ${1:field}: ${2:-1} })", detail: "Sort order" },
+  { label: "limit", template: "limit(${1:10})", detail: "Maximum documents" },
+  { label: "skip", template: "skip(${1:0})", detail: "Documents to skip" },
+  { label: "projection", template: "projection({ ${1:field}: 1 })", detail: "Fields to return" },
+  { label: "toArray", template: "toArray()", detail: "All documents (the default)" },
+  { label: "explain", template: 'explain("${1:executionStats}")', detail: "The query plan instead of documents" },
+];
+
+/** The shell's BSON constructors the provider reads in a value position. */
+const SHELL_CONSTRUCTORS: { label: string; template: string; detail: string }[] = [
+  { label: "ObjectId", template: 'ObjectId("${1}")', detail: "ObjectId from 24 hex characters" },
+  { label: "ISODate", template: 'ISODate("${1:2024-01-01T00:00:00Z}")', detail: "Date from an ISO-8601 string" },
+  { label: "NumberInt", template: "NumberInt(${1})", detail: "32-bit integer" },
+  { label: "NumberLong", template: 'NumberLong("${1}")', detail: "64-bit integer" },
+  { label: "NumberDecimal", template: 'NumberDecimal("${1}")', detail: "128-bit decimal" },
+];
+
+/** Editor text written in shell syntax opens with `db`; the JSON envelope opens with `{`. */
+const SHELL_TEXT = /^db\b/;
+
 const MONGO_SNIPPETS: { label: string; template: string; detail: string }[] = [
   {
     label: "find",
@@ -147,6 +220,16 @@ const MONGO_SNIPPETS: { label: string; template: string; detail: string }[] = [
     ),
     detail: "Delete matching documents",
   },
+  {
+    label: "db.find",
+    template: "db.${1:collection}.find({$2}).limit(${3:50})",
+    detail: "Find documents (shell syntax)",
+  },
+  {
+    label: "db.aggregate",
+    template: "db.${1:collection}.aggregate([\n  { \\$match: {$2} },\n])",
+    detail: "Aggregation pipeline (shell syntax)",
+  },
 ];
 
 // ---------------------------------------------------------------------------
@@ -165,7 +248,7 @@ export function registerMongoDBCompletionProvider(
   schemaCompletionCache: SchemaCompletionCache,
 ): Monaco.IDisposable {
   return monaco.languages.registerCompletionItemProvider("json", {
-    triggerCharacters: ['"', "$", ":"],
+    triggerCharacters: ['"', "$", ":", "."],
     provideCompletionItems: (model: Monaco.editor.ITextModel, position: Monaco.Position) => {
       const word = model.getWordUntilPosition(position);
       const range = {
@@ -235,8 +318,12 @@ export function registerMongoDBCompletionProvider(
         });
       }
 
-      // Full template snippets -- when editor is mostly empty or at line start
       const fullText = model.getValue().trim();
+      if (SHELL_TEXT.test(fullText)) {
+        suggestions.push(...shellSuggestions(monaco, schemaCompletionCache, textBefore, range));
+      }
+
+      // Full template snippets -- when editor is mostly empty or at line start
       if (fullText.length < 5 || /^\s*$/.test(textBefore)) {
         MONGO_SNIPPETS.forEach((snippet) => {
           suggestions.push({
@@ -255,3 +342,90 @@ export function registerMongoDBCompletionProvider(
     },
   });
 }
+
+/**
+ * Suggestions for shell syntax, by where the cursor is in the method chain. Each
+ * position is read from the line before the cursor, like the JSON rules above, so
+ * a chain split across lines is still completed one line at a time.
+ */
+function shellSuggestions(
+  monaco: typeof Monaco,
+  schemaCompletionCache: SchemaCompletionCache,
+  textBefore: string,
+  range: Monaco.IRange,
+): Monaco.languages.CompletionItem[] {
+  const snippet = (
+    items: { label: string; template: string; detail: string }[],
+    kind: Monaco.languages.CompletionItemKind,
+  ): Monaco.languages.CompletionItem[] =>
+    items.map((item) => ({
+      label: item.label,
+      kind,
+      insertText: item.template,
+      insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+      range,
+      detail: item.detail,
+      sortText: "0" + item.label,
+    }));
+
+  // db.| -- collection names, then the one database method
+  if (/\bdb\.[\w$]*$/.test(textBefore)) {
+    const collections = schemaCompletionCache.tableItems.map((table) => ({
+      label: table.label,
+      kind: monaco.languages.CompletionItemKind.Class,
+      insertText: table.label,
+      range,
+      detail: `Collection (${table.rowCount} docs)`,
+      sortText: "0" + table.label,
+    }));
+    return [
+      ...collections,
+      ...snippet(SHELL_DATABASE_METHODS, monaco.languages.CompletionItemKind.Method).map((item) => ({
+        ...item,
+        sortText: "1" + item.label,
+      })),
+    ];
+  }
+
+  // db.users.explain().| -- the reads explain() covers
+  if (/\.explain\([^)]*\)\s*\.[\w$]*$/.test(textBefore)) {
+    return snippet(
+      SHELL_COLLECTION_METHODS.filter((method) => SHELL_EXPLAINABLE.has(method.label)),
+      monaco.languages.CompletionItemKind.Method,
+    );
+  }
+
+  // db.users.| -- collection methods
+  if (/\bdb\.[\w$.]+\.[\w$]*$/.test(textBefore)) {
+    return snippet(SHELL_COLLECTION_METHODS, monaco.languages.CompletionItemKind.Method);
+  }
+
+  // find(...).| -- cursor methods, on the same line or at the start of the next
+  if (/(?:\)|^)\s*\.[\w$]*$/.test(textBefore)) {
+    return snippet(SHELL_CURSOR_METHODS, monaco.languages.CompletionItemKind.Method);
+  }
+
+  const suggestions: Monaco.languages.CompletionItem[] = [];
+
+  // { | or , | -- an unquoted field name
+  if (/[{,]\s*[\w.]*$/.test(textBefore)) {
+    schemaCompletionCache.allColumns.forEach((col, colName) => {
+      suggestions.push({
+        label: colName,
+        kind: monaco.languages.CompletionItemKind.Field,
+        // A dotted path is not an identifier, so it is quoted as the shell requires.
+        insertText: /^[A-Za-z_$][\w$]*$/.test(colName) ? colName : JSON.stringify(colName),
+        range,
+        detail: `Field (${col.type})`,
+        sortText: "2" + colName,
+      });
+    });
+  }
+
+  // : | -- a BSON constructor as the value
+  if (/:\s*[\w$]*$/.test(textBefore)) {
+    suggestions.push(...snippet(SHELL_CONSTRUCTORS, monaco.languages.CompletionItemKind.Function));
+  }
+
+  return suggestions;
+}
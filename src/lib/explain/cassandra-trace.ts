@@ -0,0 +1,130 @@
+// db/utils, not the Cassandra provider directory: an explain strategy that imported
+// from a provider would tie the registry to it (the rule clickhouse-json.ts records).
+import { CQL_TRACE_DIRECTIVE } from "@/lib/db/utils/cql-directives";
+import { resolveSqlGrammar } from "@/lib/sql/grammar";
+import { classifySelectPrefix } from "./select-prefix";
+import type { ExplainStrategy, ExplainTreeNode } from "./types";
+
+/**
+ * This strategy's dialect, resolved once. Reached only through
+ * `explainFormat: "cassandra-trace"`, which only the Cassandra provider declares.
+ * CQL has `//` line comments, so a flat SQL reading could miss one.
+ */
+const CASSANDRA_GRAMMAR = resolveSqlGrammar("cassandra");
+
+/** The column of the one row a traced run returns that holds the session, as JSON text. */
+const TRACE_COLUMN = "trace";
+
+/**
+ * One traced request, as the provider writes it from the driver's `QueryTrace`:
+ * the coordinator's view of the request, and every event any replica recorded
+ * for it. Durations are MICROseconds, as Cassandra records them.
+ */
+interface TraceSession {
+  request: string;
+  coordinator?: string;
+  durationMicros?: number;
+  parameters?: Record<string, unknown>;
+  rows?: number;
+  events: TraceEvent[];
+}
+
+interface TraceEvent {
+  activity: string;
+  source?: string;
+  /** Microseconds since the request reached that node. */
+  elapsedMicros?: number;
+  thread?: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function parseJsonText(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function toSession(raw: unknown): TraceSession | null {
+  if (!isRecord(raw) || typeof raw.request !== "string" || !Array.isArray(raw.events)) return null;
+  const events = raw.events.filter((event) => isRecord(event) && typeof event.activity === "string");
+  return { ...(raw as unknown as TraceSession), events: events as unknown as TraceEvent[] };
+}
+
+function eventNode(event: TraceEvent): ExplainTreeNode {
+  const node: ExplainTreeNode = { label: event.activity, children: [] };
+  if (event.thread) node.detail = `Thread: ${event.thread}`;
+  if (isCount(event.elapsedMicros)) node.metrics = { actualTimeMs: event.elapsedMicros / 1000 };
+  return node;
+}
+
+/**
+ * The events grouped by the node that recorded them, in the order each node first
+ * appears - the coordinator first, since it records the request's arrival. A
+ * replica's elapsed times are measured from when IT received the request, so they
+ * only compare within one node, which is why the tree groups by node rather than
+ * interleaving them.
+ */
+function nodeGroups(events: TraceEvent[]): ExplainTreeNode[] {
+  const groups = new Map<string, TraceEvent[]>();
+  for (const event of events) {
+    const source = event.source ?? "unknown";
+    groups.set(source, [...(groups.get(source) ?? []), event]);
+  }
+
+  return [...groups.entries()].map(([source, nodeEvents]) => {
+    const elapsed = nodeEvents.map((event) => event.elapsedMicros).filter(isCount);
+    const node: ExplainTreeNode = {
+      label: `Node ${source}`,
+      detail: `${nodeEvents.length} ${nodeEvents.length === 1 ? "event" : "events"}`,
+      children: nodeEvents.map(eventNode),
+    };
+    if (elapsed.length > 0) node.metrics = { actualTimeMs: Math.max(...elapsed) / 1000 };
+    return node;
+  });
+}
+
+export const cassandraTraceStrategy: ExplainStrategy = {
+  format: "cassandra-trace",
+  // Cassandra has no planner to ask, so there is no estimate: the only account of
+  // a query is a trace of running it. Analyze mode asks for that, and only for a
+  // SELECT - a traced write still writes. The directive is a comment, so the grant
+  // check and every other reader still see the SELECT behind it.
+  buildSql(sql, mode) {
+    if (mode !== "analyze" || classifySelectPrefix(sql, CASSANDRA_GRAMMAR) !== "select") return null;
+    return `${CQL_TRACE_DIRECTIVE}${sql}`;
+  },
+  // The session arrives as JSON text in one cell; it is parsed here, as the
+  // ClickHouse and DuckDB strategies do, so the raw JSON and AI tabs get a
+  // structure rather than one escaped string.
+  extractPlan(result) {
+    const cell = result.rows?.[0]?.[TRACE_COLUMN];
+    if (typeof cell !== "string") return result.rows;
+    return parseJsonText(cell) ?? cell;
+  },
+  toRenderModel(raw) {
+    const session = toSession(typeof raw === "string" ? parseJsonText(raw) : raw);
+    if (!session) return null;
+
+    const details = [
+      session.coordinator ? `Coordinator: ${session.coordinator}` : undefined,
+      typeof session.parameters?.query === "string" ? `Query: ${session.parameters.query}` : undefined,
+    ].filter((part) => part !== undefined);
+    const metrics: NonNullable<ExplainTreeNode["metrics"]> = {};
+    if (isCount(session.durationMicros)) metrics.actualTimeMs = session.durationMicros / 1000;
+    if (isCount(session.rows)) metrics.actualRows = session.rows;
+
+    const root: ExplainTreeNode = { label: session.request, children: nodeGroups(session.events) };
+    if (details.length > 0) root.detail = details.join(" | ");
+    if (Object.keys(metrics).length > 0) root.metrics = metrics;
+    return { kind: "tree", root, raw };
+  },
+};
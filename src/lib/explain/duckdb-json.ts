@@ -0,0 +1,145 @@
+import { resolveSqlGrammar } from "@/lib/sql/grammar";
+import { classifySelectPrefix } from "./select-prefix";
+import type { ExplainStrategy, ExplainTreeNode } from "./types";
+
+/**
+ * This strategy's dialect, resolved once. Reached only through
+ * `explainFormat: "duckdb-json"`, which only the DuckDB provider declares, so the
+ * module's identity IS the dialect - the same shape as the ClickHouse strategy.
+ */
+const DUCKDB_GRAMMAR = resolveSqlGrammar("duckdb");
+
+/** The column of the one row EXPLAIN returns that holds the plan, as JSON text. */
+const EXPLAIN_COLUMN = "explain_value";
+
+/**
+ * The operator DuckDB wraps an analyzed plan in. It measures the profiler, not the
+ * query - its own cardinality is always 0 - so the tree starts at its child.
+ */
+const EXPLAIN_ANALYZE_OPERATOR = "EXPLAIN_ANALYZE";
+
+/** The `extra_info` key a node's row estimate lives under, as a string of digits. */
+const ESTIMATED_CARDINALITY = "Estimated Cardinality";
+
+/**
+ * `extra_info` keys shown in the detail line, in this order. Anything else there is
+ * an engine internal (`__internal_compress_integral_utinyint(#0, 0)` projections)
+ * that reads as noise next to the table and filter a user is looking for.
+ */
+const DETAIL_KEYS = ["Table", "Type", "Function", "Filters", "Conditions", "Join Type", "Groups", "Aggregates"];
+
+/**
+ * A node of either plan DuckDB writes. `EXPLAIN (FORMAT JSON)` names an operator
+ * `name`; `EXPLAIN (ANALYZE, FORMAT JSON)` names it `operator_name` and adds what
+ * the run measured. Both keep their children under `children` and their operator
+ * details under `extra_info`.
+ */
+interface DuckDBPlanNode {
+  name?: string;
+  operator_name?: string;
+  operator_cardinality?: number;
+  /** Seconds. */
+  operator_timing?: number;
+  extra_info?: Record<string, unknown>;
+  children?: unknown[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function operatorName(node: unknown): string | undefined {
+  if (!isRecord(node)) return undefined;
+  const name = node.operator_name ?? node.name;
+  return typeof name === "string" && name.length > 0 ? name : undefined;
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function parseJsonText(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The operators at the top of the plan. An estimate is an array of them; an
+ * analyzed plan is the query profile, whose only child is the EXPLAIN_ANALYZE
+ * wrapper around them.
+ */
+function topOperators(raw: unknown): DuckDBPlanNode[] | null {
+  if (Array.isArray(raw)) {
+    const nodes = raw.filter((node) => operatorName(node) !== undefined) as DuckDBPlanNode[];
+    return nodes.length > 0 ? nodes : null;
+  }
+  if (!isRecord(raw) || !Array.isArray(raw.children)) return null;
+  const [first] = raw.children as DuckDBPlanNode[];
+  if (operatorName(first) === EXPLAIN_ANALYZE_OPERATOR) return topOperators(first.children ?? []);
+  return topOperators(raw.children);
+}
+
+function detailValue(value: unknown): string | undefined {
+  if (typeof value === "string") return value.length > 0 ? value : undefined;
+  if (Array.isArray(value)) return detailValue(value.filter((item) => typeof item === "string").join(", "));
+  return undefined;
+}
+
+function buildDetail(info: Record<string, unknown>): string | undefined {
+  const parts = DETAIL_KEYS.flatMap((key) => {
+    const value = detailValue(info[key]);
+    return value === undefined ? [] : [`${key}: ${value}`];
+  });
+  return parts.length > 0 ? parts.join(" | ") : undefined;
+}
+
+function buildMetrics(node: DuckDBPlanNode): ExplainTreeNode["metrics"] {
+  const metrics: NonNullable<ExplainTreeNode["metrics"]> = {};
+  const estimate = node.extra_info?.[ESTIMATED_CARDINALITY];
+  if (typeof estimate === "string" && /^\d+$/.test(estimate)) metrics.estRows = Number(estimate);
+  if (isCount(node.operator_cardinality)) metrics.actualRows = node.operator_cardinality;
+  if (isCount(node.operator_timing)) metrics.actualTimeMs = node.operator_timing * 1000;
+  return Object.keys(metrics).length > 0 ? metrics : undefined;
+}
+
+function toTreeNode(node: DuckDBPlanNode): ExplainTreeNode {
+  const children = (node.children ?? []).filter((child) => operatorName(child) !== undefined) as DuckDBPlanNode[];
+  const treeNode: ExplainTreeNode = { label: operatorName(node)!, children: children.map(toTreeNode) };
+  const detail = isRecord(node.extra_info) ? buildDetail(node.extra_info) : undefined;
+  if (detail !== undefined) treeNode.detail = detail;
+  const metrics = buildMetrics(node);
+  if (metrics !== undefined) treeNode.metrics = metrics;
+  return treeNode;
+}
+
+export const duckdbJsonStrategy: ExplainStrategy = {
+  format: "duckdb-json",
+  // DuckDB's `EXPLAIN ANALYZE` EXECUTES the statement, like PostgreSQL's, so only
+  // analyze mode asks for it. Unlike PostgreSQL a `WITH` cannot carry a write here:
+  // `WITH t AS (INSERT ... RETURNING id) SELECT * FROM t` is a parser error ("A CTE
+  // needs a SELECT", checked against the bundled engine), so the prefix is the whole
+  // check. It is still read under this dialect's grammar, because block comments
+  // nest in DuckDB and a flat reading would find a SELECT inside one.
+  buildSql(sql, mode) {
+    if (classifySelectPrefix(sql, DUCKDB_GRAMMAR) === null) return null;
+    return mode === "analyze" ? `EXPLAIN (ANALYZE, FORMAT JSON) ${sql}` : `EXPLAIN (FORMAT JSON) ${sql}`;
+  },
+  // The plan arrives as JSON text in a VARCHAR cell; it is parsed here, as the
+  // ClickHouse strategy does, so the raw JSON and AI tabs get a structure rather
+  // than one escaped string.
+  extractPlan(result) {
+    const cell = result.rows?.[0]?.[EXPLAIN_COLUMN];
+    if (typeof cell !== "string") return result.rows;
+    return parseJsonText(cell) ?? cell;
+  },
+  toRenderModel(raw) {
+    const operators = topOperators(typeof raw === "string" ? parseJsonText(raw) : raw);
+    if (!operators) return null;
+    const root =
+      operators.length === 1 ? toTreeNode(operators[0]) : { label: "Query Plan", children: operators.map(toTreeNode) };
+    return { kind: "tree", root, raw };
+  },
+};
@@ -6,6 +6,9 @@ import { sqliteQueryplanStrategy } from "./sqlite-queryplan";
 import { couchbaseJsonStrategy } from "./couchbase-json";
 import { clickhouseJsonStrategy } from "./clickhouse-json";
 import { druidNativeStrategy } from "./druid-native";
+import { duckdbJsonStrategy } from "./duckdb-json";
+import { cassandraTraceStrategy } from "./cassandra-trace";
+import { mongodbJsonStrategy } from "./mongodb-json";
 
 export type { ExplainMode, ExplainStrategy } from "./types";
 export type { ExplainPlanInput } from "./types";
@@ -19,6 +22,9 @@ const registry: Record<ExplainFormat, ExplainStrategy> = {
   "couchbase-json": couchbaseJsonStrategy,
   "clickhouse-json": clickhouseJsonStrategy,
   "druid-native": druidNativeStrategy,
+  "duckdb-json": duckdbJsonStrategy,
+  "cassandra-trace": cassandraTraceStrategy,
+  "mongodb-json": mongodbJsonStrategy,
 };
 
 export function getExplainStrategy(format: ExplainFormat | undefined): ExplainStrategy | null {
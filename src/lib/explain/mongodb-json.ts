@@ -0,0 +1,211 @@
+// db/utils, not the MongoDB provider directory: an explain strategy that imported
+// from a provider would tie the registry to it (the rule clickhouse-json.ts records).
+import {
+  explainMongoShellQuery,
+  isMongoShellQuery,
+  MONGO_EXPLAINABLE_OPERATIONS,
+  pipelineWritesOut,
+  readMongoQuery,
+} from "@/lib/db/utils/mongo-shell";
+import type { ExplainStrategy, ExplainTreeNode } from "./types";
+
+/**
+ * How deep a stage tree may nest before the walk stops. A real plan is a handful of
+ * stages - a join in the slot-based engine adds a few more - so this only keeps a
+ * document that nests without end from running away.
+ */
+const MAX_PLAN_DEPTH = 64;
+
+/** What the tree says where MAX_PLAN_DEPTH stopped it, so truncation is visible rather than silent. */
+const TRUNCATED_LABEL = "plan truncated: nesting limit reached";
+
+/**
+ * The keys a stage keeps its input under. The classic engine uses `inputStage` and
+ * `inputStages`; the slot-based engine's execution stages add the two sides of a
+ * join and the two branches of a conditional.
+ */
+const SINGLE_INPUTS = ["inputStage", "outerStage", "innerStage", "thenStage", "elseStage"] as const;
+
+/** The longest a filter or stage specification is shown before it is cut short. */
+const MAX_DETAIL_LENGTH = 120;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function compactJson(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > MAX_DETAIL_LENGTH ? `${text.slice(0, MAX_DETAIL_LENGTH - 1)}…` : text;
+}
+
+/** The measurements MongoDB writes on an execution stage; a planner stage has none. */
+function stageMetrics(stage: Record<string, unknown>): ExplainTreeNode["metrics"] {
+  const metrics: NonNullable<ExplainTreeNode["metrics"]> = {};
+  if (isCount(stage.nReturned)) metrics.actualRows = stage.nReturned;
+  if (isCount(stage.executionTimeMillisEstimate)) metrics.actualTimeMs = stage.executionTimeMillisEstimate;
+  return Object.keys(metrics).length > 0 ? metrics : undefined;
+}
+
+/**
+ * What a stage works on, as far as a reader scanning the tree needs: the index, the
+ * filter, the sort and the limit. `docsExamined` and `keysExamined` go here too
+ * because they have no column in the render model, and they are the two numbers a
+ * MongoDB plan is read for - an index that examines far more than it returns.
+ */
+function stageDetail(stage: Record<string, unknown>): string | undefined {
+  const parts: string[] = [];
+  if (typeof stage.indexName === "string") {
+    parts.push(`Index: ${stage.indexName}${isRecord(stage.keyPattern) ? ` ${compactJson(stage.keyPattern)}` : ""}`);
+  }
+  if (isRecord(stage.filter)) parts.push(`Filter: ${compactJson(stage.filter)}`);
+  if (isRecord(stage.sortPattern)) parts.push(`Sort: ${compactJson(stage.sortPattern)}`);
+  if (isCount(stage.limitAmount)) parts.push(`Limit: ${stage.limitAmount}`);
+  if (isCount(stage.keysExamined)) parts.push(`Keys examined: ${stage.keysExamined}`);
+  if (isCount(stage.docsExamined)) parts.push(`Docs examined: ${stage.docsExamined}`);
+  return parts.length > 0 ? parts.join(" | ") : undefined;
+}
+
+/**
+ * One stage and everything under it. A sharded plan's root lists its shards, each
+ * with its own plan; they become one child per shard so the tree shows which shard
+ * did what.
+ */
+function stageNode(stage: Record<string, unknown>, depth: number): ExplainTreeNode {
+  if (depth >= MAX_PLAN_DEPTH) return { label: TRUNCATED_LABEL, children: [] };
+
+  const children: ExplainTreeNode[] = [];
+  for (const key of SINGLE_INPUTS) {
+    const input = stage[key];
+    if (isRecord(input)) children.push(stageNode(input, depth + 1));
+  }
+  if (Array.isArray(stage.inputStages)) {
+    for (const input of stage.inputStages) if (isRecord(input)) children.push(stageNode(input, depth + 1));
+  }
+  if (Array.isArray(stage.shards)) {
+    for (const shard of stage.shards) {
+      if (!isRecord(shard)) continue;
+      const plan = shardPlan(shard);
+      children.push({
+        label: `Shard ${typeof shard.shardName === "string" ? shard.shardName : "unknown"}`,
+        metrics: stageMetrics({ nReturned: shard.nReturned, executionTimeMillisEstimate: shard.executionTimeMillis }),
+        children: plan ? [stageNode(plan, depth + 2)] : [],
+      });
+    }
+  }
+
+  const node: ExplainTreeNode = { label: typeof stage.stage === "string" ? stage.stage : "stage", children };
+  const detail = stageDetail(stage);
+  if (detail) node.detail = detail;
+  const metrics = stageMetrics(stage);
+  if (metrics) node.metrics = metrics;
+  return node;
+}
+
+function shardPlan(shard: Record<string, unknown>): Record<string, unknown> | null {
+  if (isRecord(shard.executionStages)) return shard.executionStages;
+  return winningPlan(shard.winningPlan);
+}
+
+/**
+ * The planner's chosen plan. The slot-based engine nests the familiar stage tree
+ * under `queryPlan`, beside an engine-internal `slotBasedPlan` a reader cannot act
+ * on.
+ */
+function winningPlan(plan: unknown): Record<string, unknown> | null {
+  if (!isRecord(plan)) return null;
+  return isRecord(plan.queryPlan) ? plan.queryPlan : plan;
+}
+
+/**
+ * A find, count or distinct plan, or an aggregate the server pushed down whole: the
+ * measured stages when the explain ran at `executionStats` or more, the planner's
+ * choice when it did not. The root carries the totals, which no one stage does.
+ */
+function queryNode(explain: Record<string, unknown>, depth: number): ExplainTreeNode | null {
+  const planner = isRecord(explain.queryPlanner) ? explain.queryPlanner : null;
+  const execution = isRecord(explain.executionStats) ? explain.executionStats : null;
+  const stages = isRecord(execution?.executionStages) ? execution.executionStages : winningPlan(planner?.winningPlan);
+  if (!stages) return null;
+
+  const root: ExplainTreeNode = {
+    label: typeof planner?.namespace === "string" ? planner.namespace : "Query",
+    children: [stageNode(stages, depth + 1)],
+  };
+  if (execution) {
+    const details = [
+      isCount(execution.totalKeysExamined) ? `Keys examined: ${execution.totalKeysExamined}` : undefined,
+      isCount(execution.totalDocsExamined) ? `Docs examined: ${execution.totalDocsExamined}` : undefined,
+    ].filter((part) => part !== undefined);
+    if (details.length > 0) root.detail = details.join(" | ");
+    const metrics = stageMetrics({
+      nReturned: execution.nReturned,
+      executionTimeMillisEstimate: execution.executionTimeMillis,
+    });
+    if (metrics) root.metrics = metrics;
+  } else if (Array.isArray(planner?.rejectedPlans) && planner.rejectedPlans.length > 0) {
+    root.detail = `${planner.rejectedPlans.length} rejected ${planner.rejectedPlans.length === 1 ? "plan" : "plans"}`;
+  }
+  return root;
+}
+
+/**
+ * An aggregate the server could not push down whole explains as a `stages` list:
+ * a `$cursor` stage holding the query plan, then one entry per pipeline stage. Each
+ * stage reads the one before it, so the list becomes a chain with the last stage at
+ * the root and the `$cursor`'s plan at the bottom.
+ */
+function pipelineNode(stages: unknown[], depth: number): ExplainTreeNode | null {
+  let below: ExplainTreeNode | null = null;
+  for (const entry of stages) {
+    if (!isRecord(entry)) continue;
+    const name = Object.keys(entry).find((key) => key.startsWith("$"));
+    if (!name) continue;
+    const spec = entry[name];
+
+    const node: ExplainTreeNode =
+      name === "$cursor" && isRecord(spec)
+        ? (queryNode(spec, depth) ?? { label: name, children: [] })
+        : { label: name, children: [] };
+    if (name !== "$cursor") node.detail = compactJson(spec);
+    const metrics = stageMetrics(entry);
+    if (metrics) node.metrics = metrics;
+    if (below) node.children.push(below);
+    below = node;
+  }
+  return below;
+}
+
+export const mongodbJsonStrategy: ExplainStrategy = {
+  format: "mongodb-json",
+  // Only reads, and only an aggregate that leaves the data alone: analyze mode runs
+  // the statement to measure it, and a `$out` or `$merge` the server would refuse
+  // to measure anyway. Estimate mode asks the planner alone. Text that already asks
+  // for a plan is run as written when the user asks for one, and not asked twice in
+  // the background.
+  buildSql(sql, mode) {
+    const query = readMongoQuery(sql);
+    if (!query || !MONGO_EXPLAINABLE_OPERATIONS.has(query.operation) || pipelineWritesOut(query.pipeline)) {
+      return null;
+    }
+    if (query.explain !== undefined) return mode === "analyze" ? sql : null;
+
+    const verbosity = mode === "analyze" ? "executionStats" : "queryPlanner";
+    // Shell text is spliced rather than rebuilt from the envelope, which would lose
+    // every ObjectId() and date it holds.
+    if (isMongoShellQuery(sql)) return explainMongoShellQuery(sql, verbosity);
+    return JSON.stringify({ ...query, explain: verbosity });
+  },
+  // The provider answers an explain with one row: the server's explain document.
+  extractPlan(result) {
+    return result.rows?.[0] ?? result.rows;
+  },
+  toRenderModel(raw) {
+    if (!isRecord(raw)) return null;
+    const root = Array.isArray(raw.stages) ? pipelineNode(raw.stages, 0) : queryNode(raw, 0);
+    return root ? { kind: "tree", root, raw } : null;
+  },
+};
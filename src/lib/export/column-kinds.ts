@@ -0,0 +1,176 @@
+/**
+ * What each column of a result IS, for the two export formats that store a type
+ * rather than text: Parquet, whose schema is the file's contract with pandas or
+ * Spark, and XLSX, whose cells are numbers, booleans and dates or else strings.
+ *
+ * The engine's declared type (`QueryResult.columnTypes`) decides when there is one,
+ * because it is the type of THIS result and the only one a computed column has. But
+ * a declared type describes the column, not the values the export is handed, and the
+ * two part company in one ordinary case: a masked column. `applyMaskingToRows` turns
+ * `salary` into `"****"`, and a file that promised `INT64` would either refuse to
+ * write or write a number the user never saw. So every value is converted before the
+ * kind is kept, and a column any value does not fit is written as text — which is
+ * also what happens to an engine whose declared type is wrong about its own rows.
+ */
+
+import { cellOf, cellText } from "./csv";
+import { jsonText } from "./json";
+
+/**
+ * The kinds an export distinguishes. `decimal` is apart from `numeric` because it is
+ * exact: a `NUMERIC(38, 10)` forced through a double loses digits without a word.
+ */
+export type ExportColumnKind = "text" | "integer" | "numeric" | "decimal" | "boolean" | "timestamp" | "json";
+
+export interface TypedColumn {
+  name: string;
+  kind: ExportColumnKind;
+  /**
+   * One value per row, null where the row has none, in the kind's own form: a
+   * `bigint` for `integer`, a `number` for `numeric`, the exact digits as a string
+   * for `decimal`, a `boolean`, a `Date`, a plain JSON value, or text.
+   */
+  values: unknown[];
+}
+
+/** Why a value does not convert. A symbol, because null is a value every kind takes. */
+const UNFIT = Symbol("unfit");
+
+const INTEGER_TEXT = /^-?\d+$/;
+const NUMERIC_TEXT = /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+/** ISO 8601 and the `YYYY-MM-DD HH:MM:SS` form MySQL's `dateStrings` hands back. */
+const TIMESTAMP_TEXT = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const HAS_ZONE = /(Z|[+-]\d{2}:?\d{2})$/;
+
+/** Wrappers that say something about the column but nothing about its kind. */
+const TYPE_WRAPPER = /^(nullable|lowcardinality)\((.*)\)$/;
+
+/**
+ * A declared type's kind, from its spelling. Every engine spells the same kinds its
+ * own way (`int8`, `BIGINT UNSIGNED`, `Int64`, `NUMBER(19)`), so this reads the base
+ * name and ignores the rest; anything not recognised is text, which is always true.
+ */
+function declaredKind(declared: string): ExportColumnKind {
+  let type = declared.trim().toLowerCase();
+  for (let inner = TYPE_WRAPPER.exec(type); inner; inner = TYPE_WRAPPER.exec(type)) type = inner[2];
+
+  if (/^(bool|boolean|bit)$/.test(type)) return "boolean";
+  if (/^(u?int\d*|integer|bigint|smallint|tinyint|mediumint|(big|small)?serial|long)\b/.test(type)) return "integer";
+  if (/^(real|float\d*|double|binary_(float|double))\b/.test(type)) return "numeric";
+  if (/^(numeric|decimal\d*|number|money|smallmoney)\b/.test(type)) return "decimal";
+  if (/^(timestamp|timestamptz|datetime\d*|smalldatetime|datetimeoffset|date\d*)\b/.test(type)) return "timestamp";
+  if (/^jsonb?$/.test(type)) return "json";
+  return "text";
+}
+
+function toInteger(value: unknown): unknown {
+  if (typeof value === "bigint") return value;
+  if (typeof value === "number") return Number.isSafeInteger(value) ? BigInt(value) : UNFIT;
+  // `pg` hands back `int8` as text, because a JavaScript number cannot hold all of it.
+  if (typeof value === "string" && INTEGER_TEXT.test(value)) return BigInt(value);
+  return UNFIT;
+}
+
+function toNumeric(value: unknown): unknown {
+  if (typeof value === "number") return value;
+  if (typeof value === "bigint") return Number(value);
+  if (typeof value === "string" && NUMERIC_TEXT.test(value)) return Number(value);
+  return UNFIT;
+}
+
+function toDecimal(value: unknown): unknown {
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : UNFIT;
+  if (typeof value === "bigint") return String(value);
+  if (typeof value === "string" && NUMERIC_TEXT.test(value)) return value;
+  return UNFIT;
+}
+
+function toBoolean(value: unknown): unknown {
+  return typeof value === "boolean" ? value : UNFIT;
+}
+
+/**
+ * A zone-less timestamp is read as UTC. JavaScript would read it as the local time
+ * of whichever machine ran the export, and the same file would then hold different
+ * instants depending on who wrote it.
+ */
+function toTimestamp(value: unknown): unknown {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? UNFIT : value;
+  if (typeof value !== "string" || !TIMESTAMP_TEXT.test(value)) return UNFIT;
+  const iso = value.replace(" ", "T");
+  const date = new Date(HAS_ZONE.test(iso) || !iso.includes("T") ? iso : `${iso}Z`);
+  return Number.isNaN(date.getTime()) ? UNFIT : date;
+}
+
+/** Through `jsonText` and back, so a bigint or a cycle inside it cannot throw later. */
+function toJson(value: unknown): unknown {
+  if (typeof value !== "object" || value === null || value instanceof Date) return UNFIT;
+  return JSON.parse(jsonText(value));
+}
+
+const CONVERTERS: Record<ExportColumnKind, (value: unknown) => unknown> = {
+  text: cellText,
+  integer: toInteger,
+  numeric: toNumeric,
+  decimal: toDecimal,
+  boolean: toBoolean,
+  timestamp: toTimestamp,
+  json: toJson,
+};
+
+/** What to try next when a column does not fit its kind; everything ends at text. */
+const FALLBACK: Partial<Record<ExportColumnKind, ExportColumnKind>> = { integer: "numeric" };
+
+/**
+ * A kind read off the values themselves, for a column the engine declared nothing
+ * for. Only from what a value's JavaScript type already says: a string that looks
+ * like a number stays text here, because nothing but a declaration says it is one.
+ */
+function valueKind(value: unknown): ExportColumnKind {
+  if (typeof value === "bigint") return "integer";
+  if (typeof value === "number") return Number.isSafeInteger(value) ? "integer" : "numeric";
+  if (typeof value === "boolean") return "boolean";
+  if (value instanceof Date) return "timestamp";
+  if (typeof value === "object" && value !== null) return "json";
+  return "text";
+}
+
+function inferredKind(values: readonly unknown[]): ExportColumnKind {
+  const kinds = new Set(values.filter((value) => value !== null && value !== undefined).map(valueKind));
+  if (kinds.size === 1) return [...kinds][0];
+  if (kinds.size === 2 && kinds.has("integer") && kinds.has("numeric")) return "numeric";
+  return "text";
+}
+
+/** Every value converted to `kind`, or null when one of them does not fit it. */
+function convertAll(values: readonly unknown[], kind: ExportColumnKind): unknown[] | null {
+  const converted: unknown[] = [];
+  for (const value of values) {
+    if (value === null || value === undefined) {
+      converted.push(null);
+      continue;
+    }
+    const next = CONVERTERS[kind](value);
+    if (next === UNFIT) return null;
+    converted.push(next);
+  }
+  return converted;
+}
+
+/** `rows` as typed columns, in `columns` order. */
+export function typedColumns(
+  columns: readonly string[],
+  rows: readonly Record<string, unknown>[],
+  columnTypes?: Record<string, string>,
+): TypedColumn[] {
+  return columns.map((name) => {
+    const raw = rows.map((row) => cellOf(row, name));
+    const declared = columnTypes !== undefined && Object.hasOwn(columnTypes, name) ? columnTypes[name] : undefined;
+    let kind = declared === undefined ? inferredKind(raw) : declaredKind(declared);
+    for (;;) {
+      const values = convertAll(raw, kind);
+      if (values !== null) return { name, kind, values };
+      kind = FALLBACK[kind] ?? "text";
+    }
+  });
+}
@@ -37,7 +37,7 @@ const NEEDS_QUOTING = /["\r\n,]/;
  * text `null`/`undefined`, which reads back as a four- or nine-character string
  * and is indistinguishable from a column that genuinely holds that word.
  */
-function renderValue(value: unknown): string {
+export function cellText(value: unknown): string {
   if (value === null || value === undefined) return "";
   if (value instanceof Date) return value.toISOString();
   // A JSON column, a Postgres array, a Mongo sub-document: `String(...)` answers
@@ -49,7 +49,7 @@ function renderValue(value: unknown): string {
 }
 
 function csvField(value: unknown): string {
-  const text = renderValue(value);
+  const text = cellText(value);
   return NEEDS_QUOTING.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
 }
 
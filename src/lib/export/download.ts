@@ -1,3 +1,5 @@
+import { byteOrderMarkFor } from "./result-export";
+
 /**
  * The one "save this to the user's disk" path in the studio.
  *
@@ -34,22 +36,84 @@ export function downloadBlob(blob: Blob, fileName: string): void {
   setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
 }
 
+/** Hand `content` to the browser as a `mimeType` download named `fileName`. */
+export function downloadText(content: string, mimeType: string, fileName: string): void {
+  downloadBlob(new Blob([`${byteOrderMarkFor(mimeType)}${content}`], { type: mimeType }), fileName);
+}
+
 /**
- * The UTF-8 byte order mark, and the one format that needs it.
+ * Hand a built export to the browser: text through `downloadText`, with whatever
+ * mark its type needs, and the bytes of a binary format (XLSX, Parquet) exactly as
+ * they were built — a mark in front of a ZIP or a Parquet header is a corrupt file.
+ */
+export function downloadExport(content: string | Uint8Array<ArrayBuffer>, mimeType: string, fileName: string): void {
+  if (typeof content === "string") {
+    downloadText(content, mimeType, fileName);
+    return;
+  }
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
+}
+
+/** Chromium's save dialog. Not in the DOM typings, and not in every browser. */
+type SaveFilePicker = (options: { suggestedName: string }) => Promise<FileSystemFileHandle>;
+
+/**
+ * A file the user picks to save `fileName` as, open for writing — or null where the
+ * browser has no save dialog to offer.
  *
- * Excel decides a CSV's encoding from its first bytes; the charset on the download is
- * not consulted. Without the mark it reads the file in the host's legacy code page,
- * and every non-ASCII character in it arrives mangled — which is most exports outside
- * an English-language database. Every other reader treats the mark as insignificant.
+ * A file written this way is written as the bytes arrive, so nothing of it is held
+ * in the page. The dialog only opens from a click, so this has to be called before
+ * anything else is awaited. Dismissing it rejects with an `AbortError`.
+ */
+export async function openSaveFile(fileName: string): Promise<FileSystemWritableFileStream | null> {
+  const picker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (!picker) return null;
+  const handle = await picker.call(window, { suggestedName: fileName });
+  return handle.createWritable();
+}
+
+let downloadFrames = 0;
+
+/**
+ * POST `payload` to `url` as a form, so the browser saves the response itself — under
+ * the name its `Content-Disposition` gives, as it arrives — the way a link to a file
+ * is saved.
  *
- * Only CSV: prepending it to JSON would break a strict parser, and to SQL would put
- * a stray character in front of the first statement.
+ * The form targets a hidden frame, so an error answered instead of the file replaces
+ * the frame's document rather than the studio. A frame that loads a document has had
+ * one of those: its `error` is read back and handed to `onError`. A download never
+ * loads the frame, so the frame is left in place: removing it before the response
+ * has begun would abort the request.
  */
-const BOM = "﻿";
-const NEEDS_BOM = /^text\/csv\b/;
+export function submitDownloadForm(url: string, payload: unknown, onError: (message: string) => void): void {
+  const frame = document.createElement("iframe");
+  frame.name = `download-frame-${++downloadFrames}`;
+  frame.style.display = "none";
+  document.body.appendChild(frame);
+  frame.addEventListener("load", () => {
+    const text = frame.contentDocument?.body?.textContent ?? "";
+    frame.remove();
+    if (!text) return;
+    let message = "Export failed";
+    try {
+      message = JSON.parse(text).error || message;
+    } catch {
+      // Not the route's JSON: a proxy's error page, or a login redirect.
+    }
+    onError(message);
+  });
 
-/** Hand `content` to the browser as a `mimeType` download named `fileName`. */
-export function downloadText(content: string, mimeType: string, fileName: string): void {
-  const bytes = NEEDS_BOM.test(mimeType) ? `${BOM}${content}` : content;
-  downloadBlob(new Blob([bytes], { type: mimeType }), fileName);
+  const form = document.createElement("form");
+  form.method = "POST";
+  form.action = url;
+  form.target = frame.name;
+  form.style.display = "none";
+  const field = document.createElement("input");
+  field.type = "hidden";
+  field.name = "payload";
+  field.value = JSON.stringify(payload);
+  form.appendChild(field);
+  document.body.appendChild(form);
+  form.submit();
+  form.remove();
 }
@@ -0,0 +1,41 @@
+/**
+ * A result as a Parquet file, for the analyst who loads it into pandas, DuckDB or
+ * Spark and expects the columns to arrive typed.
+ *
+ * The schema is the point of the format, so it is taken from `column-kinds.ts` —
+ * the engine's declared types, checked against the values actually written — and
+ * never from whatever a writer library would guess off the first value. A guessed
+ * schema makes the `int8` column `pg` returns as text a string column, and an
+ * all-NULL first page a column of nothing.
+ */
+
+import { parquetWriteBuffer, type BasicType } from "hyparquet-writer";
+import type { ExportColumnKind, TypedColumn } from "./column-kinds";
+
+/**
+ * The physical type each kind is written as. `decimal` is a STRING of its exact
+ * digits: Parquet's own DECIMAL needs a precision and scale the result does not
+ * declare, and a DOUBLE would round a `NUMERIC(38, 10)` without saying so.
+ */
+const PARQUET_TYPES: Record<ExportColumnKind, BasicType> = {
+  text: "STRING",
+  integer: "INT64",
+  numeric: "DOUBLE",
+  decimal: "STRING",
+  boolean: "BOOLEAN",
+  timestamp: "TIMESTAMP",
+  json: "JSON",
+};
+
+/** `columns` as the bytes of a `.parquet` file. */
+export function buildParquet(columns: readonly TypedColumn[]): Uint8Array<ArrayBuffer> {
+  const buffer = parquetWriteBuffer({
+    columnData: columns.map((column) => ({
+      name: column.name,
+      data: column.values,
+      type: PARQUET_TYPES[column.kind],
+      nullable: true,
+    })),
+  });
+  return new Uint8Array(buffer);
+}
@@ -1,8 +1,11 @@
 import type { DatabaseType } from "@/lib/types";
 import { isBareIdentifier, quoteIdentifier } from "@/lib/sql/identifier";
 import { quoteLiteral } from "@/lib/sql/values";
-import { cellOf, resolveColumns, toCsv } from "./csv";
+import { cellOf, cellText, csvRow, resolveColumns } from "./csv";
 import { jsonText } from "./json";
+import { typedColumns } from "./column-kinds";
+import { buildParquet } from "./parquet";
+import { buildXlsx, sheetNameFor } from "./xlsx";
 
 /**
  * Turning a result grid into a file the user keeps.
@@ -14,7 +17,10 @@ import { jsonText } from "./json";
  * masking) is decided by the caller and arrives here as `rows`.
  */
 
-export type ResultExportFormat = "csv" | "json" | "sql-insert" | "sql-ddl";
+export type ResultExportFormat = "csv" | "json" | "ndjson" | "markdown" | "xlsx" | "parquet" | "sql-insert" | "sql-ddl";
+
+/** The formats whose file is bytes rather than text. */
+type BinaryExportFormat = "xlsx" | "parquet";
 
 export interface ResultExportSource {
   /** The rows to write, already masked if the caller masks. */
@@ -28,13 +34,15 @@ export interface ResultExportSource {
   /**
    * The type each column was declared with, spelled the way the engine spells it
    * (`QueryResult.columnTypes`). Absent when the source declared none, which is the
-   * common case — then the DDL form infers a type from a value instead.
+   * common case — then the DDL form infers a type from a value instead, and the
+   * typed formats (XLSX, Parquet) one from every value (`column-kinds.ts`).
    */
   columnTypes?: Record<string, string>;
 }
 
 export interface ResultExportFile {
-  content: string;
+  /** Text for the text formats; the file's bytes for XLSX and Parquet. */
+  content: string | Uint8Array<ArrayBuffer>;
   mimeType: string;
   extension: string;
 }
@@ -170,7 +178,7 @@ function sqlTypeOf(column: string, rows: readonly Record<string, unknown>[], sou
  * be stringified to a locale-dependent form no engine parses back, and an object to
  * the literal text `[object Object]`.
  */
-function sqlValue(value: unknown, dialect: DatabaseType | undefined): string {
+export function sqlValue(value: unknown, dialect: DatabaseType | undefined): string {
   if (value === null || value === undefined) return "NULL";
   if (typeof value === "bigint") return String(value);
   // NaN and ±Infinity are not numbers any of these dialects accepts as a literal,
@@ -184,25 +192,254 @@ function sqlValue(value: unknown, dialect: DatabaseType | undefined): string {
   return quoteLiteral(String(value), dialect);
 }
 
+/**
+ * A value as the text of a Markdown table cell. A pipe would end the cell and a
+ * newline the row, so the pipe is escaped and a newline becomes a `<br>` — how
+ * every renderer that draws tables spells a line break inside one. A backslash is
+ * escaped first, so one already in the value cannot pair up with the escape added
+ * in front of a pipe.
+ */
+function markdownCell(value: unknown): string {
+  return cellText(value)
+    .replace(/\\/g, "\\\\")
+    .replace(/\|/g, "\\|")
+    .replace(/\r\n|\r|\n/g, "<br>");
+}
+
+function markdownRow(values: readonly unknown[]): string {
+  return `| ${values.map(markdownCell).join(" | ")} |`;
+}
+
+/**
+ * The formats a writer can produce a batch at a time: everything but the DDL, whose
+ * column types are read from the rows as a whole and so cannot be written before the
+ * last one has arrived, and the two binary formats, for the same reason and one more
+ * — an XLSX is a ZIP whose directory and a Parquet file whose schema are written
+ * after every row they describe.
+ */
+export type StreamableExportFormat = Exclude<ResultExportFormat, "sql-ddl" | BinaryExportFormat>;
+
+export const STREAMABLE_EXPORT_FORMATS: readonly StreamableExportFormat[] = [
+  "csv",
+  "json",
+  "ndjson",
+  "markdown",
+  "sql-insert",
+];
+
+export function isStreamableExportFormat(format: unknown): format is StreamableExportFormat {
+  return STREAMABLE_EXPORT_FORMATS.includes(format as StreamableExportFormat);
+}
+
+/** How the file a format produces is described to whatever hands it to the user. */
+const FILE_TYPES: Record<ResultExportFormat, Omit<ResultExportFile, "content">> = {
+  // The charset is stated even though the download layer's byte order mark is what
+  // Excel actually reads, because every other consumer reads the type.
+  csv: { mimeType: "text/csv;charset=utf-8", extension: "csv" },
+  json: { mimeType: "application/json", extension: "json" },
+  ndjson: { mimeType: "application/x-ndjson", extension: "ndjson" },
+  markdown: { mimeType: "text/markdown;charset=utf-8", extension: "md" },
+  xlsx: { mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", extension: "xlsx" },
+  parquet: { mimeType: "application/vnd.apache.parquet", extension: "parquet" },
+  "sql-insert": { mimeType: "text/sql", extension: "sql" },
+  "sql-ddl": { mimeType: "text/sql", extension: "sql" },
+};
+
+/**
+ * The name every export of `format` is saved under. The server's export sends it as
+ * its `Content-Disposition`, and a browser that asks where to save proposes it.
+ */
+export function resultExportFileName(format: ResultExportFormat): string {
+  return `query_result_export.${FILE_TYPES[format].extension}`;
+}
+
+/**
+ * The UTF-8 byte order mark, and the one format that needs it.
+ *
+ * Excel decides a CSV's encoding from its first bytes; the charset on the download is
+ * not consulted. Without the mark it reads the file in the host's legacy code page,
+ * and every non-ASCII character in it arrives mangled — which is most exports outside
+ * an English-language database. Every other reader treats the mark as insignificant.
+ *
+ * It is part of the file rather than of any one writer, so it is added by whatever
+ * saves it: `download.ts` for the grid's exports and `stream.ts` for the server's.
+ *
+ * Only CSV: prepending it to JSON would break a strict parser, and to SQL would put
+ * a stray character in front of the first statement.
+ */
+const BOM = "﻿";
+const NEEDS_BOM = /^text\/csv\b/;
+
+/** What a `mimeType` file must begin with before its content: the mark, or nothing. */
+export function byteOrderMarkFor(mimeType: string): string {
+  return NEEDS_BOM.test(mimeType) ? BOM : "";
+}
+
+/**
+ * One export written a batch of rows at a time.
+ *
+ * `write` returns the text for the rows it was handed and `end` the text that closes
+ * the file; concatenated in order they are exactly what `buildResultExport` returns
+ * for the same rows. That equivalence is the point: the server-side export
+ * (`src/lib/export/stream.ts`) writes a result far too large to hold, and it has to
+ * produce the same file the grid's own Export would have produced, not a lookalike.
+ */
+export interface ResultExportWriter {
+  mimeType: string;
+  extension: string;
+  write(rows: readonly Record<string, unknown>[]): string;
+  end(): string;
+}
+
+/**
+ * A writer for `format` over `source`'s columns.
+ *
+ * When `source.fields` is empty the columns are resolved from the FIRST batch that
+ * carries any row, not from the whole result — the whole result is exactly what a
+ * writer never sees. For a document store whose rows differ in shape, a field that
+ * first appears after that batch is therefore left out of a streamed file, where the
+ * grid's export, reading every row it holds, would have included it.
+ */
+export function createResultExportWriter(
+  format: StreamableExportFormat,
+  source: Omit<ResultExportSource, "rows">,
+): ResultExportWriter {
+  const { dialect } = source;
+  let columns: readonly string[] | null = null;
+  let written = 0;
+
+  const columnsFor = (rows: readonly Record<string, unknown>[]): readonly string[] => {
+    if (columns === null && (source.fields.length > 0 || rows.length > 0)) {
+      columns = resolveColumns(rows, source.fields);
+    }
+    return columns ?? [];
+  };
+
+  if (format === "json") {
+    return {
+      ...FILE_TYPES.json,
+      write(rows) {
+        // Each row is indented one level into the array, which is what `jsonText(rows,
+        // 2)` produces for the whole array at once. A newline inside a value is escaped
+        // by JSON, so every newline in a row's text is structure and safe to indent.
+        const parts = rows.map((row) => {
+          const prefix = written === 0 ? "[\n  " : ",\n  ";
+          written++;
+          return `${prefix}${jsonText(row, 2).replace(/\n/g, "\n  ")}`;
+        });
+        return parts.join("");
+      },
+      end: () => (written === 0 ? "[]" : "\n]"),
+    };
+  }
+
+  if (format === "ndjson") {
+    // One row per line, every line ended — including the last, which is what lets a
+    // reader that follows the file (`jq`, `pandas.read_json(lines=True)`) take it as
+    // complete. A newline inside a value is escaped by JSON, so none can split a row.
+    return {
+      ...FILE_TYPES.ndjson,
+      write: (rows) => rows.map((row) => `${jsonText(row)}\n`).join(""),
+      end: () => "",
+    };
+  }
+
+  if (format === "markdown") {
+    let headerWritten = false;
+    const header = (rows: readonly Record<string, unknown>[]): string => {
+      if (headerWritten) return "";
+      headerWritten = true;
+      const cols = columnsFor(rows);
+      if (cols.length === 0) return "";
+      return `${markdownRow(cols)}\n${markdownRow(cols.map(() => "---"))}`;
+    };
+    return {
+      ...FILE_TYPES.markdown,
+      write(rows) {
+        if (rows.length === 0) return "";
+        const head = header(rows);
+        const cols = columnsFor(rows);
+        return head + rows.map((row) => `\n${markdownRow(cols.map((column) => cellOf(row, column)))}`).join("");
+      },
+      end: () => header([]),
+    };
+  }
+
+  if (format === "csv") {
+    let headerWritten = false;
+    const header = (rows: readonly Record<string, unknown>[]): string => {
+      if (headerWritten) return "";
+      headerWritten = true;
+      return csvRow(columnsFor(rows));
+    };
+    return {
+      ...FILE_TYPES.csv,
+      write(rows) {
+        if (rows.length === 0) return "";
+        const head = header(rows);
+        const cols = columnsFor(rows);
+        return head + rows.map((row) => `\n${csvRow(cols.map((column) => cellOf(row, column)))}`).join("");
+      },
+      end: () => header([]),
+    };
+  }
+
+  const tableName = deriveTableName(source.tabName);
+  return {
+    ...FILE_TYPES["sql-insert"],
+    write(rows) {
+      const cols = columnsFor(rows);
+      if (cols.length === 0 || rows.length === 0) return "";
+      // A result field IS a name read from the engine, so quoting it is exactly right.
+      const quotedColumns = cols.map((column) => quoteIdentifier(column, dialect)).join(", ");
+      return rows
+        .map((row) => {
+          const values = cols.map((column) => sqlValue(cellOf(row, column), dialect));
+          const separator = written === 0 ? "" : "\n";
+          written++;
+          return `${separator}INSERT INTO ${tableName} (${quotedColumns}) VALUES (${values.join(", ")});`;
+        })
+        .join("");
+    },
+    end() {
+      // Same comments as the whole-result form, for the same reason: a 0-byte file
+      // says nothing about why it is empty.
+      if (columnsFor([]).length === 0) return NOTHING_TO_EXPORT.columns;
+      return written === 0 ? NOTHING_TO_EXPORT.rows : "";
+    },
+  };
+}
+
 /** Build the file for `format`. The caller owns naming it and handing it to the browser. */
+export function buildResultExport(
+  format: Exclude<ResultExportFormat, BinaryExportFormat>,
+  source: ResultExportSource,
+): ResultExportFile & { content: string };
+export function buildResultExport(format: ResultExportFormat, source: ResultExportSource): ResultExportFile;
 export function buildResultExport(format: ResultExportFormat, source: ResultExportSource): ResultExportFile {
   const { rows, dialect } = source;
-  const columns = resolveColumns(rows, source.fields);
 
-  if (format === "json") {
-    return { content: jsonText(rows, 2), mimeType: "application/json", extension: "json" };
+  if (format === "xlsx" || format === "parquet") {
+    // The rows are whatever the caller handed over, so the masking is already in
+    // them; `typedColumns` is what keeps a masked column from being typed as the
+    // number it no longer is.
+    const columns = typedColumns(resolveColumns(rows, source.fields), rows, source.columnTypes);
+    const content =
+      format === "xlsx" ? buildXlsx(columns, rows.length, sheetNameFor(source.tabName)) : buildParquet(columns);
+    return { content, ...FILE_TYPES[format] };
   }
 
-  if (format === "csv") {
-    // The charset is stated even though the download layer's byte order mark is what
-    // Excel actually reads, because every other consumer reads the type.
-    return { content: toCsv(rows, columns), mimeType: "text/csv;charset=utf-8", extension: "csv" };
+  if (format !== "sql-ddl") {
+    const writer = createResultExportWriter(format, source);
+    const content = writer.write(rows) + writer.end();
+    return { content, mimeType: writer.mimeType, extension: writer.extension };
   }
 
-  const sql = (content: string): ResultExportFile => ({ content, mimeType: "text/sql", extension: "sql" });
-  // A statement with no column list parses nowhere: `CREATE TABLE t ()` and
-  // `INSERT INTO t () VALUES ()` are both errors, and a 0-byte file says nothing
-  // about why it is empty. A comment is valid SQL in every dialect here.
+  const columns = resolveColumns(rows, source.fields);
+  const sql = (content: string): ResultExportFile => ({ content, ...FILE_TYPES["sql-ddl"] });
+  // A statement with no column list parses nowhere: `CREATE TABLE t ()` is an error,
+  // and a 0-byte file says nothing about why it is empty. A comment is valid SQL in
+  // every dialect here.
   if (columns.length === 0) return sql(NOTHING_TO_EXPORT.columns);
 
   const tableName = deriveTableName(source.tabName);
@@ -210,16 +447,6 @@ export function buildResultExport(format: ResultExportFormat, source: ResultExpo
   // and it is the only thing standing between an aliased column (`count(*) AS "n, m"`)
   // and a statement that no longer parses.
   const quotedColumns = columns.map((column) => quoteIdentifier(column, dialect));
-
-  if (format === "sql-insert") {
-    if (rows.length === 0) return sql(NOTHING_TO_EXPORT.rows);
-    const statements = rows.map((row) => {
-      const values = columns.map((column) => sqlValue(cellOf(row, column), dialect));
-      return `INSERT INTO ${tableName} (${quotedColumns.join(", ")}) VALUES (${values.join(", ")});`;
-    });
-    return sql(statements.join("\n"));
-  }
-
   const definitions = columns.map((column, index) => `  ${quotedColumns[index]} ${sqlTypeOf(column, rows, source)}`);
   return sql(`CREATE TABLE ${tableName} (\n${definitions.join(",\n")}\n);`);
 }
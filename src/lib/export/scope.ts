@@ -10,8 +10,9 @@ import type { QueryResult } from "@/lib/types";
  * shifted column, and harder to notice, because the file is well formed and the
  * number in it looks like an answer.
  *
- * Saying the count on the button is the cheap half of the fix. The other half — a
- * server-side export that streams the whole result — is `docs/BACKLOG.md` X2.
+ * Saying the count on the button is the cheap half of the fix. The other half is the
+ * server-side export that streams the whole result (`stream.ts`, `POST /api/db/export`),
+ * which the menu offers exactly when `shortfall` is set.
  */
 
 /** Grouped digits, fixed to one locale so the number reads the same everywhere. */
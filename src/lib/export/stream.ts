@@ -0,0 +1,167 @@
+import type { QueryBatch } from "@/lib/db/types";
+import type { EditorExecution } from "@/lib/access/editor-execution";
+import { QueryError } from "@/lib/db/errors";
+import { readsSqlText, resolveSqlGrammar } from "@/lib/sql/grammar";
+import { findCodeWord } from "@/lib/sql/words";
+import type { DatabaseType } from "@/lib/types";
+import type { MaskingPattern } from "@/lib/data-masking";
+import { maskedColumns, maskRows } from "@/lib/masking/policy";
+import type { MaskingPolicy } from "@/lib/masking/types";
+import { byteOrderMarkFor, createResultExportWriter, type StreamableExportFormat } from "./result-export";
+
+/**
+ * The server-side export: a statement's WHOLE result, written through the same
+ * writers as the grid's Export and streamed to the browser as it is read.
+ *
+ * The grid's Export writes the page it holds (`scope.ts`), which is the honest
+ * answer for a page and the wrong one for a two-million-row audit pull. This module
+ * re-runs the statement instead and never holds more than one batch: a provider with
+ * a server-side cursor or row stream (`DatabaseProvider.queryStream` - PostgreSQL,
+ * MySQL, SQL Server, Oracle, Cassandra) is read through it, and any other is read a
+ * page at a time through its own `prepareQuery`, the same seam the grid's "load
+ * more" pages through.
+ *
+ * Server-only. `result-export.ts` and `csv.ts` are pure so that this could reuse
+ * them; `download.ts` is the browser half and is never imported here.
+ */
+
+/** Rows per fetch. Large enough that the round trips do not dominate, small enough to hold. */
+export const EXPORT_BATCH_SIZE = 1000;
+
+const UNORDERED_PAGING_MESSAGE =
+  "This result spans more than one page and this database is read a page at a time. Add an ORDER BY so no row is skipped or read twice between pages.";
+
+/**
+ * The statement's rows, `batchSize` at a time.
+ *
+ * Read on `execution`, the provider and path `editorExecution` chose for the
+ * connection: a connection that does not take writes is read on the engine's
+ * read-only boundary, by its cursor or by pages through its `query`, and never on
+ * the shared pool the editor's writes use.
+ *
+ * The paged fallback stops on the first short page, and ALSO when `prepareQuery`
+ * declined to bound the statement at all: a statement that already carries its own
+ * limit, or an engine that takes no external one, returned everything it is going
+ * to return on the first run, and running it again at a larger offset would write
+ * the same rows twice.
+ *
+ * Paging by offset re-runs the statement per page, so it is only as consistent as
+ * the statement's ordering: without an ORDER BY the engine may return the rows in
+ * another order on every run, and a row can be skipped or repeated at a page
+ * boundary. So a SQL statement with no ORDER BY whose result needs a second page is
+ * refused with a `QueryError`, before its first batch is handed over - the export
+ * route can still answer with an error then, rather than a file that is quietly
+ * wrong. One page is always safe, so a short unordered result is read as before.
+ * An ORDER BY anywhere in the statement's code is taken as ordering it; the cursor
+ * path needs none, which is why it is preferred wherever a provider has one.
+ */
+export async function* readResultBatches(
+  execution: EditorExecution,
+  sql: string,
+  params: unknown[] | undefined,
+  batchSize: number = EXPORT_BATCH_SIZE,
+): AsyncGenerator<QueryBatch> {
+  const { provider } = execution;
+  if (provider.queryStream) {
+    yield* provider.queryStream(sql, params, batchSize);
+    return;
+  }
+
+  const ordered =
+    !readsSqlText(provider.type) || findCodeWord(sql, "ORDER", 0, resolveSqlGrammar(provider.type)) !== null;
+  for (let offset = 0; ; offset += batchSize) {
+    const prepared = provider.prepareQuery(sql, { limit: batchSize, offset });
+    const result = await execution.query(prepared.query, params);
+    const more = prepared.wasLimited && result.rows.length >= prepared.limit;
+    if (more && !ordered) throw new QueryError(UNORDERED_PAGING_MESSAGE, provider.type, sql);
+    yield { rows: result.rows, fields: result.fields };
+    if (!more) return;
+  }
+}
+
+/** The masking policy an export is written under, and the seed it reads (null for the caller's own connection). */
+export interface ExportMasking {
+  policy: MaskingPolicy;
+  connection: string | null;
+}
+
+export interface ResultExportStreamOptions {
+  /** Where the statement runs: `editorExecution`'s choice for the connection, as for the editor's own run. */
+  execution: EditorExecution;
+  sql: string;
+  params?: unknown[];
+  format: StreamableExportFormat;
+  /** The tab the statement ran in; where the SQL form gets its table name. */
+  tabName: string;
+  dialect: DatabaseType | undefined;
+  /** The policy to mask under; null writes the values as read, for a caller who asked with `unmask`. */
+  masking: ExportMasking | null;
+  batchSize?: number;
+}
+
+export interface ResultExportStream {
+  stream: ReadableStream<Uint8Array>;
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * The export as a byte stream.
+ *
+ * The FIRST batch is read before this resolves, so a statement the engine refuses
+ * fails here — where the route can still answer with an error status — rather than
+ * as a 200 whose body stops after zero bytes. After that the stream is pulled: a
+ * batch is read only when the previous one has been taken, so a slow client holds
+ * the database back instead of this process buffering the difference.
+ *
+ * Cancelling the stream (the browser aborted, or the connection dropped) returns the
+ * batch generator, which is what releases a cursor's transaction and client.
+ */
+export async function createResultExportStream(options: ResultExportStreamOptions): Promise<ResultExportStream> {
+  const { execution, sql, params, format, masking } = options;
+  const batches = readResultBatches(execution, sql, params, options.batchSize ?? EXPORT_BATCH_SIZE);
+  const first = await batches.next();
+  const fields = first.done ? [] : first.value.fields;
+
+  const writer = createResultExportWriter(format, { fields, tabName: options.tabName, dialect: options.dialect });
+  // Resolved once, from the declared columns: every batch of one statement has the same.
+  const sensitiveColumns: Map<string, MaskingPattern> =
+    masking === null ? new Map() : maskedColumns(masking.policy, masking.connection, sql, fields);
+  const encoder = new TextEncoder();
+  const render = (batch: QueryBatch) => writer.write(maskRows(batch.rows, fields, sensitiveColumns));
+
+  // The browser saves this body as it arrives, so the mark the grid's download adds
+  // in front of a CSV has to be in the body itself.
+  let pending: string | null = `${byteOrderMarkFor(writer.mimeType)}${first.done ? "" : render(first.value)}`;
+  let finished = first.done === true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        // An empty batch writes nothing, and an empty chunk is not progress — keep
+        // reading until there is text to hand over or the result has ended.
+        while (!pending && !finished) {
+          const next = await batches.next();
+          if (next.done) finished = true;
+          else pending = render(next.value);
+        }
+        if (pending) {
+          controller.enqueue(encoder.encode(pending));
+          pending = null;
+          return;
+        }
+        const tail = writer.end();
+        if (tail) controller.enqueue(encoder.encode(tail));
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+        await batches.return(undefined);
+      }
+    },
+    async cancel() {
+      await batches.return(undefined);
+    },
+  });
+
+  return { stream, mimeType: writer.mimeType, extension: writer.extension };
+}
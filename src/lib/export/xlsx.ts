@@ -0,0 +1,204 @@
+/**
+ * A result as an Excel workbook: one sheet, a header row, and cells that are typed —
+ * a number is a number Excel sums, a date is a date it formats, and everything else
+ * is a string it leaves alone.
+ *
+ * Written by hand rather than through a spreadsheet library. An `.xlsx` is a ZIP of
+ * a handful of XML parts, and one sheet of values needs five of them; the libraries
+ * that write the format carry the whole of it, formulas and charts included, into
+ * the browser bundle that hands this file over. The reader side of the same format
+ * is `src/lib/import/xlsx.ts`, which is what the tests read these files back with.
+ *
+ * Strings are written inline (`t="inlineStr"`) rather than through a shared-strings
+ * table: Excel, LibreOffice and pandas all read both, and inline needs no second pass.
+ */
+
+import { strToU8, zipSync } from "fflate";
+import type { TypedColumn } from "./column-kinds";
+import { jsonText } from "./json";
+
+/**
+ * The most characters Excel keeps in one cell. A longer string is not refused by the
+ * format but by Excel, which offers to "repair" the whole workbook when it opens; the
+ * value is cut here instead, and the rest of the file opens as written.
+ */
+const MAX_CELL_CHARS = 32767;
+
+/**
+ * Excel keeps 15 significant digits. A `bigint` key or an exact decimal past that is
+ * written as text, or it comes back as `1.23456789012346E+18` and a different number.
+ */
+const MAX_EXACT_DIGITS = 15;
+
+/** Sheet names are at most 31 characters, and these ones are refused outright. */
+const MAX_SHEET_NAME = 31;
+const SHEET_NAME_FORBIDDEN = /[[\]:*?/\\]/g;
+const DEFAULT_SHEET_NAME = "Result";
+
+/** Characters XML 1.0 has no form for, even escaped. A database column can hold any of them. */
+const XML_INVALID = /[\x00-\x08\x0b\x0c\x0e-\x1f\ufffe\uffff]/g;
+
+/** Days from Excel's epoch (1899-12-30, in the 1900 date system) to the Unix one. */
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const MS_PER_DAY = 86_400_000;
+/**
+ * Serial 61 is 1900-03-01. Below it Excel's calendar includes a 29 February 1900 that
+ * never happened, so an earlier date is written as its ISO text rather than as a
+ * serial Excel would show one day off.
+ */
+const FIRST_RELIABLE_SERIAL = 61;
+
+/** The style index (into `cellXfs` below) that formats a serial as a date and time. */
+const DATE_STYLE = 1;
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  "</styleSheet>";
+
+/** The style index for the header row: bold. */
+const HEADER_STYLE = 2;
+
+const CONTENT_TYPES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  "</Types>";
+
+const ROOT_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  "</Relationships>";
+
+const WORKBOOK_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  "</Relationships>";
+
+function xmlText(text: string): string {
+  return text
+    .replace(XML_INVALID, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** `A`, `B`, …, `Z`, `AA` — the column letters of a zero-based index. */
+function columnLetters(index: number): string {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/** The sheet's name: the tab's, once Excel's rules for one are met. */
+export function sheetNameFor(tabName: string): string {
+  const name = tabName.replace(SHEET_NAME_FORBIDDEN, " ").trim().slice(0, MAX_SHEET_NAME).trim();
+  // A leading or trailing apostrophe is refused too; it is how a formula quotes a sheet.
+  return name.replace(/^'+|'+$/g, "") || DEFAULT_SHEET_NAME;
+}
+
+/** The significant digits in a number's text, which is what Excel can and cannot keep. */
+function significantDigits(text: string): number {
+  const mantissa = text.replace(/^-/, "").replace(/[eE].*$/, "");
+  const digits = mantissa.replace(".", "").replace(/^0+/, "");
+  return (mantissa.includes(".") ? digits : digits.replace(/0+$/, "")).length;
+}
+
+function stringCell(ref: string, text: string, style = 0): string {
+  const styleAttr = style === 0 ? "" : ` s="${style}"`;
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${xmlText(text.slice(0, MAX_CELL_CHARS))}</t></is></c>`;
+}
+
+function numberCell(ref: string, value: number, style = 0): string {
+  const styleAttr = style === 0 ? "" : ` s="${style}"`;
+  return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`;
+}
+
+/** One cell, typed by its column's kind. An empty cell is left out, which is how a sheet spells NULL. */
+function cellXml(ref: string, value: unknown, column: TypedColumn): string {
+  if (value === null || value === undefined) return "";
+  switch (column.kind) {
+    case "integer":
+    case "decimal": {
+      const text = String(value);
+      return significantDigits(text) <= MAX_EXACT_DIGITS ? numberCell(ref, Number(text)) : stringCell(ref, text);
+    }
+    case "numeric":
+      // NaN and ±Infinity have no cell form; their names are the honest text for them.
+      return Number.isFinite(value) ? numberCell(ref, value as number) : stringCell(ref, String(value));
+    case "boolean":
+      return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+    case "timestamp": {
+      const date = value as Date;
+      const serial = date.getTime() / MS_PER_DAY + EXCEL_EPOCH_OFFSET_DAYS;
+      return serial < FIRST_RELIABLE_SERIAL ? stringCell(ref, date.toISOString()) : numberCell(ref, serial, DATE_STYLE);
+    }
+    case "json":
+      return stringCell(ref, jsonText(value));
+    default:
+      return stringCell(ref, String(value));
+  }
+}
+
+function sheetXml(columns: readonly TypedColumn[], rowCount: number): string {
+  const rows: string[] = [];
+  const header = columns.map((column, c) => stringCell(`${columnLetters(c)}1`, column.name, HEADER_STYLE));
+  rows.push(`<row r="1">${header.join("")}</row>`);
+  for (let r = 0; r < rowCount; r++) {
+    const line = r + 2;
+    const cells = columns.map((column, c) => cellXml(`${columnLetters(c)}${line}`, column.values[r], column));
+    rows.push(`<row r="${line}">${cells.join("")}</row>`);
+  }
+  // The header row is frozen, so it stays in view however far down the rows are read.
+  const frozen =
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>';
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `${columns.length > 0 ? frozen : ""}<sheetData>${columns.length > 0 ? rows.join("") : ""}</sheetData></worksheet>`
+  );
+}
+
+function workbookXml(sheetName: string): string {
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${xmlText(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+  );
+}
+
+/** `columns` as the bytes of an `.xlsx` with one sheet named `sheetName`. */
+export function buildXlsx(
+  columns: readonly TypedColumn[],
+  rowCount: number,
+  sheetName: string,
+): Uint8Array<ArrayBuffer> {
+  // fflate allocates the archive's buffer itself; it is never a view of shared memory.
+  return zipSync({
+    "[Content_Types].xml": strToU8(CONTENT_TYPES_XML),
+    "_rels/.rels": strToU8(ROOT_RELS_XML),
+    "xl/workbook.xml": strToU8(workbookXml(sheetName)),
+    "xl/_rels/workbook.xml.rels": strToU8(WORKBOOK_RELS_XML),
+    "xl/styles.xml": strToU8(STYLES_XML),
+    "xl/worksheets/sheet1.xml": strToU8(sheetXml(columns, rowCount)),
+  }) as Uint8Array<ArrayBuffer>;
+}
@@ -0,0 +1,108 @@
+/**
+ * The import formats, and the one entry point that reads any of them.
+ *
+ * A format is a parser plus what the upload dialog needs to know about it: which
+ * extensions select it, whether it is binary, and whether the first bytes of the
+ * file parse as the first rows of it — which is what lets the dialog preview a
+ * file too large to read whole. Adding a format is an entry here and a case in
+ * `openImportSource`; the dialog, the column mapping and the server insert follow.
+ */
+
+import { parseCSV, parseJSON, parseNDJSON } from "./text";
+import { parseXlsx } from "./xlsx";
+import { openParquet, type AsyncBuffer } from "./parquet";
+import type { ImportColumnType, ParsedData } from "./types";
+
+export type ImportFormat = "csv" | "json" | "ndjson" | "xlsx" | "parquet";
+
+export interface ImportFormatInfo {
+  id: ImportFormat;
+  label: string;
+  /** Lower-case, with the dot. The first is the canonical one. */
+  extensions: readonly string[];
+  /** Read as bytes rather than text. */
+  binary: boolean;
+  /**
+   * Whether a prefix of the file parses as a prefix of its rows. CSV and NDJSON do,
+   * once the last partial line is dropped; a JSON array, a ZIP and a Parquet footer
+   * do not.
+   */
+  lineOriented: boolean;
+}
+
+export const IMPORT_FORMATS: readonly ImportFormatInfo[] = [
+  { id: "csv", label: "CSV", extensions: [".csv", ".tsv"], binary: false, lineOriented: true },
+  { id: "json", label: "JSON", extensions: [".json"], binary: false, lineOriented: false },
+  { id: "ndjson", label: "NDJSON", extensions: [".ndjson", ".jsonl"], binary: false, lineOriented: true },
+  { id: "xlsx", label: "Excel", extensions: [".xlsx"], binary: true, lineOriented: false },
+  { id: "parquet", label: "Parquet", extensions: [".parquet"], binary: true, lineOriented: false },
+];
+
+/** The file input's `accept`: every extension a format claims. */
+export const IMPORT_FILE_ACCEPT = IMPORT_FORMATS.flatMap((f) => f.extensions).join(",");
+
+export function isImportFormat(value: unknown): value is ImportFormat {
+  return IMPORT_FORMATS.some((f) => f.id === value);
+}
+
+function importFormatInfo(format: ImportFormat): ImportFormatInfo {
+  return IMPORT_FORMATS.find((f) => f.id === format)!;
+}
+
+/**
+ * The format a file name's extension selects. An unknown extension reads as CSV,
+ * which is what the dialog always did with one — a `.txt` export is usually CSV.
+ */
+export function importFormatFor(fileName: string): ImportFormatInfo {
+  const dot = fileName.lastIndexOf(".");
+  const ext = dot === -1 ? "" : fileName.slice(dot).toLowerCase();
+  return IMPORT_FORMATS.find((f) => f.extensions.includes(ext)) ?? IMPORT_FORMATS[0];
+}
+
+/** A text format's rows, parsed from text already read. */
+export function parseImportText(text: string, format: ImportFormat): ParsedData {
+  switch (format) {
+    case "json":
+      return parseJSON(text);
+    case "ndjson":
+      return parseNDJSON(text);
+    case "csv":
+      return parseCSV(text);
+    default:
+      throw new Error(`${importFormatInfo(format).label} is not a text format`);
+  }
+}
+
+/**
+ * A file opened for import: its columns up front, its rows read a range at a time.
+ * For every format but Parquet the file is parsed once and the ranges are slices of
+ * the result; Parquet reads each range from the file as it is asked for.
+ */
+export interface ImportSource {
+  headers: string[];
+  /** The types the file declares, when it declares any (Parquet). */
+  columnTypes?: ImportColumnType[];
+  totalRows: number;
+  readRows(start: number, end: number): Promise<string[][]>;
+}
+
+function parsedSource(data: ParsedData): ImportSource {
+  return {
+    headers: data.headers,
+    columnTypes: data.columnTypes,
+    totalRows: data.rows.length,
+    readRows: async (start, end) => data.rows.slice(start, end),
+  };
+}
+
+export async function openImportSource(
+  file: AsyncBuffer,
+  format: ImportFormat,
+  options: { sheet?: string } = {},
+): Promise<ImportSource> {
+  if (format === "parquet") return openParquet(file);
+
+  const bytes = new Uint8Array(await file.slice(0, file.byteLength));
+  if (format === "xlsx") return parsedSource(parseXlsx(bytes, { sheet: options.sheet }));
+  return parsedSource(parseImportText(new TextDecoder().decode(bytes), format));
+}
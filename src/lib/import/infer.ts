@@ -0,0 +1,73 @@
+import { jsonText } from "@/lib/export/json";
+import type { ImportColumnType } from "./types";
+
+/**
+ * The shapes a value must have to be written into a statement unquoted. They are
+ * shared with `inferSqlType` on purpose: the type is inferred from a sample, so
+ * the same test has to be applied again to each value that is emitted — one
+ * predicate, used in both places, cannot drift from itself.
+ */
+export const INTEGER_VALUE = /^-?\d+$/;
+export const NUMERIC_VALUE = /^-?\d+(\.\d+)?$/;
+export const BOOLEAN_VALUE = /^(true|false|0|1)$/i;
+/**
+ * An ISO 8601 date, optionally with a time and an offset — what `toISOString`, a
+ * Parquet timestamp and a spreadsheet date all come out as here. Anything looser
+ * (`03/04/2025`) is left TEXT: which of its numbers is the month is a guess.
+ */
+const TIMESTAMP_VALUE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** How many rows a column's type is inferred from. */
+export const INFERENCE_SAMPLE_ROWS = 100;
+
+/** The one reading of a cell as empty: absent, or a file that spelled it NULL. */
+export function isNullCell(value: string | undefined): boolean {
+  return value === undefined || value === "" || value === "null" || value === "NULL";
+}
+
+export function inferSqlType(values: string[]): ImportColumnType {
+  const nonEmpty = values.filter((v) => v !== "" && v !== null && v !== undefined);
+  if (nonEmpty.length === 0) return "TEXT";
+
+  const allIntegers = nonEmpty.every((v) => INTEGER_VALUE.test(v));
+  if (allIntegers) return "INTEGER";
+
+  const allNumbers = nonEmpty.every((v) => NUMERIC_VALUE.test(v));
+  if (allNumbers) return "NUMERIC";
+
+  const allBooleans = nonEmpty.every((v) => BOOLEAN_VALUE.test(v));
+  if (allBooleans) return "BOOLEAN";
+
+  const allTimestamps = nonEmpty.every((v) => TIMESTAMP_VALUE.test(v));
+  if (allTimestamps) return "TIMESTAMP";
+
+  return "TEXT";
+}
+
+/**
+ * One type per column: the file's own where it declares them, otherwise read from
+ * the first `INFERENCE_SAMPLE_ROWS` rows. Computed once per import — it used to be
+ * re-inferred for every cell, which re-scanned that sample rows × columns times.
+ */
+export function resolveColumnTypes(
+  headers: readonly string[],
+  rows: readonly string[][],
+  declared?: readonly ImportColumnType[],
+): ImportColumnType[] {
+  const sample = rows.slice(0, INFERENCE_SAMPLE_ROWS);
+  return headers.map((_, idx) => declared?.[idx] ?? inferSqlType(sample.map((r) => r[idx])));
+}
+
+/**
+ * A value decoded from a binary or structured file, as the text a cell holds.
+ *
+ * Absent is `""`, which the insert path writes as NULL. A nested value goes through
+ * `jsonText` rather than `String(...)`, which answers `[object Object]`, or a bare
+ * `JSON.stringify`, which throws on the bigint a Parquet INT64 decodes to.
+ */
+export function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? "" : value.toISOString();
+  if (typeof value === "object") return jsonText(value);
+  return String(value);
+}
@@ -0,0 +1,133 @@
+/**
+ * The statements an import runs: the optional `CREATE TABLE`, and the rows as
+ * multi-row `INSERT`s.
+ *
+ * Two ways to carry a value, and the choice is the engine's, not the caller's.
+ * Where `positionalPlaceholder` names a bind form the value is BOUND, so nothing in
+ * the file is ever statement text. Where it answers null there is nothing to bind
+ * against, and the value is written as a literal instead — through the same
+ * type-checked path the browser's generated SQL has always used (#290, PR #304).
+ */
+
+import type { DatabaseType } from "@/lib/types";
+import { quoteLiteral, positionalPlaceholder } from "@/lib/sql/values";
+import { BOOLEAN_VALUE, INTEGER_VALUE, NUMERIC_VALUE, isNullCell } from "./infer";
+import type { ImportColumnType } from "./types";
+
+/**
+ * The most values one statement binds. SQLite builds before 3.32 refuse more than
+ * 999 and SQL Server 2100; the lower of the two keeps one batch valid on both.
+ */
+export const MAX_BOUND_VALUES = 999;
+/** The most rows one statement inserts, however narrow the table. */
+export const MAX_BATCH_ROWS = 500;
+
+export interface ImportTarget {
+  /** Table and column names, already checked to be bare identifiers. */
+  table: string;
+  columns: readonly string[];
+  types: readonly ImportColumnType[];
+  dialect: DatabaseType;
+}
+
+export interface ImportStatement {
+  sql: string;
+  params: unknown[];
+}
+
+/** How many rows one `INSERT` carries for a table this wide. */
+export function importBatchSize(columnCount: number): number {
+  return Math.max(1, Math.min(MAX_BATCH_ROWS, Math.floor(MAX_BOUND_VALUES / Math.max(1, columnCount))));
+}
+
+/**
+ * A cell as a SQL literal of its column's type.
+ *
+ * The type came from a sample, so every value outside it is outside the evidence for
+ * it. Each one is tested again by the same predicate that typed the column, and one
+ * that fails falls through to a quoted literal: unquoted text is statement grammar,
+ * and a row past the sample used to be able to carry `0); DELETE FROM users; --`
+ * straight into an import the user then executes (PR #304 review). A value the
+ * engine will refuse for its column is better than one it reads as SQL: the type
+ * error names the row, and nothing executes.
+ */
+export function importLiteral(value: string, type: ImportColumnType, dialect?: DatabaseType): string {
+  if (isNullCell(value)) return "NULL";
+  if (type === "BOOLEAN" && BOOLEAN_VALUE.test(value)) {
+    return value.toLowerCase() === "true" || value === "1" ? "TRUE" : "FALSE";
+  }
+  if (type === "INTEGER" && INTEGER_VALUE.test(value)) return value;
+  if (type === "NUMERIC" && NUMERIC_VALUE.test(value)) return value;
+  return quoteLiteral(value, dialect);
+}
+
+/**
+ * A cell as a bound value. Text goes to the driver as text, which every engine
+ * casts to a numeric or timestamp column on its own; only a boolean is converted,
+ * because `"0"` bound to a BOOLEAN is an error on PostgreSQL. Oracle's column is a
+ * `NUMBER(1)`, so it gets the 1 or 0 its driver can bind there.
+ */
+function importParam(value: string, type: ImportColumnType, dialect: DatabaseType): unknown {
+  if (isNullCell(value)) return null;
+  if (type === "BOOLEAN" && BOOLEAN_VALUE.test(value)) {
+    const flag = value.toLowerCase() === "true" || value === "1";
+    return dialect === "oracle" ? Number(flag) : flag;
+  }
+  return value;
+}
+
+/**
+ * What an import type is called where its own keyword means something else or
+ * nothing. SQL Server's `TIMESTAMP` is a rowversion no insert may write, and it has
+ * no `BOOLEAN`; Oracle has no `TEXT`, and no `BOOLEAN` before 23ai. A bare `NUMERIC`
+ * is scale 0 on SQL Server and `DECIMAL(10,0)` on MySQL, which would round every
+ * fraction away; MySQL's `TIMESTAMP` stops at 2038. Any other dialect takes the
+ * keyword as it is.
+ */
+const DIALECT_COLUMN_TYPES: Partial<Record<DatabaseType, Partial<Record<ImportColumnType, string>>>> = {
+  mysql: { NUMERIC: "DECIMAL(65, 30)", TIMESTAMP: "DATETIME" },
+  mssql: { NUMERIC: "DECIMAL(38, 10)", BOOLEAN: "BIT", TIMESTAMP: "DATETIME2", TEXT: "NVARCHAR(MAX)" },
+  oracle: { NUMERIC: "NUMBER", BOOLEAN: "NUMBER(1)", TEXT: "CLOB" },
+};
+
+/** An import type as the dialect's column type. */
+function columnTypeFor(type: ImportColumnType, dialect: DatabaseType): string {
+  return DIALECT_COLUMN_TYPES[dialect]?.[type] ?? type;
+}
+
+/**
+ * `CREATE TABLE` for an import into a new table. No trailing `;`: these run one
+ * statement per call through the driver, and Oracle's refuses one.
+ */
+export function buildCreateTable(target: ImportTarget): string {
+  const defs = target.columns.map((name, idx) => `  ${name} ${columnTypeFor(target.types[idx], target.dialect)}`);
+  return `CREATE TABLE ${target.table} (\n${defs.join(",\n")}\n)`;
+}
+
+/**
+ * One `INSERT` for a batch of rows. Oracle before 23ai has no multi-row `VALUES`,
+ * so it gets the `INSERT ALL … SELECT 1 FROM DUAL` form that means the same.
+ */
+export function buildInsertBatch(target: ImportTarget, rows: readonly string[][]): ImportStatement {
+  const params: unknown[] = [];
+  const columnList = target.columns.join(", ");
+
+  const tuples = rows.map((row) => {
+    const values = target.columns.map((_, idx) => {
+      const type = target.types[idx];
+      const cell = row[idx] ?? "";
+      const placeholder = positionalPlaceholder(target.dialect, params.length + 1);
+      if (placeholder === null) return importLiteral(cell, type, target.dialect);
+      params.push(importParam(cell, type, target.dialect));
+      return placeholder;
+    });
+    return `(${values.join(", ")})`;
+  });
+
+  if (target.dialect === "oracle") {
+    const into = tuples.map((tuple) => `  INTO ${target.table} (${columnList}) VALUES ${tuple}`);
+    return { sql: `INSERT ALL\n${into.join("\n")}\nSELECT 1 FROM DUAL`, params };
+  }
+
+  return { sql: `INSERT INTO ${target.table} (${columnList})\nVALUES\n  ${tuples.join(",\n  ")}`, params };
+}
@@ -0,0 +1,104 @@
+/**
+ * A reader for Apache Parquet files, over `hyparquet`.
+ *
+ * Parquet is the one import format that declares its column types, so they are
+ * taken from the file's schema rather than inferred from a sample of rows: an INT64
+ * column is INTEGER even when its first hundred values are all null.
+ *
+ * The file is read through an `AsyncBuffer` — anything with a `byteLength` and a
+ * `slice` — so the browser can hand over a `File` and have only the footer and the
+ * row groups it previews read off disk, and the server can read a large upload a
+ * batch of rows at a time instead of decoding the whole file into objects at once.
+ */
+
+import { parquetMetadataAsync, parquetReadObjects, parquetSchema } from "hyparquet";
+import type { AsyncBuffer, FileMetaData, SchemaElement } from "hyparquet";
+import { cellText } from "./infer";
+import type { ImportColumnType, ParsedData, ParseOptions } from "./types";
+
+export type { AsyncBuffer } from "hyparquet";
+
+/** A browser `File` (or any `Blob`) as something hyparquet can read ranges of. */
+export function blobAsyncBuffer(blob: Blob): AsyncBuffer {
+  return { byteLength: blob.size, slice: (start, end) => blob.slice(start, end).arrayBuffer() };
+}
+
+/** The import type of one top-level Parquet column. */
+function columnType(element: SchemaElement): ImportColumnType {
+  // A group — a struct, a list or a map — is imported as its JSON text.
+  if (element.num_children) return "TEXT";
+
+  const logical = element.logical_type?.type;
+  const converted = element.converted_type;
+  if (logical === "DECIMAL" || converted === "DECIMAL") return "NUMERIC";
+  if (logical === "TIMESTAMP" || logical === "DATE" || converted === "DATE" || converted?.startsWith("TIMESTAMP")) {
+    return "TIMESTAMP";
+  }
+  if (logical === "TIME" || converted?.startsWith("TIME")) return "TEXT";
+
+  switch (element.type) {
+    case "BOOLEAN":
+      return "BOOLEAN";
+    case "INT32":
+    case "INT64":
+      return "INTEGER";
+    case "FLOAT":
+    case "DOUBLE":
+      return "NUMERIC";
+    case "INT96":
+      return "TIMESTAMP";
+    default:
+      return "TEXT";
+  }
+}
+
+/** A decoded Parquet value as cell text. Raw bytes — a non-UTF-8 BYTE_ARRAY — as hex. */
+function parquetCellText(value: unknown): string {
+  if (value instanceof Uint8Array) return Array.from(value, (b) => b.toString(16).padStart(2, "0")).join("");
+  return cellText(value);
+}
+
+/** The parts of a Parquet file an import reads once and then pages through. */
+export interface ParquetImportSource {
+  headers: string[];
+  columnTypes: ImportColumnType[];
+  totalRows: number;
+  /** Rows `[start, end)` as cell text, in header order. */
+  readRows(start: number, end: number): Promise<string[][]>;
+}
+
+export async function openParquet(file: AsyncBuffer): Promise<ParquetImportSource> {
+  let metadata: FileMetaData;
+  try {
+    metadata = await parquetMetadataAsync(file);
+  } catch {
+    throw new Error("Not a valid Parquet file");
+  }
+
+  const columns = parquetSchema(metadata).children.map((child) => child.element);
+  const headers = columns.map((c) => c.name);
+
+  return {
+    headers,
+    columnTypes: columns.map(columnType),
+    totalRows: Number(metadata.num_rows),
+    async readRows(start, end) {
+      if (end <= start) return [];
+      const objects = await parquetReadObjects({ file, metadata, rowStart: start, rowEnd: end });
+      return objects.map((obj) => headers.map((h) => parquetCellText(obj[h])));
+    },
+  };
+}
+
+/** Read a Parquet file, or its first `maxRows` rows, into rows of text. */
+export async function parseParquet(file: AsyncBuffer, options: ParseOptions = {}): Promise<ParsedData> {
+  const source = await openParquet(file);
+  const end = options.maxRows === undefined ? source.totalRows : Math.min(options.maxRows, source.totalRows);
+  return {
+    headers: source.headers,
+    rows: await source.readRows(0, end),
+    totalRows: source.totalRows,
+    columnTypes: source.columnTypes,
+    ...(end < source.totalRows && { truncated: true }),
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * The text formats an import reads: CSV, a JSON array and NDJSON. Each is parsed
+ * from a string that is already in memory — the browser's for a file small enough
+ * to import from the tab, the server's for one that is not.
+ */
+
+import { cellText } from "./infer";
+import type { ParsedData } from "./types";
+
+export function parseCSV(text: string): ParsedData {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return { headers: [], rows: [], totalRows: 0 };
+
+  // Parse CSV with basic quote handling
+  const parseLine = (line: string): string[] => {
+    const result: string[] = [];
+    let current = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (ch === '"' && !inQuotes) {
+        inQuotes = true;
+      } else if (ch === '"' && inQuotes) {
+        if (i + 1 < line.length && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else if (ch === "," && !inQuotes) {
+        result.push(current.trim());
+        current = "";
+      } else {
+        current += ch;
+      }
+    }
+    result.push(current.trim());
+    return result;
+  };
+
+  const headers = parseLine(lines[0]);
+  const rows = lines.slice(1).map((line) => parseLine(line));
+  return { headers, rows, totalRows: rows.length };
+}
+
+/**
+ * Objects as rows. The header is every key any object carries, in the order they
+ * first appear: a document export rarely gives every record the same shape, and a
+ * key missing from the first one is still a column.
+ */
+function objectsToParsed(objects: readonly Record<string, unknown>[]): ParsedData {
+  if (objects.length === 0) return { headers: [], rows: [], totalRows: 0 };
+
+  const headers = [...new Set(objects.flatMap((obj) => Object.keys(obj)))];
+  const rows = objects.map((obj) => headers.map((h) => cellText(obj[h])));
+  return { headers, rows, totalRows: rows.length };
+}
+
+export function parseJSON(text: string): ParsedData {
+  const data = JSON.parse(text);
+  return objectsToParsed(Array.isArray(data) ? data : [data]);
+}
+
+/**
+ * Newline-delimited JSON: one object per line, blank lines ignored.
+ *
+ * A line that does not parse is reported by its line number rather than skipped.
+ * Skipping would import a file with rows silently missing, and `JSON.parse`'s own
+ * message gives a character offset into a string the user never sees.
+ */
+export function parseNDJSON(text: string): ParsedData {
+  const objects: Record<string, unknown>[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${i + 1} is not valid JSON`);
+    }
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+      throw new Error(`Line ${i + 1} is not a JSON object`);
+    }
+    objects.push(value as Record<string, unknown>);
+  }
+
+  return objectsToParsed(objects);
+}
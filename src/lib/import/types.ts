@@ -0,0 +1,42 @@
+/**
+ * The column types an import can create a table with. Deliberately few: each one
+ * has a counterpart in every SQL dialect the studio writes to, under its own name
+ * where the keyword differs (`columnTypeFor` in `insert.ts`), so a `CREATE TABLE`
+ * generated from a file runs wherever the import does. A finer type is the user's
+ * to choose in the configure step, not the inference's to guess.
+ */
+export type ImportColumnType = "INTEGER" | "NUMERIC" | "BOOLEAN" | "TIMESTAMP" | "TEXT";
+
+export const IMPORT_COLUMN_TYPES: readonly ImportColumnType[] = ["INTEGER", "NUMERIC", "BOOLEAN", "TIMESTAMP", "TEXT"];
+
+/**
+ * A file read into rows of text, whatever its format.
+ *
+ * Every cell is a string, with `""` for absent, because that is what the insert
+ * path consumes: the value is typed again at the point it is written, against the
+ * column's type (see `inferSqlType`), so a cell never reaches SQL on the strength
+ * of how the file happened to encode it.
+ */
+export interface ParsedData {
+  headers: string[];
+  rows: string[][];
+  /** Rows in the whole file. Larger than `rows.length` when the read was `truncated`. */
+  totalRows: number;
+  /**
+   * Types the FILE declares, one per header. Parquet carries a schema; CSV, JSON and
+   * spreadsheets do not, and leave this unset so the types are inferred from rows.
+   */
+  columnTypes?: ImportColumnType[];
+  /**
+   * Set when `rows` is a preview of the file rather than all of it — a file too
+   * large to hold in the tab. Such an import runs on the server (`POST /api/db/import`),
+   * which reads the file again, whole.
+   */
+  truncated?: boolean;
+}
+
+/** Options every parser takes. */
+export interface ParseOptions {
+  /** Stop after this many data rows; the result is marked `truncated` when rows were left. */
+  maxRows?: number;
+}
@@ -0,0 +1,294 @@
+/**
+ * A reader for the first, or a chosen, sheet of an Excel workbook (`.xlsx`).
+ *
+ * An `.xlsx` file is a ZIP of XML parts (ECMA-376, "Office Open XML"). Only the
+ * parts a grid of values needs are inflated — the workbook's sheet list, the sheet
+ * itself, the shared string table and the cell styles, which are where a date is
+ * told apart from a number — so an embedded image or a pivot cache costs nothing.
+ *
+ * The XML is read with patterns rather than a DOM parser because the same code runs
+ * in the browser and in a route handler, and the server has no `DOMParser`. The
+ * parts this reads are machine-written and regular; what a pattern cannot see —
+ * formulas, merged cells, formatting — an import has no use for. A formula cell is
+ * imported as its cached value, which is what the spreadsheet displayed.
+ *
+ * `.xls`, the binary format before 2007, is a different file altogether and is not
+ * read: the import refuses it by extension rather than mis-reading it.
+ */
+
+import { unzipSync, strFromU8 } from "fflate";
+import type { ParsedData, ParseOptions } from "./types";
+
+export interface XlsxParseOptions extends ParseOptions {
+  /** The sheet to read, by name. The first sheet when absent. */
+  sheet?: string;
+}
+
+interface SheetEntry {
+  name: string;
+  /** Path of the sheet's part inside the ZIP, e.g. `xl/worksheets/sheet1.xml`. */
+  path: string;
+}
+
+const WORKBOOK_PART = "xl/workbook.xml";
+const WORKBOOK_RELS_PART = "xl/_rels/workbook.xml.rels";
+const SHARED_STRINGS_PART = "xl/sharedStrings.xml";
+const STYLES_PART = "xl/styles.xml";
+
+/** Days between the 1900 date system's epoch (as Excel counts it) and 1970-01-01. */
+const EPOCH_1900_OFFSET_DAYS = 25569;
+/** The same for a workbook saved with the 1904 date system (old Mac Excel). */
+const EPOCH_1904_OFFSET_DAYS = 24107;
+const MS_PER_DAY = 86_400_000;
+
+/** Built-in number formats (ECMA-376 §18.8.30) that show a date, or a date and time. */
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 22]);
+/** Built-in number formats that show a time of day only. */
+const BUILTIN_TIME_FORMATS = new Set([18, 19, 20, 21, 45, 46, 47]);
+
+type CellFormat = "date" | "time" | "number";
+
+function unzipParts(bytes: Uint8Array, wanted: (name: string) => boolean): Record<string, Uint8Array> {
+  try {
+    return unzipSync(bytes, { filter: (file) => wanted(file.name) });
+  } catch {
+    throw new Error("Not a valid .xlsx file");
+  }
+}
+
+function decodeEntities(text: string): string {
+  return (
+    text
+      .replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_, entity: string) => {
+        switch (entity) {
+          case "lt":
+            return "<";
+          case "gt":
+            return ">";
+          case "amp":
+            return "&";
+          case "quot":
+            return '"';
+          case "apos":
+            return "'";
+          default:
+            return String.fromCodePoint(
+              entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10),
+            );
+        }
+      })
+      // OOXML's own escape for a character XML cannot carry, `_x000D_` for a CR.
+      .replace(/_x([0-9a-fA-F]{4})_/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+  );
+}
+
+function attribute(attrs: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attrs);
+  return match ? decodeEntities(match[1]) : undefined;
+}
+
+/** The text of a string item: every `<t>` run, without the phonetic guide (`<rPh>`). */
+function runText(xml: string): string {
+  const withoutPhonetic = xml.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, "");
+  let text = "";
+  for (const match of withoutPhonetic.matchAll(/<(?:\w+:)?t(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?t>/g)) {
+    text += decodeEntities(match[1]);
+  }
+  return text;
+}
+
+function readSheetEntries(parts: Record<string, Uint8Array>): SheetEntry[] {
+  const workbook = parts[WORKBOOK_PART];
+  if (!workbook) throw new Error("Not a valid .xlsx file: it has no workbook");
+
+  const targets = new Map<string, string>();
+  const rels = parts[WORKBOOK_RELS_PART];
+  if (rels) {
+    for (const match of strFromU8(rels).matchAll(/<(?:\w+:)?Relationship\b([^>]*)\/?>/g)) {
+      const id = attribute(match[1], "Id");
+      const target = attribute(match[1], "Target");
+      if (id && target) targets.set(id, target);
+    }
+  }
+
+  const sheets: SheetEntry[] = [];
+  for (const match of strFromU8(workbook).matchAll(/<(?:\w+:)?sheet\b([^>]*)\/?>/g)) {
+    const name = attribute(match[1], "name");
+    const relId = attribute(match[1], "r:id");
+    const target = relId ? targets.get(relId) : undefined;
+    if (!name || !target) continue;
+    // A target is relative to `xl/`, or absolute from the package root.
+    const path = target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`;
+    sheets.push({ name, path });
+  }
+  return sheets;
+}
+
+/** The sheet names in a workbook, in the order its tabs show them. */
+export function listXlsxSheets(bytes: Uint8Array): string[] {
+  const parts = unzipParts(bytes, (name) => name === WORKBOOK_PART || name === WORKBOOK_RELS_PART);
+  return readSheetEntries(parts).map((s) => s.name);
+}
+
+function readSharedStrings(part: Uint8Array | undefined): string[] {
+  if (!part) return [];
+  const strings: string[] = [];
+  for (const match of strFromU8(part).matchAll(/<(?:\w+:)?si>([\s\S]*?)<\/(?:\w+:)?si>|<(?:\w+:)?si\s*\/>/g)) {
+    strings.push(match[1] ? runText(match[1]) : "");
+  }
+  return strings;
+}
+
+/**
+ * Whether a format code shows a date or time. Quoted literals, `\`-escaped
+ * characters and bracketed sections (`[Red]`, `[$-409]`) are not part of the
+ * pattern and are skipped, so `"Day "0` is not mistaken for a date.
+ */
+function classifyFormatCode(code: string): CellFormat {
+  const bare = code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, "");
+  if (/[dy]/i.test(bare)) return "date";
+  if (/[hs]/i.test(bare)) return "time";
+  return "number";
+}
+
+/** The display class of every cell style (`s="n"` indexes `<cellXfs>`). */
+function readCellFormats(part: Uint8Array | undefined): CellFormat[] {
+  if (!part) return [];
+  const xml = strFromU8(part);
+
+  const custom = new Map<number, CellFormat>();
+  for (const match of xml.matchAll(/<(?:\w+:)?numFmt\b([^>]*)\/?>/g)) {
+    const id = Number(attribute(match[1], "numFmtId"));
+    const code = attribute(match[1], "formatCode");
+    if (Number.isInteger(id) && code !== undefined) custom.set(id, classifyFormatCode(code));
+  }
+
+  const cellXfs = /<(?:\w+:)?cellXfs\b[^>]*>([\s\S]*?)<\/(?:\w+:)?cellXfs>/.exec(xml);
+  if (!cellXfs) return [];
+
+  const formats: CellFormat[] = [];
+  for (const match of cellXfs[1].matchAll(/<(?:\w+:)?xf\b([^>]*?)\/?>/g)) {
+    const id = Number(attribute(match[1], "numFmtId") ?? 0);
+    formats.push(
+      custom.get(id) ?? (BUILTIN_DATE_FORMATS.has(id) ? "date" : BUILTIN_TIME_FORMATS.has(id) ? "time" : "number"),
+    );
+  }
+  return formats;
+}
+
+/**
+ * A date serial as ISO 8601 text: a date alone when it has no time part, a local
+ * date-time otherwise. There is no offset to write — a spreadsheet date is a
+ * wall-clock reading, not an instant.
+ */
+function serialToText(serial: number, format: CellFormat, offsetDays: number): string {
+  const iso = new Date(Math.round((serial - offsetDays) * MS_PER_DAY)).toISOString();
+  if (format === "time") return iso.slice(11, 19);
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19);
+}
+
+/** `"AB"` → 27: the zero-based column a cell reference's letters name. */
+function columnIndex(letters: string): number {
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+interface CellContext {
+  sharedStrings: string[];
+  formats: CellFormat[];
+  offsetDays: number;
+}
+
+function cellValue(attrs: string, inner: string, ctx: CellContext): string {
+  const type = attribute(attrs, "t") ?? "n";
+  if (type === "inlineStr") {
+    const is = /<(?:\w+:)?is>([\s\S]*?)<\/(?:\w+:)?is>/.exec(inner);
+    return is ? runText(is[1]) : "";
+  }
+
+  const v = /<(?:\w+:)?v>([\s\S]*?)<\/(?:\w+:)?v>/.exec(inner);
+  if (!v) return "";
+  const raw = decodeEntities(v[1]);
+
+  switch (type) {
+    case "s":
+      return ctx.sharedStrings[Number(raw)] ?? "";
+    case "b":
+      return raw === "1" ? "true" : "false";
+    // An error value (`#DIV/0!`) is not data; importing it as text would put the
+    // error into a column as though the sheet had held that string.
+    case "e":
+      return "";
+    // `str` is a formula's string result and `d` an ISO date; both are already text.
+    case "str":
+    case "d":
+      return raw;
+    default: {
+      const format = ctx.formats[Number(attribute(attrs, "s") ?? 0)] ?? "number";
+      const serial = Number(raw);
+      if (format !== "number" && Number.isFinite(serial)) return serialToText(serial, format, ctx.offsetDays);
+      return raw;
+    }
+  }
+}
+
+/**
+ * Read one sheet into rows. The first row that holds anything is the header; a
+ * header cell left blank is named after its position (`column_3`) so every column
+ * still has a name to map. Rows with no value in any cell are skipped, as a CSV
+ * reader skips a blank line.
+ */
+export function parseXlsx(bytes: Uint8Array, options: XlsxParseOptions = {}): ParsedData {
+  const index = unzipParts(bytes, (name) => name === WORKBOOK_PART || name === WORKBOOK_RELS_PART);
+  const sheets = readSheetEntries(index);
+  if (sheets.length === 0) throw new Error("The workbook has no sheets");
+
+  const sheet = options.sheet === undefined ? sheets[0] : sheets.find((s) => s.name === options.sheet);
+  if (!sheet) throw new Error(`The workbook has no sheet named "${options.sheet}"`);
+
+  const parts = unzipParts(
+    bytes,
+    (name) => name === sheet.path || name === SHARED_STRINGS_PART || name === STYLES_PART,
+  );
+  const sheetPart = parts[sheet.path];
+  if (!sheetPart) throw new Error(`Sheet "${sheet.name}" is missing from the workbook`);
+
+  const ctx: CellContext = {
+    sharedStrings: readSharedStrings(parts[SHARED_STRINGS_PART]),
+    formats: readCellFormats(parts[STYLES_PART]),
+    offsetDays: /<(?:\w+:)?workbookPr\b[^>]*\bdate1904="(1|true)"/.test(strFromU8(index[WORKBOOK_PART]))
+      ? EPOCH_1904_OFFSET_DAYS
+      : EPOCH_1900_OFFSET_DAYS,
+  };
+
+  const grid: string[][] = [];
+  const rowPattern = /<(?:\w+:)?row\b[^>]*>([\s\S]*?)<\/(?:\w+:)?row>/g;
+  const cellPattern = /<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g;
+  for (const row of strFromU8(sheetPart).matchAll(rowPattern)) {
+    const cells: string[] = [];
+    let next = 0;
+    for (const cell of row[1].matchAll(cellPattern)) {
+      // A cell's reference places it; a writer may omit empty cells, or the reference.
+      const ref = /^([A-Z]+)\d+$/.exec(attribute(cell[1], "r") ?? "");
+      const col = ref ? columnIndex(ref[1]) : next;
+      cells[col] = cellValue(cell[1], cell[2] ?? "", ctx);
+      next = col + 1;
+    }
+    if (cells.some((c) => c !== undefined && c !== "")) grid.push(Array.from(cells, (c) => c ?? ""));
+  }
+
+  if (grid.length === 0) return { headers: [], rows: [], totalRows: 0 };
+
+  const width = grid.reduce((max, r) => Math.max(max, r.length), 0);
+  const headers = Array.from({ length: width }, (_, i) => grid[0][i]?.trim() || `column_${i + 1}`);
+  const all = grid.slice(1).map((r) => Array.from({ length: width }, (_, i) => r[i] ?? ""));
+
+  const truncated = options.maxRows !== undefined && all.length > options.maxRows;
+  return {
+    headers,
+    rows: truncated ? all.slice(0, options.maxRows) : all,
+    totalRows: all.length,
+    ...(truncated && { truncated }),
+  };
+}
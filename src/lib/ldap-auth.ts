@@ -0,0 +1,300 @@
+/**
+ * LDAP / Active Directory authentication provider - the third sibling of
+ * `local-auth.ts` and `oidc.ts`, enabled with NEXT_PUBLIC_AUTH_PROVIDER=ldap. A
+ * login is a bind against the directory as the person signing in; the session it
+ * leads to is the same local JWT the other two issue (`auth.ts`).
+ *
+ * Two ways to find the person's entry:
+ * - direct bind: `LDAP_USER_DN_TEMPLATE` turns the login name into a DN
+ *   (`uid={username},ou=people,dc=example,dc=org`, or `{username}@corp.example.com`
+ *   for Active Directory's UPN form);
+ * - search: a service account (`LDAP_BIND_DN`) looks the login name up under
+ *   `LDAP_SEARCH_BASE` with `LDAP_SEARCH_FILTER`, and the entry found is bound to.
+ */
+import { readFileSync } from "node:fs";
+import type tls from "node:tls";
+import { AuthConfigError } from "@/lib/auth-errors";
+import type { AccessRole } from "@/lib/access/types";
+import { LDAP_SUCCESS, type LdapConnection, type LdapEntry, openLdapConnection } from "@/lib/ldap/client";
+import { encodeFilter, escapeFilterValue, LdapFilterError } from "@/lib/ldap/filter";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface LDAPConfig {
+  url: string;
+  startTls: boolean;
+  tlsOptions: tls.ConnectionOptions;
+  timeoutMs: number;
+  /** Direct-bind mode: the DN (or UPN) with `{username}` where the login name goes. */
+  userDnTemplate: string;
+  /** Search mode: the service account that looks people up, and where and how. */
+  bindDn: string;
+  bindPassword: string;
+  searchBase: string;
+  searchFilter: string;
+  /** The attribute on a person's entry that lists their groups' DNs. */
+  groupAttribute: string;
+  /** Groups that list their members instead (OpenLDAP without the memberOf overlay). */
+  groupSearchBase: string;
+  groupSearchFilter: string;
+  /** The attribute read as the person's address, for display: never who the session is. */
+  emailAttribute: string;
+  adminGroups: string[];
+}
+
+/** Who a successful bind proved the caller to be. */
+export interface LDAPIdentity {
+  dn: string;
+  /**
+   * The login name the bind proved, in lower case: the directory matched it, so
+   * the person cannot choose it. Not `mail`, which many directories let a person
+   * edit on their own entry, so it would let them name themselves someone else.
+   */
+  username: string;
+  /** The entry's `emailAttribute`, when it has one: shown, never trusted. */
+  email?: string;
+  /** The DNs of every group the entry belongs to, as the directory wrote them. */
+  groups: string[];
+}
+
+// ─── Configuration ──────────────────────────────────────────────────────────
+
+// Hoisted single-line messages, matching OIDC_CONFIG_MISSING_MESSAGE in src/lib/oidc.ts.
+const LDAP_URL_MISSING_MESSAGE = "LDAP_URL is required when using LDAP authentication";
+const LDAP_MODE_MISSING_MESSAGE =
+  "Set LDAP_USER_DN_TEMPLATE to bind directly, or LDAP_BIND_DN, LDAP_BIND_PASSWORD and LDAP_SEARCH_BASE to search for the user first";
+const LDAP_TEMPLATE_PLACEHOLDER_MESSAGE = "LDAP_USER_DN_TEMPLATE must contain {username}";
+const LDAP_STARTTLS_ON_LDAPS_MESSAGE = "LDAP_START_TLS cannot be used with an ldaps:// URL, which is already encrypted";
+
+const DEFAULT_TIMEOUT_MS = 5_000;
+
+function envFlag(name: string): boolean | undefined {
+  const value = process.env[name]?.trim().toLowerCase();
+  if (!value) return undefined;
+  return ["1", "true", "on", "yes"].includes(value);
+}
+
+function checkFilter(name: string, filter: string, placeholder: string): void {
+  try {
+    encodeFilter(filter.replaceAll(placeholder, "x"));
+  } catch (error) {
+    if (error instanceof LdapFilterError)
+      throw new AuthConfigError(`${name} is not a valid LDAP filter: ${error.message}`);
+    throw error;
+  }
+}
+
+/**
+ * Read the LDAP settings from the environment. Read fresh on each login, like
+ * `getOIDCConfig()`, so there is nothing to invalidate.
+ *
+ * @throws {AuthConfigError} when the settings cannot describe a working login.
+ */
+export function getLDAPConfig(): LDAPConfig {
+  const url = process.env.LDAP_URL?.trim();
+  if (!url) throw new AuthConfigError(LDAP_URL_MISSING_MESSAGE);
+
+  const startTls = envFlag("LDAP_START_TLS") ?? false;
+  if (startTls && url.toLowerCase().startsWith("ldaps:")) throw new AuthConfigError(LDAP_STARTTLS_ON_LDAPS_MESSAGE);
+
+  const tlsOptions: tls.ConnectionOptions = { rejectUnauthorized: envFlag("LDAP_TLS_REJECT_UNAUTHORIZED") ?? true };
+  const caFile = process.env.LDAP_TLS_CA_FILE?.trim();
+  if (caFile) {
+    try {
+      tlsOptions.ca = readFileSync(caFile);
+    } catch (error) {
+      throw new AuthConfigError(
+        `LDAP_TLS_CA_FILE could not be read: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  const userDnTemplate = process.env.LDAP_USER_DN_TEMPLATE?.trim() || "";
+  const bindDn = process.env.LDAP_BIND_DN?.trim() || "";
+  const bindPassword = process.env.LDAP_BIND_PASSWORD || "";
+  const searchBase = process.env.LDAP_SEARCH_BASE?.trim() || "";
+  // Search mode wins when both are configured: it is the one that can find people who sit
+  // in different OUs, which is the usual reason someone configured it.
+  if (!bindDn || !bindPassword || !searchBase) {
+    if (!userDnTemplate) throw new AuthConfigError(LDAP_MODE_MISSING_MESSAGE);
+    if (!userDnTemplate.includes("{username}")) throw new AuthConfigError(LDAP_TEMPLATE_PLACEHOLDER_MESSAGE);
+  }
+
+  const searchFilter = process.env.LDAP_SEARCH_FILTER?.trim() || "(uid={username})";
+  const groupSearchFilter = process.env.LDAP_GROUP_SEARCH_FILTER?.trim() || "(|(member={dn})(uniqueMember={dn}))";
+  checkFilter("LDAP_SEARCH_FILTER", searchFilter, "{username}");
+  checkFilter("LDAP_GROUP_SEARCH_FILTER", groupSearchFilter, "{dn}");
+
+  const timeout = Number(process.env.LDAP_TIMEOUT_MS);
+
+  return {
+    url,
+    startTls,
+    tlsOptions,
+    timeoutMs: Number.isInteger(timeout) && timeout > 0 ? timeout : DEFAULT_TIMEOUT_MS,
+    userDnTemplate,
+    bindDn,
+    bindPassword,
+    searchBase,
+    searchFilter,
+    groupAttribute: process.env.LDAP_GROUP_ATTRIBUTE?.trim() || "memberOf",
+    groupSearchBase: process.env.LDAP_GROUP_SEARCH_BASE?.trim() || "",
+    groupSearchFilter,
+    emailAttribute: process.env.LDAP_EMAIL_ATTRIBUTE?.trim() || "mail",
+    adminGroups: (process.env.LDAP_ADMIN_GROUPS || "")
+      .split(";")
+      .map((group) => group.trim())
+      .filter(Boolean),
+  };
+}
+
+// ─── Authentication ─────────────────────────────────────────────────────────
+
+/**
+ * A value made safe to put in a DN (RFC 4514 section 2.4), for the direct-bind
+ * template: a login name of `alice,ou=admins` must not choose its own OU.
+ */
+export function escapeDnValue(value: string): string {
+  return value
+    .replace(/[\\,+"<>;=\0]/g, (char) => (char === "\0" ? "\\00" : `\\${char}`))
+    .replace(/^([ #])/, "\\$1")
+    .replace(/ $/, "\\ ");
+}
+
+function firstValue(entry: LdapEntry | undefined, attribute: string): string | undefined {
+  return entry?.attributes[attribute.toLowerCase()]?.[0];
+}
+
+async function findGroups(connection: LdapConnection, config: LDAPConfig, entry: LdapEntry): Promise<string[]> {
+  const groups = [...(entry.attributes[config.groupAttribute.toLowerCase()] ?? [])];
+  if (config.groupSearchBase) {
+    const listed = await connection.search({
+      base: config.groupSearchBase,
+      scope: "sub",
+      filter: config.groupSearchFilter.replaceAll("{dn}", escapeFilterValue(entry.dn)),
+      attributes: ["1.1"],
+    });
+    groups.push(...listed.map((group) => group.dn));
+  }
+  return [...new Set(groups)];
+}
+
+/**
+ * Bind to the directory as `username` with `password`, and read the entry's
+ * groups. `null` for a wrong password, an unknown name, or a name that matches
+ * more than one entry in search mode.
+ *
+ * @throws {AuthConfigError} when the service account cannot bind.
+ * @throws {LdapUnavailableError} when the directory cannot be reached.
+ * @throws {LdapResultError} when a search the login needs is refused.
+ */
+export async function authenticateLDAP(
+  username: string,
+  password: string,
+  config: LDAPConfig = getLDAPConfig(),
+): Promise<LDAPIdentity | null> {
+  const login = username.trim();
+  // An empty password is an "unauthenticated bind" (RFC 4513 section 5.1.2), which many
+  // directories answer with success without checking anything. It is refused here, before
+  // the directory is asked, whatever the server would do.
+  if (!login || !password) return null;
+
+  const attributes = [config.emailAttribute, config.groupAttribute];
+  const connection = await openLdapConnection({
+    url: config.url,
+    startTls: config.startTls,
+    tlsOptions: config.tlsOptions,
+    timeoutMs: config.timeoutMs,
+  });
+  try {
+    const searchMode = Boolean(config.bindDn && config.bindPassword && config.searchBase);
+    let entry: LdapEntry | undefined;
+
+    if (searchMode) {
+      if ((await connection.bind(config.bindDn, config.bindPassword)) !== LDAP_SUCCESS) {
+        throw new AuthConfigError("The LDAP service account could not bind; check LDAP_BIND_DN and LDAP_BIND_PASSWORD");
+      }
+      // Two is enough to know the name is ambiguous, and a name that matches two entries
+      // must not sign in as whichever the directory listed first.
+      const found = await connection.search({
+        base: config.searchBase,
+        scope: "sub",
+        filter: config.searchFilter.replaceAll("{username}", escapeFilterValue(login)),
+        attributes,
+        sizeLimit: 2,
+      });
+      if (found.length !== 1) return null;
+      entry = found[0];
+      if ((await connection.bind(entry.dn, password)) !== LDAP_SUCCESS) return null;
+      // Group lookups run as the service account, which is what was granted read access to
+      // the groups; a person's own bind often is not.
+      if (config.groupSearchBase && (await connection.bind(config.bindDn, config.bindPassword)) !== LDAP_SUCCESS) {
+        throw new AuthConfigError("The LDAP service account could not bind; check LDAP_BIND_DN and LDAP_BIND_PASSWORD");
+      }
+    } else {
+      const dn = config.userDnTemplate.replaceAll("{username}", escapeDnValue(login));
+      if ((await connection.bind(dn, password)) !== LDAP_SUCCESS) return null;
+      // A DN template is its own search base. A UPN template (`alice@corp.example.com`) binds
+      // without naming the entry, so it is looked up - as the person, who can read their own
+      // entry - with LDAP_SEARCH_FILTER under LDAP_SEARCH_BASE; without a base there is no
+      // entry to read, and the session has the login name and no groups.
+      const found = dn.includes("=")
+        ? await connection.search({ base: dn, scope: "base", filter: "(objectClass=*)", attributes })
+        : config.searchBase
+          ? await connection.search({
+              base: config.searchBase,
+              scope: "sub",
+              filter: config.searchFilter.replaceAll("{username}", escapeFilterValue(login)),
+              attributes,
+              sizeLimit: 2,
+            })
+          : [];
+      entry = found.length === 1 ? found[0] : { dn, attributes: {} };
+    }
+
+    const email = firstValue(entry, config.emailAttribute);
+    return {
+      dn: entry.dn,
+      username: login.toLowerCase(),
+      ...(email && { email }),
+      groups: await findGroups(connection, config, entry),
+    };
+  } finally {
+    connection.close();
+  }
+}
+
+// ─── Role Mapping ──────────────────────────────────────────────────────────
+
+/**
+ * A DN as it is compared: in lower case, without the spaces a directory may write
+ * after the comma between RDNs. Never shortened to its first RDN - `cn=admins` in
+ * any OU anyone can create groups in would then be the admins.
+ */
+function comparableDn(dn: string): string {
+  return dn
+    .trim()
+    .replace(/(?<!\\),\s+/g, ",")
+    .toLowerCase();
+}
+
+/**
+ * 'admin' when any of the groups is one of LDAP_ADMIN_GROUPS, by full DN,
+ * case-insensitively; otherwise 'user'.
+ */
+export function mapLDAPRole(groups: string[], adminGroups: string[]): "admin" | "user" {
+  const admin = new Set(adminGroups.map(comparableDn));
+  return groups.some((dn) => admin.has(comparableDn(dn))) ? "admin" : "user";
+}
+
+/**
+ * The custom roles' group entries (or names) that are the full DN of one of the
+ * groups, as the role writes them - what the session carries as `groups`, exactly
+ * as `mapOIDCGroups` does for a role claim.
+ */
+export function mapLDAPGroups(groups: string[], roles: AccessRole[]): string[] {
+  const member = new Set(groups.map(comparableDn));
+  return [
+    ...new Set(roles.flatMap((role) => [role.name, ...role.groups]).filter((name) => member.has(comparableDn(name)))),
+  ];
+}
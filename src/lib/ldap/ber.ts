@@ -0,0 +1,120 @@
+/**
+ * The slice of ASN.1 BER that LDAPv3 (RFC 4511 section 5.1) needs: definite
+ * lengths, integers, octet strings, booleans, enumerations and constructed
+ * values under any tag. Nothing here knows what an LDAP message is; that is
+ * `client.ts`.
+ */
+
+const BER_BOOLEAN = 0x01;
+const BER_INTEGER = 0x02;
+const BER_OCTET_STRING = 0x04;
+const BER_ENUMERATED = 0x0a;
+const BER_SEQUENCE = 0x30;
+
+/** One decoded tag-length-value; `content` is a view into the buffer it was read from. */
+export interface BerElement {
+  tag: number;
+  content: Buffer;
+}
+
+/** A message the peer sent that this decoder cannot read - the connection cannot continue. */
+export class BerDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BerDecodeError";
+  }
+}
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length]);
+  const bytes: number[] = [];
+  for (let rest = length; rest > 0; rest = Math.floor(rest / 256)) bytes.unshift(rest & 0xff);
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function berElement(tag: number, content: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([tag]), encodeLength(content.length), content]);
+}
+
+export function berConstructed(tag: number, children: Buffer[]): Buffer {
+  return berElement(tag, Buffer.concat(children));
+}
+
+export function berSequence(children: Buffer[]): Buffer {
+  return berConstructed(BER_SEQUENCE, children);
+}
+
+/** Two's complement, shortest form; LDAP only ever sends small non-negative integers. */
+export function berInteger(value: number, tag = BER_INTEGER): Buffer {
+  const bytes: number[] = [];
+  let rest = value;
+  do {
+    bytes.unshift(rest & 0xff);
+    rest = Math.floor(rest / 256);
+  } while (rest > 0);
+  if (bytes[0] & 0x80) bytes.unshift(0);
+  return berElement(tag, Buffer.from(bytes));
+}
+
+export function berEnumerated(value: number): Buffer {
+  return berInteger(value, BER_ENUMERATED);
+}
+
+export function berBoolean(value: boolean): Buffer {
+  return berElement(BER_BOOLEAN, Buffer.from([value ? 0xff : 0x00]));
+}
+
+export function berOctetString(value: string | Buffer, tag = BER_OCTET_STRING): Buffer {
+  return berElement(tag, typeof value === "string" ? Buffer.from(value, "utf8") : value);
+}
+
+/**
+ * The element starting at `offset`, and where the next one starts; `null` when
+ * the buffer ends before this element does, so a reader fed a TCP stream can
+ * wait for more bytes.
+ */
+export function readBerElement(buffer: Buffer, offset = 0): { element: BerElement; next: number } | null {
+  if (buffer.length < offset + 2) return null;
+  const tag = buffer[offset];
+  let length = buffer[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const octets = length & 0x7f;
+    // 0x80 is BER's indefinite form, which RFC 4511 section 5.1 forbids, and more
+    // than four length octets is no message a directory would send.
+    if (octets === 0 || octets > 4) throw new BerDecodeError(`Unsupported BER length form 0x${length.toString(16)}`);
+    if (buffer.length < start + octets) return null;
+    length = 0;
+    for (let i = 0; i < octets; i++) length = length * 256 + buffer[start + i];
+    start += octets;
+  }
+  if (buffer.length < start + length) return null;
+  return { element: { tag, content: buffer.subarray(start, start + length) }, next: start + length };
+}
+
+/** Every element inside a constructed element's content. */
+export function readBerChildren(content: Buffer): BerElement[] {
+  const children: BerElement[] = [];
+  let offset = 0;
+  while (offset < content.length) {
+    const read = readBerElement(content, offset);
+    if (!read) throw new BerDecodeError("Truncated BER element");
+    children.push(read.element);
+    offset = read.next;
+  }
+  return children;
+}
+
+export function readBerInteger(element: BerElement): number {
+  let value = 0;
+  for (const byte of element.content) value = value * 256 + byte;
+  // Negative values are never meaningful in a response this client reads.
+  if (element.content.length > 0 && element.content[0] & 0x80) {
+    throw new BerDecodeError("Unexpected negative BER integer");
+  }
+  return value;
+}
+
+export function readBerString(element: BerElement): string {
+  return element.content.toString("utf8");
+}
@@ -0,0 +1,318 @@
+import net from "node:net";
+import tls from "node:tls";
+import {
+  BerDecodeError,
+  type BerElement,
+  berBoolean,
+  berConstructed,
+  berEnumerated,
+  berInteger,
+  berOctetString,
+  berSequence,
+  readBerChildren,
+  readBerElement,
+  readBerInteger,
+  readBerString,
+} from "./ber";
+import { encodeFilter } from "./filter";
+
+/**
+ * A minimal LDAPv3 client (RFC 4511): simple bind, search, the StartTLS extended
+ * operation and unbind, over `ldap://` or `ldaps://`. It is what a login needs and
+ * nothing more - no paging, no referral chasing, no writes - and one connection
+ * serves one login, so there is no pooling or reconnect to get wrong.
+ */
+
+export const LDAP_SUCCESS = 0;
+const LDAP_SIZE_LIMIT_EXCEEDED = 4;
+const LDAP_NO_SUCH_OBJECT = 32;
+
+const START_TLS_OID = "1.3.6.1.4.1.1466.20037";
+
+const OP_BIND_REQUEST = 0x60;
+const OP_BIND_RESPONSE = 0x61;
+const OP_UNBIND_REQUEST = 0x42;
+const OP_SEARCH_REQUEST = 0x63;
+const OP_SEARCH_ENTRY = 0x64;
+const OP_SEARCH_DONE = 0x65;
+const OP_EXTENDED_REQUEST = 0x77;
+const OP_EXTENDED_RESPONSE = 0x78;
+const SIMPLE_AUTHENTICATION = 0x80;
+const EXTENDED_REQUEST_NAME = 0x80;
+
+const SEARCH_SCOPES = { base: 0, one: 1, sub: 2 } as const;
+const NEVER_DEREFERENCE_ALIASES = 0;
+
+export type LdapSearchScope = keyof typeof SEARCH_SCOPES;
+
+/** A search result. Attribute names are lower-cased: LDAP compares them case-insensitively. */
+export interface LdapEntry {
+  dn: string;
+  attributes: Record<string, string[]>;
+}
+
+export interface LdapConnectOptions {
+  /** `ldap://host[:389]` or `ldaps://host[:636]`. */
+  url: string;
+  /** Upgrade an `ldap://` connection with StartTLS before anything is sent in the clear. */
+  startTls?: boolean;
+  /** Passed to `tls.connect` for `ldaps://` and StartTLS - a private CA, or `rejectUnauthorized`. */
+  tlsOptions?: tls.ConnectionOptions;
+  /** Bound on connecting and on each operation, so an unreachable directory fails the login in time. */
+  timeoutMs: number;
+}
+
+export interface LdapSearchOptions {
+  base: string;
+  scope: LdapSearchScope;
+  filter: string;
+  attributes: string[];
+  sizeLimit?: number;
+}
+
+export interface LdapConnection {
+  /** The bind's result code: `LDAP_SUCCESS`, or the server's refusal - 49 for invalid credentials. */
+  bind(dn: string, password: string): Promise<number>;
+  /** The matching entries; none when the base does not exist. */
+  search(options: LdapSearchOptions): Promise<LdapEntry[]>;
+  close(): void;
+}
+
+/**
+ * The directory could not be reached or did not speak LDAP: refused, timed out,
+ * a certificate that did not verify, StartTLS refused, or a message that did not
+ * decode. Never a wrong password - that is a bind result code.
+ */
+export class LdapUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LdapUnavailableError";
+  }
+}
+
+/** An operation the directory answered with a failure result code. */
+export class LdapResultError extends Error {
+  constructor(
+    message: string,
+    public readonly resultCode: number,
+  ) {
+    super(message);
+    this.name = "LdapResultError";
+  }
+}
+
+interface LdapResult {
+  resultCode: number;
+  diagnosticMessage: string;
+}
+
+interface PendingRequest {
+  operations: BerElement[];
+  isFinal: (tag: number) => boolean;
+  resolve: (operations: BerElement[]) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+function parseLdapUrl(value: string): { secure: boolean; host: string; port: number } {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new LdapUnavailableError(`"${value}" is not an LDAP URL`);
+  }
+  if (url.protocol !== "ldap:" && url.protocol !== "ldaps:") {
+    throw new LdapUnavailableError(`"${value}" is not an ldap:// or ldaps:// URL`);
+  }
+  const secure = url.protocol === "ldaps:";
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  return { secure, host, port: url.port ? Number(url.port) : secure ? 636 : 389 };
+}
+
+function readResult(operation: BerElement): LdapResult {
+  const [code, , diagnostic] = readBerChildren(operation.content);
+  return { resultCode: readBerInteger(code), diagnosticMessage: diagnostic ? readBerString(diagnostic) : "" };
+}
+
+function readEntry(operation: BerElement): LdapEntry {
+  const [name, attributeList] = readBerChildren(operation.content);
+  const attributes: Record<string, string[]> = {};
+  for (const attribute of readBerChildren(attributeList.content)) {
+    const [type, values] = readBerChildren(attribute.content);
+    attributes[readBerString(type).toLowerCase()] = readBerChildren(values.content).map(readBerString);
+  }
+  return { dn: readBerString(name), attributes };
+}
+
+/** Resolve once `socket` has connected (and, for TLS, finished its handshake). */
+function connected(socket: net.Socket, event: "connect" | "secureConnect", timeoutMs: number, target: string) {
+  return new Promise<void>((resolve, reject) => {
+    const fail = (error: Error) => {
+      clearTimeout(timer);
+      socket.destroy();
+      reject(new LdapUnavailableError(`Could not connect to ${target}: ${error.message}`));
+    };
+    const timer = setTimeout(() => fail(new Error(`no answer within ${timeoutMs} ms`)), timeoutMs);
+    socket.once("error", fail);
+    socket.once(event, () => {
+      clearTimeout(timer);
+      socket.off("error", fail);
+      resolve();
+    });
+  });
+}
+
+/**
+ * Open a connection to the directory at `options.url`, upgraded with StartTLS
+ * when asked. The caller must `close()` it, on every path.
+ *
+ * @throws {LdapUnavailableError} when the directory cannot be reached over the transport asked for.
+ */
+export async function openLdapConnection(options: LdapConnectOptions): Promise<LdapConnection> {
+  const { secure, host, port } = parseLdapUrl(options.url);
+  const target = `${secure ? "ldaps" : "ldap"}://${host}:${port}`;
+  // SNI only carries a name, never an address.
+  const servername = net.isIP(host) ? undefined : host;
+
+  let socket: net.Socket = secure
+    ? tls.connect({ ...options.tlsOptions, host, port, servername })
+    : net.connect({ host, port });
+  await connected(socket, secure ? "secureConnect" : "connect", options.timeoutMs, target);
+
+  let buffer: Buffer = Buffer.alloc(0);
+  let nextMessageId = 1;
+  let failure: Error | null = null;
+  const pending = new Map<number, PendingRequest>();
+
+  const failAll = (error: Error) => {
+    failure ??= error;
+    for (const request of pending.values()) {
+      clearTimeout(request.timer);
+      request.reject(failure);
+    }
+    pending.clear();
+    socket.destroy();
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer = buffer.length === 0 ? chunk : Buffer.concat([buffer, chunk]);
+    try {
+      for (let read = readBerElement(buffer); read; read = readBerElement(buffer)) {
+        buffer = buffer.subarray(read.next);
+        const [messageId, operation] = readBerChildren(read.element.content);
+        const id = readBerInteger(messageId);
+        // Message id 0 is an unsolicited notification - in practice the Notice of
+        // Disconnection (RFC 4511 section 4.4.1), after which the server closes.
+        if (id === 0) {
+          failAll(new LdapUnavailableError(`${target} ended the session: ${readResult(operation).diagnosticMessage}`));
+          return;
+        }
+        const request = pending.get(id);
+        if (!request) continue;
+        request.operations.push(operation);
+        if (request.isFinal(operation.tag)) {
+          clearTimeout(request.timer);
+          pending.delete(id);
+          request.resolve(request.operations);
+        }
+      }
+    } catch (error) {
+      const message = error instanceof BerDecodeError ? error.message : String(error);
+      failAll(new LdapUnavailableError(`Could not read the answer from ${target}: ${message}`));
+    }
+  };
+  const onError = (error: Error) =>
+    failAll(new LdapUnavailableError(`Lost the connection to ${target}: ${error.message}`));
+  const onClose = () => failAll(new LdapUnavailableError(`${target} closed the connection`));
+
+  const listen = () => {
+    socket.on("data", onData);
+    socket.on("error", onError);
+    socket.on("close", onClose);
+  };
+  listen();
+
+  const request = (operation: Buffer, isFinal: (tag: number) => boolean) => {
+    if (failure) return Promise.reject(failure);
+    const id = nextMessageId++;
+    return new Promise<BerElement[]>((resolve, reject) => {
+      const timer = setTimeout(
+        () => failAll(new LdapUnavailableError(`${target} did not answer within ${options.timeoutMs} ms`)),
+        options.timeoutMs,
+      );
+      pending.set(id, { operations: [], isFinal, resolve, reject, timer });
+      socket.write(berSequence([berInteger(id), operation]));
+    });
+  };
+
+  if (options.startTls && !secure) {
+    const [response] = await request(
+      berConstructed(OP_EXTENDED_REQUEST, [berOctetString(START_TLS_OID, EXTENDED_REQUEST_NAME)]),
+      (tag) => tag === OP_EXTENDED_RESPONSE,
+    );
+    const result = readResult(response);
+    if (result.resultCode !== LDAP_SUCCESS) {
+      socket.destroy();
+      throw new LdapUnavailableError(
+        `${target} refused StartTLS (result ${result.resultCode}${result.diagnosticMessage ? `: ${result.diagnosticMessage}` : ""})`,
+      );
+    }
+    socket.off("data", onData);
+    socket.off("error", onError);
+    socket.off("close", onClose);
+    const plain = socket;
+    socket = tls.connect({ ...options.tlsOptions, socket: plain, servername });
+    await connected(socket, "secureConnect", options.timeoutMs, `${target} (StartTLS)`);
+    listen();
+  }
+
+  return {
+    async bind(dn, password) {
+      const [response] = await request(
+        berConstructed(OP_BIND_REQUEST, [
+          berInteger(3),
+          berOctetString(dn),
+          berOctetString(password, SIMPLE_AUTHENTICATION),
+        ]),
+        (tag) => tag === OP_BIND_RESPONSE,
+      );
+      return readResult(response).resultCode;
+    },
+
+    async search({ base, scope, filter, attributes, sizeLimit = 0 }) {
+      const operations = await request(
+        berConstructed(OP_SEARCH_REQUEST, [
+          berOctetString(base),
+          berEnumerated(SEARCH_SCOPES[scope]),
+          berEnumerated(NEVER_DEREFERENCE_ALIASES),
+          berInteger(sizeLimit),
+          berInteger(Math.ceil(options.timeoutMs / 1000)),
+          berBoolean(false),
+          encodeFilter(filter),
+          berSequence(attributes.map((attribute) => berOctetString(attribute))),
+        ]),
+        (tag) => tag === OP_SEARCH_DONE,
+      );
+      const done = readResult(operations[operations.length - 1]);
+      if (done.resultCode === LDAP_NO_SUCH_OBJECT) return [];
+      // Hitting the size limit still answers the entries found so far; the caller asked for the limit.
+      if (done.resultCode !== LDAP_SUCCESS && done.resultCode !== LDAP_SIZE_LIMIT_EXCEEDED) {
+        throw new LdapResultError(
+          `Search under "${base}" failed with result ${done.resultCode}${done.diagnosticMessage ? `: ${done.diagnosticMessage}` : ""}`,
+          done.resultCode,
+        );
+      }
+      return operations.filter((operation) => operation.tag === OP_SEARCH_ENTRY).map(readEntry);
+    },
+
+    close() {
+      failure ??= new LdapUnavailableError("The connection is closed");
+      if (!socket.destroyed) {
+        // Unbind has no response (RFC 4511 section 4.3); the server closes its end.
+        socket.end(berSequence([berInteger(nextMessageId++), berOctetString("", OP_UNBIND_REQUEST)]));
+      }
+      for (const request of pending.values()) clearTimeout(request.timer);
+      pending.clear();
+    },
+  };
+}
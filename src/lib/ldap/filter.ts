@@ -0,0 +1,123 @@
+import { berConstructed, berOctetString, berSequence } from "./ber";
+
+/**
+ * RFC 4515 search filters - the string an operator writes in `LDAP_SEARCH_FILTER`,
+ * such as `(&(objectClass=person)(sAMAccountName={username}))` - encoded as the
+ * BER `Filter` choice of RFC 4511 section 4.5.1.7, which is what actually goes on
+ * the wire. Extensible matches (`:dn:`, `:1.2.3:=`) are not supported; no login
+ * filter needs them.
+ */
+
+/** A filter string that does not parse. Raised at configuration time, never from user input. */
+export class LdapFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LdapFilterError";
+  }
+}
+
+const FILTER_AND = 0xa0;
+const FILTER_OR = 0xa1;
+const FILTER_NOT = 0xa2;
+const FILTER_EQUALITY = 0xa3;
+const FILTER_SUBSTRINGS = 0xa4;
+const FILTER_GREATER_OR_EQUAL = 0xa5;
+const FILTER_LESS_OR_EQUAL = 0xa6;
+const FILTER_PRESENT = 0x87;
+const FILTER_APPROX = 0xa8;
+const SUBSTRING_INITIAL = 0x80;
+const SUBSTRING_ANY = 0x81;
+const SUBSTRING_FINAL = 0x82;
+
+/**
+ * A value made safe to put inside a filter: the characters RFC 4515 section 3
+ * gives meaning to become `\XX` escapes. Every user-supplied value goes through
+ * this before it is substituted into a filter - an unescaped `*` or `)` in a
+ * login name would otherwise widen the search to someone else's entry.
+ */
+export function escapeFilterValue(value: string): string {
+  return value.replace(/[\\*()\0]/g, (char) => `\\${char.charCodeAt(0).toString(16).padStart(2, "0")}`);
+}
+
+/** The bytes a filter value stands for, with its `\XX` escapes decoded. */
+function unescapeValue(raw: string): Buffer {
+  const bytes: Buffer[] = [];
+  let literal = "";
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] !== "\\") {
+      literal += raw[i];
+      continue;
+    }
+    const hex = raw.slice(i + 1, i + 3);
+    if (!/^[0-9a-fA-F]{2}$/.test(hex)) throw new LdapFilterError(`Invalid escape "\\${hex}" in filter value`);
+    bytes.push(Buffer.from(literal, "utf8"), Buffer.from([Number.parseInt(hex, 16)]));
+    literal = "";
+    i += 2;
+  }
+  bytes.push(Buffer.from(literal, "utf8"));
+  return Buffer.concat(bytes);
+}
+
+function encodeItem(item: string): Buffer {
+  const match = /^([A-Za-z0-9][A-Za-z0-9.;-]*)(~=|>=|<=|=)([\s\S]*)$/.exec(item);
+  if (!match) throw new LdapFilterError(`Invalid filter item "(${item})"`);
+  const [, attribute, operator, value] = match;
+  const assertion = (tag: number) =>
+    berConstructed(tag, [berOctetString(attribute), berOctetString(unescapeValue(value))]);
+
+  if (operator === "~=") return assertion(FILTER_APPROX);
+  if (operator === ">=") return assertion(FILTER_GREATER_OR_EQUAL);
+  if (operator === "<=") return assertion(FILTER_LESS_OR_EQUAL);
+  if (value === "*") return berOctetString(attribute, FILTER_PRESENT);
+  if (!value.includes("*")) return assertion(FILTER_EQUALITY);
+
+  // An escaped star is `\2a`, so every literal `*` left here separates substrings.
+  const parts = value.split("*");
+  const substrings: Buffer[] = [];
+  parts.forEach((part, index) => {
+    if (part === "") return;
+    const tag = index === 0 ? SUBSTRING_INITIAL : index === parts.length - 1 ? SUBSTRING_FINAL : SUBSTRING_ANY;
+    substrings.push(berOctetString(unescapeValue(part), tag));
+  });
+  return berConstructed(FILTER_SUBSTRINGS, [berOctetString(attribute), berSequence(substrings)]);
+}
+
+/** Encode one parenthesised filter starting at `offset`; answers where it ended. */
+function encodeFilterAt(filter: string, offset: number): { encoded: Buffer; next: number } {
+  if (filter[offset] !== "(") throw new LdapFilterError(`Expected "(" at position ${offset} of the filter`);
+  const operator = filter[offset + 1];
+
+  if (operator === "&" || operator === "|" || operator === "!") {
+    const children: Buffer[] = [];
+    let cursor = offset + 2;
+    while (filter[cursor] === "(") {
+      const child = encodeFilterAt(filter, cursor);
+      children.push(child.encoded);
+      cursor = child.next;
+    }
+    if (filter[cursor] !== ")") throw new LdapFilterError(`Expected ")" at position ${cursor} of the filter`);
+    if (operator === "!" && children.length !== 1)
+      throw new LdapFilterError("A (!...) filter negates exactly one filter");
+    if (children.length === 0) throw new LdapFilterError(`An empty (${operator}) filter is not supported`);
+    const tag = operator === "&" ? FILTER_AND : operator === "|" ? FILTER_OR : FILTER_NOT;
+    return { encoded: berConstructed(tag, children), next: cursor + 1 };
+  }
+
+  const close = filter.indexOf(")", offset);
+  if (close < 0) throw new LdapFilterError("Unbalanced parentheses in the filter");
+  return { encoded: encodeItem(filter.slice(offset + 1, close)), next: close + 1 };
+}
+
+/**
+ * The BER encoding of an RFC 4515 filter string. A filter without the outer
+ * parentheses (`uid=alice`) is accepted the way most directory tools accept it.
+ *
+ * @throws {LdapFilterError} when the string is not a filter.
+ */
+export function encodeFilter(filter: string): Buffer {
+  const trimmed = filter.trim();
+  const wrapped = trimmed.startsWith("(") ? trimmed : `(${trimmed})`;
+  const { encoded, next } = encodeFilterAt(wrapped, 0);
+  if (next !== wrapped.length) throw new LdapFilterError(`Unexpected text after position ${next} of the filter`);
+  return encoded;
+}
@@ -0,0 +1,65 @@
+import { emitAuditEvent } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { requireGrant } from "@/lib/access/enforce";
+import type { AccessSubject } from "@/lib/access/grants";
+import { DEFAULT_MASKING_POLICY, readMaskingPolicy } from "./store";
+import type { MaskingPolicy } from "./types";
+
+/**
+ * The deployment's masking policy, or the built-in one without server storage: the
+ * name patterns keep masking there, and there is nowhere to save another policy. A
+ * storage failure throws rather than answering the built-in policy, which could
+ * mask less than the one saved.
+ */
+export async function loadMaskingPolicy(): Promise<MaskingPolicy> {
+  const provider = await getStorageProvider();
+  return provider ? readMaskingPolicy(provider) : DEFAULT_MASKING_POLICY;
+}
+
+/**
+ * Whether a request reads past the policy: it asked to, with `unmask: true`, and
+ * `subject` holds `unmask` on the connection. Asking without holding it is refused
+ * with `AccessDeniedError` - a 403 and a `permission_denied` event - rather than
+ * quietly answered masked, so a script that relies on it finds out.
+ */
+export async function requestsUnmask(
+  subject: AccessSubject,
+  body: { unmask?: unknown },
+  connection: string | null,
+  connectionName?: string,
+): Promise<boolean> {
+  if (body.unmask !== true) return false;
+  await requireGrant(subject, connection, "unmask", connectionName);
+  return true;
+}
+
+export interface UnmaskRecord {
+  /** `reveal` for one value in the grid, `export` or `data_diff` for a whole result. */
+  action: string;
+  connection: string | null;
+  connectionName?: string;
+  /** Which values: the column and row of a reveal. Never the values themselves. */
+  details?: string;
+}
+
+/**
+ * Record that `subject` read values the policy masks. Isolated like every other
+ * audit line here: the values are already on their way.
+ */
+export function recordUnmask(subject: AccessSubject, record: UnmaskRecord): void {
+  try {
+    emitAuditEvent({
+      type: "data_unmasked",
+      action: record.action,
+      target: record.connection ?? "own connection",
+      ...(record.connectionName && { connectionName: record.connectionName }),
+      user: subject.username,
+      ...(subject.tokenId && { tokenId: subject.tokenId }),
+      result: "success",
+      ...(record.details && { details: record.details }),
+    });
+  } catch (auditError) {
+    logger.error("Failed to record data_unmasked audit event", auditError, { route: "masking" });
+  }
+}
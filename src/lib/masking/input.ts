@@ -0,0 +1,115 @@
+import { MASK_TYPE_PREVIEWS, type MaskingPattern, type MaskType } from "@/lib/data-masking";
+import type { ColumnMaskingRule, MaskingPolicy } from "./types";
+
+/** A policy the browser sent that cannot be saved; the message says which field and why. */
+export class MaskingPolicyInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MaskingPolicyInputError";
+  }
+}
+
+/** What an admin sends to `PUT /api/admin/masking-policy`: a policy, without who saved it when. */
+export type MaskingPolicyInput = Omit<MaskingPolicy, "updatedAt" | "updatedBy">;
+
+const MASK_TYPES = Object.keys(MASK_TYPE_PREVIEWS) as MaskType[];
+
+function readText(value: unknown, field: string): string {
+  if (typeof value !== "string" || value.trim() === "") throw new MaskingPolicyInputError(`${field} is required`);
+  return value.trim();
+}
+
+function readMaskType(value: unknown, field: string): MaskType {
+  if (!MASK_TYPES.includes(value as MaskType)) {
+    throw new MaskingPolicyInputError(`${field} must be one of ${MASK_TYPES.join(", ")}`);
+  }
+  return value as MaskType;
+}
+
+/** The replacement a `custom` mask writes; nothing for any other kind. */
+function readCustomMask(maskType: MaskType, value: unknown, field: string): { customMask?: string } {
+  if (maskType !== "custom") return {};
+  if (value !== undefined && typeof value !== "string") throw new MaskingPolicyInputError(`${field} must be a string`);
+  return value ? { customMask: value } : {};
+}
+
+/**
+ * The column a `date_shift` is keyed on; nothing for any other kind. Required, as
+ * a shift keyed on nothing would move every date the same way.
+ */
+function readEntityColumn(maskType: MaskType, value: unknown, field: string): { entityColumn?: string } {
+  if (maskType !== "date_shift") return {};
+  return { entityColumn: readText(value, field) };
+}
+
+function readPattern(value: unknown, index: number): MaskingPattern {
+  if (typeof value !== "object" || value === null) {
+    throw new MaskingPolicyInputError(`patterns[${index}] must be an object`);
+  }
+  const input = value as Record<string, unknown>;
+  const { id, name, columnPatterns, maskType, enabled, isBuiltin, customMask, entityColumn } = input;
+  const label = `patterns[${index}]`;
+  if (
+    !Array.isArray(columnPatterns) ||
+    columnPatterns.length === 0 ||
+    columnPatterns.some((p) => typeof p !== "string" || p.trim() === "")
+  ) {
+    throw new MaskingPolicyInputError(`${label}.columnPatterns must be a list of column names or patterns`);
+  }
+  const type = readMaskType(maskType, `${label}.maskType`);
+  return {
+    id: readText(id, `${label}.id`),
+    name: readText(name, `${label}.name`),
+    columnPatterns: (columnPatterns as string[]).map((p) => p.trim()),
+    maskType: type,
+    enabled: enabled !== false,
+    isBuiltin: isBuiltin === true,
+    ...readCustomMask(type, customMask, `${label}.customMask`),
+    ...readEntityColumn(type, entityColumn, `${label}.entityColumn`),
+  };
+}
+
+function readRule(value: unknown, index: number): ColumnMaskingRule {
+  if (typeof value !== "object" || value === null) {
+    throw new MaskingPolicyInputError(`rules[${index}] must be an object`);
+  }
+  const { connection, table, column, maskType, customMask, entityColumn } = value as Record<string, unknown>;
+  const label = `rules[${index}]`;
+  const type = readMaskType(maskType, `${label}.maskType`);
+  return {
+    connection: readText(connection, `${label}.connection`),
+    table: readText(table, `${label}.table`),
+    column: readText(column, `${label}.column`),
+    maskType: type,
+    ...readCustomMask(type, customMask, `${label}.customMask`),
+    ...readEntityColumn(type, entityColumn, `${label}.entityColumn`),
+  };
+}
+
+/** The policy in a request body, checked field by field. */
+export function readMaskingPolicyInput(body: unknown): MaskingPolicyInput {
+  if (typeof body !== "object" || body === null) throw new MaskingPolicyInputError("Expected a masking policy");
+  const { enabled, patterns, rules } = body as Record<string, unknown>;
+
+  if (typeof enabled !== "boolean") throw new MaskingPolicyInputError("enabled must be true or false");
+  if (!Array.isArray(patterns)) throw new MaskingPolicyInputError("patterns must be a list");
+  if (!Array.isArray(rules)) throw new MaskingPolicyInputError("rules must be a list");
+
+  const readPatterns = patterns.map(readPattern);
+  const ids = new Set<string>();
+  for (const pattern of readPatterns) {
+    if (ids.has(pattern.id)) throw new MaskingPolicyInputError(`Pattern id "${pattern.id}" is used twice`);
+    ids.add(pattern.id);
+  }
+
+  const readRules = rules.map(readRule);
+  const columns = new Set<string>();
+  for (const rule of readRules) {
+    const key = `${rule.connection}/${rule.table}/${rule.column}`.toLowerCase();
+    if (columns.has(key))
+      throw new MaskingPolicyInputError(`${rule.table}.${rule.column} on ${rule.connection} is masked twice`);
+    columns.add(key);
+  }
+
+  return { enabled, patterns: readPatterns, rules: readRules };
+}
@@ -0,0 +1,135 @@
+import { createHmac, hkdfSync } from "node:crypto";
+import { getJwtSecret, JWT_SECRET_MIN_LENGTH } from "@/lib/config/auth-env";
+import { maskByType, type MaskingPattern } from "@/lib/data-masking";
+
+/**
+ * The keyed mask types (`KEYED_MASK_TYPES`): masks an analyst can still group and
+ * join on, because the same input always masks to the same output.
+ *
+ *   token              `tok_` and 16 hex digits of HMAC-SHA256(key, value): equal
+ *                      values give equal tokens in every column and table, so a
+ *                      join on tokenized keys matches what a join on the values did.
+ *   format_preserving  every letter and digit replaced by a keyed one of the same
+ *                      kind and case, separators kept: a card stays 16 digits in
+ *                      groups of four, a phone keeps its `+` and dashes. A keyed
+ *                      substitution, not FF1 - it cannot be reversed even with the
+ *                      key, and the check digit of a card no longer holds.
+ *   date_shift         the date moved by 1 to 365 days either way, by an offset
+ *                      keyed on the row's `entityColumn` value: every date of one
+ *                      patient or customer moves together, so intervals between
+ *                      them survive while the dates themselves do not.
+ *
+ * The key never leaves the server and is not stored with the policy; without it a
+ * token cannot be checked against a guessed value. It is MASKING_TOKEN_KEY when set,
+ * otherwise derived from JWT_SECRET the way the storage key is
+ * (`src/lib/storage/encryption.ts`), so there is nothing to configure. Changing it
+ * changes every token, which breaks joins against files exported before.
+ */
+
+const KEY_BYTES = 32;
+const HKDF_INFO = "libredb-studio/masking-token/v1";
+const HKDF_SALT = new Uint8Array(0);
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** The furthest a date is shifted, in days, either way. */
+const DATE_SHIFT_MAX_DAYS = 365;
+/** An ISO date at the start of a value, with whatever time follows it kept as it is. */
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(.*)$/;
+
+export const MASKING_TOKEN_KEY_TOO_SHORT_MESSAGE =
+  "MASKING_TOKEN_KEY is too short; it must be at least 32 characters. Update it and restart the server.";
+const MASKING_TOKEN_KEY_MISSING_MESSAGE =
+  "Keyed masking needs a key: neither MASKING_TOKEN_KEY nor JWT_SECRET is configured. Set one (at least 32 characters) and restart the server.";
+
+/** Derived once per process; neither source variable changes without a restart. */
+let cachedKey: Buffer | null = null;
+
+/** Test seam: clears the derived key so each case observes a fresh process. */
+export function resetMaskingKey(): void {
+  cachedKey = null;
+}
+
+function inputKeyMaterial(): Uint8Array {
+  const explicit = process.env.MASKING_TOKEN_KEY;
+  if (explicit) {
+    if (explicit.length < JWT_SECRET_MIN_LENGTH) throw new Error(MASKING_TOKEN_KEY_TOO_SHORT_MESSAGE);
+    return new TextEncoder().encode(explicit);
+  }
+  return getJwtSecret({ missingMessage: MASKING_TOKEN_KEY_MISSING_MESSAGE });
+}
+
+function maskingKey(): Buffer {
+  if (!cachedKey) {
+    cachedKey = Buffer.from(hkdfSync("sha256", inputKeyMaterial(), HKDF_SALT, HKDF_INFO, KEY_BYTES));
+  }
+  return cachedKey;
+}
+
+/** Each mask type hashes under its own label, so a token says nothing about a shift. */
+function digest(label: string, value: string): Buffer {
+  return createHmac("sha256", maskingKey()).update(`${label}\u0000${value}`, "utf8").digest();
+}
+
+function tokenize(value: string): string {
+  return `tok_${digest("token", value).toString("hex").slice(0, 16)}`;
+}
+
+function preserveFormat(value: string): string {
+  const chars = [...value];
+  // One keyed byte per character, in as many 32-byte blocks as the value needs.
+  const blocks: Buffer[] = [];
+  for (let i = 0; i * 32 < chars.length; i++) blocks.push(digest(`format_preserving:${i}`, value));
+  const bytes = Buffer.concat(blocks);
+  return chars
+    .map((char, i) => {
+      const byte = bytes[i];
+      if (/\p{N}/u.test(char)) return String(byte % 10);
+      if (/\p{Ll}/u.test(char)) return String.fromCharCode(97 + (byte % 26));
+      if (/\p{Lu}/u.test(char)) return String.fromCharCode(65 + (byte % 26));
+      return char;
+    })
+    .join("");
+}
+
+/** Days from 1 to `DATE_SHIFT_MAX_DAYS`, earlier or later, the same for every date of one entity. */
+function shiftDays(entity: string): number {
+  const n = digest("date_shift", entity).readUInt32BE(0);
+  const days = (n % DATE_SHIFT_MAX_DAYS) + 1;
+  return n & 0x80000000 ? -days : days;
+}
+
+/** `value` shifted by `days`, in its own format, or null when it is not a date. */
+function shiftDate(value: unknown, days: number): string | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : new Date(value.getTime() + days * DAY_MS).toISOString();
+  }
+  const match = ISO_DATE.exec(String(value));
+  if (!match) return null;
+  const [, year, month, day, rest] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  // `Date.UTC` rolls 2024-02-31 over into March; a value that does not read back is not a date.
+  if (date.toISOString().slice(0, 10) !== `${year}-${month}-${day}`) return null;
+  return new Date(date.getTime() + days * DAY_MS).toISOString().slice(0, 10) + rest;
+}
+
+/**
+ * `value` masked under one of the keyed types, with `row` the whole row it came
+ * from (read before any of it was masked), which `date_shift` takes its entity
+ * from. A date without an entity value, or a value that is not a date, gets the
+ * plain `date` redaction: a shift keyed on nothing would move every row the same
+ * way, and one known date would undo all of them.
+ */
+export function keyedMask(value: unknown, pattern: MaskingPattern, row: Record<string, unknown>): string {
+  switch (pattern.maskType) {
+    case "token":
+      return tokenize(value instanceof Date ? value.toISOString() : String(value));
+    case "format_preserving":
+      return preserveFormat(String(value));
+    case "date_shift": {
+      const entity = pattern.entityColumn ? row[pattern.entityColumn] : undefined;
+      const shifted = entity === null || entity === undefined ? null : shiftDate(value, shiftDays(String(entity)));
+      return shifted ?? maskByType(String(value), { ...pattern, maskType: "date" });
+    }
+    default:
+      return maskByType(String(value), pattern);
+  }
+}
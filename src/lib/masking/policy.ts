@@ -0,0 +1,159 @@
+import { DEFAULT_MASKING_CONFIG, detectSensitiveColumnsFromConfig, type MaskingPattern } from "@/lib/data-masking";
+import type { ColumnSource, ResultMasking } from "@/lib/types";
+import { keyedMask } from "./keyed";
+import type { ColumnMaskingRule, MaskingPolicy } from "./types";
+
+/** A character that can be part of a table name, so one either side of a match means it was part of a longer one. */
+const NAME_CHARACTER = /[\p{L}\p{N}_$]/u;
+
+/** Of a qualified `hr.people`, `people`: a statement may leave the schema to the search path. */
+function unqualified(table: string): string {
+  return table.slice(table.lastIndexOf(".") + 1).toLowerCase();
+}
+
+/**
+ * Whether `statement` has `word` anywhere, as a whole word and in any case.
+ *
+ * Deliberately not the statement's code words (`findCodeWord`): those skip quoted
+ * identifiers, so `SELECT * FROM "people"` would escape a rule on `people`, and a
+ * MongoDB query names its collection inside a JSON string. A table or column
+ * mentioned only in a comment is taken as read - the direction a masking decision
+ * can afford to be wrong in.
+ */
+function mentions(statement: string, word: string): boolean {
+  const name = word.toLowerCase();
+  if (name === "") return false;
+  const text = statement.toLowerCase();
+  for (let at = text.indexOf(name); at >= 0; at = text.indexOf(name, at + 1)) {
+    const before = at === 0 ? "" : text[at - 1];
+    const after = text[at + name.length] ?? "";
+    if (!NAME_CHARACTER.test(before) && !NAME_CHARACTER.test(after)) return true;
+  }
+  return false;
+}
+
+function ruleApplies(rule: ColumnMaskingRule, connection: string | null, statement: string): boolean {
+  if (rule.connection !== "*" && rule.connection !== connection) return false;
+  return rule.table === "*" || mentions(statement, unqualified(rule.table));
+}
+
+/**
+ * Whether `rule`, applying to the statement, masks the result column `field`. One
+ * the engine traced to its table and column (`source`) is masked when that is the
+ * ruled one, whatever the statement called it. One it did not trace - computed, or
+ * from an engine that does not say - is masked when it carries the ruled column's
+ * name, and also whenever the statement mentions the ruled column at all: `SELECT
+ * upper(ssn) AS x` must not read it back unmasked, and which column it went into
+ * cannot be told, so every untraced one is.
+ */
+function ruleMasks(rule: ColumnMaskingRule, field: string, source: ColumnSource | null | undefined, statement: string) {
+  const column = rule.column.toLowerCase();
+  if (source) {
+    return (
+      source.column.toLowerCase() === column &&
+      (rule.table === "*" || source.table.toLowerCase() === unqualified(rule.table))
+    );
+  }
+  return field.toLowerCase() === column || mentions(statement, rule.column);
+}
+
+/** A rule in the shape the mask functions take, so both kinds of mask are written by `maskByType`. */
+function ruleAsPattern(rule: ColumnMaskingRule): MaskingPattern {
+  return {
+    id: `rule:${rule.connection}/${rule.table}/${rule.column}`,
+    name: `${rule.table}.${rule.column}`,
+    columnPatterns: [rule.column],
+    maskType: rule.maskType,
+    enabled: true,
+    isBuiltin: false,
+    ...(rule.customMask !== undefined && { customMask: rule.customMask }),
+    ...(rule.entityColumn !== undefined && { entityColumn: rule.entityColumn }),
+  };
+}
+
+/**
+ * The columns of a result that `policy` masks, and how: a column rule for this
+ * connection and a table the statement names, else the first name pattern that
+ * matches. `connection` is the seed id, or null for a connection the caller brought,
+ * which only a `*` rule reaches - as with grants.
+ *
+ * `sources` is where the engine says each column was read from (`columnSources`),
+ * which follows a rule through an alias and lets a name pattern see the column's
+ * own name. Without it a rule fails closed (`ruleMasks`): every column of a
+ * statement that mentions the ruled one is masked, since any of them may be it.
+ * A view or a function that reads the table without the statement naming it is
+ * not seen; a column that must never be derived from belongs behind a database
+ * privilege as well.
+ */
+export function maskedColumns(
+  policy: MaskingPolicy,
+  connection: string | null,
+  statement: string,
+  fields: string[],
+  sources: Record<string, ColumnSource | null> = {},
+): Map<string, MaskingPattern> {
+  const masked = new Map<string, MaskingPattern>();
+  if (!policy.enabled) return masked;
+
+  const rules = policy.rules.filter((rule) => ruleApplies(rule, connection, statement));
+  for (const field of fields) {
+    const rule = rules.find((r) => ruleMasks(r, field, sources[field], statement));
+    if (rule) masked.set(field, ruleAsPattern(rule));
+  }
+
+  const config = { ...DEFAULT_MASKING_CONFIG, patterns: policy.patterns };
+  const detect = (name: string) => detectSensitiveColumnsFromConfig([name], config).get(name);
+  for (const field of fields) {
+    if (masked.has(field)) continue;
+    const source = sources[field];
+    const pattern = detect(field) ?? (source ? detect(source.column) : undefined);
+    if (pattern) masked.set(field, pattern);
+  }
+  return masked;
+}
+
+/**
+ * `rows` with the values of the `masked` columns replaced, NULLs left as they are.
+ * The server's `applyMaskingToRows`: it also writes the keyed types, which need the
+ * server's key and, for `date_shift`, the rest of the row as it was read.
+ */
+export function maskRows(
+  rows: Record<string, unknown>[],
+  fields: string[],
+  masked: Map<string, MaskingPattern>,
+): Record<string, unknown>[] {
+  if (masked.size === 0) return rows;
+  return rows.map((row) => {
+    const out: Record<string, unknown> = { ...row };
+    for (const field of fields) {
+      const pattern = masked.get(field);
+      if (pattern && row[field] !== null && row[field] !== undefined) out[field] = keyedMask(row[field], pattern, row);
+    }
+    return out;
+  });
+}
+
+/**
+ * `result` with its masked columns' values replaced, and the `masking` that tells the
+ * browser which they were. `canReveal` is whether the caller may ask for one of them
+ * again; it is reported false when nothing was masked, as there is nothing to ask for.
+ */
+export function maskResult<
+  T extends { rows: Record<string, unknown>[]; fields: string[]; columnSources?: Record<string, ColumnSource | null> },
+>(
+  policy: MaskingPolicy,
+  connection: string | null,
+  statement: string,
+  result: T,
+  canReveal: boolean,
+): T & { masking: ResultMasking } {
+  const masked = maskedColumns(policy, connection, statement, result.fields, result.columnSources);
+  return {
+    ...result,
+    rows: maskRows(result.rows, result.fields, masked),
+    masking: {
+      columns: result.fields.filter((field) => masked.has(field)),
+      canReveal: canReveal && masked.size > 0,
+    },
+  };
+}
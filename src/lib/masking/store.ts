@@ -0,0 +1,30 @@
+import { DEFAULT_MASKING_CONFIG } from "@/lib/data-masking";
+import type { ServerStorageProvider } from "@/lib/storage/types";
+import type { MaskingPolicy } from "./types";
+
+/**
+ * The storage row the masking policy is kept under. It belongs to the deployment
+ * rather than to any user, and `masking_policy` is server-only, so no session can
+ * read or write it through `/api/storage` - a browser that could would unmask
+ * itself.
+ */
+export const MASKING_POLICY_OWNER = "libredb:masking-policy";
+
+/** What applies until an admin saves a policy: the built-in name patterns, and no column rules. */
+export const DEFAULT_MASKING_POLICY: MaskingPolicy = {
+  enabled: true,
+  patterns: DEFAULT_MASKING_CONFIG.patterns,
+  rules: [],
+};
+
+export async function readMaskingPolicy(provider: ServerStorageProvider): Promise<MaskingPolicy> {
+  return (await provider.getCollection(MASKING_POLICY_OWNER, "masking_policy")) ?? DEFAULT_MASKING_POLICY;
+}
+
+/**
+ * Replace the policy. One document, saved whole by the one admin screen that edits
+ * it, so there is no read-modify-write for two saves to interleave in.
+ */
+export async function saveMaskingPolicy(provider: ServerStorageProvider, policy: MaskingPolicy): Promise<void> {
+  await provider.setCollection(MASKING_POLICY_OWNER, "masking_policy", policy);
+}
@@ -0,0 +1,35 @@
+import type { MaskingPattern, MaskType } from "@/lib/data-masking";
+
+/**
+ * One column an admin masks by where it lives rather than by what it is called:
+ * `people.national_code` on the warehouse, whatever name detection would make of it.
+ */
+export interface ColumnMaskingRule {
+  /** A seed connection's id (`prod-db`, not `seed:prod-db`), or `*` for every connection. */
+  connection: string;
+  /** A table or collection name, or `*` for the column wherever it comes from. */
+  table: string;
+  column: string;
+  maskType: MaskType;
+  /** The replacement when `maskType` is `custom`. */
+  customMask?: string;
+  /** The column whose value a `date_shift` is keyed on: a patient or customer id. */
+  entityColumn?: string;
+}
+
+/**
+ * The deployment's masking policy, kept in server storage under
+ * `MASKING_POLICY_OWNER` (`./store.ts`) and applied to rows before they leave the
+ * server. `patterns` is the name detection the browser used to do on its own, and
+ * `rules` the columns masked by connection and table; a column either of them
+ * names is masked.
+ */
+export interface MaskingPolicy {
+  /** Off masks nothing at all, rules included. */
+  enabled: boolean;
+  patterns: MaskingPattern[];
+  rules: ColumnMaskingRule[];
+  /** Absent on the built-in policy, which nobody has saved. */
+  updatedAt?: string;
+  updatedBy?: string;
+}
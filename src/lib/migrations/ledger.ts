@@ -0,0 +1,173 @@
+/**
+ * The ledger: a table on the target database that records every attempt to apply a
+ * migration to it.
+ *
+ * On the target rather than in this app's own storage because the schema it
+ * describes lives there. A second LibreDB instance, a restored backup or a colleague
+ * pointing their own studio at the same database all read the same history, and a
+ * migration that commits takes its ledger row with it in the same transaction.
+ *
+ * The columns are deliberately plain: `VARCHAR` and `INTEGER`, and the time as ISO
+ * 8601 text, which every engine here stores, sorts and returns the same way — a
+ * `TIMESTAMP` would come back as a `Date` from one driver, a string from the next and
+ * in the server's zone from a third. Values are bound where the engine has a bind
+ * form and written as literals where it does not, the same rule as an import
+ * (`src/lib/import/insert.ts`, #290).
+ */
+
+import type { DatabaseType, QueryResult } from "@/lib/types";
+import { positionalPlaceholder, quoteLiteral } from "@/lib/sql/values";
+import type { MigrationLedgerEntry, MigrationStatus } from "./types";
+
+export const LEDGER_TABLE = "libredb_schema_migrations";
+
+/** Past these a value is cut, so a long description or driver message never fails the insert that records it. */
+const MAX_DESCRIPTION = 500;
+const MAX_ERROR = 1000;
+
+const LEDGER_COLUMNS = [
+  "id",
+  "checksum",
+  "description",
+  "status",
+  "statement_count",
+  "statements_applied",
+  "applied_at",
+  "applied_by",
+  "execution_ms",
+  "target_snapshot_id",
+  "error_message",
+] as const;
+
+type LedgerColumn = (typeof LEDGER_COLUMNS)[number];
+
+/** The statements that run a query or a ledger write; a provider and a transaction handle both do. */
+export interface LedgerRunner {
+  query(sql: string, params?: unknown[]): Promise<QueryResult>;
+}
+
+/**
+ * `CREATE TABLE` for the ledger. Oracle spells a variable string `VARCHAR2`, and
+ * ClickHouse has its own type names, an explicit `Nullable` and a table engine.
+ */
+export function ledgerCreateStatement(dialect: DatabaseType): string {
+  if (dialect === "clickhouse") {
+    return (
+      `CREATE TABLE IF NOT EXISTS ${LEDGER_TABLE} (\n` +
+      "  id String,\n  checksum String,\n  description String,\n  status String,\n" +
+      "  statement_count Int32,\n  statements_applied Int32,\n  applied_at String,\n  applied_by String,\n" +
+      "  execution_ms Int64,\n  target_snapshot_id Nullable(String),\n  error_message Nullable(String)\n" +
+      ") ENGINE = MergeTree ORDER BY applied_at"
+    );
+  }
+  const text = dialect === "oracle" ? "VARCHAR2" : "VARCHAR";
+  return (
+    `CREATE TABLE ${LEDGER_TABLE} (\n` +
+    `  id ${text}(64) NOT NULL PRIMARY KEY,\n` +
+    `  checksum ${text}(64) NOT NULL,\n` +
+    `  description ${text}(${MAX_DESCRIPTION}) NOT NULL,\n` +
+    `  status ${text}(16) NOT NULL,\n` +
+    "  statement_count INTEGER NOT NULL,\n" +
+    "  statements_applied INTEGER NOT NULL,\n" +
+    `  applied_at ${text}(32) NOT NULL,\n` +
+    `  applied_by ${text}(255) NOT NULL,\n` +
+    "  execution_ms INTEGER NOT NULL,\n" +
+    `  target_snapshot_id ${text}(64),\n` +
+    `  error_message ${text}(${MAX_ERROR})\n` +
+    ")"
+  );
+}
+
+const SELECT_LEDGER = `SELECT ${LEDGER_COLUMNS.join(", ")} FROM ${LEDGER_TABLE}`;
+
+/** The `INSERT` that records `entry`, bound where the engine binds. */
+export function ledgerInsertStatement(
+  dialect: DatabaseType,
+  entry: MigrationLedgerEntry,
+): { sql: string; params: unknown[] } {
+  const values: Record<LedgerColumn, string | number | null> = {
+    id: entry.id,
+    checksum: entry.checksum,
+    description: entry.description.slice(0, MAX_DESCRIPTION),
+    status: entry.status,
+    statement_count: entry.statementCount,
+    statements_applied: entry.statementsApplied,
+    applied_at: entry.appliedAt,
+    applied_by: entry.appliedBy,
+    execution_ms: Math.round(entry.executionMs),
+    target_snapshot_id: entry.targetSnapshotId,
+    error_message: entry.error === null ? null : entry.error.slice(0, MAX_ERROR),
+  };
+
+  const params: unknown[] = [];
+  const placeholders = LEDGER_COLUMNS.map((column) => {
+    const value = values[column];
+    const placeholder = positionalPlaceholder(dialect, params.length + 1);
+    if (placeholder !== null) {
+      params.push(value);
+      return placeholder;
+    }
+    if (value === null) return "NULL";
+    return typeof value === "number" ? String(value) : quoteLiteral(value, dialect);
+  });
+
+  return {
+    sql: `INSERT INTO ${LEDGER_TABLE} (${LEDGER_COLUMNS.join(", ")}) VALUES (${placeholders.join(", ")})`,
+    params,
+  };
+}
+
+const STATUSES: readonly MigrationStatus[] = ["applied", "failed", "rolled_back"];
+
+function textOf(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+/** A ledger row as an entry. Oracle hands back upper-case column names, so keys are read case-blind. */
+function entryFromRow(row: Record<string, unknown>): MigrationLedgerEntry {
+  const cells = new Map(Object.entries(row).map(([key, value]) => [key.toLowerCase(), value]));
+  const cell = (column: LedgerColumn) => cells.get(column);
+  const status = textOf(cell("status")) as MigrationStatus;
+  const snapshot = cell("target_snapshot_id");
+  const error = cell("error_message");
+  return {
+    id: textOf(cell("id")),
+    checksum: textOf(cell("checksum")),
+    description: textOf(cell("description")),
+    status: STATUSES.includes(status) ? status : "failed",
+    statementCount: Number(cell("statement_count") ?? 0),
+    statementsApplied: Number(cell("statements_applied") ?? 0),
+    appliedAt: textOf(cell("applied_at")),
+    appliedBy: textOf(cell("applied_by")),
+    executionMs: Number(cell("execution_ms") ?? 0),
+    targetSnapshotId: snapshot === null || snapshot === undefined || snapshot === "" ? null : String(snapshot),
+    error: error === null || error === undefined || error === "" ? null : String(error),
+  };
+}
+
+/**
+ * Every recorded attempt, newest first, or null when the database has no ledger yet.
+ *
+ * "No ledger" is read off the `SELECT` failing, because asking whether a table exists
+ * is a different catalog query on every engine and this one works on all of them. It
+ * runs outside any transaction: a failed statement aborts a PostgreSQL transaction
+ * and everything after it would fail too.
+ */
+export async function readLedger(run: LedgerRunner): Promise<MigrationLedgerEntry[] | null> {
+  let result: QueryResult;
+  try {
+    result = await run.query(SELECT_LEDGER);
+  } catch {
+    return null;
+  }
+  // Ordered here rather than in SQL: ISO text sorts as time, and the ledger is small.
+  return result.rows.map(entryFromRow).sort((a, b) => b.appliedAt.localeCompare(a.appliedAt));
+}
+
+/** Creates the ledger table unless the database already has one. */
+export async function ensureLedger(run: LedgerRunner, dialect: DatabaseType): Promise<MigrationLedgerEntry[]> {
+  const existing = await readLedger(run);
+  if (existing !== null) return existing;
+  await run.query(ledgerCreateStatement(dialect));
+  return [];
+}
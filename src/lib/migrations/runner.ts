@@ -0,0 +1,158 @@
+/**
+ * Applies a migration script to a connection and records the attempt in its ledger.
+ *
+ * Where the engine has transactional DDL and the provider can open a transaction,
+ * the statements and the ledger row run inside one: a failure at the fourth
+ * statement rolls back the first three, and the ledger says it was rolled back.
+ * Everywhere else they run one after another — MySQL and Oracle commit each DDL
+ * statement on their own, so a transaction would promise an all-or-nothing the
+ * engine does not keep — and a failure is recorded with how far it got, because
+ * that part of the change is now in the schema. The plan says which it will be
+ * before anything runs.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { DatabaseType } from "@/lib/types";
+import type { DatabaseProvider } from "@/lib/db/types";
+import { logger } from "@/lib/logger";
+import { ensureLedger, ledgerInsertStatement, readLedger, type LedgerRunner } from "./ledger";
+import { migrationChecksum, migrationStatements } from "./statements";
+import type { MigrationLedgerEntry, MigrationPlan, MigrationStatus } from "./types";
+
+/**
+ * The engines a migration can be applied to, and whether each rolls DDL back inside
+ * a transaction. The rest either have no DDL the generator writes for (Druid, the
+ * document stores) or none at all, and are refused rather than sent statements they
+ * can only reject (#284). SQLite has transactional DDL, but its provider opens no
+ * transaction through this interface, so on SQLite the plan reports a non-atomic run.
+ */
+const TRANSACTIONAL_DDL: Partial<Record<DatabaseType, boolean>> = {
+  postgres: true,
+  sqlite: true,
+  mssql: true,
+  mysql: false,
+  oracle: false,
+  clickhouse: false,
+};
+
+export function supportsMigrations(dialect: DatabaseType): boolean {
+  return TRANSACTIONAL_DDL[dialect] !== undefined;
+}
+
+/** Whether a transaction on this engine rolls a `CREATE` or `ALTER` back with it. */
+export function hasTransactionalDdl(dialect: DatabaseType): boolean {
+  return TRANSACTIONAL_DDL[dialect] === true;
+}
+
+export interface ApplyMigrationOptions {
+  dialect: DatabaseType;
+  script: string;
+  description: string;
+  appliedBy: string;
+  targetSnapshotId: string | null;
+}
+
+export interface MigrationOutcome {
+  entry: MigrationLedgerEntry;
+  atomic: boolean;
+  /**
+   * Whether the ledger row was written. Only ever false after a run the runner could
+   * not record — the schema has changed either way, so this is reported, not thrown.
+   */
+  recorded: boolean;
+}
+
+function isAtomic(provider: DatabaseProvider, dialect: DatabaseType): boolean {
+  return hasTransactionalDdl(dialect) && provider.openTransaction !== undefined;
+}
+
+function planFrom(
+  statements: string[],
+  atomic: boolean,
+  ledger: readonly MigrationLedgerEntry[] | null,
+): MigrationPlan {
+  const checksum = migrationChecksum(statements);
+  const previouslyApplied = ledger?.find((entry) => entry.checksum === checksum && entry.status === "applied") ?? null;
+  return { checksum, statements, atomic, previouslyApplied };
+}
+
+/** The dry run: what `applyMigration` would execute, read-only — not even the ledger is created. */
+export async function planMigration(
+  provider: DatabaseProvider,
+  dialect: DatabaseType,
+  script: string,
+): Promise<MigrationPlan> {
+  return planFrom(migrationStatements(script), isAtomic(provider, dialect), await readLedger(provider));
+}
+
+async function record(run: LedgerRunner, dialect: DatabaseType, entry: MigrationLedgerEntry): Promise<boolean> {
+  const insert = ledgerInsertStatement(dialect, entry);
+  try {
+    await run.query(insert.sql, insert.params);
+    return true;
+  } catch (error) {
+    logger.error("Failed to record a schema migration in its ledger", error, { route: "migrations" });
+    return false;
+  }
+}
+
+export async function applyMigration(
+  provider: DatabaseProvider,
+  options: ApplyMigrationOptions,
+): Promise<MigrationOutcome> {
+  const { dialect } = options;
+  // Created outside the migration's transaction: a probe that fails inside one
+  // aborts it on PostgreSQL.
+  const ledger = await ensureLedger(provider, dialect);
+  const atomic = isAtomic(provider, dialect);
+  const plan = planFrom(migrationStatements(options.script), atomic, ledger);
+
+  const startTime = Date.now();
+  let statementsApplied = 0;
+  const entryFor = (status: MigrationStatus, error: unknown = null): MigrationLedgerEntry => ({
+    id: `mig_${randomUUID().replaceAll("-", "")}`,
+    checksum: plan.checksum,
+    description: options.description,
+    status,
+    statementCount: plan.statements.length,
+    statementsApplied: status === "rolled_back" ? 0 : statementsApplied,
+    appliedAt: new Date().toISOString(),
+    appliedBy: options.appliedBy,
+    executionMs: Date.now() - startTime,
+    targetSnapshotId: options.targetSnapshotId,
+    error: error === null ? null : error instanceof Error ? error.message : String(error),
+  });
+
+  const { openTransaction } = provider;
+  if (atomic && openTransaction) {
+    const handle = await openTransaction.call(provider);
+    try {
+      for (const sql of plan.statements) {
+        await handle.query(sql);
+        statementsApplied++;
+      }
+      const entry = entryFor("applied");
+      const insert = ledgerInsertStatement(dialect, entry);
+      await handle.query(insert.sql, insert.params);
+      await handle.commit();
+      return { entry, atomic, recorded: true };
+    } catch (error) {
+      // Rolling back is best effort; the error worth recording is the one that stopped the migration.
+      await handle.rollback().catch(() => {});
+      const entry = entryFor("rolled_back", error);
+      return { entry, atomic, recorded: await record(provider, dialect, entry) };
+    }
+  }
+
+  let failure: unknown = null;
+  try {
+    for (const sql of plan.statements) {
+      await provider.query(sql);
+      statementsApplied++;
+    }
+  } catch (error) {
+    failure = error;
+  }
+  const entry = entryFor(failure === null ? "applied" : "failed", failure);
+  return { entry, atomic, recorded: await record(provider, dialect, entry) };
+}
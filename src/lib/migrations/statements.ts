@@ -0,0 +1,51 @@
+/**
+ * The statements a migration script runs, taken from the text `generateMigrationSQL`
+ * produced or the user edited.
+ *
+ * The generator wraps its output in `BEGIN;` … `COMMIT;` and annotates it with `--`
+ * lines, some of which stand in for a change the engine cannot express (#269). None
+ * of that is sent: the runner opens its own transaction where the engine has one to
+ * offer, and a wrapper the driver executed as two more statements would commit
+ * halfway for MySQL and be a syntax error for MSSQL (#284). What is left is each
+ * statement's own text, without the trailing `;` Oracle's driver refuses.
+ */
+
+import { createHash } from "node:crypto";
+import { splitStatements } from "@/lib/sql/statement-splitter";
+
+/** A transaction wrapper line, in any of the spellings the generator or a user writes. */
+const TRANSACTION_WRAPPER = /^(BEGIN|START\s+TRANSACTION|COMMIT|END)(\s+(TRANSACTION|TRAN|WORK))?$/i;
+
+/**
+ * A statement without the comments in front of it. The splitter keeps those with the
+ * statement they precede, and a run of them with nothing after is a statement of its own.
+ */
+function withoutLeadingComments(sql: string): string {
+  let rest = sql.trimStart();
+  for (;;) {
+    if (rest.startsWith("--")) {
+      const lineEnd = rest.indexOf("\n");
+      rest = lineEnd === -1 ? "" : rest.slice(lineEnd + 1).trimStart();
+    } else if (rest.startsWith("/*")) {
+      const end = rest.indexOf("*/");
+      rest = end === -1 ? "" : rest.slice(end + 2).trimStart();
+    } else {
+      return rest.trimEnd();
+    }
+  }
+}
+
+export function migrationStatements(script: string): string[] {
+  return splitStatements(script)
+    .map((statement) => withoutLeadingComments(statement.sql))
+    .filter((sql) => sql !== "" && !TRANSACTION_WRAPPER.test(sql));
+}
+
+/**
+ * The checksum of what runs, not of the script: the generator stamps the time into
+ * its header, so two scripts for the same change never have the same text, and a
+ * reformatted comment is not a different migration.
+ */
+export function migrationChecksum(statements: readonly string[]): string {
+  return createHash("sha256").update(statements.join(";\n")).digest("hex");
+}
@@ -0,0 +1,40 @@
+/**
+ * One recorded attempt to apply a migration, as the ledger table on the target
+ * database holds it (`src/lib/migrations/ledger.ts`).
+ *
+ * Every attempt is a row, not only the ones that worked: a migration that stopped at
+ * its fourth statement on an engine without transactional DDL has changed the schema
+ * as surely as one that finished, and the ledger is where that is found out.
+ */
+export type MigrationStatus = "applied" | "failed" | "rolled_back";
+
+export interface MigrationLedgerEntry {
+  id: string;
+  /** SHA-256 of the statements that ran, so the same change is recognised however it was generated. */
+  checksum: string;
+  description: string;
+  status: MigrationStatus;
+  statementCount: number;
+  /** How many of `statementCount` ran; less than it only when the attempt failed. */
+  statementsApplied: number;
+  appliedAt: string;
+  appliedBy: string;
+  executionMs: number;
+  /** The snapshot the diff compared the schema against, when the migration came from one. */
+  targetSnapshotId: string | null;
+  error: string | null;
+}
+
+/**
+ * What an apply would do, without doing it — the dry run. The same plan is what an
+ * apply then executes, so what was previewed is what runs.
+ */
+export interface MigrationPlan {
+  checksum: string;
+  /** The statements the migration runs, in order, without comments or the `BEGIN`/`COMMIT` wrapper. */
+  statements: string[];
+  /** Whether they run inside one transaction that rolls back as a whole on failure. */
+  atomic: boolean;
+  /** The earlier successful attempt with the same checksum, if the ledger holds one. */
+  previouslyApplied: MigrationLedgerEntry | null;
+}
@@ -3,6 +3,7 @@ import { SignJWT, jwtVerify } from "jose";
 import { logger } from "@/lib/logger";
 import { getJwtSecret } from "@/lib/config/auth-env";
 import { AuthConfigError } from "@/lib/auth-errors";
+import type { AccessRole } from "@/lib/access/types";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -153,29 +154,37 @@ export async function exchangeCode(
 // ─── Role Mapping ──────────────────────────────────────────────────────────
 
 /**
- * Extract role from OIDC claims using configured claim path.
- * Supports dot-notation for nested claims (e.g. "realm_access.roles").
- * Returns 'admin' if any claim value matches OIDC_ADMIN_ROLES, otherwise 'user'.
+ * The values at `roleClaim` in the claims, as strings. Supports dot-notation for
+ * nested claims (e.g. "realm_access.roles"); a single value reads as a list of
+ * one, and an empty path, or one that leads nowhere, as none.
  */
-export function mapOIDCRole(
-  claims: Record<string, unknown>,
-  roleClaim: string,
-  adminRoles: string[],
-): "admin" | "user" {
-  if (!roleClaim) return "user";
+function readRoleClaim(claims: Record<string, unknown>, roleClaim: string): string[] {
+  if (!roleClaim) return [];
 
   // Navigate dot-notation path
   const parts = roleClaim.split(".");
   let value: unknown = claims;
   for (const part of parts) {
-    if (value == null || typeof value !== "object") return "user";
+    if (value == null || typeof value !== "object") return [];
     value = (value as Record<string, unknown>)[part];
   }
 
-  if (value == null) return "user";
+  if (value == null) return [];
 
   // Normalize to array of strings
-  const values: string[] = Array.isArray(value) ? value.map(String) : [String(value)];
+  return Array.isArray(value) ? value.map(String) : [String(value)];
+}
+
+/**
+ * Extract role from OIDC claims using configured claim path.
+ * Returns 'admin' if any claim value matches OIDC_ADMIN_ROLES, otherwise 'user'.
+ */
+export function mapOIDCRole(
+  claims: Record<string, unknown>,
+  roleClaim: string,
+  adminRoles: string[],
+): "admin" | "user" {
+  const values = readRoleClaim(claims, roleClaim);
 
   // Check if any value matches admin roles
   const isAdmin = values.some((v) => adminRoles.some((ar) => v.toLowerCase() === ar.toLowerCase()));
@@ -183,6 +192,17 @@ export function mapOIDCRole(
   return isAdmin ? "admin" : "user";
 }
 
+/**
+ * The role-claim values that name one of the custom roles, or one of a role's
+ * groups - what the session carries as `groups` for `src/lib/access/` to match on
+ * each request. The rest of the claim is dropped here, so a group mapped to a
+ * role after someone signed in reaches them at their next sign-in.
+ */
+export function mapOIDCGroups(claims: Record<string, unknown>, roleClaim: string, roles: AccessRole[]): string[] {
+  const known = new Set(roles.flatMap((role) => [role.name, ...role.groups]).map((g) => g.toLowerCase()));
+  return [...new Set(readRoleClaim(claims, roleClaim).filter((v) => known.has(v.toLowerCase())))];
+}
+
 // ─── State Cookie Encryption ───────────────────────────────────────────────
 
 // Hoisted single-line message (SonarCloud/bun coverage: keep throw messages on one line).
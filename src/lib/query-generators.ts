@@ -49,6 +49,7 @@ const COUCHBASE_KEY_PROJECTION = `META(${COUCHBASE_ALIAS}).id AS ${COUCHBASE_DOC
  *  - MySQL (3306): case-preserving                → backtick-quote only specials
  *  - Couchbase (8091): SQL++                      → always backtick-quote
  *  - Druid (8888): Calcite SQL                    → always double-quote
+ *  - Elasticsearch (`queryDialect`): dotted names → double-quote only specials
  *  - PostgreSQL (5432) / SQLite / ClickHouse (8123) / default: unquoted folds to
  *    lowercase (pg)                                → quote unless plain lower
  *
@@ -77,6 +78,19 @@ export function quoteIdentifier(name: string, capabilities: ProviderCapabilities
     // version-dependent, so no safe unquoted subset is worth detecting.
     return `"${name.replaceAll('"', '""')}"`;
   }
+  if (capabilities.queryDialect === "cql") {
+    // Cassandra (CQL): an unquoted identifier must start with a letter and folds
+    // to lower case, and `$` is not an identifier character at all - so the
+    // PostgreSQL rule below would leave `_ts` or `a$b` bare and invalid.
+    return /^[a-z][a-z0-9_]*$/.test(name) ? name : `"${name.replaceAll('"', '""')}"`;
+  }
+  if (capabilities.queryDialect === "elasticsearch") {
+    // Elasticsearch / OpenSearch SQL: a field's dotted path (`http.response.status`)
+    // and a name with `@` (`@timestamp`) are one bare identifier, and neither folds
+    // case. An index name with a `-` or a `*` (`logs-*`) must be quoted. OpenSearch's
+    // SQL also takes backticks, but both engines take the double quote.
+    return /^[A-Za-z_@][A-Za-z0-9_@.]*$/.test(name) ? name : `"${name.replaceAll('"', '""')}"`;
+  }
   if (capabilities.defaultPort === 1521) {
     // Oracle
     return /^[A-Z_][A-Z0-9_$#]*$/.test(name) ? name : `"${name.replaceAll('"', '""')}"`;
@@ -103,6 +117,9 @@ export function quoteIdentifier(name: string, capabilities: ProviderCapabilities
  */
 export function quoteQualifiedName(name: string, capabilities: ProviderCapabilities): string {
   if (capabilities.queryLanguage === "json") return name;
+  // A dot in an index name is part of the name (`.ds-logs-000001`, `logs.2024`):
+  // a search cluster has no schemas for it to qualify.
+  if (capabilities.queryDialect === "elasticsearch") return quoteIdentifier(name, capabilities);
   return name
     .split(".")
     .map((part) => quoteIdentifier(part, capabilities))
@@ -315,6 +332,12 @@ export function generateTableQuery(
   if (capabilities.queryLanguage === "json") {
     return JSON.stringify({ collection: tableName, operation: "find", filter: {}, options: { limit: 50 } }, null, 2);
   }
+  // Elasticsearch / OpenSearch: a Query DSL request rather than SQL, because it
+  // returns each document whole - its id, its index and every nested field - where
+  // SQL can only return what the mapping flattens to a column.
+  if (capabilities.queryDialect === "elasticsearch") {
+    return JSON.stringify({ index: tableName, query: { match_all: {} }, size: 50 }, null, 2);
+  }
   const table = quoteQualifiedName(tableName, capabilities);
   // Couchbase (SQL++)
   if (capabilities.defaultPort === COUCHBASE_PORT) {
@@ -486,6 +509,16 @@ export function generateSelectQuery(
     return `SELECT\n${projection}\nFROM ${table} AS ${COUCHBASE_ALIAS}\nWHERE 1=1\nLIMIT 100;`;
   }
   const cols = columns.map((c) => `  ${quoteIdentifier(c.name, capabilities)}`).join(",\n") || "  *";
+  // Cassandra (CQL): no `WHERE 1=1`. CQL has no constant expressions to compare,
+  // so the placeholder clause every other dialect gets is a syntax error here.
+  if (capabilities.queryDialect === "cql") {
+    return `SELECT\n${cols}\nFROM ${table}\nLIMIT 100;`;
+  }
+  // Elasticsearch / OpenSearch SQL: no `WHERE 1=1` either. Elasticsearch folds it
+  // away, but OpenSearch's SQL engine rejects a comparison with no field in it.
+  if (capabilities.queryDialect === "elasticsearch") {
+    return `SELECT\n${cols}\nFROM ${table}\nLIMIT 100;`;
+  }
   // Oracle
   if (capabilities.defaultPort === 1521) {
     return `SELECT\n${cols}\nFROM ${table}\nWHERE 1=1\nFETCH FIRST 100 ROWS ONLY;`;
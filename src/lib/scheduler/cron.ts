@@ -0,0 +1,148 @@
+/**
+ * Five-field cron expressions — minute, hour, day of month, month, day of week — and
+ * the next time one fires.
+ *
+ * Times are UTC. A server's local zone is whatever its container was built with, and
+ * a schedule that moved by an hour when the image changed, or ran twice on the night
+ * the clocks go back, would be worse than one the owner has to write in UTC.
+ */
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronError";
+  }
+}
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /**
+   * Whether day of month or day of week was left `*`. When both are restricted a day
+   * matches if EITHER does — the rule every cron has had since Vixie's, and the one
+   * `0 0 1 * MON` is written expecting.
+   */
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const NICKNAMES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is Sunday too, as in every cron that accepts it; it is folded to 0 below.
+  { name: "day of week", min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  if (named >= 0) return named + (spec.names === MONTH_NAMES ? 1 : 0);
+  if (!/^\d+$/.test(text)) throw new CronError(`"${text}" is not a valid ${spec.name}`);
+  const value = Number(text);
+  if (value < spec.min || value > spec.max) {
+    throw new CronError(`${spec.name} ${value} is outside ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+function parseField(text: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new CronError(`"${part}" has an invalid step`);
+
+    let from: number;
+    let to: number;
+    if (range === "*") {
+      [from, to] = [spec.min, spec.max];
+    } else if (range.includes("-")) {
+      const [low, high] = range.split("-");
+      [from, to] = [parseValue(low, spec), parseValue(high, spec)];
+      if (from > to) throw new CronError(`"${range}" is an empty ${spec.name} range`);
+    } else {
+      from = parseValue(range, spec);
+      // `5/15` is "from 5, every 15", as cronie reads it.
+      to = stepText === undefined ? from : spec.max;
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return values;
+}
+
+/** Parse `expression`, throwing a `CronError` that names what is wrong with it. */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (NICKNAMES[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronError(`Expected 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  if (weekdays.delete(7)) weekdays.add(0);
+  return { minutes, hours, days, months, weekdays, anyDay: fields[2] === "*", anyWeekday: fields[4] === "*" };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const byDay = schedule.days.has(date.getUTCDate());
+  const byWeekday = schedule.weekdays.has(date.getUTCDay());
+  if (schedule.anyDay) return byWeekday;
+  if (schedule.anyWeekday) return byDay;
+  return byDay || byWeekday;
+}
+
+/** Five years: far enough for `0 0 29 2 *` to find its leap day, near enough that an impossible date ends. */
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * The first minute strictly after `after` that `schedule` fires at, or null when it
+ * never does (`0 0 31 2 *`). Steps a month, day or hour at a time while those do not
+ * match, so finding next year's run costs a few hundred steps rather than half a
+ * million.
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getTime() + SEARCH_LIMIT_MS;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!dayMatches(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
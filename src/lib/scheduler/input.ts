@@ -0,0 +1,90 @@
+import type { ThresholdConfig } from "@/lib/monitoring-thresholds";
+import { CronError, parseCron } from "./cron";
+import { webhookUrlProblem } from "./webhook";
+import type { QueryScheduleInput } from "./types";
+
+const DEFAULT_KEEP_RESULTS = 10;
+const MAX_KEEP_RESULTS = 100;
+
+/** A schedule the browser sent that cannot be saved; the message says which field and why. */
+export class ScheduleInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleInputError";
+  }
+}
+
+function readThreshold(value: unknown): ThresholdConfig | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "object") throw new ScheduleInputError("threshold must be an object");
+  const { metric, warning, critical, direction, label } = value as Record<string, unknown>;
+  if (typeof metric !== "string" || metric.trim() === "") {
+    throw new ScheduleInputError('threshold.metric must be "rowCount" or a column name');
+  }
+  if (
+    typeof warning !== "number" ||
+    !Number.isFinite(warning) ||
+    typeof critical !== "number" ||
+    !Number.isFinite(critical)
+  ) {
+    throw new ScheduleInputError("threshold.warning and threshold.critical must be numbers");
+  }
+  if (direction !== "above" && direction !== "below") {
+    throw new ScheduleInputError('threshold.direction must be "above" or "below"');
+  }
+  // The same ordering `evaluateThreshold` assumes: critical is the further of the two.
+  if (direction === "above" ? critical < warning : critical > warning) {
+    throw new ScheduleInputError(`threshold.critical must be ${direction} threshold.warning`);
+  }
+  const trimmed = metric.trim();
+  return {
+    metric: trimmed,
+    warning,
+    critical,
+    direction,
+    label:
+      typeof label === "string" && label.trim() !== "" ? label.trim() : trimmed === "rowCount" ? "Row count" : trimmed,
+  };
+}
+
+/** The schedule in a request body, checked field by field. */
+export function readScheduleInput(body: unknown): QueryScheduleInput {
+  if (typeof body !== "object" || body === null) throw new ScheduleInputError("Expected a schedule");
+  const { id, savedQueryId, connectionId, cron, enabled, keepResults, threshold, webhookUrl } = body as Record<
+    string,
+    unknown
+  >;
+
+  if (typeof savedQueryId !== "string" || savedQueryId === "") throw new ScheduleInputError("savedQueryId is required");
+  if (typeof connectionId !== "string" || connectionId === "") throw new ScheduleInputError("connectionId is required");
+  if (typeof cron !== "string") throw new ScheduleInputError("cron is required");
+  try {
+    parseCron(cron);
+  } catch (error) {
+    if (error instanceof CronError) throw new ScheduleInputError(`cron: ${error.message}`);
+    throw error;
+  }
+
+  const keep = keepResults ?? DEFAULT_KEEP_RESULTS;
+  if (typeof keep !== "number" || !Number.isInteger(keep) || keep < 1 || keep > MAX_KEEP_RESULTS) {
+    throw new ScheduleInputError(`keepResults must be a whole number from 1 to ${MAX_KEEP_RESULTS}`);
+  }
+
+  let webhook: string | null = null;
+  if (typeof webhookUrl === "string" && webhookUrl.trim() !== "") {
+    webhook = webhookUrl.trim();
+    const problem = webhookUrlProblem(webhook);
+    if (problem) throw new ScheduleInputError(problem);
+  }
+
+  return {
+    ...(typeof id === "string" && id !== "" ? { id } : {}),
+    savedQueryId,
+    connectionId,
+    cron: cron.trim(),
+    enabled: enabled !== false,
+    keepResults: keep,
+    threshold: readThreshold(threshold),
+    webhookUrl: webhook,
+  };
+}
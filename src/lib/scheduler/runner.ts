@@ -0,0 +1,295 @@
+/**
+ * Runs one scheduled query as its owner, keeps the result, and raises the alert its
+ * threshold asks for.
+ *
+ * A run reads only what the owner could read from the studio now: the saved query
+ * and the connection come out of the owner's own storage, and every run resolves the
+ * owner again (`currentIdentity`) and asks for the grant the statement needs with the
+ * role and groups found, as the query route asks for a session's. The rows it keeps
+ * are masked as that route masks them, before they are stored. Only
+ * statements that return rows are run — a schedule is a way to watch data, and an
+ * `UPDATE` firing every five minutes with nobody at the keyboard is not something
+ * this should make easy.
+ */
+
+import { randomUUID } from "node:crypto";
+import { isSelectQuery } from "@/lib/db/utils/query-limiter";
+import { editorExecution } from "@/lib/access/editor-execution";
+import { grantTarget, requireGrant } from "@/lib/access/enforce";
+import { statementPermission } from "@/lib/access/grants";
+import type { AccessSubject } from "@/lib/access/grants";
+import { currentIdentity } from "@/lib/accounts/identity";
+import { readMaskingPolicy } from "@/lib/masking/store";
+import { maskResult } from "@/lib/masking/policy";
+import { resolveConnection } from "@/lib/seed/resolve-connection";
+import { readResultBatches } from "@/lib/export/stream";
+import { bindQueryParameters } from "@/lib/sql/parameters";
+import { emitAuditEvent } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import { evaluateThreshold, type ThresholdConfig, type ThresholdLevel } from "@/lib/monitoring-thresholds";
+import type { ServerStorageProvider } from "@/lib/storage/types";
+import type { DatabaseConnection } from "@/lib/types";
+import { nextCronRun, parseCron } from "./cron";
+import { addNotification, readCollection, updateCollection } from "./store";
+import { postWebhook } from "./webhook";
+import type { QuerySchedule, ScheduleRun } from "./types";
+
+/** The rows a run keeps. The rest are counted, not stored: server storage is not a warehouse. */
+export const SNAPSHOT_ROWS = 500;
+
+/** Thrown for a run that cannot start; its message is what the run history shows. */
+class ScheduleRunError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleRunError";
+  }
+}
+
+const LEVEL_RANK: Record<ThresholdLevel, number> = { healthy: 0, warning: 1, critical: 2 };
+
+/**
+ * Whether going from `previous` to `level` crosses into a level worth an alert. Only a
+ * rise does: a query that sits at warning for a week alerts once, not 2,000 times, and
+ * one that recovers and breaks again alerts again.
+ */
+export function crossedInto(previous: ThresholdLevel | null, level: ThresholdLevel): boolean {
+  return LEVEL_RANK[level] > LEVEL_RANK[previous ?? "healthy"];
+}
+
+/**
+ * The number a threshold is checked against: the row count, or the first row's value
+ * in the column the metric names. Null when that value is not a number — a threshold
+ * on a column that came back NULL or as text has nothing to compare, and guessing 0
+ * would alert on every `below` threshold there is.
+ */
+export function measure(
+  threshold: ThresholdConfig,
+  result: { rowCount: number; rows: readonly Record<string, unknown>[] },
+): number | null {
+  if (threshold.metric === "rowCount") return result.rowCount;
+  const value = result.rows[0]?.[threshold.metric];
+  const number =
+    typeof value === "number"
+      ? value
+      : typeof value === "bigint"
+        ? Number(value)
+        : typeof value === "string" && value.trim() !== ""
+          ? Number(value)
+          : Number.NaN;
+  return Number.isFinite(number) ? number : null;
+}
+
+async function scheduleConnection(
+  storage: ServerStorageProvider,
+  owner: AccessSubject,
+  connectionId: string,
+): Promise<DatabaseConnection> {
+  if (connectionId.startsWith("seed:")) return resolveConnection({ connectionId }, owner);
+  const connections = (await storage.getCollection(owner.username, "connections")) ?? [];
+  const connection = connections.find((c) => c.id === connectionId);
+  if (!connection) throw new ScheduleRunError("The connection this schedule runs on no longer exists");
+  return connection;
+}
+
+/** Run the schedule's query and describe what came back. Never throws: a failure is a run too. */
+async function executeSchedule(
+  storage: ServerStorageProvider,
+  ownerId: string,
+  schedule: QuerySchedule,
+  now: Date,
+  session: AccessSubject | undefined,
+): Promise<{ run: ScheduleRun; connectionName: string | null }> {
+  const started = Date.now();
+  const run: ScheduleRun = {
+    id: `run_${randomUUID().replaceAll("-", "")}`,
+    scheduleId: schedule.id,
+    startedAt: now.toISOString(),
+    durationMs: 0,
+    status: "success",
+    rowCount: 0,
+    fields: [],
+    rows: [],
+    error: null,
+    measured: null,
+    level: null,
+    alerted: false,
+  };
+  let connectionName: string | null = null;
+
+  try {
+    const saved = (await storage.getCollection(ownerId, "saved_queries")) ?? [];
+    const query = saved.find((q) => q.id === schedule.savedQueryId);
+    if (!query) throw new ScheduleRunError("The saved query this schedule runs was deleted");
+
+    // Who the owner is now, not who they were when the schedule was saved: a disabled
+    // account, or a role or group since taken away, stops the run here. A run the owner
+    // started by hand has their session, which already says.
+    let owner = session;
+    if (!owner) {
+      const identity = await currentIdentity(storage, ownerId);
+      if (!identity) throw new ScheduleRunError("The schedule's owner can no longer sign in");
+      owner = { username: ownerId, ...identity };
+    }
+
+    const connection = await scheduleConnection(storage, owner, schedule.connectionId);
+    connectionName = connection.name;
+    // Read as the editor would read it: on the read-only boundary when the
+    // connection takes no writes.
+    const execution = await editorExecution(connection);
+    if (execution.provider.getCapabilities().queryLanguage !== "sql") {
+      throw new ScheduleRunError("Only queries on SQL databases can be scheduled");
+    }
+    if (!isSelectQuery(query.query, connection.type)) {
+      throw new ScheduleRunError("Only a statement that returns rows can be scheduled");
+    }
+
+    // A saved query with parameters runs with the values it was last run with in the
+    // studio; one that never ran with them fails here, naming the parameter it lacks.
+    const target = grantTarget(schedule);
+    const permissions = await requireGrant(
+      owner,
+      target,
+      statementPermission(query.query, connection.type),
+      connection.name,
+    );
+    const bound = bindQueryParameters(query.query, query.parameters, connection.type);
+    for await (const batch of readResultBatches(execution, bound?.query ?? query.query, bound?.params)) {
+      if (run.fields.length === 0) run.fields = batch.fields;
+      const room = SNAPSHOT_ROWS - run.rows.length;
+      if (room > 0) run.rows.push(...batch.rows.slice(0, room));
+      run.rowCount += batch.rows.length;
+    }
+    // Masked before it is stored, so nothing reads the values back unmasked - not the
+    // run history, and not a threshold on a masked column, which then has no number.
+    run.rows = maskResult(await readMaskingPolicy(storage), target, query.query, run, permissions.has("unmask")).rows;
+
+    if (schedule.threshold) {
+      run.measured = measure(schedule.threshold, run);
+      if (run.measured !== null) run.level = evaluateThreshold(run.measured, schedule.threshold);
+    }
+  } catch (error) {
+    run.status = "error";
+    run.error = error instanceof Error ? error.message : String(error);
+  }
+  run.durationMs = Date.now() - started;
+  return { run, connectionName };
+}
+
+function alertMessage(threshold: ThresholdConfig, level: ThresholdLevel, measured: number): string {
+  const limit = level === "critical" ? threshold.critical : threshold.warning;
+  const comparison = threshold.direction === "above" ? "at or above" : "at or below";
+  return `${threshold.label} is ${measured}, ${comparison} the ${level} threshold of ${limit}`;
+}
+
+async function raiseAlert(
+  storage: ServerStorageProvider,
+  ownerId: string,
+  schedule: QuerySchedule,
+  run: ScheduleRun,
+  connectionName: string | null,
+): Promise<void> {
+  const threshold = schedule.threshold!;
+  const level = run.level as Exclude<ThresholdLevel, "healthy">;
+  const message = alertMessage(threshold, level, run.measured!);
+
+  emitAuditEvent({
+    type: "scheduled_query",
+    action: `threshold_${level}`,
+    target: schedule.queryName,
+    connectionName: connectionName ?? undefined,
+    user: ownerId,
+    result: "success",
+    details: message,
+  });
+  await addNotification(storage, ownerId, {
+    id: `ntf_${randomUUID().replaceAll("-", "")}`,
+    scheduleId: schedule.id,
+    runId: run.id,
+    queryName: schedule.queryName,
+    level,
+    message,
+    createdAt: run.startedAt,
+    read: false,
+  });
+  // The payload says what crossed and where, never the rows: the endpoint is for
+  // waking someone up, and the rows are one click away in the app for whoever may see them.
+  if (schedule.webhookUrl) {
+    await postWebhook(schedule.webhookUrl, {
+      event: "scheduled_query.alert",
+      scheduleId: schedule.id,
+      runId: run.id,
+      query: schedule.queryName,
+      connection: connectionName,
+      level,
+      metric: threshold.metric,
+      value: run.measured,
+      threshold: { warning: threshold.warning, critical: threshold.critical, direction: threshold.direction },
+      message,
+      ranAt: run.startedAt,
+    });
+  }
+}
+
+/** When `cron` next fires after `after`, as stored; null for an expression that never fires. */
+export function nextRunAt(cron: string, after: Date): string | null {
+  return nextCronRun(parseCron(cron), after)?.toISOString() ?? null;
+}
+
+/**
+ * Run a schedule, keep its result among the owner's last `keepResults` for it, move
+ * the schedule to its next run, and alert when the result crossed its threshold.
+ *
+ * The schedule is re-read when it is written back: the owner may have edited it while
+ * it ran, and a run must not put back the settings they just changed — nor bring back
+ * one they deleted.
+ *
+ * `session` is the owner's, when they ran it by hand; the scheduler has none, and the
+ * run resolves the owner itself.
+ */
+export async function runSchedule(
+  storage: ServerStorageProvider,
+  ownerId: string,
+  schedule: QuerySchedule,
+  now: Date = new Date(),
+  session?: AccessSubject,
+): Promise<ScheduleRun> {
+  const { run, connectionName } = await executeSchedule(storage, ownerId, schedule, now, session);
+  run.alerted = run.level !== null && crossedInto(schedule.lastLevel, run.level);
+
+  await updateCollection(storage, ownerId, "query_schedule_runs", (runs) => {
+    const others = runs.filter((r) => r.scheduleId !== schedule.id);
+    const own = [run, ...runs.filter((r) => r.scheduleId === schedule.id)].slice(0, schedule.keepResults);
+    return { data: [...own, ...others], result: undefined };
+  });
+  await updateCollection(storage, ownerId, "query_schedules", (schedules) => ({
+    data: schedules.map((current) => {
+      if (current.id !== schedule.id) return current;
+      let next: string | null = null;
+      try {
+        next = nextRunAt(current.cron, new Date());
+      } catch {
+        // Saved through the route, the expression parsed; one that no longer does stops here.
+      }
+      return { ...current, lastRunAt: run.startedAt, nextRunAt: next, lastLevel: run.level ?? current.lastLevel };
+    }),
+    result: undefined,
+  }));
+
+  if (run.alerted) {
+    try {
+      await raiseAlert(storage, ownerId, schedule, run, connectionName);
+    } catch (error) {
+      logger.error("Scheduled query alert failed", error, { route: "scheduler", scheduleId: schedule.id });
+    }
+  }
+  return run;
+}
+
+/** The runs `ownerId` keeps for one schedule, newest first. */
+export async function readScheduleRuns(
+  storage: ServerStorageProvider,
+  ownerId: string,
+  scheduleId: string,
+): Promise<ScheduleRun[]> {
+  return (await readCollection(storage, ownerId, "query_schedule_runs")).filter((run) => run.scheduleId === scheduleId);
+}
@@ -0,0 +1,60 @@
+/**
+ * The loop that runs scheduled queries when they are due.
+ *
+ * It wakes every `TICK_MS`, finds every user's enabled schedules whose `nextRunAt`
+ * has passed, and runs them. Nothing is queued in memory: the schedules in server
+ * storage are the whole state, so a restart loses nothing — a schedule that came due
+ * while the server was down runs once on the first tick after boot, then resumes its
+ * cron, rather than replaying every run it missed.
+ */
+
+import { logger } from "@/lib/logger";
+import { getStorageProvider } from "@/lib/storage/factory";
+import { runSchedule } from "./runner";
+
+const TICK_MS = 30_000;
+
+let timer: ReturnType<typeof setInterval> | null = null;
+/** Schedules with a run in flight. A run that outlasts its interval is not started again on top of itself. */
+const running = new Set<string>();
+
+/** Run every schedule due at `now`; resolves with how many were started. */
+export async function runDueSchedules(now: Date = new Date()): Promise<number> {
+  const storage = await getStorageProvider();
+  if (!storage) return 0;
+
+  const due = now.toISOString();
+  const started: Promise<unknown>[] = [];
+  for (const { userId, data } of await storage.listCollection("query_schedules")) {
+    for (const schedule of data) {
+      if (!schedule.enabled || !schedule.nextRunAt || schedule.nextRunAt > due || running.has(schedule.id)) continue;
+      running.add(schedule.id);
+      started.push(
+        runSchedule(storage, userId, schedule, now)
+          .catch((error) => {
+            logger.error("Scheduled query run failed", error, { route: "scheduler", scheduleId: schedule.id });
+          })
+          .finally(() => running.delete(schedule.id)),
+      );
+    }
+  }
+  await Promise.all(started);
+  return started.length;
+}
+
+/**
+ * Start the loop, once per process. Called from `instrumentation.ts`, and only when
+ * server storage is on: with `STORAGE_PROVIDER=local` a user's saved queries live in
+ * their browser, where the server cannot read them.
+ */
+export function startQueryScheduler(): void {
+  if (timer) return;
+  timer = setInterval(() => {
+    runDueSchedules().catch((error) => {
+      logger.error("Query scheduler tick failed", error, { route: "scheduler" });
+    });
+  }, TICK_MS);
+  // The loop must never be what keeps a process alive that is otherwise done.
+  timer.unref?.();
+  logger.info("Query scheduler started", { route: "scheduler", tickMs: TICK_MS });
+}
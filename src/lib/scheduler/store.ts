@@ -0,0 +1,46 @@
+import type { ServerOnlyCollection, ServerOnlyData, ServerStorageProvider } from "@/lib/storage/types";
+import type { ScheduleNotification } from "./types";
+
+/** The most notifications kept per user; older ones are dropped, read or not. */
+const MAX_NOTIFICATIONS = 100;
+
+export async function readCollection<K extends ServerOnlyCollection>(
+  provider: ServerStorageProvider,
+  userId: string,
+  collection: K,
+): Promise<ServerOnlyData[K]> {
+  return ((await provider.getCollection(userId, collection)) ?? []) as ServerOnlyData[K];
+}
+
+/**
+ * Replace `userId`'s `collection` with what `update` makes of it, in one storage
+ * transaction (`ServerStorageProvider.updateCollection`). Each update reads a whole
+ * collection and writes it back, and a run finishing while its owner saves a
+ * schedule is the ordinary case, not a race to design around: without this the
+ * later write silently drops the earlier one, on whichever replica it lands.
+ */
+export async function updateCollection<K extends ServerOnlyCollection, T = void>(
+  provider: ServerStorageProvider,
+  userId: string,
+  collection: K,
+  update: (current: ServerOnlyData[K]) => { data: ServerOnlyData[K]; result: T },
+): Promise<T> {
+  let result!: T;
+  await provider.updateCollection(userId, collection, (current) => {
+    const next = update((current ?? []) as ServerOnlyData[K]);
+    result = next.result;
+    return next.data;
+  });
+  return result;
+}
+
+export function addNotification(
+  provider: ServerStorageProvider,
+  userId: string,
+  notification: ScheduleNotification,
+): Promise<void> {
+  return updateCollection(provider, userId, "schedule_notifications", (current) => ({
+    data: [notification, ...current].slice(0, MAX_NOTIFICATIONS),
+    result: undefined,
+  }));
+}
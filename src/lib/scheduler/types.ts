@@ -0,0 +1,79 @@
+import type { Role } from "@/lib/auth";
+import type { ThresholdConfig, ThresholdLevel } from "@/lib/monitoring-thresholds";
+
+/**
+ * A cron schedule attached to one of its owner's saved queries, run by the server
+ * (`src/lib/scheduler/`). Held in server storage under the owner, in a collection the
+ * browser can read through `/api/schedules` but never write directly — see
+ * `ServerOnlyData` in `@/lib/storage/types`.
+ */
+export interface QuerySchedule {
+  id: string;
+  /** The `SavedQuery` it runs. Its SQL is read at run time, so an edit to the query applies to the next run. */
+  savedQueryId: string;
+  /** The query's name when the schedule was last saved, for notifications about a query since deleted. */
+  queryName: string;
+  /** A saved connection's id, or `seed:<id>` for a managed one. */
+  connectionId: string;
+  /** Five-field cron expression, evaluated in UTC (`src/lib/scheduler/cron.ts`). */
+  cron: string;
+  enabled: boolean;
+  /** How many of the latest runs' results are kept. */
+  keepResults: number;
+  /**
+   * When to raise an alert. `metric` is `rowCount` for the number of rows the query
+   * returned, or the name of a column whose value in the first row is measured.
+   */
+  threshold: ThresholdConfig | null;
+  /** Posted to on every alert. Only hosts the operator allowed (`SCHEDULE_WEBHOOK_HOSTS`). */
+  webhookUrl: string | null;
+  /**
+   * The owner's role when the schedule was saved, as the schedule list shows it. A
+   * run does not go by it: it resolves the owner again, so a role taken away since
+   * is taken from the schedule too (`./runner.ts`).
+   */
+  ownerRole: Role;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  /** The level the last measured run was at, so an alert is raised on crossing into a level, not on every run at it. */
+  lastLevel: ThresholdLevel | null;
+}
+
+/** What the browser sends to create or change a schedule; the rest is the server's. */
+export type QueryScheduleInput = Pick<
+  QuerySchedule,
+  "savedQueryId" | "connectionId" | "cron" | "enabled" | "keepResults" | "threshold" | "webhookUrl"
+> & { id?: string };
+
+/** One run of a schedule and the result it kept. */
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  startedAt: string;
+  durationMs: number;
+  status: "success" | "error";
+  /** Every row the query returned, counted; `rows` holds only the first of them. */
+  rowCount: number;
+  fields: string[];
+  rows: Record<string, unknown>[];
+  error: string | null;
+  /** The value the threshold was checked against, or null when there is no threshold or it could not be read. */
+  measured: number | null;
+  level: ThresholdLevel | null;
+  /** Whether this run raised an alert. */
+  alerted: boolean;
+}
+
+/** An alert as the owner sees it in the app. */
+export interface ScheduleNotification {
+  id: string;
+  scheduleId: string;
+  runId: string;
+  queryName: string;
+  level: Exclude<ThresholdLevel, "healthy">;
+  message: string;
+  createdAt: string;
+  read: boolean;
+}
@@ -0,0 +1,73 @@
+import { logger } from "@/lib/logger";
+
+/** How long an alert waits for the webhook before giving up on it. */
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+/**
+ * The hosts an alert may be posted to: loopback, plus whatever the operator lists in
+ * `SCHEDULE_WEBHOOK_HOSTS` (comma-separated, `host` or `host:port`).
+ *
+ * A schedule's webhook is typed in by whoever owns the schedule, and the server is
+ * the one that calls it — from inside the network it runs in. Left open, the field
+ * would let any user make the server send requests to any address it can reach, so
+ * the operator names the local endpoints alerts are for and nothing else is called.
+ */
+function allowedWebhookHosts(): string[] {
+  const configured = (process.env.SCHEDULE_WEBHOOK_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+  return [...LOOPBACK_HOSTS, ...configured];
+}
+
+/** Why `url` cannot be a webhook, or null when it can. */
+export function webhookUrlProblem(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "The webhook is not a valid URL";
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return "The webhook must be an http or https URL";
+  const allowed = allowedWebhookHosts();
+  if (!allowed.includes(parsed.hostname.toLowerCase()) && !allowed.includes(parsed.host.toLowerCase())) {
+    return `Webhooks may only call ${allowed.join(", ")}. Ask an administrator to add ${parsed.host} to SCHEDULE_WEBHOOK_HOSTS.`;
+  }
+  return null;
+}
+
+/**
+ * Post an alert to a schedule's webhook. Never throws: the alert has already been
+ * recorded and shown in the app, and an endpoint that is down must not turn the run
+ * that raised it into a failed one. The host is checked again here and not only when
+ * the schedule was saved, because the operator's list can have shrunk since.
+ */
+export async function postWebhook(url: string, payload: Record<string, unknown>): Promise<boolean> {
+  const problem = webhookUrlProblem(url);
+  if (problem) {
+    logger.warn("Scheduled query webhook skipped", { route: "scheduler", reason: problem });
+    return false;
+  }
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      redirect: "manual",
+    });
+    if (!res.ok) {
+      logger.warn("Scheduled query webhook failed", { route: "scheduler", status: res.status });
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logger.warn("Scheduled query webhook failed", {
+      route: "scheduler",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
@@ -0,0 +1,77 @@
+import type { DatabaseConnection, DatabaseType, TableSchema } from "@/lib/types";
+import { diffSchemas } from "./diff-engine";
+import type { DiffOptions, SchemaDiff } from "./types";
+
+/** Which of the two compared connections a generated migration is written to change. */
+export type MigrationSide = "source" | "target";
+
+/** One side of a live comparison: the connection and the schema read from it just now. */
+export interface LiveSchema {
+  connection: DatabaseConnection;
+  schema: TableSchema[];
+}
+
+export interface CrossConnectionDiff {
+  /** What has to change on `migrated` for it to match `reference`. */
+  diff: SchemaDiff;
+  /** The dialect the migration is written in: always the migrated side's. */
+  dialect: DatabaseType;
+  migrated: DatabaseConnection;
+  reference: DatabaseConnection;
+}
+
+/**
+ * MariaDB connects through the MySQL provider (`src/lib/db/compatibility.ts`) and
+ * reads the same `information_schema.COLUMNS`, but since 10.2.7 it spells
+ * `COLUMN_DEFAULT` as an expression: a string default comes back quoted (`'active'`
+ * where MySQL says `active`), a NULL default comes back as the text `NULL` where
+ * MySQL answers SQL NULL, and the timestamp default as `current_timestamp()`. Compared as
+ * strings, every defaulted column of a "MySQL vs MariaDB" pair reads as changed.
+ *
+ * This folds both spellings into one so the comparison sees only real differences.
+ * The one case it cannot tell apart is a MariaDB column whose default is the string
+ * `'NULL'` — quoted, so it stays distinct — against a MySQL one whose default is the
+ * four letters `NULL`, which MySQL reports exactly like no default at all.
+ */
+function comparableMySQLDefault(value: string | undefined): string {
+  if (value === undefined || value === "" || value.toUpperCase() === "NULL") return "";
+  const timestamp = /^current_timestamp(?:\((\d*)\))?$/i.exec(value);
+  if (timestamp) return timestamp[1] ? `CURRENT_TIMESTAMP(${timestamp[1]})` : "CURRENT_TIMESTAMP";
+  const quoted = /^'([\s\S]*)'$/.exec(value);
+  return quoted ? quoted[1].replaceAll("''", "'") : value;
+}
+
+/**
+ * The options that make two schemas from these engines comparable. Engines of
+ * different families get none: their types and defaults differ for real, and no
+ * folding here would make the generated SQL any more right.
+ */
+export function diffOptionsFor(sourceType?: DatabaseType, targetType?: DatabaseType): DiffOptions {
+  return sourceType === "mysql" && targetType === "mysql" ? { comparableDefault: comparableMySQLDefault } : {};
+}
+
+/**
+ * Compare the live schemas of two connections, as the migration that brings the
+ * `migrate` side in line with the other.
+ *
+ * `diffSchemas` reports what has to change on its FIRST argument to match its
+ * second, so the side being migrated goes first, and the migration is written in
+ * that side's dialect — the other connection's engine never sees the SQL.
+ */
+export function crossConnectionDiff(
+  source: LiveSchema,
+  target: LiveSchema,
+  migrate: MigrationSide,
+): CrossConnectionDiff {
+  const [migrated, reference] = migrate === "source" ? [source, target] : [target, source];
+  return {
+    diff: diffSchemas(
+      migrated.schema,
+      reference.schema,
+      diffOptionsFor(migrated.connection.type, reference.connection.type),
+    ),
+    dialect: migrated.connection.type,
+    migrated: migrated.connection,
+    reference: reference.connection,
+  };
+}
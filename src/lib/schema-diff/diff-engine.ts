@@ -1,7 +1,13 @@
 import type { TableSchema, ColumnSchema, IndexSchema, ForeignKeySchema } from "@/lib/types";
-import type { SchemaDiff, TableDiff, ColumnDiff, IndexDiff, ForeignKeyDiff } from "./types";
+import type { SchemaDiff, TableDiff, ColumnDiff, IndexDiff, ForeignKeyDiff, DiffOptions } from "./types";
 
-function diffColumns(sourceCols: ColumnSchema[], targetCols: ColumnSchema[]): ColumnDiff[] {
+const exactDefault = (value: string | undefined) => value || "";
+
+function diffColumns(
+  sourceCols: ColumnSchema[],
+  targetCols: ColumnSchema[],
+  comparableDefault: (value: string | undefined) => string,
+): ColumnDiff[] {
   const diffs: ColumnDiff[] = [];
   const sourceMap = new Map(sourceCols.map((c) => [c.name, c]));
   const targetMap = new Map(targetCols.map((c) => [c.name, c]));
@@ -49,7 +55,7 @@ function diffColumns(sourceCols: ColumnSchema[], targetCols: ColumnSchema[]): Co
     if (sourceCol.nullable !== targetCol.nullable) {
       changes.push(`Nullable changed: ${sourceCol.nullable} → ${targetCol.nullable}`);
     }
-    if ((sourceCol.defaultValue || "") !== (targetCol.defaultValue || "")) {
+    if (comparableDefault(sourceCol.defaultValue) !== comparableDefault(targetCol.defaultValue)) {
       changes.push(`Default changed: ${sourceCol.defaultValue || "none"} → ${targetCol.defaultValue || "none"}`);
     }
     if (sourceCol.isPrimary !== targetCol.isPrimary) {
@@ -190,7 +196,8 @@ function diffForeignKeys(sourceFKs: ForeignKeySchema[], targetFKs: ForeignKeySch
   return diffs;
 }
 
-export function diffSchemas(source: TableSchema[], target: TableSchema[]): SchemaDiff {
+export function diffSchemas(source: TableSchema[], target: TableSchema[], options: DiffOptions = {}): SchemaDiff {
+  const comparableDefault = options.comparableDefault ?? exactDefault;
   const sourceMap = new Map(source.map((t) => [t.name, t]));
   const targetMap = new Map(target.map((t) => [t.name, t]));
 
@@ -260,7 +267,7 @@ export function diffSchemas(source: TableSchema[], target: TableSchema[]): Schem
     const targetTable = targetMap.get(name);
     if (!targetTable) continue;
 
-    const columns = diffColumns(sourceTable.columns, targetTable.columns);
+    const columns = diffColumns(sourceTable.columns, targetTable.columns, comparableDefault);
     const indexes = diffIndexes(sourceTable.indexes, targetTable.indexes);
     const foreignKeys = diffForeignKeys(sourceTable.foreignKeys || [], targetTable.foreignKeys || []);
 
@@ -81,8 +81,26 @@ const NO_COLUMN_MODIFICATION: Partial<Record<DatabaseType, { label: string; reas
     label: "LibreDB",
     reason: "The embedded engine speaks a JSON command grammar, not SQL DDL.",
   },
+  cassandra: {
+    label: "Cassandra",
+    reason:
+      "CQL removed ALTER TABLE ... ALTER in 3.10 and has no NOT NULL or column DEFAULT; add a new column and backfill it.",
+  },
+  elasticsearch: {
+    label: "Elasticsearch",
+    reason: "A field's mapping cannot be changed in place; create an index with the new mapping and reindex into it.",
+  },
 };
 
+/**
+ * DuckDB declares foreign keys in CREATE TABLE only: `ALTER TABLE ... ADD CONSTRAINT` and `DROP
+ * CONSTRAINT` are both "Not implemented" in the bundled engine, so a key the diff adds is named in a
+ * comment rather than emitted as a statement that cannot run.
+ */
+function duckdbForeignKeyComment(columnName: string): string {
+  return `-- DuckDB: Cannot add foreign key on "${columnName}" with ALTER TABLE. Declare it in CREATE TABLE (requires table recreation).`;
+}
+
 function generateColumnDef(col: ColumnDiff, dialect: DatabaseType): string {
   const type = col.targetType || col.sourceType || "TEXT";
   const nullable = col.targetNullable === false ? " NOT NULL" : "";
@@ -119,6 +137,10 @@ function generateCreateTable(table: TableDiff, dialect: DatabaseType): string {
   table.foreignKeys
     .filter((fk) => fk.action === "added")
     .forEach((fk) => {
+      if (dialect === "duckdb") {
+        lines.push(duckdbForeignKeyComment(fk.columnName));
+        return;
+      }
       lines.push(
         `ALTER TABLE ${id} ADD CONSTRAINT ${escapeIdentifier(`fk_${table.tableName}_${fk.columnName}`, dialect)} FOREIGN KEY (${escapeIdentifier(fk.columnName, dialect)}) REFERENCES ${escapeIdentifier(fk.targetReferencedTable || "", dialect)}(${escapeIdentifier(fk.targetReferencedColumn || "", dialect)});`,
       );
@@ -212,7 +234,9 @@ function generateAlterTable(table: TableDiff, dialect: DatabaseType): string {
       } else if (inexpressible) {
         lines.push(`-- ${inexpressible.label}: Cannot alter column "${col.columnName}". ${inexpressible.reason}`);
       } else {
-        // PostgreSQL
+        // PostgreSQL - and DuckDB, whose ALTER COLUMN accepts the same TYPE,
+        // SET/DROP NOT NULL and SET/DROP DEFAULT forms (checked against the
+        // bundled engine)
         if (col.sourceType !== col.targetType) {
           lines.push(
             `ALTER TABLE ${id} ALTER COLUMN ${escapeIdentifier(col.columnName, dialect)} TYPE ${col.targetType};`,
@@ -261,6 +285,10 @@ function generateAlterTable(table: TableDiff, dialect: DatabaseType): string {
   table.foreignKeys
     .filter((fk) => fk.action === "added")
     .forEach((fk) => {
+      if (dialect === "duckdb") {
+        lines.push(duckdbForeignKeyComment(fk.columnName));
+        return;
+      }
       const constraintName = escapeIdentifier(`fk_${table.tableName}_${fk.columnName}`, dialect);
       lines.push(
         `ALTER TABLE ${id} ADD CONSTRAINT ${constraintName} FOREIGN KEY (${escapeIdentifier(fk.columnName, dialect)}) REFERENCES ${escapeIdentifier(fk.targetReferencedTable || "", dialect)}(${escapeIdentifier(fk.targetReferencedColumn || "", dialect)});`,
@@ -276,6 +304,8 @@ function generateAlterTable(table: TableDiff, dialect: DatabaseType): string {
         lines.push(`ALTER TABLE ${id} DROP FOREIGN KEY ${constraintName};`);
       } else if (dialect === "sqlite") {
         lines.push(`-- SQLite: Cannot drop foreign key directly. Requires table recreation.`);
+      } else if (dialect === "duckdb") {
+        lines.push(`-- DuckDB: Cannot drop foreign key directly. Requires table recreation.`);
       } else {
         lines.push(`ALTER TABLE ${id} DROP CONSTRAINT IF EXISTS ${constraintName};`);
       }
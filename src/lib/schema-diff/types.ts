@@ -53,3 +53,12 @@ export interface SchemaDiff {
   summary: DiffSummary;
   hasChanges: boolean;
 }
+
+export interface DiffOptions {
+  /**
+   * The form two column defaults are compared in. Only the comparison uses it: the
+   * diff still reports, and the generator still writes, each default as its own side
+   * spelled it. Without one, defaults compare as exact strings.
+   */
+  comparableDefault?: (value: string | undefined) => string;
+}
@@ -7,6 +7,7 @@ export function mergeDefaults(conn: SeedConnection, defaults: SeedDefaults | und
     ...conn,
     managed: conn.managed ?? defaults.managed,
     environment: conn.environment ?? defaults.environment,
+    writePolicy: conn.writePolicy ?? defaults.writePolicy,
     ssl: conn.ssl ?? defaults.ssl,
   };
 }
@@ -17,27 +18,32 @@ function rolesMatch(connectionRoles: string[], userRoles: string[]): boolean {
 }
 
 export function filterByRoles(connections: SeedConnection[], userRoles: string[]): ManagedConnection[] {
-  return connections
-    .filter((conn) => rolesMatch(conn.roles, userRoles))
-    .map((conn) => ({
-      id: `seed:${conn.id}`,
-      name: conn.name,
-      type: conn.type,
-      host: conn.host,
-      port: conn.port,
-      database: conn.database,
-      user: conn.user,
-      password: conn.password,
-      connectionString: conn.connectionString,
-      environment: conn.environment,
-      group: conn.group,
-      color: conn.color,
-      ssl: conn.ssl as SSLConfig | undefined,
-      serviceName: conn.serviceName,
-      instanceName: conn.instanceName,
-      createdAt: new Date(),
-      managed: conn.managed ?? true,
-      roles: conn.roles,
-      seedId: conn.id,
-    }));
+  return toManaged(connections.filter((conn) => rolesMatch(conn.roles, userRoles)));
+}
+
+/** Every seed as a managed connection, whoever its `roles` name - for server-side lookups. */
+export function toManaged(connections: SeedConnection[]): ManagedConnection[] {
+  return connections.map((conn) => ({
+    id: `seed:${conn.id}`,
+    name: conn.name,
+    type: conn.type,
+    host: conn.host,
+    port: conn.port,
+    database: conn.database,
+    user: conn.user,
+    password: conn.password,
+    connectionString: conn.connectionString,
+    environment: conn.environment,
+    writePolicy: conn.writePolicy,
+    group: conn.group,
+    color: conn.color,
+    ssl: conn.ssl as SSLConfig | undefined,
+    serviceName: conn.serviceName,
+    instanceName: conn.instanceName,
+    dataCenter: conn.dataCenter,
+    createdAt: new Date(),
+    managed: conn.managed ?? true,
+    roles: conn.roles,
+    seedId: conn.id,
+  }));
 }
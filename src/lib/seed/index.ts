@@ -1,7 +1,7 @@
 import * as fs from "fs";
 import { loadConfig } from "./config-loader";
 import { resolveAllCredentials } from "./credential-resolver";
-import { filterByRoles, mergeDefaults } from "./connection-filter";
+import { filterByRoles, mergeDefaults, toManaged } from "./connection-filter";
 import { isSampleEnabled, resolveSamplePath, buildSampleConnection } from "./libredb-sample";
 import {
   isSqliteSampleEnabled,
@@ -20,7 +20,7 @@ async function loadAndResolve(): Promise<ManagedConnection[]> {
   if (!config) return [];
   const withDefaults = config.connections.map((conn) => mergeDefaults(conn, config.defaults));
   const resolved = resolveAllCredentials(withDefaults);
-  return filterByRoles(resolved, ["*", "admin", "user"]);
+  return toManaged(resolved);
 }
 
 export async function getManagedConnections(roles: string[]): Promise<ManagedConnection[]> {
@@ -90,6 +90,15 @@ export async function getSeedConnectionById(seedId: string, roles: string[]): Pr
   return all.find((c) => c.seedId === seedId) ?? null;
 }
 
+/**
+ * Every configured seed, whichever roles it names - what the access-role editor
+ * offers to grant on. The built-in samples are not among them: they carry no
+ * credentials worth a grant and their ids depend on the environment.
+ */
+export async function getSeedConnectionsUnfiltered(): Promise<ManagedConnection[]> {
+  return loadAndResolve();
+}
+
 export async function getSeedConnectionByIdUnfiltered(seedId: string): Promise<ManagedConnection | null> {
   const all = await loadAndResolve();
   return all.find((c) => c.seedId === seedId) ?? null;
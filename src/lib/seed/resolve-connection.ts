@@ -1,3 +1,5 @@
+import { requireGrant, roleNames } from "@/lib/access/enforce";
+import type { AccessSubject } from "@/lib/access/grants";
 import type { DatabaseConnection } from "@/lib/types";
 import { getSeedConnectionById, getSeedConnectionByIdUnfiltered } from "./index";
 import { logger } from "@/lib/logger";
@@ -12,13 +14,21 @@ export class SeedConnectionError extends Error {
   }
 }
 
+/**
+ * The connection a request names, once `session` may read it: a seed it can see
+ * by its built-in or custom roles, or the one it sent. Every `/api/db/*` route
+ * resolves through here, so a custom role with no grant on a connection cannot
+ * reach it on any of them; what more than reading a route needs, it checks with
+ * `requireGrant` itself.
+ */
 export async function resolveConnection(
   body: { connection?: DatabaseConnection; connectionId?: string },
-  session: { role: string; username: string },
+  session: AccessSubject,
 ): Promise<DatabaseConnection> {
   const { connection, connectionId } = body;
 
   if (connection && !connectionId) {
+    await requireGrant(session, null, "read", connection.name);
     return connection;
   }
 
@@ -28,7 +38,7 @@ export async function resolveConnection(
     }
 
     const seedId = connectionId.slice(5);
-    const seedConn = await getSeedConnectionById(seedId, [session.role]);
+    const seedConn = await getSeedConnectionById(seedId, await roleNames(session));
 
     if (!seedConn) {
       const exists = await getSeedConnectionByIdUnfiltered(seedId);
@@ -53,6 +63,7 @@ export async function resolveConnection(
       user: session.username,
     });
 
+    await requireGrant(session, seedId, "read", seedConn.name);
     return seedConn;
   }
 
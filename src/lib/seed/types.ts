@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { ROLE_NAME } from "@/lib/access/types";
 import type { DatabaseConnection } from "@/lib/types";
 
 // SSLMode matches src/lib/types.ts line 21 — NO 'prefer'
@@ -16,8 +17,12 @@ const SSLConfigSchema = z
 
 const ConnectionEnvironmentSchema = z.enum(["production", "staging", "development", "local", "other"]);
 
-// Allowed roles in current iteration (matches JWT role: 'admin' | 'user' + wildcard)
-const AllowedRoleSchema = z.enum(["*", "admin", "user"]);
+const WritePolicySchema = z.enum(["read-write", "read-only", "approval"]);
+
+// The built-in JWT roles and the wildcard, or the name of a custom role an admin
+// defines in the Security tab. A custom name that no role carries yet matches
+// nobody, so a seed can be written ahead of the role it is meant for.
+const AllowedRoleSchema = z.union([z.enum(["*", "admin", "user"]), z.string().regex(ROLE_NAME)]);
 
 const SeedDatabaseType = z.enum([
   "postgres",
@@ -31,11 +36,15 @@ const SeedDatabaseType = z.enum([
   "couchbase",
   "clickhouse",
   "druid",
+  "duckdb",
+  "cassandra",
+  "elasticsearch",
 ]);
 
 export const SeedDefaultsSchema = z.object({
   managed: z.boolean().optional(),
   environment: ConnectionEnvironmentSchema.optional(),
+  writePolicy: WritePolicySchema.optional(),
   ssl: SSLConfigSchema,
 });
 
@@ -54,6 +63,7 @@ export const SeedConnectionSchema = z.object({
   password: z.string().optional(),
   connectionString: z.string().optional(),
   environment: ConnectionEnvironmentSchema.optional(),
+  writePolicy: WritePolicySchema.optional(),
   group: z.string().max(64).optional(),
   color: z
     .string()
@@ -64,6 +74,7 @@ export const SeedConnectionSchema = z.object({
   ssl: SSLConfigSchema,
   serviceName: z.string().optional(),
   instanceName: z.string().optional(),
+  dataCenter: z.string().optional(),
 });
 
 export const SeedConfigSchema = z
@@ -42,6 +42,9 @@ const ENGINE_FENCE_TAGS: Readonly<Record<DatabaseType, true>> = Object.freeze({
   couchbase: true,
   clickhouse: true,
   druid: true,
+  duckdb: true,
+  cassandra: true,
+  elasticsearch: true,
 });
 
 /**
@@ -87,6 +87,16 @@ export type BracketGrammar = "quoted-identifier" | "subscript";
  */
 export type BlockCommentGrammar = "flat" | "nesting";
 
+/**
+ * A character that opens a query parameter: `:id`, `$1`, `@since`.
+ *
+ * Each one already means something else in some dialect - `::` is a PostgreSQL
+ * cast, `@x` a MySQL user variable, `@@x` a SQL Server global, `c ? a :b` a
+ * ClickHouse ternary - so which of them the editor may read as "ask the user for a
+ * value" is a dialect fact like the rest of this record, not a property of the text.
+ */
+export type PlaceholderSigil = ":" | "$" | "@";
+
 /** The grammar facts that differ between the engines this product supports. */
 export interface SqlGrammar {
   readonly hash: HashGrammar;
@@ -103,6 +113,28 @@ export interface SqlGrammar {
    * literal out of ordinary code.
    */
   readonly alternateQuoting: boolean;
+  /**
+   * Whether `//` opens a line comment, the way `--` does everywhere.
+   *
+   * Another form only one dialect has: CQL writes a line comment either way, and
+   * in every other dialect here `//` is two division operators or nothing at all.
+   * It matters past tidiness because a reader that does not see the comment reads
+   * the words inside it - `// SELECT\nDELETE FROM t` leads with a word the reader
+   * never should have seen, and an apostrophe in one (`// don't`) opens a literal
+   * that runs to the end of the statement.
+   */
+  readonly slashLineComment: boolean;
+  /**
+   * The sigils that open a query parameter the editor asks a value for
+   * (`parameters.ts`), in no particular order.
+   *
+   * A sigil listed here is one the dialect gives no other meaning at the start of
+   * a name, or one whose other meanings `parameters.ts` tells apart from the
+   * character before it (`::`, `@@`, `x:y`). An empty list is a dialect the
+   * editor reads no parameters in at all, which is what every dialect was before
+   * the panel existed.
+   */
+  readonly placeholders: readonly PlaceholderSigil[];
 }
 
 /**
@@ -121,6 +153,8 @@ export const DEFAULT_SQL_GRAMMAR: SqlGrammar = {
   bracket: "quoted-identifier",
   blockComment: "flat",
   alternateQuoting: false,
+  slashLineComment: false,
+  placeholders: [],
 };
 
 /**
@@ -135,36 +169,64 @@ const MYSQL_GRAMMAR: SqlGrammar = {
   bracket: DEFAULT_SQL_GRAMMAR.bracket,
   blockComment: "flat",
   alternateQuoting: false,
+  slashLineComment: false,
+  placeholders: [":"],
 };
 const CLICKHOUSE_GRAMMAR: SqlGrammar = {
   hash: "comment",
   bracket: "subscript",
   blockComment: "nesting",
   alternateQuoting: false,
+  slashLineComment: false,
+  placeholders: DEFAULT_SQL_GRAMMAR.placeholders,
 };
 const POSTGRES_GRAMMAR: SqlGrammar = {
   hash: "code",
   bracket: "subscript",
   blockComment: "nesting",
   alternateQuoting: false,
+  slashLineComment: false,
+  placeholders: [":", "$"],
 };
 const ORACLE_GRAMMAR: SqlGrammar = {
   hash: "code",
   bracket: DEFAULT_SQL_GRAMMAR.bracket,
   blockComment: "flat",
   alternateQuoting: true,
+  slashLineComment: false,
+  placeholders: [":"],
 };
 const MSSQL_GRAMMAR: SqlGrammar = {
   hash: "code",
   bracket: "quoted-identifier",
   blockComment: "nesting",
   alternateQuoting: false,
+  slashLineComment: false,
+  placeholders: ["@"],
 };
 const SQLITE_GRAMMAR: SqlGrammar = {
   hash: "code",
   bracket: "quoted-identifier",
   blockComment: "flat",
   alternateQuoting: false,
+  slashLineComment: false,
+  placeholders: [":", "@", "$"],
+};
+const DUCKDB_GRAMMAR: SqlGrammar = {
+  hash: "code",
+  bracket: "subscript",
+  blockComment: "nesting",
+  alternateQuoting: false,
+  slashLineComment: false,
+  placeholders: ["$"],
+};
+const CASSANDRA_GRAMMAR: SqlGrammar = {
+  hash: "code",
+  bracket: "subscript",
+  blockComment: "flat",
+  alternateQuoting: false,
+  slashLineComment: true,
+  placeholders: [":"],
 };
 
 /**
@@ -172,8 +234,8 @@ const SQLITE_GRAMMAR: SqlGrammar = {
  *
  * A dialect absent from this table is at the compatibility default because its
  * rule was not established, NOT because it agrees with the default. Currently
- * absent: `couchbase`, `druid`, `libredb` and the non-SQL `mongodb`, `redis` -
- * whose providers never reach these readers on the QUERY path, though the
+ * absent: `couchbase`, `druid`, `elasticsearch`, `libredb` and the non-SQL
+ * `mongodb`, `redis` - whose providers never reach these readers on the QUERY path, though the
  * confirmation gate reads their editor text as SQL only where `readsSqlText` says
  * the text IS SQL, which for those two it does not (#297). Present for one fact and
  * undecided about another: `mysql` and `oracle` carry no established BRACKET
@@ -257,6 +319,56 @@ const SQLITE_GRAMMAR: SqlGrammar = {
  *   inner `ARRAY` keyword may be omitted). Identifiers there are quoted with double
  *   quotes (4.1.1), so `[` is never a name quote in this dialect.
  *
+ * - Placeholders, one source per dialect (what `parameters.ts` reads as a
+ *   parameter the user supplies a value for):
+ *   - `postgres` reads `$` and `:` - `$1` is the form the `pg` driver itself
+ *     binds, and `:name` is psql's own variable interpolation (psql manual,
+ *     "Variables"; checked 2026-10-19), which is exactly what the panel does: a
+ *     client-side value put in before the server sees the text. The colon's other
+ *     uses are all told apart by the character before it: `::` casts, and the
+ *     `[lo:hi]` slice has a bound in front. A slice with its lower bound left out,
+ *     `arr[:hi]`, is the one reading this gets wrong - the upper bound is taken
+ *     for a parameter - and it shows up as a row in the panel before anything runs.
+ *   - `mysql` reads `:` only - the `named-placeholders` parser `mysql2` ships for
+ *     its `namedPlaceholders` option (`node_modules/named-placeholders`) reads
+ *     `:name` and `:1`. `@name` is a user variable (`SET @n = 1`) and `$` may
+ *     start an unquoted identifier, so neither is read.
+ *   - `oracle` reads `:` - node-oracledb's tokenizer (`_parseBindName` in
+ *     `lib/thin/statement.js`) opens a bind at every `:` outside a literal.
+ *   - `mssql` reads `@` - the form `tedious` binds, and the one T-SQL writes
+ *     its own variables with, which is why `parameters.ts` leaves a name the text
+ *     DECLAREs alone. `:` is NOT read: sqlcmd mode starts its commands with one
+ *     (`:setvar`, `:r`), and `$` opens the `$action` and `$IDENTITY` pseudo-columns.
+ *   - `sqlite` reads all three - the bundled amalgamation's tokenizer classifies
+ *     `:` and `@` as `CC_VARALPHA` and `$` as `CC_DOLLAR`, each a named
+ *     bind-variable prefix.
+ *   - `clickhouse` reads none: its own parameter form is `{name:Type}`, and `:`
+ *     is the else-branch of its `?:` ternary, which nothing before it separates
+ *     from a parameter when written `c ? a :b`.
+ *
+ * - `duckdb`, every fact, from the engine bundled as `@duckdb/node-api` rather
+ *   than from its manual, each statement run against it (2026-10-19):
+ *   `SELECT 1 # 2` is a syntax error AT the `#`, so it opens no comment;
+ *   `SELECT [[1,2],[3,4]][1]` answers `[1, 2]`, so brackets nest as list
+ *   literals and subscripts, and names are quoted with `"…"` as in PostgreSQL;
+ *   `/* a /* b *\/ SELECT 1 *\/ SELECT 2` answers 2, so block comments nest;
+ *   and `$1` binds while `:x` is a syntax error and `@x` a column reference, so
+ *   `$` is its only parameter sigil.
+ *
+ * - `cassandra`, every fact, from Apache Cassandra's own ANTLR lexer
+ *   (`src/antlr/Lexer.g`) and the CQL reference's "Definitions" page
+ *   (cassandra.apache.org/doc/latest/cassandra/developing/cql/definitions.html),
+ *   both checked 2026-10-19; ScyllaDB parses CQL with a fork of the same grammar.
+ *   Like ClickHouse there is no offline artifact - `cassandra-driver` sends the
+ *   text as written and tokenizes nothing - so the source is named with its date.
+ *   `COMMENT` is `('--' | '//') .* ('\n'|'\r')`, so `//` is a line comment and
+ *   `slashLineComment` is this row's alone; `MULTILINE_COMMENT` is `'/*' .* '*\/'`
+ *   under ANTLR's non-greedy `.*`, so block comments are flat; `#` matches no
+ *   token at all, so it opens nothing; `[…]` is a list literal (a list of lists
+ *   nests) or an element selection (`m['k']`), and names are quoted with `"…"`;
+ *   and a bind marker is `?` or `:name`. `?` is anonymous, so there is nothing
+ *   for the parameter panel to ask a value FOR, and `:` is the only sigil read.
+ *
  * NOT established, and therefore left at the default: how `mysql` and `oracle` read
  * `[…]`. It is not an identifier quote in either - MySQL gives it no meaning outside
  * a JSON path written inside a string, and Oracle none outside an alternate-quote
@@ -283,6 +395,8 @@ const SQL_GRAMMARS: Partial<Record<DatabaseType, SqlGrammar>> = {
   oracle: ORACLE_GRAMMAR,
   mssql: MSSQL_GRAMMAR,
   sqlite: SQLITE_GRAMMAR,
+  duckdb: DUCKDB_GRAMMAR,
+  cassandra: CASSANDRA_GRAMMAR,
 };
 
 /**
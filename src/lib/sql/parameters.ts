@@ -0,0 +1,241 @@
+/**
+ * The parameters a statement asks the user for, and the statement with their
+ * values bound.
+ *
+ * The editor reads `:id`, `$1` or `@since` - whichever sigils the dialect's grammar
+ * record allows (`placeholders` in `grammar.ts`) - and the parameter panel asks for
+ * a value for each. Binding then rewrites every occurrence to the placeholder the
+ * provider's own driver binds (`positionalPlaceholder`) and hands the value over in
+ * the request's `params`, which `/api/db/query` already reads (`readBoundParams`).
+ * So a value never becomes statement text, whatever was typed into it, and one
+ * spelling works on every dialect that reads it: `:id` goes to MySQL as `?` and to
+ * Oracle as `:1`.
+ *
+ * Every occurrence gets its own position, a repeated name included. That is the
+ * one numbering every driver here agrees on: `?` has no other, and an Oracle SQL
+ * statement binds each `:n` it meets in turn.
+ */
+
+import type { DatabaseType, QueryParameter } from "@/lib/types";
+import { DEFAULT_SQL_GRAMMAR, resolveSqlGrammar, type SqlGrammar } from "./grammar";
+import { IDENTIFIER_PART, IDENTIFIER_START, readSqlSpan } from "./spans";
+import { positionalPlaceholder, quoteLiteral } from "./values";
+import { readSqlWord } from "./words";
+
+/** A value that cannot be bound as it is; the message names the parameter. */
+export class QueryParameterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryParameterError";
+  }
+}
+
+interface Placeholder {
+  /** As written, sigil included. */
+  name: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * The words that start a new T-SQL statement, and so end a `DECLARE` list written
+ * without a semicolon - which T-SQL allows, and which would otherwise read the
+ * `@b` in `DECLARE @a INT SELECT @a, @b` as a second declaration.
+ */
+const STATEMENT_WORDS: ReadonlySet<string> = new Set([
+  "SELECT",
+  "SET",
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+  "MERGE",
+  "WITH",
+  "IF",
+  "WHILE",
+  "BEGIN",
+  "EXEC",
+  "EXECUTE",
+  "RETURN",
+  "PRINT",
+]);
+
+const DIGIT = /[0-9]/;
+
+/**
+ * The placeholder at `index`, or `null` when one does not start there.
+ *
+ * The character BEFORE the sigil is what tells a parameter from the sigil's other
+ * meanings: a second `:` is a cast (`x::int`), a second `@` a global (`@@ROWCOUNT`),
+ * and a name or a number in front is a slice bound (`a[1:n]`), a database link
+ * (`t@link`) or the middle of an identifier (`a$1`). After the sigil comes either a
+ * run of digits (`$1`, `:1`) or a name; anything else (`:=`, `@ x`) is not one.
+ */
+function readPlaceholder(sql: string, index: number, sigils: readonly string[]): Placeholder | null {
+  const sigil = sql[index];
+  if (!sigils.includes(sigil)) return null;
+  const before = index > 0 ? sql[index - 1] : "";
+  if (before === sigil || before === "$" || (before !== "" && IDENTIFIER_PART.test(before))) return null;
+
+  let end = index + 1;
+  if (end < sql.length && DIGIT.test(sql[end])) {
+    while (end < sql.length && DIGIT.test(sql[end])) end++;
+  } else if (end < sql.length && IDENTIFIER_START.test(sql[end])) {
+    while (end < sql.length && IDENTIFIER_PART.test(sql[end])) end++;
+  } else {
+    return null;
+  }
+  return { name: sql.slice(index, end), start: index, end };
+}
+
+/**
+ * Every placeholder in the statement's CODE, in order, repeats included.
+ *
+ * A name the text itself `DECLARE`s is a variable, not a parameter: T-SQL spells
+ * both with `@`, and binding a value over `DECLARE @n INT` would break the
+ * statement rather than fill it in. Each name in a declaration list counts -
+ * `DECLARE @a INT, @b DECIMAL(10, 2)` declares two - but not one in the
+ * initialiser, so `DECLARE @since DATE = @from` still asks for `@from`.
+ *
+ * A subscript is stepped INTO rather than over, unlike the readers that skip it as
+ * one span: `ARRAY[:a, :b]` holds two parameters.
+ */
+function scanPlaceholders(sql: string, grammar: SqlGrammar): Placeholder[] {
+  const found: Placeholder[] = [];
+  if (grammar.placeholders.length === 0) return found;
+
+  const declared = new Set<string>();
+  let declaring = false;
+  let expectingName = false;
+  let depth = 0;
+  let i = 0;
+
+  while (i < sql.length) {
+    const span = readSqlSpan(sql, i, grammar);
+    if (span !== null) {
+      i = span.kind === "subscript" ? i + 1 : span.end;
+      continue;
+    }
+
+    const word = readSqlWord(sql, i);
+    if (word !== null) {
+      if (word.text === "DECLARE") {
+        declaring = true;
+        expectingName = true;
+        depth = 0;
+      } else {
+        if (STATEMENT_WORDS.has(word.text)) declaring = false;
+        expectingName = false;
+      }
+      i = word.end;
+      continue;
+    }
+
+    const placeholder = readPlaceholder(sql, i, grammar.placeholders);
+    if (placeholder !== null) {
+      if (declaring && expectingName) declared.add(placeholder.name);
+      else found.push(placeholder);
+      expectingName = false;
+      i = placeholder.end;
+      continue;
+    }
+
+    const ch = sql[i];
+    if (ch === "(") depth++;
+    else if (ch === ")") depth = Math.max(0, depth - 1);
+    else if (ch === "," && declaring && depth === 0) expectingName = true;
+    else if (ch === ";") {
+      declaring = false;
+      expectingName = false;
+    }
+    i++;
+  }
+
+  return declared.size === 0 ? found : found.filter((p) => !declared.has(p.name));
+}
+
+/**
+ * The parameters this statement asks for, each once, in the order they first
+ * appear. Omitting `grammar` reads none: no dialect, no sigils.
+ */
+export function readQueryParameters(sql: string, grammar: SqlGrammar = DEFAULT_SQL_GRAMMAR): string[] {
+  return [...new Set(scanPlaceholders(sql, grammar).map((p) => p.name))];
+}
+
+/** The value a parameter binds, read from the text the panel holds for it. */
+export function readParameterValue(parameter: QueryParameter): string | number | boolean | null {
+  const text = parameter.value.trim();
+  switch (parameter.type) {
+    case "null":
+      return null;
+    case "number": {
+      const value = Number(text);
+      if (text === "" || !Number.isFinite(value)) throw new QueryParameterError(`${parameter.name} is not a number`);
+      return value;
+    }
+    case "boolean":
+      if (text === "true") return true;
+      if (text === "false") return false;
+      throw new QueryParameterError(`${parameter.name} must be true or false`);
+    case "date":
+      // The form `<input type="date">` produces and every engine here reads as a date literal.
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(text))
+        throw new QueryParameterError(`${parameter.name} is not a date (YYYY-MM-DD)`);
+      return text;
+    default:
+      // Text is bound exactly as typed: leading spaces can be the point of the value.
+      return parameter.value;
+  }
+}
+
+/** A value written into the statement, for a dialect with no positional bind form. */
+function literal(value: string | number | boolean | null, dialect: DatabaseType): string {
+  if (value === null) return "NULL";
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (typeof value === "number") return String(value);
+  return quoteLiteral(value, dialect);
+}
+
+export interface BoundQuery {
+  /** The statement with every placeholder rewritten to the driver's own. */
+  query: string;
+  params: unknown[];
+  /** The parameters that were bound, each once, in the order they first appear. */
+  parameters: QueryParameter[];
+}
+
+/**
+ * The statement with `values` bound, or `null` when it has no placeholders - the
+ * caller then sends it exactly as before, without a `params` key.
+ *
+ * Throws `QueryParameterError` when a placeholder has no value or its value does
+ * not read as its type: a run with a hole in it is refused here, with the
+ * parameter's name, rather than sent for the driver to reject by position.
+ */
+export function bindQueryParameters(
+  sql: string,
+  values: readonly QueryParameter[] | undefined,
+  dialect: DatabaseType,
+): BoundQuery | null {
+  const placeholders = scanPlaceholders(sql, resolveSqlGrammar(dialect));
+  if (placeholders.length === 0) return null;
+
+  const byName = new Map((values ?? []).map((p) => [p.name, p]));
+  const parameters: QueryParameter[] = [];
+  const params: unknown[] = [];
+  let query = "";
+  let last = 0;
+
+  for (const placeholder of placeholders) {
+    const parameter = byName.get(placeholder.name);
+    if (!parameter) throw new QueryParameterError(`No value for ${placeholder.name}`);
+    const value = readParameterValue(parameter);
+    if (!parameters.includes(parameter)) parameters.push(parameter);
+
+    const bound = positionalPlaceholder(dialect, params.length + 1);
+    if (bound !== null) params.push(value);
+    query += sql.slice(last, placeholder.start) + (bound ?? literal(value, dialect));
+    last = placeholder.end;
+  }
+
+  return { query: query + sql.slice(last), params, parameters };
+}
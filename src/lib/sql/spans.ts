@@ -103,11 +103,13 @@ function isHashOperatorTail(ch: string | undefined): boolean {
  * module could not answer on its own, so it asks the grammar record: MySQL and
  * ClickHouse open a comment on any `#`, PostgreSQL, Oracle, SQL Server and SQLite
  * open none, and a caller that named no dialect keeps the hybrid reading this
- * module used to apply to everyone (see `DEFAULT_SQL_GRAMMAR`).
+ * module used to apply to everyone (see `DEFAULT_SQL_GRAMMAR`). `//` is CQL's
+ * second form and nobody else's, so it is read only where the record says so.
  */
 function opensLineComment(sql: string, index: number, grammar: SqlGrammar): boolean {
   const ch = sql[index];
   if (ch === "-") return sql[index + 1] === "-";
+  if (ch === "/") return grammar.slashLineComment && sql[index + 1] === "/";
   if (ch !== "#") return false;
   if (grammar.hash === "code") return false;
   if (grammar.hash === "comment") return true;
@@ -25,6 +25,14 @@ const LITERAL_ESCAPE: Record<DatabaseType, LiteralEscape> = {
   // Druid quotes a string with single quotes and puts its backslash escapes in the
   // separate `U&'fo\00F6'` form, so a backslash in a plain literal is data.
   druid: "standard",
+  // Read back from the bundled engine: `length('a\\b')` is 3.
+  duckdb: "standard",
+  // Cassandra's lexer (`STRING_LITERAL`) doubles a quote inside a string and gives
+  // a backslash no meaning, so `'a\b'` is three characters.
+  cassandra: "standard",
+  // Both SQL dialects quote a string with single quotes, double one inside it, and
+  // have no backslash escape, so `'a\b'` is three characters on either engine.
+  elasticsearch: "standard",
   // These three declare `queryLanguage: "json"`, so no statement is ever built for
   // them to read. What a generator emits for such a connection is portable SQL
   // meant to run elsewhere, and the standard form is the only thing it can claim.
@@ -84,21 +92,26 @@ export function quoteLiteral(value: string, dialect: DatabaseType | undefined):
  *
  * `null` is where this repo knows there is no positional form to spell: ClickHouse
  * binds named parameters only and its provider refuses positional ones outright,
- * and MongoDB, Redis and the embedded engine declare `queryLanguage: "json"`, so
- * no SQL statement binds anything for them. It is the signal to quote the value
+ * the Elasticsearch provider refuses parameters of any kind, and MongoDB, Redis
+ * and the embedded engine declare `queryLanguage: "json"`, so no SQL statement
+ * binds anything for them. It is the signal to quote the value
  * with `quoteLiteral` instead — never to emit a placeholder nothing will bind.
  */
 export function positionalPlaceholder(dialect: DatabaseType, position: number): string | null {
   switch (dialect) {
     // SQL++ takes its values in `args`, which the statement reads as `$1`, `$2`.
+    // DuckDB binds `?` as well, but `$n` is the form its grammar row reads.
     case "postgres":
     case "couchbase":
+    case "duckdb":
       return `$${position}`;
     // Druid binds a `parameters` array against `?`, live-verified when the
-    // provider was written (`src/lib/db/providers/sql/druid/index.ts`).
+    // provider was written (`src/lib/db/providers/sql/druid/index.ts`). Cassandra
+    // prepares every statement and binds its `params` against `?` the same way.
     case "mysql":
     case "sqlite":
     case "druid":
+    case "cassandra":
       return "?";
     case "oracle":
       return `:${position}`;
@@ -30,11 +30,13 @@ export const CONNECTION_FIELDS: Record<keyof DatabaseConnection, FieldClass> = {
   createdAt: "public",
   color: "public",
   environment: "public",
+  writePolicy: "public",
   group: "public",
   ssl: "nested",
   sshTunnel: "nested",
   serviceName: "public",
   instanceName: "public",
+  dataCenter: "public",
   managed: "public",
   seedId: "public",
   agentUser: "public",
@@ -1,7 +1,18 @@
 import { logger } from "@/lib/logger";
 import { decryptConnections, encryptConnections } from "./connection-secrets";
-import type { ServerStorageProvider, StorageCollection, StorageData } from "./types";
+import type {
+  ServerOnlyCollection,
+  ServerOnlyData,
+  ServerStorageProvider,
+  StorageCollection,
+  StorageData,
+  StoredData,
+  TeamCollection,
+  TeamData,
+} from "./types";
 import type { DatabaseConnection } from "@/lib/types";
+import type { ChangeRequest } from "@/lib/change-requests/types";
+import type { AuditEventPage, AuditEventQuery, StoredAuditEvent } from "@/lib/audit-store/types";
 
 /**
  * Credential encryption, applied ABOVE the ServerStorageProvider boundary.
@@ -12,12 +23,28 @@ import type { DatabaseConnection } from "@/lib/types";
  * Neither shipped provider knows this exists; both simply receive a connection list whose secret
  * fields are already sealed and JSON.stringify it into their `data` column.
  *
- * Only `connections` is touched. No other collection carries a credential field: history and
- * saved_queries hold SQL text (the product's data, not its secrets), audit_log is already
- * sanitized by src/lib/audit.ts, and the remaining six hold metadata.
+ * Only `connections` is touched, and `change_requests`, the one server-only collection that
+ * carries a connection: a write waiting for approval on a connection its requester added
+ * themselves has to keep that connection's credentials until it runs. No other collection carries
+ * a credential field: history and saved_queries hold SQL text (the product's data, not its
+ * secrets), audit_log is already sanitized by src/lib/audit.ts, and the remaining six hold
+ * metadata. The scheduler's server-only collections hold a schedule's settings and the results of
+ * its runs, and a run reads its connection's credentials from `connections` through this class
+ * like any other read.
  */
 
 const CONNECTIONS: StorageCollection = "connections";
+const CHANGE_REQUESTS: ServerOnlyCollection = "change_requests";
+
+/** Seal or open the connection each change request carries, leaving the rest as it is. */
+function mapRequestConnections(
+  requests: ChangeRequest[],
+  map: (connections: DatabaseConnection[]) => DatabaseConnection[],
+): ChangeRequest[] {
+  return requests.map((request) =>
+    request.connection ? { ...request, connection: map([request.connection])[0] } : request,
+  );
+}
 
 /**
  * Quoted verbatim in docs/STORAGE.md's troubleshooting section, and exported so the doc and the
@@ -38,6 +65,18 @@ function reportUndecryptable(count: number): void {
   );
 }
 
+/** Stored change requests with their connections opened, reporting any that no longer open. */
+function openRequests(requests: ChangeRequest[]): ChangeRequest[] {
+  let undecryptable = 0;
+  const opened = mapRequestConnections(requests, (sealed) => {
+    const result = decryptConnections(sealed);
+    undecryptable += result.undecryptable;
+    return result.connections;
+  });
+  reportUndecryptable(undecryptable);
+  return opened;
+}
+
 class CredentialEncryptingProvider implements ServerStorageProvider {
   constructor(private readonly inner: ServerStorageProvider) {}
 
@@ -61,22 +100,95 @@ class CredentialEncryptingProvider implements ServerStorageProvider {
     return { ...data, connections };
   }
 
-  async getCollection<K extends StorageCollection>(userId: string, collection: K): Promise<StorageData[K] | null> {
+  async getCollection<K extends keyof StoredData>(userId: string, collection: K): Promise<StoredData[K] | null> {
     const value = await this.inner.getCollection(userId, collection);
+    if (collection === CHANGE_REQUESTS && value !== null) {
+      return openRequests(value as ChangeRequest[]) as StoredData[K];
+    }
     if (collection !== CONNECTIONS || value === null) return value;
-    // TypeScript cannot narrow StorageData[K] from a runtime comparison on K, so the two casts are
+    // TypeScript cannot narrow StoredData[K] from a runtime comparison on K, so the two casts are
     // unavoidable; the runtime guard above is what makes them sound.
     const { connections, undecryptable } = decryptConnections(value as DatabaseConnection[]);
     reportUndecryptable(undecryptable);
-    return connections as StorageData[K];
+    return connections as StoredData[K];
   }
 
-  setCollection<K extends StorageCollection>(userId: string, collection: K, data: StorageData[K]): Promise<void> {
+  setCollection<K extends keyof StoredData>(userId: string, collection: K, data: StoredData[K]): Promise<void> {
+    if (collection === CHANGE_REQUESTS) {
+      const sealed = mapRequestConnections(data as ChangeRequest[], encryptConnections) as StoredData[K];
+      return this.inner.setCollection(userId, collection, sealed);
+    }
     if (collection !== CONNECTIONS) return this.inner.setCollection(userId, collection, data);
-    const sealed = encryptConnections(data as DatabaseConnection[]) as StorageData[K];
+    const sealed = encryptConnections(data as DatabaseConnection[]) as StoredData[K];
     return this.inner.setCollection(userId, collection, sealed);
   }
 
+  /** `update` reads and returns `change_requests` opened, like `getCollection` and `setCollection` do. */
+  updateCollection<K extends ServerOnlyCollection>(
+    userId: string,
+    collection: K,
+    update: (current: ServerOnlyData[K] | null) => ServerOnlyData[K],
+  ): Promise<void> {
+    if (collection !== CHANGE_REQUESTS) return this.inner.updateCollection(userId, collection, update);
+    return this.inner.updateCollection(userId, collection, (current) => {
+      const opened = current === null ? null : openRequests(current as ChangeRequest[]);
+      const next = update(opened as ServerOnlyData[K] | null) as ChangeRequest[];
+      return mapRequestConnections(next, encryptConnections) as ServerOnlyData[K];
+    });
+  }
+
+  /**
+   * Listed server-only collections carry no credential, so they pass through as stored;
+   * `change_requests` lives under one row and is only ever read with `getCollection`.
+   */
+  listCollection<K extends ServerOnlyCollection>(
+    collection: K,
+  ): Promise<{ userId: string; data: ServerOnlyData[K] }[]> {
+    return this.inner.listCollection(collection);
+  }
+
+  /** A team's collections hold what its members published, never a connection, so they pass through too. */
+  getTeamCollection<K extends TeamCollection>(teamId: string, collection: K): Promise<TeamData[K] | null> {
+    return this.inner.getTeamCollection(teamId, collection);
+  }
+
+  setTeamCollection<K extends TeamCollection>(teamId: string, collection: K, data: TeamData[K]): Promise<void> {
+    return this.inner.setTeamCollection(teamId, collection, data);
+  }
+
+  updateTeamCollection<K extends TeamCollection>(
+    teamId: string,
+    collection: K,
+    update: (current: TeamData[K] | null) => TeamData[K],
+  ): Promise<void> {
+    return this.inner.updateTeamCollection(teamId, collection, update);
+  }
+
+  listTeamCollection<K extends TeamCollection>(collection: K): Promise<{ teamId: string; data: TeamData[K] }[]> {
+    return this.inner.listTeamCollection(collection);
+  }
+
+  deleteTeam(teamId: string): Promise<void> {
+    return this.inner.deleteTeam(teamId);
+  }
+
+  /** Audit events are sanitized before they are stored (src/lib/audit.ts) and carry no credential. */
+  appendAuditEvents(events: StoredAuditEvent[]): Promise<void> {
+    return this.inner.appendAuditEvents(events);
+  }
+
+  getLastAuditEvent(): Promise<StoredAuditEvent | null> {
+    return this.inner.getLastAuditEvent();
+  }
+
+  queryAuditEvents(query: AuditEventQuery): Promise<AuditEventPage> {
+    return this.inner.queryAuditEvents(query);
+  }
+
+  pruneAuditEvents(options: { before?: string; keepLatest?: number }): Promise<number> {
+    return this.inner.pruneAuditEvents(options);
+  }
+
   mergeData(userId: string, data: Partial<StorageData>): Promise<void> {
     if (!data.connections) return this.inner.mergeData(userId, data);
     return this.inner.mergeData(userId, { ...data, connections: encryptConnections(data.connections) });
@@ -3,9 +3,26 @@
  * Uses the existing `pg` package (already a project dependency).
  */
 
-import type { ServerStorageProvider, StorageCollection, StorageData } from "../types";
+import type {
+  ServerOnlyCollection,
+  ServerOnlyData,
+  ServerStorageProvider,
+  StorageData,
+  StoredData,
+  TeamCollection,
+  TeamData,
+} from "../types";
 import { STORAGE_COLLECTIONS } from "../types";
 import { logger } from "@/lib/logger";
+import type { AuditEventPage, AuditEventQuery, StoredAuditEvent } from "@/lib/audit-store/types";
+import {
+  auditEventsDdl,
+  auditEventValues,
+  auditWhereClause,
+  INSERT_AUDIT_EVENT_COLUMNS,
+  rowToStoredAuditEvent,
+  type AuditEventRow,
+} from "@/lib/audit-store/sql";
 
 let Pool: typeof import("pg").Pool;
 
@@ -44,7 +61,7 @@ export class PostgresStorageProvider implements ServerStorageProvider {
       logger.error("PostgreSQL storage pool client error", error, { provider: "postgres" });
     });
 
-    // Create table
+    // Create tables
     try {
       await this.pool.query(`
         CREATE TABLE IF NOT EXISTS user_storage (
@@ -53,7 +70,15 @@ export class PostgresStorageProvider implements ServerStorageProvider {
           data       TEXT NOT NULL,
           updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
           PRIMARY KEY (user_id, collection)
-        )
+        );
+        CREATE TABLE IF NOT EXISTS team_storage (
+          team_id    TEXT NOT NULL,
+          collection TEXT NOT NULL,
+          data       TEXT NOT NULL,
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (team_id, collection)
+        );
+        ${auditEventsDdl("BIGINT")}
       `);
     } catch (error) {
       if (error instanceof Error && error.message.includes("does not support SSL")) {
@@ -73,6 +98,8 @@ export class PostgresStorageProvider implements ServerStorageProvider {
 
     const result: Partial<StorageData> = {};
     for (const row of rows) {
+      // The scheduler's collections share these rows but are never handed to the browser.
+      if (!(STORAGE_COLLECTIONS as string[]).includes(row.collection)) continue;
       try {
         (result as Record<string, unknown>)[row.collection] = JSON.parse(row.data);
       } catch {
@@ -82,7 +109,7 @@ export class PostgresStorageProvider implements ServerStorageProvider {
     return result;
   }
 
-  async getCollection<K extends StorageCollection>(userId: string, collection: K): Promise<StorageData[K] | null> {
+  async getCollection<K extends keyof StoredData>(userId: string, collection: K): Promise<StoredData[K] | null> {
     this.ensurePool();
     const { rows } = await this.pool!.query("SELECT data FROM user_storage WHERE user_id = $1 AND collection = $2", [
       userId,
@@ -90,14 +117,32 @@ export class PostgresStorageProvider implements ServerStorageProvider {
     ]);
     if (rows.length === 0) return null;
     try {
-      return JSON.parse(rows[0].data) as StorageData[K];
+      return JSON.parse(rows[0].data) as StoredData[K];
     } catch {
       logger.warn("Corrupted data in storage collection", { provider: "postgres", collection });
       return null;
     }
   }
 
-  async setCollection<K extends StorageCollection>(userId: string, collection: K, data: StorageData[K]): Promise<void> {
+  async listCollection<K extends ServerOnlyCollection>(
+    collection: K,
+  ): Promise<{ userId: string; data: ServerOnlyData[K] }[]> {
+    this.ensurePool();
+    const { rows } = await this.pool!.query("SELECT user_id, data FROM user_storage WHERE collection = $1", [
+      collection,
+    ]);
+    const result: { userId: string; data: ServerOnlyData[K] }[] = [];
+    for (const row of rows) {
+      try {
+        result.push({ userId: row.user_id, data: JSON.parse(row.data) as ServerOnlyData[K] });
+      } catch {
+        logger.warn("Corrupted data in storage collection", { provider: "postgres", collection });
+      }
+    }
+    return result;
+  }
+
+  async setCollection<K extends keyof StoredData>(userId: string, collection: K, data: StoredData[K]): Promise<void> {
     this.ensurePool();
     await this.pool!.query(
       `INSERT INTO user_storage (user_id, collection, data, updated_at)
@@ -108,6 +153,176 @@ export class PostgresStorageProvider implements ServerStorageProvider {
     );
   }
 
+  updateCollection<K extends ServerOnlyCollection>(
+    userId: string,
+    collection: K,
+    update: (current: ServerOnlyData[K] | null) => ServerOnlyData[K],
+  ): Promise<void> {
+    return this.updateRow("user_storage", userId, collection, update);
+  }
+
+  /** A read-modify-write of one row of `table`, under a lock on its key, in one transaction. */
+  private async updateRow<T>(
+    table: "user_storage" | "team_storage",
+    owner: string,
+    collection: string,
+    update: (current: T | null) => T,
+  ): Promise<void> {
+    this.ensurePool();
+    const ownerColumn = table === "user_storage" ? "user_id" : "team_id";
+    const client = await this.pool!.connect();
+    try {
+      await client.query("BEGIN");
+      // Locks the row's key rather than the row, so the first write of a collection
+      // nobody has stored yet takes turns like every later one.
+      await client.query("SELECT pg_advisory_xact_lock(hashtext($1), hashtext($2))", [owner, collection]);
+      const { rows } = await client.query(`SELECT data FROM ${table} WHERE ${ownerColumn} = $1 AND collection = $2`, [
+        owner,
+        collection,
+      ]);
+      let current: T | null = null;
+      try {
+        if (rows.length > 0) current = JSON.parse(rows[0].data) as T;
+      } catch {
+        logger.warn("Corrupted data in storage collection", { provider: "postgres", collection });
+      }
+      await client.query(
+        `INSERT INTO ${table} (${ownerColumn}, collection, data, updated_at)
+         VALUES ($1, $2, $3, NOW())
+         ON CONFLICT (${ownerColumn}, collection)
+         DO UPDATE SET data = EXCLUDED.data, updated_at = NOW()`,
+        [owner, collection, JSON.stringify(update(current))],
+      );
+      await client.query("COMMIT");
+    } catch (err) {
+      // A broken connection fails the ROLLBACK too; the error worth rethrowing is the one before it.
+      await client.query("ROLLBACK").catch(() => {});
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getTeamCollection<K extends TeamCollection>(teamId: string, collection: K): Promise<TeamData[K] | null> {
+    this.ensurePool();
+    const { rows } = await this.pool!.query("SELECT data FROM team_storage WHERE team_id = $1 AND collection = $2", [
+      teamId,
+      collection,
+    ]);
+    if (rows.length === 0) return null;
+    try {
+      return JSON.parse(rows[0].data) as TeamData[K];
+    } catch {
+      logger.warn("Corrupted data in team storage collection", { provider: "postgres", collection });
+      return null;
+    }
+  }
+
+  async setTeamCollection<K extends TeamCollection>(teamId: string, collection: K, data: TeamData[K]): Promise<void> {
+    this.ensurePool();
+    await this.pool!.query(
+      `INSERT INTO team_storage (team_id, collection, data, updated_at)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (team_id, collection)
+       DO UPDATE SET data = EXCLUDED.data, updated_at = NOW()`,
+      [teamId, collection, JSON.stringify(data)],
+    );
+  }
+
+  updateTeamCollection<K extends TeamCollection>(
+    teamId: string,
+    collection: K,
+    update: (current: TeamData[K] | null) => TeamData[K],
+  ): Promise<void> {
+    return this.updateRow("team_storage", teamId, collection, update);
+  }
+
+  async listTeamCollection<K extends TeamCollection>(collection: K): Promise<{ teamId: string; data: TeamData[K] }[]> {
+    this.ensurePool();
+    const { rows } = await this.pool!.query("SELECT team_id, data FROM team_storage WHERE collection = $1", [
+      collection,
+    ]);
+    const result: { teamId: string; data: TeamData[K] }[] = [];
+    for (const row of rows) {
+      try {
+        result.push({ teamId: row.team_id, data: JSON.parse(row.data) as TeamData[K] });
+      } catch {
+        logger.warn("Corrupted data in team storage collection", { provider: "postgres", collection });
+      }
+    }
+    return result;
+  }
+
+  async deleteTeam(teamId: string): Promise<void> {
+    this.ensurePool();
+    await this.pool!.query("DELETE FROM team_storage WHERE team_id = $1", [teamId]);
+  }
+
+  async appendAuditEvents(events: StoredAuditEvent[]): Promise<void> {
+    this.ensurePool();
+    const client = await this.pool!.connect();
+    try {
+      await client.query("BEGIN");
+      for (const stored of events) {
+        await client.query(
+          `INSERT INTO audit_events (${INSERT_AUDIT_EVENT_COLUMNS}) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+          auditEventValues(stored),
+        );
+      }
+      await client.query("COMMIT");
+    } catch (err) {
+      await client.query("ROLLBACK").catch(() => {});
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getLastAuditEvent(): Promise<StoredAuditEvent | null> {
+    this.ensurePool();
+    const { rows } = await this.pool!.query(
+      "SELECT seq, event, prev_hash, hash FROM audit_events ORDER BY seq DESC LIMIT 1",
+    );
+    return rows.length > 0 ? rowToStoredAuditEvent(rows[0] as AuditEventRow) : null;
+  }
+
+  async queryAuditEvents(query: AuditEventQuery): Promise<AuditEventPage> {
+    this.ensurePool();
+    const { where, params } = auditWhereClause(query, (index) => `$${index}`);
+    const counted = await this.pool!.query(`SELECT COUNT(*) AS total FROM audit_events ${where}`, params);
+    const { rows } = await this.pool!.query(
+      `SELECT seq, event, prev_hash, hash FROM audit_events ${where}
+       ORDER BY seq ${query.order === "oldest" ? "ASC" : "DESC"}
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, query.limit, query.offset],
+    );
+    const events: StoredAuditEvent[] = [];
+    for (const row of rows as AuditEventRow[]) {
+      const stored = rowToStoredAuditEvent(row);
+      if (stored) events.push(stored);
+      else logger.warn("Skipping corrupted audit event", { provider: "postgres", seq: row.seq });
+    }
+    // COUNT(*) is a BIGINT, which pg returns as a string.
+    return { events, total: Number(counted.rows[0]?.total ?? 0) };
+  }
+
+  async pruneAuditEvents(options: { before?: string; keepLatest?: number }): Promise<number> {
+    this.ensurePool();
+    let removed = 0;
+    if (options.before) {
+      const result = await this.pool!.query("DELETE FROM audit_events WHERE ts < $1", [options.before]);
+      removed += result.rowCount ?? 0;
+    }
+    if (options.keepLatest !== undefined) {
+      const result = await this.pool!.query(
+        "DELETE FROM audit_events WHERE seq <= (SELECT MAX(seq) FROM audit_events) - $1",
+        [options.keepLatest],
+      );
+      removed += result.rowCount ?? 0;
+    }
+    return removed;
+  }
+
   async mergeData(userId: string, data: Partial<StorageData>): Promise<void> {
     this.ensurePool();
     const client = await this.pool!.connect();
@@ -127,7 +342,7 @@ export class PostgresStorageProvider implements ServerStorageProvider {
       }
       await client.query("COMMIT");
     } catch (err) {
-      await client.query("ROLLBACK");
+      await client.query("ROLLBACK").catch(() => {});
       throw err;
     } finally {
       client.release();
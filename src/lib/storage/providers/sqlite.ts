@@ -4,11 +4,28 @@
  * WAL mode enabled for concurrent read performance.
  */
 
-import type { ServerStorageProvider, StorageCollection, StorageData } from "../types";
+import type {
+  ServerOnlyCollection,
+  ServerOnlyData,
+  ServerStorageProvider,
+  StorageData,
+  StoredData,
+  TeamCollection,
+  TeamData,
+} from "../types";
 import { STORAGE_COLLECTIONS } from "../types";
 import type BetterSqlite3 from "better-sqlite3";
 import { logger } from "@/lib/logger";
 import { DEFAULT_STORAGE_SQLITE_PATH } from "@/lib/data-dir";
+import type { AuditEventPage, AuditEventQuery, StoredAuditEvent } from "@/lib/audit-store/types";
+import {
+  auditEventsDdl,
+  auditEventValues,
+  auditWhereClause,
+  INSERT_AUDIT_EVENT_COLUMNS,
+  rowToStoredAuditEvent,
+  type AuditEventRow,
+} from "@/lib/audit-store/sql";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let Database: any;
@@ -61,7 +78,7 @@ export class SQLiteStorageProvider implements ServerStorageProvider {
       // Enable WAL mode for better concurrent read performance
       this.db!.pragma("journal_mode = WAL");
 
-      // Create table
+      // Create tables
       this.db!.exec(`
         CREATE TABLE IF NOT EXISTS user_storage (
           user_id    TEXT NOT NULL,
@@ -69,7 +86,15 @@ export class SQLiteStorageProvider implements ServerStorageProvider {
           data       TEXT NOT NULL,
           updated_at TEXT NOT NULL DEFAULT (datetime('now')),
           PRIMARY KEY (user_id, collection)
-        )
+        );
+        CREATE TABLE IF NOT EXISTS team_storage (
+          team_id    TEXT NOT NULL,
+          collection TEXT NOT NULL,
+          data       TEXT NOT NULL,
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          PRIMARY KEY (team_id, collection)
+        );
+        ${auditEventsDdl("INTEGER")}
       `);
     } catch (error) {
       logger.error("SQLite storage initialization failed", error, { provider: "sqlite", path: this.dbPath });
@@ -96,6 +121,8 @@ export class SQLiteStorageProvider implements ServerStorageProvider {
 
     const result: Partial<StorageData> = {};
     for (const row of rows) {
+      // The scheduler's collections share these rows but are never handed to the browser.
+      if (!(STORAGE_COLLECTIONS as string[]).includes(row.collection)) continue;
       try {
         (result as Record<string, unknown>)[row.collection] = JSON.parse(row.data);
       } catch {
@@ -105,20 +132,37 @@ export class SQLiteStorageProvider implements ServerStorageProvider {
     return result;
   }
 
-  async getCollection<K extends StorageCollection>(userId: string, collection: K): Promise<StorageData[K] | null> {
+  async getCollection<K extends keyof StoredData>(userId: string, collection: K): Promise<StoredData[K] | null> {
     this.ensureDb();
     const stmt = this.db!.prepare("SELECT data FROM user_storage WHERE user_id = ? AND collection = ?");
     const row = stmt.get(userId, collection) as { data: string } | undefined;
     if (!row) return null;
     try {
-      return JSON.parse(row.data) as StorageData[K];
+      return JSON.parse(row.data) as StoredData[K];
     } catch {
       logger.warn("Corrupted data in storage collection", { provider: "sqlite", collection });
       return null;
     }
   }
 
-  async setCollection<K extends StorageCollection>(userId: string, collection: K, data: StorageData[K]): Promise<void> {
+  async listCollection<K extends ServerOnlyCollection>(
+    collection: K,
+  ): Promise<{ userId: string; data: ServerOnlyData[K] }[]> {
+    this.ensureDb();
+    const stmt = this.db!.prepare("SELECT user_id, data FROM user_storage WHERE collection = ?");
+    const rows = stmt.all(collection) as { user_id: string; data: string }[];
+    const result: { userId: string; data: ServerOnlyData[K] }[] = [];
+    for (const row of rows) {
+      try {
+        result.push({ userId: row.user_id, data: JSON.parse(row.data) as ServerOnlyData[K] });
+      } catch {
+        logger.warn("Corrupted data in storage collection", { provider: "sqlite", collection });
+      }
+    }
+    return result;
+  }
+
+  async setCollection<K extends keyof StoredData>(userId: string, collection: K, data: StoredData[K]): Promise<void> {
     this.ensureDb();
     const stmt = this.db!.prepare(`
       INSERT INTO user_storage (user_id, collection, data, updated_at)
@@ -129,6 +173,149 @@ export class SQLiteStorageProvider implements ServerStorageProvider {
     stmt.run(userId, collection, JSON.stringify(data));
   }
 
+  async updateCollection<K extends ServerOnlyCollection>(
+    userId: string,
+    collection: K,
+    update: (current: ServerOnlyData[K] | null) => ServerOnlyData[K],
+  ): Promise<void> {
+    this.updateRow("user_storage", userId, collection, update);
+  }
+
+  /** A read-modify-write of one row of `table` in one transaction. */
+  private updateRow<T>(
+    table: "user_storage" | "team_storage",
+    owner: string,
+    collection: string,
+    update: (current: T | null) => T,
+  ): void {
+    this.ensureDb();
+    const ownerColumn = table === "user_storage" ? "user_id" : "team_id";
+    const read = this.db!.prepare(`SELECT data FROM ${table} WHERE ${ownerColumn} = ? AND collection = ?`);
+    const write = this.db!.prepare(`
+      INSERT INTO ${table} (${ownerColumn}, collection, data, updated_at)
+      VALUES (?, ?, ?, datetime('now'))
+      ON CONFLICT (${ownerColumn}, collection)
+      DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `);
+    // IMMEDIATE takes the write lock before the read, so another process on the same
+    // file waits for this one instead of reading what is about to be replaced.
+    const tx = this.db!.transaction(() => {
+      const row = read.get(owner, collection) as { data: string } | undefined;
+      let current: T | null = null;
+      try {
+        if (row) current = JSON.parse(row.data) as T;
+      } catch {
+        logger.warn("Corrupted data in storage collection", { provider: "sqlite", collection });
+      }
+      write.run(owner, collection, JSON.stringify(update(current)));
+    });
+    tx.immediate();
+  }
+
+  async getTeamCollection<K extends TeamCollection>(teamId: string, collection: K): Promise<TeamData[K] | null> {
+    this.ensureDb();
+    const stmt = this.db!.prepare("SELECT data FROM team_storage WHERE team_id = ? AND collection = ?");
+    const row = stmt.get(teamId, collection) as { data: string } | undefined;
+    if (!row) return null;
+    try {
+      return JSON.parse(row.data) as TeamData[K];
+    } catch {
+      logger.warn("Corrupted data in team storage collection", { provider: "sqlite", collection });
+      return null;
+    }
+  }
+
+  async setTeamCollection<K extends TeamCollection>(teamId: string, collection: K, data: TeamData[K]): Promise<void> {
+    this.ensureDb();
+    const stmt = this.db!.prepare(`
+      INSERT INTO team_storage (team_id, collection, data, updated_at)
+      VALUES (?, ?, ?, datetime('now'))
+      ON CONFLICT (team_id, collection)
+      DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `);
+    stmt.run(teamId, collection, JSON.stringify(data));
+  }
+
+  async updateTeamCollection<K extends TeamCollection>(
+    teamId: string,
+    collection: K,
+    update: (current: TeamData[K] | null) => TeamData[K],
+  ): Promise<void> {
+    this.updateRow("team_storage", teamId, collection, update);
+  }
+
+  async listTeamCollection<K extends TeamCollection>(collection: K): Promise<{ teamId: string; data: TeamData[K] }[]> {
+    this.ensureDb();
+    const stmt = this.db!.prepare("SELECT team_id, data FROM team_storage WHERE collection = ?");
+    const rows = stmt.all(collection) as { team_id: string; data: string }[];
+    const result: { teamId: string; data: TeamData[K] }[] = [];
+    for (const row of rows) {
+      try {
+        result.push({ teamId: row.team_id, data: JSON.parse(row.data) as TeamData[K] });
+      } catch {
+        logger.warn("Corrupted data in team storage collection", { provider: "sqlite", collection });
+      }
+    }
+    return result;
+  }
+
+  async deleteTeam(teamId: string): Promise<void> {
+    this.ensureDb();
+    this.db!.prepare("DELETE FROM team_storage WHERE team_id = ?").run(teamId);
+  }
+
+  async appendAuditEvents(events: StoredAuditEvent[]): Promise<void> {
+    this.ensureDb();
+    const stmt = this.db!.prepare(
+      `INSERT INTO audit_events (${INSERT_AUDIT_EVENT_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    const tx = this.db!.transaction(() => {
+      for (const stored of events) stmt.run(...auditEventValues(stored));
+    });
+    tx();
+  }
+
+  async getLastAuditEvent(): Promise<StoredAuditEvent | null> {
+    this.ensureDb();
+    const row = this.db!.prepare(
+      "SELECT seq, event, prev_hash, hash FROM audit_events ORDER BY seq DESC LIMIT 1",
+    ).get() as AuditEventRow | undefined;
+    return row ? rowToStoredAuditEvent(row) : null;
+  }
+
+  async queryAuditEvents(query: AuditEventQuery): Promise<AuditEventPage> {
+    this.ensureDb();
+    const { where, params } = auditWhereClause(query, () => "?");
+    const { total } = this.db!.prepare(`SELECT COUNT(*) AS total FROM audit_events ${where}`).get(...params) as {
+      total: number;
+    };
+    const rows = this.db!.prepare(
+      `SELECT seq, event, prev_hash, hash FROM audit_events ${where}
+       ORDER BY seq ${query.order === "oldest" ? "ASC" : "DESC"} LIMIT ? OFFSET ?`,
+    ).all(...params, query.limit, query.offset) as AuditEventRow[];
+    const events: StoredAuditEvent[] = [];
+    for (const row of rows) {
+      const stored = rowToStoredAuditEvent(row);
+      if (stored) events.push(stored);
+      else logger.warn("Skipping corrupted audit event", { provider: "sqlite", seq: row.seq });
+    }
+    return { events, total };
+  }
+
+  async pruneAuditEvents(options: { before?: string; keepLatest?: number }): Promise<number> {
+    this.ensureDb();
+    let removed = 0;
+    if (options.before) {
+      removed += this.db!.prepare("DELETE FROM audit_events WHERE ts < ?").run(options.before).changes;
+    }
+    if (options.keepLatest !== undefined) {
+      removed += this.db!.prepare("DELETE FROM audit_events WHERE seq <= (SELECT MAX(seq) FROM audit_events) - ?").run(
+        options.keepLatest,
+      ).changes;
+    }
+    return removed;
+  }
+
   async mergeData(userId: string, data: Partial<StorageData>): Promise<void> {
     this.ensureDb();
     const stmt = this.db!.prepare(`
@@ -2,6 +2,14 @@ import type { DatabaseConnection, QueryHistoryItem, SavedQuery, SchemaSnapshot,
 import type { AuditEvent } from "../audit";
 import type { MaskingConfig } from "../data-masking";
 import type { ThresholdConfig } from "../monitoring-thresholds";
+import type { QuerySchedule, ScheduleNotification, ScheduleRun } from "../scheduler/types";
+import type { Team, TeamItem, TeamItemVersion } from "../teams/types";
+import type { DirectorySignIn, LocalAccount } from "../accounts/types";
+import type { AccessRole } from "../access/types";
+import type { ChangeRequest } from "../change-requests/types";
+import type { ApiToken } from "../api-tokens/types";
+import type { MaskingPolicy } from "../masking/types";
+import type { AuditEventPage, AuditEventQuery, StoredAuditEvent } from "../audit-store/types";
 
 /**
  * All persistable collections and their data types.
@@ -38,6 +46,50 @@ export const STORAGE_COLLECTIONS: StorageCollection[] = [
   "dismissed_seeds",
 ];
 
+/**
+ * Collections the server keeps for a user and never syncs: the query scheduler's
+ * (`src/lib/scheduler/`) and the user's own login (`src/lib/accounts/`). They share
+ * the user's storage rows, but they are not in `STORAGE_COLLECTIONS`, so
+ * `PUT /api/storage/[collection]` refuses them and `getAllData` leaves them out.
+ * That is the point: a schedule records the role its owner had when it was saved,
+ * an account holds a role and a password hash, and a browser that could write
+ * either could write itself a better one. The custom roles (`src/lib/access/`) are
+ * one more, kept under a row no user owns (`ACCESS_ROLES_OWNER`), and so is the
+ * queue of writes waiting for approval (`src/lib/change-requests/`), which a
+ * browser that could write would approve for itself, and the masking policy
+ * (`src/lib/masking/`), which it would switch off.
+ */
+export interface ServerOnlyData {
+  query_schedules: QuerySchedule[];
+  query_schedule_runs: ScheduleRun[];
+  schedule_notifications: ScheduleNotification[];
+  local_account: LocalAccount;
+  directory_sign_in: DirectorySignIn;
+  access_roles: AccessRole[];
+  change_requests: ChangeRequest[];
+  api_tokens: ApiToken[];
+  masking_policy: MaskingPolicy;
+}
+
+export type ServerOnlyCollection = keyof ServerOnlyData;
+
+/** Every collection a provider stores: the synced ones and the server's own. */
+export type StoredData = StorageData & ServerOnlyData;
+
+/**
+ * A team workspace's collections (`src/lib/teams/`), stored under the team's id in
+ * a table of their own rather than in any member's rows: a team outlives whoever
+ * created it, and no user id can be spelled to reach one. Never synced - members
+ * read and write them through `/api/teams`, which checks their role first.
+ */
+export interface TeamData {
+  team: Team;
+  items: TeamItem[];
+  item_versions: TeamItemVersion[];
+}
+
+export type TeamCollection = keyof TeamData;
+
 /**
  * Server-side storage provider interface.
  * Implements the Strategy Pattern — SQLite and PostgreSQL both implement this.
@@ -45,12 +97,51 @@ export const STORAGE_COLLECTIONS: StorageCollection[] = [
 export interface ServerStorageProvider {
   /** Create tables if they don't exist */
   initialize(): Promise<void>;
-  /** Get all collections for a user */
+  /** Get all synced collections for a user (never a `ServerOnlyCollection`) */
   getAllData(userId: string): Promise<Partial<StorageData>>;
   /** Get a single collection for a user */
-  getCollection<K extends StorageCollection>(userId: string, collection: K): Promise<StorageData[K] | null>;
+  getCollection<K extends keyof StoredData>(userId: string, collection: K): Promise<StoredData[K] | null>;
   /** Set a single collection for a user */
-  setCollection<K extends StorageCollection>(userId: string, collection: K, data: StorageData[K]): Promise<void>;
+  setCollection<K extends keyof StoredData>(userId: string, collection: K, data: StoredData[K]): Promise<void>;
+  /**
+   * Replace a server-only collection with what `update` makes of the stored one (null
+   * when there is none), read and written in one storage transaction. Two processes
+   * updating the same row take turns, so a compare-and-set inside `update` holds
+   * across replicas, not only within one.
+   */
+  updateCollection<K extends ServerOnlyCollection>(
+    userId: string,
+    collection: K,
+    update: (current: ServerOnlyData[K] | null) => ServerOnlyData[K],
+  ): Promise<void>;
+  /** One server-only collection for every user that has it — how the scheduler finds its work */
+  listCollection<K extends ServerOnlyCollection>(collection: K): Promise<{ userId: string; data: ServerOnlyData[K] }[]>;
+  /** Get a single collection of a team's */
+  getTeamCollection<K extends TeamCollection>(teamId: string, collection: K): Promise<TeamData[K] | null>;
+  /** Set a single collection of a team's */
+  setTeamCollection<K extends TeamCollection>(teamId: string, collection: K, data: TeamData[K]): Promise<void>;
+  /** Replace a team's collection with what `update` makes of the stored one, as `updateCollection` does */
+  updateTeamCollection<K extends TeamCollection>(
+    teamId: string,
+    collection: K,
+    update: (current: TeamData[K] | null) => TeamData[K],
+  ): Promise<void>;
+  /** One collection for every team that has it — how the teams a user belongs to are found */
+  listTeamCollection<K extends TeamCollection>(collection: K): Promise<{ teamId: string; data: TeamData[K] }[]>;
+  /** Drop every collection a team holds */
+  deleteTeam(teamId: string): Promise<void>;
+  /**
+   * Append chained audit events (`src/lib/audit-store/`) to their own table, all or
+   * none. Fails when a `seq` is already taken: another process wrote first, and
+   * the caller has to chain again from the new head.
+   */
+  appendAuditEvents(events: StoredAuditEvent[]): Promise<void>;
+  /** The newest stored audit event, which the next one links to, or null before the first */
+  getLastAuditEvent(): Promise<StoredAuditEvent | null>;
+  /** One page of the stored audit events the query matches, with how many match in all */
+  queryAuditEvents(query: AuditEventQuery): Promise<AuditEventPage>;
+  /** Delete the audit events before `before`, then all but the newest `keepLatest`; returns how many went */
+  pruneAuditEvents(options: { before?: string; keepLatest?: number }): Promise<number>;
   /** Merge multiple collections (used for migration) */
   mergeData(userId: string, data: Partial<StorageData>): Promise<void>;
   /** Health check */
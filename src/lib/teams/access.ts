@@ -0,0 +1,16 @@
+import type { TeamSummary } from "./types";
+
+/** `folder` is `scope` or somewhere below it; `""` scopes the whole team. */
+function isWithin(folder: string, scope: string): boolean {
+  return scope === "" || folder === scope || folder.startsWith(`${scope}/`);
+}
+
+/**
+ * Whether a member with `access` may publish, edit or delete in `folder`. The
+ * server decides with this (`canWriteFolder`), and the workspace panel asks it
+ * only to leave out the buttons the server would refuse.
+ */
+export function writesFolder(access: Pick<TeamSummary, "role" | "folders">, folder: string): boolean {
+  if (access.role !== "write") return false;
+  return !access.folders || access.folders.some((scope) => isWithin(folder, scope));
+}
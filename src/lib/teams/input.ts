@@ -0,0 +1,123 @@
+import type { TeamItemData, TeamItemKind, TeamMember } from "./types";
+
+const TEAM_ITEM_KINDS: readonly TeamItemKind[] = ["saved_queries", "saved_charts", "schema_snapshots"];
+
+/** A team or an item the browser sent that cannot be saved; the message says which field and why. */
+export class TeamInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TeamInputError";
+  }
+}
+
+/** What an admin sends to create or change a team. */
+export interface TeamInput {
+  id?: string;
+  name: string;
+  members: TeamMember[];
+}
+
+/** What a member sends to publish an item, or to edit one when it has the `id`. */
+export interface TeamItemInput<K extends TeamItemKind = TeamItemKind> {
+  id?: string;
+  kind: K;
+  folder: string;
+  data: TeamItemData[K];
+  /** The version the edit was made from; required with `id`. */
+  baseVersion?: number;
+}
+
+/**
+ * A folder path as stored: slash-separated, no empty or dot segments, and `""`
+ * for the top level. `" /Finance//monthly/ "` is `Finance/monthly`.
+ */
+export function readFolder(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value !== "string") throw new TeamInputError("folder must be a string");
+  const segments = value
+    .split("/")
+    .map((s) => s.trim())
+    .filter((s) => s !== "");
+  if (segments.some((s) => s === "." || s === "..")) throw new TeamInputError("folder cannot contain . or ..");
+  return segments.join("/");
+}
+
+function readMember(value: unknown): TeamMember {
+  if (typeof value !== "object" || value === null) throw new TeamInputError("Each member must be an object");
+  const { username, role, folders } = value as Record<string, unknown>;
+  if (typeof username !== "string" || username.trim() === "") throw new TeamInputError("Each member needs a username");
+  if (role !== "read" && role !== "write") {
+    throw new TeamInputError(`${username}: role must be "read" or "write"`);
+  }
+  const member: TeamMember = { username: username.trim(), role };
+  if (role === "write" && folders !== undefined && folders !== null) {
+    if (!Array.isArray(folders)) throw new TeamInputError(`${member.username}: folders must be a list`);
+    // An empty list would read as "no folder at all", which is what `read` is for.
+    const scoped = [...new Set(folders.map(readFolder))];
+    if (scoped.length > 0 && !scoped.includes("")) member.folders = scoped;
+  }
+  return member;
+}
+
+/** The team in a request body, checked field by field. */
+export function readTeamInput(body: unknown): TeamInput {
+  if (typeof body !== "object" || body === null) throw new TeamInputError("Expected a team");
+  const { id, name, members } = body as Record<string, unknown>;
+  if (typeof name !== "string" || name.trim() === "") throw new TeamInputError("name is required");
+  if (!Array.isArray(members)) throw new TeamInputError("members must be a list");
+
+  const read = members.map(readMember);
+  const seen = new Set<string>();
+  for (const member of read) {
+    if (seen.has(member.username)) throw new TeamInputError(`${member.username} is listed twice`);
+    seen.add(member.username);
+  }
+
+  return {
+    ...(typeof id === "string" && id !== "" ? { id } : {}),
+    name: name.trim(),
+    members: read,
+  };
+}
+
+/**
+ * Whether `data` has what the app reads from a record of `kind`. Only that much
+ * is checked: the record is the publisher's own, and the fields past these are
+ * carried as they are.
+ */
+function hasShape(kind: TeamItemKind, data: Record<string, unknown>): boolean {
+  switch (kind) {
+    case "saved_queries":
+      return typeof data.name === "string" && typeof data.query === "string";
+    case "saved_charts":
+      return typeof data.name === "string" && typeof data.chartType === "string" && Array.isArray(data.yAxis);
+    case "schema_snapshots":
+      return typeof data.connectionName === "string" && Array.isArray(data.schema);
+  }
+}
+
+/** The item in a request body, checked field by field. */
+export function readTeamItemInput(body: unknown): TeamItemInput {
+  if (typeof body !== "object" || body === null) throw new TeamInputError("Expected an item");
+  const { id, kind, folder, data, baseVersion } = body as Record<string, unknown>;
+
+  if (!TEAM_ITEM_KINDS.includes(kind as TeamItemKind)) {
+    throw new TeamInputError(`kind must be one of ${TEAM_ITEM_KINDS.join(", ")}`);
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) throw new TeamInputError("data is required");
+  if (!hasShape(kind as TeamItemKind, data as Record<string, unknown>)) {
+    throw new TeamInputError(`data is not a ${kind} record`);
+  }
+
+  const editing = typeof id === "string" && id !== "";
+  if (editing && (typeof baseVersion !== "number" || !Number.isInteger(baseVersion))) {
+    throw new TeamInputError("baseVersion is required to edit an item");
+  }
+
+  return {
+    ...(editing ? { id, baseVersion: baseVersion as number } : {}),
+    kind: kind as TeamItemKind,
+    folder: readFolder(folder),
+    data: data as TeamItemData[TeamItemKind],
+  };
+}
@@ -0,0 +1,81 @@
+import type { UserPayload } from "@/lib/auth";
+import type { ServerStorageProvider, TeamCollection, TeamData } from "@/lib/storage/types";
+import { writesFolder } from "./access";
+import type { Team, TeamRole, TeamSummary } from "./types";
+
+/** The most versions kept per item; an edit past it drops the oldest. */
+const MAX_VERSIONS = 50;
+
+export async function readTeamCollection<K extends Exclude<TeamCollection, "team">>(
+  provider: ServerStorageProvider,
+  teamId: string,
+  collection: K,
+): Promise<TeamData[K]> {
+  return ((await provider.getTeamCollection(teamId, collection)) ?? []) as TeamData[K];
+}
+
+/**
+ * Replace `teamId`'s `collection` with what `update` makes of it, in one storage
+ * transaction (`ServerStorageProvider.updateTeamCollection`). Two members
+ * publishing at once is what a team is for, and each update reads a whole
+ * collection and writes it back.
+ */
+export async function updateTeamCollection<K extends Exclude<TeamCollection, "team">, T = void>(
+  provider: ServerStorageProvider,
+  teamId: string,
+  collection: K,
+  update: (current: TeamData[K]) => { data: TeamData[K]; result: T },
+): Promise<T> {
+  let result!: T;
+  await provider.updateTeamCollection(teamId, collection, (current) => {
+    const next = update((current ?? []) as TeamData[K]);
+    result = next.result;
+    return next.data;
+  });
+  return result;
+}
+
+/** Every team, for an admin, or the ones `username` is a member of. */
+export async function listTeams(provider: ServerStorageProvider, session: UserPayload): Promise<Team[]> {
+  const teams = (await provider.listTeamCollection("team")).map(({ data }) => data);
+  if (session.role === "admin") return teams;
+  return teams.filter((team) => team.members.some((m) => m.username === session.username));
+}
+
+/**
+ * The caller's role in `team`, or null when they are not in it. An admin writes
+ * everywhere: they set the membership, so any narrower answer would only be one
+ * edit away.
+ */
+export function teamAccess(team: Team, session: UserPayload): Omit<TeamSummary, "id" | "name"> | null {
+  if (session.role === "admin") return { role: "write" };
+  const member = team.members.find((m) => m.username === session.username);
+  if (!member) return null;
+  return member.role === "write" && member.folders ? { role: "write", folders: member.folders } : { role: member.role };
+}
+
+/** Whether the caller may publish, edit or delete in `folder` of `team`. */
+export function canWriteFolder(team: Team, session: UserPayload, folder: string): boolean {
+  const access = teamAccess(team, session);
+  return access !== null && writesFolder(access, folder);
+}
+
+/** The team, when the caller may at least read it. */
+export async function readTeamFor(
+  provider: ServerStorageProvider,
+  teamId: string,
+  session: UserPayload,
+): Promise<{ team: Team; role: TeamRole } | null> {
+  const team = await provider.getTeamCollection(teamId, "team");
+  if (!team) return null;
+  const access = teamAccess(team, session);
+  return access ? { team, role: access.role } : null;
+}
+
+/** Keep at most `MAX_VERSIONS` of `itemId`'s versions, dropping the oldest. */
+export function trimVersions<T extends { itemId: string; version: number }>(versions: T[], itemId: string): T[] {
+  const mine = versions.filter((v) => v.itemId === itemId).sort((a, b) => b.version - a.version);
+  if (mine.length <= MAX_VERSIONS) return versions;
+  const dropped = new Set(mine.slice(MAX_VERSIONS));
+  return versions.filter((v) => !dropped.has(v));
+}
@@ -0,0 +1,82 @@
+import type { SavedChartConfig, SavedQuery, SchemaSnapshot } from "@/lib/types";
+
+/**
+ * What a member may do in a team's workspace. `read` lists and loads what the
+ * team published; `write` also publishes, edits and deletes it.
+ */
+export type TeamRole = "read" | "write";
+
+export interface TeamMember {
+  /** The login name, as `session.username` carries it. */
+  username: string;
+  role: TeamRole;
+  /**
+   * With `write`, the folders the member may write in, each with everything below
+   * it: `["finance"]` allows `finance` and `finance/monthly`. Absent, the whole team.
+   * A member always reads the whole team - a folder narrows what they can change,
+   * not what they can see.
+   */
+  folders?: string[];
+}
+
+/**
+ * A shared workspace, held in server storage under its own id rather than any
+ * user's (`TeamData` in `@/lib/storage/types`). Admins create teams and set their
+ * members; members never change the membership, whatever their role.
+ */
+export interface Team {
+  id: string;
+  name: string;
+  members: TeamMember[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** The collections an item can be published from, named as in `StorageData`. */
+export type TeamItemKind = "saved_queries" | "saved_charts" | "schema_snapshots";
+
+/** What an item of each kind holds: the user's own record, as it was published. */
+export interface TeamItemData {
+  saved_queries: SavedQuery;
+  saved_charts: SavedChartConfig;
+  schema_snapshots: SchemaSnapshot;
+}
+
+/**
+ * A saved query, chart or snapshot published to a team. `data` is the record
+ * as the publisher had it; the rest is the server's and says who did what to it.
+ */
+export interface TeamItem<K extends TeamItemKind = TeamItemKind> {
+  id: string;
+  kind: K;
+  /** Slash-separated, `""` for the team's top level. */
+  folder: string;
+  data: TeamItemData[K];
+  /** 1 when published, one more on every edit. An edit names the version it was made from. */
+  version: number;
+  /** Who published it. */
+  owner: string;
+  createdAt: string;
+  /** Who made the current version. */
+  updatedBy: string;
+  updatedAt: string;
+}
+
+/** A version an edit replaced, kept so it can be read back or restored. */
+export interface TeamItemVersion {
+  itemId: string;
+  version: number;
+  folder: string;
+  data: TeamItemData[TeamItemKind];
+  updatedBy: string;
+  updatedAt: string;
+}
+
+/** A team as a member sees it: with their own role in it, and without the member list. */
+export interface TeamSummary {
+  id: string;
+  name: string;
+  role: TeamRole;
+  /** With `write`, the folders the caller may write in; absent for the whole team. */
+  folders?: string[];
+}
@@ -9,7 +9,10 @@ export type DatabaseType =
   | "libredb"
   | "couchbase"
   | "clickhouse"
-  | "druid";
+  | "druid"
+  | "duckdb"
+  | "cassandra"
+  | "elasticsearch";
 
 export type ConnectionEnvironment = "production" | "staging" | "development" | "local" | "other";
 
@@ -29,6 +32,15 @@ export const ENVIRONMENT_LABELS: Record<ConnectionEnvironment, string> = {
   other: "",
 };
 
+/**
+ * What the editor lets a statement do on a connection. Absent means `read-write`,
+ * which is what every connection did before there was a choice: `read-only` refuses
+ * writes and runs reads under the engine's own read-only boundary where it has one,
+ * and `approval` does the same until another user has approved the write
+ * (`src/lib/access/write-policy.ts`).
+ */
+export type WritePolicy = "read-write" | "read-only" | "approval";
+
 export type SSLMode = "disable" | "require" | "verify-ca" | "verify-full";
 
 export interface SSLConfig {
@@ -63,11 +75,13 @@ export interface DatabaseConnection {
   createdAt: Date;
   color?: string;
   environment?: ConnectionEnvironment;
+  writePolicy?: WritePolicy;
   group?: string;
   ssl?: SSLConfig;
   sshTunnel?: SSHTunnelConfig;
   serviceName?: string; // Oracle: service name (e.g. ORCL, XEPDB1)
   instanceName?: string; // MSSQL: named instance (e.g. SQLEXPRESS)
+  dataCenter?: string; // Cassandra: the local data center the driver routes to (e.g. datacenter1)
   managed?: boolean; // true = admin-controlled, read-only in UI
   seedId?: string; // stable reference to seed config ID
   agentUser?: string; // optional least-privilege role for the agent read-only execution profile (#328)
@@ -107,12 +121,28 @@ export interface ColumnSchema {
   nullable: boolean;
   isPrimary: boolean;
   defaultValue?: string;
+  /**
+   * Which part of a wide-column primary key this column is. Cassandra splits the
+   * key in two: the PARTITION key decides which nodes hold a row and has to be
+   * given in full to read one without a scan, and the CLUSTERING columns order the
+   * rows inside a partition and may only be constrained left to right. Both are
+   * `isPrimary`, and a reader writing a WHERE clause needs to know which is which.
+   * Absent on every engine whose key has one part.
+   */
+  keyKind?: "partition" | "clustering";
 }
 
 export interface IndexSchema {
   name: string;
   columns: string[];
   unique: boolean;
+  /**
+   * Set when this entry is a part of the primary key rather than an index the user
+   * created - the same two parts as `ColumnSchema.keyKind`, with `columns` in key
+   * order. Cassandra has no index object behind its key, so without the marker a
+   * reader would take "partition key" for a secondary index it could drop.
+   */
+  keyKind?: "partition" | "clustering";
 }
 
 export interface QueryPagination {
@@ -121,6 +151,15 @@ export interface QueryPagination {
   hasMore: boolean;
   totalReturned: number;
   wasLimited: boolean;
+  /**
+   * Where the next page starts, for an engine that pages by cursor rather than by
+   * offset. Cassandra cannot skip rows server-side - CQL has no OFFSET - so the
+   * driver hands back an opaque paging state with each page, and "Load More"
+   * sends it back (`QueryPrepareOptions.pageState`) instead of re-reading the
+   * rows it already has. Absent when there is no next page, and on every engine
+   * that pages by offset.
+   */
+  pageState?: string;
 }
 
 /**
@@ -211,6 +250,56 @@ export interface QueryResult {
    * catalog entry to answer with. Absent when the source declared none.
    */
   columnTypes?: Record<string, string>;
+  /**
+   * The table and column each result column was read from, keyed by its name in
+   * `fields`, where the engine's wire format says (PostgreSQL, MySQL). `null` for a
+   * column the engine computed - an expression or a literal - and no entry where it
+   * could not tell. The masking policy follows a column through an alias by it.
+   */
+  columnSources?: Record<string, ColumnSource | null>;
+  /**
+   * What the server's masking policy (`src/lib/masking/`) did to this result before
+   * its rows left the server. Present on every result the policy was applied to,
+   * whether or not it masked anything, so the grid knows the decision was made and
+   * does not apply the browser's own settings on top; absent on one it never saw.
+   */
+  masking?: ResultMasking;
+}
+
+/** Where a result column was read from: its table, without the schema, and its name there. */
+export interface ColumnSource {
+  table: string;
+  column: string;
+}
+
+/** The masked columns of a result, and whether its caller may ask for one of their values. */
+export interface ResultMasking {
+  /** The result's `fields` whose values are masked, in `fields` order. */
+  columns: string[];
+  /**
+   * The caller holds `unmask` on the connection and the result can be read again for
+   * one value (`POST /api/db/reveal`). False for a script's result or one read inside
+   * a transaction, which running the statement again would not reproduce.
+   */
+  canReveal: boolean;
+}
+
+/** How a query parameter's typed text is read before it is bound. */
+export type QueryParameterType = "text" | "number" | "boolean" | "date" | "null";
+
+/**
+ * A value for one placeholder in the editor's text, as the parameter panel holds it.
+ *
+ * The value stays the text the user typed, whatever the type: it is what the panel
+ * shows back, and reading it as a number or a date happens when the statement is
+ * bound (`readParameterValue` in `@/lib/sql/parameters`), where a value that does
+ * not read can stop the run with a message instead of sending the driver a NaN.
+ */
+export interface QueryParameter {
+  /** The placeholder as written, sigil included: `:id`, `$1`, `@since`. */
+  name: string;
+  type: QueryParameterType;
+  value: string;
 }
 
 export interface QueryTab {
@@ -226,8 +315,21 @@ export interface QueryTab {
   currentOffset?: number;
   isLoadingMore?: boolean;
   allRows?: Record<string, unknown>[];
+  /**
+   * The values the parameter panel holds for this tab, including ones for
+   * placeholders since deleted from the text: retyping `:id` brings its value back.
+   */
+  parameters?: QueryParameter[];
+  /** The saved query this tab was loaded from; a run remembers its values there. */
+  savedQueryId?: string;
 }
 
+/**
+ * What loading a statement into the editor brings along besides its text: the
+ * saved query it came from, and the parameter values it was saved or run with.
+ */
+export type LoadedQueryState = Pick<QueryTab, "parameters" | "savedQueryId">;
+
 export interface QueryHistoryItem {
   id: string;
   connectionId: string;
@@ -239,6 +341,8 @@ export interface QueryHistoryItem {
   executedAt: Date;
   rowCount?: number;
   errorMessage?: string;
+  /** The values the statement's placeholders were bound to, in the order they first appear. */
+  parameters?: QueryParameter[];
 }
 
 export interface SavedQuery {
@@ -250,6 +354,8 @@ export interface SavedQuery {
   createdAt: Date;
   updatedAt: Date;
   tags?: string[];
+  /** The parameter values it last ran with, so loading it fills the panel in again. */
+  parameters?: QueryParameter[];
 }
 
 export interface SchemaSnapshot {
@@ -260,6 +366,11 @@ export interface SchemaSnapshot {
   schema: TableSchema[];
   createdAt: Date;
   label?: string;
+  /**
+   * The ledger id of the migration whose result this snapshot is, when it was taken
+   * right after one was applied (`src/lib/migrations/`).
+   */
+  migrationId?: string;
 }
 
 export type AggregationType = "none" | "sum" | "avg" | "count" | "min" | "max";
@@ -4,6 +4,7 @@ import { AGENT_DRIVE_HEADER, AGENT_DRIVE_PATH, verifyAgentDriveToken } from "@/l
 import { clientAddress } from "@/lib/api/client-address";
 import { checkOrigin } from "@/lib/api/origin-check";
 import { consumeRateLimit } from "@/lib/api/rate-limit";
+import { isApiTokenSecret } from "@/lib/api-tokens/format";
 import { emitAuditEvent, MAX_AUDIT_FIELD_LENGTH } from "@/lib/audit";
 import { logger } from "@/lib/logger";
 import { getJwtSecret } from "@/lib/config/auth-env";
@@ -77,9 +78,11 @@ export async function proxy(request: NextRequest) {
 
   const token = request.cookies.get("auth-token")?.value;
 
-  // If accessing /login with a valid token, redirect authenticated users
+  // If accessing /login with a valid token, redirect authenticated users - but not away from a
+  // setup link: whoever opens an invite or reset may be signed in as someone else on this browser
+  // (often the admin who made it), and the link is the only way to its account.
   if (pathname.startsWith("/login")) {
-    if (token) {
+    if (token && !pathname.startsWith("/login/setup")) {
       try {
         const { payload } = await jwtVerify(token, jwtSecret());
         const role = payload.role as string;
@@ -107,6 +110,17 @@ export async function proxy(request: NextRequest) {
     return withSecurityHeaders(NextResponse.next());
   }
 
+  // A script calling the database API with a personal API token (src/lib/api-tokens/) has no
+  // cookie to show. Tokens live in server storage, out of reach of this separately compiled entry,
+  // so only the secret's shape is checked here - and only for /api/db/, where every handler runs
+  // guardRoute (tests/api/db-routes-guarded.test.ts holds each one to it), which decides such a
+  // request by its header alone and refuses any route that did not declare a token scope. Whatever
+  // the header holds, it cannot reach a page or another part of the API here.
+  const bearer = /^Bearer\s+(\S+)\s*$/i.exec(request.headers.get("authorization") ?? "");
+  if (pathname.startsWith("/api/db/") && bearer && isApiTokenSecret(bearer[1])) {
+    return withSecurityHeaders(NextResponse.next());
+  }
+
   // Allow public routes
   if (
     pathname.startsWith("/api/auth") ||
@@ -21,8 +21,8 @@ import { cn } from "@/lib/utils";
 import { ChunkBoundary, ViewLoading } from "@/components/LazyView";
 import { lazyRetry } from "@/lib/lazy";
 import { editorLanguageForTabType } from "@/lib/editor/tab-language";
-import { buildResultExport, type ResultExportFormat } from "@/lib/export/result-export";
-import { downloadText } from "@/lib/export/download";
+import { buildResultExport, resultExportFileName, type ResultExportFormat } from "@/lib/export/result-export";
+import { downloadExport } from "@/lib/export/download";
 
 // The ERD is the largest thing this shell can mount (`@xyflow/react` + the elk layout
 // engine + the snapdom capture), and it is mounted only while `showDiagram` is true.
@@ -263,7 +263,7 @@ export function StudioWorkspace({
         // which the DDL form prefers over a type guessed from a value.
         columnTypes: tabMgr.currentTab.result.columnTypes,
       });
-      downloadText(file.content, file.mimeType, `query_result_export.${file.extension}`);
+      downloadExport(file.content, file.mimeType, resultExportFileName(format));
     },
     [tabMgr.currentTab, conn.activeConnection?.type],
   );
@@ -452,6 +452,7 @@ export function StudioWorkspace({
           onImport={(sql) => queryExec.executeQuery(sql)}
           tables={conn.schema}
           databaseType={conn.activeConnection?.type}
+          connection={conn.activeConnection}
         />
       )}
 
@@ -0,0 +1,227 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { NextRequest } from "next/server";
+import { createMockProvider } from "../../helpers/mock-provider";
+import { clearRateLimitState } from "@/lib/api/rate-limit";
+import * as dbErrors from "@/lib/db/errors";
+import { ACCESS_ROLES_OWNER } from "@/lib/access/store";
+import type { AccessRole } from "@/lib/access/types";
+
+// ─── Server storage, in memory ──────────────────────────────────────────────
+let userStore = new Map<string, unknown>();
+const key = (userId: string, collection: string) => `${userId}/${collection}`;
+const storage = {
+  getCollection: async (userId: string, collection: string) => userStore.get(key(userId, collection)) ?? null,
+  setCollection: async (userId: string, collection: string, data: unknown) => {
+    userStore.set(key(userId, collection), data);
+  },
+  updateCollection: async (userId: string, collection: string, update: (current: unknown) => unknown) => {
+    userStore.set(key(userId, collection), update(userStore.get(key(userId, collection)) ?? null));
+  },
+};
+let storageEnabled = true;
+
+let mockSession: { username: string; role: string; groups?: string[] } | null = {
+  username: "admin@libredb.org",
+  role: "admin",
+};
+
+const auditEvents: Record<string, unknown>[] = [];
+const mockProvider = createMockProvider();
+
+// ─── Mock dependencies BEFORE importing the routes ──────────────────────────
+mock.module("@/lib/auth", () => ({
+  getSession: async () => mockSession,
+  signJWT: mock(async () => "mock-token"),
+  verifyJWT: mock(async () => null),
+  login: mock(async () => {}),
+  logout: mock(async () => {}),
+}));
+
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => (storageEnabled ? storage : null),
+}));
+
+mock.module("@/lib/audit", () => ({
+  getServerAuditBuffer: () => ({ push: () => {} }),
+  emitAuditEvent: (event: Record<string, unknown>) => {
+    auditEvents.push(event);
+    return event;
+  },
+  AuditRingBuffer: class {},
+  loadAuditFromStorage: () => [],
+  saveAuditToStorage: () => {},
+}));
+
+mock.module("@/lib/db", () => ({
+  ...dbErrors,
+  getOrCreateProvider: mock(async () => mockProvider),
+  createDatabaseProvider: mock(async () => mockProvider),
+  removeProvider: mock(async () => {}),
+  clearProviderCache: mock(async () => {}),
+  getProviderCacheStats: mock(() => ({ size: 0, connections: [] })),
+}));
+
+const rolesRoute = await import("@/app/api/admin/access-roles/route");
+const queryRoute = await import("@/app/api/db/query/route");
+const maintenanceRoute = await import("@/app/api/db/maintenance/route");
+const { requireGrant } = await import("@/lib/access/enforce");
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+function request(url: string, method = "GET", body?: unknown) {
+  return new NextRequest(`http://localhost:3000${url}`, {
+    method,
+    ...(body === undefined ? {} : { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }),
+  });
+}
+
+const saveRole = (body: Record<string, unknown>) => rolesRoute.POST(request("/api/admin/access-roles", "POST", body));
+
+const storedRoles = () => (userStore.get(key(ACCESS_ROLES_OWNER, "access_roles")) ?? []) as AccessRole[];
+
+const ownConnection = { id: "own-1", name: "Own DB", type: "postgres", host: "localhost", database: "app" };
+
+const runQuery = (sql: string) => queryRoute.POST(request("/api/db/query", "POST", { sql, connection: ownConnection }));
+
+const analyst = {
+  name: "analyst",
+  members: ["ana@example.com"],
+  groups: ["data-analysts"],
+  grants: [{ connection: "*", permissions: [] }],
+};
+
+beforeEach(() => {
+  userStore = new Map();
+  storageEnabled = true;
+  mockSession = { username: "admin@libredb.org", role: "admin" };
+  auditEvents.length = 0;
+  clearRateLimitState();
+});
+
+afterEach(() => {
+  clearRateLimitState();
+});
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("/api/admin/access-roles", () => {
+  test("an admin creates a role, and saving it again replaces it", async () => {
+    const created = await saveRole({ ...analyst, description: "Reads everything" });
+    expect(created.status).toBe(200);
+    const { role } = await created.json();
+    expect(role).toMatchObject({ name: "analyst", updatedBy: "admin@libredb.org" });
+    expect(role.grants).toEqual([{ connection: "*", permissions: ["read"] }]);
+
+    await saveRole({ ...analyst, grants: [{ connection: "*", permissions: ["export"] }] });
+    expect(storedRoles()).toHaveLength(1);
+    expect(storedRoles()[0].grants[0].permissions).toEqual(["read", "export"]);
+    expect(auditEvents.map((e) => [e.type, e.action, e.target])).toEqual([
+      ["access_role", "create", "analyst"],
+      ["access_role", "update", "analyst"],
+    ]);
+  });
+
+  test("lists the roles with the seed connections a grant can name", async () => {
+    await saveRole(analyst);
+    const res = await rolesRoute.GET();
+    expect(res.status).toBe(200);
+    const data = await res.json();
+    expect(data.roles.map((r: AccessRole) => r.name)).toEqual(["analyst"]);
+    expect(Array.isArray(data.connections)).toBe(true);
+  });
+
+  test("deletes a role, and answers 404 for one that does not exist", async () => {
+    await saveRole(analyst);
+    const removed = await rolesRoute.DELETE(request("/api/admin/access-roles?name=analyst", "DELETE"));
+    expect(removed.status).toBe(200);
+    expect(storedRoles()).toEqual([]);
+
+    const missing = await rolesRoute.DELETE(request("/api/admin/access-roles?name=analyst", "DELETE"));
+    expect(missing.status).toBe(404);
+  });
+
+  test("rejects an invalid role with 400", async () => {
+    const res = await saveRole({ ...analyst, name: "admin" });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("built-in role");
+  });
+
+  test("is admin only", async () => {
+    mockSession = { username: "bob", role: "user" };
+    expect((await rolesRoute.GET()).status).toBe(403);
+    expect((await saveRole(analyst)).status).toBe(403);
+
+    mockSession = null;
+    expect((await rolesRoute.GET()).status).toBe(401);
+  });
+
+  test("answers 404 without server storage", async () => {
+    storageEnabled = false;
+    const res = await rolesRoute.GET();
+    expect(res.status).toBe(404);
+    expect((await res.json()).error).toContain("server storage");
+  });
+});
+
+describe("grants on the database routes", () => {
+  beforeEach(async () => {
+    await saveRole(analyst);
+    await saveRole({
+      name: "dba",
+      members: [],
+      groups: [],
+      grants: [{ connection: "*", permissions: ["write", "ddl", "maintenance"] }],
+    });
+  });
+
+  test("a read-only role runs a SELECT and is refused an UPDATE, which is audited", async () => {
+    mockSession = { username: "ana@example.com", role: "user" };
+    auditEvents.length = 0;
+
+    expect((await runQuery("SELECT * FROM users")).status).toBe(200);
+
+    const refused = await runQuery("UPDATE users SET name = 'x'");
+    expect(refused.status).toBe(403);
+    expect(await refused.json()).toMatchObject({ code: "ACCESS_DENIED" });
+    expect(auditEvents).toEqual([
+      expect.objectContaining({
+        type: "permission_denied",
+        action: "write",
+        target: "own connection",
+        user: "ana@example.com",
+        reason: "insufficient_role",
+      }),
+    ]);
+  });
+
+  test("an OIDC group confers the role", async () => {
+    mockSession = { username: "someone", role: "user", groups: ["data-analysts"] };
+    expect((await runQuery("DELETE FROM users")).status).toBe(403);
+  });
+
+  test("someone with no custom role keeps the built-in user's read-write", async () => {
+    mockSession = { username: "bob", role: "user" };
+    expect((await runQuery("UPDATE users SET name = 'x'")).status).toBe(200);
+  });
+
+  test("maintenance follows the grant rather than the built-in role", async () => {
+    const maintain = () =>
+      maintenanceRoute.POST(
+        request("/api/db/maintenance", "POST", { type: "vacuum", target: "users", connection: ownConnection }),
+      );
+
+    mockSession = { username: "dana", role: "user", groups: ["dba"] };
+    expect((await maintain()).status).toBe(200);
+
+    mockSession = { username: "ana@example.com", role: "user" };
+    expect((await maintain()).status).toBe(403);
+  });
+
+  test("a grant on one seed connection reaches that connection only", async () => {
+    await saveRole({ ...analyst, grants: [{ connection: "warehouse", permissions: ["export"] }] });
+    const ana = { username: "ana@example.com", role: "user" };
+
+    const held = await requireGrant(ana, "warehouse", "export");
+    expect([...held]).toEqual(["read", "export"]);
+    await expect(requireGrant(ana, "prod", "read")).rejects.toThrow('on connection "prod"');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { createMockRequest, parseResponseJSON } from "../../helpers/mock-next";
+import type { AuditEvent } from "@/lib/audit";
+import { chainAuditEvents } from "@/lib/audit-store/chain";
+import type { AuditEventQuery, StoredAuditEvent } from "@/lib/audit-store/types";
+
+function event(id: string): AuditEvent {
+  return {
+    id,
+    timestamp: "2026-02-14T10:00:00.000Z",
+    type: "login_success",
+    action: "login",
+    target: "POST /api/auth/login",
+    user: "ana",
+    result: "success",
+  };
+}
+
+const chain = chainAuditEvents(null, [event("a"), event("b"), event("c")]);
+let stored: StoredAuditEvent[] = chain;
+
+const mockGetSession = mock(
+  async (): Promise<{ role: string; username: string } | null> => ({ role: "admin", username: "admin" }),
+);
+mock.module("@/lib/auth", () => ({
+  getSession: mockGetSession,
+}));
+
+const mockQueryAuditEvents = mock(async (_query: AuditEventQuery) => ({ events: stored, total: stored.length }));
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => ({ queryAuditEvents: mockQueryAuditEvents }),
+}));
+
+const { GET, POST } = await import("@/app/api/admin/audit/chain/route");
+const { setRunningAuditStore } = await import("@/lib/audit-store/health");
+const STORE_KEY = Symbol.for("libredb-studio.audit-store");
+
+interface ExportBody {
+  format: string;
+  total: number;
+  events: StoredAuditEvent[];
+  verification: { valid: boolean; seq?: number; lastHash?: string };
+}
+
+describe("/api/admin/audit/chain", () => {
+  beforeEach(() => {
+    stored = chain;
+    mockGetSession.mockImplementation(async () => ({ role: "admin", username: "admin" }));
+    setRunningAuditStore({
+      health: () => ({ status: "idle", stored: 0, pending: 0, dropped: 0, failures: 0 }),
+    } as never);
+  });
+  afterEach(() => {
+    delete (globalThis as Record<symbol, unknown>)[STORE_KEY];
+  });
+
+  test("exports a time range oldest first, verified", async () => {
+    const res = await GET(createMockRequest("/api/admin/audit/chain?since=2026-02-01&user=ignored") as never);
+    const data = await parseResponseJSON<ExportBody>(res);
+
+    expect(res.status).toBe(200);
+    expect(data.format).toBe("libredb.audit-chain.v1");
+    expect(data.events.map((e) => e.seq)).toEqual([1, 2, 3]);
+    expect(data.verification).toMatchObject({ valid: true, lastHash: chain[2].hash });
+    const query = mockQueryAuditEvents.mock.calls.at(-1)![0];
+    expect(query).toMatchObject({ since: "2026-02-01T00:00:00.000Z", order: "oldest", limit: 10_000 });
+    // A filter would leave gaps the chain cannot be verified across.
+    expect(query.user).toBeUndefined();
+  });
+
+  test("says so when the stored range no longer verifies", async () => {
+    stored = [chain[0], { ...chain[1], event: { ...chain[1].event, user: "mallory" } }, chain[2]];
+
+    const data = await parseResponseJSON<ExportBody>(await GET(createMockRequest("/api/admin/audit/chain") as never));
+
+    expect(data.verification).toMatchObject({ valid: false, seq: 2 });
+  });
+
+  test("verifies an export sent back, and finds what was removed from it", async () => {
+    const verify = async (events: unknown) =>
+      parseResponseJSON<{ verification: { valid: boolean; problem?: string } }>(
+        await POST(createMockRequest("/api/admin/audit/chain", { method: "POST", body: { events } }) as never),
+      );
+
+    expect((await verify(chain)).verification.valid).toBe(true);
+    expect((await verify([chain[0], chain[2]])).verification).toMatchObject({
+      valid: false,
+      problem: "expected event 2 next, found 3",
+    });
+  });
+
+  test("refuses a body that is not an export", async () => {
+    const res = await POST(
+      createMockRequest("/api/admin/audit/chain", { method: "POST", body: { events: [{ seq: "1" }] } }) as never,
+    );
+    expect(res.status).toBe(400);
+  });
+
+  test("is for admins only", async () => {
+    mockGetSession.mockImplementation(async () => ({ role: "user", username: "ana" }));
+    expect((await GET(createMockRequest("/api/admin/audit/chain") as never)).status).toBe(403);
+    expect(
+      (await POST(createMockRequest("/api/admin/audit/chain", { method: "POST", body: { events: [] } }) as never))
+        .status,
+    ).toBe(403);
+
+    mockGetSession.mockImplementation(async () => null);
+    expect((await GET(createMockRequest("/api/admin/audit/chain") as never)).status).toBe(401);
+  });
+
+  test("answers 404 where no durable store runs", async () => {
+    delete (globalThis as Record<symbol, unknown>)[STORE_KEY];
+    expect((await GET(createMockRequest("/api/admin/audit/chain") as never)).status).toBe(404);
+  });
+});
@@ -64,13 +64,26 @@ mock.module("@/lib/audit", () => ({
   // sanitizer's behavior is covered end-to-end by tests/security/audit-redaction.test.ts, so this
   // file only needs to assert that the route wires the buffer correctly.
   sanitizeAuditInput: mock((event: Record<string, unknown>) => event),
+  // Not called by this route; modules it imports emit through it.
+  emitAuditEvent: mock(() => ({})),
   AuditRingBuffer: class {},
   loadAuditFromStorage: mock(() => []),
   saveAuditToStorage: mock(() => {}),
 }));
 
+// ─── Mock the storage provider the durable store is read from ───────────────
+const mockQueryAuditEvents = mock(async (_query: Record<string, unknown>) => ({
+  events: [{ seq: 9, event: mockEvents[1], prevHash: "p", hash: "h" }],
+  total: 240,
+}));
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => ({ queryAuditEvents: mockQueryAuditEvents }),
+}));
+
 // ─── Import route handler AFTER mocking ─────────────────────────────────────
 const { GET, POST } = await import("@/app/api/admin/audit/route");
+const { setRunningAuditStore } = await import("@/lib/audit-store/health");
+const STORE_KEY = Symbol.for("libredb-studio.audit-store");
 
 // ─── Tests ──────────────────────────────────────────────────────────────────
 describe("/api/admin/audit", () => {
@@ -119,6 +132,59 @@ describe("/api/admin/audit", () => {
       expect(data.events).toBeArray();
     });
 
+    test("pages the buffer newest first when no store runs", async () => {
+      const res = await GET(createMockRequest("/api/admin/audit?limit=1&offset=1"));
+      const data = await parseResponseJSON<{ events: AuditEvent[]; total: number; source: string; store: null }>(res);
+
+      expect(data.events.map((e) => e.id)).toEqual(["evt-1"]);
+      expect(data).toMatchObject({ total: 2, source: "memory", store: null });
+    });
+
+    test("filters the buffer by user, reason and time range", async () => {
+      await GET(createMockRequest("/api/admin/audit?user=ana&reason=no_session&until=2026-02-15"));
+
+      expect(mockBuffer.filter).toHaveBeenCalledWith({
+        user: "ana",
+        reason: "no_session",
+        until: "2026-02-15T00:00:00.000Z",
+      });
+    });
+
+    test("rejects a filter it cannot use", async () => {
+      const res = await GET(createMockRequest("/api/admin/audit?since=last-tuesday"));
+
+      expect(res.status).toBe(400);
+      expect((await parseResponseJSON<{ error: string }>(res)).error).toContain("since");
+    });
+
+    test("reads the durable store when this process keeps one", async () => {
+      setRunningAuditStore({
+        health: () => ({ status: "healthy", stored: 3, pending: 0, dropped: 0, failures: 0 }),
+      } as never);
+      try {
+        const res = await GET(createMockRequest("/api/admin/audit?type=query_execution&connection=prod&offset=100"));
+        const data = await parseResponseJSON<{
+          events: AuditEvent[];
+          total: number;
+          source: string;
+          store: { stored: number };
+        }>(res);
+
+        expect(data.events.map((e) => e.id)).toEqual(["evt-2"]);
+        expect(data).toMatchObject({ total: 240, offset: 100, limit: 100, source: "store", store: { stored: 3 } });
+        expect(mockQueryAuditEvents.mock.calls.at(-1)?.[0]).toMatchObject({
+          type: "query_execution",
+          connectionName: "prod",
+          order: "newest",
+          limit: 100,
+          offset: 100,
+        });
+        expect(mockBuffer.getRecent).not.toHaveBeenCalled();
+      } finally {
+        delete (globalThis as Record<symbol, unknown>)[STORE_KEY];
+      }
+    });
+
     test("returns 500 when buffer read fails", async () => {
       mockBuffer.getRecent.mockImplementationOnce(() => {
         throw new Error("Buffer read failed");
@@ -0,0 +1,340 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { NextRequest } from "next/server";
+import { createMockProvider } from "../../helpers/mock-provider";
+import { clearRateLimitState } from "@/lib/api/rate-limit";
+import * as dbErrors from "@/lib/db/errors";
+import { CHANGE_REQUESTS_OWNER } from "@/lib/change-requests/store";
+import type { ChangeRequest } from "@/lib/change-requests/types";
+
+// ─── Server storage, in memory ──────────────────────────────────────────────
+let userStore = new Map<string, unknown>();
+const key = (userId: string, collection: string) => `${userId}/${collection}`;
+const storage = {
+  getCollection: async (userId: string, collection: string) => userStore.get(key(userId, collection)) ?? null,
+  setCollection: async (userId: string, collection: string, data: unknown) => {
+    userStore.set(key(userId, collection), data);
+  },
+  updateCollection: async (userId: string, collection: string, update: (current: unknown) => unknown) => {
+    userStore.set(key(userId, collection), update(userStore.get(key(userId, collection)) ?? null));
+  },
+};
+let storageEnabled = true;
+
+let mockSession: { username: string; role: string } | null = { username: "ana", role: "user" };
+
+const auditEvents: Record<string, unknown>[] = [];
+const mockProvider = createMockProvider({
+  prepareQueryResult: { query: "DELETE FROM users WHERE id = $1", wasLimited: false, limit: 0, offset: 0 },
+  queryResult: { rows: [], fields: [], rowCount: 3, executionTime: 7 },
+});
+
+// ─── Mock dependencies BEFORE importing the routes ──────────────────────────
+mock.module("@/lib/auth", () => ({
+  getSession: async () => mockSession,
+  signJWT: mock(async () => "mock-token"),
+  verifyJWT: mock(async () => null),
+  login: mock(async () => {}),
+  logout: mock(async () => {}),
+}));
+
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => (storageEnabled ? storage : null),
+}));
+
+// Other suites in this process resolve every request to a fixture connection of
+// their own; these requests carry the connection they target, write policy and all.
+mock.module("@/lib/seed/resolve-connection", () => {
+  class SeedConnectionError extends Error {
+    constructor(
+      message: string,
+      public statusCode: number,
+    ) {
+      super(message);
+      this.name = "SeedConnectionError";
+    }
+  }
+  return {
+    resolveConnection: mock(async (body: Record<string, unknown>) => body.connection),
+    SeedConnectionError,
+  };
+});
+
+mock.module("@/lib/audit", () => ({
+  getServerAuditBuffer: () => ({ push: () => {} }),
+  emitAuditEvent: (event: Record<string, unknown>) => {
+    auditEvents.push(event);
+    return event;
+  },
+  AuditRingBuffer: class {},
+  loadAuditFromStorage: () => [],
+  saveAuditToStorage: () => {},
+}));
+
+mock.module("@/lib/db", () => ({
+  ...dbErrors,
+  getOrCreateProvider: mock(async () => mockProvider),
+  createDatabaseProvider: mock(async () => mockProvider),
+  removeProvider: mock(async () => {}),
+  clearProviderCache: mock(async () => {}),
+  getProviderCacheStats: mock(() => ({ size: 0, connections: [] })),
+}));
+
+const submitRoute = await import("@/app/api/db/change-requests/route");
+const queueRoute = await import("@/app/api/admin/change-requests/route");
+const queryRoute = await import("@/app/api/db/query/route");
+const { recoverChangeRequestsAtBoot } = await import("@/lib/change-requests/recover");
+const { INTERRUPTED_ERROR } = await import("@/lib/change-requests/store");
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+function request(url: string, method = "GET", body?: unknown) {
+  return new NextRequest(`http://localhost:3000${url}`, {
+    method,
+    ...(body === undefined ? {} : { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }),
+  });
+}
+
+const prod = {
+  id: "own-1",
+  name: "Prod",
+  type: "postgres",
+  host: "db",
+  database: "app",
+  password: "s3cret",
+  writePolicy: "approval",
+};
+
+const submit = (body: Record<string, unknown> = {}) =>
+  submitRoute.POST(
+    request("/api/db/change-requests", "POST", {
+      sql: "DELETE FROM users WHERE id = $1",
+      params: [7],
+      connection: prod,
+      ...body,
+    }),
+  );
+
+const decide = (id: string, decision: string) =>
+  queueRoute.POST(request("/api/admin/change-requests", "POST", { id, decision }));
+
+const stored = () => (userStore.get(key(CHANGE_REQUESTS_OWNER, "change_requests")) ?? []) as ChangeRequest[];
+
+async function submitAsAna(): Promise<string> {
+  mockSession = { username: "ana", role: "user" };
+  const { request: submitted } = await (await submit()).json();
+  mockSession = { username: "root", role: "admin" };
+  auditEvents.length = 0;
+  return submitted.id;
+}
+
+beforeEach(() => {
+  userStore = new Map();
+  storageEnabled = true;
+  mockSession = { username: "ana", role: "user" };
+  auditEvents.length = 0;
+  (mockProvider.query as ReturnType<typeof mock>).mockClear();
+  clearRateLimitState();
+});
+
+afterEach(() => {
+  clearRateLimitState();
+});
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("POST /api/db/change-requests", () => {
+  test("queues the statement with its preview and connection, runs nothing, and records the requester", async () => {
+    const res = await submit();
+
+    expect(res.status).toBe(200);
+    const { request: submitted } = await res.json();
+    expect(submitted).toMatchObject({
+      sql: "DELETE FROM users WHERE id = $1",
+      preview: "DELETE FROM users WHERE id = $1",
+      params: [7],
+      permission: "write",
+      connectionName: "Prod",
+      requestedBy: "ana",
+      status: "pending",
+    });
+    // The connection and its password stay on the server.
+    expect(submitted.connection).toBeUndefined();
+    expect(stored()[0].connection?.password).toBe("s3cret");
+    expect(mockProvider.query).not.toHaveBeenCalled();
+    expect(auditEvents).toEqual([
+      expect.objectContaining({ type: "change_request", action: "submit", user: "ana", correlationId: submitted.id }),
+    ]);
+  });
+
+  test("refuses what needs no approval: a read, or a connection whose writes are not reviewed", async () => {
+    expect((await submit({ sql: "SELECT * FROM users" })).status).toBe(400);
+    expect((await submit({ connection: { ...prod, writePolicy: "read-write" } })).status).toBe(400);
+    expect((await submit({ sql: "DELETE FROM a; DELETE FROM b;" })).status).toBe(400);
+    expect(stored()).toEqual([]);
+  });
+
+  test("answers 404 without server storage", async () => {
+    storageEnabled = false;
+    expect((await submit()).status).toBe(404);
+  });
+
+  test("the query route still refuses the write itself", async () => {
+    const res = await queryRoute.POST(request("/api/db/query", "POST", { sql: "DELETE FROM users", connection: prod }));
+    expect(res.status).toBe(403);
+    expect((await res.json()).details).toEqual({ reason: "APPROVAL_REQUIRED" });
+  });
+});
+
+describe("/api/admin/change-requests", () => {
+  test("another admin approves: the preview runs on the server, and both people are in linked events", async () => {
+    const id = await submitAsAna();
+
+    const res = await decide(id, "approve");
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).request).toMatchObject({ status: "executed", reviewedBy: "root", rowCount: 3 });
+    expect(mockProvider.query).toHaveBeenCalledWith("DELETE FROM users WHERE id = $1", [7]);
+    expect(stored()[0].status).toBe("executed");
+    expect(auditEvents.map((e) => [e.action, e.user, e.correlationId, e.result])).toEqual([
+      ["approve", "root", id, "success"],
+      ["execute", "root", id, "success"],
+    ]);
+  });
+
+  test("the request is stored as executing before its statement runs", async () => {
+    const id = await submitAsAna();
+    let statusWhileRunning: string | undefined;
+    (mockProvider.query as ReturnType<typeof mock>).mockImplementationOnce(async () => {
+      statusWhileRunning = stored()[0].status;
+      return { rows: [], fields: [], rowCount: 1, executionTime: 1 };
+    });
+
+    await decide(id, "approve");
+
+    expect(statusWhileRunning).toBe("executing");
+    expect(stored()[0].status).toBe("executed");
+  });
+
+  test("runs the preview in a transaction where the engine has one, and rolls it back when it fails", async () => {
+    const handle = {
+      query: mock(async () => ({ rows: [], fields: [], rowCount: 2, executionTime: 4 })),
+      commit: mock(async () => {}),
+      rollback: mock(async () => {}),
+    };
+    const transactional = mockProvider as typeof mockProvider & { openTransaction?: () => Promise<typeof handle> };
+    transactional.openTransaction = mock(async () => handle);
+    try {
+      const id = await submitAsAna();
+      const res = await decide(id, "approve");
+
+      expect((await res.json()).request).toMatchObject({ status: "executed", rowCount: 2 });
+      expect(handle.query).toHaveBeenCalledWith("DELETE FROM users WHERE id = $1", [7]);
+      expect(handle.commit).toHaveBeenCalledTimes(1);
+      expect(mockProvider.query).not.toHaveBeenCalled();
+
+      handle.query.mockImplementationOnce(async () => {
+        throw new Error("deadlock detected");
+      });
+      const failing = await submitAsAna();
+      const failed = await decide(failing, "approve");
+
+      expect((await failed.json()).request).toMatchObject({ status: "failed", error: "deadlock detected" });
+      expect(handle.rollback).toHaveBeenCalledTimes(1);
+    } finally {
+      delete transactional.openTransaction;
+    }
+  });
+
+  test("a request left executing by a stopped server is failed at boot, never run again", async () => {
+    const id = await submitAsAna();
+    userStore.set(
+      key(CHANGE_REQUESTS_OWNER, "change_requests"),
+      stored().map((r) => ({ ...r, status: "executing", reviewedBy: "root" })),
+    );
+
+    await recoverChangeRequestsAtBoot();
+
+    expect(stored()[0]).toMatchObject({ status: "failed", error: INTERRUPTED_ERROR });
+    expect(auditEvents).toEqual([
+      expect.objectContaining({ action: "execute", user: "root", correlationId: id, result: "failure" }),
+    ]);
+    expect((await decide(id, "approve")).status).toBe(409);
+    expect(mockProvider.query).not.toHaveBeenCalled();
+  });
+
+  test("a rejection runs nothing", async () => {
+    const id = await submitAsAna();
+
+    const res = await decide(id, "reject");
+
+    expect((await res.json()).request.status).toBe("rejected");
+    expect(mockProvider.query).not.toHaveBeenCalled();
+    expect(auditEvents.map((e) => e.action)).toEqual(["reject"]);
+  });
+
+  test("nobody decides their own request, and the attempt is recorded", async () => {
+    mockSession = { username: "root", role: "admin" };
+    const { request: submitted } = await (await submit()).json();
+    auditEvents.length = 0;
+
+    const res = await decide(submitted.id, "approve");
+
+    expect(res.status).toBe(403);
+    expect(mockProvider.query).not.toHaveBeenCalled();
+    expect(stored()[0].status).toBe("pending");
+    expect(auditEvents).toEqual([
+      expect.objectContaining({ type: "permission_denied", reason: "self_approval", correlationId: submitted.id }),
+    ]);
+  });
+
+  test("a request is decided once", async () => {
+    const id = await submitAsAna();
+    await decide(id, "approve");
+
+    const again = await decide(id, "approve");
+
+    expect(again.status).toBe(409);
+    expect(mockProvider.query).toHaveBeenCalledTimes(1);
+  });
+
+  test("a statement the database refuses leaves a failed request with its error", async () => {
+    const id = await submitAsAna();
+    (mockProvider.query as ReturnType<typeof mock>).mockImplementationOnce(async () => {
+      throw new Error('relation "users" does not exist');
+    });
+
+    const res = await decide(id, "approve");
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).request).toMatchObject({ status: "failed", error: 'relation "users" does not exist' });
+    expect(auditEvents.at(-1)).toMatchObject({ action: "execute", result: "failure" });
+  });
+
+  test("lists pending requests first, without the connections they carry", async () => {
+    const first = await submitAsAna();
+    await decide(first, "reject");
+    const second = await submitAsAna();
+
+    const res = await queueRoute.GET(request("/api/admin/change-requests"));
+
+    const { requests } = await res.json();
+    expect(requests.map((r: ChangeRequest) => [r.id, r.status])).toEqual([
+      [second, "pending"],
+      [first, "rejected"],
+    ]);
+    expect(requests.every((r: ChangeRequest) => r.connection === undefined)).toBe(true);
+  });
+
+  test("is admin only", async () => {
+    const id = await submitAsAna();
+    mockSession = { username: "bob", role: "user" };
+
+    expect((await queueRoute.GET(request("/api/admin/change-requests"))).status).toBe(403);
+    expect((await decide(id, "approve")).status).toBe(403);
+  });
+
+  test("rejects a decision that is neither approve nor reject", async () => {
+    mockSession = { username: "root", role: "admin" };
+    expect((await decide("cr_x", "maybe")).status).toBe(400);
+    expect((await decide("cr_x", "approve")).status).toBe(404);
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { NextRequest } from "next/server";
+import { createMockProvider } from "../../helpers/mock-provider";
+import { clearRateLimitState } from "@/lib/api/rate-limit";
+import * as dbErrors from "@/lib/db/errors";
+import { MASKING_POLICY_OWNER } from "@/lib/masking/store";
+import type { MaskingPolicy } from "@/lib/masking/types";
+
+// ─── Server storage, in memory ──────────────────────────────────────────────
+let userStore = new Map<string, unknown>();
+const key = (userId: string, collection: string) => `${userId}/${collection}`;
+const storage = {
+  getCollection: async (userId: string, collection: string) => userStore.get(key(userId, collection)) ?? null,
+  setCollection: async (userId: string, collection: string, data: unknown) => {
+    userStore.set(key(userId, collection), data);
+  },
+};
+let storageEnabled = true;
+
+let mockSession: { username: string; role: string } | null = { username: "admin@libredb.org", role: "admin" };
+
+const auditEvents: Record<string, unknown>[] = [];
+const mockProvider = createMockProvider();
+
+// ─── Mock dependencies BEFORE importing the routes ──────────────────────────
+mock.module("@/lib/auth", () => ({
+  getSession: async () => mockSession,
+  signJWT: mock(async () => "mock-token"),
+  verifyJWT: mock(async () => null),
+  login: mock(async () => {}),
+  logout: mock(async () => {}),
+}));
+
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => (storageEnabled ? storage : null),
+}));
+
+mock.module("@/lib/audit", () => ({
+  getServerAuditBuffer: () => ({ push: () => {} }),
+  emitAuditEvent: (event: Record<string, unknown>) => {
+    auditEvents.push(event);
+    return event;
+  },
+  AuditRingBuffer: class {},
+  loadAuditFromStorage: () => [],
+  saveAuditToStorage: () => {},
+}));
+
+mock.module("@/lib/db", () => ({
+  ...dbErrors,
+  getOrCreateProvider: mock(async () => mockProvider),
+  createDatabaseProvider: mock(async () => mockProvider),
+  removeProvider: mock(async () => {}),
+  clearProviderCache: mock(async () => {}),
+  getProviderCacheStats: mock(() => ({ size: 0, connections: [] })),
+}));
+
+const policyRoute = await import("@/app/api/admin/masking-policy/route");
+const queryRoute = await import("@/app/api/db/query/route");
+const revealRoute = await import("@/app/api/db/reveal/route");
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+function request(url: string, method = "GET", body?: unknown) {
+  return new NextRequest(`http://localhost:3000${url}`, {
+    method,
+    ...(body === undefined ? {} : { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }),
+  });
+}
+
+const ownConnection = { id: "own-1", name: "Own DB", type: "postgres", host: "localhost", database: "app" };
+
+const people = [
+  { id: 1, national_code: "8801011234", email: "ada@example.com" },
+  { id: 2, national_code: "9002029876", email: "alan@example.com" },
+];
+
+const policy = (overrides: Partial<MaskingPolicy> = {}) => ({
+  enabled: true,
+  patterns: [
+    {
+      id: "email",
+      name: "Email",
+      columnPatterns: ["email"],
+      maskType: "email",
+      enabled: true,
+      isBuiltin: true,
+    },
+  ],
+  rules: [{ connection: "*", table: "people", column: "national_code", maskType: "full" }],
+  ...overrides,
+});
+
+const savePolicy = (body: unknown) => policyRoute.PUT(request("/api/admin/masking-policy", "PUT", body));
+
+const runQuery = (sql: string) => queryRoute.POST(request("/api/db/query", "POST", { sql, connection: ownConnection }));
+
+const reveal = (body: Record<string, unknown>) =>
+  revealRoute.POST(request("/api/db/reveal", "POST", { connection: ownConnection, ...body }));
+
+beforeEach(() => {
+  userStore = new Map();
+  storageEnabled = true;
+  mockSession = { username: "admin@libredb.org", role: "admin" };
+  auditEvents.length = 0;
+  clearRateLimitState();
+  (mockProvider.query as ReturnType<typeof mock>).mockImplementation(async () => ({
+    rows: people.map((row) => ({ ...row })),
+    fields: ["id", "national_code", "email"],
+    rowCount: people.length,
+    executionTime: 1,
+  }));
+});
+
+afterEach(() => {
+  clearRateLimitState();
+});
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("/api/admin/masking-policy", () => {
+  test("answers the built-in policy until one is saved", async () => {
+    const res = await policyRoute.GET();
+    expect(res.status).toBe(200);
+    const data = await res.json();
+    expect(data.policy.enabled).toBe(true);
+    expect(data.policy.rules).toEqual([]);
+    expect(data.policy.patterns.length).toBeGreaterThan(0);
+    expect(data.editable).toBe(true);
+  });
+
+  test("an admin saves a policy, and it is audited", async () => {
+    const res = await savePolicy(policy());
+    expect(res.status).toBe(200);
+    const stored = userStore.get(key(MASKING_POLICY_OWNER, "masking_policy")) as MaskingPolicy;
+    expect(stored.rules).toEqual(policy().rules as MaskingPolicy["rules"]);
+    expect(stored.updatedBy).toBe("admin@libredb.org");
+    expect(auditEvents.map((e) => [e.type, e.action])).toEqual([["masking_policy", "update"]]);
+  });
+
+  test("rejects an invalid policy with 400", async () => {
+    const res = await savePolicy(
+      policy({ rules: [{ connection: "*", table: "people", column: "", maskType: "full" }] }),
+    );
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("rules[0].column");
+  });
+
+  test("is an admin's alone", async () => {
+    mockSession = { username: "bob", role: "user" };
+    expect((await policyRoute.GET()).status).toBe(403);
+    expect((await savePolicy(policy())).status).toBe(403);
+  });
+
+  test("without server storage the built-in policy is shown and cannot be replaced", async () => {
+    storageEnabled = false;
+    const data = await (await policyRoute.GET()).json();
+    expect(data.editable).toBe(false);
+    expect((await savePolicy(policy())).status).toBe(404);
+  });
+});
+
+describe("POST /api/db/query under the masking policy", () => {
+  test("masks a rule's column and a pattern's before the rows leave the server", async () => {
+    await savePolicy(policy());
+
+    const data = await (await runQuery("SELECT * FROM people")).json();
+
+    expect(data.rows[0].national_code).not.toBe("8801011234");
+    expect(data.rows[0].email).not.toBe("ada@example.com");
+    expect(data.rows[0].id).toBe(1);
+    expect(data.masking).toEqual({ columns: ["national_code", "email"], canReveal: true });
+  });
+
+  test("a rule applies only to a statement that names its table", async () => {
+    await savePolicy(policy());
+
+    const data = await (await runQuery("SELECT * FROM visitors")).json();
+
+    expect(data.rows[0].national_code).toBe("8801011234");
+    expect(data.masking.columns).toEqual(["email"]);
+  });
+
+  test("a policy switched off masks nothing", async () => {
+    await savePolicy(policy({ enabled: false }));
+
+    const data = await (await runQuery("SELECT * FROM people")).json();
+
+    expect(data.rows).toEqual(people);
+    expect(data.masking).toEqual({ columns: [], canReveal: false });
+  });
+
+  test("a token rule masks a value the same way in every row it appears in", async () => {
+    await savePolicy(policy({ rules: [{ connection: "*", table: "*", column: "national_code", maskType: "token" }] }));
+    (mockProvider.query as ReturnType<typeof mock>).mockImplementation(async () => ({
+      rows: [people[0], people[1], { ...people[0], id: 3 }],
+      fields: ["id", "national_code", "email"],
+      rowCount: 3,
+      executionTime: 1,
+    }));
+
+    const { rows } = await (await runQuery("SELECT * FROM people")).json();
+
+    expect(rows[0].national_code).toMatch(/^tok_[0-9a-f]{16}$/);
+    expect(rows[2].national_code).toBe(rows[0].national_code);
+    expect(rows[1].national_code).not.toBe(rows[0].national_code);
+  });
+
+  test("tells a caller without unmask that nothing can be revealed", async () => {
+    await savePolicy(policy());
+    mockSession = { username: "bob", role: "user" };
+
+    const data = await (await runQuery("SELECT * FROM people")).json();
+
+    expect(data.masking.canReveal).toBe(false);
+  });
+});
+
+describe("POST /api/db/reveal", () => {
+  test("answers one masked value, and records that it was read", async () => {
+    await savePolicy(policy());
+    auditEvents.length = 0;
+
+    const res = await reveal({ sql: "SELECT * FROM people", row: 0, column: "national_code" });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ value: "8801011234" });
+    expect(auditEvents).toHaveLength(1);
+    expect(auditEvents[0]).toMatchObject({
+      type: "data_unmasked",
+      action: "reveal",
+      user: "admin@libredb.org",
+      details: "column national_code, row 0",
+    });
+    expect(JSON.stringify(auditEvents[0])).not.toContain("8801011234");
+  });
+
+  test("is refused to a caller without unmask", async () => {
+    mockSession = { username: "bob", role: "user" };
+
+    const res = await reveal({ sql: "SELECT * FROM people", row: 0, column: "email" });
+
+    expect(res.status).toBe(403);
+    expect(auditEvents.some((e) => e.type === "data_unmasked")).toBe(false);
+  });
+
+  test("reveals nothing the policy does not mask", async () => {
+    const res = await reveal({ sql: "SELECT * FROM people", row: 0, column: "id" });
+    expect(res.status).toBe(400);
+  });
+
+  test("runs only a statement that reads", async () => {
+    const res = await reveal({ sql: "DELETE FROM people RETURNING *", row: 0, column: "email" });
+    expect(res.status).toBe(400);
+    expect(mockProvider.query).not.toHaveBeenCalledWith("DELETE FROM people RETURNING * LIMIT 50", undefined);
+  });
+
+  test("rejects a row that is not an index", async () => {
+    const res = await reveal({ sql: "SELECT * FROM people", row: -1, column: "email" });
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import { createMockRequest, parseResponseJSON } from "../../helpers/mock-next";
+import { clearRateLimitState } from "@/lib/api/rate-limit";
+import type { DatabaseProvider } from "@/lib/db/types";
+
+// ─── Mocks ──────────────────────────────────────────────────────────────────
+const mockGetSession = mock(
+  async (): Promise<{ role: string; username: string } | null> => ({ role: "admin", username: "admin" }),
+);
+const mockAuditPush = mock((_event: Record<string, unknown>) => {});
+
+// ─── Mock @/lib/auth and @/lib/audit BEFORE importing the route ─────────────
+mock.module("@/lib/auth", () => ({
+  getSession: mockGetSession,
+  signJWT: mock(async () => "mock-token"),
+  verifyJWT: mock(async () => null),
+  login: mock(async () => {}),
+  logout: mock(async () => {}),
+}));
+
+mock.module("@/lib/audit", () => ({
+  getServerAuditBuffer: () => ({ push: mockAuditPush }),
+  emitAuditEvent: (event: Record<string, unknown>) => mockAuditPush(event),
+  AuditRingBuffer: class {},
+  loadAuditFromStorage: () => [],
+  saveAuditToStorage: () => {},
+}));
+
+// ─── Import route handler AFTER mocking ─────────────────────────────────────
+const { GET, POST } = await import("@/app/api/admin/transactions/route");
+const { beginTransaction, clearTransactions, listTransactions } = await import("@/lib/db/transactions");
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+const rollback = mock(async () => {});
+
+const provider = {
+  type: "postgres",
+  openTransaction: async () => ({
+    query: mock(async () => ({ rows: [], fields: [], rowCount: 0, executionTime: 0 })),
+    commit: mock(async () => {}),
+    rollback,
+  }),
+} as unknown as DatabaseProvider;
+
+async function openOne() {
+  return beginTransaction(provider, {
+    sessionId: "alice-1",
+    username: "alice",
+    connectionId: "conn-1",
+    connectionName: "Production DB",
+    tabId: "tab-1",
+    tabName: "Cleanup",
+  });
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+describe("/api/admin/transactions", () => {
+  beforeEach(async () => {
+    clearRateLimitState();
+    await clearTransactions();
+    rollback.mockClear();
+    mockAuditPush.mockClear();
+    mockGetSession.mockClear();
+    mockGetSession.mockImplementation(
+      async (): Promise<{ role: string; username: string } | null> => ({ role: "admin", username: "admin" }),
+    );
+  });
+
+  test("GET lists every user's open transactions as admin", async () => {
+    await openOne();
+
+    const res = await GET(createMockRequest("/api/admin/transactions"));
+    const data = await parseResponseJSON<{ transactions: { username: string; tabName: string }[] }>(res);
+
+    expect(res.status).toBe(200);
+    expect(data.transactions).toHaveLength(1);
+    expect(data.transactions[0]).toMatchObject({ username: "alice", tabName: "Cleanup" });
+  });
+
+  test("GET returns 403 for non-admin user", async () => {
+    mockGetSession.mockResolvedValueOnce({ role: "user", username: "alice" });
+
+    const res = await GET(createMockRequest("/api/admin/transactions"));
+    const data = await parseResponseJSON<{ error: string }>(res);
+
+    expect(res.status).toBe(403);
+    expect(data.error).toContain("Unauthorized");
+  });
+
+  test("POST rolls back a transaction and audits it", async () => {
+    const { id } = await openOne();
+
+    const res = await POST(
+      createMockRequest("/api/admin/transactions", { method: "POST", body: { action: "rollback", id } }),
+    );
+    const data = await parseResponseJSON<{ status: string }>(res);
+
+    expect(res.status).toBe(200);
+    expect(data.status).toBe("rolled_back");
+    expect(rollback).toHaveBeenCalledTimes(1);
+    expect(listTransactions()).toEqual([]);
+    expect(mockAuditPush).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "kill_session",
+        action: "ROLLBACK",
+        target: "alice / Cleanup",
+        connectionName: "Production DB",
+        user: "admin",
+      }),
+    );
+  });
+
+  test("POST returns 404 for a transaction that already ended", async () => {
+    const res = await POST(
+      createMockRequest("/api/admin/transactions", { method: "POST", body: { action: "rollback", id: "gone" } }),
+    );
+
+    expect(res.status).toBe(404);
+    expect(mockAuditPush).not.toHaveBeenCalled();
+  });
+
+  test("POST returns 400 without an id", async () => {
+    const res = await POST(
+      createMockRequest("/api/admin/transactions", { method: "POST", body: { action: "rollback" } }),
+    );
+
+    expect(res.status).toBe(400);
+  });
+
+  test("POST returns 403 for non-admin user", async () => {
+    const { id } = await openOne();
+    mockGetSession.mockResolvedValueOnce({ role: "user", username: "bob" });
+
+    const res = await POST(
+      createMockRequest("/api/admin/transactions", { method: "POST", body: { action: "rollback", id } }),
+    );
+
+    expect(res.status).toBe(403);
+    expect(rollback).not.toHaveBeenCalled();
+  });
+
+  test("returns 401 when no session exists", async () => {
+    mockGetSession.mockResolvedValueOnce(null);
+
+    const res = await GET(createMockRequest("/api/admin/transactions"));
+
+    expect(res.status).toBe(401);
+  });
+});
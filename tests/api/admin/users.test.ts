@@ -0,0 +1,225 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { NextRequest } from "next/server";
+import { clearRateLimitState } from "@/lib/api/rate-limit";
+import type { AccountSummary, LocalAccount } from "@/lib/accounts/types";
+
+// ─── Server storage, in memory ──────────────────────────────────────────────
+let userStore = new Map<string, unknown>();
+const key = (userId: string, collection: string) => `${userId}/${collection}`;
+const storage = {
+  getCollection: async (userId: string, collection: string) => userStore.get(key(userId, collection)) ?? null,
+  setCollection: async (userId: string, collection: string, data: unknown) => {
+    userStore.set(key(userId, collection), data);
+  },
+  updateCollection: async (userId: string, collection: string, update: (current: unknown) => unknown) => {
+    userStore.set(key(userId, collection), update(userStore.get(key(userId, collection)) ?? null));
+  },
+  listCollection: async (collection: string) =>
+    [...userStore.entries()]
+      .filter(([k]) => k.endsWith(`/${collection}`))
+      .map(([k, data]) => ({ userId: k.slice(0, -collection.length - 1), data })),
+};
+let storageEnabled = true;
+
+let mockSession: { username: string; role: string } | null = { username: "admin@libredb.org", role: "admin" };
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+const mockLogin = mock(async (_role: string, _email?: string, _options?: { account?: true }) => {});
+
+// ─── Mock dependencies BEFORE importing the routes ──────────────────────────
+mock.module("@/lib/auth", () => ({
+  getSession: async () => mockSession,
+  signJWT: mock(async () => "mock-token"),
+  verifyJWT: mock(async () => null),
+  login: mockLogin,
+  logout: mock(async () => {}),
+}));
+
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => (storageEnabled ? storage : null),
+}));
+
+const usersRoute = await import("@/app/api/admin/users/route");
+const setupRoute = await import("@/app/api/auth/setup/route");
+const loginRoute = await import("@/app/api/auth/login/route");
+const { isAccountSessionCurrent } = await import("@/lib/accounts/session");
+const { verificationCount } = await import("@/lib/accounts/password");
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+function request(url: string, method = "GET", body?: unknown) {
+  return new NextRequest(`http://localhost:3000${url}`, {
+    method,
+    ...(body === undefined ? {} : { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }),
+  });
+}
+
+const act = (body: Record<string, unknown>) => usersRoute.POST(request("/api/admin/users", "POST", body));
+
+const account = (email: string) => userStore.get(key(email, "local_account")) as LocalAccount | undefined;
+
+/** Invite `email` and return the token of its setup link. */
+async function invite(email: string, role = "user"): Promise<string> {
+  const { setupUrl } = await (await act({ action: "invite", email, role })).json();
+  return new URL(setupUrl).searchParams.get("token")!;
+}
+
+const setPassword = (token: string, password: string) =>
+  setupRoute.POST(request("/api/auth/setup", "POST", { token, password }));
+
+const signIn = (email: string, password: string) =>
+  loginRoute.POST(request("/api/auth/login", "POST", { email, password }));
+
+beforeEach(() => {
+  userStore = new Map();
+  storageEnabled = true;
+  mockSession = { username: "admin@libredb.org", role: "admin" };
+  mockLogin.mockClear();
+  clearRateLimitState();
+});
+
+afterEach(() => {
+  clearRateLimitState();
+});
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+describe("/api/admin/users", () => {
+  test("is admin only, and needs server storage", async () => {
+    mockSession = { username: "bob@example.com", role: "user" };
+    expect((await usersRoute.GET()).status).toBe(403);
+    storageEnabled = false;
+    expect((await usersRoute.GET()).status).toBe(404);
+  });
+
+  test("invites an account with a one-time link, and lists it beside the env accounts", async () => {
+    const res = await act({ action: "invite", email: " Alice@Example.com ", role: "user" });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.user).toMatchObject({ email: "alice@example.com", status: "invited", source: "stored" });
+    expect(body.setupUrl).toMatch(/^http:\/\/localhost:3000\/login\/setup\?token=[\w-]{43}$/);
+
+    // Only the token's hash is kept.
+    const stored = account("alice@example.com")!;
+    expect(JSON.stringify(stored)).not.toContain(new URL(body.setupUrl).searchParams.get("token"));
+    expect(stored.createdBy).toBe("admin@libredb.org");
+
+    const { users } = (await (await usersRoute.GET()).json()) as { users: AccountSummary[] };
+    expect(users.map((u) => [u.email, u.source])).toEqual([
+      ["admin@libredb.org", "environment"],
+      ["user@libredb.org", "environment"],
+      ["alice@example.com", "stored"],
+    ]);
+  });
+
+  test("refuses an env email, an account invited twice, and an unknown account", async () => {
+    const env = await act({ action: "invite", email: "ADMIN@libredb.org", role: "user" });
+    expect(env.status).toBe(400);
+    expect((await env.json()).error).toBe(
+      "admin@libredb.org is set by environment variables and cannot be changed here",
+    );
+
+    await invite("alice@example.com");
+    expect((await act({ action: "invite", email: "alice@example.com", role: "user" })).status).toBe(409);
+    expect((await act({ action: "disable", email: "nobody@example.com" })).status).toBe(404);
+  });
+
+  test("an admin cannot disable or demote their own stored account", async () => {
+    await invite("carol@example.com", "admin");
+    mockSession = { username: "carol@example.com", role: "admin" };
+    const res = await act({ action: "role", email: "carol@example.com", role: "user" });
+    expect(res.status).toBe(400);
+    expect(account("carol@example.com")!.role).toBe("admin");
+  });
+});
+
+describe("/api/auth/setup and sign-in", () => {
+  test("an invite sets a password once, signs in as that account, and the link is then dead", async () => {
+    const token = await invite("alice@example.com");
+
+    const check = await setupRoute.GET(request(`/api/auth/setup?token=${token}`));
+    expect(await check.json()).toEqual({ email: "alice@example.com", purpose: "invite" });
+
+    expect((await setPassword(token, "too short")).status).toBe(400);
+    const res = await setPassword(token, "a long enough password");
+    expect(res.status).toBe(200);
+    expect(mockLogin).toHaveBeenCalledWith("user", "alice@example.com", { account: true });
+    expect(account("alice@example.com")!.setup).toBeNull();
+
+    expect((await setPassword(token, "a long enough password")).status).toBe(404);
+    expect((await setupRoute.GET(request(`/api/auth/setup?token=${token}`))).status).toBe(404);
+  });
+
+  test("a stored account signs in by its email in any case, as itself", async () => {
+    await setPassword(await invite("alice@example.com"), "a long enough password");
+    mockLogin.mockClear();
+
+    const res = await signIn("Alice@Example.com", "a long enough password");
+    expect(res.status).toBe(200);
+    expect(mockLogin).toHaveBeenCalledWith("user", "alice@example.com", { account: true });
+    expect(account("alice@example.com")!.lastLoginAt).toBeDefined();
+
+    expect((await signIn("alice@example.com", "the wrong password!")).status).toBe(401);
+  });
+
+  test("an unknown, a stored and an env email each cost exactly one password hash", async () => {
+    await setPassword(await invite("alice@example.com"), "a long enough password");
+    for (const email of ["nobody@example.com", "alice@example.com", "admin@libredb.org"]) {
+      const before = verificationCount();
+      expect((await signIn(email, "the wrong password!")).status).toBe(401);
+      expect(verificationCount() - before).toBe(1);
+    }
+  });
+
+  test("disable and reset stop the password working, and reset issues a new link", async () => {
+    await setPassword(await invite("alice@example.com"), "a long enough password");
+
+    await act({ action: "disable", email: "alice@example.com" });
+    expect((await signIn("alice@example.com", "a long enough password")).status).toBe(401);
+    await act({ action: "enable", email: "alice@example.com" });
+    expect((await signIn("alice@example.com", "a long enough password")).status).toBe(200);
+
+    const reset = await (await act({ action: "reset", email: "alice@example.com" })).json();
+    expect(reset.user.status).toBe("reset_pending");
+    expect((await signIn("alice@example.com", "a long enough password")).status).toBe(401);
+
+    const token = new URL(reset.setupUrl).searchParams.get("token")!;
+    expect((await setupRoute.GET(request(`/api/auth/setup?token=${token}`))).status).toBe(200);
+    expect((await setPassword(token, "another long password")).status).toBe(200);
+    expect((await signIn("alice@example.com", "another long password")).status).toBe(200);
+  });
+
+  test("a disabled account's link stops working", async () => {
+    const token = await invite("alice@example.com");
+    await act({ action: "disable", email: "alice@example.com" });
+    expect((await setPassword(token, "a long enough password")).status).toBe(404);
+  });
+});
+
+describe("isAccountSessionCurrent", () => {
+  const session = (iat: number) => ({
+    role: "user" as const,
+    username: "alice@example.com",
+    account: true as const,
+    iat,
+  });
+
+  test("holds until the account is disabled, reset or given another role", async () => {
+    await invite("alice@example.com");
+    const issuedAt = Math.floor(Date.now() / 1000) + 1;
+    expect(await isAccountSessionCurrent(session(issuedAt))).toBe(true);
+
+    userStore.set(key("alice@example.com", "local_account"), {
+      ...account("alice@example.com")!,
+      sessionsValidFrom: new Date((issuedAt + 5) * 1000).toISOString(),
+    });
+    expect(await isAccountSessionCurrent(session(issuedAt))).toBe(false);
+    expect(await isAccountSessionCurrent(session(issuedAt + 5))).toBe(true);
+
+    await act({ action: "disable", email: "alice@example.com" });
+    expect(await isAccountSessionCurrent(session(issuedAt + 60))).toBe(false);
+  });
+
+  test("refuses a session whose account is gone, or when storage is off", async () => {
+    expect(await isAccountSessionCurrent(session(Math.floor(Date.now() / 1000)))).toBe(false);
+    storageEnabled = false;
+    expect(await isAccountSessionCurrent(session(Math.floor(Date.now() / 1000)))).toBe(false);
+  });
+});
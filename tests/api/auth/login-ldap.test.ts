@@ -0,0 +1,133 @@
+import { describe, test, expect, mock, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { createMockRequest, parseResponseJSON } from "../../helpers/mock-next";
+import { clearRateLimitState } from "@/lib/api/rate-limit";
+import { type FakeLdapServer, startFakeLdapServer } from "../../helpers/fake-ldap-server";
+
+// ─── Mock @/lib/auth BEFORE importing the route ─────────────────────────────
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+const mockLogin = mock(async (_role: string, _email?: string, _options?: unknown) => {});
+
+mock.module("@/lib/auth", () => ({
+  login: mockLogin,
+  signJWT: mock(async () => "mock-token"),
+  verifyJWT: mock(async () => null),
+  getSession: mock(async () => null),
+  logout: mock(async () => {}),
+}));
+
+const { POST } = await import("@/app/api/auth/login/route");
+
+// ─── A directory ────────────────────────────────────────────────────────────
+const BASE = "dc=example,dc=org";
+let server: FakeLdapServer;
+
+beforeAll(async () => {
+  server = await startFakeLdapServer([
+    {
+      dn: `uid=alice,ou=people,${BASE}`,
+      password: "alice-pass",
+      attributes: { mail: ["alice@example.org"], memberOf: [`cn=admins,ou=groups,${BASE}`] },
+    },
+    { dn: `uid=bob,ou=people,${BASE}`, password: "bob-pass", attributes: {} },
+    // Both set their own mail to the env admin's.
+    { dn: `uid=mallory,ou=people,${BASE}`, password: "mallory-pass", attributes: { mail: ["admin@libredb.org"] } },
+    {
+      dn: `uid=Admin@libredb.org,ou=people,${BASE}`,
+      password: "mallory-pass",
+      attributes: { mail: ["admin@libredb.org"] },
+    },
+  ]);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+const ENV_KEYS = ["NEXT_PUBLIC_AUTH_PROVIDER", "LDAP_URL", "LDAP_USER_DN_TEMPLATE", "LDAP_ADMIN_GROUPS"] as const;
+const envSnapshot: Record<string, string | undefined> = {};
+
+beforeEach(() => {
+  clearRateLimitState();
+  mockLogin.mockClear();
+  server.binds.length = 0;
+  for (const key of ENV_KEYS) envSnapshot[key] = process.env[key];
+  process.env.NEXT_PUBLIC_AUTH_PROVIDER = "ldap";
+  process.env.LDAP_URL = server.url;
+  process.env.LDAP_USER_DN_TEMPLATE = `uid={username},ou=people,${BASE}`;
+  process.env.LDAP_ADMIN_GROUPS = `cn=admins,ou=groups,${BASE}`;
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (envSnapshot[key] === undefined) delete process.env[key];
+    else process.env[key] = envSnapshot[key];
+  }
+});
+
+function attempt(email: string, password: string) {
+  return POST(createMockRequest("/api/auth/login", { method: "POST", body: { email, password } }) as never);
+}
+
+describe("POST /api/auth/login with NEXT_PUBLIC_AUTH_PROVIDER=ldap", () => {
+  test("signs a directory user in under their login name, with the role their groups map to", async () => {
+    const res = await attempt("alice", "alice-pass");
+
+    expect(res.status).toBe(200);
+    expect(await parseResponseJSON<Record<string, unknown>>(res)).toEqual({ success: true, role: "admin" });
+    expect(mockLogin).toHaveBeenCalledWith("admin", "alice", { groups: [] });
+  });
+
+  test("answers a wrong directory password with the same 401 as any other", async () => {
+    const res = await attempt("bob", "wrong");
+
+    expect(res.status).toBe(401);
+    expect(await parseResponseJSON<Record<string, unknown>>(res)).toEqual({
+      success: false,
+      message: "Invalid email or password",
+    });
+    expect(mockLogin).not.toHaveBeenCalled();
+  });
+
+  test("spends the login rate limit on directory failures", async () => {
+    for (let i = 0; i < 5; i++) expect((await attempt("bob", "wrong")).status).toBe(401);
+
+    expect((await attempt("bob", "bob-pass")).status).toBe(429);
+  });
+
+  test("a directory entry's own mail names no one: it signs in as its login", async () => {
+    const res = await attempt("mallory", "mallory-pass");
+
+    expect(res.status).toBe(200);
+    expect(mockLogin).toHaveBeenCalledWith("user", "mallory", { groups: [] });
+  });
+
+  test("a login name that is an env account's in another case is refused like a wrong password", async () => {
+    const res = await attempt("Admin@libredb.org", "mallory-pass");
+
+    expect(res.status).toBe(401);
+    expect(mockLogin).not.toHaveBeenCalled();
+  });
+
+  test("the env admin signs in without asking the directory", async () => {
+    const res = await attempt("admin@libredb.org", "LibreDB.2026");
+
+    expect(res.status).toBe(200);
+    expect(server.binds).toEqual([]);
+  });
+
+  test("an unreachable directory is a 503 that says so", async () => {
+    process.env.LDAP_URL = "ldap://127.0.0.1:1";
+    const res = await attempt("bob", "bob-pass");
+    const data = await parseResponseJSON<{ message: string }>(res);
+
+    expect(res.status).toBe(503);
+    expect(data.message).toContain("directory server could not be reached");
+  });
+
+  test("the local provider never asks the directory", async () => {
+    process.env.NEXT_PUBLIC_AUTH_PROVIDER = "local";
+
+    expect((await attempt("bob", "bob-pass")).status).toBe(401);
+    expect(server.binds).toEqual([]);
+  });
+});
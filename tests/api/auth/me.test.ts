@@ -3,13 +3,14 @@ import { parseResponseJSON } from "../../helpers/mock-next";
 
 // ─── Mock @/lib/auth BEFORE importing the route ─────────────────────────────
 const mockGetSession = mock(async () => null as { role: string; username: string } | null);
+const mockLogout = mock(async () => {});
 
 mock.module("@/lib/auth", () => ({
   login: mock(async () => {}),
   signJWT: mock(async () => "mock-token"),
   verifyJWT: mock(async () => null),
   getSession: mockGetSession,
-  logout: mock(async () => {}),
+  logout: mockLogout,
 }));
 
 // ─── Import route handler AFTER mocking ─────────────────────────────────────
@@ -19,6 +20,7 @@ const { GET } = await import("@/app/api/auth/me/route");
 describe("GET /api/auth/me", () => {
   beforeEach(() => {
     mockGetSession.mockClear();
+    mockLogout.mockClear();
   });
 
   test("returns 200 with authenticated true when session exists", async () => {
@@ -43,6 +45,8 @@ describe("GET /api/auth/me", () => {
 
     expect(res.status).toBe(401);
     expect(data.authenticated).toBe(false);
+    // A refused cookie is dropped, so the proxy stops letting the browser in on its signature alone.
+    expect(mockLogout).toHaveBeenCalledTimes(1);
   });
 
   test("returns admin role session data", async () => {
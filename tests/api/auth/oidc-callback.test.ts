@@ -32,6 +32,11 @@ const mockMapOIDCRole = mock(
   (_claims: Record<string, unknown>, _roleClaim: string, _adminRoles: string[]) => "user" as "admin" | "user",
 );
 
+const mockMapOIDCGroups = mock(
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  (_claims: Record<string, unknown>, _roleClaim: string, _roles: unknown[]) => [] as string[],
+);
+
 const mockGetPublicOrigin = mock((req: Request) => new URL(req.url).origin);
 
 mock.module("@/lib/oidc", () => ({
@@ -42,12 +47,13 @@ mock.module("@/lib/oidc", () => ({
   decryptState: mockDecryptState,
   exchangeCode: mockExchangeCode,
   mapOIDCRole: mockMapOIDCRole,
+  mapOIDCGroups: mockMapOIDCGroups,
   resetDiscoveryCache: mock(() => {}),
   getPublicOrigin: mockGetPublicOrigin,
 }));
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
-const mockLogin = mock(async (_role: string, _username?: string) => {});
+const mockLogin = mock(async (_role: string, _username?: string, _options?: { groups?: string[] }) => {});
 
 mock.module("@/lib/auth", () => ({
   login: mockLogin,
@@ -75,6 +81,13 @@ mock.module("next/headers", () => ({
   headers: mock(async () => ({ get: () => null })),
 }));
 
+// No server storage, so no custom roles: the built-in roles decide every grant.
+// Mocked here rather than left to the real factory, because another file's
+// storage mock is process-wide and would otherwise answer for this one's.
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => null,
+}));
+
 // ─── Import route handler AFTER mocking ─────────────────────────────────────
 
 const { GET } = await import("@/app/api/auth/oidc/callback/route");
@@ -88,6 +101,8 @@ describe("GET /api/auth/oidc/callback", () => {
     mockDiscoverProvider.mockClear();
     mockExchangeCode.mockClear();
     mockMapOIDCRole.mockClear();
+    mockMapOIDCGroups.mockClear();
+    mockMapOIDCGroups.mockReturnValue([]);
     mockLogin.mockClear();
     mockCookieGet.mockClear();
     mockCookieStore.delete.mockClear();
@@ -106,7 +121,7 @@ describe("GET /api/auth/oidc/callback", () => {
 
     expect(mockDecryptState).toHaveBeenCalledWith("encrypted-state-cookie");
     expect(mockExchangeCode).toHaveBeenCalledTimes(1);
-    expect(mockLogin).toHaveBeenCalledWith("user", "user@example.com");
+    expect(mockLogin).toHaveBeenCalledWith("user", "user@example.com", { groups: [] });
     expect(res.status).toBe(307);
     expect(res.headers.get("location")).toContain("/");
   });
@@ -117,7 +132,7 @@ describe("GET /api/auth/oidc/callback", () => {
     const req = new Request("http://localhost:3000/api/auth/oidc/callback?code=auth-code&state=test-state");
     const res = await GET(req);
 
-    expect(mockLogin).toHaveBeenCalledWith("admin", "user@example.com");
+    expect(mockLogin).toHaveBeenCalledWith("admin", "user@example.com", { groups: [] });
     expect(res.headers.get("location")).toContain("/admin");
   });
 
@@ -181,7 +196,7 @@ describe("GET /api/auth/oidc/callback", () => {
     const req = new Request("http://localhost:3000/api/auth/oidc/callback?code=auth-code&state=test-state");
     await GET(req);
 
-    expect(mockLogin).toHaveBeenCalledWith("user", "user-123");
+    expect(mockLogin).toHaveBeenCalledWith("user", "user-123", { groups: [] });
   });
 
   test("passes claims to mapOIDCRole with correct config", async () => {
@@ -194,4 +209,19 @@ describe("GET /api/auth/oidc/callback", () => {
       ["admin"],
     );
   });
+
+  test("carries the role-claim values that confer a custom role into the session", async () => {
+    mockExchangeCode.mockImplementationOnce(async () => ({ ...defaultClaims, roles: ["analysts", "everyone"] }));
+    mockMapOIDCGroups.mockReturnValue(["analysts"]);
+
+    const req = new Request("http://localhost:3000/api/auth/oidc/callback?code=auth-code&state=test-state");
+    await GET(req);
+
+    expect(mockMapOIDCGroups).toHaveBeenCalledWith(
+      expect.objectContaining({ roles: ["analysts", "everyone"] }),
+      "roles",
+      expect.any(Array),
+    );
+    expect(mockLogin).toHaveBeenCalledWith("user", "user@example.com", { groups: ["analysts"] });
+  });
 });
@@ -38,6 +38,7 @@ mock.module("@/lib/oidc", () => ({
   decryptState: mock(async () => ({})),
   exchangeCode: mock(async () => ({})),
   mapOIDCRole: mock(() => "user"),
+  mapOIDCGroups: mock(() => []),
   resetDiscoveryCache: mock(() => {}),
   getPublicOrigin: mockGetPublicOrigin,
 }));
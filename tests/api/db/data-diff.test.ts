@@ -0,0 +1,266 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import { createMockRequest, parseResponseJSON } from "../../helpers/mock-next";
+import { createMockProvider } from "../../helpers/mock-provider";
+import { clearRateLimitState } from "@/lib/api/rate-limit";
+import { QueryError, DatabaseError, mapDatabaseError } from "@/lib/db/errors";
+import type { DataDiffResponse } from "@/lib/data-diff/types";
+import type { DatabaseProvider, QueryBatch } from "@/lib/db/types";
+import type { TableSchema } from "@/lib/types";
+
+// ─── Mock providers ─────────────────────────────────────────────────────────
+const usersSchema: TableSchema[] = [
+  {
+    name: "users",
+    columns: [
+      { name: "id", type: "integer", nullable: false, isPrimary: true },
+      { name: "name", type: "text", nullable: true, isPrimary: false },
+      { name: "email", type: "text", nullable: true, isPrimary: false },
+    ],
+    indexes: [],
+  },
+];
+
+/** Each side streams whatever rows its test put here, and records the statement it ran. */
+const sideRows: Record<"source" | "target", Record<string, unknown>[]> = { source: [], target: [] };
+const statements: Record<"source" | "target", string[]> = { source: [], target: [] };
+
+function sideProvider(side: "source" | "target", type: DatabaseProvider["type"] = "postgres") {
+  const provider = createMockProvider({ type, schema: usersSchema });
+  provider.queryStream = async function* (sql: string): AsyncGenerator<QueryBatch> {
+    statements[side].push(sql);
+    const rows = sideRows[side];
+    yield { rows, fields: Object.keys(rows[0] ?? { id: null, name: null, email: null }) };
+  };
+  return provider;
+}
+
+let providers: Record<string, DatabaseProvider> = {};
+const mockGetOrCreateProvider = mock(async (connection: { id: string }) => providers[connection.id]);
+
+const mockGetSession = mock(
+  async (): Promise<{ role: string; username: string } | null> => ({ role: "admin", username: "alice" }),
+);
+
+// ─── Mock dependencies BEFORE importing route ───────────────────────────────
+mock.module("@/lib/auth", () => ({
+  getSession: mockGetSession,
+  signJWT: mock(async () => "mock-token"),
+  verifyJWT: mock(async () => null),
+  login: mock(async () => {}),
+  logout: mock(async () => {}),
+}));
+
+mock.module("@/lib/seed/resolve-connection", () => {
+  class SeedConnectionError extends Error {
+    constructor(
+      message: string,
+      public statusCode: number,
+    ) {
+      super(message);
+      this.name = "SeedConnectionError";
+    }
+  }
+  return {
+    resolveConnection: mock(async (body: Record<string, unknown>) => {
+      if (!body.connection && !body.connectionId) {
+        throw new SeedConnectionError("Either connection or connectionId is required", 400);
+      }
+      return body.connection;
+    }),
+    SeedConnectionError,
+  };
+});
+
+mock.module("@/lib/audit", () => ({
+  getServerAuditBuffer: () => ({ push: () => {} }),
+  emitAuditEvent: () => {},
+  AuditRingBuffer: class {},
+  loadAuditFromStorage: () => [],
+  saveAuditToStorage: () => {},
+}));
+
+mock.module("@/lib/db", () => ({
+  getOrCreateProvider: mockGetOrCreateProvider,
+  createDatabaseProvider: mock(),
+  removeProvider: mock(async () => {}),
+  clearProviderCache: mock(async () => {}),
+  getProviderCacheStats: mock(() => ({ size: 0, connections: [] })),
+  QueryError,
+  DatabaseError,
+  mapDatabaseError,
+  BaseDatabaseProvider: class {},
+}));
+
+// No server storage, so no custom roles: the built-in roles decide every grant.
+// Mocked here rather than left to the real factory, because another file's
+// storage mock is process-wide and would otherwise answer for this one's.
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => null,
+}));
+
+// ─── Import route handler AFTER mocking ─────────────────────────────────────
+const { POST } = await import("@/app/api/db/data-diff/route");
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+const connection = (id: string, type = "postgres") => ({
+  id,
+  name: id,
+  type,
+  host: "localhost",
+  port: 5432,
+  database: "testdb",
+});
+
+function diffRequest(body: Record<string, unknown>): Request {
+  return createMockRequest("/api/db/data-diff", {
+    method: "POST",
+    body: {
+      source: { connection: connection("src"), table: "users" },
+      target: { connection: connection("dst"), table: "users" },
+      unmask: true,
+      ...body,
+    },
+  });
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+describe("POST /api/db/data-diff", () => {
+  beforeEach(() => {
+    clearRateLimitState();
+    providers = { src: sideProvider("source"), dst: sideProvider("target") };
+    sideRows.source = [
+      { id: 1, name: "Ada", email: "ada@example.com" },
+      { id: 2, name: "Grace", email: "grace@example.com" },
+    ];
+    sideRows.target = [
+      { id: 1, name: "Ada L.", email: "ada@example.com" },
+      { id: 3, name: "Alan", email: "alan@example.com" },
+    ];
+    statements.source = [];
+    statements.target = [];
+    mockGetOrCreateProvider.mockClear();
+    mockGetSession.mockClear();
+  });
+
+  test("returns 401 when no session exists", async () => {
+    mockGetSession.mockResolvedValueOnce(null);
+
+    const res = await POST(diffRequest({}) as never);
+
+    expect(res.status).toBe(401);
+    expect(mockGetOrCreateProvider).not.toHaveBeenCalled();
+  });
+
+  test("refuses a side that names both a table and a query", async () => {
+    const res = await POST(
+      diffRequest({ source: { connection: connection("src"), table: "users", sql: "SELECT 1" } }) as never,
+    );
+
+    expect(res.status).toBe(400);
+  });
+
+  test("refuses a query that does not return rows", async () => {
+    const res = await POST(
+      diffRequest({ source: { connection: connection("src"), sql: "DELETE FROM users" } }) as never,
+    );
+
+    expect(res.status).toBe(400);
+    expect(statements.source).toEqual([]);
+  });
+
+  test("refuses an engine that is not queried in SQL", async () => {
+    providers.dst = createMockProvider({ type: "mongodb", capabilities: { queryLanguage: "json" } });
+
+    const res = await POST(diffRequest({}) as never);
+
+    expect(res.status).toBe(400);
+  });
+
+  test("keys by the target table's primary key and reports every kind of difference", async () => {
+    const res = await POST(diffRequest({}) as never);
+    const data = await parseResponseJSON<DataDiffResponse>(res);
+
+    expect(res.status).toBe(200);
+    expect(data.keyColumns).toEqual(["id"]);
+    expect(data.summary).toEqual({ inserted: 1, deleted: 1, changed: 1, unchanged: 0 });
+    expect(data.rows.find((row) => row.action === "changed")?.changedColumns).toEqual(["name"]);
+    expect(data.truncated).toBe(false);
+    expect(statements.source).toEqual(['SELECT * FROM users ORDER BY "id"']);
+  });
+
+  test("writes the reconciling script in the target's dialect", async () => {
+    providers.dst = sideProvider("target", "mysql");
+
+    const res = await POST(
+      diffRequest({ target: { connection: connection("dst", "mysql"), table: "users" } }) as never,
+    );
+    const data = await parseResponseJSON<DataDiffResponse>(res);
+
+    expect(data.dialect).toBe("mysql");
+    expect(data.script).toContain("START TRANSACTION;");
+    expect(data.script).toContain("DELETE FROM users WHERE `id` = 3;");
+    expect(data.script).toContain("UPDATE users SET `name` = 'Ada' WHERE `id` = 1;");
+    expect(data.scriptUnavailable).toBeNull();
+  });
+
+  test("compares two queries by the key columns the body names", async () => {
+    const res = await POST(
+      diffRequest({
+        source: { connection: connection("src"), sql: "SELECT id, name FROM users" },
+        target: { connection: connection("dst"), sql: "SELECT id, name FROM users_copy" },
+        keyColumns: ["id"],
+      }) as never,
+    );
+    const data = await parseResponseJSON<DataDiffResponse>(res);
+
+    expect(res.status).toBe(200);
+    expect(statements.target).toEqual(["SELECT id, name FROM users_copy"]);
+    expect(data.script).toBeNull();
+    expect(data.scriptUnavailable).toContain("target is a query");
+  });
+
+  test("answers 422 when neither side has a key to match by", async () => {
+    const res = await POST(
+      diffRequest({
+        source: { connection: connection("src"), sql: "SELECT 1 AS id" },
+        target: { connection: connection("dst"), sql: "SELECT 1 AS id" },
+      }) as never,
+    );
+    const data = await parseResponseJSON<{ error: string }>(res);
+
+    expect(res.status).toBe(422);
+    expect(data.error).toContain("primary key");
+  });
+
+  test("answers 422 for a key a side repeats", async () => {
+    sideRows.target = [
+      { id: 1, name: "Ada", email: null },
+      { id: 1, name: "Ada", email: null },
+    ];
+
+    const res = await POST(diffRequest({}) as never);
+
+    expect(res.status).toBe(422);
+  });
+
+  test("masks the rows it returns and withholds the script when a compared column is masked", async () => {
+    mockGetSession.mockResolvedValueOnce({ role: "user", username: "bob" });
+
+    const res = await POST(diffRequest({ unmask: false }) as never);
+    const data = await parseResponseJSON<DataDiffResponse>(res);
+
+    const inserted = data.rows.find((row) => row.action === "inserted");
+    expect(inserted?.source?.email).not.toBe("grace@example.com");
+    expect(inserted?.source?.name).toBe("Grace");
+    expect(data.script).toBeNull();
+    expect(data.scriptUnavailable).toContain("masked");
+  });
+
+  test("refuses unmask to a role that does not hold it", async () => {
+    mockGetSession.mockResolvedValueOnce({ role: "user", username: "bob" });
+
+    const res = await POST(diffRequest({}) as never);
+
+    expect(res.status).toBe(403);
+  });
+});
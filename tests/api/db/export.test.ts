@@ -0,0 +1,300 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import { createMockRequest, parseResponseJSON } from "../../helpers/mock-next";
+import { createMockProvider } from "../../helpers/mock-provider";
+import { clearRateLimitState } from "@/lib/api/rate-limit";
+import {
+  QueryError,
+  TimeoutError,
+  DatabaseError,
+  DatabaseConfigError,
+  ConnectionError,
+  AuthenticationError,
+  PoolExhaustedError,
+  isDatabaseError,
+  isConnectionError,
+  isQueryError,
+  isTimeoutError,
+  isAuthenticationError,
+  isRetryableError,
+  mapDatabaseError,
+} from "@/lib/db/errors";
+
+// ─── Mock provider ──────────────────────────────────────────────────────────
+const mockProvider = createMockProvider();
+const mockGetOrCreateProvider = mock(async () => mockProvider);
+
+const mockGetSession = mock(
+  async (): Promise<{ role: string; username: string } | null> => ({ role: "admin", username: "admin" }),
+);
+
+// ─── Mock auth + seed resolution BEFORE importing route ─────────────────────
+mock.module("@/lib/auth", () => ({
+  getSession: mockGetSession,
+  signJWT: mock(async () => "mock-token"),
+  verifyJWT: mock(async () => null),
+  login: mock(async () => {}),
+  logout: mock(async () => {}),
+}));
+
+mock.module("@/lib/seed/resolve-connection", () => {
+  class SeedConnectionError extends Error {
+    constructor(
+      message: string,
+      public statusCode: number,
+    ) {
+      super(message);
+      this.name = "SeedConnectionError";
+    }
+  }
+  return {
+    resolveConnection: mock(async (body: Record<string, unknown>) => {
+      if (!body.connection && !body.connectionId) {
+        throw new SeedConnectionError("Either connection or connectionId is required", 400);
+      }
+      return body.connection;
+    }),
+    SeedConnectionError,
+  };
+});
+
+// ─── Mock dependencies BEFORE importing route ───────────────────────────────
+mock.module("@/lib/db", () => ({
+  getOrCreateProvider: mockGetOrCreateProvider,
+  createDatabaseProvider: mock(),
+  removeProvider: mock(async () => {}),
+  clearProviderCache: mock(async () => {}),
+  getProviderCacheStats: mock(() => ({ size: 0, connections: [] })),
+  QueryError,
+  TimeoutError,
+  DatabaseError,
+  DatabaseConfigError,
+  ConnectionError,
+  AuthenticationError,
+  PoolExhaustedError,
+  isDatabaseError,
+  isConnectionError,
+  isQueryError,
+  isTimeoutError,
+  isAuthenticationError,
+  isRetryableError,
+  mapDatabaseError,
+  BaseDatabaseProvider: class {},
+}));
+
+// No server storage, so no custom roles: the built-in roles decide every grant.
+// Mocked here rather than left to the real factory, because another file's
+// storage mock is process-wide and would otherwise answer for this one's.
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => null,
+}));
+
+// ─── Import route handler AFTER mocking ─────────────────────────────────────
+const { POST } = await import("@/app/api/db/export/route");
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+const validConnection = {
+  id: "test-1",
+  name: "Test DB",
+  type: "postgres",
+  host: "localhost",
+  port: 5432,
+  database: "testdb",
+};
+
+const rows = [
+  { id: 1, email: "ada@example.com" },
+  { id: 2, email: "alan@example.com" },
+];
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+describe("POST /api/db/export", () => {
+  beforeEach(() => {
+    clearRateLimitState();
+    mockGetOrCreateProvider.mockClear();
+    (mockProvider.query as ReturnType<typeof mock>).mockClear();
+    (mockProvider.query as ReturnType<typeof mock>).mockResolvedValue({
+      rows,
+      fields: ["id", "email"],
+      rowCount: rows.length,
+      executionTime: 1,
+    });
+    mockGetSession.mockClear();
+    mockGetSession.mockImplementation(
+      async (): Promise<{ role: string; username: string } | null> => ({ role: "admin", username: "admin" }),
+    );
+  });
+
+  test("returns 401 when no session exists", async () => {
+    mockGetSession.mockResolvedValueOnce(null);
+
+    const req = createMockRequest("/api/db/export", {
+      method: "POST",
+      body: { connection: validConnection, sql: "SELECT * FROM users", format: "csv" },
+    });
+
+    const res = await POST(req as never);
+
+    expect(res.status).toBe(401);
+  });
+
+  test("streams the whole result as an attachment", async () => {
+    const req = createMockRequest("/api/db/export", {
+      method: "POST",
+      body: {
+        connection: validConnection,
+        sql: "SELECT * FROM users",
+        format: "csv",
+        tabName: "users",
+        unmask: true,
+      },
+    });
+
+    const res = await POST(req as never);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("text/csv;charset=utf-8");
+    expect(res.headers.get("Content-Disposition")).toBe('attachment; filename="query_result_export.csv"');
+    // An admin, who holds `unmask` and asked for it, gets the values as read.
+    expect(await res.text()).toBe("id,email\n1,ada@example.com\n2,alan@example.com");
+  });
+
+  test("accepts the request as a form, which the browser then saves itself", async () => {
+    const payload = JSON.stringify({
+      connection: validConnection,
+      sql: "SELECT * FROM users",
+      format: "csv",
+      unmask: true,
+    });
+    const req = new Request("http://localhost:3000/api/db/export", {
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ payload }),
+    });
+
+    const res = await POST(req as never);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Disposition")).toBe('attachment; filename="query_result_export.csv"');
+    expect(await res.text()).toBe("id,email\n1,ada@example.com\n2,alan@example.com");
+  });
+
+  test("streams NDJSON one row per line", async () => {
+    const req = createMockRequest("/api/db/export", {
+      method: "POST",
+      body: {
+        connection: validConnection,
+        sql: "SELECT * FROM users",
+        format: "ndjson",
+        unmask: true,
+      },
+    });
+
+    const res = await POST(req as never);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/x-ndjson");
+    expect(await res.text()).toBe('{"id":1,"email":"ada@example.com"}\n{"id":2,"email":"alan@example.com"}\n');
+  });
+
+  test("masks the file under the server's policy when unmask is not asked for", async () => {
+    const req = createMockRequest("/api/db/export", {
+      method: "POST",
+      body: {
+        connection: validConnection,
+        sql: "SELECT * FROM users",
+        format: "json",
+        masking: { enabled: false },
+      },
+    });
+
+    const res = await POST(req as never);
+    const text = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(text).not.toContain("ada@example.com");
+  });
+
+  test("refuses unmask to a role that does not hold it", async () => {
+    mockGetSession.mockImplementation(
+      async (): Promise<{ role: string; username: string } | null> => ({ role: "user", username: "user" }),
+    );
+
+    const req = createMockRequest("/api/db/export", {
+      method: "POST",
+      body: { connection: validConnection, sql: "SELECT * FROM users", format: "json", unmask: true },
+    });
+
+    const res = await POST(req as never);
+
+    expect(res.status).toBe(403);
+  });
+
+  test("binds the request's parameters", async () => {
+    const req = createMockRequest("/api/db/export", {
+      method: "POST",
+      body: { connection: validConnection, sql: "SELECT * FROM users WHERE id = $1", params: [7], format: "json" },
+    });
+
+    const res = await POST(req as never);
+    await res.text();
+
+    expect(res.status).toBe(200);
+    expect((mockProvider.query as ReturnType<typeof mock>).mock.calls[0][1]).toEqual([7]);
+  });
+
+  test("returns 400 for an unsupported format", async () => {
+    const req = createMockRequest("/api/db/export", {
+      method: "POST",
+      body: { connection: validConnection, sql: "SELECT * FROM users", format: "sql-ddl" },
+    });
+
+    const res = await POST(req as never);
+    const data = await parseResponseJSON<{ error: string }>(res);
+
+    expect(res.status).toBe(400);
+    expect(data.error).toContain("csv, json, ndjson, markdown, sql-insert");
+    expect(mockProvider.query).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 when sql is missing", async () => {
+    const req = createMockRequest("/api/db/export", {
+      method: "POST",
+      body: { connection: validConnection, format: "csv" },
+    });
+
+    const res = await POST(req as never);
+
+    expect(res.status).toBe(400);
+  });
+
+  test("refuses to re-run a statement that writes", async () => {
+    const req = createMockRequest("/api/db/export", {
+      method: "POST",
+      body: { connection: validConnection, sql: "DELETE FROM users", format: "csv" },
+    });
+
+    const res = await POST(req as never);
+    const data = await parseResponseJSON<{ error: string }>(res);
+
+    expect(res.status).toBe(400);
+    expect(data.error).toContain("returns rows");
+    expect(mockProvider.query).not.toHaveBeenCalled();
+  });
+
+  test("answers with the mapped error status when the engine refuses the statement", async () => {
+    (mockProvider.query as ReturnType<typeof mock>).mockRejectedValueOnce(
+      new QueryError('relation "missing" does not exist'),
+    );
+
+    const req = createMockRequest("/api/db/export", {
+      method: "POST",
+      body: { connection: validConnection, sql: "SELECT * FROM missing", format: "csv" },
+    });
+
+    const res = await POST(req as never);
+    const data = await parseResponseJSON<{ error: string; code: string }>(res);
+
+    expect(res.status).toBe(400);
+    expect(data.code).toBe("QUERY_ERROR");
+  });
+});
@@ -0,0 +1,306 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import { parquetWriteBuffer } from "hyparquet-writer";
+import { parseResponseJSON } from "../../helpers/mock-next";
+import { createMockProvider } from "../../helpers/mock-provider";
+import { clearRateLimitState } from "@/lib/api/rate-limit";
+import { QueryError, DatabaseError, mapDatabaseError } from "@/lib/db/errors";
+import type { DatabaseProvider, TransactionHandle } from "@/lib/db/types";
+
+// ─── Mock provider ──────────────────────────────────────────────────────────
+const mockProvider = createMockProvider() as ReturnType<typeof createMockProvider> & Partial<DatabaseProvider>;
+const mockGetOrCreateProvider = mock(async () => mockProvider);
+
+const txQuery = mock<TransactionHandle["query"]>(async () => ({ rows: [], fields: [], rowCount: 0, executionTime: 1 }));
+const txCommit = mock(async () => {});
+const txRollback = mock(async () => {});
+const mockOpenTransaction = mock(
+  async (): Promise<TransactionHandle> => ({ query: txQuery, commit: txCommit, rollback: txRollback }),
+);
+
+const mockGetSession = mock(
+  async (): Promise<{ role: string; username: string } | null> => ({ role: "admin", username: "admin" }),
+);
+
+// ─── Mock auth + seed resolution BEFORE importing route ─────────────────────
+mock.module("@/lib/auth", () => ({
+  getSession: mockGetSession,
+  signJWT: mock(async () => "mock-token"),
+  verifyJWT: mock(async () => null),
+  login: mock(async () => {}),
+  logout: mock(async () => {}),
+}));
+
+mock.module("@/lib/seed/resolve-connection", () => {
+  class SeedConnectionError extends Error {
+    constructor(
+      message: string,
+      public statusCode: number,
+    ) {
+      super(message);
+      this.name = "SeedConnectionError";
+    }
+  }
+  return {
+    resolveConnection: mock(async (body: Record<string, unknown>) => {
+      if (!body.connection && !body.connectionId) {
+        throw new SeedConnectionError("Either connection or connectionId is required", 400);
+      }
+      return body.connection;
+    }),
+    SeedConnectionError,
+  };
+});
+
+mock.module("@/lib/db", () => ({
+  getOrCreateProvider: mockGetOrCreateProvider,
+  createDatabaseProvider: mock(),
+  removeProvider: mock(async () => {}),
+  clearProviderCache: mock(async () => {}),
+  getProviderCacheStats: mock(() => ({ size: 0, connections: [] })),
+  QueryError,
+  DatabaseError,
+  mapDatabaseError,
+  BaseDatabaseProvider: class {},
+}));
+
+// ─── Import route handler AFTER mocking ─────────────────────────────────────
+const { POST } = await import("@/app/api/db/import/route");
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+const validConnection = {
+  id: "test-1",
+  name: "Test DB",
+  type: "postgres",
+  host: "localhost",
+  port: 5432,
+  database: "testdb",
+};
+
+function importRequest(file: Blob | null, options: Record<string, unknown> | string): Request {
+  const form = new FormData();
+  if (file) form.append("file", file, "upload");
+  form.append("options", typeof options === "string" ? options : JSON.stringify(options));
+  return new Request("http://localhost:3000/api/db/import", { method: "POST", body: form });
+}
+
+function csvFile(rowCount: number): Blob {
+  const lines = Array.from({ length: rowCount }, (_, i) => `${i + 1},user${i + 1}`);
+  return new Blob([`id,name\n${lines.join("\n")}`]);
+}
+
+const baseOptions = { connection: validConnection, format: "csv", table: "people" };
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+describe("POST /api/db/import", () => {
+  beforeEach(() => {
+    clearRateLimitState();
+    mockGetOrCreateProvider.mockClear();
+    (mockProvider.query as ReturnType<typeof mock>).mockClear();
+    mockProvider.openTransaction = mockOpenTransaction;
+    mockOpenTransaction.mockClear();
+    txQuery.mockClear();
+    txQuery.mockImplementation(async () => ({ rows: [], fields: [], rowCount: 0, executionTime: 1 }));
+    txCommit.mockClear();
+    txRollback.mockClear();
+    mockGetSession.mockClear();
+    mockGetSession.mockImplementation(
+      async (): Promise<{ role: string; username: string } | null> => ({ role: "admin", username: "admin" }),
+    );
+  });
+
+  test("returns 401 when no session exists", async () => {
+    mockGetSession.mockResolvedValueOnce(null);
+
+    const res = await POST(importRequest(csvFile(1), baseOptions) as never);
+
+    expect(res.status).toBe(401);
+    expect(mockGetOrCreateProvider).not.toHaveBeenCalled();
+  });
+
+  test("inserts every row with bound values inside one transaction", async () => {
+    const res = await POST(importRequest(csvFile(3), baseOptions) as never);
+    const data = await parseResponseJSON<{ rowsInserted: number; batches: number; atomic: boolean }>(res);
+
+    expect(res.status).toBe(200);
+    expect(data).toEqual({ rowsInserted: 3, batches: 1, atomic: true });
+    expect(txQuery).toHaveBeenCalledTimes(1);
+    expect(txQuery.mock.calls[0][0]).toBe(
+      "INSERT INTO people (id, name)\nVALUES\n  ($1, $2),\n  ($3, $4),\n  ($5, $6)",
+    );
+    expect(txQuery.mock.calls[0][1]).toEqual(["1", "user1", "2", "user2", "3", "user3"]);
+    expect(txCommit).toHaveBeenCalledTimes(1);
+    expect(mockProvider.query).not.toHaveBeenCalled();
+  });
+
+  test("splits a large file into batches under the bind limit", async () => {
+    const res = await POST(importRequest(csvFile(1200), baseOptions) as never);
+    const data = await parseResponseJSON<{ rowsInserted: number; batches: number }>(res);
+
+    expect(data.rowsInserted).toBe(1200);
+    // Two columns → 499 rows per statement.
+    expect(data.batches).toBe(3);
+    expect(txQuery.mock.calls.every(([, params]) => (params?.length ?? 0) <= 999)).toBe(true);
+  });
+
+  test("creates the table first, with the types the caller chose and mapped names", async () => {
+    const res = await POST(
+      importRequest(csvFile(1), {
+        ...baseOptions,
+        createTable: true,
+        columnMapping: { name: "username" },
+        columnTypes: ["INTEGER", "TEXT"],
+      }) as never,
+    );
+
+    expect(res.status).toBe(200);
+    expect(txQuery.mock.calls[0][0]).toBe("CREATE TABLE people (\n  id INTEGER,\n  username TEXT\n)");
+    expect(txQuery.mock.calls[1][0]).toContain("INSERT INTO people (id, username)");
+  });
+
+  test("creates the table before the transaction where DDL would commit it, and says the import was not atomic", async () => {
+    let createdBeforeOpen = false;
+    mockOpenTransaction.mockImplementationOnce(async () => {
+      createdBeforeOpen = (mockProvider.query as ReturnType<typeof mock>).mock.calls.length === 1;
+      return { query: txQuery, commit: txCommit, rollback: txRollback };
+    });
+
+    const res = await POST(
+      importRequest(csvFile(1), {
+        ...baseOptions,
+        connection: { ...validConnection, type: "mysql" },
+        createTable: true,
+        columnTypes: ["INTEGER", "TEXT"],
+      }) as never,
+    );
+    const data = await parseResponseJSON<{ rowsInserted: number; atomic: boolean }>(res);
+
+    expect(data).toMatchObject({ rowsInserted: 1, atomic: false });
+    expect((mockProvider.query as ReturnType<typeof mock>).mock.calls[0][0]).toBe(
+      "CREATE TABLE people (\n  id INTEGER,\n  name TEXT\n)",
+    );
+    expect(createdBeforeOpen).toBe(true);
+    expect(txQuery).toHaveBeenCalledTimes(1);
+    expect(txQuery.mock.calls[0][0]).toContain("INSERT INTO people (id, name)");
+  });
+
+  test("rolls back everything when a batch fails", async () => {
+    txQuery.mockImplementationOnce(async () => {
+      throw new QueryError('duplicate key value violates unique constraint "people_pkey"', "postgres");
+    });
+
+    const res = await POST(importRequest(csvFile(2), baseOptions) as never);
+
+    expect(res.status).toBeGreaterThanOrEqual(400);
+    expect(txRollback).toHaveBeenCalledTimes(1);
+    expect(txCommit).not.toHaveBeenCalled();
+  });
+
+  test("inserts batch by batch without a transaction where the provider has none", async () => {
+    mockProvider.openTransaction = undefined;
+
+    const res = await POST(importRequest(csvFile(2), baseOptions) as never);
+    const data = await parseResponseJSON<{ rowsInserted: number; atomic: boolean }>(res);
+
+    expect(data).toMatchObject({ rowsInserted: 2, atomic: false });
+    expect(mockProvider.query).toHaveBeenCalledTimes(1);
+  });
+
+  test("reads a Parquet upload with the types its schema declares", async () => {
+    const parquet = parquetWriteBuffer({
+      columnData: [
+        { name: "id", data: [BigInt(1), BigInt(2)], type: "INT64" },
+        { name: "active", data: [true, false], type: "BOOLEAN" },
+      ],
+    });
+
+    const res = await POST(
+      importRequest(new Blob([parquet]), { ...baseOptions, format: "parquet", createTable: true }) as never,
+    );
+
+    expect(res.status).toBe(200);
+    expect(txQuery.mock.calls[0][0]).toBe("CREATE TABLE people (\n  id INTEGER,\n  active BOOLEAN\n)");
+    expect(txQuery.mock.calls[1][1]).toEqual(["1", true, "2", false]);
+  });
+
+  test("returns 400 for a file that does not parse", async () => {
+    const res = await POST(importRequest(new Blob(["not parquet"]), { ...baseOptions, format: "parquet" }) as never);
+    const data = await parseResponseJSON<{ error: string }>(res);
+
+    expect(res.status).toBe(400);
+    expect(data.error).toContain("Failed to parse file");
+    expect(mockOpenTransaction).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 for a table or column name that is not a bare identifier", async () => {
+    const badTable = await POST(importRequest(csvFile(1), { ...baseOptions, table: "people; DROP TABLE x" }) as never);
+    const badColumn = await POST(
+      importRequest(csvFile(1), { ...baseOptions, columnMapping: { name: "user name" } }) as never,
+    );
+
+    expect(badTable.status).toBe(400);
+    expect(badColumn.status).toBe(400);
+    expect((await parseResponseJSON<{ error: string }>(badColumn)).error).toContain('"user name"');
+    expect(txQuery).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 for an unsupported format", async () => {
+    const res = await POST(importRequest(csvFile(1), { ...baseOptions, format: "xls" }) as never);
+    const data = await parseResponseJSON<{ error: string }>(res);
+
+    expect(res.status).toBe(400);
+    expect(data.error).toContain("Supported: csv, json, ndjson, xlsx, parquet");
+  });
+
+  test("returns 400 for a database that does not speak SQL", async () => {
+    (mockProvider.getCapabilities as ReturnType<typeof mock>).mockReturnValueOnce({
+      ...mockProvider.getCapabilities(),
+      queryLanguage: "json",
+    });
+
+    const res = await POST(importRequest(csvFile(1), baseOptions) as never);
+
+    expect(res.status).toBe(400);
+  });
+
+  test("returns 413 for an upload over IMPORT_MAX_MB, whether it declares its length or not", async () => {
+    process.env.IMPORT_MAX_MB = "1";
+    try {
+      const declared = new Request("http://localhost:3000/api/db/import", {
+        method: "POST",
+        headers: { "Content-Type": "multipart/form-data; boundary=x", "Content-Length": String(2 * 1024 * 1024) },
+        body: "--x--",
+      });
+      const chunk = new Uint8Array(256 * 1024);
+      const chunked = new Request("http://localhost:3000/api/db/import", {
+        method: "POST",
+        headers: { "Content-Type": "multipart/form-data; boundary=x" },
+        body: new ReadableStream({
+          pull(controller) {
+            controller.enqueue(chunk);
+          },
+        }),
+        duplex: "half",
+      } as RequestInit);
+
+      for (const req of [declared, chunked]) {
+        const res = await POST(req as never);
+        expect(res.status).toBe(413);
+        expect((await parseResponseJSON<{ error: string }>(res)).error).toContain("1 MB import limit");
+      }
+      expect(mockGetOrCreateProvider).not.toHaveBeenCalled();
+
+      const small = await POST(importRequest(csvFile(3), baseOptions) as never);
+      expect(small.status).toBe(200);
+    } finally {
+      delete process.env.IMPORT_MAX_MB;
+    }
+  });
+
+  test("returns 400 without a file or with options that are not JSON", async () => {
+    const noFile = await POST(importRequest(null, baseOptions) as never);
+    const badOptions = await POST(importRequest(csvFile(1), "{not json") as never);
+
+    expect(noFile.status).toBe(400);
+    expect(badOptions.status).toBe(400);
+  });
+});
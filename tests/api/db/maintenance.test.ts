@@ -102,6 +102,13 @@ mock.module("@/lib/db", () => ({
   mapDatabaseError,
 }));
 
+// No server storage, so no custom roles: the built-in roles decide every grant.
+// Mocked here rather than left to the real factory, because another file's
+// storage mock is process-wide and would otherwise answer for this one's.
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => null,
+}));
+
 // ─── Import route handler AFTER mocking ─────────────────────────────────────
 const { POST } = await import("@/app/api/db/maintenance/route");
 
@@ -185,7 +192,7 @@ describe("POST /api/db/maintenance", () => {
     expect(data.message).toBe("OK");
   });
 
-  test("non-admin user returns 403", async () => {
+  test("user without a maintenance grant returns 403", async () => {
     mockGetSession.mockImplementation(
       async (): Promise<{ role: string; username: string } | null> => ({ role: "user", username: "user" }),
     );
@@ -199,12 +206,12 @@ describe("POST /api/db/maintenance", () => {
     const data = await parseResponseJSON<{ error: string }>(res);
 
     expect(res.status).toBe(403);
-    expect(data.error).toContain("Unauthorized");
+    expect(data.error).toContain('does not grant "maintenance"');
   });
 
   // Guarded by guardRoute now: an unauthenticated caller is rejected at the session check,
-  // before the route's own admin-role check ever runs, so this is 401 ("not authenticated"),
-  // distinct from "non-admin user returns 403" above ("authenticated but forbidden").
+  // before the route's own grant check ever runs, so this is 401 ("not authenticated"),
+  // distinct from "user without a maintenance grant returns 403" above ("authenticated but forbidden").
   test("no session returns 401", async () => {
     mockGetSession.mockImplementation(async () => null);
 
@@ -0,0 +1,249 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import { createMockRequest, parseResponseJSON } from "../../helpers/mock-next";
+import { createMockProvider } from "../../helpers/mock-provider";
+import { clearRateLimitState } from "@/lib/api/rate-limit";
+import { QueryError, DatabaseError, mapDatabaseError } from "@/lib/db/errors";
+import { LEDGER_TABLE } from "@/lib/migrations/ledger";
+import type { DatabaseProvider, TransactionHandle } from "@/lib/db/types";
+import type { QueryResult } from "@/lib/types";
+
+// ─── Mock provider ──────────────────────────────────────────────────────────
+const mockProvider = createMockProvider() as ReturnType<typeof createMockProvider> & Partial<DatabaseProvider>;
+const mockGetOrCreateProvider = mock(async () => mockProvider);
+
+const emptyResult: QueryResult = { rows: [], fields: [], rowCount: 0, executionTime: 1 };
+let ledgerRows: Record<string, unknown>[] | null = null;
+
+const providerQuery = mock(async (sql: string): Promise<QueryResult> => {
+  if (sql.startsWith("SELECT") && sql.includes(LEDGER_TABLE)) {
+    if (ledgerRows === null) throw new Error(`relation "${LEDGER_TABLE}" does not exist`);
+    return { ...emptyResult, rows: ledgerRows };
+  }
+  return emptyResult;
+});
+const txQuery = mock<TransactionHandle["query"]>(async () => emptyResult);
+const txCommit = mock(async () => {});
+const txRollback = mock(async () => {});
+const mockOpenTransaction = mock(
+  async (): Promise<TransactionHandle> => ({ query: txQuery, commit: txCommit, rollback: txRollback }),
+);
+
+const mockGetSession = mock(
+  async (): Promise<{ role: string; username: string } | null> => ({ role: "user", username: "alice" }),
+);
+const mockAuditPush = mock<(event: unknown) => void>(() => {});
+
+// ─── Mock dependencies BEFORE importing route ───────────────────────────────
+mock.module("@/lib/auth", () => ({
+  getSession: mockGetSession,
+  signJWT: mock(async () => "mock-token"),
+  verifyJWT: mock(async () => null),
+  login: mock(async () => {}),
+  logout: mock(async () => {}),
+}));
+
+mock.module("@/lib/seed/resolve-connection", () => {
+  class SeedConnectionError extends Error {
+    constructor(
+      message: string,
+      public statusCode: number,
+    ) {
+      super(message);
+      this.name = "SeedConnectionError";
+    }
+  }
+  return {
+    resolveConnection: mock(async (body: Record<string, unknown>) => {
+      if (!body.connection && !body.connectionId) {
+        throw new SeedConnectionError("Either connection or connectionId is required", 400);
+      }
+      return body.connection;
+    }),
+    SeedConnectionError,
+  };
+});
+
+mock.module("@/lib/audit", () => ({
+  getServerAuditBuffer: () => ({ push: mockAuditPush }),
+  emitAuditEvent: (event: Record<string, unknown>) => mockAuditPush(event),
+  AuditRingBuffer: class {},
+  loadAuditFromStorage: () => [],
+  saveAuditToStorage: () => {},
+}));
+
+mock.module("@/lib/db", () => ({
+  getOrCreateProvider: mockGetOrCreateProvider,
+  createDatabaseProvider: mock(),
+  removeProvider: mock(async () => {}),
+  clearProviderCache: mock(async () => {}),
+  getProviderCacheStats: mock(() => ({ size: 0, connections: [] })),
+  QueryError,
+  DatabaseError,
+  mapDatabaseError,
+  BaseDatabaseProvider: class {},
+}));
+
+// No server storage, so no custom roles: the built-in roles decide every grant.
+// Mocked here rather than left to the real factory, because another file's
+// storage mock is process-wide and would otherwise answer for this one's.
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => null,
+}));
+
+// ─── Import route handler AFTER mocking ─────────────────────────────────────
+const { POST } = await import("@/app/api/db/migrations/route");
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+const validConnection = {
+  id: "test-1",
+  name: "Test DB",
+  type: "postgres",
+  host: "localhost",
+  port: 5432,
+  database: "testdb",
+};
+
+const SCRIPT = "BEGIN;\nCREATE TABLE a (id int);\nALTER TABLE b ADD COLUMN c int;\nCOMMIT;";
+
+function migrationsRequest(body: Record<string, unknown>): Request {
+  return createMockRequest("/api/db/migrations", {
+    method: "POST",
+    body: { connection: validConnection, ...body },
+  });
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+describe("POST /api/db/migrations", () => {
+  beforeEach(() => {
+    clearRateLimitState();
+    ledgerRows = null;
+    mockGetOrCreateProvider.mockClear();
+    mockProvider.query = providerQuery as unknown as typeof mockProvider.query;
+    providerQuery.mockClear();
+    mockProvider.openTransaction = mockOpenTransaction;
+    mockOpenTransaction.mockClear();
+    txQuery.mockClear();
+    txQuery.mockImplementation(async () => emptyResult);
+    txCommit.mockClear();
+    txRollback.mockClear();
+    mockAuditPush.mockClear();
+    mockGetSession.mockClear();
+  });
+
+  test("returns 401 when no session exists", async () => {
+    mockGetSession.mockResolvedValueOnce(null);
+
+    const res = await POST(migrationsRequest({ action: "history" }) as never);
+
+    expect(res.status).toBe(401);
+    expect(mockGetOrCreateProvider).not.toHaveBeenCalled();
+  });
+
+  test("rejects an unknown action", async () => {
+    const res = await POST(migrationsRequest({ action: "undo" }) as never);
+    const data = await parseResponseJSON<{ error: string }>(res);
+
+    expect(res.status).toBe(400);
+    expect(data.error).toContain("history, dry-run, apply");
+  });
+
+  test("refuses a database the runner does not migrate", async () => {
+    const res = await POST(
+      migrationsRequest({ action: "history", connection: { ...validConnection, type: "druid" } }) as never,
+    );
+
+    expect(res.status).toBe(400);
+  });
+
+  test("history is empty, and says so, before the ledger exists", async () => {
+    const res = await POST(migrationsRequest({ action: "history" }) as never);
+    const data = await parseResponseJSON<{ migrations: unknown[]; ledgerExists: boolean }>(res);
+
+    expect(res.status).toBe(200);
+    expect(data).toEqual({ migrations: [], ledgerExists: false });
+  });
+
+  test("history returns the ledger rows", async () => {
+    ledgerRows = [{ id: "mig_1", status: "applied", applied_at: "2026-01-01T00:00:00.000Z" }];
+
+    const res = await POST(migrationsRequest({ action: "history" }) as never);
+    const data = await parseResponseJSON<{ migrations: { id: string }[]; ledgerExists: boolean }>(res);
+
+    expect(data.ledgerExists).toBe(true);
+    expect(data.migrations.map((m) => m.id)).toEqual(["mig_1"]);
+  });
+
+  test("refuses a script with nothing to run", async () => {
+    const res = await POST(migrationsRequest({ action: "dry-run", sql: "-- No schema changes detected." }) as never);
+
+    expect(res.status).toBe(400);
+  });
+
+  test("dry-run plans without executing or creating anything", async () => {
+    const res = await POST(migrationsRequest({ action: "dry-run", sql: SCRIPT }) as never);
+    const data = await parseResponseJSON<{ plan: { statements: string[]; atomic: boolean } }>(res);
+
+    expect(res.status).toBe(200);
+    expect(data.plan.statements).toEqual(["CREATE TABLE a (id int)", "ALTER TABLE b ADD COLUMN c int"]);
+    expect(data.plan.atomic).toBe(true);
+    expect(mockOpenTransaction).not.toHaveBeenCalled();
+    expect(providerQuery.mock.calls.every(([sql]) => sql.startsWith("SELECT"))).toBe(true);
+  });
+
+  test("apply runs the migration atomically, records it and returns the new schema", async () => {
+    const res = await POST(
+      migrationsRequest({ action: "apply", sql: SCRIPT, description: "Add a", targetSnapshotId: "snap-1" }) as never,
+    );
+    const data = await parseResponseJSON<{
+      entry: { status: string; appliedBy: string; description: string; targetSnapshotId: string };
+      atomic: boolean;
+      recorded: boolean;
+      schema: unknown[];
+    }>(res);
+
+    expect(res.status).toBe(200);
+    expect(data.entry).toMatchObject({
+      status: "applied",
+      appliedBy: "alice",
+      description: "Add a",
+      targetSnapshotId: "snap-1",
+    });
+    expect(data.atomic).toBe(true);
+    expect(data.recorded).toBe(true);
+    expect(Array.isArray(data.schema)).toBe(true);
+    expect(txCommit).toHaveBeenCalledTimes(1);
+    expect(mockAuditPush).toHaveBeenCalledTimes(1);
+    expect(mockAuditPush.mock.calls[0][0]).toMatchObject({
+      type: "schema_migration",
+      action: "APPLY",
+      user: "alice",
+      result: "success",
+    });
+  });
+
+  test("a failed apply is rolled back, answered with 422 and audited as a failure", async () => {
+    txQuery.mockImplementation(async (sql: string) => {
+      if (sql.startsWith("ALTER")) throw new Error('relation "b" does not exist');
+      return emptyResult;
+    });
+
+    const res = await POST(migrationsRequest({ action: "apply", sql: SCRIPT }) as never);
+    const data = await parseResponseJSON<{ error: string; entry: { status: string } }>(res);
+
+    expect(res.status).toBe(422);
+    expect(data.error).toBe('relation "b" does not exist');
+    expect(data.entry.status).toBe("rolled_back");
+    expect(txRollback).toHaveBeenCalledTimes(1);
+    expect(mockAuditPush.mock.calls[0][0]).toMatchObject({ result: "failure" });
+  });
+
+  test("a broken audit sink does not turn an applied migration into a 500", async () => {
+    mockAuditPush.mockImplementationOnce(() => {
+      throw new Error("audit sink unavailable");
+    });
+
+    const res = await POST(migrationsRequest({ action: "apply", sql: SCRIPT }) as never);
+
+    expect(res.status).toBe(200);
+  });
+});
@@ -410,6 +410,31 @@ describe("POST /api/db/query", () => {
     expect(data.pagination.totalReturned).toBe(3);
   });
 
+  test("a cursor-paged provider's own hasMore and pageState are passed through", async () => {
+    (mockProvider.query as ReturnType<typeof mock>).mockResolvedValueOnce({
+      rows: [{ id: 1 }, { id: 2 }],
+      fields: ["id"],
+      rowCount: 2,
+      executionTime: 5,
+      pagination: { limit: 50, offset: 0, hasMore: true, totalReturned: 2, wasLimited: true, pageState: "00ab" },
+    });
+
+    const req = createMockRequest("/api/db/query", {
+      method: "POST",
+      body: { connection: validConnection, sql: "SELECT * FROM events", options: { limit: 50, pageState: "00aa" } },
+    });
+
+    const res = await POST(req as never);
+    const data = await parseResponseJSON<{
+      pagination: { hasMore: boolean; pageState?: string };
+    }>(res);
+
+    expect(res.status).toBe(200);
+    expect(mockProvider.prepareQuery).toHaveBeenCalledWith("SELECT * FROM events", { limit: 50, pageState: "00aa" });
+    expect(data.pagination.hasMore).toBe(true);
+    expect(data.pagination.pageState).toBe("00ab");
+  });
+
   test("returns 499 for interrupted query execution", async () => {
     (mockProvider.query as ReturnType<typeof mock>).mockRejectedValueOnce(
       new QueryCancelledError("Query execution was interrupted"),
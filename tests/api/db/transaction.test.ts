@@ -19,21 +19,34 @@ import {
   mapDatabaseError,
 } from "@/lib/db/errors";
 
+import { clearTransactions } from "@/lib/db/transactions";
+
 // ─── Create mock provider with transaction methods ──────────────────────────
 const baseMockProvider = createMockProvider();
 
+function makeHandle() {
+  return {
+    query: mock(async (_sql: string, _params?: unknown[]) => ({
+      rows: [{ id: 1, name: "Alice" }],
+      fields: ["id", "name"],
+      rowCount: 1,
+      executionTime: 10,
+    })),
+    commit: mock(async () => {}),
+    rollback: mock(async () => {}),
+  };
+}
+
+/** Every handle `openTransaction` has handed out in this test, oldest first. */
+let handles: ReturnType<typeof makeHandle>[] = [];
+
 const mockTxProvider = {
   ...baseMockProvider,
-  beginTransaction: mock(async () => {}),
-  commitTransaction: mock(async () => {}),
-  rollbackTransaction: mock(async () => {}),
-  isInTransaction: mock(() => true),
-  queryInTransaction: mock(async () => ({
-    rows: [{ id: 1, name: "Alice" }],
-    fields: ["id", "name"],
-    rowCount: 1,
-    executionTime: 10,
-  })),
+  openTransaction: mock(async () => {
+    const handle = makeHandle();
+    handles.push(handle);
+    return handle;
+  }),
 };
 
 // Non-transaction provider (no transaction methods)
@@ -98,6 +111,13 @@ mock.module("@/lib/db", () => ({
   mapDatabaseError,
 }));
 
+// No server storage, so no custom roles: the built-in roles decide every grant.
+// Mocked here rather than left to the real factory, because another file's
+// storage mock is process-wide and would otherwise answer for this one's.
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => null,
+}));
+
 // ─── Import route handler AFTER mocking ─────────────────────────────────────
 const { POST } = await import("@/app/api/db/transaction/route");
 
@@ -111,16 +131,27 @@ const validConnection = {
   database: "testdb",
 };
 
+function call(body: Record<string, unknown>) {
+  return POST(
+    createMockRequest("/api/db/transaction", {
+      method: "POST",
+      body: { connection: validConnection, tabId: "tab-1", tabName: "Query 1", ...body },
+    }) as never,
+  );
+}
+
+function signInAs(username: string, sid?: string) {
+  mockGetSession.mockImplementation(async () => ({ role: "user", username, ...(sid && { sid }) }));
+}
+
 // ─── Tests ──────────────────────────────────────────────────────────────────
 describe("POST /api/db/transaction", () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     clearRateLimitState();
+    await clearTransactions();
+    handles = [];
     mockGetOrCreateProvider.mockClear();
-    mockTxProvider.beginTransaction.mockClear();
-    mockTxProvider.commitTransaction.mockClear();
-    mockTxProvider.rollbackTransaction.mockClear();
-    mockTxProvider.isInTransaction.mockClear();
-    mockTxProvider.queryInTransaction.mockClear();
+    mockTxProvider.openTransaction.mockClear();
     (mockTxProvider.prepareQuery as ReturnType<typeof mock>).mockClear();
 
     // Reset to default implementations
@@ -129,16 +160,11 @@ describe("POST /api/db/transaction", () => {
       async (): Promise<{ role: string; username: string } | null> => ({ role: "admin", username: "admin" }),
     );
     mockGetOrCreateProvider.mockImplementation(async () => mockTxProvider as never);
-    mockTxProvider.beginTransaction.mockImplementation(async () => {});
-    mockTxProvider.commitTransaction.mockImplementation(async () => {});
-    mockTxProvider.rollbackTransaction.mockImplementation(async () => {});
-    mockTxProvider.isInTransaction.mockImplementation(() => true);
-    mockTxProvider.queryInTransaction.mockImplementation(async () => ({
-      rows: [{ id: 1, name: "Alice" }],
-      fields: ["id", "name"],
-      rowCount: 1,
-      executionTime: 10,
-    }));
+    mockTxProvider.openTransaction.mockImplementation(async () => {
+      const handle = makeHandle();
+      handles.push(handle);
+      return handle;
+    });
   });
 
   test("returns 401 when no session exists", async () => {
@@ -146,7 +172,7 @@ describe("POST /api/db/transaction", () => {
 
     const req = createMockRequest("/api/db/transaction", {
       method: "POST",
-      body: { connection: validConnection, action: "begin" },
+      body: { connection: validConnection, action: "begin", tabId: "tab-1" },
     });
 
     const res = await POST(req as never);
@@ -156,58 +182,133 @@ describe("POST /api/db/transaction", () => {
     expect(data.error).toContain("Authentication required");
   });
 
-  test("begin action returns status active", async () => {
-    const req = createMockRequest("/api/db/transaction", {
-      method: "POST",
-      body: { connection: validConnection, action: "begin" },
-    });
-
-    const res = await POST(req as never);
-    const data = await parseResponseJSON<{ status: string; message: string }>(res);
+  test("begin action returns status active and the transaction's owner", async () => {
+    const res = await call({ action: "begin" });
+    const data = await parseResponseJSON<{
+      status: string;
+      message: string;
+      transaction: { username: string; connectionId: string; tabId: string; tabName: string };
+    }>(res);
 
     expect(res.status).toBe(200);
     expect(data.status).toBe("active");
     expect(data.message).toBe("Transaction started");
-    expect(mockTxProvider.beginTransaction).toHaveBeenCalledTimes(1);
+    expect(data.transaction).toMatchObject({
+      username: "admin",
+      connectionId: "test-1",
+      tabId: "tab-1",
+      tabName: "Query 1",
+    });
+    expect(mockTxProvider.openTransaction).toHaveBeenCalledTimes(1);
   });
 
-  test("commit action returns status committed", async () => {
-    const req = createMockRequest("/api/db/transaction", {
-      method: "POST",
-      body: { connection: validConnection, action: "commit" },
-    });
+  test("begin twice in the same tab returns 400", async () => {
+    await call({ action: "begin" });
+    const res = await call({ action: "begin" });
+    const data = await parseResponseJSON<{ error: string }>(res);
 
-    const res = await POST(req as never);
+    expect(res.status).toBe(400);
+    expect(data.error).toContain("Transaction already active");
+    expect(mockTxProvider.openTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  test("commit action returns status committed", async () => {
+    await call({ action: "begin" });
+    const res = await call({ action: "commit" });
     const data = await parseResponseJSON<{ status: string; message: string }>(res);
 
     expect(res.status).toBe(200);
     expect(data.status).toBe("committed");
     expect(data.message).toBe("Transaction committed");
-    expect(mockTxProvider.commitTransaction).toHaveBeenCalledTimes(1);
+    expect(handles[0].commit).toHaveBeenCalledTimes(1);
   });
 
-  test("rollback action returns status rolled_back", async () => {
-    const req = createMockRequest("/api/db/transaction", {
-      method: "POST",
-      body: { connection: validConnection, action: "rollback" },
-    });
+  test("commit without a transaction returns 400", async () => {
+    const res = await call({ action: "commit" });
+    const data = await parseResponseJSON<{ error: string }>(res);
 
-    const res = await POST(req as never);
+    expect(res.status).toBe(400);
+    expect(data.error).toContain("No active transaction");
+  });
+
+  test("rollback action returns status rolled_back", async () => {
+    await call({ action: "begin" });
+    const res = await call({ action: "rollback" });
     const data = await parseResponseJSON<{ status: string; message: string }>(res);
 
     expect(res.status).toBe(200);
     expect(data.status).toBe("rolled_back");
     expect(data.message).toBe("Transaction rolled back");
-    expect(mockTxProvider.rollbackTransaction).toHaveBeenCalledTimes(1);
+    expect(handles[0].rollback).toHaveBeenCalledTimes(1);
   });
 
-  test("query action with sql returns result with pagination", async () => {
-    const req = createMockRequest("/api/db/transaction", {
-      method: "POST",
-      body: { connection: validConnection, action: "query", sql: "SELECT * FROM users" },
-    });
+  test("actions other than status require a tabId", async () => {
+    const res = await call({ action: "begin", tabId: undefined });
+    const data = await parseResponseJSON<{ error: string }>(res);
 
-    const res = await POST(req as never);
+    expect(res.status).toBe(400);
+    expect(data.error).toContain("tabId is required");
+    expect(mockTxProvider.openTransaction).not.toHaveBeenCalled();
+  });
+
+  // ── One user's transaction is not another's ─────────────────────────────────
+  //
+  // Both users share the connection, and so the cached provider; before, they
+  // also shared its one transaction, and either one's COMMIT committed both.
+
+  test("another user can neither use nor end a transaction they did not open", async () => {
+    await call({ action: "begin" });
+
+    signInAs("alice");
+    const query = await call({ action: "query", sql: "DELETE FROM users" });
+    const commit = await call({ action: "commit" });
+
+    expect(query.status).toBe(400);
+    expect(commit.status).toBe(400);
+    expect(handles[0].query).not.toHaveBeenCalled();
+    expect(handles[0].commit).not.toHaveBeenCalled();
+  });
+
+  test("two users in the same tab id each get a transaction of their own", async () => {
+    await call({ action: "begin" });
+    signInAs("alice");
+    const res = await call({ action: "begin" });
+
+    expect(res.status).toBe(200);
+    expect(handles).toHaveLength(2);
+
+    await call({ action: "commit" });
+    expect(handles[1].commit).toHaveBeenCalledTimes(1);
+    expect(handles[0].commit).not.toHaveBeenCalled();
+  });
+
+  test("two sign-ins of one username each get a transaction of their own", async () => {
+    signInAs("ops", "sid-laptop");
+    await call({ action: "begin" });
+    signInAs("ops", "sid-phone");
+
+    const query = await call({ action: "query", sql: "DELETE FROM users" });
+    const status = await parseResponseJSON<{ inTransaction: boolean }>(await call({ action: "status" }));
+    const begin = await call({ action: "begin" });
+
+    expect(query.status).toBe(400);
+    expect(status.inTransaction).toBe(false);
+    expect(begin.status).toBe(200);
+    expect(handles).toHaveLength(2);
+    expect(handles[0].query).not.toHaveBeenCalled();
+  });
+
+  test("a query runs in the transaction of its own tab only", async () => {
+    await call({ action: "begin" });
+    const res = await call({ action: "query", sql: "SELECT 1", tabId: "tab-2" });
+
+    expect(res.status).toBe(400);
+    expect(handles[0].query).not.toHaveBeenCalled();
+  });
+
+  test("query action with sql returns result with pagination", async () => {
+    await call({ action: "begin" });
+    const res = await call({ action: "query", sql: "SELECT * FROM users" });
     const data = await parseResponseJSON<{
       rows: unknown[];
       fields: string[];
@@ -229,51 +330,32 @@ describe("POST /api/db/transaction", () => {
   // one place a generated statement still carried its values as text (#290).
 
   test("query action binds the request's parameters", async () => {
-    const req = createMockRequest("/api/db/transaction", {
-      method: "POST",
-      body: {
-        connection: validConnection,
-        action: "query",
-        sql: `UPDATE users SET "name" = $1 WHERE "id" = $2`,
-        params: ["\\' WHERE 1=1 -- ", 7],
-      },
+    await call({ action: "begin" });
+    const res = await call({
+      action: "query",
+      sql: `UPDATE users SET "name" = $1 WHERE "id" = $2`,
+      params: ["\\' WHERE 1=1 -- ", 7],
     });
 
-    const res = await POST(req as never);
-
     expect(res.status).toBe(200);
-    expect(mockTxProvider.queryInTransaction).toHaveBeenCalledWith(
-      `UPDATE users SET "name" = $1 WHERE "id" = $2 LIMIT 50`,
-      ["\\' WHERE 1=1 -- ", 7],
-    );
+    expect(handles[0].query).toHaveBeenCalledWith(`UPDATE users SET "name" = $1 WHERE "id" = $2 LIMIT 50`, [
+      "\\' WHERE 1=1 -- ",
+      7,
+    ]);
   });
 
   test("query action returns 400 for a parameter the driver cannot bind as a scalar", async () => {
-    const req = createMockRequest("/api/db/transaction", {
-      method: "POST",
-      body: {
-        connection: validConnection,
-        action: "query",
-        sql: "SELECT * FROM users WHERE id = $1",
-        params: [{ nested: true }],
-      },
-    });
-
-    const res = await POST(req as never);
+    await call({ action: "begin" });
+    const res = await call({ action: "query", sql: "SELECT * FROM users WHERE id = $1", params: [{ nested: true }] });
     const data = await parseResponseJSON<{ error: string }>(res);
 
     expect(res.status).toBe(400);
     expect(data.error).toContain("params");
-    expect(mockTxProvider.queryInTransaction).not.toHaveBeenCalled();
+    expect(handles[0].query).not.toHaveBeenCalled();
   });
 
   test("query action without sql returns 400", async () => {
-    const req = createMockRequest("/api/db/transaction", {
-      method: "POST",
-      body: { connection: validConnection, action: "query" },
-    });
-
-    const res = await POST(req as never);
+    const res = await call({ action: "query" });
     const data = await parseResponseJSON<{ error: string }>(res);
 
     expect(res.status).toBe(400);
@@ -281,27 +363,32 @@ describe("POST /api/db/transaction", () => {
   });
 
   test("status action returns inTransaction boolean", async () => {
-    mockTxProvider.isInTransaction.mockImplementation(() => false);
+    const res = await call({ action: "status" });
+    const data = await parseResponseJSON<{ inTransaction: boolean; transactions: unknown[] }>(res);
 
-    const req = createMockRequest("/api/db/transaction", {
-      method: "POST",
-      body: { connection: validConnection, action: "status" },
-    });
+    expect(res.status).toBe(200);
+    expect(data.inTransaction).toBe(false);
+    expect(data.transactions).toEqual([]);
+  });
 
-    const res = await POST(req as never);
-    const data = await parseResponseJSON<{ inTransaction: boolean }>(res);
+  test("status action lists only the caller's transactions on this connection", async () => {
+    await call({ action: "begin" });
+    signInAs("alice");
+    await call({ action: "begin", tabId: "tab-9", tabName: "Mine" });
+
+    const res = await call({ action: "status", tabId: undefined });
+    const data = await parseResponseJSON<{
+      inTransaction: boolean;
+      transactions: { username: string; tabId: string }[];
+    }>(res);
 
     expect(res.status).toBe(200);
-    expect(data.inTransaction).toBe(false);
+    expect(data.transactions).toHaveLength(1);
+    expect(data.transactions[0]).toMatchObject({ username: "alice", tabId: "tab-9" });
   });
 
   test("unknown action returns 400", async () => {
-    const req = createMockRequest("/api/db/transaction", {
-      method: "POST",
-      body: { connection: validConnection, action: "invalid-action" },
-    });
-
-    const res = await POST(req as never);
+    const res = await call({ action: "invalid-action" });
     const data = await parseResponseJSON<{ error: string }>(res);
 
     expect(res.status).toBe(400);
@@ -339,7 +426,7 @@ describe("POST /api/db/transaction", () => {
 
     const req = createMockRequest("/api/db/transaction", {
       method: "POST",
-      body: { connection: validConnection, action: "begin" },
+      body: { connection: validConnection, action: "begin", tabId: "tab-1" },
     });
 
     const res = await POST(req as never);
@@ -350,13 +437,13 @@ describe("POST /api/db/transaction", () => {
   });
 
   test("QueryError returns 400", async () => {
-    mockTxProvider.beginTransaction.mockImplementation(async () => {
+    mockTxProvider.openTransaction.mockImplementation(async () => {
       throw new QueryError("Syntax error near BEGIN", "postgres");
     });
 
     const req = createMockRequest("/api/db/transaction", {
       method: "POST",
-      body: { connection: validConnection, action: "begin" },
+      body: { connection: validConnection, action: "begin", tabId: "tab-1" },
     });
 
     const res = await POST(req as never);
@@ -367,13 +454,13 @@ describe("POST /api/db/transaction", () => {
   });
 
   test("DatabaseError returns 500", async () => {
-    mockTxProvider.beginTransaction.mockImplementation(async () => {
+    mockTxProvider.openTransaction.mockImplementation(async () => {
       throw new DatabaseError("Internal database error", "postgres", "DATABASE_ERROR");
     });
 
     const req = createMockRequest("/api/db/transaction", {
       method: "POST",
-      body: { connection: validConnection, action: "begin" },
+      body: { connection: validConnection, action: "begin", tabId: "tab-1" },
     });
 
     const res = await POST(req as never);
@@ -0,0 +1,257 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { NextRequest } from "next/server";
+import { createMockProvider } from "../../helpers/mock-provider";
+import { clearRateLimitState } from "@/lib/api/rate-limit";
+import * as dbErrors from "@/lib/db/errors";
+import * as realFactory from "@/lib/db/factory";
+import { EDITOR_READ_ONLY_BUDGET } from "@/lib/access/editor-execution";
+
+let mockSession: { username: string; role: string } = { username: "admin", role: "admin" };
+const auditEvents: Record<string, unknown>[] = [];
+
+const sharedProvider = createMockProvider();
+const profiledProvider = {
+  ...createMockProvider(),
+  queryReadOnly: mock(async () => ({ rows: [{ id: 1 }], fields: ["id"], rowCount: 1, executionTime: 2 })),
+};
+const mockGetOrCreateProvider = mock(async () => sharedProvider);
+const mockAcquire = mock(async (_connection: unknown, _profile: string): Promise<unknown> => profiledProvider);
+
+// ─── Mock dependencies BEFORE importing the routes ──────────────────────────
+mock.module("@/lib/auth", () => ({
+  getSession: async () => mockSession,
+  signJWT: mock(async () => "mock-token"),
+  verifyJWT: mock(async () => null),
+  login: mock(async () => {}),
+  logout: mock(async () => {}),
+}));
+
+// Other suites in this process mock storage with fixtures of their own; a user
+// session resolves its grants through storage, so this file pins "no storage" for
+// itself rather than inheriting whichever mock happened to register last.
+mock.module("@/lib/storage/factory", () => ({ getStorageProvider: async () => null }));
+
+mock.module("@/lib/audit", () => ({
+  getServerAuditBuffer: () => ({ push: () => {} }),
+  emitAuditEvent: (event: Record<string, unknown>) => {
+    auditEvents.push(event);
+    return event;
+  },
+  AuditRingBuffer: class {},
+  loadAuditFromStorage: () => [],
+  saveAuditToStorage: () => {},
+}));
+
+mock.module("@/lib/db", () => ({
+  ...dbErrors,
+  getOrCreateProvider: mockGetOrCreateProvider,
+  createDatabaseProvider: mock(async () => sharedProvider),
+  removeProvider: mock(async () => {}),
+  clearProviderCache: mock(async () => {}),
+  getProviderCacheStats: mock(() => ({ size: 0, connections: [] })),
+}));
+
+mock.module("@/lib/db/factory", () => ({ ...realFactory, acquireExecutionProfileProvider: mockAcquire }));
+
+const queryRoute = await import("@/app/api/db/query/route");
+const multiQueryRoute = await import("@/app/api/db/multi-query/route");
+const transactionRoute = await import("@/app/api/db/transaction/route");
+const maintenanceRoute = await import("@/app/api/db/maintenance/route");
+const exportRoute = await import("@/app/api/db/export/route");
+const dataDiffRoute = await import("@/app/api/db/data-diff/route");
+const { runChangeRequest } = await import("@/lib/change-requests/run");
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+function request(url: string, body: unknown) {
+  return new NextRequest(`http://localhost:3000${url}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+function connection(overrides: Record<string, unknown> = {}) {
+  return { id: "own-1", name: "Prod", type: "postgres", host: "db", database: "app", ...overrides };
+}
+
+const runQuery = (sql: string, conn = connection({ writePolicy: "read-only" }), extra = {}) =>
+  queryRoute.POST(request("/api/db/query", { sql, connection: conn, ...extra }));
+
+beforeEach(() => {
+  mockSession = { username: "admin", role: "admin" };
+  auditEvents.length = 0;
+  mockGetOrCreateProvider.mockClear();
+  mockAcquire.mockClear();
+  mockAcquire.mockImplementation(async () => profiledProvider);
+  profiledProvider.queryReadOnly.mockClear();
+  (sharedProvider.query as ReturnType<typeof mock>).mockClear();
+  clearRateLimitState();
+});
+
+afterEach(() => {
+  clearRateLimitState();
+});
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("a connection's write policy on the editor path", () => {
+  test("a read-only connection refuses a write before any provider is reached, and records it", async () => {
+    const res = await runQuery("DROP TABLE users");
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({
+      code: "WRITE_REFUSED",
+      error: 'Write refused: connection "Prod" is read-only',
+      details: { reason: "READ_ONLY_CONNECTION" },
+    });
+    expect(mockGetOrCreateProvider).not.toHaveBeenCalled();
+    expect(mockAcquire).not.toHaveBeenCalled();
+    expect(auditEvents).toEqual([
+      expect.objectContaining({
+        type: "permission_denied",
+        action: "ddl",
+        target: "own connection",
+        connectionName: "Prod",
+        user: "admin",
+        reason: "read_only_connection",
+      }),
+    ]);
+  });
+
+  test("a connection that needs approval says so", async () => {
+    const res = await runQuery("UPDATE users SET name = 'x'", connection({ writePolicy: "approval" }));
+
+    expect(res.status).toBe(403);
+    const data = await res.json();
+    expect(data.details).toEqual({ reason: "APPROVAL_REQUIRED" });
+    expect(data.error).toContain("require approval");
+  });
+
+  test("a read on PostgreSQL runs inside the engine's read-only boundary, with its bound values", async () => {
+    const res = await runQuery("SELECT * FROM users WHERE id = $1", undefined, { params: [1] });
+
+    expect(res.status).toBe(200);
+    expect(mockAcquire.mock.calls[0][1]).toBe("editor-read-only");
+    expect(profiledProvider.queryReadOnly).toHaveBeenCalledWith(
+      "SELECT * FROM users WHERE id = $1 LIMIT 50",
+      EDITOR_READ_ONLY_BUDGET,
+      [1],
+    );
+    expect(mockGetOrCreateProvider).not.toHaveBeenCalled();
+  });
+
+  test("an engine without a read-only boundary reads on the shared pool", async () => {
+    const res = await runQuery("SELECT * FROM users", connection({ type: "mysql", writePolicy: "read-only" }));
+
+    expect(res.status).toBe(200);
+    expect(mockAcquire).not.toHaveBeenCalled();
+    expect(mockGetOrCreateProvider).toHaveBeenCalled();
+  });
+
+  test("a read-write connection is left as it was", async () => {
+    const res = await runQuery("UPDATE users SET name = 'x'", connection());
+
+    expect(res.status).toBe(200);
+    expect(mockAcquire).not.toHaveBeenCalled();
+    expect(sharedProvider.query).toHaveBeenCalled();
+  });
+
+  test("a role that is too broad for the read-only profile is a configuration error, not a 500", async () => {
+    mockAcquire.mockImplementation(async () => {
+      throw new dbErrors.ExecutionProfileError("role too broad", "PROFILE_PRIVILEGES_TOO_BROAD");
+    });
+    const res = await runQuery("SELECT 1");
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      code: "CONFIG_ERROR",
+      details: { reason: "PROFILE_PRIVILEGES_TOO_BROAD" },
+    });
+  });
+
+  test("a script is refused whole when any statement writes, and a reading one runs statement by statement", async () => {
+    const conn = connection({ writePolicy: "read-only" });
+    const refused = await multiQueryRoute.POST(
+      request("/api/db/multi-query", { sql: "SELECT 1; DELETE FROM users;", connection: conn }),
+    );
+    expect(refused.status).toBe(403);
+    expect(profiledProvider.queryReadOnly).not.toHaveBeenCalled();
+
+    const read = await multiQueryRoute.POST(
+      request("/api/db/multi-query", { sql: "SELECT 1; SELECT 2;", connection: conn }),
+    );
+    expect(read.status).toBe(200);
+    expect(profiledProvider.queryReadOnly).toHaveBeenCalledTimes(2);
+  });
+
+  test("a transaction cannot be opened on a connection that refuses writes", async () => {
+    const res = await transactionRoute.POST(
+      request("/api/db/transaction", {
+        action: "begin",
+        tabId: "t1",
+        connection: connection({ writePolicy: "read-only" }),
+      }),
+    );
+
+    expect(res.status).toBe(403);
+    expect((await res.json()).code).toBe("WRITE_REFUSED");
+  });
+
+  test("maintenance is refused even for an admin", async () => {
+    const res = await maintenanceRoute.POST(
+      request("/api/db/maintenance", {
+        type: "vacuum",
+        target: "users",
+        connection: connection({ writePolicy: "read-only" }),
+      }),
+    );
+
+    expect(res.status).toBe(403);
+    expect(auditEvents.at(-1)).toMatchObject({ action: "maintenance", reason: "read_only_connection" });
+  });
+
+  test("an export of a read-only connection reads inside the engine's read-only boundary", async () => {
+    const res = await exportRoute.POST(
+      request("/api/db/export", {
+        sql: "SELECT * FROM users",
+        format: "csv",
+        connection: connection({ writePolicy: "read-only" }),
+      }),
+    );
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain("id\n1");
+    expect(mockAcquire.mock.calls[0][1]).toBe("editor-read-only");
+    expect(profiledProvider.queryReadOnly).toHaveBeenCalled();
+    expect(sharedProvider.query).not.toHaveBeenCalled();
+  });
+
+  test("a data diff reads each read-only side inside the engine's read-only boundary", async () => {
+    const side = { sql: "SELECT id FROM users ORDER BY id", connection: connection({ writePolicy: "read-only" }) };
+    const res = await dataDiffRoute.POST(
+      request("/api/db/data-diff", { source: side, target: side, keyColumns: ["id"] }),
+    );
+
+    expect(res.status).toBe(200);
+    expect(profiledProvider.queryReadOnly).toHaveBeenCalledTimes(2);
+    expect(sharedProvider.query).not.toHaveBeenCalled();
+  });
+
+  test("an approved change request is the one write an approval connection runs, on the shared pool", async () => {
+    await runChangeRequest({
+      id: "cr_1",
+      sql: "UPDATE users SET name = 'x'",
+      preview: "UPDATE users SET name = 'x'",
+      permission: "write",
+      connectionName: "Prod",
+      databaseType: "postgres",
+      connection: connection({ writePolicy: "approval" }) as never,
+      requestedBy: "alice",
+      requestedAt: new Date().toISOString(),
+      status: "executing",
+    });
+
+    expect(mockAcquire).not.toHaveBeenCalled();
+    expect(sharedProvider.query).toHaveBeenCalledWith("UPDATE users SET name = 'x'", undefined);
+  });
+});
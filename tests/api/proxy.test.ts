@@ -111,6 +111,14 @@ describe("proxy", () => {
 
       expect(isRedirect(res)).toBe(false);
     });
+
+    test("keeps a signed-in browser on an account setup link", async () => {
+      const token = await createToken("admin");
+      const req = createNextRequest("/login/setup?token=abc", token);
+      const res = await proxy(req);
+
+      expect(isRedirect(res)).toBe(false);
+    });
   });
 
   // ───────────────────────────────────────────────────────────────────────────
@@ -189,6 +197,25 @@ describe("proxy", () => {
       expect(isRedirect(res)).toBe(true);
       expect(getRedirectLocation(res)).toContain("/login");
     });
+
+    test("a Bearer header reaches /api/db/ for the route to verify, and nothing else", async () => {
+      const bearer = (pathname: string, secret = `ldb_pat_${"a".repeat(43)}`) =>
+        new NextRequest(`http://localhost:3000${pathname}`, { headers: { authorization: `Bearer ${secret}` } });
+
+      expect(isRedirect(await proxy(bearer("/api/db/query")))).toBe(false);
+      for (const pathname of ["/api/admin/users", "/api/tokens", "/admin", "/"]) {
+        expect(isRedirect(await proxy(bearer(pathname)))).toBe(true);
+      }
+    });
+
+    test("a Bearer header not shaped like a token is no way past the cookie check", async () => {
+      for (const secret of ["anything", "ldb_pat_anything", `ldb_pat_${"a".repeat(44)}`, `xyz_pat_${"a".repeat(43)}`]) {
+        const req = new NextRequest("http://localhost:3000/api/db/query", {
+          headers: { authorization: `Bearer ${secret}` },
+        });
+        expect(isRedirect(await proxy(req))).toBe(true);
+      }
+    });
   });
 
   // ───────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,253 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import { NextRequest } from "next/server";
+import { createMockProvider } from "../../helpers/mock-provider";
+import { clearRateLimitState } from "@/lib/api/rate-limit";
+import { QueryError, DatabaseError, mapDatabaseError } from "@/lib/db/errors";
+import type { DatabaseProvider, QueryBatch } from "@/lib/db/types";
+import type { QuerySchedule, ScheduleNotification, ScheduleRun } from "@/lib/scheduler/types";
+
+// ─── Server storage, in memory ──────────────────────────────────────────────
+let store = new Map<string, unknown>();
+const key = (userId: string, collection: string) => `${userId}/${collection}`;
+const storage = {
+  getCollection: async (userId: string, collection: string) => store.get(key(userId, collection)) ?? null,
+  setCollection: async (userId: string, collection: string, data: unknown) => {
+    store.set(key(userId, collection), data);
+  },
+  updateCollection: async (userId: string, collection: string, update: (current: unknown) => unknown) => {
+    store.set(key(userId, collection), update(store.get(key(userId, collection)) ?? null));
+  },
+};
+let storageEnabled = true;
+
+let mockSession: { username: string; role: string } | null = { username: "alice", role: "user" };
+
+// ─── Mock dependencies BEFORE importing the routes ──────────────────────────
+mock.module("@/lib/auth", () => ({
+  getSession: async () => mockSession,
+  signJWT: mock(async () => "mock-token"),
+  verifyJWT: mock(async () => null),
+  login: mock(async () => {}),
+  logout: mock(async () => {}),
+}));
+
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => (storageEnabled ? storage : null),
+}));
+
+const mockResolveConnection = mock(async (body: { connectionId: string }) => ({
+  id: body.connectionId,
+  name: "Managed",
+  type: "postgres",
+}));
+mock.module("@/lib/seed/resolve-connection", () => {
+  class SeedConnectionError extends Error {
+    constructor(
+      message: string,
+      public statusCode: number,
+    ) {
+      super(message);
+      this.name = "SeedConnectionError";
+    }
+  }
+  return { resolveConnection: mockResolveConnection, SeedConnectionError };
+});
+
+mock.module("@/lib/audit", () => ({
+  getServerAuditBuffer: () => ({ push: () => {} }),
+  emitAuditEvent: () => {},
+  AuditRingBuffer: class {},
+  loadAuditFromStorage: () => [],
+  saveAuditToStorage: () => {},
+}));
+
+let provider: DatabaseProvider;
+mock.module("@/lib/db", () => ({
+  getOrCreateProvider: mock(async () => provider),
+  createDatabaseProvider: mock(),
+  removeProvider: mock(async () => {}),
+  clearProviderCache: mock(async () => {}),
+  getProviderCacheStats: mock(() => ({ size: 0, connections: [] })),
+  QueryError,
+  DatabaseError,
+  mapDatabaseError,
+  BaseDatabaseProvider: class {},
+}));
+
+const schedulesRoute = await import("@/app/api/schedules/route");
+const runsRoute = await import("@/app/api/schedules/[id]/runs/route");
+const notificationsRoute = await import("@/app/api/schedules/notifications/route");
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+function request(url: string, method = "GET", body?: unknown) {
+  return new NextRequest(`http://localhost:3000${url}`, {
+    method,
+    ...(body === undefined ? {} : { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }),
+  });
+}
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+function postSchedule(body: Record<string, unknown>) {
+  return schedulesRoute.POST(
+    request("/api/schedules", "POST", { savedQueryId: "q1", connectionId: "c1", cron: "0 9 * * *", ...body }),
+  );
+}
+
+const schedules = () => (store.get(key("alice", "query_schedules")) ?? []) as QuerySchedule[];
+
+beforeEach(() => {
+  clearRateLimitState();
+  store = new Map();
+  storageEnabled = true;
+  mockSession = { username: "alice", role: "user" };
+  mockResolveConnection.mockClear();
+  store.set(key("alice", "saved_queries"), [
+    { id: "q1", name: "Failed orders", query: "SELECT * FROM orders", connectionType: "postgres" },
+  ]);
+  store.set(key("alice", "connections"), [{ id: "c1", name: "Orders DB", type: "postgres" }]);
+  provider = createMockProvider({ type: "postgres" });
+  provider.queryStream = async function* (): AsyncGenerator<QueryBatch> {
+    yield { rows: [{ id: 1 }, { id: 2 }], fields: ["id"] };
+  };
+});
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+describe("/api/schedules", () => {
+  test("answers 404 without server storage, and 401 without a session", async () => {
+    storageEnabled = false;
+    expect((await schedulesRoute.GET()).status).toBe(404);
+    storageEnabled = true;
+    mockSession = null;
+    expect((await schedulesRoute.GET()).status).toBe(401);
+  });
+
+  test("creates a schedule with the owner's role and its first run time", async () => {
+    const res = await postSchedule({ threshold: { metric: "rowCount", warning: 1, critical: 5, direction: "above" } });
+    expect(res.status).toBe(200);
+    const { schedule } = (await res.json()) as { schedule: QuerySchedule };
+
+    expect(schedule.id).toMatch(/^sch_/);
+    expect(schedule.queryName).toBe("Failed orders");
+    expect(schedule.ownerRole).toBe("user");
+    expect(schedule.nextRunAt).not.toBeNull();
+    expect(schedules()).toEqual([schedule]);
+
+    const listed = (await (await schedulesRoute.GET()).json()) as { schedules: QuerySchedule[] };
+    expect(listed.schedules).toEqual([schedule]);
+  });
+
+  test("changes a schedule by id, and forgets the level an old threshold reached", async () => {
+    const { schedule } = (await (await postSchedule({})).json()) as { schedule: QuerySchedule };
+    store.set(key("alice", "query_schedules"), [{ ...schedule, lastLevel: "warning" }]);
+
+    const res = await postSchedule({
+      id: schedule.id,
+      enabled: false,
+      threshold: { metric: "rowCount", warning: 1, critical: 5, direction: "above" },
+    });
+    const { schedule: changed } = (await res.json()) as { schedule: QuerySchedule };
+
+    expect(changed.id).toBe(schedule.id);
+    expect(changed.createdAt).toBe(schedule.createdAt);
+    expect(changed.enabled).toBe(false);
+    expect(changed.nextRunAt).toBeNull();
+    expect(changed.lastLevel).toBeNull();
+    expect(schedules()).toHaveLength(1);
+  });
+
+  test("answers 404 for an id that is not the user's", async () => {
+    expect((await postSchedule({ id: "sch_missing" })).status).toBe(404);
+  });
+
+  test("refuses an invalid schedule with the reason", async () => {
+    const res = await postSchedule({ cron: "61 * * * *" });
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as { error: string }).error).toBe("cron: minute 61 is outside 0-59");
+  });
+
+  test("refuses a query or connection the user does not have", async () => {
+    const unsaved = await postSchedule({ savedQueryId: "q9" });
+    expect(unsaved.status).toBe(400);
+    expect(((await unsaved.json()) as { error: string }).error).toBe("Save the query before scheduling it");
+    expect((await postSchedule({ connectionId: "c9" })).status).toBe(400);
+  });
+
+  test("checks a managed connection as the session", async () => {
+    expect((await postSchedule({ connectionId: "seed:prod" })).status).toBe(200);
+    expect(mockResolveConnection).toHaveBeenCalledWith({ connectionId: "seed:prod" }, mockSession);
+  });
+
+  test("deletes a schedule and the results it kept", async () => {
+    const { schedule } = (await (await postSchedule({})).json()) as { schedule: QuerySchedule };
+    store.set(key("alice", "query_schedule_runs"), [
+      { id: "r1", scheduleId: schedule.id },
+      { id: "r2", scheduleId: "other" },
+    ]);
+
+    const res = await schedulesRoute.DELETE(request(`/api/schedules?id=${schedule.id}`, "DELETE"));
+    expect(res.status).toBe(200);
+    expect(schedules()).toEqual([]);
+    expect(store.get(key("alice", "query_schedule_runs"))).toEqual([{ id: "r2", scheduleId: "other" }]);
+
+    expect((await schedulesRoute.DELETE(request(`/api/schedules?id=${schedule.id}`, "DELETE"))).status).toBe(404);
+  });
+});
+
+describe("/api/schedules/[id]/runs", () => {
+  test("runs a schedule now and lists the result", async () => {
+    const { schedule } = (await (await postSchedule({})).json()) as { schedule: QuerySchedule };
+
+    const res = await runsRoute.POST(request(`/api/schedules/${schedule.id}/runs`, "POST"), params(schedule.id));
+    expect(res.status).toBe(200);
+    const { run } = (await res.json()) as { run: ScheduleRun };
+    expect(run.status).toBe("success");
+    expect(run.rowCount).toBe(2);
+
+    const listed = await runsRoute.GET(request(`/api/schedules/${schedule.id}/runs`), params(schedule.id));
+    expect(((await listed.json()) as { runs: ScheduleRun[] }).runs.map((r) => r.id)).toEqual([run.id]);
+  });
+
+  test("answers 404 for a schedule that is not the user's", async () => {
+    const res = await runsRoute.POST(request("/api/schedules/sch_x/runs", "POST"), params("sch_x"));
+    expect(res.status).toBe(404);
+  });
+
+  test("requires a session to run one", async () => {
+    mockSession = null;
+    const res = await runsRoute.POST(request("/api/schedules/sch_x/runs", "POST"), params("sch_x"));
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("/api/schedules/notifications", () => {
+  const notification = (id: string): ScheduleNotification => ({
+    id,
+    scheduleId: "sch_1",
+    runId: "run_1",
+    queryName: "Failed orders",
+    level: "warning",
+    message: "Row count is 3",
+    createdAt: "2026-03-10T10:00:00.000Z",
+    read: false,
+  });
+
+  test("lists alerts with the unread count, and marks the given ones read", async () => {
+    store.set(key("alice", "schedule_notifications"), [notification("n1"), notification("n2")]);
+
+    const listed = (await (await notificationsRoute.GET()).json()) as { unread: number };
+    expect(listed.unread).toBe(2);
+
+    await notificationsRoute.POST(request("/api/schedules/notifications", "POST", { ids: ["n1"] }));
+    const after = store.get(key("alice", "schedule_notifications")) as ScheduleNotification[];
+    expect(after.map((n) => n.read)).toEqual([true, false]);
+  });
+
+  test("marks every alert read without ids", async () => {
+    store.set(key("alice", "schedule_notifications"), [notification("n1"), notification("n2")]);
+
+    await notificationsRoute.POST(request("/api/schedules/notifications", "POST"));
+    const after = store.get(key("alice", "schedule_notifications")) as ScheduleNotification[];
+    expect(after.every((n) => n.read)).toBe(true);
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import { NextRequest } from "next/server";
+import type { Team, TeamItem, TeamItemVersion } from "@/lib/teams/types";
+
+// ─── Server storage, in memory ──────────────────────────────────────────────
+let teamStore = new Map<string, unknown>();
+const key = (teamId: string, collection: string) => `${teamId}/${collection}`;
+const storage = {
+  getTeamCollection: async (teamId: string, collection: string) => teamStore.get(key(teamId, collection)) ?? null,
+  setTeamCollection: async (teamId: string, collection: string, data: unknown) => {
+    teamStore.set(key(teamId, collection), data);
+  },
+  updateTeamCollection: async (teamId: string, collection: string, update: (current: unknown) => unknown) => {
+    teamStore.set(key(teamId, collection), update(teamStore.get(key(teamId, collection)) ?? null));
+  },
+  listTeamCollection: async (collection: string) =>
+    [...teamStore.entries()]
+      .filter(([k]) => k.endsWith(`/${collection}`))
+      .map(([k, data]) => ({ teamId: k.slice(0, -collection.length - 1), data })),
+  deleteTeam: async (teamId: string) => {
+    for (const k of [...teamStore.keys()]) if (k.startsWith(`${teamId}/`)) teamStore.delete(k);
+  },
+};
+let storageEnabled = true;
+
+let mockSession: { username: string; role: string } | null = { username: "alice", role: "user" };
+
+// ─── Mock dependencies BEFORE importing the routes ──────────────────────────
+mock.module("@/lib/auth", () => ({
+  getSession: async () => mockSession,
+  signJWT: mock(async () => "mock-token"),
+  verifyJWT: mock(async () => null),
+  login: mock(async () => {}),
+  logout: mock(async () => {}),
+}));
+
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => (storageEnabled ? storage : null),
+}));
+
+const adminTeamsRoute = await import("@/app/api/admin/teams/route");
+const teamsRoute = await import("@/app/api/teams/route");
+const itemsRoute = await import("@/app/api/teams/[id]/items/route");
+const versionsRoute = await import("@/app/api/teams/[id]/items/[itemId]/versions/route");
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+function request(url: string, method = "GET", body?: unknown) {
+  return new NextRequest(`http://localhost:3000${url}`, {
+    method,
+    ...(body === undefined ? {} : { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }),
+  });
+}
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+const team: Team = {
+  id: "team_1",
+  name: "Analytics",
+  members: [
+    { username: "alice", role: "write" },
+    { username: "bob", role: "write", folders: ["finance"] },
+    { username: "carol", role: "read" },
+  ],
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+const query = {
+  id: "q1",
+  name: "Revenue",
+  query: "SELECT 1",
+  connectionType: "postgres",
+  createdAt: "",
+  updatedAt: "",
+};
+
+function as(username: string, role = "user") {
+  mockSession = { username, role };
+}
+
+async function publish(body: Record<string, unknown>) {
+  return itemsRoute.POST(
+    request("/api/teams/team_1/items", "POST", { kind: "saved_queries", folder: "", data: query, ...body }),
+    params("team_1"),
+  );
+}
+
+const items = () => (teamStore.get(key("team_1", "items")) ?? []) as TeamItem[];
+
+beforeEach(() => {
+  teamStore = new Map([[key("team_1", "team"), team]]);
+  storageEnabled = true;
+  as("alice");
+});
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+describe("/api/teams", () => {
+  test("answers 404 without server storage, and 401 without a session", async () => {
+    storageEnabled = false;
+    expect((await teamsRoute.GET()).status).toBe(404);
+    storageEnabled = true;
+    mockSession = null;
+    expect((await teamsRoute.GET()).status).toBe(401);
+  });
+
+  test("lists only the teams the caller is in, with their role there", async () => {
+    teamStore.set(key("team_2", "team"), { ...team, id: "team_2", name: "Other", members: [] });
+
+    as("bob");
+    const { teams } = await (await teamsRoute.GET()).json();
+    expect(teams).toEqual([{ id: "team_1", name: "Analytics", role: "write", folders: ["finance"] }]);
+
+    as("dave");
+    expect((await (await teamsRoute.GET()).json()).teams).toEqual([]);
+  });
+});
+
+describe("/api/teams/[id]/items", () => {
+  test("publishes an item as version 1, owned by the publisher", async () => {
+    const res = await publish({ folder: " /finance//monthly/ " });
+    expect(res.status).toBe(200);
+    const { item } = (await res.json()) as { item: TeamItem };
+
+    expect(item.id).toMatch(/^ti_/);
+    expect(item.folder).toBe("finance/monthly");
+    expect(item.version).toBe(1);
+    expect(item.owner).toBe("alice");
+    expect(item.updatedBy).toBe("alice");
+    expect(items()).toEqual([item]);
+  });
+
+  test("an edit makes the next version, keeps the owner and the replaced version", async () => {
+    const { item } = (await (await publish({})).json()) as { item: TeamItem };
+
+    as("carol");
+    expect((await publish({ id: item.id, baseVersion: 1 })).status).toBe(403);
+
+    as("bob");
+    const moved = await publish({ id: item.id, baseVersion: 1, folder: "finance" });
+    // Bob writes only in finance, and the item is at the top level.
+    expect(moved.status).toBe(403);
+
+    as("alice");
+    const edited = await publish({ id: item.id, baseVersion: 1, data: { ...query, query: "SELECT 2" } });
+    const { item: next } = (await edited.json()) as { item: TeamItem };
+    expect(next.version).toBe(2);
+    expect(next.owner).toBe("alice");
+
+    const res = await versionsRoute.GET(request(`/api/teams/team_1/items/${item.id}/versions`), {
+      params: Promise.resolve({ id: "team_1", itemId: item.id }),
+    });
+    const { versions } = (await res.json()) as { versions: TeamItemVersion[] };
+    expect(versions).toHaveLength(1);
+    expect(versions[0]).toMatchObject({ itemId: item.id, version: 1, data: { query: "SELECT 1" } });
+  });
+
+  test("refuses an edit made from an old version with 409 and the current item", async () => {
+    const { item } = (await (await publish({ folder: "finance" })).json()) as { item: TeamItem };
+    as("bob");
+    await publish({ id: item.id, baseVersion: 1, folder: "finance", data: { ...query, name: "Bob's" } });
+
+    as("alice");
+    const res = await publish({ id: item.id, baseVersion: 1, folder: "finance" });
+    expect(res.status).toBe(409);
+    const body = await res.json();
+    expect(body.error).toBe("bob saved version 2 since you loaded it");
+    expect(body.item.version).toBe(2);
+    expect(items()[0].data).toMatchObject({ name: "Bob's" });
+  });
+
+  test("a write member scoped to folders publishes only inside them", async () => {
+    as("bob");
+    expect((await publish({ folder: "finance/q1" })).status).toBe(200);
+    const res = await publish({ folder: "ops" });
+    expect(res.status).toBe(403);
+    expect((await res.json()).error).toBe("You cannot write in this folder of the team");
+  });
+
+  test("hides the team from a non-member, and rejects a malformed item", async () => {
+    as("dave");
+    expect((await itemsRoute.GET(request("/api/teams/team_1/items"), params("team_1"))).status).toBe(404);
+    expect((await publish({})).status).toBe(404);
+
+    as("alice");
+    const res = await publish({ data: { name: "No query" } });
+    expect(res.status).toBe(400);
+    expect((await publish({ id: "ti_x" })).status).toBe(400);
+  });
+
+  test("filters by kind and deletes an item with its versions", async () => {
+    const { item } = (await (await publish({})).json()) as { item: TeamItem };
+    await publish({ id: item.id, baseVersion: 1 });
+    await publish({
+      kind: "saved_charts",
+      data: { id: "c1", name: "Chart", chartType: "bar", xAxis: "x", yAxis: ["y"] },
+    });
+
+    const listed = await itemsRoute.GET(request("/api/teams/team_1/items?kind=saved_charts"), params("team_1"));
+    expect(((await listed.json()).items as TeamItem[]).map((i) => i.kind)).toEqual(["saved_charts"]);
+
+    as("carol");
+    expect(
+      (await itemsRoute.DELETE(request(`/api/teams/team_1/items?itemId=${item.id}`, "DELETE"), params("team_1")))
+        .status,
+    ).toBe(403);
+
+    as("alice");
+    const res = await itemsRoute.DELETE(
+      request(`/api/teams/team_1/items?itemId=${item.id}`, "DELETE"),
+      params("team_1"),
+    );
+    expect(res.status).toBe(200);
+    expect(items().map((i) => i.kind)).toEqual(["saved_charts"]);
+    expect(teamStore.get(key("team_1", "item_versions"))).toEqual([]);
+  });
+});
+
+describe("/api/admin/teams", () => {
+  test("is admin only", async () => {
+    expect((await adminTeamsRoute.GET()).status).toBe(403);
+  });
+
+  test("creates, changes and deletes a team", async () => {
+    as("admin", "admin");
+    const created = await adminTeamsRoute.POST(
+      request("/api/admin/teams", "POST", {
+        name: " Ops ",
+        members: [{ username: "erin", role: "write", folders: ["runbooks", ""] }],
+      }),
+    );
+    const { team: ops } = (await created.json()) as { team: Team };
+    expect(ops.id).toMatch(/^team_/);
+    expect(ops.name).toBe("Ops");
+    // "" is the whole team, so the folder list is dropped.
+    expect(ops.members).toEqual([{ username: "erin", role: "write" }]);
+
+    const changed = await adminTeamsRoute.POST(
+      request("/api/admin/teams", "POST", { id: ops.id, name: "Ops", members: [] }),
+    );
+    expect(((await changed.json()).team as Team).createdAt).toBe(ops.createdAt);
+
+    const { teams } = await (await adminTeamsRoute.GET()).json();
+    expect((teams as Team[]).map((t) => t.name)).toEqual(["Analytics", "Ops"]);
+
+    await publish({});
+    const res = await adminTeamsRoute.DELETE(request("/api/admin/teams?id=team_1", "DELETE"));
+    expect(res.status).toBe(200);
+    expect([...teamStore.keys()]).toEqual([key(ops.id, "team")]);
+  });
+
+  test("rejects a member listed twice and an unknown team", async () => {
+    as("admin", "admin");
+    const twice = await adminTeamsRoute.POST(
+      request("/api/admin/teams", "POST", {
+        name: "Ops",
+        members: [
+          { username: "erin", role: "read" },
+          { username: "erin", role: "write" },
+        ],
+      }),
+    );
+    expect(twice.status).toBe(400);
+    expect((await twice.json()).error).toBe("erin is listed twice");
+
+    const unknown = await adminTeamsRoute.POST(
+      request("/api/admin/teams", "POST", { id: "team_x", name: "Ops", members: [] }),
+    );
+    expect(unknown.status).toBe(404);
+  });
+});
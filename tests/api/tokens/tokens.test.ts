@@ -0,0 +1,320 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { NextRequest } from "next/server";
+import { createMockProvider } from "../../helpers/mock-provider";
+import { clearRateLimitState } from "@/lib/api/rate-limit";
+import * as dbErrors from "@/lib/db/errors";
+import { API_TOKENS_OWNER } from "@/lib/api-tokens/store";
+import type { ApiToken, ApiTokenSummary } from "@/lib/api-tokens/types";
+
+// ─── Server storage, in memory ──────────────────────────────────────────────
+let userStore = new Map<string, unknown>();
+const key = (userId: string, collection: string) => `${userId}/${collection}`;
+const storage = {
+  getCollection: async (userId: string, collection: string) => userStore.get(key(userId, collection)) ?? null,
+  setCollection: async (userId: string, collection: string, data: unknown) => {
+    userStore.set(key(userId, collection), data);
+  },
+  updateCollection: async (userId: string, collection: string, update: (current: unknown) => unknown) => {
+    userStore.set(key(userId, collection), update(userStore.get(key(userId, collection)) ?? null));
+  },
+};
+let storageEnabled = true;
+
+let mockSession: { username: string; role: string; account?: true; groups?: string[] } | null = {
+  username: "ana",
+  role: "user",
+};
+
+const auditEvents: Record<string, unknown>[] = [];
+const mockProvider = createMockProvider({
+  prepareQueryResult: { query: "SELECT 1", wasLimited: false, limit: 0, offset: 0 },
+  queryResult: { rows: [{ one: 1 }], fields: ["one"], rowCount: 1, executionTime: 2 },
+});
+
+// ─── Mock dependencies BEFORE importing the routes ──────────────────────────
+mock.module("@/lib/auth", () => ({
+  getSession: async () => mockSession,
+  signJWT: mock(async () => "mock-token"),
+  verifyJWT: mock(async () => null),
+  login: mock(async () => {}),
+  logout: mock(async () => {}),
+}));
+
+mock.module("@/lib/storage/factory", () => ({
+  getStorageProvider: async () => (storageEnabled ? storage : null),
+}));
+
+mock.module("@/lib/audit", () => ({
+  getServerAuditBuffer: () => ({ push: () => {} }),
+  emitAuditEvent: (event: Record<string, unknown>) => {
+    auditEvents.push(event);
+    return event;
+  },
+  AuditRingBuffer: class {},
+  loadAuditFromStorage: () => [],
+  saveAuditToStorage: () => {},
+}));
+
+mock.module("@/lib/db", () => ({
+  ...dbErrors,
+  getOrCreateProvider: mock(async () => mockProvider),
+  createDatabaseProvider: mock(async () => mockProvider),
+  removeProvider: mock(async () => {}),
+  clearProviderCache: mock(async () => {}),
+  getProviderCacheStats: mock(() => ({ size: 0, connections: [] })),
+}));
+
+const tokensRoute = await import("@/app/api/tokens/route");
+const queryRoute = await import("@/app/api/db/query/route");
+const { guardRoute } = await import("@/lib/api/require-session");
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+function request(url: string, method = "GET", body?: unknown, headers: Record<string, string> = {}) {
+  return new NextRequest(`http://localhost:3000${url}`, {
+    method,
+    headers: { ...(body === undefined ? {} : { "Content-Type": "application/json" }), ...headers },
+    ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+  });
+}
+
+const readOnly = { id: "own-1", name: "Reporting", type: "postgres", host: "db", writePolicy: "read-only" };
+
+async function createToken(body: Record<string, unknown> = {}) {
+  const res = await tokensRoute.POST(
+    request("/api/tokens", "POST", { name: "ci", scopes: ["query"], expiresInDays: 30, ...body }),
+  );
+  return { res, data: (await res.json()) as { token: ApiTokenSummary; secret: string; error?: string } };
+}
+
+const stored = () => (userStore.get(key(API_TOKENS_OWNER, "api_tokens")) ?? []) as ApiToken[];
+
+/** The owner's last directory sign-in, which is who a token of theirs is now. */
+function signedIn(username: string, role = "user", groups?: string[]) {
+  userStore.set(key(username, "directory_sign_in"), {
+    role,
+    ...(groups && { groups }),
+    source: "oidc",
+    signedInAt: new Date().toISOString(),
+  });
+}
+
+const guard = (secret: string, tokenScope?: "query" | "schema") =>
+  guardRoute({
+    route: "POST /api/db/query",
+    bucket: "query",
+    request: request("/api/db/query", "POST", {}, { Authorization: `Bearer ${secret}` }),
+    ...(tokenScope && { tokenScope }),
+  });
+
+beforeEach(() => {
+  userStore = new Map();
+  storageEnabled = true;
+  mockSession = { username: "ana", role: "user" };
+  signedIn("ana");
+  signedIn("bo");
+  auditEvents.length = 0;
+  clearRateLimitState();
+});
+
+afterEach(() => {
+  delete process.env.RATE_LIMIT_API_TOKEN_MAX;
+});
+
+describe("/api/tokens", () => {
+  test("creates a token whose secret is answered once and stored only as a hash", async () => {
+    const { res, data } = await createToken();
+
+    expect(res.status).toBe(200);
+    expect(data.secret).toMatch(/^ldb_pat_/);
+    expect(data.token).toMatchObject({ name: "ci", scopes: ["query"], expired: false });
+    expect(JSON.stringify(stored())).not.toContain(data.secret);
+    expect(stored()[0]).toMatchObject({ id: data.token.id, owner: "ana", role: "user" });
+    expect(auditEvents).toEqual([
+      expect.objectContaining({ type: "api_token", action: "create", target: data.token.id, user: "ana" }),
+    ]);
+  });
+
+  test("lists only the caller's own tokens, without their hashes", async () => {
+    await createToken({ name: "mine" });
+    mockSession = { username: "bo", role: "user" };
+    await createToken({ name: "theirs" });
+    mockSession = { username: "ana", role: "user" };
+
+    const { tokens } = await (await tokensRoute.GET(request("/api/tokens"))).json();
+
+    expect(tokens.map((t: ApiTokenSummary) => t.name)).toEqual(["mine"]);
+    expect(tokens[0].secretHash).toBeUndefined();
+  });
+
+  test("revokes the caller's own token only", async () => {
+    const { data } = await createToken();
+    mockSession = { username: "bo", role: "user" };
+    const foreign = await tokensRoute.DELETE(request(`/api/tokens?id=${data.token.id}`, "DELETE"));
+    expect(foreign.status).toBe(404);
+
+    mockSession = { username: "ana", role: "user" };
+    const res = await tokensRoute.DELETE(request(`/api/tokens?id=${data.token.id}`, "DELETE"));
+
+    expect(res.status).toBe(200);
+    expect(stored()).toEqual([]);
+    expect(auditEvents.at(-1)).toMatchObject({ type: "api_token", action: "revoke", target: data.token.id });
+    expect("response" in (await guard(data.secret, "query"))).toBe(true);
+  });
+
+  test("lets an admin list and revoke another user's tokens, and no one else", async () => {
+    const { data } = await createToken({ name: "leaked" });
+    mockSession = { username: "bo", role: "user" };
+    expect((await tokensRoute.GET(request("/api/tokens?owner=ana"))).status).toBe(403);
+
+    mockSession = { username: "root", role: "admin" };
+    const { tokens } = await (await tokensRoute.GET(request("/api/tokens?owner=ana"))).json();
+    expect(tokens.map((t: ApiTokenSummary) => t.id)).toEqual([data.token.id]);
+
+    const res = await tokensRoute.DELETE(request(`/api/tokens?id=${data.token.id}`, "DELETE"));
+    expect(res.status).toBe(200);
+    expect(stored()).toEqual([]);
+    expect(auditEvents.at(-1)).toMatchObject({ action: "revoke", target: data.token.id, user: "root" });
+  });
+
+  test("refuses bad input, an eleventh live token, no session and no server storage", async () => {
+    expect((await createToken({ scopes: ["admin"] })).res.status).toBe(400);
+    for (let i = 0; i < 10; i++) await createToken({ name: `t${i}` });
+    const eleventh = await createToken();
+    expect(eleventh.res.status).toBe(409);
+
+    mockSession = null;
+    expect((await tokensRoute.GET(request("/api/tokens"))).status).toBe(401);
+    storageEnabled = false;
+    expect((await tokensRoute.GET(request("/api/tokens"))).status).toBe(404);
+  });
+});
+
+describe("guardRoute with a Bearer token", () => {
+  test("answers the owner's session, marked with the token's id", async () => {
+    const { data } = await createToken();
+    mockSession = null;
+
+    const result = await guard(data.secret, "query");
+
+    expect(result).toEqual({
+      session: expect.objectContaining({ username: "ana", role: "user", tokenId: data.token.id }),
+    });
+  });
+
+  test("refuses an unknown or expired token as unauthenticated, with its own reason", async () => {
+    const { data } = await createToken();
+    userStore.set(
+      key(API_TOKENS_OWNER, "api_tokens"),
+      stored().map((t) => ({ ...t, expiresAt: "2020-01-01T00:00:00.000Z" })),
+    );
+
+    for (const secret of [data.secret, "ldb_pat_unknown"]) {
+      const result = await guard(secret, "query");
+      if (!("response" in result)) throw new Error("expected a refusal");
+      expect(result.response.status).toBe(401);
+      expect(await result.response.json()).toEqual({ error: "Invalid or expired API token" });
+    }
+    expect(auditEvents.filter((e) => e.reason === "invalid_api_token")).toHaveLength(2);
+  });
+
+  test("refuses a route outside the token's scopes, or one that takes no token, and records the token", async () => {
+    const { data } = await createToken({ scopes: ["schema"] });
+
+    for (const scope of ["query", undefined] as const) {
+      const result = await guard(data.secret, scope);
+      if (!("response" in result)) throw new Error("expected a refusal");
+      expect(result.response.status).toBe(403);
+    }
+    expect(auditEvents.filter((e) => e.reason === "insufficient_scope")).toEqual([
+      expect.objectContaining({ user: "ana", tokenId: data.token.id, action: "query" }),
+      expect.objectContaining({ user: "ana", tokenId: data.token.id, action: "denied" }),
+    ]);
+  });
+
+  test("acts as its owner is now: no more than their current role and groups, and not at all once they are no one", async () => {
+    mockSession = { username: "ana", role: "admin", groups: ["dba", "analysts"] };
+    const { data } = await createToken();
+
+    signedIn("ana", "user", ["analysts", "support"]);
+    const demoted = await guard(data.secret, "query");
+    expect("session" in demoted && demoted.session).toMatchObject({ role: "user", groups: ["analysts"] });
+
+    signedIn("ana", "admin");
+    const regrouped = await guard(data.secret, "query");
+    expect("session" in regrouped && regrouped.session).toMatchObject({ role: "admin" });
+    expect("session" in regrouped && regrouped.session.groups).toBeUndefined();
+
+    userStore.delete(key("ana", "directory_sign_in"));
+    expect("response" in (await guard(data.secret, "query"))).toBe(true);
+  });
+
+  test("ends a stored account's tokens when the account's sessions are ended", async () => {
+    mockSession = { username: "ana@example.com", role: "user", account: true };
+    const { data } = await createToken();
+    userStore.set(key("ana@example.com", "local_account"), {
+      email: "ana@example.com",
+      disabled: false,
+      sessionsValidFrom: new Date(Date.now() + 60_000).toISOString(),
+    });
+
+    expect("response" in (await guard(data.secret, "query"))).toBe(true);
+  });
+
+  test("spends the token's own budget, not its owner's", async () => {
+    process.env.RATE_LIMIT_API_TOKEN_MAX = "2";
+    const { data } = await createToken();
+
+    expect("session" in (await guard(data.secret, "query"))).toBe(true);
+    expect("session" in (await guard(data.secret, "query"))).toBe(true);
+    const third = await guard(data.secret, "query");
+
+    if (!("response" in third)) throw new Error("expected a refusal");
+    expect(third.response.status).toBe(429);
+    expect(auditEvents.at(-1)).toMatchObject({ bucket: "api_token", tokenId: data.token.id });
+    // The cookie session of the same user is untouched by it.
+    const browser = await guardRoute({
+      route: "POST /api/db/query",
+      bucket: "query",
+      request: request("/x", "POST", {}),
+    });
+    expect("session" in browser).toBe(true);
+  });
+
+  test("records a write policy's refusal of a token's statement under the token", async () => {
+    const { data } = await createToken();
+    mockSession = null;
+
+    const res = await queryRoute.POST(
+      request(
+        "/api/db/query",
+        "POST",
+        { sql: "DELETE FROM users", connection: readOnly },
+        {
+          Authorization: `Bearer ${data.secret}`,
+        },
+      ),
+    );
+
+    expect(res.status).toBe(403);
+    expect(auditEvents.at(-1)).toMatchObject({ reason: "read_only_connection", user: "ana", tokenId: data.token.id });
+  });
+
+  test("runs a read through the query route", async () => {
+    const { data } = await createToken();
+    mockSession = null;
+
+    const res = await queryRoute.POST(
+      request(
+        "/api/db/query",
+        "POST",
+        { sql: "SELECT 1", connection: { ...readOnly, writePolicy: undefined } },
+        {
+          Authorization: `Bearer ${data.secret}`,
+        },
+      ),
+    );
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).rows).toEqual([{ one: 1 }]);
+  });
+});
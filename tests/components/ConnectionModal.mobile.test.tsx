@@ -152,6 +152,8 @@ function getDefaultForm() {
     setServiceName: mock(() => {}),
     instanceName: "",
     setInstanceName: mock(() => {}),
+    dataCenter: "",
+    setDataCenter: mock(() => {}),
     showSSH: false,
     setShowSSH: mock(() => {}),
     sshEnabled: false,
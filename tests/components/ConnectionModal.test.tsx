@@ -174,6 +174,8 @@ function getDefaultForm() {
     setServiceName: mockSetServiceName,
     instanceName: "",
     setInstanceName: mockSetInstanceName,
+    dataCenter: "",
+    setDataCenter: mock(() => {}),
     showSSH: false,
     setShowSSH: mockSetShowSSH,
     sshEnabled: false,
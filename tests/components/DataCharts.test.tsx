@@ -160,6 +160,11 @@ mock.module("@/lib/storage", () => ({
   },
 }));
 
+mock.module("@/components/TeamPublishDialog", () => ({
+  TeamPublishDialog: ({ kind, data }: { kind: string; data: { name: string } }) =>
+    React.createElement("div", { "data-testid": "publish-dialog" }, `${kind}: ${data.name}`),
+}));
+
 // Context lets each mocked SelectItem invoke its own Select's onValueChange on
 // click, so tests can drive value changes without Radix pointer machinery.
 const SelectChangeContext = React.createContext<((v: string) => void) | undefined>(undefined);
@@ -736,6 +741,31 @@ describe("DataCharts", () => {
     expect(parsed.length).toBe(0);
   });
 
+  test("publishes a saved chart to a team only when team workspaces are on", async () => {
+    const savedCharts = [
+      {
+        id: "1",
+        name: "Revenue by month",
+        chartType: "bar",
+        xAxis: "category",
+        yAxis: ["revenue"],
+        aggregation: "none",
+        dateGrouping: "",
+      },
+    ];
+    localStorage.setItem("libredb_saved_charts", JSON.stringify(savedCharts));
+
+    const { queryByRole, unmount } = render(React.createElement(DataCharts, { result: mockNumericResult }));
+    expect(queryByRole("button", { name: "Publish Revenue by month to a team" })).toBeNull();
+    unmount();
+
+    const { getByRole, queryByTestId } = render(
+      React.createElement(DataCharts, { result: mockNumericResult, teamsEnabled: true }),
+    );
+    fireEvent.click(getByRole("button", { name: "Publish Revenue by month to a team" }));
+    expect(queryByTestId("publish-dialog")?.textContent).toBe("saved_charts: Revenue by month");
+  });
+
   // -----------------------------------------------------------------------
   // Export
   // -----------------------------------------------------------------------
@@ -0,0 +1,209 @@
+import "../setup-dom";
+import "../helpers/mock-sonner";
+import "../helpers/mock-navigation";
+
+import { mock } from "bun:test";
+import React from "react";
+import type { CellHighlight } from "@/components/ResultsGrid";
+import type { QueryResult } from "@/lib/types";
+
+// ── Mock ResultsGrid: capture what the diff hands it ─────────────────────────
+
+let gridProps: {
+  result?: QueryResult;
+  cellHighlight?: (row: Record<string, unknown>, columnId: string) => CellHighlight | undefined;
+} = {};
+
+mock.module("@/components/ResultsGrid", () => ({
+  ResultsGrid: (props: typeof gridProps) => {
+    gridProps = props;
+    return React.createElement("div", { "data-testid": "results-grid" }, `${props.result?.rows.length} rows`);
+  },
+}));
+
+mock.module("@/components/ui/select", () => ({
+  Select: ({ children }: { children: React.ReactNode }) => React.createElement("div", null, children),
+  SelectTrigger: ({ children }: { children: React.ReactNode }) => React.createElement("div", null, children),
+  SelectContent: ({ children }: { children: React.ReactNode }) => React.createElement("div", null, children),
+  SelectItem: ({ children }: { children: React.ReactNode }) => React.createElement("div", null, children),
+  SelectValue: ({ placeholder }: { placeholder?: string }) => React.createElement("span", null, placeholder),
+}));
+
+mock.module("@/hooks/use-all-connections", () => ({
+  useAllConnections: () => ({ connections: [], loading: false }),
+}));
+
+const mockDownloadText = mock((_text: string, _type: string, _name: string) => {});
+mock.module("@/lib/export/download", () => ({
+  downloadText: mockDownloadText,
+  downloadBlob: mock(() => {}),
+}));
+
+// ── Mock /api/db/data-diff ───────────────────────────────────────────────────
+
+const diffResponse = {
+  keyColumns: ["id"],
+  columns: ["id", "name"],
+  sourceOnlyColumns: ["extra"],
+  targetOnlyColumns: [],
+  rows: [
+    { action: "inserted", key: { id: 2 }, source: { id: 2, name: "Grace" }, changedColumns: [] },
+    {
+      action: "changed",
+      key: { id: 1 },
+      source: { id: 1, name: "Ada" },
+      target: { id: 1, name: "Ada L." },
+      changedColumns: ["name"],
+    },
+    { action: "deleted", key: { id: 3 }, target: { id: 3, name: "Alan" }, changedColumns: [] },
+  ],
+  summary: { inserted: 1, deleted: 1, changed: 1, unchanged: 4 },
+  truncated: false,
+  dialect: "postgres",
+  script: 'BEGIN;\nDELETE FROM users WHERE "id" = 3;\nCOMMIT;',
+  scriptUnavailable: null,
+};
+
+let response: { ok: boolean; data: unknown } = { ok: true, data: diffResponse };
+const mockFetch = mock(async (_url: string, _init?: RequestInit) => ({
+  ok: response.ok,
+  json: async () => response.data,
+}));
+const originalFetch = globalThis.fetch;
+
+// ── Imports AFTER mocks ──────────────────────────────────────────────────────
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { render, fireEvent, cleanup, waitFor } from "@testing-library/react";
+import { DataDiff } from "@/components/DataDiff";
+import { mockSchema } from "../fixtures/schemas";
+import { mockPostgresConnection } from "../fixtures/connections";
+
+function renderDiff() {
+  return render(<DataDiff schema={mockSchema} connection={mockPostgresConnection} />);
+}
+
+/** Name a table on both sides and compare them. */
+async function compareTables(view: ReturnType<typeof renderDiff>) {
+  fireEvent.change(view.getByLabelText("Source table"), { target: { value: "users" } });
+  fireEvent.change(view.getByLabelText("Target table"), { target: { value: "users" } });
+  fireEvent.click(view.getByText("Compare"));
+  await waitFor(() => expect(mockFetch).toHaveBeenCalled());
+}
+
+describe("DataDiff", () => {
+  beforeEach(() => {
+    response = { ok: true, data: diffResponse };
+    gridProps = {};
+    mockFetch.mockClear();
+    mockDownloadText.mockClear();
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    cleanup();
+    globalThis.fetch = originalFetch;
+  });
+
+  test("Compare is disabled until both sides name something", () => {
+    const view = renderDiff();
+    const compare = view.getByText("Compare").closest("button")!;
+
+    expect(compare.disabled).toBe(true);
+    fireEvent.change(view.getByLabelText("Source table"), { target: { value: "users" } });
+    expect(compare.disabled).toBe(true);
+    fireEvent.change(view.getByLabelText("Target table"), { target: { value: "users" } });
+    expect(compare.disabled).toBe(false);
+  });
+
+  test("sends both sides and the key columns", async () => {
+    const view = renderDiff();
+    fireEvent.change(view.getByLabelText("Key columns"), { target: { value: " id, tenant_id ," } });
+    fireEvent.click(view.getByLabelText("Target side: query"));
+    fireEvent.change(view.getByLabelText("Target query"), { target: { value: "SELECT * FROM users_copy" } });
+    fireEvent.change(view.getByLabelText("Source table"), { target: { value: "users" } });
+    fireEvent.click(view.getByText("Compare"));
+    await waitFor(() => expect(mockFetch).toHaveBeenCalled());
+
+    const [url, init] = mockFetch.mock.calls[0];
+    const body = JSON.parse(String(init?.body));
+    expect(url).toBe("/api/db/data-diff");
+    expect(body.source).toMatchObject({ table: "users" });
+    expect(body.target).toMatchObject({ sql: "SELECT * FROM users_copy" });
+    expect(body.target.table).toBeUndefined();
+    expect(body.keyColumns).toEqual(["id", "tenant_id"]);
+  });
+
+  test("draws each difference as a grid row led by what the script does to it", async () => {
+    const view = renderDiff();
+    await compareTables(view);
+    await waitFor(() => expect(view.queryByTestId("results-grid")).not.toBeNull());
+
+    const { result, cellHighlight } = gridProps;
+    expect(result?.fields).toEqual(["change", "id", "name"]);
+    expect(result?.rows.map((row) => row.change)).toEqual(["insert", "update", "delete"]);
+    expect(result?.rows[1].name).toBe("Ada L. → Ada");
+    expect(result?.rows[2].name).toBe("Alan");
+
+    expect(cellHighlight?.(result!.rows[0], "name")).toBe("inserted");
+    expect(cellHighlight?.(result!.rows[1], "name")).toBe("changed");
+    expect(cellHighlight?.(result!.rows[1], "id")).toBeUndefined();
+    expect(cellHighlight?.(result!.rows[2], "id")).toBe("deleted");
+    expect(view.getByText("Not compared: extra")).not.toBeNull();
+    expect(view.getByText("4 unchanged")).not.toBeNull();
+  });
+
+  test("filters the rows by action", async () => {
+    const view = renderDiff();
+    await compareTables(view);
+    await waitFor(() => expect(view.queryByTestId("results-grid")).not.toBeNull());
+
+    fireEvent.click(view.getByText("Deleted (1)"));
+    expect(gridProps.result?.rows.map((row) => row.change)).toEqual(["delete"]);
+  });
+
+  test("shows and downloads the sync script", async () => {
+    const view = renderDiff();
+    await compareTables(view);
+    await waitFor(() => expect(view.queryByText("Sync Script")).not.toBeNull());
+
+    fireEvent.click(view.getByText("Sync Script"));
+    expect(view.getByText(/DELETE FROM users/)).not.toBeNull();
+    fireEvent.click(view.getByText("Download .sql"));
+    expect(mockDownloadText).toHaveBeenCalledWith(diffResponse.script, "text/sql", "reconcile-users.sql");
+  });
+
+  test("says why there is no script when the server withheld it", async () => {
+    response = {
+      ok: true,
+      data: { ...diffResponse, script: null, scriptUnavailable: "The target is a query, so there is no table." },
+    };
+    const view = renderDiff();
+    await compareTables(view);
+    await waitFor(() => expect(view.queryByText("Sync Script")).not.toBeNull());
+
+    fireEvent.click(view.getByText("Sync Script"));
+    expect(view.getByText("The target is a query, so there is no table.")).not.toBeNull();
+    expect(view.queryByText("Download .sql")).toBeNull();
+  });
+
+  test("reports a match when nothing differs", async () => {
+    response = {
+      ok: true,
+      data: { ...diffResponse, rows: [], summary: { inserted: 0, deleted: 0, changed: 0, unchanged: 7 } },
+    };
+    const view = renderDiff();
+    await compareTables(view);
+
+    await waitFor(() => expect(view.queryByText("No differences found: 7 rows match")).not.toBeNull());
+  });
+
+  test("shows the server's error", async () => {
+    response = { ok: false, data: { error: "The target has more than one row with id=1." } };
+    const view = renderDiff();
+    await compareTables(view);
+
+    await waitFor(() => expect(view.queryByText(/more than one row with id=1/)).not.toBeNull());
+    expect(view.queryByTestId("results-grid")).toBeNull();
+  });
+});
@@ -1,12 +1,13 @@
 import "../setup-dom";
-import "../helpers/mock-sonner";
+import { mockToastSuccess } from "../helpers/mock-sonner";
 import "../helpers/mock-navigation";
 
 import React from "react";
 import { afterEach, describe, expect, mock, test } from "bun:test";
-import { cleanup, render, within, fireEvent, act } from "@testing-library/react";
+import { cleanup, render, within, fireEvent, act, waitFor } from "@testing-library/react";
+import { mockGlobalFetch, restoreGlobalFetch } from "../helpers/mock-fetch";
 import { DataImportModal } from "@/components/DataImportModal";
-import type { TableSchema } from "@/lib/types";
+import type { DatabaseConnection, TableSchema } from "@/lib/types";
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -19,10 +20,12 @@ const sampleTables: TableSchema[] = [
 
 /**
  * Simulate a file upload by creating a mock File and dispatching a change event,
- * then synchronously invoking the FileReader's onload callback.
+ * then synchronously invoking the FileReader's onload callback. `size` stands in for
+ * the file's length, so a file "too large for the tab" needs no megabytes of content.
  */
-function simulateFileUpload(container: HTMLElement, content: string, filename: string) {
+function simulateFileUpload(container: HTMLElement, content: string, filename: string, size?: number) {
   const file = new File([content], filename, { type: filename.endsWith(".json") ? "application/json" : "text/csv" });
+  if (size !== undefined) Object.defineProperty(file, "size", { value: size });
 
   // Capture FileReader.readAsText calls and synchronously fire onload
   const origFileReader = globalThis.FileReader;
@@ -750,7 +753,7 @@ describe("DataImportModal", () => {
     });
 
     // Default is existing table — select dropdown visible
-    expect(baseElement.querySelector("select")).not.toBeNull();
+    expect(baseElement.querySelector("#import-target-table")).not.toBeNull();
 
     // Switch to new table
     act(() => {
@@ -758,14 +761,160 @@ describe("DataImportModal", () => {
     });
 
     expect(baseElement.querySelector('input[placeholder="imported_data"]')).not.toBeNull();
-    expect(baseElement.querySelector("select")).toBeNull();
+    expect(baseElement.querySelector("#import-target-table")).toBeNull();
 
     // Switch back to existing table
     act(() => {
       fireEvent.click(within(baseElement).getByText("Existing Table"));
     });
 
-    expect(baseElement.querySelector("select")).not.toBeNull();
+    expect(baseElement.querySelector("#import-target-table")).not.toBeNull();
+  });
+
+  // ── Other formats, column types and the server import ───────────────────
+
+  test("previews an NDJSON file one object per line", () => {
+    const { baseElement } = render(<DataImportModal isOpen onClose={noop} onImport={noop} tables={sampleTables} />);
+
+    act(() => {
+      simulateFileUpload(baseElement, '{"name":"Alice","age":30}\n{"name":"Bob"}\n', "people.ndjson");
+    });
+
+    const body = within(baseElement);
+    expect(body.queryByText(/2 rows, 2 columns/)).not.toBeNull();
+    expect(body.queryByText("Bob")).not.toBeNull();
+  });
+
+  test("a new table takes the column types chosen in the mapping", () => {
+    const mockImport = mock(() => {});
+    const { baseElement } = render(
+      <DataImportModal isOpen onClose={noop} onImport={mockImport} tables={sampleTables} />,
+    );
+
+    act(() => {
+      simulateFileUpload(baseElement, "name,age\nAlice,30", "data.csv");
+    });
+    act(() => {
+      fireEvent.click(within(baseElement).getByText("Configure Import"));
+    });
+    act(() => {
+      fireEvent.click(within(baseElement).getByText("New Table"));
+    });
+
+    const ageType = within(baseElement).getByLabelText("Type for age") as HTMLSelectElement;
+    expect(ageType.value).toBe("INTEGER");
+    act(() => {
+      fireEvent.change(ageType, { target: { value: "TEXT" } });
+    });
+    act(() => {
+      fireEvent.click(within(baseElement).getByText("Review SQL"));
+    });
+    act(() => {
+      fireEvent.click(within(baseElement).getByText("Execute Import"));
+    });
+
+    const sql = (mockImport.mock.calls[0] as unknown[])[0] as string;
+    expect(sql).toContain("  age TEXT");
+    expect(sql).toContain("('Alice', '30')");
+  });
+
+  describe("a file too large for the tab", () => {
+    const connection = { id: "conn-1", name: "Local", type: "postgres" } as DatabaseConnection;
+    const large = 6 * 1024 * 1024;
+
+    afterEach(() => {
+      restoreGlobalFetch();
+    });
+
+    function reachReadyStep(baseElement: HTMLElement) {
+      act(() => {
+        simulateFileUpload(baseElement, "name,age\nAlice,30\nBob,25\nCarol,4", "big.csv", large);
+      });
+      act(() => {
+        fireEvent.click(within(baseElement).getByText("Configure Import"));
+      });
+      act(() => {
+        fireEvent.change(baseElement.querySelector("#import-target-table") as HTMLSelectElement, {
+          target: { value: "users" },
+        });
+      });
+      act(() => {
+        fireEvent.click(within(baseElement).getByText("Review SQL"));
+      });
+    }
+
+    test("is previewed from its first complete lines", () => {
+      const { baseElement } = render(
+        <DataImportModal isOpen onClose={noop} onImport={noop} tables={sampleTables} connection={connection} />,
+      );
+
+      act(() => {
+        simulateFileUpload(baseElement, "name,age\nAlice,30\nBob,25\nCarol,4", "big.csv", large);
+      });
+
+      // The slice ends mid-row; "Carol,4" is not known to be the whole row.
+      expect(within(baseElement).queryByText(/2\+ rows/)).not.toBeNull();
+      expect(within(baseElement).queryByText("Carol")).toBeNull();
+      expect(baseElement.textContent).toContain("too large to import from the tab");
+    });
+
+    test("is uploaded to the import route instead of run as SQL in the tab", async () => {
+      const mockImport = mock(() => {});
+      const mockClose = mock(() => {});
+      let sent: FormData | null = null;
+      const fetchMock = mockGlobalFetch({
+        "/api/db/import": async (req) => {
+          sent = await req.formData();
+          return { json: { rowsInserted: 3, batches: 1, atomic: true } };
+        },
+      });
+      const { baseElement } = render(
+        <DataImportModal
+          isOpen
+          onClose={mockClose}
+          onImport={mockImport}
+          tables={sampleTables}
+          connection={connection}
+        />,
+      );
+
+      reachReadyStep(baseElement);
+      expect(within(baseElement).queryByText("Copy SQL")).toBeNull();
+
+      act(() => {
+        fireEvent.click(within(baseElement).getByText("Execute Import"));
+      });
+
+      await waitFor(() => expect(mockClose).toHaveBeenCalledTimes(1));
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(mockImport).not.toHaveBeenCalled();
+      const options = JSON.parse(String(sent!.get("options")));
+      expect(options).toMatchObject({
+        connection: { id: "conn-1" },
+        format: "csv",
+        table: "users",
+        createTable: false,
+        columnTypes: ["TEXT", "INTEGER"],
+      });
+      expect(sent!.get("file")).toBeInstanceOf(Blob);
+      expect(mockToastSuccess).toHaveBeenCalledWith("Imported 3 rows into users");
+    });
+
+    test("shows the server's error and stays open", async () => {
+      mockGlobalFetch({ "/api/db/import": { status: 400, json: { error: "Failed to parse file: bad" } } });
+      const mockClose = mock(() => {});
+      const { baseElement } = render(
+        <DataImportModal isOpen onClose={mockClose} onImport={noop} tables={sampleTables} connection={connection} />,
+      );
+
+      reachReadyStep(baseElement);
+      act(() => {
+        fireEvent.click(within(baseElement).getByText("Execute Import"));
+      });
+
+      await waitFor(() => expect(within(baseElement).queryByText("Failed to parse file: bad")).not.toBeNull());
+      expect(mockClose).not.toHaveBeenCalled();
+    });
   });
 
   // ── A11y semantics (#100) ──────────────────────────────────────────────────
@@ -120,6 +120,23 @@ describe("LoginPage", () => {
     expect(mockToastSuccess).toHaveBeenCalledWith("Welcome back, user!");
   });
 
+  test("in LDAP mode asks for a username and sends it as the login name", async () => {
+    const mockFetch = mock(() => Promise.resolve(new Response(JSON.stringify({ success: true, role: "user" }))));
+    globalThis.fetch = mockFetch as never;
+    const user = userEvent.setup();
+    const { container, getByLabelText } = render(<LoginForm authProvider="ldap" />);
+
+    const username = getByLabelText("Username or email") as HTMLInputElement;
+    expect(username.type).toBe("text");
+    await user.type(username, "alice");
+    await user.type(container.querySelector('input[type="password"]')!, "s3cret");
+    fireEvent.submit(container.querySelector("form")!);
+
+    await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+    const [, options] = mockFetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(options.body as string)).toEqual({ email: "alice", password: "s3cret" });
+  });
+
   test("shows error toast on failed login", async () => {
     globalThis.fetch = mock(() =>
       Promise.resolve(new Response(JSON.stringify({ success: false, message: "Invalid email or password" }))),
@@ -4,7 +4,7 @@ import "../helpers/mock-navigation";
 
 import { mock } from "bun:test";
 
-// Build mock config that matches the shape from the real module
+// The policy GET /api/admin/masking-policy answers
 const mockConfig = {
   enabled: true,
   patterns: [
@@ -25,18 +25,28 @@ const mockConfig = {
       isBuiltin: false,
     },
   ],
-  roleSettings: {
-    admin: { canToggle: true, canReveal: true },
-    user: { canToggle: false, canReveal: false },
-  },
+  rules: [{ connection: "prod", table: "people", column: "national_code", maskType: "full" as const }],
 };
 
-const mockSaveMaskingConfig = mock(() => {});
-const mockLoadMaskingConfig = mock(() => structuredClone(mockConfig));
+let editable = true;
+const mockFetch = mock(
+  async (_url: string, init?: RequestInit): Promise<{ ok: boolean; json: () => Promise<unknown> }> => {
+    if (init?.method === "PUT") {
+      return { ok: true, json: async () => ({ policy: JSON.parse(String(init.body)) }) };
+    }
+    return {
+      ok: true,
+      json: async () => ({
+        policy: structuredClone(mockConfig),
+        connections: [{ seedId: "prod", name: "Production" }],
+        editable,
+      }),
+    };
+  },
+);
+const originalFetch = globalThis.fetch;
 
 mock.module("@/lib/data-masking", () => ({
-  loadMaskingConfig: mockLoadMaskingConfig,
-  saveMaskingConfig: mockSaveMaskingConfig,
   getPreviewMasked: mock((type: string) => {
     if (type === "email") return "j***@example.com";
     return "****";
@@ -52,16 +62,32 @@ mock.module("@/lib/data-masking", () => ({
     date: { label: "Date", sample: "1990-05-15" },
     financial: { label: "Financial", sample: "85000.00" },
     custom: { label: "Custom", sample: "Custom Data" },
+    token: { label: "Token (joinable)", sample: "john@example.com" },
+    format_preserving: { label: "Format-preserving", sample: "4111-1111-1111-1111" },
+    date_shift: { label: "Date shift per entity", sample: "1990-05-15" },
   },
-  DEFAULT_MASKING_CONFIG: structuredClone(mockConfig),
+  KEYED_MASK_TYPES: new Set(["token", "format_preserving", "date_shift"]),
+  DEFAULT_MASKING_CONFIG: { ...structuredClone(mockConfig), rules: undefined },
 }));
 
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { render, fireEvent, within, cleanup, act } from "@testing-library/react";
+import { render, fireEvent, within, cleanup, act, waitFor } from "@testing-library/react";
 import React from "react";
 
 import { MaskingSettings } from "@/components/MaskingSettings";
 
+/** Renders the settings and waits for the policy to arrive. */
+async function renderSettings() {
+  const rendered = render(<MaskingSettings />);
+  await rendered.findByText("Data Masking Settings");
+  return rendered;
+}
+
+function putBody(): Record<string, unknown> {
+  const call = mockFetch.mock.calls.find(([, init]) => init?.method === "PUT");
+  return JSON.parse(String(call?.[1]?.body));
+}
+
 // =============================================================================
 // MaskingSettings Tests
 // =============================================================================
@@ -69,36 +95,37 @@ import { MaskingSettings } from "@/components/MaskingSettings";
 describe("MaskingSettings", () => {
   afterEach(() => {
     cleanup();
+    globalThis.fetch = originalFetch;
   });
 
   beforeEach(() => {
-    mockSaveMaskingConfig.mockClear();
-    mockLoadMaskingConfig.mockClear();
+    editable = true;
+    mockFetch.mockClear();
     mockToastSuccess.mockClear();
     mockToastError.mockClear();
-    mockLoadMaskingConfig.mockImplementation(() => structuredClone(mockConfig));
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
   });
 
   // ── Title ─────────────────────────────────────────────────────────────────
 
-  test('renders "Data Masking Settings" title', () => {
-    const { container } = render(<MaskingSettings />);
+  test('renders "Data Masking Settings" title', async () => {
+    const { container } = await renderSettings();
     const view = within(container);
     expect(view.queryByText("Data Masking Settings")).not.toBeNull();
   });
 
   // ── Global toggle ─────────────────────────────────────────────────────────
 
-  test("shows global enable toggle", () => {
-    const { container } = render(<MaskingSettings />);
+  test("shows global enable toggle", async () => {
+    const { container } = await renderSettings();
     const view = within(container);
     expect(view.queryByText("Enable Data Masking Globally")).not.toBeNull();
   });
 
   // ── Existing patterns ─────────────────────────────────────────────────────
 
-  test("renders existing patterns", () => {
-    const { container } = render(<MaskingSettings />);
+  test("renders existing patterns", async () => {
+    const { container } = await renderSettings();
     const view = within(container);
 
     expect(view.queryByText("Email")).not.toBeNull();
@@ -107,60 +134,134 @@ describe("MaskingSettings", () => {
 
   // ── Toggle pattern switch count ───────────────────────────────────────────
 
-  test("renders correct number of switch toggles", () => {
-    const { container } = render(<MaskingSettings />);
+  test("renders correct number of switch toggles", async () => {
+    const { container } = await renderSettings();
 
-    // Switches: 1 global + 2 pattern toggles + 4 role switches (2 per role x 2 roles) = 7
+    // Switches: 1 global + 2 pattern toggles = 3
     const switches = container.querySelectorAll('button[role="switch"]');
-    expect(switches.length).toBeGreaterThanOrEqual(3);
+    expect(switches.length).toBe(3);
   });
 
-  // ── Role permissions ──────────────────────────────────────────────────────
+  // ── Reveal ────────────────────────────────────────────────────────────────
 
-  test("role permission switches render for admin and user", () => {
-    const { container } = render(<MaskingSettings />);
-    const view = within(container);
-
-    expect(view.queryByText("Role Permissions")).not.toBeNull();
-    expect(view.queryByText("Admin")).not.toBeNull();
-    expect(view.queryByText("User")).not.toBeNull();
-
-    const canToggleLabels = view.getAllByText("Can toggle");
-    const canRevealLabels = view.getAllByText("Can reveal");
-    expect(canToggleLabels.length).toBe(2);
-    expect(canRevealLabels.length).toBe(2);
+  test("says that revealing is the Unmask permission, and audited", async () => {
+    const { container } = await renderSettings();
+    const text = container.textContent || "";
+    expect(text).toContain("Unmask permission");
+    expect(text).toContain("audit log");
+    expect(within(container).queryByText("Can reveal")).toBeNull();
   });
 
   // ── Save button ───────────────────────────────────────────────────────────
 
-  test("save button calls saveMaskingConfig", () => {
-    const { container } = render(<MaskingSettings />);
+  test("save button PUTs the policy to the server", async () => {
+    const { container } = await renderSettings();
     const view = within(container);
 
     const saveButton = view.getByText("Save Config");
     fireEvent.click(saveButton);
 
-    expect(mockSaveMaskingConfig).toHaveBeenCalledTimes(1);
-    expect(mockToastSuccess).toHaveBeenCalledWith("Masking configuration saved");
+    await waitFor(() => expect(mockToastSuccess).toHaveBeenCalledWith("Masking policy saved"));
+    const [url] = mockFetch.mock.calls.find(([, init]) => init?.method === "PUT")!;
+    expect(url).toBe("/api/admin/masking-policy");
+    expect(putBody()).toEqual({ enabled: true, patterns: mockConfig.patterns, rules: mockConfig.rules });
+  });
+
+  test("without server storage the policy is shown and cannot be saved", async () => {
+    editable = false;
+    const { container } = await renderSettings();
+    const view = within(container);
+
+    expect(view.queryByText(/Server storage is off/)).not.toBeNull();
+    expect(view.getByText("Save Config").closest("button")!.disabled).toBe(true);
+    expect(view.getByText("Reset Defaults").closest("button")!.disabled).toBe(true);
+  });
+
+  test("shows the error when the policy cannot be read", async () => {
+    mockFetch.mockImplementationOnce(async () => ({
+      ok: false,
+      json: async () => ({ error: "Unauthorized. Admin access required." }),
+    }));
+    const { findByText } = render(<MaskingSettings />);
+    expect(await findByText("Unauthorized. Admin access required.")).not.toBeNull();
+  });
+
+  // ── Column rules ──────────────────────────────────────────────────────────
+
+  test("lists the column rules with their connection, table and column", async () => {
+    const { getByLabelText } = await renderSettings();
+    expect((getByLabelText("Rule 1 table") as HTMLInputElement).value).toBe("people");
+    expect((getByLabelText("Rule 1 column") as HTMLInputElement).value).toBe("national_code");
+    expect(getByLabelText("Rule 1 connection").textContent).toContain("Production");
+  });
+
+  test("a rule added and edited is saved with the policy", async () => {
+    const { container, getByLabelText } = await renderSettings();
+    const view = within(container);
+
+    act(() => {
+      fireEvent.click(view.getByText("Add Rule"));
+    });
+    fireEvent.change(getByLabelText("Rule 2 table"), { target: { value: "customers" } });
+    fireEvent.change(getByLabelText("Rule 2 column"), { target: { value: "iban" } });
+    fireEvent.click(view.getByText("Save Config"));
+
+    await waitFor(() => expect(mockToastSuccess).toHaveBeenCalled());
+    expect(putBody().rules).toEqual([
+      mockConfig.rules[0],
+      { connection: "*", table: "customers", column: "iban", maskType: "full" },
+    ]);
+  });
+
+  test("a removed rule is left out of the saved policy", async () => {
+    const { container, getByLabelText } = await renderSettings();
+
+    act(() => {
+      fireEvent.click(getByLabelText("Remove rule 1"));
+    });
+    fireEvent.click(within(container).getByText("Save Config"));
+
+    await waitFor(() => expect(mockToastSuccess).toHaveBeenCalled());
+    expect(putBody().rules).toEqual([]);
+  });
+
+  test("a date shift rule is saved with the entity column it is keyed on", async () => {
+    const shifted = { connection: "*", table: "visits", column: "admitted_on", maskType: "date_shift" };
+    mockFetch.mockImplementationOnce(async () => ({
+      ok: true,
+      json: async () => ({ policy: { ...structuredClone(mockConfig), rules: [shifted] }, connections: [], editable }),
+    }));
+    const { container, getByLabelText } = await renderSettings();
+
+    fireEvent.change(getByLabelText("Rule 1 entity column"), { target: { value: "patient_id" } });
+    fireEvent.click(within(container).getByText("Save Config"));
+
+    await waitFor(() => expect(mockToastSuccess).toHaveBeenCalled());
+    expect(putBody().rules).toEqual([{ ...shifted, entityColumn: "patient_id" }]);
+  });
+
+  test("only a date shift rule asks for an entity column", async () => {
+    const { queryByLabelText } = await renderSettings();
+    expect(queryByLabelText("Rule 1 entity column")).toBeNull();
   });
 
   // ── Reset defaults ────────────────────────────────────────────────────────
 
-  test("reset defaults button works", () => {
-    const { container } = render(<MaskingSettings />);
+  test("reset defaults button works", async () => {
+    const { container } = await renderSettings();
     const view = within(container);
 
     const resetButton = view.getByText("Reset Defaults");
     fireEvent.click(resetButton);
 
-    expect(mockSaveMaskingConfig).toHaveBeenCalledTimes(1);
-    expect(mockToastSuccess).toHaveBeenCalledWith("Masking configuration reset to defaults");
+    await waitFor(() => expect(mockToastSuccess).toHaveBeenCalledWith("Masking policy reset to defaults"));
+    expect(putBody().rules).toEqual([]);
   });
 
   // ── Delete non-builtin pattern ────────────────────────────────────────────
 
-  test("delete button only appears on non-builtin patterns and removes it", () => {
-    const { container } = render(<MaskingSettings />);
+  test("delete button only appears on non-builtin patterns and removes it", async () => {
+    const { container } = await renderSettings();
     const view = within(container);
 
     // Delete buttons have the text-red-400 class and Trash2 icon
@@ -179,16 +280,16 @@ describe("MaskingSettings", () => {
 
   // ── Add New Pattern button ─────────────────────────────────────────────
 
-  test('"Add Pattern" button renders', () => {
-    const { container } = render(<MaskingSettings />);
+  test('"Add Pattern" button renders', async () => {
+    const { container } = await renderSettings();
     const view = within(container);
     expect(view.queryByText("Add Pattern")).not.toBeNull();
   });
 
   // ── Global toggle changes state ────────────────────────────────────────
 
-  test("global toggle switch can be clicked", () => {
-    const { container } = render(<MaskingSettings />);
+  test("global toggle switch can be clicked", async () => {
+    const { container } = await renderSettings();
     const switches = container.querySelectorAll('button[role="switch"]');
     // First switch is the global toggle
     expect(switches.length).toBeGreaterThanOrEqual(1);
@@ -198,8 +299,8 @@ describe("MaskingSettings", () => {
 
   // ── Pattern enabled badge shown ──────────────────────────────────────
 
-  test("enabled pattern shows mask type badge", () => {
-    const { container } = render(<MaskingSettings />);
+  test("enabled pattern shows mask type badge", async () => {
+    const { container } = await renderSettings();
     // Email pattern is enabled=true in mock config — badge + column pattern text both say 'email'
     const emailElements = container.querySelectorAll('[data-slot="badge"]');
     const emailBadge = Array.from(emailElements).find((el) => el.textContent === "email");
@@ -208,16 +309,16 @@ describe("MaskingSettings", () => {
 
   // ── Preview section shows masked data ─────────────────────────────────
 
-  test("preview section renders", () => {
-    const { container } = render(<MaskingSettings />);
+  test("preview section renders", async () => {
+    const { container } = await renderSettings();
     const view = within(container);
     expect(view.queryByText("Preview")).not.toBeNull();
   });
 
   // ── Pattern mask type badge renders ───────────────────────────────────
 
-  test("pattern mask type badge renders for each pattern", () => {
-    const { container } = render(<MaskingSettings />);
+  test("pattern mask type badge renders for each pattern", async () => {
+    const { container } = await renderSettings();
     const badges = container.querySelectorAll('[data-slot="badge"]');
     const badgeTexts = Array.from(badges).map((b) => b.textContent);
     // email and phone mask type badges
@@ -227,8 +328,8 @@ describe("MaskingSettings", () => {
 
   // ── Edit button exists for patterns ───────────────────────────────────
 
-  test("edit button renders for patterns", () => {
-    const { container } = render(<MaskingSettings />);
+  test("edit button renders for patterns", async () => {
+    const { container } = await renderSettings();
     // Edit buttons have pencil icon (lucide-pencil class)
     const pencilIcons = container.querySelectorAll(".lucide-pencil");
     // There should be at least 2 edit icons (one per pattern)
@@ -237,8 +338,8 @@ describe("MaskingSettings", () => {
 
   // ── Column patterns info shown ────────────────────────────────────────
 
-  test("column patterns info shown for patterns", () => {
-    const { container } = render(<MaskingSettings />);
+  test("column patterns info shown for patterns", async () => {
+    const { container } = await renderSettings();
     const text = container.textContent || "";
     // Email pattern has columnPatterns: ['email']
     expect(text).toContain("email");
@@ -246,19 +347,10 @@ describe("MaskingSettings", () => {
     expect(text).toContain("phone");
   });
 
-  // ── Role permission labels ──────────────────────────────────────────
-
-  test("role section shows Can toggle and Can reveal labels", () => {
-    const { container } = render(<MaskingSettings />);
-    const view = within(container);
-    expect(view.getAllByText("Can toggle").length).toBe(2);
-    expect(view.getAllByText("Can reveal").length).toBe(2);
-  });
-
   // ── Builtin badge for builtin patterns ──────────────────────────────
 
-  test("builtin patterns show builtin badge", () => {
-    const { container } = render(<MaskingSettings />);
+  test("builtin patterns show builtin badge", async () => {
+    const { container } = await renderSettings();
     const view = within(container);
     // Email is builtin
     expect(view.queryByText("builtin")).not.toBeNull();
@@ -266,12 +358,11 @@ describe("MaskingSettings", () => {
 
   // ── togglePatternEnabled ─────────────────────────────────────────────
 
-  test("toggling a pattern switch changes its enabled state", () => {
-    const { container } = render(<MaskingSettings />);
+  test("toggling a pattern switch changes its enabled state", async () => {
+    const { container } = await renderSettings();
     const switches = container.querySelectorAll('button[role="switch"]');
-    // Switch order: global(0), admin-toggle(1), admin-reveal(2),
-    //               user-toggle(3), user-reveal(4), email-pattern(5), phone-pattern(6)
-    const emailSwitch = switches[5];
+    // Switch order: global(0), email-pattern(1), phone-pattern(2)
+    const emailSwitch = switches[1];
     expect(emailSwitch).not.toBeUndefined();
 
     // Email is enabled=true initially (aria-checked)
@@ -284,10 +375,10 @@ describe("MaskingSettings", () => {
     expect(emailSwitch.getAttribute("data-state")).toBe("unchecked");
   });
 
-  test("toggling phone pattern switch changes its state", () => {
-    const { container } = render(<MaskingSettings />);
+  test("toggling phone pattern switch changes its state", async () => {
+    const { container } = await renderSettings();
     const switches = container.querySelectorAll('button[role="switch"]');
-    const phoneSwitch = switches[6];
+    const phoneSwitch = switches[2];
 
     // Phone is enabled=false initially
     expect(phoneSwitch.getAttribute("data-state")).toBe("unchecked");
@@ -298,64 +389,10 @@ describe("MaskingSettings", () => {
     expect(phoneSwitch.getAttribute("data-state")).toBe("checked");
   });
 
-  // ── updateRoleSetting ────────────────────────────────────────────────
-
-  test("admin canToggle switch updates role setting", () => {
-    const { container } = render(<MaskingSettings />);
-    const switches = container.querySelectorAll('button[role="switch"]');
-    const adminCanToggle = switches[1];
-
-    // Initially checked (admin.canToggle = true)
-    expect(adminCanToggle.getAttribute("data-state")).toBe("checked");
-
-    act(() => {
-      fireEvent.click(adminCanToggle);
-    });
-    expect(adminCanToggle.getAttribute("data-state")).toBe("unchecked");
-  });
-
-  test("admin canReveal switch updates role setting", () => {
-    const { container } = render(<MaskingSettings />);
-    const switches = container.querySelectorAll('button[role="switch"]');
-    const adminCanReveal = switches[2];
-
-    expect(adminCanReveal.getAttribute("data-state")).toBe("checked");
-    act(() => {
-      fireEvent.click(adminCanReveal);
-    });
-    expect(adminCanReveal.getAttribute("data-state")).toBe("unchecked");
-  });
-
-  test("user canToggle switch updates role setting", () => {
-    const { container } = render(<MaskingSettings />);
-    const switches = container.querySelectorAll('button[role="switch"]');
-    const userCanToggle = switches[3];
-
-    // Initially unchecked (user.canToggle = false)
-    expect(userCanToggle.getAttribute("data-state")).toBe("unchecked");
-
-    act(() => {
-      fireEvent.click(userCanToggle);
-    });
-    expect(userCanToggle.getAttribute("data-state")).toBe("checked");
-  });
-
-  test("user canReveal switch updates role setting", () => {
-    const { container } = render(<MaskingSettings />);
-    const switches = container.querySelectorAll('button[role="switch"]');
-    const userCanReveal = switches[4];
-
-    expect(userCanReveal.getAttribute("data-state")).toBe("unchecked");
-    act(() => {
-      fireEvent.click(userCanReveal);
-    });
-    expect(userCanReveal.getAttribute("data-state")).toBe("checked");
-  });
-
   // ── openEditDialog ───────────────────────────────────────────────────
 
-  test("clicking edit button opens edit dialog with pattern data", () => {
-    const { container, baseElement } = render(<MaskingSettings />);
+  test("clicking edit button opens edit dialog with pattern data", async () => {
+    const { container, baseElement } = await renderSettings();
     // Click the first edit (pencil) button — for Email pattern
     const editButtons = container.querySelectorAll(".lucide-pencil");
     const emailEditBtn = editButtons[0].closest("button")!;
@@ -372,8 +409,8 @@ describe("MaskingSettings", () => {
     expect(nameInput.value).toBe("Email");
   });
 
-  test("edit dialog shows column patterns in textarea", () => {
-    const { container, baseElement } = render(<MaskingSettings />);
+  test("edit dialog shows column patterns in textarea", async () => {
+    const { container, baseElement } = await renderSettings();
     const editButtons = container.querySelectorAll(".lucide-pencil");
     act(() => {
       fireEvent.click(editButtons[0].closest("button")!);
@@ -386,8 +423,8 @@ describe("MaskingSettings", () => {
 
   // ── openNewDialog ────────────────────────────────────────────────────
 
-  test("Add Pattern button opens new pattern dialog", () => {
-    const { container, baseElement } = render(<MaskingSettings />);
+  test("Add Pattern button opens new pattern dialog", async () => {
+    const { container, baseElement } = await renderSettings();
     const addBtn = within(container).getByText("Add Pattern");
 
     act(() => {
@@ -404,8 +441,8 @@ describe("MaskingSettings", () => {
 
   // ── handleDialogSave — validation ────────────────────────────────────
 
-  test("dialog save with empty name shows error toast", () => {
-    const { container, baseElement } = render(<MaskingSettings />);
+  test("dialog save with empty name shows error toast", async () => {
+    const { container, baseElement } = await renderSettings();
     act(() => {
       fireEvent.click(within(container).getByText("Add Pattern"));
     });
@@ -422,8 +459,8 @@ describe("MaskingSettings", () => {
     expect(mockToastError).toHaveBeenCalledWith("Pattern name is required");
   });
 
-  test("dialog save with name but no patterns shows error toast", () => {
-    const { container, baseElement } = render(<MaskingSettings />);
+  test("dialog save with name but no patterns shows error toast", async () => {
+    const { container, baseElement } = await renderSettings();
     act(() => {
       fireEvent.click(within(container).getByText("Add Pattern"));
     });
@@ -446,8 +483,8 @@ describe("MaskingSettings", () => {
 
   // ── handleDialogSave — new pattern ───────────────────────────────────
 
-  test("dialog save creates new pattern and adds to list", () => {
-    const { container, baseElement } = render(<MaskingSettings />);
+  test("dialog save creates new pattern and adds to list", async () => {
+    const { container, baseElement } = await renderSettings();
     act(() => {
       fireEvent.click(within(container).getByText("Add Pattern"));
     });
@@ -477,8 +514,8 @@ describe("MaskingSettings", () => {
 
   // ── handleDialogSave — edit existing pattern ─────────────────────────
 
-  test("dialog save updates existing pattern", () => {
-    const { container, baseElement } = render(<MaskingSettings />);
+  test("dialog save updates existing pattern", async () => {
+    const { container, baseElement } = await renderSettings();
     // Click edit on Email pattern
     const editButtons = container.querySelectorAll(".lucide-pencil");
     act(() => {
@@ -513,8 +550,8 @@ describe("MaskingSettings", () => {
 
   // ── Dialog cancel ────────────────────────────────────────────────────
 
-  test("dialog cancel closes without saving", () => {
-    const { container, baseElement } = render(<MaskingSettings />);
+  test("dialog cancel closes without saving", async () => {
+    const { container, baseElement } = await renderSettings();
     act(() => {
       fireEvent.click(within(container).getByText("Add Pattern"));
     });
@@ -539,8 +576,8 @@ describe("MaskingSettings", () => {
 
   // ── Preview section — enabled patterns only ──────────────────────────
 
-  test("preview section shows only enabled patterns", () => {
-    const { container } = render(<MaskingSettings />);
+  test("preview section shows only enabled patterns", async () => {
+    const { container } = await renderSettings();
     const text = container.textContent || "";
     // Email is enabled, should show preview
     expect(text).toContain("j***@example.com");
@@ -549,16 +586,8 @@ describe("MaskingSettings", () => {
   // ── A11y semantics (#100): labels are programmatically associated ───────
 
   describe("a11y semantics", () => {
-    test("role switches carry distinct role-qualified accessible names", () => {
-      const { getByLabelText } = render(<MaskingSettings />);
-      expect(getByLabelText("Admin can toggle")).not.toBeNull();
-      expect(getByLabelText("Admin can reveal")).not.toBeNull();
-      expect(getByLabelText("User can toggle")).not.toBeNull();
-      expect(getByLabelText("User can reveal")).not.toBeNull();
-    });
-
-    test("pattern dialog fields are reachable by their labels", () => {
-      const { container, baseElement } = render(<MaskingSettings />);
+    test("pattern dialog fields are reachable by their labels", async () => {
+      const { container, baseElement } = await renderSettings();
       const addBtn = within(container).getByText("Add Pattern");
       act(() => {
         fireEvent.click(addBtn);
@@ -0,0 +1,79 @@
+import "../setup-dom";
+import "../helpers/mock-sonner";
+import "../helpers/mock-navigation";
+
+import React from "react";
+import { afterEach, describe, expect, test } from "bun:test";
+import { cleanup, render } from "@testing-library/react";
+import { MigrationHistory } from "@/components/MigrationHistory";
+import type { MigrationLedgerEntry } from "@/lib/migrations/types";
+import type { SchemaSnapshot } from "@/lib/types";
+
+const applied: MigrationLedgerEntry = {
+  id: "mig_1",
+  checksum: "c1",
+  description: "Migrate to Before migration",
+  status: "applied",
+  statementCount: 3,
+  statementsApplied: 3,
+  appliedAt: "2026-01-11T10:00:00.000Z",
+  appliedBy: "alice",
+  executionMs: 42,
+  targetSnapshotId: "s1",
+  error: null,
+};
+
+const produced: SchemaSnapshot = {
+  id: "s2",
+  connectionId: "c1",
+  connectionName: "prod-db",
+  databaseType: "postgres",
+  label: "Migrated to Before migration",
+  createdAt: new Date("2026-01-11T10:00:01Z"),
+  schema: [],
+  migrationId: "mig_1",
+};
+
+describe("MigrationHistory", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  test("says so when nothing has been applied", () => {
+    const { getByText } = render(<MigrationHistory migrations={[]} snapshots={[]} />);
+    expect(getByText("No migrations applied to this connection yet.")).toBeTruthy();
+  });
+
+  test("lists an entry with who ran it and how many statements ran", () => {
+    const { getByText, container } = render(<MigrationHistory migrations={[applied]} snapshots={[]} />);
+
+    expect(getByText("Applied")).toBeTruthy();
+    expect(getByText("Migrate to Before migration")).toBeTruthy();
+    expect(container.textContent).toContain("alice");
+    expect(container.textContent).toContain("3/3 statements");
+    expect(container.textContent).not.toContain("Snapshot:");
+  });
+
+  test("names the snapshot the migration produced", () => {
+    const { container } = render(<MigrationHistory migrations={[applied]} snapshots={[produced]} />);
+    expect(container.textContent).toContain("Snapshot: Migrated to Before migration");
+  });
+
+  test("a failure part-way says the earlier statements remain applied", () => {
+    const failed = { ...applied, status: "failed" as const, statementsApplied: 1, error: "Table 'b' already exists" };
+    const { getByText, container } = render(<MigrationHistory migrations={[failed]} snapshots={[]} />);
+
+    expect(getByText("Failed")).toBeTruthy();
+    expect(container.textContent).toContain("1/3 statements");
+    expect(container.textContent).toContain("remain applied");
+    expect(getByText("Table 'b' already exists")).toBeTruthy();
+  });
+
+  test("a rolled-back attempt does not claim a partial change", () => {
+    const rolledBack = { ...applied, status: "rolled_back" as const, statementsApplied: 0, error: "boom" };
+    const { getByText, container } = render(<MigrationHistory migrations={[rolledBack]} snapshots={[]} />);
+
+    expect(getByText("Rolled back")).toBeTruthy();
+    expect(container.textContent).not.toContain("remain applied");
+  });
+});
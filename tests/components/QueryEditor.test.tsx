@@ -165,6 +165,11 @@ mock.module("@/lib/editor/sql-completions", () => ({
   registerSQLCompletionProvider: mock(() => ({ dispose: mock(() => {}) })),
 }));
 
+// ── Mock editor/cql-completions ─────────────────────────────────────────────
+mock.module("@/lib/editor/cql-completions", () => ({
+  registerCQLCompletionProvider: mock(() => ({ dispose: mock(() => {}) })),
+}));
+
 // ── Mock editor/mongodb-completions ─────────────────────────────────────────
 mock.module("@/lib/editor/mongodb-completions", () => ({
   registerMongoDBCompletionProvider: mock(() => ({ dispose: mock(() => {}) })),
@@ -1658,6 +1663,29 @@ describe("QueryEditor", () => {
     expect(onChange).not.toHaveBeenCalled();
   });
 
+  test("Format button is hidden for a CQL connection, which the SQL formatter would rewrite", () => {
+    const props = createDefaultProps({
+      value: "SELECT * FROM events // recent",
+      capabilities: { ...defaultCapabilities, queryDialect: "cql" },
+    });
+    const { queryByText } = render(React.createElement(QueryEditor, props));
+    expect(queryByText("Format")).toBeNull();
+  });
+
+  test("Format on an Elasticsearch connection formats a Query DSL request as JSON", () => {
+    const onChange = mock(() => {});
+    const props = createDefaultProps({
+      onChange,
+      value: '{"index":"logs-*","query":{"match_all":{}}}',
+      capabilities: { ...defaultCapabilities, queryDialect: "elasticsearch" },
+    });
+    const { queryByText, queryByTestId } = render(React.createElement(QueryEditor, props));
+    fireEvent.click(queryByText("Format")!);
+    const editor = queryByTestId("mock-monaco-editor") as HTMLTextAreaElement;
+    expect(editor.value).toBe('{\n  "index": "logs-*",\n  "query": {\n    "match_all": {}\n  }\n}');
+    expect(onChange).toHaveBeenCalled();
+  });
+
   test("ref format is a no-op for languages without a formatter (e.g. libredb)", () => {
     const onChange = mock(() => {});
     const editorRef = React.createRef<import("@/components/QueryEditor").QueryEditorRef>();
@@ -1806,4 +1834,35 @@ describe("QueryEditor", () => {
     const { queryByTestId } = render(React.createElement(QueryEditor, createDefaultProps({ schemaContext: schema })));
     expect(queryByTestId("mock-monaco-editor")).not.toBeNull();
   });
+
+  // -----------------------------------------------------------------------
+  // Parameter panel: placeholders are read under the dialect's grammar
+  // -----------------------------------------------------------------------
+
+  test("shows a parameter row for each placeholder the dialect reads", () => {
+    const { queryByLabelText } = render(
+      React.createElement(
+        QueryEditor,
+        createDefaultProps({
+          value: "SELECT * FROM t WHERE id = :id AND n = @n AND c = x::int",
+          dialect: "postgres",
+          onParametersChange: mock(() => {}),
+        }),
+      ),
+    );
+    expect(queryByLabelText(":id")).not.toBeNull();
+    expect(queryByLabelText("@n")).toBeNull();
+    expect(queryByLabelText(":int")).toBeNull();
+  });
+
+  test("asks for no parameters without a dialect or without a change handler", () => {
+    const value = "SELECT * FROM t WHERE id = :id";
+    const { queryByText, rerender } = render(
+      React.createElement(QueryEditor, createDefaultProps({ value, onParametersChange: mock(() => {}) })),
+    );
+    expect(queryByText("Parameters")).toBeNull();
+
+    rerender(React.createElement(QueryEditor, createDefaultProps({ value, dialect: "postgres" })));
+    expect(queryByText("Parameters")).toBeNull();
+  });
 });
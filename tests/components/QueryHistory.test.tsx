@@ -142,6 +142,25 @@ describe("QueryHistory", () => {
     expect(onSelectQuery).toHaveBeenCalledWith("SELECT * FROM users");
   });
 
+  test("shows the values an entry was bound to and restores them with it", () => {
+    const parameters = [
+      { name: ":name", type: "text" as const, value: "ada" },
+      { name: ":age", type: "number" as const, value: "36" },
+      { name: ":deleted", type: "null" as const, value: "" },
+    ];
+    mockGetHistory.mockImplementation(() => [{ ...mockHistory[0], parameters }]);
+    const onSelectQuery = mock(() => {});
+    const { container } = render(<QueryHistory {...createDefaultProps({ onSelectQuery })} />);
+    const view = within(container);
+
+    expect(view.getByText(":name = 'ada'")).toBeTruthy();
+    expect(view.getByText(":age = 36")).toBeTruthy();
+    expect(view.getByText(":deleted = NULL")).toBeTruthy();
+
+    fireEvent.click(view.getByTitle("Restore Query"));
+    expect(onSelectQuery).toHaveBeenCalledWith("SELECT * FROM users", { parameters });
+  });
+
   // ── Clear history ─────────────────────────────────────────────────────────
 
   test("clear history clears state after confirm", () => {
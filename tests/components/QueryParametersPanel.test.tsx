@@ -0,0 +1,109 @@
+import "../setup-dom";
+import "../helpers/mock-sonner";
+import "../helpers/mock-navigation";
+
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import React from "react";
+import { cleanup, fireEvent, render } from "@testing-library/react";
+import type { QueryParameter } from "@/lib/types";
+
+// ── Mock Select: a native <select> per picker, so a test can choose a value ──
+
+mock.module("@/components/ui/select", () => {
+  const SelectContext = React.createContext<{ value?: string; onValueChange?: (v: string) => void }>({});
+  return {
+    Select: ({
+      value,
+      onValueChange,
+      children,
+    }: {
+      value?: string;
+      onValueChange?: (v: string) => void;
+      children: React.ReactNode;
+    }) => React.createElement(SelectContext.Provider, { value: { value, onValueChange } }, children),
+    SelectTrigger: ({ "aria-label": label, id }: { "aria-label"?: string; id?: string }) => {
+      const { value, onValueChange } = React.useContext(SelectContext);
+      return React.createElement(
+        "select",
+        {
+          "aria-label": label,
+          id,
+          value,
+          onChange: (e: { target: { value: string } }) => onValueChange?.(e.target.value),
+        },
+        ["text", "number", "boolean", "date", "null", "true", "false"].map((v) =>
+          React.createElement("option", { key: v, value: v }, v),
+        ),
+      );
+    },
+    SelectContent: () => null,
+    SelectItem: () => null,
+    SelectValue: () => null,
+  };
+});
+
+import { QueryParametersPanel } from "@/components/QueryParametersPanel";
+
+describe("QueryParametersPanel", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  test("shows one row per placeholder, starting as empty text", () => {
+    const { getByLabelText } = render(
+      <QueryParametersPanel names={[":id", ":name"]} parameters={undefined} onChange={() => {}} />,
+    );
+    expect((getByLabelText(":id") as HTMLInputElement).value).toBe("");
+    expect((getByLabelText(":name type") as HTMLSelectElement).value).toBe("text");
+  });
+
+  test("shows the value held for a placeholder in its type's input", () => {
+    const parameters: QueryParameter[] = [
+      { name: ":since", type: "date", value: "2026-10-19" },
+      { name: ":limit", type: "number", value: "10" },
+    ];
+    const { getByLabelText } = render(
+      <QueryParametersPanel names={[":since", ":limit"]} parameters={parameters} onChange={() => {}} />,
+    );
+    const since = getByLabelText(":since") as HTMLInputElement;
+    expect(since.type).toBe("date");
+    expect(since.value).toBe("2026-10-19");
+    expect((getByLabelText(":limit") as HTMLInputElement).type).toBe("number");
+  });
+
+  test("replaces the changed value and keeps values for names no longer in the text", () => {
+    const onChange = mock((_: QueryParameter[]) => {});
+    const gone: QueryParameter = { name: ":old", type: "text", value: "kept" };
+    const { getByLabelText } = render(<QueryParametersPanel names={[":id"]} parameters={[gone]} onChange={onChange} />);
+
+    fireEvent.change(getByLabelText(":id"), { target: { value: "42" } });
+    expect(onChange).toHaveBeenCalledWith([gone, { name: ":id", type: "text", value: "42" }]);
+  });
+
+  test("switching to boolean picks a value the picker can show", () => {
+    const onChange = mock((_: QueryParameter[]) => {});
+    const { getByLabelText } = render(
+      <QueryParametersPanel
+        names={[":active"]}
+        parameters={[{ name: ":active", type: "text", value: "yes" }]}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.change(getByLabelText(":active type"), { target: { value: "boolean" } });
+    expect(onChange).toHaveBeenCalledWith([{ name: ":active", type: "boolean", value: "true" }]);
+  });
+
+  test("a NULL parameter has nothing to type", () => {
+    const { getByLabelText } = render(
+      <QueryParametersPanel
+        names={[":deleted"]}
+        parameters={[{ name: ":deleted", type: "null", value: "x" }]}
+        onChange={() => {}}
+      />,
+    );
+    const input = getByLabelText(":deleted") as HTMLInputElement;
+    expect(input.disabled).toBe(true);
+    expect(input.value).toBe("");
+  });
+});
@@ -173,6 +173,30 @@ describe("QuerySafetyDialog", () => {
     expect(onClose.mock.calls.length).toBeGreaterThan(1);
   });
 
+  test("offers to request approval instead of executing when the statement is not its author's to run", async () => {
+    globalThis.fetch = mock(async () =>
+      createStreamResponse({ chunks: [JSON.stringify({ riskLevel: "critical", summary: "Deletes every row." })] }),
+    ) as unknown as typeof fetch;
+    const onRequestApproval = mock(() => {});
+
+    const { findByText, queryByText } = render(
+      <QuerySafetyDialog
+        isOpen
+        query="DELETE FROM users"
+        schemaContext=""
+        onClose={onClose}
+        onProceed={onProceed}
+        onRequestApproval={onRequestApproval}
+      />,
+    );
+
+    await findByText("Deletes every row.");
+    expect(queryByText("Execute Anyway")).toBeNull();
+    fireEvent.click(queryByText("Request Approval")!);
+    expect(onRequestApproval).toHaveBeenCalledTimes(1);
+    expect(onProceed).not.toHaveBeenCalled();
+  });
+
   test("truncates query preview at 300 characters with ellipsis", async () => {
     const longQuery = "SELECT " + "a".repeat(350) + " FROM users";
     const safePayload = {
@@ -994,6 +1018,43 @@ describe("isDangerousQuery", () => {
     expect(isDangerousQuery("DROP TABLE users", "mongodb")).toBe(true);
   });
 
+  // MongoDB text has no keyword for the readings above to find, so it is read as
+  // the operation the provider will run: the updates, the deletes and the index and
+  // collection changes that are SQL's DROP and ALTER ask, whichever syntax they are
+  // written in.
+  test("prompts for a MongoDB write that changes or removes what is there", () => {
+    expect(isDangerousQuery("db.users.deleteMany({})", "mongodb")).toBe(true);
+    expect(
+      isDangerousQuery('{"collection":"users","operation":"updateOne","update":{"$set":{"a":1}}}', "mongodb"),
+    ).toBe(true);
+    expect(isDangerousQuery("db.users.findOneAndUpdate({}, { $set: { a: 1 } })", "mongodb")).toBe(true);
+    expect(isDangerousQuery("db.users.dropIndex('email_1')", "mongodb")).toBe(true);
+    expect(isDangerousQuery("db.users.renameCollection('people')", "mongodb")).toBe(true);
+    expect(isDangerousQuery("db.users.aggregate([{ $merge: 'copy' }])", "mongodb")).toBe(true);
+  });
+
+  test("prompts for a MongoDB bulk write unless every model is an insert", () => {
+    expect(isDangerousQuery("db.users.bulkWrite([{ insertOne: { document: {} } }])", "mongodb")).toBe(false);
+    expect(
+      isDangerousQuery(
+        "db.users.bulkWrite([{ insertOne: { document: {} } }, { deleteOne: { filter: { a: 1 } } }])",
+        "mongodb",
+      ),
+    ).toBe(true);
+    expect(isDangerousQuery('{"collection":"users","operation":"bulkWrite","operations":[null]}', "mongodb")).toBe(
+      true,
+    );
+  });
+
+  test("does not prompt for MongoDB reads, inserts and creations", () => {
+    expect(isDangerousQuery("db.users.find({ status: 'deleted' }).explain('executionStats')", "mongodb")).toBe(false);
+    expect(isDangerousQuery("db.users.insertOne({ a: 1 })", "mongodb")).toBe(false);
+    expect(isDangerousQuery("db.users.createIndex({ email: 1 }, { unique: true })", "mongodb")).toBe(false);
+    expect(isDangerousQuery("db.createCollection('people', { validator: { $jsonSchema: {} } })", "mongodb")).toBe(
+      false,
+    );
+  });
+
   // ── The dialect decides what the statement says (#292) ──────────────────
   //
   // This predicate is the last check before a destructive statement runs, and it
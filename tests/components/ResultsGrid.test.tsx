@@ -137,7 +137,7 @@ mock.module("lucide-react", () => {
 
 // ── Imports AFTER mocks ─────────────────────────────────────────────────────
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { render, fireEvent, cleanup, act } from "@testing-library/react";
+import { render, fireEvent, cleanup, act, waitFor } from "@testing-library/react";
 import { ResultsGrid, type CellChange } from "@/components/ResultsGrid";
 import type { QueryResult } from "@/lib/types";
 
@@ -908,6 +908,58 @@ describe("ResultsGrid", () => {
     });
   });
 
+  // ── Masked by the server (`result.masking`) ───────────────────────────────
+
+  describe("server masking", () => {
+    const serverMasked: QueryResult = {
+      ...mockResult,
+      rows: mockResult.rows.map((row) => ({ ...row, email: "a****@e******" })),
+      masking: { columns: ["email"], canReveal: true },
+    };
+
+    test("shows the values as they came, whatever the local settings say", () => {
+      mockShouldMask.mockReturnValue(false);
+      mockMaskValueByPattern.mockClear();
+
+      const { container } = render(React.createElement(ResultsGrid, { result: serverMasked }));
+
+      expect(container.textContent).toContain("a****@e******");
+      expect(container.textContent).not.toContain("***a");
+      expect(mockMaskValueByPattern).not.toHaveBeenCalled();
+      expect(container.querySelector('[title="Masked column"]')).not.toBeNull();
+    });
+
+    test("reveals a value by asking the server for its row and column", async () => {
+      const onRevealCell = mock(async () => ({ value: "bob@example.com" }));
+      const { container } = render(React.createElement(ResultsGrid, { result: serverMasked, onRevealCell }));
+
+      const buttons = container.querySelectorAll('button[title="Reveal value (10s)"]');
+      fireEvent.click(buttons[1]);
+
+      await waitFor(() => expect(container.textContent).toContain("bob@example.com"));
+      expect(onRevealCell).toHaveBeenCalledWith(1, "email");
+    });
+
+    test("leaves the cell masked when the server refuses", async () => {
+      const onRevealCell = mock(async () => null);
+      const { container } = render(React.createElement(ResultsGrid, { result: serverMasked, onRevealCell }));
+
+      fireEvent.click(container.querySelector('button[title="Reveal value (10s)"]')!);
+
+      await waitFor(() => expect(onRevealCell).toHaveBeenCalled());
+      expect(container.textContent).not.toContain("alice@example.com");
+    });
+
+    test("offers no reveal when the server says the caller cannot", () => {
+      const result = { ...serverMasked, masking: { columns: ["email"], canReveal: false } };
+      const { container } = render(
+        React.createElement(ResultsGrid, { result, onRevealCell: mock(async () => ({ value: "x" })) }),
+      );
+
+      expect(container.querySelector('button[title="Reveal value (10s)"]')).toBeNull();
+    });
+  });
+
   // ── Declared column types (#273) ──────────────────────────────────────────
 
   describe("declared column types", () => {
@@ -1037,6 +1089,17 @@ describe("ResultsGrid", () => {
     expect(descending[2]).toContain("Alice");
   });
 
+  test("marks the cells cellHighlight names, by row object rather than index", () => {
+    const cellHighlight = mock((row: Record<string, unknown>, columnId: string) =>
+      row.name === "Bob" && columnId === "email" ? ("changed" as const) : undefined,
+    );
+    const { container } = render(React.createElement(ResultsGrid, { result: mockResult, cellHighlight }));
+
+    const marked = Array.from(container.querySelectorAll(".bg-yellow-500\\/15"));
+    expect(marked.map((cell) => cell.textContent)).toEqual(["bob@example.com"]);
+    expect(cellHighlight).toHaveBeenCalledWith(mockResult.rows[1], "email");
+  });
+
   // ── A11y semantics (#100): keyboard-reachable interactive elements ────────
 
   describe("a11y semantics", () => {
@@ -4,7 +4,7 @@ import "../helpers/mock-navigation";
 
 import React from "react";
 import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
-import { cleanup, fireEvent, render } from "@testing-library/react";
+import { act, cleanup, fireEvent, render } from "@testing-library/react";
 
 const mockSavedQueries = [
   {
@@ -36,7 +36,30 @@ mock.module("date-fns", () => ({
   },
 }));
 
+const scheduleDialogProps: { savedQuery?: { id: string }; onClose?: () => void }[] = [];
+mock.module("@/components/ScheduleDialog", () => ({
+  ScheduleDialog: (props: { savedQuery: { id: string }; onClose: () => void }) => {
+    scheduleDialogProps.push(props);
+    return <div data-testid="schedule-dialog">scheduling {props.savedQuery.id}</div>;
+  },
+}));
+
+mock.module("@/components/TeamItems", () => ({
+  TeamItems: (props: { search: string }) => <div data-testid="team-items">team items for "{props.search}"</div>,
+}));
+
+const publishDialogProps: { kind?: string; data?: { id: string }; onClose?: () => void }[] = [];
+mock.module("@/components/TeamPublishDialog", () => ({
+  TeamPublishDialog: (props: { kind: string; data: { id: string }; onClose: () => void }) => {
+    publishDialogProps.push(props);
+    return <div data-testid="publish-dialog">publishing {props.data.id}</div>;
+  },
+}));
+
 import { SavedQueries } from "@/components/SavedQueries";
+import type { DatabaseConnection } from "@/lib/types";
+
+const postgres = { id: "c1", name: "Orders DB", type: "postgres", createdAt: new Date() } as DatabaseConnection;
 
 describe("SavedQueries", () => {
   afterEach(() => {
@@ -62,7 +85,10 @@ describe("SavedQueries", () => {
     const { getByRole } = render(<SavedQueries onSelectQuery={onSelectQuery} />);
     fireEvent.click(getByRole("button", { name: "Active Users" }));
     expect(onSelectQuery).toHaveBeenCalledTimes(1);
-    expect(onSelectQuery).toHaveBeenCalledWith("SELECT * FROM users WHERE active = true");
+    expect(onSelectQuery).toHaveBeenCalledWith("SELECT * FROM users WHERE active = true", {
+      savedQueryId: "q1",
+      parameters: undefined,
+    });
   });
 
   test("edit button loads the query for editing", () => {
@@ -70,7 +96,22 @@ describe("SavedQueries", () => {
     const { getByRole } = render(<SavedQueries onSelectQuery={onSelectQuery} />);
     fireEvent.click(getByRole("button", { name: "Edit Active Users" }));
     expect(onSelectQuery).toHaveBeenCalledTimes(1);
-    expect(onSelectQuery).toHaveBeenCalledWith("SELECT * FROM users WHERE active = true");
+    expect(onSelectQuery).toHaveBeenCalledWith("SELECT * FROM users WHERE active = true", {
+      savedQueryId: "q1",
+      parameters: undefined,
+    });
+  });
+
+  test("loading a query brings the parameter values it last ran with", () => {
+    const parameters = [{ name: ":active", type: "boolean", value: "true" }];
+    mockGetSavedQueries.mockImplementation(() => [{ ...mockSavedQueries[0], parameters }]);
+    const onSelectQuery = mock(() => {});
+    const { getByRole } = render(<SavedQueries onSelectQuery={onSelectQuery} />);
+    fireEvent.click(getByRole("button", { name: "Active Users" }));
+    expect(onSelectQuery).toHaveBeenCalledWith("SELECT * FROM users WHERE active = true", {
+      savedQueryId: "q1",
+      parameters,
+    });
   });
 
   test("card actions are revealed on keyboard focus and non-hover devices", () => {
@@ -124,4 +165,66 @@ describe("SavedQueries", () => {
     const { queryByText } = render(<SavedQueries onSelectQuery={mock(() => {})} />);
     expect(queryByText("No saved queries found")).not.toBeNull();
   });
+
+  // ── Scheduling ────────────────────────────────────────────────────────────
+
+  test("offers no schedule without a scheduling connection", () => {
+    const { queryByRole } = render(<SavedQueries onSelectQuery={mock(() => {})} />);
+    expect(queryByRole("button", { name: "Schedule Active Users" })).toBeNull();
+  });
+
+  test("offers no schedule on a connection of another type", () => {
+    const mysql = { ...postgres, type: "mysql" } as DatabaseConnection;
+    const { queryByRole } = render(<SavedQueries onSelectQuery={mock(() => {})} schedulingConnection={mysql} />);
+    expect(queryByRole("button", { name: "Schedule Active Users" })).toBeNull();
+  });
+
+  test("opens the schedule dialog for the query, and closes it", () => {
+    scheduleDialogProps.length = 0;
+    const { getByRole, queryByTestId } = render(
+      <SavedQueries onSelectQuery={mock(() => {})} schedulingConnection={postgres} />,
+    );
+
+    fireEvent.click(getByRole("button", { name: "Schedule Active Users" }));
+    expect(queryByTestId("schedule-dialog")?.textContent).toBe("scheduling q1");
+
+    act(() => scheduleDialogProps.at(-1)!.onClose!());
+    expect(queryByTestId("schedule-dialog")).toBeNull();
+  });
+
+  // ── Team workspaces ───────────────────────────────────────────────────────
+
+  test("offers neither the Team list nor publishing without team workspaces", () => {
+    const { queryByRole } = render(<SavedQueries onSelectQuery={mock(() => {})} />);
+    expect(queryByRole("button", { name: "Team" })).toBeNull();
+    expect(queryByRole("button", { name: "Publish Active Users to a team" })).toBeNull();
+  });
+
+  test("switches between the user's own queries and the team's", () => {
+    const { getByRole, getByPlaceholderText, queryByTestId, queryByText } = render(
+      <SavedQueries onSelectQuery={mock(() => {})} teamsEnabled />,
+    );
+    expect(getByRole("button", { name: "Mine" }).getAttribute("aria-pressed")).toBe("true");
+
+    fireEvent.change(getByPlaceholderText(/Search/), { target: { value: "rev" } });
+    fireEvent.click(getByRole("button", { name: "Team" }));
+    expect(getByRole("button", { name: "Team" }).getAttribute("aria-pressed")).toBe("true");
+    expect(queryByTestId("team-items")?.textContent).toBe('team items for "rev"');
+    expect(queryByText("Active Users")).toBeNull();
+
+    fireEvent.click(getByRole("button", { name: "Mine" }));
+    expect(queryByTestId("team-items")).toBeNull();
+  });
+
+  test("opens the publish dialog for the query, and closes it", () => {
+    publishDialogProps.length = 0;
+    const { getByRole, queryByTestId } = render(<SavedQueries onSelectQuery={mock(() => {})} teamsEnabled />);
+
+    fireEvent.click(getByRole("button", { name: "Publish Active Users to a team" }));
+    expect(queryByTestId("publish-dialog")?.textContent).toBe("publishing q1");
+    expect(publishDialogProps.at(-1)!.kind).toBe("saved_queries");
+
+    act(() => publishDialogProps.at(-1)!.onClose!());
+    expect(queryByTestId("publish-dialog")).toBeNull();
+  });
 });
@@ -0,0 +1,201 @@
+import "../setup-dom";
+import "../helpers/mock-sonner";
+import "../helpers/mock-navigation";
+
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import React from "react";
+import { cleanup, fireEvent, render, waitFor, within } from "@testing-library/react";
+import type { QueryResult, DatabaseConnection, SavedQuery } from "@/lib/types";
+import type { QuerySchedule, ScheduleRun } from "@/lib/scheduler/types";
+
+// ── Mock ResultsGrid and Select: capture what the dialog hands them ──────────
+
+let gridResult: QueryResult | undefined;
+mock.module("@/components/ResultsGrid", () => ({
+  ResultsGrid: (props: { result: QueryResult }) => {
+    gridResult = props.result;
+    return React.createElement("div", { "data-testid": "results-grid" }, `${props.result.rows.length} rows`);
+  },
+}));
+
+mock.module("@/components/ui/select", () => ({
+  Select: ({ children }: { children: React.ReactNode }) => React.createElement("div", null, children),
+  SelectTrigger: ({ children }: { children: React.ReactNode }) => React.createElement("div", null, children),
+  SelectContent: ({ children }: { children: React.ReactNode }) => React.createElement("div", null, children),
+  SelectItem: ({ children }: { children: React.ReactNode }) => React.createElement("div", null, children),
+  SelectValue: () => null,
+}));
+
+import { ScheduleDialog } from "@/components/ScheduleDialog";
+
+// ── Mock /api/schedules ──────────────────────────────────────────────────────
+
+const savedQuery: SavedQuery = {
+  id: "q1",
+  name: "Failed orders",
+  query: "SELECT * FROM orders WHERE failed",
+  connectionType: "postgres",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+};
+const connection = { id: "c1", name: "Orders DB", type: "postgres", createdAt: new Date() } as DatabaseConnection;
+
+const existing: QuerySchedule = {
+  id: "sch_1",
+  savedQueryId: "q1",
+  queryName: "Failed orders",
+  connectionId: "c1",
+  cron: "0 * * * *",
+  enabled: true,
+  keepResults: 5,
+  threshold: { metric: "failed", warning: 10, critical: 50, direction: "above", label: "failed" },
+  webhookUrl: "http://localhost:9000/alerts",
+  ownerRole: "user",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  lastRunAt: "2026-03-10T10:00:00.000Z",
+  nextRunAt: "2026-03-10T11:00:00.000Z",
+  lastLevel: "warning",
+};
+
+const run = (overrides: Partial<ScheduleRun> = {}): ScheduleRun => ({
+  id: "run_1",
+  scheduleId: "sch_1",
+  startedAt: "2026-03-10T10:00:00.000Z",
+  durationMs: 12,
+  status: "success",
+  rowCount: 800,
+  fields: ["failed"],
+  rows: [{ failed: 12 }],
+  error: null,
+  measured: 12,
+  level: "warning",
+  alerted: true,
+  ...overrides,
+});
+
+let schedules: QuerySchedule[] = [];
+let runs: ScheduleRun[] = [];
+let saveResponse: { status: number; body: unknown } = { status: 200, body: {} };
+const requests: { url: string; method: string; body?: unknown }[] = [];
+
+const originalFetch = globalThis.fetch;
+
+function respond(body: unknown, status = 200) {
+  return Promise.resolve(new Response(JSON.stringify(body), { status }));
+}
+
+beforeEach(() => {
+  schedules = [];
+  runs = [];
+  gridResult = undefined;
+  requests.length = 0;
+  saveResponse = { status: 200, body: { schedule: { ...existing, id: "sch_new" } } };
+  globalThis.fetch = mock((input: string, init?: RequestInit) => {
+    const method = init?.method ?? "GET";
+    requests.push({ url: input, method, body: init?.body ? JSON.parse(init.body as string) : undefined });
+    if (input === "/api/schedules" && method === "GET") return respond({ schedules });
+    if (input === "/api/schedules" && method === "POST") return respond(saveResponse.body, saveResponse.status);
+    if (input.endsWith("/runs") && method === "GET") return respond({ runs });
+    if (input.endsWith("/runs") && method === "POST") {
+      const fresh = run({ id: "run_2", startedAt: "2026-03-10T10:30:00.000Z", rowCount: 3 });
+      runs = [fresh, ...runs];
+      return respond({ run: fresh });
+    }
+    if (method === "DELETE") return respond({ ok: true });
+    return respond({ error: "unexpected" }, 500);
+  }) as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  cleanup();
+  globalThis.fetch = originalFetch;
+});
+
+function renderDialog(conn: DatabaseConnection = connection) {
+  const { baseElement } = render(<ScheduleDialog savedQuery={savedQuery} connection={conn} onClose={mock(() => {})} />);
+  return within(baseElement);
+}
+
+describe("ScheduleDialog", () => {
+  test("creates a schedule on the open connection", async () => {
+    const body = renderDialog();
+    const create = await body.findByRole("button", { name: "Create schedule" });
+
+    fireEvent.click(body.getByRole("button", { name: "Hourly" }));
+    fireEvent.click(create);
+
+    await body.findByRole("button", { name: "Save schedule" });
+    const post = requests.find((r) => r.method === "POST")!;
+    expect(post.body).toEqual({
+      savedQueryId: "q1",
+      connectionId: "c1",
+      cron: "0 * * * *",
+      enabled: true,
+      keepResults: 10,
+      threshold: null,
+      webhookUrl: "",
+    });
+    expect(body.queryByRole("button", { name: /Run now/ })).not.toBeNull();
+  });
+
+  test("schedules a managed connection by its seed", async () => {
+    const body = renderDialog({ ...connection, id: "managed-1", managed: true, seedId: "prod" });
+    fireEvent.click(await body.findByRole("button", { name: "Create schedule" }));
+
+    await waitFor(() => expect(requests.some((r) => r.method === "POST")).toBe(true));
+    expect((requests.find((r) => r.method === "POST")!.body as { connectionId: string }).connectionId).toBe(
+      "seed:prod",
+    );
+  });
+
+  test("loads an existing schedule and the results it kept", async () => {
+    schedules = [existing];
+    runs = [run()];
+    const body = renderDialog();
+
+    await body.findByRole("button", { name: "Save schedule" });
+    expect((body.getByLabelText("Cron expression") as HTMLInputElement).value).toBe("0 * * * *");
+    expect((body.getByLabelText("Column") as HTMLInputElement).value).toBe("failed");
+    expect((body.getByLabelText("Warning threshold") as HTMLInputElement).value).toBe("10");
+    expect(body.getByTestId("results-grid").textContent).toBe("1 rows");
+    expect(gridResult?.fields).toEqual(["failed"]);
+    expect(body.getByText("Showing the first 1 of 800 rows this run returned.")).not.toBeNull();
+    expect(body.getByText("alerted")).not.toBeNull();
+  });
+
+  test("shows why the server refused a schedule", async () => {
+    saveResponse = { status: 400, body: { error: "cron: minute 61 is outside 0-59" } };
+    const body = renderDialog();
+    fireEvent.click(await body.findByRole("button", { name: "Create schedule" }));
+
+    expect(await body.findByText("cron: minute 61 is outside 0-59")).not.toBeNull();
+  });
+
+  test("runs a schedule now and shows the new result", async () => {
+    schedules = [existing];
+    runs = [run()];
+    const body = renderDialog();
+
+    fireEvent.click(await body.findByRole("button", { name: /Run now/ }));
+
+    await waitFor(() => expect(body.getByText("3 rows")).not.toBeNull());
+    expect(requests.some((r) => r.method === "POST" && r.url === "/api/schedules/sch_1/runs")).toBe(true);
+    expect(body.getByRole("button", { pressed: true }).textContent).toContain("3 rows");
+  });
+
+  test("deletes the schedule after a confirm", async () => {
+    schedules = [existing];
+    const originalConfirm = globalThis.confirm;
+    globalThis.confirm = mock(() => true) as unknown as typeof confirm;
+    try {
+      const body = renderDialog();
+      fireEvent.click(await body.findByRole("button", { name: /Delete/ }));
+
+      await body.findByRole("button", { name: "Create schedule" });
+      expect(requests.some((r) => r.method === "DELETE" && r.url === "/api/schedules?id=sch_1")).toBe(true);
+    } finally {
+      globalThis.confirm = originalConfirm;
+    }
+  });
+});
@@ -196,6 +196,37 @@ mock.module("@/hooks/use-all-connections", () => ({
   }),
 }));
 
+// ── Mock /api/db/migrations ─────────────────────────────────────────────────
+// The component reads the connection's migration history on mount, so every test
+// runs against this fetch unless it installs its own. The history request stays
+// pending unless a test sets one, so a test about something else sees no late update.
+
+const mockMigrationEntry = {
+  id: "mig_1",
+  checksum: "abc",
+  description: "Migrate to Before migration",
+  status: "applied",
+  statementCount: 2,
+  statementsApplied: 2,
+  appliedAt: "2026-01-11T10:00:00.000Z",
+  appliedBy: "admin",
+  executionMs: 12,
+  targetSnapshotId: "snap-1",
+  error: null,
+};
+
+let migrationHistory: unknown[] | null = null;
+let migrationResponses: Record<string, { ok: boolean; data: unknown }> = {};
+
+const mockMigrationsFetch = mock(async (_url: string, init?: RequestInit) => {
+  const { action } = JSON.parse(String(init?.body ?? "{}"));
+  if (action === "history" && migrationHistory === null) return new Promise<never>(() => {});
+  const response =
+    migrationResponses[action] ?? (action === "history" ? { ok: true, data: { migrations: migrationHistory } } : null);
+  return { ok: response?.ok ?? false, json: async () => response?.data ?? { error: "unexpected" } };
+});
+const originalFetch = globalThis.fetch;
+
 // ── Imports AFTER mocks ──────────────────────────────────────────────────────
 
 import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
@@ -204,6 +235,7 @@ import { SchemaDiff } from "@/components/SchemaDiff";
 import { logger } from "@/lib/logger";
 import { mockSchema } from "../fixtures/schemas";
 import { mockPostgresConnection } from "../fixtures/connections";
+import type { TableSchema } from "@/lib/types";
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -252,6 +284,10 @@ describe("SchemaDiff", () => {
     mockGetConnections.mockClear();
     selectCallbacks.clear();
     capturedTimelineProps = {};
+    migrationHistory = null;
+    migrationResponses = {};
+    mockMigrationsFetch.mockClear();
+    globalThis.fetch = mockMigrationsFetch as unknown as typeof fetch;
 
     mockDiffSchemas.mockImplementation(() => structuredClone(mockDiffWithChanges));
     mockGenerateMigrationSQL.mockImplementation(
@@ -283,6 +319,7 @@ describe("SchemaDiff", () => {
 
   afterEach(() => {
     cleanup();
+    globalThis.fetch = originalFetch;
   });
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -615,6 +652,127 @@ describe("SchemaDiff", () => {
     });
   });
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Migrations
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("migrations", () => {
+    const plan = {
+      checksum: "abc",
+      statements: ["CREATE TABLE new_table (id integer)", "DROP TABLE old_table"],
+      atomic: true,
+      previouslyApplied: null,
+    };
+
+    function bodyOf(action: string): Record<string, unknown> {
+      const call = (mockMigrationsFetch.mock.calls as unknown[][]).find(
+        ([, init]) => JSON.parse(String((init as RequestInit).body)).action === action,
+      );
+      return JSON.parse(String((call![1] as RequestInit).body));
+    }
+
+    async function openMigration() {
+      const result = renderDiff();
+      changeTarget("snap-1");
+      fireEvent.click(result.getByText("SQL Migration"));
+      await act(async () => {});
+      return result;
+    }
+
+    test("reads the connection's migration history on mount", async () => {
+      migrationHistory = [mockMigrationEntry];
+      const { findByText } = renderDiff();
+
+      expect(await findByText("Migrate to Before migration")).toBeTruthy();
+      expect(bodyOf("history").connection).toEqual(JSON.parse(JSON.stringify(mockPostgresConnection)));
+    });
+
+    test("a history entry names the snapshot it produced", async () => {
+      migrationHistory = [mockMigrationEntry];
+      mockGetSchemaSnapshots.mockImplementation(() => [
+        ...mockSnapshots,
+        { ...mockSnapshots[0], id: "snap-after", label: "After it", migrationId: "mig_1" },
+      ]);
+      const { findByText } = renderDiff();
+
+      expect(await findByText(/Snapshot: After it/)).toBeTruthy();
+    });
+
+    test("dry run previews the plan before Apply is offered", async () => {
+      migrationResponses["dry-run"] = { ok: true, data: { plan } };
+      const { getByText, queryByText, container } = await openMigration();
+      expect(queryByText(/Apply to/)).toBeNull();
+
+      await act(async () => {
+        fireEvent.click(getByText("Dry Run"));
+      });
+
+      expect(container.textContent).toContain("2 statements");
+      expect(container.textContent).toContain("rolls back as a whole");
+      expect(getByText(/Apply to/)).toBeTruthy();
+      expect(bodyOf("dry-run").sql).toContain("CREATE TABLE new_table");
+    });
+
+    test("a non-atomic plan warns that a failure leaves earlier statements applied", async () => {
+      migrationResponses["dry-run"] = { ok: true, data: { plan: { ...plan, atomic: false } } };
+      const { getByText, container } = await openMigration();
+
+      await act(async () => {
+        fireEvent.click(getByText("Dry Run"));
+      });
+
+      expect(container.textContent).toContain("leaves the earlier statements applied");
+    });
+
+    test("applying saves the resulting schema as a snapshot linked to the migration", async () => {
+      migrationResponses["dry-run"] = { ok: true, data: { plan } };
+      migrationResponses.apply = {
+        ok: true,
+        data: { entry: mockMigrationEntry, atomic: true, recorded: true, schema: mockSchema },
+      };
+      const { getByText } = await openMigration();
+      await act(async () => {
+        fireEvent.click(getByText("Dry Run"));
+      });
+      await act(async () => {
+        fireEvent.click(getByText(/Apply to/));
+      });
+
+      const body = bodyOf("apply");
+      expect(body.targetSnapshotId).toBe("snap-1");
+      expect(body.description).toBe("Migrate to Before migration");
+      expect(mockSaveSchemaSnapshot).toHaveBeenCalledTimes(1);
+      const saved = (mockSaveSchemaSnapshot.mock.calls as unknown[][])[0][0] as Record<string, unknown>;
+      expect(saved.migrationId).toBe("mig_1");
+      expect(saved.label).toBe("Migrated to Before migration");
+    });
+
+    test("a failed apply shows the engine's error", async () => {
+      migrationResponses["dry-run"] = { ok: true, data: { plan } };
+      migrationResponses.apply = { ok: false, data: { error: 'relation "old_table" does not exist' } };
+      const { getByText, findByText } = await openMigration();
+      await act(async () => {
+        fireEvent.click(getByText("Dry Run"));
+      });
+      await act(async () => {
+        fireEvent.click(getByText(/Apply to/));
+      });
+
+      expect(await findByText('relation "old_table" does not exist')).toBeTruthy();
+      expect(mockSaveSchemaSnapshot).not.toHaveBeenCalled();
+    });
+
+    test("apply is not offered when the source is a snapshot", () => {
+      const { getByText, queryByText } = renderDiff();
+      changeSource("snap-1");
+      changeTarget("current");
+      fireEvent.click(getByText("SQL Migration"));
+
+      expect(queryByText("Dry Run")).toBeNull();
+      expect(getByText(/Compare from the current schema/)).toBeTruthy();
+    });
+  });
+
   // ═══════════════════════════════════════════════════════════════════════════
   // TableDiffDetail Sub-Component
   // ═══════════════════════════════════════════════════════════════════════════
@@ -911,9 +1069,12 @@ describe("SchemaDiff", () => {
           fn!("conn:remote-1");
         });
 
-        expect(mockFetch).toHaveBeenCalledTimes(1);
-        const [url, options] = (mockFetch.mock.calls as unknown[][])[0] as [string, RequestInit];
-        expect(url).toBe("/api/db/schema-snapshot");
+        // The migration history is read on mount as well; only the snapshot fetch is this test's.
+        const snapshotCalls = (mockFetch.mock.calls as unknown[][]).filter(
+          ([url]) => url === "/api/db/schema-snapshot",
+        );
+        expect(snapshotCalls).toHaveLength(1);
+        const [, options] = snapshotCalls[0] as [string, RequestInit];
         expect(JSON.parse(options.body as string).connection.id).toBe("remote-1");
 
         expect(mockSaveSchemaSnapshot).toHaveBeenCalledTimes(1);
@@ -985,6 +1146,156 @@ describe("SchemaDiff", () => {
     });
   });
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Live connections
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("live connections", () => {
+    const schemaCalls = () =>
+      (mockMigrationsFetch.mock.calls as unknown[][]).filter(([url]) => url === "/api/db/schema-snapshot");
+
+    function bodyOf(action: string): Record<string, unknown> {
+      const call = (mockMigrationsFetch.mock.calls as unknown[][]).find(
+        ([url, init]) =>
+          url === "/api/db/migrations" && JSON.parse(String((init as RequestInit).body)).action === action,
+      );
+      return JSON.parse(String((call![1] as RequestInit).body));
+    }
+
+    const migrationsOnly = mockMigrationsFetch.getMockImplementation()!;
+    let schemaError: string | null = null;
+
+    beforeEach(() => {
+      schemaError = null;
+      // Each connection answers with a schema named after it, so a test can tell the sides apart.
+      mockMigrationsFetch.mockImplementation(async (url: string, init?: RequestInit) => {
+        if (url !== "/api/db/schema-snapshot") return migrationsOnly(url, init);
+        const { connection } = JSON.parse(String(init?.body));
+        return schemaError
+          ? { ok: false, json: async () => ({ error: schemaError }) }
+          : { ok: true, json: async () => ({ schema: [{ name: connection.id, columns: [], indexes: [] }] }) };
+      });
+    });
+
+    afterEach(() => {
+      mockMigrationsFetch.mockImplementation(migrationsOnly);
+    });
+
+    const mixedEngines = () => [
+      {
+        id: "remote-1",
+        name: "Staging",
+        type: "mysql",
+        host: "staging",
+        port: 3306,
+        database: "db",
+        createdAt: new Date(),
+      },
+      {
+        id: "remote-2",
+        name: "Prod DB",
+        type: "postgres",
+        host: "prod",
+        port: 5432,
+        database: "db",
+        createdAt: new Date(),
+      },
+    ];
+
+    /** Both connection selects start empty, and the empty key holds the target (rendered last), so it is picked first. */
+    async function compare(sourceId: string, targetId: string) {
+      const result = renderDiff();
+      fireEvent.click(result.getByText("Live connections"));
+      act(() => getTargetCallback()!(targetId));
+      act(() => getTargetCallback()!(sourceId));
+      await act(async () => {
+        fireEvent.click(result.getByText("Compare"));
+      });
+      return result;
+    }
+
+    test("reads both connections without saving a snapshot", async () => {
+      const { getByText } = await compare("remote-1", "remote-2");
+
+      expect(schemaCalls().map(([, init]) => JSON.parse(String((init as RequestInit).body)).connection.id)).toEqual([
+        "remote-1",
+        "remote-2",
+      ]);
+      expect(mockSaveSchemaSnapshot).not.toHaveBeenCalled();
+      expect(getByText("new_table")).toBeTruthy();
+    });
+
+    test("Compare is disabled until two different connections are picked", () => {
+      const { getByText } = renderDiff();
+      fireEvent.click(getByText("Live connections"));
+      act(() => getTargetCallback()!("remote-1"));
+      act(() => getTargetCallback()!("remote-1"));
+
+      expect((getByText("Compare").closest("button") as HTMLButtonElement).disabled).toBe(true);
+    });
+
+    test("migrates the target to match the source by default", async () => {
+      await compare("remote-1", "remote-2");
+
+      const [migrated, reference] = mockDiffSchemas.mock.calls.at(-1) as unknown as [TableSchema[], TableSchema[]];
+      expect(migrated[0].name).toBe("remote-2");
+      expect(reference[0].name).toBe("remote-1");
+    });
+
+    test("migrating the source swaps the sides and writes the source's dialect", async () => {
+      mockGetConnections.mockImplementation(mixedEngines);
+      await compare("remote-1", "remote-2");
+      act(() => selectCallbacks.get("target")!("source"));
+
+      const [migrated] = mockDiffSchemas.mock.calls.at(-1) as unknown as [TableSchema[]];
+      expect(migrated[0].name).toBe("remote-1");
+      expect((mockGenerateMigrationSQL.mock.calls as unknown[][]).at(-1)![1]).toBe("mysql");
+    });
+
+    test("warns when the two connections are different engines", async () => {
+      mockGetConnections.mockImplementation(mixedEngines);
+      const { container } = await compare("remote-1", "remote-2");
+
+      expect(container.textContent).toContain("Staging is mysql and Prod DB is postgres");
+      expect(container.textContent).toContain("migration is written for postgres");
+    });
+
+    test("a failed read is shown instead of a diff", async () => {
+      schemaError = "connection refused";
+      const { getByText } = await compare("remote-1", "remote-2");
+
+      expect(getByText("connection refused")).toBeTruthy();
+    });
+
+    test("applies to the migrated side and re-reads it as the migration left it", async () => {
+      migrationResponses["dry-run"] = {
+        ok: true,
+        data: {
+          plan: { checksum: "abc", statements: ["DROP TABLE old_table"], atomic: true, previouslyApplied: null },
+        },
+      };
+      migrationResponses.apply = {
+        ok: true,
+        data: { entry: mockMigrationEntry, atomic: true, recorded: true, schema: mockSchema },
+      };
+      const { getByText } = await compare("remote-1", "remote-2");
+      fireEvent.click(getByText("SQL Migration"));
+      await act(async () => {
+        fireEvent.click(getByText("Dry Run"));
+      });
+      await act(async () => {
+        fireEvent.click(getByText(/Apply to Prod DB/));
+      });
+
+      const body = bodyOf("apply");
+      expect((body.connection as { id: string }).id).toBe("remote-2");
+      expect(body.description).toBe("Migrate to Remote PG");
+      const saved = (mockSaveSchemaSnapshot.mock.calls as unknown[][])[0][0] as Record<string, unknown>;
+      expect(saved).toMatchObject({ connectionId: "remote-2", migrationId: "mig_1" });
+      expect((mockDiffSchemas.mock.calls.at(-1) as unknown as [TableSchema[]])[0]).toEqual(mockSchema);
+    });
+  });
+
   // ═══════════════════════════════════════════════════════════════════════════
   // formatSnapshotLabel
   // ═══════════════════════════════════════════════════════════════════════════
@@ -366,4 +366,15 @@ describe("SnapshotTimeline", () => {
     expect(onDelete).toHaveBeenCalledWith("s2");
     expect(onDelete).toHaveBeenCalledTimes(2);
   });
+
+  test("a snapshot a migration produced is marked with the migration's id", () => {
+    const migrated = [snapshots[0], { ...snapshots[1], migrationId: "mig_1" }];
+    const { getAllByText } = render(
+      <SnapshotTimeline snapshots={migrated} onCompare={mock(() => {})} onDelete={mock(() => {})} />,
+    );
+
+    const markers = getAllByText("after migration");
+    expect(markers).toHaveLength(1);
+    expect(markers[0].getAttribute("title")).toBe("mig_1");
+  });
 });
@@ -730,6 +730,30 @@ describe("Studio", () => {
     expect(mockToast).toHaveBeenCalledTimes(1);
   });
 
+  test("handleSaveQuery keeps the values the text still asks for and marks the tab as that query", () => {
+    connMgrOverride = { activeConnection: pgConn };
+    tabMgrOverride = {
+      currentTab: {
+        id: "tab-1",
+        name: "Query 1",
+        query: "SELECT * FROM users WHERE id = :id",
+        result: null,
+        isExecuting: false,
+        type: "sql",
+        parameters: [
+          { name: ":id", type: "number", value: "7" },
+          { name: ":gone", type: "text", value: "x" },
+        ],
+      },
+    };
+    render(<Studio />);
+    const onSave = capturedSaveQueryModalProps.onSave as (name: string, desc: string, tags: string[]) => void;
+    act(() => onSave("By id", "", []));
+    const saved = (mockStorageSaveQuery.mock.calls[0] as unknown[])[0] as Record<string, unknown>;
+    expect(saved.parameters).toEqual([{ name: ":id", type: "number", value: "7" }]);
+    expect(mockUpdateCurrentTab).toHaveBeenCalledWith({ savedQueryId: saved.id });
+  });
+
   test("handleSaveQuery returns early without activeConnection", () => {
     render(<Studio />);
     const onSave = capturedSaveQueryModalProps.onSave as (name: string, desc: string, tags: string[]) => void;
@@ -957,6 +981,27 @@ describe("Studio", () => {
     expect(blob.type).toBe("text/sql");
   });
 
+  test("exportResults xlsx hands over the workbook's bytes with no byte order mark", async () => {
+    tabMgrOverride = {
+      currentTab: {
+        id: "tab-1",
+        name: "Users",
+        query: "SELECT 1",
+        result: testResult,
+        isExecuting: false,
+        type: "sql",
+      },
+    };
+    render(<Studio />);
+    const exportFn = capturedBottomPanelProps.onExportResults as (format: string) => void;
+    act(() => exportFn("xlsx"));
+
+    const blob = (mockCreateObjectURL.mock.calls[0] as unknown[])[0] as Blob;
+    expect(blob.type).toBe("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    // A ZIP starts with `PK`; a mark in front of it is a file Excel refuses.
+    expect([...new Uint8Array(await blob.arrayBuffer()).slice(0, 2)]).toEqual([0x50, 0x4b]);
+  });
+
   test("exportResults with no result does nothing", () => {
     render(<Studio />);
     const exportFn = capturedBottomPanelProps.onExportResults as (format: string) => void;
@@ -1099,6 +1144,18 @@ describe("Studio", () => {
     expect(mockUpdateCurrentTab).toHaveBeenCalledWith({ query: "SELECT * FROM products" });
   });
 
+  test("BottomPanel onLoadQuery brings a saved query's id and parameter values along", () => {
+    render(<Studio />);
+    const fn = capturedBottomPanelProps.onLoadQuery as (q: string, loaded?: unknown) => void;
+    const parameters = [{ name: ":id", type: "number", value: "7" }];
+    act(() => fn("SELECT * FROM users WHERE id = :id", { savedQueryId: "sq-1", parameters }));
+    expect(mockUpdateCurrentTab).toHaveBeenCalledWith({
+      query: "SELECT * FROM users WHERE id = :id",
+      savedQueryId: "sq-1",
+      parameters,
+    });
+  });
+
   // --- QuerySafetyDialog ---
   test("QuerySafetyDialog onProceed calls forceExecuteQuery", () => {
     queryExecOverride = { safetyCheckQuery: "DROP TABLE users" };
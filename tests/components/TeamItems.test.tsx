@@ -0,0 +1,227 @@
+import "../setup-dom";
+import "../helpers/mock-sonner";
+import "../helpers/mock-navigation";
+
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import React from "react";
+import { cleanup, fireEvent, render, waitFor, within } from "@testing-library/react";
+import type { SavedQuery } from "@/lib/types";
+import type { TeamItem, TeamSummary } from "@/lib/teams/types";
+
+// ── Mock Select: a native <select> over the fixture's team ids ───────────────
+
+mock.module("@/components/ui/select", () => {
+  const SelectContext = React.createContext<{ value?: string; onValueChange?: (v: string) => void }>({});
+  return {
+    Select: ({
+      value,
+      onValueChange,
+      children,
+    }: {
+      value?: string;
+      onValueChange?: (v: string) => void;
+      children: React.ReactNode;
+    }) => React.createElement(SelectContext.Provider, { value: { value, onValueChange } }, children),
+    SelectTrigger: ({ "aria-label": label, id }: { "aria-label"?: string; id?: string }) => {
+      const { value, onValueChange } = React.useContext(SelectContext);
+      return React.createElement(
+        "select",
+        {
+          "aria-label": label,
+          id,
+          value,
+          onChange: (e: { target: { value: string } }) => onValueChange?.(e.target.value),
+        },
+        ["team_1", "team_2"].map((v) => React.createElement("option", { key: v, value: v }, v)),
+      );
+    },
+    SelectContent: () => null,
+    SelectItem: () => null,
+    SelectValue: () => null,
+  };
+});
+
+import { TeamItems } from "@/components/TeamItems";
+import { TeamPublishDialog } from "@/components/TeamPublishDialog";
+
+// ── Mock /api/teams ──────────────────────────────────────────────────────────
+
+const query: SavedQuery = {
+  id: "q1",
+  name: "Revenue",
+  query: "SELECT sum(total) FROM orders",
+  connectionType: "postgres",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+const item = (overrides: Partial<TeamItem> = {}): TeamItem => ({
+  id: "ti_1",
+  kind: "saved_queries",
+  folder: "finance",
+  data: query,
+  version: 3,
+  owner: "alice",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedBy: "bob",
+  updatedAt: "2026-02-01T00:00:00.000Z",
+  ...overrides,
+});
+
+let teams: TeamSummary[] = [];
+let items: TeamItem[] = [];
+let saveResponses: { status: number; body: unknown }[] = [];
+const requests: { url: string; method: string; body?: unknown }[] = [];
+
+const originalFetch = globalThis.fetch;
+
+function respond(body: unknown, status = 200) {
+  return Promise.resolve(new Response(JSON.stringify(body), { status }));
+}
+
+beforeEach(() => {
+  teams = [
+    { id: "team_1", name: "Analytics", role: "write", folders: ["finance"] },
+    { id: "team_2", name: "Readers", role: "read" },
+  ];
+  items = [item(), item({ id: "ti_2", folder: "ops", data: { ...query, id: "q2", name: "Backlog" } })];
+  saveResponses = [];
+  requests.length = 0;
+  globalThis.fetch = mock((input: string, init?: RequestInit) => {
+    const method = init?.method ?? "GET";
+    requests.push({ url: input, method, body: init?.body ? JSON.parse(init.body as string) : undefined });
+    if (input === "/api/teams") return respond({ teams });
+    if (input.endsWith("/items") && method === "GET") return respond({ items });
+    if (input.endsWith("/items") && method === "POST") {
+      const next = saveResponses.shift() ?? { status: 200, body: { item: item({ version: 4, updatedBy: "me" }) } };
+      return respond(next.body, next.status);
+    }
+    if (method === "DELETE") return respond({ ok: true });
+    return respond({ error: "unexpected" }, 500);
+  }) as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  cleanup();
+  globalThis.fetch = originalFetch;
+});
+
+describe("TeamItems", () => {
+  test("lists a team's queries by folder with owner, last editor and version", async () => {
+    const { findByText, getByText, getAllByText } = render(<TeamItems search="" onSelectQuery={mock(() => {})} />);
+
+    expect(await findByText("Revenue")).not.toBeNull();
+    expect(getByText("finance")).not.toBeNull();
+    expect(getByText("ops")).not.toBeNull();
+    expect(getAllByText("alice")).toHaveLength(2);
+    expect(getAllByText("bob")).toHaveLength(2);
+    expect(getAllByText(/^v3 ·/)).toHaveLength(2);
+  });
+
+  test("offers edit and delete only in the folders the member writes in", async () => {
+    const { findByText, queryByRole } = render(<TeamItems search="" onSelectQuery={mock(() => {})} />);
+    await findByText("Revenue");
+
+    expect(queryByRole("button", { name: "Edit Revenue" })).not.toBeNull();
+    expect(queryByRole("button", { name: "Delete Revenue" })).not.toBeNull();
+    expect(queryByRole("button", { name: "Edit Backlog" })).toBeNull();
+    expect(queryByRole("button", { name: "Open Backlog" })).not.toBeNull();
+  });
+
+  test("opens a team query without tying the run to the user's own saved query", async () => {
+    const onSelectQuery = mock(() => {});
+    const { findByRole } = render(<TeamItems search="" onSelectQuery={onSelectQuery} />);
+
+    fireEvent.click(await findByRole("button", { name: "Open Revenue" }));
+    expect(onSelectQuery).toHaveBeenCalledWith(query.query, { parameters: undefined });
+  });
+
+  test("switches team, and filters by the search text", async () => {
+    const { findByText, getByLabelText, queryByText, rerender } = render(
+      <TeamItems search="" onSelectQuery={mock(() => {})} />,
+    );
+    await findByText("Revenue");
+
+    rerender(<TeamItems search="backlog" onSelectQuery={mock(() => {})} />);
+    expect(queryByText("Revenue")).toBeNull();
+
+    fireEvent.change(getByLabelText("Team"), { target: { value: "team_2" } });
+    await findByText("Read only");
+    expect(requests.some((r) => r.url === "/api/teams/team_2/items")).toBe(true);
+  });
+
+  test("deletes an item after a confirm", async () => {
+    const originalConfirm = globalThis.confirm;
+    globalThis.confirm = mock(() => true) as unknown as typeof confirm;
+    try {
+      const { findByRole, queryByText } = render(<TeamItems search="" onSelectQuery={mock(() => {})} />);
+      fireEvent.click(await findByRole("button", { name: "Delete Revenue" }));
+
+      await waitFor(() => expect(queryByText("Revenue")).toBeNull());
+      expect(requests.some((r) => r.method === "DELETE" && r.url === "/api/teams/team_1/items?itemId=ti_1")).toBe(true);
+    } finally {
+      globalThis.confirm = originalConfirm;
+    }
+  });
+
+  test("says so when the user is in no team", async () => {
+    teams = [];
+    const { findByText } = render(<TeamItems search="" onSelectQuery={mock(() => {})} />);
+    expect(await findByText("You are not in any team yet")).not.toBeNull();
+  });
+});
+
+describe("TeamPublishDialog", () => {
+  test("publishes into the first folder the member writes in", async () => {
+    const onClose = mock(() => {});
+    const { baseElement } = render(<TeamPublishDialog kind="saved_queries" data={query} onClose={onClose} />);
+    const body = within(baseElement);
+
+    const folder = (await body.findByLabelText("Folder")) as HTMLInputElement;
+    expect(folder.value).toBe("finance");
+    fireEvent.click(body.getByRole("button", { name: "Publish" }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    const post = requests.find((r) => r.method === "POST")!;
+    expect(post.url).toBe("/api/teams/team_1/items");
+    expect(post.body).toMatchObject({ kind: "saved_queries", folder: "finance", data: { name: "Revenue" } });
+    expect(post.body).not.toHaveProperty("id");
+  });
+
+  test("says so when the user writes in no team", async () => {
+    teams = [{ id: "team_2", name: "Readers", role: "read" }];
+    const { baseElement } = render(<TeamPublishDialog kind="saved_queries" data={query} onClose={mock(() => {})} />);
+    const body = within(baseElement);
+
+    expect(await body.findByText(/You cannot publish to any team/)).not.toBeNull();
+    expect((body.getByRole("button", { name: "Publish" }) as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  test("on a conflict shows who saved, then saves again from their version", async () => {
+    saveResponses = [
+      { status: 409, body: { error: "bob saved version 4 since you loaded it", item: item({ version: 4 }) } },
+    ];
+    const onSaved = mock(() => {});
+    const { baseElement } = render(
+      <TeamPublishDialog
+        kind="saved_queries"
+        teamId="team_1"
+        item={item()}
+        onClose={mock(() => {})}
+        onSaved={onSaved}
+      />,
+    );
+    const body = within(baseElement);
+
+    fireEvent.change(body.getByLabelText("Query"), { target: { value: "SELECT 2" } });
+    fireEvent.click(body.getByRole("button", { name: "Save version" }));
+
+    expect(await body.findByText(/bob saved version 4 since you loaded it/)).not.toBeNull();
+    fireEvent.click(body.getByRole("button", { name: "Save anyway" }));
+
+    await waitFor(() => expect(onSaved).toHaveBeenCalled());
+    const posts = requests.filter((r) => r.method === "POST").map((r) => r.body as Record<string, unknown>);
+    expect(posts.map((p) => p.baseVersion)).toEqual([3, 4]);
+    expect(posts[1]).toMatchObject({ id: "ti_1", data: { query: "SELECT 2" } });
+  });
+});
@@ -0,0 +1,153 @@
+import "../../setup-dom";
+import { mockToastSuccess } from "../../helpers/mock-sonner";
+import "../../helpers/mock-navigation";
+
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import React from "react";
+import { cleanup, fireEvent, render, waitFor } from "@testing-library/react";
+import type { AccessRole } from "@/lib/access/types";
+
+// ── Mock Select: a native <select> of every connection and the seed ─────────
+
+mock.module("@/components/ui/select", () => {
+  const SelectContext = React.createContext<{ value?: string; onValueChange?: (v: string) => void }>({});
+  return {
+    Select: ({
+      value,
+      onValueChange,
+      children,
+    }: {
+      value?: string;
+      onValueChange?: (v: string) => void;
+      children: React.ReactNode;
+    }) => React.createElement(SelectContext.Provider, { value: { value, onValueChange } }, children),
+    SelectTrigger: ({ "aria-label": label }: { "aria-label"?: string }) => {
+      const { value, onValueChange } = React.useContext(SelectContext);
+      return React.createElement(
+        "select",
+        { "aria-label": label, value, onChange: (e: { target: { value: string } }) => onValueChange?.(e.target.value) },
+        ["*", "warehouse"].map((v) => React.createElement("option", { key: v, value: v }, v)),
+      );
+    },
+    SelectContent: () => null,
+    SelectItem: () => null,
+    SelectValue: () => null,
+  };
+});
+
+import { AccessRolesPanel } from "@/components/admin/tabs/AccessRolesPanel";
+
+// ── Mock /api/admin/access-roles ─────────────────────────────────────────────
+
+const analyst: AccessRole = {
+  name: "analyst",
+  description: "Reads the warehouse",
+  members: ["ana"],
+  groups: ["data-analysts"],
+  grants: [{ connection: "warehouse", permissions: ["read", "export"] }],
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  updatedBy: "admin",
+};
+
+let roles: AccessRole[] = [];
+let listStatus = 200;
+const requests: { url: string; method: string; body?: unknown }[] = [];
+
+const originalFetch = globalThis.fetch;
+
+function respond(body: unknown, status = 200) {
+  return Promise.resolve(new Response(JSON.stringify(body), { status }));
+}
+
+beforeEach(() => {
+  roles = [analyst];
+  listStatus = 200;
+  requests.length = 0;
+  mockToastSuccess.mockClear();
+  globalThis.fetch = mock((input: string, init?: RequestInit) => {
+    const method = init?.method ?? "GET";
+    requests.push({ url: input, method, body: init?.body ? JSON.parse(init.body as string) : undefined });
+    if (method === "GET") {
+      return listStatus === 200
+        ? respond({ roles, connections: [{ seedId: "warehouse", name: "Warehouse" }] })
+        : respond({ error: "Custom roles need server storage (STORAGE_PROVIDER=sqlite or postgres)" }, listStatus);
+    }
+    if (method === "POST") return respond({ role: analyst });
+    return respond({ ok: true });
+  }) as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  cleanup();
+  globalThis.fetch = originalFetch;
+});
+
+describe("AccessRolesPanel", () => {
+  test("lists each role with who holds it and its grants by connection name", async () => {
+    const { findByText, getByText } = render(<AccessRolesPanel />);
+
+    expect(await findByText("analyst")).not.toBeNull();
+    expect(getByText("ana, group:data-analysts")).not.toBeNull();
+    expect(getByText("Warehouse · Read, Export")).not.toBeNull();
+  });
+
+  test("shows why roles are unavailable without server storage", async () => {
+    listStatus = 404;
+    const { findByText, queryByRole } = render(<AccessRolesPanel />);
+
+    expect(await findByText(/need server storage/)).not.toBeNull();
+    expect(queryByRole("button", { name: /New role/ })).toBeNull();
+  });
+
+  test("creates a role with its members, groups and grants", async () => {
+    roles = [];
+    const { findByRole, getByLabelText, getByRole } = render(<AccessRolesPanel />);
+
+    fireEvent.click(await findByRole("button", { name: /New role/ }));
+    fireEvent.change(getByLabelText("Role name"), { target: { value: "dba" } });
+    fireEvent.change(getByLabelText("Role members"), { target: { value: "dana, erin" } });
+    fireEvent.change(getByLabelText("Role OIDC groups"), { target: { value: "db-admins" } });
+    fireEvent.click(getByLabelText("Grant 1 Maintenance"));
+    fireEvent.click(getByRole("button", { name: /Add grant/ }));
+    fireEvent.click(getByLabelText("Grant 2 Write"));
+    fireEvent.click(getByRole("button", { name: /Save role/ }));
+
+    await waitFor(() => expect(mockToastSuccess).toHaveBeenCalledWith("Role created"));
+    expect(requests.find((r) => r.method === "POST")!.body).toEqual({
+      name: "dba",
+      description: "",
+      members: ["dana", " erin"],
+      groups: ["db-admins"],
+      grants: [
+        { connection: "*", permissions: ["read", "maintenance"] },
+        { connection: "warehouse", permissions: ["read", "write"] },
+      ],
+    });
+  });
+
+  test("keeps read on in every grant", async () => {
+    const { findByRole, getByLabelText } = render(<AccessRolesPanel />);
+
+    fireEvent.click(await findByRole("button", { name: "Edit" }));
+    const read = getByLabelText("Grant 1 Read");
+    expect(read.getAttribute("aria-checked")).toBe("true");
+    expect(read.hasAttribute("disabled")).toBe(true);
+    expect((getByLabelText("Role name") as HTMLInputElement).disabled).toBe(true);
+  });
+
+  test("deletes a role after a confirm", async () => {
+    const originalConfirm = globalThis.confirm;
+    globalThis.confirm = mock(() => true) as unknown as typeof confirm;
+    try {
+      const { findByRole } = render(<AccessRolesPanel />);
+      fireEvent.click(await findByRole("button", { name: "Delete analyst" }));
+
+      await waitFor(() => expect(mockToastSuccess).toHaveBeenCalledWith("Role deleted"));
+      expect(requests.some((r) => r.method === "DELETE" && r.url === "/api/admin/access-roles?name=analyst")).toBe(
+        true,
+      );
+    } finally {
+      globalThis.confirm = originalConfirm;
+    }
+  });
+});
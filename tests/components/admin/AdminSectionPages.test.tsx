@@ -14,6 +14,14 @@ mock.module("@/components/admin/tabs/SecurityTab", () => ({
   SecurityTab: () => React.createElement("div", { "data-testid": "security-tab" }, "SecurityTab"),
 }));
 
+mock.module("@/components/admin/tabs/UsersTab", () => ({
+  UsersTab: () => React.createElement("div", { "data-testid": "users-tab" }, "UsersTab"),
+}));
+
+mock.module("@/components/admin/tabs/TeamsTab", () => ({
+  TeamsTab: () => React.createElement("div", { "data-testid": "teams-tab" }, "TeamsTab"),
+}));
+
 mock.module("@/components/admin/tabs/AuditTab", () => ({
   AuditTab: () => React.createElement("div", { "data-testid": "audit-tab" }, "AuditTab"),
 }));
@@ -21,6 +29,8 @@ mock.module("@/components/admin/tabs/AuditTab", () => ({
 const { default: AdminOperationsPage } = await import("@/app/admin/operations/page");
 const { default: AdminMonitoringPage } = await import("@/app/admin/monitoring/page");
 const { default: AdminSecurityPage } = await import("@/app/admin/security/page");
+const { default: AdminUsersPage } = await import("@/app/admin/users/page");
+const { default: AdminTeamsPage } = await import("@/app/admin/teams/page");
 const { default: AdminAuditPage } = await import("@/app/admin/audit/page");
 
 import { afterEach, describe, expect, test } from "bun:test";
@@ -49,6 +59,18 @@ describe("Admin section pages", () => {
     expect(getByTestId("security-tab")).not.toBeNull();
   });
 
+  test("users page renders UsersTab", () => {
+    const { getByTestId } = render(<AdminUsersPage />);
+    expect(getByTestId("admin-content-users")).not.toBeNull();
+    expect(getByTestId("users-tab")).not.toBeNull();
+  });
+
+  test("teams page renders TeamsTab", () => {
+    const { getByTestId } = render(<AdminTeamsPage />);
+    expect(getByTestId("admin-content-teams")).not.toBeNull();
+    expect(getByTestId("teams-tab")).not.toBeNull();
+  });
+
   test("audit page renders AuditTab", () => {
     const { getByTestId } = render(<AdminAuditPage />);
     expect(getByTestId("admin-content-audit")).not.toBeNull();
@@ -137,6 +137,120 @@ describe("AuditTab", () => {
     });
   });
 
+  test("shows no sink panel when no SIEM sink is configured", async () => {
+    let renderResult: ReturnType<typeof render>;
+    await act(async () => {
+      renderResult = render(<AuditTab />);
+    });
+    const { queryByText } = renderResult!;
+
+    await waitFor(() => expect(queryByText("VACUUM")).not.toBeNull());
+    expect(queryByText("SIEM Sinks")).toBeNull();
+  });
+
+  test("shows each SIEM sink's delivery state", async () => {
+    mockGlobalFetch({
+      "/api/admin/audit": {
+        json: {
+          events: [],
+          sinks: [
+            {
+              kind: "file",
+              target: "/var/log/audit.jsonl",
+              status: "healthy",
+              delivered: 12,
+              queued: 0,
+              dropped: 0,
+              failures: 0,
+            },
+            {
+              kind: "webhook",
+              target: "https://siem.example/ingest",
+              status: "retrying",
+              delivered: 3,
+              queued: 40,
+              dropped: 5,
+              failures: 2,
+              lastError: "Webhook answered 503",
+            },
+          ],
+        },
+      },
+    });
+
+    let renderResult: ReturnType<typeof render>;
+    await act(async () => {
+      renderResult = render(<AuditTab />);
+    });
+    const { findByText, getAllByTestId, getByText } = renderResult!;
+
+    expect(await findByText("SIEM Sinks")).not.toBeNull();
+    const rows = getAllByTestId("audit-sink");
+    expect(rows).toHaveLength(2);
+    expect(rows[0].textContent).toContain("Delivering");
+    expect(rows[0].textContent).toContain("12 sent");
+    expect(getByText("Retrying after 2 failure(s): Webhook answered 503")).not.toBeNull();
+    expect(rows[1].textContent).toContain("40 queued");
+    expect(rows[1].textContent).toContain("5 dropped");
+  });
+
+  test("shows the durable store's state and pages through the stored trail", async () => {
+    const stored = mockGlobalFetch({
+      "/api/admin/audit": {
+        json: {
+          events: [
+            {
+              id: "s1",
+              timestamp: new Date().toISOString(),
+              type: "login_success",
+              action: "login",
+              target: "POST /api/auth/login",
+              user: "ana",
+              result: "success",
+            },
+          ],
+          total: 250,
+          source: "store",
+          store: { status: "retrying", stored: 40, pending: 3, dropped: 0, failures: 1, lastError: "disk I/O error" },
+          sinks: [],
+        },
+      },
+    });
+
+    let renderResult: ReturnType<typeof render>;
+    await act(async () => {
+      renderResult = render(<AuditTab />);
+    });
+    const { findByTestId, getByText, getByLabelText } = renderResult!;
+
+    const strip = await findByTestId("audit-store");
+    expect(strip.textContent).toContain("Retrying after 1 failure(s): disk I/O error");
+    expect(strip.textContent).toContain("40 stored since start · 3 pending");
+    expect(getByText("1-100 of 250")).not.toBeNull();
+    expect(getByText("Export").closest("a")?.getAttribute("href")).toBe("/api/admin/audit/chain");
+
+    await act(async () => {
+      fireEvent.click(getByLabelText("Older events"));
+    });
+    await waitFor(() => {
+      const urls = stored.mock.calls.map((c: unknown[]) => String(c[0]));
+      expect(urls.some((url) => url.includes("offset=100"))).toBe(true);
+    });
+  });
+
+  test("has no store panel or export when the trail is only in memory", async () => {
+    let renderResult: ReturnType<typeof render>;
+    await act(async () => {
+      renderResult = render(<AuditTab />);
+    });
+    const { queryByText, queryByTestId } = renderResult!;
+
+    await waitFor(() => expect(queryByText("VACUUM")).not.toBeNull());
+    expect(queryByTestId("audit-store")).toBeNull();
+    expect(queryByText("Export")).toBeNull();
+    expect(queryByText("Since this server started")).not.toBeNull();
+  });
+
   test("queries tab shows query history", async () => {
     const user = userEvent.setup();
     let renderResult: ReturnType<typeof render>;
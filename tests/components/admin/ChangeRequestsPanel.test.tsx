@@ -0,0 +1,102 @@
+import "../../setup-dom";
+import { mockToastError, mockToastSuccess } from "../../helpers/mock-sonner";
+import "../../helpers/mock-navigation";
+
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { cleanup, fireEvent, render, waitFor } from "@testing-library/react";
+import type { ChangeRequestView } from "@/lib/change-requests/types";
+
+import { ChangeRequestsPanel } from "@/components/admin/tabs/ChangeRequestsPanel";
+
+// ── Mock /api/admin/change-requests ──────────────────────────────────────────
+
+const pending: ChangeRequestView = {
+  id: "cr_1",
+  sql: "DELETE FROM users WHERE id = $1",
+  preview: "DELETE FROM users WHERE id = $1",
+  params: [7],
+  permission: "write",
+  connectionName: "Prod",
+  databaseType: "postgres",
+  seedId: "prod",
+  requestedBy: "ana",
+  requestedAt: "2026-01-01T00:00:00.000Z",
+  status: "pending",
+};
+
+let requests: ChangeRequestView[] = [];
+let decisionResponse: { body: unknown; status: number } = { body: {}, status: 200 };
+const posted: unknown[] = [];
+
+const originalFetch = globalThis.fetch;
+
+function respond(body: unknown, status = 200) {
+  return Promise.resolve(new Response(JSON.stringify(body), { status }));
+}
+
+beforeEach(() => {
+  requests = [pending];
+  posted.length = 0;
+  decisionResponse = {
+    body: { request: { ...pending, status: "executed", reviewedBy: "root", rowCount: 1, executionTime: 4 } },
+    status: 200,
+  };
+  mockToastSuccess.mockClear();
+  mockToastError.mockClear();
+  globalThis.fetch = mock((_input: string, init?: RequestInit) => {
+    if ((init?.method ?? "GET") === "GET") return respond({ requests });
+    posted.push(JSON.parse(init!.body as string));
+    return respond(decisionResponse.body, decisionResponse.status);
+  }) as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  cleanup();
+  globalThis.fetch = originalFetch;
+});
+
+describe("ChangeRequestsPanel", () => {
+  test("shows each request's connection, requester and the statement that would run", async () => {
+    const { findByText, getByText } = render(<ChangeRequestsPanel />);
+
+    expect(await findByText("Prod")).not.toBeNull();
+    expect(getByText(/^ana ·/)).not.toBeNull();
+    expect(getByText("DELETE FROM users WHERE id = $1")).not.toBeNull();
+    expect(getByText("Pending")).not.toBeNull();
+  });
+
+  test("approving runs it and shows the outcome", async () => {
+    const { findByRole, findByText, queryByRole } = render(<ChangeRequestsPanel />);
+
+    fireEvent.click(await findByRole("button", { name: "Approve cr_1" }));
+
+    await waitFor(() => expect(mockToastSuccess).toHaveBeenCalledWith("Approved and executed"));
+    expect(posted).toEqual([{ id: "cr_1", decision: "approve" }]);
+    expect(await findByText("Approved by root")).not.toBeNull();
+    expect(await findByText("1 row(s) affected in 4ms")).not.toBeNull();
+    expect(queryByRole("button", { name: "Approve cr_1" })).toBeNull();
+  });
+
+  test("says why when the reviewer is the requester", async () => {
+    decisionResponse = {
+      body: { error: "A change request is decided by someone other than the person who submitted it" },
+      status: 403,
+    };
+    const { findByRole } = render(<ChangeRequestsPanel />);
+
+    fireEvent.click(await findByRole("button", { name: "Reject cr_1" }));
+
+    await waitFor(() =>
+      expect(mockToastError).toHaveBeenCalledWith(
+        "A change request is decided by someone other than the person who submitted it",
+      ),
+    );
+  });
+
+  test("says so when nothing is waiting", async () => {
+    requests = [];
+    const { findByText } = render(<ChangeRequestsPanel />);
+
+    expect(await findByText("Nothing is waiting for approval.")).not.toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+import "../../setup-dom";
+import { mockToastSuccess } from "../../helpers/mock-sonner";
+import "../../helpers/mock-navigation";
+
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import React from "react";
+import { cleanup, fireEvent, render, waitFor } from "@testing-library/react";
+import type { Team } from "@/lib/teams/types";
+
+// ── Mock Select: a native <select> of the two roles ──────────────────────────
+
+mock.module("@/components/ui/select", () => {
+  const SelectContext = React.createContext<{ value?: string; onValueChange?: (v: string) => void }>({});
+  return {
+    Select: ({
+      value,
+      onValueChange,
+      children,
+    }: {
+      value?: string;
+      onValueChange?: (v: string) => void;
+      children: React.ReactNode;
+    }) => React.createElement(SelectContext.Provider, { value: { value, onValueChange } }, children),
+    SelectTrigger: ({ "aria-label": label }: { "aria-label"?: string }) => {
+      const { value, onValueChange } = React.useContext(SelectContext);
+      return React.createElement(
+        "select",
+        { "aria-label": label, value, onChange: (e: { target: { value: string } }) => onValueChange?.(e.target.value) },
+        ["read", "write"].map((v) => React.createElement("option", { key: v, value: v }, v)),
+      );
+    },
+    SelectContent: () => null,
+    SelectItem: () => null,
+    SelectValue: () => null,
+  };
+});
+
+import { TeamsTab } from "@/components/admin/tabs/TeamsTab";
+
+// ── Mock /api/admin/teams ────────────────────────────────────────────────────
+
+const analytics: Team = {
+  id: "team_1",
+  name: "Analytics",
+  members: [
+    { username: "alice", role: "write", folders: ["finance"] },
+    { username: "bob", role: "read" },
+  ],
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+let teams: Team[] = [];
+let listStatus = 200;
+const requests: { url: string; method: string; body?: unknown }[] = [];
+
+const originalFetch = globalThis.fetch;
+
+function respond(body: unknown, status = 200) {
+  return Promise.resolve(new Response(JSON.stringify(body), { status }));
+}
+
+beforeEach(() => {
+  teams = [analytics];
+  listStatus = 200;
+  requests.length = 0;
+  mockToastSuccess.mockClear();
+  globalThis.fetch = mock((input: string, init?: RequestInit) => {
+    const method = init?.method ?? "GET";
+    requests.push({ url: input, method, body: init?.body ? JSON.parse(init.body as string) : undefined });
+    if (method === "GET") {
+      return listStatus === 200
+        ? respond({ teams })
+        : respond({ error: "Team workspaces need server storage (STORAGE_PROVIDER=sqlite or postgres)" }, listStatus);
+    }
+    if (method === "POST") return respond({ team: analytics });
+    return respond({ ok: true });
+  }) as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  cleanup();
+  globalThis.fetch = originalFetch;
+});
+
+describe("TeamsTab", () => {
+  test("lists each team with its members, roles and folders", async () => {
+    const { findByText, getByText } = render(<TeamsTab />);
+
+    expect(await findByText("Analytics")).not.toBeNull();
+    expect(getByText("alice · write (finance)")).not.toBeNull();
+    expect(getByText("bob · read")).not.toBeNull();
+  });
+
+  test("shows why teams are unavailable without server storage", async () => {
+    listStatus = 404;
+    const { findByText, queryByRole } = render(<TeamsTab />);
+
+    expect(await findByText(/need server storage/)).not.toBeNull();
+    expect(queryByRole("button", { name: /New team/ })).toBeNull();
+  });
+
+  test("creates a team, sending folders only for write members", async () => {
+    teams = [];
+    const { findByRole, getByLabelText, getByRole } = render(<TeamsTab />);
+
+    fireEvent.click(await findByRole("button", { name: /New team/ }));
+    fireEvent.change(getByLabelText("Team name"), { target: { value: "Ops" } });
+    fireEvent.change(getByLabelText("Member 1"), { target: { value: "erin" } });
+    fireEvent.change(getByLabelText("Member 1 folders"), { target: { value: "runbooks, oncall" } });
+    fireEvent.click(getByRole("button", { name: /Add member/ }));
+    fireEvent.change(getByLabelText("Member 2"), { target: { value: "frank" } });
+    fireEvent.click(getByRole("button", { name: /Save team/ }));
+
+    await waitFor(() => expect(mockToastSuccess).toHaveBeenCalledWith("Team created"));
+    expect(requests.find((r) => r.method === "POST")!.body).toEqual({
+      name: "Ops",
+      members: [
+        { username: "erin", role: "write", folders: ["runbooks", " oncall"] },
+        { username: "frank", role: "read" },
+      ],
+    });
+  });
+
+  test("edits a team by id, and drops the folders of a member made read-only", async () => {
+    const { findByRole, getByLabelText, getByRole, queryByLabelText } = render(<TeamsTab />);
+
+    fireEvent.click(await findByRole("button", { name: "Edit" }));
+    expect((getByLabelText("Member 1 folders") as HTMLInputElement).value).toBe("finance");
+    fireEvent.change(getByLabelText("Member 1 role"), { target: { value: "read" } });
+    expect(queryByLabelText("Member 1 folders")).toBeNull();
+    fireEvent.click(getByRole("button", { name: /Save team/ }));
+
+    await waitFor(() => expect(mockToastSuccess).toHaveBeenCalledWith("Team saved"));
+    expect(requests.find((r) => r.method === "POST")!.body).toEqual({
+      id: "team_1",
+      name: "Analytics",
+      members: [
+        { username: "alice", role: "read" },
+        { username: "bob", role: "read" },
+      ],
+    });
+  });
+
+  test("deletes a team after a confirm", async () => {
+    const originalConfirm = globalThis.confirm;
+    globalThis.confirm = mock(() => true) as unknown as typeof confirm;
+    try {
+      const { findByRole } = render(<TeamsTab />);
+      fireEvent.click(await findByRole("button", { name: "Delete Analytics" }));
+
+      await waitFor(() => expect(mockToastSuccess).toHaveBeenCalledWith("Team deleted"));
+      expect(requests.some((r) => r.method === "DELETE" && r.url === "/api/admin/teams?id=team_1")).toBe(true);
+    } finally {
+      globalThis.confirm = originalConfirm;
+    }
+  });
+});
@@ -0,0 +1,161 @@
+import "../../setup-dom";
+import { mockToastSuccess, mockToastError } from "../../helpers/mock-sonner";
+import "../../helpers/mock-navigation";
+
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import React from "react";
+import { cleanup, fireEvent, render, waitFor } from "@testing-library/react";
+import type { AccountSummary } from "@/lib/accounts/types";
+
+// ── Mock Select: a native <select> of the two roles ──────────────────────────
+
+mock.module("@/components/ui/select", () => {
+  const SelectContext = React.createContext<{ value?: string; onValueChange?: (v: string) => void }>({});
+  return {
+    Select: ({
+      value,
+      onValueChange,
+      children,
+    }: {
+      value?: string;
+      onValueChange?: (v: string) => void;
+      children: React.ReactNode;
+    }) => React.createElement(SelectContext.Provider, { value: { value, onValueChange } }, children),
+    SelectTrigger: ({ "aria-label": label }: { "aria-label"?: string }) => {
+      const { value, onValueChange } = React.useContext(SelectContext);
+      return React.createElement(
+        "select",
+        { "aria-label": label, value, onChange: (e: { target: { value: string } }) => onValueChange?.(e.target.value) },
+        ["user", "admin"].map((v) => React.createElement("option", { key: v, value: v }, v)),
+      );
+    },
+    SelectContent: () => null,
+    SelectItem: () => null,
+    SelectValue: () => null,
+  };
+});
+
+import { UsersTab } from "@/components/admin/tabs/UsersTab";
+
+// ── Mock /api/admin/users ────────────────────────────────────────────────────
+
+const alice: AccountSummary = {
+  email: "alice@example.com",
+  role: "user",
+  status: "active",
+  source: "stored",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  createdBy: "admin@libredb.org",
+  lastLoginAt: "2026-02-01T00:00:00.000Z",
+};
+
+let users: AccountSummary[] = [];
+let listStatus = 200;
+let actionResponse: { status: number; body: unknown } | null = null;
+const requests: { url: string; method: string; body?: unknown }[] = [];
+
+const originalFetch = globalThis.fetch;
+const originalConfirm = globalThis.confirm;
+
+function respond(body: unknown, status = 200) {
+  return Promise.resolve(new Response(JSON.stringify(body), { status }));
+}
+
+beforeEach(() => {
+  users = [{ email: "admin@libredb.org", role: "admin", status: "active", source: "environment" }, alice];
+  listStatus = 200;
+  actionResponse = null;
+  requests.length = 0;
+  mockToastSuccess.mockClear();
+  mockToastError.mockClear();
+  globalThis.confirm = mock(() => true) as unknown as typeof confirm;
+  globalThis.fetch = mock((input: string, init?: RequestInit) => {
+    const method = init?.method ?? "GET";
+    const body = init?.body ? JSON.parse(init.body as string) : undefined;
+    requests.push({ url: input, method, body });
+    if (method === "GET") {
+      return listStatus === 200
+        ? respond({ users })
+        : respond({ error: "User accounts need server storage (STORAGE_PROVIDER=sqlite or postgres)" }, listStatus);
+    }
+    if (actionResponse) return respond(actionResponse.body, actionResponse.status);
+    return respond({ user: { ...alice, status: body.action === "disable" ? "disabled" : "active" } });
+  }) as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  cleanup();
+  globalThis.fetch = originalFetch;
+  globalThis.confirm = originalConfirm;
+});
+
+describe("UsersTab", () => {
+  test("lists stored accounts with their status, and env accounts without controls", async () => {
+    const { findByText, getByText, queryByRole } = render(<UsersTab />);
+
+    expect(await findByText("alice@example.com")).not.toBeNull();
+    expect(getByText("Set by environment variables")).not.toBeNull();
+    expect(queryByRole("button", { name: "Disable alice@example.com" })).not.toBeNull();
+    expect(queryByRole("button", { name: "Disable admin@libredb.org" })).toBeNull();
+  });
+
+  test("shows why accounts are unavailable without server storage", async () => {
+    listStatus = 404;
+    const { findByText, queryByLabelText } = render(<UsersTab />);
+
+    expect(await findByText(/need server storage/)).not.toBeNull();
+    expect(queryByLabelText("Invite email")).toBeNull();
+  });
+
+  test("invites a teammate and shows the setup link once", async () => {
+    actionResponse = {
+      status: 200,
+      body: {
+        user: { ...alice, email: "bob@example.com", role: "admin", status: "invited", lastLoginAt: undefined },
+        setupUrl: "http://localhost:3000/login/setup?token=abc",
+        setupExpiresAt: "2026-03-01T00:00:00.000Z",
+      },
+    };
+    const { findByLabelText, getByLabelText, getByRole, findByText } = render(<UsersTab />);
+
+    fireEvent.change(await findByLabelText("Invite email"), { target: { value: "bob@example.com" } });
+    fireEvent.change(getByLabelText("Invite role"), { target: { value: "admin" } });
+    fireEvent.click(getByRole("button", { name: /Invite$/ }));
+
+    await waitFor(() => expect(mockToastSuccess).toHaveBeenCalledWith("Invite created"));
+    expect(requests.find((r) => r.method === "POST")!.body).toEqual({
+      action: "invite",
+      email: "bob@example.com",
+      role: "admin",
+    });
+    expect((getByLabelText("Setup link") as HTMLInputElement).value).toBe(
+      "http://localhost:3000/login/setup?token=abc",
+    );
+    expect(await findByText("bob@example.com")).not.toBeNull();
+
+    fireEvent.click(getByRole("button", { name: "Done" }));
+    await waitFor(() => expect(() => getByLabelText("Setup link")).toThrow());
+  });
+
+  test("disables an account after a confirm, and changes a role", async () => {
+    const { findByRole, getByLabelText, findByText } = render(<UsersTab />);
+
+    fireEvent.click(await findByRole("button", { name: "Disable alice@example.com" }));
+    await waitFor(() => expect(mockToastSuccess).toHaveBeenCalledWith("alice@example.com disabled"));
+    expect(await findByText("Disabled")).not.toBeNull();
+
+    fireEvent.change(getByLabelText("alice@example.com role"), { target: { value: "admin" } });
+    await waitFor(() => expect(requests.filter((r) => r.method === "POST")).toHaveLength(2));
+    expect(requests.at(-1)!.body).toEqual({ action: "role", email: "alice@example.com", role: "admin" });
+  });
+
+  test("shows the route's refusal", async () => {
+    actionResponse = { status: 400, body: { error: "You cannot disable your own account or change its role" } };
+    const { findByRole } = render(<UsersTab />);
+
+    fireEvent.click(await findByRole("button", { name: "Disable alice@example.com" }));
+    await waitFor(() =>
+      expect(mockToastError).toHaveBeenCalledWith("You cannot disable your own account or change its role"),
+    );
+  });
+});
@@ -106,6 +106,27 @@ describe("OverviewTab", () => {
     expect(queryByText("Poor")).toBeNull();
   });
 
+  // A search cluster grades itself green, yellow or red; an engine that does not
+  // must not grow a badge claiming a verdict nobody reached.
+  test("shows the engine's own health verdict only when the engine reports one", () => {
+    const base = makeData();
+    const { queryByText, rerender } = render(<OverviewTab data={base} loading={false} />);
+    expect(queryByText(/unassigned/)).toBeNull();
+
+    rerender(
+      <OverviewTab
+        data={
+          {
+            ...base,
+            overview: { ...base.overview, health: { level: "warning", summary: "yellow, 3 unassigned shards" } },
+          } as MonitoringData
+        }
+        loading={false}
+      />,
+    );
+    expect(queryByText("yellow, 3 unassigned shards")).not.toBeNull();
+  });
+
   test("renders connection trend when history has enough points", () => {
     const { queryByText, queryByTestId } = render(
       <OverviewTab data={makeData()} loading={false} history={makeHistory()} />,
@@ -0,0 +1,110 @@
+import "../../setup-dom";
+import { mockToastError, mockToastSuccess } from "../../helpers/mock-sonner";
+import "../../helpers/mock-navigation";
+
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { cleanup, fireEvent, render, waitFor } from "@testing-library/react";
+import type { ApiTokenSummary } from "@/lib/api-tokens/types";
+
+import { ApiTokensPanel } from "@/components/profile/ApiTokensPanel";
+
+// ── Mock /api/tokens ─────────────────────────────────────────────────────────
+
+const nightly: ApiTokenSummary = {
+  id: "tok_1",
+  name: "nightly",
+  scopes: ["query", "schema"],
+  createdAt: "2026-01-01T00:00:00.000Z",
+  expiresAt: "2026-04-01T00:00:00.000Z",
+  lastUsedAt: "2026-02-01T00:00:00.000Z",
+  expired: false,
+};
+
+let tokens: ApiTokenSummary[] = [];
+let createResponse: { body: unknown; status: number } = { body: {}, status: 200 };
+const calls: { method: string; url: string; body?: unknown }[] = [];
+
+const originalFetch = globalThis.fetch;
+const originalConfirm = globalThis.confirm;
+
+function respond(body: unknown, status = 200) {
+  return Promise.resolve(new Response(JSON.stringify(body), { status }));
+}
+
+beforeEach(() => {
+  tokens = [nightly];
+  calls.length = 0;
+  createResponse = {
+    body: { token: { ...nightly, id: "tok_2", name: "notebook", scopes: ["schema"] }, secret: "ldb_pat_s3cret" },
+    status: 200,
+  };
+  mockToastSuccess.mockClear();
+  mockToastError.mockClear();
+  globalThis.confirm = () => true;
+  globalThis.fetch = mock((url: string, init?: RequestInit) => {
+    const method = init?.method ?? "GET";
+    calls.push({ method, url, ...(init?.body ? { body: JSON.parse(init.body as string) } : {}) });
+    if (method === "GET") return respond({ tokens });
+    if (method === "DELETE") return respond({ ok: true });
+    return respond(createResponse.body, createResponse.status);
+  }) as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  cleanup();
+  globalThis.fetch = originalFetch;
+  globalThis.confirm = originalConfirm;
+});
+
+describe("ApiTokensPanel", () => {
+  test("lists each token with its id, scopes and last use", async () => {
+    const { findByText, getByText } = render(<ApiTokensPanel />);
+
+    expect(await findByText("nightly")).not.toBeNull();
+    expect(getByText("tok_1")).not.toBeNull();
+    expect(getByText("query")).not.toBeNull();
+    expect(getByText(/Last used/)).not.toBeNull();
+  });
+
+  test("creating one sends the chosen scopes and shows the secret once", async () => {
+    const { findByLabelText, getByLabelText, getByRole, queryByLabelText } = render(<ApiTokensPanel />);
+
+    fireEvent.change(await findByLabelText("Token name"), { target: { value: "notebook" } });
+    fireEvent.click(getByLabelText("Run queries"));
+    fireEvent.change(getByLabelText("Expires in days"), { target: { value: "30" } });
+    fireEvent.click(getByRole("button", { name: /Create token/ }));
+
+    await waitFor(() => expect(mockToastSuccess).toHaveBeenCalledWith("Token created"));
+    expect(calls.at(-1)).toEqual({
+      method: "POST",
+      url: "/api/tokens",
+      body: { name: "notebook", scopes: ["schema"], expiresInDays: 30 },
+    });
+    expect((getByLabelText("Token secret") as HTMLInputElement).value).toBe("ldb_pat_s3cret");
+
+    fireEvent.click(getByRole("button", { name: "Done" }));
+    expect(queryByLabelText("Token secret")).toBeNull();
+  });
+
+  test("revoking one removes it from the list", async () => {
+    const { findByRole, queryByText } = render(<ApiTokensPanel />);
+
+    fireEvent.click(await findByRole("button", { name: "Revoke nightly" }));
+
+    await waitFor(() => expect(mockToastSuccess).toHaveBeenCalledWith('"nightly" revoked'));
+    expect(calls.at(-1)).toEqual({ method: "DELETE", url: "/api/tokens?id=tok_1" });
+    expect(queryByText("nightly")).toBeNull();
+  });
+
+  test("says why a token could not be created", async () => {
+    createResponse = { body: { error: "You already have 10 live API tokens; revoke one first" }, status: 409 };
+    const { findByLabelText, getByRole } = render(<ApiTokensPanel />);
+
+    fireEvent.change(await findByLabelText("Token name"), { target: { value: "one more" } });
+    fireEvent.click(getByRole("button", { name: /Create token/ }));
+
+    await waitFor(() =>
+      expect(mockToastError).toHaveBeenCalledWith("You already have 10 live API tokens; revoke one first"),
+    );
+  });
+});
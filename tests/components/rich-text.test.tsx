@@ -157,6 +157,9 @@ describe("renderProse code hand-off to the editor", () => {
       "couchbase",
       "clickhouse",
       "druid",
+      "duckdb",
+      "cassandra",
+      "elasticsearch",
     ] satisfies DatabaseType[];
 
     for (const engine of engines) {
@@ -46,6 +46,10 @@ mock.module("@/components/VisualExplain", () => ({
   },
 }));
 
+// What the two panels hand over beside the text, passed on to `onLoadQuery` untouched.
+const historyLoaded = { parameters: [{ name: ":id", type: "number", value: "3" }] };
+const savedLoaded = { savedQueryId: "q4", parameters: [] };
+
 mock.module("@/components/QueryHistory", () => ({
   QueryHistory: ({ onSelectQuery }: Record<string, unknown>) => {
     // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -58,7 +62,7 @@ mock.module("@/components/QueryHistory", () => ({
         "button",
         {
           "data-testid": "queryhistory-select-btn",
-          onClick: () => (onSelectQuery as (query: string) => void)("SELECT 3"),
+          onClick: () => (onSelectQuery as (query: string, loaded: unknown) => void)("SELECT 3", historyLoaded),
         },
         "Select",
       ),
@@ -78,7 +82,7 @@ mock.module("@/components/SavedQueries", () => ({
         "button",
         {
           "data-testid": "savedqueries-select-btn",
-          onClick: () => (onSelectQuery as (query: string) => void)("SELECT 4"),
+          onClick: () => (onSelectQuery as (query: string, loaded: unknown) => void)("SELECT 4", savedLoaded),
         },
         "Select",
       ),
@@ -136,6 +140,14 @@ mock.module("@/components/SchemaDiff", () => ({
   },
 }));
 
+mock.module("@/components/DataDiff", () => ({
+  DataDiff: () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const React = require("react");
+    return React.createElement("div", { "data-testid": "datadiff" }, "DataDiff");
+  },
+}));
+
 // ---- Mock storage so the ChartDashboardLazy saved-charts grid is controllable ----
 
 const mockGetSavedCharts = mock(() => [] as SavedChartConfig[]);
@@ -223,7 +235,7 @@ describe("BottomPanel", () => {
     more importantly, stay independent of the order the tests happen to run in.
   */
   beforeAll(async () => {
-    for (const mode of ["charts", "pivot", "docs", "schemadiff", "explain"] as const) {
+    for (const mode of ["charts", "pivot", "docs", "schemadiff", "datadiff", "explain"] as const) {
       const props = createDefaultProps({ mode });
       await act(async () => {
         render(<BottomPanel {...(props as React.ComponentProps<typeof BottomPanel>)} />);
@@ -521,6 +533,21 @@ describe("BottomPanel", () => {
     expect(onSetMode).toHaveBeenCalledWith("schemadiff");
   });
 
+  test('Data Diff tab renders DataDiff when mode="datadiff"', () => {
+    const props = createDefaultProps({ mode: "datadiff" });
+    const { queryByTestId } = render(<BottomPanel {...(props as React.ComponentProps<typeof BottomPanel>)} />);
+    expect(queryByTestId("datadiff")).not.toBeNull();
+    expect(queryByTestId("schemadiff")).toBeNull();
+  });
+
+  test("clicking Data Diff tab fires onSetMode with datadiff", () => {
+    const onSetMode = mock(() => {});
+    const props = createDefaultProps({ onSetMode });
+    const { getByText } = render(<BottomPanel {...(props as React.ComponentProps<typeof BottomPanel>)} />);
+    fireEvent.click(getByText("Data Diff").closest("button")!);
+    expect(onSetMode).toHaveBeenCalledWith("datadiff");
+  });
+
   test("clicking Docs tab fires onSetMode with docs", () => {
     const onSetMode = mock(() => {});
     const props = createDefaultProps({ onSetMode });
@@ -574,11 +601,11 @@ describe("BottomPanel", () => {
     rather than a fourth near-identical copy — `explain` below stays separate because
     it needs a tab carrying a result, which is a different fixture and not a row.
   */
-  test.each<[string, string, string]>([
-    ["pivot", "pivottable-load-btn", "SELECT 2"],
-    ["history", "queryhistory-select-btn", "SELECT 3"],
-    ["saved", "savedqueries-select-btn", "SELECT 4"],
-  ])("%s load wrapper loads the query and switches to results mode", (mode, testId, expectedQuery) => {
+  test.each<[string, string, unknown[]]>([
+    ["pivot", "pivottable-load-btn", ["SELECT 2"]],
+    ["history", "queryhistory-select-btn", ["SELECT 3", historyLoaded]],
+    ["saved", "savedqueries-select-btn", ["SELECT 4", savedLoaded]],
+  ])("%s load wrapper loads the query and switches to results mode", (mode, testId, expectedCall) => {
     const onLoadQuery = mock(() => {});
     const onSetMode = mock(() => {});
     const props = createDefaultProps({ mode, onLoadQuery, onSetMode });
@@ -586,7 +613,7 @@ describe("BottomPanel", () => {
 
     fireEvent.click(getByTestId(testId));
 
-    expect(onLoadQuery).toHaveBeenCalledWith(expectedQuery);
+    expect(onLoadQuery).toHaveBeenCalledWith(...expectedCall);
     expect(onSetMode).toHaveBeenCalledWith("results");
   });
 
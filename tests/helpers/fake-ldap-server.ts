@@ -0,0 +1,185 @@
+import net from "node:net";
+import {
+  type BerElement,
+  berConstructed,
+  berEnumerated,
+  berInteger,
+  berOctetString,
+  berSequence,
+  readBerChildren,
+  readBerElement,
+  readBerInteger,
+  readBerString,
+} from "@/lib/ldap/ber";
+import { escapeFilterValue } from "@/lib/ldap/filter";
+
+/**
+ * An in-process LDAP server for the LDAP provider's tests: simple bind, search
+ * with equality / presence / substring / and / or / not filters, and a StartTLS
+ * request it always refuses. Just enough of RFC 4511 to answer what
+ * src/lib/ldap/client.ts sends, decoded with the client's own BER reader.
+ */
+
+export interface FakeLdapEntry {
+  dn: string;
+  password?: string;
+  attributes: Record<string, string[]>;
+}
+
+export interface FakeLdapServer {
+  url: string;
+  /** Every bind the server saw, as `[dn, password]`. */
+  binds: [string, string][];
+  /** Every search the server saw: its base and the filter rendered back to a string. */
+  searches: { base: string; filter: string }[];
+  close(): Promise<void>;
+}
+
+type Filter = (entry: FakeLdapEntry) => boolean;
+
+function values(entry: FakeLdapEntry, attribute: string): string[] {
+  const key = Object.keys(entry.attributes).find((name) => name.toLowerCase() === attribute.toLowerCase());
+  if (attribute.toLowerCase() === "objectclass" && !key) return ["top"];
+  return key ? entry.attributes[key] : [];
+}
+
+/** The filter as a predicate, and written back as a string - values escaped again, so a literal `*` reads `\2a`. */
+function readFilter(element: BerElement): { test: Filter; text: string } {
+  const children = () => readBerChildren(element.content).map(readFilter);
+  switch (element.tag) {
+    case 0xa0:
+    case 0xa1: {
+      const parts = children();
+      const all = element.tag === 0xa0;
+      return {
+        test: (entry) => (all ? parts.every((p) => p.test(entry)) : parts.some((p) => p.test(entry))),
+        text: `(${all ? "&" : "|"}${parts.map((p) => p.text).join("")})`,
+      };
+    }
+    case 0xa2: {
+      const [inner] = children();
+      return { test: (entry) => !inner.test(entry), text: `(!${inner.text})` };
+    }
+    case 0xa3: {
+      const [attribute, value] = readBerChildren(element.content).map(readBerString);
+      return {
+        test: (entry) => values(entry, attribute).some((v) => v.toLowerCase() === value.toLowerCase()),
+        text: `(${attribute}=${escapeFilterValue(value)})`,
+      };
+    }
+    case 0xa4: {
+      const [type, list] = readBerChildren(element.content);
+      const attribute = readBerString(type);
+      const parts = readBerChildren(list.content).map((part) => ({ tag: part.tag, value: readBerString(part) }));
+      const pattern = parts
+        .map(({ tag, value }) => `${tag === 0x80 ? "^" : ".*"}${value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`)
+        .join("");
+      const regex = new RegExp(`${pattern}${parts.at(-1)?.tag === 0x82 ? "$" : ""}`, "i");
+      return {
+        test: (entry) => values(entry, attribute).some((v) => regex.test(v)),
+        text: `(${attribute}=~substrings)`,
+      };
+    }
+    case 0x87: {
+      const attribute = readBerString(element);
+      return { test: (entry) => values(entry, attribute).length > 0, text: `(${attribute}=*)` };
+    }
+    default:
+      throw new Error(`The fake LDAP server does not support filter tag 0x${element.tag.toString(16)}`);
+  }
+}
+
+function result(tag: number, code: number, message = ""): Buffer {
+  return berConstructed(tag, [berEnumerated(code), berOctetString(""), berOctetString(message)]);
+}
+
+function entryMessage(entry: FakeLdapEntry, attributes: string[]): Buffer {
+  const wanted = attributes.filter((a) => a !== "1.1");
+  const listed = Object.entries(entry.attributes).filter(
+    ([name]) => wanted.length > 0 && wanted.some((a) => a.toLowerCase() === name.toLowerCase()),
+  );
+  return berConstructed(0x64, [
+    berOctetString(entry.dn),
+    berSequence(
+      listed.map(([name, vals]) =>
+        berSequence([
+          berOctetString(name),
+          berConstructed(
+            0x31,
+            vals.map((v) => berOctetString(v)),
+          ),
+        ]),
+      ),
+    ),
+  ]);
+}
+
+function inScope(entry: FakeLdapEntry, base: string, scope: number): boolean {
+  const dn = entry.dn.toLowerCase();
+  const root = base.toLowerCase();
+  if (scope === 0) return dn === root;
+  if (!dn.endsWith(`,${root}`)) return scope === 2 && dn === root;
+  return scope === 2 || !dn.slice(0, -(root.length + 1)).includes(",");
+}
+
+export async function startFakeLdapServer(entries: FakeLdapEntry[]): Promise<FakeLdapServer> {
+  const binds: [string, string][] = [];
+  const searches: { base: string; filter: string }[] = [];
+  const sockets = new Set<net.Socket>();
+
+  // The Server class rather than net.createServer, which another suite replaces process-wide.
+  const server = new net.Server((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    let buffer: Buffer = Buffer.alloc(0);
+    socket.on("data", (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (let read = readBerElement(buffer); read; read = readBerElement(buffer)) {
+        buffer = buffer.subarray(read.next);
+        const [idElement, op] = readBerChildren(read.element.content);
+        const id = berInteger(readBerInteger(idElement));
+        const send = (operation: Buffer) => socket.write(berSequence([id, operation]));
+
+        if (op.tag === 0x42) {
+          socket.end();
+          return;
+        }
+        if (op.tag === 0x60) {
+          const [, name, credentials] = readBerChildren(op.content);
+          const dn = readBerString(name);
+          const password = readBerString(credentials);
+          binds.push([dn, password]);
+          const entry = entries.find((e) => e.dn.toLowerCase() === dn.toLowerCase());
+          send(result(0x61, entry?.password !== undefined && entry.password === password ? 0 : 49));
+        } else if (op.tag === 0x63) {
+          const [base, scope, , sizeLimit, , , filter, attributes] = readBerChildren(op.content);
+          const baseDn = readBerString(base);
+          const { test, text } = readFilter(filter);
+          searches.push({ base: baseDn, filter: text });
+          const limit = readBerInteger(sizeLimit);
+          const matches = entries.filter((e) => inScope(e, baseDn, readBerInteger(scope)) && test(e));
+          const returned = limit > 0 ? matches.slice(0, limit) : matches;
+          const wanted = readBerChildren(attributes.content).map(readBerString);
+          for (const entry of returned) send(entryMessage(entry, wanted));
+          send(result(0x65, limit > 0 && matches.length > limit ? 4 : 0));
+        } else if (op.tag === 0x77) {
+          send(result(0x78, 2, "StartTLS is not offered here"));
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  return {
+    url: `ldap://127.0.0.1:${port}`,
+    binds,
+    searches,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) socket.destroy();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -506,6 +506,43 @@ describe("useConnectionForm", () => {
     expect(result.current.environment).toBe("local");
   });
 
+  // ── write policy ───────────────────────────────────────────────────────────
+
+  test("write policy defaults to read-write, and only another policy is written", async () => {
+    mockGlobalFetch({
+      "/api/db/test-connection": { ok: true, json: { success: true, latency: 10 } },
+    });
+    const onConnect = mock(() => {});
+    const { result } = renderHook(() => useConnectionForm({ ...defaultProps, onConnect }));
+    expect(result.current.writePolicy).toBe("read-write");
+
+    await act(async () => {
+      await result.current.handleConnect();
+    });
+    expect("writePolicy" in ((onConnect.mock.calls as unknown[][])[0][0] as DatabaseConnection)).toBe(false);
+
+    act(() => {
+      result.current.setWritePolicy("read-only");
+    });
+    await act(async () => {
+      await result.current.handleConnect();
+    });
+    expect(((onConnect.mock.calls as unknown[][])[1][0] as DatabaseConnection).writePolicy).toBe("read-only");
+  });
+
+  test("populates the write policy from editConnection", () => {
+    const editConn: DatabaseConnection = {
+      id: "edit-1",
+      name: "Prod",
+      type: "postgres",
+      createdAt: new Date(),
+      writePolicy: "approval",
+    };
+    const { result } = renderHook(() => useConnectionForm({ ...defaultProps, editConnection: editConn }));
+
+    expect(result.current.writePolicy).toBe("approval");
+  });
+
   // ── isEditMode is true when editConnection is provided ─────────────────────
 
   test("isEditMode is true when editConnection is provided", () => {
@@ -570,6 +607,9 @@ describe("useConnectionForm", () => {
     couchbase: true,
     clickhouse: true,
     druid: true,
+    duckdb: true,
+    cassandra: true,
+    elasticsearch: true,
   };
 
   test("dbTypes offers every database type a connection can carry", () => {
@@ -641,6 +681,26 @@ describe("useConnectionForm", () => {
     expect(result.current.showAdvanced).toBe(true);
   });
 
+  // ── Edit mode with Cassandra dataCenter ────────────────────────────────
+
+  test("populates the Cassandra dataCenter and showAdvanced in edit mode", () => {
+    const editConn: DatabaseConnection = {
+      id: "edit-cassandra",
+      name: "Events",
+      type: "cassandra",
+      host: "10.0.0.1,10.0.0.2",
+      port: 9042,
+      database: "telemetry",
+      dataCenter: "eu-west",
+      createdAt: new Date(),
+    };
+
+    const { result } = renderHook(() => useConnectionForm({ ...defaultProps, editConnection: editConn }));
+
+    expect(result.current.dataCenter).toBe("eu-west");
+    expect(result.current.showAdvanced).toBe(true);
+  });
+
   // ── Edit mode with MSSQL instanceName ──────────────────────────────────
 
   test("populates MSSQL instanceName and showAdvanced in edit mode", () => {
@@ -941,6 +1001,39 @@ describe("useConnectionForm", () => {
     expect(body.instanceName).toBe("SQLEXPRESS");
   });
 
+  // ── buildConnection with Cassandra dataCenter ──────────────────────────
+
+  test("buildConnection includes the Cassandra dataCenter, and only for Cassandra", async () => {
+    const fetchMock = mockGlobalFetch({
+      "/api/db/test-connection": { ok: true, json: { success: true, latency: 20 } },
+    });
+
+    const { result } = renderHook(() => useConnectionForm(defaultProps));
+
+    act(() => {
+      result.current.setType("cassandra");
+      result.current.setDataCenter("eu-west");
+    });
+
+    await act(async () => {
+      await result.current.handleTestConnection();
+    });
+
+    act(() => {
+      result.current.setType("postgres");
+    });
+
+    await act(async () => {
+      await result.current.handleTestConnection();
+    });
+
+    const bodies = fetchMock.mock.calls
+      .filter((call) => typeof call[0] === "string" && call[0].includes("/api/db/test-connection"))
+      .map((call) => JSON.parse(call[1]!.body as string));
+    expect(bodies[0].dataCenter).toBe("eu-west");
+    expect(bodies[1].dataCenter).toBeUndefined();
+  });
+
   // ── handleConnect sets network error on fetch failure ──────────────────
 
   test("handleConnect sets network error on fetch failure", async () => {
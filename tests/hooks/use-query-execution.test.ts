@@ -111,7 +111,7 @@ function createDefaultParams(overrides?: Record<string, unknown>) {
     activeTabId: "tab-1",
     currentTab: tab,
     setTabs: setTabsMock,
-    transactionActive: false,
+    transactionTabId: null,
     playgroundMode: false,
     fetchSchema: mock(async () => {}),
     queryEditorRef: { current: null },
@@ -519,6 +519,42 @@ describe("useQueryExecution", () => {
     });
   });
 
+  // ── handleLoadMore sends back a cursor engine's paging state ───────────────
+
+  test("handleLoadMore sends the previous page's pageState beside the offset", async () => {
+    const tabWithResults = createTab({
+      result: {
+        ...mockQueryResult,
+        pagination: { limit: 500, offset: 0, hasMore: true, totalReturned: 500, wasLimited: true, pageState: "0a1b" },
+      },
+      currentOffset: 500,
+    });
+
+    const fetchMock = mockGlobalFetch({
+      "/api/db/query": { ok: true, json: { ...mockQueryResult, rows: [{ id: 3, name: "Charlie" }], rowCount: 1 } },
+    });
+
+    const params = createDefaultParams({
+      tabs: [tabWithResults],
+      currentTab: tabWithResults,
+    });
+
+    const { result } = renderHook(() => useQueryExecution(params));
+
+    await act(async () => {
+      result.current.handleLoadMore();
+    });
+
+    await waitFor(() => {
+      const queryCall = fetchMock.mock.calls.find(
+        (call) => typeof call[0] === "string" && call[0].includes("/api/db/query"),
+      );
+      expect(queryCall).toBeDefined();
+      const body = JSON.parse(queryCall![1]!.body as string);
+      expect(body.options).toMatchObject({ offset: 500, pageState: "0a1b" });
+    });
+  });
+
   // ── setBottomPanelMode changes mode ────────────────────────────────────────
 
   test("setBottomPanelMode changes mode", () => {
@@ -682,15 +718,15 @@ describe("useQueryExecution", () => {
     expect(singleCall).toBeDefined();
   });
 
-  // ── executeQuery uses /api/db/transaction when transactionActive ───────────
+  // ── executeQuery uses /api/db/transaction when its tab owns the transaction ─
 
-  test("executeQuery uses /api/db/transaction when transactionActive", async () => {
+  test("executeQuery uses /api/db/transaction when its tab owns the transaction", async () => {
     const fetchMock = mockGlobalFetch({
       "/api/db/transaction": { ok: true, json: mockQueryResult },
       "/api/db/query": { ok: true, json: mockQueryResult },
     });
 
-    const params = createDefaultParams({ transactionActive: true });
+    const params = createDefaultParams({ transactionTabId: "tab-1" });
 
     const { result } = renderHook(() => useQueryExecution(params));
 
@@ -706,6 +742,28 @@ describe("useQueryExecution", () => {
     const body = JSON.parse(txnCall![1]!.body as string);
     expect(body.action).toBe("query");
     expect(body.sql).toBe("SELECT * FROM users");
+    expect(body.tabId).toBe("tab-1");
+  });
+
+  test("executeQuery auto-commits in a tab that does not own the open transaction", async () => {
+    // The transaction belongs to the tab that began it; a query typed in another
+    // tab must not silently join it.
+    const fetchMock = mockGlobalFetch({
+      "/api/db/transaction": { ok: true, json: mockQueryResult },
+      "/api/db/query": { ok: true, json: mockQueryResult },
+    });
+
+    const params = createDefaultParams({ transactionTabId: "tab-2" });
+
+    const { result } = renderHook(() => useQueryExecution(params));
+
+    await act(async () => {
+      await result.current.executeQuery("SELECT * FROM users");
+    });
+
+    const urls = fetchMock.mock.calls.map((call) => call[0]);
+    expect(urls.some((url) => typeof url === "string" && url.includes("/api/db/transaction"))).toBe(false);
+    expect(urls.some((url) => typeof url === "string" && url.includes("/api/db/query"))).toBe(true);
   });
 
   // ── Bound parameters reach the server (#290) ───────────────────────────────
@@ -816,7 +874,7 @@ describe("useQueryExecution", () => {
       "/api/db/query": { ok: true, json: mockQueryResult },
     });
 
-    const { result } = renderHook(() => useQueryExecution(createDefaultParams({ transactionActive: true })));
+    const { result } = renderHook(() => useQueryExecution(createDefaultParams({ transactionTabId: "tab-1" })));
 
     await act(async () => {
       await result.current.executeQuery(`UPDATE users SET "name" = $1 WHERE "id" = $2`, undefined, false, {
@@ -833,6 +891,85 @@ describe("useQueryExecution", () => {
     expect(body.params).toEqual(["Alice", 1]);
   });
 
+  // ── The editor's own parameters (`:id`, `$1`, `@since`) ───────────────────
+
+  test("executeQuery binds the tab's parameter values and records them in history", async () => {
+    const fetchMock = mockGlobalFetch({
+      "/api/db/query": { ok: true, json: mockQueryResult },
+    });
+    const parameters = [
+      { name: ":name", type: "text" as const, value: "x' OR 1=1 --" },
+      { name: ":id", type: "number" as const, value: "7" },
+    ];
+    const tab = createTab({ query: "SELECT * FROM users WHERE id = :id AND name = :name", parameters });
+
+    const { result } = renderHook(() => useQueryExecution(createDefaultParams({ tabs: [tab], currentTab: tab })));
+
+    await act(async () => {
+      await result.current.executeQuery();
+    });
+
+    const queryCall = fetchMock.mock.calls.find(
+      (call) => typeof call[0] === "string" && call[0].includes("/api/db/query"),
+    );
+    const body = JSON.parse(queryCall![1]!.body as string);
+    expect(body.sql).toBe("SELECT * FROM users WHERE id = $1 AND name = $2");
+    expect(body.params).toEqual([7, "x' OR 1=1 --"]);
+
+    const historyArg = (storage.addToHistory as ReturnType<typeof mock>).mock.calls[0][0] as Record<string, unknown>;
+    expect(historyArg.query).toBe("SELECT * FROM users WHERE id = :id AND name = :name");
+    expect(historyArg.parameters).toEqual([parameters[1], parameters[0]]);
+  });
+
+  test("executeQuery refuses a run whose parameter has no usable value", async () => {
+    const fetchMock = mockGlobalFetch({
+      "/api/db/query": { ok: true, json: mockQueryResult },
+    });
+    const tab = createTab({
+      query: "SELECT * FROM users WHERE id = :id",
+      parameters: [{ name: ":id", type: "number", value: "seven" }],
+    });
+
+    const { result } = renderHook(() => useQueryExecution(createDefaultParams({ tabs: [tab], currentTab: tab })));
+
+    await act(async () => {
+      await result.current.executeQuery();
+    });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(mockToastError).toHaveBeenCalled();
+  });
+
+  test("executeQuery remembers the values on the saved query the tab was loaded from", async () => {
+    mockGlobalFetch({
+      "/api/db/query": { ok: true, json: mockQueryResult },
+    });
+    const saved = {
+      id: "sq-1",
+      name: "User by id",
+      query: "SELECT * FROM users WHERE id = :id",
+      connectionType: "postgres" as const,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const getSavedSpy = spyOn(storage, "getSavedQueries").mockImplementation(() => [saved]);
+    const saveSpy = spyOn(storage, "saveQuery").mockImplementation(() => {});
+    const parameters = [{ name: ":id", type: "number" as const, value: "7" }];
+    const tab = createTab({ query: saved.query, parameters, savedQueryId: "sq-1" });
+
+    try {
+      const { result } = renderHook(() => useQueryExecution(createDefaultParams({ tabs: [tab], currentTab: tab })));
+      await act(async () => {
+        await result.current.executeQuery();
+      });
+
+      expect(saveSpy).toHaveBeenCalledWith({ ...saved, parameters });
+    } finally {
+      getSavedSpy.mockRestore();
+      saveSpy.mockRestore();
+    }
+  });
+
   // ── executeQuery adds error to history on failure ──────────────────────────
 
   test("executeQuery adds to history on error response", async () => {
@@ -853,6 +990,50 @@ describe("useQueryExecution", () => {
     expect(historyArg.errorMessage).toBe("relation does not exist");
   });
 
+  // ── Writes that need approval ──────────────────────────────────────────────
+
+  test("executeQuery reopens the safety dialog when the write needs approval, without a history entry", async () => {
+    mockGlobalFetch({
+      "/api/db/query": {
+        ok: false,
+        status: 403,
+        json: { error: "Writes need approval", code: "WRITE_REFUSED", details: { reason: "APPROVAL_REQUIRED" } },
+      },
+    });
+    const params = createDefaultParams({ activeConnection: { ...mockConnection, writePolicy: "approval" } });
+
+    const { result } = renderHook(() => useQueryExecution(params));
+
+    await act(async () => {
+      await result.current.executeQuery("UPDATE users SET active = false");
+    });
+
+    expect(result.current.safetyCheckQuery).toBe("UPDATE users SET active = false");
+    expect(storage.addToHistory).not.toHaveBeenCalled();
+    expect(mockToastError).not.toHaveBeenCalled();
+  });
+
+  test("requestApproval submits the statement and its connection as a change request", async () => {
+    const fetchMock = mockGlobalFetch({
+      "/api/db/change-requests": { ok: true, json: { request: { id: "cr_1", status: "pending" } } },
+    });
+    const params = createDefaultParams();
+
+    const { result } = renderHook(() => useQueryExecution(params));
+
+    await act(async () => {
+      await result.current.requestApproval("DELETE FROM users WHERE id = 7");
+    });
+
+    const call = fetchMock.mock.calls.find((c) => String(c[0]).includes("/api/db/change-requests"));
+    expect(call).toBeDefined();
+    const body = JSON.parse(call![1]!.body as string);
+    expect(body.sql).toBe("DELETE FROM users WHERE id = 7");
+    expect(body.connection.id).toBe("qe-pg-1");
+    expect(fetchMock.mock.calls.some((c) => String(c[0]).includes("/api/db/query"))).toBe(false);
+    expect(result.current.safetyCheckQuery).toBeNull();
+  });
+
   // ── safetyCheckQuery is null initially ─────────────────────────────────────
 
   test("safetyCheckQuery is null initially", () => {
@@ -1,8 +1,8 @@
 import "../setup-dom";
 
 import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
-import { renderHook, act } from "@testing-library/react";
-import { mockGlobalFetch, restoreGlobalFetch } from "../helpers/mock-fetch";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { mockGlobalFetch, restoreGlobalFetch, type MockFetchResponse } from "../helpers/mock-fetch";
 
 // Shared mocks — process-wide singletons (no contamination)
 import { mockToastSuccess, mockToastError } from "../helpers/mock-sonner";
@@ -10,6 +10,9 @@ import "../helpers/mock-navigation";
 
 import { useTransactionControl } from "@/hooks/use-transaction-control";
 import type { DatabaseConnection } from "@/lib/types";
+import type { OpenTransaction } from "@/lib/db/transactions";
+
+const TAB = { id: "tab-1", name: "Query 1" };
 
 function makeConnection(overrides: Partial<DatabaseConnection> = {}): DatabaseConnection {
   return {
@@ -24,6 +27,45 @@ function makeConnection(overrides: Partial<DatabaseConnection> = {}): DatabaseCo
   };
 }
 
+function makeTransaction(overrides: Partial<OpenTransaction> = {}): OpenTransaction {
+  return {
+    id: "txn-1",
+    username: "admin",
+    connectionId: "conn-1",
+    connectionName: "Test DB",
+    tabId: TAB.id,
+    tabName: TAB.name,
+    databaseType: "postgres",
+    startedAt: 1,
+    lastActivityAt: 1,
+    expiresAt: 300_001,
+    statementCount: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * The transaction endpoint by action: the hook asks for `status` on mount, so a
+ * single canned response would answer that call too.
+ */
+function transactionRoute(
+  responses: Partial<Record<"begin" | "commit" | "rollback" | "status", MockFetchResponse>>,
+): (req: Request) => Promise<MockFetchResponse> {
+  return async (req) => {
+    const { action } = await req.json();
+    return (
+      responses[action as keyof typeof responses] ??
+      (action === "status" ? { json: { inTransaction: false, transactions: [] } } : { json: { success: true } })
+    );
+  };
+}
+
+function actionCalls(fetchMock: ReturnType<typeof mockGlobalFetch>, action: string) {
+  return fetchMock.mock.calls
+    .map(([, options]) => JSON.parse(options?.body as string))
+    .filter((body) => body.action === action);
+}
+
 describe("useTransactionControl", () => {
   beforeEach(() => {
     mockToastSuccess.mockClear();
@@ -35,7 +77,7 @@ describe("useTransactionControl", () => {
   });
 
   test("initially transactionActive is false and playgroundMode is false", () => {
-    const { result } = renderHook(() => useTransactionControl({ activeConnection: makeConnection() }));
+    const { result } = renderHook(() => useTransactionControl({ activeConnection: makeConnection(), currentTab: TAB }));
 
     expect(result.current.transactionActive).toBe(false);
     expect(result.current.playgroundMode).toBe(false);
@@ -44,26 +86,30 @@ describe("useTransactionControl", () => {
   test("handleTransaction begin calls fetch and sets transactionActive true", async () => {
     const connection = makeConnection();
     const fetchMock = mockGlobalFetch({
-      "/api/db/transaction": { ok: true, status: 200, json: { success: true } },
+      "/api/db/transaction": transactionRoute({
+        begin: { json: { status: "active", transaction: makeTransaction() } },
+      }),
     });
 
-    const { result } = renderHook(() => useTransactionControl({ activeConnection: connection }));
+    const { result } = renderHook(() => useTransactionControl({ activeConnection: connection, currentTab: TAB }));
 
     await act(async () => {
       await result.current.handleTransaction("begin");
     });
 
     // fetch was called with correct params
-    expect(fetchMock).toHaveBeenCalledTimes(1);
-    const [url, options] = fetchMock.mock.calls[0];
+    const beginCalls = actionCalls(fetchMock, "begin");
+    expect(beginCalls).toHaveLength(1);
+    const [url, options] = fetchMock.mock.calls.at(-1)!;
     expect(url).toBe("/api/db/transaction");
     expect(options?.method).toBe("POST");
-    const body = JSON.parse(options?.body as string);
-    expect(body.action).toBe("begin");
-    expect(body.connection.id).toBe("conn-1");
+    expect(beginCalls[0].connection.id).toBe("conn-1");
+    expect(beginCalls[0].tabId).toBe("tab-1");
+    expect(beginCalls[0].tabName).toBe("Query 1");
 
     // State updated
     expect(result.current.transactionActive).toBe(true);
+    expect(result.current.transaction?.tabId).toBe("tab-1");
 
     // Toast called with success (real useToast calls sonnerToast.success)
     expect(mockToastSuccess).toHaveBeenCalledWith("Transaction Started", expect.any(Object));
@@ -72,10 +118,12 @@ describe("useTransactionControl", () => {
   test("handleTransaction commit calls fetch and sets transactionActive false", async () => {
     const connection = makeConnection();
     mockGlobalFetch({
-      "/api/db/transaction": { ok: true, status: 200, json: { success: true } },
+      "/api/db/transaction": transactionRoute({
+        begin: { json: { status: "active", transaction: makeTransaction() } },
+      }),
     });
 
-    const { result } = renderHook(() => useTransactionControl({ activeConnection: connection }));
+    const { result } = renderHook(() => useTransactionControl({ activeConnection: connection, currentTab: TAB }));
 
     // First begin to set transactionActive true
     await act(async () => {
@@ -95,10 +143,12 @@ describe("useTransactionControl", () => {
   test("handleTransaction rollback calls fetch and sets transactionActive false", async () => {
     const connection = makeConnection();
     mockGlobalFetch({
-      "/api/db/transaction": { ok: true, status: 200, json: { success: true } },
+      "/api/db/transaction": transactionRoute({
+        begin: { json: { status: "active", transaction: makeTransaction() } },
+      }),
     });
 
-    const { result } = renderHook(() => useTransactionControl({ activeConnection: connection }));
+    const { result } = renderHook(() => useTransactionControl({ activeConnection: connection, currentTab: TAB }));
 
     // Begin first
     await act(async () => {
@@ -117,10 +167,12 @@ describe("useTransactionControl", () => {
 
   test("handleTransaction does nothing when activeConnection is null", async () => {
     const fetchMock = mockGlobalFetch({
-      "/api/db/transaction": { ok: true, status: 200, json: { success: true } },
+      "/api/db/transaction": transactionRoute({
+        begin: { json: { status: "active", transaction: makeTransaction() } },
+      }),
     });
 
-    const { result } = renderHook(() => useTransactionControl({ activeConnection: null }));
+    const { result } = renderHook(() => useTransactionControl({ activeConnection: null, currentTab: TAB }));
 
     await act(async () => {
       await result.current.handleTransaction("begin");
@@ -134,10 +186,10 @@ describe("useTransactionControl", () => {
   test("handleTransaction shows destructive toast on API error", async () => {
     const connection = makeConnection();
     mockGlobalFetch({
-      "/api/db/transaction": { ok: false, status: 400, json: { error: "Transaction not supported" } },
+      "/api/db/transaction": transactionRoute({ begin: { status: 400, json: { error: "Transaction not supported" } } }),
     });
 
-    const { result } = renderHook(() => useTransactionControl({ activeConnection: connection }));
+    const { result } = renderHook(() => useTransactionControl({ activeConnection: connection, currentTab: TAB }));
 
     await act(async () => {
       await result.current.handleTransaction("begin");
@@ -157,7 +209,7 @@ describe("useTransactionControl", () => {
       throw new Error("Network failure");
     }) as unknown as typeof fetch;
 
-    const { result } = renderHook(() => useTransactionControl({ activeConnection: connection }));
+    const { result } = renderHook(() => useTransactionControl({ activeConnection: connection, currentTab: TAB }));
 
     await act(async () => {
       await result.current.handleTransaction("begin");
@@ -173,10 +225,12 @@ describe("useTransactionControl", () => {
   test("resetTransactionState resets both states", async () => {
     const connection = makeConnection();
     mockGlobalFetch({
-      "/api/db/transaction": { ok: true, status: 200, json: { success: true } },
+      "/api/db/transaction": transactionRoute({
+        begin: { json: { status: "active", transaction: makeTransaction() } },
+      }),
     });
 
-    const { result } = renderHook(() => useTransactionControl({ activeConnection: connection }));
+    const { result } = renderHook(() => useTransactionControl({ activeConnection: connection, currentTab: TAB }));
 
     // Set transactionActive via begin
     await act(async () => {
@@ -198,4 +252,45 @@ describe("useTransactionControl", () => {
     expect(result.current.transactionActive).toBe(false);
     expect(result.current.playgroundMode).toBe(false);
   });
+
+  test("commit ends the owning tab's transaction from whichever tab is current", async () => {
+    const fetchMock = mockGlobalFetch({
+      "/api/db/transaction": transactionRoute({
+        begin: { json: { status: "active", transaction: makeTransaction() } },
+      }),
+    });
+
+    const { result, rerender } = renderHook(
+      ({ tab }) => useTransactionControl({ activeConnection: makeConnection(), currentTab: tab }),
+      { initialProps: { tab: TAB } },
+    );
+
+    await act(async () => {
+      await result.current.handleTransaction("begin");
+    });
+
+    rerender({ tab: { id: "tab-2", name: "Query 2" } });
+
+    await act(async () => {
+      await result.current.handleTransaction("commit");
+    });
+
+    expect(actionCalls(fetchMock, "commit")[0].tabId).toBe("tab-1");
+    expect(result.current.transactionActive).toBe(false);
+  });
+
+  test("picks up a transaction the user still holds on this connection", async () => {
+    // After a reload the server still has the transaction; without this the user
+    // could neither see nor end it until the idle timeout rolled it back.
+    mockGlobalFetch({
+      "/api/db/transaction": transactionRoute({
+        status: { json: { inTransaction: false, transactions: [makeTransaction({ tabId: "tab-7", tabName: "Old" })] } },
+      }),
+    });
+
+    const { result } = renderHook(() => useTransactionControl({ activeConnection: makeConnection(), currentTab: TAB }));
+
+    await waitFor(() => expect(result.current.transactionActive).toBe(true));
+    expect(result.current.transaction?.tabId).toBe("tab-7");
+  });
 });
@@ -0,0 +1,532 @@
+/**
+ * Cassandra Provider Integration Tests
+ *
+ * Uses mock.module() from bun:test to mock the 'cassandra-driver' package
+ * before importing the CassandraProvider class. The mock pages a small table the
+ * way the driver does - `fetchSize` rows per request, and an opaque paging state
+ * to resume from - so the provider's page arithmetic is exercised end to end.
+ */
+import { describe, test, expect, beforeEach, afterEach, mock } from "bun:test";
+import type { DatabaseConnection } from "@/lib/types";
+
+// ============================================================================
+// Mock Setup — MUST come before provider import
+// ============================================================================
+
+interface ExecuteCall {
+  statement: string;
+  params: unknown[];
+  options: Record<string, unknown>;
+}
+
+let executeCalls: ExecuteCall[] = [];
+let clientOptions: Record<string, unknown> | null = null;
+let connectError: Error | null = null;
+let executeError: Error | null = null;
+let catalogRows: Record<string, Record<string, unknown>[]> = {};
+let eventRows: Record<string, unknown>[] = [];
+
+const EVENT_COLUMNS = [
+  { name: "device_id", type: { code: 0x000c } },
+  { name: "ts", type: { code: 0x000b } },
+  { name: "tags", type: { code: 0x0022, info: { code: 0x000d } } },
+  { name: "attrs", type: { code: 0x0021, info: [{ code: 0x000d }, { code: 0x0009 }] } },
+];
+
+/** The driver's paging state is opaque hex; this one encodes the next row index. */
+const encodeState = (index: number): string => Buffer.from(`row:${index}`).toString("hex");
+const decodeState = (state: string): number => Number(Buffer.from(state, "hex").toString().slice(4));
+
+/** Stands in for the driver's `Uuid`: a class instance whose text is its CQL literal. */
+class MockUuid {
+  constructor(private readonly value: string) {}
+  toString() {
+    return this.value;
+  }
+}
+
+const driverError = (name: string, message: string, extra: Record<string, unknown> = {}): Error =>
+  Object.assign(new Error(message), { name, ...extra });
+
+const catalogTableOf = (statement: string): string | null =>
+  /FROM (system(?:_schema)?\.\w+)/.exec(statement)?.[1] ?? null;
+
+mock.module("cassandra-driver", () => ({
+  Client: class MockClient {
+    metadata = {
+      getTrace: async (traceId: unknown) => ({
+        requestType: "Execute CQL3 query",
+        coordinator: "10.0.0.1",
+        parameters: { query: "SELECT * FROM events", consistency_level: "ONE" },
+        startedAt: new Date("2026-10-19T10:00:00Z"),
+        duration: 1850,
+        clientAddress: "10.0.0.99",
+        traceId,
+        events: [
+          { activity: "Parsing SELECT * FROM events", source: "10.0.0.1", elapsed: 120, thread: "Native-Transport-1" },
+          { activity: "Sending READ message to /10.0.0.2", source: "10.0.0.1", elapsed: 480, thread: "Messaging-1" },
+          { activity: "READ message received", source: "10.0.0.2", elapsed: 35, thread: "Messaging-2" },
+          { activity: "Read 3 live rows", source: "10.0.0.2", elapsed: 910, thread: "ReadStage-1" },
+        ],
+      }),
+    };
+
+    constructor(options: Record<string, unknown>) {
+      clientOptions = options;
+    }
+
+    async connect() {
+      if (connectError) throw connectError;
+    }
+
+    async shutdown() {}
+
+    async execute(statement: string, params: unknown[], options: Record<string, unknown>) {
+      executeCalls.push({ statement, params, options });
+      if (executeError) throw executeError;
+
+      const catalogTable = catalogTableOf(statement);
+      if (catalogTable) {
+        const keyspace = params[0];
+        const rows = catalogRows[catalogTable] ?? [];
+        return {
+          rows: keyspace === undefined ? rows : rows.filter((row) => row.keyspace_name === keyspace),
+          columns: [],
+          pageState: null,
+          info: {},
+        };
+      }
+
+      const start = typeof options.pageState === "string" ? decodeState(options.pageState) : 0;
+      const fetchSize = Number(options.fetchSize ?? 5000);
+      const rows = eventRows.slice(start, start + fetchSize);
+      const next = start + rows.length;
+      return {
+        rows,
+        columns: EVENT_COLUMNS,
+        pageState: next < eventRows.length ? encodeState(next) : null,
+        info: {
+          ...(options.traceQuery === true && { traceId: new MockUuid("5f1e7a10-0000-0000-0000-000000000001") }),
+          ...(statement.includes("ALLOW FILTERING") && { warnings: ["Read 12 live rows and 0 tombstone cells"] }),
+        },
+      };
+    }
+  },
+}));
+
+// ============================================================================
+// Provider import — AFTER mock registration
+// ============================================================================
+
+const { CassandraProvider } = await import("@/lib/db/providers/widecolumn/cassandra/index");
+const { AuthenticationError, ConnectionError, DatabaseConfigError, QueryError, TimeoutError } = await import(
+  "@/lib/db/errors"
+);
+const { CQL_TRACE_DIRECTIVE } = await import("@/lib/db/utils/cql-directives");
+const { cassandraTraceStrategy } = await import("@/lib/explain/cassandra-trace");
+
+// ============================================================================
+// Test Config
+// ============================================================================
+
+const baseConfig: DatabaseConnection = {
+  id: "test-cassandra",
+  name: "Test Cassandra",
+  type: "cassandra",
+  host: "10.0.0.1, 10.0.0.2",
+  port: 9042,
+  database: "telemetry",
+  createdAt: new Date(),
+};
+
+const makeEventRows = (count: number): Record<string, unknown>[] =>
+  Array.from({ length: count }, (_, i) => ({
+    device_id: new MockUuid(`00000000-0000-0000-0000-${String(i).padStart(12, "0")}`),
+    ts: new Date(Date.UTC(2026, 9, 19, 0, i)),
+    tags: ["a", "b"],
+    attrs: { temp: i },
+  }));
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("CassandraProvider", () => {
+  let provider: InstanceType<typeof CassandraProvider>;
+
+  beforeEach(() => {
+    executeCalls = [];
+    clientOptions = null;
+    connectError = null;
+    executeError = null;
+    eventRows = makeEventRows(12);
+    catalogRows = {};
+    provider = new CassandraProvider({ ...baseConfig });
+  });
+
+  afterEach(async () => {
+    await provider.disconnect();
+  });
+
+  describe("validate() / connect()", () => {
+    test("a missing host throws DatabaseConfigError", () => {
+      expect(() => new CassandraProvider({ ...baseConfig, host: undefined })).toThrow(DatabaseConfigError);
+    });
+
+    test("contact points, keyspace, port, credentials and the default data center reach the driver", async () => {
+      provider = new CassandraProvider({ ...baseConfig, user: "reader", password: "secret" });
+      await provider.connect();
+
+      expect(provider.isConnected()).toBe(true);
+      expect(clientOptions).toMatchObject({
+        contactPoints: ["10.0.0.1", "10.0.0.2"],
+        localDataCenter: "datacenter1",
+        keyspace: "telemetry",
+        protocolOptions: { port: 9042 },
+        credentials: { username: "reader", password: "secret" },
+      });
+      expect(clientOptions).not.toHaveProperty("sslOptions");
+    });
+
+    test("a configured data center and TLS are passed through", async () => {
+      provider = new CassandraProvider({
+        ...baseConfig,
+        database: undefined,
+        dataCenter: "eu-west",
+        ssl: { mode: "verify-full", caCert: "CA" },
+      });
+      await provider.connect();
+
+      expect(clientOptions?.localDataCenter).toBe("eu-west");
+      expect(clientOptions).not.toHaveProperty("keyspace");
+      expect(clientOptions?.sslOptions).toEqual({ rejectUnauthorized: true, ca: "CA" });
+    });
+
+    test("every contact point rejecting the credentials is an AuthenticationError", async () => {
+      connectError = driverError("NoHostAvailableError", "All host(s) tried for query failed", {
+        innerErrors: {
+          "10.0.0.1:9042": driverError("AuthenticationError", "Provided username reader and/or password are incorrect"),
+          "10.0.0.2:9042": driverError("ResponseError", "Bad credentials", { code: 0x0100 }),
+        },
+      });
+
+      await expect(provider.connect()).rejects.toBeInstanceOf(AuthenticationError);
+      expect(provider.isConnected()).toBe(false);
+    });
+
+    test("an unreachable cluster is a ConnectionError that says so", async () => {
+      connectError = driverError("NoHostAvailableError", "All host(s) tried for query failed", {
+        innerErrors: { "10.0.0.1:9042": driverError("Error", "connect ECONNREFUSED") },
+      });
+
+      const failure = provider.connect();
+      await expect(failure).rejects.toBeInstanceOf(ConnectionError);
+      await expect(failure).rejects.toThrow("Failed to connect to Cassandra");
+    });
+  });
+
+  describe("prepareQuery()", () => {
+    test("a SELECT gets a page directive instead of a rewrite", () => {
+      const prepared = provider.prepareQuery("SELECT * FROM events", { limit: 5, offset: 10 });
+
+      expect(prepared.query).toBe("/* libredb:page size=5 offset=10 */ SELECT * FROM events");
+      expect(prepared.wasLimited).toBe(true);
+      expect(prepared.limit).toBe(5);
+    });
+
+    test("a paging state is carried in the directive", () => {
+      const prepared = provider.prepareQuery("SELECT * FROM events", { limit: 5, offset: 5, pageState: "00ff" });
+      expect(prepared.query).toBe("/* libredb:page size=5 offset=5 state=00ff */ SELECT * FROM events");
+    });
+
+    test("a write runs as written", () => {
+      const prepared = provider.prepareQuery("INSERT INTO events (device_id) VALUES (uuid())", { limit: 5 });
+      expect(prepared.query).toBe("INSERT INTO events (device_id) VALUES (uuid())");
+      expect(prepared.wasLimited).toBe(false);
+    });
+  });
+
+  describe("query()", () => {
+    beforeEach(async () => {
+      await provider.connect();
+    });
+
+    test("one page comes back with the state after it, and Load More resumes from that state", async () => {
+      const first = await provider.query(provider.prepareQuery("SELECT * FROM events", { limit: 5 }).query);
+
+      expect(first.rows).toHaveLength(5);
+      expect(first.pagination).toMatchObject({ limit: 5, offset: 0, hasMore: true, totalReturned: 5 });
+      expect(first.pagination?.pageState).toBe(encodeState(5));
+
+      const second = await provider.query(
+        provider.prepareQuery("SELECT * FROM events", { limit: 5, offset: 5, pageState: first.pagination?.pageState })
+          .query,
+      );
+      expect(second.rows[0].device_id).toBe("00000000-0000-0000-0000-000000000005");
+      // Resumed, not re-read: one request, from the state.
+      expect(executeCalls.at(-1)?.options.pageState).toBe(encodeState(5));
+
+      const last = await provider.query(
+        provider.prepareQuery("SELECT * FROM events", { limit: 5, offset: 10, pageState: second.pagination?.pageState })
+          .query,
+      );
+      expect(last.rows).toHaveLength(2);
+      expect(last.pagination?.hasMore).toBe(false);
+      expect(last.pagination?.pageState).toBeUndefined();
+    });
+
+    test("an offset without a state skips that many rows first", async () => {
+      const result = await provider.query(provider.prepareQuery("SELECT * FROM events", { limit: 1, offset: 7 }).query);
+
+      expect(result.rows).toHaveLength(1);
+      expect(result.rows[0].device_id).toBe("00000000-0000-0000-0000-000000000007");
+      expect(executeCalls.map((call) => call.options.fetchSize)).toEqual([7, 1]);
+    });
+
+    test("an offset past the end returns no rows and no state", async () => {
+      const result = await provider.query(
+        provider.prepareQuery("SELECT * FROM events", { limit: 5, offset: 40 }).query,
+      );
+
+      expect(result.rows).toEqual([]);
+      expect(result.pagination?.hasMore).toBe(false);
+    });
+
+    test("the driver receives the statement without the directive, prepared, with its params", async () => {
+      await provider.query(provider.prepareQuery("SELECT * FROM events WHERE device_id = ?", { limit: 5 }).query, [
+        "id-1",
+      ]);
+
+      expect(executeCalls[0].statement).toBe("SELECT * FROM events WHERE device_id = ?");
+      expect(executeCalls[0].params).toEqual(["id-1"]);
+      expect(executeCalls[0].options.prepare).toBe(true);
+    });
+
+    test("a statement without a directive is read to its end, with no pagination", async () => {
+      const result = await provider.query("SELECT * FROM events");
+
+      expect(result.rows).toHaveLength(12);
+      expect(result.pagination).toBeUndefined();
+      expect(result.warnings).toBeUndefined();
+    });
+
+    test("cells are shown as CQL literals and the column types are spelled out", async () => {
+      eventRows = [
+        {
+          device_id: new MockUuid("u-1"),
+          ts: new Date("2026-10-19T00:00:00Z"),
+          tags: ["x"],
+          attrs: { blob: Buffer.from([1, 255]) },
+        },
+      ];
+      const result = await provider.query("SELECT * FROM events");
+
+      expect(result.rows[0]).toEqual({
+        device_id: "u-1",
+        ts: "2026-10-19T00:00:00.000Z",
+        tags: ["x"],
+        attrs: { blob: "0x01ff" },
+      });
+      expect(result.columnTypes).toEqual({
+        device_id: "uuid",
+        ts: "timestamp",
+        tags: "set<varchar>",
+        attrs: "map<varchar, int>",
+      });
+    });
+
+    test("server warnings are surfaced", async () => {
+      const result = await provider.query("SELECT * FROM events WHERE temp > 3 ALLOW FILTERING");
+      expect(result.warnings).toEqual([{ message: "Read 12 live rows and 0 tombstone cells" }]);
+    });
+
+    test("USE is refused before it reaches the shared client", async () => {
+      await expect(provider.query("USE other_keyspace")).rejects.toBeInstanceOf(QueryError);
+      await expect(provider.query("/* hop */ use other_keyspace;")).rejects.toThrow("keyspace.table");
+      expect(executeCalls).toHaveLength(0);
+    });
+
+    test.each([
+      ["a syntax error", driverError("ResponseError", "line 1:7 no viable alternative", { code: 0x2000 }), QueryError],
+      ["a read timeout", driverError("ResponseError", "Operation timed out", { code: 0x1200 }), TimeoutError],
+      ["a client-side timeout", driverError("OperationTimedOutError", "The host did not reply"), TimeoutError],
+      [
+        "too few replicas",
+        driverError("ResponseError", "Cannot achieve consistency", { code: 0x1000 }),
+        ConnectionError,
+      ],
+      [
+        "an unauthorized statement",
+        driverError("ResponseError", "User reader has no SELECT permission", { code: 0x2100 }),
+        QueryError,
+      ],
+    ] as const)("%s is mapped to its provider error", async (_label, error, expected) => {
+      executeError = error;
+      await expect(provider.query("SELECT * FROM events")).rejects.toBeInstanceOf(expected);
+    });
+  });
+
+  describe("queryStream()", () => {
+    test("yields one batch per page, resuming from each state", async () => {
+      await provider.connect();
+      const sizes: number[] = [];
+      for await (const batch of provider.queryStream("SELECT * FROM events", undefined, 5)) {
+        sizes.push(batch.rows.length);
+      }
+
+      expect(sizes).toEqual([5, 5, 2]);
+      expect(executeCalls.map((call) => call.options.pageState)).toEqual([undefined, encodeState(5), encodeState(10)]);
+    });
+  });
+
+  describe("explain", () => {
+    test("a traced SELECT returns the session, and the strategy renders it by node", async () => {
+      await provider.connect();
+      const sql = cassandraTraceStrategy.buildSql("SELECT * FROM events", "analyze");
+      expect(sql).toBe(`${CQL_TRACE_DIRECTIVE}SELECT * FROM events`);
+
+      const prepared = provider.prepareQuery(sql!, {});
+      const result = await provider.query(prepared.query);
+
+      expect(executeCalls[0].options.traceQuery).toBe(true);
+      expect(result.fields).toEqual(["trace"]);
+      expect(result.pagination).toBeUndefined();
+
+      const model = cassandraTraceStrategy.toRenderModel(cassandraTraceStrategy.extractPlan(result));
+      expect(model?.kind).toBe("tree");
+      if (model?.kind !== "tree") return;
+      expect(model.root.label).toBe("Execute CQL3 query");
+      expect(model.root.metrics).toEqual({ actualTimeMs: 1.85, actualRows: 12 });
+      expect(model.root.children.map((node) => node.label)).toEqual(["Node 10.0.0.1", "Node 10.0.0.2"]);
+    });
+  });
+
+  describe("getSchema()", () => {
+    const columnRow = (table: string, column: string, kind: string, position: number, type: string) => ({
+      keyspace_name: "telemetry",
+      table_name: table,
+      column_name: column,
+      kind,
+      position,
+      type,
+    });
+
+    beforeEach(async () => {
+      catalogRows = {
+        "system_schema.tables": [
+          { keyspace_name: "telemetry", table_name: "events" },
+          { keyspace_name: "system_auth", table_name: "roles" },
+        ],
+        "system_schema.views": [{ keyspace_name: "telemetry", view_name: "events_by_tag" }],
+        "system_schema.columns": [
+          columnRow("events", "payload", "regular", -1, "text"),
+          columnRow("events", "ts", "clustering", 0, "timestamp"),
+          columnRow("events", "bucket", "partition_key", 1, "int"),
+          columnRow("events", "device_id", "partition_key", 0, "uuid"),
+          columnRow("events", "tags", "regular", -1, "set<text>"),
+          columnRow("events_by_tag", "tag", "partition_key", 0, "text"),
+        ],
+        "system_schema.indexes": [
+          {
+            keyspace_name: "telemetry",
+            table_name: "events",
+            index_name: "events_tags_idx",
+            options: { target: "keys(tags)" },
+          },
+        ],
+      };
+      await provider.connect();
+    });
+
+    test("orders the key first and surfaces its partition and clustering parts", async () => {
+      const schema = await provider.getSchema();
+      const events = schema.find((table) => table.name === "events")!;
+
+      expect(events.columns.map((column) => [column.name, column.keyKind, column.isPrimary])).toEqual([
+        ["device_id", "partition", true],
+        ["bucket", "partition", true],
+        ["ts", "clustering", true],
+        ["payload", undefined, false],
+        ["tags", undefined, false],
+      ]);
+      expect(events.indexes).toEqual([
+        { name: "partition key", columns: ["device_id", "bucket"], unique: false, keyKind: "partition" },
+        { name: "clustering key", columns: ["ts"], unique: true, keyKind: "clustering" },
+        { name: "events_tags_idx", columns: ["tags"], unique: false },
+      ]);
+      expect(events.foreignKeys).toEqual([]);
+    });
+
+    test("reads only the connection's keyspace, with bare names, views included", async () => {
+      const schema = await provider.getSchema();
+
+      expect(schema.map((table) => table.name)).toEqual(["events", "events_by_tag"]);
+      expect(executeCalls.every((call) => call.params[0] === "telemetry")).toBe(true);
+    });
+
+    test("without a keyspace, names are qualified and the system keyspaces are left out", async () => {
+      await provider.disconnect();
+      provider = new CassandraProvider({ ...baseConfig, database: undefined });
+      await provider.connect();
+
+      const schema = await provider.getSchema();
+      expect(schema.map((table) => table.name)).toEqual(["telemetry.events", "telemetry.events_by_tag"]);
+    });
+  });
+
+  describe("monitoring", () => {
+    beforeEach(async () => {
+      catalogRows = {
+        "system.local": [{ release_version: "4.1.5", cluster_name: "events", data_center: "datacenter1" }],
+        "system_schema.tables": [{ keyspace_name: "telemetry", table_name: "events" }],
+        "system_schema.indexes": [],
+        "system.size_estimates": [
+          { keyspace_name: "telemetry", table_name: "events", partitions_count: 100, mean_partition_size: 1024 },
+          { keyspace_name: "telemetry", table_name: "events", partitions_count: 50, mean_partition_size: 2048 },
+        ],
+      };
+      await provider.connect();
+    });
+
+    test("getOverview reports the release and the estimated size", async () => {
+      const overview = await provider.getOverview();
+
+      expect(overview.version).toBe("Cassandra 4.1.5");
+      expect(overview.uptime).toBe("N/A");
+      expect(overview.tableCount).toBe(1);
+      expect(overview.databaseSizeBytes).toBe(100 * 1024 + 50 * 2048);
+    });
+
+    test("getTableStats sums the estimates per table, counting partitions", async () => {
+      const [events] = await provider.getTableStats();
+
+      expect(events).toMatchObject({ schemaName: "telemetry", tableName: "events", rowCount: 150 });
+      expect(events.tableSizeBytes).toBe(204800);
+    });
+
+    test("the sections with no CQL source are empty rather than invented", async () => {
+      expect(await provider.getPerformanceMetrics()).toEqual({});
+      expect(await provider.getSlowQueries()).toEqual([]);
+      expect(await provider.getActiveSessions()).toEqual([]);
+      expect(await provider.getIndexStats()).toEqual([]);
+      expect(await provider.getStorageStats()).toEqual([]);
+      expect((await provider.getHealth()).cacheHitRatio).toBe("N/A");
+    });
+  });
+
+  describe("getCapabilities() / runMaintenance()", () => {
+    test("declares CQL, the trace format and no maintenance", () => {
+      const capabilities = provider.getCapabilities();
+
+      expect(capabilities.queryDialect).toBe("cql");
+      expect(capabilities.explainFormat).toBe("cassandra-trace");
+      expect(capabilities.defaultPort).toBe(9042);
+      expect(capabilities.supportsInlineRowEdit).toBe(false);
+      expect(capabilities.supportsMaintenance).toBe(false);
+    });
+
+    test("runMaintenance names nodetool", async () => {
+      await expect(provider.runMaintenance("vacuum")).rejects.toThrow("nodetool");
+    });
+  });
+});
@@ -0,0 +1,505 @@
+/**
+ * Integration tests for DuckDBProvider
+ * Uses the real engine - @duckdb/node-api runs in-process, so no mocking and no
+ * container: `:memory:` databases for most cases and temp directories for the
+ * file-backed ones and the file-access confinement.
+ */
+
+import { describe, test, expect, afterEach, beforeAll, afterAll } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, sep } from "node:path";
+import { DuckDBProvider, allowedDirectories, parseIndexExpressions } from "@/lib/db/providers/sql/duckdb";
+import { duckdbJsonStrategy } from "@/lib/explain/duckdb-json";
+import type { DatabaseConnection } from "@/lib/types";
+import { DatabaseConfigError, DatabaseError, QueryError, TimeoutError } from "@/lib/db/errors";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function makeDuckDBConfig(overrides: Partial<DatabaseConnection> = {}): DatabaseConnection {
+  return {
+    id: "test-duckdb",
+    name: "Test DuckDB",
+    type: "duckdb",
+    database: ":memory:",
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+async function connected(overrides: Partial<DatabaseConnection> = {}): Promise<DuckDBProvider> {
+  const provider = new DuckDBProvider(makeDuckDBConfig(overrides));
+  await provider.connect();
+  return provider;
+}
+
+async function rejection(promise: Promise<unknown>): Promise<unknown> {
+  return promise.then(
+    () => null,
+    (e: unknown) => e,
+  );
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("DuckDBProvider", () => {
+  let provider: DuckDBProvider;
+  let tmp: string;
+  const fileRootBefore = process.env.DUCKDB_FILE_ROOT;
+
+  beforeAll(() => {
+    tmp = mkdtempSync(join(tmpdir(), "libredb-duckdb-"));
+    delete process.env.DUCKDB_FILE_ROOT;
+  });
+
+  afterAll(() => {
+    rmSync(tmp, { recursive: true, force: true });
+    if (fileRootBefore === undefined) delete process.env.DUCKDB_FILE_ROOT;
+    else process.env.DUCKDB_FILE_ROOT = fileRootBefore;
+  });
+
+  afterEach(async () => {
+    delete process.env.DUCKDB_FILE_ROOT;
+    try {
+      if (provider?.isConnected()) {
+        await provider.disconnect();
+      }
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // Validation and connection lifecycle
+  // --------------------------------------------------------------------------
+
+  describe("validate() / connect()", () => {
+    test("missing database throws DatabaseConfigError", () => {
+      expect(() => new DuckDBProvider(makeDuckDBConfig({ database: undefined }))).toThrow(DatabaseConfigError);
+    });
+
+    test("connect and disconnect toggle isConnected, and a second connect is a no-op", async () => {
+      provider = new DuckDBProvider(makeDuckDBConfig());
+      expect(provider.isConnected()).toBe(false);
+      await provider.connect();
+      await provider.connect();
+      expect(provider.isConnected()).toBe(true);
+      await provider.disconnect();
+      expect(provider.isConnected()).toBe(false);
+    });
+
+    test("a path containing a NUL byte throws DatabaseConfigError", async () => {
+      provider = new DuckDBProvider(makeDuckDBConfig({ database: "data/evil\0.duckdb" }));
+      const error = await rejection(provider.connect());
+      expect(error).toBeInstanceOf(DatabaseConfigError);
+      expect((error as Error).message).toContain("NUL");
+    });
+
+    test("a file database is created, with its directory, and reopens with its data", async () => {
+      const dbPath = join(tmp, "nested", "reopen.duckdb");
+      provider = await connected({ database: dbPath });
+      await provider.query("CREATE TABLE kept (id INTEGER)");
+      await provider.query("INSERT INTO kept VALUES (7)");
+      await provider.disconnect();
+
+      provider = await connected({ database: dbPath });
+      expect((await provider.query("SELECT id FROM kept")).rows).toEqual([{ id: 7 }]);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Query execution
+  // --------------------------------------------------------------------------
+
+  describe("query()", () => {
+    test("CREATE + INSERT + SELECT works end-to-end, with the write's changed rows as rowCount", async () => {
+      provider = await connected();
+      await provider.query("CREATE TABLE users (id INTEGER PRIMARY KEY, name VARCHAR)");
+
+      const insert = await provider.query("INSERT INTO users VALUES (1, 'Ada'), (2, 'Alan')");
+      expect(insert.rowCount).toBe(2);
+      expect(insert.rows).toEqual([]);
+
+      const result = await provider.query("SELECT id, name FROM users ORDER BY id");
+      expect(result.fields).toEqual(["id", "name"]);
+      expect(result.rows).toEqual([
+        { id: 1, name: "Ada" },
+        { id: 2, name: "Alan" },
+      ]);
+      expect(result.rowCount).toBe(2);
+    });
+
+    test("binds positional parameters", async () => {
+      provider = await connected();
+      await provider.query("CREATE TABLE p (id INTEGER, v VARCHAR)");
+      await provider.query("INSERT INTO p VALUES ($1, $2)", [1, "one"]);
+
+      const result = await provider.query("SELECT v FROM p WHERE id = $1", [1]);
+      expect(result.rows).toEqual([{ v: "one" }]);
+    });
+
+    test("keeps two columns of the same name apart", async () => {
+      provider = await connected();
+      const result = await provider.query("SELECT 1 AS a, 2 AS a");
+      expect(result.fields).toEqual(["a", "a:1"]);
+      expect(result.rows).toEqual([{ a: 1, "a:1": 2 }]);
+    });
+
+    test("returns values the API can serialize: BIGINT and DECIMAL as text, nested types as JSON", async () => {
+      provider = await connected();
+      const result = await provider.query(
+        "SELECT 9007199254740993::BIGINT AS big, 1.5::DECIMAL(5, 2) AS d, [1, 2] AS l",
+      );
+      expect(result.rows).toEqual([{ big: "9007199254740993", d: "1.50", l: [1, 2] }]);
+      expect(() => JSON.stringify(result.rows)).not.toThrow();
+    });
+
+    test("an error is mapped through mapDatabaseError", async () => {
+      provider = await connected();
+      const error = await rejection(provider.query("SELECT * FROM missing_table"));
+      expect(error).toBeInstanceOf(DatabaseError);
+      expect((error as Error).message).toContain("missing_table");
+    });
+
+    test("a statement that outlives the query timeout is interrupted", async () => {
+      provider = new DuckDBProvider(makeDuckDBConfig(), { queryTimeout: 100 });
+      await provider.connect();
+      const error = await rejection(provider.query("SELECT count(*) FROM range(1000000000000)"));
+      expect(error).toBeInstanceOf(TimeoutError);
+
+      // The connection is still usable afterwards.
+      expect((await provider.query("SELECT 1 AS one")).rows).toEqual([{ one: 1 }]);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Files queried from the editor, and what confines them
+  // --------------------------------------------------------------------------
+
+  describe("file access", () => {
+    let dbDir: string;
+    let drops: string;
+    let outside: string;
+
+    beforeAll(async () => {
+      dbDir = join(tmp, "db");
+      drops = join(tmp, "drops");
+      outside = join(tmp, "outside");
+      for (const dir of [dbDir, drops, outside]) mkdirSync(dir, { recursive: true });
+      writeFileSync(join(dbDir, "local.csv"), "id,name\n1,beside the database\n");
+      writeFileSync(join(outside, "secret.csv"), "id\n1\n");
+
+      // Write the Parquet drop with the engine itself, from an unconfined :memory: writer.
+      process.env.DUCKDB_FILE_ROOT = drops;
+      const writer = await connected();
+      await writer.query(
+        `COPY (SELECT range AS id, 'event ' || range AS name FROM range(5)) TO '${join(drops, "events.parquet")}' (FORMAT parquet)`,
+      );
+      await writer.disconnect();
+    });
+
+    test("reads a Parquet file under DUCKDB_FILE_ROOT by absolute path", async () => {
+      process.env.DUCKDB_FILE_ROOT = drops;
+      provider = await connected({ database: join(dbDir, "files.duckdb") });
+
+      const result = await provider.query(`SELECT count(*) AS n FROM read_parquet('${join(drops, "events.parquet")}')`);
+      expect(result.rows).toEqual([{ n: "5" }]);
+
+      const glob = await provider.query(`SELECT max(id) AS top FROM '${join(drops, "*.parquet")}'`);
+      expect(glob.rows).toEqual([{ top: "4" }]);
+    });
+
+    test("reads a file beside the database without any root configured", async () => {
+      provider = await connected({ database: join(dbDir, "files.duckdb") });
+      const result = await provider.query(`SELECT name FROM read_csv('${join(dbDir, "local.csv")}')`);
+      expect(result.rows).toEqual([{ name: "beside the database" }]);
+    });
+
+    test("refuses a file outside the allowed directories, including through '..'", async () => {
+      process.env.DUCKDB_FILE_ROOT = drops;
+      provider = await connected({ database: join(dbDir, "files.duckdb") });
+
+      for (const file of [join(outside, "secret.csv"), `${drops}${sep}..${sep}outside${sep}secret.csv`]) {
+        const error = await rejection(provider.query(`SELECT * FROM read_csv('${file}')`));
+        expect((error as Error).message).toContain("Permission Error");
+      }
+    });
+
+    test("refuses a relative path, a write outside the roots and an ATTACH", async () => {
+      provider = await connected({ database: join(dbDir, "files.duckdb") });
+      await provider.query("CREATE TABLE t AS SELECT 1 AS id");
+
+      for (const sql of [
+        "SELECT * FROM read_csv('local.csv')",
+        `COPY t TO '${join(outside, "copy.csv")}'`,
+        `ATTACH '${join(outside, "other.duckdb")}'`,
+      ]) {
+        const error = await rejection(provider.query(sql));
+        expect((error as Error).message).toContain("Permission Error");
+      }
+    });
+
+    test("an in-memory database with no root reaches no file at all", async () => {
+      provider = await connected();
+      const error = await rejection(provider.query(`SELECT * FROM read_csv('${join(dbDir, "local.csv")}')`));
+      expect((error as Error).message).toContain("Permission Error");
+    });
+
+    test("a statement cannot lift the confinement", async () => {
+      provider = await connected();
+      for (const sql of ["SET enable_external_access = true", `SET allowed_directories = ['${outside}${sep}']`]) {
+        const error = await rejection(provider.query(sql));
+        expect((error as Error).message).toContain("configuration has been locked");
+      }
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Capabilities and labels
+  // --------------------------------------------------------------------------
+
+  describe("getCapabilities() / getLabels()", () => {
+    test("declares the DuckDB explain format, no port and a file path only", () => {
+      provider = new DuckDBProvider(makeDuckDBConfig());
+      const caps = provider.getCapabilities();
+      expect(caps.explainFormat).toBe("duckdb-json");
+      expect(caps.supportsExplain).toBe(true);
+      expect(caps.defaultPort).toBeNull();
+      expect(caps.supportsConnectionString).toBe(false);
+      expect(caps.supportsInlineRowEdit).toBe(true);
+      expect(caps.maintenanceOperations).toEqual(["analyze", "vacuum"]);
+    });
+
+    test("names the vacuum operation for the checkpoint it runs", () => {
+      provider = new DuckDBProvider(makeDuckDBConfig());
+      const labels = provider.getLabels();
+      expect(labels.vacuumGlobalLabel).toBe("Checkpoint");
+      expect(labels.vacuumGlobalDesc).toContain("CHECKPOINT");
+      expect(labels.analyzeGlobalLabel).toBe("Run Analyze");
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Schema
+  // --------------------------------------------------------------------------
+
+  describe("getSchema()", () => {
+    test("returns tables and views with columns, keys and indexes", async () => {
+      provider = await connected();
+      await provider.query("CREATE TABLE dept (id INTEGER PRIMARY KEY, name VARCHAR NOT NULL)");
+      await provider.query(
+        "CREATE TABLE emp (id INTEGER PRIMARY KEY, dept_id INTEGER REFERENCES dept(id), email VARCHAR DEFAULT 'none')",
+      );
+      await provider.query("INSERT INTO dept VALUES (1, 'R&D'), (2, 'Ops')");
+      await provider.query("CREATE UNIQUE INDEX idx_emp_email ON emp (email)");
+      await provider.query("CREATE VIEW dept_names AS SELECT name FROM dept");
+      await provider.query("CREATE SCHEMA staging");
+      await provider.query("CREATE TABLE staging.raw (payload VARCHAR)");
+
+      const schema = await provider.getSchema();
+      expect(schema.map((t) => t.name)).toEqual(["dept", "dept_names", "emp", "staging.raw"]);
+
+      const dept = schema.find((t) => t.name === "dept")!;
+      expect(dept.rowCount).toBe(2);
+      expect(dept.columns).toEqual([
+        { name: "id", type: "INTEGER", nullable: false, isPrimary: true, defaultValue: undefined },
+        { name: "name", type: "VARCHAR", nullable: false, isPrimary: false, defaultValue: undefined },
+      ]);
+
+      const emp = schema.find((t) => t.name === "emp")!;
+      expect(emp.columns.find((c) => c.name === "email")!.defaultValue).toBe("'none'");
+      expect(emp.foreignKeys).toEqual([{ columnName: "dept_id", referencedTable: "dept", referencedColumn: "id" }]);
+      expect(emp.indexes).toEqual([{ name: "idx_emp_email", columns: ["email"], unique: true }]);
+
+      expect(schema.find((t) => t.name === "dept_names")!.rowCount).toBeUndefined();
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Maintenance
+  // --------------------------------------------------------------------------
+
+  describe("runMaintenance()", () => {
+    test("analyze runs database-wide and on a schema-qualified target", async () => {
+      provider = await connected();
+      await provider.query("CREATE SCHEMA staging");
+      await provider.query("CREATE TABLE staging.raw (id INTEGER)");
+
+      expect((await provider.runMaintenance("analyze")).success).toBe(true);
+      const targeted = await provider.runMaintenance("analyze", "staging.raw");
+      expect(targeted.success).toBe(true);
+      expect(targeted.message).toContain("ANALYZE");
+    });
+
+    test("vacuum runs a checkpoint that folds the WAL into the database file", async () => {
+      provider = await connected({ database: join(tmp, "checkpoint.duckdb") });
+      await provider.query("CREATE TABLE c AS SELECT range AS id FROM range(1000)");
+
+      const result = await provider.runMaintenance("vacuum");
+      expect(result.success).toBe(true);
+      expect(result.message).toContain("CHECKPOINT");
+      expect((await provider.getStorageStats()).map((s) => s.name)).toEqual(["Main Database"]);
+    });
+
+    test("unsupported type throws QueryError", async () => {
+      provider = await connected();
+      await expect(provider.runMaintenance("reindex")).rejects.toThrow(QueryError);
+    });
+
+    test("analyze does not execute a statement smuggled through the target identifier", async () => {
+      provider = await connected();
+      await provider.query("CREATE TABLE mt (id INTEGER)");
+      await provider.query("CREATE TABLE victim (id INTEGER)");
+
+      await provider.runMaintenance("analyze", 'mt"; DROP TABLE victim; --').catch(() => undefined);
+
+      const tables = await provider.query("SELECT table_name FROM duckdb_tables() WHERE table_name = 'victim'");
+      expect(tables.rows.length).toBe(1);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Monitoring
+  // --------------------------------------------------------------------------
+
+  describe("monitoring", () => {
+    test("getOverview reports the engine version and the database's own objects", async () => {
+      provider = await connected();
+      await provider.query("CREATE TABLE a (id INTEGER)");
+      await provider.query("CREATE TABLE b (id INTEGER)");
+      await provider.query("CREATE INDEX idx_a ON a (id)");
+
+      const overview = await provider.getOverview();
+      expect(overview.version).toMatch(/^DuckDB v\d+\.\d+/);
+      expect(overview.tableCount).toBe(2);
+      expect(overview.indexCount).toBe(1);
+      expect(overview.maxConnections).toBe(1);
+    });
+
+    test("getPerformanceMetrics reports no cache hit ratio rather than an estimate", async () => {
+      provider = await connected();
+      const metrics = await provider.getPerformanceMetrics();
+      expect(metrics.cacheHitRatio).toBeUndefined();
+    });
+
+    test("getHealth reports memory use and the WAL from the engine", async () => {
+      provider = await connected({ database: join(tmp, "health.duckdb") });
+      await provider.query("CREATE TABLE h (id INTEGER)");
+
+      const health = await provider.getHealth();
+      expect(health.databaseSize).not.toBe("N/A");
+      expect(health.cacheHitRatio).toBe("N/A");
+      expect(health.slowQueries.map((q) => q.query.split(":")[0])).toEqual(["Memory", "WAL"]);
+      expect(health.activeSessions[0].database).toBe("health.duckdb");
+    });
+
+    test("getActiveSessions and getSlowQueries describe one in-process connection", async () => {
+      provider = await connected();
+      const sessions = await provider.getActiveSessions();
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].pid).toBe(process.pid);
+      expect(await provider.getSlowQueries()).toEqual([]);
+    });
+
+    test("getTableStats and getIndexStats read the engine's catalog", async () => {
+      provider = await connected();
+      await provider.query("CREATE TABLE s (id INTEGER, email VARCHAR)");
+      await provider.query("INSERT INTO s SELECT range, 'u' || range FROM range(3)");
+      await provider.query("CREATE UNIQUE INDEX idx_s_email ON s (email)");
+
+      expect(await provider.getTableStats()).toEqual([
+        {
+          schemaName: "main",
+          tableName: "s",
+          rowCount: 3,
+          tableSize: "N/A",
+          tableSizeBytes: 0,
+          totalSize: "N/A",
+          totalSizeBytes: 0,
+        },
+      ]);
+
+      const [index] = await provider.getIndexStats();
+      expect(index).toMatchObject({ tableName: "s", indexName: "idx_s_email", columns: ["email"], isUnique: true });
+    });
+
+    test("getStorageStats lists the database file and its WAL", async () => {
+      provider = await connected({ database: join(tmp, "storage.duckdb") });
+      await provider.query("CREATE TABLE s (id INTEGER)");
+      await provider.query("INSERT INTO s VALUES (1)");
+
+      const stats = await provider.getStorageStats();
+      expect(stats.map((s) => s.location)).toEqual(["storage.duckdb", "storage.duckdb.wal"]);
+      expect(stats[1].walSizeBytes).toBeGreaterThan(0);
+    });
+
+    test("getMonitoringData returns every section", async () => {
+      provider = await connected();
+      const data = await provider.getMonitoringData();
+      expect(data.overview.version).toContain("DuckDB");
+      expect(data.activeSessions).toBeArray();
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // EXPLAIN through the duckdb-json strategy
+  // --------------------------------------------------------------------------
+
+  describe("explain", () => {
+    test("the strategy's statements run, and their output renders as a tree", async () => {
+      provider = await connected();
+      await provider.query("CREATE TABLE e (id INTEGER, v VARCHAR)");
+      await provider.query("INSERT INTO e SELECT range, 'v' FROM range(10)");
+
+      for (const mode of ["estimate", "analyze"] as const) {
+        const sql = duckdbJsonStrategy.buildSql("SELECT v FROM e WHERE id > 3", mode)!;
+        const plan = duckdbJsonStrategy.extractPlan(await provider.query(sql));
+        const model = duckdbJsonStrategy.toRenderModel(plan);
+        expect(model?.kind).toBe("tree");
+      }
+    });
+  });
+});
+
+// ============================================================================
+// Pure helpers
+// ============================================================================
+
+describe("allowedDirectories", () => {
+  test("is the database's directory plus the root, each ending in a separator", () => {
+    expect(allowedDirectories("/srv/db/app.duckdb", "/data/drops")).toEqual(["/srv/db/", "/data/drops/"]);
+  });
+
+  test("is empty for an in-memory database without a root", () => {
+    expect(allowedDirectories(":memory:", undefined)).toEqual([]);
+    expect(allowedDirectories(":memory:", "  ")).toEqual([]);
+  });
+
+  test("lists a directory once", () => {
+    expect(allowedDirectories("/data/drops/app.duckdb", "/data/drops/")).toEqual(["/data/drops/"]);
+  });
+});
+
+describe("parseIndexExpressions", () => {
+  test("reads bare, quoted and expression keys as the engine writes them", () => {
+    expect(parseIndexExpressions(`[email, '"we\\'ird"', (lower(email))]`)).toEqual([
+      "email",
+      "we'ird",
+      "(lower(email))",
+    ]);
+  });
+
+  test("splits only at commas outside quotes and brackets", () => {
+    expect(parseIndexExpressions("[(coalesce(a, b)), c]")).toEqual(["(coalesce(a, b))", "c"]);
+    expect(parseIndexExpressions(`['"x,y"']`)).toEqual(["x,y"]);
+  });
+
+  test("is empty when there is nothing to read", () => {
+    expect(parseIndexExpressions(null)).toEqual([]);
+    expect(parseIndexExpressions("[]")).toEqual([]);
+  });
+});
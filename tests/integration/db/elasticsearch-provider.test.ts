@@ -0,0 +1,619 @@
+/**
+ * Elasticsearch / OpenSearch Provider Integration Tests
+ *
+ * globalThis.fetch is replaced per test and restored in afterEach, so the real
+ * transport, the real request and result readers, the real introspection and the
+ * real provider all run - only the cluster is fake. mock.module() is deliberately
+ * not used: it is process-wide in bun and would poison sibling test files.
+ *
+ * The fake answers by method and path, the way the cluster routes. Which engine it
+ * impersonates is decided by the root endpoint's `version.distribution`, exactly
+ * as the transport decides it, so the same provider is exercised against both SQL
+ * endpoints.
+ */
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import type { DatabaseConnection } from "@/lib/types";
+import { ElasticsearchProvider } from "@/lib/db/providers/search/elasticsearch";
+import {
+  ELASTICSEARCH_CLUSTER_HEALTH_PATH,
+  ELASTICSEARCH_CLUSTER_STATS_PATH,
+  ELASTICSEARCH_DATA_STREAM_PATH,
+  ELASTICSEARCH_INDEX_CATALOG_PATH,
+  ELASTICSEARCH_MAPPING_PATH,
+  ELASTICSEARCH_NODE_STATS_PATH,
+  ELASTICSEARCH_RUNNING_SEARCH_PATH,
+  ELASTICSEARCH_SHARD_CATALOG_PATH,
+} from "@/lib/db/providers/search/elasticsearch/introspect";
+import { MAX_RESULT_WINDOW } from "@/lib/db/providers/search/elasticsearch/request";
+import { AuthenticationError, ConnectionError, DatabaseConfigError, QueryError, TimeoutError } from "@/lib/db/errors";
+
+// ============================================================================
+// Connection
+// ============================================================================
+
+function makeConnection(overrides: Partial<DatabaseConnection> = {}): DatabaseConnection {
+  return {
+    id: "es-1",
+    name: "Logs",
+    type: "elasticsearch",
+    host: "127.0.0.1",
+    port: 9200,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Wire payloads
+// ============================================================================
+
+function rootBody(distribution: "elasticsearch" | "opensearch"): unknown {
+  return {
+    name: "node-a",
+    cluster_name: "logs",
+    version: distribution === "opensearch" ? { distribution, number: "2.17.0" } : { number: "8.15.0" },
+    tagline: "The OpenSearch Project: https://opensearch.org/",
+  };
+}
+
+function hit(id: number): unknown {
+  return { _index: "logs", _id: String(id), _score: 1, _source: { level: "info", http: { status: 200 } } };
+}
+
+function searchBody(count: number, total = 1_000): unknown {
+  return {
+    took: 3,
+    timed_out: false,
+    _shards: { total: 1, successful: 1, skipped: 0, failed: 0 },
+    hits: {
+      total: { value: total, relation: "eq" },
+      max_score: 1,
+      hits: Array.from({ length: count }, (_, i) => hit(i)),
+    },
+  };
+}
+
+const AGGREGATION_BODY = {
+  took: 1,
+  timed_out: false,
+  _shards: { total: 1, successful: 1, skipped: 0, failed: 0 },
+  hits: { total: { value: 42, relation: "eq" }, max_score: null, hits: [] },
+  aggregations: {
+    levels: {
+      buckets: [
+        { key: "error", doc_count: 2 },
+        { key: "info", doc_count: 40 },
+      ],
+    },
+  },
+};
+
+const SQL_COLUMNS = [
+  { name: "level", type: "keyword" },
+  { name: "n", type: "long" },
+];
+
+/** The error envelope both engines write, here for an unknown index. */
+const NO_SUCH_INDEX = {
+  error: {
+    root_cause: [{ type: "index_not_found_exception", reason: "no such index [nope]" }],
+    type: "index_not_found_exception",
+    reason: "no such index [nope]",
+  },
+  status: 404,
+};
+
+// ============================================================================
+// fetch harness
+// ============================================================================
+
+interface Sent {
+  method: string;
+  url: string;
+  path: string;
+  body: Record<string, unknown> | null;
+  authorization: string | null;
+}
+
+interface Reply {
+  status?: number;
+  body: unknown;
+}
+
+const originalFetch = globalThis.fetch;
+
+let sent: Sent[] = [];
+let distribution: "elasticsearch" | "opensearch" = "elasticsearch";
+let networkFailure: Error | null = null;
+let routes: Record<string, Reply> = {};
+
+/** `METHOD path`, the query string included, as the routes are keyed. */
+function route(method: string, path: string, body: unknown, status = 200): void {
+  routes[`${method} ${path}`] = { status, body };
+}
+
+function installFetch(): void {
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    if (networkFailure) throw networkFailure;
+    const url = new URL(String(input));
+    const method = init?.method ?? "GET";
+    const path = `${url.pathname}${url.search}`;
+    const body = init?.body === undefined ? null : (JSON.parse(String(init.body)) as Record<string, unknown>);
+    sent.push({
+      method,
+      url: String(input),
+      path,
+      body,
+      authorization: new Headers(init?.headers).get("authorization"),
+    });
+
+    const reply = path === "/" ? { body: rootBody(distribution) } : routes[`${method} ${path}`];
+    if (!reply) return new Response(JSON.stringify({ error: "no handler found" }), { status: 400 });
+    return new Response(JSON.stringify(reply.body), {
+      status: reply.status ?? 200,
+      headers: { "content-type": "application/json" },
+    });
+  }) as typeof fetch;
+}
+
+function sentTo(prefix: string): Sent[] {
+  return sent.filter((request) => request.path.startsWith(prefix));
+}
+
+async function connectProvider(overrides: Partial<DatabaseConnection> = {}): Promise<ElasticsearchProvider> {
+  const provider = new ElasticsearchProvider(makeConnection(overrides));
+  await provider.connect();
+  return provider;
+}
+
+/** Runs `text` the way the editor does: prepared for a page, then executed. */
+async function runPage(
+  provider: ElasticsearchProvider,
+  text: string,
+  options: { limit?: number; offset?: number; pageState?: string } = {},
+) {
+  return provider.query(provider.prepareQuery(text, options).query);
+}
+
+beforeEach(() => {
+  sent = [];
+  distribution = "elasticsearch";
+  networkFailure = null;
+  routes = {};
+  installFetch();
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+// ============================================================================
+// Metadata
+// ============================================================================
+
+describe("ElasticsearchProvider metadata", () => {
+  const provider = new ElasticsearchProvider(makeConnection());
+
+  test("declares the Elasticsearch dialect, external limiting and no explain", () => {
+    expect(provider.getCapabilities()).toMatchObject({
+      queryLanguage: "sql",
+      queryDialect: "elasticsearch",
+      supportsExplain: false,
+      supportsExternalQueryLimiting: true,
+      supportsCreateTable: false,
+      supportsInlineRowEdit: false,
+      declaresForeignKeys: false,
+      supportsConnectionString: false,
+      defaultPort: 9200,
+    });
+  });
+
+  test("offers force merge and task cancellation, and nothing else", () => {
+    expect(provider.getCapabilities().maintenanceOperations).toEqual(["optimize", "kill"]);
+  });
+
+  test("calls a table an index and a row a document", () => {
+    expect(provider.getLabels()).toMatchObject({
+      entityName: "Index",
+      entityNamePlural: "Indices",
+      rowName: "document",
+      rowNamePlural: "documents",
+      vacuumAction: "Force Merge",
+    });
+  });
+
+  test("requires a host", () => {
+    expect(() => new ElasticsearchProvider(makeConnection({ host: "" }))).toThrow(DatabaseConfigError);
+  });
+});
+
+// ============================================================================
+// Lifecycle
+// ============================================================================
+
+describe("ElasticsearchProvider lifecycle", () => {
+  test("connect asks the root endpoint who the cluster is", async () => {
+    const provider = await connectProvider();
+
+    expect(provider.isConnected()).toBe(true);
+    expect(sent.map((request) => `${request.method} ${request.url}`)).toEqual(["GET http://127.0.0.1:9200/"]);
+  });
+
+  test("speaks TLS when the connection asks for it", async () => {
+    await connectProvider({ ssl: { mode: "require" } });
+
+    expect(sent[0].url).toBe("https://127.0.0.1:9200/");
+  });
+
+  test("sends configured credentials as HTTP basic auth, and none otherwise", async () => {
+    await connectProvider({ user: "elastic", password: "s3cret" });
+    await connectProvider();
+
+    expect(sent[0].authorization).toBe(`Basic ${Buffer.from("elastic:s3cret").toString("base64")}`);
+    expect(sent[1].authorization).toBeNull();
+  });
+
+  test("connect maps a rejected credential to an AuthenticationError", async () => {
+    globalThis.fetch = (async () => new Response("Unauthorized", { status: 401 })) as unknown as typeof fetch;
+
+    await expect(connectProvider()).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  test("connect maps an unreachable cluster to a ConnectionError", async () => {
+    networkFailure = new TypeError("fetch failed");
+    const provider = new ElasticsearchProvider(makeConnection());
+
+    await expect(provider.connect()).rejects.toBeInstanceOf(ConnectionError);
+    expect(provider.isConnected()).toBe(false);
+  });
+
+  test("every read before connect is refused", async () => {
+    const provider = new ElasticsearchProvider(makeConnection());
+
+    await expect(provider.query("SELECT 1")).rejects.toThrow();
+    await expect(provider.getSchema()).rejects.toThrow();
+    expect(sent).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Query DSL
+// ============================================================================
+
+describe("ElasticsearchProvider Query DSL", () => {
+  const DSL = '{ "index": "logs", "query": { "match_all": {} } }';
+
+  test("sends the body to the index's search endpoint, paged by from and size", async () => {
+    route("POST", "/logs/_search?timeout=60000ms", searchBody(2));
+    const provider = await connectProvider();
+    const result = await runPage(provider, DSL, { limit: 50 });
+
+    expect(sentTo("/logs/_search")[0].body).toEqual({ query: { match_all: {} }, from: 0, size: 50 });
+    expect(result.fields).toEqual(["_index", "_id", "_score", "level", "http.status"]);
+    expect(result.rows[0]).toEqual({ _index: "logs", _id: "0", _score: 1, level: "info", "http.status": 200 });
+    expect(result.pagination).toMatchObject({ limit: 50, offset: 0, hasMore: false, wasLimited: true });
+  });
+
+  test("reports more pages while a page comes back full and hits remain", async () => {
+    route("POST", "/logs/_search?timeout=60000ms", searchBody(10));
+    const provider = await connectProvider();
+    const result = await runPage(provider, DSL, { limit: 10, offset: 20 });
+
+    expect(sentTo("/logs/_search")[0].body).toMatchObject({ from: 20, size: 10 });
+    expect(result.pagination?.hasMore).toBe(true);
+  });
+
+  test("stops paging at the result window, and says how to get past it", async () => {
+    route("POST", "/logs/_search?timeout=60000ms", searchBody(100, 50_000));
+    const provider = await connectProvider();
+    const result = await runPage(provider, DSL, { limit: 100, offset: MAX_RESULT_WINDOW - 100 });
+
+    expect(result.pagination?.hasMore).toBe(false);
+    expect(result.warnings?.[0].message).toContain("search_after");
+  });
+
+  test("sends a request that pages itself as written, and reports it unlimited", async () => {
+    route("POST", "/logs/_search?timeout=60000ms", searchBody(3));
+    const provider = await connectProvider();
+    const text = '{ "index": "logs", "size": 3 }';
+
+    expect(provider.prepareQuery(text).wasLimited).toBe(false);
+    const result = await runPage(provider, text);
+
+    expect(sentTo("/logs/_search")[0].body).toEqual({ size: 3 });
+    expect(result.pagination?.wasLimited).toBe(false);
+  });
+
+  test("gives an aggregation a row per bucket", async () => {
+    route("POST", "/logs/_search?timeout=60000ms", AGGREGATION_BODY);
+    const provider = await connectProvider();
+    const result = await runPage(
+      provider,
+      '{ "index": "logs", "aggs": { "levels": { "terms": { "field": "level" } } } }',
+    );
+
+    expect(sentTo("/logs/_search")[0].body).toMatchObject({ size: 0 });
+    expect(result.rows).toEqual([
+      { levels: "error", "levels.doc_count": 2 },
+      { levels: "info", "levels.doc_count": 40 },
+    ]);
+  });
+
+  test("a missing index becomes a QueryError carrying the engine's reason", async () => {
+    route("POST", "/nope/_search?timeout=60000ms", NO_SUCH_INDEX, 404);
+    const provider = await connectProvider();
+
+    const failure = runPage(provider, '{ "index": "nope" }');
+    await expect(failure).rejects.toBeInstanceOf(QueryError);
+    await expect(failure).rejects.toThrow("no such index [nope]");
+  });
+
+  test("a request without an index is refused before anything is sent", async () => {
+    const provider = await connectProvider();
+    const before = sent.length;
+
+    await expect(runPage(provider, '{ "query": {} }')).rejects.toBeInstanceOf(QueryError);
+    expect(sent.length).toBe(before);
+  });
+
+  test("a gateway timeout becomes a TimeoutError", async () => {
+    route("POST", "/logs/_search?timeout=60000ms", { error: "timed out" }, 504);
+    const provider = await connectProvider();
+
+    await expect(runPage(provider, DSL)).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  test("bound parameters are refused rather than silently dropped", async () => {
+    const provider = await connectProvider();
+
+    await expect(provider.query(DSL, [1])).rejects.toBeInstanceOf(QueryError);
+  });
+});
+
+// ============================================================================
+// SQL
+// ============================================================================
+
+describe("ElasticsearchProvider SQL", () => {
+  test("sends a statement to Elasticsearch's SQL endpoint with a server-side budget", async () => {
+    route("POST", "/_sql?format=json", { columns: SQL_COLUMNS, rows: [["error", 2]] });
+    const provider = await connectProvider();
+    const result = await runPage(provider, "SELECT level, COUNT(*) AS n FROM logs GROUP BY level;", { limit: 50 });
+
+    expect(sentTo("/_sql")[0].body).toEqual({
+      query: "SELECT level, COUNT(*) AS n FROM logs GROUP BY level",
+      fetch_size: 50,
+      request_timeout: "60000ms",
+    });
+    expect(result.rows).toEqual([{ level: "error", n: 2 }]);
+    expect(result.columnTypes).toEqual({ level: "keyword", n: "long" });
+    expect(result.pagination).toMatchObject({ hasMore: false, wasLimited: true });
+    expect(result.pagination?.pageState).toBeUndefined();
+  });
+
+  test("sends a statement to OpenSearch's plugin endpoint, without a budget it would refuse", async () => {
+    distribution = "opensearch";
+    route("POST", "/_plugins/_sql?format=jdbc", {
+      schema: [{ name: "level", alias: "lvl", type: "keyword" }],
+      datarows: [["warn"]],
+      total: 1,
+      size: 1,
+      status: 200,
+    });
+    const provider = await connectProvider();
+    const result = await runPage(provider, "SELECT level AS lvl FROM logs");
+
+    expect(sentTo("/_plugins/_sql")[0].body).toEqual({ query: "SELECT level AS lvl FROM logs", fetch_size: 500 });
+    expect(result.rows).toEqual([{ lvl: "warn" }]);
+  });
+
+  test("hands back the cursor as the page state, and resumes from it", async () => {
+    route("POST", "/_sql?format=json", {
+      columns: SQL_COLUMNS,
+      rows: [
+        ["a", 1],
+        ["b", 2],
+      ],
+      cursor: "c1",
+    });
+    const provider = await connectProvider();
+    const first = await runPage(provider, "SELECT * FROM logs", { limit: 2 });
+
+    expect(first.pagination?.hasMore).toBe(true);
+    const state = first.pagination?.pageState;
+    expect(state).toBeString();
+
+    route("POST", "/_sql?format=json", { rows: [["c", 3]] });
+    const second = await runPage(provider, "SELECT * FROM logs", { limit: 2, offset: 2, pageState: state });
+
+    expect(sentTo("/_sql").at(-1)?.body).toEqual({ cursor: "c1" });
+    // The continuation carries no columns; the state remembered them.
+    expect(second.rows).toEqual([{ level: "c", n: 3 }]);
+    expect(second.pagination).toMatchObject({ offset: 2, hasMore: false });
+  });
+
+  test("without a state, fetches up to the offset and drops the rows before it", async () => {
+    route("POST", "/_sql?format=json", {
+      columns: SQL_COLUMNS,
+      rows: [
+        ["a", 1],
+        ["b", 2],
+        ["c", 3],
+      ],
+    });
+    const provider = await connectProvider();
+    const result = await runPage(provider, "SELECT * FROM logs", { limit: 1, offset: 2 });
+
+    expect(sentTo("/_sql")[0].body).toMatchObject({ fetch_size: 3 });
+    expect(result.rows).toEqual([{ level: "c", n: 3 }]);
+  });
+
+  test("an unrecognised page state is refused rather than restarting the statement", async () => {
+    const provider = await connectProvider();
+
+    await expect(runPage(provider, "SELECT 1", { limit: 1, offset: 1, pageState: "bm90LWpzb24" })).rejects.toThrow(
+      "not recognised",
+    );
+    expect(sentTo("/_sql")).toEqual([]);
+  });
+
+  test("a caller that is not the editor reads the statement to its end", async () => {
+    route("POST", "/_sql?format=json", { columns: SQL_COLUMNS, rows: [["a", 1]] });
+    const provider = await connectProvider();
+    const result = await provider.query("SELECT * FROM logs");
+
+    expect(sentTo("/_sql")[0].body).toMatchObject({ fetch_size: 1_000 });
+    expect(result.pagination).toBeUndefined();
+    expect(result.rowCount).toBe(1);
+  });
+
+  test("a parse error becomes a QueryError with the engine's own reason", async () => {
+    route(
+      "POST",
+      "/_sql?format=json",
+      { error: { root_cause: [{ type: "parsing_exception", reason: "line 1:8: mismatched input" }] }, status: 400 },
+      400,
+    );
+    const provider = await connectProvider();
+
+    await expect(runPage(provider, "SELECT FROM")).rejects.toThrow("line 1:8: mismatched input");
+  });
+});
+
+// ============================================================================
+// Schema and monitoring
+// ============================================================================
+
+describe("ElasticsearchProvider schema and monitoring", () => {
+  function routeCatalog(): void {
+    route("GET", ELASTICSEARCH_INDEX_CATALOG_PATH, [
+      {
+        index: "logs",
+        health: "green",
+        status: "open",
+        "docs.count": "42",
+        "pri.store.size": "1024",
+        "store.size": "2048",
+      },
+      {
+        index: ".kibana_1",
+        health: "green",
+        status: "open",
+        "docs.count": "1",
+        "pri.store.size": "1",
+        "store.size": "1",
+      },
+    ]);
+    route("GET", ELASTICSEARCH_DATA_STREAM_PATH, { data_streams: [] });
+    route("GET", ELASTICSEARCH_MAPPING_PATH, {
+      logs: { mappings: { properties: { level: { type: "keyword" }, message: { type: "text" } } } },
+    });
+  }
+
+  test("getSchema lists the user's indices with their mappings as columns", async () => {
+    routeCatalog();
+    const provider = await connectProvider();
+    const schema = await provider.getSchema();
+
+    expect(schema.map((table) => table.name)).toEqual(["logs"]);
+    expect(schema[0].rowCount).toBe(42);
+    expect(schema[0].columns.map((column) => `${column.name}:${column.type}`)).toEqual([
+      "level:keyword",
+      "message:text",
+    ]);
+  });
+
+  test("getMonitoringData reports cluster health, shards and nodes", async () => {
+    routeCatalog();
+    route("GET", ELASTICSEARCH_CLUSTER_HEALTH_PATH, { status: "red", active_shards: 9, unassigned_shards: 2 });
+    route("GET", ELASTICSEARCH_CLUSTER_STATS_PATH, {
+      indices: { count: 1, store: { size_in_bytes: 2048 }, query_cache: { hit_count: 1, miss_count: 3 } },
+      nodes: { jvm: { max_uptime_in_millis: 60_000 } },
+    });
+    route("GET", ELASTICSEARCH_NODE_STATS_PATH, {
+      nodes: {
+        n1: {
+          name: "node-a",
+          host: "10.0.0.1",
+          http: { current_open: 4 },
+          fs: { total: { total_in_bytes: 10, available_in_bytes: 5 } },
+        },
+      },
+    });
+    route("GET", ELASTICSEARCH_RUNNING_SEARCH_PATH, { tasks: [] });
+    route("GET", ELASTICSEARCH_SHARD_CATALOG_PATH, [
+      { index: "logs", shard: "0", prirep: "p", state: "STARTED", store: "1024", "search.query_total": "5" },
+    ]);
+    const provider = await connectProvider();
+    const data = await provider.getMonitoringData();
+
+    expect(data.overview?.health).toEqual({ level: "critical", summary: "red, 2 unassigned shards" });
+    expect(data.overview).toMatchObject({ version: "Elasticsearch 8.15.0", activeConnections: 4, indexCount: 9 });
+    expect(data.performance?.cacheHitRatio).toBe(25);
+    expect(data.indexes?.map((index) => index.indexName)).toEqual(["shard 0 (primary)"]);
+    expect(data.storage).toEqual([
+      { name: "node-a", location: "10.0.0.1", size: "5 B", sizeBytes: 5, usagePercent: 50 },
+    ]);
+  });
+
+  // A role that may search an index but not list the cluster's gets an empty tree
+  // rather than an error page; the editor still works.
+  test("a denied catalog yields an empty tree", async () => {
+    const denied = { error: { reason: "action [indices:monitor/settings/get] is unauthorized" } };
+    route("GET", ELASTICSEARCH_INDEX_CATALOG_PATH, denied, 403);
+    route("GET", ELASTICSEARCH_DATA_STREAM_PATH, denied, 403);
+    route("GET", ELASTICSEARCH_MAPPING_PATH, denied, 403);
+    const provider = await connectProvider();
+
+    expect(await provider.getSchema()).toEqual([]);
+  });
+
+  test("a catalog failure that is not a denial propagates", async () => {
+    routeCatalog();
+    route("GET", ELASTICSEARCH_INDEX_CATALOG_PATH, { error: { reason: "all shards failed" } }, 503);
+    const provider = await connectProvider();
+
+    await expect(provider.getSchema()).rejects.toThrow("all shards failed");
+  });
+});
+
+// ============================================================================
+// Maintenance
+// ============================================================================
+
+describe("ElasticsearchProvider maintenance", () => {
+  test("optimize force-merges the named index", async () => {
+    route("POST", "/logs-2026.10/_forcemerge", { _shards: { total: 2, successful: 2, failed: 0 } });
+    const provider = await connectProvider();
+    const result = await provider.runMaintenance("optimize", "logs-2026.10");
+
+    expect(result).toMatchObject({ success: true, message: "Force-merged logs-2026.10" });
+  });
+
+  test("kill cancels the task by the id the sessions panel shows", async () => {
+    route("POST", "/_tasks/n1%3A42/_cancel", { nodes: {} });
+    const provider = await connectProvider();
+
+    expect(await provider.runMaintenance("kill", "n1:42")).toMatchObject({
+      success: true,
+      message: "Cancelled task n1:42",
+    });
+  });
+
+  test("an operation without a target is refused before anything is sent", async () => {
+    const provider = await connectProvider();
+    const before = sent.length;
+
+    await expect(provider.runMaintenance("optimize")).rejects.toThrow("requires a target");
+    expect(sent.length).toBe(before);
+  });
+
+  test.each<[string]>([["vacuum"], ["analyze"], ["reindex"], ["check"]])(
+    "%s has no search-engine equivalent and is refused",
+    async (type) => {
+      const provider = await connectProvider();
+
+      await expect(provider.runMaintenance(type as "vacuum")).rejects.toBeInstanceOf(QueryError);
+    },
+  );
+});
@@ -19,12 +19,34 @@ let mockCollections: { name: string; type: string }[] = [
 ];
 let mockCurrentOps: Record<string, unknown>[] = [];
 
-const createMockCursor = (data: Record<string, unknown>[]) => {
+/** What the last `find` was asked: its collection, filter and cursor modifiers. */
+let lastFind: { collection: string; filter: unknown; cursor: Record<string, unknown> } | null = null;
+
+/** The last driver call the index, collection and write methods below received, with its arguments. */
+let lastCall: { method: string; args: unknown[] } | null = null;
+const record =
+  <T>(method: string, result: T) =>
+  async (...args: unknown[]): Promise<T> => {
+    lastCall = { method, args };
+    return result;
+  };
+
+/** A server explain document, as `cursor.explain()` and the `explain` command answer. */
+const mockExplain = (verbosity: unknown) => ({
+  queryPlanner: { namespace: "testdb.users", winningPlan: { stage: "COLLSCAN" } },
+  ...(verbosity === "executionStats" && {
+    executionStats: { nReturned: 2, executionStages: { stage: "COLLSCAN", nReturned: 2 } },
+  }),
+  ok: 1,
+});
+
+const createMockCursor = (data: Record<string, unknown>[], cursorCalls: Record<string, unknown> = {}) => {
   const cursor = {
-    project: () => cursor,
-    sort: () => cursor,
-    skip: () => cursor,
-    limit: () => cursor,
+    project: (projection: unknown) => ((cursorCalls.project = projection), cursor),
+    sort: (sort: unknown) => ((cursorCalls.sort = sort), cursor),
+    skip: (skip: unknown) => ((cursorCalls.skip = skip), cursor),
+    limit: (limit: unknown) => ((cursorCalls.limit = limit), cursor),
+    explain: async (verbosity: unknown) => mockExplain(verbosity),
     toArray: async () => data,
     close: async () => {},
   };
@@ -47,10 +69,14 @@ const commandNotSupportedOnView = (command: string, name: string): Error => {
 const isMockView = (name: string): boolean => mockCollections.some((c) => c.name === name && c.type === "view");
 
 const createMockCollection = (name = "users") => ({
-  find: () => createMockCursor(mockCollectionData),
+  find: (filter: unknown) => {
+    lastFind = { collection: name, filter, cursor: {} };
+    return createMockCursor(mockCollectionData, lastFind.cursor);
+  },
   findOne: async () => mockCollectionData[0] || null,
   aggregate: () => ({
     toArray: async () => mockCollectionData,
+    explain: async (verbosity: unknown) => mockExplain(verbosity),
   }),
   countDocuments: async () => mockCollectionData.length,
   distinct: async (field: string) => mockCollectionData.map((d) => d[field]),
@@ -72,6 +98,23 @@ const createMockCollection = (name = "users") => ({
   }),
   deleteOne: async () => ({ deletedCount: 1 }),
   deleteMany: async () => ({ deletedCount: 3 }),
+  findOneAndUpdate: record("findOneAndUpdate", {
+    value: { _id: "u1", name: "Alice", visits: 2 },
+    lastErrorObject: { n: 1, updatedExisting: true },
+    ok: 1,
+  }),
+  bulkWrite: record("bulkWrite", {
+    insertedCount: 1,
+    matchedCount: 1,
+    modifiedCount: 1,
+    deletedCount: 1,
+    upsertedCount: 0,
+  }),
+  createIndex: record("createIndex", "email_1"),
+  rename: record("rename", {}),
+  listIndexes: () => ({
+    toArray: async () => [{ v: 2, key: { _id: 1 }, name: "_id_" }],
+  }),
   estimatedDocumentCount: async () => {
     if (isMockView(name)) throw commandNotSupportedOnView("count", name);
     return 42;
@@ -89,7 +132,9 @@ const mockCommandResults: Record<string, unknown> = {};
 
 const createMockDb = () => ({
   command: async (cmd: Record<string, unknown>) => {
+    lastCall = { method: "command", args: [cmd] };
     if (cmd.ping) return { ok: 1 };
+    if (cmd.explain) return mockExplain(cmd.verbosity);
     if (cmd.collStats) {
       if (isMockView(String(cmd.collStats))) throw commandNotSupportedOnView("collStats", String(cmd.collStats));
       return { size: 1024, totalIndexSize: 512, count: 42 };
@@ -102,6 +147,7 @@ const createMockDb = () => ({
     toArray: async () => mockCollections,
   }),
   collection: (name?: string) => createMockCollection(name),
+  createCollection: record("createCollection", {}),
   stats: async () => ({
     dataSize: 2048,
     indexSize: 512,
@@ -193,7 +239,7 @@ mock.module("mongodb", () => ({
 // ============================================================================
 
 const { MongoDBProvider } = await import("@/lib/db/providers/document/mongodb");
-const { DatabaseConfigError } = await import("@/lib/db/errors");
+const { DatabaseConfigError, QueryError } = await import("@/lib/db/errors");
 
 // ============================================================================
 // Test Config
@@ -318,7 +364,7 @@ describe("MongoDBProvider", () => {
       expect(caps.declaresForeignKeys).toBe(false);
       expect(caps.supportsConnectionString).toBe(true);
       expect(caps.supportsMaintenance).toBe(true);
-      expect(caps.explainFormat).toBeUndefined();
+      expect(caps.explainFormat).toBe("mongodb-json");
       expect(caps.supportsExplain).toBe(caps.explainFormat !== undefined);
     });
   });
@@ -416,6 +462,207 @@ describe("MongoDBProvider", () => {
     test("missing collection throws QueryError", async () => {
       await expect(provider.query(JSON.stringify({ operation: "find" }))).rejects.toThrow();
     });
+
+    test("runs shell syntax as the find it spells", async () => {
+      const result = await provider.query(
+        "db.orders.find({ total: { $gt: 10 } }).sort({ total: -1 }).skip(5).limit(2)",
+      );
+      expect(result.rows.length).toBe(2);
+      expect(lastFind).toEqual({
+        collection: "orders",
+        filter: { total: { $gt: 10 } },
+        cursor: { sort: { total: -1 }, skip: 5, limit: 2 },
+      });
+    });
+
+    test("builds shell ObjectId() and NumberDecimal() values with the driver's classes", async () => {
+      await provider.query(
+        "db.users.find({ _id: ObjectId('65a1b2c3d4e5f60718293a4b'), price: NumberDecimal('9.99') })",
+      );
+      const filter = lastFind!.filter as Record<string, unknown>;
+      expect(filter._id).toBeInstanceOf(MockObjectId);
+      expect(String(filter._id)).toBe("65a1b2c3d4e5f60718293a4b");
+      expect(filter.price).toBeInstanceOf(MockDecimal128);
+      expect(String(filter.price)).toBe("9.99");
+    });
+
+    test("runs a shell write", async () => {
+      const result = await provider.query("db.users.deleteMany({ inactive: true })");
+      expect(result.rows[0].deletedCount).toBe(3);
+    });
+
+    test("reports a shell syntax error with its position", async () => {
+      const error = await provider.query("db.users.find({ age: })").catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(QueryError);
+      expect((error as InstanceType<typeof QueryError>).position).toBe(22);
+    });
+
+    test("refreshes the schema after a write in either syntax", () => {
+      const pattern = new RegExp(provider.getCapabilities().schemaRefreshPattern!, "i");
+      expect(pattern.test('{"collection": "users", "operation": "insertOne"}')).toBe(true);
+      expect(pattern.test("db.users.insertOne({ a: 1 })")).toBe(true);
+      expect(pattern.test("db.users.find({})")).toBe(false);
+    });
+
+    test("refreshes the schema after an index or collection change in either syntax", () => {
+      const pattern = new RegExp(provider.getCapabilities().schemaRefreshPattern!, "i");
+      expect(pattern.test('{"collection": "users", "operation": "createIndex"}')).toBe(true);
+      expect(pattern.test("db.users.dropIndex('email_1')")).toBe(true);
+      expect(pattern.test("db.createCollection('people')")).toBe(true);
+      expect(pattern.test("db.users.renameCollection('people')")).toBe(true);
+      expect(pattern.test("db.users.getIndexes()")).toBe(false);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Index, collection and validator operations
+  // --------------------------------------------------------------------------
+
+  describe("index and collection operations", () => {
+    beforeEach(async () => {
+      lastCall = null;
+      await provider.connect();
+    });
+
+    test("createIndex passes the key pattern and only the options it was given", async () => {
+      const result = await provider.query("db.users.createIndex({ email: 1 }, { unique: true })");
+      expect(result.rows).toEqual([{ createdIndex: "email_1" }]);
+      expect(lastCall).toEqual({ method: "createIndex", args: [{ email: 1 }, { unique: true }] });
+    });
+
+    test("createIndex requires keys", async () => {
+      await expect(provider.query(JSON.stringify({ collection: "users", operation: "createIndex" }))).rejects.toThrow(
+        "Index keys are required for createIndex",
+      );
+    });
+
+    test("dropIndex drops by name or by key pattern through the dropIndexes command", async () => {
+      await provider.query("db.users.dropIndex({ email: 1 })");
+      expect(lastCall).toEqual({ method: "command", args: [{ dropIndexes: "users", index: { email: 1 } }] });
+      const result = await provider.query(
+        JSON.stringify({ collection: "users", operation: "dropIndex", index: "email_1" }),
+      );
+      expect(result.rows).toEqual([{ droppedIndex: "email_1" }]);
+    });
+
+    test("listIndexes returns one row per index", async () => {
+      const result = await provider.query("db.users.getIndexes()");
+      expect(result.rows).toEqual([{ v: 2, key: { _id: 1 }, name: "_id_" }]);
+    });
+
+    test("createCollection passes a JSON Schema validator and its validation settings", async () => {
+      const validator = { $jsonSchema: { bsonType: "object", required: ["name"] } };
+      const result = await provider.query(
+        JSON.stringify({
+          collection: "people",
+          operation: "createCollection",
+          validator,
+          options: { validationLevel: "strict", validationAction: "error" },
+        }),
+      );
+      expect(result.rows).toEqual([{ createdCollection: "people" }]);
+      expect(lastCall).toEqual({
+        method: "createCollection",
+        args: ["people", { validator, validationLevel: "strict", validationAction: "error" }],
+      });
+    });
+
+    test("renameCollection renames, passing dropTarget only when it was given", async () => {
+      const result = await provider.query("db.users.renameCollection('people')");
+      expect(result.rows).toEqual([{ renamedCollection: "users", newName: "people" }]);
+      expect(lastCall).toEqual({ method: "rename", args: ["people", {}] });
+      await provider.query("db.users.renameCollection('people', true)");
+      expect(lastCall).toEqual({ method: "rename", args: ["people", { dropTarget: true }] });
+    });
+
+    test("findOneAndUpdate returns the document and counts the write from the result metadata", async () => {
+      const result = await provider.query(
+        "db.users.findOneAndUpdate({ name: 'Alice' }, { $inc: { visits: 1 } }, { returnDocument: 'after' })",
+      );
+      expect(result.rows).toEqual([{ _id: "u1", name: "Alice", visits: 2 }]);
+      expect(lastCall!.args[2]).toEqual({ returnDocument: "after", includeResultMetadata: true });
+    });
+
+    test("findOneAndUpdate refuses a returnDocument other than before or after", async () => {
+      await expect(
+        provider.query(
+          JSON.stringify({
+            collection: "users",
+            operation: "findOneAndUpdate",
+            update: { $set: { a: 1 } },
+            options: { returnDocument: "new" },
+          }),
+        ),
+      ).rejects.toThrow('returnDocument must be "before" or "after"');
+    });
+
+    test("bulkWrite reports every count and totals the documents written", async () => {
+      const result = await provider.query(
+        "db.users.bulkWrite([{ insertOne: { document: { a: 1 } } }, { deleteOne: { filter: { a: 2 } } }], { ordered: false })",
+      );
+      expect(result.rows[0]).toEqual({
+        insertedCount: 1,
+        matchedCount: 1,
+        modifiedCount: 1,
+        deletedCount: 1,
+        upsertedCount: 0,
+      });
+      expect(result.rowCount).toBe(1);
+      expect(lastCall!.args[1]).toEqual({ ordered: false });
+    });
+
+    test("bulkWrite refuses a model it cannot name", async () => {
+      await expect(
+        provider.query(
+          JSON.stringify({ collection: "users", operation: "bulkWrite", operations: [{ dropCollection: {} }] }),
+        ),
+      ).rejects.toThrow("bulkWrite operation 1 must be an object with one of");
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // explain
+  // --------------------------------------------------------------------------
+
+  describe("explain", () => {
+    beforeEach(async () => {
+      lastCall = null;
+      await provider.connect();
+    });
+
+    test("explains a find as the cursor that would run, default limit included", async () => {
+      const result = await provider.query("db.users.explain('executionStats').find({ a: 1 })");
+      expect(result.rows.length).toBe(1);
+      expect(result.rows[0].executionStats).toEqual({
+        nReturned: 2,
+        executionStages: { stage: "COLLSCAN", nReturned: 2 },
+      });
+      expect(lastFind!.cursor.limit).toBe(100);
+    });
+
+    test("explains count and distinct through the explain command", async () => {
+      await provider.query(
+        JSON.stringify({ collection: "users", operation: "count", filter: { a: 1 }, explain: "queryPlanner" }),
+      );
+      expect(lastCall).toEqual({
+        method: "command",
+        args: [{ explain: { count: "users", query: { a: 1 } }, verbosity: "queryPlanner" }],
+      });
+      await provider.query("db.users.explain().distinct('city')");
+      expect(lastCall).toEqual({
+        method: "command",
+        args: [{ explain: { distinct: "users", key: "city", query: {} }, verbosity: "queryPlanner" }],
+      });
+    });
+
+    test("refuses to explain a write, or at a verbosity MongoDB does not have", async () => {
+      await expect(
+        provider.query(JSON.stringify({ collection: "users", operation: "deleteMany", explain: "executionStats" })),
+      ).rejects.toThrow("explain covers find, aggregate, count and distinct, not deleteMany");
+      await expect(
+        provider.query(JSON.stringify({ collection: "users", operation: "find", explain: "verbose" })),
+      ).rejects.toThrow('explain must be "queryPlanner", "executionStats" or "allPlansExecution"');
+    });
   });
 
   // --------------------------------------------------------------------------
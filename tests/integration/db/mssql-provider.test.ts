@@ -1,5 +1,6 @@
 import { describe, test, expect, beforeEach, afterEach, mock, spyOn } from "bun:test";
 import { EventEmitter } from "node:events";
+import { Readable } from "node:stream";
 
 // ---------------------------------------------------------------------------
 // Mock mssql BEFORE importing the provider
@@ -10,14 +11,34 @@ let capturedInputs: Array<{ name: string; value: unknown }> = [];
 let cancelShouldThrow = false;
 /** The pool handed to the most recently constructed provider. */
 let lastPool: EventEmitter | undefined;
+/** The rows a streaming request hands out, and how many requests were cancelled. */
+let streamedRows: Record<string, unknown>[] = [];
+let cancelCount = 0;
 
-class MockRequest {
+class MockRequest extends EventEmitter {
   private _transaction: unknown;
 
   constructor(transaction?: unknown) {
+    super();
     this._transaction = transaction;
   }
 
+  /** The driver's streaming mode: `recordset` with the columns, then each row, paused by the stream. */
+  toReadableStream() {
+    let started = false;
+    const stream: Readable = new Readable({
+      objectMode: true,
+      read: () => {
+        if (started) return;
+        started = true;
+        this.emit("recordset", { id: {}, name: {} });
+        for (const row of streamedRows) stream.push(row);
+        stream.push(null);
+      },
+    });
+    return stream;
+  }
+
   input(name: string, val: unknown) {
     capturedInputs.push({ name, value: val });
     return this;
@@ -28,6 +49,7 @@ class MockRequest {
   }
 
   cancel() {
+    cancelCount++;
     if (cancelShouldThrow) throw new Error("cancel failed");
   }
 }
@@ -548,6 +570,33 @@ describe("MSSQLProvider", () => {
     });
   });
 
+  describe("queryStream()", () => {
+    beforeEach(() => {
+      cancelCount = 0;
+      streamedRows = Array.from({ length: 5 }, (_, i) => ({ id: i + 1, name: `n${i}` }));
+    });
+
+    test("reads the streaming request in batches, with its declared columns and bound values", async () => {
+      await provider.connect();
+      const batches = [];
+      for await (const batch of provider.queryStream("SELECT * FROM users WHERE id > @p1", [0], 2)) batches.push(batch);
+
+      expect(batches.map((b) => b.rows.length)).toEqual([2, 2, 1]);
+      expect(batches[0].fields).toEqual(["id", "name"]);
+      expect(capturedInputs).toEqual([{ name: "p1", value: 0 }]);
+      expect(cancelCount).toBe(0);
+    });
+
+    test("cancels the request when the reader stops early", async () => {
+      await provider.connect();
+      const reader = provider.queryStream("SELECT * FROM users", undefined, 2);
+      await reader.next();
+      await reader.return(undefined);
+
+      expect(cancelCount).toBe(1);
+    });
+  });
+
   // =========================================================================
   // 3b. escapeIdentifier() dialect override
   // =========================================================================
@@ -1194,39 +1243,56 @@ describe("MSSQLProvider", () => {
   // =========================================================================
 
   describe("transaction lifecycle", () => {
-    test("begin/commit lifecycle works", async () => {
+    test("openTransaction / commit works", async () => {
       await provider.connect();
 
-      expect(provider.isInTransaction()).toBe(false);
-      await provider.beginTransaction();
-      expect(provider.isInTransaction()).toBe(true);
-
-      const result = await provider.queryInTransaction("SELECT 1 AS test");
+      const tx = await provider.openTransaction();
+      const result = await tx.query("SELECT 1 AS test");
       expect(result.rows).toBeArray();
+      expect(typeof result.executionTime).toBe("number");
+      await tx.commit();
+    });
+
+    test("openTransaction / rollback works", async () => {
+      await provider.connect();
+
+      const tx = await provider.openTransaction();
+      await tx.rollback();
+    });
+
+    test("two transactions on one provider are independent", async () => {
+      // The provider is shared by every user of the connection; each BEGIN gets a
+      // transaction of its own, and ending one leaves the other open.
+      await provider.connect();
+
+      const first = await provider.openTransaction();
+      const second = await provider.openTransaction();
+      await first.commit();
 
-      await provider.commitTransaction();
-      expect(provider.isInTransaction()).toBe(false);
+      await expect(second.query("SELECT 1 AS test")).resolves.toBeDefined();
+      await second.rollback();
     });
 
-    test("begin/rollback lifecycle works", async () => {
+    test("an ended transaction refuses further statements", async () => {
       await provider.connect();
 
-      await provider.beginTransaction();
-      expect(provider.isInTransaction()).toBe(true);
+      const tx = await provider.openTransaction();
+      await tx.commit();
 
-      await provider.rollbackTransaction();
-      expect(provider.isInTransaction()).toBe(false);
+      await expect(tx.query("SELECT 1 AS test")).rejects.toThrow("No active transaction");
+      await expect(tx.commit()).rejects.toThrow("No active transaction");
+      await expect(tx.rollback()).rejects.toThrow("No active transaction");
     });
 
-    test("queryInTransaction binds positional parameters as p1..pN inputs", async () => {
+    test("transaction queries bind positional parameters as p1..pN inputs", async () => {
       await provider.connect();
-      await provider.beginTransaction();
+      const tx = await provider.openTransaction();
 
-      const result = await provider.queryInTransaction("SELECT * FROM users WHERE id = @p1", [7]);
+      const result = await tx.query("SELECT * FROM users WHERE id = @p1", [7]);
       expect(result.rows).toBeArray();
       expect(capturedInputs).toEqual([{ name: "p1", value: 7 }]);
 
-      await provider.rollbackTransaction();
+      await tx.rollback();
     });
   });
 
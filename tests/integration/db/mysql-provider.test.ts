@@ -4,6 +4,7 @@
  */
 
 import { describe, test, expect, beforeEach, afterEach, mock } from "bun:test";
+import { Readable } from "node:stream";
 import type { DatabaseConnection } from "@/lib/types";
 import { DatabaseConfigError } from "@/lib/db/errors";
 
@@ -13,10 +14,41 @@ import { DatabaseConfigError } from "@/lib/db/errors";
 
 let mockExecuteFn: (sql: string, params?: unknown[]) => Promise<[unknown[], unknown[]]>;
 
+/** The rows the text protocol's row stream hands out, and how each connection left the pool. */
+let streamedRows: Record<string, unknown>[] = [];
+let streamedQuery: { sql: string; params: unknown } | null = null;
+const connectionEnds: string[] = [];
+
+/** mysql2's `query().stream()`: the columns as a `fields` event, then the rows, in object mode. */
+function rowStream(): Readable {
+  let started = false;
+  return new Readable({
+    objectMode: true,
+    read() {
+      if (started) return;
+      started = true;
+      this.emit("fields", [{ name: "id" }, { name: "payload" }]);
+      for (const row of streamedRows) this.push(row);
+      this.push(null);
+    },
+  });
+}
+
 const mockConnection = {
   threadId: 42,
   execute: (sql: string, params?: unknown[]) => mockExecuteFn(sql, params),
-  release: () => {},
+  connection: {
+    query: (sql: string, params: unknown) => {
+      streamedQuery = { sql, params };
+      return { stream: rowStream };
+    },
+  },
+  release: () => {
+    connectionEnds.push("release");
+  },
+  destroy: () => {
+    connectionEnds.push("destroy");
+  },
   beginTransaction: async () => {},
   commit: async () => {},
   rollback: async () => {},
@@ -414,6 +446,24 @@ describe("MySQLProvider", () => {
       expect(typeof result.rowCount).toBe("number");
     });
 
+    test("says which table and column each result column was read from, through its alias", async () => {
+      provider = new MySQLProvider(makeMySQLConfig());
+      await provider.connect();
+      mockExecuteFn = async () => [
+        [{ code: "123", shouted: "ADA", x: 1 }],
+        [
+          { name: "code", db: "hr", orgTable: "people", orgName: "ssn" },
+          { name: "shouted", db: "", orgTable: "", orgName: "" },
+          // A derived table's column: no database, so nothing to go by.
+          { name: "x", db: "", orgTable: "t", orgName: "x" },
+        ],
+      ];
+
+      const result = await provider.query("SELECT ssn AS code, upper(name) AS shouted, x FROM people, (SELECT 1 x) t");
+
+      expect(result.columnSources).toEqual({ code: { table: "people", column: "ssn" }, shouted: null });
+    });
+
     test("result contains sanitized rows", async () => {
       provider = new MySQLProvider(makeMySQLConfig());
       await provider.connect();
@@ -425,6 +475,54 @@ describe("MySQLProvider", () => {
     });
   });
 
+  describe("queryStream()", () => {
+    beforeEach(() => {
+      connectionEnds.length = 0;
+      streamedRows = Array.from({ length: 5 }, (_, i) => ({ id: i + 1, payload: Buffer.from([i]) }));
+    });
+
+    test("reads the row stream in batches, sanitized, and hands the connection back", async () => {
+      provider = new MySQLProvider(makeMySQLConfig());
+      await provider.connect();
+      connectionEnds.length = 0;
+      const batches = [];
+      for await (const batch of provider.queryStream("SELECT * FROM t WHERE a = ?", [1], 2)) batches.push(batch);
+
+      expect(streamedQuery).toEqual({ sql: "SELECT * FROM t WHERE a = ?", params: [1] });
+      expect(batches.map((b) => b.rows.length)).toEqual([2, 2, 1]);
+      expect(batches[0].fields).toEqual(["id", "payload"]);
+      expect(batches[2].rows[0]).toEqual({ id: 5, payload: "0x04" });
+      expect(connectionEnds).toEqual(["release"]);
+    });
+
+    test("yields the columns of an empty result", async () => {
+      streamedRows = [];
+      provider = new MySQLProvider(makeMySQLConfig());
+      await provider.connect();
+      const batches = [];
+      for await (const batch of provider.queryStream("SELECT * FROM t", undefined, 2)) batches.push(batch);
+
+      expect(batches).toEqual([{ rows: [], fields: ["id", "payload"] }]);
+    });
+
+    test("destroys the connection when the reader stops early, rather than pooling it mid-result", async () => {
+      provider = new MySQLProvider(makeMySQLConfig());
+      await provider.connect();
+      connectionEnds.length = 0;
+      const reader = provider.queryStream("SELECT * FROM t", undefined, 2);
+      await reader.next();
+      await reader.return(undefined);
+
+      expect(connectionEnds).toEqual(["destroy"]);
+    });
+
+    test("refuses a batch size it cannot fetch by", async () => {
+      provider = new MySQLProvider(makeMySQLConfig());
+      await provider.connect();
+      await expect(provider.queryStream("SELECT 1", undefined, 0).next()).rejects.toThrow("Invalid stream batch size");
+    });
+  });
+
   // --------------------------------------------------------------------------
   // Capabilities
   // --------------------------------------------------------------------------
@@ -585,76 +683,49 @@ describe("MySQLProvider", () => {
   // --------------------------------------------------------------------------
 
   describe("Transaction lifecycle", () => {
-    test("beginTransaction / commitTransaction works", async () => {
+    test("openTransaction / commit works", async () => {
       provider = new MySQLProvider(makeMySQLConfig());
       await provider.connect();
 
-      expect(provider.isInTransaction()).toBe(false);
-      await provider.beginTransaction();
-      expect(provider.isInTransaction()).toBe(true);
-      await provider.commitTransaction();
-      expect(provider.isInTransaction()).toBe(false);
-    });
-
-    test("beginTransaction / rollbackTransaction works", async () => {
-      provider = new MySQLProvider(makeMySQLConfig());
-      await provider.connect();
-
-      await provider.beginTransaction();
-      expect(provider.isInTransaction()).toBe(true);
-      await provider.rollbackTransaction();
-      expect(provider.isInTransaction()).toBe(false);
+      const tx = await provider.openTransaction();
+      const result = await tx.query("SELECT * FROM users");
+      expect(result.rows).toBeArray();
+      expect(typeof result.executionTime).toBe("number");
+      await tx.commit();
     });
 
-    test("double beginTransaction throws", async () => {
+    test("openTransaction / rollback works", async () => {
       provider = new MySQLProvider(makeMySQLConfig());
       await provider.connect();
 
-      await provider.beginTransaction();
-      await expect(provider.beginTransaction()).rejects.toThrow("Transaction already active");
-      // Clean up
-      await provider.rollbackTransaction();
+      const tx = await provider.openTransaction();
+      await tx.rollback();
     });
 
-    test("expireTransaction auto-rollbacks an active transaction", async () => {
+    test("two transactions on one provider are independent", async () => {
+      // The provider is shared by every user of the connection; each BEGIN gets a
+      // transaction of its own, and ending one leaves the other open.
       provider = new MySQLProvider(makeMySQLConfig());
       await provider.connect();
 
-      await provider.beginTransaction();
-      expect(provider.isInTransaction()).toBe(true);
+      const first = await provider.openTransaction();
+      const second = await provider.openTransaction();
+      await first.commit();
 
-      await provider.expireTransaction();
-      expect(provider.isInTransaction()).toBe(false);
+      await expect(second.query("SELECT * FROM users")).resolves.toBeDefined();
+      await second.rollback();
     });
 
-    test("transaction auto-rolls back when the timeout timer fires", async () => {
-      // TX_TIMEOUT_MS is a compile-time-private static; shrink it at runtime so
-      // the setTimeout callback in beginTransaction actually fires in the test.
-      const providerStatics = MySQLProvider as unknown as { TX_TIMEOUT_MS: number };
-      const originalTimeout = providerStatics.TX_TIMEOUT_MS;
-      providerStatics.TX_TIMEOUT_MS = 5;
-
-      try {
-        provider = new MySQLProvider(makeMySQLConfig());
-        await provider.connect();
-        await provider.beginTransaction();
-        expect(provider.isInTransaction()).toBe(true);
-
-        // Wait for the shortened timeout to trigger the auto-rollback
-        await new Promise((resolve) => setTimeout(resolve, 50));
-        expect(provider.isInTransaction()).toBe(false);
-      } finally {
-        providerStatics.TX_TIMEOUT_MS = originalTimeout;
-      }
-    });
-
-    test("expireTransaction is no-op when no active transaction", async () => {
+    test("an ended transaction refuses further statements", async () => {
       provider = new MySQLProvider(makeMySQLConfig());
       await provider.connect();
 
-      // Should not throw
-      await provider.expireTransaction();
-      expect(provider.isInTransaction()).toBe(false);
+      const tx = await provider.openTransaction();
+      await tx.commit();
+
+      await expect(tx.query("SELECT * FROM users")).rejects.toThrow("No active transaction");
+      await expect(tx.commit()).rejects.toThrow("No active transaction");
+      await expect(tx.rollback()).rejects.toThrow("No active transaction");
     });
   });
 
@@ -917,32 +988,6 @@ describe("MySQLProvider", () => {
     });
   });
 
-  // --------------------------------------------------------------------------
-  // queryInTransaction()
-  // --------------------------------------------------------------------------
-
-  describe("queryInTransaction()", () => {
-    test("executes query within active transaction", async () => {
-      provider = new MySQLProvider(makeMySQLConfig());
-      await provider.connect();
-      await provider.beginTransaction();
-
-      const result = await provider.queryInTransaction("SELECT * FROM users");
-      expect(result.rows).toBeArray();
-      expect(result.rows.length).toBeGreaterThan(0);
-      expect(typeof result.executionTime).toBe("number");
-
-      await provider.commitTransaction();
-    });
-
-    test("throws when no active transaction", async () => {
-      provider = new MySQLProvider(makeMySQLConfig());
-      await provider.connect();
-
-      await expect(provider.queryInTransaction("SELECT 1")).rejects.toThrow("No active transaction");
-    });
-  });
-
   // --------------------------------------------------------------------------
   // prepareQuery()
   // --------------------------------------------------------------------------
@@ -531,6 +531,52 @@ describe("OracleProvider", () => {
     });
   });
 
+  describe("queryStream()", () => {
+    test("fetches from a result set in batches and closes it and the connection", async () => {
+      await provider.connect();
+      const remaining = Array.from({ length: 5 }, (_, i) => ({ ID: i + 1 }));
+      const fetched: number[] = [];
+      const closed: string[] = [];
+      let options: unknown;
+      mockExecuteFn = async (_sql, _params, opts) => {
+        options = opts;
+        return {
+          metaData: [{ name: "ID" }],
+          resultSet: {
+            getRows: async (count: number) => {
+              fetched.push(count);
+              return remaining.splice(0, count);
+            },
+            close: async () => {
+              closed.push("resultSet");
+            },
+          },
+        };
+      };
+      mockConnCloseFn = async () => {
+        closed.push("connection");
+      };
+
+      const batches = [];
+      for await (const batch of provider.queryStream("SELECT ID FROM T", [], 2)) batches.push(batch);
+
+      expect(options).toMatchObject({ resultSet: true, fetchArraySize: 2 });
+      expect(batches.map((b) => b.rows.length)).toEqual([2, 2, 1]);
+      expect(batches[0].fields).toEqual(["ID"]);
+      expect(fetched).toEqual([2, 2, 2]);
+      expect(closed).toEqual(["resultSet", "connection"]);
+    });
+
+    test("maps a refused statement to a QueryError", async () => {
+      await provider.connect();
+      mockExecuteFn = async () => {
+        throw new Error("ORA-00942: table or view does not exist");
+      };
+
+      await expect(provider.queryStream("SELECT * FROM NOPE", [], 2).next()).rejects.toBeInstanceOf(QueryError);
+    });
+  });
+
   // =========================================================================
   // 4. getCapabilities()
   // =========================================================================
@@ -957,66 +1003,60 @@ describe("OracleProvider", () => {
   // =========================================================================
 
   describe("transaction lifecycle", () => {
-    test("begin/commit lifecycle works", async () => {
+    test("openTransaction / commit works", async () => {
       await provider.connect();
 
-      expect(provider.isInTransaction()).toBe(false);
-      await provider.beginTransaction();
-      expect(provider.isInTransaction()).toBe(true);
-
-      const result = await provider.queryInTransaction("SELECT 1 FROM DUAL");
+      const tx = await provider.openTransaction();
+      const result = await tx.query("SELECT 1 FROM DUAL");
       expect(result.rows).toBeArray();
-
-      await provider.commitTransaction();
-      expect(provider.isInTransaction()).toBe(false);
+      expect(typeof result.executionTime).toBe("number");
+      await tx.commit();
     });
 
-    test("begin/rollback lifecycle works", async () => {
+    test("openTransaction / rollback works", async () => {
       await provider.connect();
 
-      await provider.beginTransaction();
-      expect(provider.isInTransaction()).toBe(true);
-
-      await provider.rollbackTransaction();
-      expect(provider.isInTransaction()).toBe(false);
+      const tx = await provider.openTransaction();
+      await tx.rollback();
     });
 
-    test("beginTransaction while a transaction is active throws QueryError", async () => {
+    test("two transactions on one provider are independent", async () => {
+      // The provider is shared by every user of the connection; each BEGIN gets a
+      // transaction of its own, and ending one leaves the other open.
       await provider.connect();
-      await provider.beginTransaction();
 
-      await expect(provider.beginTransaction()).rejects.toThrow(QueryError);
-      await provider.rollbackTransaction();
-    });
+      const first = await provider.openTransaction();
+      const second = await provider.openTransaction();
+      await first.commit();
 
-    test("commitTransaction without an active transaction throws QueryError", async () => {
-      await provider.connect();
-      await expect(provider.commitTransaction()).rejects.toThrow(QueryError);
+      await expect(second.query("SELECT 1 FROM DUAL")).resolves.toBeDefined();
+      await second.rollback();
     });
 
-    test("rollbackTransaction without an active transaction throws QueryError", async () => {
+    test("an ended transaction refuses further statements", async () => {
       await provider.connect();
-      await expect(provider.rollbackTransaction()).rejects.toThrow(QueryError);
-    });
 
-    test("queryInTransaction without an active transaction throws QueryError", async () => {
-      await provider.connect();
-      await expect(provider.queryInTransaction("SELECT 1 FROM DUAL")).rejects.toThrow(QueryError);
+      const tx = await provider.openTransaction();
+      await tx.commit();
+
+      await expect(tx.query("SELECT 1 FROM DUAL")).rejects.toThrow(QueryError);
+      await expect(tx.commit()).rejects.toThrow(QueryError);
+      await expect(tx.rollback()).rejects.toThrow(QueryError);
     });
 
-    test("queryInTransaction maps driver errors", async () => {
+    test("transaction queries map driver errors and keep the transaction open", async () => {
       await provider.connect();
-      await provider.beginTransaction();
+      const tx = await provider.openTransaction();
 
       mockExecuteFn = async () => {
         throw new Error("ORA-00942: table or view does not exist");
       };
 
-      await expect(provider.queryInTransaction("SELECT * FROM MISSING")).rejects.toThrow();
-      expect(provider.isInTransaction()).toBe(true); // error keeps the tx open
+      await expect(tx.query("SELECT * FROM MISSING")).rejects.toThrow();
 
       mockExecuteFn = async (sql: string) => defaultExecute(sql);
-      await provider.rollbackTransaction();
+      await expect(tx.query("SELECT 1 FROM DUAL")).resolves.toBeDefined();
+      await tx.rollback();
     });
   });
 
@@ -18,7 +18,7 @@ let mockQueryFn: (
   params?: unknown[],
 ) => Promise<{
   rows: unknown[];
-  fields?: { name: string }[];
+  fields?: { name: string; tableID?: number; columnID?: number }[];
   rowCount?: number;
 }>;
 
@@ -725,6 +725,53 @@ describe("PostgresProvider", () => {
       expect(typeof result.rowCount).toBe("number");
     });
 
+    test("names the table and column each result column was read from, through its alias", async () => {
+      provider = new PostgresProvider(makePgConfig());
+      await provider.connect();
+      const catalogReads: unknown[] = [];
+      mockQueryFn = async (sql, params) => {
+        if (sql.includes("pg_attribute")) {
+          catalogReads.push(params);
+          return {
+            rows: [
+              { attrelid: 16384, relname: "people", attnum: 1, attname: "id" },
+              { attrelid: 16384, relname: "people", attnum: 2, attname: "ssn" },
+            ],
+          };
+        }
+        return {
+          rows: [{ code: "123", shouted: "ADA" }],
+          fields: [
+            { name: "code", tableID: 16384, columnID: 2 },
+            { name: "shouted", tableID: 0, columnID: 0 },
+          ],
+        };
+      };
+
+      const result = await provider.query("SELECT ssn AS code, upper(name) AS shouted FROM people");
+      expect(result.columnSources).toEqual({ code: { table: "people", column: "ssn" }, shouted: null });
+
+      // The names are kept for a while rather than read again for every result.
+      await provider.query("SELECT ssn AS code, upper(name) AS shouted FROM people");
+      expect(catalogReads).toEqual([[[16384]]]);
+    });
+
+    test("a failed catalog read traces no column, and the result still answers", async () => {
+      provider = new PostgresProvider(makePgConfig());
+      await provider.connect();
+      mockQueryFn = async (sql) => {
+        if (sql.includes("pg_attribute")) throw new Error("permission denied for table pg_attribute");
+        return {
+          rows: [{ code: "123" }],
+          fields: [{ name: "code", tableID: 16384, columnID: 2 }],
+        };
+      };
+
+      const result = await provider.query("SELECT ssn AS code FROM people");
+      expect(result.rows).toEqual([{ code: "123" }]);
+      expect(result.columnSources).toBeUndefined();
+    });
+
     test("PID is tracked when queryId is provided", async () => {
       provider = new PostgresProvider(makePgConfig());
       await provider.connect();
@@ -798,108 +845,49 @@ describe("PostgresProvider", () => {
   // --------------------------------------------------------------------------
 
   describe("Transaction lifecycle", () => {
-    test("beginTransaction / commitTransaction works", async () => {
-      provider = new PostgresProvider(makePgConfig());
-      await provider.connect();
-
-      expect(provider.isInTransaction()).toBe(false);
-      await provider.beginTransaction();
-      expect(provider.isInTransaction()).toBe(true);
-      await provider.commitTransaction();
-      expect(provider.isInTransaction()).toBe(false);
-    });
-
-    test("beginTransaction / rollbackTransaction works", async () => {
-      provider = new PostgresProvider(makePgConfig());
-      await provider.connect();
-
-      await provider.beginTransaction();
-      expect(provider.isInTransaction()).toBe(true);
-      await provider.rollbackTransaction();
-      expect(provider.isInTransaction()).toBe(false);
-    });
-
-    test("double beginTransaction throws", async () => {
-      provider = new PostgresProvider(makePgConfig());
-      await provider.connect();
-
-      await provider.beginTransaction();
-      await expect(provider.beginTransaction()).rejects.toThrow("Transaction already active");
-      // Clean up
-      await provider.rollbackTransaction();
-    });
-
-    test("commitTransaction without begin throws", async () => {
-      provider = new PostgresProvider(makePgConfig());
-      await provider.connect();
-
-      await expect(provider.commitTransaction()).rejects.toThrow("No active transaction");
-    });
-
-    test("rollbackTransaction without begin throws", async () => {
-      provider = new PostgresProvider(makePgConfig());
-      await provider.connect();
-
-      await expect(provider.rollbackTransaction()).rejects.toThrow("No active transaction");
-    });
-
-    test("queryInTransaction executes within active transaction", async () => {
+    test("openTransaction / commit works", async () => {
       provider = new PostgresProvider(makePgConfig());
       await provider.connect();
 
-      await provider.beginTransaction();
-      const result = await provider.queryInTransaction("SELECT 1");
-      expect(result.rows).toBeDefined();
+      const tx = await provider.openTransaction();
+      const result = await tx.query("SELECT 1");
+      expect(result.rows).toBeArray();
       expect(typeof result.executionTime).toBe("number");
-      await provider.commitTransaction();
+      await tx.commit();
     });
 
-    test("queryInTransaction without begin throws", async () => {
+    test("openTransaction / rollback works", async () => {
       provider = new PostgresProvider(makePgConfig());
       await provider.connect();
 
-      await expect(provider.queryInTransaction("SELECT 1")).rejects.toThrow("No active transaction");
+      const tx = await provider.openTransaction();
+      await tx.rollback();
     });
 
-    test("expireTransaction auto-rollbacks an active transaction", async () => {
+    test("two transactions on one provider are independent", async () => {
+      // The provider is shared by every user of the connection; each BEGIN gets a
+      // transaction of its own, and ending one leaves the other open.
       provider = new PostgresProvider(makePgConfig());
       await provider.connect();
 
-      await provider.beginTransaction();
-      expect(provider.isInTransaction()).toBe(true);
+      const first = await provider.openTransaction();
+      const second = await provider.openTransaction();
+      await first.commit();
 
-      await provider.expireTransaction();
-      expect(provider.isInTransaction()).toBe(false);
+      await expect(second.query("SELECT 1")).resolves.toBeDefined();
+      await second.rollback();
     });
 
-    test("expireTransaction is no-op when no active transaction", async () => {
+    test("an ended transaction refuses further statements", async () => {
       provider = new PostgresProvider(makePgConfig());
       await provider.connect();
 
-      // Should not throw
-      await provider.expireTransaction();
-      expect(provider.isInTransaction()).toBe(false);
-    });
-
-    test("transaction timeout timer fires and auto-rollbacks", async () => {
-      // TX_TIMEOUT_MS is a private static read at beginTransaction() call time;
-      // shrink it so the auto-rollback timer actually fires in the test
-      // (same private-access-via-cast precedent as runningQueryPids above).
-      const providerStatics = PostgresProvider as unknown as { TX_TIMEOUT_MS: number };
-      const originalTimeout = providerStatics.TX_TIMEOUT_MS;
-      providerStatics.TX_TIMEOUT_MS = 5;
-      try {
-        provider = new PostgresProvider(makePgConfig());
-        await provider.connect();
-
-        await provider.beginTransaction();
-        expect(provider.isInTransaction()).toBe(true);
+      const tx = await provider.openTransaction();
+      await tx.commit();
 
-        await new Promise((resolve) => setTimeout(resolve, 50));
-        expect(provider.isInTransaction()).toBe(false);
-      } finally {
-        providerStatics.TX_TIMEOUT_MS = originalTimeout;
-      }
+      await expect(tx.query("SELECT 1")).rejects.toThrow("No active transaction");
+      await expect(tx.commit()).rejects.toThrow("No active transaction");
+      await expect(tx.rollback()).rejects.toThrow("No active transaction");
     });
   });
 
@@ -2148,7 +2136,11 @@ describe("PostgresProvider", () => {
           }
           case "EXPLAIN":
           case "SHOW":
+          case "FETCH":
             return this.rows(this.selectRows);
+          case "DECLARE":
+            // A cursor over a read; what it reads runs when it is fetched.
+            return { rows: [], fields: [], rowCount: 0 };
           default:
             // Everything else counts as a write attempt (conservative server model).
             return this.write(text, keyword);
@@ -2252,6 +2244,22 @@ describe("PostgresProvider", () => {
       ]);
     });
 
+    test("a streamed export's cursor cannot smuggle transaction control past BEGIN READ ONLY", async () => {
+      const batches = provider.queryStream!("SELECT 1; COMMIT; INSERT INTO t (id) VALUES (1)", undefined, 10);
+
+      await expect(batches.next()).rejects.toThrow(/multiple commands/);
+      expect(engine.appliedWrites).toEqual([]);
+      expect(engine.statements.map((s) => s.text)).toEqual(["BEGIN READ ONLY", "ROLLBACK"]);
+    });
+
+    test("declares a streamed export's cursor on the extended protocol", async () => {
+      const batches = provider.queryStream!("SELECT 1 AS ok", undefined, 10);
+
+      expect((await batches.next()).value).toEqual({ rows: [{ ok: 1 }], fields: ["ok"] });
+      await batches.return(undefined);
+      expect(engine.statements.find((s) => s.text.startsWith("DECLARE"))?.protocol).toBe("extended");
+    });
+
     test("a transaction-control statement as the single statement leaves no residue", async () => {
       const result = await provider.queryReadOnly("COMMIT", roBudget());
 
@@ -21,6 +21,7 @@ import { createTargetScope } from "@/lib/db/operations/policy";
 import type { DatabaseProvider, ProviderCapabilities } from "@/lib/db/types";
 import { TABLE_LABELS } from "../fixtures/provider-labels";
 import type { DatabaseConnection, QueryResult } from "@/lib/types";
+import { DEFAULT_MASKING_POLICY } from "@/lib/masking/store";
 import { chatToolCallStream, type FetchDouble } from "./fixtures/agent-transport";
 
 /**
@@ -401,6 +402,7 @@ async function driveArc(fixture: Fixture): Promise<Arc> {
     artifacts,
     deadline: new AgentRunDeadline(AGENT_WORKFLOW_BUDGETS.investigation.runDeadlineMs, Date.now),
     repairs: new AgentRepairLedger(),
+    masking: DEFAULT_MASKING_POLICY,
     // The production seam, not a stand-in: this is what opens the provider under the
     // read-only profile, so the run really is bounded by the profile's own controls.
     acquireProvider: async (connection, profile) => {
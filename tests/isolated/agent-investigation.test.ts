@@ -30,6 +30,7 @@ import type { DatabaseProvider, ProviderCapabilities } from "@/lib/db/types";
 import { KEY_PATTERN_LABELS, TABLE_LABELS } from "../fixtures/provider-labels";
 import { LLMAuthError } from "@/lib/llm/types";
 import type { ColumnSchema, DatabaseConnection, DatabaseType, QueryResult, TableSchema } from "@/lib/types";
+import { DEFAULT_MASKING_POLICY } from "@/lib/masking/store";
 import {
   type Turn,
   answersProse,
@@ -187,6 +188,7 @@ function boot(dataDir: string, options: BootOptions = {}): Boot {
       artifacts,
       deadline: new AgentRunDeadline(AGENT_WORKFLOW_BUDGETS.investigation.runDeadlineMs, deadlineClock),
       repairs: new AgentRepairLedger(),
+      masking: DEFAULT_MASKING_POLICY,
       acquireProvider,
     },
     queryReadOnly,
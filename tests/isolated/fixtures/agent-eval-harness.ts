@@ -60,6 +60,7 @@ import { createTargetScope } from "@/lib/db/operations/policy";
 import type { DatabaseProvider, ProviderCapabilities, ProviderLabels } from "@/lib/db/types";
 import { TABLE_LABELS } from "../../fixtures/provider-labels";
 import type { DatabaseConnection, QueryResult, TableSchema } from "@/lib/types";
+import { DEFAULT_MASKING_POLICY } from "@/lib/masking/store";
 import { type ScriptedTurn, modelOver, scriptedModel } from "./agent-scripted-model";
 
 // ─── the two Phase 1 engines ────────────────────────────────────────────────
@@ -552,6 +553,7 @@ export async function openEvalRun(options: EvalRunOptions = {}): Promise<EvalRun
       artifacts,
       deadline: new AgentRunDeadline(budget.runDeadlineMs, clock),
       repairs: new AgentRepairLedger(),
+      masking: DEFAULT_MASKING_POLICY,
       acquireProvider: async () => {
         const failure = options.acquireFails?.();
         if (failure) throw failure;
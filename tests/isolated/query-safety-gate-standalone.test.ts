@@ -60,7 +60,7 @@ function params() {
     setTabs: mock((fn: unknown) => {
       if (typeof fn === "function") (fn as (prev: QueryTab[]) => QueryTab[])([tab]);
     }),
-    transactionActive: false,
+    transactionTabId: null,
     playgroundMode: false,
     fetchSchema: mock(async () => {}),
     queryEditorRef: { current: null },
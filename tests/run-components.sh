@@ -217,6 +217,7 @@ run_group "Group 11/12: Smoke tests" \
   tests/components/VisualExplain.test.tsx \
   tests/components/DatabaseDocs.test.tsx \
   tests/components/SnapshotTimeline.test.tsx \
+  tests/components/MigrationHistory.test.tsx \
   tests/components/PivotTable.test.tsx \
   tests/components/CodeGenerator.test.tsx \
   tests/components/TestDataGenerator.test.tsx \
@@ -244,6 +245,42 @@ run_group "Group 12/13: MaskingSettings" \
 run_group "Group 13/14: SchemaDiff" \
   tests/components/SchemaDiff.test.tsx
 
+# Group 13b: DataDiff (isolated — mocks ResultsGrid, @/components/ui/select, @/lib/export/download)
+run_group "Group 13b/14: DataDiff" \
+  tests/components/DataDiff.test.tsx
+
+# Group 13c: ScheduleDialog (isolated — mocks ResultsGrid, @/components/ui/select, global fetch)
+run_group "Group 13c/14: ScheduleDialog" \
+  tests/components/ScheduleDialog.test.tsx
+
+# Group 13d: QueryParametersPanel (isolated — mocks @/components/ui/select with native selects)
+run_group "Group 13d/14: QueryParametersPanel" \
+  tests/components/QueryParametersPanel.test.tsx
+
+# Group 13e: TeamItems + TeamPublishDialog (isolated — mocks @/components/ui/select with native selects, global fetch)
+run_group "Group 13e/14: TeamItems" \
+  tests/components/TeamItems.test.tsx
+
+# Group 13f: TeamsTab (isolated — mocks @/components/ui/select with native selects, global fetch)
+run_group "Group 13f/14: TeamsTab" \
+  tests/components/admin/TeamsTab.test.tsx
+
+# Group 13g: UsersTab (isolated — mocks @/components/ui/select with native selects, global fetch)
+run_group "Group 13g/14: UsersTab" \
+  tests/components/admin/UsersTab.test.tsx
+
+# Group 13h: AccessRolesPanel (isolated — mocks @/components/ui/select with native selects, global fetch)
+run_group "Group 13h/14: AccessRolesPanel" \
+  tests/components/admin/AccessRolesPanel.test.tsx
+
+# Group 13i: ChangeRequestsPanel (isolated — global fetch)
+run_group "Group 13i/14: ChangeRequestsPanel" \
+  tests/components/admin/ChangeRequestsPanel.test.tsx
+
+# Group 13j: ApiTokensPanel (isolated — global fetch, confirm)
+run_group "Group 13j/14: ApiTokensPanel" \
+  tests/components/profile/ApiTokensPanel.test.tsx
+
 # Group 16: ConnectionModal Mobile Drawer (isolated - useIsMobile returns true)
 run_group "Group 16/16: ConnectionModal Mobile" \
   tests/components/ConnectionModal.mobile.test.tsx
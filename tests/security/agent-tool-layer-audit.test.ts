@@ -12,6 +12,7 @@ import { QueryError } from "@/lib/db/errors";
 import type { DatabaseProvider, ProviderCapabilities } from "@/lib/db/types";
 import { TABLE_LABELS } from "../fixtures/provider-labels";
 import type { DatabaseConnection, QueryResult } from "@/lib/types";
+import { DEFAULT_MASKING_POLICY } from "@/lib/masking/store";
 
 /**
  * Control 3.5 — accountability of the agent TOOL layer (#329 T6).
@@ -85,6 +86,7 @@ function context(
     // Two readings past a 1ms total: construction takes the first, `admit` the next.
     deadline: new AgentRunDeadline(1, stubClock(0, 5_000)),
     repairs: new AgentRepairLedger(),
+    masking: DEFAULT_MASKING_POLICY,
     acquireProvider: mock(async () => provider),
     clock: stubClock(1_000, 1_010),
     ...overrides,
@@ -42,6 +42,7 @@ mock.module("@/lib/oidc", () => ({
   decryptState: mockDecryptState,
   exchangeCode: mockExchangeCode,
   mapOIDCRole: mock(() => "user" as "admin" | "user"),
+  mapOIDCGroups: mock(() => [] as string[]),
   resetDiscoveryCache: mock(() => {}),
   buildLogoutUrl: mock(() => null as string | null),
   getPublicOrigin: mock((req: Request) => new URL(req.url).origin),
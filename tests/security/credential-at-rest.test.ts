@@ -4,7 +4,13 @@ import { resolveBootstrapPath } from "@/lib/auth-bootstrap";
 import { getDataDir } from "@/lib/data-dir";
 import { withCredentialEncryption } from "@/lib/storage/encrypting-provider";
 import { resetStorageEncryptionKey } from "@/lib/storage/encryption";
-import type { ServerStorageProvider, StorageCollection, StorageData } from "@/lib/storage/types";
+import type {
+  ServerOnlyCollection,
+  ServerOnlyData,
+  ServerStorageProvider,
+  StorageData,
+  StoredData,
+} from "@/lib/storage/types";
 import type { DatabaseConnection } from "@/lib/types";
 
 /**
@@ -75,15 +81,40 @@ class CaptureProvider implements ServerStorageProvider {
     for (const [key, value] of this.rows) data[key] = value;
     return data as Partial<StorageData>;
   }
-  async getCollection<K extends StorageCollection>(_userId: string, collection: K): Promise<StorageData[K] | null> {
-    return (this.rows.get(collection) as StorageData[K]) ?? null;
+  async getCollection<K extends keyof StoredData>(_userId: string, collection: K): Promise<StoredData[K] | null> {
+    return (this.rows.get(collection) as StoredData[K]) ?? null;
   }
-  async setCollection<K extends StorageCollection>(
+  async setCollection<K extends keyof StoredData>(_userId: string, collection: K, data: StoredData[K]): Promise<void> {
+    this.rows.set(collection, data);
+  }
+  async updateCollection<K extends ServerOnlyCollection>(
     _userId: string,
     collection: K,
-    data: StorageData[K],
+    update: (current: ServerOnlyData[K] | null) => ServerOnlyData[K],
   ): Promise<void> {
-    this.rows.set(collection, data);
+    this.rows.set(collection, update((this.rows.get(collection) as ServerOnlyData[K]) ?? null));
+  }
+  async listCollection(): Promise<never[]> {
+    return [];
+  }
+  async getTeamCollection(): Promise<null> {
+    return null;
+  }
+  async setTeamCollection(): Promise<void> {}
+  async updateTeamCollection(): Promise<void> {}
+  async listTeamCollection(): Promise<never[]> {
+    return [];
+  }
+  async deleteTeam(): Promise<void> {}
+  async appendAuditEvents(): Promise<void> {}
+  async getLastAuditEvent(): Promise<null> {
+    return null;
+  }
+  async queryAuditEvents(): Promise<{ events: never[]; total: number }> {
+    return { events: [], total: 0 };
+  }
+  async pruneAuditEvents(): Promise<number> {
+    return 0;
   }
   async mergeData(_userId: string, data: Partial<StorageData>): Promise<void> {
     for (const [key, value] of Object.entries(data)) this.rows.set(key, value);
@@ -188,7 +188,16 @@ const ALL_ROUTES = discoverRoutes(API_ROOT_DIR);
  * different verified control is the only kind allowed here; "it has no auth" never is.
  */
 const ROUTES_WITHOUT_A_PROVIDER: Record<string, string> = {
-  "admin/audit": "reads/writes the in-process audit ring buffer only; no database or LLM provider",
+  "admin/access-roles":
+    "manages the custom roles in the app's storage backend and lists the seed config's ids and names; no database or LLM provider",
+  "admin/audit":
+    "reads/writes the in-process audit ring buffer, and reads the durable audit store in the app's storage backend; no database or LLM provider",
+  "admin/audit/chain":
+    "exports a range of the durable audit store from the app's storage backend, and verifies one sent back in memory; no database or LLM provider",
+  "admin/masking-policy":
+    "manages the masking policy in the app's storage backend and lists the seed config's ids and names; no database or LLM provider (GET/PUT, no POST export)",
+  "admin/teams": "manages team membership in the app's storage backend; no database or LLM provider",
+  "admin/users": "manages the stored login accounts in the app's storage backend; no database or LLM provider",
   "agent/config":
     "answers whether the agent runtime is enabled, from process.env alone; no database or LLM provider (GET, no POST export). It still requires a session — a bare getSession() like connections/managed, because metering a visibility probe out of the ai bucket would spend a run's budget on rendering a panel — and tests/api/agent/config.test.ts proves an unauthenticated caller learns nothing about the flag",
   "agent/drive":
@@ -204,7 +213,19 @@ const ROUTES_WITHOUT_A_PROVIDER: Record<string, string> = {
   "auth/me": "reads the caller's own session claims only (GET, no POST export)",
   "auth/oidc/callback": "completes the OIDC exchange that CREATES the session (GET, no POST export)",
   "auth/oidc/login": "starts the OIDC redirect before a session exists (GET, no POST export)",
+  "auth/setup":
+    "sets an invited account's first password from a one-time link, which CREATES the session; the link's token is the credential, and a wrong one spends the login_client budget",
   "connections/managed": "reads seed config metadata only; never opens a database connection (GET, no POST export)",
+  schedules:
+    "stores the caller's own schedules in the app's storage backend; the connection is resolved from its saved record or seed config, never opened (its POST only saves)",
+  "schedules/notifications":
+    "marks the caller's own alerts read in the app's storage backend; no database or LLM provider",
+  teams: "lists the caller's teams from the app's storage backend; no database or LLM provider (GET only)",
+  "teams/[id]/items":
+    "reads and writes what a team published, in the app's storage backend; saving a query never runs it, so no database or LLM provider",
+  "teams/[id]/items/[itemId]/versions": "reads an item's kept versions from the app's storage backend (GET only)",
+  tokens:
+    "manages the caller's own personal API tokens in the app's storage backend, with a cookie session only; no database or LLM provider",
   storage: "reaches the app's own storage backend (STORAGE_PROVIDER), not a user database or LLM provider (GET only)",
   "storage/[collection]": "same storage backend as above, scoped to the caller's own data (PUT, no POST export)",
   "storage/config": "publicly documents whether server storage is enabled; no session, no provider (GET only)",
@@ -276,3 +297,42 @@ describe("routes that reach a provider require a session", () => {
     });
   }
 });
+
+// src/proxy.ts lets a request to /api/db/ past its cookie check on a well-shaped Bearer header
+// alone, leaving the token to the handler's guardRoute. So every handler there, whatever its method
+// and whatever the list above says of it, must answer such a header itself: a db/ route added
+// without guardRoute fails here rather than opening to anyone who can shape a token. GET
+// /api/db/health is the one exception, public in the proxy with or without a header.
+const DB_ROUTES = discoverRoutes(join(API_ROOT_DIR, "db"));
+const UNKNOWN_TOKEN = `ldb_pat_${"A".repeat(43)}`;
+
+describe("every /api/db/ handler decides a Bearer token itself", () => {
+  test("the walk finds today's 22 db/ routes", () => {
+    expect(DB_ROUTES.length).toBeGreaterThanOrEqual(22);
+  });
+
+  for (const [route, load] of DB_ROUTES) {
+    test(`/api/db/${route} refuses a token it cannot find`, async () => {
+      const routeModule = await load();
+      const methods = Object.entries(routeModule).filter(
+        ([method, handler]) =>
+          /^(GET|POST|PUT|PATCH|DELETE)$/.test(method) &&
+          typeof handler === "function" &&
+          !(route === "health" && method === "GET"),
+      );
+      expect(methods.length).toBeGreaterThan(0);
+
+      for (const [method, handler] of methods) {
+        const req = new Request(`http://localhost/api/db/${route}`, {
+          method,
+          headers: { Authorization: `Bearer ${UNKNOWN_TOKEN}`, "Content-Type": "application/json" },
+          ...(method === "GET" ? {} : { body: JSON.stringify({ probe: true }) }),
+        });
+        const res = await (handler as (req: never) => Promise<Response>)(req as never);
+
+        expect(res.status).toBe(401);
+        expect(await res.json()).toEqual({ error: "Invalid or expired API token" });
+      }
+    });
+  }
+});
@@ -0,0 +1,179 @@
+import { describe, expect, test } from "bun:test";
+import { assignedRoles, connectionPermissions, statementPermission, AccessDeniedError } from "@/lib/access/grants";
+import { AccessRoleInputError, readAccessRoleInput } from "@/lib/access/input";
+import type { AccessRole } from "@/lib/access/types";
+
+function role(name: string, overrides: Partial<AccessRole> = {}): AccessRole {
+  return {
+    name,
+    members: [],
+    groups: [],
+    grants: [],
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    updatedBy: "admin",
+    ...overrides,
+  };
+}
+
+const analyst = role("analyst", {
+  members: ["Ana@Example.com"],
+  groups: ["data-analysts"],
+  grants: [
+    { connection: "*", permissions: ["read"] },
+    { connection: "warehouse", permissions: ["read", "export"] },
+  ],
+});
+const dba = role("dba", { grants: [{ connection: "prod", permissions: ["read", "write", "ddl", "maintenance"] }] });
+
+describe("assignedRoles", () => {
+  test("matches a member's login name case-insensitively", () => {
+    expect(assignedRoles([analyst, dba], { role: "user", username: "ana@example.com" })).toEqual([analyst]);
+  });
+
+  test("matches an OIDC group listed on the role, or the role's own name", () => {
+    expect(assignedRoles([analyst, dba], { role: "user", username: "x", groups: ["Data-Analysts"] })).toEqual([
+      analyst,
+    ]);
+    expect(assignedRoles([analyst, dba], { role: "user", username: "x", groups: ["dba"] })).toEqual([dba]);
+  });
+
+  test("matches the role's own name case-insensitively, however it is written", () => {
+    const finance = role("Finance");
+    expect(assignedRoles([finance], { role: "user", username: "x", groups: ["finance"] })).toEqual([finance]);
+    expect(assignedRoles([finance], { role: "user", username: "x", groups: ["FINANCE"] })).toEqual([finance]);
+  });
+
+  test("holds nothing without a match", () => {
+    expect(assignedRoles([analyst, dba], { role: "user", username: "bob", groups: ["sales"] })).toEqual([]);
+  });
+});
+
+describe("connectionPermissions", () => {
+  test("an admin holds every permission, whatever roles say", () => {
+    const held = connectionPermissions([analyst], { role: "admin", username: "ana@example.com" }, "prod");
+    expect([...held]).toEqual(["read", "write", "ddl", "maintenance", "kill_session", "export", "unmask"]);
+  });
+
+  test("someone with no custom role keeps the built-in user permissions", () => {
+    const held = connectionPermissions([analyst], { role: "user", username: "bob" }, null);
+    expect([...held].sort()).toEqual(["ddl", "export", "read", "write"]);
+  });
+
+  test("a custom role holder has exactly what the grants add up to on that connection", () => {
+    const ana = { role: "user", username: "ana@example.com" };
+    expect([...connectionPermissions([analyst], ana, "warehouse")].sort()).toEqual(["export", "read"]);
+    expect([...connectionPermissions([analyst], ana, "prod")]).toEqual(["read"]);
+    expect([...connectionPermissions([analyst], ana, null)]).toEqual(["read"]);
+  });
+
+  test("a connection no grant names is out of reach", () => {
+    const held = connectionPermissions([dba], { role: "user", username: "x", groups: ["dba"] }, "warehouse");
+    expect(held.size).toBe(0);
+  });
+
+  test("roles add up", () => {
+    const held = connectionPermissions(
+      [analyst, dba],
+      { role: "user", username: "ana@example.com", groups: ["dba"] },
+      "prod",
+    );
+    expect([...held].sort()).toEqual(["ddl", "maintenance", "read", "write"]);
+  });
+});
+
+describe("statementPermission", () => {
+  test("reads", () => {
+    expect(statementPermission("SELECT * FROM users", "postgres")).toBe("read");
+    expect(statementPermission("-- just looking\nEXPLAIN SELECT 1", "postgres")).toBe("read");
+    expect(statementPermission("WITH t AS (SELECT 1) SELECT * FROM t", "postgres")).toBe("read");
+  });
+
+  test("writes", () => {
+    expect(statementPermission("UPDATE users SET name = 'x'", "postgres")).toBe("write");
+    expect(statementPermission("WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d", "postgres")).toBe("write");
+    expect(statementPermission("SELECT * INTO backup FROM users", "postgres")).toBe("write");
+  });
+
+  test("a word inside a string literal does not make a read write", () => {
+    expect(statementPermission("SELECT 'please delete me' AS note", "postgres")).toBe("read");
+  });
+
+  test("schema changes are ddl", () => {
+    expect(statementPermission("DROP TABLE users", "mysql")).toBe("ddl");
+    expect(statementPermission("ALTER TABLE users ADD COLUMN x int", "postgres")).toBe("ddl");
+  });
+
+  test("a script needs the most any of its statements needs", () => {
+    expect(statementPermission("SELECT 1; INSERT INTO t VALUES (1); SELECT 2;", "postgres")).toBe("write");
+    expect(statementPermission("INSERT INTO t VALUES (1); CREATE TABLE u (id int);", "postgres")).toBe("ddl");
+  });
+
+  test("MongoDB reads by operation, and an aggregate that writes out is a write", () => {
+    expect(statementPermission('{"collection":"users","operation":"find"}', "mongodb")).toBe("read");
+    expect(statementPermission('{"collection":"users","operation":"insertOne"}', "mongodb")).toBe("write");
+    expect(
+      statementPermission('{"collection":"users","operation":"aggregate","pipeline":[{"$out":"copy"}]}', "mongodb"),
+    ).toBe("write");
+  });
+
+  test("MongoDB shell syntax is judged by the operation it translates to", () => {
+    expect(statementPermission("db.users.find({ age: { $gt: 18 } }).limit(5)", "mongodb")).toBe("read");
+    expect(statementPermission("db.users.deleteMany({})", "mongodb")).toBe("write");
+    expect(statementPermission("db.users.aggregate([{ $merge: 'copy' }])", "mongodb")).toBe("write");
+    expect(statementPermission("db.users.find(", "mongodb")).toBe("read");
+  });
+
+  test("MongoDB index and collection changes are ddl, and listing indexes reads", () => {
+    expect(statementPermission("db.users.createIndex({ email: 1 })", "mongodb")).toBe("ddl");
+    expect(statementPermission('{"collection":"users","operation":"dropIndex","index":"email_1"}', "mongodb")).toBe(
+      "ddl",
+    );
+    expect(statementPermission("db.createCollection('people')", "mongodb")).toBe("ddl");
+    expect(statementPermission("db.users.renameCollection('people')", "mongodb")).toBe("ddl");
+    expect(statementPermission("db.users.getIndexes()", "mongodb")).toBe("read");
+    expect(statementPermission("db.users.bulkWrite([{ insertOne: { document: {} } }])", "mongodb")).toBe("write");
+    expect(statementPermission("db.users.explain('executionStats').find({})", "mongodb")).toBe("read");
+  });
+
+  test("text with no reader here is taken for a write", () => {
+    expect(statementPermission("GET key", "redis")).toBe("write");
+  });
+});
+
+describe("AccessDeniedError", () => {
+  test("names the permission and the connection", () => {
+    expect(new AccessDeniedError("write", "prod").message).toBe(
+      'Access denied: your role does not grant "write" on connection "prod"',
+    );
+    expect(new AccessDeniedError("export", null).message).toContain("connections you add yourself");
+  });
+});
+
+describe("readAccessRoleInput", () => {
+  test("reads a role, adding read to every grant and deduplicating lists", () => {
+    const input = readAccessRoleInput({
+      name: " analyst ",
+      description: "  Reads the warehouse ",
+      members: ["ana", " ana ", ""],
+      groups: ["data-analysts"],
+      grants: [{ connection: "warehouse", permissions: ["export"] }],
+    });
+    expect(input).toEqual({
+      name: "analyst",
+      description: "Reads the warehouse",
+      members: ["ana"],
+      groups: ["data-analysts"],
+      grants: [{ connection: "warehouse", permissions: ["read", "export"] }],
+    });
+  });
+
+  test("rejects a built-in name, a bad name, an unknown permission and a repeated connection", () => {
+    const grants = [{ connection: "*", permissions: [] }];
+    expect(() => readAccessRoleInput({ name: "admin", grants })).toThrow(AccessRoleInputError);
+    expect(() => readAccessRoleInput({ name: "Data Team", grants })).toThrow(AccessRoleInputError);
+    expect(() =>
+      readAccessRoleInput({ name: "ops", grants: [{ connection: "*", permissions: ["superuser"] }] }),
+    ).toThrow('"superuser" is not one of');
+    expect(() => readAccessRoleInput({ name: "ops", grants: [...grants, ...grants] })).toThrow("granted twice");
+  });
+});
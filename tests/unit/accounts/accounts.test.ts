@@ -0,0 +1,90 @@
+import { describe, test, expect } from "bun:test";
+import { AccountInputError, readAccountAction } from "@/lib/accounts/input";
+import { hashPassword, passwordProblem, verificationCount, verifyPassword } from "@/lib/accounts/password";
+import { accountStatus, issueSetup, summarizeAccount } from "@/lib/accounts/store";
+import type { LocalAccount } from "@/lib/accounts/types";
+
+describe("password hashing", () => {
+  test("a hash verifies its own password only, and carries its parameters", async () => {
+    const hash = await hashPassword("correct horse battery");
+    expect(hash).toMatch(/^scrypt\$16384\$8\$1\$/);
+    expect(await verifyPassword("correct horse battery", hash)).toBe(true);
+    expect(await verifyPassword("correct horse batterY", hash)).toBe(false);
+    expect(await hashPassword("correct horse battery")).not.toBe(hash);
+  });
+
+  test("no hash, or a corrupt one, fails - and still costs one verification", async () => {
+    const before = verificationCount();
+    expect(await verifyPassword("anything at all", null)).toBe(false);
+    expect(await verifyPassword("anything at all", "scrypt$16384$8$1$c2FsdA==$dG9vc2hvcnQ=")).toBe(false);
+    expect(verificationCount() - before).toBe(2);
+  });
+
+  test("a password must be 12 to 1024 characters", () => {
+    expect(passwordProblem("short")).toBe("Password must be at least 12 characters");
+    expect(passwordProblem("x".repeat(1025))).toBe("Password must be at most 1024 characters");
+    expect(passwordProblem("twelve chars")).toBeNull();
+  });
+});
+
+describe("readAccountAction", () => {
+  test("normalizes the email, and keeps a role only where it is used", () => {
+    expect(readAccountAction({ action: "invite", email: " Alice@Example.COM ", role: "admin" })).toEqual({
+      action: "invite",
+      email: "alice@example.com",
+      role: "admin",
+    });
+    expect(readAccountAction({ action: "disable", email: "bob@example.com", role: "admin" })).toEqual({
+      action: "disable",
+      email: "bob@example.com",
+    });
+  });
+
+  test("refuses an unknown action, a bad email and a missing role", () => {
+    expect(() => readAccountAction({ action: "delete", email: "a@b" })).toThrow("action must be one of");
+    expect(() => readAccountAction({ action: "reset", email: "not an email" })).toThrow(AccountInputError);
+    expect(() => readAccountAction({ action: "role", email: "a@b" })).toThrow('role must be "admin" or "user"');
+  });
+});
+
+describe("account status", () => {
+  const account: LocalAccount = {
+    email: "alice@example.com",
+    role: "user",
+    passwordHash: null,
+    setup: null,
+    disabled: false,
+    sessionsValidFrom: "2026-01-01T00:00:00.000Z",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    createdBy: "admin@libredb.org",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  };
+
+  test("follows the password, the pending link and the disabled flag", () => {
+    const now = new Date("2026-01-01T00:00:00.000Z");
+    const invite = issueSetup("invite", now);
+    const reset = issueSetup("reset", now);
+    expect(invite.setup.expiresAt).toBe("2026-01-08T00:00:00.000Z");
+    expect(reset.setup.expiresAt).toBe("2026-01-02T00:00:00.000Z");
+    expect(invite.setup.tokenHash).not.toContain(invite.token);
+
+    expect(accountStatus({ ...account, setup: invite.setup })).toBe("invited");
+    expect(accountStatus({ ...account, setup: reset.setup })).toBe("reset_pending");
+    expect(accountStatus({ ...account, passwordHash: "scrypt$..." })).toBe("active");
+    expect(accountStatus({ ...account, passwordHash: "scrypt$...", disabled: true })).toBe("disabled");
+  });
+
+  test("a summary carries neither the hash nor the token", () => {
+    const { setup } = issueSetup("invite");
+    const summary = summarizeAccount({ ...account, passwordHash: "scrypt$...", setup });
+    expect(summary).toEqual({
+      email: "alice@example.com",
+      role: "user",
+      status: "active",
+      source: "stored",
+      createdAt: account.createdAt,
+      createdBy: account.createdBy,
+      setupExpiresAt: setup.expiresAt,
+    });
+  });
+});
@@ -9,7 +9,15 @@ import {
 
 describe("admin-sections", () => {
   test("lists five canonical sections", () => {
-    expect([...ADMIN_SECTIONS]).toEqual(["overview", "operations", "monitoring", "security", "audit"]);
+    expect([...ADMIN_SECTIONS]).toEqual([
+      "overview",
+      "operations",
+      "monitoring",
+      "security",
+      "users",
+      "teams",
+      "audit",
+    ]);
   });
 
   test("isAdminSection validates known ids", () => {
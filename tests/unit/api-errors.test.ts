@@ -3,6 +3,7 @@ import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
 import type { Mock } from "bun:test";
 import { createErrorResponse } from "@/lib/api/errors";
 import { RateLimitError } from "@/lib/api/rate-limit";
+import { AccessDeniedError } from "@/lib/access/grants";
 import {
   DatabaseError,
   DatabaseConfigError,
@@ -220,4 +221,13 @@ describe("createErrorResponse", () => {
     expect(body.retryable).toBe(true);
     expect(body.error).toBe("Too many requests. Try again in 47 seconds.");
   });
+
+  test("maps a missing grant to 403 ACCESS_DENIED, naming the permission and the connection", async () => {
+    const res = createErrorResponse(new AccessDeniedError("ddl", "warehouse"), { route: "api/db/query" });
+    const body = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(body.code).toBe("ACCESS_DENIED");
+    expect(body.error).toBe('Access denied: your role does not grant "ddl" on connection "warehouse"');
+  });
 });
@@ -0,0 +1,139 @@
+import { describe, test, expect } from "bun:test";
+import { ApiTokenInputError, readApiTokenInput } from "@/lib/api-tokens/input";
+import { API_TOKEN_PREFIX, isApiTokenSecret } from "@/lib/api-tokens/format";
+import {
+  API_TOKENS_OWNER,
+  findApiToken,
+  hashApiTokenSecret,
+  issueApiToken,
+  summarizeApiToken,
+  updateApiTokens,
+} from "@/lib/api-tokens/store";
+import type { ApiToken } from "@/lib/api-tokens/types";
+import type { ServerStorageProvider } from "@/lib/storage/types";
+
+const NOW = new Date("2026-06-01T00:00:00.000Z");
+
+describe("readApiTokenInput", () => {
+  test("trims the name and keeps each scope once, in declared order", () => {
+    expect(readApiTokenInput({ name: " nightly ", scopes: ["schema", "query", "schema"], expiresInDays: 30 })).toEqual({
+      name: "nightly",
+      scopes: ["query", "schema"],
+      expiresInDays: 30,
+    });
+  });
+
+  test("refuses a missing name, an unknown or empty scope list and a lifetime out of range", () => {
+    expect(() => readApiTokenInput({ name: " ", scopes: ["query"], expiresInDays: 1 })).toThrow("name is required");
+    expect(() => readApiTokenInput({ name: "ci", scopes: [], expiresInDays: 1 })).toThrow(ApiTokenInputError);
+    expect(() => readApiTokenInput({ name: "ci", scopes: ["admin"], expiresInDays: 1 })).toThrow("scopes must list");
+    expect(() => readApiTokenInput({ name: "ci", scopes: ["query"], expiresInDays: 0 })).toThrow("expiresInDays");
+    expect(() => readApiTokenInput({ name: "ci", scopes: ["query"], expiresInDays: 366 })).toThrow("expiresInDays");
+    expect(() => readApiTokenInput({ name: "ci", scopes: ["query"], expiresInDays: 1.5 })).toThrow("expiresInDays");
+  });
+});
+
+describe("issuing and finding a token", () => {
+  const session = { username: "alice@example.com", role: "user" as const, account: true as const, groups: ["dba"] };
+  const input = { name: "ci", scopes: ["query" as const], expiresInDays: 7 };
+
+  test("keeps only the secret's hash, and the owner's identity as the session had it", () => {
+    const { secret, token } = issueApiToken(session, input, NOW);
+    expect(secret.startsWith(API_TOKEN_PREFIX)).toBe(true);
+    expect(token.id).toMatch(/^tok_[0-9a-f]{16}$/);
+    expect(token.secretHash).toBe(hashApiTokenSecret(secret));
+    expect(JSON.stringify(token)).not.toContain(secret);
+    expect(token).toMatchObject({ owner: session.username, role: "user", groups: ["dba"], account: true });
+    expect(token.expiresAt).toBe("2026-06-08T00:00:00.000Z");
+  });
+
+  test("a secret finds its own token; anything else finds none", () => {
+    const { secret, token } = issueApiToken(session, input, NOW);
+    const other = issueApiToken(session, input, NOW);
+    expect(findApiToken([other.token, token], secret)).toBe(token);
+    expect(findApiToken([token], `${secret}x`)).toBeUndefined();
+    // The hash of a value without the prefix is never looked up.
+    expect(findApiToken([{ ...token, secretHash: hashApiTokenSecret("plain") }], "plain")).toBeUndefined();
+  });
+
+  test("a secret has the prefix and 43 base64url characters, and nothing else has its shape", () => {
+    const { secret } = issueApiToken(session, input, NOW);
+    expect(isApiTokenSecret(secret)).toBe(true);
+    expect(isApiTokenSecret(`${secret}x`)).toBe(false);
+    expect(isApiTokenSecret(secret.slice(0, -1))).toBe(false);
+    expect(isApiTokenSecret(`${API_TOKEN_PREFIX}${"a".repeat(42)}.`)).toBe(false);
+    expect(isApiTokenSecret(secret.replace(API_TOKEN_PREFIX, "ldb_xxx_"))).toBe(false);
+  });
+
+  test("a summary carries nothing that would use the token, and says when it has expired", () => {
+    const { token } = issueApiToken(session, input, NOW);
+    const summary = summarizeApiToken(token, new Date("2026-06-09T00:00:00.000Z"));
+    expect(summary).toEqual({
+      id: token.id,
+      name: "ci",
+      scopes: ["query"],
+      createdAt: NOW.toISOString(),
+      expiresAt: token.expiresAt,
+      expired: true,
+    });
+  });
+});
+
+describe("updateApiTokens", () => {
+  function memoryProvider() {
+    const rows = new Map<string, unknown>();
+    const provider = {
+      getCollection: async (userId: string, collection: string) => rows.get(`${userId}/${collection}`) ?? null,
+      setCollection: async (userId: string, collection: string, data: unknown) => {
+        rows.set(`${userId}/${collection}`, data);
+      },
+      updateCollection: async (userId: string, collection: string, update: (current: unknown) => unknown) => {
+        rows.set(`${userId}/${collection}`, update(rows.get(`${userId}/${collection}`) ?? null));
+      },
+    } as unknown as ServerStorageProvider;
+    return { rows, provider };
+  }
+
+  const token = (id: string, expiresAt: string): ApiToken => ({
+    id,
+    name: id,
+    secretHash: id,
+    scopes: ["query"],
+    owner: "alice",
+    role: "user",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    expiresAt,
+  });
+
+  test("writes under the deployment's row, and drops tokens expired more than 30 days ago", async () => {
+    const { rows, provider } = memoryProvider();
+    await updateApiTokens(
+      provider,
+      () => ({
+        tokens: [
+          token("live", "2026-07-01T00:00:00.000Z"),
+          token("recent", "2026-05-15T00:00:00.000Z"),
+          token("old", "2026-04-01T00:00:00.000Z"),
+        ],
+        result: undefined,
+      }),
+      NOW,
+    );
+    const stored = rows.get(`${API_TOKENS_OWNER}/api_tokens`) as ApiToken[];
+    expect(stored.map((t) => t.id)).toEqual(["live", "recent"]);
+  });
+
+  test("concurrent updates each see the one before", async () => {
+    const { provider } = memoryProvider();
+    await Promise.all(
+      ["a", "b", "c"].map((id) =>
+        updateApiTokens(provider, (tokens) => ({
+          tokens: [...tokens, token(id, "2027-01-01T00:00:00.000Z")],
+          result: 0,
+        })),
+      ),
+    );
+    const stored = await provider.getCollection(API_TOKENS_OWNER, "api_tokens");
+    expect(stored?.map((t) => t.id)).toEqual(["a", "b", "c"]);
+  });
+});
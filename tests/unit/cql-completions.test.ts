@@ -0,0 +1,221 @@
+import "../setup";
+import { describe, test, expect } from "bun:test";
+import type * as Monaco from "monaco-editor";
+import {
+  CQL_KEYWORDS,
+  CQL_FUNCTIONS,
+  CQL_SNIPPETS,
+  CQL_KEYWORD_ITEMS,
+  CQL_FUNCTION_ITEMS,
+  CQL_SNIPPET_ITEMS,
+  registerCQLCompletionProvider,
+} from "@/lib/editor/cql-completions";
+import type { SchemaCompletionCache, SchemaColumnItem } from "@/lib/editor/sql-completions";
+
+// ---------------------------------------------------------------------------
+// Mock Monaco
+// ---------------------------------------------------------------------------
+
+function createMockMonaco() {
+  let registeredLanguage: string | null = null;
+  let registeredProvider: {
+    triggerCharacters: string[];
+    provideCompletionItems: (
+      model: Monaco.editor.ITextModel,
+      position: Monaco.Position,
+    ) => { suggestions: Monaco.languages.CompletionItem[] };
+  } | null = null;
+
+  const mockMonaco = {
+    languages: {
+      registerCompletionItemProvider: (lang: string, provider: typeof registeredProvider) => {
+        registeredLanguage = lang;
+        registeredProvider = provider;
+        return {
+          dispose: () => {
+            registeredProvider = null;
+          },
+        };
+      },
+      CompletionItemKind: {
+        Keyword: 17,
+        Function: 1,
+        Snippet: 27,
+        Class: 5,
+        Field: 3,
+      },
+      CompletionItemInsertTextRule: {
+        InsertAsSnippet: 4,
+      },
+    },
+    _getProvider: () => registeredProvider,
+    _getLanguage: () => registeredLanguage,
+  };
+
+  return mockMonaco as unknown as typeof Monaco & {
+    _getProvider: () => typeof registeredProvider;
+    _getLanguage: () => string | null;
+  };
+}
+
+function createMockModel(lineContent: string) {
+  return {
+    getWordUntilPosition: (position: { column: number }) => {
+      const before = lineContent.substring(0, position.column - 1);
+      const match = before.match(/(\w+)$/);
+      return {
+        word: match ? match[1] : "",
+        startColumn: match ? position.column - match[1].length : position.column,
+        endColumn: position.column,
+      };
+    },
+    getLineContent: () => lineContent,
+    getValueInRange: () => lineContent,
+  } as unknown as Monaco.editor.ITextModel;
+}
+
+function createPosition(line: number, col: number) {
+  return { lineNumber: line, column: col } as Monaco.Position;
+}
+
+function provide(monaco: ReturnType<typeof createMockMonaco>, line: string) {
+  return monaco._getProvider()!.provideCompletionItems(createMockModel(line), createPosition(1, line.length + 1));
+}
+
+/** A connection with no keyspace: every table is named `keyspace.table`. */
+function createSchemaCache(): SchemaCompletionCache {
+  const events: SchemaColumnItem[] = [
+    { label: "device_id", labelLower: "device_id", type: "uuid", isPrimary: true, tableName: "telemetry.events" },
+    { label: "ts", labelLower: "ts", type: "timestamp", isPrimary: true, tableName: "telemetry.events" },
+    { label: "payload", labelLower: "payload", type: "text", isPrimary: false, tableName: "telemetry.events" },
+  ];
+  return {
+    tableItems: [
+      {
+        label: "telemetry.events",
+        labelLower: "telemetry.events",
+        rowCount: 1000,
+        columnNames: "device_id, ts, payload",
+      },
+      { label: "telemetry.devices", labelLower: "telemetry.devices", rowCount: 20, columnNames: "device_id" },
+      { label: "billing.invoices", labelLower: "billing.invoices", rowCount: 5, columnNames: "id" },
+    ],
+    columnMap: new Map([["telemetry.events", events]]),
+    allColumns: new Map(events.map((col) => [col.label, col])),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Static constants
+// ---------------------------------------------------------------------------
+
+describe("CQL Completions – static constants", () => {
+  test("CQL_KEYWORDS carries the partition-key forms and none of SQL's joins", () => {
+    expect(CQL_KEYWORDS).toContain("ALLOW FILTERING");
+    expect(CQL_KEYWORDS).toContain("PER PARTITION LIMIT");
+    expect(CQL_KEYWORDS).toContain("USING TTL");
+    expect(CQL_KEYWORDS).toContain("CLUSTERING ORDER BY");
+    expect(CQL_KEYWORDS).not.toContain("INNER JOIN");
+    expect(CQL_KEYWORDS).not.toContain("OFFSET");
+    expect(CQL_KEYWORDS).not.toContain("HAVING");
+  });
+
+  test("CQL_FUNCTIONS contains the time, token and write-metadata functions", () => {
+    for (const fn of ["token", "now", "toTimestamp", "writetime", "ttl", "minTimeuuid"]) {
+      expect(CQL_FUNCTIONS).toContain(fn);
+    }
+  });
+
+  test("CQL_SNIPPETS declare a primary key and a replication map", () => {
+    const labels = CQL_SNIPPETS.map((s) => s.label);
+    expect(labels).toEqual(["SELECT", "SELECT BY PARTITION", "INSERT", "CREATE TABLE", "CREATE KEYSPACE"]);
+    expect(CQL_SNIPPETS.find((s) => s.label === "CREATE TABLE")!.value).toContain("PRIMARY KEY ((");
+    expect(CQL_SNIPPETS.find((s) => s.label === "CREATE KEYSPACE")!.value).toContain("replication");
+  });
+});
+
+describe("CQL Completions – pre-computed items", () => {
+  test("items mirror their constants, with CQL details", () => {
+    expect(CQL_KEYWORD_ITEMS).toHaveLength(CQL_KEYWORDS.length);
+    expect(CQL_FUNCTION_ITEMS).toHaveLength(CQL_FUNCTIONS.length);
+    expect(CQL_SNIPPET_ITEMS).toHaveLength(CQL_SNIPPETS.length);
+    expect(CQL_KEYWORD_ITEMS[0].detail).toBe("CQL Keyword");
+    expect(CQL_FUNCTION_ITEMS[0].insertText).toBe("token($1)");
+    expect(CQL_SNIPPET_ITEMS[0].insertTextRules).toBe(4);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Registration
+// ---------------------------------------------------------------------------
+
+describe("registerCQLCompletionProvider", () => {
+  test("registers against the sql language and disposes", () => {
+    const monaco = createMockMonaco();
+    const disposable = registerCQLCompletionProvider(monaco, createSchemaCache());
+    expect(monaco._getLanguage()).toBe("sql");
+    expect(monaco._getProvider()!.triggerCharacters).toEqual([".", " "]);
+    disposable.dispose();
+    expect(monaco._getProvider()).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Completions
+// ---------------------------------------------------------------------------
+
+describe("CQL completions", () => {
+  test("a dot after a keyspace offers that keyspace's tables, unqualified", () => {
+    const monaco = createMockMonaco();
+    registerCQLCompletionProvider(monaco, createSchemaCache());
+
+    const labels = provide(monaco, "SELECT * FROM telemetry.").suggestions.map((s) => s.label);
+    expect(labels.sort()).toEqual(["devices", "events"]);
+  });
+
+  test("a dot after an unknown keyspace offers nothing", () => {
+    const monaco = createMockMonaco();
+    registerCQLCompletionProvider(monaco, createSchemaCache());
+
+    expect(provide(monaco, "SELECT * FROM nowhere.").suggestions).toEqual([]);
+  });
+
+  test("filters by prefix when prefix >= 2 chars", () => {
+    const monaco = createMockMonaco();
+    registerCQLCompletionProvider(monaco, createSchemaCache());
+
+    const labels = provide(monaco, "SELECT * FROM events WHERE device_id = 1 AL").suggestions.map((s) => s.label);
+    expect(labels).toContain("ALLOW FILTERING");
+    expect(labels).toContain("ALTER TABLE");
+    expect(labels).not.toContain("SELECT");
+  });
+
+  test("columns are offered after WHERE, and key columns say so", () => {
+    const monaco = createMockMonaco();
+    registerCQLCompletionProvider(monaco, createSchemaCache());
+
+    const suggestions = provide(monaco, "SELECT * FROM telemetry.events WHERE ").suggestions;
+    const deviceId = suggestions.find((s) => s.label === "device_id");
+    expect(deviceId?.detail).toBe("Column (uuid, key)");
+    expect(suggestions.find((s) => s.label === "payload")?.detail).toBe("Column (text)");
+  });
+
+  test("columns are not offered after FROM", () => {
+    const monaco = createMockMonaco();
+    registerCQLCompletionProvider(monaco, createSchemaCache());
+
+    const labels = provide(monaco, "SELECT * FROM ").suggestions.map((s) => s.label);
+    expect(labels).toContain("telemetry.events");
+    expect(labels).not.toContain("payload");
+  });
+
+  test("functions and snippets insert as snippets", () => {
+    const monaco = createMockMonaco();
+    registerCQLCompletionProvider(monaco, createSchemaCache());
+
+    const suggestions = provide(monaco, "SELECT wr").suggestions;
+    const writetime = suggestions.find((s) => s.label === "writetime");
+    expect(writetime?.insertText).toBe("writetime($1)");
+    expect(writetime?.insertTextRules).toBe(4);
+  });
+});
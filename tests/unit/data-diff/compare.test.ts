@@ -0,0 +1,138 @@
+import { describe, test, expect } from "bun:test";
+import { comparableValue, DataDiffError, diffRows } from "@/lib/data-diff/compare";
+
+const side = (rows: Record<string, unknown>[], fields = Object.keys(rows[0] ?? {})) => ({ rows, fields });
+
+describe("comparableValue", () => {
+  test("spells a decimal the same whichever driver read it", () => {
+    expect(comparableValue("1.50")).toBe(comparableValue(1.5));
+    expect(comparableValue("42")).toBe(comparableValue(BigInt(42)));
+    expect(comparableValue("007")).toBe("7");
+    expect(comparableValue("-0.0")).toBe("0");
+  });
+
+  test("compares a boolean equal to MySQL's tinyint", () => {
+    expect(comparableValue(true)).toBe(comparableValue(1));
+    expect(comparableValue(false)).toBe(comparableValue("0"));
+  });
+
+  test("keeps NULL apart from the text null", () => {
+    expect(comparableValue(null)).toBeNull();
+    expect(comparableValue(undefined)).toBeNull();
+    expect(comparableValue("null")).toBe("null");
+  });
+
+  test("compares dates as instants and structures as JSON", () => {
+    expect(comparableValue(new Date("2026-01-02T03:04:05Z"))).toBe("2026-01-02T03:04:05.000Z");
+    expect(comparableValue({ a: 1 })).toBe(comparableValue({ a: 1 }));
+    expect(comparableValue(new Uint8Array([1, 255]))).toBe("01ff");
+  });
+
+  test("leaves text that only looks numeric in part alone", () => {
+    expect(comparableValue("1.5e3")).toBe("1.5e3");
+    expect(comparableValue(" 1")).toBe(" 1");
+  });
+});
+
+describe("diffRows", () => {
+  test("reports inserted, deleted, changed and unchanged rows by key", () => {
+    const diff = diffRows(
+      side([
+        { id: 1, name: "Ada" },
+        { id: 2, name: "Grace" },
+        { id: 4, name: "Linus" },
+      ]),
+      side([
+        { id: 1, name: "Ada" },
+        { id: 2, name: "Hopper" },
+        { id: 3, name: "Alan" },
+      ]),
+      ["id"],
+    );
+    expect(diff.summary).toEqual({ inserted: 1, deleted: 1, changed: 1, unchanged: 1 });
+    expect(diff.rows.map((row) => [row.action, row.key])).toEqual([
+      ["changed", { id: 2 }],
+      ["inserted", { id: 4 }],
+      ["deleted", { id: 3 }],
+    ]);
+    expect(diff.rows[0].changedColumns).toEqual(["name"]);
+    expect(diff.rows[0].source?.name).toBe("Grace");
+    expect(diff.rows[0].target?.name).toBe("Hopper");
+  });
+
+  test("matches rows by key, not by position", () => {
+    const diff = diffRows(
+      side([
+        { id: 1, v: "a" },
+        { id: 2, v: "b" },
+      ]),
+      side([
+        { id: 2, v: "b" },
+        { id: 1, v: "a" },
+      ]),
+      ["id"],
+    );
+    expect(diff.rows).toEqual([]);
+    expect(diff.summary.unchanged).toBe(2);
+  });
+
+  test("matches a key a different driver spelled differently", () => {
+    const diff = diffRows(side([{ id: "10", total: "1.50" }]), side([{ id: 10, total: 1.5 }]), ["id"]);
+    expect(diff.rows).toEqual([]);
+  });
+
+  test("matches on a composite key", () => {
+    const diff = diffRows(
+      side([
+        { a: 1, b: 1, v: "x" },
+        { a: 1, b: 2, v: "y" },
+      ]),
+      side([
+        { a: 1, b: 1, v: "x" },
+        { a: 1, b: 2, v: "z" },
+      ]),
+      ["a", "b"],
+    );
+    expect(diff.rows).toHaveLength(1);
+    expect(diff.rows[0].key).toEqual({ a: 1, b: 2 });
+  });
+
+  test("compares only the columns both sides have, and reports the rest", () => {
+    const diff = diffRows(side([{ id: 1, name: "Ada", extra: 1 }]), side([{ id: 1, name: "Ada", other: 2 }]), ["id"]);
+    expect(diff.columns).toEqual(["id", "name"]);
+    expect(diff.sourceOnlyColumns).toEqual(["extra"]);
+    expect(diff.targetOnlyColumns).toEqual(["other"]);
+    expect(diff.rows).toEqual([]);
+  });
+
+  test("treats a value changing to NULL as a change", () => {
+    const diff = diffRows(side([{ id: 1, v: null }]), side([{ id: 1, v: "" }]), ["id"]);
+    expect(diff.rows[0].changedColumns).toEqual(["v"]);
+  });
+
+  test("refuses a comparison with no key", () => {
+    expect(() => diffRows(side([{ id: 1 }]), side([{ id: 1 }]), [])).toThrow(DataDiffError);
+  });
+
+  test("refuses a key column one side does not have", () => {
+    expect(() => diffRows(side([{ id: 1 }]), side([{ uid: 1 }]), ["id"])).toThrow(/not in both results/);
+  });
+
+  test("refuses a key two rows of one side share", () => {
+    expect(() =>
+      diffRows(
+        side([
+          { id: 1, v: "a" },
+          { id: 1, v: "b" },
+        ]),
+        side([{ id: 1, v: "a" }]),
+        ["id"],
+      ),
+    ).toThrow(/source has more than one row with id=1/);
+  });
+
+  test("compares empty sides by their fields", () => {
+    const diff = diffRows(side([], ["id"]), side([{ id: 1 }]), ["id"]);
+    expect(diff.summary.deleted).toBe(1);
+  });
+});
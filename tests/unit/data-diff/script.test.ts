@@ -0,0 +1,83 @@
+import { describe, test, expect } from "bun:test";
+import { diffRows } from "@/lib/data-diff/compare";
+import { reconcileScript, supportsReconcileScript } from "@/lib/data-diff/script";
+
+const diff = diffRows(
+  {
+    rows: [
+      { id: 1, name: "Ada", active: true },
+      { id: 2, name: "Grace", active: false },
+    ],
+    fields: ["id", "name", "active"],
+  },
+  {
+    rows: [
+      { id: 1, name: "Ada", active: false },
+      { id: 3, name: "O'Brien", active: true },
+    ],
+    fields: ["id", "name", "active"],
+  },
+  ["id"],
+);
+
+const statements = (script: string) => script.split("\n").filter((line) => line && !line.startsWith("--"));
+
+describe("reconcileScript", () => {
+  test("deletes, then updates only the changed columns, then inserts, in one transaction", () => {
+    expect(statements(reconcileScript(diff, "postgres", '"users"'))).toEqual([
+      "BEGIN;",
+      `DELETE FROM "users" WHERE "id" = 3;`,
+      `UPDATE "users" SET "active" = true WHERE "id" = 1;`,
+      `INSERT INTO "users" ("id", "name", "active") VALUES (2, 'Grace', false);`,
+      "COMMIT;",
+    ]);
+  });
+
+  test("writes the target dialect's quoting and transaction", () => {
+    const mysql = statements(reconcileScript(diff, "mysql", "`users`"));
+    expect(mysql[0]).toBe("START TRANSACTION;");
+    expect(mysql[1]).toBe("DELETE FROM `users` WHERE `id` = 3;");
+
+    const mssql = statements(reconcileScript(diff, "mssql", "[users]"));
+    expect(mssql[0]).toBe("BEGIN TRANSACTION;");
+    expect(mssql[2]).toBe("UPDATE [users] SET [active] = 1 WHERE [id] = 1;");
+    expect(mssql.at(-1)).toBe("COMMIT TRANSACTION;");
+  });
+
+  test("opens no transaction on Oracle, where the first statement does", () => {
+    const oracle = statements(reconcileScript(diff, "oracle", '"USERS"'));
+    expect(oracle[0]).toStartWith("DELETE");
+    expect(oracle.at(-1)).toBe("COMMIT;");
+    expect(oracle).toContain(`INSERT INTO "USERS" ("id", "name", "active") VALUES (2, 'Grace', 0);`);
+  });
+
+  test("matches a NULL key part with IS NULL", () => {
+    const nullKey = diffRows({ rows: [], fields: ["a", "b"] }, { rows: [{ a: 1, b: null }], fields: ["a", "b"] }, [
+      "a",
+      "b",
+    ]);
+    expect(statements(reconcileScript(nullKey, "postgres", "t"))).toContain(
+      `DELETE FROM t WHERE "a" = 1 AND "b" IS NULL;`,
+    );
+  });
+
+  test("escapes the values it writes", () => {
+    const reversed = diffRows(
+      { rows: [{ id: 3, name: "O'Brien" }], fields: ["id", "name"] },
+      { rows: [], fields: ["id", "name"] },
+      ["id"],
+    );
+    expect(reconcileScript(reversed, "postgres", "t")).toContain(`VALUES (3, 'O''Brien');`);
+  });
+
+  test("writes no statements when nothing differs", () => {
+    const same = diffRows({ rows: [{ id: 1 }], fields: ["id"] }, { rows: [{ id: 1 }], fields: ["id"] }, ["id"]);
+    expect(reconcileScript(same, "postgres", "t")).toBe("-- No data differences detected.");
+  });
+
+  test("writes no statements for an engine it does not cover", () => {
+    expect(supportsReconcileScript("clickhouse")).toBe(false);
+    expect(supportsReconcileScript("sqlite")).toBe(true);
+    expect(statements(reconcileScript(diff, "clickhouse", "t"))).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, test, expect } from "bun:test";
+import {
+  CQL_TRACE_DIRECTIVE,
+  isCqlPageState,
+  readCqlDirectives,
+  writeCqlPageDirective,
+} from "@/lib/db/utils/cql-directives";
+
+describe("writeCqlPageDirective", () => {
+  test("writes the size and offset, and the state when there is one", () => {
+    expect(writeCqlPageDirective({ size: 50, offset: 100 })).toBe("/* libredb:page size=50 offset=100 */ ");
+    expect(writeCqlPageDirective({ size: 50, offset: 100, state: "00ab" })).toBe(
+      "/* libredb:page size=50 offset=100 state=00ab */ ",
+    );
+  });
+
+  test("clamps the numbers to what a page can be", () => {
+    expect(writeCqlPageDirective({ size: 0, offset: -4 })).toBe("/* libredb:page size=1 offset=0 */ ");
+    expect(writeCqlPageDirective({ size: 2.7, offset: 1.2 })).toBe("/* libredb:page size=2 offset=1 */ ");
+  });
+
+  // The state arrives in a request body. Written unchecked, `*/` would close the
+  // comment and whatever followed would run as CQL.
+  test("leaves out a state that is not hex, rather than writing it into the text", () => {
+    expect(writeCqlPageDirective({ size: 5, offset: 5, state: "00 */ DROP TABLE events; /*" })).toBe(
+      "/* libredb:page size=5 offset=5 */ ",
+    );
+  });
+});
+
+describe("isCqlPageState", () => {
+  test("accepts hex and nothing else", () => {
+    expect(isCqlPageState("0a0B")).toBe(true);
+    expect(isCqlPageState("")).toBe(false);
+    expect(isCqlPageState("0x0a")).toBe(false);
+    expect(isCqlPageState(42)).toBe(false);
+  });
+});
+
+describe("readCqlDirectives", () => {
+  test("a statement with none comes back untouched", () => {
+    expect(readCqlDirectives("SELECT * FROM events")).toEqual({ statement: "SELECT * FROM events", trace: false });
+  });
+
+  test("reads a page directive back to what was written", () => {
+    const written = `${writeCqlPageDirective({ size: 5, offset: 10, state: "00ff" })}SELECT * FROM events`;
+    expect(readCqlDirectives(written)).toEqual({
+      statement: "SELECT * FROM events",
+      page: { size: 5, offset: 10, state: "00ff" },
+      trace: false,
+    });
+  });
+
+  test("reads both directives, in either order", () => {
+    const page = writeCqlPageDirective({ size: 100, offset: 0 });
+    const expected = { statement: "SELECT 1", page: { size: 100, offset: 0 }, trace: true };
+
+    expect(readCqlDirectives(`${page}${CQL_TRACE_DIRECTIVE}SELECT 1`)).toEqual(expected);
+    expect(readCqlDirectives(`${CQL_TRACE_DIRECTIVE}${page}SELECT 1`)).toEqual(expected);
+  });
+
+  test("a comment that only mentions a directive, or does not open the text, is the user's", () => {
+    expect(readCqlDirectives("/* libredb:trace please */ SELECT 1").trace).toBe(false);
+    expect(readCqlDirectives(` ${CQL_TRACE_DIRECTIVE}SELECT 1`).trace).toBe(false);
+    expect(readCqlDirectives(`SELECT 1 ${CQL_TRACE_DIRECTIVE}`).statement).toBe(`SELECT 1 ${CQL_TRACE_DIRECTIVE}`);
+  });
+});
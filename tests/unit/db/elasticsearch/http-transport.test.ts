@@ -0,0 +1,433 @@
+/**
+ * Elasticsearch / OpenSearch HTTP transport
+ *
+ * globalThis.fetch is replaced per test and restored in afterEach. mock.module()
+ * is deliberately not used: it is process-wide in bun, so mocking a module here
+ * would poison every sibling test file sharing the process.
+ *
+ * The replayed bodies follow the two engines' documented REST shapes, including
+ * the ones a hand-written parser gets wrong: a `long` sent as an unquoted JSON
+ * number past 2^53, a SQL cursor whose continuation pages declare no columns,
+ * OpenSearch's JDBC shape with its `schema`/`datarows` and aliased columns, and a
+ * failed search whose top-level reason says only "all shards failed".
+ */
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { ElasticsearchHttpTransport } from "@/lib/db/providers/search/elasticsearch/http-transport";
+import {
+  ELASTICSEARCH_TRANSPORT_FAILURE,
+  ElasticsearchTransportError,
+} from "@/lib/db/providers/search/elasticsearch/transport";
+import type { DatabaseConnection } from "@/lib/db/types";
+
+// ============================================================================
+// Harness
+// ============================================================================
+
+interface FetchCall {
+  url: string;
+  init: RequestInit | undefined;
+}
+
+const originalFetch = globalThis.fetch;
+let calls: FetchCall[] = [];
+let handler: (url: string, init?: RequestInit) => Response | Promise<Response>;
+
+function respond(body: string, status = 200): Response {
+  return new Response(body, { status, headers: { "content-type": "application/json" } });
+}
+
+const ELASTICSEARCH_ROOT = JSON.stringify({
+  name: "node-1",
+  cluster_name: "logs",
+  version: { number: "8.15.0", build_flavor: "default" },
+  tagline: "You Know, for Search",
+});
+
+const OPENSEARCH_ROOT = JSON.stringify({
+  name: "node-1",
+  cluster_name: "search",
+  version: { distribution: "opensearch", number: "2.17.0" },
+  tagline: "The OpenSearch Project: https://opensearch.org/",
+});
+
+/** A search answer with a `long` past 2^53, left unquoted as the engine sends it. */
+const SEARCH_BODY =
+  '{"took":7,"timed_out":false,"_shards":{"total":2,"successful":2,"skipped":0,"failed":0},' +
+  '"hits":{"total":{"value":1200,"relation":"gte"},"max_score":1.0,"hits":[' +
+  '{"_index":"logs-1","_id":"a1","_score":1.0,"_source":{"trace":9007199254740993,"msg":"ok"}}]}}';
+
+function makeConnection(overrides: Partial<DatabaseConnection> = {}): DatabaseConnection {
+  return {
+    id: "es-1",
+    name: "Search",
+    type: "elasticsearch",
+    host: "127.0.0.1",
+    port: 9200,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+function makeTransport(overrides: Partial<DatabaseConnection> = {}): ElasticsearchHttpTransport {
+  return new ElasticsearchHttpTransport(makeConnection(overrides));
+}
+
+/** Answers the root endpoint with `root` and every other path with `body`. */
+function cluster(root: string, body: (url: string) => string | Response): void {
+  handler = (url) => {
+    if (new URL(url).pathname === "/") return respond(root);
+    const answer = body(url);
+    return typeof answer === "string" ? respond(answer) : answer;
+  };
+}
+
+function lastCall(): FetchCall {
+  const call = calls.at(-1);
+  if (!call) throw new Error("no request was made");
+  return call;
+}
+
+function lastBody(): Record<string, unknown> {
+  return JSON.parse(String(lastCall().init?.body)) as Record<string, unknown>;
+}
+
+function lastHeader(name: string): string | undefined {
+  return (lastCall().init?.headers as Record<string, string> | undefined)?.[name];
+}
+
+async function captureError(run: () => Promise<unknown>): Promise<ElasticsearchTransportError> {
+  try {
+    await run();
+  } catch (caught) {
+    expect(caught).toBeInstanceOf(ElasticsearchTransportError);
+    return caught as ElasticsearchTransportError;
+  }
+  throw new Error("the transport resolved where it should have thrown");
+}
+
+beforeEach(() => {
+  calls = [];
+  cluster(ELASTICSEARCH_ROOT, () => SEARCH_BODY);
+  globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === "string" ? input : input.toString();
+    calls.push({ url, init });
+    return await handler(url, init);
+  }) as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+// ============================================================================
+// Connection
+// ============================================================================
+
+describe("ElasticsearchHttpTransport connection", () => {
+  test("names the engine, its version and the cluster from the root endpoint", async () => {
+    expect(await makeTransport().identify()).toEqual({
+      distribution: "elasticsearch",
+      version: "8.15.0",
+      clusterName: "logs",
+    });
+  });
+
+  test("recognises OpenSearch by the distribution it declares", async () => {
+    cluster(OPENSEARCH_ROOT, () => "{}");
+
+    expect((await makeTransport().identify()).distribution).toBe("opensearch");
+  });
+
+  test("asks the root endpoint once, however many statements need the answer", async () => {
+    const transport = makeTransport();
+    await transport.identify();
+    await transport.identify();
+
+    expect(calls.length).toBe(1);
+  });
+
+  // A cluster that was down for the first call must be asked again, not be
+  // remembered as unreachable for the life of the connection.
+  test("does not remember a failed identification", async () => {
+    const transport = makeTransport();
+    handler = () => respond("", 503);
+    await captureError(() => transport.identify());
+
+    cluster(ELASTICSEARCH_ROOT, () => "{}");
+    expect((await transport.identify()).version).toBe("8.15.0");
+  });
+
+  test("sends basic credentials exactly when a user is configured", async () => {
+    await makeTransport({ user: "elastic", password: "secret" }).identify();
+    expect(lastHeader("authorization")).toBe(`Basic ${Buffer.from("elastic:secret").toString("base64")}`);
+
+    await makeTransport().identify();
+    expect(lastHeader("authorization")).toBeUndefined();
+  });
+
+  test("uses HTTPS when TLS is configured, and brackets an IPv6 host", async () => {
+    await makeTransport({ host: "::1", ssl: { mode: "require" } }).identify();
+
+    expect(lastCall().url).toBe("https://[::1]:9200/");
+  });
+
+  test("treats an explicit disable as plain HTTP", async () => {
+    await makeTransport({ ssl: { mode: "disable" } }).identify();
+
+    expect(lastCall().url).toBe("http://127.0.0.1:9200/");
+  });
+});
+
+// ============================================================================
+// Search
+// ============================================================================
+
+describe("ElasticsearchHttpTransport search", () => {
+  test("posts the body to the target's search endpoint with the server-side budget", async () => {
+    await makeTransport().search("logs-*,metrics", { query: { match_all: {} } }, { timeoutMs: 30_000 });
+
+    expect(lastCall().url).toBe("http://127.0.0.1:9200/logs-*%2Cmetrics/_search?timeout=30000ms");
+    expect(lastCall().init?.method).toBe("POST");
+    expect(lastBody()).toEqual({ query: { match_all: {} } });
+    expect(lastHeader("content-type")).toBe("application/json");
+  });
+
+  test("reads hits, a lower-bound total and the shard report into the neutral result", async () => {
+    const result = await makeTransport().search("logs-1", {});
+
+    expect(result.hits).toEqual([
+      { id: "a1", index: "logs-1", score: 1, source: { trace: "9007199254740993", msg: "ok" } },
+    ]);
+    expect(result.totalHits).toBe(1200);
+    expect(result.totalIsLowerBound).toBe(true);
+    expect(result.timedOut).toBe(false);
+    expect(result.failedShards).toBe(0);
+    expect(result.aggregations).toBeNull();
+    expect(result.executionTimeMs).toBe(7);
+  });
+
+  test("reads a bare numeric total, as a cluster asked for integer totals answers", async () => {
+    cluster(ELASTICSEARCH_ROOT, () => '{"took":1,"hits":{"total":3,"hits":[]}}');
+    const result = await makeTransport().search("logs", {});
+
+    expect(result.totalHits).toBe(3);
+    expect(result.totalIsLowerBound).toBe(false);
+  });
+
+  test("carries aggregations through untouched, and a partial answer as partial", async () => {
+    cluster(
+      ELASTICSEARCH_ROOT,
+      () =>
+        '{"took":2,"timed_out":true,"_shards":{"failed":1},"hits":{"hits":[]},' +
+        '"aggregations":{"levels":{"buckets":[{"key":"error","doc_count":4}]}}}',
+    );
+    const result = await makeTransport().search("logs", { aggs: {} });
+
+    expect(result.aggregations).toEqual({ levels: { buckets: [{ key: "error", doc_count: 4 }] } });
+    expect(result.timedOut).toBe(true);
+    expect(result.failedShards).toBe(1);
+  });
+});
+
+// ============================================================================
+// SQL
+// ============================================================================
+
+describe("ElasticsearchHttpTransport SQL", () => {
+  test("sends a statement to Elasticsearch's endpoint with a page size and a budget", async () => {
+    cluster(
+      ELASTICSEARCH_ROOT,
+      () => '{"columns":[{"name":"level","type":"keyword"}],"rows":[["error"]],"cursor":"c1"}',
+    );
+    const page = await makeTransport().sql(
+      { statement: "SELECT level FROM logs", fetchSize: 50 },
+      { timeoutMs: 5_000 },
+    );
+
+    expect(lastCall().url).toBe("http://127.0.0.1:9200/_sql?format=json");
+    expect(lastBody()).toEqual({ query: "SELECT level FROM logs", fetch_size: 50, request_timeout: "5000ms" });
+    expect(page.columns).toEqual([{ name: "level", type: "keyword" }]);
+    expect(page.rows).toEqual([["error"]]);
+    expect(page.cursor).toBe("c1");
+  });
+
+  // OpenSearch's plugin rejects a field it does not know, and has no per-request
+  // budget to give it.
+  test("sends a statement to OpenSearch's endpoint without a per-request budget", async () => {
+    cluster(
+      OPENSEARCH_ROOT,
+      () => '{"schema":[{"name":"level","alias":"lvl","type":"keyword"}],"datarows":[["warn"]]}',
+    );
+    const page = await makeTransport().sql(
+      { statement: "SELECT level AS lvl FROM logs", fetchSize: 10 },
+      { timeoutMs: 5_000 },
+    );
+
+    expect(lastCall().url).toBe("http://127.0.0.1:9200/_plugins/_sql?format=jdbc");
+    expect(lastBody()).toEqual({ query: "SELECT level AS lvl FROM logs", fetch_size: 10 });
+    expect(page.columns).toEqual([{ name: "lvl", type: "keyword" }]);
+    expect(page.rows).toEqual([["warn"]]);
+    expect(page.cursor).toBeNull();
+  });
+
+  test("continues a cursor, whose page declares no columns", async () => {
+    cluster(ELASTICSEARCH_ROOT, () => '{"rows":[["info"]],"cursor":"c2"}');
+    const page = await makeTransport().sql({ cursor: "c1" });
+
+    expect(lastBody()).toEqual({ cursor: "c1" });
+    expect(page.columns).toBeNull();
+    expect(page.cursor).toBe("c2");
+  });
+
+  test("declares an empty column list for an empty first page rather than none", async () => {
+    cluster(ELASTICSEARCH_ROOT, () => '{"columns":[],"rows":[]}');
+
+    expect((await makeTransport().sql({ statement: "SHOW TABLES LIKE 'x'", fetchSize: 1 })).columns).toEqual([]);
+  });
+
+  test("closes a cursor at the engine's own close endpoint", async () => {
+    cluster(OPENSEARCH_ROOT, () => '{"succeeded":true}');
+    await makeTransport().closeCursor("c9");
+
+    expect(lastCall().url).toBe("http://127.0.0.1:9200/_plugins/_sql/close");
+    expect(lastBody()).toEqual({ cursor: "c9" });
+  });
+});
+
+// ============================================================================
+// Management reads
+// ============================================================================
+
+describe("ElasticsearchHttpTransport manage", () => {
+  test("returns an array answer as it arrived, as the cat APIs send one", async () => {
+    cluster(ELASTICSEARCH_ROOT, () => '[{"index":"logs"}]');
+
+    expect(await makeTransport().manage<unknown>("/_cat/indices?format=json")).toEqual([{ index: "logs" }]);
+    expect(lastCall().init?.method).toBe("GET");
+  });
+
+  test("sends the requested method without a body", async () => {
+    cluster(ELASTICSEARCH_ROOT, () => "{}");
+    await makeTransport().manage("/logs/_forcemerge", { method: "POST" });
+
+    expect(lastCall().init?.method).toBe("POST");
+    expect(lastCall().init?.body).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// Failures
+// ============================================================================
+
+describe("ElasticsearchHttpTransport failures", () => {
+  // "all shards failed" is true and useless; the parse error is one level down.
+  test("reports the first root cause rather than the top-level reason", async () => {
+    cluster(ELASTICSEARCH_ROOT, () =>
+      respond(
+        JSON.stringify({
+          error: {
+            root_cause: [{ type: "parsing_exception", reason: "unknown query [mtch]" }],
+            type: "search_phase_execution_exception",
+            reason: "all shards failed",
+          },
+          status: 400,
+        }),
+        400,
+      ),
+    );
+    const error = await captureError(() => makeTransport().search("logs", {}));
+
+    expect(error.message).toBe("unknown query [mtch]");
+    expect(error.errorType).toBe("parsing_exception");
+    expect(error.status).toBe(400);
+    expect(error.is("INVALID_REQUEST")).toBe(true);
+  });
+
+  test("adds OpenSearch's SQL details to its generic reason", async () => {
+    cluster(OPENSEARCH_ROOT, () =>
+      respond(
+        JSON.stringify({
+          error: {
+            reason: "Invalid SQL query",
+            details: "Failed to parse query due to offending symbol",
+            type: "SyntaxCheckException",
+          },
+          status: 400,
+        }),
+        400,
+      ),
+    );
+    const error = await captureError(() => makeTransport().sql({ statement: "SELEC 1", fetchSize: 1 }));
+
+    expect(error.message).toBe("Invalid SQL query: Failed to parse query due to offending symbol");
+    expect(error.errorType).toBe("SyntaxCheckException");
+  });
+
+  test.each<[number, string]>([
+    [401, "AUTHENTICATION"],
+    [403, "AUTHORIZATION"],
+    [404, "NOT_FOUND"],
+    [408, "TIMEOUT"],
+    [504, "TIMEOUT"],
+    [429, "REJECTED"],
+    [400, "INVALID_REQUEST"],
+    [503, "SERVER"],
+  ])("classifies HTTP %d as %s", async (status, category) => {
+    cluster(ELASTICSEARCH_ROOT, () => respond('{"error":"nope"}', status));
+    const error = await captureError(() => makeTransport().search("logs", {}));
+
+    expect(error.category).toBe(category);
+    expect(error.message).toBe("nope");
+  });
+
+  test("keeps a short plain-text body, as a security plugin sends one", async () => {
+    handler = () => new Response("Unauthorized", { status: 401 });
+    const error = await captureError(() => makeTransport().identify());
+
+    expect(error.message).toBe("Unauthorized");
+    expect(error.is("AUTHENTICATION")).toBe(true);
+  });
+
+  test("names the status when the body says nothing usable", async () => {
+    handler = () => new Response("<html>" + "x".repeat(300) + "</html>", { status: 502 });
+    const error = await captureError(() => makeTransport().identify());
+
+    expect(error.message).toBe("The cluster answered HTTP 502");
+  });
+
+  // A truncated 200 is not an empty result.
+  test("refuses a success body that does not parse", async () => {
+    cluster(ELASTICSEARCH_ROOT, () => '{"took":1,"hits":{"hits":[');
+    const error = await captureError(() => makeTransport().search("logs", {}));
+
+    expect(error.category).toBe(ELASTICSEARCH_TRANSPORT_FAILURE);
+    expect(error.message).toContain("incomplete");
+  });
+
+  test("refuses an array where a search answer was expected", async () => {
+    cluster(ELASTICSEARCH_ROOT, () => "[]");
+    const error = await captureError(() => makeTransport().search("logs", {}));
+
+    expect(error.message).toContain("not the JSON object");
+  });
+
+  test("reports an unreachable cluster as a transport failure", async () => {
+    handler = () => {
+      throw new TypeError("fetch failed");
+    };
+    const error = await captureError(() => makeTransport().identify());
+
+    expect(error.category).toBe(ELASTICSEARCH_TRANSPORT_FAILURE);
+    expect(error.message).toBe("Elasticsearch request failed: fetch failed");
+  });
+
+  test("reports the client's own deadline as a timeout", async () => {
+    handler = () => {
+      throw new DOMException("The operation timed out.", "TimeoutError");
+    };
+    const error = await captureError(() => makeTransport().search("logs", {}, { clientDeadlineMs: 10 }));
+
+    expect(error.is("TIMEOUT")).toBe(true);
+    expect(lastCall().init?.signal).toBeDefined();
+  });
+});
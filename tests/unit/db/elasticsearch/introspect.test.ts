@@ -0,0 +1,419 @@
+/**
+ * Elasticsearch / OpenSearch introspection
+ *
+ * Every read goes through a fake runner that answers by exact path, so each test
+ * also pins the path the read sends. A path the fake does not know answers 404,
+ * which is what a cluster without that API does - and what `read()` degrades on.
+ */
+import { describe, expect, test } from "bun:test";
+import {
+  ELASTICSEARCH_CLUSTER_HEALTH_PATH,
+  ELASTICSEARCH_CLUSTER_STATS_PATH,
+  ELASTICSEARCH_DATA_STREAM_PATH,
+  ELASTICSEARCH_INDEX_CATALOG_PATH,
+  ELASTICSEARCH_MAPPING_PATH,
+  ELASTICSEARCH_NODE_STATS_PATH,
+  ELASTICSEARCH_RUNNING_SEARCH_PATH,
+  ELASTICSEARCH_SHARD_CATALOG_PATH,
+  ELASTICSEARCH_SYSTEM_READ_TIMEOUT_MS,
+  ELASTICSEARCH_TASK_APPLICATION_NAME,
+  type ElasticsearchRestRunner,
+  getActiveSessions,
+  getHealth,
+  getIndexStats,
+  getOverview,
+  getPerformanceMetrics,
+  getSchema,
+  getStorageStats,
+  getTableStats,
+  mappedColumns,
+} from "@/lib/db/providers/search/elasticsearch/introspect";
+import { type ClusterIdentity, ElasticsearchTransportError } from "@/lib/db/providers/search/elasticsearch/transport";
+
+// ============================================================================
+// Harness
+// ============================================================================
+
+const IDENTITY: ClusterIdentity = { distribution: "opensearch", version: "2.17.0", clusterName: "search" };
+
+interface FakeRunner extends ElasticsearchRestRunner {
+  paths: string[];
+  deadlines: Array<number | undefined>;
+}
+
+function makeRunner(answers: Record<string, unknown | Error>): FakeRunner {
+  const paths: string[] = [];
+  const deadlines: Array<number | undefined> = [];
+
+  return {
+    paths,
+    deadlines,
+    identify: () => Promise.resolve(IDENTITY),
+    manage: <T>(path: string, opts?: { clientDeadlineMs?: number }) => {
+      paths.push(path);
+      deadlines.push(opts?.clientDeadlineMs);
+      if (!(path in answers)) {
+        return Promise.reject(new ElasticsearchTransportError("no such API", "NOT_FOUND", null, 404));
+      }
+      const answer = answers[path];
+      return answer instanceof Error ? Promise.reject(answer) : Promise.resolve(answer as T);
+    },
+  };
+}
+
+const CATALOG = [
+  {
+    index: "products",
+    health: "green",
+    status: "open",
+    "docs.count": "120",
+    "pri.store.size": "2048",
+    "store.size": "4096",
+  },
+  {
+    index: ".security-7",
+    health: "green",
+    status: "open",
+    "docs.count": "3",
+    "pri.store.size": "10",
+    "store.size": "20",
+  },
+  {
+    index: ".ds-logs-000001",
+    health: "green",
+    status: "open",
+    "docs.count": "10",
+    "pri.store.size": "100",
+    "store.size": "200",
+  },
+  {
+    index: ".ds-logs-000002",
+    health: "green",
+    status: "open",
+    "docs.count": "5",
+    "pri.store.size": "50",
+    "store.size": "100",
+  },
+  { index: "closed", health: "red", status: "close", "docs.count": null, "pri.store.size": null, "store.size": null },
+];
+
+const STREAMS = {
+  data_streams: [{ name: "logs", indices: [{ index_name: ".ds-logs-000001" }, { index_name: ".ds-logs-000002" }] }],
+};
+
+const MAPPINGS = {
+  products: {
+    mappings: {
+      properties: {
+        name: { type: "text", fields: { keyword: { type: "keyword" } } },
+        price: { type: "scaled_float" },
+        vendor: { properties: { id: { type: "long" }, address: { properties: { city: { type: "keyword" } } } } },
+      },
+    },
+  },
+  ".ds-logs-000001": { mappings: { properties: { old: { type: "keyword" } } } },
+  ".ds-logs-000002": { mappings: { properties: { "@timestamp": { type: "date" }, message: { type: "text" } } } },
+};
+
+const CLUSTER_STATS = {
+  indices: { count: 4, store: { size_in_bytes: 1_048_576 }, query_cache: { hit_count: 90, miss_count: 10 } },
+  nodes: { jvm: { max_uptime_in_millis: 3_600_000 } },
+};
+
+const NODE_STATS = {
+  nodes: {
+    a1: {
+      name: "node-a",
+      host: "10.0.0.1",
+      http: { current_open: 3 },
+      fs: { total: { total_in_bytes: 1000, available_in_bytes: 250 } },
+    },
+    b2: { name: "node-b", ip: "10.0.0.2", http: { current_open: 2 }, fs: { total: {} } },
+  },
+};
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+describe("mappedColumns", () => {
+  test("flattens objects to dotted names and lists a multi-field as its own column", () => {
+    expect(mappedColumns(MAPPINGS.products.mappings.properties).map((column) => [column.name, column.type])).toEqual([
+      ["name", "text"],
+      ["name.keyword", "keyword"],
+      ["price", "scaled_float"],
+      ["vendor.id", "long"],
+      ["vendor.address.city", "keyword"],
+    ]);
+  });
+
+  test("marks every field nullable and none primary", () => {
+    expect(mappedColumns({ id: { type: "keyword" } })).toEqual([
+      { name: "id", type: "keyword", nullable: true, isPrimary: false },
+    ]);
+  });
+});
+
+describe("getSchema", () => {
+  const runner = () =>
+    makeRunner({
+      [ELASTICSEARCH_INDEX_CATALOG_PATH]: CATALOG,
+      [ELASTICSEARCH_DATA_STREAM_PATH]: STREAMS,
+      [ELASTICSEARCH_MAPPING_PATH]: MAPPINGS,
+    });
+
+  test("lists indices and data streams, leaving out system and backing indices", async () => {
+    expect((await getSchema(runner())).map((table) => table.name)).toEqual(["closed", "logs", "products"]);
+  });
+
+  test("counts a data stream over its backing indices, with its write index's mapping", async () => {
+    const logs = (await getSchema(runner())).find((table) => table.name === "logs")!;
+
+    expect(logs.rowCount).toBe(15);
+    expect(logs.size).toBe("150 B");
+    expect(logs.columns.map((column) => column.name)).toEqual(["@timestamp", "message"]);
+  });
+
+  test("sizes an index by its primaries and declares no indexes or relations", async () => {
+    const products = (await getSchema(runner())).find((table) => table.name === "products")!;
+
+    expect(products.rowCount).toBe(120);
+    expect(products.size).toBe("2 KB");
+    expect(products.indexes).toEqual([]);
+    expect(products.foreignKeys).toEqual([]);
+  });
+
+  // Before 7.9, and on OpenSearch before 1.0, there is no data stream API at all.
+  test("reads a cluster without the data stream API as having none", async () => {
+    const tables = await getSchema(
+      makeRunner({ [ELASTICSEARCH_INDEX_CATALOG_PATH]: CATALOG, [ELASTICSEARCH_MAPPING_PATH]: MAPPINGS }),
+    );
+
+    expect(tables.map((table) => table.name)).toEqual(["closed", "products"]);
+  });
+
+  // Before the API, the path routes to the single-index read, which refuses the name.
+  test("reads an invalid index name for the data stream path as a cluster without streams", async () => {
+    const tables = await getSchema(
+      makeRunner({
+        [ELASTICSEARCH_INDEX_CATALOG_PATH]: CATALOG,
+        [ELASTICSEARCH_DATA_STREAM_PATH]: new ElasticsearchTransportError(
+          "invalid index name",
+          "INVALID_REQUEST",
+          null,
+          400,
+        ),
+        [ELASTICSEARCH_MAPPING_PATH]: MAPPINGS,
+      }),
+    );
+
+    expect(tables.map((table) => table.name)).toEqual(["closed", "products"]);
+  });
+
+  test("bounds every read with the system deadline", async () => {
+    const fake = runner();
+    await getSchema(fake);
+
+    expect(fake.deadlines.every((deadline) => deadline === ELASTICSEARCH_SYSTEM_READ_TIMEOUT_MS)).toBe(true);
+  });
+
+  test("surfaces a failure that is not a missing surface", async () => {
+    const fake = makeRunner({
+      [ELASTICSEARCH_INDEX_CATALOG_PATH]: new ElasticsearchTransportError("boom", "SERVER", null, 500),
+    });
+
+    await expect(getSchema(fake)).rejects.toThrow("boom");
+  });
+});
+
+// ============================================================================
+// Monitoring
+// ============================================================================
+
+describe("getOverview", () => {
+  test("reports the engine, uptime, connections, size and the cluster's own health", async () => {
+    const overview = await getOverview(
+      makeRunner({
+        [ELASTICSEARCH_CLUSTER_HEALTH_PATH]: { status: "yellow", active_shards: 7, unassigned_shards: 3 },
+        [ELASTICSEARCH_CLUSTER_STATS_PATH]: CLUSTER_STATS,
+        [ELASTICSEARCH_NODE_STATS_PATH]: NODE_STATS,
+      }),
+    );
+
+    expect(overview).toMatchObject({
+      version: "OpenSearch 2.17.0",
+      uptime: "1.00h",
+      activeConnections: 5,
+      maxConnections: 0,
+      databaseSize: "1 MB",
+      databaseSizeBytes: 1_048_576,
+      tableCount: 4,
+      indexCount: 7,
+      health: { level: "warning", summary: "yellow, 3 unassigned shards" },
+    });
+  });
+
+  test.each<[string, string]>([
+    ["green", "healthy"],
+    ["red", "critical"],
+  ])("grades a %s cluster as %s", async (status, level) => {
+    const overview = await getOverview(makeRunner({ [ELASTICSEARCH_CLUSTER_HEALTH_PATH]: { status } }));
+
+    expect(overview.health).toEqual({ level: level as "healthy" | "critical", summary: status });
+  });
+
+  // A role without the `monitor` privilege costs the figures, not the tab.
+  test("degrades to unknowns without monitoring privileges", async () => {
+    const denied = new ElasticsearchTransportError("no privilege", "AUTHORIZATION", null, 403);
+    const overview = await getOverview(
+      makeRunner({
+        [ELASTICSEARCH_CLUSTER_HEALTH_PATH]: denied,
+        [ELASTICSEARCH_CLUSTER_STATS_PATH]: denied,
+        [ELASTICSEARCH_NODE_STATS_PATH]: denied,
+      }),
+    );
+
+    expect(overview.uptime).toBe("unknown");
+    expect(overview.activeConnections).toBe(0);
+    expect(overview.health).toBeUndefined();
+  });
+});
+
+describe("getPerformanceMetrics", () => {
+  test("reports the query cache's hit ratio", async () => {
+    expect(await getPerformanceMetrics(makeRunner({ [ELASTICSEARCH_CLUSTER_STATS_PATH]: CLUSTER_STATS }))).toEqual({
+      cacheHitRatio: 90,
+    });
+  });
+
+  test("reports no ratio, rather than zero, before the cache has served a lookup", async () => {
+    expect(
+      await getPerformanceMetrics(
+        makeRunner({
+          [ELASTICSEARCH_CLUSTER_STATS_PATH]: { indices: { query_cache: { hit_count: 0, miss_count: 0 } } },
+        }),
+      ),
+    ).toEqual({});
+  });
+});
+
+describe("getActiveSessions", () => {
+  const TASKS = {
+    tasks: [
+      {
+        node: "a1",
+        id: 42,
+        action: "indices:data/read/search",
+        description: "indices[logs-*], search_type[QUERY_THEN_FETCH]",
+        start_time_in_millis: 1_700_000_000_000,
+        running_time_in_nanos: 2_500_000_000,
+        cancellable: true,
+        headers: { "X-Opaque-Id": "dashboards" },
+      },
+      { node: "a1", id: 43, action: "indices:data/read/search[phase/query]", parent_task_id: "a1:42" },
+      { node: "b2", id: 7, action: "cluster:admin/opensearch/sql", cancelled: true, running_time_in_nanos: 0 },
+    ],
+  };
+
+  test("lists top-level search and SQL tasks by the id cancel takes", async () => {
+    const fake = makeRunner({ [ELASTICSEARCH_RUNNING_SEARCH_PATH]: TASKS });
+    const sessions = await getActiveSessions(fake);
+
+    expect(fake.paths).toEqual([ELASTICSEARCH_RUNNING_SEARCH_PATH]);
+    expect(sessions.map((session) => session.pid)).toEqual(["a1:42", "b2:7"]);
+    expect(sessions[0]).toMatchObject({
+      user: "dashboards",
+      applicationName: ELASTICSEARCH_TASK_APPLICATION_NAME,
+      state: "running",
+      query: "indices[logs-*], search_type[QUERY_THEN_FETCH]",
+      durationMs: 2500,
+      queryStart: new Date(1_700_000_000_000),
+    });
+    expect(sessions[1]).toMatchObject({ user: "unknown", state: "cancelling", query: "cluster:admin/opensearch/sql" });
+  });
+
+  test("caps the list", async () => {
+    const sessions = await getActiveSessions(makeRunner({ [ELASTICSEARCH_RUNNING_SEARCH_PATH]: TASKS }), { limit: 1 });
+
+    expect(sessions.length).toBe(1);
+  });
+
+  test("reads the grouped form, keyed by task id, as well", async () => {
+    const grouped = { tasks: { "a1:42": TASKS.tasks[0] } };
+
+    expect((await getActiveSessions(makeRunner({ [ELASTICSEARCH_RUNNING_SEARCH_PATH]: grouped })))[0].pid).toBe(
+      "a1:42",
+    );
+  });
+});
+
+describe("getTableStats and getIndexStats", () => {
+  test("reports each table's primary and total size under the cluster's name", async () => {
+    const stats = await getTableStats(
+      makeRunner({ [ELASTICSEARCH_INDEX_CATALOG_PATH]: CATALOG, [ELASTICSEARCH_DATA_STREAM_PATH]: STREAMS }),
+    );
+
+    expect(stats.find((row) => row.tableName === "products")).toEqual({
+      schemaName: "search",
+      tableName: "products",
+      rowCount: 120,
+      tableSize: "2 KB",
+      tableSizeBytes: 2048,
+      totalSize: "4 KB",
+      totalSizeBytes: 4096,
+    });
+  });
+
+  test("matches nothing for a schema other than the cluster", async () => {
+    const fake = makeRunner({ [ELASTICSEARCH_INDEX_CATALOG_PATH]: CATALOG });
+
+    expect(await getTableStats(fake, { schema: "public" })).toEqual([]);
+    expect(await getIndexStats(fake, { schema: "public" })).toEqual([]);
+  });
+
+  test("lists each shard copy of the user's indices", async () => {
+    const stats = await getIndexStats(
+      makeRunner({
+        [ELASTICSEARCH_SHARD_CATALOG_PATH]: [
+          { index: "products", shard: "0", prirep: "p", state: "STARTED", store: "2048", "search.query_total": "31" },
+          { index: "products", shard: "0", prirep: "r", state: "UNASSIGNED", store: null, "search.query_total": null },
+          { index: ".security-7", shard: "0", prirep: "p", state: "STARTED", store: "10" },
+        ],
+      }),
+    );
+
+    expect(stats.map((row) => [row.indexName, row.indexType, row.isPrimary, row.scans])).toEqual([
+      ["shard 0 (primary)", "STARTED", true, 31],
+      ["shard 0 (replica)", "UNASSIGNED", false, 0],
+    ]);
+  });
+});
+
+describe("getStorageStats", () => {
+  test("reports each node's used disk and how full it is", async () => {
+    expect(await getStorageStats(makeRunner({ [ELASTICSEARCH_NODE_STATS_PATH]: NODE_STATS }))).toEqual([
+      { name: "node-a", location: "10.0.0.1", size: "750 B", sizeBytes: 750, usagePercent: 75 },
+      { name: "node-b", location: "10.0.0.2", size: "0 B", sizeBytes: 0, usagePercent: 0 },
+    ]);
+  });
+});
+
+describe("getHealth", () => {
+  test("composes connections, size, the cache ratio and the running tasks", async () => {
+    const health = await getHealth(
+      makeRunner({
+        [ELASTICSEARCH_CLUSTER_STATS_PATH]: CLUSTER_STATS,
+        [ELASTICSEARCH_NODE_STATS_PATH]: NODE_STATS,
+        [ELASTICSEARCH_RUNNING_SEARCH_PATH]: { tasks: [] },
+      }),
+    );
+
+    expect(health).toEqual({
+      activeConnections: 5,
+      databaseSize: "1 MB",
+      cacheHitRatio: "90.0",
+      slowQueries: [],
+      activeSessions: [],
+    });
+  });
+});
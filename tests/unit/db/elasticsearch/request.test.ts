@@ -0,0 +1,145 @@
+import { describe, expect, test } from "bun:test";
+import { QueryError } from "@/lib/db/errors";
+import {
+  MAX_RESULT_WINDOW,
+  applyPage,
+  decodeCursorState,
+  encodeCursorState,
+  isSearchRequest,
+  pagesItself,
+  parseSearchRequest,
+  readPageDirective,
+  toSqlStatement,
+  writePageDirective,
+} from "@/lib/db/providers/search/elasticsearch/request";
+
+describe("isSearchRequest", () => {
+  test("reads a JSON object as Query DSL and anything else as SQL", () => {
+    expect(isSearchRequest('  \n{ "index": "logs" }')).toBe(true);
+    expect(isSearchRequest("SELECT * FROM logs")).toBe(false);
+    expect(isSearchRequest("-- { not json\nSELECT 1")).toBe(false);
+  });
+});
+
+describe("page directives", () => {
+  test("round-trip a page, with and without a state", () => {
+    const plain = writePageDirective({ size: 50, offset: 100 });
+    expect(plain).toBe("/* libredb:page size=50 offset=100 */ ");
+    expect(readPageDirective(`${plain}SELECT 1`)).toEqual({ statement: "SELECT 1", page: { size: 50, offset: 100 } });
+
+    const resumed = writePageDirective({ size: 50, offset: 50, state: "abc_-1" });
+    expect(readPageDirective(`${resumed}SELECT 1`).page).toEqual({ size: 50, offset: 50, state: "abc_-1" });
+  });
+
+  // The state arrived in a request body; one that could close the comment early
+  // must never be written into the text.
+  test("drops a state that is not base64url rather than write it", () => {
+    expect(writePageDirective({ size: 10, offset: 0, state: "x */ DELETE" })).toBe(
+      "/* libredb:page size=10 offset=0 */ ",
+    );
+  });
+
+  test("clamps a size below one and a negative offset", () => {
+    expect(writePageDirective({ size: 0, offset: -5 })).toBe("/* libredb:page size=1 offset=0 */ ");
+  });
+
+  test("leaves a text without a leading directive untouched", () => {
+    const text = "SELECT 1 /* libredb:page size=1 offset=0 */ ";
+    expect(readPageDirective(text)).toEqual({ statement: text });
+  });
+});
+
+describe("cursor state", () => {
+  test("round-trips the cursor with the columns its first page declared", () => {
+    const state = { cursor: "c1", columns: [{ name: "level", type: "keyword" }] };
+    const encoded = encodeCursorState(state);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursorState(encoded)).toEqual(state);
+  });
+
+  test.each([
+    ["not base64 JSON", "%%%"],
+    ["an empty cursor", Buffer.from(JSON.stringify({ cursor: "", columns: [] })).toString("base64url")],
+    ["malformed columns", Buffer.from(JSON.stringify({ cursor: "c", columns: [{ name: 1 }] })).toString("base64url")],
+    ["a bare array", Buffer.from("[]").toString("base64url")],
+  ])("rejects %s", (_label, encoded) => {
+    expect(decodeCursorState(encoded)).toBeNull();
+  });
+});
+
+describe("toSqlStatement", () => {
+  test("strips the trailing semicolons both endpoints refuse", () => {
+    expect(toSqlStatement("  SELECT 1;; \n")).toBe("SELECT 1");
+  });
+});
+
+describe("parseSearchRequest", () => {
+  test("takes the target from the index key and leaves the rest as the body", () => {
+    expect(parseSearchRequest('{ "index": "logs-*", "query": { "match_all": {} } }')).toEqual({
+      target: "logs-*",
+      body: { query: { match_all: {} } },
+    });
+  });
+
+  test("joins several targets with commas", () => {
+    expect(parseSearchRequest('{ "index": ["logs", " metrics "] }').target).toBe("logs,metrics");
+  });
+
+  // A rounded 64-bit id would match the wrong document.
+  test("keeps a 64-bit integer as its digits", () => {
+    const { body } = parseSearchRequest('{ "index": "t", "query": { "term": { "id": 9007199254740993 } } }');
+
+    expect(body).toEqual({ query: { term: { id: "9007199254740993" } } });
+  });
+
+  test.each([
+    ["invalid JSON", '{ "index": "logs", }', "not valid JSON"],
+    ["an array", '[{ "index": "logs" }]', "not a JSON object"],
+    ["no index", '{ "query": {} }', 'has no "index"'],
+    ["an empty index", '{ "index": " " }', 'has no "index"'],
+    ["an empty index list", '{ "index": [] }', 'has no "index"'],
+  ])("refuses %s with an example of the expected shape", (_label, text, reason) => {
+    try {
+      parseSearchRequest(text);
+      throw new Error("parsed where it should have thrown");
+    } catch (error) {
+      expect(error).toBeInstanceOf(QueryError);
+      expect((error as QueryError).message).toContain(reason);
+      expect((error as QueryError).message).toContain('"match_all"');
+    }
+  });
+});
+
+describe("applyPage", () => {
+  const page = { size: 50, offset: 100 };
+
+  test("pages a plain search with from and size", () => {
+    expect(applyPage({ query: {} }, page)).toEqual({ query: {}, from: 100, size: 50 });
+  });
+
+  test("stops the page at the result window", () => {
+    expect(applyPage({}, { size: 500, offset: MAX_RESULT_WINDOW - 100 })).toEqual({
+      from: MAX_RESULT_WINDOW - 100,
+      size: 100,
+    });
+    expect(applyPage({}, { size: 500, offset: MAX_RESULT_WINDOW + 1 })).toEqual({ from: MAX_RESULT_WINDOW, size: 0 });
+  });
+
+  test.each([
+    ["a size", { size: 5 }],
+    ["a from", { from: 5 }],
+    ["search_after", { search_after: [1], sort: ["@timestamp"] }],
+  ])("leaves a body that sets %s as written", (_label, body) => {
+    expect(pagesItself(body)).toBe(true);
+    expect(applyPage(body, page)).toBe(body);
+  });
+
+  test("asks an aggregation for no hits unless it set a size", () => {
+    const aggs = { aggs: { levels: { terms: { field: "level" } } } };
+
+    expect(pagesItself(aggs)).toBe(true);
+    expect(applyPage(aggs, page)).toEqual({ ...aggs, size: 0 });
+    expect(applyPage({ ...aggs, size: 3 }, page)).toEqual({ ...aggs, size: 3 });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, expect, test } from "bun:test";
+import { flattenDocument, searchTable, sqlTable } from "@/lib/db/providers/search/elasticsearch/results";
+import type { SearchResult } from "@/lib/db/providers/search/elasticsearch/transport";
+
+function makeResult(overrides: Partial<SearchResult> = {}): SearchResult {
+  return {
+    hits: [],
+    totalHits: 0,
+    totalIsLowerBound: false,
+    aggregations: null,
+    timedOut: false,
+    failedShards: 0,
+    executionTimeMs: 1,
+    ...overrides,
+  };
+}
+
+describe("flattenDocument", () => {
+  test("spells nested objects as dotted names and keeps arrays and empty objects whole", () => {
+    expect(
+      flattenDocument({ http: { response: { status: 200 } }, tags: ["a", { b: 1 }], meta: {}, "@timestamp": "t" }),
+    ).toEqual({
+      "http.response.status": 200,
+      tags: ["a", { b: 1 }],
+      meta: {},
+      "@timestamp": "t",
+    });
+  });
+});
+
+describe("searchTable: documents", () => {
+  test("puts where each hit lives first, then its fields in first-seen order", () => {
+    const table = searchTable(
+      makeResult({
+        hits: [
+          { id: "1", index: "logs", score: 1.5, source: { level: "error", http: { status: 500 } } },
+          { id: "2", index: "logs", score: null, source: { level: "info", user: "ann" } },
+        ],
+      }),
+    );
+
+    expect(table.fields).toEqual(["_index", "_id", "_score", "level", "http.status", "user"]);
+    expect(table.rows[1]).toEqual({ _index: "logs", _id: "2", _score: null, level: "info", user: "ann" });
+    expect(table.warnings).toBeUndefined();
+  });
+
+  test("warns that a timed-out or partly failed search is partial", () => {
+    const table = searchTable(makeResult({ timedOut: true, failedShards: 2 }));
+
+    expect(table.warnings?.map((warning) => warning.message)).toEqual([
+      "The search ran out of time before every shard finished, so the results are partial.",
+      "2 shards failed to answer, so the results are partial.",
+    ]);
+  });
+});
+
+describe("searchTable: aggregations", () => {
+  test("gives one row per innermost bucket, with keys, counts and metrics beside them", () => {
+    const table = searchTable(
+      makeResult({
+        aggregations: {
+          hosts: {
+            buckets: [
+              {
+                key: "web-1",
+                doc_count: 10,
+                levels: {
+                  buckets: [
+                    { key: "error", doc_count: 3, latency: { value: 12.5 } },
+                    { key: "info", doc_count: 7, latency: { value: 4 } },
+                  ],
+                },
+              },
+            ],
+          },
+        },
+      }),
+    );
+
+    expect(table.rows).toEqual([
+      { hosts: "web-1", "hosts.doc_count": 10, levels: "error", "levels.doc_count": 3, latency: 12.5 },
+      { hosts: "web-1", "hosts.doc_count": 10, levels: "info", "levels.doc_count": 7, latency: 4 },
+    ]);
+  });
+
+  test("prefers a bucket's formatted key, as a date histogram gives one", () => {
+    const table = searchTable(
+      makeResult({
+        aggregations: { per_day: { buckets: [{ key: 1_700_000_000_000, key_as_string: "2023-11-14", doc_count: 1 }] } },
+      }),
+    );
+
+    expect(table.rows[0].per_day).toBe("2023-11-14");
+  });
+
+  test("reads a keyed bucket object by its keys", () => {
+    const table = searchTable(
+      makeResult({ aggregations: { ranges: { buckets: { slow: { doc_count: 2 }, fast: { doc_count: 8 } } } } }),
+    );
+
+    expect(table.rows).toEqual([
+      { ranges: "slow", "ranges.doc_count": 2 },
+      { ranges: "fast", "ranges.doc_count": 8 },
+    ]);
+  });
+
+  test("gives a multi-value metric a column per value, without the formatted copies", () => {
+    const table = searchTable(
+      makeResult({
+        aggregations: {
+          bytes: { count: 2, min: 1, max: 9, avg: 5, sum: 10, min_as_string: "1b" },
+          p: { values: { "50.0": 4, "99.0": 9 } },
+        },
+      }),
+    );
+
+    expect(table.rows).toEqual([
+      { "bytes.count": 2, "bytes.min": 1, "bytes.max": 9, "bytes.avg": 5, "bytes.sum": 10, "p.50.0": 4, "p.99.0": 9 },
+    ]);
+  });
+
+  test("counts through a single-bucket aggregation into what it nests", () => {
+    const table = searchTable(
+      makeResult({ aggregations: { errors: { doc_count: 5, top: { buckets: [{ key: "db", doc_count: 5 }] } } } }),
+    );
+
+    expect(table.rows).toEqual([{ "errors.doc_count": 5, top: "db", "top.doc_count": 5 }]);
+  });
+
+  // Two breakdowns of the same documents; a cross product would pair buckets
+  // that never shared a document.
+  test("lists sibling bucket aggregations one after the other, with a metric on every row", () => {
+    const table = searchTable(
+      makeResult({
+        aggregations: {
+          levels: { buckets: [{ key: "error", doc_count: 1 }] },
+          hosts: { buckets: [{ key: "web-1", doc_count: 1 }] },
+          total: { value: 2 },
+        },
+      }),
+    );
+
+    expect(table.rows).toEqual([
+      { total: 2, levels: "error", "levels.doc_count": 1 },
+      { total: 2, hosts: "web-1", "hosts.doc_count": 1 },
+    ]);
+  });
+
+  test("says so when hits came back beside the aggregations", () => {
+    const table = searchTable(
+      makeResult({
+        aggregations: { total: { value: 1 } },
+        hits: [{ id: "1", index: "logs", score: 1, source: {} }],
+      }),
+    );
+
+    expect(table.rows).toEqual([{ total: 1 }]);
+    expect(table.warnings?.[0].message).toContain("also returned 1 documents");
+  });
+});
+
+describe("sqlTable", () => {
+  test("zips positional rows with the declared columns and keeps their types", () => {
+    expect(
+      sqlTable(
+        [
+          { name: "level", type: "keyword" },
+          { name: "n", type: "long" },
+        ],
+        [["error", 3], ["info"]],
+      ),
+    ).toEqual({
+      rows: [
+        { level: "error", n: 3 },
+        { level: "info", n: null },
+      ],
+      fields: ["level", "n"],
+      columnTypes: { level: "keyword", n: "long" },
+    });
+  });
+
+  test("keeps a repeated column instead of overwriting the first", () => {
+    const table = sqlTable(
+      [
+        { name: "a", type: "" },
+        { name: "a", type: "" },
+      ],
+      [[1, 2]],
+    );
+
+    expect(table.fields).toEqual(["a", "a (2)"]);
+    expect(table.rows).toEqual([{ a: 1, "a (2)": 2 }]);
+    expect(table.columnTypes).toBeUndefined();
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Elasticsearch transport seam guard
+ *
+ * The Elasticsearch provider is worth building without a client library only
+ * while swapping the transport stays cheap, and it stays cheap only while the
+ * search and SQL wire formats live in exactly one file. This test parses every
+ * source in the provider directory and fails the build the moment that
+ * vocabulary is used outside http-transport.ts. It reads the directory from disk
+ * rather than from a list, so it keeps holding as the provider grows.
+ *
+ * The guard is a parser, not a grep, and it matches in two ways because the
+ * vocabulary needs two. The request flags, the response's row field, the error
+ * envelope's cause and the endpoint paths exist nowhere else and are matched as
+ * text. The hit and shard fields are short words that other names contain -
+ * `unassigned_shards` is a cluster-health figure the introspection legitimately
+ * reads through `manage()` - so they are matched only when a name is exactly
+ * them. The same goes for the auth header: `AUTHORIZATION` is one of the seam's
+ * own error categories, and only the lower-case header spelling is the wire.
+ *
+ * Both directions are proven below: the detector must light up on the file that
+ * is SUPPOSED to speak HTTP, and stay silent on a compliant one.
+ */
+import { describe, expect, test } from "bun:test";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import ts from "typescript";
+
+const ROOT = join(import.meta.dir, "..", "..", "..", "..");
+const PROVIDER_DIR = join(ROOT, "src", "lib", "db", "providers", "search", "elasticsearch");
+
+/** The single file allowed to know the wire format. */
+const TRANSPORT_FILE = "http-transport.ts";
+
+/**
+ * Vocabulary that exists nowhere else in this provider: the SQL request's page
+ * size and timeout, OpenSearch's row field, the error envelope's cause, and the
+ * three endpoint paths. Matched as text, case-insensitively, in a string, a
+ * property, a template or a variable.
+ */
+const WIRE_TOKENS = ["fetch_size", "request_timeout", "datarows", "root_cause", "/_sql", "/_plugins/_sql", "/_search"];
+
+/**
+ * Names matched EXACTLY, and case-sensitively. `fetch` because `fetchTableStats`
+ * is an ordinary helper name while a bare `fetch` is the one thing provider logic
+ * must never call; the rest because a longer name that contains them is not the
+ * wire (see the header).
+ */
+const EXACT_TOKENS = ["fetch", "authorization", "_source", "_shards", "timed_out"];
+
+/** Everything the transport must speak, and nothing else may. */
+const WIRE_VOCABULARY = [...WIRE_TOKENS, ...EXACT_TOKENS];
+
+/**
+ * Why the rule exists, printed on failure. Whoever trips this needs to see the
+ * boundary they are crossing, otherwise the cheapest fix looks like deleting the
+ * test.
+ */
+const SEAM_RULE = [
+  `The Elasticsearch wire format leaked out of ${TRANSPORT_FILE}.`,
+  "",
+  "A search answers hits wrapped in _source beside a _shards report and a timed_out flag; the SQL",
+  "endpoints take fetch_size and request_timeout and answer rows (Elasticsearch) or datarows",
+  "(OpenSearch) at different paths; and a failure arrives in an envelope whose best message is in",
+  "root_cause. All of that stays inside the transport: provider logic reads the neutral SearchResult,",
+  "SqlPage and classified ElasticsearchTransportError through the ElasticsearchTransport seam. That is",
+  "what makes adopting an official client later one new file implementing the same interface, instead",
+  "of a rewrite of the provider, the result tables and the introspection.",
+  "",
+  `Fix an access below by mapping the field inside ${TRANSPORT_FILE} and widening the neutral types when`,
+  "the value is genuinely needed. Provider logic must never call fetch: every request goes through the",
+  "seam. Do not weaken or delete this test - it is the only thing keeping the seam real.",
+  "",
+  "Wire vocabulary outside the transport:",
+].join("\n");
+
+interface WireLeak {
+  file: string;
+  line: number;
+  token: string;
+  snippet: string;
+}
+
+/**
+ * The text this node spells: a string literal, a template chunk, or an
+ * identifier. Comments are trivia rather than nodes, so prose naming the wire is
+ * deliberately free.
+ */
+function spelling(node: ts.Node): string | null {
+  if (ts.isStringLiteral(node) || ts.isTemplateLiteralToken(node) || ts.isIdentifier(node)) return node.text;
+  return null;
+}
+
+/**
+ * `/_plugins/_sql` contains `/_sql`, so a plain substring match reports one leak
+ * as two. Only the longest match on a given spelling survives.
+ */
+function mostSpecific(matches: string[]): string[] {
+  return matches.filter((token) => !matches.some((other) => other !== token && other.includes(token)));
+}
+
+function leakedTokens(node: ts.Node): string[] {
+  const text = spelling(node);
+  if (text === null) return [];
+
+  const lowered = text.toLowerCase();
+  return mostSpecific([
+    ...WIRE_TOKENS.filter((token) => lowered.includes(token)),
+    ...EXACT_TOKENS.filter((token) => text === token),
+  ]);
+}
+
+function findWireLeaks(file: string, source: string): WireLeak[] {
+  const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const lines = source.split("\n");
+  // One leak per line and token: an element access reports the same token as the
+  // string literal it contains, and reporting it twice reads like two problems.
+  const found = new Map<string, WireLeak>();
+
+  const visit = (node: ts.Node): void => {
+    for (const token of leakedTokens(node)) {
+      const line = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line;
+      found.set(`${line}:${token}`, { file, line: line + 1, token, snippet: lines[line].trim() });
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return [...found.values()].sort((a, b) => a.line - b.line);
+}
+
+/** Empty when the seam holds; the rule plus every offending line when it does not. */
+function violationReport(leaks: WireLeak[]): string {
+  if (leaks.length === 0) return "";
+
+  const offences = leaks.map((leak) => `  ${leak.file}:${leak.line} uses "${leak.token}" -> ${leak.snippet}`);
+  return [SEAM_RULE, ...offences].join("\n");
+}
+
+function providerSources(): string[] {
+  return readdirSync(PROVIDER_DIR, { recursive: true })
+    .map(String)
+    .filter((name) => name.endsWith(".ts"))
+    .sort();
+}
+
+function readProviderSource(file: string): string {
+  return readFileSync(join(PROVIDER_DIR, file), "utf8");
+}
+
+describe("Elasticsearch transport seam", () => {
+  const sources = providerSources();
+
+  test("the guard scans the whole provider directory", () => {
+    expect(sources).toContain(TRANSPORT_FILE);
+    expect(sources.length).toBeGreaterThan(1);
+  });
+
+  // A detector that finds nothing anywhere is indistinguishable from a broken one,
+  // so the file that is SUPPOSED to speak HTTP must light up on every token.
+  test.each(WIRE_VOCABULARY)("the transport itself uses %s, proving the detector reads real code", (token) => {
+    const tokens = findWireLeaks(TRANSPORT_FILE, readProviderSource(TRANSPORT_FILE)).map((leak) => leak.token);
+
+    expect(tokens).toContain(token);
+  });
+
+  test(`the wire format is used only in ${TRANSPORT_FILE}`, () => {
+    const leaks = sources
+      .filter((file) => file !== TRANSPORT_FILE)
+      .flatMap((file) => findWireLeaks(file, readProviderSource(file)));
+
+    expect(violationReport(leaks)).toBe("");
+  });
+});
+
+describe("the seam guard detector", () => {
+  /**
+   * Everything a compliant provider file legitimately does: name the wire in
+   * prose, read the neutral results and the classified error, branch on the
+   * AUTHORIZATION category, read cluster-health figures whose names end in
+   * `_shards`, list running search tasks, and call helpers whose names merely
+   * contain "fetch". None of it is a leak, and none of it may fire.
+   */
+  const COMPLIANT_SAMPLE = `
+/**
+ * Prose may name the wire: fetch_size and request_timeout go to /_sql, hits
+ * arrive under _source, and a failure's root_cause names what went wrong.
+ */
+import { ElasticsearchTransportError } from "./transport";
+import type { ElasticsearchTransport } from "./transport";
+
+const TASKS = "/_tasks?actions=*search*,*sql*&detailed=true";
+
+export async function read(transport: ElasticsearchTransport) {
+  try {
+    const result = await transport.search("logs-*", { query: { match_all: {} } }, { timeoutMs: 30000 });
+    const { hits, totalHits, timedOut, failedShards, aggregations } = result;
+    const page = await transport.sql({ statement: "SELECT 1", fetchSize: 10 });
+    const health = await transport.manage("/_cluster/health");
+    const unassigned = pick(health, "unassigned_shards");
+    const stats = await fetchTableStats(transport);
+    return { hits, totalHits, timedOut, failedShards, aggregations, page, unassigned, stats, TASKS };
+  } catch (error) {
+    if (error instanceof ElasticsearchTransportError && error.is("AUTHORIZATION")) return null;
+    return null;
+  }
+}
+`;
+
+  const VIOLATING_SAMPLE = `
+export async function search(origin: string, index: string) {
+  const response = await fetch(\`\${origin}/\${index}/_search\`, { method: "POST" });
+  const body = await response.json();
+  if (body.timed_out) return [];
+  return body.hits.hits.map((hit) => hit._source);
+}
+`;
+
+  test("passes a file that stays behind the seam", () => {
+    expect(findWireLeaks("introspect.ts", COMPLIANT_SAMPLE)).toEqual([]);
+  });
+
+  test("fails a file that speaks the wire, once per line and token", () => {
+    const leaks = findWireLeaks("index.ts", VIOLATING_SAMPLE);
+
+    expect(leaks.map((leak) => leak.token)).toEqual(["fetch", "/_search", "timed_out", "_source"]);
+    expect(leaks[1].line).toBe(3);
+    expect(leaks[3].snippet).toBe("return body.hits.hits.map((hit) => hit._source);");
+  });
+
+  test.each<[string, string, string]>([
+    ["a SQL page size", "const body = { query: sql, fetch_size: 100 };", "fetch_size"],
+    ["a SQL timeout", 'const body = { request_timeout: "30s" };', "request_timeout"],
+    ["OpenSearch's row field", "const rows = payload.datarows;", "datarows"],
+    ["the error envelope's cause", 'const cause = error["root_cause"];', "root_cause"],
+    ["Elasticsearch's SQL path", 'const url = origin + "/_sql?format=json";', "/_sql"],
+    ["OpenSearch's SQL path", 'const url = origin + "/_plugins/_sql";', "/_plugins/_sql"],
+    ["the search path built into a template", "const url = `${origin}/${index}/_search`;", "/_search"],
+    ["a hit's document", "const doc = hit._source;", "_source"],
+    ["the shard report", 'const failed = body["_shards"].failed;', "_shards"],
+    ["the timeout flag", "const partial = body.timed_out;", "timed_out"],
+    ["an auth header", "const headers = { authorization: basic };", "authorization"],
+    ["a direct fetch", 'await fetch(url, { method: "POST" });', "fetch"],
+    ["a fetch off globalThis", "await globalThis.fetch(url);", "fetch"],
+  ])("flags %s", (_label, source, token) => {
+    const [leak, ...rest] = findWireLeaks("index.ts", source);
+
+    expect(rest).toEqual([]);
+    expect(leak.token).toBe(token);
+    expect(leak.line).toBe(1);
+  });
+
+  test.each([
+    ["the neutral error's category", 'if (error.is("AUTHORIZATION")) return [];'],
+    ["the frozen category table", "const c = ELASTICSEARCH_ERROR_CATEGORIES.AUTHORIZATION;"],
+    ["the neutral search result", "const { hits, totalHits, timedOut, failedShards } = result;"],
+    ["the neutral SQL request", 'await transport.sql({ statement: "SELECT 1", fetchSize: 10 });'],
+    ["a cluster-health figure", 'const n = pick(health, "unassigned_shards");'],
+    ["the running-task listing", 'const path = "/_tasks?actions=*search*";'],
+    ["a helper whose name contains fetch", "const rows = await fetchTableStats(transport);"],
+    ["a SQL page constant", "const SQL_PAGE_ROWS = 1000;"],
+  ])("does not flag %s", (_label, source) => {
+    expect(findWireLeaks("index.ts", source)).toEqual([]);
+  });
+
+  test("reports nothing when the seam holds", () => {
+    expect(violationReport([])).toBe("");
+  });
+
+  test("the failure report explains the rule and names the offending line", () => {
+    const report = violationReport(findWireLeaks("index.ts", "const doc = hit._source;"));
+
+    expect(report).toContain(TRANSPORT_FILE);
+    expect(report).toContain("SearchResult");
+    expect(report).toContain('index.ts:1 uses "_source" -> const doc = hit._source;');
+  });
+});
@@ -387,6 +387,27 @@ describe("createDatabaseProvider", () => {
     expect(provider.type).toBe("druid");
   });
 
+  test('creates provider for type "duckdb"', async () => {
+    const conn = makeConnection("duckdb", { database: ":memory:" });
+    const provider = await createDatabaseProvider(conn);
+    expect(provider).toBeDefined();
+    expect(provider.type).toBe("duckdb");
+  });
+
+  test('creates provider for type "cassandra"', async () => {
+    const conn = makeConnection("cassandra", { host: "localhost", port: 9042 });
+    const provider = await createDatabaseProvider(conn);
+    expect(provider).toBeDefined();
+    expect(provider.type).toBe("cassandra");
+  });
+
+  test('creates provider for type "elasticsearch"', async () => {
+    const conn = makeConnection("elasticsearch", { host: "localhost", port: 9200 });
+    const provider = await createDatabaseProvider(conn);
+    expect(provider).toBeDefined();
+    expect(provider.type).toBe("elasticsearch");
+  });
+
   test('creates provider for type "libredb"', async () => {
     const conn = makeConnection("libredb", { database: "/tmp/test.libredb" });
     const provider = await createDatabaseProvider(conn);
@@ -886,6 +907,24 @@ describe("acquireExecutionProfileProvider", () => {
     expect(getExecutionProfileCacheStats().size).toBe(2);
   });
 
+  test("the editor's read-only profile takes the same engine gate, in a cache entry of its own", async () => {
+    // A connection whose write policy refuses writes runs what its user types through
+    // this profile, so like the hand-over it is only served where the engine bounds a
+    // statement, and it never shares an entry with an agent run on the same connection.
+    const refused: unknown = await acquireExecutionProfileProvider(
+      makeConnection("redis", { id: "redis-editor" }),
+      "editor-read-only",
+    ).catch((e: unknown) => e);
+    expect((refused as InstanceType<typeof ExecutionProfileError>).reasonCode).toBe("PROFILE_UNSUPPORTED_BY_PROVIDER");
+
+    const agent = await acquireExecutionProfileProvider(pgConn(), "agent-read-only");
+    const editor = await acquireExecutionProfileProvider(pgConn(), "editor-read-only");
+
+    expect(typeof editor.queryReadOnly).toBe("function");
+    expect(editor).not.toBe(agent);
+    expect(getExecutionProfileCacheStats().size).toBe(2);
+  });
+
   test("refuses to vend a PostgreSQL profile whose role is too privileged, and caches nothing", async () => {
     // The provider verifies the role at open (a read-only transaction does not
     // stop COPY TO PROGRAM or pg_read_file), and the refusal has to reach the
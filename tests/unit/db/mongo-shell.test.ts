@@ -0,0 +1,301 @@
+import { describe, test, expect } from "bun:test";
+import { QueryError } from "@/lib/db/errors";
+import {
+  explainMongoShellQuery,
+  isMongoShellQuery,
+  MongoShellLiteral,
+  parseMongoShellQuery,
+  readMongoQuery,
+} from "@/lib/db/utils/mongo-shell";
+
+/** The error the parser throws for `text`, so its message and position can be read. */
+function parseError(text: string): QueryError {
+  try {
+    parseMongoShellQuery(text);
+  } catch (error) {
+    if (error instanceof QueryError) return error;
+    throw error;
+  }
+  throw new Error(`expected ${text} to be refused`);
+}
+
+describe("isMongoShellQuery", () => {
+  test("takes a JSON object for the envelope and anything else for shell syntax", () => {
+    expect(isMongoShellQuery('  {"collection": "users"}')).toBe(false);
+    expect(isMongoShellQuery("db.users.find()")).toBe(true);
+    expect(isMongoShellQuery("not valid json")).toBe(true);
+  });
+});
+
+describe("parseMongoShellQuery: collection methods", () => {
+  test("reads a find with its cursor chain into the envelope", () => {
+    expect(parseMongoShellQuery("db.users.find({age:{$gt:18}}).sort({created:-1}).skip(20).limit(10)")).toEqual({
+      collection: "users",
+      operation: "find",
+      filter: { age: { $gt: 18 } },
+      options: { sort: { created: -1 }, skip: 20, limit: 10 },
+    });
+  });
+
+  test("takes a projection as find's second argument or from .projection()", () => {
+    expect(parseMongoShellQuery("db.users.find({}, { name: 1, _id: 0 })").options).toEqual({
+      projection: { name: 1, _id: 0 },
+    });
+    expect(parseMongoShellQuery("db.users.find().projection({ name: 1 })").options).toEqual({
+      projection: { name: 1 },
+    });
+  });
+
+  test("reads the other read methods", () => {
+    expect(parseMongoShellQuery("db.users.findOne({ name: 'Ann' })")).toEqual({
+      collection: "users",
+      operation: "findOne",
+      filter: { name: "Ann" },
+    });
+    expect(parseMongoShellQuery("db.orders.aggregate([{ $group: { _id: '$status', n: { $sum: 1 } } }])")).toEqual({
+      collection: "orders",
+      operation: "aggregate",
+      pipeline: [{ $group: { _id: "$status", n: { $sum: 1 } } }],
+    });
+    expect(parseMongoShellQuery("db.users.countDocuments({ active: true })").operation).toBe("count");
+    expect(parseMongoShellQuery("db.users.count()")).toEqual({ collection: "users", operation: "count" });
+  });
+
+  test("names distinct's field the way the envelope does, as its projection's one key", () => {
+    expect(parseMongoShellQuery("db.users.distinct('city', { active: true })")).toEqual({
+      collection: "users",
+      operation: "distinct",
+      filter: { active: true },
+      options: { projection: { city: 1 } },
+    });
+  });
+
+  test("reads the writes", () => {
+    expect(parseMongoShellQuery("db.users.insertOne({ name: 'Ann' })").documents).toEqual([{ name: "Ann" }]);
+    expect(parseMongoShellQuery("db.users.insertMany([{ a: 1 }, { a: 2 }])").documents).toEqual([{ a: 1 }, { a: 2 }]);
+    expect(parseMongoShellQuery("db.users.updateMany({ a: 1 }, { $set: { b: 2 } })")).toEqual({
+      collection: "users",
+      operation: "updateMany",
+      filter: { a: 1 },
+      update: { $set: { b: 2 } },
+    });
+    expect(parseMongoShellQuery("db.users.deleteOne({ _id: 1 })")).toEqual({
+      collection: "users",
+      operation: "deleteOne",
+      filter: { _id: 1 },
+    });
+  });
+
+  test("reads the index and collection methods, and their options", () => {
+    expect(parseMongoShellQuery("db.users.createIndex({ email: 1 }, { unique: true, name: 'email_u' })")).toEqual({
+      collection: "users",
+      operation: "createIndex",
+      keys: { email: 1 },
+      options: { unique: true, name: "email_u" },
+    });
+    expect(parseMongoShellQuery("db.users.dropIndex('email_1')").index).toBe("email_1");
+    expect(parseMongoShellQuery("db.users.dropIndex({ email: 1 })").index).toEqual({ email: 1 });
+    expect(parseMongoShellQuery("db.users.getIndexes()")).toEqual({ collection: "users", operation: "listIndexes" });
+    expect(parseMongoShellQuery("db.users.renameCollection('people', true)")).toEqual({
+      collection: "users",
+      operation: "renameCollection",
+      newName: "people",
+      options: { dropTarget: true },
+    });
+  });
+
+  test("reads createCollection on db itself, lifting its validator out of the options", () => {
+    expect(
+      parseMongoShellQuery(
+        "db.createCollection('people', { validator: { $jsonSchema: { required: ['name'] } }, validationAction: 'warn' })",
+      ),
+    ).toEqual({
+      collection: "people",
+      operation: "createCollection",
+      validator: { $jsonSchema: { required: ["name"] } },
+      options: { validationAction: "warn" },
+    });
+  });
+
+  test("reads findOneAndUpdate and bulkWrite with their options", () => {
+    expect(
+      parseMongoShellQuery(
+        "db.users.findOneAndUpdate({ a: 1 }, { $inc: { n: 1 } }, { upsert: true, returnDocument: 'after' })",
+      ),
+    ).toEqual({
+      collection: "users",
+      operation: "findOneAndUpdate",
+      filter: { a: 1 },
+      update: { $inc: { n: 1 } },
+      options: { upsert: true, returnDocument: "after" },
+    });
+    expect(
+      parseMongoShellQuery("db.users.bulkWrite([{ insertOne: { document: { a: 1 } } }], { ordered: false })"),
+    ).toEqual({
+      collection: "users",
+      operation: "bulkWrite",
+      operations: [{ insertOne: { document: { a: 1 } } }],
+      options: { ordered: false },
+    });
+  });
+
+  test("reads explain() in front of a read or after its cursor", () => {
+    expect(parseMongoShellQuery("db.users.explain('executionStats').find({ a: 1 }).limit(5)")).toEqual({
+      collection: "users",
+      operation: "find",
+      filter: { a: 1 },
+      explain: "executionStats",
+      options: { limit: 5 },
+    });
+    expect(parseMongoShellQuery("db.users.aggregate([]).explain()").explain).toBe("queryPlanner");
+    expect(parseMongoShellQuery("db.users.explain(true).countDocuments()").explain).toBe("allPlansExecution");
+  });
+
+  test("names a collection the ways the shell does", () => {
+    expect(parseMongoShellQuery("db.app.events.find()").collection).toBe("app.events");
+    expect(parseMongoShellQuery("db['my-logs'].find()").collection).toBe("my-logs");
+    expect(parseMongoShellQuery('db.getCollection("my-logs").find()').collection).toBe("my-logs");
+  });
+
+  test("accepts pasted shell text: comments, a trailing semicolon, toArray() and pretty()", () => {
+    expect(
+      parseMongoShellQuery(`// recent signups
+        db.users
+          .find({ /* adults */ age: { $gte: 18 }, })
+          .pretty()
+          .toArray();`),
+    ).toEqual({ collection: "users", operation: "find", filter: { age: { $gte: 18 } } });
+  });
+});
+
+describe("parseMongoShellQuery: literals", () => {
+  test("reads relaxed JavaScript object syntax", () => {
+    const query = parseMongoShellQuery(
+      `db.c.find({ 'single': 'it\\'s', "double": "a\\nb", $or: [{ n: -1.5e2 }, { n: 0x10 }], 1: null, ok: false })`,
+    );
+    expect(query.filter).toEqual({ single: "it's", double: "a\nb", $or: [{ n: -150 }, { n: 16 }], 1: null, ok: false });
+  });
+
+  test("reads a regex literal as a RegExp", () => {
+    const filter = parseMongoShellQuery("db.users.find({ name: /^a[/]n/i })").filter!;
+    expect(filter.name).toBeInstanceOf(RegExp);
+    expect((filter.name as RegExp).source).toBe("^a[/]n");
+    expect((filter.name as RegExp).flags).toBe("i");
+  });
+
+  test("reads dates and whole numbers as their values", () => {
+    const filter = parseMongoShellQuery(
+      "db.c.find({ a: ISODate('2024-01-02T03:04:05Z'), b: new Date(0), c: NumberInt('7'), d: NumberLong(9007199254740991) })",
+    ).filter!;
+    expect(filter.a).toEqual(new Date("2024-01-02T03:04:05Z"));
+    expect(filter.b).toEqual(new Date(0));
+    expect(filter.c).toBe(7);
+    expect(filter.d).toBe(9007199254740991);
+  });
+
+  test("holds an ObjectId or a decimal for the provider to build", () => {
+    const filter = parseMongoShellQuery(
+      "db.c.find({ _id: ObjectId('65A1B2C3D4E5F60718293A4B'), price: NumberDecimal('9.99'), fresh: new ObjectId() })",
+    ).filter!;
+    expect(filter._id).toEqual(new MongoShellLiteral("ObjectId", "65a1b2c3d4e5f60718293a4b"));
+    expect(filter.price).toEqual(new MongoShellLiteral("Decimal128", "9.99"));
+    expect(filter.fresh).toEqual(new MongoShellLiteral("ObjectId", undefined));
+  });
+
+  test("keeps a __proto__ key as a field rather than the document's prototype", () => {
+    const filter = parseMongoShellQuery("db.c.find({ __proto__: { polluted: 1 } })").filter!;
+    expect(Object.getPrototypeOf(filter)).toBe(Object.prototype);
+    expect(Object.keys(filter)).toEqual(["__proto__"]);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe("parseMongoShellQuery: what it refuses", () => {
+  test("says where it stopped, 1-based", () => {
+    const error = parseError("db.users.find({ age: }");
+    expect(error.message).toBe('Unexpected "}"');
+    expect(error.position).toBe(22);
+  });
+
+  test("reads literals only, never a variable or a function", () => {
+    expect(parseError("db.users.find({ a: x })").message).toContain("not variables");
+    expect(parseError("db.users.find({ $where: () => true })").message).toContain('Unexpected "("');
+    expect(parseError("db.users.find({ a: undefined })").message).toBe("undefined is not a BSON value; use null");
+  });
+
+  test("refuses what the envelope cannot carry instead of dropping it", () => {
+    expect(parseError("db.users.updateOne({}, { $set: { a: 1 } }, { upsert: true })").message).toContain(
+      "an options argument is not supported",
+    );
+    expect(parseError("db.users.createIndex({ a: 1 }, { collation: {} })").message).toBe(
+      'createIndex() does not take the option "collation" here. Supported: name, unique, sparse, expireAfterSeconds, partialFilterExpression, hidden',
+    );
+    expect(parseError("db.users.count().limit(1)").message).toBe(
+      "count() does not return a cursor, so .limit() cannot follow it",
+    );
+    expect(parseError("db.users.drop()").message).toContain('Unsupported collection method "drop"');
+    expect(parseError("db.dropDatabase()").message).toBe(
+      'Unsupported database method "dropDatabase". Supported: createCollection',
+    );
+  });
+
+  test("explains reads only, and nothing after the plan", () => {
+    expect(parseError("db.users.explain().deleteMany({})").message).toBe(
+      "explain() covers find(), aggregate(), count() and distinct(), not deleteMany()",
+    );
+    expect(parseError("db.users.find().explain().limit(1)").message).toBe(
+      "explain() returns the plan, so .limit() cannot follow it",
+    );
+    expect(parseError("db.users.find().explain('verbose')").message).toContain("explain() takes one of");
+  });
+
+  test("requires a write's filter, as mongosh does", () => {
+    expect(parseError("db.users.deleteMany()").message).toBe("deleteMany() takes 1 argument here, but was given 0");
+  });
+
+  test("checks the arguments it reads", () => {
+    expect(parseError("db.users.find().limit(-1)").message).toBe(".limit() takes a whole number of documents");
+    expect(parseError("db.c.find({ _id: ObjectId('nope') })").message).toBe(
+      "ObjectId() takes a 24-character hex string",
+    );
+    expect(parseError("db.c.find({ n: NumberLong('9007199254740993') })").message).toContain("2^53");
+    expect(parseError("db.c.find({ d: Date() })").message).toContain("new Date()");
+    expect(parseError("db.c.insertMany({ a: 1 })").message).toBe(
+      "The documents of insertMany() must be an array of documents",
+    );
+  });
+
+  test("runs one statement", () => {
+    expect(parseError("db.a.find(); db.b.find()").message).toBe(
+      "Only one statement can run at a time; remove what follows it",
+    );
+  });
+
+  test("points text that is neither syntax at both", () => {
+    expect(parseError("not valid json").message).toContain('JSON query with "collection" and "operation"');
+  });
+});
+
+describe("explainMongoShellQuery", () => {
+  test("writes explain() in front of the method, leaving the rest of the text as it was", () => {
+    expect(
+      explainMongoShellQuery("// mine\ndb.users\n  .find({ n: NumberLong('7') }).limit(5);", "executionStats"),
+    ).toBe("// mine\ndb.users\n  .explain(\"executionStats\").find({ n: NumberLong('7') }).limit(5);");
+    expect(explainMongoShellQuery("db['my-logs'].distinct('level')", "queryPlanner")).toBe(
+      "db['my-logs'].explain(\"queryPlanner\").distinct('level')",
+    );
+  });
+});
+
+describe("readMongoQuery", () => {
+  test("reads either syntax into the envelope, and anything else as null", () => {
+    expect(readMongoQuery('{"collection":"users","operation":"find"}')).toEqual({
+      collection: "users",
+      operation: "find",
+    });
+    expect(readMongoQuery("db.users.deleteOne({ a: 1 })")?.operation).toBe("deleteOne");
+    expect(readMongoQuery('{"operation":"find"}')).toBeNull();
+    expect(readMongoQuery("db.users.find(")).toBeNull();
+    expect(readMongoQuery("{ not json")).toBeNull();
+  });
+});
@@ -0,0 +1,268 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { QueryError } from "@/lib/db/errors";
+import type { DatabaseProvider, TransactionHandle } from "@/lib/db/types";
+import {
+  MAX_TRANSACTIONS_PER_USER,
+  TRANSACTION_IDLE_TIMEOUT_MS,
+  beginTransaction,
+  clearTransactions,
+  endTransaction,
+  getTransaction,
+  listTransactions,
+  queryInTransaction,
+  rollbackTransactionById,
+  type TransactionOwner,
+} from "@/lib/db/transactions";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function makeHandle() {
+  return {
+    query: mock(async () => ({ rows: [{ n: 1 }], fields: ["n"], rowCount: 1, executionTime: 1 })),
+    commit: mock(async () => {}),
+    rollback: mock(async () => {}),
+  } satisfies TransactionHandle;
+}
+
+let handles: ReturnType<typeof makeHandle>[] = [];
+
+const provider = {
+  type: "postgres",
+  openTransaction: async () => {
+    const handle = makeHandle();
+    handles.push(handle);
+    return handle;
+  },
+} as unknown as DatabaseProvider;
+
+function owner(overrides: Partial<TransactionOwner> = {}): TransactionOwner {
+  return {
+    sessionId: "alice-laptop",
+    username: "alice",
+    connectionId: "conn-1",
+    connectionName: "Production",
+    tabId: "tab-1",
+    tabName: "Query 1",
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  await clearTransactions();
+  handles = [];
+});
+
+afterEach(async () => {
+  await clearTransactions();
+});
+
+// ============================================================================
+// Ownership
+// ============================================================================
+
+describe("ownership", () => {
+  test("a transaction is keyed by sign-in, connection and tab", async () => {
+    await beginTransaction(provider, owner());
+
+    expect(getTransaction("alice-laptop", "conn-1", "tab-1")).not.toBeNull();
+    expect(getTransaction("bob-1", "conn-1", "tab-1")).toBeNull();
+    expect(getTransaction("alice-laptop", "conn-2", "tab-1")).toBeNull();
+    expect(getTransaction("alice-laptop", "conn-1", "tab-2")).toBeNull();
+  });
+
+  test("another user's statement never reaches the transaction", async () => {
+    await beginTransaction(provider, owner());
+
+    await expect(queryInTransaction("bob-1", "conn-1", "tab-1", "DELETE FROM users")).rejects.toThrow(QueryError);
+    await expect(endTransaction("bob-1", "conn-1", "tab-1", "commit")).rejects.toThrow("No active transaction");
+    expect(handles[0].query).not.toHaveBeenCalled();
+    expect(handles[0].commit).not.toHaveBeenCalled();
+  });
+
+  test("two users on one connection hold separate transactions", async () => {
+    await beginTransaction(provider, owner());
+    await beginTransaction(provider, owner({ sessionId: "bob-1", username: "bob" }));
+
+    await endTransaction("bob-1", "conn-1", "tab-1", "commit");
+
+    expect(handles[1].commit).toHaveBeenCalledTimes(1);
+    expect(handles[0].commit).not.toHaveBeenCalled();
+    expect(getTransaction("alice-laptop", "conn-1", "tab-1")).not.toBeNull();
+  });
+
+  test("two sign-ins of one username never reach each other's transaction", async () => {
+    await beginTransaction(provider, owner());
+    await beginTransaction(provider, owner({ sessionId: "alice-phone" }));
+
+    await queryInTransaction("alice-phone", "conn-1", "tab-1", "DELETE FROM users");
+    await endTransaction("alice-phone", "conn-1", "tab-1", "commit");
+
+    expect(handles[1].query).toHaveBeenCalledTimes(1);
+    expect(handles[1].commit).toHaveBeenCalledTimes(1);
+    expect(handles[0].query).not.toHaveBeenCalled();
+    expect(getTransaction("alice-laptop", "conn-1", "tab-1")).not.toBeNull();
+    // Nothing reports the key itself.
+    expect(listTransactions()[0]).not.toHaveProperty("sessionId");
+  });
+
+  test("a second BEGIN in the same tab is refused", async () => {
+    await beginTransaction(provider, owner());
+
+    await expect(beginTransaction(provider, owner())).rejects.toThrow("Transaction already active");
+    expect(handles).toHaveLength(1);
+  });
+
+  test("concurrent BEGINs in the same tab open one transaction", async () => {
+    const results = await Promise.allSettled([
+      beginTransaction(provider, owner()),
+      beginTransaction(provider, owner()),
+    ]);
+
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    expect(handles).toHaveLength(1);
+  });
+
+  test("a provider without transaction support is refused", async () => {
+    const plain = { type: "mongodb" } as unknown as DatabaseProvider;
+    await expect(beginTransaction(plain, owner())).rejects.toThrow("not supported");
+  });
+});
+
+// ============================================================================
+// Statements and ending
+// ============================================================================
+
+describe("statements", () => {
+  test("runs statements on the handle and counts them", async () => {
+    await beginTransaction(provider, owner());
+
+    const result = await queryInTransaction("alice-laptop", "conn-1", "tab-1", "SELECT $1", [1]);
+
+    expect(result.rows).toEqual([{ n: 1 }]);
+    expect(handles[0].query).toHaveBeenCalledWith("SELECT $1", [1]);
+    expect(getTransaction("alice-laptop", "conn-1", "tab-1")?.statementCount).toBe(1);
+  });
+
+  test("commit and rollback end the transaction", async () => {
+    await beginTransaction(provider, owner());
+    await beginTransaction(provider, owner({ tabId: "tab-2" }));
+
+    await endTransaction("alice-laptop", "conn-1", "tab-1", "commit");
+    await endTransaction("alice-laptop", "conn-1", "tab-2", "rollback");
+
+    expect(handles[0].commit).toHaveBeenCalledTimes(1);
+    expect(handles[1].rollback).toHaveBeenCalledTimes(1);
+    expect(listTransactions()).toEqual([]);
+  });
+
+  test("a failed COMMIT still frees the tab for the next BEGIN", async () => {
+    await beginTransaction(provider, owner());
+    handles[0].commit.mockImplementation(async () => {
+      throw new QueryError("could not serialize access", "postgres");
+    });
+
+    await expect(endTransaction("alice-laptop", "conn-1", "tab-1", "commit")).rejects.toThrow("could not serialize");
+    await expect(beginTransaction(provider, owner())).resolves.toBeDefined();
+  });
+});
+
+// ============================================================================
+// Limits
+// ============================================================================
+
+describe("per-user limit", () => {
+  test(`a user may hold at most ${MAX_TRANSACTIONS_PER_USER}`, async () => {
+    for (let i = 0; i < MAX_TRANSACTIONS_PER_USER; i++) {
+      await beginTransaction(provider, owner({ tabId: `tab-${i}` }));
+    }
+
+    await expect(beginTransaction(provider, owner({ tabId: "one-more" }))).rejects.toThrow(
+      `At most ${MAX_TRANSACTIONS_PER_USER} transactions`,
+    );
+    // The limit is the user's, across every sign-in.
+    await expect(beginTransaction(provider, owner({ sessionId: "alice-phone", tabId: "phone" }))).rejects.toThrow(
+      `At most ${MAX_TRANSACTIONS_PER_USER} transactions`,
+    );
+    // Someone else's limit is their own.
+    await expect(beginTransaction(provider, owner({ sessionId: "bob-1", username: "bob" }))).resolves.toBeDefined();
+  });
+});
+
+// ============================================================================
+// Idle timeout
+// ============================================================================
+
+describe("idle timeout", () => {
+  /** Capture the idle timers instead of waiting five minutes for them. */
+  function captureTimers() {
+    const callbacks: (() => void)[] = [];
+    const spy = spyOn(globalThis, "setTimeout").mockImplementation(((callback: () => void, ms?: number) => {
+      if (ms === TRANSACTION_IDLE_TIMEOUT_MS) callbacks.push(callback);
+      return { unref() {} } as unknown as ReturnType<typeof setTimeout>;
+    }) as unknown as typeof setTimeout);
+    return { callbacks, restore: () => spy.mockRestore() };
+  }
+
+  test("an idle transaction is rolled back", async () => {
+    const timers = captureTimers();
+    try {
+      await beginTransaction(provider, owner());
+      timers.callbacks.at(-1)!();
+      await Promise.resolve();
+    } finally {
+      timers.restore();
+    }
+
+    expect(handles[0].rollback).toHaveBeenCalledTimes(1);
+    expect(getTransaction("alice-laptop", "conn-1", "tab-1")).toBeNull();
+    await expect(queryInTransaction("alice-laptop", "conn-1", "tab-1", "SELECT 1")).rejects.toThrow(
+      "No active transaction",
+    );
+  });
+
+  test("each statement restarts the idle clock", async () => {
+    const timers = captureTimers();
+    try {
+      await beginTransaction(provider, owner());
+      const before = getTransaction("alice-laptop", "conn-1", "tab-1")!.expiresAt;
+      await queryInTransaction("alice-laptop", "conn-1", "tab-1", "SELECT 1");
+
+      expect(timers.callbacks).toHaveLength(2);
+      expect(getTransaction("alice-laptop", "conn-1", "tab-1")!.expiresAt).toBeGreaterThanOrEqual(before);
+    } finally {
+      timers.restore();
+    }
+  });
+});
+
+// ============================================================================
+// Admin view
+// ============================================================================
+
+describe("listTransactions / rollbackTransactionById", () => {
+  test("lists every user's transactions, oldest first", async () => {
+    await beginTransaction(provider, owner());
+    await beginTransaction(provider, owner({ sessionId: "bob-1", username: "bob", tabName: "Report" }));
+
+    const list = listTransactions();
+
+    expect(list.map((t) => t.username)).toEqual(["alice", "bob"]);
+    expect(list[1]).toMatchObject({ connectionName: "Production", tabName: "Report", databaseType: "postgres" });
+  });
+
+  test("rolls back a transaction by id, whoever owns it", async () => {
+    const { id } = await beginTransaction(provider, owner());
+
+    const ended = await rollbackTransactionById(id);
+
+    expect(ended?.username).toBe("alice");
+    expect(handles[0].rollback).toHaveBeenCalledTimes(1);
+    expect(listTransactions()).toEqual([]);
+  });
+
+  test("returns null for an id that is not open", async () => {
+    expect(await rollbackTransactionById("missing")).toBeNull();
+  });
+});
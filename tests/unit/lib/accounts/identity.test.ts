@@ -0,0 +1,72 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { currentIdentity, recordDirectorySignIn } from "@/lib/accounts/identity";
+import type { ServerStorageProvider } from "@/lib/storage/types";
+
+let store = new Map<string, unknown>();
+const key = (userId: string, collection: string) => `${userId}/${collection}`;
+const storage = {
+  getCollection: async (userId: string, collection: string) => store.get(key(userId, collection)) ?? null,
+  setCollection: async (userId: string, collection: string, data: unknown) => {
+    store.set(key(userId, collection), data);
+  },
+} as unknown as ServerStorageProvider;
+
+const NOW = new Date("2026-03-10T10:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let origAdminEmail: string | undefined;
+let origAdminPassword: string | undefined;
+
+beforeEach(() => {
+  store = new Map();
+  origAdminEmail = process.env.ADMIN_EMAIL;
+  origAdminPassword = process.env.ADMIN_PASSWORD;
+  process.env.ADMIN_EMAIL = "root@example.com";
+  process.env.ADMIN_PASSWORD = "correct horse battery";
+});
+
+afterEach(() => {
+  for (const [name, value] of [
+    ["ADMIN_EMAIL", origAdminEmail],
+    ["ADMIN_PASSWORD", origAdminPassword],
+  ] as const) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+});
+
+describe("currentIdentity", () => {
+  test("an env account is its env role", async () => {
+    expect(await currentIdentity(storage, "root@example.com", NOW)).toEqual({ role: "admin" });
+  });
+
+  test("a stored account is its role now, and nobody once disabled", async () => {
+    store.set(key("ada@example.com", "local_account"), { email: "ada@example.com", role: "user", disabled: false });
+    expect(await currentIdentity(storage, "ada@example.com", NOW)).toEqual({ role: "user" });
+
+    store.set(key("ada@example.com", "local_account"), { email: "ada@example.com", role: "user", disabled: true });
+    expect(await currentIdentity(storage, "ada@example.com", NOW)).toBeNull();
+  });
+
+  test("a directory user is who they last signed in as, while that is recent", async () => {
+    await recordDirectorySignIn(
+      storage,
+      "alan",
+      { role: "user", groups: ["analysts"], source: "ldap" },
+      new Date(NOW.getTime() - 29 * DAY_MS),
+    );
+    expect(await currentIdentity(storage, "alan", NOW)).toEqual({ role: "user", groups: ["analysts"] });
+
+    await recordDirectorySignIn(
+      storage,
+      "alan",
+      { role: "admin", source: "oidc" },
+      new Date(NOW.getTime() - 31 * DAY_MS),
+    );
+    expect(await currentIdentity(storage, "alan", NOW)).toBeNull();
+  });
+
+  test("nobody vouches for a name nothing knows", async () => {
+    expect(await currentIdentity(storage, "mallory", NOW)).toBeNull();
+  });
+});
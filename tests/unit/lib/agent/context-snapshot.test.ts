@@ -30,6 +30,7 @@ import { OperationRegistry } from "@/lib/db/operations/registry";
 import type { DatabaseProvider, ProviderCapabilities } from "@/lib/db/types";
 import { TABLE_LABELS } from "../../../fixtures/provider-labels";
 import type { DatabaseConnection, DatabaseType, QueryResult, TableSchema } from "@/lib/types";
+import { DEFAULT_MASKING_POLICY } from "@/lib/masking/store";
 
 /**
  * The run's context snapshot and its packing (#329 T8).
@@ -175,6 +176,7 @@ function harness(type: DatabaseType, answer?: (sql: string) => Promise<QueryResu
         frozenClock,
       ),
       repairs: new AgentRepairLedger(),
+      masking: DEFAULT_MASKING_POLICY,
       acquireProvider: mock(async () => provider),
       clock: frozenClock,
     },
@@ -565,6 +567,7 @@ describe("captureContextSnapshot — the provider's own inventory", () => {
           frozenClock,
         ),
         repairs: new AgentRepairLedger(),
+        masking: DEFAULT_MASKING_POLICY,
         acquireProvider,
         clock: frozenClock,
       },
@@ -19,6 +19,7 @@ import { createTargetScope } from "@/lib/db/operations/policy";
 import type { DatabaseProvider, ProviderCapabilities } from "@/lib/db/types";
 import { TABLE_LABELS } from "../../../fixtures/provider-labels";
 import type { DatabaseConnection, DatabaseType, QueryResult, TableSchema } from "@/lib/types";
+import { DEFAULT_MASKING_POLICY } from "@/lib/masking/store";
 
 /**
  * The run's estimated statistics: reading them, and saying honestly what they are
@@ -101,6 +102,7 @@ function harness(
         frozenClock,
       ),
       repairs: new AgentRepairLedger(),
+      masking: DEFAULT_MASKING_POLICY,
       acquireProvider: mock(async () => provider),
       clock: frozenClock,
     },
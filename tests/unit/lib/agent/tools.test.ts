@@ -53,6 +53,7 @@ import {
 import type { DatabaseProvider, ProviderCapabilities } from "@/lib/db/types";
 import { TABLE_LABELS } from "../../../fixtures/provider-labels";
 import type { DatabaseConnection, QueryResult } from "@/lib/types";
+import { DEFAULT_MASKING_POLICY } from "@/lib/masking/store";
 
 /**
  * The tool layer over the M1 operations (#329 T6).
@@ -142,6 +143,7 @@ function harness(
     artifacts,
     deadline,
     repairs,
+    masking: DEFAULT_MASKING_POLICY,
     acquireProvider,
     clock: stubClock(1_000, 1_012),
     ...overrides,
@@ -862,6 +864,20 @@ describe("runReadQueryTool — the allowed path", () => {
 
     expect(h.tracker.usage("run-1")).toEqual({ activeExecutions: 0, executedStatements: 1, totalElapsedMs: 12 });
   });
+
+  test("masks what the masking policy masks before the model or the artifact store sees it", async () => {
+    const h = harness({}, async () =>
+      queryResult({ rows: [{ id: 1, email: "ada@example.com" }], fields: ["id", "email"] }),
+    );
+
+    const outcome = await runReadQueryTool(h.context, { sql: "SELECT id, email FROM customers" });
+
+    if (outcome.kind !== "completed") throw new Error("expected completed");
+    expect(outcome.modelText).not.toContain("ada@example.com");
+    const stored = h.artifacts.get(outcome.artifact.correlationId, 1_000)?.value;
+    expect(stored?.rows[0].email).not.toBe("ada@example.com");
+    expect(stored?.masking).toEqual({ columns: ["email"], canReveal: false });
+  });
 });
 
 describe("runReadQueryTool — a policy denial is not a syntax error", () => {
@@ -2494,6 +2510,7 @@ function curatedHarness(
     artifacts,
     deadline,
     repairs,
+    masking: DEFAULT_MASKING_POLICY,
     acquireProvider,
     clock: () => {
       tick += 3;
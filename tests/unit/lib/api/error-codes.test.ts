@@ -2,8 +2,8 @@ import { describe, test, expect } from "bun:test";
 import { ApiErrorCode } from "@/lib/api/error-codes";
 
 describe("ApiErrorCode", () => {
-  test("contains all 17 error codes", () => {
-    expect(Object.keys(ApiErrorCode)).toHaveLength(17);
+  test("contains all 19 error codes", () => {
+    expect(Object.keys(ApiErrorCode)).toHaveLength(19);
   });
 
   test("values match keys", () => {
@@ -40,4 +40,12 @@ describe("ApiErrorCode", () => {
   test("contains the application rate-limit error code", () => {
     expect(ApiErrorCode.RATE_LIMITED).toBe("RATE_LIMITED");
   });
+
+  test("contains the access-grant error code", () => {
+    expect(ApiErrorCode.ACCESS_DENIED).toBe("ACCESS_DENIED");
+  });
+
+  test("contains the write-policy error code", () => {
+    expect(ApiErrorCode.WRITE_REFUSED).toBe("WRITE_REFUSED");
+  });
 });
@@ -0,0 +1,131 @@
+import { describe, test, expect } from "bun:test";
+import type { AuditLogLine } from "@/lib/audit";
+import { AuditSinkQueue } from "@/lib/audit-sinks/queue";
+import type { AuditSink } from "@/lib/audit-sinks/types";
+
+function line(id: string): AuditLogLine {
+  return {
+    schema: "libredb.audit.v1",
+    ts: "2026-01-01T00:00:00.000Z",
+    id,
+    event: "login_success",
+    action: "login",
+    outcome: "success",
+    actor: "ana",
+    route: "POST /api/auth/login",
+  };
+}
+
+/** A sink that records what it was handed and fails while `down` is set. */
+function fakeSink() {
+  const batches: string[][] = [];
+  const sink = {
+    down: false as boolean,
+    kind: "webhook" as const,
+    target: "https://siem.example/ingest",
+    async deliver(lines: AuditLogLine[]) {
+      if (sink.down) throw new Error("connect ECONNREFUSED");
+      batches.push(lines.map((l) => l.id));
+    },
+  } satisfies AuditSink & { down: boolean };
+  return { sink, batches };
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("AuditSinkQueue", () => {
+  test("delivers lines in order and reports the sink healthy", async () => {
+    const { sink, batches } = fakeSink();
+    const queue = new AuditSinkQueue(sink);
+
+    queue.enqueue(line("a"));
+    queue.enqueue(line("b"));
+    await queue.idle();
+
+    expect(batches.flat()).toEqual(["a", "b"]);
+    expect(queue.health()).toMatchObject({
+      kind: "webhook",
+      target: "https://siem.example/ingest",
+      status: "healthy",
+      delivered: 2,
+      queued: 0,
+      dropped: 0,
+      failures: 0,
+    });
+  });
+
+  test("keeps a failed batch and sends it again after the backoff, in order", async () => {
+    const { sink, batches } = fakeSink();
+    const queue = new AuditSinkQueue(sink, { firstRetryMs: 10 });
+    sink.down = true;
+
+    queue.enqueue(line("a"));
+    await queue.idle();
+    queue.enqueue(line("b"));
+
+    expect(queue.health()).toMatchObject({
+      status: "retrying",
+      failures: 1,
+      queued: 2,
+      lastError: "connect ECONNREFUSED",
+    });
+    expect(queue.health().nextAttemptAt).toBeDefined();
+
+    sink.down = false;
+    await wait(30);
+    await queue.idle();
+
+    expect(batches.flat()).toEqual(["a", "b"]);
+    expect(queue.health()).toMatchObject({ status: "healthy", failures: 0, delivered: 2 });
+    expect(queue.health().nextAttemptAt).toBeUndefined();
+    queue.stop();
+  });
+
+  test("doubles the wait after each failure, up to the cap", async () => {
+    const { sink } = fakeSink();
+    const queue = new AuditSinkQueue(sink, { firstRetryMs: 10, maxRetryMs: 25 });
+    sink.down = true;
+
+    queue.enqueue(line("a"));
+    await queue.idle();
+    const first = queue.health();
+    expect(Date.parse(first.nextAttemptAt!) - Date.parse(first.lastErrorAt!)).toBe(10);
+
+    await wait(100);
+    await queue.idle();
+
+    // 10, 20, then 40 capped at 25 for every attempt after.
+    const later = queue.health();
+    expect(later.failures).toBeGreaterThanOrEqual(3);
+    expect(Date.parse(later.nextAttemptAt!) - Date.parse(later.lastErrorAt!)).toBe(25);
+    queue.stop();
+  });
+
+  test("drops the oldest lines past its limit and counts them", async () => {
+    const { sink, batches } = fakeSink();
+    const queue = new AuditSinkQueue(sink, { maxQueued: 2, firstRetryMs: 10 });
+    sink.down = true;
+
+    for (const id of ["a", "b", "c", "d"]) queue.enqueue(line(id));
+    await queue.idle();
+    expect(queue.health()).toMatchObject({ queued: 2, dropped: 2 });
+
+    sink.down = false;
+    await wait(30);
+    await queue.idle();
+    expect(batches.flat()).toEqual(["c", "d"]);
+    queue.stop();
+  });
+
+  test("takes nothing more once stopped", async () => {
+    const { sink, batches } = fakeSink();
+    const queue = new AuditSinkQueue(sink);
+
+    queue.stop();
+    queue.enqueue(line("a"));
+    await queue.idle();
+
+    expect(batches).toEqual([]);
+    expect(queue.health()).toMatchObject({ status: "idle", queued: 0 });
+  });
+});
@@ -0,0 +1,277 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import dgram from "node:dgram";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { AuditLogLine } from "@/lib/audit";
+import { readAuditSinks } from "@/lib/audit-sinks/config";
+import { createFileSink } from "@/lib/audit-sinks/file";
+import { createSyslogSink, formatSyslogMessage } from "@/lib/audit-sinks/syslog";
+import { createWebhookSink, signWebhookBody, SIGNATURE_HEADER, TIMESTAMP_HEADER } from "@/lib/audit-sinks/webhook";
+import { logger } from "@/lib/logger";
+
+function line(id: string, overrides: Partial<AuditLogLine> = {}): AuditLogLine {
+  return {
+    schema: "libredb.audit.v1",
+    ts: "2026-01-01T00:00:00.000Z",
+    id,
+    event: "login_failure",
+    action: "login",
+    outcome: "failure",
+    actor: "ana",
+    route: "POST /api/auth/login",
+    reason: "bad_credentials",
+    ...overrides,
+  };
+}
+
+const SECRET = "s".repeat(32);
+
+// ─── File ───────────────────────────────────────────────────────────────────
+
+describe("createFileSink", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-sink-"));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("appends one JSON object per line, readable only by its owner", async () => {
+    const file = path.join(dir, "logs", "audit.jsonl");
+    const sink = createFileSink(file, 1024 * 1024, 3);
+
+    await sink.deliver([line("a")]);
+    await sink.deliver([line("b"), line("c")]);
+
+    const written = fs.readFileSync(file, "utf8").trimEnd().split("\n");
+    expect(written.map((l) => JSON.parse(l).id)).toEqual(["a", "b", "c"]);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  test("rotates before a batch would pass the limit and keeps only the newest files", async () => {
+    const file = path.join(dir, "audit.jsonl");
+    const size = Buffer.byteLength(`${JSON.stringify(line("a"))}\n`);
+    const sink = createFileSink(file, size * 2, 2);
+
+    for (const id of ["a", "b", "c", "d", "e", "f", "g"]) await sink.deliver([line(id)]);
+
+    const ids = (name: string) =>
+      fs
+        .readFileSync(path.join(dir, name), "utf8")
+        .trimEnd()
+        .split("\n")
+        .map((l) => JSON.parse(l).id);
+    expect(fs.readdirSync(dir).sort()).toEqual(["audit.jsonl", "audit.jsonl.1", "audit.jsonl.2"]);
+    expect(ids("audit.jsonl")).toEqual(["g"]);
+    expect(ids("audit.jsonl.1")).toEqual(["e", "f"]);
+    expect(ids("audit.jsonl.2")).toEqual(["c", "d"]);
+  });
+
+  test("continues an existing file rather than starting over", async () => {
+    const file = path.join(dir, "audit.jsonl");
+    fs.writeFileSync(file, `${JSON.stringify(line("old"))}\n`);
+
+    await createFileSink(file, 1024 * 1024, 3).deliver([line("new")]);
+
+    expect(fs.readFileSync(file, "utf8").trimEnd().split("\n")).toHaveLength(2);
+  });
+});
+
+// ─── Syslog ─────────────────────────────────────────────────────────────────
+
+describe("formatSyslogMessage", () => {
+  test("is an RFC 5424 message: log audit facility, the event as MSGID, the JSON line as body", () => {
+    const message = formatSyslogMessage(line("a"), "studio-1");
+
+    expect(message).toBe(
+      `<108>1 2026-01-01T00:00:00.000Z studio-1 libredb-studio ${process.pid} login_failure - ${JSON.stringify(line("a"))}`,
+    );
+  });
+
+  test("a success is informational, and an unusable hostname is the nil value", () => {
+    const message = formatSyslogMessage(line("a", { outcome: "success", event: "logout" }), " ");
+    expect(message.startsWith(`<110>1 2026-01-01T00:00:00.000Z - libredb-studio ${process.pid} logout - `)).toBe(true);
+  });
+});
+
+describe("createSyslogSink", () => {
+  test("sends one datagram per line over UDP", async () => {
+    const server = dgram.createSocket("udp4");
+    const received: string[] = [];
+    const arrived = new Promise<void>((resolve) => {
+      server.on("message", (msg) => {
+        received.push(msg.toString());
+        if (received.length === 2) resolve();
+      });
+    });
+    await new Promise<void>((resolve) => server.bind(0, "127.0.0.1", resolve));
+    const sink = createSyslogSink("udp", "127.0.0.1", server.address().port);
+
+    try {
+      await sink.deliver([line("a"), line("b")]);
+      await arrived;
+      expect(received.map((m) => JSON.parse(m.slice(m.indexOf("{"))).id)).toEqual(["a", "b"]);
+      expect(sink.target).toBe(`udp://127.0.0.1:${server.address().port}`);
+    } finally {
+      sink.close?.();
+      server.close();
+    }
+  });
+
+  test("frames messages by octet count over TCP and reconnects after the connection drops", async () => {
+    const chunks: Buffer[] = [];
+    const sockets: { end(): void }[] = [];
+    // Bun.listen rather than net.createServer, which another suite replaces process-wide.
+    const server = Bun.listen({
+      hostname: "127.0.0.1",
+      port: 0,
+      socket: {
+        open: (socket) => void sockets.push(socket),
+        data: (_socket, chunk) => void chunks.push(Buffer.from(chunk)),
+      },
+    });
+    const sink = createSyslogSink("tcp", "127.0.0.1", server.port);
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+    /** Split an RFC 6587 octet-counted stream back into its messages. */
+    const frames = () => {
+      const stream = Buffer.concat(chunks);
+      const messages: string[] = [];
+      let at = 0;
+      while (at < stream.length) {
+        const space = stream.indexOf(" ", at);
+        const length = Number(stream.subarray(at, space).toString());
+        messages.push(stream.subarray(space + 1, space + 1 + length).toString());
+        at = space + 1 + length;
+      }
+      return messages;
+    };
+
+    try {
+      await sink.deliver([line("a"), line("b")]);
+      await settle();
+      expect(frames()).toEqual([formatSyslogMessage(line("a")), formatSyslogMessage(line("b"))]);
+
+      for (const socket of sockets) socket.end();
+      await settle();
+      await sink.deliver([line("c")]);
+      await settle();
+
+      expect(sockets).toHaveLength(2);
+      expect(frames().map((m) => JSON.parse(m.slice(m.indexOf("{"))).id)).toEqual(["a", "b", "c"]);
+    } finally {
+      sink.close?.();
+      server.stop(true);
+    }
+  });
+
+  test("fails the batch when nothing listens on the TCP port", async () => {
+    const server = Bun.listen({ hostname: "127.0.0.1", port: 0, socket: { data: () => {} } });
+    const port = server.port;
+    server.stop(true);
+
+    const sink = createSyslogSink("tcp", "127.0.0.1", port);
+    await expect(sink.deliver([line("a")])).rejects.toThrow();
+    sink.close?.();
+  });
+});
+
+// ─── Webhook ────────────────────────────────────────────────────────────────
+
+describe("createWebhookSink", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let requests: Request[];
+  let bodies: string[];
+  let status: number;
+
+  beforeEach(() => {
+    requests = [];
+    bodies = [];
+    status = 200;
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        requests.push(req);
+        bodies.push(await req.text());
+        return new Response(null, { status });
+      },
+    });
+  });
+  afterEach(() => {
+    server.stop(true);
+  });
+
+  test("posts the batch, signed over its timestamp and body", async () => {
+    const sink = createWebhookSink(`http://127.0.0.1:${server.port}/ingest?token=abc`, SECRET);
+
+    await sink.deliver([line("a"), line("b")]);
+
+    expect(JSON.parse(bodies[0]).events.map((e: AuditLogLine) => e.id)).toEqual(["a", "b"]);
+    const timestamp = requests[0].headers.get(TIMESTAMP_HEADER)!;
+    expect(requests[0].headers.get(SIGNATURE_HEADER)).toBe(signWebhookBody(SECRET, timestamp, bodies[0]));
+    // The target shown to an admin leaves the query string, where a token may be, behind.
+    expect(sink.target).toBe(`http://127.0.0.1:${server.port}/ingest`);
+  });
+
+  test("fails the batch on anything but a 2xx", async () => {
+    status = 503;
+    const sink = createWebhookSink(`http://127.0.0.1:${server.port}/ingest`, SECRET);
+
+    await expect(sink.deliver([line("a")])).rejects.toThrow("Webhook answered 503");
+  });
+
+  test("the signature changes with the secret, the timestamp and the body", () => {
+    const base = signWebhookBody(SECRET, "1", "{}");
+    expect(base).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(signWebhookBody("t".repeat(32), "1", "{}")).not.toBe(base);
+    expect(signWebhookBody(SECRET, "2", "{}")).not.toBe(base);
+    expect(signWebhookBody(SECRET, "1", "[]")).not.toBe(base);
+  });
+});
+
+// ─── Configuration ──────────────────────────────────────────────────────────
+
+describe("readAuditSinks", () => {
+  test("configures nothing by default", () => {
+    expect(readAuditSinks({})).toEqual([]);
+  });
+
+  test("reads each sink from its variables", () => {
+    const sinks = readAuditSinks({
+      AUDIT_SINK_FILE: "/var/log/libredb/audit.jsonl",
+      AUDIT_SINK_SYSLOG: "tcp://siem.internal",
+      AUDIT_SINK_WEBHOOK_URL: "https://siem.example/ingest",
+      AUDIT_SINK_WEBHOOK_SECRET: SECRET,
+    });
+
+    expect(sinks.map((s) => [s.kind, s.target])).toEqual([
+      ["file", "/var/log/libredb/audit.jsonl"],
+      ["syslog", "tcp://siem.internal:601"],
+      ["webhook", "https://siem.example/ingest"],
+    ]);
+    expect(readAuditSinks({ AUDIT_SINK_SYSLOG: "udp://[::1]" })[0].target).toBe("udp://::1:514");
+  });
+
+  test("leaves out a sink configured wrongly, with a warning, and starts the rest", () => {
+    const warn = spyOn(logger, "warn").mockImplementation(() => {});
+    try {
+      const sinks = readAuditSinks({
+        AUDIT_SINK_FILE: "/tmp/audit.jsonl",
+        AUDIT_SINK_SYSLOG: "http://siem.internal:514",
+        AUDIT_SINK_WEBHOOK_URL: "https://siem.example/ingest",
+        AUDIT_SINK_WEBHOOK_SECRET: "short",
+      });
+
+      expect(sinks.map((s) => s.kind)).toEqual(["file"]);
+      const skipped = warn.mock.calls.filter((call) => call[0] === "Audit sink not started");
+      expect(skipped.map((call) => (call[1] as { variable: string }).variable)).toEqual([
+        "AUDIT_SINK_SYSLOG",
+        "AUDIT_SINK_WEBHOOK_URL",
+      ]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, test, expect } from "bun:test";
+import type { AuditEvent } from "@/lib/audit";
+import { chainAuditEvents, GENESIS_HASH, hashAuditEvent, verifyAuditChain } from "@/lib/audit-store/chain";
+import { readAuditExportRange, readAuditQuery } from "@/lib/audit-store/query";
+import { readAuditRetention } from "@/lib/audit-store/config";
+
+function event(id: string, overrides: Partial<AuditEvent> = {}): AuditEvent {
+  return {
+    id,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    type: "login_success",
+    action: "login",
+    target: "POST /api/auth/login",
+    user: "ana",
+    result: "success",
+    ...overrides,
+  };
+}
+
+describe("chainAuditEvents", () => {
+  test("numbers events on from the head and links each to the one before", () => {
+    const first = chainAuditEvents(null, [event("a"), event("b")]);
+    expect(first.map((e) => e.seq)).toEqual([1, 2]);
+    expect(first[0].prevHash).toBe(GENESIS_HASH);
+    expect(first[1].prevHash).toBe(first[0].hash);
+
+    const next = chainAuditEvents(first[1], [event("c")]);
+    expect(next[0]).toMatchObject({ seq: 3, prevHash: first[1].hash });
+    expect(verifyAuditChain([...first, ...next])).toEqual({
+      valid: true,
+      checked: 3,
+      firstSeq: 1,
+      lastSeq: 3,
+      lastHash: next[0].hash,
+    });
+  });
+
+  test("hashes the same event the same whatever order its keys are in", () => {
+    const built = event("a", { connectionName: "prod" });
+    const reordered = JSON.parse(JSON.stringify({ connectionName: "prod", ...built })) as AuditEvent;
+    expect(hashAuditEvent(1, GENESIS_HASH, reordered)).toBe(hashAuditEvent(1, GENESIS_HASH, built));
+  });
+});
+
+describe("verifyAuditChain", () => {
+  const chain = () => chainAuditEvents(null, [event("a"), event("b"), event("c"), event("d")]);
+
+  test("verifies a range cut out of the middle on its own links", () => {
+    expect(verifyAuditChain(chain().slice(1, 3))).toMatchObject({ valid: true, checked: 2, firstSeq: 2 });
+    expect(verifyAuditChain([])).toEqual({ valid: true, checked: 0 });
+  });
+
+  test("finds an event whose content was changed", () => {
+    const events = chain();
+    events[2] = { ...events[2], event: { ...events[2].event, user: "mallory" } };
+    expect(verifyAuditChain(events)).toMatchObject({ valid: false, seq: 3, checked: 2 });
+  });
+
+  test("finds an event removed from the middle", () => {
+    const events = chain();
+    events.splice(1, 1);
+    expect(verifyAuditChain(events)).toMatchObject({ valid: false, seq: 3, problem: "expected event 2 next, found 3" });
+  });
+
+  test("finds an edit whose own hash was recomputed, at the event after it", () => {
+    const events = chain();
+    const forged = { ...events[1].event, result: "failure" as const };
+    events[1] = { ...events[1], event: forged, hash: hashAuditEvent(2, events[1].prevHash, forged) };
+    expect(verifyAuditChain(events)).toMatchObject({
+      valid: false,
+      seq: 3,
+      problem: "does not link to the event before it",
+    });
+  });
+});
+
+describe("readAuditQuery", () => {
+  test("reads the filters and the page, newest first", () => {
+    const query = readAuditQuery(
+      new URLSearchParams(
+        "type=login_failure&user=ana&connection=prod&reason=bad_credentials&result=failure&since=2026-01-01&until=2026-01-02T10:00:00Z&limit=50&offset=100",
+      ),
+    );
+    expect(query).toEqual({
+      type: "login_failure",
+      user: "ana",
+      connectionName: "prod",
+      reason: "bad_credentials",
+      result: "failure",
+      since: "2026-01-01T00:00:00.000Z",
+      until: "2026-01-02T10:00:00.000Z",
+      order: "newest",
+      limit: 50,
+      offset: 100,
+    });
+  });
+
+  test("defaults to the first 100, and caps a page at 500", () => {
+    expect(readAuditQuery(new URLSearchParams())).toMatchObject({ limit: 100, offset: 0 });
+    expect(readAuditQuery(new URLSearchParams("limit=100000")).limit).toBe(500);
+  });
+
+  test("refuses a value it cannot use, naming it", () => {
+    expect(() => readAuditQuery(new URLSearchParams("since=yesterday"))).toThrow("since must be");
+    expect(() => readAuditQuery(new URLSearchParams("limit=-1"))).toThrow("limit must be");
+    expect(() => readAuditQuery(new URLSearchParams("result=maybe"))).toThrow("result must be");
+  });
+
+  test("an export range is oldest first and takes only the time bounds", () => {
+    expect(readAuditExportRange(new URLSearchParams("since=2026-01-01&user=ana"))).toEqual({
+      since: "2026-01-01T00:00:00.000Z",
+      until: undefined,
+      order: "oldest",
+      limit: 10_000,
+      offset: 0,
+    });
+  });
+});
+
+describe("readAuditRetention", () => {
+  test("keeps everything unless told otherwise", () => {
+    expect(readAuditRetention({})).toEqual({});
+    expect(readAuditRetention({ AUDIT_RETENTION_DAYS: "0", AUDIT_RETENTION_MAX_EVENTS: "nope" })).toEqual({});
+  });
+
+  test("reads days and a count", () => {
+    expect(readAuditRetention({ AUDIT_RETENTION_DAYS: "400", AUDIT_RETENTION_MAX_EVENTS: "1000000" })).toEqual({
+      maxAgeDays: 400,
+      maxEvents: 1_000_000,
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, test, expect, spyOn, beforeEach, afterEach } from "bun:test";
+import type { AuditEvent } from "@/lib/audit";
+import { chainAuditEvents, verifyAuditChain } from "@/lib/audit-store/chain";
+import { pruneAuditStore } from "@/lib/audit-store/registry";
+import type { StoredAuditEvent } from "@/lib/audit-store/types";
+import { AuditStoreWriter } from "@/lib/audit-store/writer";
+import { logger } from "@/lib/logger";
+import type { ServerStorageProvider } from "@/lib/storage/types";
+
+function event(id: string, timestamp = "2026-01-01T00:00:00.000Z"): AuditEvent {
+  return {
+    id,
+    timestamp,
+    type: "login_success",
+    action: "login",
+    target: "POST /api/auth/login",
+    user: "ana",
+    result: "success",
+  };
+}
+
+/** The audit half of a provider, in memory: refuses a taken `seq` as the primary key would. */
+function memoryStore() {
+  const rows: StoredAuditEvent[] = [];
+  const store = {
+    down: false as boolean,
+    rows,
+    async appendAuditEvents(events: StoredAuditEvent[]) {
+      if (store.down) throw new Error("connect ECONNREFUSED");
+      if (events.some((e) => rows.some((r) => r.seq === e.seq))) throw new Error("UNIQUE constraint failed");
+      rows.push(...events);
+    },
+    async getLastAuditEvent() {
+      if (store.down) throw new Error("connect ECONNREFUSED");
+      return rows.at(-1) ?? null;
+    },
+    async pruneAuditEvents(options: { before?: string; keepLatest?: number }) {
+      const before = rows.length;
+      const kept = rows.filter((r) => !options.before || r.event.timestamp >= options.before);
+      rows.splice(0, rows.length, ...kept.slice(options.keepLatest === undefined ? 0 : -options.keepLatest));
+      return before - rows.length;
+    },
+  };
+  return { store, provider: store as unknown as ServerStorageProvider };
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("AuditStoreWriter", () => {
+  let errorSpy: ReturnType<typeof spyOn>;
+  beforeEach(() => {
+    errorSpy = spyOn(logger, "error").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    errorSpy.mockRestore();
+  });
+
+  test("stores events in order as one verifiable chain", async () => {
+    const { store, provider } = memoryStore();
+    const writer = new AuditStoreWriter(async () => provider);
+
+    for (const id of ["a", "b", "c"]) writer.record(event(id));
+    await writer.idle();
+
+    expect(store.rows.map((r) => r.event.id)).toEqual(["a", "b", "c"]);
+    expect(verifyAuditChain(store.rows)).toMatchObject({ valid: true, checked: 3, firstSeq: 1 });
+    expect(writer.health()).toMatchObject({ status: "healthy", stored: 3, pending: 0, failures: 0 });
+  });
+
+  test("continues the chain a previous process left", async () => {
+    const { store, provider } = memoryStore();
+    store.rows.push(...chainAuditEvents(null, [event("old")]));
+    const writer = new AuditStoreWriter(async () => provider);
+
+    writer.record(event("new"));
+    await writer.idle();
+
+    expect(store.rows.map((r) => r.seq)).toEqual([1, 2]);
+    expect(verifyAuditChain(store.rows).valid).toBe(true);
+  });
+
+  test("keeps events while the store is down and writes them once it is back", async () => {
+    const { store, provider } = memoryStore();
+    const writer = new AuditStoreWriter(async () => provider, { firstRetryMs: 10 });
+    store.down = true;
+
+    writer.record(event("a"));
+    await writer.idle();
+    writer.record(event("b"));
+    expect(writer.health()).toMatchObject({ status: "retrying", failures: 1, pending: 2 });
+    expect(writer.health().lastError).toBe("connect ECONNREFUSED");
+
+    store.down = false;
+    await wait(30);
+    await writer.idle();
+
+    expect(store.rows.map((r) => r.event.id)).toEqual(["a", "b"]);
+    expect(writer.health()).toMatchObject({ status: "healthy", stored: 2, failures: 0 });
+    writer.stop();
+  });
+
+  test("chains again from the new head when another process wrote first", async () => {
+    const { store, provider } = memoryStore();
+    const writer = new AuditStoreWriter(async () => provider, { firstRetryMs: 10 });
+    writer.record(event("a"));
+    await writer.idle();
+
+    // Another replica on the same database appends after the head this writer remembers.
+    store.rows.push(...chainAuditEvents(store.rows[0], [event("elsewhere")]));
+    writer.record(event("b"));
+    await writer.idle();
+    await wait(30);
+    await writer.idle();
+
+    expect(store.rows.map((r) => [r.seq, r.event.id])).toEqual([
+      [1, "a"],
+      [2, "elsewhere"],
+      [3, "b"],
+    ]);
+    expect(verifyAuditChain(store.rows).valid).toBe(true);
+    writer.stop();
+  });
+
+  test("drops the oldest pending events past its limit and counts them", async () => {
+    const { store, provider } = memoryStore();
+    const writer = new AuditStoreWriter(async () => provider, { maxPending: 2, firstRetryMs: 10 });
+    store.down = true;
+
+    for (const id of ["a", "b", "c", "d"]) writer.record(event(id));
+    await writer.idle();
+    expect(writer.health()).toMatchObject({ pending: 2, dropped: 2 });
+
+    store.down = false;
+    await wait(30);
+    await writer.idle();
+    expect(store.rows.map((r) => r.event.id)).toEqual(["c", "d"]);
+    writer.stop();
+  });
+
+  test("without server storage it stores nothing and says why", async () => {
+    const writer = new AuditStoreWriter(async () => null, { firstRetryMs: 10_000 });
+    writer.record(event("a"));
+    await writer.idle();
+    expect(writer.health()).toMatchObject({ status: "retrying", lastError: "Server storage is not configured" });
+    writer.stop();
+  });
+});
+
+describe("pruneAuditStore", () => {
+  test("removes events past the age limit, then past the count", async () => {
+    const { store, provider } = memoryStore();
+    store.rows.push(
+      ...chainAuditEvents(null, [
+        event("old", "2026-01-01T00:00:00.000Z"),
+        event("a", "2026-03-01T00:00:00.000Z"),
+        event("b", "2026-03-02T00:00:00.000Z"),
+        event("c", "2026-03-03T00:00:00.000Z"),
+      ]),
+    );
+
+    const removed = await pruneAuditStore(provider, { maxAgeDays: 30, maxEvents: 2 }, new Date("2026-03-10T00:00:00Z"));
+
+    expect(removed).toBe(2);
+    expect(store.rows.map((r) => r.event.id)).toEqual(["b", "c"]);
+    // What is left still verifies on its own links.
+    expect(verifyAuditChain(store.rows).valid).toBe(true);
+  });
+
+  test("does nothing when retention is off", async () => {
+    const { store, provider } = memoryStore();
+    store.rows.push(...chainAuditEvents(null, [event("a")]));
+    expect(await pruneAuditStore(provider, {})).toBe(0);
+    expect(store.rows).toHaveLength(1);
+  });
+});
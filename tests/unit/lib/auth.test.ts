@@ -158,6 +158,14 @@ describe("auth", () => {
       expect(payload!.role).toBe("user");
     });
 
+    test("gives every sign-in its own sid", async () => {
+      await login("user", "ops");
+      await login("user", "ops");
+      const [first, second] = await Promise.all(mockSetCalls.slice(0, 2).map((call) => verifyJWT(call.value)));
+      expect(first!.sid).toMatch(/^[0-9a-f-]{36}$/);
+      expect(second!.sid).not.toBe(first!.sid);
+    });
+
     // The Secure flag is what makes a session survive - or not - in the desktop
     // shell (issue #232): libsoup, the cookie store behind WebKitGTK, drops a
     // Secure cookie delivered over http outright, so the loopback session the
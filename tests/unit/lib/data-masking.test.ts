@@ -591,6 +591,18 @@ describe("getPreviewMasked", () => {
     expect(result).toBe("[HIDDEN]");
   });
 
+  test("a keyed type's preview is the server's example, as the browser has no key", () => {
+    expect(getPreviewMasked("token")).toMatch(/^tok_[0-9a-f]{16}$/);
+    expect(getPreviewMasked("format_preserving")).toMatch(/^\d{4}-\d{4}-\d{4}-\d{4}$/);
+    expect(getPreviewMasked("date_shift")).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+
+  test("the browser redacts a keyed type it cannot compute", () => {
+    expect(maskByType("ada@example.com", makePattern("token"))).toBe("tok_****************");
+    expect(maskByType("+1-555-0123", makePattern("format_preserving"))).toBe("+*-***-****");
+    expect(maskByType("1990-05-15", makePattern("date_shift"))).toBe("****-**-15");
+  });
+
   test("custom preview falls back to *** without customMask", () => {
     const result = getPreviewMasked("custom");
     expect(result).toBe("***");
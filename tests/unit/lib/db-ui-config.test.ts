@@ -15,6 +15,9 @@ const ALL_TYPES: DatabaseType[] = [
   "couchbase",
   "clickhouse",
   "druid",
+  "duckdb",
+  "cassandra",
+  "elasticsearch",
 ];
 
 describe("db-ui-config", () => {
@@ -85,6 +88,31 @@ describe("db-ui-config", () => {
       expect(getDBConfig("druid").connectionFields).toEqual(["host", "port", "user", "password"]);
     });
 
+    test("duckdb exposes its label and a database file path only", () => {
+      expect(getDBConfig("duckdb").label).toBe("DuckDB");
+      expect(getDBConfig("duckdb").defaultPort).toBe("");
+      expect(getDBConfig("duckdb").connectionFields).toEqual(["database"]);
+    });
+
+    test("cassandra takes a keyspace and a local data center beside the address", () => {
+      expect(getDBConfig("cassandra").label).toBe("Cassandra / ScyllaDB");
+      expect(getDBConfig("cassandra").defaultPort).toBe("9042");
+      expect(getDBConfig("cassandra").connectionFields).toEqual([
+        "host",
+        "port",
+        "user",
+        "password",
+        "database",
+        "dataCenter",
+      ]);
+    });
+
+    test("elasticsearch takes an address and credentials, and no database", () => {
+      expect(getDBConfig("elasticsearch").label).toBe("Elasticsearch / OpenSearch");
+      expect(getDBConfig("elasticsearch").defaultPort).toBe("9200");
+      expect(getDBConfig("elasticsearch").connectionFields).toEqual(["host", "port", "user", "password"]);
+    });
+
     test("druid offers no database field, because Druid has exactly one catalog", () => {
       // INFORMATION_SCHEMA.SCHEMATA reports exactly one catalog, always named `druid`
       // (issue #265, live-verified against Druid 37.0.0). A database selector would be
@@ -119,8 +147,9 @@ describe("db-ui-config", () => {
   });
 
   describe("isFileBased", () => {
-    test("sqlite and libredb are file-based", () => {
+    test("sqlite, duckdb and libredb are file-based", () => {
       expect(isFileBased("sqlite")).toBe(true);
+      expect(isFileBased("duckdb")).toBe(true);
       expect(isFileBased("libredb")).toBe(true);
     });
 
@@ -173,6 +202,9 @@ describe("db-showcase", () => {
         "couchbase",
         "clickhouse",
         "druid",
+        "duckdb",
+        "cassandra",
+        "elasticsearch",
         "libredb",
       ]);
     });
@@ -0,0 +1,118 @@
+import { describe, test, expect } from "bun:test";
+import { getExplainStrategy } from "@/lib/explain";
+import { cassandraTraceStrategy } from "@/lib/explain/cassandra-trace";
+
+// The shape the Cassandra provider writes from the driver's `QueryTrace` for a
+// single-partition read at CL ONE, routed by the coordinator to one replica.
+const SESSION = {
+  request: "Execute CQL3 query",
+  coordinator: "10.0.0.1",
+  client: "10.0.0.99",
+  startedAt: "2026-10-19T10:00:00.000Z",
+  durationMicros: 1850,
+  parameters: { query: "SELECT * FROM events WHERE device_id = ?", consistency_level: "ONE" },
+  rows: 3,
+  events: [
+    { activity: "Parsing SELECT * FROM events", source: "10.0.0.1", elapsedMicros: 120, thread: "Native-Transport-1" },
+    { activity: "Sending READ message to /10.0.0.2", source: "10.0.0.1", elapsedMicros: 480, thread: "Messaging-1" },
+    { activity: "READ message received", source: "10.0.0.2", elapsedMicros: 35, thread: "Messaging-2" },
+    { activity: "Read 3 live rows", source: "10.0.0.2", elapsedMicros: 910, thread: "ReadStage-1" },
+  ],
+};
+
+const traceResult = (session: unknown) => ({ rows: [{ trace: JSON.stringify(session) }] });
+
+describe("cassandraTraceStrategy", () => {
+  test("format id", () => {
+    expect(cassandraTraceStrategy.format).toBe("cassandra-trace");
+  });
+
+  test("is registered in the explain registry", () => {
+    expect(getExplainStrategy("cassandra-trace")).toBe(cassandraTraceStrategy);
+  });
+
+  test("buildSql traces a SELECT in analyze mode only, since there is no estimate to ask for", () => {
+    expect(cassandraTraceStrategy.buildSql("SELECT * FROM events", "analyze")).toBe(
+      "/* libredb:trace */ SELECT * FROM events",
+    );
+    expect(cassandraTraceStrategy.buildSql("SELECT * FROM events", "estimate")).toBeNull();
+  });
+
+  test("buildSql never traces a write, which would still write", () => {
+    expect(cassandraTraceStrategy.buildSql("INSERT INTO events (id) VALUES (1)", "analyze")).toBeNull();
+    expect(cassandraTraceStrategy.buildSql("DELETE FROM events WHERE id = 1", "analyze")).toBeNull();
+  });
+
+  // CQL block comments are flat and `//` is a line comment: read any other way,
+  // the SELECT inside the comment would answer for the DELETE after it.
+  test("buildSql reads comments the way CQL does", () => {
+    expect(cassandraTraceStrategy.buildSql("// SELECT\nDELETE FROM events WHERE id = 1", "analyze")).toBeNull();
+    expect(cassandraTraceStrategy.buildSql("/* a /* b */ SELECT * FROM events", "analyze")).toBe(
+      "/* libredb:trace */ /* a /* b */ SELECT * FROM events",
+    );
+  });
+
+  test("extractPlan parses the session carried by the trace cell", () => {
+    expect(cassandraTraceStrategy.extractPlan(traceResult(SESSION))).toEqual(SESSION);
+  });
+
+  test("extractPlan keeps the cell text when it cannot be parsed, and the rows when there is no cell", () => {
+    expect(cassandraTraceStrategy.extractPlan({ rows: [{ trace: "{ oops" }] })).toBe("{ oops");
+    const rows = [{ nope: 1 }];
+    expect(cassandraTraceStrategy.extractPlan({ rows })).toEqual(rows);
+  });
+
+  test("toRenderModel puts the request at the root, with its coordinator, statement and duration", () => {
+    const model = cassandraTraceStrategy.toRenderModel(SESSION);
+    expect(model?.kind).toBe("tree");
+    if (model?.kind !== "tree") return;
+
+    expect(model.root.label).toBe("Execute CQL3 query");
+    expect(model.root.detail).toBe("Coordinator: 10.0.0.1 | Query: SELECT * FROM events WHERE device_id = ?");
+    expect(model.root.metrics).toEqual({ actualTimeMs: 1.85, actualRows: 3 });
+    expect(model.raw).toBe(SESSION);
+  });
+
+  test("toRenderModel groups the events by the node that recorded them, coordinator first", () => {
+    const model = cassandraTraceStrategy.toRenderModel(SESSION);
+    if (model?.kind !== "tree") throw new Error("expected a tree");
+
+    const [coordinator, replica] = model.root.children;
+    expect(coordinator.label).toBe("Node 10.0.0.1");
+    expect(coordinator.detail).toBe("2 events");
+    expect(coordinator.metrics).toEqual({ actualTimeMs: 0.48 });
+    expect(replica.label).toBe("Node 10.0.0.2");
+    expect(replica.children.map((event) => event.label)).toEqual(["READ message received", "Read 3 live rows"]);
+    expect(replica.children[1]).toEqual({
+      label: "Read 3 live rows",
+      detail: "Thread: ReadStage-1",
+      metrics: { actualTimeMs: 0.91 },
+      children: [],
+    });
+  });
+
+  test("toRenderModel renders from the cell text as well as from the parsed session", () => {
+    const model = cassandraTraceStrategy.toRenderModel(JSON.stringify(SESSION));
+    expect(model?.kind).toBe("tree");
+  });
+
+  test("toRenderModel keeps a session whose events are missing their timings", () => {
+    const model = cassandraTraceStrategy.toRenderModel({
+      request: "Execute CQL3 query",
+      events: [{ activity: "Parsing" }, { nope: true }],
+    });
+    if (model?.kind !== "tree") throw new Error("expected a tree");
+
+    expect(model.root.metrics).toBeUndefined();
+    expect(model.root.children).toEqual([
+      { label: "Node unknown", detail: "1 event", children: [{ label: "Parsing", children: [] }] },
+    ]);
+  });
+
+  test("toRenderModel rejects shapes that are not trace sessions", () => {
+    expect(cassandraTraceStrategy.toRenderModel(null)).toBeNull();
+    expect(cassandraTraceStrategy.toRenderModel([{ name: "SEQ_SCAN" }])).toBeNull();
+    expect(cassandraTraceStrategy.toRenderModel({ request: "Execute CQL3 query" })).toBeNull();
+    expect(cassandraTraceStrategy.toRenderModel("not json")).toBeNull();
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, test, expect } from "bun:test";
+import { getExplainStrategy } from "@/lib/explain";
+import { duckdbJsonStrategy } from "@/lib/explain/duckdb-json";
+import type { ExplainTreeNode } from "@/lib/explain/types";
+
+// Captured verbatim from DuckDB v1.5.6 (the bundled @duckdb/node-api) for
+// `EXPLAIN (FORMAT JSON) SELECT u.email, count(*) FROM users u JOIN orders o
+//  ON o.user_id = u.id WHERE o.total > 10 GROUP BY u.email`.
+const LIVE_ESTIMATE = [
+  {
+    name: "PROJECTION",
+    children: [
+      {
+        name: "HASH_GROUP_BY",
+        children: [
+          {
+            name: "PROJECTION",
+            children: [
+              {
+                name: "PROJECTION",
+                children: [
+                  {
+                    name: "HASH_JOIN",
+                    children: [
+                      {
+                        name: "SEQ_SCAN",
+                        children: [],
+                        extra_info: {
+                          Table: "memory.main.users",
+                          Type: "Sequential Scan",
+                          Projections: ["id", "email"],
+                          Filters: "id<=49",
+                          "Estimated Cardinality": "200",
+                        },
+                      },
+                      {
+                        name: "SEQ_SCAN",
+                        children: [],
+                        extra_info: {
+                          Table: "memory.main.orders",
+                          Type: "Sequential Scan",
+                          Projections: "user_id",
+                          Filters: "total>10",
+                          "Estimated Cardinality": "200",
+                        },
+                      },
+                    ],
+                    extra_info: { "Join Type": "INNER", Conditions: "id = user_id", "Estimated Cardinality": "200" },
+                  },
+                ],
+                extra_info: {
+                  Projections: [
+                    "__internal_compress_string_ubigint(#0)",
+                    "__internal_compress_integral_utinyint(#1, 0)",
+                  ],
+                  "Estimated Cardinality": "200",
+                },
+              },
+            ],
+            extra_info: { Projections: "email", "Estimated Cardinality": "200" },
+          },
+        ],
+        extra_info: { Groups: "#0", Aggregates: "count_star()", "Estimated Cardinality": "126" },
+      },
+    ],
+    extra_info: { Projections: ["__internal_decompress_string(#0)", "#1"], "Estimated Cardinality": "126" },
+  },
+];
+
+// Also live, abridged to the keys the strategy reads (the profile carries two dozen
+// latency and memory counters at every level):
+// `EXPLAIN (ANALYZE, FORMAT JSON) SELECT id FROM users WHERE id > 150`.
+const LIVE_ANALYZE = {
+  query_name: "EXPLAIN (ANALYZE, FORMAT JSON) SELECT id FROM users WHERE id > 150",
+  latency: 0.001524957,
+  children: [
+    {
+      operator_name: "EXPLAIN_ANALYZE",
+      operator_type: "EXPLAIN_ANALYZE",
+      operator_timing: 4.55e-7,
+      operator_cardinality: 0,
+      extra_info: {},
+      children: [
+        {
+          operator_name: "SEQ_SCAN",
+          operator_type: "TABLE_SCAN",
+          operator_timing: 0.000071298,
+          operator_cardinality: 49,
+          extra_info: {
+            Table: "memory.main.users",
+            Type: "Index Scan",
+            Projections: "id",
+            Filters: "id>150",
+            "Estimated Cardinality": "40",
+          },
+          children: [],
+        },
+      ],
+    },
+  ],
+};
+
+/** The wire shape: one row whose `explain_value` VARCHAR holds the plan as JSON text. */
+function explainResult(plan: unknown): { rows: Array<Record<string, unknown>> } {
+  return { rows: [{ explain_key: "physical_plan", explain_value: JSON.stringify(plan) }] };
+}
+
+function treeRoot(raw: unknown): ExplainTreeNode {
+  const model = duckdbJsonStrategy.toRenderModel(raw);
+  expect(model?.kind).toBe("tree");
+  return (model as { root: ExplainTreeNode }).root;
+}
+
+/** Follows first children down from the root, collecting every label on the way. */
+function spineLabels(root: ExplainTreeNode): string[] {
+  const labels: string[] = [];
+  for (let node: ExplainTreeNode | undefined = root; node !== undefined; node = node.children[0]) {
+    labels.push(node.label);
+  }
+  return labels;
+}
+
+describe("duckdbJsonStrategy", () => {
+  test("format id", () => {
+    expect(duckdbJsonStrategy.format).toBe("duckdb-json");
+  });
+
+  test("is registered in the explain registry", () => {
+    expect(getExplainStrategy("duckdb-json")).toBe(duckdbJsonStrategy);
+  });
+
+  test("buildSql asks for the JSON estimate, and runs the statement only in analyze mode", () => {
+    expect(duckdbJsonStrategy.buildSql("SELECT id FROM users", "estimate")).toBe(
+      "EXPLAIN (FORMAT JSON) SELECT id FROM users",
+    );
+    expect(duckdbJsonStrategy.buildSql("SELECT id FROM users", "analyze")).toBe(
+      "EXPLAIN (ANALYZE, FORMAT JSON) SELECT id FROM users",
+    );
+  });
+
+  test("buildSql explains a file read straight from the editor", () => {
+    const sql = "SELECT * FROM read_parquet('/data/drops/events.parquet')";
+    expect(duckdbJsonStrategy.buildSql(sql, "estimate")).toBe(`EXPLAIN (FORMAT JSON) ${sql}`);
+  });
+
+  // EXPLAIN ANALYZE executes, so a write that reaches it runs. Block comments nest in
+  // DuckDB: read flat, the first `*/` would end the comment and expose the SELECT.
+  test("buildSql reads a nested comment the way DuckDB does", () => {
+    expect(duckdbJsonStrategy.buildSql("/* a /* b */ SELECT 1 */ DELETE FROM users", "analyze")).toBeNull();
+
+    const read = "/* a /* b */ x */ SELECT 1";
+    expect(duckdbJsonStrategy.buildSql(read, "analyze")).toBe(`EXPLAIN (ANALYZE, FORMAT JSON) ${read}`);
+  });
+
+  test("buildSql returns null for non-SELECT statements in both modes", () => {
+    expect(duckdbJsonStrategy.buildSql("INSERT INTO users VALUES (1, 'a')", "estimate")).toBeNull();
+    expect(duckdbJsonStrategy.buildSql("COPY users TO '/data/drops/u.csv'", "analyze")).toBeNull();
+    expect(duckdbJsonStrategy.buildSql("EXPLAIN SELECT 1", "estimate")).toBeNull();
+  });
+
+  test("extractPlan parses the JSON text carried by the explain_value cell", () => {
+    expect(duckdbJsonStrategy.extractPlan(explainResult(LIVE_ESTIMATE))).toEqual(LIVE_ESTIMATE);
+    expect(duckdbJsonStrategy.extractPlan(explainResult(LIVE_ANALYZE))).toEqual(LIVE_ANALYZE);
+  });
+
+  test("extractPlan keeps the cell text when it cannot be parsed, and the rows when there is no cell", () => {
+    expect(duckdbJsonStrategy.extractPlan({ rows: [{ explain_value: "[{ oops" }] })).toBe("[{ oops");
+    const rows = [{ nope: 1 }];
+    expect(duckdbJsonStrategy.extractPlan({ rows })).toEqual(rows);
+    expect(duckdbJsonStrategy.extractPlan({})).toBeUndefined();
+  });
+
+  test("toRenderModel walks the estimate down to the first scan", () => {
+    const model = duckdbJsonStrategy.toRenderModel(LIVE_ESTIMATE);
+    expect(model).toEqual({ kind: "tree", root: expect.anything(), raw: LIVE_ESTIMATE });
+    expect(spineLabels((model as { root: ExplainTreeNode }).root)).toEqual([
+      "PROJECTION",
+      "HASH_GROUP_BY",
+      "PROJECTION",
+      "PROJECTION",
+      "HASH_JOIN",
+      "SEQ_SCAN",
+    ]);
+  });
+
+  test("toRenderModel shows the table, join and aggregate details, and the row estimate", () => {
+    const groupBy = treeRoot(LIVE_ESTIMATE).children[0];
+    expect(groupBy.detail).toBe("Groups: #0 | Aggregates: count_star()");
+    expect(groupBy.metrics).toEqual({ estRows: 126 });
+
+    const join = groupBy.children[0].children[0].children[0];
+    expect(join.detail).toBe("Conditions: id = user_id | Join Type: INNER");
+    expect(join.children.map((scan) => scan.detail)).toEqual([
+      "Table: memory.main.users | Type: Sequential Scan | Filters: id<=49",
+      "Table: memory.main.orders | Type: Sequential Scan | Filters: total>10",
+    ]);
+  });
+
+  // The engine's compression projections are internals, not something a user wrote.
+  test("toRenderModel leaves projections out of the detail line", () => {
+    const root = treeRoot(LIVE_ESTIMATE);
+    expect(root.detail).toBeUndefined();
+    expect(root.metrics).toEqual({ estRows: 126 });
+  });
+
+  test("toRenderModel starts an analyzed plan below the EXPLAIN_ANALYZE wrapper, with what the run measured", () => {
+    const root = treeRoot(LIVE_ANALYZE);
+    expect(root.label).toBe("SEQ_SCAN");
+    expect(root.metrics?.estRows).toBe(40);
+    expect(root.metrics?.actualRows).toBe(49);
+    expect(root.metrics?.actualTimeMs).toBeCloseTo(0.071298, 6);
+  });
+
+  test("toRenderModel renders end to end from what extractPlan stored, or from the cell text", () => {
+    expect(treeRoot(duckdbJsonStrategy.extractPlan(explainResult(LIVE_ANALYZE))).label).toBe("SEQ_SCAN");
+    expect(treeRoot(JSON.stringify(LIVE_ESTIMATE)).label).toBe("PROJECTION");
+  });
+
+  test("toRenderModel puts several top operators under one root", () => {
+    const root = treeRoot([{ name: "SEQ_SCAN" }, { name: "DUMMY_SCAN" }]);
+    expect(root.label).toBe("Query Plan");
+    expect(root.children.map((child) => child.label)).toEqual(["SEQ_SCAN", "DUMMY_SCAN"]);
+  });
+
+  test("toRenderModel ignores an estimate that is not a count of rows", () => {
+    expect(treeRoot([{ name: "SEQ_SCAN", extra_info: { "Estimated Cardinality": "~1" } }]).metrics).toBeUndefined();
+  });
+
+  test("toRenderModel rejects shapes that are not DuckDB plans", () => {
+    expect(duckdbJsonStrategy.toRenderModel(null)).toBeNull();
+    expect(duckdbJsonStrategy.toRenderModel([])).toBeNull();
+    expect(duckdbJsonStrategy.toRenderModel({})).toBeNull();
+    expect(duckdbJsonStrategy.toRenderModel([{ children: [] }])).toBeNull();
+    expect(duckdbJsonStrategy.toRenderModel({ children: [{ operator_name: "EXPLAIN_ANALYZE" }] })).toBeNull();
+    expect(duckdbJsonStrategy.toRenderModel("[{ oops")).toBeNull();
+  });
+});
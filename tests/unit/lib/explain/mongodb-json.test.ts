@@ -0,0 +1,173 @@
+import { describe, test, expect } from "bun:test";
+import { getExplainStrategy } from "@/lib/explain";
+import { mongodbJsonStrategy } from "@/lib/explain/mongodb-json";
+import type { ExplainTreeNode } from "@/lib/explain/types";
+
+// The classic engine's explain of `db.users.find({ email: /@acme/ }).limit(5)` at
+// executionStats, trimmed to what the strategy reads.
+const FIND_EXPLAIN = {
+  queryPlanner: {
+    namespace: "app.users",
+    winningPlan: { stage: "LIMIT", inputStage: { stage: "FETCH" } },
+    rejectedPlans: [],
+  },
+  executionStats: {
+    nReturned: 5,
+    executionTimeMillis: 3,
+    totalKeysExamined: 40,
+    totalDocsExamined: 40,
+    executionStages: {
+      stage: "LIMIT",
+      nReturned: 5,
+      executionTimeMillisEstimate: 2,
+      limitAmount: 5,
+      inputStage: {
+        stage: "FETCH",
+        nReturned: 5,
+        executionTimeMillisEstimate: 2,
+        docsExamined: 40,
+        filter: { email: { $regex: "@acme" } },
+        inputStage: {
+          stage: "IXSCAN",
+          nReturned: 40,
+          executionTimeMillisEstimate: 1,
+          keysExamined: 40,
+          indexName: "email_1",
+          keyPattern: { email: 1 },
+        },
+      },
+    },
+  },
+  ok: 1,
+};
+
+const labels = (node: ExplainTreeNode): string[] => [node.label, ...node.children.flatMap(labels)];
+
+describe("mongodbJsonStrategy", () => {
+  test("format id", () => {
+    expect(mongodbJsonStrategy.format).toBe("mongodb-json");
+  });
+
+  test("is registered in the explain registry", () => {
+    expect(getExplainStrategy("mongodb-json")).toBe(mongodbJsonStrategy);
+  });
+
+  test("buildSql asks the envelope for its plan, measured in analyze mode and planned in estimate mode", () => {
+    const find = '{"collection":"users","operation":"find","filter":{"a":1}}';
+    expect(JSON.parse(mongodbJsonStrategy.buildSql(find, "analyze")!)).toEqual({
+      collection: "users",
+      operation: "find",
+      filter: { a: 1 },
+      explain: "executionStats",
+    });
+    expect(JSON.parse(mongodbJsonStrategy.buildSql(find, "estimate")!).explain).toBe("queryPlanner");
+  });
+
+  test("buildSql writes explain() into shell text, keeping its values as written", () => {
+    expect(
+      mongodbJsonStrategy.buildSql("db.users.find({ _id: ObjectId('65a1b2c3d4e5f60718293a4b') }).limit(5)", "analyze"),
+    ).toBe(`db.users.explain("executionStats").find({ _id: ObjectId('65a1b2c3d4e5f60718293a4b') }).limit(5)`);
+    expect(mongodbJsonStrategy.buildSql("db.users.countDocuments({})", "estimate")).toBe(
+      'db.users.explain("queryPlanner").countDocuments({})',
+    );
+  });
+
+  test("buildSql never explains a write, or an aggregate that writes out", () => {
+    expect(mongodbJsonStrategy.buildSql("db.users.deleteMany({})", "analyze")).toBeNull();
+    expect(mongodbJsonStrategy.buildSql("db.users.createIndex({ a: 1 })", "analyze")).toBeNull();
+    expect(mongodbJsonStrategy.buildSql("db.users.aggregate([{ $out: 'copy' }])", "analyze")).toBeNull();
+    expect(mongodbJsonStrategy.buildSql("db.users.findOne({})", "analyze")).toBeNull();
+    expect(mongodbJsonStrategy.buildSql("db.users.find(", "analyze")).toBeNull();
+  });
+
+  test("buildSql runs text that already asks for a plan as written, and does not ask again in the background", () => {
+    const explained = "db.users.find({}).explain('allPlansExecution')";
+    expect(mongodbJsonStrategy.buildSql(explained, "analyze")).toBe(explained);
+    expect(mongodbJsonStrategy.buildSql(explained, "estimate")).toBeNull();
+  });
+
+  test("extractPlan takes the explain document the provider returns as its one row", () => {
+    expect(mongodbJsonStrategy.extractPlan({ rows: [FIND_EXPLAIN] })).toBe(FIND_EXPLAIN);
+  });
+
+  test("toRenderModel renders the measured stages under a root carrying the totals", () => {
+    const model = mongodbJsonStrategy.toRenderModel(FIND_EXPLAIN);
+    if (model?.kind !== "tree") throw new Error("expected a tree");
+
+    expect(model.root.label).toBe("app.users");
+    expect(model.root.detail).toBe("Keys examined: 40 | Docs examined: 40");
+    expect(model.root.metrics).toEqual({ actualRows: 5, actualTimeMs: 3 });
+    expect(labels(model.root)).toEqual(["app.users", "LIMIT", "FETCH", "IXSCAN"]);
+
+    const ixscan = model.root.children[0].children[0].children[0];
+    expect(ixscan.detail).toBe('Index: email_1 {"email":1} | Keys examined: 40');
+    expect(ixscan.metrics).toEqual({ actualRows: 40, actualTimeMs: 1 });
+    expect(model.root.children[0].children[0].detail).toBe('Filter: {"email":{"$regex":"@acme"}} | Docs examined: 40');
+  });
+
+  test("toRenderModel falls back to the planner's choice, read through the slot-based engine's queryPlan", () => {
+    const model = mongodbJsonStrategy.toRenderModel({
+      queryPlanner: {
+        namespace: "app.users",
+        winningPlan: { queryPlan: { stage: "COLLSCAN", filter: { a: { $eq: 1 } } }, slotBasedPlan: {} },
+        rejectedPlans: [{}, {}],
+      },
+    });
+    if (model?.kind !== "tree") throw new Error("expected a tree");
+
+    expect(model.root.detail).toBe("2 rejected plans");
+    expect(model.root.children[0]).toEqual({ label: "COLLSCAN", detail: 'Filter: {"a":{"$eq":1}}', children: [] });
+  });
+
+  test("toRenderModel gives each shard of a sharded plan its own branch", () => {
+    const model = mongodbJsonStrategy.toRenderModel({
+      queryPlanner: {
+        winningPlan: {
+          stage: "SHARD_MERGE",
+          shards: [
+            { shardName: "rs0", winningPlan: { stage: "IXSCAN", indexName: "a_1" } },
+            { shardName: "rs1", winningPlan: { stage: "COLLSCAN" } },
+          ],
+        },
+      },
+    });
+    if (model?.kind !== "tree") throw new Error("expected a tree");
+
+    expect(labels(model.root)).toEqual(["Query", "SHARD_MERGE", "Shard rs0", "IXSCAN", "Shard rs1", "COLLSCAN"]);
+  });
+
+  test("toRenderModel chains an aggregate's stages, last stage at the root and the $cursor's plan at the bottom", () => {
+    const model = mongodbJsonStrategy.toRenderModel({
+      stages: [
+        {
+          $cursor: { queryPlanner: { namespace: "app.orders", winningPlan: { stage: "COLLSCAN" } } },
+          nReturned: 100,
+          executionTimeMillisEstimate: 4,
+        },
+        { $group: { _id: "$status", n: { $sum: 1 } }, nReturned: 3, executionTimeMillisEstimate: 5 },
+        { $sort: { sortKey: { n: -1 } }, nReturned: 3, executionTimeMillisEstimate: 5 },
+      ],
+    });
+    if (model?.kind !== "tree") throw new Error("expected a tree");
+
+    expect(labels(model.root)).toEqual(["$sort", "$group", "app.orders", "COLLSCAN"]);
+    expect(model.root.children[0].detail).toBe('{"_id":"$status","n":{"$sum":1}}');
+    expect(model.root.children[0].metrics).toEqual({ actualRows: 3, actualTimeMs: 5 });
+    expect(model.root.children[0].children[0].metrics).toEqual({ actualRows: 100, actualTimeMs: 4 });
+  });
+
+  test("toRenderModel stops a plan that nests without end, and says so", () => {
+    let stage: Record<string, unknown> = { stage: "COLLSCAN" };
+    for (let i = 0; i < 100; i++) stage = { stage: "FETCH", inputStage: stage };
+    const model = mongodbJsonStrategy.toRenderModel({ queryPlanner: { winningPlan: stage } });
+    if (model?.kind !== "tree") throw new Error("expected a tree");
+
+    expect(labels(model.root).at(-1)).toBe("plan truncated: nesting limit reached");
+  });
+
+  test("toRenderModel returns null for a shape it does not know", () => {
+    expect(mongodbJsonStrategy.toRenderModel(null)).toBeNull();
+    expect(mongodbJsonStrategy.toRenderModel([{ stage: "COLLSCAN" }])).toBeNull();
+    expect(mongodbJsonStrategy.toRenderModel({ ok: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, test, expect } from "bun:test";
+import { typedColumns } from "@/lib/export/column-kinds";
+
+const kindOf = (values: unknown[], declared?: string) =>
+  typedColumns(
+    ["c"],
+    values.map((c) => ({ c })),
+    declared === undefined ? undefined : { c: declared },
+  )[0];
+
+describe("typedColumns — declared types", () => {
+  test("reads the kind from each engine's own spelling", () => {
+    expect(kindOf([1], "int4").kind).toBe("integer");
+    expect(kindOf([1], "BIGINT UNSIGNED").kind).toBe("integer");
+    expect(kindOf([1], "Nullable(Int64)").kind).toBe("integer");
+    expect(kindOf([1.5], "DOUBLE PRECISION").kind).toBe("numeric");
+    expect(kindOf(["1.5"], "NUMBER(10,2)").kind).toBe("decimal");
+    expect(kindOf([true], "bool").kind).toBe("boolean");
+    expect(kindOf([new Date(0)], "timestamp with time zone").kind).toBe("timestamp");
+    expect(kindOf([{ a: 1 }], "jsonb").kind).toBe("json");
+    expect(kindOf(["x"], "interval").kind).toBe("text");
+  });
+
+  test("converts the text a driver returns for a wide number", () => {
+    expect(kindOf(["9007199254740993"], "int8").values).toEqual([BigInt("9007199254740993")]);
+    expect(kindOf(["10.50"], "numeric").values).toEqual(["10.50"]);
+  });
+
+  test("reads a zone-less timestamp as UTC rather than as the local time", () => {
+    expect(kindOf(["2025-01-01 12:00:00"], "datetime").values).toEqual([new Date("2025-01-01T12:00:00Z")]);
+  });
+
+  test("falls back to text when a value does not fit, as a masked one does not", () => {
+    const column = kindOf([1, "****"], "integer");
+
+    expect(column.kind).toBe("text");
+    expect(column.values).toEqual(["1", "****"]);
+  });
+
+  test("tries a double before text for an integer column holding a fraction", () => {
+    expect(kindOf([1, 2.5], "INTEGER")).toEqual({ name: "c", kind: "numeric", values: [1, 2.5] });
+  });
+});
+
+describe("typedColumns — nothing declared", () => {
+  test("reads the kind off the values' own types", () => {
+    expect(kindOf([1, BigInt(2)]).kind).toBe("integer");
+    expect(kindOf([1, 2.5]).kind).toBe("numeric");
+    expect(kindOf([new Date(0), null]).kind).toBe("timestamp");
+  });
+
+  test("leaves a string that looks like a number as text", () => {
+    expect(kindOf(["1", "2"]).kind).toBe("text");
+  });
+
+  test("writes a column of mixed kinds as text", () => {
+    expect(kindOf([1, true]).values).toEqual(["1", "true"]);
+  });
+
+  test("keeps a missing value as null in every kind", () => {
+    expect(kindOf([null, 1, undefined]).values).toEqual([null, BigInt(1), null]);
+  });
+});
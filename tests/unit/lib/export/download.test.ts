@@ -1,5 +1,5 @@
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { downloadBlob, downloadText } from "@/lib/export/download";
+import { downloadBlob, downloadExport, downloadText, openSaveFile, submitDownloadForm } from "@/lib/export/download";
 
 interface Recorded {
   created: Blob[];
@@ -128,3 +128,94 @@ describe("downloadText", () => {
     expect(await firstBytes(recorded.created[0], 1)).toEqual(["{".charCodeAt(0)]);
   });
 });
+
+describe("downloadExport", () => {
+  const bytesOf = async (blob: Blob) => [...new Uint8Array(await blob.arrayBuffer())];
+
+  test("hands over a binary export's bytes exactly as built", async () => {
+    const bytes = new Uint8Array([0x50, 0x4b, 0x03, 0x04]);
+    downloadExport(bytes, "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", "rows.xlsx");
+
+    expect(await bytesOf(recorded.created[0])).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(recorded.clicked[0].download).toBe("rows.xlsx");
+  });
+
+  test("writes a text export through the same path as downloadText", async () => {
+    downloadExport("a,b", "text/csv;charset=utf-8", "rows.csv");
+
+    expect((await bytesOf(recorded.created[0])).slice(0, 3)).toEqual([0xef, 0xbb, 0xbf]);
+  });
+});
+
+describe("openSaveFile", () => {
+  const win = window as Window & { showSaveFilePicker?: unknown };
+
+  afterEach(() => {
+    delete win.showSaveFilePicker;
+  });
+
+  test("is null where the browser has no save dialog", async () => {
+    expect(await openSaveFile("rows.csv")).toBeNull();
+  });
+
+  test("proposes the name and opens the picked file for writing", async () => {
+    const writable = new WritableStream();
+    const asked: unknown[] = [];
+    win.showSaveFilePicker = async (options: unknown) => {
+      asked.push(options);
+      return { createWritable: async () => writable };
+    };
+
+    expect((await openSaveFile("query_result_export.csv")) as unknown).toBe(writable);
+    expect(asked).toEqual([{ suggestedName: "query_result_export.csv" }]);
+  });
+});
+
+describe("submitDownloadForm", () => {
+  let submitted: { action: string; method: string; target: string; payload: string; inDocument: boolean }[];
+  let originalSubmit: () => void;
+
+  beforeEach(() => {
+    submitted = [];
+    originalSubmit = HTMLFormElement.prototype.submit;
+    HTMLFormElement.prototype.submit = function (this: HTMLFormElement) {
+      submitted.push({
+        action: this.action,
+        method: this.method,
+        target: this.target,
+        payload: (this.elements.namedItem("payload") as HTMLInputElement).value,
+        inDocument: document.body.contains(this),
+      });
+    };
+  });
+
+  afterEach(() => {
+    HTMLFormElement.prototype.submit = originalSubmit;
+    for (const frame of document.querySelectorAll("iframe")) frame.remove();
+  });
+
+  test("posts the payload as JSON into a hidden frame, leaving no form behind", () => {
+    submitDownloadForm("/api/db/export", { sql: "SELECT 1", format: "csv" }, () => {});
+
+    const frame = document.querySelector("iframe");
+    expect(submitted).toHaveLength(1);
+    expect(submitted[0].action).toEndWith("/api/db/export");
+    expect(submitted[0].method.toLowerCase()).toBe("post");
+    expect(submitted[0].target).toBe(frame?.name ?? "");
+    expect(JSON.parse(submitted[0].payload)).toEqual({ sql: "SELECT 1", format: "csv" });
+    expect(submitted[0].inDocument).toBe(true);
+    expect(document.querySelectorAll("form")).toHaveLength(0);
+  });
+
+  test("reports the route's error when one is shown instead of the file", () => {
+    const errors: string[] = [];
+    submitDownloadForm("/api/db/export", {}, (message) => errors.push(message));
+
+    const frame = document.querySelector("iframe") as HTMLIFrameElement;
+    (frame.contentDocument as Document).body.textContent = JSON.stringify({ error: "Add an ORDER BY" });
+    frame.dispatchEvent(new Event("load"));
+
+    expect(errors).toEqual(["Add an ORDER BY"]);
+    expect(document.querySelectorAll("iframe")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, test, expect, mock } from "bun:test";
+import { createMockProvider } from "../../../helpers/mock-provider";
+import { createResultExportStream, readResultBatches } from "@/lib/export/stream";
+import { DEFAULT_MASKING_POLICY } from "@/lib/masking/store";
+import type { DatabaseProvider, QueryBatch } from "@/lib/db/types";
+import type { EditorExecution } from "@/lib/access/editor-execution";
+
+/** A provider whose table holds `total` rows, paged by the offset `prepareQuery` was given. */
+function pagedProvider(total: number, wasLimited = true): DatabaseProvider {
+  const provider = createMockProvider();
+  let lastOffset = 0;
+  let lastLimit = 0;
+  provider.prepareQuery = mock((query: string, options: { limit?: number; offset?: number } = {}) => {
+    lastOffset = options.offset ?? 0;
+    lastLimit = options.limit ?? 500;
+    return { query, wasLimited, limit: lastLimit, offset: lastOffset };
+  });
+  provider.query = mock(async () => {
+    const count = wasLimited ? Math.max(0, Math.min(lastLimit, total - lastOffset)) : total;
+    const rows = Array.from({ length: count }, (_, i) => ({
+      id: lastOffset + i + 1,
+      email: `u${lastOffset + i}@x.io`,
+    }));
+    return { rows, fields: ["id", "email"], rowCount: rows.length, executionTime: 1 };
+  });
+  return provider;
+}
+
+/** `provider` as `editorExecution` hands a read-write connection's over: its own `query`. */
+function onProvider(provider: DatabaseProvider): EditorExecution {
+  return { provider, query: (sql, params) => provider.query(sql, params) };
+}
+
+async function collect(batches: AsyncGenerator<QueryBatch>): Promise<QueryBatch[]> {
+  const out: QueryBatch[] = [];
+  for await (const batch of batches) out.push(batch);
+  return out;
+}
+
+describe("readResultBatches", () => {
+  test("pages through prepareQuery until a short page", async () => {
+    const provider = pagedProvider(25);
+    const batches = await collect(
+      readResultBatches(onProvider(provider), "SELECT * FROM t ORDER BY id", undefined, 10),
+    );
+
+    expect(batches.map((b) => b.rows.length)).toEqual([10, 10, 5]);
+    expect(batches.flatMap((b) => b.rows).map((r) => r.id)).toEqual(Array.from({ length: 25 }, (_, i) => i + 1));
+  });
+
+  test("runs each page on the execution's path, not on the provider's own query", async () => {
+    const provider = pagedProvider(5);
+    const readOnly = mock((sql: string, params?: unknown[]) => provider.query(sql, params));
+    await collect(readResultBatches({ provider, query: readOnly }, "SELECT * FROM t", ["x"], 10));
+
+    expect(readOnly).toHaveBeenCalledWith("SELECT * FROM t", ["x"]);
+  });
+
+  test("refuses to page an unordered statement past its first page, before handing any batch over", async () => {
+    const provider = pagedProvider(25);
+    const batches = readResultBatches(onProvider(provider), "SELECT * FROM t -- ORDER BY id", undefined, 10);
+
+    await expect(batches.next()).rejects.toThrow("Add an ORDER BY");
+    expect(provider.query).toHaveBeenCalledTimes(1);
+  });
+
+  test("reads an unordered statement that fits in one page", async () => {
+    const batches = await collect(readResultBatches(onProvider(pagedProvider(5)), "SELECT * FROM t", undefined, 10));
+
+    expect(batches.map((b) => b.rows.length)).toEqual([5]);
+  });
+
+  test("stops after one run when the statement was not bounded, instead of writing it twice", async () => {
+    const provider = pagedProvider(30, false);
+    const batches = await collect(readResultBatches(onProvider(provider), "SELECT * FROM t LIMIT 30", undefined, 10));
+
+    expect(batches).toHaveLength(1);
+    expect(provider.query).toHaveBeenCalledTimes(1);
+  });
+
+  test("reads through the provider's own cursor when it has one", async () => {
+    const provider = pagedProvider(0);
+    provider.queryStream = async function* () {
+      yield { rows: [{ id: 1 }], fields: ["id"] };
+      yield { rows: [{ id: 2 }], fields: ["id"] };
+    };
+    const batches = await collect(readResultBatches(onProvider(provider), "SELECT 1", ["x"], 1));
+
+    expect(batches.map((b) => b.rows)).toEqual([[{ id: 1 }], [{ id: 2 }]]);
+    expect(provider.query).not.toHaveBeenCalled();
+  });
+});
+
+describe("createResultExportStream", () => {
+  const text = (stream: ReadableStream<Uint8Array>) => new Response(stream).text();
+
+  test("streams every page through the CSV writer, masked", async () => {
+    const file = await createResultExportStream({
+      execution: onProvider(pagedProvider(3)),
+      sql: "SELECT * FROM users ORDER BY id",
+      format: "csv",
+      tabName: "users",
+      dialect: "postgres",
+      masking: { policy: DEFAULT_MASKING_POLICY, connection: null },
+      batchSize: 2,
+    });
+
+    expect(file.mimeType).toBe("text/csv;charset=utf-8");
+    expect(await text(file.stream)).toBe("id,email\n1,u**@x***\n2,u**@x***\n3,u**@x***");
+  });
+
+  // Read as bytes: the text decoder drops a leading mark, so `text()` cannot see it.
+  test("begins a CSV with the byte order mark, since the browser saves the body as sent", async () => {
+    const file = await createResultExportStream({
+      execution: onProvider(pagedProvider(1)),
+      sql: "SELECT * FROM users ORDER BY id",
+      format: "csv",
+      tabName: "users",
+      dialect: "postgres",
+      masking: null,
+    });
+
+    const bytes = new Uint8Array(await new Response(file.stream).arrayBuffer());
+    expect([...bytes.slice(0, 3)]).toEqual([0xef, 0xbb, 0xbf]);
+  });
+
+  test("writes an empty result the way the grid's export would", async () => {
+    const file = await createResultExportStream({
+      execution: onProvider(pagedProvider(0)),
+      sql: "SELECT * FROM users",
+      format: "sql-insert",
+      tabName: "users",
+      dialect: "postgres",
+      masking: null,
+    });
+
+    expect(await text(file.stream)).toBe("-- No rows to export.");
+  });
+
+  test("fails before the stream exists when the engine refuses the statement", async () => {
+    const provider = createMockProvider();
+    provider.query = mock(async () => {
+      throw new Error("relation does not exist");
+    });
+
+    await expect(
+      createResultExportStream({
+        execution: onProvider(provider),
+        sql: "SELECT * FROM missing",
+        format: "json",
+        tabName: "missing",
+        dialect: "postgres",
+        masking: null,
+      }),
+    ).rejects.toThrow("relation does not exist");
+  });
+
+  test("returns the batch generator when the reader cancels", async () => {
+    let released = false;
+    const provider = createMockProvider();
+    provider.queryStream = async function* () {
+      try {
+        for (let i = 0; ; i++) yield { rows: [{ id: i }], fields: ["id"] };
+      } finally {
+        released = true;
+      }
+    };
+    const file = await createResultExportStream({
+      execution: onProvider(provider),
+      sql: "SELECT * FROM huge",
+      format: "csv",
+      tabName: "huge",
+      dialect: "postgres",
+      masking: null,
+    });
+
+    const reader = file.stream.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(released).toBe(true);
+  });
+});
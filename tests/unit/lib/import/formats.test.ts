@@ -0,0 +1,102 @@
+import { describe, test, expect } from "bun:test";
+import { importFormatFor, IMPORT_FILE_ACCEPT, openImportSource } from "@/lib/import/formats";
+import { parseNDJSON } from "@/lib/import/text";
+import { inferSqlType, resolveColumnTypes } from "@/lib/import/infer";
+
+function textBuffer(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+// ============================================================================
+// Format registry
+// ============================================================================
+
+describe("importFormatFor", () => {
+  test("selects a format by extension, case-insensitively", () => {
+    expect(importFormatFor("orders.NDJSON").id).toBe("ndjson");
+    expect(importFormatFor("orders.jsonl").id).toBe("ndjson");
+    expect(importFormatFor("Report.xlsx").id).toBe("xlsx");
+    expect(importFormatFor("events.parquet").id).toBe("parquet");
+    expect(importFormatFor("data.tsv").id).toBe("csv");
+  });
+
+  test("reads an unknown extension as CSV, as the dialog always has", () => {
+    expect(importFormatFor("export.txt").id).toBe("csv");
+    expect(importFormatFor("noextension").id).toBe("csv");
+  });
+
+  test("accepts every extension a format claims", () => {
+    for (const ext of [".csv", ".tsv", ".json", ".ndjson", ".jsonl", ".xlsx", ".parquet"]) {
+      expect(IMPORT_FILE_ACCEPT.split(",")).toContain(ext);
+    }
+  });
+});
+
+// ============================================================================
+// NDJSON
+// ============================================================================
+
+describe("parseNDJSON", () => {
+  test("reads one object per line and skips blank lines", () => {
+    const result = parseNDJSON('{"id":1,"name":"a"}\n\n{"id":2,"tags":["x"]}\r\n');
+
+    expect(result.headers).toEqual(["id", "name", "tags"]);
+    expect(result.rows).toEqual([
+      ["1", "a", ""],
+      ["2", "", '["x"]'],
+    ]);
+  });
+
+  test("names the line that does not parse", () => {
+    expect(() => parseNDJSON('{"id":1}\n{"id":\n')).toThrow("Line 2 is not valid JSON");
+  });
+
+  test("refuses a line that is not an object", () => {
+    expect(() => parseNDJSON('{"id":1}\n[1,2]')).toThrow("Line 2 is not a JSON object");
+  });
+});
+
+// ============================================================================
+// Type inference
+// ============================================================================
+
+describe("inferSqlType", () => {
+  test("reads ISO dates and timestamps as TIMESTAMP", () => {
+    expect(inferSqlType(["2025-01-01", "2025-01-02T10:00:00Z", ""])).toBe("TIMESTAMP");
+  });
+
+  test("leaves an ambiguous date format as TEXT", () => {
+    expect(inferSqlType(["03/04/2025"])).toBe("TEXT");
+  });
+});
+
+describe("resolveColumnTypes", () => {
+  test("prefers what the file declares over what its rows suggest", () => {
+    expect(resolveColumnTypes(["a", "b"], [["1", "x"]], ["TEXT", "TEXT"])).toEqual(["TEXT", "TEXT"]);
+    expect(resolveColumnTypes(["a", "b"], [["1", "x"]])).toEqual(["INTEGER", "TEXT"]);
+  });
+});
+
+// ============================================================================
+// openImportSource
+// ============================================================================
+
+describe("openImportSource", () => {
+  test("pages through a parsed text file", async () => {
+    const source = await openImportSource(textBuffer("id,name\n1,a\n2,b\n3,c"), "csv");
+
+    expect(source.headers).toEqual(["id", "name"]);
+    expect(source.totalRows).toBe(3);
+    expect(await source.readRows(1, 3)).toEqual([
+      ["2", "b"],
+      ["3", "c"],
+    ]);
+  });
+
+  test("reads NDJSON and JSON alike", async () => {
+    const ndjson = await openImportSource(textBuffer('{"id":1}\n{"id":2}'), "ndjson");
+    const json = await openImportSource(textBuffer('[{"id":1},{"id":2}]'), "json");
+
+    expect(await ndjson.readRows(0, 2)).toEqual(await json.readRows(0, 2));
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, test, expect } from "bun:test";
+import {
+  buildCreateTable,
+  buildInsertBatch,
+  importBatchSize,
+  importLiteral,
+  MAX_BATCH_ROWS,
+  MAX_BOUND_VALUES,
+} from "@/lib/import/insert";
+import type { ImportTarget } from "@/lib/import/insert";
+
+function target(overrides: Partial<ImportTarget> = {}): ImportTarget {
+  return {
+    table: "people",
+    columns: ["id", "name", "active"],
+    types: ["INTEGER", "TEXT", "BOOLEAN"],
+    dialect: "postgres",
+    ...overrides,
+  };
+}
+
+const rows = [
+  ["1", "Alice", "true"],
+  ["2", "", "0"],
+];
+
+describe("buildInsertBatch", () => {
+  test("binds every value on PostgreSQL", () => {
+    const { sql, params } = buildInsertBatch(target(), rows);
+
+    expect(sql).toBe("INSERT INTO people (id, name, active)\nVALUES\n  ($1, $2, $3),\n  ($4, $5, $6)");
+    expect(params).toEqual(["1", "Alice", true, "2", null, false]);
+  });
+
+  test("uses the dialect's own placeholder", () => {
+    expect(buildInsertBatch(target({ dialect: "mysql" }), rows).sql).toContain("(?, ?, ?)");
+    expect(buildInsertBatch(target({ dialect: "mssql" }), rows).sql).toContain("(@p4, @p5, @p6)");
+  });
+
+  test("writes Oracle's INSERT ALL form", () => {
+    const { sql } = buildInsertBatch(target({ dialect: "oracle" }), rows);
+
+    expect(sql).toBe(
+      "INSERT ALL\n  INTO people (id, name, active) VALUES (:1, :2, :3)\n  INTO people (id, name, active) VALUES (:4, :5, :6)\nSELECT 1 FROM DUAL",
+    );
+  });
+
+  test("binds an Oracle boolean as the 1 or 0 its NUMBER(1) column holds", () => {
+    const { params } = buildInsertBatch(target({ dialect: "oracle" }), rows);
+
+    expect(params).toEqual(["1", "Alice", 1, "2", null, 0]);
+  });
+
+  test("writes checked literals where the engine binds nothing positional", () => {
+    const { sql, params } = buildInsertBatch(target({ dialect: "clickhouse" }), [
+      ["1); DROP TABLE x; --", "O'Brien", "1"],
+    ]);
+
+    expect(params).toEqual([]);
+    expect(sql).toContain("('1); DROP TABLE x; --', 'O''Brien', TRUE)");
+  });
+});
+
+describe("importLiteral", () => {
+  test("quotes a value that fails its column's type", () => {
+    expect(importLiteral("42", "INTEGER")).toBe("42");
+    expect(importLiteral("42 OR 1=1", "INTEGER")).toBe("'42 OR 1=1'");
+    expect(importLiteral("NULL", "TEXT")).toBe("NULL");
+  });
+});
+
+describe("buildCreateTable", () => {
+  test("declares each column with its type and no trailing semicolon", () => {
+    expect(buildCreateTable(target())).toBe("CREATE TABLE people (\n  id INTEGER,\n  name TEXT,\n  active BOOLEAN\n)");
+  });
+
+  test("names each type as SQL Server and Oracle spell it", () => {
+    const types = ["INTEGER", "NUMERIC", "BOOLEAN", "TIMESTAMP", "TEXT"] as const;
+    const columns = ["a", "b", "c", "d", "e"];
+
+    expect(buildCreateTable(target({ dialect: "mssql", columns, types: [...types] }))).toBe(
+      "CREATE TABLE people (\n  a INTEGER,\n  b DECIMAL(38, 10),\n  c BIT,\n  d DATETIME2,\n  e NVARCHAR(MAX)\n)",
+    );
+    expect(buildCreateTable(target({ dialect: "oracle", columns, types: [...types] }))).toBe(
+      "CREATE TABLE people (\n  a INTEGER,\n  b NUMBER,\n  c NUMBER(1),\n  d TIMESTAMP,\n  e CLOB\n)",
+    );
+  });
+});
+
+describe("importBatchSize", () => {
+  test("keeps a batch under the bind limit", () => {
+    expect(importBatchSize(3)).toBe(Math.floor(MAX_BOUND_VALUES / 3));
+    expect(importBatchSize(1)).toBe(MAX_BATCH_ROWS);
+    expect(importBatchSize(5000)).toBe(1);
+  });
+});
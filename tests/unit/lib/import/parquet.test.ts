@@ -0,0 +1,66 @@
+import { describe, test, expect } from "bun:test";
+import { parquetWriteBuffer } from "hyparquet-writer";
+import { blobAsyncBuffer, openParquet, parseParquet } from "@/lib/import/parquet";
+
+function sampleParquet(): ArrayBuffer {
+  return parquetWriteBuffer({
+    columnData: [
+      { name: "id", data: [BigInt(1), BigInt(2), BigInt(3)], type: "INT64" },
+      { name: "name", data: ["Alice", null, "Carol"], type: "STRING" },
+      { name: "score", data: [1.5, 2, 3.25], type: "DOUBLE" },
+      { name: "active", data: [true, false, true], type: "BOOLEAN" },
+      {
+        name: "created_at",
+        data: [new Date("2025-01-01T00:00:00Z"), new Date("2025-01-02T12:30:00Z"), null],
+        type: "TIMESTAMP",
+      },
+    ],
+  });
+}
+
+describe("parseParquet", () => {
+  test("takes column types from the schema rather than the rows", async () => {
+    const result = await parseParquet(sampleParquet());
+
+    expect(result.headers).toEqual(["id", "name", "score", "active", "created_at"]);
+    expect(result.columnTypes).toEqual(["INTEGER", "TEXT", "NUMERIC", "BOOLEAN", "TIMESTAMP"]);
+  });
+
+  test("reads values as cell text, with null as empty", async () => {
+    const result = await parseParquet(sampleParquet());
+
+    expect(result.rows).toEqual([
+      ["1", "Alice", "1.5", "true", "2025-01-01T00:00:00.000Z"],
+      ["2", "", "2", "false", "2025-01-02T12:30:00.000Z"],
+      ["3", "Carol", "3.25", "true", ""],
+    ]);
+    expect(result.totalRows).toBe(3);
+    expect(result.truncated).toBeUndefined();
+  });
+
+  test("keeps the first maxRows rows and reports the file's length", async () => {
+    const result = await parseParquet(sampleParquet(), { maxRows: 2 });
+
+    expect(result.rows.map((r) => r[0])).toEqual(["1", "2"]);
+    expect(result.totalRows).toBe(3);
+    expect(result.truncated).toBe(true);
+  });
+
+  test("refuses a file that is not Parquet", async () => {
+    await expect(parseParquet(new TextEncoder().encode("id,name\n1,a").buffer)).rejects.toThrow(
+      "Not a valid Parquet file",
+    );
+  });
+});
+
+describe("openParquet", () => {
+  test("reads any range of rows from a Blob", async () => {
+    const source = await openParquet(blobAsyncBuffer(new Blob([sampleParquet()])));
+
+    expect(await source.readRows(1, 3)).toEqual([
+      ["2", "", "2", "false", "2025-01-02T12:30:00.000Z"],
+      ["3", "Carol", "3.25", "true", ""],
+    ]);
+    expect(await source.readRows(3, 3)).toEqual([]);
+  });
+});
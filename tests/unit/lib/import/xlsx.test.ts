@@ -0,0 +1,182 @@
+import { describe, test, expect } from "bun:test";
+import { strToU8, zipSync } from "fflate";
+import { listXlsxSheets, parseXlsx } from "@/lib/import/xlsx";
+
+// ============================================================================
+// Fixtures — a workbook is a ZIP of XML parts, so one is built by hand
+// ============================================================================
+
+const NS = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+const REL_NS = 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+interface WorkbookFixture {
+  /** Sheet name → the `<sheetData>` body. */
+  sheets: Record<string, string>;
+  sharedStrings?: string[];
+  /** `<numFmts>` and `<cellXfs>` contents of styles.xml. */
+  styles?: string;
+  date1904?: boolean;
+}
+
+function buildXlsx({ sheets, sharedStrings, styles, date1904 }: WorkbookFixture): Uint8Array {
+  const names = Object.keys(sheets);
+  const files: Record<string, Uint8Array> = {
+    "[Content_Types].xml": strToU8("<Types/>"),
+    "xl/workbook.xml": strToU8(
+      `<workbook ${NS} ${REL_NS}>${date1904 ? '<workbookPr date1904="1"/>' : ""}<sheets>${names
+        .map((name, i) => `<sheet name="${name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+        .join("")}</sheets></workbook>`,
+    ),
+    "xl/_rels/workbook.xml.rels": strToU8(
+      `<Relationships>${names
+        .map((_, i) => `<Relationship Id="rId${i + 1}" Type="worksheet" Target="worksheets/sheet${i + 1}.xml"/>`)
+        .join("")}</Relationships>`,
+    ),
+  };
+  names.forEach((name, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(
+      `<worksheet ${NS}><sheetData>${sheets[name]}</sheetData></worksheet>`,
+    );
+  });
+  if (sharedStrings) {
+    files["xl/sharedStrings.xml"] = strToU8(
+      `<sst ${NS}>${sharedStrings.map((s) => `<si><t>${s}</t></si>`).join("")}</sst>`,
+    );
+  }
+  if (styles) files["xl/styles.xml"] = strToU8(`<styleSheet ${NS}>${styles}</styleSheet>`);
+  return zipSync(files);
+}
+
+// ============================================================================
+// listXlsxSheets
+// ============================================================================
+
+describe("listXlsxSheets", () => {
+  test("lists sheets in tab order", () => {
+    const bytes = buildXlsx({ sheets: { Orders: "", Customers: "" } });
+    expect(listXlsxSheets(bytes)).toEqual(["Orders", "Customers"]);
+  });
+
+  test("refuses a file that is not a ZIP", () => {
+    expect(() => listXlsxSheets(new TextEncoder().encode("id,name\n1,a"))).toThrow("Not a valid .xlsx file");
+  });
+});
+
+// ============================================================================
+// parseXlsx
+// ============================================================================
+
+describe("parseXlsx", () => {
+  test("reads shared strings, inline strings, numbers and booleans", () => {
+    const bytes = buildXlsx({
+      sharedStrings: ["id", "name", "active", "Alice &amp; Bob"],
+      sheets: {
+        Sheet1:
+          '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>' +
+          '<row r="2"><c r="A2"><v>1</v></c><c r="B2" t="s"><v>3</v></c><c r="C2" t="b"><v>1</v></c></row>' +
+          '<row r="3"><c r="A3"><v>2.5</v></c><c r="B3" t="inlineStr"><is><t>Carol</t></is></c><c r="C3" t="b"><v>0</v></c></row>',
+      },
+    });
+
+    const result = parseXlsx(bytes);
+
+    expect(result.headers).toEqual(["id", "name", "active"]);
+    expect(result.rows).toEqual([
+      ["1", "Alice & Bob", "true"],
+      ["2.5", "Carol", "false"],
+    ]);
+    expect(result.totalRows).toBe(2);
+    expect(result.truncated).toBeUndefined();
+  });
+
+  test("places sparse cells by their reference", () => {
+    const bytes = buildXlsx({
+      sheets: {
+        Sheet1:
+          '<row r="1"><c r="A1" t="inlineStr"><is><t>a</t></is></c><c r="B1" t="inlineStr"><is><t>b</t></is></c><c r="C1" t="inlineStr"><is><t>c</t></is></c></row>' +
+          '<row r="2"><c r="C2"><v>3</v></c></row>',
+      },
+    });
+
+    expect(parseXlsx(bytes).rows).toEqual([["", "", "3"]]);
+  });
+
+  test("names a blank header cell after its position and skips empty rows", () => {
+    const bytes = buildXlsx({
+      sheets: {
+        Sheet1:
+          '<row r="1"><c r="A1" t="inlineStr"><is><t>id</t></is></c></row>' +
+          '<row r="2"><c r="A2"><v>1</v></c><c r="B2"><v>9</v></c></row>' +
+          '<row r="3"><c r="A3" s="0"/></row>',
+      },
+    });
+
+    const result = parseXlsx(bytes);
+    expect(result.headers).toEqual(["id", "column_2"]);
+    expect(result.rows).toEqual([["1", "9"]]);
+  });
+
+  test("reads a date-formatted serial as an ISO date, and a time as one", () => {
+    const bytes = buildXlsx({
+      styles:
+        '<numFmts><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/></numFmts>' +
+        '<cellXfs><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/><xf numFmtId="20"/></cellXfs>',
+      sheets: {
+        Sheet1:
+          '<row r="1"><c r="A1" t="inlineStr"><is><t>day</t></is></c><c r="B1" t="inlineStr"><is><t>at</t></is></c><c r="C1" t="inlineStr"><is><t>time</t></is></c><c r="D1" t="inlineStr"><is><t>n</t></is></c></row>' +
+          '<row r="2"><c r="A2" s="1"><v>45658</v></c><c r="B2" s="2"><v>45658.5</v></c><c r="C2" s="3"><v>0.75</v></c><c r="D2" s="0"><v>45658</v></c></row>',
+      },
+    });
+
+    expect(parseXlsx(bytes).rows).toEqual([["2025-01-01", "2025-01-01T12:00:00", "18:00:00", "45658"]]);
+  });
+
+  test("honours the 1904 date system", () => {
+    const bytes = buildXlsx({
+      date1904: true,
+      styles: '<cellXfs><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs>',
+      sheets: {
+        Sheet1:
+          '<row r="1"><c r="A1" t="inlineStr"><is><t>day</t></is></c></row><row r="2"><c r="A2" s="1"><v>44196</v></c></row>',
+      },
+    });
+
+    expect(parseXlsx(bytes).rows).toEqual([["2025-01-01"]]);
+  });
+
+  test("imports an error cell as empty rather than as its error text", () => {
+    const bytes = buildXlsx({
+      sheets: {
+        Sheet1:
+          '<row r="1"><c r="A1" t="inlineStr"><is><t>id</t></is></c><c r="B1" t="inlineStr"><is><t>ratio</t></is></c></row>' +
+          '<row r="2"><c r="A2"><v>1</v></c><c r="B2" t="e"><v>#DIV/0!</v></c></row>',
+      },
+    });
+
+    expect(parseXlsx(bytes).rows).toEqual([["1", ""]]);
+  });
+
+  test("reads a chosen sheet, and refuses one that does not exist", () => {
+    const bytes = buildXlsx({
+      sheets: {
+        First: '<row r="1"><c r="A1" t="inlineStr"><is><t>a</t></is></c></row>',
+        Second: '<row r="1"><c r="A1" t="inlineStr"><is><t>b</t></is></c></row>',
+      },
+    });
+
+    expect(parseXlsx(bytes, { sheet: "Second" }).headers).toEqual(["b"]);
+    expect(() => parseXlsx(bytes, { sheet: "Third" })).toThrow('no sheet named "Third"');
+  });
+
+  test("keeps the first maxRows rows and marks the rest truncated", () => {
+    const rows = Array.from({ length: 5 }, (_, i) => `<row r="${i + 2}"><c r="A${i + 2}"><v>${i}</v></c></row>`);
+    const bytes = buildXlsx({
+      sheets: { Sheet1: `<row r="1"><c r="A1" t="inlineStr"><is><t>n</t></is></c></row>${rows.join("")}` },
+    });
+
+    const result = parseXlsx(bytes, { maxRows: 2 });
+    expect(result.rows).toEqual([["0"], ["1"]]);
+    expect(result.totalRows).toBe(5);
+    expect(result.truncated).toBe(true);
+  });
+});
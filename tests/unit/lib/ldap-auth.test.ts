@@ -0,0 +1,253 @@
+import { describe, test, expect, beforeAll, afterAll, afterEach } from "bun:test";
+import net from "node:net";
+import { AuthConfigError } from "@/lib/auth-errors";
+import {
+  authenticateLDAP,
+  escapeDnValue,
+  getLDAPConfig,
+  mapLDAPGroups,
+  mapLDAPRole,
+  type LDAPConfig,
+} from "@/lib/ldap-auth";
+import { LdapUnavailableError } from "@/lib/ldap/client";
+import { encodeFilter, escapeFilterValue, LdapFilterError } from "@/lib/ldap/filter";
+import type { AccessRole } from "@/lib/access/types";
+import { type FakeLdapEntry, type FakeLdapServer, startFakeLdapServer } from "../../helpers/fake-ldap-server";
+
+const BASE = "dc=example,dc=org";
+
+const directory: FakeLdapEntry[] = [
+  { dn: `cn=reader,${BASE}`, password: "service-pass", attributes: {} },
+  {
+    dn: `uid=alice,ou=people,${BASE}`,
+    password: "alice-pass",
+    attributes: {
+      uid: ["alice"],
+      mail: ["alice@example.org"],
+      memberOf: [`cn=DBA Team,ou=groups,${BASE}`, `cn=admins,ou=groups,${BASE}`],
+    },
+  },
+  { dn: `uid=bob,ou=people,${BASE}`, password: "bob-pass", attributes: { uid: ["bob"] } },
+  { dn: `uid=twin,ou=people,${BASE}`, password: "twin-pass", attributes: { uid: ["twin"] } },
+  { dn: `uid=twin,ou=contractors,${BASE}`, password: "twin-pass", attributes: { uid: ["twin"] } },
+  {
+    dn: `cn=analysts,ou=groups,${BASE}`,
+    attributes: { objectClass: ["groupOfUniqueNames"], uniqueMember: [`uid=bob,ou=people,${BASE}`] },
+  },
+];
+
+let server: FakeLdapServer;
+
+beforeAll(async () => {
+  server = await startFakeLdapServer(directory);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+afterEach(() => {
+  server.binds.length = 0;
+  server.searches.length = 0;
+});
+
+function config(overrides: Partial<LDAPConfig> = {}): LDAPConfig {
+  return {
+    url: server.url,
+    startTls: false,
+    tlsOptions: {},
+    timeoutMs: 2_000,
+    userDnTemplate: `uid={username},ou=people,${BASE}`,
+    bindDn: "",
+    bindPassword: "",
+    searchBase: "",
+    searchFilter: "(uid={username})",
+    groupAttribute: "memberOf",
+    groupSearchBase: "",
+    groupSearchFilter: "(|(member={dn})(uniqueMember={dn}))",
+    emailAttribute: "mail",
+    adminGroups: [],
+    ...overrides,
+  };
+}
+
+const searchMode = { bindDn: `cn=reader,${BASE}`, bindPassword: "service-pass", searchBase: BASE };
+
+describe("LDAP filters and DN values", () => {
+  test("encodes a filter as the BER Filter choice", () => {
+    // (uid=a): equalityMatch [3] { "uid", "a" }
+    expect(encodeFilter("(uid=a)").toString("hex")).toBe("a3080403756964040161");
+    expect(encodeFilter("uid=*").toString("hex")).toBe("8703756964");
+    expect(() => encodeFilter("(&(uid=a)")).toThrow(LdapFilterError);
+    expect(() => encodeFilter("(uid=a)x")).toThrow(LdapFilterError);
+  });
+
+  test("escapes what would change a filter's or a DN's meaning", () => {
+    expect(escapeFilterValue("*)(uid=*")).toBe("\\2a\\29\\28uid=\\2a");
+    expect(escapeDnValue("alice,ou=admins")).toBe("alice\\,ou\\=admins");
+    expect(escapeDnValue(" #x ")).toBe("\\ #x\\ ");
+  });
+});
+
+describe("authenticateLDAP", () => {
+  test("binds as the person in direct-bind mode, named by the login it proved, and reads their mail and groups", async () => {
+    const identity = await authenticateLDAP("Alice", "alice-pass", config());
+
+    expect(identity).toEqual({
+      dn: `uid=alice,ou=people,${BASE}`,
+      username: "alice",
+      email: "alice@example.org",
+      groups: [`cn=DBA Team,ou=groups,${BASE}`, `cn=admins,ou=groups,${BASE}`],
+    });
+  });
+
+  test("answers null for a wrong password or an unknown person", async () => {
+    expect(await authenticateLDAP("alice", "wrong", config())).toBeNull();
+    expect(await authenticateLDAP("nobody", "x", config())).toBeNull();
+    expect(await authenticateLDAP("alice", "wrong", config(searchMode))).toBeNull();
+    expect(await authenticateLDAP("nobody", "x", config(searchMode))).toBeNull();
+  });
+
+  test("never asks the directory about an empty password, which would be an unauthenticated bind", async () => {
+    expect(await authenticateLDAP("alice", "", config())).toBeNull();
+    expect(await authenticateLDAP("  ", "x", config())).toBeNull();
+    expect(server.binds).toEqual([]);
+  });
+
+  test("in search mode finds the entry as the service account, then binds as it", async () => {
+    const identity = await authenticateLDAP("bob", "bob-pass", config(searchMode));
+
+    expect(identity?.dn).toBe(`uid=bob,ou=people,${BASE}`);
+    expect(identity?.username).toBe("bob");
+    expect(server.binds.map(([dn]) => dn)).toEqual([`cn=reader,${BASE}`, `uid=bob,ou=people,${BASE}`]);
+  });
+
+  test("escapes the login name, so it cannot widen the search to someone else", async () => {
+    expect(await authenticateLDAP("*", "alice-pass", config(searchMode))).toBeNull();
+    // The server saw an equality match on the literal value "*", not a presence filter.
+    expect(server.searches.at(-1)?.filter).toBe("(uid=\\2a)");
+    expect(server.binds.map(([dn]) => dn)).toEqual([`cn=reader,${BASE}`]);
+  });
+
+  test("refuses a name that matches more than one entry", async () => {
+    expect(await authenticateLDAP("twin", "twin-pass", config(searchMode))).toBeNull();
+  });
+
+  test("finds groups that list their members, as the service account", async () => {
+    const identity = await authenticateLDAP("bob", "bob-pass", config({ ...searchMode, groupSearchBase: BASE }));
+
+    expect(identity?.groups).toEqual([`cn=analysts,ou=groups,${BASE}`]);
+    expect(server.binds.at(-1)?.[0]).toBe(`cn=reader,${BASE}`);
+  });
+
+  test("a service account that cannot bind is a configuration error", async () => {
+    await expect(
+      authenticateLDAP("bob", "bob-pass", config({ ...searchMode, bindPassword: "stale" })),
+    ).rejects.toBeInstanceOf(AuthConfigError);
+  });
+
+  test("an unreachable directory, or a refused StartTLS, is LdapUnavailableError", async () => {
+    const closed = new net.Server();
+    await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+    const { port } = closed.address() as net.AddressInfo;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    await expect(
+      authenticateLDAP("alice", "alice-pass", config({ url: `ldap://127.0.0.1:${port}` })),
+    ).rejects.toBeInstanceOf(LdapUnavailableError);
+    await expect(authenticateLDAP("alice", "alice-pass", config({ startTls: true }))).rejects.toThrow(
+      "refused StartTLS",
+    );
+    // Nothing was sent in the clear after the refusal.
+    expect(server.binds).toEqual([]);
+  });
+});
+
+describe("LDAP role mapping", () => {
+  const groups = [`cn=DBA Team,ou=groups,${BASE}`, `cn=admins,ou=groups,${BASE}`];
+
+  test("maps to admin by the group's full DN, case-insensitively", () => {
+    expect(mapLDAPRole(groups, [`CN=admins, OU=groups, ${BASE}`])).toBe("admin");
+    expect(mapLDAPRole(groups, ["operators"])).toBe("user");
+    expect(mapLDAPRole([], [])).toBe("user");
+  });
+
+  test("never by the group's first RDN alone, which a group in any other OU can share", () => {
+    expect(mapLDAPRole(groups, ["admins"])).toBe("user");
+    expect(mapLDAPRole([`cn=admins,ou=self-service,${BASE}`], [`cn=admins,ou=groups,${BASE}`])).toBe("user");
+  });
+
+  test("keeps the role entries, as the role writes them, that are the DN of one of the groups", () => {
+    const roles = [
+      { name: "dba", groups: [`CN=DBA Team,OU=groups,${BASE}`, "dba team"], grants: [] },
+      { name: "support", groups: [], grants: [] },
+    ] as unknown as AccessRole[];
+
+    expect(mapLDAPGroups(groups, roles)).toEqual([`CN=DBA Team,OU=groups,${BASE}`]);
+    expect(mapLDAPGroups([`cn=support,ou=groups,${BASE}`], roles)).toEqual([]);
+  });
+});
+
+describe("getLDAPConfig", () => {
+  const KEYS = [
+    "LDAP_URL",
+    "LDAP_USER_DN_TEMPLATE",
+    "LDAP_BIND_DN",
+    "LDAP_BIND_PASSWORD",
+    "LDAP_SEARCH_BASE",
+    "LDAP_SEARCH_FILTER",
+    "LDAP_START_TLS",
+    "LDAP_ADMIN_GROUPS",
+  ] as const;
+  const snapshot: Record<string, string | undefined> = {};
+
+  afterEach(() => {
+    for (const key of KEYS) {
+      if (snapshot[key] === undefined) delete process.env[key];
+      else process.env[key] = snapshot[key];
+    }
+  });
+
+  function setEnv(values: Partial<Record<(typeof KEYS)[number], string>>) {
+    for (const key of KEYS) {
+      snapshot[key] = process.env[key];
+      delete process.env[key];
+    }
+    Object.assign(process.env, values);
+  }
+
+  test("reads a direct-bind configuration with its defaults", () => {
+    setEnv({
+      LDAP_URL: "ldap://ldap.example.org",
+      LDAP_USER_DN_TEMPLATE: "uid={username},ou=people,dc=example,dc=org",
+      LDAP_ADMIN_GROUPS: "cn=admins,ou=groups,dc=example,dc=org; dba",
+    });
+
+    expect(getLDAPConfig()).toMatchObject({
+      startTls: false,
+      tlsOptions: { rejectUnauthorized: true },
+      searchFilter: "(uid={username})",
+      groupAttribute: "memberOf",
+      adminGroups: ["cn=admins,ou=groups,dc=example,dc=org", "dba"],
+    });
+  });
+
+  test("refuses a configuration that cannot log anyone in", () => {
+    setEnv({});
+    expect(() => getLDAPConfig()).toThrow("LDAP_URL is required");
+    setEnv({ LDAP_URL: "ldap://ldap.example.org" });
+    expect(() => getLDAPConfig()).toThrow(AuthConfigError);
+    setEnv({ LDAP_URL: "ldap://ldap.example.org", LDAP_USER_DN_TEMPLATE: "uid=x,dc=example,dc=org" });
+    expect(() => getLDAPConfig()).toThrow("{username}");
+    setEnv({ LDAP_URL: "ldaps://ldap.example.org", LDAP_USER_DN_TEMPLATE: "{username}", LDAP_START_TLS: "true" });
+    expect(() => getLDAPConfig()).toThrow("LDAP_START_TLS");
+    setEnv({
+      LDAP_URL: "ldap://ldap.example.org",
+      LDAP_BIND_DN: "cn=reader",
+      LDAP_BIND_PASSWORD: "x",
+      LDAP_SEARCH_BASE: "dc=example",
+      LDAP_SEARCH_FILTER: "(uid={username}",
+    });
+    expect(() => getLDAPConfig()).toThrow("LDAP_SEARCH_FILTER is not a valid LDAP filter");
+  });
+});
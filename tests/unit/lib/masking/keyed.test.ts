@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import type { MaskingPattern, MaskType } from "@/lib/data-masking";
+import { keyedMask, MASKING_TOKEN_KEY_TOO_SHORT_MESSAGE, resetMaskingKey } from "@/lib/masking/keyed";
+import { maskRows } from "@/lib/masking/policy";
+
+const MUTATED = ["MASKING_TOKEN_KEY", "JWT_SECRET"] as const;
+const snapshot: Record<string, string | undefined> = {};
+
+beforeEach(() => {
+  for (const key of MUTATED) snapshot[key] = process.env[key];
+  process.env.JWT_SECRET = "jwt-secret-used-only-by-this-test-file";
+  delete process.env.MASKING_TOKEN_KEY;
+  resetMaskingKey();
+});
+
+afterEach(() => {
+  for (const key of MUTATED) {
+    const value = snapshot[key];
+    if (value === undefined) delete process.env[key];
+    else (process.env as Record<string, string>)[key] = value;
+  }
+  resetMaskingKey();
+});
+
+const pattern = (maskType: MaskType, extra: Partial<MaskingPattern> = {}): MaskingPattern => ({
+  id: maskType,
+  name: maskType,
+  columnPatterns: ["x"],
+  maskType,
+  enabled: true,
+  isBuiltin: false,
+  ...extra,
+});
+
+const shift = pattern("date_shift", { entityColumn: "patient_id" });
+const daysBetween = (a: string, b: string) => (Date.parse(b) - Date.parse(a)) / 86_400_000;
+
+describe("token", () => {
+  test("masks equal values to equal tokens, and different ones apart", () => {
+    const token = keyedMask("ada@example.com", pattern("token"), {});
+    expect(token).toMatch(/^tok_[0-9a-f]{16}$/);
+    expect(keyedMask("ada@example.com", pattern("token"), { other: 1 })).toBe(token);
+    expect(keyedMask("alan@example.com", pattern("token"), {})).not.toBe(token);
+  });
+
+  test("tokenizes a number as its text, so an integer key joins a text one", () => {
+    expect(keyedMask(42, pattern("token"), {})).toBe(keyedMask("42", pattern("token"), {}));
+  });
+
+  test("depends on the key: MASKING_TOKEN_KEY when set, else JWT_SECRET", () => {
+    const fromJwt = keyedMask("ada", pattern("token"), {});
+
+    process.env.MASKING_TOKEN_KEY = "a-dedicated-masking-key-of-enough-length";
+    resetMaskingKey();
+    const fromOwnKey = keyedMask("ada", pattern("token"), {});
+    expect(fromOwnKey).not.toBe(fromJwt);
+
+    process.env.JWT_SECRET = "a-completely-different-secret-value-32";
+    resetMaskingKey();
+    expect(keyedMask("ada", pattern("token"), {})).toBe(fromOwnKey);
+  });
+
+  test("refuses a MASKING_TOKEN_KEY shorter than a JWT_SECRET may be", () => {
+    process.env.MASKING_TOKEN_KEY = "short";
+    resetMaskingKey();
+    expect(() => keyedMask("ada", pattern("token"), {})).toThrow(MASKING_TOKEN_KEY_TOO_SHORT_MESSAGE);
+  });
+});
+
+describe("format_preserving", () => {
+  test("keeps the length, the separators and the kind of every character", () => {
+    const card = keyedMask("4111-1111-1111-1234", pattern("format_preserving"), {});
+    expect(card).toMatch(/^\d{4}-\d{4}-\d{4}-\d{4}$/);
+    expect(card).not.toBe("4111-1111-1111-1234");
+
+    const phone = keyedMask("+1 (555) 123-4545", pattern("format_preserving"), {});
+    expect(phone).toMatch(/^\+\d \(\d{3}\) \d{3}-\d{4}$/);
+
+    expect(keyedMask("Ab-9", pattern("format_preserving"), {})).toMatch(/^[A-Z][a-z]-\d$/);
+  });
+
+  test("is deterministic, however long the value", () => {
+    const long = "1234567890".repeat(5);
+    const masked = keyedMask(long, pattern("format_preserving"), {});
+    expect(masked).toHaveLength(50);
+    expect(masked).toMatch(/^\d+$/);
+    expect(keyedMask(long, pattern("format_preserving"), {})).toBe(masked);
+  });
+});
+
+describe("date_shift", () => {
+  test("moves every date of one entity by the same offset, within a year", () => {
+    const admitted = keyedMask("2024-03-01", shift, { patient_id: 7 });
+    const discharged = keyedMask("2024-03-11", shift, { patient_id: 7 });
+    expect(admitted).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(daysBetween(admitted, discharged)).toBe(10);
+
+    const offset = Math.abs(daysBetween("2024-03-01", admitted));
+    expect(offset).toBeGreaterThanOrEqual(1);
+    expect(offset).toBeLessThanOrEqual(365);
+  });
+
+  test("keys the offset on the entity, not the date", () => {
+    const offsets = new Set(
+      [1, 2, 3, 4, 5, 6].map((id) => daysBetween("2024-03-01", keyedMask("2024-03-01", shift, { patient_id: id }))),
+    );
+    expect(offsets.size).toBeGreaterThan(1);
+  });
+
+  test("keeps the time of a timestamp, and shifts a Date to an ISO timestamp", () => {
+    expect(keyedMask("2024-03-01 10:15:00", shift, { patient_id: 7 })).toMatch(/^\d{4}-\d{2}-\d{2} 10:15:00$/);
+    const fromDate = keyedMask(new Date("2024-03-01T10:15:00.000Z"), shift, { patient_id: 7 });
+    expect(fromDate).toMatch(/^\d{4}-\d{2}-\d{2}T10:15:00\.000Z$/);
+    expect(fromDate.slice(0, 10)).toBe(keyedMask("2024-03-01", shift, { patient_id: 7 }));
+  });
+
+  test("redacts what it cannot shift: no entity value, or no date", () => {
+    expect(keyedMask("2024-03-01", shift, {})).toBe("****-**-01");
+    expect(keyedMask("2024-03-01", shift, { patient_id: null })).toBe("****-**-01");
+    expect(keyedMask("2024-02-31", shift, { patient_id: 7 })).toBe("****-**-31");
+    expect(keyedMask("yesterday", shift, { patient_id: 7 })).toBe("****-**-ay");
+  });
+});
+
+describe("maskRows", () => {
+  test("keys a shift on the entity as read, even when that column is masked too", () => {
+    const masked = new Map([
+      ["patient_id", pattern("token")],
+      ["admitted", shift],
+    ]);
+    const [row] = maskRows([{ patient_id: 7, admitted: "2024-03-01", note: null }], ["patient_id", "admitted"], masked);
+
+    expect(row.patient_id).toBe(keyedMask(7, pattern("token"), {}));
+    expect(row.admitted).toBe(keyedMask("2024-03-01", shift, { patient_id: 7 }));
+    expect(row.note).toBeNull();
+  });
+
+  test("writes the plain masks as the browser does", () => {
+    const [row] = maskRows([{ email: "ada@example.com" }], ["email"], new Map([["email", pattern("full")]]));
+    expect(row.email).toBe("********");
+  });
+});
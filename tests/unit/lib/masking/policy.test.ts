@@ -0,0 +1,157 @@
+import { describe, test, expect } from "bun:test";
+import { DEFAULT_MASKING_CONFIG } from "@/lib/data-masking";
+import { MaskingPolicyInputError, readMaskingPolicyInput } from "@/lib/masking/input";
+import { maskedColumns, maskResult } from "@/lib/masking/policy";
+import type { MaskingPolicy } from "@/lib/masking/types";
+
+const policy: MaskingPolicy = {
+  enabled: true,
+  patterns: DEFAULT_MASKING_CONFIG.patterns,
+  rules: [
+    { connection: "warehouse", table: "hr.people", column: "national_code", maskType: "full" },
+    { connection: "*", table: "*", column: "pin", maskType: "custom", customMask: "[pin]" },
+  ],
+};
+
+const fields = ["id", "national_code", "email", "pin"];
+
+describe("maskedColumns", () => {
+  test("masks a rule's column on its connection, when the statement names its table", () => {
+    const masked = maskedColumns(policy, "warehouse", 'SELECT * FROM "people" WHERE id = 1', fields);
+    expect([...masked.keys()]).toEqual(["national_code", "pin", "email"]);
+  });
+
+  test("leaves a rule's column alone on another connection, or under another table", () => {
+    expect(maskedColumns(policy, "staging", "SELECT * FROM people", fields).has("national_code")).toBe(false);
+    expect(maskedColumns(policy, "warehouse", "SELECT * FROM people_archive", fields).has("national_code")).toBe(false);
+    expect(maskedColumns(policy, null, "SELECT * FROM people", fields).has("national_code")).toBe(false);
+  });
+
+  test("a rule on every connection and table follows the column name alone", () => {
+    expect(maskedColumns(policy, null, "SELECT PIN FROM cards", ["PIN"]).get("PIN")?.customMask).toBe("[pin]");
+  });
+
+  test("a rule wins over the name pattern that also matches its column", () => {
+    const masked = maskedColumns(
+      { ...policy, rules: [{ connection: "*", table: "*", column: "email", maskType: "full" }] },
+      null,
+      "SELECT email FROM users",
+      ["email"],
+    );
+    expect(masked.get("email")?.maskType).toBe("full");
+  });
+
+  test("masks every untraced column of a statement that mentions the ruled one, since any may be it", () => {
+    const statement = "SELECT id, upper(national_code) AS code FROM hr.people";
+    expect([...maskedColumns(policy, "warehouse", statement, ["id", "code"]).keys()]).toEqual(["id", "code"]);
+    // The table named but not the column: nothing can have been derived from it.
+    expect(maskedColumns(policy, "warehouse", "SELECT id, name FROM people", ["id", "name"]).size).toBe(0);
+  });
+
+  test("follows a column the engine traced through its alias, and spares the ones traced elsewhere", () => {
+    const sources = {
+      id: { table: "people", column: "id" },
+      code: { table: "people", column: "national_code" },
+      contact: { table: "people", column: "email" },
+      shouted: null,
+    };
+    const statement = "SELECT id, national_code AS code, email AS contact, upper(national_code) AS shouted FROM people";
+    const masked = maskedColumns(policy, "warehouse", statement, ["id", "code", "contact", "shouted"], sources);
+
+    expect([...masked.keys()]).toEqual(["code", "shouted", "contact"]);
+    expect(masked.get("code")?.maskType).toBe("full");
+    // A name pattern sees the column's own name through the alias.
+    expect(masked.get("contact")?.id).toBe("builtin-email");
+  });
+
+  test("a traced column of another table is not the ruled one, whatever it is called", () => {
+    const sources = { national_code: { table: "visitors", column: "national_code" } };
+    const statement = "SELECT v.national_code FROM visitors v JOIN people p ON p.id = v.person_id";
+    expect(maskedColumns(policy, "warehouse", statement, ["national_code"], sources).size).toBe(0);
+  });
+
+  test("a policy switched off masks nothing", () => {
+    expect(maskedColumns({ ...policy, enabled: false }, "warehouse", "SELECT * FROM people", fields).size).toBe(0);
+  });
+});
+
+describe("maskResult", () => {
+  const result = { rows: [{ id: 1, national_code: "8801011234", email: "ada@example.com", pin: "1234" }], fields };
+
+  test("replaces the masked values and names their columns", () => {
+    const masked = maskResult(policy, "warehouse", "SELECT * FROM people", result, true);
+    expect(masked.rows[0].id).toBe(1);
+    expect(masked.rows[0].national_code).not.toBe("8801011234");
+    expect(masked.rows[0].pin).toBe("[pin]");
+    expect(masked.masking).toEqual({ columns: ["national_code", "email", "pin"], canReveal: true });
+    expect(result.rows[0].national_code).toBe("8801011234");
+  });
+
+  test("reads where each column came from off the result", () => {
+    const aliased = {
+      rows: [{ code: "8801011234" }],
+      fields: ["code"],
+      columnSources: { code: { table: "people", column: "national_code" } },
+    };
+    const masked = maskResult(policy, "warehouse", "SELECT national_code AS code FROM people", aliased, false);
+    expect(masked.rows[0].code).not.toBe("8801011234");
+  });
+
+  test("offers no reveal when nothing was masked", () => {
+    const masked = maskResult(policy, null, "SELECT id FROM people", { rows: [{ id: 1 }], fields: ["id"] }, true);
+    expect(masked.masking).toEqual({ columns: [], canReveal: false });
+  });
+});
+
+describe("readMaskingPolicyInput", () => {
+  const input = { enabled: true, patterns: [], rules: [{ ...policy.rules[0], extra: "dropped" }] };
+
+  test("keeps the fields a policy has, trimmed", () => {
+    const read = readMaskingPolicyInput({
+      ...input,
+      rules: [{ connection: " warehouse ", table: "people", column: "ssn", maskType: "full" }],
+    });
+    expect(read.rules).toEqual([{ connection: "warehouse", table: "people", column: "ssn", maskType: "full" }]);
+  });
+
+  test("keeps a date shift's entity column, and drops it from any other mask", () => {
+    const rule = { connection: "*", table: "visits", column: "admitted_on", entityColumn: "patient_id" };
+    const read = readMaskingPolicyInput({
+      ...input,
+      rules: [
+        { ...rule, maskType: "date_shift" },
+        { ...rule, column: "discharged_on", maskType: "token" },
+      ],
+    });
+    expect(read.rules[0].entityColumn).toBe("patient_id");
+    expect(read.rules[1].entityColumn).toBeUndefined();
+  });
+
+  test.each([
+    ["a body that is not an object", null, "Expected a masking policy"],
+    ["a missing enabled flag", { patterns: [], rules: [] }, "enabled must be true or false"],
+    [
+      "an unknown mask type",
+      { ...input, rules: [{ ...policy.rules[0], maskType: "scramble" }] },
+      "rules[0].maskType must be one of",
+    ],
+    [
+      "a column ruled twice",
+      { ...input, rules: [policy.rules[0], { ...policy.rules[0], column: "NATIONAL_CODE" }] },
+      "hr.people.NATIONAL_CODE on warehouse is masked twice",
+    ],
+    [
+      "a date shift keyed on no column",
+      { ...input, rules: [{ ...policy.rules[0], maskType: "date_shift" }] },
+      "rules[0].entityColumn is required",
+    ],
+    [
+      "a pattern id used twice",
+      { ...input, patterns: [DEFAULT_MASKING_CONFIG.patterns[0], DEFAULT_MASKING_CONFIG.patterns[0]] },
+      "is used twice",
+    ],
+  ])("rejects %s", (_label, body, message) => {
+    expect(() => readMaskingPolicyInput(body)).toThrow(MaskingPolicyInputError);
+    expect(() => readMaskingPolicyInput(body)).toThrow(message);
+  });
+});
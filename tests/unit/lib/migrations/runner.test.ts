@@ -0,0 +1,231 @@
+import { describe, test, expect, mock } from "bun:test";
+import { applyMigration, planMigration, supportsMigrations } from "@/lib/migrations/runner";
+import { LEDGER_TABLE, ledgerCreateStatement, ledgerInsertStatement, readLedger } from "@/lib/migrations/ledger";
+import type { MigrationLedgerEntry } from "@/lib/migrations/types";
+import type { DatabaseProvider, TransactionHandle } from "@/lib/db/types";
+import type { QueryResult } from "@/lib/types";
+
+const SCRIPT = "BEGIN;\n-- Create new tables\nCREATE TABLE a (id int);\nCREATE TABLE b (id int);\nCOMMIT;";
+
+function result(rows: Record<string, unknown>[] = []): QueryResult {
+  return { rows, fields: [], rowCount: rows.length, executionTime: 1 };
+}
+
+const entry: MigrationLedgerEntry = {
+  id: "mig_1",
+  checksum: "c1",
+  description: "First",
+  status: "applied",
+  statementCount: 2,
+  statementsApplied: 2,
+  appliedAt: "2026-01-01T00:00:00.000Z",
+  appliedBy: "admin",
+  executionMs: 5,
+  targetSnapshotId: null,
+  error: null,
+};
+
+/** A provider whose ledger table exists (`ledgerRows`) or does not (`null`). */
+function fakeProvider(ledgerRows: Record<string, unknown>[] | null, withTransactions = true) {
+  const executed: string[] = [];
+  const inTransaction: string[] = [];
+  const query = mock(async (sql: string) => {
+    executed.push(sql);
+    if (sql.startsWith("SELECT") && sql.includes(LEDGER_TABLE)) {
+      if (ledgerRows === null) throw new Error(`relation "${LEDGER_TABLE}" does not exist`);
+      return result(ledgerRows);
+    }
+    return result();
+  });
+  const txQuery = mock(async (sql: string) => {
+    inTransaction.push(sql);
+    return result();
+  });
+  const commit = mock(async () => {});
+  const rollback = mock(async () => {});
+  const provider = { query } as unknown as DatabaseProvider;
+  if (withTransactions) {
+    provider.openTransaction = async (): Promise<TransactionHandle> => ({ query: txQuery, commit, rollback });
+  }
+  return { provider, query, executed, txQuery, inTransaction, commit, rollback };
+}
+
+const options = {
+  dialect: "postgres" as const,
+  script: SCRIPT,
+  description: "Add a and b",
+  appliedBy: "alice",
+  targetSnapshotId: "snap-1",
+};
+
+describe("supportsMigrations", () => {
+  test("accepts the SQL engines the generator writes for and refuses the rest", () => {
+    expect(supportsMigrations("postgres")).toBe(true);
+    expect(supportsMigrations("mysql")).toBe(true);
+    expect(supportsMigrations("oracle")).toBe(true);
+    expect(supportsMigrations("mongodb")).toBe(false);
+    expect(supportsMigrations("druid")).toBe(false);
+  });
+});
+
+describe("planMigration", () => {
+  test("previews the statements without creating the ledger", async () => {
+    const fake = fakeProvider(null);
+    const plan = await planMigration(fake.provider, "postgres", SCRIPT);
+
+    expect(plan.statements).toEqual(["CREATE TABLE a (id int)", "CREATE TABLE b (id int)"]);
+    expect(plan.atomic).toBe(true);
+    expect(plan.previouslyApplied).toBeNull();
+    expect(fake.executed.every((sql) => sql.startsWith("SELECT"))).toBe(true);
+  });
+
+  test("is not atomic where the engine commits DDL as it runs", async () => {
+    const fake = fakeProvider([]);
+    expect((await planMigration(fake.provider, "mysql", SCRIPT)).atomic).toBe(false);
+  });
+
+  test("is not atomic where the provider opens no transaction", async () => {
+    const fake = fakeProvider([], false);
+    expect((await planMigration(fake.provider, "sqlite", SCRIPT)).atomic).toBe(false);
+  });
+
+  test("names an earlier successful apply of the same statements", async () => {
+    const first = fakeProvider([]);
+    const { checksum } = await planMigration(first.provider, "postgres", SCRIPT);
+    const fake = fakeProvider([
+      { ID: "mig_old", CHECKSUM: checksum, STATUS: "applied", APPLIED_AT: "2026-01-01T00:00:00.000Z" },
+    ]);
+
+    const plan = await planMigration(fake.provider, "postgres", SCRIPT);
+    expect(plan.previouslyApplied?.id).toBe("mig_old");
+  });
+});
+
+describe("applyMigration", () => {
+  test("creates the ledger, then runs the statements and the ledger row in one transaction", async () => {
+    const fake = fakeProvider(null);
+    const outcome = await applyMigration(fake.provider, options);
+
+    expect(fake.executed[1]).toStartWith(`CREATE TABLE ${LEDGER_TABLE}`);
+    expect(fake.inTransaction.slice(0, 2)).toEqual(["CREATE TABLE a (id int)", "CREATE TABLE b (id int)"]);
+    expect(fake.inTransaction[2]).toStartWith(`INSERT INTO ${LEDGER_TABLE}`);
+    expect(fake.commit).toHaveBeenCalledTimes(1);
+    expect(outcome.atomic).toBe(true);
+    expect(outcome.recorded).toBe(true);
+    expect(outcome.entry).toMatchObject({
+      status: "applied",
+      statementCount: 2,
+      statementsApplied: 2,
+      appliedBy: "alice",
+      description: "Add a and b",
+      targetSnapshotId: "snap-1",
+      error: null,
+    });
+    expect(outcome.entry.id).toMatch(/^mig_[0-9a-f]{32}$/);
+  });
+
+  test("rolls back a failed migration and records the attempt outside it", async () => {
+    const fake = fakeProvider([]);
+    fake.txQuery.mockImplementation(async (sql: string) => {
+      if (sql.startsWith("CREATE TABLE b")) throw new Error('relation "b" already exists');
+      return result();
+    });
+
+    const outcome = await applyMigration(fake.provider, options);
+
+    expect(fake.rollback).toHaveBeenCalledTimes(1);
+    expect(fake.commit).not.toHaveBeenCalled();
+    expect(outcome.entry).toMatchObject({
+      status: "rolled_back",
+      statementsApplied: 0,
+      error: 'relation "b" already exists',
+    });
+    expect(fake.executed.at(-1)).toStartWith(`INSERT INTO ${LEDGER_TABLE}`);
+    expect(outcome.recorded).toBe(true);
+  });
+
+  test("records how far a non-transactional migration got before it failed", async () => {
+    const fake = fakeProvider([]);
+    fake.query.mockImplementation(async (sql: string) => {
+      fake.executed.push(sql);
+      if (sql.startsWith("CREATE TABLE b")) throw new Error("Table 'b' already exists");
+      return result();
+    });
+
+    const outcome = await applyMigration(fake.provider, { ...options, dialect: "mysql" });
+
+    expect(outcome.atomic).toBe(false);
+    expect(outcome.entry).toMatchObject({ status: "failed", statementsApplied: 1, statementCount: 2 });
+    expect(fake.txQuery).not.toHaveBeenCalled();
+    expect(fake.executed.at(-1)).toStartWith(`INSERT INTO ${LEDGER_TABLE}`);
+  });
+
+  test("reports, rather than throws, a ledger row it could not write", async () => {
+    const fake = fakeProvider([]);
+    fake.query.mockImplementation(async (sql: string) => {
+      if (sql.startsWith("INSERT")) throw new Error("permission denied");
+      return result();
+    });
+
+    const outcome = await applyMigration(fake.provider, { ...options, dialect: "mysql" });
+
+    expect(outcome.entry.status).toBe("applied");
+    expect(outcome.recorded).toBe(false);
+  });
+});
+
+describe("ledger", () => {
+  test("binds every value where the engine has a bind form", () => {
+    const { sql, params } = ledgerInsertStatement("postgres", entry);
+    expect(sql).toContain("VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)");
+    expect(params).toEqual([
+      "mig_1",
+      "c1",
+      "First",
+      "applied",
+      2,
+      2,
+      "2026-01-01T00:00:00.000Z",
+      "admin",
+      5,
+      null,
+      null,
+    ]);
+  });
+
+  test("writes literals for ClickHouse, which binds no positional parameter", () => {
+    const { sql, params } = ledgerInsertStatement("clickhouse", { ...entry, description: "it's" });
+    expect(params).toEqual([]);
+    expect(sql).toContain("'it''s'");
+    expect(sql).toContain(", 2, 2, ");
+    expect(sql).toEndWith("NULL, NULL)");
+  });
+
+  test("cuts a driver message too long for its column", () => {
+    const { params } = ledgerInsertStatement("postgres", { ...entry, error: "x".repeat(5000) });
+    expect((params[10] as string).length).toBe(1000);
+  });
+
+  test("spells the table per engine", () => {
+    expect(ledgerCreateStatement("oracle")).toContain("VARCHAR2(64)");
+    expect(ledgerCreateStatement("clickhouse")).toContain("ENGINE = MergeTree");
+    expect(ledgerCreateStatement("postgres")).toContain("id VARCHAR(64) NOT NULL PRIMARY KEY");
+  });
+
+  test("reads rows newest first and whatever case the engine returns keys in", async () => {
+    const fake = fakeProvider([
+      { id: "old", status: "applied", applied_at: "2026-01-01T00:00:00.000Z", statement_count: "3" },
+      { ID: "new", STATUS: "rolled_back", APPLIED_AT: "2026-02-01T00:00:00.000Z", ERROR_MESSAGE: "boom" },
+    ]);
+
+    const ledger = await readLedger(fake.provider);
+
+    expect(ledger!.map((e) => e.id)).toEqual(["new", "old"]);
+    expect(ledger![0]).toMatchObject({ status: "rolled_back", error: "boom" });
+    expect(ledger![1].statementCount).toBe(3);
+  });
+
+  test("is null when the database has no ledger yet", async () => {
+    expect(await readLedger(fakeProvider(null).provider)).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, test, expect } from "bun:test";
+import { migrationChecksum, migrationStatements } from "@/lib/migrations/statements";
+import { generateMigrationSQL } from "@/lib/schema-diff/migration-generator";
+import { diffSchemas } from "@/lib/schema-diff/diff-engine";
+import type { TableSchema } from "@/lib/types";
+
+const users: TableSchema = {
+  name: "users",
+  columns: [{ name: "id", type: "integer", nullable: false, isPrimary: true }],
+  indexes: [],
+};
+const orders: TableSchema = {
+  name: "orders",
+  columns: [{ name: "id", type: "integer", nullable: false, isPrimary: true }],
+  indexes: [],
+};
+
+describe("migrationStatements", () => {
+  test("drops the generator's header, section comments and BEGIN/COMMIT wrapper", () => {
+    const script = generateMigrationSQL(diffSchemas([users], [users, orders]), "postgres");
+    const statements = migrationStatements(script);
+
+    expect(statements).toHaveLength(1);
+    expect(statements[0]).toStartWith('CREATE TABLE "orders"');
+    expect(statements.some((sql) => /^(BEGIN|COMMIT)$/i.test(sql))).toBe(false);
+    expect(statements.some((sql) => sql.includes("--"))).toBe(false);
+  });
+
+  test("keeps statements in order and without their trailing semicolon", () => {
+    expect(migrationStatements("ALTER TABLE a ADD COLUMN b int;\n\nDROP TABLE c;")).toEqual([
+      "ALTER TABLE a ADD COLUMN b int",
+      "DROP TABLE c",
+    ]);
+  });
+
+  test("a comment that stands in for an inexpressible change runs nothing", () => {
+    expect(migrationStatements('-- SQLite: Cannot drop column "x" directly. Requires table recreation.\n')).toEqual([]);
+  });
+
+  test("removes block comments in front of a statement but not inside one", () => {
+    expect(migrationStatements("/* lead */ CREATE TABLE t (a int /* keep */)")).toEqual([
+      "CREATE TABLE t (a int /* keep */)",
+    ]);
+  });
+
+  test("skips every spelling of a transaction wrapper", () => {
+    expect(migrationStatements("START TRANSACTION; BEGIN TRANSACTION; DROP TABLE t; COMMIT WORK; END;")).toEqual([
+      "DROP TABLE t",
+    ]);
+  });
+
+  test("does not split inside a string literal", () => {
+    expect(migrationStatements("COMMENT ON TABLE t IS 'a; b';")).toEqual(["COMMENT ON TABLE t IS 'a; b'"]);
+  });
+});
+
+describe("migrationChecksum", () => {
+  test("is the same for two generations of the same change", () => {
+    const diff = diffSchemas([users], [users, orders]);
+    const first = migrationStatements(
+      generateMigrationSQL(diff, "postgres").replace(/generated at .*/, "generated at 1"),
+    );
+    const second = migrationStatements(generateMigrationSQL(diff, "postgres"));
+
+    expect(migrationChecksum(first)).toBe(migrationChecksum(second));
+  });
+
+  test("differs when a statement does", () => {
+    expect(migrationChecksum(["DROP TABLE a"])).not.toBe(migrationChecksum(["DROP TABLE b"]));
+  });
+
+  test("is a SHA-256 hex digest", () => {
+    expect(migrationChecksum([])).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
@@ -33,6 +33,7 @@ mock.module("openid-client", () => ({
 
 const {
   mapOIDCRole,
+  mapOIDCGroups,
   getOIDCConfig,
   encryptState,
   decryptState,
@@ -106,6 +107,31 @@ describe("mapOIDCRole", () => {
   });
 });
 
+// ─── mapOIDCGroups ──────────────────────────────────────────────────────────
+
+describe("mapOIDCGroups", () => {
+  const roles = [
+    {
+      name: "analyst",
+      members: [],
+      groups: ["Data-Analysts"],
+      grants: [],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      updatedBy: "admin",
+    },
+  ];
+
+  test("keeps the claim values that name a custom role or one of its groups", () => {
+    const claims = { realm_access: { roles: ["data-analysts", "analyst", "offline_access"] } };
+    expect(mapOIDCGroups(claims, "realm_access.roles", roles)).toEqual(["data-analysts", "analyst"]);
+  });
+
+  test("returns none without custom roles or a matching claim", () => {
+    expect(mapOIDCGroups({ roles: ["analyst"] }, "roles", [])).toEqual([]);
+    expect(mapOIDCGroups({}, "roles", roles)).toEqual([]);
+  });
+});
+
 // ─── getOIDCConfig ──────────────────────────────────────────────────────────
 
 describe("getOIDCConfig", () => {
@@ -220,6 +220,62 @@ describe("generateSelectQuery", () => {
   });
 });
 
+// ============================================================================
+// Cassandra (CQL)
+// ============================================================================
+
+describe("Cassandra (CQL) generation", () => {
+  const cqlCaps = makeCaps({ queryDialect: "cql", defaultPort: 9042 });
+
+  test("generateSelectQuery drops the WHERE 1=1 CQL would reject", () => {
+    expect(generateSelectQuery("events", sampleColumns, cqlCaps)).toBe(
+      "SELECT\n  id,\n  name\nFROM events\nLIMIT 100;",
+    );
+  });
+
+  test("generateTableQuery is plain CQL already", () => {
+    expect(generateTableQuery("telemetry.events", cqlCaps)).toBe("SELECT * FROM telemetry.events LIMIT 50;");
+  });
+
+  test("quoteIdentifier quotes what CQL cannot leave bare", () => {
+    expect(quoteIdentifier("event_time", cqlCaps)).toBe("event_time");
+    expect(quoteIdentifier("_ts", cqlCaps)).toBe('"_ts"');
+    expect(quoteIdentifier("a$b", cqlCaps)).toBe('"a$b"');
+    expect(quoteIdentifier("DeviceId", cqlCaps)).toBe('"DeviceId"');
+  });
+});
+
+// ============================================================================
+// Elasticsearch / OpenSearch
+// ============================================================================
+
+describe("Elasticsearch / OpenSearch generation", () => {
+  const esCaps = makeCaps({ queryDialect: "elasticsearch", defaultPort: 9200 });
+
+  test("generateTableQuery writes a Query DSL request, which returns each document whole", () => {
+    expect(JSON.parse(generateTableQuery("logs-2026.10", esCaps))).toEqual({
+      index: "logs-2026.10",
+      query: { match_all: {} },
+      size: 50,
+    });
+  });
+
+  test("generateSelectQuery drops the WHERE 1=1 OpenSearch's SQL would reject", () => {
+    expect(generateSelectQuery("events", sampleColumns, esCaps)).toBe("SELECT\n  id,\n  name\nFROM events\nLIMIT 100;");
+  });
+
+  test("quoteIdentifier leaves a field path bare and quotes an index pattern", () => {
+    expect(quoteIdentifier("http.response.status", esCaps)).toBe("http.response.status");
+    expect(quoteIdentifier("@timestamp", esCaps)).toBe("@timestamp");
+    expect(quoteIdentifier("Level", esCaps)).toBe("Level");
+    expect(quoteIdentifier("logs-*", esCaps)).toBe('"logs-*"');
+  });
+
+  test("quoteQualifiedName keeps a dotted index name as one name", () => {
+    expect(quoteQualifiedName(".ds-logs-000001", esCaps)).toBe('".ds-logs-000001"');
+  });
+});
+
 // ============================================================================
 // Couchbase (SQL++) — issue #262, decision 5
 // ============================================================================
@@ -26,6 +26,9 @@ describe("fenceTagEngine", () => {
       "couchbase",
       "clickhouse",
       "druid",
+      "duckdb",
+      "cassandra",
+      "elasticsearch",
     ] satisfies DatabaseType[];
 
     for (const engine of engines) expect(fenceTagEngine(engine)).toBe(engine);
@@ -88,6 +88,7 @@ describe("the classification is exhaustive by construction", () => {
         "connectionString",
         "createdAt",
         "database",
+        "dataCenter",
         "environment",
         "group",
         "host",
@@ -103,6 +104,7 @@ describe("the classification is exhaustive by construction", () => {
         "sshTunnel",
         "type",
         "user",
+        "writePolicy",
       ].sort(),
     );
   });
@@ -109,6 +109,75 @@ describe("delegation", () => {
   });
 });
 
+describe("change requests", () => {
+  test("the connection a change request carries is sealed on write and opened on read", async () => {
+    let stored: unknown = null;
+    const inner = stubProvider({
+      setCollection: mock(async (_u: string, _c: string, data: unknown) => {
+        stored = data;
+      }) as never,
+      getCollection: mock(async () => stored) as never,
+    });
+    const provider = withCredentialEncryption(inner);
+    const request = {
+      id: "cr_1",
+      sql: "DELETE FROM t",
+      preview: "DELETE FROM t",
+      permission: "write" as const,
+      connectionName: "Prod",
+      databaseType: "postgres" as const,
+      connection,
+      requestedBy: "ana",
+      requestedAt: "2026-01-01T00:00:00.000Z",
+      status: "pending" as const,
+    };
+
+    await provider.setCollection("libredb:change-requests", "change_requests", [
+      request,
+      { ...request, id: "cr_2", connection: undefined, seedId: "prod" },
+    ]);
+
+    const [sealed, seed] = stored as (typeof request)[];
+    expect(sealed.connection.password).not.toBe("s3cret");
+    expect(sealed.sql).toBe("DELETE FROM t");
+    expect(seed.connection).toBeUndefined();
+    const opened = await provider.getCollection("libredb:change-requests", "change_requests");
+    expect(opened?.[0].connection?.password).toBe("s3cret");
+  });
+
+  test("an update reads the connection opened and writes it sealed", async () => {
+    let stored: unknown = null;
+    const inner = stubProvider({
+      updateCollection: mock(async (_u: string, _c: string, update: (current: unknown) => unknown) => {
+        stored = update(stored);
+      }) as never,
+    });
+    const provider = withCredentialEncryption(inner);
+    const request = {
+      id: "cr_1",
+      sql: "DELETE FROM t",
+      preview: "DELETE FROM t",
+      permission: "write" as const,
+      connectionName: "Prod",
+      databaseType: "postgres" as const,
+      connection,
+      requestedBy: "ana",
+      requestedAt: "2026-01-01T00:00:00.000Z",
+      status: "pending" as const,
+    };
+
+    await provider.updateCollection("libredb:change-requests", "change_requests", () => [request]);
+    let seen: string | undefined;
+    await provider.updateCollection("libredb:change-requests", "change_requests", (current) => {
+      seen = current?.[0].connection?.password;
+      return current ?? [];
+    });
+
+    expect(seen).toBe("s3cret");
+    expect((stored as (typeof request)[])[0].connection.password).not.toBe("s3cret");
+  });
+});
+
 describe("the warning", () => {
   test("names the count and the recovery action exactly once per read", async () => {
     const sealed = encryptSecret("s3cret");
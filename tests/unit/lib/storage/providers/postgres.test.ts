@@ -63,6 +63,7 @@ describe("PostgresStorageProvider", () => {
     expect(mockQuery).toHaveBeenCalledTimes(1);
     const sql = (mockQuery.mock.calls as unknown[][])[0][0] as string;
     expect(sql).toContain("CREATE TABLE IF NOT EXISTS user_storage");
+    expect(sql).toContain("CREATE TABLE IF NOT EXISTS team_storage");
   });
 
   test("initialize disables SSL for localhost when no ssl params", async () => {
@@ -145,6 +146,63 @@ describe("PostgresStorageProvider", () => {
     expect(result.history as unknown).toEqual([{ id: "h1" }]);
   });
 
+  test("getAllData leaves out the server-only collections", async () => {
+    await provider.initialize();
+    mockQuery.mockResolvedValueOnce({
+      rows: [
+        { collection: "saved_queries", data: JSON.stringify([{ id: "q1" }]) },
+        { collection: "query_schedule_runs", data: JSON.stringify([{ id: "run_1" }]) },
+      ],
+    });
+
+    const result = await provider.getAllData("admin@test.com");
+    expect(Object.keys(result)).toEqual(["saved_queries"]);
+  });
+
+  test("listCollection returns every user's copy of a collection", async () => {
+    await provider.initialize();
+    mockQuery.mockResolvedValueOnce({
+      rows: [
+        { user_id: "alice", data: JSON.stringify([{ id: "sch_1" }]) },
+        { user_id: "bob", data: "{corrupted" },
+      ],
+    });
+
+    const result = await provider.listCollection("query_schedules");
+    const [sql, params] = (mockQuery.mock.calls as unknown[][]).at(-1)!;
+    expect(sql).toContain("WHERE collection = $1");
+    expect(params).toEqual(["query_schedules"]);
+    expect(result as unknown).toEqual([{ userId: "alice", data: [{ id: "sch_1" }] }]);
+  });
+
+  test("team collections are read, listed and deleted by team", async () => {
+    await provider.initialize();
+    mockQuery.mockResolvedValueOnce({ rows: [{ data: JSON.stringify([{ id: "ti_1" }]) }] });
+    expect((await provider.getTeamCollection("team_1", "items")) as unknown).toEqual([{ id: "ti_1" }]);
+    expect((mockQuery.mock.calls as unknown[][]).at(-1)![1]).toEqual(["team_1", "items"]);
+
+    mockQuery.mockResolvedValueOnce({
+      rows: [
+        { team_id: "team_1", data: JSON.stringify({ id: "team_1" }) },
+        { team_id: "team_2", data: "{corrupted" },
+      ],
+    });
+    expect((await provider.listTeamCollection("team")) as unknown).toEqual([
+      { teamId: "team_1", data: { id: "team_1" } },
+    ]);
+
+    await provider.setTeamCollection("team_1", "items", []);
+    const [upsert, values] = (mockQuery.mock.calls as unknown[][]).at(-1)!;
+    expect(upsert).toContain("ON CONFLICT (team_id, collection)");
+    expect(values).toEqual(["team_1", "items", "[]"]);
+
+    await provider.deleteTeam("team_1");
+    expect((mockQuery.mock.calls as unknown[][]).at(-1)).toEqual([
+      "DELETE FROM team_storage WHERE team_id = $1",
+      ["team_1"],
+    ]);
+  });
+
   test("getCollection returns null when not found", async () => {
     await provider.initialize();
     mockQuery.mockResolvedValueOnce({ rows: [] });
@@ -231,6 +289,94 @@ describe("PostgresStorageProvider", () => {
     expect(queries[queries.length - 1]).toBe("COMMIT");
   });
 
+  test("updateCollection holds the row's key from its read to its write", async () => {
+    await provider.initialize();
+
+    const mockClientQuery = mock(
+      async (sql: string): Promise<{ rows: unknown[] }> =>
+        sql.startsWith("SELECT data") ? { rows: [{ data: JSON.stringify([{ id: "cr_1" }]) }] } : { rows: [] },
+    );
+    const release = mock(() => {});
+    mockPool.connect = mock(async () => ({ query: mockClientQuery, release }));
+
+    let seen: unknown = undefined;
+    await provider.updateCollection("libredb:change-requests", "change_requests", (current) => {
+      seen = current;
+      return [];
+    });
+
+    const calls = mockClientQuery.mock.calls as unknown[][];
+    expect(calls.map((c) => (c[0] as string).split(/\s/)[0])).toEqual([
+      "BEGIN",
+      "SELECT",
+      "SELECT",
+      "INSERT",
+      "COMMIT",
+    ]);
+    expect(calls[1][0]).toContain("pg_advisory_xact_lock");
+    expect(calls[3][1]).toEqual(["libredb:change-requests", "change_requests", "[]"]);
+    expect(seen).toEqual([{ id: "cr_1" }]);
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+
+  test("updateTeamCollection does the same for a team's row", async () => {
+    await provider.initialize();
+
+    const mockClientQuery = mock(
+      async (sql: string): Promise<{ rows: unknown[] }> =>
+        sql.startsWith("SELECT data") ? { rows: [{ data: "[]" }] } : { rows: [] },
+    );
+    mockPool.connect = mock(async () => ({ query: mockClientQuery, release: mock(() => {}) }));
+
+    await provider.updateTeamCollection("team_1", "items", (current) => [...(current ?? [])]);
+
+    const calls = mockClientQuery.mock.calls as unknown[][];
+    expect(calls[1][0]).toContain("pg_advisory_xact_lock");
+    expect(calls[2][0]).toContain("FROM team_storage WHERE team_id = $1");
+    expect(calls[3][0]).toContain("INSERT INTO team_storage (team_id, collection, data, updated_at)");
+    expect(calls[3][1]).toEqual(["team_1", "items", "[]"]);
+    expect(calls[4][0]).toBe("COMMIT");
+  });
+
+  test("audit events go to their own table, all or none, and come back a page at a time", async () => {
+    await provider.initialize();
+    const ddl = (mockQuery.mock.calls as unknown[][])[0][0] as string;
+    expect(ddl).toContain("seq             BIGINT PRIMARY KEY");
+
+    const mockClientQuery = mock(async (sql: string): Promise<{ rows: unknown[] }> => {
+      if (sql.startsWith("INSERT"))
+        throw new Error('duplicate key value violates unique constraint "audit_events_pkey"');
+      return { rows: [] };
+    });
+    const release = mock(() => {});
+    mockPool.connect = mock(async () => ({ query: mockClientQuery, release }));
+    const stored = { seq: 7, event: { id: "e7", user: "ana" }, prevHash: "p", hash: "h" };
+    await expect(provider.appendAuditEvents([stored as never])).rejects.toThrow("duplicate key");
+    expect((mockClientQuery.mock.calls as unknown[][]).map((c) => c[0])).toContain("ROLLBACK");
+    expect(release).toHaveBeenCalledTimes(1);
+
+    mockQuery.mockImplementation(async (sql: string) =>
+      sql.startsWith("SELECT COUNT")
+        ? { rows: [{ total: "42" }] }
+        : { rows: [{ seq: "7", event: JSON.stringify(stored.event), prev_hash: "p", hash: "h" }] },
+    );
+    const page = await provider.queryAuditEvents({
+      type: "logout",
+      reason: "no_session",
+      order: "oldest",
+      limit: 10,
+      offset: 0,
+    });
+    // BIGINTs arrive as strings and leave as numbers.
+    expect(page as unknown).toEqual({ total: 42, events: [stored] });
+    const [sql, params] = (mockQuery.mock.calls as unknown[][]).at(-1)!;
+    expect(sql as string).toContain("WHERE type = $1 AND reason = $2");
+    expect(sql as string).toContain("ORDER BY seq ASC");
+    expect(sql as string).toContain("LIMIT $3 OFFSET $4");
+    expect(params).toEqual(["logout", "no_session", 10, 0]);
+    mockQuery.mockImplementation(async () => ({ rows: [] }));
+  });
+
   test("mergeData rolls back on error and releases client", async () => {
     await provider.initialize();
 
@@ -268,6 +414,23 @@ describe("PostgresStorageProvider", () => {
     expect(mockClientRelease).toHaveBeenCalledTimes(1);
   });
 
+  test("a ROLLBACK that fails too leaves the original error to be thrown", async () => {
+    await provider.initialize();
+
+    const mockClientQuery = mock(async (sql: string): Promise<{ rows: unknown[] }> => {
+      if (sql.startsWith("SELECT pg_advisory")) throw new Error("terminating connection");
+      if (sql === "ROLLBACK") throw new Error("Client has encountered a connection error");
+      return { rows: [] };
+    });
+    const release = mock(() => {});
+    mockPool.connect = mock(async () => ({ query: mockClientQuery, release }));
+
+    await expect(provider.updateCollection("libredb:change-requests", "change_requests", () => [])).rejects.toThrow(
+      "terminating connection",
+    );
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+
   test("mergeData only writes provided collections", async () => {
     await provider.initialize();
 
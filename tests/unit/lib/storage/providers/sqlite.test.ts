@@ -86,6 +86,125 @@ describe("SQLiteStorageProvider", () => {
     expect(result.history as unknown).toEqual([{ id: "h1" }]);
   });
 
+  test("getAllData leaves out the server-only collections", async () => {
+    mockPrepare.mockReturnValue({
+      all: mock(() => [
+        { collection: "saved_queries", data: JSON.stringify([{ id: "q1" }]) },
+        { collection: "query_schedules", data: JSON.stringify([{ id: "sch_1" }]) },
+        { collection: "schedule_notifications", data: JSON.stringify([{ id: "ntf_1" }]) },
+      ]),
+      get: mock(() => undefined),
+      run: mock(() => {}),
+    });
+
+    await provider.initialize();
+    const result = await provider.getAllData("admin@test.com");
+
+    expect(Object.keys(result)).toEqual(["saved_queries"]);
+  });
+
+  test("listCollection returns every user's copy of a collection", async () => {
+    const mockAll = mock((..._args: unknown[]) => [
+      { user_id: "alice", data: JSON.stringify([{ id: "sch_1" }]) },
+      { user_id: "bob", data: "{corrupted" },
+      { user_id: "carol", data: JSON.stringify([]) },
+    ]);
+    mockPrepare.mockReturnValue({ all: mockAll, get: mock(() => undefined), run: mock(() => {}) });
+
+    await provider.initialize();
+    const result = await provider.listCollection("query_schedules");
+
+    expect(mockAll).toHaveBeenCalledWith("query_schedules");
+    expect(result as unknown).toEqual([
+      { userId: "alice", data: [{ id: "sch_1" }] },
+      { userId: "carol", data: [] },
+    ]);
+  });
+
+  test("initialize creates the team table next to the user one", async () => {
+    await provider.initialize();
+    const sql = (mockExec.mock.calls as unknown[][])[0][0] as string;
+    expect(sql).toContain("CREATE TABLE IF NOT EXISTS team_storage");
+  });
+
+  test("team collections are read, listed and deleted by team", async () => {
+    const mockGet = mock((..._args: unknown[]) => ({ data: JSON.stringify([{ id: "ti_1" }]) }));
+    const mockAll = mock((..._args: unknown[]) => [
+      { team_id: "team_1", data: JSON.stringify({ id: "team_1" }) },
+      { team_id: "team_2", data: "{corrupted" },
+    ]);
+    const mockRun = mock((..._args: unknown[]) => {});
+    mockPrepare.mockReturnValue({ all: mockAll, get: mockGet, run: mockRun });
+
+    await provider.initialize();
+    expect((await provider.getTeamCollection("team_1", "items")) as unknown).toEqual([{ id: "ti_1" }]);
+    expect(mockGet).toHaveBeenCalledWith("team_1", "items");
+
+    expect((await provider.listTeamCollection("team")) as unknown).toEqual([
+      { teamId: "team_1", data: { id: "team_1" } },
+    ]);
+
+    await provider.setTeamCollection("team_1", "items", []);
+    expect(mockRun).toHaveBeenCalledWith("team_1", "items", "[]");
+
+    await provider.deleteTeam("team_1");
+    expect(mockRun).toHaveBeenLastCalledWith("team_1");
+    const sql = (mockPrepare.mock.calls as unknown[][]).at(-1)![0] as string;
+    expect(sql).toBe("DELETE FROM team_storage WHERE team_id = ?");
+  });
+
+  test("initialize creates the indexed audit table", async () => {
+    await provider.initialize();
+    const sql = (mockExec.mock.calls as unknown[][])[0][0] as string;
+    expect(sql).toContain("CREATE TABLE IF NOT EXISTS audit_events");
+    expect(sql).toContain("seq             INTEGER PRIMARY KEY");
+    expect(sql).toContain("CREATE INDEX IF NOT EXISTS audit_events_user ON audit_events (user_name, ts)");
+  });
+
+  test("audit events are appended in one transaction and read back a page at a time", async () => {
+    const stored = { seq: 7, event: { id: "e7", user: "ana" }, prevHash: "p", hash: "h" };
+    const row = { seq: 7, event: JSON.stringify(stored.event), prev_hash: "p", hash: "h" };
+    const mockRun = mock((..._args: unknown[]) => ({ changes: 3 }));
+    const mockGet = mock((..._args: unknown[]) => ({ total: 42 }));
+    const mockAll = mock((..._args: unknown[]) => [row, { ...row, seq: 6, event: "{corrupted" }]);
+    mockPrepare.mockReturnValue({ all: mockAll, get: mockGet, run: mockRun });
+    const txFn = mock((fn: () => void) => fn);
+    mockDbInstance.transaction = txFn;
+
+    await provider.initialize();
+    await provider.appendAuditEvents([stored as never]);
+    expect(txFn).toHaveBeenCalledTimes(1);
+    expect((mockRun.mock.calls as unknown[][])[0]).toEqual([
+      7,
+      undefined,
+      undefined,
+      "ana",
+      null,
+      null,
+      undefined,
+      row.event,
+      "p",
+      "h",
+    ]);
+
+    const page = await provider.queryAuditEvents({
+      user: "ana",
+      since: "2026-01-01T00:00:00.000Z",
+      order: "newest",
+      limit: 50,
+      offset: 100,
+    });
+    expect(page as unknown).toEqual({ total: 42, events: [stored] });
+    expect(mockGet).toHaveBeenLastCalledWith("ana", "2026-01-01T00:00:00.000Z");
+    expect(mockAll).toHaveBeenLastCalledWith("ana", "2026-01-01T00:00:00.000Z", 50, 100);
+    const sql = (mockPrepare.mock.calls as unknown[][]).at(-1)![0] as string;
+    expect(sql).toContain("WHERE user_name = ? AND ts >= ?");
+    expect(sql).toContain("ORDER BY seq DESC LIMIT ? OFFSET ?");
+
+    expect(await provider.pruneAuditEvents({ before: "2025-01-01T00:00:00.000Z", keepLatest: 1000 })).toBe(6);
+    expect(mockRun).toHaveBeenLastCalledWith(1000);
+  });
+
   test("getCollection returns null when not found", async () => {
     mockPrepare.mockReturnValue({
       all: mock(() => []),
@@ -194,6 +313,44 @@ describe("SQLiteStorageProvider", () => {
     expect(mockRun.mock.calls.length).toBeGreaterThanOrEqual(2);
   });
 
+  test("updateCollection reads and writes in one IMMEDIATE transaction", async () => {
+    const mockRun = mock((..._args: unknown[]) => {});
+    mockPrepare.mockReturnValue({
+      all: mock(() => []),
+      get: mock(() => ({ data: JSON.stringify([{ id: "cr_1", status: "pending" }]) })),
+      run: mockRun,
+    });
+    const immediate = mock(() => {});
+    mockDbInstance.transaction = mock((fn: () => void) => Object.assign(fn, { immediate: () => (immediate(), fn()) }));
+
+    await provider.initialize();
+    let seen: unknown = undefined;
+    await provider.updateCollection("libredb:change-requests", "change_requests", (current) => {
+      seen = current;
+      return [];
+    });
+
+    expect(immediate).toHaveBeenCalledTimes(1);
+    expect(seen).toEqual([{ id: "cr_1", status: "pending" }]);
+    expect(mockRun).toHaveBeenCalledWith("libredb:change-requests", "change_requests", "[]");
+  });
+
+  test("updateTeamCollection writes a team's row in the same kind of transaction", async () => {
+    const mockRun = mock((..._args: unknown[]) => {});
+    mockPrepare.mockReturnValue({ all: mock(() => []), get: mock(() => undefined), run: mockRun });
+    const immediate = mock(() => {});
+    mockDbInstance.transaction = mock((fn: () => void) => Object.assign(fn, { immediate: () => (immediate(), fn()) }));
+
+    await provider.initialize();
+    await provider.updateTeamCollection("team_1", "items", (current) => current ?? []);
+
+    expect(immediate).toHaveBeenCalledTimes(1);
+    expect(
+      (mockPrepare.mock.calls as unknown[][]).some(([sql]) => String(sql).includes("INTO team_storage (team_id")),
+    ).toBe(true);
+    expect(mockRun).toHaveBeenCalledWith("team_1", "items", "[]");
+  });
+
   test("mergeData only writes provided collections", async () => {
     const mockRun = mock((..._args: unknown[]) => {});
     mockPrepare.mockReturnValue({
@@ -28,6 +28,8 @@ function createMockMonaco() {
         };
       },
       CompletionItemKind: {
+        Method: 0,
+        Function: 1,
         Keyword: 17,
         Enum: 14,
         Class: 5,
@@ -115,12 +117,12 @@ describe("registerMongoDBCompletionProvider", () => {
     expect(monaco._getProvider()).toBeNull();
   });
 
-  test("sets trigger characters to quote, dollar, colon", () => {
+  test("sets trigger characters to quote, dollar, colon, dot", () => {
     const monaco = createMockMonaco();
     const cache = createSchemaCache();
     registerMongoDBCompletionProvider(monaco, cache);
     const provider = monaco._getProvider()!;
-    expect(provider.triggerCharacters).toEqual(['"', "$", ":"]);
+    expect(provider.triggerCharacters).toEqual(['"', "$", ":", "."]);
   });
 });
 
@@ -377,7 +379,7 @@ describe("Snippet completions", () => {
     const result = provider.provideCompletionItems(model, position);
 
     const snippetSuggs = result.suggestions.filter((s) => s.kind === 27);
-    expect(snippetSuggs.length).toBe(7);
+    expect(snippetSuggs.length).toBe(9);
 
     const labels = snippetSuggs.map((s) => s.label);
     expect(labels).toContain("find");
@@ -387,6 +389,8 @@ describe("Snippet completions", () => {
     expect(labels).toContain("insertOne");
     expect(labels).toContain("updateOne");
     expect(labels).toContain("deleteMany");
+    expect(labels).toContain("db.find");
+    expect(labels).toContain("db.aggregate");
   });
 
   test("suggests snippets when cursor at line start", () => {
@@ -401,7 +405,7 @@ describe("Snippet completions", () => {
     const result = provider.provideCompletionItems(model, position);
 
     const snippetSuggs = result.suggestions.filter((s) => s.kind === 27);
-    expect(snippetSuggs.length).toBe(7);
+    expect(snippetSuggs.length).toBe(9);
   });
 
   test("snippets have InsertAsSnippet rule and correct detail", () => {
@@ -518,3 +522,80 @@ describe("Empty schema cache", () => {
     expect(classSuggs.length).toBe(0);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Shell syntax (db.<collection>.<method>(...))
+// ---------------------------------------------------------------------------
+
+describe("Shell syntax completions", () => {
+  function suggest(line: string, fullText?: string) {
+    const monaco = createMockMonaco();
+    registerMongoDBCompletionProvider(monaco, createSchemaCache());
+    const provider = monaco._getProvider()!;
+    return provider.provideCompletionItems(createMockModel(line, fullText), createPosition(1, line.length + 1))
+      .suggestions;
+  }
+
+  test("suggests collections after db., then createCollection", () => {
+    const suggestions = suggest("db.us");
+    expect(suggestions.map((s) => s.label)).toEqual(["users", "orders", "createCollection"]);
+    expect(suggestions[0].kind).toBe(5); // Class
+    expect(suggestions[2].kind).toBe(0); // Method
+  });
+
+  test("suggests collection methods after db.<collection>.", () => {
+    const suggestions = suggest("db.users.fi");
+    const find = suggestions.find((s) => s.label === "find");
+    expect(find?.kind).toBe(0); // Method
+    expect(find?.insertText).toBe("find({$1})");
+    expect(find?.insertTextRules).toBe(4); // InsertAsSnippet
+    expect(suggestions.map((s) => s.label)).toContain("deleteMany");
+    expect(suggestions.map((s) => s.label)).toContain("createIndex");
+    expect(suggestions.map((s) => s.label)).not.toContain("users");
+  });
+
+  test("suggests cursor methods after a call, or at the start of a continued line", () => {
+    expect(suggest("db.users.find({}).").map((s) => s.label)).toEqual([
+      "sort",
+      "limit",
+      "skip",
+      "projection",
+      "toArray",
+      "explain",
+    ]);
+    expect(suggest("  .li", "db.users.find({})\n  .li").map((s) => s.label)).toContain("limit");
+  });
+
+  test("suggests only the reads explain() covers after it", () => {
+    const methods = suggest('db.users.explain("executionStats").').filter((s) => s.kind === 0);
+    expect(methods.map((s) => s.label)).toEqual(["find", "aggregate", "countDocuments", "distinct"]);
+  });
+
+  test("suggests unquoted field names, quoting a name that is not an identifier", () => {
+    const monaco = createMockMonaco();
+    const cache = createSchemaCache();
+    cache.allColumns.set("address.city", { label: "address.city", type: "string" } as never);
+    registerMongoDBCompletionProvider(monaco, cache);
+    const line = "db.users.find({ na";
+    const suggestions = monaco
+      ._getProvider()!
+      .provideCompletionItems(createMockModel(line), createPosition(1, line.length + 1)).suggestions;
+
+    const fields = suggestions.filter((s) => s.kind === 3);
+    expect(fields.find((s) => s.label === "name")?.insertText).toBe("name");
+    expect(fields.find((s) => s.label === "address.city")?.insertText).toBe('"address.city"');
+  });
+
+  test("suggests the BSON constructors in a value position", () => {
+    const labels = suggest("db.users.find({ _id: Obj").map((s) => s.label);
+    expect(labels).toContain("ObjectId");
+    expect(labels).toContain("ISODate");
+    expect(labels).not.toContain("name");
+  });
+
+  test("leaves JSON envelope text to the JSON rules", () => {
+    const labels = suggest('{ "collection": "users", "filter": { na').map((s) => s.label);
+    expect(labels).not.toContain("ObjectId");
+    expect(labels).not.toContain("sort");
+  });
+});
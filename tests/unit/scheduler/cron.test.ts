@@ -0,0 +1,71 @@
+import { describe, test, expect } from "bun:test";
+import { CronError, nextCronRun, parseCron } from "@/lib/scheduler/cron";
+
+const next = (expression: string, after: string) => nextCronRun(parseCron(expression), new Date(after))?.toISOString();
+
+describe("parseCron", () => {
+  test("reads lists, ranges and steps", () => {
+    const schedule = parseCron("0,30 9-17/4 * * 1-5");
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.weekdays]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test("reads `5/15` as from 5, every 15", () => {
+    expect([...parseCron("5/15 * * * *").minutes]).toEqual([5, 20, 35, 50]);
+  });
+
+  test("takes month and weekday names, and 7 as Sunday", () => {
+    const schedule = parseCron("0 0 * jan,Dec SUN,7");
+    expect([...schedule.months]).toEqual([1, 12]);
+    expect([...schedule.weekdays]).toEqual([0]);
+  });
+
+  test("expands the nicknames", () => {
+    expect(parseCron("@daily")).toEqual(parseCron("0 0 * * *"));
+    expect(parseCron("@HOURLY")).toEqual(parseCron("0 * * * *"));
+  });
+
+  test("names what is wrong with an expression", () => {
+    expect(() => parseCron("* * * *")).toThrow("Expected 5 fields");
+    expect(() => parseCron("60 * * * *")).toThrow("minute 60 is outside 0-59");
+    expect(() => parseCron("* * * * FUNDAY")).toThrow('"FUNDAY" is not a valid day of week');
+    expect(() => parseCron("*/0 * * * *")).toThrow("invalid step");
+    expect(() => parseCron("0 17-9 * * *")).toThrow("empty hour range");
+    expect(() => parseCron("nonsense")).toThrow(CronError);
+  });
+});
+
+describe("nextCronRun", () => {
+  test("is strictly after the given time", () => {
+    expect(next("*/15 * * * *", "2026-03-10T10:15:00Z")).toBe("2026-03-10T10:30:00.000Z");
+    expect(next("*/15 * * * *", "2026-03-10T10:15:30Z")).toBe("2026-03-10T10:30:00.000Z");
+  });
+
+  test("works in UTC", () => {
+    expect(next("0 9 * * *", "2026-03-10T09:00:00Z")).toBe("2026-03-11T09:00:00.000Z");
+  });
+
+  test("rolls over months and years", () => {
+    expect(next("0 0 1 * *", "2026-12-15T00:00:00Z")).toBe("2027-01-01T00:00:00.000Z");
+    expect(next("30 6 * FEB *", "2026-03-01T00:00:00Z")).toBe("2027-02-01T06:30:00.000Z");
+  });
+
+  test("finds the next leap day", () => {
+    expect(next("0 0 29 2 *", "2026-01-01T00:00:00Z")).toBe("2028-02-29T00:00:00.000Z");
+  });
+
+  test("matches either day field when both are restricted", () => {
+    // 2026-06-01 is a Monday; the 15th is the next match by day of month.
+    expect(next("0 0 15 * MON", "2026-06-01T00:00:00Z")).toBe("2026-06-08T00:00:00.000Z");
+    expect(next("0 0 15 * MON", "2026-06-12T00:00:00Z")).toBe("2026-06-15T00:00:00.000Z");
+  });
+
+  test("honours the weekday alone when the day of month is `*`", () => {
+    expect(next("0 9 * * 1-5", "2026-06-05T09:00:00Z")).toBe("2026-06-08T09:00:00.000Z");
+  });
+
+  test("gives up on a date that never comes", () => {
+    expect(next("0 0 31 2 *", "2026-01-01T00:00:00Z")).toBeUndefined();
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, test, expect, afterEach, spyOn } from "bun:test";
+import { readScheduleInput, ScheduleInputError } from "@/lib/scheduler/input";
+import { postWebhook, webhookUrlProblem } from "@/lib/scheduler/webhook";
+
+const base = { savedQueryId: "q1", connectionId: "c1", cron: "0 9 * * *" };
+
+describe("readScheduleInput", () => {
+  test("fills in the defaults", () => {
+    expect(readScheduleInput(base)).toEqual({
+      ...base,
+      enabled: true,
+      keepResults: 10,
+      threshold: null,
+      webhookUrl: null,
+    });
+  });
+
+  test("keeps an id, and labels a row-count threshold", () => {
+    const input = readScheduleInput({
+      ...base,
+      id: "sch_1",
+      threshold: { metric: "rowCount", warning: 10, critical: 100, direction: "above" },
+    });
+    expect(input.id).toBe("sch_1");
+    expect(input.threshold).toEqual({
+      metric: "rowCount",
+      warning: 10,
+      critical: 100,
+      direction: "above",
+      label: "Row count",
+    });
+  });
+
+  test("refuses a cron expression that does not parse", () => {
+    expect(() => readScheduleInput({ ...base, cron: "every day" })).toThrow("cron: Expected 5 fields");
+  });
+
+  test("refuses a keep count out of range", () => {
+    expect(() => readScheduleInput({ ...base, keepResults: 0 })).toThrow(ScheduleInputError);
+    expect(() => readScheduleInput({ ...base, keepResults: 101 })).toThrow("1 to 100");
+  });
+
+  test("refuses a threshold whose critical is nearer than its warning", () => {
+    expect(() =>
+      readScheduleInput({ ...base, threshold: { metric: "total", warning: 10, critical: 20, direction: "below" } }),
+    ).toThrow("threshold.critical must be below threshold.warning");
+  });
+
+  test("refuses a threshold without numbers", () => {
+    expect(() =>
+      readScheduleInput({ ...base, threshold: { metric: "rowCount", warning: null, critical: 5, direction: "above" } }),
+    ).toThrow("must be numbers");
+  });
+
+  test("treats a blank webhook as none and refuses one to another host", () => {
+    expect(readScheduleInput({ ...base, webhookUrl: "  " }).webhookUrl).toBeNull();
+    expect(() => readScheduleInput({ ...base, webhookUrl: "https://example.com/hook" })).toThrow(
+      "SCHEDULE_WEBHOOK_HOSTS",
+    );
+  });
+});
+
+describe("webhookUrlProblem", () => {
+  const original = process.env.SCHEDULE_WEBHOOK_HOSTS;
+  afterEach(() => {
+    if (original === undefined) delete process.env.SCHEDULE_WEBHOOK_HOSTS;
+    else process.env.SCHEDULE_WEBHOOK_HOSTS = original;
+  });
+
+  test("allows loopback", () => {
+    expect(webhookUrlProblem("http://localhost:9000/alerts")).toBeNull();
+    expect(webhookUrlProblem("http://127.0.0.1/alerts")).toBeNull();
+    expect(webhookUrlProblem("http://[::1]:8080/")).toBeNull();
+  });
+
+  test("allows the hosts the operator lists, by name or name and port", () => {
+    process.env.SCHEDULE_WEBHOOK_HOSTS = "alerts.internal, hooks.internal:8443";
+    expect(webhookUrlProblem("https://alerts.internal/x")).toBeNull();
+    expect(webhookUrlProblem("https://hooks.internal:8443/x")).toBeNull();
+    expect(webhookUrlProblem("https://hooks.internal/x")).not.toBeNull();
+  });
+
+  test("refuses anything else", () => {
+    expect(webhookUrlProblem("not a url")).toBe("The webhook is not a valid URL");
+    expect(webhookUrlProblem("ftp://localhost/x")).toBe("The webhook must be an http or https URL");
+    expect(webhookUrlProblem("http://169.254.169.254/latest")).toContain("Ask an administrator");
+  });
+});
+
+describe("postWebhook", () => {
+  test("does not call a host that is no longer allowed", async () => {
+    const fetchSpy = spyOn(globalThis, "fetch");
+    try {
+      expect(await postWebhook("https://example.com/hook", {})).toBe(false);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  test("reports a failing endpoint without throwing", async () => {
+    const fetchSpy = spyOn(globalThis, "fetch").mockRejectedValue(new Error("ECONNREFUSED"));
+    try {
+      expect(await postWebhook("http://localhost:9/hook", { event: "x" })).toBe(false);
+      const [, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+      expect(init.redirect).toBe("manual");
+      expect(JSON.parse(init.body as string)).toEqual({ event: "x" });
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+});
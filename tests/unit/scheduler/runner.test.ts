@@ -0,0 +1,314 @@
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import { createMockProvider } from "../../helpers/mock-provider";
+import type { DatabaseProvider, QueryBatch } from "@/lib/db/types";
+import type { ServerStorageProvider } from "@/lib/storage/types";
+import type { QuerySchedule } from "@/lib/scheduler/types";
+
+// ─── A server storage that keeps everything in memory ───────────────────────
+let store = new Map<string, unknown>();
+const key = (userId: string, collection: string) => `${userId}/${collection}`;
+const storage = {
+  getCollection: async (userId: string, collection: string) => store.get(key(userId, collection)) ?? null,
+  setCollection: async (userId: string, collection: string, data: unknown) => {
+    store.set(key(userId, collection), data);
+  },
+  updateCollection: async (userId: string, collection: string, update: (current: unknown) => unknown) => {
+    store.set(key(userId, collection), update(store.get(key(userId, collection)) ?? null));
+  },
+  listCollection: async (collection: string) =>
+    [...store.entries()]
+      .filter(([k]) => k.endsWith(`/${collection}`))
+      .map(([k, data]) => ({ userId: k.slice(0, k.lastIndexOf("/")), data })),
+} as unknown as ServerStorageProvider;
+
+// ─── The database the schedule reads ────────────────────────────────────────
+let rows: Record<string, unknown>[] = [];
+let provider: DatabaseProvider;
+const mockGetOrCreateProvider = mock(async () => provider);
+
+mock.module("@/lib/db", () => ({ getOrCreateProvider: mockGetOrCreateProvider }));
+
+const auditEvents: Record<string, unknown>[] = [];
+mock.module("@/lib/audit", () => ({
+  emitAuditEvent: (event: Record<string, unknown>) => auditEvents.push(event),
+}));
+
+const mockResolveConnection = mock(async (body: { connectionId: string }, session: { role: string }) => ({
+  id: body.connectionId,
+  name: `Managed (${session.role})`,
+  type: "postgres",
+}));
+mock.module("@/lib/seed/resolve-connection", () => ({ resolveConnection: mockResolveConnection }));
+
+mock.module("@/lib/storage/factory", () => ({ getStorageProvider: async () => storage }));
+
+const { crossedInto, measure, runSchedule, SNAPSHOT_ROWS } = await import("@/lib/scheduler/runner");
+const { ACCESS_ROLES_OWNER } = await import("@/lib/access/store");
+const { runDueSchedules } = await import("@/lib/scheduler/scheduler");
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+const schedule = (overrides: Partial<QuerySchedule> = {}): QuerySchedule => ({
+  id: "sch_1",
+  savedQueryId: "q1",
+  queryName: "Failed orders",
+  connectionId: "c1",
+  cron: "0 * * * *",
+  enabled: true,
+  keepResults: 2,
+  threshold: { metric: "rowCount", warning: 2, critical: 4, direction: "above", label: "Row count" },
+  webhookUrl: null,
+  ownerRole: "user",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  lastRunAt: null,
+  nextRunAt: "2026-03-10T10:00:00.000Z",
+  lastLevel: null,
+  ...overrides,
+});
+
+function seed(scheduleOverrides: Partial<QuerySchedule> = {}, query = "SELECT * FROM orders WHERE failed") {
+  store.set(key("alice", "saved_queries"), [{ id: "q1", name: "Failed orders", query, connectionType: "postgres" }]);
+  store.set(key("alice", "connections"), [{ id: "c1", name: "Orders DB", type: "postgres" }]);
+  store.set(key("alice", "local_account"), { email: "alice", role: "user", disabled: false });
+  const saved = schedule(scheduleOverrides);
+  store.set(key("alice", "query_schedules"), [saved]);
+  return saved;
+}
+
+const NOW = new Date("2026-03-10T10:00:00Z");
+
+beforeEach(() => {
+  store = new Map();
+  rows = [];
+  auditEvents.length = 0;
+  mockGetOrCreateProvider.mockClear();
+  mockResolveConnection.mockClear();
+  provider = createMockProvider({ type: "postgres" });
+  provider.queryStream = async function* (): AsyncGenerator<QueryBatch> {
+    yield { rows, fields: ["id", "total"] };
+  };
+});
+
+describe("crossedInto", () => {
+  test("alerts on a rise only", () => {
+    expect(crossedInto(null, "warning")).toBe(true);
+    expect(crossedInto("warning", "critical")).toBe(true);
+    expect(crossedInto("warning", "warning")).toBe(false);
+    expect(crossedInto("critical", "warning")).toBe(false);
+    expect(crossedInto("critical", "healthy")).toBe(false);
+  });
+});
+
+describe("measure", () => {
+  const threshold = { metric: "total", warning: 1, critical: 2, direction: "above" as const, label: "total" };
+
+  test("reads the row count or the first row's column", () => {
+    expect(measure({ ...threshold, metric: "rowCount" }, { rowCount: 7, rows: [] })).toBe(7);
+    expect(measure(threshold, { rowCount: 1, rows: [{ total: "12.5" }] })).toBe(12.5);
+    expect(measure(threshold, { rowCount: 1, rows: [{ total: BigInt(3) }] })).toBe(3);
+  });
+
+  test("has nothing to measure in NULL, text or no rows", () => {
+    expect(measure(threshold, { rowCount: 1, rows: [{ total: null }] })).toBeNull();
+    expect(measure(threshold, { rowCount: 1, rows: [{ total: "n/a" }] })).toBeNull();
+    expect(measure(threshold, { rowCount: 0, rows: [] })).toBeNull();
+  });
+});
+
+describe("runSchedule", () => {
+  test("keeps the result and moves the schedule to its next run", async () => {
+    const saved = seed();
+    rows = [{ id: 1, total: 10 }];
+
+    const run = await runSchedule(storage, "alice", saved, NOW);
+
+    expect(run.status).toBe("success");
+    expect(run.rowCount).toBe(1);
+    expect(run.level).toBe("healthy");
+    expect(run.alerted).toBe(false);
+    expect(store.get(key("alice", "query_schedule_runs"))).toEqual([run]);
+    const [updated] = store.get(key("alice", "query_schedules")) as QuerySchedule[];
+    expect(updated.lastRunAt).toBe(NOW.toISOString());
+    expect(updated.lastLevel).toBe("healthy");
+    expect(updated.nextRunAt! > NOW.toISOString()).toBe(true);
+  });
+
+  test("counts every row but keeps only a snapshot of them", async () => {
+    const saved = seed({ threshold: null });
+    provider.queryStream = async function* (): AsyncGenerator<QueryBatch> {
+      const batch = Array.from({ length: SNAPSHOT_ROWS }, (_, id) => ({ id, total: id }));
+      yield { rows: batch, fields: ["id", "total"] };
+      yield { rows: batch, fields: ["id", "total"] };
+    };
+
+    const run = await runSchedule(storage, "alice", saved, NOW);
+    expect(run.rowCount).toBe(SNAPSHOT_ROWS * 2);
+    expect(run.rows).toHaveLength(SNAPSHOT_ROWS);
+    expect(run.level).toBeNull();
+  });
+
+  test("keeps only the latest runs it was asked to", async () => {
+    const saved = seed({ keepResults: 2 });
+    store.set(key("alice", "query_schedule_runs"), [{ id: "other", scheduleId: "sch_2" }]);
+
+    const first = await runSchedule(storage, "alice", saved, NOW);
+    const second = await runSchedule(storage, "alice", saved, NOW);
+    const third = await runSchedule(storage, "alice", saved, NOW);
+
+    const kept = (store.get(key("alice", "query_schedule_runs")) as { id: string }[]).map((r) => r.id);
+    expect(kept).toEqual([third.id, second.id, "other"]);
+    expect(kept).not.toContain(first.id);
+  });
+
+  test("alerts once when the threshold is crossed, again only when it rises", async () => {
+    const saved = seed();
+    rows = [{}, {}, {}];
+    const warning = await runSchedule(storage, "alice", saved, NOW);
+    expect(warning.level).toBe("warning");
+    expect(warning.alerted).toBe(true);
+
+    const current = () => (store.get(key("alice", "query_schedules")) as QuerySchedule[])[0];
+    const again = await runSchedule(storage, "alice", current(), NOW);
+    expect(again.alerted).toBe(false);
+
+    rows = [{}, {}, {}, {}, {}];
+    const critical = await runSchedule(storage, "alice", current(), NOW);
+    expect(critical.alerted).toBe(true);
+
+    expect(auditEvents.map((e) => e.action)).toEqual(["threshold_warning", "threshold_critical"]);
+    expect(auditEvents[0]).toMatchObject({ type: "scheduled_query", user: "alice", target: "Failed orders" });
+    const notifications = store.get(key("alice", "schedule_notifications")) as { level: string; message: string }[];
+    expect(notifications.map((n) => n.level)).toEqual(["critical", "warning"]);
+    expect(notifications[1].message).toBe("Row count is 3, at or above the warning threshold of 2");
+  });
+
+  test("records a statement that changes data as a failed run, without running it", async () => {
+    const saved = seed({}, "DELETE FROM orders");
+    const queryStream = mock(provider.queryStream!);
+    provider.queryStream = queryStream;
+
+    const run = await runSchedule(storage, "alice", saved, NOW);
+    expect(run.status).toBe("error");
+    expect(run.error).toContain("returns rows");
+    expect(queryStream).not.toHaveBeenCalled();
+  });
+
+  test("binds the values a saved query last ran with", async () => {
+    const saved = seed({ threshold: null }, "SELECT * FROM orders WHERE status = :status");
+    const [query] = store.get(key("alice", "saved_queries")) as Record<string, unknown>[];
+    query.parameters = [{ name: ":status", type: "text", value: "failed" }];
+    const queryStream = mock(provider.queryStream!);
+    provider.queryStream = queryStream;
+
+    const run = await runSchedule(storage, "alice", saved, NOW);
+    expect(run.status).toBe("success");
+    expect(queryStream.mock.calls[0].slice(0, 2)).toEqual(["SELECT * FROM orders WHERE status = $1", ["failed"]]);
+  });
+
+  test("records a parameter with no saved value as a failed run", async () => {
+    const saved = seed({}, "SELECT * FROM orders WHERE status = :status");
+
+    const run = await runSchedule(storage, "alice", saved, NOW);
+    expect(run.status).toBe("error");
+    expect(run.error).toBe("No value for :status");
+  });
+
+  test("records a deleted saved query as a failed run", async () => {
+    const saved = seed();
+    store.set(key("alice", "saved_queries"), []);
+
+    const run = await runSchedule(storage, "alice", saved, NOW);
+    expect(run.status).toBe("error");
+    expect(run.error).toBe("The saved query this schedule runs was deleted");
+  });
+
+  test("resolves a managed connection as the owner's current role, not the one saved", async () => {
+    const saved = seed({ connectionId: "seed:prod", ownerRole: "admin" });
+
+    await runSchedule(storage, "alice", saved, NOW);
+    expect(mockResolveConnection).toHaveBeenCalledWith(
+      { connectionId: "seed:prod" },
+      { username: "alice", role: "user" },
+    );
+  });
+
+  test("stops running once the owner's account is disabled", async () => {
+    const saved = seed();
+    store.set(key("alice", "local_account"), { email: "alice", role: "user", disabled: true });
+    const queryStream = mock(provider.queryStream!);
+    provider.queryStream = queryStream;
+
+    const run = await runSchedule(storage, "alice", saved, NOW);
+    expect(run.status).toBe("error");
+    expect(run.error).toBe("The schedule's owner can no longer sign in");
+    expect(queryStream).not.toHaveBeenCalled();
+  });
+
+  test("runs for a directory user only while their last sign-in speaks for them", async () => {
+    const saved = seed({ threshold: null });
+    store.delete(key("alice", "local_account"));
+    const signedIn = (daysAgo: number) =>
+      store.set(key("alice", "directory_sign_in"), {
+        role: "user",
+        source: "oidc",
+        signedInAt: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+      });
+
+    signedIn(1);
+    expect((await runSchedule(storage, "alice", saved, NOW)).status).toBe("success");
+    signedIn(31);
+    expect((await runSchedule(storage, "alice", saved, NOW)).error).toBe("The schedule's owner can no longer sign in");
+  });
+
+  test("asks for the read grant as the owner is now, and runs nothing without it", async () => {
+    const saved = seed({ connectionId: "seed:prod" });
+    store.set(key(ACCESS_ROLES_OWNER, "access_roles"), [
+      { name: "analyst", members: ["alice"], groups: [], grants: [{ connection: "staging", permissions: ["read"] }] },
+    ]);
+    const queryStream = mock(provider.queryStream!);
+    provider.queryStream = queryStream;
+
+    const run = await runSchedule(storage, "alice", saved, NOW);
+    expect(run.status).toBe("error");
+    expect(run.error).toContain('"read"');
+    expect(queryStream).not.toHaveBeenCalled();
+  });
+
+  test("masks the rows it keeps before storing them", async () => {
+    const saved = seed({ threshold: null });
+    provider.queryStream = async function* (): AsyncGenerator<QueryBatch> {
+      yield { rows: [{ id: 1, email: "ada@example.com" }], fields: ["id", "email"] };
+    };
+
+    await runSchedule(storage, "alice", saved, NOW);
+    const [stored] = store.get(key("alice", "query_schedule_runs")) as { rows: Record<string, unknown>[] }[];
+    expect(stored.rows[0].id).toBe(1);
+    expect(stored.rows[0].email).not.toBe("ada@example.com");
+  });
+
+  test("does not bring back a schedule deleted while it ran", async () => {
+    const saved = seed();
+    provider.queryStream = async function* (): AsyncGenerator<QueryBatch> {
+      store.set(key("alice", "query_schedules"), []);
+      yield { rows: [], fields: [] };
+    };
+
+    await runSchedule(storage, "alice", saved, NOW);
+    expect(store.get(key("alice", "query_schedules"))).toEqual([]);
+  });
+});
+
+describe("runDueSchedules", () => {
+  test("runs every user's enabled schedules that are due, and nothing else", async () => {
+    seed();
+    store.set(key("alice", "query_schedules"), [
+      schedule({ id: "due" }),
+      schedule({ id: "later", nextRunAt: "2026-03-10T11:00:00.000Z" }),
+      schedule({ id: "off", enabled: false }),
+    ]);
+
+    expect(await runDueSchedules(NOW)).toBe(1);
+    const runs = store.get(key("alice", "query_schedule_runs")) as { scheduleId: string }[];
+    expect(runs.map((r) => r.scheduleId)).toEqual(["due"]);
+  });
+});
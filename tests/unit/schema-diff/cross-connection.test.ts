@@ -0,0 +1,77 @@
+import { describe, test, expect } from "bun:test";
+import { crossConnectionDiff, diffOptionsFor } from "@/lib/schema-diff/cross-connection";
+import { diffSchemas } from "@/lib/schema-diff/diff-engine";
+import type { ColumnSchema, DatabaseConnection, DatabaseType, TableSchema } from "@/lib/types";
+
+function connection(id: string, type: DatabaseType): DatabaseConnection {
+  return { id, name: id, type, createdAt: new Date("2026-01-01T00:00:00Z") };
+}
+
+function table(name: string, columns: ColumnSchema[]): TableSchema {
+  return { name, columns, indexes: [], foreignKeys: [] };
+}
+
+function column(name: string, defaultValue?: string, type = "varchar"): ColumnSchema {
+  return { name, type, nullable: true, isPrimary: false, defaultValue };
+}
+
+describe("diffOptionsFor: MySQL vs MariaDB defaults", () => {
+  const options = diffOptionsFor("mysql", "mysql");
+
+  function defaultsDiffer(mysql: string | undefined, mariadb: string | undefined) {
+    return diffSchemas([table("t", [column("c", mysql)])], [table("t", [column("c", mariadb)])], options).hasChanges;
+  }
+
+  test("a quoted string default matches the bare one", () => {
+    expect(defaultsDiffer("active", "'active'")).toBe(false);
+  });
+
+  test("an embedded quote is unescaped before comparing", () => {
+    expect(defaultsDiffer("it's", "'it''s'")).toBe(false);
+  });
+
+  test("the text NULL matches no default", () => {
+    expect(defaultsDiffer(undefined, "NULL")).toBe(false);
+  });
+
+  test("current_timestamp() matches CURRENT_TIMESTAMP, precision included", () => {
+    expect(defaultsDiffer("CURRENT_TIMESTAMP", "current_timestamp()")).toBe(false);
+    expect(defaultsDiffer("CURRENT_TIMESTAMP(3)", "current_timestamp(3)")).toBe(false);
+    expect(defaultsDiffer("CURRENT_TIMESTAMP", "current_timestamp(3)")).toBe(true);
+  });
+
+  test("a real difference still shows, spelled as each side reported it", () => {
+    const diff = diffSchemas([table("t", [column("c", "active")])], [table("t", [column("c", "'archived'")])], options);
+    expect(diff.tables[0].columns[0]).toMatchObject({ sourceDefault: "active", targetDefault: "'archived'" });
+  });
+
+  test("engines of different families compare defaults exactly", () => {
+    expect(diffOptionsFor("postgres", "mysql")).toEqual({});
+    expect(diffOptionsFor("postgres", "postgres")).toEqual({});
+  });
+});
+
+describe("crossConnectionDiff", () => {
+  const staging = {
+    connection: connection("staging", "mysql"),
+    schema: [table("users", [column("id")]), table("audit", [column("id")])],
+  };
+  const production = { connection: connection("production", "postgres"), schema: [table("users", [column("id")])] };
+
+  test("migrating the target brings it up to the source, in the target's dialect", () => {
+    const result = crossConnectionDiff(staging, production, "target");
+
+    expect(result.dialect).toBe("postgres");
+    expect(result.migrated.id).toBe("production");
+    expect(result.reference.id).toBe("staging");
+    expect(result.diff.tables).toMatchObject([{ action: "added", tableName: "audit" }]);
+  });
+
+  test("migrating the source brings it down to the target, in the source's dialect", () => {
+    const result = crossConnectionDiff(staging, production, "source");
+
+    expect(result.dialect).toBe("mysql");
+    expect(result.migrated.id).toBe("staging");
+    expect(result.diff.tables).toMatchObject([{ action: "removed", tableName: "audit" }]);
+  });
+});
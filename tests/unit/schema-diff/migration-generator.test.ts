@@ -320,6 +320,14 @@ describe("generateMigrationSQL: foreign keys in ALTER", () => {
     const sql = generateMigrationSQL(makeModifiedTableDiff(), "sqlite");
     expect(sql).toContain("-- SQLite: Cannot drop foreign key directly");
   });
+
+  test("DuckDB names both FK changes in comments: it has no ALTER TABLE ... CONSTRAINT", () => {
+    const sql = generateMigrationSQL(makeModifiedTableDiff(), "duckdb");
+    expect(sql).toContain('-- DuckDB: Cannot add foreign key on "dept_id" with ALTER TABLE.');
+    expect(sql).toContain("-- DuckDB: Cannot drop foreign key directly");
+    expect(sql).not.toContain("CONSTRAINT");
+    expect(sql).toContain('ALTER TABLE "users" ALTER COLUMN "name" TYPE');
+  });
 });
 
 // ============================================================================
@@ -763,11 +771,14 @@ const MODIFIED_COLUMN_COVERAGE: Record<DatabaseType, { label: string; reason: st
   oracle: "has-own-branch",
   mssql: "has-own-branch",
   clickhouse: "has-own-branch",
+  duckdb: "has-own-branch",
   couchbase: { label: "Couchbase", reason: "schemaless JSON documents" },
   druid: { label: "Apache Druid", reason: "no ALTER TABLE" },
   mongodb: { label: "MongoDB", reason: "schemaless" },
   redis: { label: "Redis", reason: "no column definitions" },
   libredb: { label: "LibreDB", reason: "JSON command grammar" },
+  cassandra: { label: "Cassandra", reason: "add a new column and backfill it" },
+  elasticsearch: { label: "Elasticsearch", reason: "reindex into it" },
 };
 
 describe("generateMigrationSQL: dialects that cannot modify a column", () => {
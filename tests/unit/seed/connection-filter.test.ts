@@ -36,6 +36,13 @@ describe("mergeDefaults", () => {
     expect(merged.ssl).toEqual({ mode: "require", rejectUnauthorized: true });
   });
 
+  it("a connection's own write policy overrides the default one, which fills in when it has none", () => {
+    const defaults: SeedDefaults = { writePolicy: "read-only" };
+    expect(mergeDefaults({ ...baseConn }, defaults).writePolicy).toBe("read-only");
+    expect(mergeDefaults({ ...baseConn, writePolicy: "approval" }, defaults).writePolicy).toBe("approval");
+    expect(filterByRoles([mergeDefaults({ ...baseConn }, defaults)], ["user"])[0].writePolicy).toBe("read-only");
+  });
+
   it("connection ssl overrides default ssl", () => {
     const defaults: SeedDefaults = { ssl: { mode: "require" } };
     const merged = mergeDefaults({ ...baseConn, ssl: { mode: "disable" } }, defaults);
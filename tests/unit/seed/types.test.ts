@@ -36,8 +36,13 @@ describe("SeedConnectionSchema", () => {
     expect(result.success).toBe(true);
   });
 
-  it("rejects unknown roles like data-team", () => {
+  it("accepts a custom role name like data-team", () => {
     const result = SeedConnectionSchema.safeParse({ ...validConn, roles: ["data-team"] });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects a role name that is not a plain identifier", () => {
+    const result = SeedConnectionSchema.safeParse({ ...validConn, roles: ["Data Team"] });
     expect(result.success).toBe(false);
   });
 
@@ -79,6 +84,9 @@ describe("SeedConnectionSchema", () => {
       "couchbase",
       "clickhouse",
       "druid",
+      "duckdb",
+      "cassandra",
+      "elasticsearch",
     ];
     for (const type of allTypes) {
       const result = SeedConnectionSchema.safeParse({ ...validConn, type });
@@ -140,4 +148,9 @@ describe("SeedDefaultsSchema", () => {
     const result = SeedDefaultsSchema.safeParse({ environment: "unknown" });
     expect(result.success).toBe(false);
   });
+
+  it("accepts a write policy and rejects an unknown one", () => {
+    expect(SeedDefaultsSchema.safeParse({ writePolicy: "read-only" }).success).toBe(true);
+    expect(SeedDefaultsSchema.safeParse({ writePolicy: "readonly" }).success).toBe(false);
+  });
 });
@@ -4,6 +4,7 @@ import {
   type BracketGrammar,
   DEFAULT_SQL_GRAMMAR,
   hashRunIsAmbiguous,
+  type PlaceholderSigil,
   readsSqlText,
   resolveSqlGrammar,
 } from "@/lib/sql/grammar";
@@ -33,6 +34,8 @@ describe("resolveSqlGrammar", () => {
   //   `#` as an identifier character and opens comments on `--` and `/*` only.
   // - SQLite: the bundled SQLite amalgamation classifies `#` as `CC_VARALPHA`
   //   (a bind-variable prefix, i.e. code) and opens comments on `--` and `/*`.
+  // - DuckDB: `SELECT 1 # x` is a syntax error in the bundled engine, so `#` is code.
+  // - Cassandra: `#` matches no token in its ANTLR lexer, so it opens nothing.
 
   test.each<[DatabaseType, "comment" | "code"]>([
     ["mysql", "comment"],
@@ -41,6 +44,8 @@ describe("resolveSqlGrammar", () => {
     ["oracle", "code"],
     ["mssql", "code"],
     ["sqlite", "code"],
+    ["duckdb", "code"],
+    ["cassandra", "code"],
   ])("%s reads `#` as %s", (type, hash) => {
     expect(resolveSqlGrammar(type).hash).toBe(hash);
   });
@@ -51,7 +56,7 @@ describe("resolveSqlGrammar", () => {
   // dialect's rule from a neighbouring one is exactly what this milestone forbids.
   // They keep today's reading, which costs them nothing they had.
 
-  test.each<DatabaseType>(["couchbase", "druid", "libredb", "mongodb", "redis"])(
+  test.each<DatabaseType>(["couchbase", "druid", "elasticsearch", "libredb", "mongodb", "redis"])(
     "%s is left at the compatibility default",
     (type) => {
       expect(resolveSqlGrammar(type)).toBe(DEFAULT_SQL_GRAMMAR);
@@ -93,7 +98,7 @@ describe("resolveSqlGrammar", () => {
     expect(resolveSqlGrammar("oracle").alternateQuoting).toBe(true);
   });
 
-  test.each<DatabaseType>(["mysql", "clickhouse", "postgres", "mssql", "sqlite"])(
+  test.each<DatabaseType>(["mysql", "clickhouse", "postgres", "mssql", "sqlite", "duckdb", "cassandra"])(
     "%s does not read `q'…'` as a literal",
     (type) => {
       expect(resolveSqlGrammar(type).alternateQuoting).toBe(false);
@@ -106,6 +111,16 @@ describe("resolveSqlGrammar", () => {
     expect(DEFAULT_SQL_GRAMMAR.alternateQuoting).toBe(false);
   });
 
+  // `//` opens a line comment in CQL's lexer (`COMMENT: ('--' | '//') .*`) and in no
+  // other dialect here, where it is two division operators or a syntax error.
+  test("only cassandra reads `//` as a line comment", () => {
+    expect(resolveSqlGrammar("cassandra").slashLineComment).toBe(true);
+    for (const type of ["mysql", "clickhouse", "postgres", "oracle", "mssql", "sqlite", "duckdb"] as const) {
+      expect(resolveSqlGrammar(type).slashLineComment).toBe(false);
+    }
+    expect(DEFAULT_SQL_GRAMMAR.slashLineComment).toBe(false);
+  });
+
   // ── `[…]`: two readings that cannot both apply (#295) ────────────────────
   //
   // - SQL Server: `[name]` is a delimited identifier and a `]` inside it is
@@ -130,6 +145,8 @@ describe("resolveSqlGrammar", () => {
     ["sqlite", "quoted-identifier"],
     ["clickhouse", "subscript"],
     ["postgres", "subscript"],
+    ["duckdb", "subscript"],
+    ["cassandra", "subscript"],
   ])("%s reads `[…]` as %s", (type, bracket) => {
     expect(resolveSqlGrammar(type).bracket).toBe(bracket);
   });
@@ -177,7 +194,9 @@ describe("resolveSqlGrammar", () => {
     ["postgres", "nesting"],
     ["mssql", "nesting"],
     ["clickhouse", "nesting"],
+    ["duckdb", "nesting"],
     ["mysql", "flat"],
+    ["cassandra", "flat"],
     ["sqlite", "flat"],
     ["oracle", "flat"],
   ])("%s closes a block comment the %s way", (type, blockComment) => {
@@ -190,6 +209,38 @@ describe("resolveSqlGrammar", () => {
     // were written against.
     expect(DEFAULT_SQL_GRAMMAR.blockComment).toBe("flat");
   });
+
+  // ── `:id`, `$1`, `@since`: which sigils open a query parameter ─────────────
+  //
+  // - PostgreSQL: `$n` is what `pg` binds; `:name` is psql's own interpolation.
+  // - MySQL: `:name` is what `mysql2`'s named-placeholders parser reads; `@x` is a
+  //   user variable there, so it is not a parameter.
+  // - Oracle: node-oracledb's tokenizer opens a bind at every `:` (`_parseBindName`).
+  // - SQL Server: `@name` is what `tedious` binds; `:` opens sqlcmd commands.
+  // - SQLite: the amalgamation classifies `:` and `@` as `CC_VARALPHA` and `$` as
+  //   `CC_DOLLAR`, all bind-variable prefixes.
+  // - ClickHouse: its own form is `{name:Type}` and `:` is its ternary's else.
+  // - DuckDB: `$n` binds; `:x` is a syntax error and `@x` a column reference.
+  // - Cassandra: a bind marker is `?` or `:name`, and `?` has no name to ask for.
+
+  test.each<[DatabaseType, PlaceholderSigil[]]>([
+    ["postgres", [":", "$"]],
+    ["mysql", [":"]],
+    ["oracle", [":"]],
+    ["mssql", ["@"]],
+    ["sqlite", [":", "@", "$"]],
+    ["clickhouse", []],
+    ["duckdb", ["$"]],
+    ["cassandra", [":"]],
+  ])("%s reads parameters opened by %p", (type, sigils) => {
+    expect([...resolveSqlGrammar(type).placeholders].sort()).toEqual([...sigils].sort());
+  });
+
+  test("the compatibility default reads no parameters at all", () => {
+    // Today's reading: before the parameter panel no dialect asked for a value, and
+    // an unknown one still should not start to.
+    expect(DEFAULT_SQL_GRAMMAR.placeholders).toEqual([]);
+  });
 });
 
 describe("hashRunIsAmbiguous", () => {
@@ -234,10 +285,13 @@ const GRAMMAR_COVERAGE: Record<DatabaseType, "established" | "default"> = {
   oracle: "established",
   mssql: "established",
   clickhouse: "established",
+  duckdb: "established",
+  cassandra: "established",
   // No authoritative source was established for these, so they read as SQL under
   // the compatibility grammar. See the module doc in `grammar.ts`.
   couchbase: "default",
   druid: "default",
+  elasticsearch: "default",
   libredb: "default",
   // Not SQL at all - see SQL_TEXT_COVERAGE below.
   mongodb: "default",
@@ -259,8 +313,11 @@ const SQL_TEXT_COVERAGE: Record<DatabaseType, boolean> = {
   oracle: true,
   mssql: true,
   clickhouse: true,
+  duckdb: true,
+  cassandra: true,
   couchbase: true,
   druid: true,
+  elasticsearch: true,
   libredb: true,
   mongodb: false,
   redis: false,
@@ -0,0 +1,115 @@
+import { describe, expect, test } from "bun:test";
+import { resolveSqlGrammar } from "@/lib/sql/grammar";
+import {
+  bindQueryParameters,
+  QueryParameterError,
+  readParameterValue,
+  readQueryParameters,
+} from "@/lib/sql/parameters";
+import type { QueryParameter } from "@/lib/types";
+
+const pg = resolveSqlGrammar("postgres");
+const mssql = resolveSqlGrammar("mssql");
+
+const text = (name: string, value: string): QueryParameter => ({ name, type: "text", value });
+
+describe("readQueryParameters", () => {
+  test("reads each parameter once, in the order it first appears", () => {
+    expect(readQueryParameters("SELECT * FROM t WHERE a = :b AND c = :a OR d = :b", pg)).toEqual([":b", ":a"]);
+  });
+
+  test("reads the sigils the dialect allows and no others", () => {
+    const sql = "SELECT :name, $1, @since";
+    expect(readQueryParameters(sql, pg)).toEqual([":name", "$1"]);
+    expect(readQueryParameters(sql, resolveSqlGrammar("mysql"))).toEqual([":name"]);
+    expect(readQueryParameters(sql, mssql)).toEqual(["@since"]);
+    expect(readQueryParameters(sql, resolveSqlGrammar("sqlite"))).toEqual([":name", "$1", "@since"]);
+    expect(readQueryParameters(sql, resolveSqlGrammar("clickhouse"))).toEqual([]);
+  });
+
+  test("reads none without a dialect", () => {
+    expect(readQueryParameters("SELECT :a")).toEqual([]);
+  });
+
+  test("skips casts, assignments, globals and names with a sigil inside", () => {
+    expect(readQueryParameters("SELECT x::int, a[1:n], a[lo:hi], col$1 FROM t", pg)).toEqual([]);
+    expect(readQueryParameters("SELECT @x := 1", resolveSqlGrammar("mysql"))).toEqual([]);
+    expect(readQueryParameters("SELECT @@ROWCOUNT, t.a FROM t@remote", mssql)).toEqual([]);
+  });
+
+  test("skips strings, quoted names, comments and dollar-quoted bodies", () => {
+    const sql = `SELECT ':a', ":b" -- :c
+      /* :d */ , $$ :e $$, :f`;
+    expect(readQueryParameters(sql, pg)).toEqual([":f"]);
+  });
+
+  test("steps into a subscript rather than over it", () => {
+    expect(readQueryParameters("SELECT * FROM t WHERE id = ANY(ARRAY[:a, :b])", pg)).toEqual([":a", ":b"]);
+  });
+
+  test("leaves a name the text DECLAREs alone, but not one in its initialiser", () => {
+    const sql = "DECLARE @a INT, @b DECIMAL(10, 2) = @from; SELECT @a, @b, @to";
+    expect(readQueryParameters(sql, mssql)).toEqual(["@from", "@to"]);
+  });
+
+  test("ends a DECLARE list at the next statement even without a semicolon", () => {
+    expect(readQueryParameters("DECLARE @a INT SELECT @a, @b", mssql)).toEqual(["@b"]);
+  });
+});
+
+describe("readParameterValue", () => {
+  test("reads each type from the text the panel holds", () => {
+    expect(readParameterValue(text(":a", " x "))).toBe(" x ");
+    expect(readParameterValue({ name: ":a", type: "number", value: " 4.5 " })).toBe(4.5);
+    expect(readParameterValue({ name: ":a", type: "boolean", value: "false" })).toBe(false);
+    expect(readParameterValue({ name: ":a", type: "date", value: "2026-10-19" })).toBe("2026-10-19");
+    expect(readParameterValue({ name: ":a", type: "null", value: "ignored" })).toBeNull();
+  });
+
+  test("refuses a value that does not read as its type, naming the parameter", () => {
+    expect(() => readParameterValue({ name: ":n", type: "number", value: "" })).toThrow(":n is not a number");
+    expect(() => readParameterValue({ name: ":n", type: "number", value: "abc" })).toThrow(QueryParameterError);
+    expect(() => readParameterValue({ name: ":b", type: "boolean", value: "yes" })).toThrow(":b must be true or false");
+    expect(() => readParameterValue({ name: ":d", type: "date", value: "19/10/2026" })).toThrow(":d is not a date");
+  });
+});
+
+describe("bindQueryParameters", () => {
+  test("is null for a statement with no placeholders", () => {
+    expect(bindQueryParameters("SELECT 1", [], "postgres")).toBeNull();
+  });
+
+  test("rewrites every occurrence to the driver's own placeholder", () => {
+    const values = [text(":b", "x"), { name: ":a", type: "number" as const, value: "7" }];
+    const sql = "SELECT * FROM t WHERE a = :a AND b = :b OR a2 = :a";
+
+    expect(bindQueryParameters(sql, values, "postgres")).toEqual({
+      query: "SELECT * FROM t WHERE a = $1 AND b = $2 OR a2 = $3",
+      params: [7, "x", 7],
+      parameters: [values[1], values[0]],
+    });
+    expect(bindQueryParameters(sql, values, "mysql")?.query).toBe("SELECT * FROM t WHERE a = ? AND b = ? OR a2 = ?");
+    expect(bindQueryParameters(sql, values, "oracle")?.query).toBe(
+      "SELECT * FROM t WHERE a = :1 AND b = :2 OR a2 = :3",
+    );
+  });
+
+  test("renumbers positional parameters by where they appear", () => {
+    const bound = bindQueryParameters("SELECT $2, $1", [text("$1", "one"), text("$2", "two")], "postgres");
+    expect(bound).toMatchObject({ query: "SELECT $1, $2", params: ["two", "one"] });
+  });
+
+  test("keeps a value out of the statement text", () => {
+    const bound = bindQueryParameters("SELECT * FROM t WHERE name = @name", [text("@name", "x' OR 1=1 --")], "mssql");
+    expect(bound).toMatchObject({ query: "SELECT * FROM t WHERE name = @p1", params: ["x' OR 1=1 --"] });
+  });
+
+  test("refuses a run with a placeholder that has no value", () => {
+    expect(() => bindQueryParameters("SELECT :a, :b", [text(":a", "1")], "postgres")).toThrow("No value for :b");
+  });
+
+  test("binds nothing for a dialect that reads no parameters", () => {
+    expect(bindQueryParameters("SELECT :a", [text(":a", "1")], "clickhouse")).toBeNull();
+    expect(bindQueryParameters('{"filter":{"a":":a"}}', [text(":a", "1")], "mongodb")).toBeNull();
+  });
+});
@@ -696,6 +696,16 @@ describe("hasUnterminatedSpan", () => {
     expect(elapsed, `took ${elapsed.toFixed(1)}ms`).toBeLessThan(200);
   });
 
+  test("the dialect decides whether `//` opens a comment", () => {
+    // An apostrophe in a CQL line comment is prose; read as code it opens a string
+    // that runs to the end of the input.
+    const commented = "// don't page this\nSELECT * FROM events";
+
+    expect(hasUnterminatedSpan(commented)).toBe(true);
+    expect(hasUnterminatedSpan(commented, resolveSqlGrammar("cassandra"))).toBe(false);
+    expect(spanOf(commented, 0, resolveSqlGrammar("cassandra"))).toBe("line-comment|// don't page this\n");
+  });
+
   test("the dialect decides whether an alternate-quoted literal resolves", () => {
     // Read as ordinary code the apostrophe inside the body opens a string that
     // swallows the rest of the input; under Oracle's grammar the form closes.
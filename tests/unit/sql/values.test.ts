@@ -22,6 +22,9 @@ describe("quoteLiteral", () => {
     expect(quoteLiteral("O'Brien", "mssql")).toBe("'O''Brien'");
     expect(quoteLiteral("O'Brien", "clickhouse")).toBe("'O''Brien'");
     expect(quoteLiteral("O'Brien", "druid")).toBe("'O''Brien'");
+    expect(quoteLiteral("O'Brien", "duckdb")).toBe("'O''Brien'");
+    expect(quoteLiteral("O'Brien", "cassandra")).toBe("'O''Brien'");
+    expect(quoteLiteral("O'Brien", "elasticsearch")).toBe("'O''Brien'");
   });
 
   test("escapes the quote with a backslash where the grammar has no doubling", () => {
@@ -43,6 +46,9 @@ describe("quoteLiteral", () => {
     expect(quoteLiteral("a\\b", "oracle")).toBe("'a\\b'");
     expect(quoteLiteral("a\\b", "mssql")).toBe("'a\\b'");
     expect(quoteLiteral("a\\b", "druid")).toBe("'a\\b'");
+    expect(quoteLiteral("a\\b", "duckdb")).toBe("'a\\b'");
+    expect(quoteLiteral("a\\b", "cassandra")).toBe("'a\\b'");
+    expect(quoteLiteral("a\\b", "elasticsearch")).toBe("'a\\b'");
   });
 
   test("gives the standard form to an engine that has no SQL of its own", () => {
@@ -88,18 +94,26 @@ describe("positionalPlaceholder", () => {
     // Druid's provider binds a `parameters` array against `?` placeholders, which
     // its own doc comment records as live-verified.
     expect(positionalPlaceholder("druid", 1)).toBe("?");
+    // The Cassandra provider prepares every statement and binds its params
+    // positionally, and `?` is CQL's anonymous bind marker.
+    expect(positionalPlaceholder("cassandra", 1)).toBe("?");
     // Couchbase sends `args`, which SQL++ reads as `$1`, `$2` — the integration
     // test pins the pair with `bodyOf("country = $1").args`.
     expect(positionalPlaceholder("couchbase", 1)).toBe("$1");
     expect(positionalPlaceholder("couchbase", 2)).toBe("$2");
+    // The DuckDB provider hands the params array to the engine's own binder, which
+    // reads `$1`; `?` binds there too, but `$n` is the form its grammar declares.
+    expect(positionalPlaceholder("duckdb", 1)).toBe("$1");
   });
 
   test("returns null where this repo knows there is no positional bind form", () => {
-    // ClickHouse's provider refuses positional parameters outright, and the other
-    // three declare `queryLanguage: "json"`, so no SQL statement binds anything for
-    // them. Null is the signal to quote the value instead — never to emit an
-    // unbound placeholder.
+    // ClickHouse's provider refuses positional parameters outright, the
+    // Elasticsearch provider refuses parameters of any kind, and the other three
+    // declare `queryLanguage: "json"`, so no SQL statement binds anything for them.
+    // Null is the signal to quote the value instead — never to emit an unbound
+    // placeholder.
     expect(positionalPlaceholder("clickhouse", 1)).toBeNull();
+    expect(positionalPlaceholder("elasticsearch", 1)).toBeNull();
     expect(positionalPlaceholder("mongodb", 1)).toBeNull();
     expect(positionalPlaceholder("redis", 1)).toBeNull();
     expect(positionalPlaceholder("libredb", 1)).toBeNull();
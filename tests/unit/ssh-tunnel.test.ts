@@ -1,6 +1,7 @@
 import "../setup";
 import { mock, describe, test, expect, beforeEach, afterEach } from "bun:test";
 import { EventEmitter } from "events";
+import * as realNet from "net";
 
 // --- Mock ssh2 Client ---
 class MockSSHClient extends EventEmitter {
@@ -78,8 +79,12 @@ class MockServer extends EventEmitter {
 
 let mockServerInstance: MockServer;
 
+// The real module underneath: this mock lasts for the whole process, and other
+// suites' code connects with `net` for real (the syslog audit sink, for one).
 mock.module("net", () => ({
+  ...realNet,
   default: {
+    ...realNet,
     createServer: (handler: (socket: unknown) => void) => {
       mockServerInstance = new MockServer(handler);
       return mockServerInstance;
@@ -0,0 +1,94 @@
+import { describe, test, expect } from "bun:test";
+import { readFolder, readTeamInput, readTeamItemInput, TeamInputError } from "@/lib/teams/input";
+import { writesFolder } from "@/lib/teams/access";
+
+describe("readFolder", () => {
+  test("normalizes slashes and spaces, with the top level as empty", () => {
+    expect(readFolder(" /Finance//monthly/ ")).toBe("Finance/monthly");
+    expect(readFolder(undefined)).toBe("");
+    expect(readFolder("/")).toBe("");
+  });
+
+  test("refuses dot segments and non-strings", () => {
+    expect(() => readFolder("finance/../ops")).toThrow("cannot contain . or ..");
+    expect(() => readFolder(3)).toThrow(TeamInputError);
+  });
+});
+
+describe("readTeamInput", () => {
+  test("keeps folders only on write members, and drops a list that covers the whole team", () => {
+    const input = readTeamInput({
+      name: " Analytics ",
+      members: [
+        { username: " alice ", role: "write", folders: ["finance", "finance/"] },
+        { username: "bob", role: "read", folders: ["ops"] },
+        { username: "carol", role: "write", folders: [] },
+        { username: "dave", role: "write", folders: ["ops", "/"] },
+      ],
+    });
+    expect(input).toEqual({
+      name: "Analytics",
+      members: [
+        { username: "alice", role: "write", folders: ["finance"] },
+        { username: "bob", role: "read" },
+        { username: "carol", role: "write" },
+        { username: "dave", role: "write" },
+      ],
+    });
+  });
+
+  test("refuses an unknown role and a member listed twice", () => {
+    expect(() => readTeamInput({ name: "T", members: [{ username: "a", role: "admin" }] })).toThrow(
+      'a: role must be "read" or "write"',
+    );
+    expect(() =>
+      readTeamInput({
+        name: "T",
+        members: [
+          { username: "a", role: "read" },
+          { username: " a", role: "write" },
+        ],
+      }),
+    ).toThrow("a is listed twice");
+  });
+});
+
+describe("readTeamItemInput", () => {
+  const query = { name: "Revenue", query: "SELECT 1" };
+
+  test("reads a new item and an edit of one", () => {
+    expect(readTeamItemInput({ kind: "saved_queries", folder: "a/", data: query }) as unknown).toEqual({
+      kind: "saved_queries",
+      folder: "a",
+      data: query,
+    });
+    expect(readTeamItemInput({ id: "ti_1", baseVersion: 3, kind: "saved_queries", data: query })).toMatchObject({
+      id: "ti_1",
+      baseVersion: 3,
+    });
+  });
+
+  test("refuses an unknown kind, data of the wrong shape, and an edit without its version", () => {
+    expect(() => readTeamItemInput({ kind: "connections", data: query })).toThrow("kind must be one of");
+    expect(() => readTeamItemInput({ kind: "saved_charts", data: query })).toThrow("data is not a saved_charts record");
+    expect(() => readTeamItemInput({ kind: "schema_snapshots", data: [] })).toThrow("data is required");
+    expect(() => readTeamItemInput({ id: "ti_1", kind: "saved_queries", data: query })).toThrow(
+      "baseVersion is required",
+    );
+  });
+});
+
+describe("writesFolder", () => {
+  test("a read role writes nowhere, an unscoped write everywhere", () => {
+    expect(writesFolder({ role: "read" }, "")).toBe(false);
+    expect(writesFolder({ role: "write" }, "any/where")).toBe(true);
+  });
+
+  test("a scoped write reaches its folders and what is below them, not a sibling sharing a prefix", () => {
+    const access = { role: "write" as const, folders: ["finance"] };
+    expect(writesFolder(access, "finance")).toBe(true);
+    expect(writesFolder(access, "finance/monthly")).toBe(true);
+    expect(writesFolder(access, "finance-archive")).toBe(false);
+    expect(writesFolder(access, "")).toBe(false);
+  });
+});
@@ -37,6 +37,8 @@ export default defineConfig({
     "mongodb",
     "ioredis",
     "@libredb/libredb",
+    "@duckdb/node-api",
+    "cassandra-driver",
     // SSH and crypto
     "ssh2",
     // Monaco editor